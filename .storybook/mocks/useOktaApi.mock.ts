@@ -139,6 +139,7 @@ export function makeUseOktaApiValue(overrides: UseOktaApiValue = {}): UseOktaApi
     listPolicies: asyncFn([]),
     getPolicyRules: asyncFn([]),
     getAppAccessPolicyId: asyncFn(null),
+    listNetworkZones: asyncFn([]),
 
     // Export operations
     exportMembers: asyncFn(),
@@ -151,6 +152,26 @@ export function makeUseOktaApiValue(overrides: UseOktaApiValue = {}): UseOktaApi
     // Push group operations
     getAppPushGroupMappings: asyncFn([]),
     applyPushGroupMappings: asyncFn(),
+    listAppTargetGroups: asyncFn([]),
+    getGroupPushLinks: asyncFn({ links: [], unreadableApps: [] }),
+    getAppGroupPushLinks: asyncFn([]),
+    getGroupPushMapping: asyncFn(null),
+    createGroupPushMapping: fn(async (app: any, source: any, target: any) => ({
+      success: true,
+      link: {
+        mappingId: crypto.randomUUID(),
+        appId: app.id,
+        appName: app.name,
+        sourceGroupId: source.id,
+        sourceGroupName: source.name,
+        targetGroupId: target.kind === 'existing' ? target.id : crypto.randomUUID(),
+        targetGroupName: target.name,
+        status: 'ACTIVE',
+      },
+    })),
+    setGroupPushMappingStatus: asyncFn({ success: true }),
+    pushGroupNow: asyncFn({ success: true }),
+    deleteGroupPushMapping: asyncFn({ success: true }),
 
     // Group analysis operations
     compareGroups: asyncFn(null),
@@ -162,10 +183,208 @@ export function makeUseOktaApiValue(overrides: UseOktaApiValue = {}): UseOktaApi
     // Rule consolidation writes
     getRawGroupRule: asyncFn(null),
     createGroupRule: asyncFn(),
+    updateGroupRule: asyncFn(),
     deleteGroupRule: asyncFn(),
     activateGroupRule: asyncFn(),
     deactivateGroupRule: asyncFn(),
 
+    // Rule authoring workbench (read-only)
+    sampleUsersForRule: asyncFn([sampleUser]),
+    simulateRuleAcrossOrg: asyncFn({
+      rows: [{ user: sampleUser, outcome: 'match' }],
+      summary: {
+        total: 1,
+        matched: 1,
+        noMatch: 0,
+        unevaluable: 0,
+        starts: 0,
+        stops: 0,
+        unknownChange: 0,
+        unevaluableReasons: [],
+      },
+    }),
+
+    // Interrupted bulk-operation recovery
+    listInterruptedOperations: asyncFn([]),
+    getInterruptedItems: asyncFn([]),
+    resumeInterruptedOperation: asyncFn({
+      missing: false,
+      succeeded: 0,
+      failed: 0,
+      unknown: 0,
+      remaining: 0,
+      cancelled: false,
+    }),
+    rollBackInterruptedOperation: asyncFn({
+      missing: false,
+      succeeded: 0,
+      failed: 0,
+      unknown: 0,
+      remaining: 0,
+      cancelled: false,
+    }),
+    abandonInterruptedOperation: asyncFn(),
+
+    // CSV group import
+    previewGroupImport: asyncFn({
+      group: { id: '00gFAKE1', name: 'Engineering' },
+      rows: [],
+      counts: { 'to-add': 0, 'already-member': 0, duplicate: 0, 'not-found': 0, ambiguous: 0 },
+      toAdd: [],
+      duplicateInputs: 0,
+      feedingRuleNames: [],
+    }),
+    applyGroupImport: asyncFn({
+      outcomes: new Map(),
+      added: 0,
+      failed: 0,
+      notSent: 0,
+      cancelled: false,
+    }),
+    previewBulkProfileUpdate: asyncFn({
+      keyColumn: 'id',
+      attributeNames: [],
+      rows: [],
+      counts: { ready: 0, 'no-change': 0, blocked: 0, duplicate: 0, 'not-found': 0 },
+      ready: [],
+      changeCount: 0,
+    }),
+    analyzeBulkProfileImpact: asyncFn({
+      status: 'computed',
+      groups: [],
+      counts: { usersAnalyzed: 0, usersAffected: 0, added: 0, removed: 0, notPredicted: 0 },
+      notAnalyzed: [],
+      secondOrderRuleNames: [],
+    }),
+    applyBulkProfileUpdate: asyncFn({
+      outcomes: new Map(),
+      saved: 0,
+      failed: 0,
+      unknown: 0,
+      notSent: 0,
+      cancelled: false,
+      savedUsers: [],
+    }),
+
+    // Access review
+    startAccessReview: asyncFn({
+      id: 'review-fake',
+      version: 1,
+      groupId: '00gFAKE1',
+      groupName: 'Engineering',
+      createdAt: new Date('2026-01-05T09:00:00Z'),
+      createdBy: 'admin@example.com',
+      dueAt: new Date('2026-03-31T23:59:59Z'),
+      status: 'open',
+      items: [],
+    }),
+    applyAccessReviewRevocations: fn(async (campaign: any) => ({
+      ...campaign,
+      revocationsAppliedAt: new Date(),
+    })),
+    signOffAccessReview: fn(async (campaign: any) => ({
+      ...campaign,
+      status: 'signed-off',
+      signedOffAt: new Date(),
+      signedOffBy: 'admin@example.com',
+    })),
+
+    // Membership snapshots
+    takeMembershipSnapshot: fn(async (group: any, label?: string) => ({
+      id: crypto.randomUUID(),
+      version: 1,
+      groupId: group.id,
+      groupName: group.name,
+      takenAt: new Date(),
+      takenBy: 'admin@example.com',
+      ...(label ? { label } : {}),
+      members: [],
+    })),
+
+    // System Log
+    queryLogs: asyncFn({ events: [], nextUrl: null }),
+    getLogPage: asyncFn({ events: [], nextUrl: null }),
+    getMembershipTimeline: asyncFn({ entries: [], systemLogError: null }),
+    getRecentDeletions: asyncFn({ objects: [], truncated: false }),
+
+    // SSO Inspector
+    captureSamlResponse: fn(async () => {
+      throw new Error('No SAMLResponse on this page. Paste one instead.');
+    }),
+
+    // Certificate inventory
+    getCertificateInventory: asyncFn({
+      records: [],
+      readAt: new Date().toISOString(),
+      idpError: null,
+      appListError: null,
+      unreadableApps: [],
+    }),
+
+    // Administrator roles
+    getUserRoles: asyncFn([]),
+    getRoleTargets: asyncFn(null),
+    grantUserRole: fn(async (_user: any, type: string) => ({
+      success: true,
+      role: {
+        assignmentId: crypto.randomUUID(),
+        type,
+        label: type,
+        status: 'ACTIVE',
+        assignmentType: 'USER',
+        revocable: true,
+      },
+    })),
+    revokeUserRole: asyncFn({ success: true }),
+    getAdminsReport: asyncFn({
+      rows: [],
+      readAt: new Date().toISOString(),
+      adminCount: 0,
+      unreadable: [],
+    }),
+
+    // Linked objects
+    getLinkedObjectDefinitions: asyncFn([]),
+    getLinkedUsers: asyncFn([]),
+
+    // API Console
+    sendConsoleRequest: asyncFn({
+      ok: true,
+      status: 200,
+      data: [],
+      error: null,
+      nextPath: null,
+      durationMs: 120,
+    }),
+
+    // Okta session
+    getSessionExpiry: asyncFn(new Date(Date.now() + 90 * 60_000).toISOString()),
+
+    // MFA factors
+    getUserFactors: asyncFn([]),
+    resetUserFactor: asyncFn({ success: true }),
+    startFactorVerification: asyncFn({ state: 'challenge' }),
+    pollFactorVerification: asyncFn({ state: 'verified' }),
+    submitFactorCode: asyncFn({ state: 'verified' }),
+    abandonFactorVerification: asyncFn({
+      state: 'failed',
+      error: 'Stopped before the user answered.',
+    }),
+
+    // Bulk lifecycle console
+    resolveLifecycleTargets: asyncFn({
+      sourceLabel: '0 listed users',
+      targets: [],
+      currentUserId: null,
+    }),
+    applyBulkLifecycle: asyncFn({
+      outcomes: new Map(),
+      done: 0,
+      failed: 0,
+      notSent: 0,
+      cancelled: false,
+    }),
+
     ...overrides,
   };
 }
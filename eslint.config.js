@@ -54,6 +54,12 @@ export default [
         HTMLDivElement: 'readonly',
         IntersectionObserver: 'readonly',
         IDBKeyRange: 'readonly',
+        HTMLTextAreaElement: 'readonly',
+        Element: 'readonly',
+        DOMParser: 'readonly',
+        TextDecoder: 'readonly',
+        atob: 'readonly',
+        btoa: 'readonly',
       },
     },
     plugins: {
@@ -119,6 +119,12 @@ beforeEach(async () => {
     storage: { sync: { set: vi.fn() } },
     notifications: { create: vi.fn() },
     sidePanel: { open: vi.fn() },
+    omnibox: {
+      setDefaultSuggestion: vi.fn(async () => undefined),
+      onInputStarted: { addListener: vi.fn() },
+      onInputChanged: { addListener: vi.fn() },
+      onInputEntered: { addListener: vi.fn() },
+    },
   } as unknown as typeof chrome;
 
   await loadBackground();
@@ -10,6 +10,9 @@
  * - Tab state persistence across browser sessions
  * - Audit log retention and cleanup
  * - Extension lifecycle events (install, update, icon clicks)
+ * - The `ou` omnibox keyword (see `./omnibox`)
+ * - Scheduled reports and their notifications (see `./scheduledReports`)
+ * - Watchlist checks and the action badge (see `./watchlist`)
  * - Message routing between content scripts and sidepanel
  *
  * **API Scheduler:**
@@ -44,6 +47,9 @@ import { createLogger } from '../shared/utils/logger';
 import { isOktaUrl } from '../shared/utils/oktaUrl';
 import { createThrottledRelay } from './throttledRelay';
 import { reinjectContentScripts } from './reinjectContentScripts';
+import { registerOmnibox } from './omnibox';
+import { handleReportAlarm, runScheduledReport, syncReportAlarms } from './scheduledReports';
+import { WATCHLIST_ALARM, runWatchlistCheck, syncWatchlist } from './watchlist';
 
 const log = createLogger('Background');
 
@@ -307,6 +313,72 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
 
       return true;
 
+    case 'scheduledReportsChanged':
+      // The side panel saved or deleted a report: set the alarms to match.
+      if (rejectIfFromTab(sender, 'scheduledReportsChanged', sendResponse)) {
+        return true;
+      }
+      syncReportAlarms()
+        .then(() => {
+          sendResponse({ success: true });
+        })
+        .catch((error) => {
+          sendResponse({ success: false, error: error.message });
+        });
+
+      return true;
+
+    case 'runScheduledReportNow':
+      // A report runs Okta API calls, so only the side panel may start one.
+      if (rejectIfFromTab(sender, 'runScheduledReportNow', sendResponse)) {
+        return true;
+      }
+      if (!request.reportId) {
+        sendResponse({ success: false, error: 'Missing reportId' });
+        return true;
+      }
+
+      runScheduledReport(globalScheduler, request.reportId, { manual: true })
+        .then((run) => {
+          sendResponse({ success: true, run });
+        })
+        .catch((error) => {
+          sendResponse({ success: false, error: error.message });
+        });
+
+      return true;
+
+    case 'watchlistChanged':
+      // The side panel pinned, unpinned or marked changes seen: match the alarm
+      // and badge, and take the baseline of anything newly pinned.
+      if (rejectIfFromTab(sender, 'watchlistChanged', sendResponse)) {
+        return true;
+      }
+      syncWatchlist(globalScheduler)
+        .then(() => {
+          sendResponse({ success: true });
+        })
+        .catch((error) => {
+          sendResponse({ success: false, error: error.message });
+        });
+
+      return true;
+
+    case 'checkWatchlistNow':
+      // A check runs Okta API calls, so only the side panel may start one.
+      if (rejectIfFromTab(sender, 'checkWatchlistNow', sendResponse)) {
+        return true;
+      }
+      runWatchlistCheck(globalScheduler)
+        .then((changes) => {
+          sendResponse({ success: true, changes: changes.length });
+        })
+        .catch((error) => {
+          sendResponse({ success: false, error: error.message });
+        });
+
+      return true;
+
     default:
       // Unknown action - don't handle
       return false;
@@ -397,6 +469,13 @@ chrome.contextMenus.onClicked.addListener((info, tab) => {
   }
 });
 
+// ============================================================================
+// Omnibox Keyword
+// ============================================================================
+
+// `ou <name>` in the address bar searches the connected org through the scheduler.
+registerOmnibox(globalScheduler);
+
 // ============================================================================
 // Audit Log Retention
 // ============================================================================
@@ -454,8 +533,26 @@ chrome.alarms.onAlarm.addListener(async (alarm) => {
       log.error('Failed to cleanup expired tab states', error);
     }
   }
+
+  if (alarm.name === WATCHLIST_ALARM) {
+    try {
+      await runWatchlistCheck(globalScheduler);
+    } catch (error) {
+      log.error('Watchlist check failed', error);
+    }
+  }
+
+  // Each scheduled report has its own alarm; the runner records its own failures.
+  handleReportAlarm(globalScheduler, alarm.name);
 });
 
 // Initialize alarms on service worker start
 setupAuditRetentionAlarm();
 setupTabStateCleanupAlarm();
+// Reports saved while the worker was stopped, or whose run was missed, get their alarm.
+syncReportAlarms().catch((error) => {
+  log.error('Failed to sync scheduled report alarms', error);
+});
+syncWatchlist(globalScheduler).catch((error) => {
+  log.error('Failed to sync the watchlist', error);
+});
@@ -0,0 +1,37 @@
+/**
+ * @module background/oktaTab
+ * @description The Okta tab a background job runs through.
+ *
+ * The omnibox acts on the window the admin is typing in; an alarm has no window,
+ * so the scheduled reports and the watchlist look across every window. A job
+ * belongs to the org it was set up in, and runs only through a tab on that org's
+ * origin: an admin with production and preview open must never have a report
+ * exported from, or a pinned group checked against, the other tenant.
+ */
+
+import { isOktaUrl } from '../shared/utils/oktaUrl';
+
+/** A tab URL's origin, or `null` when it has none to compare. */
+function originOf(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find an open Okta tab on one org's origin, in any window.
+ *
+ * @param origin - The org's origin, e.g. `https://acme.okta.com`.
+ * @returns The active such tab in any window — the likeliest to hold a live
+ *   session — else the first; `null` when none is open.
+ */
+export async function findOktaTabOn(origin: string): Promise<chrome.tabs.Tab | null> {
+  const tabs = await chrome.tabs.query({});
+  const oktaTabs = tabs.filter(
+    (tab) => isOktaUrl(tab.url) && tab.id != null && originOf(tab.url) === origin,
+  );
+  return oktaTabs.find((tab) => tab.active) ?? oktaTabs[0] ?? null;
+}
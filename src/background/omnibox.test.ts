@@ -0,0 +1,209 @@
+/**
+ * Tests for the `ou` omnibox keyword (`src/background/omnibox.ts`).
+ *
+ * These pin:
+ *  - suggestions come from the panel's searches, queued on the scheduler at
+ *    `interactive` priority for the Okta tab, capped per kind;
+ *  - tenant text is escaped inside Chrome's suggestion markup;
+ *  - Enter on a group opens the side panel through a pending navigation, a new
+ *    tab or an app opens the Admin Console page, and a refused panel falls back
+ *    to that page.
+ *
+ * Harness notes:
+ * - Mirrors `src/background/index.test.ts`: `globalThis.chrome` is replaced per
+ *   test with inspectable `vi.fn()`s, and the listeners are captured from the
+ *   addListener mocks.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+import {
+  OMNIBOX_DEBOUNCE_MS,
+  escapeOmniboxXml,
+  parseSuggestionContent,
+  registerOmnibox,
+  searchOmnibox,
+  toSuggestion,
+  type OmniboxScheduler,
+} from './omnibox';
+import { PENDING_NAVIGATION_KEY } from '../shared/pendingNavigation';
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+const ORIGIN = 'https://example.okta.com';
+const OKTA_TAB = { id: 7, windowId: 3, active: true, url: `${ORIGIN}/admin/dashboard` };
+
+/** Scheduler fake answering each search endpoint with its fixture. */
+function makeScheduler(
+  lists: { groups?: unknown[]; users?: unknown[]; apps?: unknown[] } = {},
+): OmniboxScheduler & { scheduleRequest: Mock } {
+  return {
+    scheduleRequest: vi.fn(async (endpoint: string) => {
+      const path = new URL(endpoint, ORIGIN).pathname;
+      const data =
+        path === '/api/v1/groups'
+          ? (lists.groups ?? [])
+          : path === '/api/v1/users'
+            ? (lists.users ?? [])
+            : (lists.apps ?? []);
+      return { success: true, data, headers: {} };
+    }),
+  };
+}
+
+const group = (id: string, name: string) => ({ id, type: 'OKTA_GROUP', profile: { name } });
+
+type Changed = (text: string, suggest: (results: chrome.omnibox.SuggestResult[]) => void) => void;
+type Entered = (text: string, disposition: string) => void;
+
+const listeners: { changed?: Changed; entered?: Entered } = {};
+const sidePanelOpen = vi.fn();
+const tabsCreate = vi.fn();
+const storageSet = vi.fn();
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  sidePanelOpen.mockReset().mockResolvedValue(undefined);
+  tabsCreate.mockReset().mockResolvedValue({});
+  storageSet.mockReset().mockResolvedValue(undefined);
+
+  globalThis.chrome = {
+    omnibox: {
+      setDefaultSuggestion: vi.fn(async () => undefined),
+      onInputStarted: { addListener: vi.fn() },
+      onInputChanged: { addListener: vi.fn((fn: Changed) => (listeners.changed = fn)) },
+      onInputEntered: { addListener: vi.fn((fn: Entered) => (listeners.entered = fn)) },
+    },
+    tabs: {
+      query: vi.fn(async () => [OKTA_TAB]),
+      create: tabsCreate,
+      update: vi.fn(async () => ({})),
+    },
+    storage: { local: { set: storageSet, remove: vi.fn(async () => undefined) } },
+    sidePanel: { open: sidePanelOpen },
+  } as unknown as typeof chrome;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/** Type `text` and wait out the debounce and the searches; returns what was suggested. */
+async function type(text: string): Promise<chrome.omnibox.SuggestResult[]> {
+  const suggest = vi.fn();
+  listeners.changed?.(text, suggest);
+  await vi.advanceTimersByTimeAsync(OMNIBOX_DEBOUNCE_MS);
+  await vi.runAllTimersAsync();
+  return suggest.mock.calls.at(-1)?.[0] ?? [];
+}
+
+// ============================================================================
+// Suggestions
+// ============================================================================
+
+describe('suggestions', () => {
+  it('escapes tenant text and highlights the typed text', () => {
+    expect(escapeOmniboxXml(`<R&D> "x" 'y'`)).toBe('&lt;R&amp;D&gt; &quot;x&quot; &apos;y&apos;');
+
+    const row = toSuggestion(
+      { type: 'group', id: '00g1', name: 'R&D Engineering', detail: 'OKTA_GROUP' },
+      'eng',
+    );
+    expect(row.content).toBe('group:00g1');
+    expect(row.description).toBe(
+      'R&amp;D <match>Eng</match>ineering <dim>— group · OKTA_GROUP</dim>',
+    );
+  });
+
+  it('reads a chosen row back, and treats anything else as typed text', () => {
+    expect(parseSuggestionContent('user:00u1')).toEqual({ type: 'user', id: '00u1' });
+    expect(parseSuggestionContent('engineering')).toBeNull();
+    expect(parseSuggestionContent('policy:00p1')).toBeNull();
+  });
+
+  it('queues the three searches on the scheduler for the tab and caps each kind', async () => {
+    const scheduler = makeScheduler({
+      groups: [
+        group('00g1', 'Eng 1'),
+        group('00g2', 'Eng 2'),
+        group('00g3', 'Eng 3'),
+        group('00g4', 'Eng 4'),
+      ],
+      users: [
+        {
+          id: '00u1',
+          status: 'ACTIVE',
+          profile: { firstName: 'Eng', lastName: 'Lead', login: 'lead@example.com' },
+        },
+      ],
+      apps: [{ id: '0oa1', label: 'Eng Wiki', status: 'ACTIVE' }],
+    });
+
+    const results = await searchOmnibox(scheduler, 7, 'eng');
+
+    expect(scheduler.scheduleRequest).toHaveBeenCalledTimes(3);
+    for (const call of scheduler.scheduleRequest.mock.calls) {
+      expect(call.slice(1)).toEqual(['GET', undefined, 7, 'interactive', { awaitSignIn: false }]);
+    }
+    expect(results.map((r) => `${r.type}:${r.id}`)).toEqual([
+      'group:00g1',
+      'group:00g2',
+      'group:00g3',
+      'user:00u1',
+      'app:0oa1',
+    ]);
+    expect(results[3]).toMatchObject({ name: 'Eng Lead', detail: 'lead@example.com' });
+  });
+});
+
+// ============================================================================
+// Choosing a result
+// ============================================================================
+
+describe('choosing a result', () => {
+  it('opens the side panel on a group through a pending navigation', async () => {
+    registerOmnibox(makeScheduler({ groups: [group('00g1', 'Engineering')] }));
+    const rows = await type('eng');
+
+    listeners.entered?.(rows[0].content, 'currentTab');
+
+    expect(storageSet).toHaveBeenCalledWith({
+      [PENDING_NAVIGATION_KEY]: expect.objectContaining({ type: 'group', id: '00g1' }),
+    });
+    expect(sidePanelOpen).toHaveBeenCalledWith({ windowId: 3 });
+    expect(tabsCreate).not.toHaveBeenCalled();
+  });
+
+  it('opens the Admin Console page for a new tab, and for an app', async () => {
+    registerOmnibox(
+      makeScheduler({
+        groups: [group('00g1', 'Engineering')],
+        apps: [{ id: '0oa1', label: 'Eng Wiki', status: 'ACTIVE' }],
+      }),
+    );
+    await type('eng');
+
+    listeners.entered?.('group:00g1', 'newForegroundTab');
+    listeners.entered?.('app:0oa1', 'newBackgroundTab');
+
+    expect(tabsCreate).toHaveBeenCalledWith({ url: `${ORIGIN}/admin/group/00g1`, active: true });
+    expect(tabsCreate).toHaveBeenCalledWith({
+      url: `${ORIGIN}/admin/app/0oa1/instance/0oa1`,
+      active: false,
+    });
+    expect(sidePanelOpen).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the Admin Console page when the side panel does not open', async () => {
+    sidePanelOpen.mockRejectedValue(new Error('needs a user gesture'));
+    registerOmnibox(makeScheduler({ groups: [group('00g1', 'Engineering')] }));
+    await type('eng');
+
+    listeners.entered?.('eng', 'currentTab');
+    await vi.runAllTimersAsync();
+
+    expect(sidePanelOpen).toHaveBeenCalled();
+    expect(tabsCreate).toHaveBeenCalledWith({ url: `${ORIGIN}/admin/group/00g1`, active: true });
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * @module background/omnibox
+ * @description The `ou` address-bar keyword: type `ou ` and a name to find a
+ * group, user or app in the connected org, then jump to it.
+ *
+ * **Where the results come from:** the side panel's own type-ahead searches
+ * (`searchGroups`, `searchUsers`, `searchApps`), built over a worker-side
+ * `CoreApi` (`./workerCoreApi`) that queues at `interactive` priority.
+ *
+ * **Which org:** the Okta tab the side panel would target in the last-focused
+ * window — the active one, else the first (`pinContext`). Without one there is
+ * nothing to search, and the default suggestion says so.
+ *
+ * **Choosing a result:**
+ * - Enter on a group or user opens the side panel on it. The request is left in
+ *   storage (`shared/pendingNavigation`) for the panel to consume through its
+ *   navigation handlers; if Chrome refuses to open the panel, the Admin Console
+ *   page opens instead.
+ * - Opening a result in a new tab, and any app (the panel cannot open an app by
+ *   id yet), goes to its Admin Console page (`oktaAdminEntityUrl`).
+ *
+ * `chrome.sidePanel.open` needs the user's gesture, which ends at the first
+ * `await`, so the Enter handler answers from the results it already holds. Enter
+ * on typed text whose results are not in yet waits for them and opens the top
+ * result's Admin Console page.
+ *
+ * Suggestion text is tenant data inside Chrome's XML markup and is escaped.
+ * Nothing here logs a query or a result.
+ */
+
+import type { ApiScheduler } from '../shared/scheduler/apiScheduler';
+import { createLogger } from '../shared/utils/logger';
+import { isOktaUrl, oktaAdminEntityUrl, type OktaAdminEntityType } from '../shared/utils/oktaUrl';
+import { PENDING_NAVIGATION_KEY, type PendingNavigation } from '../shared/pendingNavigation';
+import { createWorkerCoreApi } from './workerCoreApi';
+import { createGroupDiscoveryOperations } from '../sidepanel/hooks/useOktaApi/groupDiscovery';
+import { createUserOperations } from '../sidepanel/hooks/useOktaApi/userOperations';
+import { createAppOperations } from '../sidepanel/hooks/useOktaApi/appOperations';
+
+const log = createLogger('Background');
+
+/** Results shown per kind; Chrome shows only a handful of rows in all. */
+export const OMNIBOX_RESULTS_PER_KIND = 3;
+
+/** How long typing must pause before a search is sent. */
+export const OMNIBOX_DEBOUNCE_MS = 250;
+
+/** The searches answer nothing below this length. */
+const MIN_QUERY_LENGTH = 2;
+
+/** The entity kinds the omnibox searches; policies are not among them. */
+type OmniboxEntityType = Exclude<OktaAdminEntityType, 'policy'>;
+
+/** One search result, as a suggestion row describes it. */
+export interface OmniboxEntity {
+  type: OmniboxEntityType;
+  id: string;
+  name: string;
+  /** Dim text after the name: a user's login, a group's type, an app's status. */
+  detail: string;
+}
+
+/** The scheduler surface the omnibox needs. */
+export type OmniboxScheduler = Pick<ApiScheduler, 'scheduleRequest'>;
+
+/**
+ * Escape text for a suggestion's XML description.
+ *
+ * @param text - Plain text.
+ * @returns The text with the five predefined XML entities escaped.
+ */
+export function escapeOmniboxXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** `text` escaped, with the first case-insensitive occurrence of `query` in `<match>`. */
+function highlight(text: string, query: string): string {
+  const at = query ? text.toLowerCase().indexOf(query.toLowerCase()) : -1;
+  if (at < 0) return escapeOmniboxXml(text);
+  return (
+    escapeOmniboxXml(text.slice(0, at)) +
+    `<match>${escapeOmniboxXml(text.slice(at, at + query.length))}</match>` +
+    escapeOmniboxXml(text.slice(at + query.length))
+  );
+}
+
+/**
+ * The suggestion row for one result.
+ *
+ * The `content` is what Chrome hands back on Enter; {@link parseSuggestionContent}
+ * reads it.
+ *
+ * @param entity - The result.
+ * @param query - The typed text, highlighted in the name.
+ * @returns A suggestion whose description is escaped markup.
+ */
+export function toSuggestion(entity: OmniboxEntity, query: string): chrome.omnibox.SuggestResult {
+  const detail = entity.detail ? ` · ${entity.detail}` : '';
+  return {
+    content: `${entity.type}:${entity.id}`,
+    description: `${highlight(entity.name, query)} <dim>— ${entity.type}${escapeOmniboxXml(detail)}</dim>`,
+  };
+}
+
+/**
+ * Read a suggestion's `content` back into an entity reference.
+ *
+ * @param text - What Chrome passed to `onInputEntered`.
+ * @returns The type and id, or `null` when the admin entered free text.
+ */
+export function parseSuggestionContent(
+  text: string,
+): { type: OmniboxEntityType; id: string } | null {
+  const match = /^(group|user|app):([A-Za-z0-9]+)$/.exec(text.trim());
+  return match ? { type: match[1] as OmniboxEntityType, id: match[2] } : null;
+}
+
+/**
+ * Search groups, users and apps in one org.
+ *
+ * @param scheduler - The global scheduler.
+ * @param tabId - The Okta tab whose session runs the requests.
+ * @param query - The typed text.
+ * @returns Up to {@link OMNIBOX_RESULTS_PER_KIND} of each kind — groups, then
+ *   users, then apps. Each search yields `[]` on failure rather than throwing.
+ */
+export async function searchOmnibox(
+  scheduler: OmniboxScheduler,
+  tabId: number,
+  query: string,
+): Promise<OmniboxEntity[]> {
+  const core = createWorkerCoreApi(scheduler, tabId, {
+    priority: 'interactive',
+    caller: 'the omnibox',
+  });
+  const [groups, users, apps] = await Promise.all([
+    createGroupDiscoveryOperations(core).searchGroups(query),
+    createUserOperations(core).searchUsers(query),
+    createAppOperations(core).searchApps(query),
+  ]);
+  return [
+    ...groups
+      .slice(0, OMNIBOX_RESULTS_PER_KIND)
+      .map((g): OmniboxEntity => ({ type: 'group', id: g.id, name: g.name, detail: g.type })),
+    ...users.slice(0, OMNIBOX_RESULTS_PER_KIND).map((u): OmniboxEntity => ({
+      type: 'user',
+      id: u.id,
+      name: `${u.firstName} ${u.lastName}`.trim() || u.login || u.id,
+      detail: u.login,
+    })),
+    ...apps.slice(0, OMNIBOX_RESULTS_PER_KIND).map((a): OmniboxEntity => ({
+      type: 'app',
+      id: a.id,
+      name: a.label,
+      detail: a.status ?? '',
+    })),
+  ];
+}
+
+/**
+ * The Okta tab the side panel would target in the last-focused window.
+ *
+ * @returns The active Okta tab there, else the first; `null` when there is none.
+ */
+export async function findOktaTab(): Promise<chrome.tabs.Tab | null> {
+  const tabs = await chrome.tabs.query({ lastFocusedWindow: true });
+  const oktaTabs = tabs.filter((tab) => isOktaUrl(tab.url) && tab.id != null);
+  return oktaTabs.find((tab) => tab.active) ?? oktaTabs[0] ?? null;
+}
+
+/** The latest search: its text, the tab it ran on and its results. */
+interface OmniboxSession {
+  query: string;
+  tab: chrome.tabs.Tab;
+  results: Promise<OmniboxEntity[]>;
+  /** The results once they are in; the Enter handler can use only these synchronously. */
+  settled: OmniboxEntity[] | null;
+}
+
+/**
+ * Register the `ou` keyword's listeners. Call once, at worker start.
+ *
+ * @param scheduler - The global scheduler every search is queued on.
+ */
+export function registerOmnibox(scheduler: OmniboxScheduler): void {
+  let session: OmniboxSession | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const setHint = (description: string) => {
+    chrome.omnibox.setDefaultSuggestion({ description }).catch(() => {});
+  };
+
+  /** Start a search on the Okta tab; `null` when the window has none. */
+  const startSession = async (query: string): Promise<OmniboxSession | null> => {
+    const tab = await findOktaTab().catch(() => null);
+    if (!tab || tab.id == null) return null;
+    const started: OmniboxSession = {
+      query,
+      tab,
+      results: searchOmnibox(scheduler, tab.id, query),
+      settled: null,
+    };
+    void started.results.then((results) => {
+      started.settled = results;
+    });
+    session = started;
+    return started;
+  };
+
+  const adminUrl = (tab: chrome.tabs.Tab, ref: { type: OktaAdminEntityType; id: string }) =>
+    oktaAdminEntityUrl(tab.url ? new URL(tab.url).origin : null, ref.type, ref.id);
+
+  const openAdminPage = (
+    url: string | null,
+    where: `${chrome.omnibox.OnInputEnteredDisposition}`,
+  ) => {
+    if (!url) return;
+    if (where === 'currentTab') {
+      chrome.tabs.update({ url }).catch(() => {});
+    } else {
+      chrome.tabs.create({ url, active: where === 'newForegroundTab' }).catch(() => {});
+    }
+  };
+
+  chrome.omnibox.onInputStarted.addListener(() => {
+    session = null;
+    setHint('Search groups, users and apps in the connected Okta org');
+  });
+
+  chrome.omnibox.onInputChanged.addListener((text, suggest) => {
+    const query = text.trim();
+    clearTimeout(timer);
+    if (query.length < MIN_QUERY_LENGTH) {
+      setHint('Type at least two characters to search groups, users and apps');
+      return;
+    }
+
+    timer = setTimeout(async () => {
+      const current = await startSession(query);
+      if (!current) {
+        setHint('Open an Okta admin page in this window to search its org');
+        return;
+      }
+      setHint(
+        `Search <match>${escapeOmniboxXml(query)}</match> <dim>— Enter opens the side panel; a new tab opens the Admin Console</dim>`,
+      );
+
+      const results = await current.results;
+      if (session !== current) return;
+      if (results.length === 0) {
+        setHint(`No group, user or app matches <match>${escapeOmniboxXml(query)}</match>`);
+      }
+      suggest(results.map((entity) => toSuggestion(entity, query)));
+    }, OMNIBOX_DEBOUNCE_MS);
+  });
+
+  chrome.omnibox.onInputEntered.addListener((text, disposition) => {
+    clearTimeout(timer);
+    const query = text.trim();
+    const chosen = session;
+    const picked = parseSuggestionContent(query);
+
+    // Enter on the typed text before its results are in: the gesture the side
+    // panel needs will not survive the wait, so the top result opens in the
+    // Admin Console instead.
+    if (!chosen || (!picked && (chosen.query !== query || !chosen.settled))) {
+      const later =
+        chosen && chosen.query === query ? Promise.resolve(chosen) : startSession(query);
+      void later.then(async (found) => {
+        const top = found ? (await found.results)[0] : undefined;
+        if (found && top) {
+          openAdminPage(adminUrl(found.tab, top), disposition);
+        } else {
+          log.debug('Omnibox entry matched nothing');
+        }
+      });
+      return;
+    }
+
+    const ref = picked ?? chosen.settled?.[0];
+    if (!ref) return;
+    const url = adminUrl(chosen.tab, ref);
+
+    if (ref.type === 'app' || disposition !== 'currentTab') {
+      openAdminPage(url, disposition);
+      return;
+    }
+
+    const request: PendingNavigation = { type: ref.type, id: ref.id, requestedAt: Date.now() };
+    chrome.storage.local.set({ [PENDING_NAVIGATION_KEY]: request }).catch(() => {});
+    chrome.sidePanel.open({ windowId: chosen.tab.windowId }).catch(() => {
+      log.debug('Side panel did not open from the omnibox; opening the Admin Console page');
+      chrome.storage.local.remove(PENDING_NAVIGATION_KEY).catch(() => {});
+      openAdminPage(url, 'newForegroundTab');
+    });
+  });
+}
@@ -0,0 +1,257 @@
+/**
+ * Tests for the scheduled-report runner (`src/background/scheduledReports.ts`).
+ *
+ * These pin:
+ *  - the alarms follow the stored reports: a deleted report's alarm is cleared,
+ *    a missing one created, an up-to-date one left alone;
+ *  - a report runs only through a tab on its own org; with none open — another
+ *    org's tab does not count — the run is recorded as skipped and the admin
+ *    notified;
+ *  - a clutter watch compares against the previous successful run and notifies
+ *    only for groups that entered the category, through the scheduler at `low`;
+ *  - an alarm run moves the report to its next run; "Run now" does not.
+ *
+ * Harness notes:
+ * - Mirrors `./omnibox.test.ts`: `globalThis.chrome` is replaced per test with
+ *   inspectable `vi.fn()`s. The store is a Map-backed mock of its module.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ScheduledReport, ScheduledReportRun } from '../shared/reports/scheduledReports';
+
+const { reports, runs } = vi.hoisted(() => ({
+  reports: new Map<string, ScheduledReport>(),
+  runs: [] as ScheduledReportRun[],
+}));
+
+vi.mock('../shared/storage/scheduledReportStore', () => ({
+  scheduledReportStore: {
+    listReports: vi.fn(async () => [...reports.values()]),
+    getReport: vi.fn(async (id: string) => reports.get(id) ?? null),
+    putReport: vi.fn(async (report: ScheduledReport) => {
+      reports.set(report.id, report);
+      return true;
+    }),
+    listRuns: vi.fn(async (reportId: string) =>
+      runs
+        .filter((run) => run.reportId === reportId)
+        .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime()),
+    ),
+    addRun: vi.fn(async (run: ScheduledReportRun) => {
+      runs.push(run);
+    }),
+  },
+}));
+
+import { handleReportAlarm, runScheduledReport, syncReportAlarms } from './scheduledReports';
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+const OKTA_TAB = { id: 7, windowId: 3, active: true, url: 'https://example.okta.com/admin' };
+
+const group = (id: string, name: string, usersCount: number) => ({
+  id,
+  type: 'OKTA_GROUP',
+  profile: { name },
+  _embedded: { stats: { usersCount } },
+});
+
+function makeScheduler(groups: unknown[] = []) {
+  return {
+    scheduleRequest: vi.fn(async () => ({ success: true, data: groups, headers: {} })),
+  };
+}
+
+const watch: ScheduledReport = {
+  id: 'rep-1',
+  name: 'Empty groups',
+  job: { kind: 'clutter', category: 'empty' },
+  cadence: { kind: 'daily', hour: 8 },
+  origin: 'https://example.okta.com',
+  createdAt: new Date('2026-10-01T00:00:00Z'),
+  nextRunAt: 1,
+  version: 1,
+};
+
+const alarmsCreate = vi.fn();
+const alarmsClear = vi.fn();
+const alarmsGetAll = vi.fn();
+const notificationsCreate = vi.fn();
+const tabsQuery = vi.fn();
+
+beforeEach(() => {
+  reports.clear();
+  runs.length = 0;
+  alarmsCreate.mockReset().mockResolvedValue(undefined);
+  alarmsClear.mockReset().mockResolvedValue(true);
+  alarmsGetAll.mockReset().mockResolvedValue([]);
+  notificationsCreate.mockReset().mockResolvedValue('id');
+  tabsQuery.mockReset().mockResolvedValue([OKTA_TAB]);
+
+  globalThis.chrome = {
+    alarms: { create: alarmsCreate, clear: alarmsClear, getAll: alarmsGetAll },
+    notifications: { create: notificationsCreate },
+    tabs: { query: tabsQuery },
+    runtime: { sendMessage: vi.fn().mockResolvedValue(undefined) },
+  } as unknown as typeof chrome;
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ============================================================================
+// Alarms
+// ============================================================================
+
+describe('syncReportAlarms', () => {
+  it('clears orphaned report alarms and creates missing ones, leaving others alone', async () => {
+    reports.set('rep-1', watch);
+    reports.set('rep-2', { ...watch, id: 'rep-2', nextRunAt: 5 });
+    alarmsGetAll.mockResolvedValue([
+      { name: 'scheduledReport:gone', scheduledTime: 1 },
+      { name: 'scheduledReport:rep-1', scheduledTime: 1 },
+      { name: 'auditRetentionCleanup', scheduledTime: 1 },
+    ]);
+
+    await syncReportAlarms();
+
+    expect(alarmsClear).toHaveBeenCalledTimes(1);
+    expect(alarmsClear).toHaveBeenCalledWith('scheduledReport:gone');
+    expect(alarmsCreate).toHaveBeenCalledTimes(1);
+    expect(alarmsCreate).toHaveBeenCalledWith('scheduledReport:rep-2', { when: 5 });
+  });
+
+  it('only takes report alarms', () => {
+    expect(handleReportAlarm(makeScheduler(), 'tabStateCleanup')).toBe(false);
+  });
+});
+
+// ============================================================================
+// Runs
+// ============================================================================
+
+describe('runScheduledReport', () => {
+  it('records a skipped run and notifies when no Okta tab is open', async () => {
+    reports.set('rep-1', watch);
+    tabsQuery.mockResolvedValue([{ id: 1, active: true, url: 'https://example.com/' }]);
+    const scheduler = makeScheduler();
+
+    const run = await runScheduledReport(scheduler, 'rep-1');
+
+    expect(run?.status).toBe('skipped');
+    expect(scheduler.scheduleRequest).not.toHaveBeenCalled();
+    expect(notificationsCreate).toHaveBeenCalledTimes(1);
+    expect(runs).toHaveLength(1);
+  });
+
+  it('skips a run when only another org’s tab is open, rather than running it there', async () => {
+    reports.set('rep-1', watch);
+    tabsQuery.mockResolvedValue([
+      { id: 8, active: true, url: 'https://example.oktapreview.com/admin' },
+    ]);
+    const scheduler = makeScheduler([group('00gA', 'Alpha', 0)]);
+
+    const run = await runScheduledReport(scheduler, 'rep-1');
+
+    expect(run?.status).toBe('skipped');
+    expect(run?.summary).toMatch(/^No example\.okta\.com tab was open/);
+    expect(scheduler.scheduleRequest).not.toHaveBeenCalled();
+  });
+
+  it('runs through the report’s own org when another org’s tab is the active one', async () => {
+    reports.set('rep-1', watch);
+    tabsQuery.mockResolvedValue([
+      { id: 8, active: true, url: 'https://example.oktapreview.com/admin' },
+      { ...OKTA_TAB, active: false },
+    ]);
+    const scheduler = makeScheduler([group('00gA', 'Alpha', 0)]);
+
+    expect((await runScheduledReport(scheduler, 'rep-1'))?.status).toBe('success');
+    expect(scheduler.scheduleRequest).toHaveBeenCalledWith(
+      expect.any(String),
+      'GET',
+      undefined,
+      OKTA_TAB.id,
+      'low',
+      { awaitSignIn: false },
+    );
+    expect(scheduler.scheduleRequest).not.toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      undefined,
+      8,
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it('treats the first watch run as the baseline, without a notification', async () => {
+    reports.set('rep-1', watch);
+    const scheduler = makeScheduler([group('00gA', 'Alpha', 0), group('00gB', 'Beta', 3)]);
+
+    const run = await runScheduledReport(scheduler, 'rep-1');
+
+    expect(run?.status).toBe('success');
+    expect(run?.flagged).toEqual([{ id: '00gA', name: 'Alpha' }]);
+    expect(run?.newlyFlagged).toEqual([]);
+    expect(notificationsCreate).not.toHaveBeenCalled();
+    expect(scheduler.scheduleRequest).toHaveBeenCalledWith(
+      expect.stringContaining('/api/v1/groups'),
+      'GET',
+      undefined,
+      OKTA_TAB.id,
+      'low',
+      { awaitSignIn: false },
+    );
+  });
+
+  it('notifies for a group that became empty since the previous run', async () => {
+    reports.set('rep-1', watch);
+    await runScheduledReport(makeScheduler([group('00gA', 'Alpha', 0)]), 'rep-1');
+
+    const run = await runScheduledReport(
+      makeScheduler([group('00gA', 'Alpha', 0), group('00gB', 'Beta', 0)]),
+      'rep-1',
+    );
+
+    expect(run?.newlyFlagged).toEqual([{ id: '00gB', name: 'Beta' }]);
+    expect(notificationsCreate).toHaveBeenCalledTimes(1);
+    expect(notificationsCreate.mock.calls[0][1]).toMatchObject({
+      title: 'Empty groups',
+      message: '1 group became empty: Beta',
+    });
+  });
+
+  it('records a failed run when the read fails', async () => {
+    reports.set('rep-1', watch);
+    const scheduler = {
+      scheduleRequest: vi.fn(async () => ({ success: false, error: 'HTTP 500', headers: {} })),
+    };
+
+    const run = await runScheduledReport(scheduler, 'rep-1');
+
+    expect(run?.status).toBe('failed');
+    expect(notificationsCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it('moves an alarm run to its next run, but leaves the schedule after "Run now"', async () => {
+    reports.set('rep-1', watch);
+
+    await runScheduledReport(makeScheduler(), 'rep-1', { manual: true });
+    expect(reports.get('rep-1')?.nextRunAt).toBe(1);
+    expect(alarmsCreate).not.toHaveBeenCalled();
+
+    await runScheduledReport(makeScheduler(), 'rep-1');
+    const next = reports.get('rep-1')?.nextRunAt ?? 0;
+    expect(next).toBeGreaterThan(Date.now());
+    expect(alarmsCreate).toHaveBeenCalledWith('scheduledReport:rep-1', { when: next });
+  });
+
+  it('clears the alarm of a report that no longer exists', async () => {
+    expect(await runScheduledReport(makeScheduler(), 'gone')).toBeNull();
+    expect(alarmsClear).toHaveBeenCalledWith('scheduledReport:gone');
+  });
+});
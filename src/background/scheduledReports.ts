@@ -0,0 +1,263 @@
+/**
+ * @module background/scheduledReports
+ * @description Runs the admin's scheduled reports from the service worker.
+ *
+ * What a report is lives in `shared/reports/scheduledReports`; the reports and
+ * their runs live in `shared/storage/scheduledReportStore`, written by the side
+ * panel and read here.
+ *
+ * **When:** each report has a one-shot `chrome.alarms` alarm for its `nextRunAt`
+ * ({@link syncReportAlarms}), set again for the following run once it has run. The
+ * worker syncs the alarms at start and whenever the panel says the reports
+ * changed, so a deleted report's alarm goes too. A run missed while Chrome was
+ * closed fires as soon as the worker starts.
+ *
+ * **Through which session:** an open tab on the org the report was set up in
+ * (`./oktaTab`) — never another org's, which would export the wrong tenant or
+ * diff a clutter watch against it. The run's requests go through the global
+ * scheduler at `low` priority over a worker-side `CoreApi` (`./workerCoreApi`),
+ * so a report never starves the panel and obeys the same rate limits. With no tab
+ * on that org open the run is recorded as skipped and the admin is told; it is
+ * not retried before the next run.
+ *
+ * **What it runs:** an export through the Export tab's own descriptors and engine
+ * (the CSV is kept with the run, and the export is audited as one from the panel
+ * is), or a clutter watch through the Groups tab's `analyzeClutter` over every
+ * group.
+ *
+ * **Telling the admin:** a Chrome notification when an export finishes, when a
+ * watched category gains a group, and when a run fails or is skipped. The panel
+ * is sent `scheduledReportRan` so an open list refreshes.
+ *
+ * Logging: report ids, counts and outcomes only — never a group name or a row.
+ */
+
+import { createLogger } from '../shared/utils/logger';
+import {
+  clutterRunSummary,
+  describeCadence,
+  newlyFlaggedGroups,
+  nextRunAt,
+  reportAlarmName,
+  reportIdFromAlarm,
+  shouldNotify,
+  type ReportGroupRef,
+  type ScheduledReport,
+  type ScheduledReportJob,
+  type ScheduledReportRun,
+} from '../shared/reports/scheduledReports';
+import { scheduledReportStore } from '../shared/storage/scheduledReportStore';
+import { createWorkerCoreApi, type WorkerScheduler } from './workerCoreApi';
+import { findOktaTabOn } from './oktaTab';
+import type { CoreApi } from '../sidepanel/hooks/useOktaApi/core';
+import { createExportEngineOperations } from '../sidepanel/hooks/useOktaApi/exportEngine';
+import { createGroupDiscoveryOperations } from '../sidepanel/hooks/useOktaApi/groupDiscovery';
+import { buildRegistry } from '../sidepanel/export/registry';
+import { buildExportEndpoint } from '../sidepanel/export/endpoint';
+import { toGroupSummary } from '../sidepanel/components/groups/groupSummary';
+import { analyzeClutter } from '../sidepanel/components/groups/clutterAnalysis';
+
+const log = createLogger('Background');
+
+/** Descriptors only search for the export's scope in the Export tab; a report has it saved. */
+const NO_SEARCH = {
+  searchGroups: async () => [],
+  searchApps: async () => [],
+};
+
+/** Reports running now, so an alarm and a "Run now" never overlap. */
+const running = new Set<string>();
+
+/**
+ * Set each report's alarm for its next run and clear the alarms of reports that
+ * no longer exist.
+ */
+export async function syncReportAlarms(): Promise<void> {
+  const [reports, alarms] = await Promise.all([
+    scheduledReportStore.listReports(),
+    chrome.alarms.getAll(),
+  ]);
+  const wanted = new Set(reports.map((report) => reportAlarmName(report.id)));
+
+  await Promise.all(
+    alarms
+      .filter((alarm) => reportIdFromAlarm(alarm.name) && !wanted.has(alarm.name))
+      .map((alarm) => chrome.alarms.clear(alarm.name)),
+  );
+
+  const scheduled = new Map(alarms.map((alarm) => [alarm.name, alarm.scheduledTime]));
+  for (const report of reports) {
+    const name = reportAlarmName(report.id);
+    if (scheduled.get(name) === report.nextRunAt) continue;
+    await chrome.alarms.create(name, { when: report.nextRunAt });
+  }
+  log.debug('Report alarms synced', { reports: reports.length });
+}
+
+/** What running a job produced, before it is stamped as a run. */
+type JobOutcome = Pick<
+  ScheduledReportRun,
+  'summary' | 'rowCount' | 'csv' | 'flagged' | 'newlyFlagged'
+>;
+
+/** Run an export job to CSV text. */
+async function runExportJob(
+  core: CoreApi,
+  job: Extract<ScheduledReportJob, { kind: 'export' }>,
+): Promise<JobOutcome> {
+  const descriptor = buildRegistry(NO_SEARCH)[job.descriptorId];
+  if (!descriptor) {
+    throw new Error(`The ${job.descriptorName} export is no longer available.`);
+  }
+  const endpoint = buildExportEndpoint(descriptor, {
+    contextId: job.contextId,
+    filterText: job.filterText,
+  });
+  const engine = createExportEngineOperations(core);
+  const { rows, capped } = await engine.fetchAllRows(descriptor, endpoint);
+  const csv = await engine.buildExportCsv({
+    descriptor,
+    rows,
+    enabledColumnIds: job.enabledColumnIds,
+  });
+  return {
+    summary: `${rows.length.toLocaleString()} row${rows.length === 1 ? '' : 's'} exported${capped ? ' (capped)' : ''}`,
+    rowCount: rows.length,
+    csv,
+  };
+}
+
+/** Run a clutter watch against the previous successful run. */
+async function runClutterJob(
+  core: CoreApi,
+  report: ScheduledReport,
+  job: Extract<ScheduledReportJob, { kind: 'clutter' }>,
+): Promise<JobOutcome> {
+  const groups = (await createGroupDiscoveryOperations(core).getAllGroups()).map(toGroupSummary);
+  const clutter = analyzeClutter(groups);
+  const names = new Map(groups.map((group) => [group.id, group.name]));
+  const flagged: ReportGroupRef[] = clutter.categories[job.category].map((id) => ({
+    id,
+    name: names.get(id) ?? id,
+  }));
+
+  const previous =
+    (await scheduledReportStore.listRuns(report.id)).find(
+      (run) => run.status === 'success' && run.flagged,
+    )?.flagged ?? null;
+  const newly = newlyFlaggedGroups(flagged, previous);
+  return {
+    summary: clutterRunSummary(job.category, flagged, newly, previous === null),
+    flagged,
+    newlyFlagged: newly,
+  };
+}
+
+/** Show the run as a Chrome notification. */
+function notify(report: ScheduledReport, run: ScheduledReportRun): void {
+  chrome.notifications
+    .create(`${reportAlarmName(report.id)}:${run.id}`, {
+      type: 'basic',
+      iconUrl: '/assets/icons/icon128.png',
+      title:
+        run.status === 'success'
+          ? report.name
+          : `${report.name} — ${run.status === 'skipped' ? 'did not run' : 'failed'}`,
+      message: run.summary,
+      priority: run.status === 'success' ? 0 : 1,
+    })
+    .catch(() => {});
+}
+
+/**
+ * Run one report now, record the run, and — unless run by hand — set its alarm for
+ * the next run.
+ *
+ * @param scheduler - The global scheduler the requests are queued on.
+ * @param reportId - The report.
+ * @param options - `manual` for "Run now": the schedule is left as it is.
+ * @returns The run, or `null` when the report no longer exists or is already running.
+ */
+export async function runScheduledReport(
+  scheduler: WorkerScheduler,
+  reportId: string,
+  options: { manual?: boolean } = {},
+): Promise<ScheduledReportRun | null> {
+  if (running.has(reportId)) return null;
+  const report = await scheduledReportStore.getReport(reportId);
+  if (!report) {
+    await chrome.alarms.clear(reportAlarmName(reportId));
+    return null;
+  }
+
+  running.add(reportId);
+  const startedAt = new Date();
+  let outcome: JobOutcome & Pick<ScheduledReportRun, 'status' | 'error'>;
+  try {
+    const tab = await findOktaTabOn(report.origin);
+    if (!tab || tab.id == null) {
+      outcome = {
+        status: 'skipped',
+        summary: `No ${new URL(report.origin).host} tab was open, so the report did not run. Next: ${describeCadence(report.cadence)}.`,
+      };
+    } else {
+      const core = createWorkerCoreApi(scheduler, tab.id, {
+        priority: 'low',
+        caller: 'a scheduled report',
+      });
+      const result =
+        report.job.kind === 'export'
+          ? await runExportJob(core, report.job)
+          : await runClutterJob(core, report, report.job);
+      outcome = { status: 'success', ...result };
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'The report did not complete.';
+    outcome = { status: 'failed', summary: message, error: message };
+  } finally {
+    running.delete(reportId);
+  }
+
+  const run: ScheduledReportRun = {
+    id: crypto.randomUUID(),
+    reportId,
+    startedAt,
+    finishedAt: new Date(),
+    ...outcome,
+  };
+  await scheduledReportStore.addRun(run);
+
+  if (!options.manual) {
+    const next = { ...report, nextRunAt: nextRunAt(report.cadence, Date.now()) };
+    await scheduledReportStore.putReport(next);
+    await chrome.alarms.create(reportAlarmName(reportId), { when: next.nextRunAt });
+  }
+
+  log.info('Scheduled report ran', {
+    reportId,
+    status: run.status,
+    rows: run.rowCount,
+    newlyFlagged: run.newlyFlagged?.length,
+  });
+  if (shouldNotify(report, run)) notify(report, run);
+  chrome.runtime.sendMessage({ action: 'scheduledReportRan', reportId }).catch(() => {
+    // No panel open to refresh.
+  });
+  return run;
+}
+
+/**
+ * Handle an alarm if it is a report's.
+ *
+ * @param scheduler - The global scheduler.
+ * @param alarmName - The alarm that fired.
+ * @returns Whether the alarm was a report's.
+ */
+export function handleReportAlarm(scheduler: WorkerScheduler, alarmName: string): boolean {
+  const reportId = reportIdFromAlarm(alarmName);
+  if (!reportId) return false;
+  runScheduledReport(scheduler, reportId).catch((error) => {
+    log.error('Scheduled report failed to run', error);
+  });
+  return true;
+}
@@ -0,0 +1,304 @@
+/**
+ * Tests for the watchlist checker (`src/background/watchlist.ts`).
+ *
+ * These pin:
+ *  - a check diffs each pinned entity against its stored fingerprint, records the
+ *    changes, and reads through the scheduler at `low`;
+ *  - each entity is read only through a tab on the org it was pinned in, and is
+ *    skipped, never reported missing, while that org has no tab open;
+ *  - a first check only takes the baseline; a 404 records the entity as missing;
+ *    any other failed read, a malformed record included, leaves it as it was;
+ *  - the badge shows the unseen count, and a notification is raised only when
+ *    the admin turned it on;
+ *  - the alarm follows whether anything is pinned.
+ *
+ * Harness notes:
+ * - Mirrors `./scheduledReports.test.ts`: `globalThis.chrome` is replaced per
+ *   test with inspectable `vi.fn()`s. The store is a Map-backed mock of its module.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { WatchChange, WatchFingerprint, WatchedItem } from '../shared/watchlist/watchlist';
+import type { RequestResult } from '../shared/scheduler/types';
+
+const { items, changes, settings } = vi.hoisted(() => ({
+  items: new Map<string, WatchedItem>(),
+  changes: [] as WatchChange[],
+  settings: { notify: false },
+}));
+
+vi.mock('../shared/storage/watchlistStore', () => ({
+  watchlistStore: {
+    listItems: vi.fn(async () => [...items.values()]),
+    recordCheck: vi.fn(async (key: string, fingerprint: WatchFingerprint, checkedAt: Date) => {
+      const item = items.get(key);
+      if (item) items.set(key, { ...item, fingerprint, checkedAt });
+    }),
+    addChanges: vi.fn(async (found: WatchChange[]) => {
+      changes.push(...found);
+    }),
+    countUnseen: vi.fn(async () => changes.filter((change) => !change.seen).length),
+    getSettings: vi.fn(async () => ({ ...settings })),
+  },
+}));
+
+import { WATCHLIST_ALARM, runWatchlistCheck, syncWatchlist } from './watchlist';
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+const OKTA_TAB = { id: 7, windowId: 3, active: true, url: 'https://example.okta.com/admin' };
+
+const PREVIEW_TAB = {
+  id: 8,
+  windowId: 3,
+  active: true,
+  url: 'https://example.oktapreview.com/admin',
+};
+
+function pinned(
+  id: string,
+  fingerprint: WatchFingerprint | null,
+  origin = 'https://example.okta.com',
+): WatchedItem {
+  return {
+    key: `group:${id}`,
+    kind: 'group',
+    id,
+    origin,
+    name: `Group ${id}`,
+    addedAt: new Date('2026-10-01T00:00:00Z'),
+    fingerprint,
+  };
+}
+
+const groupRecord = (id: string, usersCount: number) => ({
+  id,
+  profile: { name: `Group ${id}` },
+  lastUpdated: 'u1',
+  lastMembershipUpdated: `m${usersCount}`,
+  _embedded: { stats: { usersCount } },
+});
+
+function makeScheduler(responses: Record<string, RequestResult>) {
+  return {
+    scheduleRequest: vi.fn(
+      async (endpoint: string): Promise<RequestResult> =>
+        responses[endpoint] ?? { success: false, error: 'Network error', status: 0 },
+    ),
+  };
+}
+
+const setBadgeText = vi.fn();
+const setBadgeBackgroundColor = vi.fn();
+const alarmsGet = vi.fn();
+const alarmsCreate = vi.fn();
+const alarmsClear = vi.fn();
+const notificationsCreate = vi.fn();
+const sendMessage = vi.fn();
+const tabsQuery = vi.fn();
+
+beforeEach(() => {
+  items.clear();
+  changes.length = 0;
+  settings.notify = false;
+  setBadgeText.mockReset().mockResolvedValue(undefined);
+  setBadgeBackgroundColor.mockReset().mockResolvedValue(undefined);
+  alarmsGet.mockReset().mockResolvedValue(undefined);
+  alarmsCreate.mockReset().mockResolvedValue(undefined);
+  alarmsClear.mockReset().mockResolvedValue(true);
+  notificationsCreate.mockReset().mockResolvedValue('id');
+  sendMessage.mockReset().mockResolvedValue(undefined);
+  tabsQuery.mockReset().mockResolvedValue([OKTA_TAB]);
+
+  globalThis.chrome = {
+    action: { setBadgeText, setBadgeBackgroundColor },
+    alarms: { get: alarmsGet, create: alarmsCreate, clear: alarmsClear },
+    notifications: { create: notificationsCreate },
+    tabs: { query: tabsQuery },
+    runtime: { sendMessage },
+  } as unknown as typeof chrome;
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+describe('runWatchlistCheck', () => {
+  it('records a member count change, badges it and tells the panel', async () => {
+    items.set(
+      'group:a',
+      pinned('a', {
+        name: 'Group a',
+        memberCount: 3,
+        lastMembershipUpdated: 'm3',
+        lastUpdated: 'u1',
+      }),
+    );
+    const scheduler = makeScheduler({
+      '/api/v1/groups/a?expand=stats': { success: true, data: groupRecord('a', 5) },
+    });
+
+    const found = await runWatchlistCheck(scheduler);
+
+    expect(found).toHaveLength(1);
+    expect(found[0]).toMatchObject({ entityId: 'a', changes: ['Members 3 → 5 (+2)'], seen: false });
+    expect(items.get('group:a')?.fingerprint?.memberCount).toBe(5);
+    expect(scheduler.scheduleRequest).toHaveBeenCalledWith(
+      '/api/v1/groups/a?expand=stats',
+      'GET',
+      undefined,
+      OKTA_TAB.id,
+      'low',
+      { awaitSignIn: false },
+    );
+    expect(setBadgeText).toHaveBeenCalledWith({ text: '1' });
+    expect(notificationsCreate).not.toHaveBeenCalled();
+    expect(sendMessage).toHaveBeenCalledWith({ action: 'watchlistChecked' });
+  });
+
+  it('takes a baseline without reporting a change', async () => {
+    items.set('group:a', pinned('a', null));
+    const scheduler = makeScheduler({
+      '/api/v1/groups/a?expand=stats': { success: true, data: groupRecord('a', 5) },
+    });
+
+    expect(await runWatchlistCheck(scheduler)).toEqual([]);
+    expect(items.get('group:a')?.fingerprint?.memberCount).toBe(5);
+    expect(setBadgeText).toHaveBeenCalledWith({ text: '' });
+  });
+
+  it('records a 404 as missing and leaves a failed read as it was', async () => {
+    const before = { name: 'Group a', memberCount: 3 };
+    items.set('group:a', pinned('a', before));
+    items.set('group:b', pinned('b', before));
+    const scheduler = makeScheduler({
+      '/api/v1/groups/a?expand=stats': { success: false, error: 'Not found', status: 404 },
+    });
+
+    const found = await runWatchlistCheck(scheduler);
+
+    expect(found.map((change) => change.changes)).toEqual([
+      ['No longer found (deleted or not visible)'],
+    ]);
+    expect(items.get('group:a')?.fingerprint?.missing).toBe(true);
+    expect(items.get('group:b')?.fingerprint).toBe(before);
+  });
+
+  it('leaves a record not in the expected shape as it was, not as an empty fingerprint', async () => {
+    const before = { name: 'Group a', memberCount: 3 };
+    items.set('group:a', pinned('a', before));
+    const scheduler = makeScheduler({
+      '/api/v1/groups/a?expand=stats': { success: true, data: { id: 'a' } },
+    });
+
+    expect(await runWatchlistCheck(scheduler)).toEqual([]);
+    expect(items.get('group:a')?.fingerprint).toBe(before);
+  });
+
+  it('reads each entity only through a tab on its own org, and skips one whose org is not open', async () => {
+    const before = { name: 'Group b', memberCount: 3 };
+    items.set('group:a', pinned('a', null));
+    items.set('group:b', pinned('b', before, 'https://other.okta.com'));
+    // Preview is the active tab; production answers only through its own tab.
+    tabsQuery.mockResolvedValue([PREVIEW_TAB, { ...OKTA_TAB, active: false }]);
+    const scheduler = {
+      scheduleRequest: vi.fn(
+        async (_endpoint: string, _method: string, _body: unknown, tabId: number) =>
+          (tabId === OKTA_TAB.id
+            ? { success: true, data: groupRecord('a', 5) }
+            : { success: false, error: 'Not found', status: 404 }) as RequestResult,
+      ),
+    };
+
+    expect(await runWatchlistCheck(scheduler)).toEqual([]);
+    expect(scheduler.scheduleRequest).toHaveBeenCalledTimes(1);
+    expect(scheduler.scheduleRequest).toHaveBeenCalledWith(
+      '/api/v1/groups/a?expand=stats',
+      'GET',
+      undefined,
+      OKTA_TAB.id,
+      'low',
+      { awaitSignIn: false },
+    );
+    expect(items.get('group:a')?.fingerprint?.memberCount).toBe(5);
+    expect(items.get('group:b')?.fingerprint).toBe(before);
+  });
+
+  it('notifies when the admin turned it on', async () => {
+    settings.notify = true;
+    items.set(
+      'group:a',
+      pinned('a', {
+        name: 'Group a',
+        memberCount: 3,
+        lastMembershipUpdated: 'm3',
+        lastUpdated: 'u1',
+      }),
+    );
+    const scheduler = makeScheduler({
+      '/api/v1/groups/a?expand=stats': { success: true, data: groupRecord('a', 2) },
+    });
+
+    await runWatchlistCheck(scheduler);
+
+    expect(notificationsCreate).toHaveBeenCalledWith(
+      expect.stringMatching(/^watchlist:/),
+      expect.objectContaining({
+        title: 'Watchlist: 1 change',
+        message: 'Group a: Members 3 → 2 (-1)',
+      }),
+    );
+  });
+
+  it('reads nothing without an Okta tab', async () => {
+    items.set('group:a', pinned('a', null));
+    tabsQuery.mockResolvedValue([]);
+    const scheduler = makeScheduler({});
+
+    expect(await runWatchlistCheck(scheduler)).toEqual([]);
+    expect(scheduler.scheduleRequest).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// Alarm
+// ============================================================================
+
+describe('syncWatchlist', () => {
+  it('clears the alarm when nothing is pinned', async () => {
+    await syncWatchlist(makeScheduler({}));
+
+    expect(alarmsClear).toHaveBeenCalledWith(WATCHLIST_ALARM);
+    expect(alarmsCreate).not.toHaveBeenCalled();
+  });
+
+  it('creates a missing alarm and baselines a newly pinned entity', async () => {
+    items.set('group:a', pinned('a', null));
+    const scheduler = makeScheduler({
+      '/api/v1/groups/a?expand=stats': { success: true, data: groupRecord('a', 5) },
+    });
+
+    await syncWatchlist(scheduler);
+
+    expect(alarmsCreate).toHaveBeenCalledWith(WATCHLIST_ALARM, { periodInMinutes: 30 });
+    expect(scheduler.scheduleRequest).toHaveBeenCalledTimes(1);
+    expect(items.get('group:a')?.fingerprint).not.toBeNull();
+  });
+
+  it('leaves an existing alarm alone and reads nothing when every entity has a baseline', async () => {
+    items.set('group:a', pinned('a', { name: 'Group a' }));
+    alarmsGet.mockResolvedValue({ name: WATCHLIST_ALARM, scheduledTime: 1 });
+    const scheduler = makeScheduler({});
+
+    await syncWatchlist(scheduler);
+
+    expect(alarmsCreate).not.toHaveBeenCalled();
+    expect(scheduler.scheduleRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * @module background/watchlist
+ * @description Checks the watchlist from the service worker.
+ *
+ * What is watched and how a change reads live in `shared/watchlist/watchlist`;
+ * the items, the change feed and the notify setting live in
+ * `shared/storage/watchlistStore`.
+ *
+ * **When:** one repeating alarm every {@link WATCH_CHECK_MINUTES} minutes while
+ * anything is pinned, and straight away for a newly pinned entity so its baseline
+ * is taken before anything can change unseen ({@link syncWatchlist}).
+ *
+ * **How:** one request per entity for its own record, through an open tab on the
+ * org the entity was pinned in (`./oktaTab`) and the global scheduler at `low`
+ * priority. An entity whose org has no tab open is skipped until the next check —
+ * never read through another org's tab, where it would 404 and be reported gone. A read that fails for
+ * any reason but a 404 — a record not in the expected shape included — leaves the
+ * entity as it was until the next check; a 404 records it as no longer found.
+ *
+ * **Telling the admin:** the unseen changes count on the extension's action badge,
+ * the side panel's Overview lists them, and — when the admin turned it on — one
+ * Chrome notification sums up a check that found any. The panel is sent
+ * `watchlistChecked` so an open feed refreshes.
+ *
+ * Logging: counts only — never an entity's name.
+ */
+
+import { createLogger } from '../shared/utils/logger';
+import {
+  WATCH_CHECK_MINUTES,
+  badgeText,
+  describeFingerprintChange,
+  fingerprintEndpoint,
+  notificationText,
+  toFingerprint,
+  type WatchChange,
+  type WatchFingerprint,
+  type WatchedItem,
+} from '../shared/watchlist/watchlist';
+import { watchlistStore } from '../shared/storage/watchlistStore';
+import { createWorkerCoreApi, type WorkerScheduler } from './workerCoreApi';
+import { findOktaTabOn } from './oktaTab';
+
+const log = createLogger('Background');
+
+/** The repeating check's alarm. */
+export const WATCHLIST_ALARM = 'watchlistCheck';
+
+/** Amber, as the panel's warning tokens. */
+const BADGE_COLOR = '#d97706';
+
+/** The transport a check reads through, for one org. */
+type WorkerRequest = ReturnType<typeof createWorkerCoreApi>['makeApiRequest'];
+
+/** Whether a check is running, so an alarm and "Check now" never overlap. */
+let checking = false;
+
+/**
+ * Show the unseen-change count on the action badge.
+ */
+export async function refreshWatchlistBadge(): Promise<void> {
+  const text = badgeText(await watchlistStore.countUnseen());
+  await chrome.action.setBadgeText({ text });
+  if (text) await chrome.action.setBadgeBackgroundColor({ color: BADGE_COLOR });
+}
+
+/**
+ * Read one entity's fingerprint.
+ *
+ * @returns The fingerprint, or `null` when the read failed and the entity should
+ *   be left as it was.
+ */
+async function readFingerprint(
+  makeApiRequest: WorkerRequest,
+  item: WatchedItem,
+): Promise<WatchFingerprint | null> {
+  const response = await makeApiRequest(fingerprintEndpoint(item.kind, item.id)).catch(() => null);
+  if (response?.success) {
+    try {
+      return toFingerprint(item.kind, response.data, item.name);
+    } catch {
+      return null;
+    }
+  }
+  if (response?.status === 404) return { name: item.name, missing: true };
+  return null;
+}
+
+/**
+ * Check pinned entities against their last fingerprints and record what changed.
+ *
+ * @param scheduler - The global scheduler the reads are queued on.
+ * @param options - `onlyNew` to take the baselines of newly pinned entities only.
+ * @returns The changes found; `[]` when nothing changed, no tab on a pinned
+ *   entity's org is open, or a check is already running.
+ */
+export async function checkWatchlist(
+  scheduler: WorkerScheduler,
+  options: { onlyNew?: boolean } = {},
+): Promise<WatchChange[]> {
+  if (checking) return [];
+  checking = true;
+  try {
+    const items = (await watchlistStore.listItems()).filter(
+      (item) => !options.onlyNew || item.fingerprint === null,
+    );
+    if (items.length === 0) return [];
+
+    // One transport per org, through a tab on that org's origin; `null` when
+    // none is open, so its entities are skipped rather than read from another org.
+    const transports = new Map<string, WorkerRequest | null>();
+    const transportFor = async (origin: string) => {
+      if (!transports.has(origin)) {
+        const tab = await findOktaTabOn(origin);
+        transports.set(
+          origin,
+          tab?.id == null
+            ? null
+            : createWorkerCoreApi(scheduler, tab.id, { priority: 'low', caller: 'the watchlist' })
+                .makeApiRequest,
+        );
+      }
+      return transports.get(origin) ?? null;
+    };
+    const checkedAt = new Date();
+    const changes: WatchChange[] = [];
+    let failed = 0;
+    let skipped = 0;
+
+    for (const item of items) {
+      const makeApiRequest = await transportFor(item.origin);
+      if (!makeApiRequest) {
+        skipped++;
+        continue;
+      }
+      const fingerprint = await readFingerprint(makeApiRequest, item);
+      if (!fingerprint) {
+        failed++;
+        continue;
+      }
+      const lines = item.fingerprint
+        ? describeFingerprintChange(item.fingerprint, fingerprint)
+        : [];
+      if (lines.length > 0) {
+        changes.push({
+          id: crypto.randomUUID(),
+          kind: item.kind,
+          entityId: item.id,
+          name: fingerprint.missing ? item.name : fingerprint.name,
+          detectedAt: checkedAt,
+          changes: lines,
+          seen: false,
+        });
+      }
+      await watchlistStore.recordCheck(item.key, fingerprint, checkedAt);
+    }
+
+    await watchlistStore.addChanges(changes);
+    log.info('Watchlist checked', {
+      items: items.length,
+      changes: changes.length,
+      failed,
+      skipped,
+    });
+    return changes;
+  } finally {
+    checking = false;
+  }
+}
+
+/**
+ * Run a check, then update the badge, notify when asked to, and tell the panel.
+ *
+ * @param scheduler - The global scheduler.
+ * @param options - As {@link checkWatchlist}.
+ * @returns The changes found.
+ */
+export async function runWatchlistCheck(
+  scheduler: WorkerScheduler,
+  options: { onlyNew?: boolean } = {},
+): Promise<WatchChange[]> {
+  const changes = await checkWatchlist(scheduler, options);
+  await refreshWatchlistBadge().catch(() => {});
+
+  if (changes.length > 0 && (await watchlistStore.getSettings()).notify) {
+    chrome.notifications
+      .create(`watchlist:${changes[0].id}`, {
+        type: 'basic',
+        iconUrl: '/assets/icons/icon128.png',
+        ...notificationText(changes),
+      })
+      .catch(() => {});
+  }
+  chrome.runtime.sendMessage({ action: 'watchlistChecked' }).catch(() => {
+    // No panel open to refresh.
+  });
+  return changes;
+}
+
+/**
+ * Match the repeating alarm and the badge to the watchlist, and take the
+ * baselines of newly pinned entities. Run at start and whenever the panel changes
+ * the watchlist.
+ *
+ * @param scheduler - The global scheduler.
+ */
+export async function syncWatchlist(scheduler: WorkerScheduler): Promise<void> {
+  const items = await watchlistStore.listItems();
+  if (items.length === 0) {
+    await chrome.alarms.clear(WATCHLIST_ALARM);
+  } else if (!(await chrome.alarms.get(WATCHLIST_ALARM))) {
+    await chrome.alarms.create(WATCHLIST_ALARM, { periodInMinutes: WATCH_CHECK_MINUTES });
+  }
+  await refreshWatchlistBadge();
+  if (items.some((item) => item.fingerprint === null)) {
+    await runWatchlistCheck(scheduler, { onlyNew: true });
+  }
+}
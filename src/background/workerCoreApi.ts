@@ -0,0 +1,69 @@
+/**
+ * @module background/workerCoreApi
+ * @description A {@link CoreApi} for the service worker, so the side panel's
+ * operation modules can run here unchanged.
+ *
+ * The panel's transport cannot be used in the worker — it messages the worker —
+ * so `makeApiRequest` enqueues straight onto the global scheduler for one Okta
+ * tab instead. The requests, their caps and their rate limiting are the same as
+ * the panel's.
+ *
+ * There is no activity bar and no Cancel here: `runOperation` and `sendMessage`
+ * reject, and the cancellation guard never fires. The omnibox searches and the
+ * scheduled reports use nothing else.
+ *
+ * Nor is anyone waiting on a worker request, so one that meets an expired
+ * session is answered with it rather than held until sign-in: a scheduled run
+ * fails or a watchlist check leaves its entities as they were, and the next
+ * alarm tries again instead of finding the last run still waiting.
+ */
+
+import type { ApiScheduler } from '../shared/scheduler/apiScheduler';
+import type { RequestPriority } from '../shared/scheduler/types';
+import type { CoreApi } from '../sidepanel/hooks/useOktaApi/core';
+
+/** The scheduler surface a worker-side {@link CoreApi} needs. */
+export type WorkerScheduler = Pick<ApiScheduler, 'scheduleRequest'>;
+
+/** The identity `getCurrentUser` falls back to, as the panel's does. */
+const UNKNOWN_USER = { email: 'unknown@unknown.com', id: 'unknown' };
+
+/**
+ * Build a worker-side {@link CoreApi} for one Okta tab.
+ *
+ * @param scheduler - The global scheduler.
+ * @param tabId - The Okta tab whose session runs the requests.
+ * @param options - `priority` for requests that name none, and `caller` for the
+ *   error the unavailable members reject with.
+ * @returns The transport surface.
+ */
+export function createWorkerCoreApi(
+  scheduler: WorkerScheduler,
+  tabId: number,
+  options: { priority: RequestPriority; caller: string },
+): CoreApi {
+  const unavailable = () => Promise.reject(new Error(`Not available from ${options.caller}`));
+  const makeApiRequest: CoreApi['makeApiRequest'] = (
+    endpoint,
+    method = 'GET',
+    body,
+    priority = options.priority,
+  ) => scheduler.scheduleRequest(endpoint, method, body, tabId, priority, { awaitSignIn: false });
+
+  return {
+    targetTabId: tabId,
+    sendMessage: unavailable,
+    makeApiRequest,
+    getCurrentUser: async () => {
+      const response = await makeApiRequest('/api/v1/users/me').catch(() => null);
+      const me = response?.success
+        ? (response.data as { id?: string; profile?: { email?: string } })
+        : null;
+      return me?.id ? { email: me.profile?.email || UNKNOWN_USER.email, id: me.id } : UNKNOWN_USER;
+    },
+    checkCancelled: () => {},
+    resetCancellation: () => {},
+    runOperation: unavailable,
+    callbacks: {},
+  };
+}
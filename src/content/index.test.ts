@@ -224,6 +224,7 @@ describe('message router', () => {
     { action: 'getAppInfo' },
     { action: 'makeApiRequest', endpoint: '/api/v1/users/me' },
     { action: 'getOktaOrigin' },
+    { action: 'getSamlResponse' },
   ];
 
   it.each(allActions.map((r) => [r.action, r] as const))(
@@ -994,6 +995,31 @@ describe('getPolicyInfo', () => {
   });
 });
 
+// ============================================================================
+// 15. getSamlResponse: the SSO Inspector's capture
+// ============================================================================
+
+describe('getSamlResponse', () => {
+  it('returns the first non-empty SAMLResponse field, without a fetch', async () => {
+    document.body.innerHTML =
+      '<form><input type="hidden" name="SAMLResponse" value="" />' +
+      '<input type="hidden" name="SAMLResponse" value=" PHNhbWxwOlJlc3BvbnNlLz4= " /></form>';
+
+    await expect(send({ action: 'getSamlResponse' }).response).resolves.toEqual({
+      success: true,
+      data: 'PHNhbWxwOlJlc3BvbnNlLz4=',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('says so when the page carries no SAMLResponse', async () => {
+    await expect(send({ action: 'getSamlResponse' }).response).resolves.toEqual({
+      success: false,
+      error: 'No SAMLResponse on this page. Paste one instead.',
+    });
+  });
+});
+
 // ============================================================================
 // 16. Bootstrap: listener registration order + indicator lifecycle
 // ============================================================================
@@ -22,6 +22,7 @@
  *
  * **Supported Operations:**
  * - Page context (current group / user / app / auth-policy info, Okta origin)
+ * - A `SAMLResponse` form field on the page, for the SSO Inspector
  * - Generic API requests (GET, POST, PUT, DELETE) relayed by the background scheduler
  *
  * **Security:**
@@ -50,6 +51,7 @@ import { handleMakeApiRequest } from './apiRequest';
 import { injectIndicator } from './indicator';
 import { handleGetGroupInfo } from './groupHandlers';
 import { handleGetUserInfo } from './userHandlers';
+import { handleGetSamlResponse } from './samlCapture';
 
 declare global {
   interface Window {
@@ -159,6 +161,10 @@ function handleMessage(
       sendResponse({ success: true, data: window.location.origin });
       return true;
 
+    case 'getSamlResponse':
+      sendResponse(handleGetSamlResponse());
+      return true;
+
     default:
       log.warn('Unknown action', { action: request.action });
       sendResponse({ success: false, error: 'Unknown action' });
@@ -0,0 +1,47 @@
+/**
+ * @module content/samlCapture
+ * @description Read a `SAMLResponse` off the current Okta page for the side panel's
+ * SSO Inspector.
+ *
+ * Okta delivers an assertion to an app as a self-posting HTML form with a
+ * `SAMLResponse` field. When that page is still in the tab (the post was stopped,
+ * or the app's ACS page failed and was navigated back to), the field's value is
+ * the assertion exactly as Okta sent it — which is what the inspector needs.
+ *
+ * Only the field's value is read; the page is not otherwise touched, and the value
+ * is neither decoded nor logged here. Decoding is the side panel's, as untrusted
+ * input (`shared/saml/samlResponse`).
+ *
+ * @see `content/index` for message routing.
+ */
+
+import type { MessageResponse } from '../shared/types';
+import { createLogger } from '../shared/utils/logger';
+
+const log = createLogger('Content');
+
+/**
+ * Find the first non-empty `SAMLResponse` form field on the page.
+ *
+ * @returns A response carrying the field's raw value, or an error when the page
+ * has none.
+ */
+export function handleGetSamlResponse(): MessageResponse<string> {
+  log.debug('Processing getSamlResponse request');
+
+  const fields = document.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>(
+    'input[name="SAMLResponse"], textarea[name="SAMLResponse"]',
+  );
+  const value = Array.from(fields)
+    .map((field) => field.value.trim())
+    .find(Boolean);
+
+  if (!value) {
+    return {
+      success: false,
+      error: 'No SAMLResponse on this page. Paste one instead.',
+    };
+  }
+  log.debug('Found a SAMLResponse field', { length: value.length });
+  return { success: true, data: value };
+}
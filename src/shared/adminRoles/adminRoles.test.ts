@@ -0,0 +1,114 @@
+/**
+ * Tests for the administrator-role model.
+ *
+ * Pins which roles read group or app targets, that a group-held role is never
+ * offered for revoke, the scope wording (an empty target list means all of
+ * them), and the report rows and holder counts.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `irbFAKE…`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  adminReportRows,
+  adminRoleLabel,
+  describeRoleScope,
+  roleHolderCounts,
+  roleTargetKind,
+  sortAdminReportRows,
+  toUserAdminRole,
+} from './adminRoles';
+
+describe('roleTargetKind', () => {
+  it('reads groups for group-scoped roles, apps for APP_ADMIN, nothing otherwise', () => {
+    expect(roleTargetKind('USER_ADMIN')).toBe('groups');
+    expect(roleTargetKind('HELP_DESK_ADMIN')).toBe('groups');
+    expect(roleTargetKind('GROUP_MEMBERSHIP_ADMIN')).toBe('groups');
+    expect(roleTargetKind('APP_ADMIN')).toBe('apps');
+    expect(roleTargetKind('SUPER_ADMIN')).toBeNull();
+    expect(roleTargetKind('CUSTOM')).toBeNull();
+  });
+});
+
+describe('toUserAdminRole', () => {
+  it('keeps a direct role revocable and a group-held one not', () => {
+    const direct = toUserAdminRole({
+      id: 'irbFAKE1',
+      type: 'USER_ADMIN',
+      status: 'ACTIVE',
+      assignmentType: 'USER',
+    });
+    expect(direct).toEqual({
+      assignmentId: 'irbFAKE1',
+      type: 'USER_ADMIN',
+      label: 'Group Administrator',
+      status: 'ACTIVE',
+      assignmentType: 'USER',
+      revocable: true,
+    });
+
+    const viaGroup = toUserAdminRole({
+      id: 'irbFAKE2',
+      type: 'ORG_ADMIN',
+      assignmentType: 'GROUP',
+    });
+    expect(viaGroup.revocable).toBe(false);
+    expect(viaGroup.status).toBeNull();
+  });
+
+  it("prefers Okta's label and falls back to the raw type", () => {
+    expect(adminRoleLabel('CUSTOM', 'Helpdesk tier 2')).toBe('Helpdesk tier 2');
+    expect(adminRoleLabel('SOMETHING_NEW')).toBe('SOMETHING_NEW');
+    expect(toUserAdminRole({ id: 'irbFAKE3', type: 'X' }).assignmentType).toBeNull();
+  });
+});
+
+describe('describeRoleScope', () => {
+  it('treats an empty target list as all of them', () => {
+    expect(describeRoleScope(null)).toBe('Whole org');
+    expect(describeRoleScope({ kind: 'groups', targets: [] })).toBe('All groups');
+    expect(describeRoleScope({ kind: 'apps', targets: [{ id: 'salesforce', name: 'SF' }] })).toBe(
+      '1 app',
+    );
+    expect(
+      describeRoleScope({
+        kind: 'groups',
+        targets: [
+          { id: '00gFAKE1', name: 'A' },
+          { id: '00gFAKE2', name: 'B' },
+        ],
+      }),
+    ).toBe('2 groups');
+  });
+});
+
+describe('admins report rows', () => {
+  const user = (id: string, name: string) => ({
+    id,
+    login: `${id}@example.com`,
+    name,
+    status: 'ACTIVE',
+  });
+  const role = (type: string, assignmentId: string) =>
+    toUserAdminRole({ id: assignmentId, type, assignmentType: 'USER' });
+
+  it('writes one row per role and counts distinct holders per role', () => {
+    const rows = [
+      ...adminReportRows(user('00uFAKE1', 'Zed'), [
+        role('ORG_ADMIN', 'irbFAKE1'),
+        role('READ_ONLY_ADMIN', 'irbFAKE2'),
+      ]),
+      ...adminReportRows(user('00uFAKE2', 'Amy'), [role('ORG_ADMIN', 'irbFAKE3')]),
+    ];
+
+    expect(rows).toHaveLength(3);
+    expect(sortAdminReportRows(rows).map((r) => [r.roleLabel, r.name])).toEqual([
+      ['Organization Administrator', 'Amy'],
+      ['Organization Administrator', 'Zed'],
+      ['Read-only Administrator', 'Zed'],
+    ]);
+    expect(roleHolderCounts(rows)).toEqual([
+      { label: 'Organization Administrator', count: 2 },
+      { label: 'Read-only Administrator', count: 1 },
+    ]);
+  });
+});
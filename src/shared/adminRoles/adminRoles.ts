@@ -0,0 +1,240 @@
+/**
+ * @module shared/adminRoles/adminRoles
+ * @description Administrator roles as the panel shows them: what a user holds,
+ * what each role is scoped to, and the rows of the org-wide admins report.
+ *
+ * Okta lists a user's roles as assignments (`GET /api/v1/users/{id}/roles`).
+ * Some standard roles can be narrowed to groups (`USER_ADMIN`,
+ * `GROUP_MEMBERSHIP_ADMIN`, `HELP_DESK_ADMIN`) or to apps (`APP_ADMIN`); a role
+ * with no targets applies to the whole org. {@link roleTargetKind} says which
+ * listing, if any, a role's targets come from. The reads themselves live in
+ * `sidepanel/hooks/useOktaApi/adminRoles`.
+ *
+ * ## Direct and group-held roles
+ *
+ * A role held through a group (`assignmentType: 'GROUP'`) is listed on the user
+ * but cannot be revoked from them: Okta only accepts the revoke on the group.
+ * {@link toUserAdminRole} marks such a role as not revocable so the panel never
+ * offers a write Okta would refuse.
+ *
+ * Names and logins are tenant data; nothing here is logged.
+ */
+
+import type { OktaRoleAssignment } from '../schemas/okta';
+
+/** A standard role the panel can grant, with the label the Admin Console uses. */
+export interface StandardAdminRole {
+  type: string;
+  label: string;
+}
+
+/**
+ * Every standard role, in the order the grant picker lists them. Custom roles
+ * are bound to resource sets and are granted from the Admin Console.
+ */
+export const STANDARD_ADMIN_ROLES: readonly StandardAdminRole[] = [
+  { type: 'SUPER_ADMIN', label: 'Super Administrator' },
+  { type: 'ORG_ADMIN', label: 'Organization Administrator' },
+  { type: 'APP_ADMIN', label: 'Application Administrator' },
+  { type: 'USER_ADMIN', label: 'Group Administrator' },
+  { type: 'GROUP_MEMBERSHIP_ADMIN', label: 'Group Membership Administrator' },
+  { type: 'HELP_DESK_ADMIN', label: 'Help Desk Administrator' },
+  { type: 'READ_ONLY_ADMIN', label: 'Read-only Administrator' },
+  { type: 'MOBILE_ADMIN', label: 'Mobile Administrator' },
+  { type: 'API_ACCESS_MANAGEMENT_ADMIN', label: 'API Access Management Administrator' },
+  { type: 'REPORT_ADMIN', label: 'Report Administrator' },
+];
+
+/** The role types that can be narrowed to groups. */
+const GROUP_TARGETED_ROLES: ReadonlySet<string> = new Set([
+  'USER_ADMIN',
+  'GROUP_MEMBERSHIP_ADMIN',
+  'HELP_DESK_ADMIN',
+]);
+
+/**
+ * Which target listing a role's scope is read from.
+ *
+ * @param type - The role type.
+ * @returns `'groups'`, `'apps'`, or `null` for a role that is always org-wide.
+ */
+export function roleTargetKind(type: string): 'groups' | 'apps' | null {
+  if (GROUP_TARGETED_ROLES.has(type)) return 'groups';
+  if (type === 'APP_ADMIN') return 'apps';
+  return null;
+}
+
+/**
+ * A role's display label: Okta's own when it sent one, else the standard label,
+ * else the raw type.
+ *
+ * @param type - The role type.
+ * @param label - The label on the assignment, if any.
+ * @returns A non-empty label.
+ */
+export function adminRoleLabel(type: string, label?: string): string {
+  if (label) return label;
+  return STANDARD_ADMIN_ROLES.find((role) => role.type === type)?.label ?? type;
+}
+
+/** One role a user holds. */
+export interface UserAdminRole {
+  /** The assignment id: what a revoke or a target read addresses. */
+  assignmentId: string;
+  type: string;
+  label: string;
+  /** `ACTIVE` or `INACTIVE`, when Okta said. */
+  status: string | null;
+  /** Whether the role is held directly or through a group; `null` when Okta did not say. */
+  assignmentType: 'USER' | 'GROUP' | null;
+  /** Only a directly held role can be revoked from the user. */
+  revocable: boolean;
+}
+
+/**
+ * Turn a role assignment into the row the panel renders.
+ *
+ * @param assignment - One row of `GET /api/v1/users/{id}/roles`.
+ * @returns The role, with `revocable` decided.
+ */
+export function toUserAdminRole(assignment: OktaRoleAssignment): UserAdminRole {
+  const assignmentType =
+    assignment.assignmentType === 'USER' || assignment.assignmentType === 'GROUP'
+      ? assignment.assignmentType
+      : null;
+  return {
+    assignmentId: assignment.id,
+    type: assignment.type,
+    label: adminRoleLabel(assignment.type, assignment.label),
+    status: assignment.status ?? null,
+    assignmentType,
+    // An unknown assignment type is treated as direct: that is what the user
+    // endpoint lists unless told otherwise, and Okta refuses the revoke if not.
+    revocable: assignmentType !== 'GROUP',
+  };
+}
+
+/** A group or app a role is narrowed to. */
+export interface RoleTarget {
+  /** The group id, app instance id, or app name for a whole app type. */
+  id: string;
+  name: string;
+}
+
+/**
+ * What a role is scoped to.
+ *
+ * `targets` empty means the role applies to every group or app in the org —
+ * Okta's reading of a targetable role with no targets.
+ */
+export interface RoleTargets {
+  kind: 'groups' | 'apps';
+  targets: RoleTarget[];
+}
+
+/**
+ * Say what a role applies to, in words.
+ *
+ * @param targets - The role's targets, or `null` for a role that is never narrowed.
+ * @returns e.g. `All groups`, `3 groups`, `1 app`, `Whole org`.
+ */
+export function describeRoleScope(targets: RoleTargets | null): string {
+  if (!targets) return 'Whole org';
+  const noun = targets.kind === 'groups' ? 'group' : 'app';
+  if (targets.targets.length === 0) return `All ${noun}s`;
+  return `${targets.targets.length} ${noun}${targets.targets.length === 1 ? '' : 's'}`;
+}
+
+/** One row of the org-wide admins report: a user and one role they hold. */
+export interface AdminReportRow {
+  userId: string;
+  login: string;
+  name: string;
+  userStatus: string;
+  roleType: string;
+  roleLabel: string;
+  roleStatus: string | null;
+  assignmentType: 'USER' | 'GROUP' | null;
+}
+
+/** A role holder whose user record or roles could not be read, and why. */
+export interface UnreadableAdmin {
+  userId: string;
+  error: string;
+}
+
+/** The admins report as read: one row per user per role. */
+export interface AdminsReport {
+  rows: AdminReportRow[];
+  /** ISO time the report was read. */
+  readAt: string;
+  /** How many users the role-assignee listing named. */
+  adminCount: number;
+  unreadable: UnreadableAdmin[];
+}
+
+/** The user fields an admins-report row carries. */
+export interface AdminReportUser {
+  id: string;
+  login: string;
+  name: string;
+  status: string;
+}
+
+/**
+ * Expand one role holder into report rows.
+ *
+ * @param user - The user's identity fields.
+ * @param roles - The roles they hold.
+ * @returns One row per role, in the order given.
+ */
+export function adminReportRows(
+  user: AdminReportUser,
+  roles: readonly UserAdminRole[],
+): AdminReportRow[] {
+  return roles.map((role) => ({
+    userId: user.id,
+    login: user.login,
+    name: user.name,
+    userStatus: user.status,
+    roleType: role.type,
+    roleLabel: role.label,
+    roleStatus: role.status,
+    assignmentType: role.assignmentType,
+  }));
+}
+
+/**
+ * Sort report rows by role, then by person, so each role's holders read together.
+ *
+ * @param rows - The rows to sort; not mutated.
+ * @returns A new, sorted array.
+ */
+export function sortAdminReportRows(rows: readonly AdminReportRow[]): AdminReportRow[] {
+  return [...rows].sort(
+    (a, b) =>
+      a.roleLabel.localeCompare(b.roleLabel) ||
+      a.name.localeCompare(b.name) ||
+      a.login.localeCompare(b.login),
+  );
+}
+
+/**
+ * How many users hold each role.
+ *
+ * @param rows - Report rows.
+ * @returns Role label → distinct holders, most-held first.
+ */
+export function roleHolderCounts(
+  rows: readonly AdminReportRow[],
+): Array<{ label: string; count: number }> {
+  const holders = new Map<string, Set<string>>();
+  for (const row of rows) {
+    const set = holders.get(row.roleLabel) ?? new Set<string>();
+    set.add(row.userId);
+    holders.set(row.roleLabel, set);
+  }
+  return [...holders.entries()]
+    .map(([label, users]) => ({ label, count: users.size }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
@@ -0,0 +1,89 @@
+/**
+ * Tests for the API Console's request rules: which paths it will call, how a
+ * typed body parses, and when a response lays out as a table.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_TABLE_COLUMNS,
+  detectTable,
+  isConsoleWrite,
+  parseConsoleBody,
+  resolveConsolePath,
+} from './apiConsole';
+
+const ORIGIN = 'https://example.okta.com';
+
+describe('resolveConsolePath', () => {
+  it('accepts an /api/v1 path and keeps its query', () => {
+    expect(resolveConsolePath(' /api/v1/users?limit=5 ', ORIGIN)).toEqual({
+      ok: true,
+      value: '/api/v1/users?limit=5',
+    });
+  });
+
+  it('accepts an absolute URL on the connected org and drops the fragment', () => {
+    expect(resolveConsolePath(`${ORIGIN}/api/v1/groups#top`, ORIGIN)).toEqual({
+      ok: true,
+      value: '/api/v1/groups',
+    });
+  });
+
+  it.each([
+    ['', 'blank'],
+    ['api/v1/users', 'relative'],
+    ['//evil.example.com/api/v1/users', 'protocol-relative'],
+    ['https://evil.example.com/api/v1/users', 'another origin'],
+    ['/api/v2/users', 'another API version'],
+    ['/api/v1x/users', 'a look-alike prefix'],
+    ['/api/v1/../../oauth2/v1/token', 'a dot-segment escape'],
+    ['/admin/users', 'the admin UI'],
+  ])('refuses %j (%s)', (input) => {
+    expect(resolveConsolePath(input, ORIGIN).ok).toBe(false);
+  });
+
+  it('refuses an absolute URL when no org is connected', () => {
+    expect(resolveConsolePath(`${ORIGIN}/api/v1/users`, null).ok).toBe(false);
+  });
+});
+
+describe('parseConsoleBody and isConsoleWrite', () => {
+  it('treats a blank body as none and rejects invalid JSON', () => {
+    expect(parseConsoleBody('  ')).toEqual({ ok: true, value: undefined });
+    expect(parseConsoleBody('{"a":1}')).toEqual({ ok: true, value: { a: 1 } });
+    expect(parseConsoleBody('{a:1}').ok).toBe(false);
+  });
+
+  it('counts every method but GET as a write', () => {
+    expect(isConsoleWrite('GET')).toBe(false);
+    expect(['POST', 'PUT', 'PATCH', 'DELETE'].every((m) => isConsoleWrite(m as 'POST'))).toBe(true);
+  });
+});
+
+describe('detectTable', () => {
+  it('lays out top-level scalars, then profile scalars, with blanks for missing cells', () => {
+    const table = detectTable([
+      { id: '00uFAKE1', status: 'ACTIVE', profile: { login: 'a@example.com' }, _links: {} },
+      { id: '00uFAKE2', profile: { login: 'b@example.com', title: 'Engineer' } },
+    ]);
+    expect(table).toEqual({
+      columns: ['id', 'status', 'profile.login', 'profile.title'],
+      rows: [
+        ['00uFAKE1', 'ACTIVE', 'a@example.com', ''],
+        ['00uFAKE2', '', 'b@example.com', 'Engineer'],
+      ],
+    });
+  });
+
+  it('caps the columns', () => {
+    const wide = Object.fromEntries(
+      Array.from({ length: MAX_TABLE_COLUMNS + 5 }, (_, i) => [`f${i}`, i]),
+    );
+    expect(detectTable([wide])?.columns).toHaveLength(MAX_TABLE_COLUMNS);
+  });
+
+  it('finds no table in a single object, an empty list or a list of scalars', () => {
+    expect(detectTable({ id: '00uFAKE1' })).toBeNull();
+    expect(detectTable([])).toBeNull();
+    expect(detectTable(['a', 'b'])).toBeNull();
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * @module shared/apiConsole/apiConsole
+ * @description The rules of the API Console tab: which requests it may send, and
+ * how a response is laid out as a table.
+ *
+ * The console calls the Okta API as the signed-in admin, through the same
+ * session and scheduler as every other tab, so what it accepts is deliberately
+ * narrow:
+ *
+ * - **Paths** must be this org's own `/api/v1` — an origin-relative path, or an
+ *   absolute URL whose origin is the connected org's. The path is normalised by
+ *   `URL` before the prefix check, so `/api/v1/../..` cannot climb out of it.
+ *   Anything else is refused before a request exists.
+ * - **Methods** are the content script's own allow-list
+ *   ({@link API_CONSOLE_METHODS}). Every one but `GET` is a write, and a write is
+ *   confirmed and audited by the tab.
+ * - **Priority** is one of the scheduler's three background tiers;
+ *   `interactive` stays reserved for type-ahead search.
+ *
+ * The table is a convenience over the JSON, never a replacement for it:
+ * {@link detectTable} finds one only for a list of objects, and shows their
+ * scalar fields plus the scalar fields of `profile`, the shape nearly every Okta
+ * list has.
+ *
+ * Request bodies and responses are tenant data; nothing here logs them.
+ */
+
+import type { RequestPriority } from '../scheduler/types';
+
+/** The methods the console may send — the content script's allow-list. */
+export const API_CONSOLE_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+/** One of {@link API_CONSOLE_METHODS}. */
+export type ApiConsoleMethod = (typeof API_CONSOLE_METHODS)[number];
+
+/** The scheduler tiers the console may ask for, in queue order. */
+export const API_CONSOLE_PRIORITIES: ReadonlyArray<{
+  value: Exclude<RequestPriority, 'interactive'>;
+  label: string;
+}> = [
+  { value: 'high', label: 'High' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'low', label: 'Low' },
+];
+
+/** The only path prefix the console will call. */
+const API_PREFIX = '/api/v1';
+
+/** The most columns {@link detectTable} lays out; the JSON holds the rest. */
+export const MAX_TABLE_COLUMNS = 12;
+
+/** A value checked for sending: the value, or why it was refused. */
+export type ConsoleCheck<T> = { ok: true; value: T } | { ok: false; error: string };
+
+/** A response laid out as rows, one per list item. */
+export interface ConsoleTable {
+  /** Column names: top-level fields, then `profile.*` fields. */
+  columns: string[];
+  /** One row per item, one display string per column (empty when absent). */
+  rows: string[][];
+}
+
+/**
+ * Whether a method changes data — anything but `GET`.
+ *
+ * @param method - The method to send.
+ */
+export function isConsoleWrite(method: ApiConsoleMethod): boolean {
+  return method !== 'GET';
+}
+
+/**
+ * Resolve what the admin typed to an origin-relative `/api/v1` path.
+ *
+ * @param input - A path such as `/api/v1/users?limit=5`, or an absolute URL.
+ * @param oktaOrigin - The connected org's origin; an absolute URL must match it.
+ * @returns The normalised path with its query (never the fragment), or why it
+ *   was refused.
+ */
+export function resolveConsolePath(input: string, oktaOrigin: string | null): ConsoleCheck<string> {
+  const trimmed = input.trim();
+  if (!trimmed) return { ok: false, error: 'Enter an /api/v1 path.' };
+  if (trimmed.startsWith('//')) {
+    return { ok: false, error: 'Only this org’s own API can be called.' };
+  }
+
+  let url: URL;
+  try {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(trimmed)) {
+      url = new URL(trimmed);
+      if (!oktaOrigin || url.origin !== new URL(oktaOrigin).origin) {
+        return { ok: false, error: 'Only this org’s own API can be called.' };
+      }
+    } else {
+      if (!trimmed.startsWith('/')) return { ok: false, error: 'A path starts with /api/v1.' };
+      url = new URL(trimmed, 'https://okta.invalid');
+    }
+  } catch {
+    return { ok: false, error: 'That is not a valid URL.' };
+  }
+
+  const { pathname, search } = url;
+  if (pathname !== API_PREFIX && !pathname.startsWith(`${API_PREFIX}/`)) {
+    return { ok: false, error: 'Only /api/v1 paths can be called.' };
+  }
+  return { ok: true, value: `${pathname}${search}` };
+}
+
+/**
+ * Parse the request body the admin typed.
+ *
+ * @param text - JSON text; blank means no body.
+ * @returns The parsed body (`undefined` for none), or why it was refused.
+ */
+export function parseConsoleBody(text: string): ConsoleCheck<unknown> {
+  if (!text.trim()) return { ok: true, value: undefined };
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false, error: 'The body is not valid JSON.' };
+  }
+}
+
+/** A plain JSON object (not an array, not `null`). */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** A value a table cell can show as-is. */
+function isScalar(value: unknown): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/** The value at a column of one item: `name` or `profile.name`. */
+function columnValue(item: Record<string, unknown>, column: string): unknown {
+  if (!column.startsWith('profile.')) return item[column];
+  const profile = item.profile;
+  return isRecord(profile) ? profile[column.slice('profile.'.length)] : undefined;
+}
+
+/**
+ * Lay out a response as a table, when it is a list of objects.
+ *
+ * @param data - The response body (every page loaded so far, for a list).
+ * @returns The table, or `null` when the response is not a list of objects or
+ *   none of them has a scalar field.
+ */
+export function detectTable(data: unknown): ConsoleTable | null {
+  if (!Array.isArray(data) || data.length === 0 || !data.every(isRecord)) return null;
+
+  const top: string[] = [];
+  const profile: string[] = [];
+  for (const item of data) {
+    for (const [key, value] of Object.entries(item)) {
+      if (key === 'profile' && isRecord(value)) {
+        for (const [field, fieldValue] of Object.entries(value)) {
+          const column = `profile.${field}`;
+          if (isScalar(fieldValue) && !profile.includes(column)) profile.push(column);
+        }
+      } else if (isScalar(value) && !top.includes(key)) {
+        top.push(key);
+      }
+    }
+  }
+
+  const columns = [...top, ...profile].slice(0, MAX_TABLE_COLUMNS);
+  if (columns.length === 0) return null;
+  return {
+    columns,
+    rows: data.map((item) =>
+      columns.map((column) => {
+        const value = columnValue(item, column);
+        return value === undefined || value === null ? '' : String(value);
+      }),
+    ),
+  };
+}
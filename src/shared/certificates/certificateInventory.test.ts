@@ -0,0 +1,175 @@
+/**
+ * Tests for the signing-certificate inventory.
+ *
+ * Pins the day count and its buckets at their edges, which key an app or IdP is
+ * said to use (and that an unnamed one is unknown rather than "not in use"), the
+ * ownerless record for an untrusted IdP key, and the sort order with undated keys
+ * kept last.
+ *
+ * Fixtures use only fake placeholders (`0oaFAKE…`, `kidFAKE…`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  appCertificateRecords,
+  appSigningKid,
+  bucketCounts,
+  daysUntil,
+  describeDaysToExpiry,
+  expiryBucket,
+  idpCertificateRecords,
+  isSamlApp,
+  sortCertificates,
+  type CertificateRecord,
+} from './certificateInventory';
+import type { OktaAppListItem, OktaIdp, OktaJsonWebKey } from '../schemas/okta';
+
+const NOW = new Date('2026-03-02T12:00:00.000Z');
+
+const key = (kid: string, expiresAt: string | null): OktaJsonWebKey => ({
+  kid,
+  kty: 'RSA',
+  created: '2025-03-02T12:00:00.000Z',
+  expiresAt,
+});
+
+const samlApp: OktaAppListItem = {
+  id: '0oaFAKE1',
+  label: 'Payroll',
+  status: 'ACTIVE',
+  signOnMode: 'SAML_2_0',
+  credentials: { signing: { kid: 'kidFAKE2' } },
+};
+
+describe('daysUntil and expiryBucket', () => {
+  it('counts whole days, rounding down', () => {
+    expect(daysUntil('2026-03-02T23:00:00.000Z', NOW)).toBe(0);
+    expect(daysUntil('2026-03-12T12:00:00.000Z', NOW)).toBe(10);
+    expect(daysUntil('2026-03-02T11:00:00.000Z', NOW)).toBe(-1);
+  });
+
+  it('has no count for a missing or unreadable date', () => {
+    expect(daysUntil(null, NOW)).toBeNull();
+    expect(daysUntil('soon', NOW)).toBeNull();
+  });
+
+  it('buckets at 30, 60 and 90 days inclusive', () => {
+    expect([-1, 0, 30, 31, 60, 61, 90, 91].map(expiryBucket)).toEqual([
+      'expired',
+      'days-30',
+      'days-30',
+      'days-60',
+      'days-60',
+      'days-90',
+      'days-90',
+      'later',
+    ]);
+    expect(expiryBucket(null)).toBe('unknown');
+  });
+
+  it('says the count in words', () => {
+    expect(describeDaysToExpiry(12)).toBe('in 12 days');
+    expect(describeDaysToExpiry(0)).toBe('within a day');
+    expect(describeDaysToExpiry(-1)).toBe('expired within a day');
+    expect(describeDaysToExpiry(-4)).toBe('expired 3 days ago');
+    expect(describeDaysToExpiry(null)).toBe('no expiry date');
+  });
+});
+
+describe('appCertificateRecords', () => {
+  it("marks the key named by the app's signing credentials as in use", () => {
+    const records = appCertificateRecords(
+      samlApp,
+      [key('kidFAKE1', '2026-03-20T12:00:00.000Z'), key('kidFAKE2', '2027-03-02T12:00:00.000Z')],
+      NOW,
+    );
+    expect(records.map((r) => [r.kid, r.inUse, r.bucket])).toEqual([
+      ['kidFAKE1', false, 'days-30'],
+      ['kidFAKE2', true, 'later'],
+    ]);
+    expect(records[0]).toMatchObject({ source: 'app', ownerId: '0oaFAKE1', ownerName: 'Payroll' });
+  });
+
+  it('says in-use is unknown when the app names no signing key', () => {
+    const app = { ...samlApp, credentials: { signing: {} } };
+    expect(appSigningKid(app)).toBeUndefined();
+    expect(appCertificateRecords(app, [key('kidFAKE1', null)], NOW)[0]).toMatchObject({
+      inUse: null,
+      bucket: 'unknown',
+    });
+  });
+
+  it('recognises SAML apps by sign-on mode', () => {
+    expect(isSamlApp(samlApp)).toBe(true);
+    expect(isSamlApp({ ...samlApp, signOnMode: 'SAML_1_1' })).toBe(true);
+    expect(isSamlApp({ ...samlApp, signOnMode: 'OPENID_CONNECT' })).toBe(false);
+    expect(isSamlApp({ id: '0oaFAKE2' })).toBe(false);
+  });
+});
+
+describe('idpCertificateRecords', () => {
+  const idps: OktaIdp[] = [
+    { id: '0oaFAKEidp1', name: 'Partner A', protocol: { credentials: { trust: { kid: 'kidA' } } } },
+    { id: '0oaFAKEidp2', name: 'Partner B', protocol: { credentials: { trust: { kid: 'kidA' } } } },
+    { id: '0oaFAKEidp3', name: 'Social' },
+  ];
+
+  it('lists a shared key once per IdP that trusts it', () => {
+    const records = idpCertificateRecords([key('kidA', '2026-04-01T12:00:00.000Z')], idps, NOW);
+    expect(records.map((r) => r.ownerName)).toEqual(['Partner A', 'Partner B']);
+    expect(records.every((r) => r.inUse && r.daysToExpiry === 30)).toBe(true);
+  });
+
+  it('keeps a key no IdP trusts, with no owner', () => {
+    expect(idpCertificateRecords([key('kidOrphan', null)], idps, NOW)).toEqual([
+      expect.objectContaining({ ownerId: null, ownerName: '', inUse: false }),
+    ]);
+  });
+});
+
+describe('sortCertificates and bucketCounts', () => {
+  const record = (ownerName: string, daysToExpiry: number | null): CertificateRecord => ({
+    source: 'app',
+    ownerId: ownerName,
+    ownerName,
+    kid: `kid-${ownerName}`,
+    created: null,
+    expiresAt: null,
+    daysToExpiry,
+    bucket: expiryBucket(daysToExpiry),
+    inUse: true,
+  });
+  const records = [record('Beta', 40), record('Alpha', null), record('Gamma', -2)];
+
+  it('sorts soonest first and keeps undated keys last in either direction', () => {
+    expect(sortCertificates(records, 'expiry').map((r) => r.ownerName)).toEqual([
+      'Gamma',
+      'Beta',
+      'Alpha',
+    ]);
+    expect(sortCertificates(records, 'expiry', 'desc').map((r) => r.ownerName)).toEqual([
+      'Beta',
+      'Gamma',
+      'Alpha',
+    ]);
+  });
+
+  it('sorts by owner without mutating the input', () => {
+    expect(sortCertificates(records, 'owner').map((r) => r.ownerName)).toEqual([
+      'Alpha',
+      'Beta',
+      'Gamma',
+    ]);
+    expect(records[0].ownerName).toBe('Beta');
+  });
+
+  it('counts every bucket, zero included', () => {
+    expect(bucketCounts(records)).toEqual({
+      expired: 1,
+      'days-30': 0,
+      'days-60': 1,
+      'days-90': 0,
+      later: 0,
+      unknown: 1,
+    });
+  });
+});
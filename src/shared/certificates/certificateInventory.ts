@@ -0,0 +1,296 @@
+/**
+ * @module shared/certificates/certificateInventory
+ * @description The org's SAML signing certificates and how long each has left:
+ * the keys trusted for inbound IdPs and the keys each SAML app signs with.
+ *
+ * Okta lists both as JSON Web Keys with an `expiresAt`. This module turns them
+ * into one flat list of {@link CertificateRecord}, each placed in an
+ * {@link ExpiryBucket} (expired, 30, 60 or 90 days, later) so the panel can show
+ * what needs renewing first. The reads themselves live in
+ * `sidepanel/hooks/useOktaApi/certificates`.
+ *
+ * ## Which key is in use
+ *
+ * An app can hold several keys during a rollover; the one it signs with is named
+ * by `credentials.signing.kid` on the app. An IdP's trust names the key it
+ * verifies with the same way. A key nobody names is listed as not in use rather
+ * than dropped: an orphaned certificate is harmless, but "harmless" is for the
+ * admin to decide. When the app's own record does not say (`kid` missing),
+ * `inUse` is `null` — unknown, not "no".
+ *
+ * Days are whole days, rounded down, so "0 days" means it expires within the next
+ * 24 hours. App and IdP names are tenant data; nothing here is logged.
+ */
+
+import { z } from 'zod';
+import type { OktaAppListItem, OktaIdp, OktaJsonWebKey } from '../schemas/okta';
+
+/** One day in milliseconds. */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The sign-on modes whose apps carry SAML signing keys. */
+export const SAML_SIGN_ON_MODES: readonly string[] = ['SAML_2_0', 'SAML_1_1'];
+
+/** Where a certificate is configured. */
+export type CertificateSource = 'idp' | 'app';
+
+/** How soon a certificate expires, in the panel's 30/60/90-day steps. */
+export type ExpiryBucket = 'expired' | 'days-30' | 'days-60' | 'days-90' | 'later' | 'unknown';
+
+/** Every bucket, soonest first; the order the panel's pills and counts use. */
+export const EXPIRY_BUCKETS: readonly ExpiryBucket[] = [
+  'expired',
+  'days-30',
+  'days-60',
+  'days-90',
+  'later',
+  'unknown',
+];
+
+/** Short labels for each {@link ExpiryBucket}. */
+export const EXPIRY_BUCKET_LABEL: Record<ExpiryBucket, string> = {
+  expired: 'Expired',
+  'days-30': '≤ 30 days',
+  'days-60': '31–60 days',
+  'days-90': '61–90 days',
+  later: 'Later',
+  unknown: 'No expiry date',
+};
+
+/** One signing certificate and where it is configured. */
+export interface CertificateRecord {
+  source: CertificateSource;
+  /** The app or IdP id, or `null` for an IdP key no IdP trusts. */
+  ownerId: string | null;
+  /** The app label or IdP name; empty for an IdP key no IdP trusts. */
+  ownerName: string;
+  /** The app's or IdP's status as Okta reports it, when known. */
+  ownerStatus?: string;
+  kid: string;
+  created: string | null;
+  expiresAt: string | null;
+  /** Whole days until `expiresAt`, negative once past; `null` without a readable date. */
+  daysToExpiry: number | null;
+  bucket: ExpiryBucket;
+  /** Whether the owner signs or verifies with this key; `null` when Okta did not say. */
+  inUse: boolean | null;
+}
+
+/** An app whose keys could not be read, and why. */
+export interface UnreadableCertificateOwner {
+  appId: string;
+  appName: string;
+  error: string;
+}
+
+/** The inventory as read at one moment. */
+export interface CertificateInventory {
+  records: CertificateRecord[];
+  /** When the reads finished (ISO 8601). */
+  readAt: string;
+  /** Why the IdP keys could not be read, or `null` when they were. */
+  idpError: string | null;
+  /** Why the app list could not be read, or `null` when it was. */
+  appListError: string | null;
+  /** SAML apps whose keys could not be read; their certificates are missing from `records`. */
+  unreadableApps: UnreadableCertificateOwner[];
+}
+
+/**
+ * Whole days from `now` until `expiresAt`, rounded down.
+ *
+ * @param expiresAt - An ISO 8601 timestamp, or nothing.
+ * @param now - The moment to count from.
+ * @returns Days left (negative once expired), or `null` for a missing or unreadable date.
+ */
+export function daysUntil(expiresAt: string | null | undefined, now: Date): number | null {
+  if (!expiresAt) return null;
+  const at = new Date(expiresAt).getTime();
+  if (Number.isNaN(at)) return null;
+  return Math.floor((at - now.getTime()) / DAY_MS);
+}
+
+/**
+ * The bucket a number of days falls in.
+ *
+ * @param days - From {@link daysUntil}.
+ * @returns The {@link ExpiryBucket}.
+ */
+export function expiryBucket(days: number | null): ExpiryBucket {
+  if (days === null) return 'unknown';
+  if (days < 0) return 'expired';
+  if (days <= 30) return 'days-30';
+  if (days <= 60) return 'days-60';
+  if (days <= 90) return 'days-90';
+  return 'later';
+}
+
+/** The part of an app's `credentials` that names its signing key. */
+const appSigningCredentialsSchema = z
+  .object({
+    signing: z.object({ kid: z.string().min(1) }).passthrough(),
+  })
+  .passthrough();
+
+/**
+ * The `kid` an app signs with, read from its `credentials`.
+ *
+ * {@link oktaAppListItemSchema} leaves `credentials` to `.passthrough()`, so the
+ * value is untyped and validated here. Never throws.
+ *
+ * @param app - An app list row.
+ * @returns The signing key id, or `undefined` when the row does not carry one.
+ */
+export function appSigningKid(app: OktaAppListItem): string | undefined {
+  const parsed = appSigningCredentialsSchema.safeParse(app.credentials);
+  return parsed.success ? parsed.data.signing.kid : undefined;
+}
+
+/**
+ * Whether an app signs SAML assertions (and so has signing keys worth listing).
+ *
+ * @param app - An app list row.
+ * @returns `true` for SAML 2.0 and SAML 1.1 apps.
+ */
+export function isSamlApp(app: OktaAppListItem): boolean {
+  return app.signOnMode !== undefined && SAML_SIGN_ON_MODES.includes(app.signOnMode);
+}
+
+/** The date fields of a record, from a key. */
+const datedFields = (key: OktaJsonWebKey, now: Date) => {
+  const daysToExpiry = daysUntil(key.expiresAt, now);
+  return {
+    kid: key.kid,
+    created: key.created ?? null,
+    expiresAt: key.expiresAt ?? null,
+    daysToExpiry,
+    bucket: expiryBucket(daysToExpiry),
+  };
+};
+
+/**
+ * Records for the IdP keys: one per IdP that trusts a key, and one ownerless
+ * record for a key no IdP trusts.
+ *
+ * @param keys - From `GET /api/v1/idps/credentials/keys`.
+ * @param idps - From `GET /api/v1/idps`.
+ * @param now - The moment days are counted from.
+ * @returns The records, in the keys' order.
+ */
+export function idpCertificateRecords(
+  keys: OktaJsonWebKey[],
+  idps: OktaIdp[],
+  now: Date,
+): CertificateRecord[] {
+  const records: CertificateRecord[] = [];
+  for (const key of keys) {
+    const dated = datedFields(key, now);
+    const trusting = idps.filter((idp) => idp.protocol?.credentials?.trust?.kid === key.kid);
+    if (trusting.length === 0) {
+      records.push({ source: 'idp', ownerId: null, ownerName: '', ...dated, inUse: false });
+      continue;
+    }
+    for (const idp of trusting) {
+      records.push({
+        source: 'idp',
+        ownerId: idp.id,
+        ownerName: idp.name || idp.id,
+        ownerStatus: idp.status,
+        ...dated,
+        inUse: true,
+      });
+    }
+  }
+  return records;
+}
+
+/**
+ * Records for one app's keys.
+ *
+ * @param app - The SAML app.
+ * @param keys - From `GET /api/v1/apps/{appId}/credentials/keys`.
+ * @param now - The moment days are counted from.
+ * @returns One record per key, in the keys' order.
+ */
+export function appCertificateRecords(
+  app: OktaAppListItem,
+  keys: OktaJsonWebKey[],
+  now: Date,
+): CertificateRecord[] {
+  const signingKid = appSigningKid(app);
+  return keys.map((key) => ({
+    source: 'app',
+    ownerId: app.id,
+    ownerName: app.label || app.name || app.id,
+    ownerStatus: app.status,
+    ...datedFields(key, now),
+    inUse: signingKid === undefined ? null : key.kid === signingKid,
+  }));
+}
+
+/** The columns the inventory can be sorted by. */
+export type CertificateSortKey = 'expiry' | 'owner' | 'source';
+
+/**
+ * Sort records for display. Ties fall back to soonest expiry, then owner name.
+ * Records without an expiry date sort after every dated one, in either direction.
+ *
+ * @param records - The records; not mutated.
+ * @param key - The column.
+ * @param direction - `'asc'` or `'desc'`.
+ * @returns A new, sorted array.
+ */
+export function sortCertificates(
+  records: CertificateRecord[],
+  key: CertificateSortKey,
+  direction: 'asc' | 'desc' = 'asc',
+): CertificateRecord[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  const byExpiry = (a: CertificateRecord, b: CertificateRecord, flip: number) => {
+    if (a.daysToExpiry === null || b.daysToExpiry === null) {
+      return (a.daysToExpiry === null ? 1 : 0) - (b.daysToExpiry === null ? 1 : 0);
+    }
+    return flip * (a.daysToExpiry - b.daysToExpiry);
+  };
+  const byOwner = (a: CertificateRecord, b: CertificateRecord) =>
+    a.ownerName.localeCompare(b.ownerName);
+
+  return [...records].sort((a, b) => {
+    let primary = 0;
+    if (key === 'expiry') primary = byExpiry(a, b, sign);
+    else if (key === 'owner') primary = sign * byOwner(a, b);
+    else primary = sign * a.source.localeCompare(b.source);
+    return primary || byExpiry(a, b, 1) || byOwner(a, b);
+  });
+}
+
+/**
+ * How many records fall in each bucket.
+ *
+ * @param records - The records.
+ * @returns A count for every {@link ExpiryBucket}, zero included.
+ */
+export function bucketCounts(records: CertificateRecord[]): Record<ExpiryBucket, number> {
+  const counts = Object.fromEntries(EXPIRY_BUCKETS.map((b) => [b, 0])) as Record<
+    ExpiryBucket,
+    number
+  >;
+  for (const record of records) counts[record.bucket] += 1;
+  return counts;
+}
+
+/**
+ * Days to expiry, in words.
+ *
+ * @param days - From {@link daysUntil}.
+ * @returns E.g. "in 12 days", "within a day", "expired 3 days ago" or "no expiry date".
+ */
+export function describeDaysToExpiry(days: number | null): string {
+  if (days === null) return 'no expiry date';
+  if (days === 0) return 'within a day';
+  if (days > 0) return days === 1 ? 'in 1 day' : `in ${days} days`;
+  // `days` rounds down, so -1 is the day just past and -3 is two whole days ago.
+  const ago = -days - 1;
+  if (ago === 0) return 'expired within a day';
+  return ago === 1 ? 'expired 1 day ago' : `expired ${ago} days ago`;
+}
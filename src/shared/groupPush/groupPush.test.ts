@@ -0,0 +1,100 @@
+/**
+ * Tests for the Group Push model.
+ *
+ * Pins the feature gate, that an unrecognised status is kept as `UNKNOWN`, that
+ * an unresolved group name stays unresolved, and that failures sort first.
+ *
+ * Fixtures use only fake placeholders (`00gFAKE…`, `0oaFAKE…`, `gpmFAKE…`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  countGroupPushStatuses,
+  hasGroupPush,
+  sortGroupPushLinks,
+  toGroupPushLink,
+  toGroupPushStatus,
+  type GroupPushLink,
+} from './groupPush';
+
+const app = { id: '0oaFAKE1', name: 'Slack' };
+
+const link = (overrides: Partial<GroupPushLink>): GroupPushLink => ({
+  mappingId: 'gpmFAKE1',
+  appId: app.id,
+  appName: app.name,
+  sourceGroupId: '00gFAKE1',
+  sourceGroupName: 'Engineering',
+  targetGroupId: '00gFAKET1',
+  status: 'ACTIVE',
+  ...overrides,
+});
+
+describe('hasGroupPush', () => {
+  it('is true only when the app lists the GROUP_PUSH feature', () => {
+    expect(hasGroupPush(['PUSH_NEW_USERS', 'GROUP_PUSH'])).toBe(true);
+    expect(hasGroupPush(['PUSH_NEW_USERS'])).toBe(false);
+    expect(hasGroupPush(undefined)).toBe(false);
+  });
+});
+
+describe('toGroupPushStatus', () => {
+  it('keeps the three Okta states and calls anything else unknown', () => {
+    expect(toGroupPushStatus('ACTIVE')).toBe('ACTIVE');
+    expect(toGroupPushStatus('INACTIVE')).toBe('INACTIVE');
+    expect(toGroupPushStatus('ERROR')).toBe('ERROR');
+    expect(toGroupPushStatus('PENDING')).toBe('UNKNOWN');
+    expect(toGroupPushStatus(undefined)).toBe('UNKNOWN');
+  });
+});
+
+describe('toGroupPushLink', () => {
+  it('names the groups it can and leaves the others unresolved', () => {
+    const row = toGroupPushLink(
+      {
+        id: 'gpmFAKE1',
+        sourceGroupId: '00gFAKE1',
+        targetGroupId: '00gFAKET1',
+        status: 'ERROR',
+        errorSummary: 'Group name already exists in the app',
+        lastPush: null,
+      },
+      app,
+      new Map([['00gFAKE1', 'Engineering']]),
+    );
+
+    expect(row).toEqual({
+      mappingId: 'gpmFAKE1',
+      appId: '0oaFAKE1',
+      appName: 'Slack',
+      sourceGroupId: '00gFAKE1',
+      sourceGroupName: 'Engineering',
+      targetGroupId: '00gFAKET1',
+      targetGroupName: undefined,
+      status: 'ERROR',
+      errorSummary: 'Group name already exists in the app',
+      lastPush: undefined,
+    });
+  });
+});
+
+describe('sortGroupPushLinks and countGroupPushStatuses', () => {
+  const rows = [
+    link({ mappingId: 'a', status: 'ACTIVE', appName: 'Box' }),
+    link({ mappingId: 'b', status: 'INACTIVE' }),
+    link({ mappingId: 'c', status: 'ERROR', appName: 'Zoom' }),
+    link({ mappingId: 'd', status: 'ACTIVE', appName: 'Asana' }),
+  ];
+
+  it('puts failures first, then inactive, then active by app', () => {
+    expect(sortGroupPushLinks(rows).map((row) => row.mappingId)).toEqual(['c', 'b', 'd', 'a']);
+  });
+
+  it('counts every status, zeros included', () => {
+    expect(countGroupPushStatuses(rows)).toEqual({
+      ACTIVE: 2,
+      INACTIVE: 1,
+      ERROR: 1,
+      UNKNOWN: 0,
+    });
+  });
+});
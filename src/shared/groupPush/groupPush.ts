@@ -0,0 +1,145 @@
+/**
+ * @module shared/groupPush/groupPush
+ * @description Group Push mappings as the panel shows them: which Okta group is
+ * pushed into which group in an app, whether the push is running, and why it
+ * last failed.
+ *
+ * A mapping (`/api/v1/apps/{appId}/group-push/mappings`) joins a **source** Okta
+ * group to a **target** group that lives in the app. Okta names neither group on
+ * the mapping — only their ids — so the reads in
+ * `sidepanel/hooks/useOktaApi/pushGroupOps` resolve the names and hand them to
+ * {@link toGroupPushLink}. A name that could not be resolved stays `undefined`
+ * and the row falls back to the id; it is never guessed.
+ *
+ * Only an app with the `GROUP_PUSH` feature can hold mappings, so the reads ask
+ * those apps alone ({@link hasGroupPush}).
+ *
+ * Group names are tenant data; nothing here is logged.
+ */
+
+import type { OktaGroupPushMapping } from '../schemas/okta';
+
+/** The `features` value that means an app instance can push groups. */
+const GROUP_PUSH_FEATURE = 'GROUP_PUSH';
+
+/**
+ * Whether Okta reports Group Push as enabled on this app instance.
+ *
+ * @param features - The app row's `features` array, or `undefined`.
+ * @returns `true` when the array contains `GROUP_PUSH`.
+ */
+export function hasGroupPush(features: readonly string[] | undefined): boolean {
+  return features !== undefined && features.includes(GROUP_PUSH_FEATURE);
+}
+
+/**
+ * A mapping's state. `ERROR` means the last push failed and Okta has stopped
+ * pushing until the mapping is activated again. Anything else Okta sends is
+ * kept as `UNKNOWN` rather than dressed up as one of the three.
+ */
+export type GroupPushStatus = 'ACTIVE' | 'INACTIVE' | 'ERROR' | 'UNKNOWN';
+
+/** Labels for each status, as the Admin Console words them. */
+export const GROUP_PUSH_STATUS_LABEL: Record<GroupPushStatus, string> = {
+  ACTIVE: 'Active',
+  INACTIVE: 'Inactive',
+  ERROR: 'Push error',
+  UNKNOWN: 'Unknown',
+};
+
+/** The app a mapping belongs to. */
+export interface GroupPushApp {
+  id: string;
+  /** The app's label, or its id when it has none. */
+  name: string;
+}
+
+/** One mapping, with both groups named where they could be read. */
+export interface GroupPushLink {
+  mappingId: string;
+  appId: string;
+  appName: string;
+  sourceGroupId: string;
+  sourceGroupName?: string;
+  targetGroupId: string;
+  targetGroupName?: string;
+  status: GroupPushStatus;
+  /** Okta's last push error, present on an `ERROR` mapping. */
+  errorSummary?: string;
+  /** ISO time of the last push, when Okta said. */
+  lastPush?: string;
+}
+
+/**
+ * Narrow Okta's status string to a {@link GroupPushStatus}.
+ *
+ * @param status - The mapping's `status`, if any.
+ * @returns The status, or `UNKNOWN` for anything else.
+ */
+export function toGroupPushStatus(status: string | undefined): GroupPushStatus {
+  return status === 'ACTIVE' || status === 'INACTIVE' || status === 'ERROR' ? status : 'UNKNOWN';
+}
+
+/**
+ * Turn a mapping into the row the panel renders.
+ *
+ * @param mapping - One validated mapping.
+ * @param app - The app it was read from.
+ * @param groupNames - Group id → name, for whichever groups could be read.
+ * @returns The row, with unresolved names left `undefined`.
+ */
+export function toGroupPushLink(
+  mapping: OktaGroupPushMapping,
+  app: GroupPushApp,
+  groupNames: ReadonlyMap<string, string>,
+): GroupPushLink {
+  return {
+    mappingId: mapping.id,
+    appId: app.id,
+    appName: app.name,
+    sourceGroupId: mapping.sourceGroupId,
+    sourceGroupName: groupNames.get(mapping.sourceGroupId),
+    targetGroupId: mapping.targetGroupId,
+    targetGroupName: groupNames.get(mapping.targetGroupId),
+    status: toGroupPushStatus(mapping.status),
+    errorSummary: mapping.errorSummary ?? undefined,
+    lastPush: mapping.lastPush ?? undefined,
+  };
+}
+
+/** Sort rank per status: failures first, since they are what the list is for. */
+const STATUS_RANK: Record<GroupPushStatus, number> = {
+  ERROR: 0,
+  UNKNOWN: 1,
+  INACTIVE: 2,
+  ACTIVE: 3,
+};
+
+/**
+ * Sort mappings with failures first, then by app, then by source group.
+ *
+ * @param links - The rows to sort; not mutated.
+ * @returns A new, sorted array.
+ */
+export function sortGroupPushLinks(links: readonly GroupPushLink[]): GroupPushLink[] {
+  return [...links].sort(
+    (a, b) =>
+      STATUS_RANK[a.status] - STATUS_RANK[b.status] ||
+      a.appName.localeCompare(b.appName) ||
+      (a.sourceGroupName ?? a.sourceGroupId).localeCompare(b.sourceGroupName ?? b.sourceGroupId),
+  );
+}
+
+/**
+ * How many mappings are in each status.
+ *
+ * @param links - The rows.
+ * @returns A count for every status, zeros included.
+ */
+export function countGroupPushStatuses(
+  links: readonly GroupPushLink[],
+): Record<GroupPushStatus, number> {
+  const counts: Record<GroupPushStatus, number> = { ACTIVE: 0, INACTIVE: 0, ERROR: 0, UNKNOWN: 0 };
+  for (const link of links) counts[link.status] += 1;
+  return counts;
+}
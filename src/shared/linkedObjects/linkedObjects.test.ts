@@ -0,0 +1,80 @@
+/**
+ * Tests for the linked-objects model.
+ *
+ * Pins the two directions each definition yields, reading the user id out of a
+ * linked object's self link, and the upward walk: where it stops for the next
+ * request, where the chain ends, and that a loop ends it rather than spinning.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  linkedRelationships,
+  linkedStepKey,
+  linkedUserId,
+  unreadPerson,
+  walkUp,
+  type LinkedStep,
+} from './linkedObjects';
+
+const done = (...ids: string[]): LinkedStep => ({
+  status: 'done',
+  people: ids.map(unreadPerson),
+});
+
+describe('linkedRelationships', () => {
+  it('yields the primary side as up and the associated side as down', () => {
+    expect(
+      linkedRelationships([
+        {
+          primary: { name: 'manager', title: 'Manager' },
+          associated: { name: 'subordinate' },
+        },
+      ]),
+    ).toEqual([
+      { name: 'manager', title: 'Manager', direction: 'up', definition: 'manager' },
+      { name: 'subordinate', title: 'subordinate', direction: 'down', definition: 'manager' },
+    ]);
+  });
+});
+
+describe('linkedUserId', () => {
+  it('reads the id from an absolute or relative self link', () => {
+    expect(linkedUserId('https://example.okta.com/api/v1/users/00uFAKE2')).toBe('00uFAKE2');
+    expect(linkedUserId('/api/v1/users/00uFAKE3/')).toBe('00uFAKE3');
+  });
+
+  it('returns null for a link that names no user', () => {
+    expect(linkedUserId('https://example.okta.com/api/v1/groups/00gFAKE1')).toBeNull();
+  });
+});
+
+describe('walkUp', () => {
+  it('stops at the first step not yet read, naming whose it is', () => {
+    const walk = walkUp('00uFAKE1', 'manager', {
+      [linkedStepKey('00uFAKE1', 'manager')]: done('00uFAKE2'),
+      [linkedStepKey('00uFAKE2', 'manager')]: { status: 'loading' },
+    });
+    expect(walk.chain.map((p) => p.id)).toEqual(['00uFAKE2']);
+    expect(walk.nextUserId).toBe('00uFAKE2');
+    expect(walk.pending).toEqual({ status: 'loading' });
+  });
+
+  it('ends where a step returns nobody', () => {
+    const walk = walkUp('00uFAKE1', 'manager', {
+      [linkedStepKey('00uFAKE1', 'manager')]: done('00uFAKE2'),
+      [linkedStepKey('00uFAKE2', 'manager')]: done(),
+    });
+    expect(walk).toMatchObject({ nextUserId: null, pending: null, cycle: false });
+    expect(walk.chain).toHaveLength(1);
+  });
+
+  it('ends with cycle set when the chain comes back to someone on it', () => {
+    const walk = walkUp('00uFAKE1', 'manager', {
+      [linkedStepKey('00uFAKE1', 'manager')]: done('00uFAKE2'),
+      [linkedStepKey('00uFAKE2', 'manager')]: done('00uFAKE1'),
+    });
+    expect(walk.chain.map((p) => p.id)).toEqual(['00uFAKE2']);
+    expect(walk).toMatchObject({ nextUserId: null, cycle: true });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * @module shared/linkedObjects/linkedObjects
+ * @description Okta linked objects — the manager chain and any other
+ * user-to-user relationship the org defines — as the Profile pane shows them.
+ *
+ * A definition (`GET /api/v1/meta/schemas/user/linkedObjects`) names two sides,
+ * e.g. `manager` (primary) and `subordinate` (associated). Reading a user's
+ * `linkedObjects/manager` returns who they report to; reading
+ * `linkedObjects/subordinate` returns who reports to them.
+ * {@link linkedRelationships} turns each definition into those two directions:
+ * `up` and `down`.
+ *
+ * Okta returns a linked user as a link only, so each is read by id
+ * (`sidepanel/hooks/useOktaApi/linkedObjects`). A user whose read failed is kept
+ * as a {@link LinkedPerson} with no record, named by id, rather than dropped.
+ *
+ * ## The walk
+ *
+ * The org chart is read one step at a time, each step a relationship of one
+ * user. {@link walkUp} follows the first `up` link from each step already read
+ * and stops where the next step has not been read yet, so the panel can offer
+ * exactly one more request. A chain that comes back to someone already on it
+ * stops with `cycle` set — linked objects do not forbid loops.
+ *
+ * Names and logins are tenant data; nothing here is logged.
+ */
+
+import type { OktaUser } from '../types';
+import type { OktaLinkedObjectDefinition } from '../schemas/okta';
+import { userDisplayName } from '../utils/userDisplay';
+
+/** One direction of a linked-object definition. */
+export interface LinkedRelationship {
+  /** The relationship name to read, e.g. `manager`. */
+  name: string;
+  /** Its title for display, e.g. `Manager`. */
+  title: string;
+  /** `up` reads the primary side (who this user points at); `down` the associated side. */
+  direction: 'up' | 'down';
+  /** The definition's primary name, which identifies the pair. */
+  definition: string;
+}
+
+/** A linked user, read or not. */
+export interface LinkedPerson {
+  id: string;
+  /** Display name, or the id when the user could not be read. */
+  name: string;
+  login: string | null;
+  status: string | null;
+  /** The full record, or `null` when it could not be read. */
+  user: OktaUser | null;
+}
+
+/** One step of the walk: the users one relationship of one user returned. */
+export type LinkedStep =
+  | { status: 'loading' }
+  | { status: 'done'; people: LinkedPerson[] }
+  | { status: 'error'; error: string };
+
+/** Where the upward walk stands. */
+export interface UpwardWalk {
+  /** The chain above the start user, nearest first. */
+  chain: LinkedPerson[];
+  /** The user whose `up` step is next to read, or `null` when the walk ended. */
+  nextUserId: string | null;
+  /** The step in flight or failed at the top of the chain, if any. */
+  pending: LinkedStep | null;
+  /** True when the chain came back to someone already on it. */
+  cycle: boolean;
+}
+
+/**
+ * Both directions of every definition, `up` before `down`.
+ *
+ * @param definitions - The org's linked-object definitions.
+ * @returns The relationships to read for a user.
+ */
+export function linkedRelationships(
+  definitions: readonly OktaLinkedObjectDefinition[],
+): LinkedRelationship[] {
+  return definitions.flatMap((definition) => [
+    {
+      name: definition.primary.name,
+      title: definition.primary.title || definition.primary.name,
+      direction: 'up' as const,
+      definition: definition.primary.name,
+    },
+    {
+      name: definition.associated.name,
+      title: definition.associated.title || definition.associated.name,
+      direction: 'down' as const,
+      definition: definition.primary.name,
+    },
+  ]);
+}
+
+/**
+ * The user id a linked object points at: the last segment of its self link.
+ *
+ * @param href - `_links.self.href`, absolute or origin-relative.
+ * @returns The id, or `null` when the link names no user.
+ */
+export function linkedUserId(href: string): string | null {
+  const url = new URL(href, 'https://okta.invalid');
+  const match = /\/api\/v1\/users\/([^/]+)\/?$/.exec(url.pathname);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * A person for a user that was read.
+ *
+ * @param user - The user record.
+ * @returns The linked person.
+ */
+export function toLinkedPerson(user: OktaUser): LinkedPerson {
+  return {
+    id: user.id,
+    name: userDisplayName(user),
+    login: user.profile.login ?? null,
+    status: user.status ?? null,
+    user,
+  };
+}
+
+/**
+ * A person for a user whose read failed.
+ *
+ * @param id - The user id from the link.
+ * @returns The linked person, named by id.
+ */
+export function unreadPerson(id: string): LinkedPerson {
+  return { id, name: id, login: null, status: null, user: null };
+}
+
+/**
+ * The key of one step: a relationship of one user.
+ *
+ * @param userId - The user.
+ * @param relationship - The relationship name.
+ */
+export function linkedStepKey(userId: string, relationship: string): string {
+  return `${userId}:${relationship}`;
+}
+
+/**
+ * Follow the `up` relationship from `startId` through the steps read so far.
+ *
+ * @param startId - The user the walk starts from (not part of the chain).
+ * @param relationship - The `up` relationship name, e.g. `manager`.
+ * @param steps - Every step read so far, by {@link linkedStepKey}.
+ * @returns The chain and where it stopped.
+ */
+export function walkUp(
+  startId: string,
+  relationship: string,
+  steps: Readonly<Record<string, LinkedStep>>,
+): UpwardWalk {
+  const chain: LinkedPerson[] = [];
+  const seen = new Set([startId]);
+  let current = startId;
+
+  for (;;) {
+    const step = steps[linkedStepKey(current, relationship)];
+    if (!step || step.status !== 'done') {
+      return { chain, nextUserId: current, pending: step ?? null, cycle: false };
+    }
+    const next = step.people[0];
+    if (!next) return { chain, nextUserId: null, pending: null, cycle: false };
+    if (seen.has(next.id)) return { chain, nextUserId: null, pending: null, cycle: true };
+    chain.push(next);
+    seen.add(next.id);
+    current = next.id;
+  }
+}
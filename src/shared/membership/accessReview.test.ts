@@ -0,0 +1,191 @@
+/**
+ * Tests for the access-review campaign model.
+ *
+ * Pins what an auditor relies on: the snapshot keeps Okta's three provenance
+ * states apart, revocations split into removals to send and rule-managed ones
+ * that are never sent, the steps happen in order (every member decided, then
+ * revocations, then sign-off) and freeze the decisions, and the evidence CSV
+ * names each member's decision, source and revocation outcome.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  applyBlocker,
+  buildAccessReviewEvidenceCsv,
+  createAccessReviewCampaign,
+  decideMembers,
+  endOfQuarter,
+  isOverdue,
+  nextReviewDue,
+  noteMember,
+  reviewCounts,
+  revocationPlan,
+  signOffBlocker,
+  signOffCampaign,
+  snapshotMember,
+  withRevocationOutcomes,
+  type AccessReviewCampaign,
+} from './accessReview';
+import type { OktaUser } from '../types';
+
+function member(id: string, login: string, embedded?: unknown): OktaUser {
+  return {
+    id,
+    status: 'ACTIVE',
+    profile: { login, email: login, firstName: 'Test', lastName: id, department: 'Sales' },
+    ...(embedded !== undefined ? { _embedded: embedded } : {}),
+  } as OktaUser;
+}
+
+const manual = member('00uFAKE1', 'manual@example.com', { 'group-rules': [] });
+const ruled = member('00uFAKE2', 'ruled@example.com', {
+  'group-rules': [{ id: '0prFAKE1', name: 'Sales → CRM' }],
+});
+const unknown = member('00uFAKE3', 'unknown@example.com');
+
+const created = new Date(2026, 1, 10, 9, 0, 0);
+
+function campaign(): AccessReviewCampaign {
+  return createAccessReviewCampaign({
+    id: 'review-1',
+    group: { id: '00gFAKE1', name: 'CRM Users' },
+    members: [manual, ruled, unknown],
+    createdBy: 'admin@example.com',
+    now: created,
+  });
+}
+
+/** Every member decided: keep the manual add, revoke the other two. */
+function decided(): AccessReviewCampaign {
+  const at = new Date(2026, 1, 11);
+  return decideMembers(
+    decideMembers(campaign(), ['00uFAKE1'], 'keep', at),
+    ['00uFAKE2', '00uFAKE3'],
+    'revoke',
+    at,
+  );
+}
+
+describe('snapshotMember', () => {
+  it("keeps Okta's three provenance states apart", () => {
+    expect(snapshotMember(manual)).toMatchObject({ source: 'manual', ruleNames: [] });
+    expect(snapshotMember(ruled)).toMatchObject({ source: 'rule', ruleNames: ['Sales → CRM'] });
+    expect(snapshotMember(unknown)).toMatchObject({ source: 'unknown', ruleNames: [] });
+  });
+
+  it('drops the embed and excluded profile fields but keeps the rest', () => {
+    const item = snapshotMember({
+      ...ruled,
+      profile: { ...ruled.profile, recoveryAnswer: 'fake-answer' },
+    } as OktaUser);
+
+    expect(item.user).not.toHaveProperty('_embedded');
+    expect(item.user.profile).toMatchObject({ login: 'ruled@example.com', department: 'Sales' });
+    expect(item.user.profile).not.toHaveProperty('recoveryAnswer');
+  });
+});
+
+describe('due dates', () => {
+  it('defaults to the end of the quarter the review started in', () => {
+    expect(campaign().dueAt).toEqual(new Date(2026, 2, 31, 23, 59, 59, 999));
+    expect(endOfQuarter(new Date(2026, 11, 1))).toEqual(new Date(2026, 11, 31, 23, 59, 59, 999));
+  });
+
+  it('puts the next review three months after sign-off', () => {
+    expect(nextReviewDue(new Date(2026, 2, 20))).toEqual(new Date(2026, 5, 20));
+  });
+
+  it('flags an open review past its due date, never a signed-off one', () => {
+    const after = new Date(2026, 3, 2);
+    expect(isOverdue(campaign(), after)).toBe(true);
+    expect(isOverdue(campaign(), created)).toBe(false);
+    expect(isOverdue({ ...campaign(), status: 'signed-off' }, after)).toBe(false);
+  });
+});
+
+describe('decisions', () => {
+  it('records, clears and counts decisions', () => {
+    const review = decideMembers(decided(), ['00uFAKE3'], null, new Date());
+    expect(review.items[2]).not.toHaveProperty('decision');
+    expect(reviewCounts(review)).toEqual({
+      total: 3,
+      undecided: 1,
+      keep: 1,
+      revoke: 1,
+      needsInfo: 0,
+      ruleManagedRevokes: 1,
+    });
+  });
+
+  it('trims notes and clears a blank one', () => {
+    const noted = noteMember(campaign(), '00uFAKE1', '  manager confirmed  ');
+    expect(noted.items[0].note).toBe('manager confirmed');
+    expect(noteMember(noted, '00uFAKE1', ' ').items[0]).not.toHaveProperty('note');
+  });
+
+  it('splits revocations into removals to send and rule-managed ones', () => {
+    const plan = revocationPlan(decided());
+    expect(plan.toRemove.map((item) => item.user.id)).toEqual(['00uFAKE3']);
+    expect(plan.ruleManaged.map((item) => item.user.id)).toEqual(['00uFAKE2']);
+  });
+});
+
+describe('steps', () => {
+  it('blocks revocations until every member is decided and nothing needs info', () => {
+    expect(applyBlocker(campaign())).toBe('3 members have no decision yet.');
+    const pending = decideMembers(decided(), ['00uFAKE1'], 'needs-info', new Date());
+    expect(applyBlocker(pending)).toBe('1 member is still marked needs-info.');
+    expect(applyBlocker(decided())).toBeNull();
+  });
+
+  it('records outcomes, marks rule-managed revokes and freezes the decisions', () => {
+    const applied = withRevocationOutcomes(
+      decided(),
+      new Map([['00uFAKE3', { result: 'failed', error: 'Forbidden' }]]),
+      new Date(2026, 1, 12),
+    );
+
+    expect(applied.items.map((item) => item.revocation)).toEqual([
+      undefined,
+      { result: 'rule-managed' },
+      { result: 'failed', error: 'Forbidden' },
+    ]);
+    expect(applyBlocker(applied)).toBe('Revocations were already applied.');
+    expect(decideMembers(applied, ['00uFAKE1'], 'revoke', new Date())).toBe(applied);
+  });
+
+  it('signs off only after the revocations were applied', () => {
+    expect(signOffBlocker(decided())).toBe('Apply the revocations before signing off.');
+    expect(() => signOffCampaign(decided(), 'admin@example.com', new Date())).toThrow();
+
+    const applied = withRevocationOutcomes(decided(), new Map(), new Date(2026, 1, 12));
+    const signed = signOffCampaign(applied, 'lead@example.com', new Date(2026, 1, 13));
+    expect(signed).toMatchObject({ status: 'signed-off', signedOffBy: 'lead@example.com' });
+    expect(signOffBlocker(signed)).toBe('This review is already signed off.');
+  });
+});
+
+describe('buildAccessReviewEvidenceCsv', () => {
+  it('writes one row per member with decision, source and revocation outcome', () => {
+    const applied = withRevocationOutcomes(
+      decided(),
+      new Map([['00uFAKE3', { result: 'removed' }]]),
+      new Date(2026, 1, 12),
+    );
+    const csv = buildAccessReviewEvidenceCsv(
+      signOffCampaign(applied, 'lead@example.com', new Date(2026, 1, 13)),
+    );
+    const lines = csv.trim().split('\n');
+
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toContain('Membership Source');
+    expect(lines[1]).toContain('manual@example.com');
+    expect(lines[1]).toContain('keep');
+    expect(lines[2]).toContain('Sales → CRM');
+    expect(lines[2]).toContain('Not sent: rule-managed, change the rule');
+    expect(lines[3]).toContain('unknown');
+    expect(lines[3]).toContain('Removed');
+    expect(lines.slice(1).every((line) => line.includes('lead@example.com'))).toBe(true);
+  });
+});
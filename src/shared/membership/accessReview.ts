@@ -0,0 +1,491 @@
+/**
+ * @module shared/membership/accessReview
+ * @description Pure model of an access-review (certification) campaign for one
+ * group: a snapshot of its members, a decision per member, the revocations those
+ * decisions produce, the sign-off, and the evidence CSV an auditor keeps.
+ *
+ * No React and no I/O. `useOktaApi/accessReview` reads the members and sends the
+ * revocations, `shared/storage/accessReviewStore` keeps campaigns across panel
+ * closes, and `useAccessReview` drives the flow.
+ *
+ * ## The snapshot is what was reviewed
+ *
+ * A campaign freezes the member list at the moment it starts. Members who join
+ * later are not in it, and a member who leaves mid-review still has a decision
+ * recorded against them. The evidence describes the population the reviewer was
+ * shown, which is what an auditor asks about. Each member's profile is kept,
+ * minus the fields {@link isExcludedProfileField} never shows, so the reviewer can
+ * facet by department or title as the member explorer does.
+ *
+ * ## Provenance decides what a revocation can do
+ *
+ * Each member's source is read from Okta's own `group-rules` embed through
+ * `shared/membership/provenance`, so the three states stay three:
+ *
+ * - `manual` — Okta asserts no rule manages the membership. A revoke is a
+ *   membership removal.
+ * - `rule` — Okta names the managing rules. Removing the membership would not
+ *   last: the rule re-adds the member at its next evaluation. A revoke is
+ *   recorded but **never sent**; the evidence says which rule has to change.
+ * - `unknown` — Okta said nothing. The removal is sent, and Okta itself refuses
+ *   it if a rule does manage the membership. The evidence keeps the `unknown` so
+ *   nobody reads it as a proven manual add.
+ *
+ * ## The order of the steps is enforced here
+ *
+ * Revocations are applied once, only after every member has a decision and no
+ * `needs-info` is left open. Decisions are frozen from that point. Sign-off comes
+ * after the revocations, even when there were none to send. A campaign is due at
+ * the end of the quarter it started in, and the next one is due three months
+ * after sign-off.
+ *
+ * Security: member identities and rule names are tenant data. Nothing here logs.
+ */
+import type { OktaUser } from '../types';
+import { generateCSV } from '../utils/csvUtils';
+import { isExcludedProfileField } from '../utils/profileFields';
+import { readEmbeddedGroupRules } from './memberRuleAttribution';
+import { membershipProvenanceOf } from './provenance';
+
+/** What the reviewer decided about one member. */
+export type ReviewDecision = 'keep' | 'revoke' | 'needs-info';
+
+/** Where one member's membership comes from, as Okta reported it. See the module doc. */
+export type ReviewSource = 'manual' | 'rule' | 'unknown';
+
+/**
+ * What happened to one revoke decision.
+ *
+ * - `removed` — Okta confirmed the removal.
+ * - `failed` — Okta refused it, or it could not be sent.
+ * - `not-sent` — the run was cancelled or stopped at a 403 first.
+ * - `rule-managed` — never sent: a rule manages the membership.
+ */
+export type RevocationOutcome =
+  | { result: 'removed' }
+  | { result: 'failed'; error: string }
+  | { result: 'not-sent' }
+  | { result: 'rule-managed' };
+
+/** One member of the snapshot, with the reviewer's decision once made. */
+export interface AccessReviewItem {
+  /** The member as the snapshot read them. Excluded profile fields are dropped. */
+  user: OktaUser;
+  source: ReviewSource;
+  /** The rules Okta names for a `rule` member; empty otherwise. **Untrusted.** */
+  ruleNames: string[];
+  decision?: ReviewDecision;
+  /** The reviewer's note. **Untrusted** — render escaped, never log. */
+  note?: string;
+  decidedAt?: Date;
+  /** Set on revoke decisions once revocations are applied. */
+  revocation?: RevocationOutcome;
+}
+
+/** One access-review campaign for one group. */
+export interface AccessReviewCampaign {
+  /** Stable record id (`crypto.randomUUID()`); the store key. */
+  id: string;
+  /** Per-record schema version, for forward migration without a DB bump. */
+  version: 1;
+  groupId: string;
+  /** **Untrusted.** */
+  groupName: string;
+  /** When the snapshot was taken. */
+  createdAt: Date;
+  /** The Okta login of the admin who started the review. */
+  createdBy: string;
+  dueAt: Date;
+  status: 'open' | 'signed-off';
+  /** The snapshot, in the order Okta listed the members. */
+  items: AccessReviewItem[];
+  /** Set once the revocation step has run, even when it had nothing to send. */
+  revocationsAppliedAt?: Date;
+  signedOffAt?: Date;
+  /** The Okta login of the admin who signed off. */
+  signedOffBy?: string;
+}
+
+/** Decision totals for one campaign. */
+export interface AccessReviewCounts {
+  total: number;
+  undecided: number;
+  keep: number;
+  revoke: number;
+  needsInfo: number;
+  /** Revoke decisions on `rule` members, which are never sent. */
+  ruleManagedRevokes: number;
+}
+
+/** The revocations a campaign's decisions produce. */
+export interface RevocationPlan {
+  /** Revoked members whose removal is sent: `manual` and `unknown` sources. */
+  toRemove: AccessReviewItem[];
+  /** Revoked members a rule manages; recorded, never sent. */
+  ruleManaged: AccessReviewItem[];
+}
+
+/** Attributes every snapshot keeps, whatever the profile holds. */
+const IDENTITY_FIELDS = ['login', 'email', 'firstName', 'lastName'] as const;
+
+/**
+ * Read one member row from the group listing into a snapshot item.
+ *
+ * @param member - A row from `getAllGroupMembers`, which may carry the
+ * `group-rules` embed.
+ * @returns The item, undecided. The embed, `_links` and every excluded profile
+ * field are dropped.
+ */
+export function snapshotMember(member: OktaUser): AccessReviewItem {
+  const provenance = membershipProvenanceOf(readEmbeddedGroupRules(member));
+  const profile: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(member.profile)) {
+    if (!isExcludedProfileField(key)) profile[key] = value;
+  }
+  for (const key of IDENTITY_FIELDS) profile[key] ??= '';
+
+  return {
+    user: {
+      id: member.id,
+      status: member.status,
+      ...(member.lastLogin !== undefined ? { lastLogin: member.lastLogin } : {}),
+      profile: profile as OktaUser['profile'],
+    },
+    source: provenance === undefined ? 'unknown' : provenance.rules.length > 0 ? 'rule' : 'manual',
+    ruleNames: provenance?.rules.map((rule) => rule.name) ?? [],
+  };
+}
+
+/**
+ * The last moment of the calendar quarter `date` falls in, in local time.
+ *
+ * @param date - Any moment.
+ * @returns 23:59:59.999 on the quarter's last day.
+ */
+export function endOfQuarter(date: Date): Date {
+  const quarterEndMonth = Math.floor(date.getMonth() / 3) * 3 + 3;
+  return new Date(date.getFullYear(), quarterEndMonth, 1, 0, 0, 0, -1);
+}
+
+/**
+ * When the next review of the group falls due: three calendar months after
+ * sign-off.
+ *
+ * @param signedOffAt - When the campaign was signed off.
+ * @returns The due date of the next campaign.
+ */
+export function nextReviewDue(signedOffAt: Date): Date {
+  const next = new Date(signedOffAt);
+  next.setMonth(next.getMonth() + 3);
+  return next;
+}
+
+/**
+ * Whether an open campaign is past its due date.
+ *
+ * @param campaign - The campaign.
+ * @param now - The current time.
+ * @returns `false` for a signed-off campaign.
+ */
+export function isOverdue(campaign: AccessReviewCampaign, now: Date): boolean {
+  return campaign.status === 'open' && now.getTime() > campaign.dueAt.getTime();
+}
+
+/**
+ * Start a campaign from a group's current members.
+ *
+ * @param input - The group, its members as listed, the admin starting the review,
+ * the id to use, the current time and an optional due date (the end of the
+ * current quarter otherwise).
+ * @returns An open campaign with every member undecided.
+ */
+export function createAccessReviewCampaign(input: {
+  id: string;
+  group: { id: string; name: string };
+  members: readonly OktaUser[];
+  createdBy: string;
+  now: Date;
+  dueAt?: Date;
+}): AccessReviewCampaign {
+  return {
+    id: input.id,
+    version: 1,
+    groupId: input.group.id,
+    groupName: input.group.name,
+    createdAt: input.now,
+    createdBy: input.createdBy,
+    dueAt: input.dueAt ?? endOfQuarter(input.now),
+    status: 'open',
+    items: input.members.map(snapshotMember),
+  };
+}
+
+/**
+ * Whether decisions on a campaign can still change.
+ *
+ * @param campaign - The campaign.
+ * @returns `false` once revocations have been applied or the campaign is signed off.
+ */
+export function decisionsOpen(campaign: AccessReviewCampaign): boolean {
+  return campaign.status === 'open' && campaign.revocationsAppliedAt === undefined;
+}
+
+/**
+ * Record one decision for several members.
+ *
+ * @param campaign - The campaign.
+ * @param userIds - The members decided on. Ids outside the snapshot are ignored.
+ * @param decision - The decision, or `null` to clear it.
+ * @param at - When the decision was made.
+ * @returns A new campaign, or the same one when decisions are closed.
+ */
+export function decideMembers(
+  campaign: AccessReviewCampaign,
+  userIds: readonly string[],
+  decision: ReviewDecision | null,
+  at: Date,
+): AccessReviewCampaign {
+  if (!decisionsOpen(campaign)) return campaign;
+  const targets = new Set(userIds);
+  return {
+    ...campaign,
+    items: campaign.items.map((item) => {
+      if (!targets.has(item.user.id)) return item;
+      if (decision === null) {
+        const cleared = { ...item };
+        delete cleared.decision;
+        delete cleared.decidedAt;
+        return cleared;
+      }
+      return { ...item, decision, decidedAt: at };
+    }),
+  };
+}
+
+/**
+ * Set or clear the reviewer's note on one member.
+ *
+ * @param campaign - The campaign.
+ * @param userId - The member.
+ * @param note - The note; blank clears it.
+ * @returns A new campaign, or the same one when decisions are closed.
+ */
+export function noteMember(
+  campaign: AccessReviewCampaign,
+  userId: string,
+  note: string,
+): AccessReviewCampaign {
+  if (!decisionsOpen(campaign)) return campaign;
+  const trimmed = note.trim();
+  return {
+    ...campaign,
+    items: campaign.items.map((item) => {
+      if (item.user.id !== userId) return item;
+      if (trimmed === '') {
+        const cleared = { ...item };
+        delete cleared.note;
+        return cleared;
+      }
+      return { ...item, note: trimmed };
+    }),
+  };
+}
+
+/**
+ * Count a campaign's decisions.
+ *
+ * @param campaign - The campaign.
+ * @returns The {@link AccessReviewCounts}.
+ */
+export function reviewCounts(campaign: AccessReviewCampaign): AccessReviewCounts {
+  const counts: AccessReviewCounts = {
+    total: campaign.items.length,
+    undecided: 0,
+    keep: 0,
+    revoke: 0,
+    needsInfo: 0,
+    ruleManagedRevokes: 0,
+  };
+  for (const item of campaign.items) {
+    if (item.decision === undefined) counts.undecided++;
+    else if (item.decision === 'keep') counts.keep++;
+    else if (item.decision === 'needs-info') counts.needsInfo++;
+    else {
+      counts.revoke++;
+      if (item.source === 'rule') counts.ruleManagedRevokes++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Split the revoke decisions into removals to send and rule-managed ones to record.
+ *
+ * @param campaign - The campaign.
+ * @returns The {@link RevocationPlan}, in snapshot order.
+ */
+export function revocationPlan(campaign: AccessReviewCampaign): RevocationPlan {
+  const revoked = campaign.items.filter((item) => item.decision === 'revoke');
+  return {
+    toRemove: revoked.filter((item) => item.source !== 'rule'),
+    ruleManaged: revoked.filter((item) => item.source === 'rule'),
+  };
+}
+
+/**
+ * Why revocations cannot be applied yet.
+ *
+ * @param campaign - The campaign.
+ * @returns A sentence for the UI, or `null` when they can be applied.
+ */
+export function applyBlocker(campaign: AccessReviewCampaign): string | null {
+  if (campaign.status === 'signed-off') return 'This review is signed off.';
+  if (campaign.revocationsAppliedAt !== undefined) return 'Revocations were already applied.';
+  const counts = reviewCounts(campaign);
+  if (counts.undecided > 0) {
+    return `${counts.undecided} member${counts.undecided === 1 ? ' has' : 's have'} no decision yet.`;
+  }
+  if (counts.needsInfo > 0) {
+    return `${counts.needsInfo} member${counts.needsInfo === 1 ? ' is' : 's are'} still marked needs-info.`;
+  }
+  return null;
+}
+
+/**
+ * Record the outcome of the revocation step and freeze the decisions.
+ *
+ * @param campaign - The campaign.
+ * @param outcomes - Outcome per user id, for the members that were to be removed.
+ * A removal with no outcome is recorded as `not-sent`.
+ * @param at - When the step finished.
+ * @returns A new campaign with {@link AccessReviewItem.revocation} set on every
+ * revoke decision.
+ */
+export function withRevocationOutcomes(
+  campaign: AccessReviewCampaign,
+  outcomes: ReadonlyMap<string, RevocationOutcome>,
+  at: Date,
+): AccessReviewCampaign {
+  return {
+    ...campaign,
+    revocationsAppliedAt: at,
+    items: campaign.items.map((item) => {
+      if (item.decision !== 'revoke') return item;
+      const revocation: RevocationOutcome =
+        item.source === 'rule'
+          ? { result: 'rule-managed' }
+          : (outcomes.get(item.user.id) ?? { result: 'not-sent' });
+      return { ...item, revocation };
+    }),
+  };
+}
+
+/**
+ * Why the campaign cannot be signed off yet.
+ *
+ * @param campaign - The campaign.
+ * @returns A sentence for the UI, or `null` when it can be signed off.
+ */
+export function signOffBlocker(campaign: AccessReviewCampaign): string | null {
+  if (campaign.status === 'signed-off') return 'This review is already signed off.';
+  if (campaign.revocationsAppliedAt === undefined) {
+    return applyBlocker(campaign) ?? 'Apply the revocations before signing off.';
+  }
+  return null;
+}
+
+/**
+ * Sign a campaign off.
+ *
+ * @param campaign - A campaign with no {@link signOffBlocker}.
+ * @param by - The Okta login of the admin signing off.
+ * @param at - When.
+ * @returns The signed-off campaign.
+ * @throws Error when {@link signOffBlocker} names a reason.
+ */
+export function signOffCampaign(
+  campaign: AccessReviewCampaign,
+  by: string,
+  at: Date,
+): AccessReviewCampaign {
+  const blocker = signOffBlocker(campaign);
+  if (blocker !== null) throw new Error(blocker);
+  return { ...campaign, status: 'signed-off', signedOffAt: at, signedOffBy: by };
+}
+
+/** `Removed`, `Failed: …` and so on, for the evidence CSV. */
+function revocationLabel(item: AccessReviewItem): string {
+  if (item.decision !== 'revoke') return '';
+  switch (item.revocation?.result) {
+    case undefined:
+      return 'Pending';
+    case 'removed':
+      return 'Removed';
+    case 'failed':
+      return `Failed: ${item.revocation.error}`;
+    case 'not-sent':
+      return 'Not sent';
+    case 'rule-managed':
+      return 'Not sent: rule-managed, change the rule';
+  }
+}
+
+/** ISO timestamp, or blank. */
+function iso(date: Date | undefined): string {
+  return date === undefined ? '' : date.toISOString();
+}
+
+/**
+ * The evidence CSV: one row per reviewed member, each carrying the campaign's
+ * identity and sign-off so a single row stands on its own.
+ *
+ * @param campaign - The campaign, normally signed off.
+ * @returns CSV text (cells escaped by `generateCSV`).
+ */
+export function buildAccessReviewEvidenceCsv(campaign: AccessReviewCampaign): string {
+  const rows = campaign.items.map((item) => [
+    campaign.id,
+    campaign.groupId,
+    campaign.groupName,
+    iso(campaign.createdAt),
+    campaign.createdBy,
+    iso(campaign.dueAt),
+    campaign.signedOffBy ?? '',
+    iso(campaign.signedOffAt),
+    item.user.id,
+    item.user.profile.login,
+    `${item.user.profile.firstName ?? ''} ${item.user.profile.lastName ?? ''}`.trim(),
+    item.user.profile.email,
+    item.user.status,
+    item.source,
+    item.ruleNames.join('; '),
+    item.decision ?? 'undecided',
+    iso(item.decidedAt),
+    item.note ?? '',
+    revocationLabel(item),
+  ]);
+  return generateCSV(
+    [
+      'Campaign ID',
+      'Group ID',
+      'Group',
+      'Snapshot Taken',
+      'Started By',
+      'Due',
+      'Signed Off By',
+      'Signed Off At',
+      'User ID',
+      'Login',
+      'Name',
+      'Email',
+      'User Status',
+      'Membership Source',
+      'Managing Rules',
+      'Decision',
+      'Decided At',
+      'Note',
+      'Revocation',
+    ],
+    rows,
+  );
+}
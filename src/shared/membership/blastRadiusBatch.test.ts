@@ -0,0 +1,99 @@
+/**
+ * Tests for folding per-user blast-radius reports into one batch view.
+ *
+ * Pins that the fold adds no judgement: each user lands in exactly the bucket the
+ * engine put them in, a user without a computed report is listed as not analysed
+ * rather than counted as unaffected, and groups anyone may leave sort first.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`).
+ */
+import { describe, it, expect } from 'vitest';
+import { combineBlastRadius } from './blastRadiusBatch';
+import type { BlastRadiusReport, GroupEffect } from './blastRadiusTypes';
+
+function effect(groupId: string, kind: GroupEffect['kind']): GroupEffect {
+  return {
+    groupId,
+    groupName: groupId.replace('00gFAKE', 'Group '),
+    kind,
+    contributingRuleIds: ['0prFAKE1'],
+    currentlyHeld: kind === 'likely-removed',
+  };
+}
+
+function report(groups: GroupEffect[], secondOrderRuleNames: string[] = []): BlastRadiusReport {
+  const count = (kind: GroupEffect['kind']) => groups.filter((g) => g.kind === kind).length;
+  return {
+    status: 'computed',
+    groups,
+    rules: [],
+    counts: {
+      added: count('likely-added'),
+      removed: count('likely-removed'),
+      notPredicted: count('not-predicted'),
+      starts: 0,
+      stops: 0,
+      undetermined: 0,
+    },
+    secondOrderPossible: secondOrderRuleNames.length > 0,
+    secondOrderRuleNames,
+  };
+}
+
+const ada = { userId: '00uFAKE1', label: 'ada@example.com' };
+const alan = { userId: '00uFAKE2', label: 'alan@example.com' };
+const grace = { userId: '00uFAKE3', label: 'grace@example.com' };
+
+describe('combineBlastRadius', () => {
+  it('groups users by the effect the engine predicted for them', () => {
+    const combined = combineBlastRadius([
+      {
+        user: ada,
+        report: report(
+          [effect('00gFAKE1', 'likely-added'), effect('00gFAKE2', 'likely-removed')],
+          ['Rule B'],
+        ),
+      },
+      {
+        user: alan,
+        report: report(
+          [effect('00gFAKE1', 'likely-added'), effect('00gFAKE3', 'not-predicted')],
+          ['Rule A', 'Rule B'],
+        ),
+      },
+      { user: grace, report: report([]) },
+    ]);
+
+    expect(combined.status).toBe('computed');
+    expect(combined.groups.map((g) => g.groupId)).toEqual(['00gFAKE2', '00gFAKE1', '00gFAKE3']);
+    expect(combined.groups[1].likelyAdded).toEqual([ada, alan]);
+    expect(combined.groups[0].likelyRemoved).toEqual([ada]);
+    expect(combined.groups[2].notPredicted).toEqual([alan]);
+    expect(combined.counts).toEqual({
+      usersAnalyzed: 3,
+      usersAffected: 2,
+      added: 2,
+      removed: 1,
+      notPredicted: 1,
+    });
+    expect(combined.secondOrderRuleNames).toEqual(['Rule A', 'Rule B']);
+  });
+
+  it('lists users without a computed report instead of counting them as unaffected', () => {
+    const combined = combineBlastRadius([
+      { user: ada, report: report([effect('00gFAKE1', 'likely-added')]) },
+      { user: alan, report: null },
+      { user: grace, report: { ...report([]), status: 'unavailable' } },
+    ]);
+
+    expect(combined.notAnalyzed).toEqual([alan, grace]);
+    expect(combined.counts.usersAnalyzed).toBe(1);
+  });
+
+  it('is unavailable when no user could be analysed', () => {
+    const combined = combineBlastRadius([{ user: ada, report: null }]);
+
+    expect(combined.status).toBe('unavailable');
+    expect(combined.groups).toEqual([]);
+  });
+});
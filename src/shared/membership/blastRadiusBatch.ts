@@ -0,0 +1,167 @@
+/**
+ * @module shared/membership/blastRadiusBatch
+ * @description **What does a batch of profile edits do to group access, across
+ * everyone in it?**
+ *
+ * `blastRadius` answers for one user. A spreadsheet update asks the same question
+ * hundreds of times, and an admin reading hundreds of reports learns nothing, so
+ * {@link combineBlastRadius} folds the per-user reports into one view keyed by
+ * group: who is likely to join it, who is likely to leave it, and whose effect was
+ * not predicted.
+ *
+ * It adds no judgement of its own. Every entry in the combined view is a
+ * {@link GroupEffect} the engine already reached for one user, so the hedges carry
+ * over unchanged: a `likely-removed` stays likely, and a `not-predicted` is never
+ * folded into "no effect". A user whose own report was not computed is listed in
+ * {@link BatchBlastRadius.notAnalyzed} rather than counted as unaffected — that is
+ * the batch-sized form of the ADR-0020 rule the engine is built around.
+ *
+ * Like the engine it logs nothing: group names, rule names and user labels are
+ * tenant data.
+ */
+
+import type { BlastRadiusReport, GroupEffect } from './blastRadiusTypes';
+
+/** One user in the batch, named for the UI. */
+export interface BatchUserRef {
+  userId: string;
+  /** A login or display name. **Untrusted** — render escaped, never log. */
+  label: string;
+}
+
+/** One user's report, or `null` when their memberships could not be read. */
+export interface BatchBlastRadiusEntry {
+  user: BatchUserRef;
+  report: BlastRadiusReport | null;
+}
+
+/** What the batch is predicted to do to one group. */
+export interface BatchGroupEffect {
+  groupId: string;
+  /** Group display name, or the id. **Untrusted.** */
+  groupName: string;
+  /** Users the batch is likely to add to the group. */
+  likelyAdded: BatchUserRef[];
+  /** Users the batch is likely to remove from the group. */
+  likelyRemoved: BatchUserRef[];
+  /** Users for whom a change here was implicated but not predicted. */
+  notPredicted: BatchUserRef[];
+}
+
+/** The combined view. */
+export interface BatchBlastRadius {
+  /**
+   * `unavailable` when not one user's report could be computed — typically the
+   * rule inventory could not be read. `computed` otherwise, even when some users
+   * are in {@link notAnalyzed}.
+   */
+  status: 'computed' | 'unavailable';
+  /**
+   * One entry per implicated group: groups anyone is likely to leave first, then
+   * groups anyone is likely to join, then the rest; by name, then id, within each.
+   */
+  groups: BatchGroupEffect[];
+  counts: {
+    /** Users with a computed report. */
+    usersAnalyzed: number;
+    /** Analysed users with at least one likely add or removal. */
+    usersAffected: number;
+    /** User–group pairs predicted `likely-added`. */
+    added: number;
+    /** User–group pairs predicted `likely-removed`. */
+    removed: number;
+    /** User–group pairs the engine declined to predict. */
+    notPredicted: number;
+  };
+  /** Users whose report was not computed; nothing is claimed about them. */
+  notAnalyzed: BatchUserRef[];
+  /** Rules that read membership of a group the batch may change, across all users. Sorted. */
+  secondOrderRuleNames: string[];
+}
+
+/** Sort rank of a combined group: removals first, as in the single-user report's danger order. */
+function rankOf(group: BatchGroupEffect): number {
+  if (group.likelyRemoved.length > 0) return 0;
+  if (group.likelyAdded.length > 0) return 1;
+  return 2;
+}
+
+/** The list on a combined group that one per-user effect belongs in. */
+function bucketOf(group: BatchGroupEffect, effect: GroupEffect): BatchUserRef[] {
+  switch (effect.kind) {
+    case 'likely-added':
+      return group.likelyAdded;
+    case 'likely-removed':
+      return group.likelyRemoved;
+    case 'not-predicted':
+      return group.notPredicted;
+  }
+}
+
+/**
+ * Fold per-user blast-radius reports into one view keyed by group.
+ *
+ * @param entries - One entry per user in the batch, in batch order.
+ * @returns The combined {@link BatchBlastRadius}. User lists keep batch order.
+ *
+ * @example
+ * ```ts
+ * const combined = combineBlastRadius(
+ *   users.map((user) => ({ user: { userId: user.id, label: user.profile.login }, report })),
+ * );
+ * combined.groups.filter((g) => g.likelyRemoved.length > 0); // access the batch likely takes away
+ * ```
+ */
+export function combineBlastRadius(entries: readonly BatchBlastRadiusEntry[]): BatchBlastRadius {
+  const byGroup = new Map<string, BatchGroupEffect>();
+  const notAnalyzed: BatchUserRef[] = [];
+  const secondOrder = new Set<string>();
+  let usersAnalyzed = 0;
+  let usersAffected = 0;
+  let added = 0;
+  let removed = 0;
+  let notPredicted = 0;
+
+  for (const { user, report } of entries) {
+    if (report === null || report.status !== 'computed') {
+      notAnalyzed.push(user);
+      continue;
+    }
+    usersAnalyzed++;
+    if (report.counts.added + report.counts.removed > 0) usersAffected++;
+    added += report.counts.added;
+    removed += report.counts.removed;
+    notPredicted += report.counts.notPredicted;
+    for (const name of report.secondOrderRuleNames) secondOrder.add(name);
+
+    for (const effect of report.groups) {
+      let group = byGroup.get(effect.groupId);
+      if (group === undefined) {
+        group = {
+          groupId: effect.groupId,
+          groupName: effect.groupName,
+          likelyAdded: [],
+          likelyRemoved: [],
+          notPredicted: [],
+        };
+        byGroup.set(effect.groupId, group);
+      }
+      bucketOf(group, effect).push(user);
+    }
+  }
+
+  const groups = [...byGroup.values()].sort(
+    (a, b) =>
+      rankOf(a) - rankOf(b) ||
+      a.groupName.localeCompare(b.groupName) ||
+      a.groupId.localeCompare(b.groupId),
+  );
+
+  return {
+    status: entries.length > 0 && usersAnalyzed === 0 ? 'unavailable' : 'computed',
+    groups,
+    counts: { usersAnalyzed, usersAffected, added, removed, notPredicted },
+    notAnalyzed,
+    secondOrderRuleNames: [...secondOrder].sort((a, b) => a.localeCompare(b)),
+  };
+}
@@ -25,7 +25,9 @@ import type { GroupMembership } from '../types';
  *   pass nothing.
  * @returns The id/name pairs the evaluator reads.
  */
-export function groupContextOf(memberships: readonly GroupMembership[]): RuleGroupContext {
+export function groupContextOf(
+  memberships: readonly Pick<GroupMembership, 'group'>[],
+): RuleGroupContext {
   return memberships.map((membership) => ({
     id: membership.group.id,
     name: membership.group.profile.name,
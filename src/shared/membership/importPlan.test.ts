@@ -0,0 +1,159 @@
+/**
+ * @module shared/membership/importPlan.test
+ * @description Unit tests for the pure CSV group-import planner.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildImportResultCsv,
+  exactMatches,
+  looksLikeUserId,
+  parseImportIdentifiers,
+  planGroupImport,
+  type ImportCandidate,
+  type ImportResolution,
+} from './importPlan';
+
+function user(id: string, login: string, email = login): ImportCandidate {
+  return { id, login, email, firstName: id, lastName: 'User', status: 'ACTIVE' };
+}
+
+const group = { id: '00gFAKE1', name: 'Engineering' };
+
+describe('parseImportIdentifiers', () => {
+  it('reads a bare one-per-line list, skipping blanks and repeats', () => {
+    const parsed = parseImportIdentifiers(
+      'ada@example.com\n\nalan@example.com\r\nADA@example.com\n',
+    );
+    expect(parsed.column).toBeNull();
+    expect(parsed.rows).toEqual([
+      { line: 1, value: 'ada@example.com' },
+      { line: 3, value: 'alan@example.com' },
+    ]);
+    expect(parsed.duplicates).toBe(1);
+  });
+
+  it('reads the named identifier column when the first line is a header', () => {
+    const parsed = parseImportIdentifiers(
+      'Name,Email,Team\n"Lovelace, Ada",ada@example.com,R&D\nAlan Turing, alan@example.com ,R&D',
+    );
+    expect(parsed.column).toBe('Email');
+    expect(parsed.rows.map((r) => r.value)).toEqual(['ada@example.com', 'alan@example.com']);
+    expect(parsed.rows[0].line).toBe(2);
+  });
+
+  it('returns no rows for empty text', () => {
+    expect(parseImportIdentifiers('  \n').rows).toEqual([]);
+  });
+});
+
+describe('looksLikeUserId / exactMatches', () => {
+  it('recognises only 20-character 00u ids', () => {
+    expect(looksLikeUserId('00uFAKE1234567890ABC')).toBe(true);
+    expect(looksLikeUserId('00uFAKE1')).toBe(false);
+    expect(looksLikeUserId('ada@example.com')).toBe(false);
+  });
+
+  it('keeps case-insensitive login or email matches, never prefix matches', () => {
+    const candidates = [
+      user('00uFAKE1', 'ada@example.com'),
+      user('00uFAKE2', 'ada.l@example.com'),
+      user('00uFAKE3', 'ada2', 'ADA@example.com'),
+    ];
+    expect(exactMatches('Ada@Example.com', candidates).map((c) => c.id)).toEqual([
+      '00uFAKE1',
+      '00uFAKE3',
+    ]);
+  });
+});
+
+describe('planGroupImport', () => {
+  const identifiers = parseImportIdentifiers(
+    [
+      'ada@example.com',
+      'alan@example.com',
+      'grace@example.com',
+      'nobody',
+      'shared@example.com',
+      '00uFAKE1000000000000',
+    ].join('\n'),
+  );
+  const ada = user('00uFAKE1000000000000', 'ada@example.com');
+  const alan = user('00uFAKE2', 'alan@example.com');
+  const grace = user('00uFAKE3', 'grace@example.com');
+  const resolutions = new Map<string, ImportResolution>([
+    ['ada@example.com', { status: 'resolved', user: ada }],
+    ['alan@example.com', { status: 'resolved', user: alan }],
+    ['grace@example.com', { status: 'resolved', user: grace }],
+    [
+      'shared@example.com',
+      {
+        status: 'ambiguous',
+        candidates: [
+          user('00uFAKE4', 'a', 'shared@example.com'),
+          user('00uFAKE5', 'b', 'shared@example.com'),
+        ],
+      },
+    ],
+    ['00ufake1000000000000', { status: 'resolved', user: ada }],
+  ]);
+
+  it('sorts every row into one status and lists only the to-add users', () => {
+    const plan = planGroupImport(group, identifiers, resolutions, new Set(['00uFAKE3']), []);
+
+    expect(plan.rows.map((r) => r.status)).toEqual([
+      'to-add',
+      'to-add',
+      'already-member',
+      'not-found',
+      'ambiguous',
+      'duplicate',
+    ]);
+    expect(plan.toAdd.map((u) => u.id)).toEqual(['00uFAKE1000000000000', '00uFAKE2']);
+    expect(plan.counts).toEqual({
+      'to-add': 2,
+      'already-member': 1,
+      duplicate: 1,
+      'not-found': 1,
+      ambiguous: 1,
+    });
+    expect(plan.feedingRuleNames).toEqual([]);
+  });
+
+  it('flags the group as rule-managed only for ACTIVE feeding rules', () => {
+    const plan = planGroupImport(group, identifiers, resolutions, new Set(), [
+      { name: 'Engineers by department', status: 'ACTIVE', groupIds: ['00gFAKE1'] },
+      { name: 'Old engineers rule', status: 'INACTIVE', groupIds: ['00gFAKE1'] },
+      { name: 'Sales', status: 'ACTIVE', groupIds: ['00gFAKE2'] },
+    ]);
+    expect(plan.feedingRuleNames).toEqual(['Engineers by department']);
+  });
+});
+
+describe('buildImportResultCsv', () => {
+  it('writes every row, with the apply result for to-add rows', () => {
+    const identifiers = parseImportIdentifiers('login\nada@example.com\nalan@example.com\nnobody');
+    const plan = planGroupImport(
+      group,
+      identifiers,
+      new Map<string, ImportResolution>([
+        ['ada@example.com', { status: 'resolved', user: user('00uFAKE1', 'ada@example.com') }],
+        ['alan@example.com', { status: 'resolved', user: user('00uFAKE2', 'alan@example.com') }],
+      ]),
+      new Set(),
+      [],
+    );
+
+    const csv = buildImportResultCsv(
+      plan,
+      new Map([['00uFAKE1', { result: 'added' as const }]]),
+    ).split('\n');
+
+    expect(csv[0]).toBe('Line,Input,Status,User ID,Login,Email,Result,Detail');
+    expect(csv[1]).toBe('2,ada@example.com,to-add,00uFAKE1,ada@example.com,ada@example.com,added,');
+    expect(csv[2]).toContain(',not-sent,');
+    expect(csv[3]).toBe('4,nobody,not-found,,,,skipped,');
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * @module shared/membership/importPlan
+ * @description Pure planner for importing a CSV list of users into one group.
+ *
+ * The import runs in two passes. The dry run reads the pasted/uploaded CSV
+ * ({@link parseImportIdentifiers}), resolves each identifier to an Okta user (the
+ * lookups live in `useOktaApi/groupImport`), and sorts every row into one status
+ * with {@link planGroupImport}:
+ *
+ * - **to-add** — resolved to exactly one user who is not yet a member;
+ * - **already-member** — resolved, and already in the group (nothing to send);
+ * - **duplicate** — resolved to a user an earlier row already names;
+ * - **not-found** — no user matches the identifier exactly;
+ * - **ambiguous** — more than one user matches (e.g. a shared email address).
+ *
+ * Only the to-add rows are ever written. A group fed by an ACTIVE rule is flagged:
+ * an imported user becomes a **direct** member, which that rule will not remove when
+ * they stop matching its condition.
+ *
+ * The second pass's outcomes come back through {@link buildImportResultCsv}, which
+ * writes every input row with its status and result.
+ *
+ * @see {@link planGroupImport}
+ */
+
+import { countRulesByGroup } from '../rules/groupRuleIndex';
+import { generateCSV } from '../utils/csvUtils';
+
+/** Header names (lower-cased) that mark the identifier column in a CSV with a header row. */
+const IDENTIFIER_HEADERS = ['login', 'email', 'id', 'userid', 'user id', 'username', 'user'];
+
+/** An Okta user id: `00u` plus 17 alphanumerics. */
+const OKTA_USER_ID_RE = /^00u[0-9A-Za-z]{17}$/;
+
+/** One non-blank identifier read from the CSV. */
+export interface ImportInputRow {
+  /** 1-based line number in the source text, for the dry run and the result CSV. */
+  line: number;
+  /** The identifier as written (trimmed): a login, an email, or a user id. */
+  value: string;
+}
+
+/** The identifiers read from a CSV. */
+export interface ImportIdentifiers {
+  rows: ImportInputRow[];
+  /** The header the identifiers were read from, or `null` when there was no header row. */
+  column: string | null;
+  /** Rows dropped because the same identifier already appeared (case-insensitive). */
+  duplicates: number;
+}
+
+/** A user an identifier resolved to — the flattened shape `searchUsers`/`getUserById` return. */
+export interface ImportCandidate {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  login: string;
+  status: string;
+}
+
+/** How one identifier resolved. */
+export type ImportResolution =
+  | { status: 'resolved'; user: ImportCandidate }
+  | { status: 'not-found' }
+  | { status: 'ambiguous'; candidates: ImportCandidate[] };
+
+/** Dry-run status of one input row. */
+export type ImportRowStatus = 'to-add' | 'already-member' | 'duplicate' | 'not-found' | 'ambiguous';
+
+/** One input row with its dry-run status. */
+export interface ImportPlanRow extends ImportInputRow {
+  status: ImportRowStatus;
+  /** The resolved user; absent for not-found and ambiguous rows. */
+  user?: ImportCandidate;
+  /** Every exact match, for an ambiguous row. */
+  candidates?: ImportCandidate[];
+}
+
+/** A rule reduced to what the rule-managed check needs. */
+export interface ImportFeedingRule {
+  name: string;
+  status: string;
+  groupIds: string[];
+}
+
+/** The dry-run plan for one import. */
+export interface ImportPlan {
+  group: { id: string; name: string };
+  rows: ImportPlanRow[];
+  /** Row count per status. */
+  counts: Record<ImportRowStatus, number>;
+  /** The users the import would add, in row order. */
+  toAdd: ImportCandidate[];
+  /** Rows dropped at parse time as repeats of an earlier identifier. */
+  duplicateInputs: number;
+  /** Names of the ACTIVE rules that feed the group; non-empty means rule-managed. */
+  feedingRuleNames: string[];
+}
+
+/** The apply-pass result for one to-add user. */
+export interface ImportOutcome {
+  /** `'not-sent'` when the run was cancelled or halted before reaching the user. */
+  result: 'added' | 'failed' | 'not-sent';
+  error?: string;
+}
+
+/**
+ * Split one CSV line into cells, honouring double-quoted fields and `""` escapes.
+ * Identifiers never span lines, so a quoted newline is not supported.
+ *
+ * @param line - One line of CSV text, without its line break.
+ * @returns The trimmed cells, in column order.
+ */
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells.map((c) => c.trim());
+}
+
+/**
+ * Read the user identifiers out of CSV text.
+ *
+ * When the first non-blank line names an identifier column (`login`, `email`, `id`,
+ * …, case-insensitive) that column is read and the line skipped; otherwise every
+ * line's first cell is read. Blank cells are ignored and a repeated identifier is
+ * kept once.
+ *
+ * @param text - The CSV text (a bare one-per-line list is valid CSV too).
+ * @returns The identifiers in line order, the header used, and how many repeats were dropped.
+ */
+export function parseImportIdentifiers(text: string): ImportIdentifiers {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const firstIndex = lines.findIndex((line) => line.trim() !== '');
+  if (firstIndex === -1) return { rows: [], column: null, duplicates: 0 };
+
+  const header = splitCsvLine(lines[firstIndex]);
+  const headerIndex = header.findIndex((cell) => IDENTIFIER_HEADERS.includes(cell.toLowerCase()));
+  const columnIndex = headerIndex === -1 ? 0 : headerIndex;
+  const startIndex = headerIndex === -1 ? firstIndex : firstIndex + 1;
+
+  const seen = new Set<string>();
+  const rows: ImportInputRow[] = [];
+  let duplicates = 0;
+  for (let i = startIndex; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+    const value = splitCsvLine(lines[i])[columnIndex] ?? '';
+    if (!value) continue;
+    const key = value.toLowerCase();
+    if (seen.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(key);
+    rows.push({ line: i + 1, value });
+  }
+
+  return { rows, column: headerIndex === -1 ? null : header[headerIndex], duplicates };
+}
+
+/**
+ * Whether an identifier is shaped like an Okta user id (`00u…`, 20 characters).
+ *
+ * @param value - A trimmed identifier.
+ */
+export function looksLikeUserId(value: string): boolean {
+  return OKTA_USER_ID_RE.test(value);
+}
+
+/**
+ * The candidates whose login or email equals `value`, ignoring case.
+ *
+ * Okta's `q` search is a prefix match across names, email and login, so its raw
+ * results are never taken as a match on their own.
+ *
+ * @param value - The identifier from the CSV.
+ * @param candidates - Search results to filter.
+ * @returns The exact matches, in search order.
+ */
+export function exactMatches(value: string, candidates: ImportCandidate[]): ImportCandidate[] {
+  const needle = value.toLowerCase();
+  return candidates.filter(
+    (c) => c.login.toLowerCase() === needle || c.email.toLowerCase() === needle,
+  );
+}
+
+/**
+ * Build the dry-run {@link ImportPlan} from already-resolved identifiers.
+ *
+ * @param group - The target group.
+ * @param identifiers - The parsed CSV ({@link parseImportIdentifiers}).
+ * @param resolutions - Resolution per identifier, keyed by `value.toLowerCase()`.
+ * An identifier missing from the map reads as not found.
+ * @param memberIds - Ids of the group's current members.
+ * @param rules - The org's rules; only ACTIVE rules that feed the group are reported.
+ * @returns The plan, with one row per identifier in CSV order.
+ */
+export function planGroupImport(
+  group: { id: string; name: string },
+  identifiers: ImportIdentifiers,
+  resolutions: Map<string, ImportResolution>,
+  memberIds: ReadonlySet<string>,
+  rules: readonly ImportFeedingRule[],
+): ImportPlan {
+  const counts: Record<ImportRowStatus, number> = {
+    'to-add': 0,
+    'already-member': 0,
+    duplicate: 0,
+    'not-found': 0,
+    ambiguous: 0,
+  };
+  const toAdd: ImportCandidate[] = [];
+  const planned = new Set<string>();
+
+  const rows = identifiers.rows.map((row): ImportPlanRow => {
+    const resolution = resolutions.get(row.value.toLowerCase()) ?? { status: 'not-found' };
+    let planRow: ImportPlanRow;
+    if (resolution.status === 'not-found') {
+      planRow = { ...row, status: 'not-found' };
+    } else if (resolution.status === 'ambiguous') {
+      planRow = { ...row, status: 'ambiguous', candidates: resolution.candidates };
+    } else {
+      const user = resolution.user;
+      if (planned.has(user.id)) {
+        planRow = { ...row, status: 'duplicate', user };
+      } else if (memberIds.has(user.id)) {
+        planRow = { ...row, status: 'already-member', user };
+      } else {
+        planRow = { ...row, status: 'to-add', user };
+        toAdd.push(user);
+      }
+      planned.add(user.id);
+    }
+    counts[planRow.status]++;
+    return planRow;
+  });
+
+  const activeRules = rules.filter((rule) => rule.status === 'ACTIVE');
+  const ruleManaged = (countRulesByGroup(activeRules).get(group.id) ?? 0) > 0;
+  const feedingRuleNames = ruleManaged
+    ? activeRules.filter((rule) => rule.groupIds.includes(group.id)).map((rule) => rule.name)
+    : [];
+
+  return {
+    group,
+    rows,
+    counts,
+    toAdd,
+    duplicateInputs: identifiers.duplicates,
+    feedingRuleNames,
+  };
+}
+
+/**
+ * Write the import's result CSV: every input row with its dry-run status and, for a
+ * to-add row, what the apply pass did with it.
+ *
+ * @param plan - The plan that was applied.
+ * @param outcomes - Apply-pass outcome per user id. A to-add row with no entry reads
+ * as not sent.
+ * @returns CSV text (cells escaped by `generateCSV`).
+ */
+export function buildImportResultCsv(
+  plan: ImportPlan,
+  outcomes: ReadonlyMap<string, ImportOutcome>,
+): string {
+  const rows = plan.rows.map((row) => {
+    let result = 'skipped';
+    let detail = '';
+    if (row.status === 'to-add' && row.user) {
+      const outcome = outcomes.get(row.user.id) ?? { result: 'not-sent' };
+      result = outcome.result;
+      detail = outcome.error ?? '';
+    } else if (row.status === 'ambiguous') {
+      detail = (row.candidates ?? []).map((c) => c.login).join('; ');
+    }
+    return [
+      row.line,
+      row.value,
+      row.status,
+      row.user?.id ?? '',
+      row.user?.login ?? '',
+      row.user?.email ?? '',
+      result,
+      detail,
+    ];
+  });
+  return generateCSV(
+    ['Line', 'Input', 'Status', 'User ID', 'Login', 'Email', 'Result', 'Detail'],
+    rows,
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Tests for the membership snapshot model.
+ *
+ * Pins what verifying a rule change relies on: a snapshot records Okta's answer
+ * about each membership's source and nothing more, the diff reads older → newer
+ * whichever way round it is asked, a move between rules counts as a source change
+ * while an unanswered source never does, and the CSV names both sides.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  buildMembershipDiffCsv,
+  createMembershipSnapshot,
+  diffSnapshots,
+  orderSnapshots,
+  snapshotMember,
+  type MembershipSnapshot,
+} from './membershipSnapshot';
+import type { OktaUser } from '../types';
+
+function member(id: string, embedded?: unknown): OktaUser {
+  return {
+    id,
+    status: 'ACTIVE',
+    profile: {
+      login: `${id.toLowerCase()}@example.com`,
+      email: `${id.toLowerCase()}@example.com`,
+      firstName: 'Test',
+      lastName: id,
+    },
+    ...(embedded !== undefined ? { _embedded: embedded } : {}),
+  } as OktaUser;
+}
+
+const manual = { 'group-rules': [] };
+const sales = { 'group-rules': [{ id: '0prFAKE1', name: 'Sales → CRM' }] };
+const emea = { 'group-rules': [{ id: '0prFAKE2', name: 'EMEA → CRM' }] };
+
+function snapshot(id: string, takenAt: string, members: OktaUser[]): MembershipSnapshot {
+  return createMembershipSnapshot({
+    id,
+    group: { id: '00gFAKE1', name: 'CRM Users' },
+    members,
+    takenBy: 'admin@example.com',
+    now: new Date(takenAt),
+  });
+}
+
+describe('snapshotMember', () => {
+  it("keeps Okta's answer apart from its silence", () => {
+    expect(snapshotMember(member('00uFAKE1', manual))).toMatchObject({
+      source: 'DIRECT',
+      ruleNames: [],
+      name: 'Test 00uFAKE1',
+    });
+    expect(snapshotMember(member('00uFAKE2', sales))).toMatchObject({
+      source: 'RULE_BASED',
+      ruleNames: ['Sales → CRM'],
+    });
+    expect(snapshotMember(member('00uFAKE3')).source).toBe('UNKNOWN');
+  });
+});
+
+describe('createMembershipSnapshot', () => {
+  it('sorts members by login and drops a blank label', () => {
+    const snap = createMembershipSnapshot({
+      id: 'snap-1',
+      group: { id: '00gFAKE1', name: 'CRM Users' },
+      members: [member('00uFAKEB', manual), member('00uFAKEA', manual)],
+      takenBy: 'admin@example.com',
+      label: '   ',
+      now: new Date('2026-03-01T00:00:00Z'),
+    });
+
+    expect(snap.members.map((m) => m.id)).toEqual(['00uFAKEA', '00uFAKEB']);
+    expect(snap).not.toHaveProperty('label');
+  });
+});
+
+describe('diffSnapshots', () => {
+  const before = snapshot('before', '2026-03-01T00:00:00Z', [
+    member('00uFAKE1', manual),
+    member('00uFAKE2', sales),
+    member('00uFAKE3', manual),
+    member('00uFAKE4'),
+    member('00uFAKE5', sales),
+  ]);
+  const after = snapshot('after', '2026-03-03T00:00:00Z', [
+    member('00uFAKE1', manual),
+    member('00uFAKE2', emea),
+    member('00uFAKE4', sales),
+    member('00uFAKE5', manual),
+    member('00uFAKE6', emea),
+  ]);
+
+  it('lists added, removed and source-changed members', () => {
+    const diff = diffSnapshots(before, after);
+
+    expect(diff.added.map((m) => m.id)).toEqual(['00uFAKE6']);
+    expect(diff.removed.map((m) => m.id)).toEqual(['00uFAKE3']);
+    expect(diff.sourceChanged.map((c) => [c.member.id, c.from, c.to])).toEqual([
+      ['00uFAKE2', 'RULE_BASED', 'RULE_BASED'],
+      ['00uFAKE5', 'RULE_BASED', 'DIRECT'],
+    ]);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.sourceUnknown).toBe(1);
+  });
+
+  it('reads older → newer whichever way round it is asked', () => {
+    expect(diffSnapshots(after, before)).toEqual(diffSnapshots(before, after));
+    expect(orderSnapshots(after, before).map((s) => s.id)).toEqual(['before', 'after']);
+  });
+
+  it('refuses snapshots of different groups', () => {
+    const other = { ...after, groupId: '00gFAKE2' };
+    expect(() => diffSnapshots(before, other)).toThrow('same group');
+  });
+});
+
+describe('buildMembershipDiffCsv', () => {
+  it('writes one row per change with the source on each side', () => {
+    const older = snapshot('before', '2026-03-01T00:00:00Z', [
+      member('00uFAKE1', sales),
+      member('00uFAKE2', manual),
+    ]);
+    const newer = snapshot('after', '2026-03-02T00:00:00Z', [
+      member('00uFAKE1', manual),
+      member('00uFAKE3', emea),
+    ]);
+
+    const lines = buildMembershipDiffCsv(diffSnapshots(older, newer), older, newer).split('\n');
+
+    expect(lines[0]).toContain(',Change,');
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toContain(',Added,');
+    expect(lines[1]).toMatch(/,RULE_BASED \(EMEA → CRM\)$/);
+    expect(lines[2]).toContain(',Removed,');
+    expect(lines[3]).toContain(',Source changed,');
+    expect(lines[3]).toMatch(/,RULE_BASED \(Sales → CRM\),DIRECT$/);
+  });
+});
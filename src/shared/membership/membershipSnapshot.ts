@@ -0,0 +1,278 @@
+/**
+ * @module shared/membership/membershipSnapshot
+ * @description Pure model of a point-in-time snapshot of a group's membership and
+ * the diff between two of them.
+ *
+ * The entity cache and `memberSourceCache` are session-only, so neither can say
+ * who joined a group since last Tuesday. A snapshot is taken on demand, kept in
+ * `shared/storage/membershipSnapshotStore`, and compared with any other snapshot
+ * of the same group — typically one taken before a rule change and one taken once
+ * Okta's asynchronous rule application has finished.
+ *
+ * No React and no I/O. `useOktaApi/membershipSnapshots` reads the members and
+ * `useMembershipSnapshots` drives the view.
+ *
+ * ## What a snapshot keeps
+ *
+ * Only what the diff needs to be read on its own: each member's id, login, name,
+ * status and source. Removed members are no longer in the group, so their login
+ * and name have to come from the snapshot rather than from Okta.
+ *
+ * ## The source is Okta's answer, or nothing
+ *
+ * Each member's source is read from Okta's own `group-rules` embed through
+ * `shared/membership/provenance`, as the access review does. `DIRECT` and
+ * `RULE_BASED` are Okta's answers; `UNKNOWN` means Okta said nothing for that
+ * row. A member that is `UNKNOWN` on either side is not reported as a source
+ * change — the absence of an answer is not a change — and is counted in
+ * {@link MembershipDiff.sourceUnknown} instead so the gap is visible.
+ *
+ * Security: member identities and rule names are tenant data. Nothing here logs.
+ */
+import type { OktaUser } from '../types';
+import { generateCSV } from '../utils/csvUtils';
+import { readEmbeddedGroupRules } from './memberRuleAttribution';
+import { membershipProvenanceOf } from './provenance';
+
+/** Where one membership came from when the snapshot was taken. See the module doc. */
+export type SnapshotSource = 'DIRECT' | 'RULE_BASED' | 'UNKNOWN';
+
+/** One member as recorded in a snapshot. */
+export interface SnapshotMember {
+  id: string;
+  login: string;
+  /** `First Last`, or blank when Okta returned neither. */
+  name: string;
+  status: string;
+  source: SnapshotSource;
+  /** The rules Okta named for a `RULE_BASED` membership; empty otherwise. */
+  ruleNames: string[];
+}
+
+/** A group's membership at one moment. */
+export interface MembershipSnapshot {
+  id: string;
+  /** Schema version of the stored record. */
+  version: 1;
+  groupId: string;
+  groupName: string;
+  takenAt: Date;
+  /** Login of the admin who took it. */
+  takenBy: string;
+  /** Optional reminder of why it was taken, e.g. "before Sales rule change". */
+  label?: string;
+  /** Members sorted by login. */
+  members: SnapshotMember[];
+}
+
+/** A member present in both snapshots whose source changed between them. */
+export interface SourceChange {
+  member: SnapshotMember;
+  from: SnapshotSource;
+  to: SnapshotSource;
+  /** Rule names in the older snapshot. */
+  fromRules: string[];
+}
+
+/** What changed between two snapshots of the same group. */
+export interface MembershipDiff {
+  /** In the newer snapshot only. */
+  added: SnapshotMember[];
+  /** In the older snapshot only, as recorded there. */
+  removed: SnapshotMember[];
+  /** In both, with a different `DIRECT`/`RULE_BASED` source. */
+  sourceChanged: SourceChange[];
+  /** In both, with the same source and rules. */
+  unchanged: number;
+  /** In both, but `UNKNOWN` on at least one side, so a source change cannot be told. */
+  sourceUnknown: number;
+}
+
+/**
+ * Record one member as a snapshot row.
+ *
+ * @param member - A member row read with Okta's `group-rules` embed.
+ * @returns The row; `UNKNOWN` when Okta said nothing about the membership.
+ */
+export function snapshotMember(member: OktaUser): SnapshotMember {
+  const provenance = membershipProvenanceOf(readEmbeddedGroupRules(member));
+  const { login, firstName, lastName } = member.profile;
+  return {
+    id: member.id,
+    login,
+    name: `${firstName ?? ''} ${lastName ?? ''}`.trim(),
+    status: member.status,
+    source:
+      provenance === undefined ? 'UNKNOWN' : provenance.rules.length > 0 ? 'RULE_BASED' : 'DIRECT',
+    ruleNames: provenance?.rules.map((rule) => rule.name) ?? [],
+  };
+}
+
+/** Order rows by login, so the diff and the CSV read alphabetically. */
+function byLogin(a: SnapshotMember, b: SnapshotMember): number {
+  return a.login.localeCompare(b.login);
+}
+
+/**
+ * Build a snapshot from a group's current members.
+ *
+ * @param args.id - A fresh id for the snapshot.
+ * @param args.group - The group the members belong to.
+ * @param args.members - Its members, read with the `group-rules` embed.
+ * @param args.takenBy - Login of the admin taking it.
+ * @param args.label - Optional reminder of why it was taken; blank is dropped.
+ * @param args.now - When it was taken.
+ * @returns The snapshot, not yet stored.
+ */
+export function createMembershipSnapshot(args: {
+  id: string;
+  group: { id: string; name: string };
+  members: OktaUser[];
+  takenBy: string;
+  label?: string;
+  now: Date;
+}): MembershipSnapshot {
+  const label = args.label?.trim();
+  return {
+    id: args.id,
+    version: 1,
+    groupId: args.group.id,
+    groupName: args.group.name,
+    takenAt: args.now,
+    takenBy: args.takenBy,
+    ...(label ? { label } : {}),
+    members: args.members.map(snapshotMember).sort(byLogin),
+  };
+}
+
+/** Whether two rule-name lists name the same rules, in any order. */
+function sameRules(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  const names = new Set(a);
+  return b.every((name) => names.has(name));
+}
+
+/**
+ * Put two snapshots in time order.
+ *
+ * @returns `[older, newer]`.
+ */
+export function orderSnapshots(
+  a: MembershipSnapshot,
+  b: MembershipSnapshot,
+): [MembershipSnapshot, MembershipSnapshot] {
+  return a.takenAt.getTime() <= b.takenAt.getTime() ? [a, b] : [b, a];
+}
+
+/**
+ * Compare two snapshots of the same group.
+ *
+ * Arguments are put in time order first, so the diff always reads from the older
+ * snapshot to the newer one whichever way round they are passed.
+ *
+ * A member moving between rules while staying `RULE_BASED` is a source change too:
+ * verifying a rule change is exactly the case where that matters.
+ *
+ * @param a - One snapshot.
+ * @param b - The other, of the same group.
+ * @returns The added, removed and source-changed members, each sorted by login.
+ * @throws Error when the snapshots are of different groups.
+ */
+export function diffSnapshots(a: MembershipSnapshot, b: MembershipSnapshot): MembershipDiff {
+  if (a.groupId !== b.groupId) {
+    throw new Error('Only snapshots of the same group can be compared.');
+  }
+  const [older, newer] = orderSnapshots(a, b);
+  const before = new Map(older.members.map((member) => [member.id, member]));
+  const after = new Set(newer.members.map((member) => member.id));
+
+  const diff: MembershipDiff = {
+    added: [],
+    removed: older.members.filter((member) => !after.has(member.id)).sort(byLogin),
+    sourceChanged: [],
+    unchanged: 0,
+    sourceUnknown: 0,
+  };
+  for (const member of newer.members) {
+    const was = before.get(member.id);
+    if (!was) {
+      diff.added.push(member);
+    } else if (was.source === 'UNKNOWN' || member.source === 'UNKNOWN') {
+      diff.sourceUnknown++;
+    } else if (was.source !== member.source || !sameRules(was.ruleNames, member.ruleNames)) {
+      diff.sourceChanged.push({
+        member,
+        from: was.source,
+        to: member.source,
+        fromRules: was.ruleNames,
+      });
+    } else {
+      diff.unchanged++;
+    }
+  }
+  diff.added.sort(byLogin);
+  diff.sourceChanged.sort((x, y) => byLogin(x.member, y.member));
+  return diff;
+}
+
+/** `DIRECT`, or `RULE_BASED (Rule A; Rule B)`. */
+function sourceLabel(source: SnapshotSource, ruleNames: string[]): string {
+  return ruleNames.length > 0 ? `${source} (${ruleNames.join('; ')})` : source;
+}
+
+/**
+ * The diff as CSV: one row per added, removed or source-changed member, each
+ * carrying both snapshots' times so a single row stands on its own.
+ *
+ * @param diff - The result of {@link diffSnapshots}.
+ * @param older - The older snapshot (see {@link orderSnapshots}).
+ * @param newer - The newer snapshot.
+ * @returns CSV text (cells escaped by `generateCSV`).
+ */
+export function buildMembershipDiffCsv(
+  diff: MembershipDiff,
+  older: MembershipSnapshot,
+  newer: MembershipSnapshot,
+): string {
+  const row = (change: string, member: SnapshotMember, before: string, after: string) => [
+    older.groupId,
+    older.groupName,
+    older.takenAt.toISOString(),
+    newer.takenAt.toISOString(),
+    change,
+    member.id,
+    member.login,
+    member.name,
+    member.status,
+    before,
+    after,
+  ];
+  const rows = [
+    ...diff.added.map((m) => row('Added', m, '', sourceLabel(m.source, m.ruleNames))),
+    ...diff.removed.map((m) => row('Removed', m, sourceLabel(m.source, m.ruleNames), '')),
+    ...diff.sourceChanged.map((c) =>
+      row(
+        'Source changed',
+        c.member,
+        sourceLabel(c.from, c.fromRules),
+        sourceLabel(c.to, c.member.ruleNames),
+      ),
+    ),
+  ];
+  return generateCSV(
+    [
+      'Group ID',
+      'Group',
+      'From Snapshot',
+      'To Snapshot',
+      'Change',
+      'User ID',
+      'Login',
+      'Name',
+      'User Status',
+      'Source Before',
+      'Source After',
+    ],
+    rows,
+  );
+}
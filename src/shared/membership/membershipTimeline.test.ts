@@ -0,0 +1,203 @@
+/**
+ * Tests for the membership timeline: System Log events and local history entries
+ * for one user in one group, each change attributed without guessing, a write
+ * made here joined to its System Log event, and the result newest first.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  describeChangeActor,
+  mergeMembershipTimeline,
+  timelineFromLogEvents,
+  timelineFromUndoHistory,
+} from './membershipTimeline';
+import type { OktaLogEvent } from '../schemas/okta';
+import type { UndoAction } from '../undoTypes';
+
+const key = { userId: '00uFAKE1', groupId: '00gFAKE1' };
+const userTarget = { id: '00uFAKE1', type: 'User', alternateId: 'ada@example.com' };
+const groupTarget = { id: '00gFAKE1', type: 'UserGroup', displayName: 'Engineering' };
+
+function logEvent(
+  uuid: string,
+  published: string,
+  eventType: string,
+  extra: Partial<OktaLogEvent> = {},
+): OktaLogEvent {
+  return { uuid, published, eventType, target: [userTarget, groupTarget], ...extra };
+}
+
+function undoEntry(
+  id: string,
+  timestamp: string,
+  metadata: UndoAction['metadata'],
+  status: UndoAction['status'] = 'completed',
+): UndoAction {
+  return {
+    id,
+    type: metadata.type,
+    timestamp: new Date(timestamp).getTime(),
+    description: id,
+    metadata,
+    status,
+  };
+}
+
+const admin = { id: '00uFAKEADMIN', type: 'User', alternateId: 'admin@example.com' };
+
+describe('timelineFromLogEvents', () => {
+  it('names an admin, a rule, or just Okta — never guessing which system process', () => {
+    const entries = timelineFromLogEvents(
+      [
+        logEvent('a', '2026-03-03T10:00:00Z', 'group.user_membership.add', { actor: admin }),
+        logEvent('b', '2026-03-02T10:00:00Z', 'group.user_membership.remove', {
+          actor: { id: '0oaFAKE', type: 'SystemPrincipal', displayName: 'Okta System' },
+        }),
+        logEvent('c', '2026-03-01T10:00:00Z', 'group.user_membership.add', {
+          actor: { id: '0oaFAKE', type: 'SystemPrincipal' },
+          target: [
+            userTarget,
+            groupTarget,
+            { id: '0prFAKE1', type: 'GroupRule', displayName: 'Sales → CRM' },
+          ],
+        }),
+      ],
+      key,
+    );
+
+    expect(entries.map((e) => [e.change, e.by])).toEqual([
+      ['added', { kind: 'admin', login: 'admin@example.com' }],
+      ['removed', { kind: 'okta' }],
+      ['added', { kind: 'rule', ruleName: 'Sales → CRM' }],
+    ]);
+  });
+
+  it('skips events about another user or of another type', () => {
+    const entries = timelineFromLogEvents(
+      [
+        logEvent('a', '2026-03-03T10:00:00Z', 'group.user_membership.add', {
+          target: [{ id: '00uFAKE2', type: 'User' }, groupTarget],
+        }),
+        logEvent('b', '2026-03-03T10:00:00Z', 'user.session.start'),
+      ],
+      key,
+    );
+    expect(entries).toEqual([]);
+  });
+});
+
+describe('timelineFromUndoHistory', () => {
+  it('reads single and bulk writes for the pair, keeps partial ones as unconfirmed, drops failed ones', () => {
+    const user = { userId: '00uFAKE1', userEmail: 'ada@example.com', userName: 'Ada' };
+    const entries = timelineFromUndoHistory(
+      [
+        undoEntry('single', '2026-03-03T10:00:00Z', {
+          type: 'ADD_USER_TO_GROUP',
+          ...user,
+          groupId: '00gFAKE1',
+          groupName: 'Engineering',
+        }),
+        undoEntry(
+          'bulk',
+          '2026-03-02T10:00:00Z',
+          {
+            type: 'BULK_REMOVE_USERS_FROM_GROUP',
+            users: [user],
+            groupId: '00gFAKE1',
+            groupName: 'Engineering',
+            operationType: 'inactive',
+          },
+          'partial',
+        ),
+        undoEntry(
+          'failed',
+          '2026-03-01T10:00:00Z',
+          { type: 'ADD_USER_TO_GROUP', ...user, groupId: '00gFAKE1', groupName: 'Engineering' },
+          'failed',
+        ),
+        undoEntry('other group', '2026-03-01T10:00:00Z', {
+          type: 'ADD_USER_TO_GROUP',
+          ...user,
+          groupId: '00gFAKE2',
+          groupName: 'Sales',
+        }),
+      ],
+      key,
+    );
+
+    expect(entries.map((e) => [e.change, e.unconfirmed])).toEqual([
+      ['added', false],
+      ['removed', true],
+    ]);
+  });
+});
+
+describe('mergeMembershipTimeline', () => {
+  it("joins a write made here to the admin's System Log event and sorts newest first", () => {
+    const fromLog = timelineFromLogEvents(
+      [logEvent('a', '2026-03-01T10:01:00Z', 'group.user_membership.add', { actor: admin })],
+      key,
+    );
+    const local = [
+      {
+        at: new Date('2026-03-01T10:00:00Z'),
+        change: 'added' as const,
+        by: { kind: 'this-browser' as const },
+        madeHere: true,
+        inSystemLog: false,
+        unconfirmed: true,
+      },
+      {
+        at: new Date('2026-03-05T10:00:00Z'),
+        change: 'removed' as const,
+        by: { kind: 'this-browser' as const },
+        madeHere: true,
+        inSystemLog: false,
+        unconfirmed: false,
+      },
+    ];
+
+    const timeline = mergeMembershipTimeline(fromLog, local);
+
+    expect(timeline).toHaveLength(2);
+    expect(timeline[0]).toMatchObject({ change: 'removed', inSystemLog: false, madeHere: true });
+    expect(timeline[1]).toMatchObject({
+      change: 'added',
+      by: { kind: 'admin', login: 'admin@example.com' },
+      madeHere: true,
+      inSystemLog: true,
+      unconfirmed: false,
+    });
+  });
+
+  it('does not join a local write to a change Okta made itself', () => {
+    const fromLog = timelineFromLogEvents(
+      [logEvent('a', '2026-03-01T10:00:00Z', 'group.user_membership.add')],
+      key,
+    );
+    const local = timelineFromUndoHistory(
+      [
+        undoEntry('single', '2026-03-01T10:00:00Z', {
+          type: 'ADD_USER_TO_GROUP',
+          userId: '00uFAKE1',
+          userEmail: 'ada@example.com',
+          userName: 'Ada',
+          groupId: '00gFAKE1',
+          groupName: 'Engineering',
+        }),
+      ],
+      key,
+    );
+    expect(mergeMembershipTimeline(fromLog, local)).toHaveLength(2);
+  });
+});
+
+describe('describeChangeActor', () => {
+  it('says who made a change', () => {
+    expect(describeChangeActor({ kind: 'rule', ruleName: 'Sales → CRM' })).toBe(
+      'the rule Sales → CRM',
+    );
+    expect(describeChangeActor({ kind: 'this-browser' })).toBe('you, from this browser');
+  });
+});
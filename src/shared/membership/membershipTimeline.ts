@@ -0,0 +1,232 @@
+/**
+ * @module shared/membership/membershipTimeline
+ * @description When and how one user got (or lost) one group: Okta's System Log
+ * merged with this extension's own action history.
+ *
+ * The Groups pane says which rule manages a membership; it cannot say when the
+ * user was added, by whom, or whether someone removed and re-added them last week.
+ * The System Log can, for its 90 days, and the local history (`shared/undoManager`)
+ * can for the writes made from this browser. This module turns both into one
+ * newest-first list of {@link MembershipTimelineEntry}.
+ *
+ * ## Who made a change
+ *
+ * A System Log event names its actor. An actor of type `User` is an admin (or an
+ * API token acting as one) and is named. Anything else is Okta itself — a group
+ * rule, a directory import, an app push — and Okta does not say which on the
+ * membership event. So an entry is only labelled a rule's when a target of the
+ * event is the rule; otherwise it says "Okta" and does not guess. The current
+ * provenance (which rule manages the membership *now*) is shown beside it by the
+ * caller and is never folded in here.
+ *
+ * ## One change, two records
+ *
+ * A write made from this extension appears in both sources. A local entry and a
+ * System Log event of the same direction within {@link SAME_CHANGE_WINDOW_MS} are
+ * one change: the entry keeps the System Log's actor and time and is marked as
+ * made here. Local entries whose outcome is unconfirmed (`partial`) are kept and
+ * say so unless the System Log confirms them; failed ones are dropped, since
+ * nothing happened.
+ *
+ * Group, rule and admin names are tenant data; nothing here is logged.
+ */
+
+import type { OktaLogEvent } from '../schemas/okta';
+import type { UndoAction } from '../undoTypes';
+
+/** How close a local entry and a System Log event must be to count as one change. */
+export const SAME_CHANGE_WINDOW_MS = 5 * 60 * 1000;
+
+/** Who made a membership change. */
+export type MembershipChangeActor =
+  | { kind: 'admin'; login: string }
+  | { kind: 'rule'; ruleName: string }
+  /** Okta itself, with no more said: a rule, an import, or another system process. */
+  | { kind: 'okta' }
+  /** Recorded only locally; the System Log has no matching event (yet, or any more). */
+  | { kind: 'this-browser' };
+
+/** One add or removal of the user in the group. */
+export interface MembershipTimelineEntry {
+  at: Date;
+  change: 'added' | 'removed';
+  by: MembershipChangeActor;
+  /** Made from this extension (a local history entry matches it). */
+  madeHere: boolean;
+  /** Whether Okta's System Log records it. */
+  inSystemLog: boolean;
+  /** The local entry's outcome was never confirmed (a partial bulk write). */
+  unconfirmed: boolean;
+}
+
+/** A membership's timeline, and whether the System Log half of it could be read. */
+export interface MembershipTimeline {
+  /** Newest first. */
+  entries: MembershipTimelineEntry[];
+  /**
+   * Why the System Log could not be read (commonly a role without report
+   * access), or `null` when it was. When set, `entries` holds only this
+   * browser's own history and must not be read as complete.
+   */
+  systemLogError: string | null;
+}
+
+/** The pair a timeline is about. */
+export interface MembershipKey {
+  userId: string;
+  groupId: string;
+}
+
+/**
+ * The timeline entries in a page of System Log events.
+ *
+ * @param events - Events from a membership query (other event types are skipped).
+ * @param key - The user and group; events not targeting both are skipped.
+ * @returns Entries in the events' order.
+ */
+export function timelineFromLogEvents(
+  events: OktaLogEvent[],
+  key: MembershipKey,
+): MembershipTimelineEntry[] {
+  const entries: MembershipTimelineEntry[] = [];
+  for (const event of events) {
+    const change =
+      event.eventType === 'group.user_membership.add'
+        ? 'added'
+        : event.eventType === 'group.user_membership.remove'
+          ? 'removed'
+          : null;
+    const targets = event.target ?? [];
+    if (
+      !change ||
+      !targets.some((t) => t.id === key.userId) ||
+      !targets.some((t) => t.id === key.groupId)
+    ) {
+      continue;
+    }
+    const at = new Date(event.published);
+    if (Number.isNaN(at.getTime())) continue;
+
+    const rule = targets.find((t) => /rule/i.test(t.type ?? ''));
+    const actor = event.actor;
+    const by: MembershipChangeActor = rule
+      ? { kind: 'rule', ruleName: rule.displayName || rule.id }
+      : actor?.type === 'User'
+        ? { kind: 'admin', login: actor.alternateId || actor.displayName || actor.id }
+        : { kind: 'okta' };
+
+    entries.push({
+      at,
+      change,
+      by,
+      madeHere: false,
+      inSystemLog: true,
+      unconfirmed: false,
+    });
+  }
+  return entries;
+}
+
+/**
+ * The timeline entries in the local action history.
+ *
+ * @param actions - The stored history (`getUndoHistory().actions`).
+ * @param key - The user and group.
+ * @returns Entries for single and bulk adds and removals of the user in the group.
+ */
+export function timelineFromUndoHistory(
+  actions: UndoAction[],
+  key: MembershipKey,
+): MembershipTimelineEntry[] {
+  const entries: MembershipTimelineEntry[] = [];
+  for (const action of actions) {
+    if (action.status === 'failed') continue;
+    const meta = action.metadata;
+    let change: 'added' | 'removed' | null = null;
+    if (meta.type === 'ADD_USER_TO_GROUP' || meta.type === 'REMOVE_USER_FROM_GROUP') {
+      if (meta.groupId === key.groupId && meta.userId === key.userId) {
+        change = meta.type === 'ADD_USER_TO_GROUP' ? 'added' : 'removed';
+      }
+    } else if (
+      meta.type === 'BULK_ADD_USERS_TO_GROUP' ||
+      meta.type === 'BULK_REMOVE_USERS_FROM_GROUP'
+    ) {
+      if (meta.groupId === key.groupId && meta.users.some((u) => u.userId === key.userId)) {
+        change = meta.type === 'BULK_ADD_USERS_TO_GROUP' ? 'added' : 'removed';
+      }
+    }
+    if (!change) continue;
+    entries.push({
+      at: new Date(action.timestamp),
+      change,
+      by: { kind: 'this-browser' },
+      madeHere: true,
+      inSystemLog: false,
+      unconfirmed: action.status === 'partial',
+    });
+  }
+  return entries;
+}
+
+/**
+ * Merge both sources into one newest-first timeline, joining a local entry to the
+ * System Log event for the same change.
+ *
+ * @param fromLog - Entries from {@link timelineFromLogEvents}.
+ * @param local - Entries from {@link timelineFromUndoHistory}.
+ * @returns The timeline, newest first.
+ */
+export function mergeMembershipTimeline(
+  fromLog: MembershipTimelineEntry[],
+  local: MembershipTimelineEntry[],
+): MembershipTimelineEntry[] {
+  const merged = fromLog.map((entry) => ({ ...entry }));
+  const claimed = new Set<number>();
+
+  for (const entry of local) {
+    let match = -1;
+    let bestGap = Infinity;
+    merged.forEach((candidate, index) => {
+      if (
+        claimed.has(index) ||
+        candidate.change !== entry.change ||
+        candidate.by.kind !== 'admin'
+      ) {
+        return;
+      }
+      const gap = Math.abs(candidate.at.getTime() - entry.at.getTime());
+      if (gap <= SAME_CHANGE_WINDOW_MS && gap < bestGap) {
+        match = index;
+        bestGap = gap;
+      }
+    });
+    if (match === -1) {
+      merged.push({ ...entry });
+    } else {
+      claimed.add(match);
+      // The System Log confirms it, so a partial write's doubt does not carry over.
+      merged[match].madeHere = true;
+    }
+  }
+
+  return merged.sort((a, b) => b.at.getTime() - a.at.getTime());
+}
+
+/**
+ * Who made a change, in words.
+ *
+ * @param by - The actor.
+ * @returns E.g. "admin@example.com" or "the rule Sales → CRM".
+ */
+export function describeChangeActor(by: MembershipChangeActor): string {
+  switch (by.kind) {
+    case 'admin':
+      return by.login;
+    case 'rule':
+      return `the rule ${by.ruleName}`;
+    case 'okta':
+      return 'Okta (a group rule, import or other system process)';
+    case 'this-browser':
+      return 'you, from this browser';
+  }
+}
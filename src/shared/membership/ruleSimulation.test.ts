@@ -0,0 +1,142 @@
+/**
+ * @module shared/membership/ruleSimulation.test
+ * @description Unit tests for the pure org-wide rule what-if engine.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  changeBetween,
+  simulateRuleExpression,
+  selectRuleSimulationCohort,
+  simulateUser,
+  summarizeRuleSimulation,
+} from './ruleSimulation';
+import type { OktaUser } from '../types';
+
+/** Build a minimal user with a department. */
+function user(id: string, department?: string): OktaUser {
+  return {
+    id,
+    status: 'ACTIVE',
+    profile: {
+      login: `${id}@x.io`,
+      email: `${id}@x.io`,
+      firstName: id,
+      lastName: 'U',
+      ...(department ? { department } : {}),
+    },
+  };
+}
+
+const SALES = 'user.department=="Sales"';
+const ENG = 'user.department=="Eng"';
+
+describe('changeBetween', () => {
+  it('classifies decided transitions', () => {
+    expect(changeBetween('no-match', 'match')).toBe('starts');
+    expect(changeBetween('match', 'no-match')).toBe('stops');
+    expect(changeBetween('match', 'match')).toBe('unchanged');
+  });
+
+  it('never calls an unevaluable side unchanged', () => {
+    expect(changeBetween('unevaluable', 'unevaluable')).toBe('unknown');
+    expect(changeBetween('match', 'unevaluable')).toBe('unknown');
+  });
+});
+
+describe('simulateUser', () => {
+  it('carries the reason when the condition cannot be evaluated', () => {
+    const row = simulateUser('isMemberOfAnyGroup("00gFAKE")', user('u1'));
+    expect(row).toMatchObject({ outcome: 'unevaluable', reasonCode: 'group-membership-fn' });
+    expect(row.change).toBeUndefined();
+  });
+
+  it('treats an excluded user as no-match on both sides', () => {
+    const row = simulateUser(SALES, user('u1', 'Sales'), {
+      baseline: SALES,
+      excludedUserIds: ['u1'],
+    });
+    expect(row).toMatchObject({
+      outcome: 'no-match',
+      excluded: true,
+      baselineOutcome: 'no-match',
+      change: 'unchanged',
+    });
+  });
+});
+
+describe('simulateUser with excluded groups', () => {
+  const excludedGroupIds = ['00gFAKEX'];
+
+  it('treats a user in an excluded group as excluded', () => {
+    const row = simulateUser(SALES, user('u1', 'Sales'), {
+      excludedGroupIds,
+      groupIdsByUser: new Map([['u1', ['00gFAKEA', '00gFAKEX']]]),
+    });
+    expect(row).toMatchObject({ outcome: 'no-match', excluded: true });
+  });
+
+  it('evaluates a user whose groups were read and are not excluded', () => {
+    const row = simulateUser(SALES, user('u1', 'Sales'), {
+      excludedGroupIds,
+      groupIdsByUser: new Map([['u1', ['00gFAKEA']]]),
+    });
+    expect(row.outcome).toBe('match');
+    expect(row.excluded).toBeUndefined();
+  });
+
+  it('cannot call a match when the excluded groups were not read for the user', () => {
+    const matched = simulateUser(SALES, user('u1', 'Sales'), { excludedGroupIds });
+    expect(matched).toMatchObject({ outcome: 'unevaluable', reasonCode: 'group-membership-fn' });
+
+    const missed = simulateUser(SALES, user('u2', 'Eng'), { excludedGroupIds });
+    expect(missed.outcome).toBe('no-match');
+  });
+});
+
+describe('simulateRuleExpression + summarizeRuleSimulation', () => {
+  it('sorts users into three cohorts and counts who starts or stops matching', () => {
+    const users = [user('u1', 'Sales'), user('u2', 'Eng'), user('u3', 'Ops')];
+    const rows = simulateRuleExpression(SALES, users, { baseline: ENG });
+
+    expect(rows.map((r) => r.user.id)).toEqual(['u1', 'u2', 'u3']);
+    expect(rows.map((r) => r.change)).toEqual(['starts', 'stops', 'unchanged']);
+    expect(summarizeRuleSimulation(rows)).toMatchObject({
+      total: 3,
+      matched: 1,
+      noMatch: 2,
+      unevaluable: 0,
+      starts: 1,
+      stops: 1,
+      unknownChange: 0,
+    });
+  });
+
+  it('tallies unevaluable reasons, most frequent first', () => {
+    const rows = [
+      ...simulateRuleExpression('isMemberOfAnyGroup("00gFAKE")', [user('u1'), user('u2')]),
+      ...simulateRuleExpression('user.department ==', [user('u3')]),
+    ];
+    const summary = summarizeRuleSimulation(rows);
+    expect(summary.unevaluable).toBe(3);
+    expect(summary.unevaluableReasons[0]).toEqual({
+      reasonCode: 'group-membership-fn',
+      count: 2,
+    });
+  });
+});
+
+describe('selectRuleSimulationCohort', () => {
+  const rows = simulateRuleExpression(SALES, [user('u1', 'Sales'), user('u2', 'Eng')], {
+    baseline: ENG,
+  });
+
+  it('selects an outcome cohort', () => {
+    expect(selectRuleSimulationCohort(rows, 'match').map((r) => r.user.id)).toEqual(['u1']);
+    expect(selectRuleSimulationCohort(rows, 'unevaluable')).toEqual([]);
+  });
+
+  it('selects one side of the transition', () => {
+    expect(selectRuleSimulationCohort(rows, 'stops').map((r) => r.user.id)).toEqual(['u2']);
+  });
+});
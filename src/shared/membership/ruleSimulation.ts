@@ -0,0 +1,233 @@
+/**
+ * @module shared/membership/ruleSimulation
+ * @description Pure engine for an org-wide "what-if" of a rule condition.
+ *
+ * The counterpart to {@link module:shared/membership/ruleImpact}: that module
+ * answers *who loses access if this rule is deactivated*; this one answers
+ * *who would this condition match* — and, given the condition it replaces, *who
+ * would start or stop matching*. It is I/O-free: callers page the org's users
+ * (`useOktaApi/ruleAuthoring.simulateRuleAcrossOrg`) and feed them here.
+ *
+ * ## Three cohorts, never two
+ *
+ * Every user lands in exactly one of `match`, `no-match` or `unevaluable`, from
+ * the same three-valued evaluator the rest of the app uses
+ * ({@link tryEvaluateRuleExpressionDetailed}, which returns exactly
+ * `tryEvaluateRuleExpression`'s outcome plus the reason). A user the evaluator
+ * could not decide for is never counted as a miss — the population a change
+ * board is shown must not quietly shrink by the users we failed to understand.
+ * The same holds for transitions: if either side of a comparison is
+ * `unevaluable`, the change is `unknown`, not `unchanged`.
+ *
+ * No group lists are fetched for the sweep (one request per user would turn a
+ * paged read into an org crawl), so `isMemberOf*` conditions land in
+ * `unevaluable` with the `group-membership-fn` reason. So does a user the
+ * condition matches when the rule excludes groups and that user's groups were
+ * not read: Okta may skip them, and we cannot tell.
+ *
+ * Profile values and the expression are tenant data: nothing here logs.
+ */
+
+import type { OktaUser } from '../types';
+import {
+  tryEvaluateRuleExpressionDetailed,
+  type RuleMatchOutcome,
+  type RuleUnevaluableReason,
+} from '../ruleEvaluator';
+
+/**
+ * How one user's outcome moves from the baseline condition to the proposed one.
+ *
+ * - `starts` — baseline no-match, proposed match.
+ * - `stops` — baseline match, proposed no-match.
+ * - `unchanged` — both sides decided, and agree.
+ * - `unknown` — either side is `unevaluable`.
+ */
+export type RuleSimulationChange = 'starts' | 'stops' | 'unchanged' | 'unknown';
+
+/** One user's simulated outcome. */
+export interface SimulatedUser {
+  user: OktaUser;
+  /** The proposed condition's outcome for this user. */
+  outcome: RuleMatchOutcome;
+  /** Why the proposed condition was undecidable. Present iff `outcome` is `unevaluable`. */
+  reasonCode?: RuleUnevaluableReason;
+  /**
+   * The user is on the rule's explicit exclude list, or in one of its excluded
+   * groups. Okta never places them, so their outcome is `no-match` whatever the
+   * condition says.
+   */
+  excluded?: boolean;
+  /** The baseline condition's outcome. Present only when a baseline was given. */
+  baselineOutcome?: RuleMatchOutcome;
+  /** The transition from baseline to proposed. Present only when a baseline was given. */
+  change?: RuleSimulationChange;
+}
+
+/**
+ * A slice of a simulation an admin can act on or export: one of the three
+ * outcome cohorts, or one side of the baseline transition.
+ */
+export type RuleSimulationCohort = 'match' | 'no-match' | 'unevaluable' | 'starts' | 'stops';
+
+/** Options for {@link simulateRuleExpression}. */
+export interface RuleSimulationOptions {
+  /** The condition being replaced, to compute who starts or stops matching. */
+  baseline?: string;
+  /** User ids on the rule's `people.users.exclude` list. */
+  excludedUserIds?: readonly string[];
+  /** Group ids on the rule's `people.groups.exclude` list. */
+  excludedGroupIds?: readonly string[];
+  /**
+   * Each user's group ids, where they were read. A user absent from the map has
+   * unread groups, so a match for them is `unevaluable` while groups are excluded.
+   */
+  groupIdsByUser?: ReadonlyMap<string, readonly string[]>;
+}
+
+/** Per-cohort and per-transition counts over a simulation. */
+export interface RuleSimulationSummary {
+  total: number;
+  matched: number;
+  noMatch: number;
+  unevaluable: number;
+  /** Transition counts; all zero when no baseline was given. */
+  starts: number;
+  stops: number;
+  unknownChange: number;
+  /** The most common unevaluable reasons, most frequent first. */
+  unevaluableReasons: Array<{ reasonCode: RuleUnevaluableReason; count: number }>;
+}
+
+/**
+ * Evaluate one user against the proposed (and optional baseline) condition.
+ *
+ * @param proposed - The proposed condition (untrusted; never logged).
+ * @param user - The user to evaluate.
+ * @param options - Baseline and exclusions.
+ * @returns The user's simulated outcome.
+ */
+export function simulateUser(
+  proposed: string,
+  user: OktaUser,
+  options: RuleSimulationOptions = {},
+): SimulatedUser {
+  const excludedGroupIds = options.excludedGroupIds ?? [];
+  const groupIds = options.groupIdsByUser?.get(user.id);
+  const excluded =
+    (options.excludedUserIds?.includes(user.id) ?? false) ||
+    (groupIds?.some((id) => excludedGroupIds.includes(id)) ?? false);
+  // Only a match hangs on the excluded groups: a user the condition misses is
+  // not placed either way.
+  const exclusionUnknown = !excluded && excludedGroupIds.length > 0 && groupIds === undefined;
+  const evaluate = (expression: string) => {
+    if (excluded) return { outcome: 'no-match' } as const;
+    const result = tryEvaluateRuleExpressionDetailed(expression, user);
+    return exclusionUnknown && result.outcome === 'match'
+      ? ({ outcome: 'unevaluable', reasonCode: 'group-membership-fn' } as const)
+      : result;
+  };
+
+  const proposedResult = evaluate(proposed);
+  const simulated: SimulatedUser = {
+    user,
+    outcome: proposedResult.outcome,
+    ...(proposedResult.outcome === 'unevaluable' ? { reasonCode: proposedResult.reasonCode } : {}),
+    ...(excluded ? { excluded } : {}),
+  };
+  if (options.baseline === undefined) return simulated;
+
+  const baselineOutcome = evaluate(options.baseline).outcome;
+  return {
+    ...simulated,
+    baselineOutcome,
+    change: changeBetween(baselineOutcome, proposedResult.outcome),
+  };
+}
+
+/**
+ * Classify the move between two outcomes.
+ *
+ * @param before - The baseline outcome.
+ * @param after - The proposed outcome.
+ * @returns The {@link RuleSimulationChange}.
+ */
+export function changeBetween(
+  before: RuleMatchOutcome,
+  after: RuleMatchOutcome,
+): RuleSimulationChange {
+  if (before === 'unevaluable' || after === 'unevaluable') return 'unknown';
+  if (before === after) return 'unchanged';
+  return after === 'match' ? 'starts' : 'stops';
+}
+
+/**
+ * Evaluate a condition across a population.
+ *
+ * @param proposed - The proposed condition (untrusted; never logged).
+ * @param users - Every user to evaluate.
+ * @param options - Baseline and exclusions.
+ * @returns One {@link SimulatedUser} per input user, in input order.
+ */
+export function simulateRuleExpression(
+  proposed: string,
+  users: readonly OktaUser[],
+  options: RuleSimulationOptions = {},
+): SimulatedUser[] {
+  return users.map((user) => simulateUser(proposed, user, options));
+}
+
+/**
+ * Count a simulation's cohorts, transitions and unevaluable reasons.
+ *
+ * @param simulated - The rows from {@link simulateRuleExpression}.
+ * @returns The {@link RuleSimulationSummary}.
+ */
+export function summarizeRuleSimulation(
+  simulated: readonly SimulatedUser[],
+): RuleSimulationSummary {
+  const summary: RuleSimulationSummary = {
+    total: simulated.length,
+    matched: 0,
+    noMatch: 0,
+    unevaluable: 0,
+    starts: 0,
+    stops: 0,
+    unknownChange: 0,
+    unevaluableReasons: [],
+  };
+  const reasons = new Map<RuleUnevaluableReason, number>();
+
+  for (const row of simulated) {
+    if (row.outcome === 'match') summary.matched++;
+    else if (row.outcome === 'no-match') summary.noMatch++;
+    else {
+      summary.unevaluable++;
+      if (row.reasonCode) reasons.set(row.reasonCode, (reasons.get(row.reasonCode) ?? 0) + 1);
+    }
+    if (row.change === 'starts') summary.starts++;
+    else if (row.change === 'stops') summary.stops++;
+    else if (row.change === 'unknown') summary.unknownChange++;
+  }
+
+  summary.unevaluableReasons = [...reasons]
+    .map(([reasonCode, count]) => ({ reasonCode, count }))
+    .sort((a, b) => b.count - a.count);
+  return summary;
+}
+
+/**
+ * Select one cohort's rows.
+ *
+ * @param simulated - The rows from {@link simulateRuleExpression}.
+ * @param cohort - The outcome cohort, or `starts`/`stops` for the transition.
+ * @returns The matching rows, in input order.
+ */
+export function selectRuleSimulationCohort(
+  simulated: readonly SimulatedUser[],
+  cohort: RuleSimulationCohort,
+): SimulatedUser[] {
+  return simulated.filter((row) =>
+    cohort === 'starts' || cohort === 'stops' ? row.change === cohort : row.outcome === cohort,
+  );
+}
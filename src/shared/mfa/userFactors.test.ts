@@ -0,0 +1,103 @@
+/**
+ * Tests for the factor helpers: how each factor type is verified, what a factor
+ * is bound to, and how a verify or poll response reads.
+ *
+ * Fixtures use only fake placeholders (`opfFAKE…`, `mblFAKE…`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  factorDetail,
+  factorVerifyMethod,
+  toFactorVerification,
+  toUserFactor,
+} from './userFactors';
+
+describe('factorVerifyMethod', () => {
+  it('maps push, sent codes and device codes', () => {
+    expect(factorVerifyMethod('push')).toBe('push');
+    expect(factorVerifyMethod('sms')).toBe('challenge');
+    expect(factorVerifyMethod('EMAIL')).toBe('challenge');
+    expect(factorVerifyMethod('token:software:totp')).toBe('code');
+    expect(factorVerifyMethod('token:hardware')).toBe('code');
+  });
+
+  it('offers nothing for factors an admin cannot challenge', () => {
+    expect(factorVerifyMethod('webauthn')).toBeNull();
+    expect(factorVerifyMethod('question')).toBeNull();
+    expect(factorVerifyMethod('signed_nonce')).toBeNull();
+  });
+});
+
+describe('toUserFactor', () => {
+  it('shapes a factor with its label and what it is bound to', () => {
+    expect(
+      toUserFactor({
+        id: 'opfFAKE1',
+        factorType: 'push',
+        provider: 'OKTA',
+        status: 'ACTIVE',
+        profile: { name: 'Pixel 8', platform: 'ANDROID' },
+      }),
+    ).toEqual({
+      id: 'opfFAKE1',
+      factorType: 'push',
+      provider: 'OKTA',
+      status: 'ACTIVE',
+      label: expect.any(String),
+      detail: 'Pixel 8 (ANDROID)',
+      verifyMethod: 'push',
+    });
+  });
+
+  it('offers no verification for a factor that is not active', () => {
+    const factor = toUserFactor({
+      id: 'mblFAKE2',
+      factorType: 'sms',
+      status: 'PENDING_ACTIVATION',
+      profile: { phoneNumber: '+1 XXX-XXX-0100' },
+    });
+    expect(factor.verifyMethod).toBeNull();
+    expect(factor.detail).toBe('+1 XXX-XXX-0100');
+  });
+
+  it('reads a missing status or profile as unknown', () => {
+    const factor = toUserFactor({ id: 'ostFAKE3', factorType: 'token:software:totp' });
+    expect(factor).toMatchObject({ status: 'UNKNOWN', detail: null, verifyMethod: null });
+    expect(factorDetail({ id: 'x', factorType: 'email', profile: { email: '  ' } })).toBeNull();
+  });
+});
+
+describe('toFactorVerification', () => {
+  it('reads success, challenge and a push to poll', () => {
+    expect(toFactorVerification({ factorResult: 'SUCCESS' })).toEqual({ state: 'verified' });
+    expect(toFactorVerification({ factorResult: 'CHALLENGE' })).toEqual({ state: 'challenge' });
+    expect(
+      toFactorVerification({
+        factorResult: 'WAITING',
+        _links: {
+          poll: {
+            href: 'https://example.okta.com/api/v1/users/00uFAKE1/factors/opfFAKE1/transactions/v2mFAKE?x=1',
+          },
+        },
+      }),
+    ).toEqual({
+      state: 'waiting',
+      pollPath: '/api/v1/users/00uFAKE1/factors/opfFAKE1/transactions/v2mFAKE?x=1',
+    });
+  });
+
+  it('fails a push with nothing to wait on', () => {
+    expect(toFactorVerification({ factorResult: 'WAITING' })).toMatchObject({ state: 'failed' });
+  });
+
+  it('explains a refusal, and names an unknown result', () => {
+    expect(toFactorVerification({ factorResult: 'REJECTED' })).toEqual({
+      state: 'failed',
+      error: 'The user rejected the push.',
+    });
+    expect(toFactorVerification({ factorResult: 'ODD' })).toEqual({
+      state: 'failed',
+      error: 'Okta answered ODD.',
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * @module shared/mfa/userFactors
+ * @description One user's enrolled factors as the Factors pane shows them, and
+ * how each is verified. All pure; the reads and writes live in
+ * `sidepanel/hooks/useOktaApi/userFactors`.
+ *
+ * ## Verification
+ *
+ * A helpdesk agent verifies a caller by making one of their factors answer.
+ * How depends on the factor ({@link factorVerifyMethod}):
+ *
+ * - **push** — Okta sends a push to Okta Verify; the verify call answers
+ *   `WAITING` with a transaction to poll until the user approves, rejects, or it
+ *   times out.
+ * - **challenge** — SMS, voice call and email: the first verify call sends a
+ *   code, which the caller reads back.
+ * - **code** — TOTP and hardware tokens: there is nothing to send; the caller
+ *   reads the current code off their device.
+ *
+ * Security keys, Fastpass and security questions cannot be verified on someone
+ * else's behalf, so they offer no verification.
+ *
+ * Phone numbers, emails and device names are tenant data; nothing here logs them.
+ */
+
+import { factorLabel } from '../utils/mfaUtils';
+import type { OktaFactorVerification, OktaUserFactor } from '../schemas/okta';
+
+/** How a factor is verified, or `null` when the panel cannot verify it. */
+export type FactorVerifyMethod = 'push' | 'challenge' | 'code';
+
+/** One enrolled factor, shaped for the Factors pane. */
+export interface UserFactor {
+  id: string;
+  factorType: string;
+  provider: string;
+  /** `ACTIVE`, `PENDING_ACTIVATION`, … — `UNKNOWN` when Okta omitted it. */
+  status: string;
+  /** Friendly name, e.g. "Okta Verify Push". */
+  label: string;
+  /** What the factor is bound to — a phone number, email or device — when Okta says. */
+  detail: string | null;
+  /** How it is verified; `null` for a factor the panel cannot verify, or one not active. */
+  verifyMethod: FactorVerifyMethod | null;
+}
+
+/**
+ * Where one verification stands.
+ *
+ * - `waiting` — a push is out; poll `pollPath`.
+ * - `challenge` — a code is expected (sent, for SMS, call and email).
+ * - `verified` — the factor answered.
+ * - `failed` — it did not; `error` says why, in the agent's words.
+ */
+export type FactorVerification =
+  | { state: 'waiting'; pollPath: string }
+  | { state: 'challenge' }
+  | { state: 'verified' }
+  | { state: 'failed'; error: string };
+
+/** How often a pending push is polled. */
+export const FACTOR_POLL_INTERVAL_MS = 2_000;
+
+/**
+ * How long a push is polled before the panel gives up. Okta times a push out on
+ * its own after about five minutes; this only bounds a transaction that never
+ * reports it.
+ */
+export const FACTOR_POLL_LIMIT_MS = 6 * 60_000;
+
+const PUSH_TYPES: ReadonlySet<string> = new Set(['push']);
+const CHALLENGE_TYPES: ReadonlySet<string> = new Set(['sms', 'call', 'email']);
+const CODE_TYPES: ReadonlySet<string> = new Set([
+  'token:software:totp',
+  'token:hotp',
+  'token:hardware',
+  'token',
+]);
+
+/**
+ * How a factor type is verified.
+ *
+ * @param factorType - The Okta factor type.
+ * @returns The method, or `null` for a type that cannot be verified by an admin.
+ */
+export function factorVerifyMethod(factorType: string): FactorVerifyMethod | null {
+  const type = factorType.toLowerCase();
+  if (PUSH_TYPES.has(type)) return 'push';
+  if (CHALLENGE_TYPES.has(type)) return 'challenge';
+  if (CODE_TYPES.has(type)) return 'code';
+  return null;
+}
+
+/** A non-empty string field of a factor's profile. */
+function profileText(profile: Record<string, unknown> | null | undefined, key: string) {
+  const value = profile?.[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * What a factor is bound to, as the agent would read it back to the caller.
+ *
+ * @param factor - The factor as Okta lists it.
+ * @returns A phone number, email, device or key name, or `null` when Okta gave none.
+ */
+export function factorDetail(factor: OktaUserFactor): string | null {
+  const { profile } = factor;
+  switch (factor.factorType.toLowerCase()) {
+    case 'sms':
+    case 'call':
+      return profileText(profile, 'phoneNumber');
+    case 'email':
+      return profileText(profile, 'email');
+    case 'push':
+    case 'signed_nonce': {
+      const name = profileText(profile, 'name');
+      const platform = profileText(profile, 'platform');
+      return name && platform ? `${name} (${platform})` : (name ?? platform);
+    }
+    case 'webauthn':
+    case 'u2f':
+      return profileText(profile, 'authenticatorName');
+    case 'question':
+      return profileText(profile, 'questionText');
+    default:
+      return profileText(profile, 'credentialId');
+  }
+}
+
+/**
+ * Shape one listed factor for the pane.
+ *
+ * @param factor - The factor as Okta lists it.
+ * @returns The {@link UserFactor}; only an `ACTIVE` factor carries a `verifyMethod`.
+ */
+export function toUserFactor(factor: OktaUserFactor): UserFactor {
+  const status = factor.status ?? 'UNKNOWN';
+  return {
+    id: factor.id,
+    factorType: factor.factorType,
+    provider: factor.provider ?? '',
+    status,
+    label: factorLabel(factor.factorType, factor.provider),
+    detail: factorDetail(factor),
+    verifyMethod: status === 'ACTIVE' ? factorVerifyMethod(factor.factorType) : null,
+  };
+}
+
+/** Why a settled verification failed, by Okta's `factorResult`. */
+const FAILED_RESULT: Record<string, string> = {
+  REJECTED: 'The user rejected the push.',
+  TIMEOUT: 'The push expired before the user answered.',
+  TIME_WINDOW_EXCEEDED: 'The code expired. Ask for a new one.',
+  PASSCODE_REPLAYED: 'That code was already used. Ask for the next one.',
+  CANCELLED: 'The verification was cancelled.',
+};
+
+/** The origin-relative path of a poll link. */
+function pollPath(href: string): string {
+  const url = new URL(href, 'https://okta.invalid');
+  return `${url.pathname}${url.search}`;
+}
+
+/**
+ * Read a verify or poll response.
+ *
+ * @param body - The validated response.
+ * @returns Where the verification stands. A `WAITING` without a poll link is
+ *   reported as failed: there is nothing to wait on.
+ */
+export function toFactorVerification(body: OktaFactorVerification): FactorVerification {
+  switch (body.factorResult) {
+    case 'SUCCESS':
+      return { state: 'verified' };
+    case 'WAITING': {
+      const href = body._links?.poll?.href;
+      return href
+        ? { state: 'waiting', pollPath: pollPath(href) }
+        : { state: 'failed', error: 'Okta did not return the push to wait on.' };
+    }
+    case 'CHALLENGE':
+      return { state: 'challenge' };
+    default:
+      return {
+        state: 'failed',
+        error: FAILED_RESULT[body.factorResult] ?? `Okta answered ${body.factorResult}.`,
+      };
+  }
+}
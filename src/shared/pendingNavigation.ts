@@ -0,0 +1,49 @@
+/**
+ * @module shared/pendingNavigation
+ * @description A side-panel jump requested from outside the panel — today, the
+ * omnibox keyword (`src/background/omnibox.ts`).
+ *
+ * The service worker cannot reach the panel's React state, so it leaves the
+ * request in `chrome.storage.local` and opens the panel; the panel consumes it
+ * once through the same navigation handlers `EntityLink` uses
+ * (`usePendingNavigation`). A request is honoured only while fresh: if the panel
+ * failed to open, a leftover key must not yank the admin somewhere the next time
+ * they open it.
+ */
+
+/** Storage key the request is written under in `chrome.storage.local`. */
+export const PENDING_NAVIGATION_KEY = 'okta_unbound_pending_navigation';
+
+/** How long a request stays valid after it is written. */
+export const PENDING_NAVIGATION_TTL_MS = 60_000;
+
+/** The entity kinds the side panel can open by id. */
+export type PendingNavigationType = 'group' | 'user';
+
+/** One requested jump. */
+export interface PendingNavigation {
+  type: PendingNavigationType;
+  id: string;
+  /** When it was written (epoch ms). */
+  requestedAt: number;
+}
+
+/**
+ * Whether a stored value is a request the panel should still act on.
+ *
+ * @param value - Whatever was read from storage.
+ * @param now - The current time (epoch ms).
+ * @returns `true` for a well-formed request younger than {@link PENDING_NAVIGATION_TTL_MS}.
+ */
+export function isFreshPendingNavigation(value: unknown, now: number): value is PendingNavigation {
+  if (typeof value !== 'object' || value === null) return false;
+  const request = value as Partial<PendingNavigation>;
+  return (
+    (request.type === 'group' || request.type === 'user') &&
+    typeof request.id === 'string' &&
+    request.id.length > 0 &&
+    typeof request.requestedAt === 'number' &&
+    now - request.requestedAt >= 0 &&
+    now - request.requestedAt <= PENDING_NAVIGATION_TTL_MS
+  );
+}
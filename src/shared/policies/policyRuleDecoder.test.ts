@@ -0,0 +1,203 @@
+/**
+ * Tests for the policy rule decoder.
+ *
+ * Pins the per-type outcome decoding, that `ANY`/`ANYWHERE` read as "no
+ * constraint", that a malformed subtree is reported as unreadable without losing
+ * the rest of the rule, and the wording the rules list shows.
+ *
+ * Fixtures use only fake placeholders (`rulFAKE…`, `00gFAKE…`, `nzoFAKE…`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  ALL_ZONES,
+  decodePolicyGroups,
+  decodePolicyRule,
+  describeConditions,
+  describeOutcome,
+  formatIsoDuration,
+  promptsForMfa,
+} from './policyRuleDecoder';
+
+const rule = (conditions: unknown, actions: unknown) => ({ id: 'rulFAKE1', conditions, actions });
+
+describe('decodePolicyRule', () => {
+  it('decodes an access rule: people, zones, device, platform and the factor constraints', () => {
+    const decoded = decodePolicyRule(
+      rule(
+        {
+          people: { groups: { include: ['00gFAKE1'], exclude: ['00gFAKE2'] } },
+          network: { connection: 'ZONE', exclude: ['nzoFAKE1'] },
+          device: { managed: true, registered: true },
+          platform: { include: [{ type: 'MOBILE', os: { type: 'IOS' } }] },
+          riskScore: { level: 'ANY' },
+        },
+        {
+          appSignOn: {
+            access: 'ALLOW',
+            verificationMethod: {
+              factorMode: '2FA',
+              reauthenticateIn: 'PT2H',
+              constraints: [
+                {
+                  knowledge: { types: ['password'] },
+                  possession: { phishingResistant: 'REQUIRED' },
+                },
+              ],
+            },
+          },
+        },
+      ),
+      'ACCESS_POLICY',
+    );
+
+    expect(decoded.unreadable).toEqual([]);
+    expect(decoded.conditions.groups).toEqual({ include: ['00gFAKE1'], exclude: ['00gFAKE2'] });
+    expect(decoded.conditions.users).toBeNull();
+    expect(decoded.conditions.network).toEqual({
+      connection: 'ZONE',
+      include: [],
+      exclude: ['nzoFAKE1'],
+    });
+    expect(decoded.conditions.device).toEqual({ registered: true, managed: true, assurances: [] });
+    expect(decoded.conditions.platforms?.include).toEqual([{ type: 'MOBILE', os: 'IOS' }]);
+    expect(decoded.conditions.riskLevel).toBeNull();
+    expect(decoded.outcome).toEqual({
+      kind: 'appSignOn',
+      access: 'ALLOW',
+      factorMode: '2FA',
+      reauthenticateIn: 'PT2H',
+      constraints: [
+        {
+          knowledge: ['password'],
+          possession: [],
+          phishingResistant: true,
+          hardwareProtection: false,
+        },
+      ],
+    });
+    expect(promptsForMfa(decoded.outcome)).toBe(true);
+  });
+
+  it('decodes a global session rule, whose MFA is requireFactor', () => {
+    const decoded = decodePolicyRule(
+      rule(
+        { network: { connection: 'ANYWHERE' }, authContext: { authType: 'ANY' } },
+        {
+          signon: {
+            access: 'ALLOW',
+            requireFactor: true,
+            factorPromptMode: 'ALWAYS',
+            session: { maxSessionIdleMinutes: 120 },
+          },
+        },
+      ),
+      'OKTA_SIGN_ON',
+    );
+
+    expect(decoded.conditions.network).toBeNull();
+    expect(decoded.conditions.authType).toBeNull();
+    expect(decoded.outcome).toMatchObject({ kind: 'signon', requireFactor: true });
+    expect(promptsForMfa(decoded.outcome)).toBe(true);
+    expect(decoded.outcome && describeOutcome(decoded.outcome)).toEqual([
+      'Sign-in allowed',
+      'MFA required every sign-in',
+      'Session idle timeout: 120 minutes',
+    ]);
+  });
+
+  it('decodes enrollment and password rules', () => {
+    expect(decodePolicyRule(rule({}, { enroll: { self: 'LOGIN' } }), 'MFA_ENROLL').outcome).toEqual(
+      {
+        kind: 'enroll',
+        self: 'LOGIN',
+      },
+    );
+    const password = decodePolicyRule(
+      rule({}, { passwordChange: { access: 'ALLOW' }, selfServiceUnlock: { access: 'DENY' } }),
+      'PASSWORD',
+    );
+    expect(password.outcome && describeOutcome(password.outcome)).toEqual([
+      'Password change allowed',
+      'Self-service reset not set',
+      'Self-service unlock denied',
+    ]);
+    expect(promptsForMfa(password.outcome)).toBeNull();
+  });
+
+  it('reports a malformed subtree as unreadable and keeps the rest', () => {
+    const decoded = decodePolicyRule(
+      rule(
+        {
+          people: { groups: { include: 'everyone' } },
+          network: { connection: 'ZONE', include: [ALL_ZONES] },
+        },
+        { appSignOn: { access: 'DENY' } },
+      ),
+      'ACCESS_POLICY',
+    );
+
+    expect(decoded.unreadable).toEqual(['conditions.people']);
+    expect(decoded.conditions.groups).toBeNull();
+    expect(decoded.conditions.network?.include).toEqual([ALL_ZONES]);
+    expect(decoded.outcome).toMatchObject({ kind: 'appSignOn', access: 'DENY' });
+  });
+
+  it('leaves the outcome unread for a policy type it does not know', () => {
+    expect(decodePolicyRule(rule({}, { anything: {} }), 'PROFILE_ENROLLMENT').outcome).toBeNull();
+  });
+});
+
+describe('decodePolicyGroups', () => {
+  it('reads the groups a policy is assigned to, and flags a malformed assignment', () => {
+    expect(
+      decodePolicyGroups({ conditions: { people: { groups: { include: ['00gFAKE1'] } } } }),
+    ).toEqual({
+      include: ['00gFAKE1'],
+      exclude: [],
+    });
+    expect(decodePolicyGroups({})).toBeNull();
+    expect(decodePolicyGroups({ conditions: { people: 'all' } })).toBe('unreadable');
+  });
+});
+
+describe('describeConditions', () => {
+  it('counts what Okta names only by id, and words the zones', () => {
+    const { conditions } = decodePolicyRule(
+      rule(
+        {
+          people: {
+            users: { exclude: ['00uFAKE1'] },
+            groups: { include: ['00gFAKE1', '00gFAKE2'] },
+          },
+          network: { connection: 'ZONE', include: [ALL_ZONES] },
+          riskScore: { level: 'HIGH' },
+          elCondition: { condition: 'user.profile.department == "IT"' },
+        },
+        undefined,
+      ),
+      'ACCESS_POLICY',
+    );
+
+    expect(describeConditions(conditions)).toEqual([
+      'People: excludes 1 user, 2 groups',
+      'Network: in any zone',
+      'Risk: high',
+      'Expression: user.profile.department == "IT"',
+    ]);
+  });
+
+  it('is empty for a rule that applies to everyone, everywhere', () => {
+    expect(
+      describeConditions(decodePolicyRule(rule(undefined, undefined), 'ACCESS_POLICY').conditions),
+    ).toEqual([]);
+  });
+});
+
+describe('formatIsoDuration', () => {
+  it('words simple durations and keeps anything else verbatim', () => {
+    expect(formatIsoDuration('PT2H')).toBe('2 hours');
+    expect(formatIsoDuration('P1DT30M')).toBe('1 day 30 minutes');
+    expect(formatIsoDuration('PT0S')).toBe('every sign-in');
+    expect(formatIsoDuration('P1W')).toBe('P1W');
+  });
+});
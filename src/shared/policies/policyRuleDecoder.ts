@@ -0,0 +1,661 @@
+/**
+ * @module shared/policies/policyRuleDecoder
+ * @description Reads a policy rule's `conditions` and `actions` — who the rule
+ * applies to and what it does — for the four policy types the panel lists.
+ *
+ * {@link oktaPolicyRuleSchema} types both trees as `unknown`, because their
+ * shapes differ per policy type and Okta keeps adding to them. This module is
+ * the one place that narrows them. Each subtree is validated on its own with a
+ * lenient schema:
+ *
+ * - An absent subtree means the rule does not constrain it (`null`).
+ * - A subtree that is present but does not parse is named in `unreadable`, and
+ *   the rest of the rule is still decoded. A reader — the simulator above all —
+ *   must treat an unreadable condition as "cannot tell", never as "no condition".
+ *
+ * Okta names nothing inside a rule: groups, users, zones and user types are ids.
+ * The `describe…` helpers therefore count them; a caller holding names (the
+ * simulator knows the user's groups and the org's zones) says more.
+ *
+ * Rule contents are tenant configuration; nothing here logs them.
+ */
+
+import { z } from 'zod';
+import type { OktaPolicyRule } from '../schemas/okta';
+
+/** The zone id Okta uses in a network condition for "any defined zone". */
+export const ALL_ZONES = 'ALL_ZONES';
+
+const idList = z.array(z.string()).optional();
+
+const includeExcludeSchema = z.object({ include: idList, exclude: idList }).passthrough();
+
+const peopleSchema = z
+  .object({
+    users: includeExcludeSchema.optional(),
+    groups: includeExcludeSchema.optional(),
+  })
+  .passthrough();
+
+const networkSchema = z
+  .object({
+    connection: z.string().optional(),
+    include: idList,
+    exclude: idList,
+  })
+  .passthrough();
+
+const deviceSchema = z
+  .object({
+    registered: z.boolean().optional(),
+    managed: z.boolean().optional(),
+    assurance: z.object({ include: idList }).passthrough().optional(),
+  })
+  .passthrough();
+
+const platformEntrySchema = z
+  .object({
+    type: z.string().optional(),
+    os: z.object({ type: z.string().optional() }).passthrough().optional(),
+  })
+  .passthrough();
+
+const platformSchema = z
+  .object({
+    include: z.array(platformEntrySchema).optional(),
+    exclude: z.array(platformEntrySchema).optional(),
+  })
+  .passthrough();
+
+const riskScoreSchema = z.object({ level: z.string().optional() }).passthrough();
+const riskSchema = z.object({ behaviors: idList }).passthrough();
+const expressionSchema = z.object({ condition: z.string().optional() }).passthrough();
+const authContextSchema = z.object({ authType: z.string().optional() }).passthrough();
+const identityProviderSchema = z.object({ provider: z.string().optional() }).passthrough();
+
+const constraintSchema = z
+  .object({
+    knowledge: z.object({ types: idList }).passthrough().optional(),
+    possession: z
+      .object({
+        types: idList,
+        phishingResistant: z.string().optional(),
+        hardwareProtection: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+const appSignOnSchema = z
+  .object({
+    access: z.string().optional(),
+    verificationMethod: z
+      .object({
+        type: z.string().optional(),
+        factorMode: z.string().optional(),
+        reauthenticateIn: z.string().optional(),
+        constraints: z.array(constraintSchema).optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+const signonSchema = z
+  .object({
+    access: z.string().optional(),
+    requireFactor: z.boolean().optional(),
+    factorPromptMode: z.string().optional(),
+    factorLifetime: z.number().optional(),
+    primaryFactor: z.string().optional(),
+    session: z
+      .object({
+        maxSessionIdleMinutes: z.number().optional(),
+        maxSessionLifetimeMinutes: z.number().optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+const enrollSchema = z.object({ self: z.string().optional() }).passthrough();
+const accessSchema = z.object({ access: z.string().optional() }).passthrough();
+
+/** An include/exclude pair of ids. An empty `include` does not narrow. */
+export interface IdFilter {
+  include: string[];
+  exclude: string[];
+}
+
+/** One platform entry: `MOBILE`/`DESKTOP` and, when set, the OS. */
+export interface PlatformEntry {
+  type?: string;
+  os?: string;
+}
+
+/**
+ * The network a rule asks for. `connection` is Okta's own value: `ANYWHERE`,
+ * `ZONE` (use the zone lists), `ON_NETWORK` or `OFF_NETWORK`.
+ */
+export interface NetworkCondition extends IdFilter {
+  connection: string;
+}
+
+/** Who and where a rule applies to. `null` means the rule does not constrain it. */
+export interface DecodedConditions {
+  users: IdFilter | null;
+  groups: IdFilter | null;
+  network: NetworkCondition | null;
+  userTypes: IdFilter | null;
+  device: { registered?: boolean; managed?: boolean; assurances: string[] } | null;
+  platforms: { include: PlatformEntry[]; exclude: PlatformEntry[] } | null;
+  /** `LOW`/`MEDIUM`/`HIGH`; `null` for none or `ANY`. */
+  riskLevel: string | null;
+  riskBehaviors: string[];
+  /** An Okta Expression Language condition, verbatim. */
+  expression: string | null;
+  /** `RADIUS` and the like; `null` for none or `ANY`. */
+  authType: string | null;
+  /** `OKTA`, `SPECIFIC_IDP`…; `null` for none or `ANY`. */
+  identityProvider: string | null;
+}
+
+/** The factor types one entry of an access rule's `constraints` asks for. */
+export interface FactorConstraint {
+  /** Knowledge factor types (`password`, …); `null` when not asked for. */
+  knowledge: string[] | null;
+  /** Possession factor types; `null` when not asked for, `[]` for any. */
+  possession: string[] | null;
+  phishingResistant: boolean;
+  hardwareProtection: boolean;
+}
+
+/** What a rule does once it matches, per policy type. */
+export type RuleOutcome =
+  | {
+      kind: 'appSignOn';
+      access: string;
+      /** `1FA` or `2FA`. */
+      factorMode?: string;
+      /** ISO-8601 duration, e.g. `PT2H`. */
+      reauthenticateIn?: string;
+      constraints: FactorConstraint[];
+    }
+  | {
+      kind: 'signon';
+      access: string;
+      requireFactor: boolean;
+      /** `ALWAYS`, `DEVICE` or `SESSION`. */
+      factorPromptMode?: string;
+      factorLifetime?: number;
+      primaryFactor?: string;
+      maxSessionIdleMinutes?: number;
+      maxSessionLifetimeMinutes?: number;
+    }
+  | { kind: 'enroll'; self: string }
+  | {
+      kind: 'password';
+      passwordChange?: string;
+      selfServicePasswordReset?: string;
+      selfServiceUnlock?: string;
+    };
+
+/** A decoded rule. */
+export interface DecodedPolicyRule {
+  conditions: DecodedConditions;
+  /** `null` when the policy type is not one this module reads, or the actions did not parse. */
+  outcome: RuleOutcome | null;
+  /**
+   * Dotted paths of subtrees that were present but could not be read, e.g.
+   * `conditions.network`. Never silently treated as absent.
+   */
+  unreadable: string[];
+}
+
+/** A plain object, or `null`. */
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+/** Normalize an include/exclude pair; `null` when neither side lists anything. */
+function toIdFilter(value: z.infer<typeof includeExcludeSchema> | undefined): IdFilter | null {
+  const include = value?.include ?? [];
+  const exclude = value?.exclude ?? [];
+  return include.length === 0 && exclude.length === 0 ? null : { include, exclude };
+}
+
+/** A level or type where `ANY` means "no constraint". */
+function unlessAny(value: string | undefined): string | null {
+  return value && value !== 'ANY' ? value : null;
+}
+
+/** Shorten a platform entry. */
+function toPlatform(entry: z.infer<typeof platformEntrySchema>): PlatformEntry {
+  return { type: entry.type, os: entry.os?.type };
+}
+
+/**
+ * Validate one subtree. Absent → `undefined`; unparseable → `undefined` and its
+ * path appended to `unreadable`.
+ */
+function readSubtree<T>(
+  tree: Record<string, unknown> | null,
+  key: string,
+  schema: z.ZodType<T>,
+  path: string,
+  unreadable: string[],
+): T | undefined {
+  const raw = tree?.[key];
+  if (raw === undefined || raw === null) return undefined;
+  const parsed = schema.safeParse(raw);
+  if (parsed.success) return parsed.data;
+  unreadable.push(`${path}.${key}`);
+  return undefined;
+}
+
+/**
+ * Decode a rule's or a policy's `conditions` tree.
+ *
+ * @param raw - The `conditions` value, typed `unknown`.
+ * @param unreadable - Collects the paths of subtrees that did not parse.
+ * @returns The conditions; every field `null`/empty when `raw` is absent.
+ */
+export function decodeConditions(raw: unknown, unreadable: string[] = []): DecodedConditions {
+  const tree = asRecord(raw);
+  if (raw != null && !tree) unreadable.push('conditions');
+  const read = <T>(key: string, schema: z.ZodType<T>) =>
+    readSubtree(tree, key, schema, 'conditions', unreadable);
+
+  const people = read('people', peopleSchema);
+  const network = read('network', networkSchema);
+  const userType = read('userType', includeExcludeSchema);
+  const device = read('device', deviceSchema);
+  const platform = read('platform', platformSchema);
+  const riskScore = read('riskScore', riskScoreSchema);
+  const risk = read('risk', riskSchema);
+  const el = read('elCondition', expressionSchema);
+  const authContext = read('authContext', authContextSchema);
+  const idp = read('identityProvider', identityProviderSchema);
+
+  const connection = network?.connection ?? 'ANYWHERE';
+  const assurances = device?.assurance?.include ?? [];
+  const platforms = {
+    include: (platform?.include ?? []).map(toPlatform),
+    exclude: (platform?.exclude ?? []).map(toPlatform),
+  };
+
+  return {
+    users: toIdFilter(people?.users),
+    groups: toIdFilter(people?.groups),
+    network:
+      network && connection !== 'ANYWHERE'
+        ? { connection, include: network.include ?? [], exclude: network.exclude ?? [] }
+        : null,
+    userTypes: toIdFilter(userType),
+    device:
+      device &&
+      (device.registered !== undefined || device.managed !== undefined || assurances.length > 0)
+        ? { registered: device.registered, managed: device.managed, assurances }
+        : null,
+    platforms: platforms.include.length > 0 || platforms.exclude.length > 0 ? platforms : null,
+    riskLevel: unlessAny(riskScore?.level),
+    riskBehaviors: risk?.behaviors ?? [],
+    expression: el?.condition?.trim() || null,
+    authType: unlessAny(authContext?.authType),
+    identityProvider: unlessAny(idp?.provider),
+  };
+}
+
+/** Decode an access rule's constraint entry. */
+function toConstraint(entry: z.infer<typeof constraintSchema>): FactorConstraint {
+  return {
+    knowledge: entry.knowledge ? (entry.knowledge.types ?? []) : null,
+    possession: entry.possession ? (entry.possession.types ?? []) : null,
+    phishingResistant: entry.possession?.phishingResistant === 'REQUIRED',
+    hardwareProtection: entry.possession?.hardwareProtection === 'REQUIRED',
+  };
+}
+
+/**
+ * Decode a rule's `actions` tree for its policy type.
+ *
+ * @param policyType - The policy's `type`.
+ * @param raw - The `actions` value, typed `unknown`.
+ * @param unreadable - Collects the paths of subtrees that did not parse.
+ * @returns The outcome, or `null` for an unknown type or an unreadable tree.
+ */
+export function decodeOutcome(
+  policyType: string | undefined,
+  raw: unknown,
+  unreadable: string[] = [],
+): RuleOutcome | null {
+  const tree = asRecord(raw);
+  if (raw != null && !tree) {
+    unreadable.push('actions');
+    return null;
+  }
+  const read = <T>(key: string, schema: z.ZodType<T>) =>
+    readSubtree(tree, key, schema, 'actions', unreadable);
+
+  switch (policyType) {
+    case 'ACCESS_POLICY': {
+      const appSignOn = read('appSignOn', appSignOnSchema);
+      if (!appSignOn) return null;
+      const method = appSignOn.verificationMethod;
+      return {
+        kind: 'appSignOn',
+        access: appSignOn.access ?? 'ALLOW',
+        factorMode: method?.factorMode,
+        reauthenticateIn: method?.reauthenticateIn,
+        constraints: (method?.constraints ?? []).map(toConstraint),
+      };
+    }
+    case 'OKTA_SIGN_ON': {
+      const signon = read('signon', signonSchema);
+      if (!signon) return null;
+      return {
+        kind: 'signon',
+        access: signon.access ?? 'ALLOW',
+        requireFactor: signon.requireFactor ?? false,
+        factorPromptMode: signon.factorPromptMode,
+        factorLifetime: signon.factorLifetime,
+        primaryFactor: signon.primaryFactor,
+        maxSessionIdleMinutes: signon.session?.maxSessionIdleMinutes,
+        maxSessionLifetimeMinutes: signon.session?.maxSessionLifetimeMinutes,
+      };
+    }
+    case 'MFA_ENROLL': {
+      const enroll = read('enroll', enrollSchema);
+      return enroll ? { kind: 'enroll', self: enroll.self ?? 'CHALLENGE' } : null;
+    }
+    case 'PASSWORD': {
+      const change = read('passwordChange', accessSchema);
+      const reset = read('selfServicePasswordReset', accessSchema);
+      const unlock = read('selfServiceUnlock', accessSchema);
+      if (!change && !reset && !unlock) return null;
+      return {
+        kind: 'password',
+        passwordChange: change?.access,
+        selfServicePasswordReset: reset?.access,
+        selfServiceUnlock: unlock?.access,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode one rule for its policy's type.
+ *
+ * @param rule - A validated rule.
+ * @param policyType - The type of the policy it belongs to.
+ * @returns {@link DecodedPolicyRule}. Never throws.
+ */
+export function decodePolicyRule(
+  rule: OktaPolicyRule,
+  policyType: string | undefined,
+): DecodedPolicyRule {
+  const unreadable: string[] = [];
+  const conditions = decodeConditions(rule.conditions, unreadable);
+  const outcome = decodeOutcome(policyType, rule.actions, unreadable);
+  return { conditions, outcome, unreadable };
+}
+
+/**
+ * The groups a *policy* (not a rule) is assigned to. Global session, enrollment
+ * and password policies carry `conditions.people.groups`; access policies are
+ * attached to apps instead and carry none.
+ *
+ * @param policy - A policy list row; its `conditions` passes through the list schema.
+ * @returns The group filter, `null` when the policy names no groups, or
+ * `'unreadable'` when its conditions did not parse.
+ */
+export function decodePolicyGroups(policy: {
+  conditions?: unknown;
+}): IdFilter | null | 'unreadable' {
+  const unreadable: string[] = [];
+  const conditions = decodeConditions(policy.conditions, unreadable);
+  if (unreadable.some((path) => path === 'conditions' || path === 'conditions.people')) {
+    return 'unreadable';
+  }
+  return conditions.groups;
+}
+
+/**
+ * Whether an outcome makes the user present more than one factor. `null` when
+ * the outcome says nothing about factors (enrollment, password rules) or does
+ * not let the user in at all.
+ *
+ * @param outcome - A decoded outcome.
+ */
+export function promptsForMfa(outcome: RuleOutcome | null): boolean | null {
+  if (!outcome) return null;
+  switch (outcome.kind) {
+    case 'appSignOn':
+      if (outcome.access === 'DENY') return null;
+      return outcome.factorMode === '2FA';
+    case 'signon':
+      if (outcome.access === 'DENY') return null;
+      return outcome.requireFactor;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Word an ISO-8601 duration (`PT2H`, `P1D`, `PT0S`) the way the Admin Console does.
+ *
+ * @param duration - The duration string.
+ * @returns Text such as `2 hours`, or the input when it is not a simple duration.
+ */
+export function formatIsoDuration(duration: string): string {
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(duration);
+  if (!match || duration === 'P' || duration === 'PT') return duration;
+  const parts = [
+    [match[1], 'day'],
+    [match[2], 'hour'],
+    [match[3], 'minute'],
+    [match[4], 'second'],
+  ]
+    .filter(([value]) => value !== undefined && Number(value) > 0)
+    .map(([value, unit]) => `${Number(value)} ${unit}${Number(value) === 1 ? '' : 's'}`);
+  return parts.length > 0 ? parts.join(' ') : 'every sign-in';
+}
+
+/** `3 groups`, `1 user`. */
+function countOf(count: number, noun: string, plural = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : plural}`;
+}
+
+/** One side of an include/exclude pair, e.g. `2 groups; excludes 1 group`. */
+function describeFilter(filter: IdFilter, noun: string): string {
+  const parts: string[] = [];
+  if (filter.include.length > 0) parts.push(countOf(filter.include.length, noun));
+  if (filter.exclude.length > 0) parts.push(`excludes ${countOf(filter.exclude.length, noun)}`);
+  return parts.join('; ');
+}
+
+/** A network zone list, with the special `ALL_ZONES` id worded. */
+function describeZones(ids: string[]): string {
+  return ids.includes(ALL_ZONES) ? 'any zone' : countOf(ids.length, 'zone');
+}
+
+/** `iOS (mobile)`, `desktop`. */
+function describePlatform(entry: PlatformEntry): string {
+  const type = entry.type?.toLowerCase();
+  if (entry.os && entry.os !== 'ANY') return type ? `${entry.os} (${type})` : entry.os;
+  return type ?? 'any platform';
+}
+
+/**
+ * Word a rule's conditions, one line per constrained dimension.
+ *
+ * @param conditions - Decoded conditions.
+ * @returns Lines such as `Network: in 2 zones`; empty when the rule applies to
+ * everyone, everywhere.
+ */
+export function describeConditions(conditions: DecodedConditions): string[] {
+  const lines: string[] = [];
+  const people = [
+    conditions.users && describeFilter(conditions.users, 'user'),
+    conditions.groups && describeFilter(conditions.groups, 'group'),
+  ].filter(Boolean);
+  if (people.length > 0) lines.push(`People: ${people.join(', ')}`);
+  if (conditions.userTypes) {
+    lines.push(`User type: ${describeFilter(conditions.userTypes, 'type')}`);
+  }
+
+  const { network } = conditions;
+  if (network) {
+    if (network.connection === 'ON_NETWORK') lines.push('Network: on network');
+    else if (network.connection === 'OFF_NETWORK') lines.push('Network: off network');
+    else {
+      const parts: string[] = [];
+      if (network.include.length > 0) parts.push(`in ${describeZones(network.include)}`);
+      if (network.exclude.length > 0) parts.push(`not in ${describeZones(network.exclude)}`);
+      lines.push(`Network: ${parts.join('; ') || network.connection.toLowerCase()}`);
+    }
+  }
+
+  const { device } = conditions;
+  if (device) {
+    const parts: string[] = [];
+    if (device.registered !== undefined) {
+      parts.push(device.registered ? 'registered' : 'not registered');
+    }
+    if (device.managed !== undefined) parts.push(device.managed ? 'managed' : 'not managed');
+    if (device.assurances.length > 0) {
+      parts.push(
+        `meets ${countOf(device.assurances.length, 'assurance policy', 'assurance policies')}`,
+      );
+    }
+    lines.push(`Device: ${parts.join(', ')}`);
+  }
+  if (conditions.platforms) {
+    const { include, exclude } = conditions.platforms;
+    const parts: string[] = [];
+    if (include.length > 0) parts.push(include.map(describePlatform).join(', '));
+    if (exclude.length > 0) parts.push(`not ${exclude.map(describePlatform).join(', ')}`);
+    lines.push(`Platform: ${parts.join('; ')}`);
+  }
+  if (conditions.riskLevel) lines.push(`Risk: ${conditions.riskLevel.toLowerCase()}`);
+  if (conditions.riskBehaviors.length > 0) {
+    lines.push(`Risk behaviors: ${countOf(conditions.riskBehaviors.length, 'behavior')}`);
+  }
+  if (conditions.authType) lines.push(`Authentication: ${conditions.authType}`);
+  if (conditions.identityProvider) {
+    lines.push(`Identity provider: ${conditions.identityProvider.toLowerCase()}`);
+  }
+  if (conditions.expression) lines.push(`Expression: ${conditions.expression}`);
+  return lines;
+}
+
+/** `factorMode` → how many factor types the user presents. */
+const FACTOR_MODE_LABEL: Record<string, string> = {
+  '1FA': 'Any one factor type',
+  '2FA': 'Any two factor types',
+};
+
+/** `factorPromptMode` → when the second factor is asked for. */
+const PROMPT_MODE_LABEL: Record<string, string> = {
+  ALWAYS: 'every sign-in',
+  DEVICE: 'once per device',
+  SESSION: 'once per session',
+};
+
+/** `enroll.self` → when a user is asked to enroll. */
+const ENROLL_LABEL: Record<string, string> = {
+  CHALLENGE: 'Enroll when a required authenticator is missing',
+  LOGIN: 'Enroll the first time the user signs in',
+  NEVER: 'Never prompt to enroll',
+};
+
+/** An `access` value as a verb, e.g. `ALLOW` → `allowed`. */
+function accessWord(access: string | undefined): string {
+  if (access === 'ALLOW') return 'allowed';
+  if (access === 'DENY') return 'denied';
+  return access ? access.toLowerCase() : 'not set';
+}
+
+/** One constraint entry, e.g. `password + any possession factor (phishing-resistant)`. */
+function describeConstraint(constraint: FactorConstraint): string {
+  const parts: string[] = [];
+  if (constraint.knowledge) {
+    parts.push(
+      constraint.knowledge.length ? constraint.knowledge.join(' or ') : 'a knowledge factor',
+    );
+  }
+  if (constraint.possession) {
+    const flags = [
+      constraint.phishingResistant && 'phishing-resistant',
+      constraint.hardwareProtection && 'hardware-protected',
+    ].filter(Boolean);
+    const types = constraint.possession.length
+      ? constraint.possession.join(' or ')
+      : 'a possession factor';
+    parts.push(flags.length ? `${types} (${flags.join(', ')})` : types);
+  }
+  return parts.join(' + ');
+}
+
+/**
+ * Word what a rule does.
+ *
+ * @param outcome - Decoded outcome.
+ * @returns Lines such as `Access allowed`, `Any two factor types`.
+ */
+export function describeOutcome(outcome: RuleOutcome): string[] {
+  switch (outcome.kind) {
+    case 'appSignOn': {
+      if (outcome.access === 'DENY') return ['Access denied'];
+      const lines = ['Access allowed'];
+      if (outcome.factorMode)
+        lines.push(FACTOR_MODE_LABEL[outcome.factorMode] ?? outcome.factorMode);
+      for (const constraint of outcome.constraints) {
+        const text = describeConstraint(constraint);
+        if (text) lines.push(`Requires ${text}`);
+      }
+      if (outcome.reauthenticateIn) {
+        const every = formatIsoDuration(outcome.reauthenticateIn);
+        lines.push(
+          every === 'every sign-in'
+            ? 'Re-authenticate every sign-in'
+            : `Re-authenticate after ${every}`,
+        );
+      }
+      return lines;
+    }
+    case 'signon': {
+      if (outcome.access === 'DENY') return ['Sign-in denied'];
+      const lines = ['Sign-in allowed'];
+      if (outcome.requireFactor) {
+        const when = outcome.factorPromptMode
+          ? PROMPT_MODE_LABEL[outcome.factorPromptMode]
+          : undefined;
+        lines.push(when ? `MFA required ${when}` : 'MFA required');
+      } else {
+        lines.push('No MFA');
+      }
+      if (outcome.primaryFactor) lines.push(`Primary factor: ${outcome.primaryFactor}`);
+      if (outcome.maxSessionIdleMinutes !== undefined) {
+        lines.push(`Session idle timeout: ${countOf(outcome.maxSessionIdleMinutes, 'minute')}`);
+      }
+      if (outcome.maxSessionLifetimeMinutes) {
+        lines.push(`Session lifetime: ${countOf(outcome.maxSessionLifetimeMinutes, 'minute')}`);
+      }
+      return lines;
+    }
+    case 'enroll':
+      return [ENROLL_LABEL[outcome.self] ?? `Enroll: ${outcome.self}`];
+    case 'password':
+      return [
+        `Password change ${accessWord(outcome.passwordChange)}`,
+        `Self-service reset ${accessWord(outcome.selfServicePasswordReset)}`,
+        `Self-service unlock ${accessWord(outcome.selfServiceUnlock)}`,
+      ];
+  }
+}
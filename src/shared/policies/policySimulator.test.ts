@@ -0,0 +1,161 @@
+/**
+ * Tests for the "which rule applies?" walk.
+ *
+ * Pins that rules are walked in priority order and the first full match wins,
+ * that exclusions beat inclusions, that conditions only the sign-in can settle
+ * leave a rule undecided rather than passed or failed, and how a group-assigned
+ * policy is picked.
+ *
+ * Fixtures use only fake placeholders (`rulFAKE…`, `00gFAKE…`, `nzoFAKE…`,
+ * `00pFAKE…`).
+ */
+import { describe, it, expect } from 'vitest';
+import { ALL_ZONES } from './policyRuleDecoder';
+import { selectPolicy, simulatePolicy, type SimulationSubject } from './policySimulator';
+
+const engineering = { id: '00gFAKE1', name: 'Engineering' };
+const everyone = { id: '00gFAKE0', name: 'Everyone' };
+const vpn = { id: 'nzoFAKE1', name: 'Office VPN' };
+
+const subject: SimulationSubject = {
+  userId: '00uFAKE1',
+  groups: [everyone, engineering],
+  zone: vpn,
+};
+
+const allow2fa = { appSignOn: { access: 'ALLOW', verificationMethod: { factorMode: '2FA' } } };
+const allow1fa = { appSignOn: { access: 'ALLOW', verificationMethod: { factorMode: '1FA' } } };
+
+const rule = (id: string, priority: number, conditions: unknown, actions: unknown = allow2fa) => ({
+  id,
+  name: id,
+  status: 'ACTIVE',
+  priority,
+  conditions,
+  actions,
+});
+
+describe('simulatePolicy', () => {
+  it('walks by priority and stops at the first rule whose conditions all hold', () => {
+    const result = simulatePolicy(
+      'ACCESS_POLICY',
+      [
+        rule('rulFAKEdefault', 99, undefined),
+        rule('rulFAKEvpn', 2, { network: { connection: 'ZONE', include: [vpn.id] } }, allow1fa),
+        rule('rulFAKEcontractors', 1, { people: { groups: { include: ['00gFAKE9'] } } }),
+      ],
+      subject,
+    );
+
+    expect(result.walked.map((entry) => entry.rule.id)).toEqual([
+      'rulFAKEcontractors',
+      'rulFAKEvpn',
+    ]);
+    expect(result.walked[0].checks).toEqual([
+      { label: 'People', verdict: 'no-match', reason: "Not one of the rule's 1 group" },
+    ]);
+    expect(result.matched?.rule.id).toBe('rulFAKEvpn');
+    expect(result.matched?.checks[0].reason).toBe('Office VPN is included');
+    expect(result.undecided).toEqual([]);
+  });
+
+  it('lets an excluded group beat an included one', () => {
+    const result = simulatePolicy(
+      'ACCESS_POLICY',
+      [
+        rule('rulFAKE1', 1, {
+          people: { groups: { include: [everyone.id], exclude: [engineering.id] } },
+        }),
+        rule('rulFAKE2', 2, {}),
+      ],
+      subject,
+    );
+
+    expect(result.walked[0].checks[0]).toEqual({
+      label: 'People',
+      verdict: 'no-match',
+      reason: 'Excluded through Engineering',
+    });
+    expect(result.matched?.rule.id).toBe('rulFAKE2');
+  });
+
+  it('keeps walking past a rule only the sign-in can settle, and reports it as undecided', () => {
+    const result = simulatePolicy(
+      'ACCESS_POLICY',
+      [
+        rule('rulFAKEdevice', 1, { device: { managed: false } }, { appSignOn: { access: 'DENY' } }),
+        rule('rulFAKEcatchall', 2, {}),
+      ],
+      subject,
+    );
+
+    expect(result.walked[0].verdict).toBe('unknown');
+    expect(result.walked[0].checks[0].label).toBe('Device');
+    expect(result.matched?.rule.id).toBe('rulFAKEcatchall');
+    expect(result.undecided.map((entry) => entry.rule.id)).toEqual(['rulFAKEdevice']);
+  });
+
+  it('skips inactive rules and treats an unreadable condition as unknown', () => {
+    const result = simulatePolicy(
+      'ACCESS_POLICY',
+      [
+        { ...rule('rulFAKEoff', 1, {}), status: 'INACTIVE' },
+        rule('rulFAKEbroken', 2, { network: 'corp' }),
+      ],
+      subject,
+    );
+
+    expect(result.walked[0].checks).toEqual([
+      { label: 'Status', verdict: 'no-match', reason: 'The rule is inactive' },
+    ]);
+    expect(result.walked[1].verdict).toBe('unknown');
+    expect(result.matched).toBeNull();
+  });
+
+  it('reads ALL_ZONES as any defined zone, and an IP in no zone as outside it', () => {
+    const anyZone = [
+      rule('rulFAKE1', 1, { network: { connection: 'ZONE', include: [ALL_ZONES] } }),
+    ];
+    expect(simulatePolicy('ACCESS_POLICY', anyZone, subject).matched?.rule.id).toBe('rulFAKE1');
+    expect(simulatePolicy('ACCESS_POLICY', anyZone, { ...subject, zone: null }).matched).toBeNull();
+  });
+});
+
+describe('selectPolicy', () => {
+  const policy = (id: string, priority: number, include: string[], status = 'ACTIVE') => ({
+    id,
+    name: id,
+    type: 'OKTA_SIGN_ON',
+    status,
+    priority,
+    conditions: { people: { groups: { include } } },
+  });
+
+  it('picks the first active policy by priority assigned to one of the groups', () => {
+    const selection = selectPolicy(
+      [
+        policy('00pFAKEdefault', 3, [everyone.id]),
+        policy('00pFAKEeng', 2, [engineering.id]),
+        policy('00pFAKEoff', 1, [engineering.id], 'INACTIVE'),
+        policy('00pFAKEsales', 1, ['00gFAKE7']),
+      ],
+      subject,
+    );
+
+    expect(selection.policy?.id).toBe('00pFAKEeng');
+    expect(selection.reason).toBe('Assigned to Engineering');
+  });
+
+  it('reports a policy whose assignment cannot be read instead of passing over it silently', () => {
+    const selection = selectPolicy(
+      [
+        { id: '00pFAKEodd', status: 'ACTIVE', priority: 1, conditions: { people: 'all' } },
+        policy('00pFAKEdefault', 2, [everyone.id]),
+      ],
+      subject,
+    );
+
+    expect(selection.policy?.id).toBe('00pFAKEdefault');
+    expect(selection.undecided.map((p) => p.id)).toEqual(['00pFAKEodd']);
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * @module shared/policies/policySimulator
+ * @description "Which rule applies to this user?" — walks a policy's rules in
+ * priority order for one user, signing in from one network zone, and reports
+ * the first rule that applies and why each earlier one did not.
+ *
+ * Okta evaluates a policy's active rules top-down and stops at the first whose
+ * conditions all hold. This walk does the same over the rules as decoded by
+ * {@link decodePolicyRule}, with one difference that matters: some conditions
+ * depend on the sign-in itself — the device, the platform, the risk score, an
+ * Expression Language condition — and cannot be known from the admin's side.
+ * Each condition is therefore `match`, `no-match` or `unknown`:
+ *
+ * - A rule with any `no-match` does not apply, and the walk moves on.
+ * - A rule whose conditions all `match` applies, and the walk stops.
+ * - A rule with an `unknown` and no `no-match` *might* apply. The walk keeps
+ *   going, and the rule is reported alongside the match as undecided — the
+ *   answer is "rule 3, unless this sign-in was from an unmanaged device, in which
+ *   case rule 2".
+ *
+ * An unreadable subtree ({@link DecodedPolicyRule.unreadable}) is `unknown`, never
+ * a pass.
+ *
+ * The simulated user is in exactly one zone, or in none; in a real sign-in an
+ * IP can sit in an IP zone and a dynamic zone at once. `ON_NETWORK` and
+ * `OFF_NETWORK` depend on the org's default IP zone, and stay `unknown`.
+ *
+ * Pure: no requests. The side panel reads the user's groups, the zones and the
+ * rules, and hands them here.
+ */
+
+import type { OktaPolicyListItem, OktaPolicyRule } from '../schemas/okta';
+import {
+  ALL_ZONES,
+  decodePolicyGroups,
+  decodePolicyRule,
+  type DecodedPolicyRule,
+  type IdFilter,
+} from './policyRuleDecoder';
+
+/** The outcome of one condition, one rule, or one policy's assignment. */
+export type SimulationVerdict = 'match' | 'no-match' | 'unknown';
+
+/** A named entity the subject carries, so reasons can say its name. */
+export interface NamedRef {
+  id: string;
+  name: string;
+}
+
+/** Who is signing in, and from where. */
+export interface SimulationSubject {
+  userId: string;
+  /** Every group the user is in, `Everyone` included. */
+  groups: NamedRef[];
+  /** The zone the sign-in comes from; `null` for an IP in no zone. */
+  zone: NamedRef | null;
+}
+
+/** One condition of one rule, with the reason for its verdict. */
+export interface ConditionCheck {
+  /** The condition, e.g. `Groups`, `Network`. */
+  label: string;
+  verdict: SimulationVerdict;
+  reason: string;
+}
+
+/** One rule as the walk saw it. */
+export interface RuleVerdict {
+  rule: OktaPolicyRule;
+  decoded: DecodedPolicyRule;
+  verdict: SimulationVerdict;
+  /** Every condition the rule sets; empty for a rule that applies to everyone. */
+  checks: ConditionCheck[];
+}
+
+/** The walk over one policy's rules. */
+export interface PolicySimulation {
+  /** The rules walked, in evaluation order, up to and including the match. */
+  walked: RuleVerdict[];
+  /** The first rule whose conditions all hold, or `null` when none does. */
+  matched: RuleVerdict | null;
+  /** Rules before the match that might apply instead, depending on the sign-in. */
+  undecided: RuleVerdict[];
+}
+
+/** Which policy of a type applies to the user. */
+export interface PolicySelection {
+  /** The first active policy, by priority, assigned to one of the user's groups. */
+  policy: OktaPolicyListItem | null;
+  /** Why it was picked, or why none was. */
+  reason: string;
+  /** Policies before it whose assignment could not be read. */
+  undecided: OktaPolicyListItem[];
+}
+
+/** Lowest priority first; a rule with no priority last. */
+function byPriority(a: { priority?: number | null }, b: { priority?: number | null }): number {
+  return (a.priority ?? Number.MAX_SAFE_INTEGER) - (b.priority ?? Number.MAX_SAFE_INTEGER);
+}
+
+/** The first of the subject's groups listed in `ids`. */
+function firstGroupIn(subject: SimulationSubject, ids: string[]): NamedRef | undefined {
+  return subject.groups.find((group) => ids.includes(group.id));
+}
+
+/** `3 groups`. */
+function countOf(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * People: exclusions win; otherwise the user must be listed, or be in a listed
+ * group. Users and groups are alternatives, as in the Admin Console.
+ */
+function checkPeople(
+  users: IdFilter | null,
+  groups: IdFilter | null,
+  subject: SimulationSubject,
+): ConditionCheck | null {
+  if (!users && !groups) return null;
+  const label = 'People';
+  if (users?.exclude.includes(subject.userId)) {
+    return { label, verdict: 'no-match', reason: 'The user is excluded by name' };
+  }
+  const excludedBy = groups && firstGroupIn(subject, groups.exclude);
+  if (excludedBy) {
+    return { label, verdict: 'no-match', reason: `Excluded through ${excludedBy.name}` };
+  }
+  const userInclude = users?.include ?? [];
+  const groupInclude = groups?.include ?? [];
+  if (userInclude.length === 0 && groupInclude.length === 0) {
+    return { label, verdict: 'match', reason: 'Not excluded' };
+  }
+  if (userInclude.includes(subject.userId)) {
+    return { label, verdict: 'match', reason: 'The user is included by name' };
+  }
+  const includedBy = firstGroupIn(subject, groupInclude);
+  if (includedBy) return { label, verdict: 'match', reason: `In ${includedBy.name}` };
+  const listed = [
+    userInclude.length > 0 && countOf(userInclude.length, 'user'),
+    groupInclude.length > 0 && countOf(groupInclude.length, 'group'),
+  ].filter(Boolean);
+  return {
+    label,
+    verdict: 'no-match',
+    reason: `Not one of the rule's ${listed.join(' or ')}`,
+  };
+}
+
+/** Whether a zone list names the subject's zone (`ALL_ZONES` names any zone). */
+function zoneListed(ids: string[], zone: NamedRef | null): boolean {
+  return zone !== null && (ids.includes(zone.id) || ids.includes(ALL_ZONES));
+}
+
+/** Network: the subject's single zone against the include and exclude lists. */
+function checkNetwork(
+  decoded: DecodedPolicyRule,
+  subject: SimulationSubject,
+): ConditionCheck | null {
+  const { network } = decoded.conditions;
+  if (!network) return null;
+  const label = 'Network';
+  if (network.connection === 'ON_NETWORK' || network.connection === 'OFF_NETWORK') {
+    return {
+      label,
+      verdict: 'unknown',
+      reason: `Depends on whether the IP is in the default IP zone (${network.connection === 'ON_NETWORK' ? 'on' : 'off'} network)`,
+    };
+  }
+  const where = subject.zone ? subject.zone.name : 'an IP in no zone';
+  if (zoneListed(network.exclude, subject.zone)) {
+    return { label, verdict: 'no-match', reason: `${where} is excluded` };
+  }
+  if (network.include.length === 0) {
+    return { label, verdict: 'match', reason: `${where} is not excluded` };
+  }
+  return zoneListed(network.include, subject.zone)
+    ? { label, verdict: 'match', reason: `${where} is included` }
+    : { label, verdict: 'no-match', reason: `${where} is not one of the rule's zones` };
+}
+
+/** The conditions only the sign-in itself can settle. */
+function signInChecks(decoded: DecodedPolicyRule): ConditionCheck[] {
+  const { conditions } = decoded;
+  const checks: ConditionCheck[] = [];
+  const unknown = (label: string, reason: string) =>
+    checks.push({ label, verdict: 'unknown', reason });
+
+  if (conditions.userTypes) unknown('User type', "Depends on the user's type, which is not read");
+  if (conditions.device) unknown('Device', 'Depends on the device signing in');
+  if (conditions.platforms) unknown('Platform', 'Depends on the device signing in');
+  if (conditions.riskLevel) {
+    unknown(
+      'Risk',
+      `Applies only when Okta scores the sign-in ${conditions.riskLevel.toLowerCase()} risk`,
+    );
+  }
+  if (conditions.riskBehaviors.length > 0) {
+    unknown('Risk behaviors', 'Depends on the behaviors Okta detects at sign-in');
+  }
+  if (conditions.authType)
+    unknown('Authentication', `Applies only to ${conditions.authType} sign-ins`);
+  if (conditions.identityProvider) {
+    unknown('Identity provider', 'Depends on where the user authenticates');
+  }
+  if (conditions.expression) {
+    unknown('Expression', 'Expression conditions are not evaluated here');
+  }
+  return checks;
+}
+
+/** Check every condition of one rule. */
+function checkRule(
+  rule: OktaPolicyRule,
+  policyType: string | undefined,
+  subject: SimulationSubject,
+): RuleVerdict {
+  const decoded = decodePolicyRule(rule, policyType);
+  if (rule.status !== undefined && rule.status !== 'ACTIVE') {
+    return {
+      rule,
+      decoded,
+      verdict: 'no-match',
+      checks: [{ label: 'Status', verdict: 'no-match', reason: 'The rule is inactive' }],
+    };
+  }
+
+  const checks = [
+    checkPeople(decoded.conditions.users, decoded.conditions.groups, subject),
+    checkNetwork(decoded, subject),
+    ...signInChecks(decoded),
+    ...decoded.unreadable
+      .filter((path) => path.startsWith('conditions'))
+      .map((path): ConditionCheck => ({
+        label: 'Unreadable',
+        verdict: 'unknown',
+        reason: `${path} could not be read`,
+      })),
+  ].filter((check): check is ConditionCheck => check !== null);
+
+  const verdict: SimulationVerdict = checks.some((check) => check.verdict === 'no-match')
+    ? 'no-match'
+    : checks.some((check) => check.verdict === 'unknown')
+      ? 'unknown'
+      : 'match';
+  return { rule, decoded, verdict, checks };
+}
+
+/**
+ * Walk a policy's rules for one subject.
+ *
+ * @param policyType - The policy's `type`, which decides how outcomes decode.
+ * @param rules - The policy's rules, in any order.
+ * @param subject - See {@link SimulationSubject}.
+ * @returns {@link PolicySimulation}.
+ */
+export function simulatePolicy(
+  policyType: string | undefined,
+  rules: readonly OktaPolicyRule[],
+  subject: SimulationSubject,
+): PolicySimulation {
+  const walked: RuleVerdict[] = [];
+  for (const rule of [...rules].sort(byPriority)) {
+    const verdict = checkRule(rule, policyType, subject);
+    walked.push(verdict);
+    if (verdict.verdict === 'match') {
+      return {
+        walked,
+        matched: verdict,
+        undecided: walked.filter((entry) => entry.verdict === 'unknown'),
+      };
+    }
+  }
+  return {
+    walked,
+    matched: null,
+    undecided: walked.filter((entry) => entry.verdict === 'unknown'),
+  };
+}
+
+/**
+ * Pick the policy of a group-assigned type (global session, enrollment,
+ * password) that applies to the subject: the first active one, by priority,
+ * assigned to one of their groups and not excluding any.
+ *
+ * @param policies - Every policy of one type.
+ * @param subject - See {@link SimulationSubject}.
+ * @returns {@link PolicySelection}.
+ */
+export function selectPolicy(
+  policies: readonly OktaPolicyListItem[],
+  subject: SimulationSubject,
+): PolicySelection {
+  const undecided: OktaPolicyListItem[] = [];
+  const active = policies.filter((policy) => policy.status === 'ACTIVE').sort(byPriority);
+  for (const policy of active) {
+    const groups = decodePolicyGroups(policy);
+    if (groups === 'unreadable') {
+      undecided.push(policy);
+      continue;
+    }
+    if (!groups) {
+      return { policy, reason: 'Assigned to everyone', undecided };
+    }
+    if (firstGroupIn(subject, groups.exclude)) continue;
+    if (groups.include.length === 0) {
+      return { policy, reason: 'Assigned to everyone not excluded', undecided };
+    }
+    const assignedTo = firstGroupIn(subject, groups.include);
+    if (assignedTo) return { policy, reason: `Assigned to ${assignedTo.name}`, undecided };
+  }
+  return {
+    policy: null,
+    reason: "No active policy is assigned to any of the user's groups",
+    undecided,
+  };
+}
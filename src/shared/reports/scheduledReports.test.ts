@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clutterRunSummary,
+  describeCadence,
+  describeJob,
+  newlyFlaggedGroups,
+  nextRunAt,
+  reportAlarmName,
+  reportIdFromAlarm,
+  shouldNotify,
+  type ScheduledReport,
+  type ScheduledReportRun,
+} from './scheduledReports';
+
+/** A local-time moment, so the tests hold in any time zone. */
+const local = (y: number, m: number, d: number, h = 0, min = 0) =>
+  new Date(y, m - 1, d, h, min).getTime();
+
+describe('nextRunAt', () => {
+  it('runs later today when the hour is still ahead', () => {
+    expect(nextRunAt({ kind: 'daily', hour: 9 }, local(2026, 10, 19, 7, 30))).toBe(
+      local(2026, 10, 19, 9),
+    );
+  });
+
+  it('runs tomorrow once the hour has come', () => {
+    expect(nextRunAt({ kind: 'daily', hour: 9 }, local(2026, 10, 19, 9))).toBe(
+      local(2026, 10, 20, 9),
+    );
+  });
+
+  it('finds the next weekday, a week out when it is that day and the hour has passed', () => {
+    // 19 Oct 2026 is a Monday.
+    expect(nextRunAt({ kind: 'weekly', weekday: 3, hour: 8 }, local(2026, 10, 19, 12))).toBe(
+      local(2026, 10, 21, 8),
+    );
+    expect(nextRunAt({ kind: 'weekly', weekday: 1, hour: 8 }, local(2026, 10, 19, 12))).toBe(
+      local(2026, 10, 26, 8),
+    );
+  });
+});
+
+describe('alarm names', () => {
+  it('round-trips a report id and ignores other alarms', () => {
+    expect(reportIdFromAlarm(reportAlarmName('abc'))).toBe('abc');
+    expect(reportIdFromAlarm('auditRetentionCleanup')).toBeNull();
+    expect(reportIdFromAlarm('scheduledReport:')).toBeNull();
+  });
+});
+
+describe('describe', () => {
+  it('words cadences and jobs', () => {
+    expect(describeCadence({ kind: 'daily', hour: 8 })).toBe('Daily at 08:00');
+    expect(describeCadence({ kind: 'weekly', weekday: 1, hour: 9 })).toBe('Every Monday at 09:00');
+    expect(describeJob({ kind: 'clutter', category: 'empty' })).toBe('Watch: Empty groups');
+    expect(
+      describeJob({
+        kind: 'export',
+        descriptorId: 'group-memberships',
+        descriptorName: 'Group Memberships',
+        enabledColumnIds: [],
+        contextLabel: 'Contractors',
+      }),
+    ).toBe('Group Memberships export — Contractors');
+  });
+});
+
+describe('newlyFlaggedGroups + clutterRunSummary', () => {
+  const a = { id: '00gA', name: 'Alpha' };
+  const b = { id: '00gB', name: 'Beta' };
+
+  it('treats the first run as the baseline', () => {
+    expect(newlyFlaggedGroups([a, b], null)).toEqual([]);
+    expect(clutterRunSummary('empty', [a, b], [], true)).toBe('Watching from now. Empty groups: 2');
+  });
+
+  it('flags only groups that entered the category', () => {
+    const newly = newlyFlaggedGroups([a, b], [a]);
+    expect(newly).toEqual([b]);
+    expect(clutterRunSummary('empty', [a, b], newly, false)).toBe('1 group became empty: Beta');
+  });
+
+  it('says nothing changed when no group entered', () => {
+    expect(clutterRunSummary('stale', [a], [], false)).toBe(
+      'No change. Groups not updated in over a year: 1',
+    );
+  });
+});
+
+describe('shouldNotify', () => {
+  const base = {
+    id: 'r',
+    name: 'r',
+    cadence: { kind: 'daily', hour: 8 },
+    origin: 'https://example.okta.com',
+    createdAt: new Date(),
+    nextRunAt: 0,
+    version: 1,
+  } as const;
+  const watch: ScheduledReport = { ...base, job: { kind: 'clutter', category: 'empty' } };
+  const exportReport: ScheduledReport = {
+    ...base,
+    job: { kind: 'export', descriptorId: 'users', descriptorName: 'Users', enabledColumnIds: [] },
+  };
+  const run = (overrides: Partial<ScheduledReportRun>): ScheduledReportRun => ({
+    id: 'x',
+    reportId: 'r',
+    startedAt: new Date(),
+    finishedAt: new Date(),
+    status: 'success',
+    summary: '',
+    ...overrides,
+  });
+
+  it('notifies every finished export and every failure or skip', () => {
+    expect(shouldNotify(exportReport, run({}))).toBe(true);
+    expect(shouldNotify(watch, run({ status: 'failed' }))).toBe(true);
+    expect(shouldNotify(watch, run({ status: 'skipped' }))).toBe(true);
+  });
+
+  it('notifies a watch only when a group entered its category', () => {
+    expect(shouldNotify(watch, run({ newlyFlagged: [] }))).toBe(false);
+    expect(shouldNotify(watch, run({ newlyFlagged: [{ id: '00gA', name: 'A' }] }))).toBe(true);
+  });
+});
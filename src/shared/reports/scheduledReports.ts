@@ -0,0 +1,256 @@
+/**
+ * @module shared/reports/scheduledReports
+ * @description What a scheduled report is, when it next runs, and when its
+ * result is worth a notification. Pure; the store is
+ * `shared/storage/scheduledReportStore` and the runner is
+ * `background/scheduledReports`.
+ *
+ * A report is one of two jobs:
+ *
+ * - **export** — an Export tab preset (descriptor, columns, filter and, for a
+ *   per-group or per-app export, the entity it was scoped to), run to a CSV that is
+ *   kept with the run for download;
+ * - **clutter watch** — the Groups tab's cleanup triage (`analyzeClutter`) over
+ *   every group, watching one category. The watch fires when a group enters the
+ *   category that was not in it at the previous run — "a group became empty".
+ *
+ * A cadence is daily or weekly at a local hour. Each report has its own one-shot
+ * alarm, set again for the next run after every run, so a cadence keeps its hour
+ * across daylight-saving changes.
+ */
+
+/** When a report runs, in the browser's local time. */
+export type ReportCadence =
+  | { kind: 'daily'; hour: number }
+  | {
+      kind: 'weekly';
+      /** 0 = Sunday … 6 = Saturday, as `Date.getDay`. */
+      weekday: number;
+      hour: number;
+    };
+
+/** A clutter category a watch can follow (see `ClutterReport.categories`). */
+export type ClutterWatchCategory = 'empty' | 'duplicateName' | 'stale';
+
+/** What a report runs. */
+export type ScheduledReportJob =
+  | {
+      kind: 'export';
+      /** The export descriptor's id. */
+      descriptorId: string;
+      /** Its display name, for the list and the notification. */
+      descriptorName: string;
+      /** The column ids to write, as the preset saved them. */
+      enabledColumnIds: string[];
+      filterText?: string;
+      /** The group or app a search-to-select export is scoped to. */
+      contextId?: string;
+      contextLabel?: string;
+    }
+  | { kind: 'clutter'; category: ClutterWatchCategory };
+
+/** A saved scheduled report. */
+export interface ScheduledReport {
+  /** Stable record id (`crypto.randomUUID()`); the object-store key. */
+  id: string;
+  /** Admin-chosen name, shown in the list and the notification title. */
+  name: string;
+  job: ScheduledReportJob;
+  cadence: ReportCadence;
+  /**
+   * Origin of the org the report was set up in. It runs only through a tab on
+   * it, so every run — and the run a clutter watch compares against — is that
+   * org's.
+   */
+  origin: string;
+  createdAt: Date;
+  /** When the next run is due (epoch ms); the alarm is set for it. */
+  nextRunAt: number;
+  /** Per-record schema version, for forward migration without a DB bump. */
+  version: 1;
+}
+
+/** One flagged group, as a clutter run keeps it. */
+export interface ReportGroupRef {
+  id: string;
+  name: string;
+}
+
+/** One run of a report, kept locally. */
+export interface ScheduledReportRun {
+  /** Stable record id; the object-store key. */
+  id: string;
+  /** The {@link ScheduledReport.id} (indexed). */
+  reportId: string;
+  startedAt: Date;
+  finishedAt: Date;
+  /**
+   * `success` ran to the end; `failed` stopped on an error; `skipped` never
+   * started, because no tab on the report's org was open to run it through.
+   */
+  status: 'success' | 'failed' | 'skipped';
+  /** One line for the list and the notification. */
+  summary: string;
+  /** Export: the rows written. */
+  rowCount?: number;
+  /** Export: the CSV, for download from the panel. */
+  csv?: string;
+  /** Clutter: every group in the watched category. */
+  flagged?: ReportGroupRef[];
+  /** Clutter: the groups that entered it since the previous run. */
+  newlyFlagged?: ReportGroupRef[];
+  error?: string;
+}
+
+/** Runs kept per report; older ones are pruned. */
+export const RUNS_KEPT_PER_REPORT = 10;
+
+/** Prefix of every report alarm's name. */
+const ALARM_PREFIX = 'scheduledReport:';
+
+/**
+ * The alarm name for a report.
+ *
+ * @param reportId - The report.
+ * @returns `scheduledReport:<id>`.
+ */
+export function reportAlarmName(reportId: string): string {
+  return `${ALARM_PREFIX}${reportId}`;
+}
+
+/**
+ * Read a report id back out of an alarm name.
+ *
+ * @param alarmName - Any alarm's name.
+ * @returns The report id, or `null` when the alarm is not a report's.
+ */
+export function reportIdFromAlarm(alarmName: string): string | null {
+  return alarmName.startsWith(ALARM_PREFIX) ? alarmName.slice(ALARM_PREFIX.length) || null : null;
+}
+
+/**
+ * When a cadence next falls strictly after a moment.
+ *
+ * @param cadence - The cadence.
+ * @param from - The moment (epoch ms).
+ * @returns The next run, on the hour in local time (epoch ms).
+ */
+export function nextRunAt(cadence: ReportCadence, from: number): number {
+  const start = new Date(from);
+  const next = new Date(start.getFullYear(), start.getMonth(), start.getDate(), cadence.hour);
+  if (cadence.kind === 'weekly') {
+    next.setDate(next.getDate() + ((cadence.weekday - next.getDay() + 7) % 7));
+  }
+  if (next.getTime() <= from) {
+    next.setDate(next.getDate() + (cadence.kind === 'weekly' ? 7 : 1));
+  }
+  return next.getTime();
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** Day names, Sunday first, for the cadence picker. */
+export const WEEKDAY_NAMES: readonly string[] = WEEKDAYS;
+
+/** `09:00`. */
+function hourLabel(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+/**
+ * A cadence in words.
+ *
+ * @param cadence - The cadence.
+ * @returns e.g. "Daily at 08:00" or "Every Monday at 09:00".
+ */
+export function describeCadence(cadence: ReportCadence): string {
+  return cadence.kind === 'daily'
+    ? `Daily at ${hourLabel(cadence.hour)}`
+    : `Every ${WEEKDAYS[cadence.weekday] ?? 'week'} at ${hourLabel(cadence.hour)}`;
+}
+
+/** A clutter category in words, as the watch and its notification name it. */
+export const CLUTTER_WATCH_LABELS: Record<ClutterWatchCategory, string> = {
+  empty: 'Empty groups',
+  duplicateName: 'Groups with a duplicate name',
+  stale: 'Groups not updated in over a year',
+};
+
+/** What a group entering a category is called, for the notification. */
+const BECAME: Record<ClutterWatchCategory, string> = {
+  empty: 'became empty',
+  duplicateName: 'now share a name',
+  stale: 'went a year without an update',
+};
+
+/**
+ * A job in words.
+ *
+ * @param job - The job.
+ * @returns e.g. "Group Memberships export — Contractors" or "Watch: Empty groups".
+ */
+export function describeJob(job: ScheduledReportJob): string {
+  if (job.kind === 'clutter') return `Watch: ${CLUTTER_WATCH_LABELS[job.category]}`;
+  return job.contextLabel
+    ? `${job.descriptorName} export — ${job.contextLabel}`
+    : `${job.descriptorName} export`;
+}
+
+/**
+ * The groups in a watched category now that were not in it at the previous run.
+ *
+ * @param current - Every group in the category now.
+ * @param previous - The previous successful run's groups, or `null` when there is
+ *   none — the first run is the baseline and flags nothing new.
+ * @returns The groups that entered the category, in `current` order.
+ */
+export function newlyFlaggedGroups(
+  current: readonly ReportGroupRef[],
+  previous: readonly ReportGroupRef[] | null,
+): ReportGroupRef[] {
+  if (!previous) return [];
+  const before = new Set(previous.map((group) => group.id));
+  return current.filter((group) => !before.has(group.id));
+}
+
+/** `A, B, C and 4 more`. */
+function namesOf(groups: readonly ReportGroupRef[]): string {
+  const shown = groups.slice(0, 3).map((group) => group.name);
+  const rest = groups.length - shown.length;
+  return rest > 0 ? `${shown.join(', ')} and ${rest} more` : shown.join(', ');
+}
+
+/**
+ * The one-line summary of a clutter run, which is also its notification text.
+ *
+ * @param category - The watched category.
+ * @param flagged - Every group in it now.
+ * @param newly - The groups that entered it since the previous run.
+ * @param isBaseline - Whether this is the first run.
+ * @returns The summary.
+ */
+export function clutterRunSummary(
+  category: ClutterWatchCategory,
+  flagged: readonly ReportGroupRef[],
+  newly: readonly ReportGroupRef[],
+  isBaseline: boolean,
+): string {
+  if (newly.length > 0) {
+    return `${newly.length} group${newly.length === 1 ? '' : 's'} ${BECAME[category]}: ${namesOf(newly)}`;
+  }
+  const count = `${CLUTTER_WATCH_LABELS[category]}: ${flagged.length}`;
+  return isBaseline ? `Watching from now. ${count}` : `No change. ${count}`;
+}
+
+/**
+ * Whether a run is worth a notification. An export notifies whenever it finishes;
+ * a watch only when a group entered its category. Failures and skips always do.
+ *
+ * @param report - The report run.
+ * @param run - The run.
+ * @returns `true` to notify.
+ */
+export function shouldNotify(report: ScheduledReport, run: ScheduledReportRun): boolean {
+  if (run.status !== 'success') return true;
+  return report.job.kind === 'export' || (run.newlyFlagged?.length ?? 0) > 0;
+}
@@ -0,0 +1,97 @@
+/**
+ * @module shared/rules/ruleDraft.test
+ * @description Unit tests for the rule-authoring draft helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_RULE_DRAFT,
+  OKTA_EXPRESSION_TYPE,
+  buildRuleDraftPayload,
+  draftFromRule,
+  estimateRulePopulation,
+  validateRuleDraft,
+} from './ruleDraft';
+import type { OktaGroupRule, OktaUser } from '../types';
+
+function user(id: string, department: string): OktaUser {
+  return {
+    id,
+    status: 'ACTIVE',
+    profile: { login: `${id}@example.com`, email: `${id}@example.com`, department },
+  } as OktaUser;
+}
+
+const rule: OktaGroupRule = {
+  id: 'r1',
+  name: 'Eng',
+  status: 'ACTIVE',
+  type: 'group_rule',
+  created: '',
+  lastUpdated: '',
+  conditions: {
+    people: { users: { exclude: ['u-excluded'] } },
+    expression: { value: 'user.department=="Eng"', type: OKTA_EXPRESSION_TYPE },
+  },
+  actions: { assignUserToGroups: { groupIds: ['g1', 'g2'] } },
+};
+
+describe('validateRuleDraft', () => {
+  it('reports every problem with an empty draft at once', () => {
+    expect(validateRuleDraft(EMPTY_RULE_DRAFT).map((i) => i.code)).toEqual([
+      'name-empty',
+      'expression-invalid',
+      'no-target-groups',
+    ]);
+  });
+
+  it('rejects names over the Okta limit and carries the parse reason', () => {
+    const issues = validateRuleDraft({
+      name: 'x'.repeat(51),
+      expression: 'user.department ==',
+      groupIds: ['g1'],
+    });
+    expect(issues).toEqual([
+      { code: 'name-too-long', max: 50 },
+      { code: 'expression-invalid', reasonCode: 'parse-error' },
+    ]);
+  });
+
+  it('accepts a complete draft', () => {
+    expect(validateRuleDraft(draftFromRule(rule))).toEqual([]);
+  });
+});
+
+describe('buildRuleDraftPayload', () => {
+  it('builds a create body with a trimmed name, typed expression and deduped groups', () => {
+    const payload = buildRuleDraftPayload({
+      name: '  New rule ',
+      expression: ' user.department=="Eng" ',
+      groupIds: ['g1', 'g1', 'g2'],
+    });
+    expect(payload).toEqual({
+      type: 'group_rule',
+      name: 'New rule',
+      conditions: { expression: { value: 'user.department=="Eng"', type: OKTA_EXPRESSION_TYPE } },
+      actions: { assignUserToGroups: { groupIds: ['g1', 'g2'] } },
+    });
+  });
+
+  it('keeps the original rule’s people exclusions when editing', () => {
+    const payload = buildRuleDraftPayload({ ...draftFromRule(rule), name: 'Eng v2' }, rule);
+    expect(payload.conditions?.people).toEqual({ users: { exclude: ['u-excluded'] } });
+  });
+});
+
+describe('estimateRulePopulation', () => {
+  it('tallies match, no-match and unevaluable separately', () => {
+    const users = [user('a', 'Eng'), user('b', 'Sales'), user('c', 'Eng')];
+    expect(estimateRulePopulation('user.department=="Eng"', users)).toEqual({
+      sampled: 3,
+      matched: 2,
+      noMatch: 1,
+      unevaluable: 0,
+    });
+    expect(estimateRulePopulation('isMemberOfAnyGroup("g1")', users).unevaluable).toBe(3);
+  });
+});
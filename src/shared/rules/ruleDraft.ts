@@ -0,0 +1,178 @@
+/**
+ * @module shared/rules/ruleDraft
+ * @description Pure helpers behind the Rules tab's authoring workbench.
+ *
+ * A {@link RuleDraft} is what the admin is typing: a name, a condition expression
+ * and a set of target groups. These helpers answer the three questions the
+ * workbench asks before anything is written — *is this savable?*
+ * ({@link validateRuleDraft}), *what exactly would be sent?*
+ * ({@link buildRuleDraftPayload}), and *roughly how many people would it match?*
+ * ({@link estimateRulePopulation}). All pure; the write sequencing, audit and undo
+ * live in `useRuleEditor`.
+ *
+ * ## One parse, one evaluator
+ *
+ * Validation reuses {@link parseRuleExpression} and the estimate reuses
+ * {@link tryEvaluateRuleExpression}, so the workbench can never call an
+ * expression valid that the rest of the app refuses to parse, nor count a match
+ * the membership views would disagree with.
+ *
+ * ## Security
+ *
+ * The expression and rule name are admin-typed but end up as tenant data. Nothing
+ * here logs them; issues carry codes, never echoed text.
+ */
+
+import type { OktaGroupRule, OktaUser } from '../types';
+import {
+  parseRuleExpression,
+  tryEvaluateRuleExpression,
+  type RuleUnevaluableReason,
+} from '../ruleEvaluator';
+import type { CreateRulePayload } from './consolidation';
+
+/** Okta caps rule names at 50 characters (the same limit consolidation names honour). */
+export const MAX_RULE_NAME_LENGTH = 50;
+
+/** The expression language Okta group rules are written in. */
+export const OKTA_EXPRESSION_TYPE = 'urn:okta:expression:1.0';
+
+/** A rule as the admin is authoring it. */
+export interface RuleDraft {
+  /** The rule's display name. Must be unique in the org (Okta enforces this on create). */
+  name: string;
+  /** The Okta Expression Language condition. **Untrusted:** never log. */
+  expression: string;
+  /** Target group ids, in the order the admin picked them. */
+  groupIds: string[];
+}
+
+/**
+ * Why a draft cannot be saved yet.
+ *
+ * - `name-empty` / `name-too-long` — Okta rejects both on create.
+ * - `expression-invalid` — the condition did not parse; `reasonCode` says why.
+ * - `no-target-groups` — a rule with nowhere to assign users is meaningless.
+ */
+export type RuleDraftIssue =
+  | { code: 'name-empty' }
+  | { code: 'name-too-long'; max: number }
+  | {
+      code: 'expression-invalid';
+      reasonCode: Extract<RuleUnevaluableReason, 'empty' | 'too-long' | 'parse-error'>;
+    }
+  | { code: 'no-target-groups' };
+
+/** An empty draft, the workbench's starting point for a brand-new rule. */
+export const EMPTY_RULE_DRAFT: RuleDraft = { name: '', expression: '', groupIds: [] };
+
+/**
+ * Seed a draft from an existing rule, for editing.
+ *
+ * @param rule - The raw rule (its expression and target groups are copied).
+ * @returns A draft carrying the rule's name, expression and target groups.
+ */
+export function draftFromRule(rule: OktaGroupRule): RuleDraft {
+  return {
+    name: rule.name,
+    expression: rule.conditions?.expression?.value ?? '',
+    groupIds: [...(rule.actions?.assignUserToGroups?.groupIds ?? [])],
+  };
+}
+
+/**
+ * Check a draft against everything the workbench can know before Okta sees it.
+ *
+ * Deliberately a list rather than the first failure: the form shows every
+ * problem at once instead of making the admin fix them one save at a time.
+ * Name uniqueness is *not* checked here — only Okta can answer that, and its
+ * create error is surfaced verbatim.
+ *
+ * @param draft - The draft to check.
+ * @returns Every issue found; empty when the draft is savable.
+ */
+export function validateRuleDraft(draft: RuleDraft): RuleDraftIssue[] {
+  const issues: RuleDraftIssue[] = [];
+  const name = draft.name.trim();
+  if (!name) issues.push({ code: 'name-empty' });
+  else if (name.length > MAX_RULE_NAME_LENGTH) {
+    issues.push({ code: 'name-too-long', max: MAX_RULE_NAME_LENGTH });
+  }
+
+  const parsed = parseRuleExpression(draft.expression);
+  if (!parsed.ok) issues.push({ code: 'expression-invalid', reasonCode: parsed.reasonCode });
+
+  if (draft.groupIds.length === 0) issues.push({ code: 'no-target-groups' });
+  return issues;
+}
+
+/**
+ * Build the `POST /api/v1/groups/rules` body for a draft.
+ *
+ * When editing, the original rule's `people` include/exclude lists are carried
+ * over verbatim — the workbench does not edit them, and dropping them would
+ * silently widen the rule.
+ *
+ * @param draft - A draft that passed {@link validateRuleDraft}.
+ * @param original - The rule being replaced, when editing.
+ * @returns The create payload. Target groups are de-duplicated, order preserved.
+ */
+export function buildRuleDraftPayload(
+  draft: RuleDraft,
+  original?: OktaGroupRule | null,
+): CreateRulePayload {
+  return {
+    type: original?.type || 'group_rule',
+    name: draft.name.trim(),
+    conditions: {
+      ...(original?.conditions?.people ? { people: original.conditions.people } : {}),
+      expression: { value: draft.expression.trim(), type: OKTA_EXPRESSION_TYPE },
+    },
+    actions: { assignUserToGroups: { groupIds: [...new Set(draft.groupIds)] } },
+  };
+}
+
+/** How a draft expression fared across a sample of users. */
+export interface RulePopulationEstimate {
+  /** Users evaluated. */
+  sampled: number;
+  /** Users the expression matched. */
+  matched: number;
+  /** Users it definitively did not match. */
+  noMatch: number;
+  /**
+   * Users the evaluator could not decide for (group-membership calls without a
+   * group list, unsupported functions). Never folded into either count above.
+   */
+  unevaluable: number;
+}
+
+/**
+ * Evaluate an expression across a sample of users.
+ *
+ * The sample carries no group lists — fetching one per user would turn an
+ * estimate into a crawl — so `isMemberOf*` clauses land in `unevaluable` unless
+ * the rest of the expression decides the answer on its own.
+ *
+ * @param expression - The draft condition (untrusted; never logged).
+ * @param users - The users to evaluate against.
+ * @returns The three-way tally.
+ */
+export function estimateRulePopulation(
+  expression: string,
+  users: readonly OktaUser[],
+): RulePopulationEstimate {
+  const estimate: RulePopulationEstimate = {
+    sampled: users.length,
+    matched: 0,
+    noMatch: 0,
+    unevaluable: 0,
+  };
+  for (const user of users) {
+    const outcome = tryEvaluateRuleExpression(expression, user);
+    if (outcome === 'match') estimate.matched++;
+    else if (outcome === 'no-match') estimate.noMatch++;
+    else estimate.unevaluable++;
+  }
+  return estimate;
+}
@@ -0,0 +1,96 @@
+/**
+ * @module shared/rules/ruleSnapshot.test
+ * @description Unit tests for capturing and recreating a deleted group rule.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildRestoreRulePayload, isRestorableSnapshot, snapshotRule } from './ruleSnapshot';
+import type { OktaGroupRule } from '../types';
+
+const rule: OktaGroupRule = {
+  id: '0prFAKE1',
+  name: 'Sales auto-assign',
+  status: 'ACTIVE',
+  type: 'group_rule',
+  created: '',
+  lastUpdated: '',
+  conditions: {
+    people: { users: { exclude: ['00uFAKEX'] } },
+    expression: { value: 'user.department=="Sales"', type: 'urn:okta:expression:1.0' },
+  },
+  actions: { assignUserToGroups: { groupIds: ['00gFAKE1', '00gFAKE2'] } },
+};
+
+describe('snapshotRule', () => {
+  it('captures the condition, targets, status and exclusions', () => {
+    expect(snapshotRule(rule)).toEqual({
+      id: '0prFAKE1',
+      name: 'Sales auto-assign',
+      expression: 'user.department=="Sales"',
+      groupIds: ['00gFAKE1', '00gFAKE2'],
+      status: 'ACTIVE',
+      excludedUserIds: ['00uFAKEX'],
+      people: { users: { exclude: ['00uFAKEX'] } },
+    });
+  });
+});
+
+describe('isRestorableSnapshot', () => {
+  it('needs a condition and a target group', () => {
+    expect(isRestorableSnapshot(snapshotRule(rule))).toBe(true);
+    expect(isRestorableSnapshot({ id: 'r', name: 'r', expression: ' ', groupIds: ['g'] })).toBe(
+      false,
+    );
+    expect(isRestorableSnapshot({ id: 'r', name: 'r', expression: 'x', groupIds: [] })).toBe(false);
+  });
+});
+
+describe('buildRestoreRulePayload', () => {
+  it('round-trips a snapshot into a create body', () => {
+    expect(buildRestoreRulePayload(snapshotRule(rule))).toEqual({
+      type: 'group_rule',
+      name: 'Sales auto-assign',
+      conditions: {
+        people: { users: { exclude: ['00uFAKEX'] } },
+        expression: { value: 'user.department=="Sales"', type: 'urn:okta:expression:1.0' },
+      },
+      actions: { assignUserToGroups: { groupIds: ['00gFAKE1', '00gFAKE2'] } },
+    });
+  });
+
+  it('sends back a group exclusion, so the recreated rule covers no more people', () => {
+    const withGroups: OktaGroupRule = {
+      ...rule,
+      conditions: {
+        ...rule.conditions,
+        people: { users: { exclude: ['00uFAKEX'] }, groups: { exclude: ['00gFAKEcontractors'] } },
+      },
+    };
+
+    expect(buildRestoreRulePayload(snapshotRule(withGroups)).conditions?.people).toEqual({
+      users: { exclude: ['00uFAKEX'] },
+      groups: { exclude: ['00gFAKEcontractors'] },
+    });
+  });
+
+  it('recreates an older snapshot from its excluded users', () => {
+    const payload = buildRestoreRulePayload({
+      id: 'r',
+      name: 'r',
+      expression: 'x',
+      groupIds: ['g'],
+      excludedUserIds: ['00uFAKEX'],
+    });
+    expect(payload.conditions?.people).toEqual({ users: { exclude: ['00uFAKEX'] } });
+  });
+
+  it('omits people conditions when nothing was excluded', () => {
+    const payload = buildRestoreRulePayload({
+      id: 'r',
+      name: 'r',
+      expression: 'x',
+      groupIds: ['g'],
+    });
+    expect(payload.conditions).not.toHaveProperty('people');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @module shared/rules/ruleSnapshot
+ * @description Capture a group rule's definition before it is deleted, and build
+ * the payload that recreates it.
+ *
+ * A delete is the one rule write Okta cannot take back: the rule and its id are
+ * gone. What *can* come back is a rule with the same name, condition, target
+ * groups and exclusions — under a new id — which is what undoing a delete means
+ * here. The snapshot is stored in the action history (`DELETE_RULE`), so it holds
+ * only what a recreate needs. All pure; the writes live in the hooks.
+ */
+
+import type { OktaGroupRule } from '../types';
+import type { RetiredRuleSnapshot } from '../undoTypes';
+import type { CreateRulePayload } from './consolidation';
+import { OKTA_EXPRESSION_TYPE } from './ruleDraft';
+
+/**
+ * Capture what is needed to recreate a rule.
+ *
+ * @param rule - The raw rule, as read just before the delete.
+ * @returns Its snapshot, including status and the whole `people` condition —
+ *   excluded groups as well as excluded users, so a recreate covers no one the
+ *   deleted rule did not.
+ */
+export function snapshotRule(rule: OktaGroupRule): RetiredRuleSnapshot {
+  return {
+    id: rule.id,
+    name: rule.name,
+    expression: rule.conditions?.expression?.value ?? '',
+    groupIds: [...(rule.actions?.assignUserToGroups?.groupIds ?? [])],
+    status: rule.status,
+    excludedUserIds: [...(rule.conditions?.people?.users?.exclude ?? [])],
+    ...(rule.conditions?.people ? { people: rule.conditions.people } : {}),
+  };
+}
+
+/**
+ * What a snapshot's rule excluded, for a confirm to name.
+ *
+ * @param snapshot - The captured rule.
+ * @returns The excluded user and group counts.
+ */
+export function snapshotExclusions(snapshot: RetiredRuleSnapshot): {
+  users: number;
+  groups: number;
+} {
+  return {
+    users: (snapshot.people?.users?.exclude ?? snapshot.excludedUserIds ?? []).length,
+    groups: (snapshot.people?.groups?.exclude ?? []).length,
+  };
+}
+
+/**
+ * Whether a snapshot holds enough to recreate its rule: a condition and at least
+ * one target group. Consolidation snapshots written by older builds may lack
+ * either.
+ *
+ * @param snapshot - The captured rule.
+ * @returns `true` when {@link buildRestoreRulePayload} can be used.
+ */
+export function isRestorableSnapshot(snapshot: RetiredRuleSnapshot): boolean {
+  return snapshot.expression.trim().length > 0 && snapshot.groupIds.length > 0;
+}
+
+/**
+ * Build the `POST /api/v1/groups/rules` body that recreates a snapshotted rule.
+ *
+ * @param snapshot - A snapshot that passed {@link isRestorableSnapshot}.
+ * @returns The create payload, its `people` condition as captured; the rule is
+ *   created `INACTIVE`, as every create is.
+ */
+export function buildRestoreRulePayload(snapshot: RetiredRuleSnapshot): CreateRulePayload {
+  const excluded = snapshot.excludedUserIds ?? [];
+  // Older snapshots kept only the excluded users.
+  const people =
+    snapshot.people ?? (excluded.length > 0 ? { users: { exclude: [...excluded] } } : undefined);
+  return {
+    type: 'group_rule',
+    name: snapshot.name,
+    conditions: {
+      ...(people ? { people } : {}),
+      expression: { value: snapshot.expression, type: OKTA_EXPRESSION_TYPE },
+    },
+    actions: { assignUserToGroups: { groupIds: [...snapshot.groupIds] } },
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Tests for SAML response decoding.
+ *
+ * Pins the inputs accepted (base64 with line breaks, a form body, raw XML), the
+ * inputs refused (not base64, not XML, a DOCTYPE, a document that is not a
+ * Response), the summary fields read, and that highlights land on the elements
+ * and attributes the inspector calls out. Signatures are reported as present,
+ * never checked.
+ *
+ * Fixtures use only fake placeholders (`example.com`, `FAKECERT…`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  decodeSamlResponse,
+  samlValidityAt,
+  type SamlXmlNode,
+  type SamlSummary,
+} from './samlResponse';
+
+const RESPONSE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<saml2p:Response xmlns:saml2p="urn:oasis:names:tc:SAML:2.0:protocol" Destination="https://app.example.com/sso/acs" ID="idFAKE1" Version="2.0">
+  <saml2:Issuer xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion">http://www.okta.com/exkFAKE1</saml2:Issuer>
+  <saml2p:Status><saml2p:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></saml2p:Status>
+  <saml2:Assertion xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion" ID="idFAKE2" Version="2.0">
+    <saml2:Issuer>http://www.okta.com/exkFAKE1</saml2:Issuer>
+    <ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#">
+      <ds:KeyInfo><ds:X509Data><ds:X509Certificate>FAKECERT
+AAAA</ds:X509Certificate></ds:X509Data></ds:KeyInfo>
+    </ds:Signature>
+    <saml2:Subject>
+      <saml2:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">ada@example.com</saml2:NameID>
+      <saml2:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">
+        <saml2:SubjectConfirmationData NotOnOrAfter="2026-03-02T12:05:00.000Z" Recipient="https://app.example.com/sso/acs"/>
+      </saml2:SubjectConfirmation>
+    </saml2:Subject>
+    <saml2:Conditions NotBefore="2026-03-02T11:55:00.000Z" NotOnOrAfter="2026-03-02T12:05:00.000Z">
+      <saml2:AudienceRestriction><saml2:Audience>https://app.example.com</saml2:Audience></saml2:AudienceRestriction>
+    </saml2:Conditions>
+    <saml2:AttributeStatement>
+      <saml2:Attribute Name="groups"><saml2:AttributeValue>Engineering</saml2:AttributeValue><saml2:AttributeValue>Staff</saml2:AttributeValue></saml2:Attribute>
+      <saml2:Attribute Name="department"><saml2:AttributeValue>R&amp;D</saml2:AttributeValue></saml2:Attribute>
+    </saml2:AttributeStatement>
+  </saml2:Assertion>
+</saml2p:Response>`;
+
+const base64 = (text: string) => btoa(text);
+
+/** Every node in the tree, depth first. */
+const flatten = (node: SamlXmlNode): SamlXmlNode[] => [node, ...node.children.flatMap(flatten)];
+
+const decoded = () => {
+  const result = decodeSamlResponse(base64(RESPONSE_XML));
+  if (!result.ok) throw new Error(result.error);
+  return result;
+};
+
+describe('decodeSamlResponse — inputs', () => {
+  it('reads base64 broken across lines', () => {
+    const wrapped = base64(RESPONSE_XML).replace(/(.{76})/g, '$1\n');
+    expect(decodeSamlResponse(wrapped).ok).toBe(true);
+  });
+
+  it('reads the SAMLResponse field out of a pasted form body', () => {
+    const body = `RelayState=abc&SAMLResponse=${encodeURIComponent(base64(RESPONSE_XML))}`;
+    expect(decodeSamlResponse(body).ok).toBe(true);
+  });
+
+  it('reads already-decoded XML', () => {
+    expect(decodeSamlResponse(RESPONSE_XML).ok).toBe(true);
+  });
+
+  it('refuses a value that is not base64, and an empty one', () => {
+    expect(decodeSamlResponse('not base64!')).toEqual({
+      ok: false,
+      error: expect.stringContaining('not base64'),
+    });
+    expect(decodeSamlResponse('  ')).toEqual({ ok: false, error: expect.any(String) });
+  });
+
+  it('refuses base64 that does not decode to XML', () => {
+    expect(decodeSamlResponse(base64('hello world'))).toEqual({
+      ok: false,
+      error: expect.stringContaining('something other than XML'),
+    });
+  });
+
+  it('refuses a document with a DOCTYPE without parsing it', () => {
+    const hostile = `<!DOCTYPE r [<!ENTITY a "aaaa">]><r>&a;</r>`;
+    expect(decodeSamlResponse(base64(hostile))).toEqual({
+      ok: false,
+      error: expect.stringContaining('DOCTYPE'),
+    });
+  });
+
+  it('refuses malformed XML and a document that is not a Response', () => {
+    expect(decodeSamlResponse(base64('<a><b></a>')).ok).toBe(false);
+    const request = '<samlp:AuthnRequest xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol"/>';
+    expect(decodeSamlResponse(base64(request))).toEqual({
+      ok: false,
+      error: 'The document is a AuthnRequest, not a SAML 2.0 Response.',
+    });
+  });
+});
+
+describe('decodeSamlResponse — summary', () => {
+  it('reads the fields an admin checks first', () => {
+    const { summary } = decoded();
+    expect(summary).toMatchObject<Partial<SamlSummary>>({
+      statusCode: 'urn:oasis:names:tc:SAML:2.0:status:Success',
+      issuer: 'http://www.okta.com/exkFAKE1',
+      destination: 'https://app.example.com/sso/acs',
+      nameId: {
+        value: 'ada@example.com',
+        format: 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress',
+      },
+      audiences: ['https://app.example.com'],
+      recipients: ['https://app.example.com/sso/acs'],
+      notBefore: '2026-03-02T11:55:00.000Z',
+      notOnOrAfter: '2026-03-02T12:05:00.000Z',
+      attributes: [
+        { name: 'groups', values: ['Engineering', 'Staff'] },
+        { name: 'department', values: ['R&D'] },
+      ],
+      certificates: ['FAKECERTAAAA'],
+      signed: { response: false, assertion: true },
+      encryptedAssertion: false,
+    });
+  });
+
+  it('says an encrypted assertion cannot be read rather than reporting no subject', () => {
+    const encrypted = `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion"><saml:EncryptedAssertion/></samlp:Response>`;
+    const result = decodeSamlResponse(base64(encrypted));
+    expect(result.ok && result.summary.encryptedAssertion).toBe(true);
+    expect(result.ok && result.summary.nameId).toBeNull();
+  });
+});
+
+describe('decodeSamlResponse — tree', () => {
+  it('highlights the called-out elements and attributes, and drops namespace declarations', () => {
+    const nodes = flatten(decoded().tree);
+    const highlighted = (name: string) => nodes.find((n) => n.name === name)?.highlight;
+
+    expect(highlighted('saml2:NameID')).toBe('nameId');
+    expect(highlighted('saml2:Audience')).toBe('audience');
+    expect(highlighted('saml2:AttributeStatement')).toBe('attributes');
+    expect(highlighted('saml2:Conditions')).toBe('conditions');
+    expect(highlighted('ds:X509Certificate')).toBe('certificate');
+
+    const confirmation = nodes.find((n) => n.name === 'saml2:SubjectConfirmationData');
+    expect(confirmation?.attributes.find((a) => a.name === 'Recipient')?.highlight).toBe(
+      'recipient',
+    );
+    expect(nodes.some((n) => n.attributes.some((a) => a.name.startsWith('xmlns')))).toBe(false);
+  });
+
+  it('keeps text as text, entities decoded once', () => {
+    const nodes = flatten(decoded().tree);
+    expect(nodes.filter((n) => n.name === 'saml2:AttributeValue').map((n) => n.text)).toEqual([
+      'Engineering',
+      'Staff',
+      'R&D',
+    ]);
+  });
+});
+
+describe('samlValidityAt', () => {
+  const { summary } = decoded();
+
+  it('places a moment against the Conditions window', () => {
+    expect(samlValidityAt(summary, new Date('2026-03-02T11:50:00.000Z'))).toBe('not-yet-valid');
+    expect(samlValidityAt(summary, new Date('2026-03-02T12:00:00.000Z'))).toBe('valid');
+    expect(samlValidityAt(summary, new Date('2026-03-02T12:05:00.000Z'))).toBe('expired');
+  });
+
+  it('is unknown without a window', () => {
+    expect(samlValidityAt({ ...summary, notBefore: null, notOnOrAfter: null }, new Date())).toBe(
+      'unknown',
+    );
+  });
+});
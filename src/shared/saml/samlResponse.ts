@@ -0,0 +1,368 @@
+/**
+ * @module shared/saml/samlResponse
+ * @description Decode a SAML 2.0 `SAMLResponse` into a tree the SSO Inspector can
+ * render, and pull out the fields an admin debugging a broken SSO reads first.
+ *
+ * The input is untrusted: it is whatever the admin pasted, or the value of a form
+ * field on the Okta tab. So it is treated as data from end to end.
+ *
+ * - It is size-capped before it is decoded, and the decoded document is refused
+ *   if it declares a DOCTYPE — SAML never needs one, and an internal subset is how
+ *   entity-expansion payloads arrive.
+ * - It is parsed with `DOMParser` as `application/xml`, which never runs script
+ *   and never fetches, and a parse error is reported rather than half-rendered.
+ * - The DOM is copied into plain {@link SamlXmlNode} objects with a depth and a
+ *   node cap. Nothing from it reaches the UI except as strings React escapes; no
+ *   node is ever inserted into the side panel's document.
+ *
+ * ## What is accepted
+ *
+ * The POST binding's base64, with or without line breaks; a pasted form body or
+ * query string carrying `SAMLResponse=…` (URL-decoded first); or the already
+ * decoded XML. The redirect binding deflates its payload, and Okta only uses it
+ * for requests, so a deflated value is reported as not a response.
+ *
+ * ## What the summary claims
+ *
+ * It reads the values as sent and verifies nothing: a signature is reported as
+ * present, never as valid, and the certificate is the one the document embeds,
+ * which is not necessarily the one the app trusts. An encrypted assertion cannot
+ * be read without the app's private key, and the summary says so instead of
+ * reporting an empty subject.
+ *
+ * Assertions carry user data (login, email, attribute values): nothing here logs.
+ */
+
+const PROTOCOL_NS = 'urn:oasis:names:tc:SAML:2.0:protocol';
+const ASSERTION_NS = 'urn:oasis:names:tc:SAML:2.0:assertion';
+const DSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+
+/** The largest input accepted, in characters. Real responses are a few kilobytes. */
+export const MAX_SAML_INPUT_CHARS = 512 * 1024;
+
+/** Deeper than any real assertion; a document past it is refused, not truncated. */
+const MAX_TREE_DEPTH = 64;
+
+/** Element count past which a document is refused rather than rendered. */
+const MAX_TREE_NODES = 5000;
+
+/** The parts of a response the inspector calls out. */
+export type SamlHighlight =
+  'nameId' | 'audience' | 'recipient' | 'attributes' | 'conditions' | 'certificate';
+
+/** One XML attribute, as text. */
+export interface SamlXmlAttribute {
+  name: string;
+  value: string;
+  highlight: SamlHighlight | null;
+}
+
+/** One element of the decoded document, copied out of the DOM. */
+export interface SamlXmlNode {
+  /** Stable position path ("0.2.1"), for React keys. */
+  key: string;
+  /** The qualified name as written, e.g. `saml2:Assertion`. */
+  name: string;
+  /** Attributes, without namespace declarations. */
+  attributes: SamlXmlAttribute[];
+  /** The element's own text, trimmed; `null` when it has none or has child elements. */
+  text: string | null;
+  children: SamlXmlNode[];
+  highlight: SamlHighlight | null;
+}
+
+/** One `<Attribute>` of an attribute statement. */
+export interface SamlAttribute {
+  name: string;
+  values: string[];
+}
+
+/** The fields an admin reads first, as sent. */
+export interface SamlSummary {
+  /** The top-level status code, e.g. `urn:oasis:names:tc:SAML:2.0:status:Success`. */
+  statusCode: string | null;
+  statusMessage: string | null;
+  issuer: string | null;
+  /** Where the response was posted to (`Response@Destination`). */
+  destination: string | null;
+  nameId: { value: string; format: string | null } | null;
+  audiences: string[];
+  /** `SubjectConfirmationData@Recipient` values. */
+  recipients: string[];
+  notBefore: string | null;
+  /** `Conditions@NotOnOrAfter`: when the assertion stops being acceptable. */
+  notOnOrAfter: string | null;
+  attributes: SamlAttribute[];
+  /** Embedded signing certificates (base64 DER, whitespace removed), deduplicated. */
+  certificates: string[];
+  /** Where a `<Signature>` sits. Present is not the same as valid. */
+  signed: { response: boolean; assertion: boolean };
+  /** The assertion is encrypted: subject, conditions and attributes are unreadable here. */
+  encryptedAssertion: boolean;
+}
+
+/** The outcome of {@link decodeSamlResponse}. */
+export type DecodedSamlResponse =
+  { ok: true; xml: string; tree: SamlXmlNode; summary: SamlSummary } | { ok: false; error: string };
+
+/** Where `now` falls against the assertion's `Conditions` window. */
+export type SamlValidity = 'not-yet-valid' | 'valid' | 'expired' | 'unknown';
+
+/** Element highlights, keyed by namespace and local name. */
+const ELEMENT_HIGHLIGHTS: ReadonlyArray<[string, string, SamlHighlight]> = [
+  [ASSERTION_NS, 'NameID', 'nameId'],
+  [ASSERTION_NS, 'Audience', 'audience'],
+  [ASSERTION_NS, 'SubjectConfirmationData', 'recipient'],
+  [ASSERTION_NS, 'AttributeStatement', 'attributes'],
+  [ASSERTION_NS, 'Conditions', 'conditions'],
+  [DSIG_NS, 'X509Certificate', 'certificate'],
+];
+
+/** Attribute highlights by attribute name; only on the elements named. */
+const ATTRIBUTE_HIGHLIGHTS: ReadonlyArray<[string, string, SamlHighlight]> = [
+  ['SubjectConfirmationData', 'Recipient', 'recipient'],
+  ['SubjectConfirmationData', 'NotOnOrAfter', 'conditions'],
+  ['Conditions', 'NotBefore', 'conditions'],
+  ['Conditions', 'NotOnOrAfter', 'conditions'],
+];
+
+/**
+ * The base64 payload (or XML) inside whatever was pasted.
+ *
+ * @returns The payload, or an error message.
+ */
+function extractPayload(input: string): { payload: string } | { error: string } {
+  let value = input.trim();
+  if (!value) return { error: 'Paste a SAMLResponse to inspect.' };
+  if (value.startsWith('<')) return { payload: value };
+
+  const field = /(?:^|[?&])SAMLResponse=([^&\s]*)/.exec(value);
+  try {
+    if (field) {
+      // A form body: `+` is an encoded space there, and base64's own `+` is `%2B`.
+      value = decodeURIComponent(field[1].replace(/\+/g, ' '));
+    } else if (/%[0-9A-Fa-f]{2}/.test(value)) {
+      value = decodeURIComponent(value);
+    }
+  } catch {
+    return { error: 'The value is not valid URL encoding.' };
+  }
+
+  value = value.replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(value)) {
+    return { error: 'The value is not base64. Paste the SAMLResponse field’s value.' };
+  }
+  return { payload: value };
+}
+
+/** Decode base64 to UTF-8 text, or `null` when it does not decode. */
+function decodeBase64Utf8(value: string): string | null {
+  try {
+    const binary = atob(value);
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/** The element highlight for one element, if any. */
+function elementHighlight(el: Element): SamlHighlight | null {
+  const hit = ELEMENT_HIGHLIGHTS.find(
+    ([ns, local]) => el.namespaceURI === ns && el.localName === local,
+  );
+  return hit ? hit[2] : null;
+}
+
+/** Copy one element (and its subtree) out of the DOM. */
+function copyElement(
+  el: Element,
+  key: string,
+  depth: number,
+  budget: { nodes: number },
+): SamlXmlNode {
+  budget.nodes += 1;
+  if (depth > MAX_TREE_DEPTH || budget.nodes > MAX_TREE_NODES) {
+    throw new Error('The document is too large or too deeply nested to display.');
+  }
+
+  const attributes: SamlXmlAttribute[] = [];
+  for (const attr of Array.from(el.attributes)) {
+    if (attr.name === 'xmlns' || attr.name.startsWith('xmlns:')) continue;
+    const hit = ATTRIBUTE_HIGHLIGHTS.find(
+      ([owner, name]) =>
+        el.namespaceURI === ASSERTION_NS && el.localName === owner && attr.name === name,
+    );
+    attributes.push({ name: attr.name, value: attr.value, highlight: hit ? hit[2] : null });
+  }
+
+  const elementChildren = Array.from(el.children);
+  const children = elementChildren.map((child, index) =>
+    copyElement(child, `${key}.${index}`, depth + 1, budget),
+  );
+  const ownText = elementChildren.length
+    ? ''
+    : Array.from(el.childNodes)
+        .filter((n) => n.nodeType === 3 || n.nodeType === 4)
+        .map((n) => n.nodeValue ?? '')
+        .join('')
+        .trim();
+
+  return {
+    key,
+    name: el.tagName,
+    attributes,
+    text: ownText || null,
+    children,
+    highlight: elementHighlight(el),
+  };
+}
+
+/** The trimmed text of the first element by namespace and local name under `root`. */
+function firstText(root: Element, ns: string, local: string): string | null {
+  const el = root.getElementsByTagNameNS(ns, local)[0];
+  const text = el?.textContent?.trim();
+  return text || null;
+}
+
+/** A direct child by namespace and local name. */
+function childNS(parent: Element, ns: string, local: string): Element | undefined {
+  return Array.from(parent.children).find((c) => c.namespaceURI === ns && c.localName === local);
+}
+
+/** Read the summary fields from a parsed `<samlp:Response>`. */
+function summarize(response: Element): SamlSummary {
+  const status = childNS(response, PROTOCOL_NS, 'Status');
+  const statusCode = status ? childNS(status, PROTOCOL_NS, 'StatusCode') : undefined;
+  const assertion = childNS(response, ASSERTION_NS, 'Assertion');
+  const issuerEl =
+    childNS(response, ASSERTION_NS, 'Issuer') ??
+    (assertion ? childNS(assertion, ASSERTION_NS, 'Issuer') : undefined);
+  const nameIdEl = assertion?.getElementsByTagNameNS(ASSERTION_NS, 'NameID')[0];
+  const conditions = assertion?.getElementsByTagNameNS(ASSERTION_NS, 'Conditions')[0];
+
+  const textsOf = (root: Element | undefined, ns: string, local: string) =>
+    root
+      ? Array.from(root.getElementsByTagNameNS(ns, local))
+          .map((el) => el.textContent?.trim() ?? '')
+          .filter(Boolean)
+      : [];
+
+  const recipients = assertion
+    ? Array.from(assertion.getElementsByTagNameNS(ASSERTION_NS, 'SubjectConfirmationData'))
+        .map((el) => el.getAttribute('Recipient'))
+        .filter((value): value is string => Boolean(value))
+    : [];
+
+  const attributes: SamlAttribute[] = assertion
+    ? Array.from(assertion.getElementsByTagNameNS(ASSERTION_NS, 'Attribute')).map((el) => ({
+        name: el.getAttribute('Name') ?? el.getAttribute('FriendlyName') ?? '',
+        values: Array.from(el.getElementsByTagNameNS(ASSERTION_NS, 'AttributeValue')).map(
+          (v) => v.textContent?.trim() ?? '',
+        ),
+      }))
+    : [];
+
+  const certificates = [
+    ...new Set(textsOf(response, DSIG_NS, 'X509Certificate').map((c) => c.replace(/\s+/g, ''))),
+  ];
+
+  return {
+    statusCode: statusCode?.getAttribute('Value') ?? null,
+    statusMessage: status ? firstText(status, PROTOCOL_NS, 'StatusMessage') : null,
+    issuer: issuerEl?.textContent?.trim() || null,
+    destination: response.getAttribute('Destination'),
+    nameId: nameIdEl
+      ? { value: nameIdEl.textContent?.trim() ?? '', format: nameIdEl.getAttribute('Format') }
+      : null,
+    audiences: textsOf(assertion, ASSERTION_NS, 'Audience'),
+    recipients: [...new Set(recipients)],
+    notBefore: conditions?.getAttribute('NotBefore') ?? null,
+    notOnOrAfter: conditions?.getAttribute('NotOnOrAfter') ?? null,
+    attributes,
+    certificates,
+    signed: {
+      response: Boolean(childNS(response, DSIG_NS, 'Signature')),
+      assertion: Boolean(assertion && childNS(assertion, DSIG_NS, 'Signature')),
+    },
+    encryptedAssertion:
+      !assertion && Boolean(childNS(response, ASSERTION_NS, 'EncryptedAssertion')),
+  };
+}
+
+/**
+ * Decode and parse a pasted or captured `SAMLResponse`.
+ *
+ * @param input - Base64, a form body or query string carrying `SAMLResponse=`, or XML.
+ * @param parser - The XML parser; injectable for tests.
+ * @returns The tree and summary, or why the input could not be read.
+ */
+export function decodeSamlResponse(
+  input: string,
+  parser: DOMParser = new DOMParser(),
+): DecodedSamlResponse {
+  if (input.length > MAX_SAML_INPUT_CHARS) {
+    return { ok: false, error: 'The value is too large to be a SAML response.' };
+  }
+  const extracted = extractPayload(input);
+  if ('error' in extracted) return { ok: false, error: extracted.error };
+
+  const xml = extracted.payload.startsWith('<')
+    ? extracted.payload
+    : decodeBase64Utf8(extracted.payload);
+  if (xml === null || !xml.trimStart().startsWith('<')) {
+    return {
+      ok: false,
+      error:
+        'The value decodes to something other than XML. A redirect-binding (deflated) value is a request, not a response.',
+    };
+  }
+  if (/<!DOCTYPE|<!ENTITY/i.test(xml)) {
+    return {
+      ok: false,
+      error: 'The document declares a DOCTYPE, which SAML never uses; not parsed.',
+    };
+  }
+
+  const doc = parser.parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { ok: false, error: 'The decoded value is not well-formed XML.' };
+  }
+  const root = doc.documentElement;
+  if (root.namespaceURI !== PROTOCOL_NS || root.localName !== 'Response') {
+    return {
+      ok: false,
+      error: `The document is a ${root.localName}, not a SAML 2.0 Response.`,
+    };
+  }
+
+  try {
+    return {
+      ok: true,
+      xml,
+      tree: copyElement(root, '0', 0, { nodes: 0 }),
+      summary: summarize(root),
+    };
+  } catch (err) {
+    return {
+      ok: false,
+      error: err instanceof Error ? err.message : 'The document could not be read.',
+    };
+  }
+}
+
+/**
+ * Where a moment falls against the assertion's `Conditions` window.
+ *
+ * @param summary - The decoded summary.
+ * @param now - The moment to test, usually the current time.
+ * @returns `unknown` when the window is absent or unparseable.
+ */
+export function samlValidityAt(summary: SamlSummary, now: Date): SamlValidity {
+  const notBefore = summary.notBefore ? Date.parse(summary.notBefore) : NaN;
+  const notOnOrAfter = summary.notOnOrAfter ? Date.parse(summary.notOnOrAfter) : NaN;
+  if (Number.isNaN(notBefore) && Number.isNaN(notOnOrAfter)) return 'unknown';
+  if (!Number.isNaN(notBefore) && now.getTime() < notBefore) return 'not-yet-valid';
+  if (!Number.isNaN(notOnOrAfter) && now.getTime() >= notOnOrAfter) return 'expired';
+  return 'valid';
+}
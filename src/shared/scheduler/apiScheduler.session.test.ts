@@ -0,0 +1,165 @@
+/**
+ * Tests for the scheduler's sign-in hold.
+ *
+ * A request answered with an expired-session error must not fail: it goes back on
+ * the queue, its tab's requests wait with `awaitingSignIn` set, and a probe of
+ * `/api/v1/sessions/me` resumes them once the admin has signed in again. Only that
+ * tab waits — another tab's requests keep going. A request is held only once, a
+ * permission 403 is never held, one that does not await sign-in is answered as
+ * is, and Cancel lifts the hold.
+ * The probe waits 15s, so these run under fake timers.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ApiScheduler } from './apiScheduler';
+import { OperationCancelledError } from './cancellation';
+import { OKTA_SESSION_ENDPOINT, SESSION_PROBE_INTERVAL_MS } from '../session/oktaSession';
+
+let scheduler: ApiScheduler;
+const sendMessage = vi.fn();
+
+const EXPIRED = { success: false, error: 'Unauthorized', status: 401, data: {} };
+const SIGNED_OUT_403 = { success: false, status: 403, data: { errorCode: 'E0000005' } };
+
+/** Endpoints dispatched to the content script, in order. */
+function dispatchedEndpoints(): string[] {
+  return sendMessage.mock.calls
+    .filter((c) => c[1]?.action === 'makeApiRequest')
+    .map((c) => c[1].endpoint as string);
+}
+
+/**
+ * Answer requests from a session that is signed out until `signIn()` is called.
+ * `expiredResult` is what a signed-out session answers with.
+ */
+function sessionBackedTab(expiredResult: object = EXPIRED) {
+  let signedIn = false;
+  sendMessage.mockImplementation(async () =>
+    signedIn ? { success: true, data: 'ok' } : expiredResult,
+  );
+  return { signIn: () => (signedIn = true) };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.clearAllMocks();
+  (chrome as unknown as { tabs: { sendMessage: typeof sendMessage } }).tabs = {
+    sendMessage,
+  };
+});
+
+afterEach(() => {
+  scheduler?.stop();
+  vi.useRealTimers();
+});
+
+describe('ApiScheduler sign-in hold', () => {
+  it('pauses on an expired session and resumes the held work after sign-in', async () => {
+    const tab = sessionBackedTab();
+    scheduler = new ApiScheduler({ maxConcurrent: 1, maxRetries: 0 });
+
+    const first = scheduler.scheduleRequest('/api/v1/users/a', 'GET', undefined, 1);
+    const second = scheduler.scheduleRequest('/api/v1/users/b', 'GET', undefined, 1);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(scheduler.getState()).toMatchObject({ status: 'paused', awaitingSignIn: true });
+    // The second request never left the queue.
+    expect(dispatchedEndpoints()).toEqual(['/api/v1/users/a']);
+
+    // Still signed out: the probe fails and the hold stays.
+    await vi.advanceTimersByTimeAsync(SESSION_PROBE_INTERVAL_MS);
+    expect(dispatchedEndpoints()).toEqual(['/api/v1/users/a', OKTA_SESSION_ENDPOINT]);
+    expect(scheduler.getState().awaitingSignIn).toBe(true);
+
+    tab.signIn();
+    await vi.advanceTimersByTimeAsync(SESSION_PROBE_INTERVAL_MS + 100);
+
+    await expect(first).resolves.toMatchObject({ success: true });
+    await expect(second).resolves.toMatchObject({ success: true });
+    expect(scheduler.getState()).toMatchObject({ awaitingSignIn: false });
+    expect(dispatchedEndpoints().slice(-2)).toEqual(['/api/v1/users/a', '/api/v1/users/b']);
+  });
+
+  it('holds a 403 only when Okta says the session is invalid', async () => {
+    sessionBackedTab(SIGNED_OUT_403);
+    scheduler = new ApiScheduler({ maxRetries: 0 });
+    void scheduler.scheduleRequest('/api/v1/users/a', 'GET', undefined, 1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(scheduler.getState().awaitingSignIn).toBe(true);
+    scheduler.stop();
+
+    sendMessage.mockReset();
+    sendMessage.mockResolvedValue({ success: false, status: 403, data: { errorCode: 'E0000006' } });
+    scheduler = new ApiScheduler({ maxRetries: 0 });
+    const denied = scheduler.scheduleRequest('/api/v1/users/a', 'GET', undefined, 1);
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(denied).resolves.toMatchObject({ success: false, status: 403 });
+    expect(scheduler.getState().awaitingSignIn).toBe(false);
+  });
+
+  it('answers a request that meets the expired session a second time as is', async () => {
+    sessionBackedTab();
+    scheduler = new ApiScheduler({ maxRetries: 0 });
+    const request = scheduler.scheduleRequest('/api/v1/users/a', 'GET', undefined, 1);
+    await vi.advanceTimersByTimeAsync(100);
+
+    // The admin resumes by hand without signing in.
+    scheduler.resume();
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(request).resolves.toMatchObject({ success: false, status: 401 });
+    expect(scheduler.getState().awaitingSignIn).toBe(false);
+  });
+
+  it('holds only the tab whose session expired; another tab keeps going', async () => {
+    // Tab 1 is signed out; tab 2 (another org, or a fresh sign-in) is not.
+    let tab1SignedIn = false;
+    sendMessage.mockImplementation(async (tabId: number) =>
+      tabId === 2 || tab1SignedIn ? { success: true, data: 'ok' } : EXPIRED,
+    );
+    scheduler = new ApiScheduler({ maxConcurrent: 1, maxRetries: 0 });
+
+    const held = scheduler.scheduleRequest('/api/v1/users/a', 'GET', undefined, 1, 'low');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(scheduler.getState()).toMatchObject({ status: 'paused', awaitingSignIn: true });
+
+    const other = scheduler.scheduleRequest('/api/v1/users/b', 'GET', undefined, 2);
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(other).resolves.toMatchObject({ success: true });
+    expect(scheduler.getState().awaitingSignIn).toBe(true);
+
+    tab1SignedIn = true;
+    await vi.advanceTimersByTimeAsync(SESSION_PROBE_INTERVAL_MS + 100);
+    await expect(held).resolves.toMatchObject({ success: true });
+    expect(scheduler.getState().awaitingSignIn).toBe(false);
+  });
+
+  it('answers a request that does not await sign-in with the expired session', async () => {
+    sessionBackedTab();
+    scheduler = new ApiScheduler({ maxRetries: 0 });
+
+    const request = scheduler.scheduleRequest('/api/v1/users/a', 'GET', undefined, 1, 'low', {
+      awaitSignIn: false,
+    });
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(request).resolves.toMatchObject({ success: false, status: 401 });
+    expect(scheduler.getState().awaitingSignIn).toBe(false);
+  });
+
+  it('lifts the hold when the queue is cleared', async () => {
+    sessionBackedTab();
+    scheduler = new ApiScheduler({ maxRetries: 0 });
+    const request = scheduler.scheduleRequest('/api/v1/users/a', 'GET', undefined, 1);
+    await vi.advanceTimersByTimeAsync(100);
+
+    scheduler.clearQueue();
+
+    await expect(request).rejects.toBeInstanceOf(OperationCancelledError);
+    expect(scheduler.getState()).toMatchObject({ awaitingSignIn: false });
+    expect(scheduler.getState().status).not.toBe('paused');
+    // No probe is left running.
+    await vi.advanceTimersByTimeAsync(SESSION_PROBE_INTERVAL_MS);
+    expect(dispatchedEndpoints()).toEqual(['/api/v1/users/a']);
+  });
+});
@@ -8,6 +8,7 @@
  * - Bounds concurrency and dispatches each request to the content script
  * - Parses rate-limit headers and enters cooldown near the limit
  * - Auto-retries failures with exponential backoff
+ * - Holds a tab's work while its Okta session is expired, and resumes after sign-in
  * - Tracks metrics and broadcasts state to subscribers
  *
  * @see {@link RateLimitDetector}
@@ -16,6 +17,11 @@
 import { createLogger } from '../utils/logger';
 import { OperationCancelledError } from './cancellation';
 import { RateLimitDetector } from './rateLimitDetector';
+import {
+  OKTA_SESSION_ENDPOINT,
+  SESSION_PROBE_INTERVAL_MS,
+  isSessionExpiredResult,
+} from '../session/oktaSession';
 import type {
   QueuedRequest,
   RequestPriority,
@@ -71,6 +77,11 @@ export class ApiScheduler {
   // the value moved — so Cancel also stops mid-backoff requests, not just queued ones.
   private cancelGeneration: number = 0;
 
+  // Tabs whose session expired, each with its next probe (every
+  // SESSION_PROBE_INTERVAL_MS until it answers again). Only those tabs' requests
+  // wait; another tab — another org, or a session still signed in — keeps going.
+  private signInHolds: Map<number, ReturnType<typeof setTimeout> | null> = new Map();
+
   // Metrics
   private metrics: SchedulerMetrics = {
     totalRequests: 0,
@@ -110,6 +121,9 @@ export class ApiScheduler {
    * @param body - Optional request body (ignored for GET).
    * @param tabId - Tab whose content script executes the fetch.
    * @param priority - Queue priority; higher runs first.
+   * @param options - `awaitSignIn: false` answers the request with the expired
+   *   session's error instead of holding it until sign-in — for background work
+   *   no one is waiting on.
    * @returns The {@link RequestResult} once the request settles.
    */
   async scheduleRequest(
@@ -118,6 +132,7 @@ export class ApiScheduler {
     body: unknown,
     tabId: number,
     priority: RequestPriority = 'normal',
+    options: { awaitSignIn?: boolean } = {},
   ): Promise<RequestResult> {
     const dedupKey = this.getGetDedupKey(method, endpoint, tabId);
 
@@ -147,6 +162,7 @@ export class ApiScheduler {
         reject,
         retryCount: 0,
         maxRetries: this.config.maxRetries,
+        awaitsSignIn: options.awaitSignIn ?? true,
       };
 
       // Register this GET as the coalescing leader and fan its result out to any
@@ -255,6 +271,7 @@ export class ApiScheduler {
    */
   stop(): void {
     this.stopProcessing();
+    this.clearSignInHolds();
   }
 
   /**
@@ -298,13 +315,18 @@ export class ApiScheduler {
       this.cooldownEndsAt = null;
     }
 
-    while (this.activeRequests.size < this.config.maxConcurrent && this.queue.length > 0) {
+    while (this.activeRequests.size < this.config.maxConcurrent) {
+      // The head is the first request whose tab is not waiting for sign-in.
+      const headIndex = this.queue.findIndex((queued) => !this.signInHolds.has(queued.tabId));
+      if (headIndex === -1) break;
+
       // An `interactive` request at the head of the (priority-ordered) queue may
       // jump the soft rate-limit gates — but only while there is genuine hard
       // headroom left, so it can never force a 429. See {@link RequestPriority}.
       // Re-evaluated every iteration: the head changes as requests dispatch.
       const interactiveBypass =
-        this.queue[0]?.priority === 'interactive' && !this.rateLimitDetector.isLimitExceeded();
+        this.queue[headIndex].priority === 'interactive' &&
+        !this.rateLimitDetector.isLimitExceeded();
 
       // Check cooldown (may have been armed mid-drain by a settling request).
       // An interactive head falls through to dispatch; the cooldown stays armed
@@ -328,8 +350,7 @@ export class ApiScheduler {
         return;
       }
 
-      const request = this.queue.shift();
-      if (!request) return;
+      const [request] = this.queue.splice(headIndex, 1);
 
       // Execute request (synchronously registers itself in activeRequests, so
       // the loop condition above stays accurate for the next iteration).
@@ -337,9 +358,16 @@ export class ApiScheduler {
       this.executeRequest(request);
     }
 
-    // Post-drain status: busy while anything is queued or in flight, cooldown
-    // while the gate is armed with an empty queue, idle otherwise.
-    if (this.queue.length > 0 || this.activeRequests.size > 0) {
+    // Post-drain status: paused while everything left waits for a sign-in, busy
+    // while anything else is queued or in flight, cooldown while the gate is
+    // armed with an empty queue, idle otherwise.
+    const onlyHeld =
+      this.activeRequests.size === 0 &&
+      this.queue.length > 0 &&
+      this.queue.every((queued) => this.signInHolds.has(queued.tabId));
+    if (onlyHeld) {
+      this.updateStatus('paused');
+    } else if (this.queue.length > 0 || this.activeRequests.size > 0) {
       this.updateStatus('processing');
     } else if (this.cooldownEndsAt && Date.now() < this.cooldownEndsAt) {
       // Keep the interval ticking through an armed cooldown so its expiry (a
@@ -372,6 +400,14 @@ export class ApiScheduler {
       // Make the actual API call via content script
       const result = await this.makeApiCall(request);
 
+      // An expired session fails every request to its tab the same way. Hold this
+      // one instead of resolving it, and that tab's others stay queued behind it.
+      // Once only: a request that fails again after sign-in is answered as is.
+      if (isSessionExpiredResult(result) && request.awaitsSignIn && !request.heldForSignIn) {
+        this.holdForSignIn(request);
+        return;
+      }
+
       // Parse rate limit headers if present
       if (result.headers) {
         const rateLimitInfo = this.rateLimitDetector.parseHeaders(result.headers, request.endpoint);
@@ -424,7 +460,9 @@ export class ApiScheduler {
   /**
    * Make the actual API call via content script
    */
-  private async makeApiCall(request: QueuedRequest): Promise<RequestResult> {
+  private async makeApiCall(
+    request: Pick<QueuedRequest, 'tabId' | 'endpoint' | 'method' | 'body'>,
+  ): Promise<RequestResult> {
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
         reject(new Error('Request timeout'));
@@ -484,6 +522,73 @@ export class ApiScheduler {
     this.addToQueue(request);
   }
 
+  /**
+   * Put a request that met an expired session back at the head of the queue and
+   * hold its tab's requests until the admin signs in there again (see
+   * {@link probeSession}). Other tabs' requests keep dispatching.
+   */
+  private holdForSignIn(request: QueuedRequest): void {
+    request.heldForSignIn = true;
+    this.activeRequests.delete(request.id);
+    this.queue.unshift(request);
+
+    if (this.signInHolds.has(request.tabId)) return;
+    this.signInHolds.set(request.tabId, null);
+    log.warn("Okta session expired; holding the tab's requests until sign-in", {
+      tabId: request.tabId,
+    });
+    this.notifyStateChange();
+    this.scheduleSessionProbe(request.tabId);
+  }
+
+  /** Arm a held tab's next sign-in check. */
+  private scheduleSessionProbe(tabId: number): void {
+    const pending = this.signInHolds.get(tabId);
+    if (pending) clearTimeout(pending);
+    this.signInHolds.set(
+      tabId,
+      setTimeout(() => void this.probeSession(tabId), SESSION_PROBE_INTERVAL_MS),
+    );
+  }
+
+  /**
+   * Ask a held tab for its session, outside the queue. An answer means the admin
+   * signed in again, and the tab's requests resume; anything else waits for the
+   * next probe.
+   */
+  private async probeSession(tabId: number): Promise<void> {
+    if (!this.signInHolds.has(tabId)) return;
+    this.signInHolds.set(tabId, null);
+    try {
+      const result = await this.makeApiCall({
+        tabId,
+        endpoint: OKTA_SESSION_ENDPOINT,
+        method: 'GET',
+        body: undefined,
+      });
+      if (!this.signInHolds.has(tabId)) return;
+      if (result?.success) {
+        log.debug('Okta session is back; resuming the tab', { tabId });
+        this.signInHolds.delete(tabId);
+        this.notifyStateChange();
+        this.startProcessing();
+        this.processQueue();
+        return;
+      }
+    } catch {
+      // Tab closed or reloading — keep waiting.
+    }
+    if (this.signInHolds.has(tabId)) this.scheduleSessionProbe(tabId);
+  }
+
+  /** Drop every sign-in hold and its probe, without touching the pause flag. */
+  private clearSignInHolds(): void {
+    for (const probe of this.signInHolds.values()) {
+      if (probe) clearTimeout(probe);
+    }
+    this.signInHolds.clear();
+  }
+
   /**
    * Check if we should enter cooldown based on rate limit info
    */
@@ -535,6 +640,9 @@ export class ApiScheduler {
    */
   resume(): void {
     this.isPaused = false;
+    // A manual resume also ends the sign-in holds; a request that meets the
+    // expired session again is answered as is.
+    this.clearSignInHolds();
     log.debug('Resumed');
     // Drain immediately (and restart the fallback interval in case the
     // scheduler went fully idle while paused) instead of waiting for a tick.
@@ -572,6 +680,7 @@ export class ApiScheduler {
       cooldownEndsAt: this.cooldownEndsAt,
       errorCount: this.metrics.failedRequests,
       lastError: this.lastError,
+      awaitingSignIn: this.signInHolds.size > 0,
     };
   }
 
@@ -656,6 +765,9 @@ export class ApiScheduler {
       request.reject(new OperationCancelledError());
     }
 
+    // Nothing waits on a sign-in any more; lift the holds.
+    if (this.signInHolds.size > 0) this.resume();
+
     log.debug(`Cleared ${dropped.length} requests from queue`);
     this.notifyStateChange();
     return dropped.length;
@@ -131,4 +131,55 @@ describe('runBatch', () => {
     expect(started).toEqual(['a']);
     expect(outcome.skipped).toBe(3);
   });
+
+  it('awaits onItemStart before each task and onItemSettled after it', async () => {
+    const events: string[] = [];
+
+    const outcome = await runBatch(
+      ['a', 'b'],
+      async (s) => {
+        events.push(`task ${s}`);
+        if (s === 'b') throw new Error('boom');
+        return s;
+      },
+      {
+        concurrency: 1,
+        onItemStart: async (s) => {
+          await Promise.resolve();
+          events.push(`start ${s}`);
+        },
+        onItemSettled: async (r) => {
+          await Promise.resolve();
+          events.push(`settled ${r.item} ${r.status}`);
+        },
+      },
+    );
+
+    expect(outcome.failed).toBe(1);
+    expect(events).toEqual([
+      'start a',
+      'task a',
+      'settled a fulfilled',
+      'start b',
+      'task b',
+      'settled b rejected',
+    ]);
+  });
+
+  it('never calls the item hooks for items that were not started', async () => {
+    const onItemStart = vi.fn();
+    const onItemSettled = vi.fn();
+
+    const outcome = await runBatch(
+      ['a', 'b', 'c'],
+      async () => {
+        throw { status: 403 };
+      },
+      { concurrency: 1, stopOnError: () => true, onItemStart, onItemSettled },
+    );
+
+    expect(outcome.skipped).toBe(2);
+    expect(onItemStart).toHaveBeenCalledTimes(1);
+    expect(onItemSettled).toHaveBeenCalledTimes(1);
+  });
 });
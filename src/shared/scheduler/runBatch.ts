@@ -44,6 +44,14 @@ export interface RunBatchOptions<T> {
   onProgress?: (progress: BatchProgress) => void;
   /** Return `true` from a settled error to stop launching further work. */
   stopOnError?: (error: unknown, item: T, index: number) => boolean;
+  /**
+   * Awaited before each task starts. A write-ahead hook: a persisted journal records
+   * the item as in flight here, so an interruption leaves it marked unknown rather
+   * than pending.
+   */
+  onItemStart?: (item: T, index: number) => void | Promise<void>;
+  /** Awaited after each task settles, before the worker takes its next item. */
+  onItemSettled?: (result: BatchItemResult<T, unknown>) => void | Promise<void>;
 }
 
 /** Aggregate result of a {@link runBatch} run. */
@@ -78,7 +86,14 @@ export async function runBatch<T, R>(
   task: (item: T, index: number) => Promise<R>,
   options: RunBatchOptions<T> = {},
 ): Promise<BatchOutcome<T, R>> {
-  const { concurrency = 5, throwIfCancelled, onProgress, stopOnError } = options;
+  const {
+    concurrency = 5,
+    throwIfCancelled,
+    onProgress,
+    stopOnError,
+    onItemStart,
+    onItemSettled,
+  } = options;
   const total = items.length;
 
   const results: BatchItemResult<T, R>[] = items.map((item, index) => ({
@@ -121,6 +136,7 @@ export async function runBatch<T, R>(
       report();
 
       try {
+        await onItemStart?.(item, index);
         const value = await task(item, index);
         results[index] = { item, index, status: 'fulfilled', value };
         completed += 1;
@@ -134,6 +150,7 @@ export async function runBatch<T, R>(
         active -= 1;
         report();
       }
+      await onItemSettled?.(results[index]);
     }
   }
 
@@ -37,6 +37,13 @@ export interface QueuedRequest {
   reject: (error: Error) => void;
   retryCount: number;
   maxRetries: number;
+  /**
+   * Whether an expired session holds it until sign-in. `false` for background
+   * work no one is waiting on: it is answered with the expired session's error.
+   */
+  awaitsSignIn: boolean;
+  /** Set once the request has been held for an expired session; it is not held twice. */
+  heldForSignIn?: boolean;
 }
 
 /**
@@ -74,6 +81,11 @@ export interface SchedulerState {
   cooldownEndsAt: number | null; // Timestamp when cooldown ends
   errorCount: number;
   lastError: string | null;
+  /**
+   * Some tab's requests are held because its Okta session expired; they resume
+   * after sign-in there. Other tabs' requests keep running.
+   */
+  awaitingSignIn: boolean;
 }
 
 /**
@@ -12,6 +12,7 @@ import {
   isProfileSourceApp,
   oktaPolicyListItemSchema,
   oktaPolicyRuleSchema,
+  oktaLogEventSchema,
   parseOkta,
   parseOktaList,
 } from './okta';
@@ -229,6 +230,49 @@ describe('oktaPolicyRuleSchema', () => {
   });
 });
 
+describe('oktaLogEventSchema', () => {
+  const event = {
+    uuid: 'FAKE-uuid-0001',
+    published: '2026-03-02T09:00:00.000Z',
+    eventType: 'group.user_membership.add',
+    displayMessage: 'Add user to group membership',
+    severity: 'INFO',
+    actor: { id: '00uFAKEadmin0000001', type: 'User', alternateId: 'admin@example.com' },
+    target: [
+      { id: '00uFAKEuser000000001', type: 'User', displayName: 'Test User' },
+      { id: '00gFAKEgroup00000001', type: 'UserGroup', displayName: 'Engineering' },
+    ],
+    outcome: { result: 'SUCCESS', reason: null },
+    client: { ipAddress: '192.0.2.1' },
+    transaction: { id: 'FAKEtx' },
+  };
+
+  it('keeps targets, outcome and unknown fields', () => {
+    const parsed = oktaLogEventSchema.parse(event);
+    expect(parsed.target?.map((t) => t.id)).toEqual([
+      '00uFAKEuser000000001',
+      '00gFAKEgroup00000001',
+    ]);
+    expect(parsed.outcome?.result).toBe('SUCCESS');
+    expect((parsed as Record<string, unknown>).transaction).toEqual({ id: 'FAKEtx' });
+  });
+
+  it('accepts an event Okta sent with no actor, target or outcome', () => {
+    const parsed = oktaLogEventSchema.parse({
+      uuid: event.uuid,
+      published: event.published,
+      eventType: 'system.import.start',
+      actor: null,
+      target: null,
+    });
+    expect(parsed.target).toBeNull();
+  });
+
+  it('rejects an event without its event type', () => {
+    expect(oktaLogEventSchema.safeParse({ uuid: 'x', published: 'y' }).success).toBe(false);
+  });
+});
+
 const validListUser = {
   id: '00uFAKEuser000000001',
   status: 'ACTIVE',
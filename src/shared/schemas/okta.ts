@@ -277,6 +277,32 @@ export const oktaAppGroupAssignmentSchema = z
 /** Inferred type of a validated {@link oktaAppGroupAssignmentSchema} row. */
 export type OktaAppGroupAssignment = z.infer<typeof oktaAppGroupAssignmentSchema>;
 
+/**
+ * A Group Push mapping from `GET /api/v1/apps/{appId}/group-push/mappings` —
+ * an Okta group whose membership is pushed into a group in the app.
+ *
+ * Not to be confused with {@link oktaAppGroupAssignmentSchema}, which is a group
+ * *assigned* to the app. `id`, `sourceGroupId` and `targetGroupId` are required:
+ * a mapping without either end cannot be shown or written to. `status` is
+ * `ACTIVE`, `INACTIVE` or `ERROR`; `errorSummary` is Okta's last push error and
+ * is only present on an `ERROR` mapping.
+ */
+export const oktaGroupPushMappingSchema = z
+  .object({
+    id: z.string(),
+    sourceGroupId: z.string(),
+    targetGroupId: z.string(),
+    status: z.string().optional().catch(undefined),
+    errorSummary: z.string().nullish().catch(undefined),
+    lastPush: z.string().nullish().catch(undefined),
+    lastUpdated: z.string().nullish().catch(undefined),
+    created: z.string().nullish().catch(undefined),
+  })
+  .passthrough();
+
+/** Inferred type of a validated {@link oktaGroupPushMappingSchema} row. */
+export type OktaGroupPushMapping = z.infer<typeof oktaGroupPushMappingSchema>;
+
 /**
  * A user's assignment to an application, as returned by
  * `GET /api/v1/apps/{appId}/users`.
@@ -504,6 +530,230 @@ export const oktaAppGroupSchema = z
 /** Inferred type of a validated {@link oktaAppGroupSchema} row. */
 export type OktaAppGroup = z.infer<typeof oktaAppGroupSchema>;
 
+/**
+ * A signing key as Okta lists it: `GET /api/v1/idps/credentials/keys` (the X.509
+ * certificates trusted for inbound SAML) and `GET /api/v1/apps/{appId}/credentials/keys`
+ * (an app's signing keys).
+ *
+ * Only `kid` is required; it is what an IdP's trust or an app's signing
+ * credentials point at. `expiresAt` is caught rather than required for the
+ * {@link oktaAppListItemSchema} reason: {@link parseOktaList} drops a row that
+ * fails, and a key dropped from an expiry inventory is the certificate nobody
+ * renews. A key without a readable expiry is shown as such instead. The key
+ * material (`x5c`, `n`, `e`) survives `.passthrough()` and is never read here.
+ */
+export const oktaJsonWebKeySchema = z
+  .object({
+    kid: z.string(),
+    kty: z.string().optional().catch(undefined),
+    use: z.string().nullish().catch(undefined),
+    created: z.string().nullish().catch(undefined),
+    lastUpdated: z.string().nullish().catch(undefined),
+    expiresAt: z.string().nullish().catch(undefined),
+    'x5t#S256': z.string().optional().catch(undefined),
+  })
+  .passthrough();
+
+/** Inferred type of a validated {@link oktaJsonWebKeySchema} row. */
+export type OktaJsonWebKey = z.infer<typeof oktaJsonWebKeySchema>;
+
+/**
+ * An identity provider from `GET /api/v1/idps`, typed as far as the certificate
+ * inventory reads it: the name, and the `kid` of the key its SAML trust uses.
+ *
+ * Lenient in the {@link oktaAppListItemSchema} way. The `protocol` tree differs
+ * between SAML and OIDC providers, so each level is optional, caught and
+ * `.passthrough()`; an IdP whose trust cannot be read still names itself.
+ */
+export const oktaIdpSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().optional().catch(undefined),
+    type: z.string().optional().catch(undefined),
+    status: z.string().optional().catch(undefined),
+    protocol: z
+      .object({
+        credentials: z
+          .object({
+            trust: z
+              .object({ kid: z.string().optional().catch(undefined) })
+              .passthrough()
+              .optional(),
+          })
+          .passthrough()
+          .optional(),
+      })
+      .passthrough()
+      .optional()
+      .catch(undefined),
+  })
+  .passthrough();
+
+/** Inferred type of a validated {@link oktaIdpSchema} row. */
+export type OktaIdp = z.infer<typeof oktaIdpSchema>;
+
+/**
+ * An administrator role assignment from `GET /api/v1/users/{userId}/roles`.
+ *
+ * `id` (the assignment, needed to revoke it or read its targets) and `type` are
+ * required. The rest is caught: a role listed without its label or status is
+ * still a role the user holds, and dropping it would understate their access.
+ * `assignmentType` says whether the role is held directly (`USER`) or through a
+ * group (`GROUP`) — only the first can be revoked from the user.
+ */
+export const oktaRoleAssignmentSchema = z
+  .object({
+    id: z.string(),
+    type: z.string(),
+    label: z.string().optional().catch(undefined),
+    status: z.string().optional().catch(undefined),
+    assignmentType: z.string().optional().catch(undefined),
+    created: z.string().nullish().catch(undefined),
+    lastUpdated: z.string().nullish().catch(undefined),
+  })
+  .passthrough();
+
+/** Inferred type of a validated {@link oktaRoleAssignmentSchema} row. */
+export type OktaRoleAssignment = z.infer<typeof oktaRoleAssignmentSchema>;
+
+/**
+ * An app a role is scoped to, from
+ * `GET /api/v1/users/{userId}/roles/{roleAssignmentId}/targets/catalog/apps`.
+ *
+ * Okta lists app *types* by `name` (every instance of that app) and, for an
+ * instance target, the instance `id` as well. Only `name` is required.
+ */
+export const oktaRoleTargetAppSchema = z
+  .object({
+    name: z.string(),
+    id: z.string().optional().catch(undefined),
+    displayName: z.string().optional().catch(undefined),
+    label: z.string().optional().catch(undefined),
+  })
+  .passthrough();
+
+/** Inferred type of a validated {@link oktaRoleTargetAppSchema} row. */
+export type OktaRoleTargetApp = z.infer<typeof oktaRoleTargetAppSchema>;
+
+/**
+ * A user holding at least one administrator role, from
+ * `GET /api/v1/iam/assignees/users`. The listing carries ids only; roles are read
+ * per user.
+ */
+export const oktaRoleAssigneeSchema = z
+  .object({
+    id: z.string(),
+    orgId: z.string().optional().catch(undefined),
+  })
+  .passthrough();
+
+/** Inferred type of a validated {@link oktaRoleAssigneeSchema} row. */
+export type OktaRoleAssignee = z.infer<typeof oktaRoleAssigneeSchema>;
+
+/** One side of a linked-object definition: the relationship name and its title. */
+const linkedObjectSideSchema = z
+  .object({
+    name: z.string(),
+    title: z.string().optional().catch(undefined),
+    description: z.string().optional().catch(undefined),
+  })
+  .passthrough();
+
+/**
+ * A linked-object definition from `GET /api/v1/meta/schemas/user/linkedObjects`,
+ * e.g. `manager` / `subordinate`. A user holds the `associated` side and points
+ * at the user holding the `primary` side.
+ */
+export const oktaLinkedObjectDefinitionSchema = z
+  .object({
+    primary: linkedObjectSideSchema,
+    associated: linkedObjectSideSchema,
+  })
+  .passthrough();
+
+/** Inferred type of a validated {@link oktaLinkedObjectDefinitionSchema} row. */
+export type OktaLinkedObjectDefinition = z.infer<typeof oktaLinkedObjectDefinitionSchema>;
+
+/**
+ * One linked user from `GET /api/v1/users/{id}/linkedObjects/{relationship}`.
+ * Okta returns only a link to the user; the id is the last path segment of
+ * `_links.self.href`.
+ */
+export const oktaLinkedObjectSchema = z
+  .object({
+    _links: z.object({
+      self: z.object({ href: z.string() }).passthrough(),
+    }),
+  })
+  .passthrough();
+
+/** Inferred type of a validated {@link oktaLinkedObjectSchema} row. */
+export type OktaLinkedObject = z.infer<typeof oktaLinkedObjectSchema>;
+
+/**
+ * The signed-in admin's session from `GET /api/v1/sessions/me`. Only
+ * `expiresAt` (ISO) is read; Okta moves it forward as the session is used, so it
+ * is a snapshot, not a deadline.
+ */
+export const oktaSessionSchema = z
+  .object({
+    id: z.string(),
+    expiresAt: z.string(),
+  })
+  .passthrough();
+
+/** Inferred type of a validated {@link oktaSessionSchema} response. */
+export type OktaSession = z.infer<typeof oktaSessionSchema>;
+
+/**
+ * An enrolled factor from `GET /api/v1/users/{userId}/factors`.
+ *
+ * `id` (needed to reset or verify it) and `factorType` are required. The rest is
+ * caught: a factor listed without its provider or status is still a factor the
+ * user has, and dropping it would hide it from the reset it may need. `profile`
+ * differs per type — a phone number, a device name, a credential id — and is
+ * read by `shared/mfa/userFactors`, never logged.
+ */
+export const oktaUserFactorSchema = z
+  .object({
+    id: z.string(),
+    factorType: z.string(),
+    provider: z.string().optional().catch(undefined),
+    status: z.string().optional().catch(undefined),
+    vendorName: z.string().optional().catch(undefined),
+    created: z.string().nullish().catch(undefined),
+    lastUpdated: z.string().nullish().catch(undefined),
+    profile: z.record(z.string(), z.unknown()).nullish().catch(undefined),
+  })
+  .passthrough();
+
+/** Inferred type of a validated {@link oktaUserFactorSchema} row. */
+export type OktaUserFactor = z.infer<typeof oktaUserFactorSchema>;
+
+/**
+ * A factor verification's state, from `POST /api/v1/users/{userId}/factors/{factorId}/verify`
+ * or from polling the transaction that call returns.
+ *
+ * `factorResult` is required. A push answers `WAITING` with `_links.poll.href`,
+ * the transaction to poll until it settles.
+ */
+export const oktaFactorVerificationSchema = z
+  .object({
+    factorResult: z.string(),
+    expiresAt: z.string().optional().catch(undefined),
+    _links: z
+      .object({
+        poll: z.object({ href: z.string() }).optional().catch(undefined),
+      })
+      .passthrough()
+      .optional()
+      .catch(undefined),
+  })
+  .passthrough();
+
+/** Inferred type of a validated {@link oktaFactorVerificationSchema} response. */
+export type OktaFactorVerification = z.infer<typeof oktaFactorVerificationSchema>;
+
 /**
  * A policy as it appears in a *list* response (`GET /api/v1/policies?type=…`),
  * covering every policy type (`ACCESS_POLICY`, `OKTA_SIGN_ON`, `MFA_ENROLL`,
@@ -515,7 +765,9 @@ export type OktaAppGroup = z.infer<typeof oktaAppGroupSchema>;
  * would silently drop data the UI (or a later feature) reads — the exact class of
  * corruption ADR-0006 warns about. `_links` is declared as `z.unknown()` because
  * its shape varies by policy type; consumers must narrow it defensively rather
- * than trust a typed shape. Use with {@link parseOktaList}.
+ * than trust a typed shape. `conditions` (a group-assigned policy's people
+ * filter) is `z.unknown()` for the same reason, and is read only in
+ * `shared/policies/policyRuleDecoder`. Use with {@link parseOktaList}.
  */
 export const oktaPolicyListItemSchema = z
   .object({
@@ -528,6 +780,7 @@ export const oktaPolicyListItemSchema = z
     system: z.boolean().optional(),
     created: z.string().nullish(),
     lastUpdated: z.string().nullish(),
+    conditions: z.unknown().optional(),
     _links: z.unknown().optional(),
   })
   .passthrough();
@@ -538,9 +791,10 @@ export const oktaPolicyListItemSchema = z
  * Same lenient contract as {@link oktaPolicyListItemSchema}: only `id` is
  * required and unknown fields `.passthrough()`. `conditions` and `actions` are
  * `z.unknown()` on purpose — their deep shapes vary by policy type (an access
- * policy rule's `actions.appSignOn` looks nothing like a password policy rule's),
- * and the UI renders only the validated scalar fields; anything reading into
- * those trees must narrow them defensively. Use with {@link parseOktaList}.
+ * policy rule's `actions.appSignOn` looks nothing like a password policy rule's).
+ * They are read in one place, `shared/policies/policyRuleDecoder`, which
+ * validates each subtree on its own and reports the ones it cannot read. Use
+ * with {@link parseOktaList}.
  */
 export const oktaPolicyRuleSchema = z
   .object({
@@ -554,12 +808,82 @@ export const oktaPolicyRuleSchema = z
   })
   .passthrough();
 
+/**
+ * A network zone from `GET /api/v1/zones` — an IP zone or a dynamic zone.
+ *
+ * Same lenient contract as {@link oktaPolicyListItemSchema}. Only what the
+ * policy simulator offers is typed: the id the rules reference, and a name to
+ * pick it by. Use with {@link parseOktaList}.
+ */
+export const oktaNetworkZoneSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().optional(),
+    type: z.string().optional(),
+    status: z.string().optional(),
+    usage: z.string().optional(),
+    system: z.boolean().optional(),
+  })
+  .passthrough();
+
+/**
+ * An actor or target of a System Log event: who acted, or what was acted on.
+ *
+ * Every field but `id` is nullish because Okta omits them for some entity types
+ * (a system actor has no `alternateId`).
+ */
+export const oktaLogEntitySchema = z
+  .object({
+    id: z.string(),
+    type: z.string().nullish(),
+    alternateId: z.string().nullish(),
+    displayName: z.string().nullish(),
+  })
+  .passthrough();
+
+/**
+ * One event from `GET /api/v1/logs` (the System Log).
+ *
+ * Lenient in the {@link oktaPolicyListItemSchema} way: `uuid`, `published` and
+ * `eventType` are what every reader keys on and are required; the rest is
+ * nullish and unknown fields `.passthrough()`. Okta adds event types and fields
+ * continuously, and an event that cannot be shown in full is still worth showing.
+ * `client` and `debugContext` are `z.unknown()` — their shapes vary by event type,
+ * and the panel only narrows them defensively. Use with {@link parseOktaList}.
+ */
+export const oktaLogEventSchema = z
+  .object({
+    uuid: z.string(),
+    published: z.string(),
+    eventType: z.string(),
+    displayMessage: z.string().nullish(),
+    severity: z.string().nullish(),
+    actor: oktaLogEntitySchema.nullish(),
+    target: z.array(oktaLogEntitySchema).nullish(),
+    outcome: z
+      .object({ result: z.string().nullish(), reason: z.string().nullish() })
+      .passthrough()
+      .nullish(),
+    client: z.unknown().optional(),
+    debugContext: z.unknown().optional(),
+  })
+  .passthrough();
+
+/** Inferred type of a validated {@link oktaLogEntitySchema}. */
+export type OktaLogEntity = z.infer<typeof oktaLogEntitySchema>;
+
+/** Inferred type of a validated {@link oktaLogEventSchema} row. */
+export type OktaLogEvent = z.infer<typeof oktaLogEventSchema>;
+
 /** Inferred type of a validated {@link oktaPolicyListItemSchema} row. */
 export type OktaPolicyListItem = z.infer<typeof oktaPolicyListItemSchema>;
 
 /** Inferred type of a validated {@link oktaPolicyRuleSchema} row. */
 export type OktaPolicyRule = z.infer<typeof oktaPolicyRuleSchema>;
 
+/** Inferred type of a validated {@link oktaNetworkZoneSchema} row. */
+export type OktaNetworkZone = z.infer<typeof oktaNetworkZoneSchema>;
+
 /** Inferred type of a validated {@link oktaUserSchema} response. */
 export type OktaUserResponse = z.infer<typeof oktaUserSchema>;
 /** Inferred type of a validated {@link oktaGroupSchema} response. */
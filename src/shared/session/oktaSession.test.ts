@@ -0,0 +1,61 @@
+/**
+ * Tests for the Okta session helpers: which failures count as an expired session,
+ * and when a run is expected to outlast it.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  estimateRunMinutes,
+  isSessionExpiredResult,
+  longRunWarning,
+  sessionMinutesLeft,
+} from './oktaSession';
+
+const NOW = Date.parse('2026-03-01T12:00:00.000Z');
+
+describe('isSessionExpiredResult', () => {
+  it('treats every 401 as an expired session', () => {
+    expect(isSessionExpiredResult({ status: 401, data: undefined })).toBe(true);
+  });
+
+  it('treats a 403 as expired only for a session error code', () => {
+    expect(isSessionExpiredResult({ status: 403, data: { errorCode: 'E0000005' } })).toBe(true);
+    expect(isSessionExpiredResult({ status: 403, data: { errorCode: 'E0000006' } })).toBe(false);
+    expect(isSessionExpiredResult({ status: 403, data: null })).toBe(false);
+  });
+
+  it('ignores other statuses', () => {
+    expect(isSessionExpiredResult({ status: 200, data: {} })).toBe(false);
+    expect(isSessionExpiredResult({ status: 429, data: { errorCode: 'E0000005' } })).toBe(false);
+    expect(isSessionExpiredResult({ status: undefined, data: undefined })).toBe(false);
+  });
+});
+
+describe('sessionMinutesLeft', () => {
+  it('rounds down and never goes negative', () => {
+    expect(sessionMinutesLeft('2026-03-01T12:42:59.000Z', NOW)).toBe(42);
+    expect(sessionMinutesLeft('2026-03-01T11:00:00.000Z', NOW)).toBe(0);
+  });
+
+  it('returns null for an unreadable date', () => {
+    expect(sessionMinutesLeft('soon', NOW)).toBeNull();
+  });
+});
+
+describe('longRunWarning', () => {
+  it('warns when the estimate exceeds the time left', () => {
+    expect(estimateRunMinutes(3000)).toBe(10);
+    const warning = longRunWarning(3000, '2026-03-01T12:05:00.000Z', NOW);
+
+    expect(warning).toContain('3,000 items');
+    expect(warning).toContain('about 10 min');
+    expect(warning).toContain('5 min left');
+  });
+
+  it('stays quiet when the run should finish in time', () => {
+    expect(longRunWarning(3000, '2026-03-01T13:00:00.000Z', NOW)).toBeNull();
+  });
+
+  it('stays quiet when the expiry cannot be read', () => {
+    expect(longRunWarning(3000, 'never', NOW)).toBeNull();
+  });
+});
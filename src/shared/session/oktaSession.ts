@@ -0,0 +1,98 @@
+/**
+ * @module shared/session/oktaSession
+ * @description The admin's Okta session as the extension sees it: when it runs
+ * out, and how to tell that a request failed because it already has. All pure.
+ *
+ * Every Okta call rides the signed-in admin's browser session, so a long run can
+ * outlive it. Two places act on that:
+ * - the scheduler (`shared/scheduler/apiScheduler`) holds a request whose answer
+ *   is a session error, pauses, and resumes once {@link OKTA_SESSION_ENDPOINT}
+ *   answers again — the admin has signed back in;
+ * - the side panel reads the session's expiry to show the time left, and to warn
+ *   before a run that will probably take longer ({@link longRunWarning}).
+ *
+ * ## Which errors are session errors
+ *
+ * A 401 always is. A 403 usually is not: it is how Okta refuses an admin who
+ * lacks a permission, and holding that request would stall a run that should
+ * fail. A 403 counts only when Okta's error code says the session is gone.
+ */
+
+import type { RequestResult } from '../scheduler/types';
+
+/** The signed-in admin's session. */
+export const OKTA_SESSION_ENDPOINT = '/api/v1/sessions/me';
+
+/** Okta error codes meaning the session itself is invalid or gone. */
+export const SESSION_ERROR_CODES: ReadonlySet<string> = new Set([
+  'E0000005', // Invalid session
+  'E0000011', // Invalid token provided
+]);
+
+/** How often a held scheduler asks whether the admin has signed in again. */
+export const SESSION_PROBE_INTERVAL_MS = 15_000;
+
+/** Runs shorter than this are not checked against the session; they finish in seconds. */
+export const SESSION_CHECK_MIN_ITEMS = 100;
+
+/**
+ * Items a run gets through per minute, for the estimate. Deliberately low: most
+ * org-wide rate limits are 600 requests a minute, the scheduler cools down before
+ * the limit, and an item is at least one request.
+ */
+export const RUN_ITEMS_PER_MINUTE = 300;
+
+/**
+ * Whether a request failed because the admin's session expired.
+ *
+ * @param result - The request's outcome.
+ * @returns `true` for a 401, or a 403 carrying one of {@link SESSION_ERROR_CODES}.
+ */
+export function isSessionExpiredResult(result: Pick<RequestResult, 'status' | 'data'>): boolean {
+  if (result.status === 401) return true;
+  if (result.status !== 403) return false;
+  const code = (result.data as { errorCode?: unknown } | null | undefined)?.errorCode;
+  return typeof code === 'string' && SESSION_ERROR_CODES.has(code);
+}
+
+/**
+ * Whole minutes left before a session expires.
+ *
+ * @param expiresAt - The session's `expiresAt` (ISO).
+ * @param now - The current time (epoch ms).
+ * @returns Minutes left, rounded down and never negative; `null` for an unreadable date.
+ */
+export function sessionMinutesLeft(expiresAt: string, now: number): number | null {
+  const at = Date.parse(expiresAt);
+  if (Number.isNaN(at)) return null;
+  return Math.max(0, Math.floor((at - now) / 60_000));
+}
+
+/**
+ * Roughly how long a run of `itemCount` items takes.
+ *
+ * @param itemCount - Items in the run.
+ * @returns Whole minutes, rounded up, at {@link RUN_ITEMS_PER_MINUTE}.
+ */
+export function estimateRunMinutes(itemCount: number): number {
+  return Math.ceil(itemCount / RUN_ITEMS_PER_MINUTE);
+}
+
+/**
+ * The warning for a run that will probably outlast the session.
+ *
+ * @param itemCount - Items in the run.
+ * @param expiresAt - The session's `expiresAt` (ISO).
+ * @param now - The current time (epoch ms).
+ * @returns The warning, or `null` when the run should finish in time (or the
+ *   expiry cannot be read).
+ */
+export function longRunWarning(itemCount: number, expiresAt: string, now: number): string | null {
+  const left = sessionMinutesLeft(expiresAt, now);
+  const needed = estimateRunMinutes(itemCount);
+  if (left === null || needed <= left) return null;
+  return (
+    `This run of ${itemCount.toLocaleString()} items may take about ${needed} min, and your Okta ` +
+    `session has ${left} min left. If it expires, the run pauses until you sign in again.`
+  );
+}
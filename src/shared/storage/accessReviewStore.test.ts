@@ -0,0 +1,96 @@
+/**
+ * @module shared/storage/accessReviewStore.test
+ * @description Unit tests for the IndexedDB-backed access-review store.
+ *
+ * As in `presetStore.test`, `idb`'s `openDB` is mocked with a Map-backed stub of
+ * the four methods the store uses. Asserts group-scoped newest-first listing,
+ * upsert by id, deletion, and that DB errors are swallowed: reads degrade to
+ * `[]`/`null` and a failed save reports `false`.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { AccessReviewCampaign } from '../membership/accessReview';
+
+const { fakeDB, campaigns } = vi.hoisted(() => {
+  const campaigns = new Map<string, AccessReviewCampaign>();
+  const fakeDB = {
+    getAllFromIndex: vi.fn(
+      async (_store: string, _index: string, groupId: string): Promise<AccessReviewCampaign[]> =>
+        [...campaigns.values()].filter((c) => c.groupId === groupId),
+    ),
+    put: vi.fn(async (_store: string, value: AccessReviewCampaign): Promise<void> => {
+      campaigns.set(value.id, value);
+    }),
+    delete: vi.fn(async (_store: string, id: string): Promise<void> => {
+      campaigns.delete(id);
+    }),
+    get: vi.fn(async (_store: string, id: string): Promise<AccessReviewCampaign | undefined> =>
+      campaigns.get(id),
+    ),
+  };
+  return { fakeDB, campaigns };
+});
+
+vi.mock('idb', () => ({ openDB: vi.fn(async () => fakeDB) }));
+
+// Imported after the mock is registered so the singleton opens the fake DB.
+import { accessReviewStore } from './accessReviewStore';
+
+function campaign(id: string, groupId: string, createdAt: string): AccessReviewCampaign {
+  return {
+    id,
+    version: 1,
+    groupId,
+    groupName: 'CRM Users',
+    createdAt: new Date(createdAt),
+    createdBy: 'admin@example.com',
+    dueAt: new Date('2026-03-31T23:59:59Z'),
+    status: 'open',
+    items: [],
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  campaigns.clear();
+});
+
+describe('saveCampaign + listCampaigns', () => {
+  it("lists only the group's campaigns, newest first", async () => {
+    await accessReviewStore.saveCampaign(campaign('older', '00gFAKE1', '2026-01-01T00:00:00Z'));
+    await accessReviewStore.saveCampaign(campaign('newer', '00gFAKE1', '2026-04-01T00:00:00Z'));
+    await accessReviewStore.saveCampaign(campaign('other', '00gFAKE2', '2026-05-01T00:00:00Z'));
+
+    const list = await accessReviewStore.listCampaigns('00gFAKE1');
+    expect(list.map((c) => c.id)).toEqual(['newer', 'older']);
+  });
+
+  it('replaces a campaign saved again under the same id', async () => {
+    const open = campaign('review-1', '00gFAKE1', '2026-01-01T00:00:00Z');
+    await accessReviewStore.saveCampaign(open);
+    expect(await accessReviewStore.saveCampaign({ ...open, status: 'signed-off' })).toBe(true);
+
+    expect(campaigns.size).toBe(1);
+    expect((await accessReviewStore.getCampaign('review-1'))?.status).toBe('signed-off');
+  });
+
+  it('reports a failed save and degrades reads on DB errors', async () => {
+    fakeDB.put.mockRejectedValueOnce(new Error('db down'));
+    expect(
+      await accessReviewStore.saveCampaign(campaign('x', '00gFAKE1', '2026-01-01T00:00:00Z')),
+    ).toBe(false);
+
+    fakeDB.getAllFromIndex.mockRejectedValueOnce(new Error('db down'));
+    expect(await accessReviewStore.listCampaigns('00gFAKE1')).toEqual([]);
+
+    fakeDB.get.mockRejectedValueOnce(new Error('db down'));
+    expect(await accessReviewStore.getCampaign('x')).toBeNull();
+  });
+});
+
+describe('deleteCampaign', () => {
+  it('removes a saved campaign', async () => {
+    await accessReviewStore.saveCampaign(campaign('temp', '00gFAKE1', '2026-01-01T00:00:00Z'));
+    await accessReviewStore.deleteCampaign('temp');
+    expect(await accessReviewStore.getCampaign('temp')).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @module shared/storage/accessReviewStore
+ * @description IndexedDB-backed store for access-review campaigns.
+ *
+ * Mirrors {@link module:shared/storage/presetStore}: a lazily-opened, reused
+ * connection, an idb `DBSchema`, and a singleton export ({@link accessReviewStore}).
+ * Failures are logged and never propagate; reads degrade to `[]`/`null` and
+ * `saveCampaign` reports `false` so the caller can say the review was not saved.
+ *
+ * A campaign holds a snapshot of a group's members (login, name, non-excluded
+ * profile fields) and the reviewer's notes. That is the evidence the review
+ * exists to produce, so it is kept locally until the admin deletes it; it never
+ * leaves the browser except in the evidence CSV the admin downloads.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type { AccessReviewCampaign } from '../membership/accessReview';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('AccessReviewStore');
+
+interface AccessReviewDB extends DBSchema {
+  campaigns: {
+    key: string;
+    value: AccessReviewCampaign;
+    indexes: { groupId: string };
+  };
+}
+
+const DB_NAME = 'okta-unbound-access-reviews';
+const DB_VERSION = 1;
+const CAMPAIGNS_STORE = 'campaigns';
+
+/**
+ * IndexedDB store for access-review campaigns. Prefer the shared
+ * {@link accessReviewStore} singleton over constructing new instances.
+ */
+class AccessReviewStore {
+  private dbPromise: Promise<IDBPDatabase<AccessReviewDB>> | null = null;
+
+  private async getDB(): Promise<IDBPDatabase<AccessReviewDB>> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDB<AccessReviewDB>(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains(CAMPAIGNS_STORE)) {
+            const campaigns = db.createObjectStore(CAMPAIGNS_STORE, { keyPath: 'id' });
+            campaigns.createIndex('groupId', 'groupId');
+          }
+        },
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * List one group's campaigns, newest first.
+   *
+   * @param groupId - The Okta group id.
+   * @returns The group's campaigns, or `[]` on any failure.
+   */
+  async listCampaigns(groupId: string): Promise<AccessReviewCampaign[]> {
+    try {
+      const db = await this.getDB();
+      const campaigns = await db.getAllFromIndex(CAMPAIGNS_STORE, 'groupId', groupId);
+      return campaigns.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      log.error('Failed to list access reviews:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read one campaign.
+   *
+   * @param id - The campaign's {@link AccessReviewCampaign.id}.
+   * @returns The campaign, or `null` when absent or on failure.
+   */
+  async getCampaign(id: string): Promise<AccessReviewCampaign | null> {
+    try {
+      const db = await this.getDB();
+      return (await db.get(CAMPAIGNS_STORE, id)) ?? null;
+    } catch (error) {
+      log.error('Failed to read access review:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Insert or replace a campaign (keyed by `id`).
+   *
+   * @param campaign - The campaign as it stands now.
+   * @returns Whether it was saved.
+   */
+  async saveCampaign(campaign: AccessReviewCampaign): Promise<boolean> {
+    try {
+      const db = await this.getDB();
+      await db.put(CAMPAIGNS_STORE, campaign);
+      return true;
+    } catch (error) {
+      log.error('Failed to save access review:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a campaign by id.
+   *
+   * @param id - The campaign's {@link AccessReviewCampaign.id}.
+   */
+  async deleteCampaign(id: string): Promise<void> {
+    try {
+      const db = await this.getDB();
+      await db.delete(CAMPAIGNS_STORE, id);
+    } catch (error) {
+      log.error('Failed to delete access review:', error);
+    }
+  }
+}
+
+/** Shared access-review store singleton — use this rather than `new AccessReviewStore()`. */
+export const accessReviewStore = new AccessReviewStore();
+export default accessReviewStore;
@@ -0,0 +1,93 @@
+/**
+ * @module shared/storage/membershipSnapshotStore.test
+ * @description Unit tests for the IndexedDB-backed membership snapshot store.
+ *
+ * As in `accessReviewStore.test`, `idb`'s `openDB` is mocked with a Map-backed
+ * stub of the four methods the store uses. Asserts group-scoped newest-first
+ * listing, deletion, and that DB errors are swallowed: reads degrade to
+ * `[]`/`null` and a failed save reports `false`.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { MembershipSnapshot } from '../membership/membershipSnapshot';
+
+const { fakeDB, snapshots } = vi.hoisted(() => {
+  const snapshots = new Map<string, MembershipSnapshot>();
+  const fakeDB = {
+    getAllFromIndex: vi.fn(
+      async (_store: string, _index: string, groupId: string): Promise<MembershipSnapshot[]> =>
+        [...snapshots.values()].filter((s) => s.groupId === groupId),
+    ),
+    put: vi.fn(async (_store: string, value: MembershipSnapshot): Promise<void> => {
+      snapshots.set(value.id, value);
+    }),
+    delete: vi.fn(async (_store: string, id: string): Promise<void> => {
+      snapshots.delete(id);
+    }),
+    get: vi.fn(async (_store: string, id: string): Promise<MembershipSnapshot | undefined> =>
+      snapshots.get(id),
+    ),
+  };
+  return { fakeDB, snapshots };
+});
+
+vi.mock('idb', () => ({ openDB: vi.fn(async () => fakeDB) }));
+
+// Imported after the mock is registered so the singleton opens the fake DB.
+import { membershipSnapshotStore } from './membershipSnapshotStore';
+
+function snapshot(id: string, groupId: string, takenAt: string): MembershipSnapshot {
+  return {
+    id,
+    version: 1,
+    groupId,
+    groupName: 'CRM Users',
+    takenAt: new Date(takenAt),
+    takenBy: 'admin@example.com',
+    members: [],
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  snapshots.clear();
+});
+
+describe('saveSnapshot + listSnapshots', () => {
+  it("lists only the group's snapshots, newest first", async () => {
+    await membershipSnapshotStore.saveSnapshot(
+      snapshot('older', '00gFAKE1', '2026-03-01T00:00:00Z'),
+    );
+    await membershipSnapshotStore.saveSnapshot(
+      snapshot('newer', '00gFAKE1', '2026-03-03T00:00:00Z'),
+    );
+    await membershipSnapshotStore.saveSnapshot(
+      snapshot('other', '00gFAKE2', '2026-03-04T00:00:00Z'),
+    );
+
+    const list = await membershipSnapshotStore.listSnapshots('00gFAKE1');
+    expect(list.map((s) => s.id)).toEqual(['newer', 'older']);
+  });
+
+  it('reports a failed save and degrades reads on DB errors', async () => {
+    fakeDB.put.mockRejectedValueOnce(new Error('db down'));
+    expect(
+      await membershipSnapshotStore.saveSnapshot(snapshot('x', '00gFAKE1', '2026-03-01T00:00:00Z')),
+    ).toBe(false);
+
+    fakeDB.getAllFromIndex.mockRejectedValueOnce(new Error('db down'));
+    expect(await membershipSnapshotStore.listSnapshots('00gFAKE1')).toEqual([]);
+
+    fakeDB.get.mockRejectedValueOnce(new Error('db down'));
+    expect(await membershipSnapshotStore.getSnapshot('x')).toBeNull();
+  });
+});
+
+describe('deleteSnapshot', () => {
+  it('removes a saved snapshot', async () => {
+    await membershipSnapshotStore.saveSnapshot(
+      snapshot('temp', '00gFAKE1', '2026-03-01T00:00:00Z'),
+    );
+    await membershipSnapshotStore.deleteSnapshot('temp');
+    expect(await membershipSnapshotStore.getSnapshot('temp')).toBeNull();
+  });
+});
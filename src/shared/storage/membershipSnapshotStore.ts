@@ -0,0 +1,122 @@
+/**
+ * @module shared/storage/membershipSnapshotStore
+ * @description IndexedDB-backed store for point-in-time group membership snapshots.
+ *
+ * Mirrors {@link module:shared/storage/accessReviewStore}: a lazily-opened, reused
+ * connection, an idb `DBSchema`, and a singleton export
+ * ({@link membershipSnapshotStore}). Failures are logged and never propagate;
+ * reads degrade to `[]`/`null` and `saveSnapshot` reports `false` so the caller
+ * can say the snapshot was not kept.
+ *
+ * A snapshot holds each member's id, login, name, status and source — enough to
+ * read a diff without Okta. It is kept locally until the admin deletes it and
+ * leaves the browser only in a diff CSV the admin downloads.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type { MembershipSnapshot } from '../membership/membershipSnapshot';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('MembershipSnapshotStore');
+
+interface MembershipSnapshotDB extends DBSchema {
+  snapshots: {
+    key: string;
+    value: MembershipSnapshot;
+    indexes: { groupId: string };
+  };
+}
+
+const DB_NAME = 'okta-unbound-membership-snapshots';
+const DB_VERSION = 1;
+const SNAPSHOTS_STORE = 'snapshots';
+
+/**
+ * IndexedDB store for membership snapshots. Prefer the shared
+ * {@link membershipSnapshotStore} singleton over constructing new instances.
+ */
+class MembershipSnapshotStore {
+  private dbPromise: Promise<IDBPDatabase<MembershipSnapshotDB>> | null = null;
+
+  private async getDB(): Promise<IDBPDatabase<MembershipSnapshotDB>> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDB<MembershipSnapshotDB>(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+            const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+            snapshots.createIndex('groupId', 'groupId');
+          }
+        },
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * List one group's snapshots, newest first.
+   *
+   * @param groupId - The Okta group id.
+   * @returns The group's snapshots, or `[]` on any failure.
+   */
+  async listSnapshots(groupId: string): Promise<MembershipSnapshot[]> {
+    try {
+      const db = await this.getDB();
+      const snapshots = await db.getAllFromIndex(SNAPSHOTS_STORE, 'groupId', groupId);
+      return snapshots.sort((a, b) => b.takenAt.getTime() - a.takenAt.getTime());
+    } catch (error) {
+      log.error('Failed to list membership snapshots:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read one snapshot.
+   *
+   * @param id - The snapshot's {@link MembershipSnapshot.id}.
+   * @returns The snapshot, or `null` when absent or on failure.
+   */
+  async getSnapshot(id: string): Promise<MembershipSnapshot | null> {
+    try {
+      const db = await this.getDB();
+      return (await db.get(SNAPSHOTS_STORE, id)) ?? null;
+    } catch (error) {
+      log.error('Failed to read membership snapshot:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Insert or replace a snapshot (keyed by `id`).
+   *
+   * @param snapshot - The snapshot to keep.
+   * @returns Whether it was saved.
+   */
+  async saveSnapshot(snapshot: MembershipSnapshot): Promise<boolean> {
+    try {
+      const db = await this.getDB();
+      await db.put(SNAPSHOTS_STORE, snapshot);
+      return true;
+    } catch (error) {
+      log.error('Failed to save membership snapshot:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a snapshot by id.
+   *
+   * @param id - The snapshot's {@link MembershipSnapshot.id}.
+   */
+  async deleteSnapshot(id: string): Promise<void> {
+    try {
+      const db = await this.getDB();
+      await db.delete(SNAPSHOTS_STORE, id);
+    } catch (error) {
+      log.error('Failed to delete membership snapshot:', error);
+    }
+  }
+}
+
+/** Shared snapshot store singleton — use this rather than `new MembershipSnapshotStore()`. */
+export const membershipSnapshotStore = new MembershipSnapshotStore();
+export default membershipSnapshotStore;
@@ -0,0 +1,249 @@
+/**
+ * @module shared/storage/operationJournal.test
+ * @description Unit tests for the IndexedDB-backed bulk operation journal.
+ *
+ * As in `presetStore.test`, `idb`'s `openDB` is mocked with a Map-backed stub of
+ * the methods the journal uses, so these assert the journal's own logic: items
+ * start pending, an in-flight item reads back as unknown, only operations no live
+ * panel owns are listed as interrupted, claim/release move ownership, finish
+ * deletes everything, and DB errors are swallowed.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { JournalOperation } from './operationJournal';
+
+interface ItemRecord {
+  operationId: string;
+  index: number;
+  key: string;
+  label: string;
+  status: string;
+  error?: string;
+}
+
+const { fakeDB, operations, items } = vi.hoisted(() => {
+  const operations = new Map<string, JournalOperation>();
+  const items = new Map<string, ItemRecord>();
+  const itemKey = (key: [string, number]) => `${key[0]}#${key[1]}`;
+
+  const put = async (store: string, value: JournalOperation | ItemRecord): Promise<void> => {
+    if (store === 'operations')
+      operations.set((value as JournalOperation).id, value as JournalOperation);
+    else {
+      const record = value as ItemRecord;
+      items.set(itemKey([record.operationId, record.index]), record);
+    }
+  };
+  const del = async (store: string, key: string | [string, number]): Promise<void> => {
+    if (store === 'operations') operations.delete(key as string);
+    else items.delete(itemKey(key as [string, number]));
+  };
+  const byOperation = (operationId: string) =>
+    [...items.values()].filter((record) => record.operationId === operationId);
+
+  const fakeDB = {
+    transaction: vi.fn(() => ({
+      objectStore: (store: string) => ({
+        put: (value: JournalOperation | ItemRecord) => put(store, value),
+        delete: (key: string | [string, number]) => del(store, key),
+      }),
+      done: Promise.resolve(),
+    })),
+    get: vi.fn(async (store: string, key: string | [string, number]) =>
+      store === 'operations'
+        ? operations.get(key as string)
+        : items.get(itemKey(key as [string, number])),
+    ),
+    put: vi.fn(put),
+    getAll: vi.fn(async () => [...operations.values()]),
+    getAllFromIndex: vi.fn(async (_store: string, _index: string, operationId: string) =>
+      byOperation(operationId),
+    ),
+    getAllKeysFromIndex: vi.fn(async (_store: string, _index: string, operationId: string) =>
+      byOperation(operationId).map((record) => [record.operationId, record.index]),
+    ),
+  };
+  return { fakeDB, operations, items };
+});
+
+vi.mock('idb', () => ({ openDB: vi.fn(async () => fakeDB) }));
+
+// Imported after the mock is registered so the singleton opens the fake DB.
+import {
+  operationJournal,
+  settledItemState,
+  WriteRejectedError,
+  STALE_AFTER_MS,
+} from './operationJournal';
+
+const input = {
+  kind: 'remove-members' as const,
+  title: 'Remove deprovisioned users',
+  groupId: '00gFAKE1',
+  groupName: 'Engineering',
+  items: [
+    { key: '00uFAKE1', label: 'a@example.com' },
+    { key: '00uFAKE2', label: 'b@example.com' },
+    { key: '00uFAKE3', label: 'c@example.com' },
+  ],
+};
+
+/** Make a journaled operation look like another panel's, last written long ago. */
+function orphan(id: string): void {
+  const operation = operations.get(id);
+  if (!operation) throw new Error('no such operation');
+  operations.set(id, {
+    ...operation,
+    sessionId: 'another-panel',
+    updatedAt: Date.now() - STALE_AFTER_MS - 1,
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  operations.clear();
+  items.clear();
+});
+
+describe('begin + getItems', () => {
+  it('journals every item as pending, in batch order', async () => {
+    const id = await operationJournal.begin(input);
+    expect(id).toEqual(expect.any(String));
+
+    const read = await operationJournal.getItems(id ?? '');
+    expect(read.map((item) => [item.key, item.state])).toEqual([
+      ['00uFAKE1', 'pending'],
+      ['00uFAKE2', 'pending'],
+      ['00uFAKE3', 'pending'],
+    ]);
+    expect(operations.get(id ?? '')?.total).toBe(3);
+  });
+
+  it('reads an in-flight item back as unknown, never pending or failed', async () => {
+    const id = (await operationJournal.begin(input)) ?? '';
+    await operationJournal.markStarted(id, 0);
+    await operationJournal.markStarted(id, 1);
+    await operationJournal.markSettled(id, 1, 'failed', 'Forbidden');
+
+    const read = await operationJournal.getItems(id);
+    expect(read.map((item) => item.state)).toEqual(['unknown', 'failed', 'pending']);
+    expect(read[1].error).toBe('Forbidden');
+  });
+
+  it('returns null when the journal cannot be written', async () => {
+    fakeDB.transaction.mockImplementationOnce(() => {
+      throw new Error('quota');
+    });
+    await expect(operationJournal.begin(input)).resolves.toBeNull();
+  });
+});
+
+describe('listInterrupted', () => {
+  it('does not list an operation this panel is running', async () => {
+    await operationJournal.begin(input);
+    await expect(operationJournal.listInterrupted()).resolves.toEqual([]);
+  });
+
+  it("does not list another panel's operation while it is still writing", async () => {
+    const id = (await operationJournal.begin(input)) ?? '';
+    const operation = operations.get(id);
+    if (operation) operations.set(id, { ...operation, sessionId: 'another-panel' });
+
+    await expect(operationJournal.listInterrupted()).resolves.toEqual([]);
+  });
+
+  it('lists a stale operation owned by another session, with per-state counts', async () => {
+    const id = (await operationJournal.begin(input)) ?? '';
+    await operationJournal.markSettled(id, 0, 'done');
+    await operationJournal.markStarted(id, 1);
+    orphan(id);
+
+    const [interrupted] = await operationJournal.listInterrupted();
+    expect(interrupted.id).toBe(id);
+    expect(interrupted.counts).toEqual({
+      pending: 1,
+      done: 1,
+      failed: 0,
+      unknown: 1,
+      restored: 0,
+    });
+  });
+
+  it('lists a released operation straight away', async () => {
+    const id = (await operationJournal.begin(input)) ?? '';
+    await operationJournal.release(id);
+
+    const listed = await operationJournal.listInterrupted();
+    expect(listed.map((operation) => operation.id)).toEqual([id]);
+  });
+
+  it('degrades to [] on a DB error', async () => {
+    fakeDB.getAll.mockRejectedValueOnce(new Error('boom'));
+    await expect(operationJournal.listInterrupted()).resolves.toEqual([]);
+  });
+});
+
+describe('heartbeat', () => {
+  it('keeps a running operation off the list while no item is written', async () => {
+    const id = (await operationJournal.begin(input)) ?? '';
+    const operation = operations.get(id);
+    if (operation) operations.set(id, { ...operation, updatedAt: 0 });
+
+    await operationJournal.heartbeat(id);
+
+    expect(operations.get(id)?.updatedAt).toBeGreaterThan(Date.now() - STALE_AFTER_MS);
+  });
+
+  it('leaves an operation another panel has claimed alone', async () => {
+    const id = (await operationJournal.begin(input)) ?? '';
+    orphan(id);
+    const before = operations.get(id);
+
+    await operationJournal.heartbeat(id);
+
+    expect(operations.get(id)).toEqual(before);
+  });
+});
+
+describe('claim + finish', () => {
+  it('claiming an interrupted operation takes it off the list', async () => {
+    const id = (await operationJournal.begin(input)) ?? '';
+    orphan(id);
+
+    await expect(operationJournal.claim(id)).resolves.toBe(true);
+    await expect(operationJournal.listInterrupted()).resolves.toEqual([]);
+  });
+
+  it('reports false when claiming an operation that is gone', async () => {
+    await expect(operationJournal.claim('missing')).resolves.toBe(false);
+  });
+
+  it('finish deletes the operation and every item', async () => {
+    const id = (await operationJournal.begin(input)) ?? '';
+    await operationJournal.finish(id);
+
+    expect(operations.size).toBe(0);
+    expect(items.size).toBe(0);
+  });
+});
+
+describe('settledItemState', () => {
+  it('separates an Okta refusal from an unanswered request', () => {
+    expect(settledItemState({ item: 1, index: 0, status: 'fulfilled' })).toBe('done');
+    expect(
+      settledItemState({
+        item: 1,
+        index: 0,
+        status: 'rejected',
+        error: new WriteRejectedError('Forbidden', 403),
+      }),
+    ).toBe('failed');
+    expect(
+      settledItemState({
+        item: 1,
+        index: 0,
+        status: 'rejected',
+        error: new Error('The message port closed before a response was received.'),
+      }),
+    ).toBe('unknown');
+  });
+});
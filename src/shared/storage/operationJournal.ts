@@ -0,0 +1,400 @@
+/**
+ * @module shared/storage/operationJournal
+ * @description IndexedDB-backed journal of in-progress bulk writes.
+ *
+ * `runBatch` holds a batch's progress in memory only, so a side panel closed (or a
+ * tab crashed) halfway through a 5,000-user removal used to leave no record of
+ * which users were already removed. A journaled operation writes every item here
+ * before the first request goes out, and each item's status before and after its
+ * request — write-ahead, so the journal is never behind the tenant.
+ *
+ * An item's state is deliberately not a boolean, for the same reason
+ * `UpdateProfileResult` is not: `'failed'` means Okta answered and refused, while
+ * `'unknown'` means the request was sent (or threw) and we never learned whether it
+ * applied. An item recorded as in flight when the panel died reads back as
+ * `'unknown'`, never as pending or failed.
+ *
+ * A finished run deletes its entry — the audit trail owns the history. An entry
+ * still present, owned by no live panel, is an interrupted operation the panel
+ * offers to resume, roll back or abandon. Like the other stores, failures are
+ * logged and never thrown: a journal that cannot be written degrades to the old
+ * in-memory behavior, it does not stop the operation. Exposed as the
+ * {@link operationJournal} singleton.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { createLogger } from '../utils/logger';
+import type { BatchItemResult } from '../scheduler/runBatch';
+
+const log = createLogger('OperationJournal');
+
+/** What a journaled operation does to each item. Only group-member removal so far. */
+export type JournalOperationKind = 'remove-members';
+
+/**
+ * The reported state of one journaled item.
+ *
+ * - `'pending'` — never started; nothing was sent.
+ * - `'done'` — Okta accepted the write.
+ * - `'failed'` — Okta answered and refused; the item is unchanged.
+ * - `'unknown'` — sent, but no answer was recorded. The write MAY HAVE APPLIED.
+ * - `'restored'` — a rollback reversed this item's write.
+ */
+export type JournalItemState = 'pending' | 'done' | 'failed' | 'unknown' | 'restored';
+
+/** Stored status: a reported state, or in flight (reported as `'unknown'`). */
+type JournalItemStatus = JournalItemState | 'in-flight';
+
+/** One operation's header row. */
+export interface JournalOperation {
+  id: string;
+  kind: JournalOperationKind;
+  /** The operation name shown in the activity bar (e.g. "Remove deprovisioned users"). */
+  title: string;
+  groupId: string;
+  groupName: string;
+  /** Number of items journaled. */
+  total: number;
+  /** Epoch ms. */
+  createdAt: number;
+  /** Epoch ms of the last item write or heartbeat from the owning panel. */
+  updatedAt: number;
+  /** Panel session currently running the operation, or `null` when none is. */
+  sessionId: string | null;
+}
+
+/** One journaled item as read back. */
+export interface JournalItem {
+  /** Position in the original batch. */
+  index: number;
+  /** The id the write targets (a user id for `remove-members`). */
+  key: string;
+  /** Human-readable name for the item (a login). */
+  label: string;
+  state: JournalItemState;
+  /** Okta's refusal or the thrown error text, when the item did not complete. */
+  error?: string;
+}
+
+/** An interrupted operation with its per-state item counts. */
+export interface InterruptedOperation extends JournalOperation {
+  counts: Record<JournalItemState, number>;
+}
+
+/** Input for {@link OperationJournal.begin}. */
+export interface BeginJournalInput {
+  kind: JournalOperationKind;
+  title: string;
+  groupId: string;
+  groupName: string;
+  items: Array<{ key: string; label: string }>;
+}
+
+interface JournalItemRecord {
+  operationId: string;
+  index: number;
+  key: string;
+  label: string;
+  status: JournalItemStatus;
+  error?: string;
+}
+
+interface JournalDB extends DBSchema {
+  operations: {
+    key: string;
+    value: JournalOperation;
+  };
+  items: {
+    key: [string, number];
+    value: JournalItemRecord;
+    indexes: {
+      operationId: string;
+    };
+  };
+}
+
+const DB_NAME = 'okta-unbound-journal';
+const DB_VERSION = 1;
+const OPERATIONS_STORE = 'operations';
+const ITEMS_STORE = 'items';
+
+/**
+ * How long an entry owned by another panel may go without a write before it is
+ * treated as interrupted. A running panel also writes {@link HEARTBEAT_MS} apart
+ * while no item settles, so one that is alive but held — a 429 cool-down, a paused
+ * queue, the sign-in hold — keeps its operation off the list.
+ */
+export const STALE_AFTER_MS = 60_000;
+
+/** How often a running operation refreshes its entry between item writes. */
+export const HEARTBEAT_MS = 20_000;
+
+/** This panel's session. Entries carrying a different one were started elsewhere. */
+const SESSION_ID = crypto.randomUUID();
+
+/**
+ * Marks a rejection as Okta's answer — the write was refused and did not apply —
+ * as distinct from a thrown transport error, after which the write may have
+ * applied. Journaled tasks throw it for a `{ success: false }` response.
+ */
+export class WriteRejectedError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'WriteRejectedError';
+  }
+}
+
+/**
+ * Classify a settled batch item for the journal.
+ *
+ * @param result - The item's {@link BatchItemResult}.
+ * @returns `'done'` when fulfilled, `'failed'` when the task threw a
+ * {@link WriteRejectedError}, and `'unknown'` for any other rejection.
+ */
+export function settledItemState(
+  result: BatchItemResult<unknown, unknown>,
+): 'done' | 'failed' | 'unknown' {
+  if (result.status === 'fulfilled') return 'done';
+  return result.error instanceof WriteRejectedError ? 'failed' : 'unknown';
+}
+
+/** Reported state of a stored status: an in-flight item is unknown. */
+function toState(status: JournalItemStatus): JournalItemState {
+  return status === 'in-flight' ? 'unknown' : status;
+}
+
+/**
+ * IndexedDB operation journal. Lazily opens the database on first use and reuses
+ * the connection. Prefer the shared {@link operationJournal} singleton.
+ */
+class OperationJournal {
+  private dbPromise: Promise<IDBPDatabase<JournalDB>> | null = null;
+
+  private async getDB(): Promise<IDBPDatabase<JournalDB>> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDB<JournalDB>(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains(OPERATIONS_STORE)) {
+            db.createObjectStore(OPERATIONS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+            const itemsStore = db.createObjectStore(ITEMS_STORE, {
+              keyPath: ['operationId', 'index'],
+            });
+            itemsStore.createIndex('operationId', 'operationId');
+          }
+        },
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Journal a new operation, every item `'pending'`, owned by this panel.
+   *
+   * @returns The operation id, or `null` when the journal could not be written (the
+   * caller runs the operation unjournaled).
+   */
+  async begin(input: BeginJournalInput): Promise<string | null> {
+    try {
+      const db = await this.getDB();
+      const id = crypto.randomUUID();
+      const now = Date.now();
+
+      const tx = db.transaction([OPERATIONS_STORE, ITEMS_STORE], 'readwrite');
+      const itemsStore = tx.objectStore(ITEMS_STORE);
+      await Promise.all([
+        ...input.items.map((item, index) =>
+          itemsStore.put({
+            operationId: id,
+            index,
+            key: item.key,
+            label: item.label,
+            status: 'pending',
+          }),
+        ),
+        tx.objectStore(OPERATIONS_STORE).put({
+          id,
+          kind: input.kind,
+          title: input.title,
+          groupId: input.groupId,
+          groupName: input.groupName,
+          total: input.items.length,
+          createdAt: now,
+          updatedAt: now,
+          sessionId: SESSION_ID,
+        }),
+        tx.done,
+      ]);
+
+      log.debug('Journaled operation:', input.kind, id, input.items.length);
+      return id;
+    } catch (error) {
+      log.error('Failed to journal operation:', error);
+      return null;
+    }
+  }
+
+  /** Record that an item's request is about to be sent. */
+  async markStarted(operationId: string, index: number): Promise<void> {
+    await this.writeItem(operationId, index, 'in-flight');
+  }
+
+  /** Record an item's settled state (and, when it did not complete, why). */
+  async markSettled(
+    operationId: string,
+    index: number,
+    state: Exclude<JournalItemState, 'pending'>,
+    error?: string,
+  ): Promise<void> {
+    await this.writeItem(operationId, index, state, error);
+  }
+
+  private async writeItem(
+    operationId: string,
+    index: number,
+    status: JournalItemStatus,
+    error?: string,
+  ): Promise<void> {
+    try {
+      const db = await this.getDB();
+      const record = await db.get(ITEMS_STORE, [operationId, index]);
+      if (!record) return;
+      await db.put(ITEMS_STORE, { ...record, status, error });
+      await this.touch(db, operationId, SESSION_ID);
+    } catch (err) {
+      log.error('Failed to update journal item:', err);
+    }
+  }
+
+  /** Refresh an operation's heartbeat and set its owner. */
+  private async touch(
+    db: IDBPDatabase<JournalDB>,
+    operationId: string,
+    sessionId: string | null,
+  ): Promise<boolean> {
+    const operation = await db.get(OPERATIONS_STORE, operationId);
+    if (!operation) return false;
+    await db.put(OPERATIONS_STORE, { ...operation, updatedAt: Date.now(), sessionId });
+    return true;
+  }
+
+  /**
+   * List operations no live panel is running: released ones, and ones another
+   * session owns but has not written for {@link STALE_AFTER_MS}. Newest first.
+   */
+  async listInterrupted(): Promise<InterruptedOperation[]> {
+    try {
+      const db = await this.getDB();
+      const now = Date.now();
+      const operations = (await db.getAll(OPERATIONS_STORE)).filter(
+        (op) =>
+          op.sessionId === null ||
+          (op.sessionId !== SESSION_ID && now - op.updatedAt > STALE_AFTER_MS),
+      );
+
+      const interrupted: InterruptedOperation[] = [];
+      for (const op of operations) {
+        const counts: Record<JournalItemState, number> = {
+          pending: 0,
+          done: 0,
+          failed: 0,
+          unknown: 0,
+          restored: 0,
+        };
+        const records = await db.getAllFromIndex(ITEMS_STORE, 'operationId', op.id);
+        for (const record of records) counts[toState(record.status)] += 1;
+        interrupted.push({ ...op, counts });
+      }
+
+      return interrupted.sort((a, b) => b.createdAt - a.createdAt);
+    } catch (error) {
+      log.error('Failed to list interrupted operations:', error);
+      return [];
+    }
+  }
+
+  /** Read an operation's items in batch order. Returns `[]` on error. */
+  async getItems(operationId: string): Promise<JournalItem[]> {
+    try {
+      const db = await this.getDB();
+      const records = await db.getAllFromIndex(ITEMS_STORE, 'operationId', operationId);
+      return records
+        .sort((a, b) => a.index - b.index)
+        .map((record) => ({
+          index: record.index,
+          key: record.key,
+          label: record.label,
+          state: toState(record.status),
+          ...(record.error ? { error: record.error } : {}),
+        }));
+    } catch (error) {
+      log.error('Failed to read journal items:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Refresh the entry of an operation this panel is running, so a run held between
+   * item writes is not offered for recovery. Leaves an entry another panel has
+   * claimed alone.
+   */
+  async heartbeat(operationId: string): Promise<void> {
+    try {
+      const db = await this.getDB();
+      const operation = await db.get(OPERATIONS_STORE, operationId);
+      if (operation?.sessionId !== SESSION_ID) return;
+      await this.touch(db, operationId, SESSION_ID);
+    } catch (error) {
+      log.error('Failed to refresh journaled operation:', error);
+    }
+  }
+
+  /**
+   * Take ownership of an interrupted operation so no other panel offers it while
+   * this one works on it.
+   *
+   * @returns `false` when the entry is gone (another panel finished or abandoned it).
+   */
+  async claim(operationId: string): Promise<boolean> {
+    try {
+      return await this.touch(await this.getDB(), operationId, SESSION_ID);
+    } catch (error) {
+      log.error('Failed to claim journaled operation:', error);
+      return false;
+    }
+  }
+
+  /** Give up ownership, so the operation is offered for recovery straight away. */
+  async release(operationId: string): Promise<void> {
+    try {
+      await this.touch(await this.getDB(), operationId, null);
+    } catch (error) {
+      log.error('Failed to release journaled operation:', error);
+    }
+  }
+
+  /** Delete an operation and its items — on completion, or when abandoned. */
+  async finish(operationId: string): Promise<void> {
+    try {
+      const db = await this.getDB();
+      const keys = await db.getAllKeysFromIndex(ITEMS_STORE, 'operationId', operationId);
+      const tx = db.transaction([OPERATIONS_STORE, ITEMS_STORE], 'readwrite');
+      const itemsStore = tx.objectStore(ITEMS_STORE);
+      await Promise.all([
+        ...keys.map((key) => itemsStore.delete(key)),
+        tx.objectStore(OPERATIONS_STORE).delete(operationId),
+        tx.done,
+      ]);
+      log.debug('Closed journaled operation:', operationId);
+    } catch (error) {
+      log.error('Failed to close journaled operation:', error);
+    }
+  }
+}
+
+export const operationJournal = new OperationJournal();
+export default operationJournal;
@@ -0,0 +1,120 @@
+/**
+ * @module shared/storage/scheduledReportStore.test
+ * @description Unit tests for the IndexedDB-backed scheduled-report store.
+ *
+ * As in `presetStore.test`, `idb`'s `openDB` is mocked with a Map-backed stub of
+ * the methods the store uses. Asserts ordering, the run pruning, deleting a report
+ * with its runs, and that DB errors degrade to `[]`/`null`/`false`.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  RUNS_KEPT_PER_REPORT,
+  type ScheduledReport,
+  type ScheduledReportRun,
+} from '../reports/scheduledReports';
+
+const { fakeDB, reports, runs } = vi.hoisted(() => {
+  const reports = new Map<string, ScheduledReport>();
+  const runs = new Map<string, ScheduledReportRun>();
+  const storeOf = (name: string) => (name === 'reports' ? reports : runs) as Map<string, unknown>;
+  const fakeDB = {
+    getAll: vi.fn(async () => [...reports.values()]),
+    get: vi.fn(async (_store: string, id: string) => reports.get(id)),
+    put: vi.fn(async (store: string, value: { id: string }) => {
+      storeOf(store).set(value.id, value);
+    }),
+    delete: vi.fn(async (store: string, id: string) => {
+      storeOf(store).delete(id);
+    }),
+    getAllFromIndex: vi.fn(async (_store: string, _index: string, reportId: string) =>
+      [...runs.values()].filter((run) => run.reportId === reportId),
+    ),
+    getAllKeysFromIndex: vi.fn(async (_store: string, _index: string, reportId: string) =>
+      [...runs.values()].filter((run) => run.reportId === reportId).map((run) => run.id),
+    ),
+  };
+  return { fakeDB, reports, runs };
+});
+
+vi.mock('idb', () => ({ openDB: vi.fn(async () => fakeDB) }));
+
+import { scheduledReportStore } from './scheduledReportStore';
+
+function report(id: string, createdAt: string): ScheduledReport {
+  return {
+    id,
+    name: id,
+    job: { kind: 'clutter', category: 'empty' },
+    cadence: { kind: 'daily', hour: 8 },
+    origin: 'https://example.okta.com',
+    createdAt: new Date(createdAt),
+    nextRunAt: 0,
+    version: 1,
+  };
+}
+
+function run(id: string, reportId: string, minute: number): ScheduledReportRun {
+  const at = new Date(Date.UTC(2026, 9, 19, 8, minute));
+  return { id, reportId, startedAt: at, finishedAt: at, status: 'success', summary: '' };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  reports.clear();
+  runs.clear();
+});
+
+describe('reports', () => {
+  it('lists oldest first and reads one back', async () => {
+    await scheduledReportStore.putReport(report('b', '2026-10-02'));
+    await scheduledReportStore.putReport(report('a', '2026-10-01'));
+
+    expect((await scheduledReportStore.listReports()).map((r) => r.id)).toEqual(['a', 'b']);
+    expect((await scheduledReportStore.getReport('b'))?.id).toBe('b');
+    expect(await scheduledReportStore.getReport('missing')).toBeNull();
+  });
+
+  it('deletes a report with its runs, leaving other reports’ runs', async () => {
+    await scheduledReportStore.putReport(report('a', '2026-10-01'));
+    await scheduledReportStore.addRun(run('r1', 'a', 0));
+    await scheduledReportStore.addRun(run('r2', 'b', 0));
+
+    await scheduledReportStore.deleteReport('a');
+
+    expect(reports.has('a')).toBe(false);
+    expect([...runs.keys()]).toEqual(['r2']);
+  });
+
+  it('degrades on DB errors', async () => {
+    fakeDB.getAll.mockRejectedValueOnce(new Error('db down'));
+    fakeDB.put.mockRejectedValueOnce(new Error('db down'));
+
+    expect(await scheduledReportStore.listReports()).toEqual([]);
+    expect(await scheduledReportStore.putReport(report('a', '2026-10-01'))).toBe(false);
+  });
+});
+
+describe('runs', () => {
+  it('lists newest first', async () => {
+    await scheduledReportStore.addRun(run('old', 'a', 0));
+    await scheduledReportStore.addRun(run('new', 'a', 5));
+
+    expect((await scheduledReportStore.listRuns('a')).map((r) => r.id)).toEqual(['new', 'old']);
+  });
+
+  it(`keeps only the newest ${RUNS_KEPT_PER_REPORT} runs of a report`, async () => {
+    for (let minute = 0; minute < RUNS_KEPT_PER_REPORT + 2; minute++) {
+      await scheduledReportStore.addRun(run(`r${minute}`, 'a', minute));
+    }
+
+    const kept = await scheduledReportStore.listRuns('a');
+    expect(kept).toHaveLength(RUNS_KEPT_PER_REPORT);
+    expect(kept.map((r) => r.id)).not.toContain('r0');
+    expect(kept.map((r) => r.id)).not.toContain('r1');
+  });
+
+  it('returns [] when the DB throws on read', async () => {
+    fakeDB.getAllFromIndex.mockRejectedValueOnce(new Error('db down'));
+    expect(await scheduledReportStore.listRuns('a')).toEqual([]);
+  });
+});
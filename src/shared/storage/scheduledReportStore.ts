@@ -0,0 +1,172 @@
+/**
+ * @module shared/storage/scheduledReportStore
+ * @description IndexedDB-backed store for scheduled reports and their runs.
+ *
+ * Mirrors {@link module:shared/storage/presetStore}: a lazily-opened, reused
+ * connection, an {@link https://github.com/jakearchibald/idb | idb} `DBSchema`, and
+ * a singleton export ({@link scheduledReportStore}). Every method is
+ * fire-and-forget — failures are logged and never propagate, and reads degrade to
+ * `[]`/`null`.
+ *
+ * The side panel writes the reports; the service worker reads them, runs them and
+ * writes the runs. Only the last {@link RUNS_KEPT_PER_REPORT} runs of a report are
+ * kept. A run may hold an export's CSV — tenant data that stays on this device —
+ * and is deleted with its report.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { createLogger } from '../utils/logger';
+import {
+  RUNS_KEPT_PER_REPORT,
+  type ScheduledReport,
+  type ScheduledReportRun,
+} from '../reports/scheduledReports';
+
+const log = createLogger('ScheduledReportStore');
+
+interface ReportsDB extends DBSchema {
+  reports: {
+    key: string;
+    value: ScheduledReport;
+  };
+  runs: {
+    key: string;
+    value: ScheduledReportRun;
+    indexes: { reportId: string };
+  };
+}
+
+const DB_NAME = 'okta-unbound-reports';
+const DB_VERSION = 1;
+const REPORTS_STORE = 'reports';
+const RUNS_STORE = 'runs';
+
+/**
+ * IndexedDB store for scheduled reports and their runs. Prefer the shared
+ * {@link scheduledReportStore} singleton over constructing new instances.
+ */
+class ScheduledReportStore {
+  private dbPromise: Promise<IDBPDatabase<ReportsDB>> | null = null;
+
+  private async getDB(): Promise<IDBPDatabase<ReportsDB>> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDB<ReportsDB>(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains(REPORTS_STORE)) {
+            db.createObjectStore(REPORTS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(RUNS_STORE)) {
+            const runs = db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+            runs.createIndex('reportId', 'reportId');
+          }
+        },
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * List every report, oldest first.
+   *
+   * @returns The reports, or `[]` on any failure.
+   */
+  async listReports(): Promise<ScheduledReport[]> {
+    try {
+      const db = await this.getDB();
+      const reports = await db.getAll(REPORTS_STORE);
+      return reports.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      log.error('Failed to list scheduled reports:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read one report.
+   *
+   * @param id - The report's id.
+   * @returns The report, or `null` when absent or on failure.
+   */
+  async getReport(id: string): Promise<ScheduledReport | null> {
+    try {
+      const db = await this.getDB();
+      return (await db.get(REPORTS_STORE, id)) ?? null;
+    } catch (error) {
+      log.error('Failed to read scheduled report:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Insert or replace a report (keyed by `id`).
+   *
+   * @param report - The report.
+   * @returns Whether it was stored.
+   */
+  async putReport(report: ScheduledReport): Promise<boolean> {
+    try {
+      const db = await this.getDB();
+      await db.put(REPORTS_STORE, report);
+      return true;
+    } catch (error) {
+      log.error('Failed to save scheduled report:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete a report and every run of it.
+   *
+   * @param id - The report's id.
+   */
+  async deleteReport(id: string): Promise<void> {
+    try {
+      const db = await this.getDB();
+      const runs = await db.getAllKeysFromIndex(RUNS_STORE, 'reportId', id);
+      await Promise.all(runs.map((runId) => db.delete(RUNS_STORE, runId)));
+      await db.delete(REPORTS_STORE, id);
+    } catch (error) {
+      log.error('Failed to delete scheduled report:', error);
+    }
+  }
+
+  /**
+   * List a report's runs, newest first.
+   *
+   * @param reportId - The report's id.
+   * @returns The runs, or `[]` on any failure.
+   */
+  async listRuns(reportId: string): Promise<ScheduledReportRun[]> {
+    try {
+      const db = await this.getDB();
+      const runs = await db.getAllFromIndex(RUNS_STORE, 'reportId', reportId);
+      return runs.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+    } catch (error) {
+      log.error('Failed to list report runs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a run, then prune the report's runs to the newest
+   * {@link RUNS_KEPT_PER_REPORT}.
+   *
+   * @param run - The finished run.
+   */
+  async addRun(run: ScheduledReportRun): Promise<void> {
+    try {
+      const db = await this.getDB();
+      await db.put(RUNS_STORE, run);
+      const runs = await this.listRuns(run.reportId);
+      await Promise.all(
+        runs.slice(RUNS_KEPT_PER_REPORT).map((old) => db.delete(RUNS_STORE, old.id)),
+      );
+    } catch (error) {
+      log.error('Failed to record report run:', error);
+    }
+  }
+}
+
+/** Shared scheduled-report store singleton — use this rather than `new ScheduledReportStore()`. */
+export const scheduledReportStore = new ScheduledReportStore();
+export default scheduledReportStore;
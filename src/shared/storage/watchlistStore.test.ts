@@ -0,0 +1,138 @@
+/**
+ * @module shared/storage/watchlistStore.test
+ * @description Unit tests for the IndexedDB-backed watchlist store.
+ *
+ * As in `scheduledReportStore.test`, `idb`'s `openDB` is mocked with a Map-backed
+ * stub of the methods the store uses. Asserts ordering, that a check never
+ * re-pins an unpinned entity, the change pruning, and the settings defaults.
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CHANGES_KEPT, type WatchChange } from '../watchlist/watchlist';
+
+const { fakeDB, stores } = vi.hoisted(() => {
+  const stores = {
+    items: new Map<string, unknown>(),
+    changes: new Map<string, unknown>(),
+    settings: new Map<string, unknown>(),
+  };
+  type StoreName = keyof typeof stores;
+  const keyOf = (store: StoreName, value: Record<string, unknown>, key?: string) =>
+    key ?? String(store === 'items' ? value.key : value.id);
+  const fakeDB = {
+    getAll: vi.fn(async (store: StoreName) => [...stores[store].values()]),
+    get: vi.fn(async (store: StoreName, key: string) => stores[store].get(key)),
+    put: vi.fn(async (store: StoreName, value: Record<string, unknown>, key?: string) => {
+      stores[store].set(keyOf(store, value, key), value);
+    }),
+    delete: vi.fn(async (store: StoreName, key: string) => {
+      stores[store].delete(key);
+    }),
+  };
+  return { fakeDB, stores };
+});
+
+vi.mock('idb', () => ({ openDB: vi.fn(async () => fakeDB) }));
+
+import { watchlistStore } from './watchlistStore';
+
+function pin(id: string, addedAt: string) {
+  return watchlistStore.addItem({
+    key: `group:${id}`,
+    kind: 'group',
+    id,
+    origin: 'https://example.okta.com',
+    name: id,
+    addedAt: new Date(addedAt),
+  });
+}
+
+function change(id: string, minute: number, seen = false): WatchChange {
+  return {
+    id,
+    kind: 'group',
+    entityId: 'g',
+    name: 'g',
+    detectedAt: new Date(Date.UTC(2026, 9, 19, 8, minute)),
+    changes: ['Updated'],
+    seen,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  Object.values(stores).forEach((store) => store.clear());
+});
+
+describe('items', () => {
+  it('pins without a fingerprint and lists oldest first', async () => {
+    await pin('b', '2026-10-02');
+    await pin('a', '2026-10-01');
+
+    const items = await watchlistStore.listItems();
+    expect(items.map((item) => item.id)).toEqual(['a', 'b']);
+    expect(items[0].fingerprint).toBeNull();
+    expect(await watchlistStore.getItem('group:missing')).toBeNull();
+  });
+
+  it('records a check, keeping the pinned name when the entity is missing', async () => {
+    await pin('a', '2026-10-01');
+    const at = new Date('2026-10-19T09:00:00Z');
+
+    await watchlistStore.recordCheck('group:a', { name: 'Renamed', memberCount: 3 }, at);
+    expect(await watchlistStore.getItem('group:a')).toMatchObject({
+      name: 'Renamed',
+      checkedAt: at,
+    });
+
+    await watchlistStore.recordCheck('group:a', { name: 'Renamed', missing: true }, at);
+    expect((await watchlistStore.getItem('group:a'))?.fingerprint?.missing).toBe(true);
+  });
+
+  it('does not re-pin an entity unpinned during a check', async () => {
+    await pin('a', '2026-10-01');
+    await watchlistStore.removeItem('group:a');
+    await watchlistStore.recordCheck('group:a', { name: 'a' }, new Date());
+
+    expect(await watchlistStore.listItems()).toEqual([]);
+  });
+
+  it('degrades on DB errors', async () => {
+    fakeDB.getAll.mockRejectedValueOnce(new Error('db down'));
+    fakeDB.put.mockRejectedValueOnce(new Error('db down'));
+
+    expect(await watchlistStore.listItems()).toEqual([]);
+    expect(await pin('a', '2026-10-01')).toBe(false);
+  });
+});
+
+describe('changes', () => {
+  it('lists newest first, marks them seen and counts the unseen', async () => {
+    await watchlistStore.addChanges([change('old', 0), change('new', 5)]);
+
+    expect((await watchlistStore.listChanges()).map((c) => c.id)).toEqual(['new', 'old']);
+    expect(await watchlistStore.countUnseen()).toBe(2);
+
+    await watchlistStore.markAllSeen();
+    expect(await watchlistStore.countUnseen()).toBe(0);
+  });
+
+  it(`keeps only the newest ${CHANGES_KEPT} changes`, async () => {
+    await watchlistStore.addChanges(
+      Array.from({ length: CHANGES_KEPT + 2 }, (_, i) => change(`c${i}`, i)),
+    );
+
+    const kept = await watchlistStore.listChanges();
+    expect(kept).toHaveLength(CHANGES_KEPT);
+    expect(kept.map((c) => c.id)).not.toContain('c0');
+    expect(kept.map((c) => c.id)).not.toContain('c1');
+  });
+});
+
+describe('settings', () => {
+  it('defaults to no notifications and saves a change', async () => {
+    expect(await watchlistStore.getSettings()).toEqual({ notify: false });
+
+    await watchlistStore.saveSettings({ notify: true });
+    expect(await watchlistStore.getSettings()).toEqual({ notify: true });
+  });
+});
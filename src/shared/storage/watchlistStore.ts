@@ -0,0 +1,257 @@
+/**
+ * @module shared/storage/watchlistStore
+ * @description IndexedDB-backed store for the watchlist: the pinned groups, rules
+ * and users, the changes the checks found, and whether to notify.
+ *
+ * Mirrors {@link module:shared/storage/scheduledReportStore}: a lazily-opened,
+ * reused connection, an {@link https://github.com/jakearchibald/idb | idb}
+ * `DBSchema`, and a singleton export ({@link watchlistStore}). Failures are logged
+ * and never propagate; reads degrade to `[]`/`null`/defaults.
+ *
+ * The side panel pins and unpins and marks changes seen; the service worker writes
+ * fingerprints and changes. A check only updates an item that is still pinned
+ * ({@link WatchlistStore.recordCheck}), so an unpin during a check sticks. Only
+ * the newest {@link CHANGES_KEPT} changes are kept.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { createLogger } from '../utils/logger';
+import {
+  CHANGES_KEPT,
+  type WatchChange,
+  type WatchFingerprint,
+  type WatchedItem,
+} from '../watchlist/watchlist';
+
+const log = createLogger('WatchlistStore');
+
+/** Watchlist preferences. */
+export interface WatchlistSettings {
+  /** Raise a Chrome notification when a check finds changes. */
+  notify: boolean;
+}
+
+const DEFAULT_SETTINGS: WatchlistSettings = { notify: false };
+
+interface WatchlistDB extends DBSchema {
+  items: {
+    key: string;
+    value: WatchedItem;
+  };
+  changes: {
+    key: string;
+    value: WatchChange;
+  };
+  settings: {
+    key: string;
+    value: WatchlistSettings;
+  };
+}
+
+const DB_NAME = 'okta-unbound-watchlist';
+const DB_VERSION = 1;
+const ITEMS_STORE = 'items';
+const CHANGES_STORE = 'changes';
+const SETTINGS_STORE = 'settings';
+const SETTINGS_KEY = 'watchlist';
+
+/**
+ * IndexedDB store for the watchlist. Prefer the shared {@link watchlistStore}
+ * singleton over constructing new instances.
+ */
+class WatchlistStore {
+  private dbPromise: Promise<IDBPDatabase<WatchlistDB>> | null = null;
+
+  private async getDB(): Promise<IDBPDatabase<WatchlistDB>> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDB<WatchlistDB>(DB_NAME, DB_VERSION, {
+        upgrade(db) {
+          if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+            db.createObjectStore(ITEMS_STORE, { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains(CHANGES_STORE)) {
+            db.createObjectStore(CHANGES_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+            db.createObjectStore(SETTINGS_STORE);
+          }
+        },
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * List the pinned entities, oldest first.
+   *
+   * @returns The items, or `[]` on any failure.
+   */
+  async listItems(): Promise<WatchedItem[]> {
+    try {
+      const db = await this.getDB();
+      const items = await db.getAll(ITEMS_STORE);
+      return items.sort((a, b) => a.addedAt.getTime() - b.addedAt.getTime());
+    } catch (error) {
+      log.error('Failed to list watched items:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read one pinned entity.
+   *
+   * @param key - Its {@link WatchedItem.key}.
+   * @returns The item, or `null` when not pinned or on failure.
+   */
+  async getItem(key: string): Promise<WatchedItem | null> {
+    try {
+      const db = await this.getDB();
+      return (await db.get(ITEMS_STORE, key)) ?? null;
+    } catch (error) {
+      log.error('Failed to read watched item:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Pin an entity, with no fingerprint until the first check.
+   *
+   * @param item - The entity, without the check fields.
+   * @returns Whether it was stored.
+   */
+  async addItem(item: Omit<WatchedItem, 'fingerprint' | 'checkedAt'>): Promise<boolean> {
+    try {
+      const db = await this.getDB();
+      await db.put(ITEMS_STORE, { ...item, fingerprint: null });
+      return true;
+    } catch (error) {
+      log.error('Failed to pin watched item:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Unpin an entity. Its past changes stay in the feed.
+   *
+   * @param key - Its {@link WatchedItem.key}.
+   */
+  async removeItem(key: string): Promise<void> {
+    try {
+      const db = await this.getDB();
+      await db.delete(ITEMS_STORE, key);
+    } catch (error) {
+      log.error('Failed to unpin watched item:', error);
+    }
+  }
+
+  /**
+   * Store a check's fingerprint — only if the entity is still pinned.
+   *
+   * @param key - Its {@link WatchedItem.key}.
+   * @param fingerprint - The fingerprint just read.
+   * @param checkedAt - When.
+   */
+  async recordCheck(key: string, fingerprint: WatchFingerprint, checkedAt: Date): Promise<void> {
+    try {
+      const db = await this.getDB();
+      const item = await db.get(ITEMS_STORE, key);
+      if (!item) return;
+      await db.put(ITEMS_STORE, {
+        ...item,
+        name: fingerprint.missing ? item.name : fingerprint.name,
+        fingerprint,
+        checkedAt,
+      });
+    } catch (error) {
+      log.error('Failed to record watch check:', error);
+    }
+  }
+
+  /**
+   * List the changes, newest first.
+   *
+   * @returns The changes, or `[]` on any failure.
+   */
+  async listChanges(): Promise<WatchChange[]> {
+    try {
+      const db = await this.getDB();
+      const changes = await db.getAll(CHANGES_STORE);
+      return changes.sort((a, b) => b.detectedAt.getTime() - a.detectedAt.getTime());
+    } catch (error) {
+      log.error('Failed to list watch changes:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record changes, then prune the feed to the newest {@link CHANGES_KEPT}.
+   *
+   * @param changes - The changes a check found.
+   */
+  async addChanges(changes: WatchChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    try {
+      const db = await this.getDB();
+      await Promise.all(changes.map((change) => db.put(CHANGES_STORE, change)));
+      const all = await this.listChanges();
+      await Promise.all(all.slice(CHANGES_KEPT).map((old) => db.delete(CHANGES_STORE, old.id)));
+    } catch (error) {
+      log.error('Failed to record watch changes:', error);
+    }
+  }
+
+  /**
+   * Mark every change seen.
+   */
+  async markAllSeen(): Promise<void> {
+    try {
+      const db = await this.getDB();
+      const unseen = (await db.getAll(CHANGES_STORE)).filter((change) => !change.seen);
+      await Promise.all(unseen.map((change) => db.put(CHANGES_STORE, { ...change, seen: true })));
+    } catch (error) {
+      log.error('Failed to mark watch changes seen:', error);
+    }
+  }
+
+  /**
+   * Count the changes not yet seen.
+   *
+   * @returns The count, or `0` on failure.
+   */
+  async countUnseen(): Promise<number> {
+    return (await this.listChanges()).filter((change) => !change.seen).length;
+  }
+
+  /**
+   * Read the watchlist preferences.
+   *
+   * @returns The settings, or the defaults when unset or on failure.
+   */
+  async getSettings(): Promise<WatchlistSettings> {
+    try {
+      const db = await this.getDB();
+      return { ...DEFAULT_SETTINGS, ...(await db.get(SETTINGS_STORE, SETTINGS_KEY)) };
+    } catch (error) {
+      log.error('Failed to read watchlist settings:', error);
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  /**
+   * Save the watchlist preferences.
+   *
+   * @param settings - The settings.
+   */
+  async saveSettings(settings: WatchlistSettings): Promise<void> {
+    try {
+      const db = await this.getDB();
+      await db.put(SETTINGS_STORE, settings, SETTINGS_KEY);
+    } catch (error) {
+      log.error('Failed to save watchlist settings:', error);
+    }
+  }
+}
+
+/** Shared watchlist store singleton — use this rather than `new WatchlistStore()`. */
+export const watchlistStore = new WatchlistStore();
+export default watchlistStore;
@@ -0,0 +1,123 @@
+/**
+ * Tests for the recently-deleted reconstruction: the query lists every deletion
+ * event type, each object keeps only its newest event, the object is picked out
+ * of the event's targets by type, and a rule is re-creatable only from a
+ * complete, not-yet-undone `DELETE_RULE` snapshot.
+ *
+ * Fixtures use only fake placeholders (`00gFAKE…`, `0prFAKE…`, `example.com`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  DELETION_EVENT_TYPES,
+  deletedObjectsFromEvents,
+  deletionEventsQuery,
+  ruleDeletesById,
+} from './deletedObjects';
+import type { OktaLogEvent } from '../schemas/okta';
+import type { RetiredRuleSnapshot, UndoAction } from '../undoTypes';
+
+const admin = { id: '00uFAKEADMIN', type: 'User', alternateId: 'admin@example.com' };
+
+function event(uuid: string, eventType: string, target: OktaLogEvent['target']): OktaLogEvent {
+  return {
+    uuid,
+    published: `2026-03-0${uuid.slice(-1)}T10:00:00.000Z`,
+    eventType,
+    actor: admin,
+    target,
+  };
+}
+
+function ruleDelete(
+  id: string,
+  rule: Partial<RetiredRuleSnapshot>,
+  status: UndoAction['status'] = 'completed',
+): UndoAction {
+  return {
+    id,
+    type: 'DELETE_RULE',
+    timestamp: 0,
+    description: 'Deleted rule',
+    status,
+    metadata: {
+      type: 'DELETE_RULE',
+      rule: {
+        id: '0prFAKE1',
+        name: 'Sales',
+        expression: 'user.dept=="Sales"',
+        groupIds: ['00gFAKE1'],
+        ...rule,
+      },
+    },
+  };
+}
+
+describe('deletionEventsQuery', () => {
+  it('asks the whole org for every deletion event type', () => {
+    const query = deletionEventsQuery('7d');
+    expect(query.scope).toEqual({ kind: 'org' });
+    expect(query.range).toBe('7d');
+    for (const type of Object.keys(DELETION_EVENT_TYPES)) {
+      expect(query.filter).toContain(`eventType eq "${type}"`);
+    }
+  });
+});
+
+describe('deletedObjectsFromEvents', () => {
+  it('keeps the newest event per object and picks the object out by target type', () => {
+    const objects = deletedObjectsFromEvents([
+      event('evt-3', 'group.rule.delete', [
+        { id: '00gFAKE1', type: 'UserGroup', displayName: 'Sales' },
+        { id: '0prFAKE1', type: 'GroupRule', displayName: 'Sales rule' },
+      ]),
+      event('evt-2', 'user.lifecycle.delete.completed', [
+        { id: '00uFAKE1', type: 'User', alternateId: 'ada@example.com' },
+      ]),
+      event('evt-1', 'user.lifecycle.delete.initiated', [
+        { id: '00uFAKE1', type: 'User', alternateId: 'ada@example.com' },
+      ]),
+    ]);
+
+    expect(objects).toEqual([
+      {
+        kind: 'rule',
+        change: 'deleted',
+        id: '0prFAKE1',
+        name: 'Sales rule',
+        published: '2026-03-03T10:00:00.000Z',
+        eventType: 'group.rule.delete',
+        actor: 'admin@example.com',
+        result: null,
+        otherTargets: [{ id: '00gFAKE1', type: 'UserGroup', name: 'Sales' }],
+      },
+      expect.objectContaining({
+        kind: 'user',
+        id: '00uFAKE1',
+        name: 'ada@example.com',
+        eventType: 'user.lifecycle.delete.completed',
+      }),
+    ]);
+  });
+
+  it('skips other event types and events with no target', () => {
+    expect(
+      deletedObjectsFromEvents([
+        event('evt-1', 'user.session.start', [{ id: '00uFAKE1', type: 'User' }]),
+        event('evt-2', 'group.lifecycle.delete', []),
+      ]),
+    ).toEqual([]);
+  });
+});
+
+describe('ruleDeletesById', () => {
+  it('keeps the newest complete, not-yet-undone snapshot per rule', () => {
+    const newest = ruleDelete('act-2', {});
+    const byId = ruleDeletesById([
+      newest,
+      ruleDelete('act-1', {}),
+      ruleDelete('act-3', { id: '0prFAKE2' }, 'undone'),
+      ruleDelete('act-4', { id: '0prFAKE3', groupIds: [] }),
+    ]);
+    expect([...byId.entries()]).toEqual([['0prFAKE1', newest]]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * @module shared/systemLog/deletedObjects
+ * @description Reconstruct recently deleted groups, rules, users and apps from
+ * the System Log. All pure; `useOktaApi/systemLog` sends the query.
+ *
+ * Once Okta deletes an object, the System Log is the only trace of it. The
+ * deletion event records who did it and when, and names the object — its id
+ * and display name, plus any other targets the event carried. That is all it
+ * records. A group's members, a user's profile and an app's configuration are
+ * not in the log.
+ *
+ * ## Re-creating a rule
+ *
+ * A rule is the one kind that can come back, through the same restore History
+ * offers (`shared/rules/ruleSnapshot`). But the log does not record the rule's
+ * condition or target groups either. They come from the snapshot this browser
+ * took when it deleted the rule (a `DELETE_RULE` history entry), matched to the
+ * log's event by rule id. A rule deleted anywhere else is shown, not offered.
+ *
+ * ## One row per object
+ *
+ * Events arrive newest first, and only the newest event for each object is
+ * kept. A user's deletion logs `initiated` and then `completed`; an app is
+ * usually deactivated before it is deleted.
+ */
+
+import type { OktaLogEntity, OktaLogEvent } from '../schemas/okta';
+import type { UndoAction } from '../undoTypes';
+import { isRestorableSnapshot } from '../rules/ruleSnapshot';
+import type { LogQuery, LogRangeId } from './logQuery';
+
+/** The kinds of object the browser reconstructs. */
+export type DeletedObjectKind = 'group' | 'rule' | 'user' | 'app';
+
+/** What the event did to the object. An app can be deactivated without being deleted. */
+export type DeletedObjectChange = 'deleted' | 'deactivated';
+
+/** The event types read, with what each records. */
+export const DELETION_EVENT_TYPES: Readonly<
+  Record<string, { kind: DeletedObjectKind; change: DeletedObjectChange }>
+> = {
+  'group.lifecycle.delete': { kind: 'group', change: 'deleted' },
+  'group.rule.delete': { kind: 'rule', change: 'deleted' },
+  'user.lifecycle.delete.initiated': { kind: 'user', change: 'deleted' },
+  'user.lifecycle.delete.completed': { kind: 'user', change: 'deleted' },
+  'application.lifecycle.deactivate': { kind: 'app', change: 'deactivated' },
+  'application.lifecycle.delete': { kind: 'app', change: 'deleted' },
+};
+
+/** The target `type` Okta gives each kind, used to pick the object out of an event's targets. */
+const TARGET_TYPES: Record<DeletedObjectKind, readonly string[]> = {
+  group: ['UserGroup'],
+  rule: ['GroupRule', 'Rule'],
+  user: ['User'],
+  app: ['AppInstance'],
+};
+
+/** Why an object of each kind cannot be re-created from what the log kept. */
+export const NOT_RECREATABLE: Record<DeletedObjectKind, string> = {
+  group: 'The System Log keeps only the group’s name — not its members, rules or app assignments.',
+  rule: 'The System Log does not keep a rule’s condition or target groups, and this browser has no copy of them.',
+  user: 'A deleted user’s profile and credentials are not in the System Log.',
+  app: 'An app’s configuration is not in the System Log.',
+};
+
+/** A target named by the event alongside the object itself. */
+export interface DeletedObjectTarget {
+  id: string;
+  type: string | null;
+  name: string;
+}
+
+/** One deleted (or deactivated) object, as the log recorded it. */
+export interface DeletedObject {
+  kind: DeletedObjectKind;
+  change: DeletedObjectChange;
+  /** The object's id; Okta never reuses one. */
+  id: string;
+  /** Its display name at deletion, else its login or id. */
+  name: string;
+  /** When the newest event for it was published (ISO). */
+  published: string;
+  eventType: string;
+  /** Who did it: display name, login or id; `null` when the event named nobody. */
+  actor: string | null;
+  /** Okta's outcome for the event, e.g. `SUCCESS`. */
+  result: string | null;
+  /** The event's other targets, such as a rule's groups when Okta listed them. */
+  otherTargets: DeletedObjectTarget[];
+}
+
+/** How an actor or target is named: display name, then login, then id. */
+function entityName(entity: OktaLogEntity): string {
+  return entity.displayName || entity.alternateId || entity.id;
+}
+
+/**
+ * The query for every deletion event in a range, newest first.
+ *
+ * @param range - How far back to read.
+ * @returns A whole-org query whose filter lists {@link DELETION_EVENT_TYPES}.
+ */
+export function deletionEventsQuery(range: LogRangeId): LogQuery {
+  return {
+    scope: { kind: 'org' },
+    range,
+    filter: Object.keys(DELETION_EVENT_TYPES)
+      .map((type) => `eventType eq "${type}"`)
+      .join(' or '),
+    q: '',
+  };
+}
+
+/**
+ * Turn deletion events into one row per object.
+ *
+ * @param events - Events newest first; types not in {@link DELETION_EVENT_TYPES}
+ *   and events with no target are skipped.
+ * @returns The objects, newest first.
+ */
+export function deletedObjectsFromEvents(events: readonly OktaLogEvent[]): DeletedObject[] {
+  const seen = new Set<string>();
+  const objects: DeletedObject[] = [];
+  for (const event of events) {
+    const meaning = DELETION_EVENT_TYPES[event.eventType];
+    const targets = event.target ?? [];
+    if (!meaning || targets.length === 0) continue;
+
+    const subject =
+      targets.find((t) => t.type != null && TARGET_TYPES[meaning.kind].includes(t.type)) ??
+      targets[0];
+    const key = `${meaning.kind}:${subject.id}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    objects.push({
+      kind: meaning.kind,
+      change: meaning.change,
+      id: subject.id,
+      name: entityName(subject),
+      published: event.published,
+      eventType: event.eventType,
+      actor: event.actor ? entityName(event.actor) : null,
+      result: event.outcome?.result ?? null,
+      otherTargets: targets
+        .filter((t) => t !== subject)
+        .map((t) => ({ id: t.id, type: t.type ?? null, name: entityName(t) })),
+    });
+  }
+  return objects;
+}
+
+/**
+ * The history entries a deleted rule can be re-created from, by rule id: this
+ * browser's `DELETE_RULE` entries that are not yet undone and whose snapshot is
+ * complete.
+ *
+ * @param actions - The action history, newest first.
+ * @returns The newest such entry per rule id.
+ */
+export function ruleDeletesById(actions: readonly UndoAction[]): Map<string, UndoAction> {
+  const byId = new Map<string, UndoAction>();
+  for (const action of actions) {
+    const metadata = action.metadata;
+    if (metadata.type !== 'DELETE_RULE' || action.status === 'undone') continue;
+    if (!isRestorableSnapshot(metadata.rule) || byId.has(metadata.rule.id)) continue;
+    byId.set(metadata.rule.id, action);
+  }
+  return byId;
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for System Log query construction.
+ *
+ * Pins the scopes' filters (a user's own and targeted events, a group's
+ * membership changes, a rule's lifecycle), that an admin's filter narrows a scope
+ * and never replaces it, that ids are refused rather than escaped, and the
+ * request's time range and order.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  buildLogQueryUrl,
+  combinedFilter,
+  describeLogScope,
+  membershipEventsQuery,
+  scopeFilter,
+  type LogScope,
+} from './logQuery';
+
+const user: LogScope = { kind: 'user', id: '00uFAKE1', name: 'Ada' };
+const group: LogScope = { kind: 'group', id: '00gFAKE1', name: 'Engineering' };
+const rule: LogScope = { kind: 'rule', id: '0prFAKE1', name: 'Sales → CRM' };
+
+describe('scopeFilter', () => {
+  it("covers a user's own and targeted events", () => {
+    expect(scopeFilter(user)).toBe('actor.id eq "00uFAKE1" or target.id eq "00uFAKE1"');
+  });
+
+  it("covers only a group's membership adds and removals", () => {
+    expect(scopeFilter(group)).toBe(
+      'target.id eq "00gFAKE1" and (eventType eq "group.user_membership.add" or eventType eq "group.user_membership.remove")',
+    );
+  });
+
+  it('covers every event targeting a rule', () => {
+    expect(scopeFilter(rule)).toBe('target.id eq "0prFAKE1"');
+  });
+
+  it('has no filter for the whole org', () => {
+    expect(scopeFilter({ kind: 'org' })).toBeNull();
+  });
+
+  it('refuses an id that is not plain alphanumeric', () => {
+    expect(() => scopeFilter({ kind: 'user', id: '00u" or "1', name: 'x' })).toThrow(
+      'Not an Okta user id',
+    );
+  });
+});
+
+describe('combinedFilter', () => {
+  it("ANDs the admin's filter with the scope's", () => {
+    expect(combinedFilter(rule, ' outcome.result eq "FAILURE" ')).toBe(
+      '(target.id eq "0prFAKE1") and (outcome.result eq "FAILURE")',
+    );
+  });
+
+  it("uses the admin's filter alone for the whole org, and nothing when both are empty", () => {
+    expect(combinedFilter({ kind: 'org' }, 'eventType sw "user.session"')).toBe(
+      'eventType sw "user.session"',
+    );
+    expect(combinedFilter({ kind: 'org' }, '  ')).toBeNull();
+  });
+});
+
+describe('buildLogQueryUrl', () => {
+  it('asks for the range, newest first, with the filter and keywords encoded', () => {
+    const url = buildLogQueryUrl(
+      { scope: user, range: '24h', filter: '', q: ' password reset ' },
+      new Date('2026-03-02T12:00:00.000Z'),
+    );
+    const params = new URL(url, 'https://example.okta.com').searchParams;
+
+    expect(url.startsWith('/api/v1/logs?')).toBe(true);
+    expect(params.get('since')).toBe('2026-03-01T12:00:00.000Z');
+    expect(params.get('until')).toBe('2026-03-02T12:00:00.000Z');
+    expect(params.get('sortOrder')).toBe('DESCENDING');
+    expect(params.get('filter')).toBe(scopeFilter(user));
+    expect(params.get('q')).toBe('password reset');
+  });
+
+  it('sends no filter or q when there are none', () => {
+    const url = buildLogQueryUrl(
+      { scope: { kind: 'org' }, range: '7d', filter: '', q: '' },
+      new Date('2026-03-02T12:00:00.000Z'),
+    );
+    expect(url).not.toContain('filter=');
+    expect(url).not.toContain('q=');
+  });
+});
+
+describe('membershipEventsQuery', () => {
+  it("narrows the group's membership scope to the user, over all 90 days", () => {
+    const query = membershipEventsQuery('00uFAKE1', { id: '00gFAKE1', name: 'Engineering' });
+    expect(query.range).toBe('90d');
+    expect(combinedFilter(query.scope, query.filter)).toBe(
+      `(${scopeFilter(group)}) and (target.id eq "00uFAKE1")`,
+    );
+  });
+
+  it('refuses a user id that is not plain alphanumeric', () => {
+    expect(() => membershipEventsQuery('00u"', { id: '00gFAKE1', name: 'x' })).toThrow(
+      'Not an Okta user id',
+    );
+  });
+});
+
+describe('describeLogScope', () => {
+  it('says what the scope covers', () => {
+    expect(describeLogScope(group)).toBe('Membership adds and removals in Engineering');
+    expect(describeLogScope({ kind: 'org' })).toBe('All events in the org');
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * @module shared/systemLog/logQuery
+ * @description Pure construction of System Log (`GET /api/v1/logs`) queries.
+ *
+ * The System Log tab asks one question at a time — "what happened to the thing I
+ * am looking at?" — so a query is a {@link LogScope} (the entity the ContextBar
+ * shows, or a rule opened from the Rules tab), a time range, and optionally the
+ * admin's own `filter` expression and `q` keywords. This module turns that into
+ * the request path; `useOktaApi/systemLog` sends it.
+ *
+ * ## What each scope asks Okta for
+ *
+ * - **user** — events the user performed *or* was the target of
+ *   (`actor.id eq … or target.id eq …`): a sign-in and a group removal both count.
+ * - **group** — membership adds and removals only. A group is the target of many
+ *   events (app assignments, profile edits); "why did this user lose the group?"
+ *   is about these two.
+ * - **rule** / **app** / **policy** — every event that names the entity as a
+ *   target, which is how Okta records their lifecycle (created, updated,
+ *   activated, deactivated, deleted).
+ *
+ * An admin-typed filter is ANDed with the scope's, never substituted for it, so
+ * narrowing a scoped query cannot silently widen it to the whole org.
+ *
+ * ## Ids are checked before they are quoted
+ *
+ * Entity ids are interpolated into a filter expression inside double quotes. An
+ * id that is not plain alphanumeric is refused rather than escaped: Okta ids
+ * never contain anything else, and a value that does came from somewhere it
+ * should not have.
+ */
+
+/** The entity kinds a query can be scoped to. */
+export type LogScopeKind = 'user' | 'group' | 'rule' | 'app' | 'policy';
+
+/** What a System Log query is about: one entity, or the whole org. */
+export type LogScope = { kind: 'org' } | { kind: LogScopeKind; id: string; name: string };
+
+/** The event types that record a group membership change. */
+export const GROUP_MEMBERSHIP_EVENT_TYPES = [
+  'group.user_membership.add',
+  'group.user_membership.remove',
+] as const;
+
+/**
+ * The time ranges offered, newest first. Okta keeps 90 days of System Log, so
+ * nothing older can be asked for.
+ */
+export const LOG_RANGES = [
+  { id: '1h', label: 'Last hour', ms: 60 * 60 * 1000 },
+  { id: '24h', label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  { id: '7d', label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { id: '30d', label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+  { id: '90d', label: 'Last 90 days', ms: 90 * 24 * 60 * 60 * 1000 },
+] as const;
+
+/** One of the {@link LOG_RANGES} ids. */
+export type LogRangeId = (typeof LOG_RANGES)[number]['id'];
+
+/** Events per page. Okta allows up to 1000; a side panel reads a screenful at a time. */
+export const LOG_PAGE_SIZE = 100;
+
+/** Everything a query is made of. */
+export interface LogQuery {
+  scope: LogScope;
+  range: LogRangeId;
+  /** The admin's own System Log filter expression; blank for none. */
+  filter: string;
+  /** Keyword search (`q`); blank for none. */
+  q: string;
+}
+
+const OKTA_ID_PATTERN = /^[A-Za-z0-9]+$/;
+
+/**
+ * The filter expression a scope contributes.
+ *
+ * @param scope - What the query is about.
+ * @returns The expression, or `null` for the whole org.
+ * @throws Error when the scope's id is not a plain Okta id (see the module doc).
+ */
+export function scopeFilter(scope: LogScope): string | null {
+  if (scope.kind === 'org') return null;
+  if (!OKTA_ID_PATTERN.test(scope.id)) {
+    throw new Error(`Not an Okta ${scope.kind} id; the System Log query was not sent.`);
+  }
+  const id = `"${scope.id}"`;
+  switch (scope.kind) {
+    case 'user':
+      return `actor.id eq ${id} or target.id eq ${id}`;
+    case 'group':
+      return `target.id eq ${id} and (${GROUP_MEMBERSHIP_EVENT_TYPES.map((type) => `eventType eq "${type}"`).join(' or ')})`;
+    default:
+      return `target.id eq ${id}`;
+  }
+}
+
+/**
+ * Combine the scope's filter with the admin's.
+ *
+ * @returns The expression to send, or `null` when there is neither.
+ */
+export function combinedFilter(scope: LogScope, filter: string): string | null {
+  const own = filter.trim();
+  const scoped = scopeFilter(scope);
+  if (scoped && own) return `(${scoped}) and (${own})`;
+  return scoped ?? (own || null);
+}
+
+/**
+ * Build the first-page request path for a query, newest events first.
+ *
+ * @param query - What to ask.
+ * @param now - The end of the range.
+ * @returns An origin-relative `/api/v1/logs?…` path.
+ * @throws Error when the scope's id is refused by {@link scopeFilter}.
+ */
+export function buildLogQueryUrl(query: LogQuery, now: Date): string {
+  const range = LOG_RANGES.find((r) => r.id === query.range) ?? LOG_RANGES[2];
+  const params: [string, string][] = [
+    ['since', new Date(now.getTime() - range.ms).toISOString()],
+    ['until', now.toISOString()],
+    ['limit', String(LOG_PAGE_SIZE)],
+    ['sortOrder', 'DESCENDING'],
+  ];
+  const filter = combinedFilter(query.scope, query.filter);
+  if (filter) params.push(['filter', filter]);
+  const q = query.q.trim();
+  if (q) params.push(['q', q]);
+  return `/api/v1/logs?${params.map(([k, v]) => `${k}=${encodeURIComponent(v)}`).join('&')}`;
+}
+
+/**
+ * The query for one user's membership changes in one group, over everything Okta
+ * still keeps: the group's membership scope narrowed to events that also target
+ * the user.
+ *
+ * @param userId - The member.
+ * @param group - The group.
+ * @returns A query for {@link buildLogQueryUrl}.
+ * @throws Error when either id is not a plain Okta id.
+ */
+export function membershipEventsQuery(
+  userId: string,
+  group: { id: string; name: string },
+): LogQuery {
+  if (!OKTA_ID_PATTERN.test(userId)) {
+    throw new Error('Not an Okta user id; the System Log query was not sent.');
+  }
+  return {
+    scope: { kind: 'group', id: group.id, name: group.name },
+    range: '90d',
+    filter: `target.id eq "${userId}"`,
+    q: '',
+  };
+}
+
+/**
+ * A sentence saying what a scope covers, for the tab's header.
+ *
+ * @param scope - What the query is about.
+ * @returns E.g. "Membership adds and removals in Engineering".
+ */
+export function describeLogScope(scope: LogScope): string {
+  switch (scope.kind) {
+    case 'org':
+      return 'All events in the org';
+    case 'user':
+      return `Events by or about ${scope.name}`;
+    case 'group':
+      return `Membership adds and removals in ${scope.name}`;
+    case 'rule':
+      return `Lifecycle events of the rule ${scope.name}`;
+    case 'app':
+      return `Events targeting the app ${scope.name}`;
+    case 'policy':
+      return `Events targeting the policy ${scope.name}`;
+  }
+}
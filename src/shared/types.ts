@@ -390,7 +390,8 @@ export interface MessageRequest {
     | 'getAppInfo'
     | 'getPolicyInfo'
     | 'makeApiRequest'
-    | 'getOktaOrigin';
+    | 'getOktaOrigin'
+    | 'getSamlResponse';
   endpoint?: string;
   method?: string;
   body?: unknown;
@@ -445,7 +446,23 @@ export type { UndoAction, UndoActionMetadata, UndoHistory } from './undoTypes';
 export interface AuditLogEntry {
   id: string;
   timestamp: Date;
-  action: 'remove_users' | 'add_users' | 'export' | 'activate_rule' | 'deactivate_rule';
+  action:
+    | 'remove_users'
+    | 'add_users'
+    | 'export'
+    | 'activate_rule'
+    | 'deactivate_rule'
+    | 'create_rule'
+    | 'update_rule'
+    | 'delete_rule'
+    | 'access_review'
+    | 'grant_role'
+    | 'revoke_role'
+    | 'api_request'
+    | 'reset_factor'
+    | 'verify_factor'
+    | 'user_lifecycle'
+    | 'group_push';
   groupId: string;
   groupName: string;
   performedBy: string;
@@ -457,6 +474,58 @@ export interface AuditLogEntry {
     apiRequestCount: number;
     durationMs: number;
     errorMessages?: string[];
+    /** For a `grant_role` or `revoke_role`: the role written. */
+    role?: {
+      type: string;
+      assignmentId: string;
+    };
+    /**
+     * For a `reset_factor` or `verify_factor`: the factor, and for a
+     * verification Okta's final `factorResult` (or why it ended without one).
+     */
+    factor?: {
+      id: string;
+      factorType: string;
+      outcome?: string;
+    };
+    /**
+     * For a `user_lifecycle` write from the bulk console: the action sent and the
+     * status the user was in when the preflight read them.
+     */
+    lifecycle?: {
+      action: string;
+      fromStatus: string;
+    };
+    /**
+     * For a `group_push` write: the app, the mapping, and what was done to it —
+     * `create`, `link`, `activate`, `deactivate`, `push` or `delete`.
+     */
+    push?: {
+      appId: string;
+      mappingId: string;
+      change: string;
+      targetGroupId?: string;
+    };
+    /**
+     * For an `api_request` — a write sent from the API Console: what was sent
+     * and Okta's status. The body and the query string are never recorded.
+     */
+    request?: {
+      method: string;
+      /** The path without its query string, which can carry names and emails. */
+      path: string;
+      /** How many query parameters the request had. Absent on older entries. */
+      queryParamCount?: number;
+      status: number | null;
+    };
+    /** For an `access_review` sign-off: the campaign and its decision totals. */
+    review?: {
+      campaignId: string;
+      kept: number;
+      revoked: number;
+      /** Revoke decisions on rule-managed members, which are never sent. */
+      ruleManaged: number;
+    };
   };
 }
 
@@ -5,7 +5,8 @@
  * the **capture policy** (an over-cap prior value is omitted *entirely*, never
  * truncated and never stored as `''`, which would be indistinguishable from a
  * genuinely empty value) and `markActionUndone`'s `false` for an evicted entry,
- * which is bookkeeping, not failure.
+ * which is bookkeeping, not failure. The user-status and rule delete/restore
+ * loggers are covered for the metadata an undo later reads back.
  *
  * `chrome.storage.local` is the global `vi.fn()` mock from `src/test/setup.ts`,
  * backed here by a tiny in-memory store so a write is readable by the next read.
@@ -19,12 +20,17 @@ import {
   logProfileUpdateAction,
   markActionUndone,
   logAction,
+  logUserStatusAction,
+  logAdminRoleAction,
+  logGroupPushAction,
+  logRuleDeleteAction,
+  logRuleRestoreAction,
   getUndoHistory,
   MAX_CAPTURED_ATTRIBUTES,
   MAX_CAPTURED_VALUE_CHARS,
   type AttributeChange,
 } from './undoManager';
-import type { UpdateUserProfileMetadata } from './undoTypes';
+import type { RetiredRuleSnapshot, UpdateUserProfileMetadata } from './undoTypes';
 
 const storage = chrome.storage.local as unknown as {
   get: ReturnType<typeof vi.fn>;
@@ -214,3 +220,117 @@ describe('markActionUndone', () => {
     expect(history.actions[0].status).toBe('completed');
   });
 });
+
+describe('logUserStatusAction', () => {
+  it('records a suspend with the user it names', async () => {
+    const action = await logUserStatusAction('suspend', '00uFAKE1', 'jane@example.com', 'Jane Doe');
+
+    expect(action.description).toBe('Suspended Jane Doe');
+    expect(action.metadata).toEqual({
+      type: 'SUSPEND_USER',
+      userId: '00uFAKE1',
+      userLogin: 'jane@example.com',
+      userName: 'Jane Doe',
+    });
+  });
+
+  it('links an unsuspend back to the suspend it undoes', async () => {
+    const action = await logUserStatusAction(
+      'unsuspend',
+      '00uFAKE1',
+      'jane@example.com',
+      'Jane Doe',
+      'action_original',
+    );
+
+    expect(action.type).toBe('UNSUSPEND_USER');
+    expect(action.metadata).toMatchObject({ undoOfActionId: 'action_original' });
+  });
+});
+
+describe('logAdminRoleAction', () => {
+  it('names the role and the user for a grant and a revoke', async () => {
+    const identity = {
+      userId: '00uFAKE1',
+      userLogin: 'jane@example.com',
+      userName: 'Jane Doe',
+      roleType: 'HELP_DESK_ADMIN',
+      roleLabel: 'Help Desk Administrator',
+      roleAssignmentId: 'irbFAKE1',
+    };
+
+    const granted = await logAdminRoleAction({ type: 'GRANT_ADMIN_ROLE', ...identity });
+    expect(granted.type).toBe('GRANT_ADMIN_ROLE');
+    expect(granted.description).toBe('Granted Help Desk Administrator to Jane Doe');
+
+    const revoked = await logAdminRoleAction({
+      type: 'REVOKE_ADMIN_ROLE',
+      ...identity,
+      targetCount: 0,
+      undoOfActionId: granted.id,
+    });
+    expect(revoked.description).toBe('Revoked Help Desk Administrator from Jane Doe');
+    expect(revoked.metadata).toMatchObject({ targetCount: 0, undoOfActionId: granted.id });
+  });
+});
+
+describe('logGroupPushAction', () => {
+  it('names the group and the app for each push write', async () => {
+    const ref = {
+      appId: '0oaFAKE1',
+      appName: 'Slack',
+      mappingId: 'gpmFAKE1',
+      sourceGroupId: '00gFAKE1',
+      sourceGroupName: 'Engineering',
+      targetGroupId: '00gFAKET1',
+    };
+
+    const created = await logGroupPushAction({
+      type: 'CREATE_PUSH_MAPPING',
+      ...ref,
+      createdTargetGroup: true,
+    });
+    expect(created.description).toBe('Pushed Engineering to Slack');
+
+    const deleted = await logGroupPushAction({
+      type: 'DELETE_PUSH_MAPPING',
+      ...ref,
+      deletedTargetGroup: false,
+      wasActive: true,
+      undoOfActionId: created.id,
+    });
+    expect(deleted.description).toBe('Stopped pushing Engineering to Slack');
+    expect(deleted.metadata).toMatchObject({ wasActive: true, undoOfActionId: created.id });
+  });
+});
+
+describe('rule delete and restore', () => {
+  const snapshot: RetiredRuleSnapshot = {
+    id: '0prFAKE1',
+    name: 'Engineering auto-assign',
+    expression: 'user.department == "Eng"',
+    groupIds: ['00gFAKE1'],
+    status: 'ACTIVE',
+  };
+
+  it('keeps the snapshot on the delete entry', async () => {
+    const action = await logRuleDeleteAction(snapshot);
+
+    expect(action.description).toBe('Deleted rule: Engineering auto-assign');
+    expect(action.metadata).toEqual({ type: 'DELETE_RULE', rule: snapshot });
+  });
+
+  it('records the new id against the original on restore', async () => {
+    const action = await logRuleRestoreAction(snapshot, '0prFAKE2', true, 'action_delete');
+
+    expect(action.description).toBe('Restored rule: Engineering auto-assign');
+    expect(action.metadata).toEqual({
+      type: 'RESTORE_RULE',
+      restoredRuleId: '0prFAKE2',
+      restoredRuleName: 'Engineering auto-assign',
+      originalRuleId: '0prFAKE1',
+      activated: true,
+      undoOfActionId: 'action_delete',
+    });
+  });
+});
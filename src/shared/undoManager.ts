@@ -4,7 +4,8 @@
  *
  * Records each action (with typed {@link UndoActionMetadata}) in
  * `chrome.storage.local`, newest-first, capped at 50 entries. Provides helpers to
- * log generic, bulk-remove and profile-update actions, mark an entry undone,
+ * log generic, bulk-remove, profile-update, user-status, rule delete/restore and
+ * admin-role actions, mark an entry undone,
  * clear history, and format timestamps for display. Type definitions live in
  * `shared/undoTypes`.
  *
@@ -26,6 +27,20 @@ import type {
   BulkUserInfo,
   CapturedAttribute,
   UpdateUserProfileMetadata,
+  DeleteRuleMetadata,
+  RestoreRuleMetadata,
+  RetiredRuleSnapshot,
+  SuspendUserMetadata,
+  UnsuspendUserMetadata,
+  GrantAdminRoleMetadata,
+  RevokeAdminRoleMetadata,
+  ResetFactorMetadata,
+  VerifyFactorMetadata,
+  CreatePushMappingMetadata,
+  ActivatePushMappingMetadata,
+  DeactivatePushMappingMetadata,
+  PushGroupNowMetadata,
+  DeletePushMappingMetadata,
 } from './undoTypes';
 
 const log = createLogger('UndoManager');
@@ -148,7 +163,7 @@ export async function logBulkRemoveAction(
   groupId: string,
   groupName: string,
   users: BulkUserInfo[],
-  operationType: 'deprovisioned' | 'inactive' | 'custom_status' | 'multi_status',
+  operationType: 'deprovisioned' | 'inactive' | 'custom_status' | 'multi_status' | 'access_review',
   targetStatus?: string,
 ): Promise<UndoAction> {
   let description: string;
@@ -156,6 +171,8 @@ export async function logBulkRemoveAction(
     description = `Removed ${users.length} deprovisioned user${users.length !== 1 ? 's' : ''} from ${groupName}`;
   } else if (operationType === 'inactive') {
     description = `Removed ${users.length} inactive user${users.length !== 1 ? 's' : ''} from ${groupName}`;
+  } else if (operationType === 'access_review') {
+    description = `Revoked ${users.length} user${users.length !== 1 ? 's' : ''} from ${groupName} in an access review`;
   } else if (operationType === 'multi_status' && targetStatus) {
     const statusCount = targetStatus.split(',').length;
     description = `Removed ${users.length} user${users.length !== 1 ? 's' : ''} (${statusCount} status types) from ${groupName}`;
@@ -340,6 +357,137 @@ export async function logProfileUpdateAction(
   return logAction(description, metadata, options.status ?? 'completed');
 }
 
+/**
+ * Log a user suspend or unsuspend.
+ *
+ * @param kind - Which status write was made.
+ * @param userId - The user written to.
+ * @param userLogin - Their login at write time, so the row names a person.
+ * @param userName - Their display name at write time.
+ * @param undoOfActionId - Set when this write undoes the opposite one.
+ * @returns The stored {@link UndoAction}, e.g. `Suspended Jane Doe`.
+ */
+export async function logUserStatusAction(
+  kind: 'suspend' | 'unsuspend',
+  userId: string,
+  userLogin: string,
+  userName: string,
+  undoOfActionId?: string,
+): Promise<UndoAction> {
+  const metadata: SuspendUserMetadata | UnsuspendUserMetadata = {
+    type: kind === 'suspend' ? 'SUSPEND_USER' : 'UNSUSPEND_USER',
+    userId,
+    userLogin,
+    userName,
+    ...(undoOfActionId ? { undoOfActionId } : {}),
+  };
+
+  return logAction(`${kind === 'suspend' ? 'Suspended' : 'Unsuspended'} ${userName}`, metadata);
+}
+
+/**
+ * Log a rule deletion, keeping the snapshot a later restore recreates it from.
+ *
+ * @param rule - The rule as captured just before the delete.
+ * @returns The stored {@link UndoAction}.
+ */
+export async function logRuleDeleteAction(rule: RetiredRuleSnapshot): Promise<UndoAction> {
+  const metadata: DeleteRuleMetadata = { type: 'DELETE_RULE', rule };
+  return logAction(`Deleted rule: ${rule.name}`, metadata);
+}
+
+/**
+ * Log the recreation of a deleted rule — the undo of a `DELETE_RULE` entry.
+ *
+ * @param rule - The snapshot the rule was recreated from.
+ * @param restoredRuleId - The id Okta gave the recreated rule.
+ * @param activated - Whether the recreated rule was activated.
+ * @param undoOfActionId - The `DELETE_RULE` entry this undoes.
+ * @returns The stored {@link UndoAction}.
+ */
+export async function logRuleRestoreAction(
+  rule: RetiredRuleSnapshot,
+  restoredRuleId: string,
+  activated: boolean,
+  undoOfActionId: string,
+): Promise<UndoAction> {
+  const metadata: RestoreRuleMetadata = {
+    type: 'RESTORE_RULE',
+    restoredRuleId,
+    restoredRuleName: rule.name,
+    originalRuleId: rule.id,
+    activated,
+    undoOfActionId,
+  };
+  return logAction(`Restored rule: ${rule.name}`, metadata);
+}
+
+/**
+ * Log an administrator role grant or revoke.
+ *
+ * @param metadata - The write, with the user and role it names.
+ * @returns The stored {@link UndoAction}, e.g. `Granted Help Desk Administrator to Jane Doe`.
+ */
+export async function logAdminRoleAction(
+  metadata: GrantAdminRoleMetadata | RevokeAdminRoleMetadata,
+): Promise<UndoAction> {
+  const description =
+    metadata.type === 'GRANT_ADMIN_ROLE'
+      ? `Granted ${metadata.roleLabel} to ${metadata.userName}`
+      : `Revoked ${metadata.roleLabel} from ${metadata.userName}`;
+  return logAction(description, metadata);
+}
+
+/**
+ * Log a factor reset.
+ *
+ * @param metadata - The reset, with the user and factor it names.
+ * @returns The stored {@link UndoAction}, e.g. `Reset SMS for Jane Doe`.
+ */
+export async function logFactorResetAction(metadata: ResetFactorMetadata): Promise<UndoAction> {
+  return logAction(`Reset ${metadata.factorLabel} for ${metadata.userName}`, metadata);
+}
+
+/**
+ * Log a factor verification, `failed` when the factor did not answer.
+ *
+ * @param metadata - The verification, with the user and factor it names.
+ * @returns The stored {@link UndoAction}, e.g. `Verified Jane Doe with SMS`.
+ */
+export async function logFactorVerifyAction(metadata: VerifyFactorMetadata): Promise<UndoAction> {
+  const verified = metadata.error === undefined;
+  return logAction(
+    `${verified ? 'Verified' : 'Could not verify'} ${metadata.userName} with ${metadata.factorLabel}`,
+    metadata,
+    verified ? 'completed' : 'failed',
+  );
+}
+
+/**
+ * Log a Group Push write.
+ *
+ * @param metadata - The write, with the app and groups it names.
+ * @returns The stored {@link UndoAction}, e.g. `Pushed Engineering to Slack`.
+ */
+export async function logGroupPushAction(
+  metadata:
+    | CreatePushMappingMetadata
+    | ActivatePushMappingMetadata
+    | DeactivatePushMappingMetadata
+    | PushGroupNowMetadata
+    | DeletePushMappingMetadata,
+): Promise<UndoAction> {
+  const { sourceGroupName: group, appName: app } = metadata;
+  const description = {
+    CREATE_PUSH_MAPPING: `Pushed ${group} to ${app}`,
+    ACTIVATE_PUSH_MAPPING: `Activated push of ${group} to ${app}`,
+    DEACTIVATE_PUSH_MAPPING: `Deactivated push of ${group} to ${app}`,
+    PUSH_GROUP_NOW: `Pushed ${group} to ${app} now`,
+    DELETE_PUSH_MAPPING: `Stopped pushing ${group} to ${app}`,
+  }[metadata.type];
+  return logAction(description, metadata);
+}
+
 /**
  * Mark an earlier action as undone.
  *
@@ -17,7 +17,21 @@ export type ActionType =
   | 'ACTIVATE_RULE'
   | 'DEACTIVATE_RULE'
   | 'CONSOLIDATE_RULE'
-  | 'UPDATE_USER_PROFILE';
+  | 'AUTHOR_RULE'
+  | 'DELETE_RULE'
+  | 'RESTORE_RULE'
+  | 'SUSPEND_USER'
+  | 'UNSUSPEND_USER'
+  | 'UPDATE_USER_PROFILE'
+  | 'GRANT_ADMIN_ROLE'
+  | 'REVOKE_ADMIN_ROLE'
+  | 'RESET_FACTOR'
+  | 'VERIFY_FACTOR'
+  | 'CREATE_PUSH_MAPPING'
+  | 'ACTIVATE_PUSH_MAPPING'
+  | 'DEACTIVATE_PUSH_MAPPING'
+  | 'PUSH_GROUP_NOW'
+  | 'DELETE_PUSH_MAPPING';
 
 /** A single recorded action in the history. */
 export interface UndoAction {
@@ -54,7 +68,21 @@ export type UndoActionMetadata =
   | ActivateRuleMetadata
   | DeactivateRuleMetadata
   | ConsolidateRuleMetadata
-  | UpdateUserProfileMetadata;
+  | AuthorRuleMetadata
+  | DeleteRuleMetadata
+  | RestoreRuleMetadata
+  | SuspendUserMetadata
+  | UnsuspendUserMetadata
+  | UpdateUserProfileMetadata
+  | GrantAdminRoleMetadata
+  | RevokeAdminRoleMetadata
+  | ResetFactorMetadata
+  | VerifyFactorMetadata
+  | CreatePushMappingMetadata
+  | ActivatePushMappingMetadata
+  | DeactivatePushMappingMetadata
+  | PushGroupNowMetadata
+  | DeletePushMappingMetadata;
 
 /** Metadata for removing a single user from a group. */
 export interface RemoveUserMetadata {
@@ -90,7 +118,7 @@ export interface BulkRemoveUsersMetadata {
   groupId: string;
   groupName: string;
   /** What drove the removal, used to phrase the action description. */
-  operationType: 'deprovisioned' | 'inactive' | 'custom_status' | 'multi_status';
+  operationType: 'deprovisioned' | 'inactive' | 'custom_status' | 'multi_status' | 'access_review';
   /** Status filter used, for custom/multi-status removals. */
   targetStatus?: string;
 }
@@ -125,6 +153,23 @@ export interface RetiredRuleSnapshot {
   expression: string;
   /** The rule's target group ids at retirement. */
   groupIds: string[];
+  /**
+   * The rule's status at retirement, so a recreated copy can be re-activated.
+   * Absent on snapshots written before rule deletion became undoable.
+   */
+  status?: 'ACTIVE' | 'INACTIVE';
+  /** User ids on the rule's `people.users.exclude` list. Absent on older snapshots. */
+  excludedUserIds?: string[];
+  /**
+   * The rule's whole `conditions.people` — excluded users *and* excluded groups —
+   * sent back unchanged on a recreate. Absent on older snapshots, which recreate
+   * from {@link excludedUserIds} alone. `RuleConditions['people']`'s shape,
+   * spelled out because `shared/types` re-exports this module.
+   */
+  people?: {
+    users?: { exclude?: string[] };
+    groups?: { exclude?: string[]; include?: string[] };
+  };
 }
 
 /**
@@ -144,6 +189,81 @@ export interface ConsolidateRuleMetadata {
   retiredRules: RetiredRuleSnapshot[];
 }
 
+/**
+ * Metadata for a rule saved from the authoring workbench: a new rule was created,
+ * or an edited rule was updated in place, or — when the edit changed its target
+ * groups, which Okta cannot change in place — replaced by a new rule in the same
+ * create-then-retire shape as a consolidation, capturing the same snapshot.
+ */
+export interface AuthorRuleMetadata {
+  type: 'AUTHOR_RULE';
+  /** Id of the newly created rule. */
+  createdRuleId: string;
+  /** Name of the newly created rule. */
+  createdRuleName: string;
+  /** Target group ids of the new rule. */
+  createdGroupIds: string[];
+  /** Whether the new rule was activated after creation. */
+  activated: boolean;
+  /** The rule this one replaced, when an edit changed the target groups. */
+  replacedRule?: RetiredRuleSnapshot;
+  /** The rule as it was before an in-place edit; `createdRuleId` is then its id. */
+  previousRule?: RetiredRuleSnapshot;
+}
+
+/**
+ * Metadata for deleting a group rule outright. The deleted rule's definition is
+ * captured so the delete can be undone by recreating it — under a new id, since
+ * Okta never reuses one.
+ */
+export interface DeleteRuleMetadata {
+  type: 'DELETE_RULE';
+  /** The deleted rule, with enough to recreate it. */
+  rule: RetiredRuleSnapshot;
+}
+
+/**
+ * Metadata for recreating a deleted rule from its snapshot — the undo of a
+ * {@link DeleteRuleMetadata} entry, recorded as a write of its own.
+ */
+export interface RestoreRuleMetadata {
+  type: 'RESTORE_RULE';
+  /** Id of the recreated rule. */
+  restoredRuleId: string;
+  /** Name of the recreated rule. */
+  restoredRuleName: string;
+  /** Id the rule had before it was deleted. */
+  originalRuleId: string;
+  /** Whether the recreated rule was activated. */
+  activated: boolean;
+  /** The `DELETE_RULE` entry this restore undoes. */
+  undoOfActionId: string;
+}
+
+/** Metadata for suspending a user. */
+export interface SuspendUserMetadata {
+  type: 'SUSPEND_USER';
+  userId: string;
+  /** The user's login at write time, so the history row names a person. */
+  userLogin: string;
+  /** The user's display name at write time. */
+  userName: string;
+  /** Set when this entry is the undo of an earlier `UNSUSPEND_USER`. */
+  undoOfActionId?: string;
+}
+
+/** Metadata for unsuspending a user. */
+export interface UnsuspendUserMetadata {
+  type: 'UNSUSPEND_USER';
+  userId: string;
+  /** The user's login at write time, so the history row names a person. */
+  userLogin: string;
+  /** The user's display name at write time. */
+  userName: string;
+  /** Set when this entry is the undo of an earlier `SUSPEND_USER`. */
+  undoOfActionId?: string;
+}
+
 /**
  * Why a captured attribute cannot be restored.
  *
@@ -209,6 +329,152 @@ export interface UpdateUserProfileMetadata {
   undoOfActionId?: string;
 }
 
+/** Metadata for granting an administrator role to a user. */
+export interface GrantAdminRoleMetadata {
+  type: 'GRANT_ADMIN_ROLE';
+  userId: string;
+  /** The user's login at write time, so the history row names a person. */
+  userLogin: string;
+  /** The user's display name at write time. */
+  userName: string;
+  /** The role type granted, e.g. `HELP_DESK_ADMIN`. */
+  roleType: string;
+  /** The role's label at write time. */
+  roleLabel: string;
+  /** The assignment Okta created; undo revokes exactly this one. */
+  roleAssignmentId: string;
+  /** Set when this entry is the undo of an earlier `REVOKE_ADMIN_ROLE`. */
+  undoOfActionId?: string;
+}
+
+/**
+ * Metadata for revoking an administrator role from a user.
+ *
+ * `targetCount` records the scope the role had: a re-grant cannot carry targets
+ * over, so undo is only offered when the role was not narrowed (`0`) — granting
+ * a once-scoped role back without its targets would widen it to the whole org.
+ */
+export interface RevokeAdminRoleMetadata {
+  type: 'REVOKE_ADMIN_ROLE';
+  userId: string;
+  /** The user's login at write time, so the history row names a person. */
+  userLogin: string;
+  /** The user's display name at write time. */
+  userName: string;
+  /** The role type revoked, e.g. `HELP_DESK_ADMIN`. */
+  roleType: string;
+  /** The role's label at write time. */
+  roleLabel: string;
+  /** The assignment that was revoked. */
+  roleAssignmentId: string;
+  /** Groups or apps the role was narrowed to; `0` when none, `null` when they were not read. */
+  targetCount: number | null;
+  /** Set when this entry is the undo of an earlier `GRANT_ADMIN_ROLE`. */
+  undoOfActionId?: string;
+}
+
+/** Metadata for resetting (deleting) one of a user's MFA factors. */
+export interface ResetFactorMetadata {
+  type: 'RESET_FACTOR';
+  userId: string;
+  /** The user's login at write time, so the history row names a person. */
+  userLogin: string;
+  /** The user's display name at write time. */
+  userName: string;
+  /** The factor removed. */
+  factorId: string;
+  /** Its Okta type, e.g. `push`. */
+  factorType: string;
+  /** Its friendly label at write time, e.g. "Okta Verify Push". */
+  factorLabel: string;
+}
+
+/**
+ * Metadata for verifying a user through one of their factors — a push sent, or
+ * a code checked. Nothing in Okta changes, but the check is what a helpdesk
+ * identity verification rests on, so it is kept with the writes. The entry's
+ * `status` is `completed` when the factor answered and `failed` when it did not.
+ */
+export interface VerifyFactorMetadata {
+  type: 'VERIFY_FACTOR';
+  userId: string;
+  /** The user's login at verification time. */
+  userLogin: string;
+  /** The user's display name at verification time. */
+  userName: string;
+  /** The factor challenged. */
+  factorId: string;
+  /** Its Okta type, e.g. `sms`. */
+  factorType: string;
+  /** Its friendly label at verification time. */
+  factorLabel: string;
+  /** Why it did not verify, when it did not. */
+  error?: string;
+}
+
+/**
+ * The mapping a Group Push write named: the app, the Okta group pushed from, and
+ * the app's group pushed into. Names are as they were at write time.
+ */
+export interface PushMappingRef {
+  appId: string;
+  appName: string;
+  mappingId: string;
+  sourceGroupId: string;
+  sourceGroupName: string;
+  targetGroupId: string;
+  /** The target group's name, when it was known. */
+  targetGroupName?: string;
+}
+
+/**
+ * Metadata for pushing a group to an app.
+ *
+ * `createdTargetGroup` records whether Okta made the target group for this
+ * mapping. Undo deletes the mapping, and deletes the target group with it only
+ * when it was made here — a group that already existed in the app is left there.
+ */
+export interface CreatePushMappingMetadata extends PushMappingRef {
+  type: 'CREATE_PUSH_MAPPING';
+  createdTargetGroup: boolean;
+  /** Set when this entry is the undo of an earlier `DELETE_PUSH_MAPPING`. */
+  undoOfActionId?: string;
+}
+
+/** Metadata for activating a push mapping, which also retries a failed push. */
+export interface ActivatePushMappingMetadata extends PushMappingRef {
+  type: 'ACTIVATE_PUSH_MAPPING';
+  /** Set when this entry is the undo of an earlier `DEACTIVATE_PUSH_MAPPING`. */
+  undoOfActionId?: string;
+}
+
+/** Metadata for deactivating a push mapping; the target group stays in the app. */
+export interface DeactivatePushMappingMetadata extends PushMappingRef {
+  type: 'DEACTIVATE_PUSH_MAPPING';
+  /** Set when this entry is the undo of an earlier `ACTIVATE_PUSH_MAPPING`. */
+  undoOfActionId?: string;
+}
+
+/** Metadata for asking Okta to push a group's membership now. */
+export interface PushGroupNowMetadata extends PushMappingRef {
+  type: 'PUSH_GROUP_NOW';
+}
+
+/**
+ * Metadata for deleting a push mapping.
+ *
+ * Undo links the source group to the kept target group again, so it is only
+ * offered when `deletedTargetGroup` is `false`. `wasActive` is the status the
+ * mapping had before the delete deactivated it, which the re-link restores.
+ */
+export interface DeletePushMappingMetadata extends PushMappingRef {
+  type: 'DELETE_PUSH_MAPPING';
+  deletedTargetGroup: boolean;
+  wasActive: boolean;
+  /** Set when this entry is the undo of an earlier `CREATE_PUSH_MAPPING`. */
+  undoOfActionId?: string;
+}
+
 /** The persisted history container: recent actions plus its size cap. */
 export interface UndoHistory {
   actions: UndoAction[];
@@ -49,6 +49,9 @@ describe('oktaAdminEntityUrl', () => {
     expect(oktaAdminEntityUrl(origin, 'app', '0oa1')).toBe(
       `${origin}/admin/app/0oa1/instance/0oa1`,
     );
+    expect(oktaAdminEntityUrl(origin, 'policy', 'rst1')).toBe(
+      `${origin}/admin/authn/authentication-policies#authentication-policies/policy/rst1/`,
+    );
   });
 
   it('returns null when the origin or id is missing', () => {
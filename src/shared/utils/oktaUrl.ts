@@ -42,7 +42,7 @@ export function isOktaUrl(url: string | null | undefined): boolean {
 }
 
 /** Entity kinds that have an Okta Admin Console deep link. */
-export type OktaAdminEntityType = 'group' | 'user' | 'app';
+export type OktaAdminEntityType = 'group' | 'user' | 'app' | 'policy';
 
 /**
  * Build the Okta Admin Console deep link for a single entity.
@@ -72,5 +72,8 @@ export function oktaAdminEntityUrl(
       return `${origin}/admin/user/profile/view/${id}`;
     case 'app':
       return `${origin}/admin/app/${id}/instance/${id}`;
+    case 'policy':
+      // App authentication policies — the only policy kind the panel lists.
+      return `${origin}/admin/authn/authentication-policies#authentication-policies/policy/${id}/`;
   }
 }
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  badgeText,
+  describeFingerprintChange,
+  fingerprintEndpoint,
+  notificationText,
+  toFingerprint,
+  watchKey,
+  type WatchChange,
+} from './watchlist';
+
+describe('watchKey / fingerprintEndpoint', () => {
+  it('keys an entity by kind and id', () => {
+    expect(watchKey('rule', '0prA')).toBe('rule:0prA');
+  });
+
+  it('reads groups with their stats and rules and users by id', () => {
+    expect(fingerprintEndpoint('group', '00gA')).toBe('/api/v1/groups/00gA?expand=stats');
+    expect(fingerprintEndpoint('rule', '0prA')).toBe('/api/v1/groups/rules/0prA');
+    expect(fingerprintEndpoint('user', '00uA')).toBe('/api/v1/users/00uA');
+  });
+});
+
+describe('toFingerprint', () => {
+  it('takes a group’s member count and membership timestamp', () => {
+    expect(
+      toFingerprint(
+        'group',
+        {
+          id: '00gFAKE1',
+          profile: { name: 'Contractors' },
+          lastUpdated: '2026-10-01T00:00:00.000Z',
+          lastMembershipUpdated: '2026-10-18T00:00:00.000Z',
+          _embedded: { stats: { usersCount: 12 } },
+        },
+        'Old name',
+      ),
+    ).toEqual({
+      name: 'Contractors',
+      memberCount: 12,
+      lastMembershipUpdated: '2026-10-18T00:00:00.000Z',
+      lastUpdated: '2026-10-01T00:00:00.000Z',
+    });
+  });
+
+  it('names a user by full name, then login, then the pinned name', () => {
+    const user = (firstName: string, lastName: string, login: string) => ({
+      id: '00uFAKE1',
+      status: 'ACTIVE',
+      profile: { login, email: 'ada@example.com', firstName, lastName },
+    });
+    expect(toFingerprint('user', user('Ada', 'L', 'ada@example.com'), 'x').name).toBe('Ada L');
+    expect(toFingerprint('user', user('', '', 'ada@example.com'), 'x').name).toBe(
+      'ada@example.com',
+    );
+    expect(toFingerprint('user', user('', '', ''), 'Pinned').name).toBe('Pinned');
+  });
+
+  it('takes a rule’s status and last update', () => {
+    expect(
+      toFingerprint(
+        'rule',
+        { id: '0prFAKE1', name: 'Contractors', status: 'INACTIVE', lastUpdated: 'u2' },
+        'x',
+      ),
+    ).toEqual({ name: 'Contractors', status: 'INACTIVE', lastUpdated: 'u2' });
+  });
+
+  it('refuses a record not in the expected shape rather than fingerprinting it empty', () => {
+    expect(() => toFingerprint('rule', null, 'Pinned')).toThrow(/validation failed/);
+    expect(() => toFingerprint('group', { profile: {} }, 'Pinned')).toThrow(/validation failed/);
+    expect(() =>
+      toFingerprint('user', { profile: { firstName: 'Ada', lastName: 'L' } }, 'Pinned'),
+    ).toThrow(/validation failed/);
+  });
+});
+
+describe('describeFingerprintChange', () => {
+  const group = {
+    name: 'Contractors',
+    memberCount: 12,
+    lastMembershipUpdated: 'a',
+    lastUpdated: 'u1',
+  };
+
+  it('is empty when nothing changed', () => {
+    expect(describeFingerprintChange(group, { ...group })).toEqual([]);
+  });
+
+  it('reports a member count change with its delta', () => {
+    expect(
+      describeFingerprintChange(group, { ...group, memberCount: 10, lastMembershipUpdated: 'b' }),
+    ).toEqual(['Members 12 → 10 (-2)']);
+  });
+
+  it('reports membership churn that kept the count', () => {
+    expect(describeFingerprintChange(group, { ...group, lastMembershipUpdated: 'b' })).toEqual([
+      'Membership changed (same count)',
+    ]);
+  });
+
+  it('reports a rename and a status change together', () => {
+    expect(
+      describeFingerprintChange(
+        { name: 'Eng', status: 'ACTIVE', lastUpdated: 'u1' },
+        { name: 'Engineering', status: 'INACTIVE', lastUpdated: 'u2' },
+      ),
+    ).toEqual(['Renamed from "Eng"', 'Status ACTIVE → INACTIVE']);
+  });
+
+  it('falls back to "Updated" for any other edit', () => {
+    expect(describeFingerprintChange(group, { ...group, lastUpdated: 'u2' })).toEqual(['Updated']);
+  });
+
+  it('reports an entity going missing once, and coming back', () => {
+    const missing = { name: 'Contractors', missing: true };
+    expect(describeFingerprintChange(group, missing)).toEqual([
+      'No longer found (deleted or not visible)',
+    ]);
+    expect(describeFingerprintChange(missing, missing)).toEqual([]);
+    expect(describeFingerprintChange(missing, group)).toEqual(['Found again']);
+  });
+});
+
+describe('badgeText', () => {
+  it('clears at zero and caps at 99+', () => {
+    expect(badgeText(0)).toBe('');
+    expect(badgeText(7)).toBe('7');
+    expect(badgeText(120)).toBe('99+');
+  });
+});
+
+describe('notificationText', () => {
+  const change = (name: string, lines: string[]): WatchChange => ({
+    id: name,
+    kind: 'group',
+    entityId: name,
+    name,
+    detectedAt: new Date(),
+    changes: lines,
+    seen: false,
+  });
+
+  it('sums up the first change and counts the rest', () => {
+    expect(notificationText([change('A', ['Updated'])])).toEqual({
+      title: 'Watchlist: 1 change',
+      message: 'A: Updated',
+    });
+    expect(
+      notificationText([change('A', ['Renamed from "Z"', 'Updated']), change('B', ['Updated'])]),
+    ).toEqual({
+      title: 'Watchlist: 2 changes',
+      message: 'A: Renamed from "Z"; Updated — and 1 more',
+    });
+  });
+});
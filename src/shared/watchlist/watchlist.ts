@@ -0,0 +1,243 @@
+/**
+ * @module shared/watchlist/watchlist
+ * @description What a watched group, rule or user is, the cheap fingerprint kept
+ * for it, and how two fingerprints differ in words. Pure; the store is
+ * `shared/storage/watchlistStore` and the checker is `background/watchlist`.
+ *
+ * A fingerprint is read from the entity's own record — one request each, no
+ * member listing:
+ *
+ * - **group** — member count and `lastMembershipUpdated` (from `expand=stats` and
+ *   the group itself), plus `lastUpdated` for profile edits;
+ * - **rule** — status and `lastUpdated`;
+ * - **user** — status and `lastUpdated`.
+ *
+ * The name is kept too, so a rename is a change and the feed can name an entity
+ * that has since been deleted. An entity the check can no longer read (404) is
+ * fingerprinted as missing. A record is validated against its
+ * `shared/schemas/okta` schema first; one not in the expected shape is a failed
+ * read, never an empty fingerprint that would diff as a change.
+ */
+
+import { z } from 'zod';
+import { oktaGroupRuleSchema, oktaGroupSchema, oktaUserSchema, parseOkta } from '../schemas/okta';
+
+/** What can be watched. */
+export type WatchKind = 'group' | 'rule' | 'user';
+
+/** The cheap state a check compares. */
+export interface WatchFingerprint {
+  name: string;
+  /** The entity was not found at the check (deleted, or no longer visible). */
+  missing?: boolean;
+  /** Rule or user status. */
+  status?: string;
+  /** Group member count. */
+  memberCount?: number;
+  /** Group `lastMembershipUpdated`. */
+  lastMembershipUpdated?: string;
+  lastUpdated?: string;
+}
+
+/** A pinned entity. */
+export interface WatchedItem {
+  /** `kind:id` ({@link watchKey}); the object-store key. */
+  key: string;
+  kind: WatchKind;
+  /** The Okta id. */
+  id: string;
+  /** Origin of the org it was pinned in; checks read it only through a tab there. */
+  origin: string;
+  /** Name when pinned, kept current by the checks. */
+  name: string;
+  addedAt: Date;
+  /** The last fingerprint, or `null` until the first check takes the baseline. */
+  fingerprint: WatchFingerprint | null;
+  checkedAt?: Date;
+}
+
+/** One detected change, as the feed lists it. */
+export interface WatchChange {
+  /** Stable record id; the object-store key. */
+  id: string;
+  kind: WatchKind;
+  entityId: string;
+  name: string;
+  detectedAt: Date;
+  /** What changed, one line each. */
+  changes: string[];
+  /** Whether the admin has seen it in the feed; unseen changes count on the badge. */
+  seen: boolean;
+}
+
+/** Changes kept in the feed; older ones are pruned. */
+export const CHANGES_KEPT = 200;
+
+/** Minutes between background checks. */
+export const WATCH_CHECK_MINUTES = 30;
+
+/** The singular noun per kind. */
+export const WATCH_KIND_LABELS: Record<WatchKind, string> = {
+  group: 'Group',
+  rule: 'Rule',
+  user: 'User',
+};
+
+/**
+ * The store key of a watched entity.
+ *
+ * @param kind - The entity kind.
+ * @param id - The Okta id.
+ * @returns `kind:id`.
+ */
+export function watchKey(kind: WatchKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+/**
+ * The endpoint a check reads an entity's fingerprint from.
+ *
+ * @param kind - The entity kind.
+ * @param id - The Okta id.
+ * @returns An origin-relative path.
+ */
+export function fingerprintEndpoint(kind: WatchKind, id: string): string {
+  const encoded = encodeURIComponent(id);
+  switch (kind) {
+    case 'group':
+      return `/api/v1/groups/${encoded}?expand=stats`;
+    case 'rule':
+      return `/api/v1/groups/rules/${encoded}`;
+    case 'user':
+      return `/api/v1/users/${encoded}`;
+  }
+}
+
+/** A group read with `expand=stats`: the timestamps and member count as well. */
+const watchedGroupSchema = oktaGroupSchema.extend({
+  lastUpdated: z.string().optional(),
+  lastMembershipUpdated: z.string().optional(),
+  _embedded: z
+    .object({ stats: z.object({ usersCount: z.number().optional() }).optional() })
+    .optional(),
+});
+
+/** A group rule, with the `lastUpdated` its schema passes through untyped. */
+const watchedRuleSchema = oktaGroupRuleSchema.extend({ lastUpdated: z.string().optional() });
+
+/**
+ * Fingerprint an entity from its record.
+ *
+ * @param kind - The entity kind.
+ * @param raw - The record as Okta returned it.
+ * @param fallbackName - The name to keep when the record's is blank.
+ * @returns The fingerprint.
+ * @throws When the record is not in the expected shape; the check counts it as a
+ *   failed read.
+ */
+export function toFingerprint(
+  kind: WatchKind,
+  raw: unknown,
+  fallbackName: string,
+): WatchFingerprint {
+  switch (kind) {
+    case 'group': {
+      const group = parseOkta(watchedGroupSchema, raw, 'GET /api/v1/groups/{id}');
+      return {
+        name: group.profile.name || fallbackName,
+        memberCount: group._embedded?.stats?.usersCount,
+        lastMembershipUpdated: group.lastMembershipUpdated,
+        lastUpdated: group.lastUpdated,
+      };
+    }
+    case 'rule': {
+      const rule = parseOkta(watchedRuleSchema, raw, 'GET /api/v1/groups/rules/{id}');
+      return {
+        name: rule.name || fallbackName,
+        status: rule.status,
+        lastUpdated: rule.lastUpdated,
+      };
+    }
+    case 'user': {
+      const user = parseOkta(oktaUserSchema, raw, 'GET /api/v1/users/{id}');
+      const fullName = [user.profile.firstName, user.profile.lastName].filter(Boolean).join(' ');
+      return {
+        name: fullName || user.profile.login || fallbackName,
+        status: user.status,
+        lastUpdated: user.lastUpdated,
+      };
+    }
+  }
+}
+
+/** `+2` / `-3`. */
+function signed(delta: number): string {
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+/**
+ * How an entity changed between two checks.
+ *
+ * @param before - The stored fingerprint.
+ * @param after - The fingerprint just read.
+ * @returns One line per change; `[]` when nothing changed.
+ */
+export function describeFingerprintChange(
+  before: WatchFingerprint,
+  after: WatchFingerprint,
+): string[] {
+  if (after.missing) return before.missing ? [] : ['No longer found (deleted or not visible)'];
+  if (before.missing) return ['Found again'];
+
+  const changes: string[] = [];
+  if (before.name !== after.name) changes.push(`Renamed from "${before.name}"`);
+  if (before.status !== after.status && after.status) {
+    changes.push(`Status ${before.status ?? 'unknown'} → ${after.status}`);
+  }
+  const countChanged =
+    before.memberCount !== undefined &&
+    after.memberCount !== undefined &&
+    before.memberCount !== after.memberCount;
+  if (countChanged) {
+    changes.push(
+      `Members ${before.memberCount} → ${after.memberCount} (${signed(
+        (after.memberCount ?? 0) - (before.memberCount ?? 0),
+      )})`,
+    );
+  } else if (before.lastMembershipUpdated !== after.lastMembershipUpdated) {
+    changes.push('Membership changed (same count)');
+  }
+  if (changes.length === 0 && before.lastUpdated !== after.lastUpdated) {
+    changes.push('Updated');
+  }
+  return changes;
+}
+
+/**
+ * The action badge for a count of unseen changes.
+ *
+ * @param unseen - Unseen changes.
+ * @returns The badge text; empty to clear it.
+ */
+export function badgeText(unseen: number): string {
+  if (unseen <= 0) return '';
+  return unseen > 99 ? '99+' : String(unseen);
+}
+
+/**
+ * One notification's text for a check's changes.
+ *
+ * @param changes - The changes the check found (at least one).
+ * @returns Title and message.
+ */
+export function notificationText(changes: readonly WatchChange[]): {
+  title: string;
+  message: string;
+} {
+  const [first] = changes;
+  const rest = changes.length - 1;
+  return {
+    title: `Watchlist: ${changes.length} change${changes.length === 1 ? '' : 's'}`,
+    message: `${first.name}: ${first.changes.join('; ')}${rest > 0 ? ` — and ${rest} more` : ''}`,
+  };
+}
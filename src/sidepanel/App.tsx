@@ -36,11 +36,15 @@ import { MODAL_LAYER_ID } from './components/shared/Modal';
 import TabNavigation from './components/TabNavigation';
 import TabPanel from './components/TabPanel';
 import TabJumpPalette from './components/TabJumpPalette';
+import type { PaletteEntity } from './components/palette/paletteSearch';
 import { useCommandPalette } from './hooks/useCommandPalette';
 import { migrateLegacyTabId, type TabType } from './tabs';
+import type { LogScope } from '../shared/systemLog/logQuery';
+import type { FormattedRule } from '../shared/types';
 import OverviewTab from './components/OverviewTab';
 import type { ExportRequest } from './components/export';
 import ActivityBar from './components/ActivityBar';
+import InterruptedOperationsBanner from './components/InterruptedOperationsBanner';
 
 // Code-split the non-default tabs so the initial side-panel load only ships the
 // Overview (the default tab). Each import lands in its own chunk, fetched on
@@ -55,8 +59,12 @@ const AppsTab = lazy(() => import('./components/AppsTab'));
 const AuthPoliciesTab = lazy(() => import('./components/AuthPoliciesTab'));
 const ExportTab = lazy(() => import('./components/export').then((m) => ({ default: m.ExportTab })));
 const AuditLogViewer = lazy(() => import('./components/AuditLogViewer'));
+const SystemLogTab = lazy(() => import('./components/SystemLogTab'));
+const ApiConsoleTab = lazy(() => import('./components/ApiConsoleTab'));
 import { useGroupContext } from './hooks/useGroupContext';
 import { useOktaPageContext } from './hooks/useOktaPageContext';
+import { usePendingNavigation } from './hooks/usePendingNavigation';
+import { useOktaSession } from './hooks/useOktaSession';
 import { SchedulerProvider } from './contexts/SchedulerContext';
 import { NavigationProvider } from './contexts/NavigationContext';
 import { deriveTabContext, revalidatePinnedContext, type PinnedContext } from './pinContext';
@@ -81,12 +89,23 @@ const App: React.FC = () => {
   // A one-shot request to open a specific user in the Users tab (e.g. from the
   // Overview's "View all groups"); cleared by the tab once consumed.
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  // Whether that request should land on the comparison view (the ⌘K palette's
+  // "Compare with…"); cleared with it.
+  const [compareSelectedUser, setCompareSelectedUser] = useState(false);
+  // One-shot requests from the ⌘K palette: a group whose detail view to push, and
+  // the name an app or policy list should be searched for. Cleared once consumed.
+  const [openGroupId, setOpenGroupId] = useState<string | null>(null);
+  const [appSearchRequest, setAppSearchRequest] = useState<string | null>(null);
+  const [policySearchRequest, setPolicySearchRequest] = useState<string | null>(null);
   // A one-shot request to open the Export tab pre-scoped (e.g. from the group
   // Overview's "Export Members"); cleared by the tab once consumed.
   const [exportRequest, setExportRequest] = useState<ExportRequest | null>(null);
   // A one-shot request to scope the Rules tab to a group on arrival (from the
   // group Overview's "View Rules"); cleared by the tab once consumed.
   const [scopeRulesToGroupId, setScopeRulesToGroupId] = useState<string | null>(null);
+  // A rule opened from its card's "System Log"; overrides the ContextBar entity
+  // as the Logs tab's scope until the admin goes back.
+  const [logRuleScope, setLogRuleScope] = useState<LogScope | null>(null);
   // The pinned snapshot (null = following the live tab). Persisted across reopen.
   const [pinned, setPinned] = useState<PinnedContext | null>(null);
   const isPinned = pinned !== null;
@@ -200,6 +219,20 @@ const App: React.FC = () => {
             ? (page.policyInfo?.policyId ?? undefined)
             : undefined;
 
+  // The Logs tab follows the entity in the ContextBar; a rule only gets there
+  // through its card, since no Okta page is a rule's.
+  const contextLogScope = useMemo<LogScope>(
+    () =>
+      entityId &&
+      (effective.pageType === 'user' ||
+        effective.pageType === 'group' ||
+        effective.pageType === 'app' ||
+        effective.pageType === 'policy')
+        ? { kind: effective.pageType, id: entityId, name: entityName ?? entityId }
+        : { kind: 'org' },
+    [effective.pageType, entityId, entityName],
+  );
+
   const handleTogglePin = () => {
     if (pinned) {
       setPinned(null);
@@ -294,6 +327,12 @@ const App: React.FC = () => {
     chrome.storage.local.set({ [SELECTED_TAB_KEY]: 'users' });
   }, []);
 
+  const handleViewRuleLog = useCallback((rule: FormattedRule) => {
+    setLogRuleScope({ kind: 'rule', id: rule.id, name: rule.name });
+    setActiveTab('logs');
+    chrome.storage.local.set({ [SELECTED_TAB_KEY]: 'logs' });
+  }, []);
+
   /**
    * What `EntityLink` can reach today. `app` and `policy` are deliberately absent:
    * neither tab accepts a deep-linked selection yet, and reporting them as
@@ -309,6 +348,11 @@ const App: React.FC = () => {
     [handleNavigateToRule, handleNavigateToGroup, handleNavigateToUser],
   );
 
+  // A group or user chosen from the `ou` omnibox keyword arrives through storage.
+  usePendingNavigation(navigationHandlers);
+  // The live tab's session, whatever is pinned: it is the session every call rides.
+  const sessionMinutesLeft = useOktaSession(page.targetTabId ?? null);
+
   // Open the Export tab pre-scoped to a descriptor + context entity (deep-linked
   // from an Overview action).
   const handleNavigateToExport = (request: ExportRequest) => {
@@ -327,6 +371,36 @@ const App: React.FC = () => {
   const handleExportApp = (descriptorId: string, appId: string, appName: string) =>
     handleNavigateToExport({ descriptorId, contextId: appId, contextLabel: appName });
 
+  // An entity chosen in the ⌘K palette opens where it lives. Groups and users get
+  // their detail views; apps and policies have none, so their lists are searched.
+  const handleOpenPaletteEntity = (entity: PaletteEntity) => {
+    switch (entity.kind) {
+      case 'group':
+        setOpenGroupId(entity.id);
+        handleTabChange('groups');
+        break;
+      case 'user':
+        handleNavigateToUser(entity.id);
+        break;
+      case 'rule':
+        handleNavigateToRule(entity.id);
+        break;
+      case 'app':
+        setAppSearchRequest(entity.label);
+        handleTabChange('apps');
+        break;
+      case 'policy':
+        setPolicySearchRequest(entity.label);
+        handleTabChange('policies');
+        break;
+    }
+  };
+
+  const handleCompareUser = (userId: string) => {
+    setCompareSelectedUser(true);
+    handleNavigateToUser(userId);
+  };
+
   // "View Rules" from a group Overview: open the Rules tab scoped to that group.
   const handleViewGroupRules = (groupId: string) => {
     setScopeRulesToGroupId(groupId);
@@ -389,10 +463,15 @@ const App: React.FC = () => {
             onTogglePin={handleTogglePin}
             onRefresh={handleRefreshAll}
             onReconnect={handleReconnect}
+            sessionMinutesLeft={sessionMinutesLeft}
           />
 
           <TabNavigation activeTab={activeTab} onTabChange={handleTabChange} />
 
+          {/* Journaled bulk writes a closed panel left unfinished; renders nothing
+            when there are none. Above the tabs because it applies to all of them. */}
+          <InterruptedOperationsBanner targetTabId={page.targetTabId ?? null} />
+
           {/* Each tab mounts on first activation and is hidden — never unmounted —
             thereafter, so its local state survives leaving the tab. */}
           {renderTabPanel('overview', () => (
@@ -426,6 +505,7 @@ const App: React.FC = () => {
               selectedRuleId={selectedRuleId}
               onRuleSelected={() => setSelectedRuleId(null)}
               onNavigateToGroup={handleNavigateToGroup}
+              onViewLog={handleViewRuleLog}
               scopeToGroupId={scopeRulesToGroupId}
               onScopeConsumed={() => setScopeRulesToGroupId(null)}
             />
@@ -436,7 +516,11 @@ const App: React.FC = () => {
               targetTabId={tabContext.targetTabId ?? undefined}
               currentGroupId={tabContext.currentGroupId}
               selectedUserId={selectedUserId}
-              onUserSelected={() => setSelectedUserId(null)}
+              onUserSelected={() => {
+                setSelectedUserId(null);
+                setCompareSelectedUser(false);
+              }}
+              compareSelectedUser={compareSelectedUser}
             />
           ))}
           {renderTabPanel('groups', (isActive) => (
@@ -447,6 +531,8 @@ const App: React.FC = () => {
               onNavigateToRule={handleNavigateToRule}
               selectedGroupId={selectedGroupId}
               onGroupSelected={() => setSelectedGroupId(null)}
+              openGroupId={openGroupId}
+              onGroupOpened={() => setOpenGroupId(null)}
               // The same descriptor-driven Export Engine route the group
               // Overview's "Export Members" already takes. Without this the
               // drilled-in group's action greys itself out.
@@ -458,6 +544,8 @@ const App: React.FC = () => {
               isActive={isActive}
               targetTabId={tabContext.targetTabId ?? null}
               oktaOrigin={tabContext.oktaOrigin ?? undefined}
+              searchRequest={appSearchRequest}
+              onSearchRequestConsumed={() => setAppSearchRequest(null)}
             />
           ))}
           {renderTabPanel('policies', (isActive) => (
@@ -465,6 +553,8 @@ const App: React.FC = () => {
               isActive={isActive}
               targetTabId={tabContext.targetTabId ?? undefined}
               oktaOrigin={tabContext.oktaOrigin ?? undefined}
+              searchRequest={policySearchRequest}
+              onSearchRequestConsumed={() => setPolicySearchRequest(null)}
             />
           ))}
           {renderTabPanel('export', (isActive) => (
@@ -476,6 +566,20 @@ const App: React.FC = () => {
               onExportRequestConsumed={() => setExportRequest(null)}
             />
           ))}
+          {renderTabPanel('logs', (isActive) => (
+            <SystemLogTab
+              isActive={isActive}
+              targetTabId={tabContext.targetTabId ?? undefined}
+              scope={logRuleScope ?? contextLogScope}
+              onLeaveRuleScope={() => setLogRuleScope(null)}
+            />
+          ))}
+          {renderTabPanel('console', () => (
+            <ApiConsoleTab
+              targetTabId={tabContext.targetTabId ?? undefined}
+              oktaOrigin={tabContext.oktaOrigin ?? undefined}
+            />
+          ))}
           {renderTabPanel('history', (isActive) => (
             <div
               className="tab-content active"
@@ -492,13 +596,18 @@ const App: React.FC = () => {
         </div>
 
         {/* Rendered outside the scroll root: it is a viewport-fixed overlay, not
-          part of any tab's scrollable content. Selecting a result goes through
+          part of any tab's scrollable content. Selecting a section goes through
           the same `handleTabChange` the icon rail calls. */}
         <TabJumpPalette
           isOpen={jumpPalette.isOpen}
           onClose={jumpPalette.close}
           activeTab={activeTab}
           onSelect={handleTabChange}
+          targetTabId={tabContext.targetTabId ?? null}
+          oktaOrigin={tabContext.oktaOrigin}
+          onOpenEntity={handleOpenPaletteEntity}
+          onExportGroup={handleExportGroup}
+          onCompareUser={handleCompareUser}
         />
 
         {/* The modal layer: every `Modal` overlay in the panel portals in here.
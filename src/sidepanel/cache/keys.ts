@@ -115,6 +115,28 @@ export const cacheKeys = {
    */
   policies: (policyType: string): EntityKey => ['policies', policyType],
 
+  /**
+   * One policy's rules.
+   *
+   * Entity-scoped, so it keys on the policy id alone. Read by the Auth Policies
+   * tab's expanded cards, the policy Overview and the policy simulator — an
+   * expanded card's rules are already there when the simulator walks them.
+   *
+   * @param policyId - The Okta policy id.
+   */
+  policyRules: (policyId: string): EntityKey => ['policyRules', policyId],
+
+  /**
+   * The org's network zones, which policy rules reference by id. Org-wide, so
+   * scoped by origin like {@link cacheKeys.apps}.
+   *
+   * @param oktaOrigin - The connected org's origin, e.g. `https://example.okta.com`.
+   */
+  networkZones: (oktaOrigin?: string | null): EntityKey => [
+    'networkZones',
+    oktaOrigin ?? 'unknown',
+  ],
+
   /**
    * The org's user-profile schema — every base and custom attribute definition
    * from `GET /api/v1/meta/schemas/user/default`.
@@ -176,4 +198,52 @@ export const cacheKeys = {
    * rather than in the cache.
    */
   userDetails: (userId: string): EntityKey => ['userDetails', userId],
+
+  /**
+   * The administrator roles one user holds, direct and group-held.
+   *
+   * Read by the Users tab's Roles pane on first entry, and refetched by that
+   * pane after every grant or revoke — the write's own response is one
+   * assignment, not the list.
+   *
+   * @param userId - The Okta user id.
+   */
+  userRoles: (userId: string): EntityKey => ['userRoles', userId],
+
+  /**
+   * The MFA factors one user has enrolled.
+   *
+   * Read by the Users tab's Factors pane on first entry, and refetched by that
+   * pane after a reset. A verification changes nothing in the list.
+   *
+   * @param userId - The Okta user id.
+   */
+  userFactors: (userId: string): EntityKey => ['userFactors', userId],
+
+  /**
+   * The org's linked-object definitions (`manager` / `subordinate` and any
+   * others). Org-wide, so scoped by origin like {@link cacheKeys.userSchema},
+   * and held at {@link TTL_LONG} for the same reason: defining a relationship is
+   * a rare, deliberate act.
+   *
+   * @param oktaOrigin - The connected org's origin, e.g. `https://example.okta.com`.
+   */
+  linkedObjectDefinitions: (oktaOrigin?: string | null): EntityKey => [
+    'linkedObjectDefinitions',
+    oktaOrigin ?? 'unknown',
+  ],
+
+  /**
+   * The users one relationship of one user points at — one step of the
+   * Profile pane's org-chart walk. A composite key, so dropping
+   * `['linkedUsers', userId]` drops every relationship of that user.
+   *
+   * @param userId - The Okta user id.
+   * @param relationship - The relationship name, e.g. `manager`.
+   */
+  linkedUsers: (userId: string, relationship: string): EntityKey => [
+    'linkedUsers',
+    userId,
+    relationship,
+  ],
 } as const;
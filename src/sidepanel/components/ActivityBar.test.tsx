@@ -42,6 +42,7 @@ beforeEach(() => {
           cooldownEndsAt: null,
           errorCount: 0,
           lastError: null,
+          awaitingSignIn: false,
         },
       });
     }
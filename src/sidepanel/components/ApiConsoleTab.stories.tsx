@@ -0,0 +1,110 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, fn, userEvent, within } from 'storybook/test';
+import ApiConsoleTab from './ApiConsoleTab';
+import { useOktaApi, makeUseOktaApiValue } from '../../../.storybook/mocks/useOktaApi.mock';
+
+/** Two obviously-fake users, as `GET /api/v1/users` returns them. */
+const sampleUsers = [
+  {
+    id: '00uFAKE1',
+    status: 'ACTIVE',
+    created: '2026-01-05T09:00:00.000Z',
+    profile: { login: 'ada.lovelace@example.com', firstName: 'Ada', lastName: 'Lovelace' },
+    _links: { self: { href: 'https://example.okta.com/api/v1/users/00uFAKE1' } },
+  },
+  {
+    id: '00uFAKE2',
+    status: 'SUSPENDED',
+    created: '2026-02-11T14:30:00.000Z',
+    profile: { login: 'alan.turing@example.com', firstName: 'Alan', lastName: 'Turing' },
+    _links: { self: { href: 'https://example.okta.com/api/v1/users/00uFAKE2' } },
+  },
+];
+
+/**
+ * The API tab: one-off requests against the connected org's `/api/v1`.
+ */
+const meta = {
+  title: 'Console/ApiConsoleTab',
+  component: ApiConsoleTab,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'fullscreen',
+    // heading-order disabled: the tab renders as a page fragment outside the app shell.
+    a11y: { config: { rules: [{ id: 'heading-order', enabled: false }] } },
+    docs: {
+      description: {
+        component:
+          'API tab: same-origin `/api/v1` paths only, `GET` by default, every request queued ' +
+          'through the scheduler at the priority in the form. Any other method waits on a ' +
+          'confirmation and is recorded in the audit log. Lists page through their `Link` header.\n\n' +
+          '**Related internals:** [Scheduler & messaging](?path=/docs/internals-scheduler-messaging--docs)',
+      },
+    },
+  },
+  argTypes: {
+    targetTabId: { description: 'Chrome tab id of the connected Okta tab; required to send.' },
+    oktaOrigin: { description: 'Origin of the connected org; a pasted URL must be on it.' },
+  },
+  args: {
+    targetTabId: 1,
+    oktaOrigin: 'https://example.okta.com',
+  },
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({
+        sendConsoleRequest: fn(async () => ({
+          ok: true,
+          status: 200,
+          data: sampleUsers,
+          error: null,
+          nextPath: '/api/v1/users?after=00uFAKE2',
+          durationMs: 184,
+        })),
+      }),
+    );
+  },
+} satisfies Meta<typeof ApiConsoleTab>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** The form before anything is sent. */
+export const Default: Story = {};
+
+/** A list response, with a table and a next page. */
+export const ListResponse: Story = {
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Send' }));
+    await expect(await canvas.findByText('2 items')).toBeInTheDocument();
+  },
+};
+
+/** Okta refused the request. */
+export const Refused: Story = {
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({
+        sendConsoleRequest: fn(async () => ({
+          ok: false,
+          status: 403,
+          data: { errorCode: 'E0000006', errorSummary: 'You do not have permission' },
+          error: 'You do not have permission',
+          nextPath: null,
+          durationMs: 96,
+        })),
+      }),
+    );
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Send' }));
+    await expect(await canvas.findByText('You do not have permission')).toBeInTheDocument();
+  },
+};
+
+/** No Okta tab connected: nothing can be sent. */
+export const Disconnected: Story = {
+  args: { targetTabId: undefined },
+};
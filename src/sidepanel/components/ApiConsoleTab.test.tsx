@@ -0,0 +1,131 @@
+/**
+ * Behavioral tests for the API tab.
+ *
+ * Drives the real `ApiConsoleTab` and `useApiConsole` against a stubbed
+ * `useOktaApi`, pinning: a GET goes straight out at the chosen priority and
+ * shows as a tree and a table, a write goes only after its confirmation, a path
+ * outside `/api/v1` never leaves the form, and Next page appends.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `example.com`).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+// One stable stub object, like the memoized real facade.
+const api = vi.hoisted(() => ({
+  sendConsoleRequest: vi.fn(),
+}));
+
+vi.mock('../hooks/useOktaApi', () => ({ useOktaApi: () => api }));
+
+import ApiConsoleTab from './ApiConsoleTab';
+
+const ORIGIN = 'https://example.okta.com';
+
+const ok = (data: unknown, nextPath: string | null = null) => ({
+  ok: true,
+  status: 200,
+  data,
+  error: null,
+  nextPath,
+  durationMs: 42,
+});
+
+async function typePath(path: string) {
+  const field = screen.getByRole('textbox', { name: 'Path' });
+  await userEvent.clear(field);
+  await userEvent.type(field, path);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('ApiConsoleTab', () => {
+  it('sends a GET at the chosen priority and shows the list as a table', async () => {
+    api.sendConsoleRequest.mockResolvedValue(
+      ok([{ id: '00uFAKE1', status: 'ACTIVE', profile: { login: 'ada@example.com' } }]),
+    );
+    render(<ApiConsoleTab targetTabId={1} oktaOrigin={ORIGIN} />);
+
+    await typePath('/api/v1/users?limit=1');
+    await userEvent.selectOptions(screen.getByRole('combobox', { name: 'Priority' }), 'low');
+    await userEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+    expect(api.sendConsoleRequest).toHaveBeenCalledWith({
+      method: 'GET',
+      path: '/api/v1/users?limit=1',
+      body: undefined,
+      priority: 'low',
+    });
+    expect(await screen.findByText('1 item')).toBeInTheDocument();
+    expect(screen.getByRole('list', { name: 'Response body' })).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('tab', { name: /Table/ }));
+    expect(
+      within(screen.getByRole('table', { name: 'Response table' })).getByText('ada@example.com'),
+    ).toBeInTheDocument();
+  });
+
+  it('sends a write only after it is confirmed', async () => {
+    api.sendConsoleRequest.mockResolvedValue(ok({ id: '00uFAKE1', status: 'SUSPENDED' }));
+    render(<ApiConsoleTab targetTabId={1} oktaOrigin={ORIGIN} />);
+
+    await userEvent.selectOptions(screen.getByRole('combobox', { name: 'Method' }), 'POST');
+    await typePath('/api/v1/users/00uFAKE1/lifecycle/suspend');
+    await userEvent.click(screen.getByRole('button', { name: 'Review POST' }));
+
+    const dialog = await screen.findByRole('dialog');
+    expect(
+      within(dialog).getByText('/api/v1/users/00uFAKE1/lifecycle/suspend'),
+    ).toBeInTheDocument();
+    expect(api.sendConsoleRequest).not.toHaveBeenCalled();
+
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Cancel' }));
+    expect(api.sendConsoleRequest).not.toHaveBeenCalled();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Review POST' }));
+    await userEvent.click(
+      within(await screen.findByRole('dialog')).getByRole('button', { name: 'Send POST' }),
+    );
+    await waitFor(() =>
+      expect(api.sendConsoleRequest).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'POST',
+          path: '/api/v1/users/00uFAKE1/lifecycle/suspend',
+        }),
+      ),
+    );
+  });
+
+  it('refuses a path outside /api/v1 without sending it', async () => {
+    render(<ApiConsoleTab targetTabId={1} oktaOrigin={ORIGIN} />);
+
+    await typePath('https://evil.example.com/api/v1/users');
+    await userEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+    expect(await screen.findByText('Only this org’s own API can be called.')).toBeInTheDocument();
+    expect(api.sendConsoleRequest).not.toHaveBeenCalled();
+  });
+
+  it('appends the next page of a list', async () => {
+    api.sendConsoleRequest
+      .mockResolvedValueOnce(ok([{ id: '00uFAKE1' }], '/api/v1/users?after=00uFAKE1'))
+      .mockResolvedValueOnce(ok([{ id: '00uFAKE2' }]));
+    render(<ApiConsoleTab targetTabId={1} oktaOrigin={ORIGIN} />);
+
+    await typePath('/api/v1/users');
+    await userEvent.click(screen.getByRole('button', { name: 'Send' }));
+    await userEvent.click(await screen.findByRole('button', { name: 'Next page' }));
+
+    expect(api.sendConsoleRequest).toHaveBeenLastCalledWith({
+      method: 'GET',
+      path: '/api/v1/users?after=00uFAKE1',
+      priority: 'normal',
+    });
+    expect(await screen.findByText('2 items across 2 pages')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Next page' })).not.toBeInTheDocument();
+  });
+});
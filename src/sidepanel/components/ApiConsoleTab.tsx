@@ -0,0 +1,208 @@
+/**
+ * @module sidepanel/components/ApiConsoleTab
+ * @description API tab — a console for one-off Okta API requests on the
+ * connected org.
+ *
+ * Deliberately narrow: only same-origin `/api/v1` paths, `GET` by default, and
+ * every request queued through the scheduler at the priority shown in the form.
+ * Any other method waits on {@link ApiWriteConfirmModal} and is recorded in the
+ * audit log. A response shows as a collapsible {@link JsonTree} and, for a list
+ * of objects, a {@link ConsoleResponseTable}; a list with a `Link` header
+ * offers its next page.
+ *
+ * A thin coordinator: {@link useApiConsole} owns the form, the confirmation and
+ * the paging.
+ */
+import React, { useState } from 'react';
+import {
+  AlertMessage,
+  Badge,
+  Button,
+  Input,
+  PageHeader,
+  Select,
+  Tabs,
+  Textarea,
+  type TabItem,
+} from './shared';
+import JsonTree from './apiConsole/JsonTree';
+import ConsoleResponseTable from './apiConsole/ConsoleResponseTable';
+import ApiWriteConfirmModal from './apiConsole/ApiWriteConfirmModal';
+import { useApiConsole, type ApiConsoleDraft } from '../hooks/useApiConsole';
+import {
+  API_CONSOLE_METHODS,
+  API_CONSOLE_PRIORITIES,
+  detectTable,
+  isConsoleWrite,
+} from '../../shared/apiConsole/apiConsole';
+
+interface ApiConsoleTabProps {
+  /** Chrome tab id of the connected Okta tab; required to send anything. */
+  targetTabId?: number;
+  /** Origin of the connected org; a pasted absolute URL must be on it. */
+  oktaOrigin?: string;
+}
+
+const METHOD_OPTIONS = API_CONSOLE_METHODS.map((method) => ({ value: method, label: method }));
+const PRIORITY_OPTIONS = API_CONSOLE_PRIORITIES.map((p) => ({ value: p.value, label: p.label }));
+
+type ResponseView = 'tree' | 'table';
+
+/** Renders the request form, the write confirmation and the response. */
+const ApiConsoleTab: React.FC<ApiConsoleTabProps> = ({ targetTabId, oktaOrigin }) => {
+  const {
+    draft,
+    setDraft,
+    formError,
+    send,
+    pending,
+    confirmPending,
+    cancelPending,
+    isSending,
+    result,
+    loadNextPage,
+  } = useApiConsole(targetTabId ?? null, oktaOrigin ?? null);
+  const [view, setView] = useState<ResponseView>('tree');
+
+  const write = isConsoleWrite(draft.method);
+  const table = result ? detectTable(result.data) : null;
+  const shownView: ResponseView = table ? view : 'tree';
+  const itemCount = result && Array.isArray(result.data) ? result.data.length : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send();
+  };
+
+  const viewTabs: TabItem[] = [
+    { key: 'tree', label: 'JSON' },
+    ...(table ? [{ key: 'table', label: 'Table', count: table.rows.length }] : []),
+  ];
+
+  return (
+    <div className="tab-content active" style={{ fontFamily: 'var(--font-primary)', padding: 0 }}>
+      <PageHeader
+        title="API Console"
+        subtitle="Send a request to this org's /api/v1 as the signed-in admin"
+      />
+
+      <div className="max-w-7xl mx-auto px-6 py-6 space-y-4">
+        <form className="space-y-2" onSubmit={handleSubmit} aria-label="API request">
+          <div className="flex items-end gap-2">
+            <div className="w-28 shrink-0">
+              <Select
+                ariaLabel="Method"
+                value={draft.method}
+                onChange={(method) => setDraft({ method: method as ApiConsoleDraft['method'] })}
+                options={METHOD_OPTIONS}
+              />
+            </div>
+            <Input
+              value={draft.path}
+              onChange={(path) => setDraft({ path })}
+              ariaLabel="Path"
+              placeholder="/api/v1/users?limit=20"
+              size="sm"
+            />
+          </div>
+          <Select
+            label="Priority"
+            value={draft.priority}
+            onChange={(priority) => setDraft({ priority: priority as ApiConsoleDraft['priority'] })}
+            options={PRIORITY_OPTIONS}
+          />
+          {write && (
+            <Textarea
+              label="Body (JSON)"
+              value={draft.body}
+              onChange={(body) => setDraft({ body })}
+              rows={6}
+              hint="Sent as the request body. You confirm before anything is sent."
+            />
+          )}
+          <Button
+            type="submit"
+            variant={write ? 'secondary' : 'primary'}
+            size="sm"
+            icon="code"
+            loading={isSending}
+            disabled={isSending || targetTabId == null}
+          >
+            {write ? `Review ${draft.method}` : 'Send'}
+          </Button>
+        </form>
+
+        {formError && <AlertMessage message={{ text: formError, type: 'danger' }} />}
+
+        {targetTabId == null && (
+          <p className="text-sm text-neutral-600">Connect to an Okta tab to send API requests.</p>
+        )}
+
+        {result && (
+          <section className="space-y-3" aria-label="Response">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-neutral-600">
+              <Badge variant={result.response.ok ? 'success' : 'danger'}>
+                {result.response.status ?? 'No response'}
+              </Badge>
+              <code className="break-all font-mono text-neutral-900">
+                {result.request.method} {result.request.path}
+              </code>
+              <span>{result.response.durationMs} ms</span>
+              {itemCount !== null && (
+                <span>
+                  {itemCount} {itemCount === 1 ? 'item' : 'items'}
+                  {result.pages > 1 && ` across ${result.pages} pages`}
+                </span>
+              )}
+            </div>
+
+            {result.response.error && (
+              <AlertMessage message={{ text: result.response.error, type: 'danger' }} />
+            )}
+
+            {result.data !== null && (
+              <>
+                {table && (
+                  <Tabs
+                    variant="segmented"
+                    tabs={viewTabs}
+                    activeKey={shownView}
+                    onChange={(key) => setView(key as ResponseView)}
+                    ariaLabel="Response view"
+                  />
+                )}
+                {shownView === 'table' && table ? (
+                  <ConsoleResponseTable table={table} />
+                ) : (
+                  <div className="overflow-x-auto rounded-md border border-neutral-200 p-2">
+                    <JsonTree value={result.data} label="Response body" />
+                  </div>
+                )}
+              </>
+            )}
+
+            {result.response.nextPath && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => void loadNextPage()}
+                loading={isSending}
+                disabled={isSending}
+              >
+                Next page
+              </Button>
+            )}
+          </section>
+        )}
+      </div>
+
+      <ApiWriteConfirmModal
+        pending={pending}
+        onCancel={cancelPending}
+        onConfirm={() => void confirmPending()}
+      />
+    </div>
+  );
+};
+
+export default ApiConsoleTab;
@@ -85,6 +85,22 @@ describe('AppsTab', () => {
     expect(screen.getByText('Workday HR')).toBeInTheDocument();
   });
 
+  it('applies a search request from the palette once, then reports it consumed', async () => {
+    const onSearchRequestConsumed = vi.fn();
+    render(
+      <AppsTab
+        targetTabId={1}
+        searchRequest="Workday HR"
+        onSearchRequestConsumed={onSearchRequestConsumed}
+      />,
+    );
+
+    expect(await screen.findByText('Workday HR')).toBeInTheDocument();
+    expect(screen.queryByText('Salesforce')).not.toBeInTheDocument();
+    expect(screen.getByLabelText('Search applications')).toHaveValue('Workday HR');
+    expect(onSearchRequestConsumed).toHaveBeenCalledTimes(1);
+  });
+
   it('filters the list by the status bucket', async () => {
     const user = userEvent.setup();
     render(<AppsTab targetTabId={1} />);
@@ -156,4 +172,28 @@ describe('AppsTab', () => {
     expect(await screen.findByText('Salesforce')).toBeInTheDocument();
     expect(api.getAllApps).toHaveBeenCalledTimes(1);
   });
+
+  it('opens the SSO Inspector from the header and returns to the list', async () => {
+    render(<AppsTab targetTabId={1} />);
+    await screen.findByText('Salesforce');
+
+    await userEvent.click(screen.getByRole('button', { name: 'SSO Inspector' }));
+    expect(screen.getByRole('heading', { name: 'SSO Inspector' })).toBeInTheDocument();
+    expect(screen.queryByText('Salesforce')).not.toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: /Applications/ }));
+    expect(await screen.findByText('Salesforce')).toBeInTheDocument();
+  });
+
+  it('opens the certificate expiry view and returns to the list', async () => {
+    render(<AppsTab targetTabId={1} />);
+    await screen.findByText('Salesforce');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Certificates' }));
+    expect(screen.getByRole('heading', { name: 'Signing certificates' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Check certificates' })).toBeEnabled();
+
+    await userEvent.click(screen.getByRole('button', { name: /Applications/ }));
+    expect(await screen.findByText('Salesforce')).toBeInTheDocument();
+  });
 });
@@ -7,11 +7,20 @@
  * {@link AppsToolbar} and {@link AppsListPanel}. There are no writes anywhere in
  * this tab — every operation it reaches for is a read
  * (`getAllApps`, `getAppAssignmentCounts`).
+ *
+ * The header's **SSO Inspector** action swaps the list for {@link SsoInspector},
+ * which decodes a SAML response locally, and **Certificates** swaps it for the
+ * signing-certificate expiry view ({@link CertificateExpiryPanel}), and
+ * **Group push** swaps it for one app's Group Push mappings
+ * ({@link GroupPushPanel}); the list's filters survive each round trip.
  */
-import React, { useCallback, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { AlertMessage, Button, PageHeader } from './shared';
 import AppsToolbar from './apps/AppsToolbar';
 import AppsListPanel from './apps/AppsListPanel';
+import SsoInspector from './apps/SsoInspector';
+import CertificateExpiryPanel from './apps/CertificateExpiryPanel';
+import GroupPushPanel from './apps/GroupPushPanel';
 import {
   computeActiveAppFilterCount,
   filterAndSortApps,
@@ -34,6 +43,14 @@ export interface AppsTabProps {
    * is shown rather than firing in the background. Defaults to `true`.
    */
   isActive?: boolean;
+  /**
+   * One-shot request to show one app, from the ⌘K palette: its label becomes the
+   * list's search, with the status filter cleared. Cleared through
+   * {@link AppsTabProps.onSearchRequestConsumed}.
+   */
+  searchRequest?: string | null;
+  /** Invoked once {@link AppsTabProps.searchRequest} has been applied. */
+  onSearchRequestConsumed?: () => void;
 }
 
 /**
@@ -41,12 +58,35 @@ export interface AppsTabProps {
  * filters, sorts, and lists it. Load failures surface as a dismissible `danger`
  * banner rather than an empty list presented as truth.
  */
-const AppsTab: React.FC<AppsTabProps> = ({ targetTabId, oktaOrigin, isActive = true }) => {
+const AppsTab: React.FC<AppsTabProps> = ({
+  targetTabId,
+  oktaOrigin,
+  isActive = true,
+  searchRequest,
+  onSearchRequestConsumed,
+}) => {
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<AppStatusFilter>('');
   const [sortBy, setSortBy] = useState<AppSortField>('label');
   const [sortDesc, setSortDesc] = useState(false);
+  const [view, setView] = useState<'list' | 'inspector' | 'certificates' | 'push'>('list');
+
+  // Apply a search request during render (the derive-state-from-props pattern),
+  // so the list never paints unfiltered first. Seeded with `null` rather than the
+  // prop because the tab mounts on first activation — often with a request.
+  const [appliedRequest, setAppliedRequest] = useState<string | null>(null);
+  if ((searchRequest ?? null) !== appliedRequest) {
+    setAppliedRequest(searchRequest ?? null);
+    if (searchRequest) {
+      setSearchQuery(searchRequest);
+      setStatusFilter('');
+      setView('list');
+    }
+  }
+  useEffect(() => {
+    if (searchRequest) onSearchRequestConsumed?.();
+  }, [searchRequest, onSearchRequestConsumed]);
 
   // Must be stable: useOktaApi memoizes its operations on this callback's identity.
   const handleResult = useCallback(({ message, type }: OperationResult) => {
@@ -99,6 +139,42 @@ const AppsTab: React.FC<AppsTabProps> = ({ targetTabId, oktaOrigin, isActive = t
     void loadApps(true);
   }, [loadApps]);
 
+  if (view === 'inspector') {
+    return <SsoInspector targetTabId={targetTabId} onBack={() => setView('list')} />;
+  }
+
+  if (view === 'certificates') {
+    return (
+      <div className="tab-content active" style={{ fontFamily: 'var(--font-primary)', padding: 0 }}>
+        <PageHeader
+          title="Signing certificates"
+          subtitle="IdP and SAML app certificates, soonest to expire first"
+          onBack={() => setView('list')}
+          backLabel="Applications"
+        />
+        <div className="max-w-7xl mx-auto px-6 py-6">
+          <CertificateExpiryPanel targetTabId={targetTabId} />
+        </div>
+      </div>
+    );
+  }
+
+  if (view === 'push') {
+    return (
+      <div className="tab-content active" style={{ fontFamily: 'var(--font-primary)', padding: 0 }}>
+        <PageHeader
+          title="Group push"
+          subtitle="The groups an app receives, and how each push last went"
+          onBack={() => setView('list')}
+          backLabel="Applications"
+        />
+        <div className="max-w-7xl mx-auto px-6 py-6">
+          <GroupPushPanel apps={apps} targetTabId={targetTabId} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="tab-content active" style={{ fontFamily: 'var(--font-primary)', padding: 0 }}>
       <PageHeader
@@ -106,15 +182,26 @@ const AppsTab: React.FC<AppsTabProps> = ({ targetTabId, oktaOrigin, isActive = t
         subtitle="Browse the org's application inventory (read-only)"
         badge={{ text: `${apps.length.toLocaleString()} Apps`, variant: 'primary' }}
         actions={
-          <Button
-            variant="secondary"
-            icon="refresh"
-            onClick={handleRefresh}
-            loading={isLoading}
-            disabled={isLoading || targetTabId == null}
-          >
-            Refresh
-          </Button>
+          <>
+            <Button variant="secondary" icon="key" onClick={() => setView('inspector')}>
+              SSO Inspector
+            </Button>
+            <Button variant="secondary" icon="clock" onClick={() => setView('certificates')}>
+              Certificates
+            </Button>
+            <Button variant="secondary" icon="users" onClick={() => setView('push')}>
+              Group push
+            </Button>
+            <Button
+              variant="secondary"
+              icon="refresh"
+              onClick={handleRefresh}
+              loading={isLoading}
+              disabled={isLoading || targetTabId == null}
+            >
+              Refresh
+            </Button>
+          </>
         }
       />
 
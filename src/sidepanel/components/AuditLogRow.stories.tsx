@@ -106,6 +106,26 @@ const consolidation = entry('action_consolidation', 'Consolidated 2 rules into E
   ],
 });
 
+/** A suspend — undone by unsuspending, while the user is still suspended. */
+const suspension = entry('action_suspend', 'Suspended Ada Lovelace', {
+  type: 'SUSPEND_USER',
+  userId: '00uFAKE0000000000001',
+  userLogin: 'user@example.com',
+  userName: 'Ada Lovelace',
+});
+
+/** A rule delete, with the snapshot an undo recreates the rule from. */
+const ruleDeletion = entry('action_rule_delete', 'Deleted rule: Engineers by department', {
+  type: 'DELETE_RULE',
+  rule: {
+    id: '0prFAKE0000000000001',
+    name: 'Engineers by department',
+    expression: 'user.department=="Engineering"',
+    groupIds: ['00gFAKE0000000000001'],
+    status: 'ACTIVE',
+  },
+});
+
 /** Already undone: the entry carries the mark and offers no second Undo. */
 const undone: UndoAction = {
   ...profileUpdate,
@@ -132,11 +152,17 @@ const undoability: UseUndoActionReturn['undoability'] = (action) => {
     };
   if (action.status === 'failed')
     return { undoable: false, reason: 'This action failed, so there is nothing to put back.' };
+  if (
+    action.metadata.type === 'SUSPEND_USER' ||
+    action.metadata.type === 'UNSUSPEND_USER' ||
+    action.metadata.type === 'DELETE_RULE'
+  )
+    return { undoable: true, restorable: 1, total: 1 };
   if (action.metadata.type !== 'UPDATE_USER_PROFILE')
     return {
       undoable: false,
       reason:
-        'Only profile edits can be undone here. Every other action would need a new operation of its own rather than a restore.',
+        'Group removals cannot be undone here. Re-adding the user would record a direct membership, which is not necessarily how they held the group before.',
     };
   const total = action.metadata.changes.length;
   const restorable = action.metadata.changes.filter((change) => change.restorable).length;
@@ -230,7 +256,7 @@ export const NotUndoable: Story = {
   play: async ({ canvasElement }) => {
     const canvas = within(canvasElement);
     await expect(canvas.queryByRole('button', { name: 'Undo' })).toBeNull();
-    await expect(canvas.getByText(/Only profile edits can be undone/)).toBeVisible();
+    await expect(canvas.getByText(/Group removals cannot be undone/)).toBeVisible();
   },
 };
 
@@ -284,6 +310,26 @@ export const Consolidation: Story = {
   },
 };
 
+/** A suspend: offered an Undo, which unsuspends the user. */
+export const Suspension: Story = {
+  args: { action: suspension, isExpanded: true },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await expect(canvas.getByText('User Suspended')).toBeVisible();
+    await expect(canvas.getByRole('button', { name: 'Undo' })).toBeVisible();
+  },
+};
+
+/** A rule delete: the captured rule, and an Undo that recreates it. */
+export const RuleDeletion: Story = {
+  args: { action: ruleDeletion, isExpanded: true },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await expect(canvas.getByText('Rule Deleted')).toBeVisible();
+    await expect(canvas.getByRole('button', { name: 'Undo' })).toBeVisible();
+  },
+};
+
 /** The row on a surface that cannot undo anything: the button is absent, not disabled. */
 export const WithoutUndoHandler: Story = {
   args: { onUndo: undefined },
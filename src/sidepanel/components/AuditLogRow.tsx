@@ -46,7 +46,21 @@ const TYPE_LABEL: Record<ActionType, string> = {
   ACTIVATE_RULE: 'Rule Activated',
   DEACTIVATE_RULE: 'Rule Deactivated',
   CONSOLIDATE_RULE: 'Rules Consolidated',
+  AUTHOR_RULE: 'Rule Saved',
+  DELETE_RULE: 'Rule Deleted',
+  RESTORE_RULE: 'Rule Restored',
+  SUSPEND_USER: 'User Suspended',
+  UNSUSPEND_USER: 'User Unsuspended',
   UPDATE_USER_PROFILE: 'Profile Updated',
+  GRANT_ADMIN_ROLE: 'Admin Role Granted',
+  REVOKE_ADMIN_ROLE: 'Admin Role Revoked',
+  RESET_FACTOR: 'Factor Reset',
+  VERIFY_FACTOR: 'Factor Verification',
+  CREATE_PUSH_MAPPING: 'Group Pushed',
+  ACTIVATE_PUSH_MAPPING: 'Push Activated',
+  DEACTIVATE_PUSH_MAPPING: 'Push Deactivated',
+  PUSH_GROUP_NOW: 'Push Started',
+  DELETE_PUSH_MAPPING: 'Push Deleted',
 };
 
 /** The outcome mark a non-completed entry wears, if any. */
@@ -126,6 +140,64 @@ function detailRows(action: UndoAction): Array<[string, string]> {
     rows.push(['New rule ID', metadata.createdRuleId]);
     rows.push(['Target groups', String(metadata.createdGroupIds.length)]);
     rows.push(['Rules retired', metadata.retiredRules.map((rule) => rule.name).join(', ')]);
+  } else if (metadata.type === 'AUTHOR_RULE') {
+    rows.push(['Rule', metadata.createdRuleName]);
+    rows.push(['Rule ID', metadata.createdRuleId]);
+    rows.push(['Target groups', String(metadata.createdGroupIds.length)]);
+    rows.push(['Status', metadata.activated ? 'Active' : 'Inactive']);
+    if (metadata.replacedRule) rows.push(['Replaced', metadata.replacedRule.name]);
+    if (metadata.previousRule) {
+      const { name } = metadata.previousRule;
+      rows.push([
+        'Edited',
+        name === metadata.createdRuleName ? 'In place' : `In place, was ${name}`,
+      ]);
+    }
+  } else if (metadata.type === 'DELETE_RULE') {
+    rows.push(['Rule', metadata.rule.name]);
+    rows.push(['Rule ID', metadata.rule.id]);
+    rows.push(['Target groups', String(metadata.rule.groupIds.length)]);
+    if (metadata.rule.status) {
+      rows.push(['Status', metadata.rule.status === 'ACTIVE' ? 'Active' : 'Inactive']);
+    }
+  } else if (metadata.type === 'RESTORE_RULE') {
+    rows.push(['Rule', metadata.restoredRuleName]);
+    rows.push(['Rule ID', metadata.restoredRuleId]);
+    rows.push(['Original rule ID', metadata.originalRuleId]);
+    rows.push(['Status', metadata.activated ? 'Active' : 'Inactive']);
+  } else if (metadata.type === 'GRANT_ADMIN_ROLE' || metadata.type === 'REVOKE_ADMIN_ROLE') {
+    rows.push(['User', `${metadata.userName} (${metadata.userLogin})`]);
+    rows.push(['Role', metadata.roleLabel]);
+    rows.push(['User ID', metadata.userId]);
+    rows.push(['Assignment ID', metadata.roleAssignmentId]);
+  } else if (metadata.type === 'RESET_FACTOR' || metadata.type === 'VERIFY_FACTOR') {
+    rows.push(['User', `${metadata.userName} (${metadata.userLogin})`]);
+    rows.push(['Factor', metadata.factorLabel]);
+    if (metadata.type === 'VERIFY_FACTOR') {
+      rows.push(['Result', metadata.error ?? 'Verified']);
+    }
+    rows.push(['User ID', metadata.userId]);
+    rows.push(['Factor ID', metadata.factorId]);
+  } else if (
+    metadata.type === 'CREATE_PUSH_MAPPING' ||
+    metadata.type === 'ACTIVATE_PUSH_MAPPING' ||
+    metadata.type === 'DEACTIVATE_PUSH_MAPPING' ||
+    metadata.type === 'PUSH_GROUP_NOW' ||
+    metadata.type === 'DELETE_PUSH_MAPPING'
+  ) {
+    rows.push(['Group', metadata.sourceGroupName]);
+    rows.push(['App', metadata.appName]);
+    rows.push(['Target group', metadata.targetGroupName || metadata.targetGroupId]);
+    if (metadata.type === 'CREATE_PUSH_MAPPING' && metadata.createdTargetGroup) {
+      rows.push(['Target', 'Created by this push']);
+    }
+    if (metadata.type === 'DELETE_PUSH_MAPPING') {
+      rows.push([
+        'Target',
+        metadata.deletedTargetGroup ? 'Deleted from the app' : 'Kept in the app',
+      ]);
+    }
+    rows.push(['Mapping ID', metadata.mappingId]);
   } else {
     rows.push(['User', `${metadata.userName} (${metadata.userLogin})`]);
     rows.push(['User ID', metadata.userId]);
@@ -59,6 +59,41 @@ const partiallyRestorable = entry([
   captured('city', '', 'Berlin'),
 ]);
 
+/** A suspend, undone by unsuspending. */
+const suspension: UndoAction = {
+  id: 'action_suspend',
+  type: 'SUSPEND_USER',
+  timestamp: Date.now() - 5 * 60 * 1000,
+  description: 'Suspended Ada Lovelace',
+  status: 'completed',
+  metadata: {
+    type: 'SUSPEND_USER',
+    userId: '00uFAKE0000000000001',
+    userLogin: 'user@example.com',
+    userName: 'Ada Lovelace',
+  },
+};
+
+/** A deleted rule that was active, undone by recreating and re-activating it. */
+const ruleDeletion: UndoAction = {
+  id: 'action_rule_delete',
+  type: 'DELETE_RULE',
+  timestamp: Date.now() - 5 * 60 * 1000,
+  description: 'Deleted rule: Engineers by department',
+  status: 'completed',
+  metadata: {
+    type: 'DELETE_RULE',
+    rule: {
+      id: '0prFAKE0000000000001',
+      name: 'Engineers by department',
+      expression: 'user.department=="Engineering"',
+      groupIds: ['00gFAKE0000000000001', '00gFAKE0000000000002'],
+      status: 'ACTIVE',
+      excludedUserIds: ['00uFAKE0000000000002'],
+    },
+  },
+};
+
 /** The dialog that confirms — or refuses — an undo of a recorded profile write. */
 const meta = {
   title: 'Sidepanel/AuditLogUndoModal',
@@ -169,6 +204,31 @@ export const ErrorState: Story = {
   },
 };
 
+/** Undoing a suspend: the opposite write, named as such. */
+export const UndoSuspend: Story = {
+  args: { action: suspension },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement.ownerDocument.body);
+    await expect(canvas.getByRole('dialog', { name: 'Unsuspend user' })).toBeVisible();
+    await expect(canvas.getByRole('button', { name: 'Unsuspend' })).toBeVisible();
+  },
+};
+
+/** The user's status moved on since the suspend, so the unsuspend was refused. */
+export const UndoSuspendDrifted: Story = {
+  args: { action: suspension, drifted: ['status'] },
+};
+
+/** Undoing a rule delete: recreated under a new id, then re-activated. */
+export const RecreateRule: Story = {
+  args: { action: ruleDeletion },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement.ownerDocument.body);
+    await expect(canvas.getByRole('dialog', { name: 'Recreate deleted rule' })).toBeVisible();
+    await expect(canvas.getByText(/under a new one/)).toBeVisible();
+  },
+};
+
 /** `action: null` — the shared `Modal` renders nothing at all. */
 export const Closed: Story = {
   args: { action: null },
@@ -1,7 +1,7 @@
 /**
  * @module sidepanel/components/AuditLogUndoModal
- * @description The confirmation for undoing a recorded profile write — and the
- * place a refusal is explained.
+ * @description The confirmation for undoing a recorded profile write, user
+ * suspend/unsuspend or rule deletion — and the place a refusal is explained.
  *
  * Undo in this extension is a **forward write**: Okta has no rollback, so
  * restoring an attribute means issuing a new update that happens to set the old
@@ -23,12 +23,24 @@
  * - **Failed** — an ordinary `danger` alert above the confirm body, so the
  *   action can be retried without reopening.
  *
+ * A suspend or unsuspend is confirmed as the opposite write, and refused on the
+ * same terms when the user's status has moved on. A deleted rule is confirmed as
+ * a recreate: what comes back, and that it comes back under a new id. A Group
+ * Push write is confirmed as what happens to the group in the app.
+ *
  * Security: attribute names, labels and values here are tenant PII rendered
  * through React's escaping. This component logs nothing.
  */
 import React from 'react';
 import { AlertMessage, Badge, Button, Modal } from './shared';
-import type { CaptureOmission, CapturedAttribute, UndoAction } from '../../shared/undoTypes';
+import { snapshotExclusions } from '../../shared/rules/ruleSnapshot';
+import type {
+  ActionType,
+  CaptureOmission,
+  CapturedAttribute,
+  RetiredRuleSnapshot,
+  UndoAction,
+} from '../../shared/undoTypes';
 
 /** Why a captured attribute has no prior value to put back, in the admin's words. */
 const OMISSION_REASON: Record<CaptureOmission, string> = {
@@ -42,6 +54,22 @@ const OMISSION_REASON: Record<CaptureOmission, string> = {
  */
 const OMISSION_FALLBACK = 'Previous value was not captured';
 
+/** Title and confirm label per undoable type; anything else reads as a profile restore. */
+const COPY: Partial<Record<ActionType, { title: string; confirm: string }>> = {
+  SUSPEND_USER: { title: 'Unsuspend user', confirm: 'Unsuspend' },
+  UNSUSPEND_USER: { title: 'Suspend user again', confirm: 'Suspend' },
+  DELETE_RULE: { title: 'Recreate deleted rule', confirm: 'Recreate' },
+  GRANT_ADMIN_ROLE: { title: 'Revoke admin role', confirm: 'Revoke' },
+  REVOKE_ADMIN_ROLE: { title: 'Grant admin role again', confirm: 'Grant' },
+  CREATE_PUSH_MAPPING: { title: 'Remove group push', confirm: 'Remove push' },
+  ACTIVATE_PUSH_MAPPING: { title: 'Deactivate group push', confirm: 'Deactivate' },
+  DEACTIVATE_PUSH_MAPPING: { title: 'Activate group push again', confirm: 'Activate' },
+  DELETE_PUSH_MAPPING: { title: 'Link group push again', confirm: 'Link' },
+};
+
+/** The profile restore's copy, and the fallback. */
+const PROFILE_COPY = { title: 'Restore previous values', confirm: 'Restore' };
+
 /** Props for {@link AuditLogUndoModal}. */
 export interface AuditLogUndoModalProps {
   /** The entry being undone. `null` closes the dialog. */
@@ -135,6 +163,96 @@ const ConfirmBody: React.FC<{ changes: CapturedAttribute[] }> = ({ changes }) =>
   );
 };
 
+/** The confirm body for reversing a suspend or unsuspend. */
+const StatusBody: React.FC<{ userName: string; suspend: boolean }> = ({ userName, suspend }) => (
+  <div className="space-y-4">
+    <p className="text-sm text-pretty text-neutral-700">
+      <strong className="text-neutral-900">{userName}</strong>{' '}
+      {suspend
+        ? 'will be suspended again and unable to sign in until unsuspended.'
+        : 'will be unsuspended and able to sign in again.'}
+    </p>
+    <p className="text-xs text-pretty text-neutral-600">
+      This only goes ahead if their status is still what this action set. It is a new write with its
+      own entry in this history — nothing is erased.
+    </p>
+  </div>
+);
+
+/** The confirm body for recreating a deleted rule. */
+const RuleBody: React.FC<{ rule: RetiredRuleSnapshot }> = ({ rule }) => {
+  const excluded = snapshotExclusions(rule);
+  const exclusions = [excluded.users > 0 && 'users', excluded.groups > 0 && 'groups']
+    .filter(Boolean)
+    .join(' and ');
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-pretty text-neutral-700">
+        <strong className="text-neutral-900">{rule.name}</strong> will be recreated with its
+        condition,
+        {` ${rule.groupIds.length} target group${rule.groupIds.length === 1 ? '' : 's'}`}
+        {exclusions ? ` and excluded ${exclusions}` : ''}
+        {rule.status === 'ACTIVE' ? ', then activated.' : ', left inactive as it was.'}
+      </p>
+      <p className="text-xs text-pretty text-neutral-600">
+        Okta does not reuse ids, so the rule comes back under a new one. Links or scripts that named
+        the old id will not follow it.
+      </p>
+    </div>
+  );
+};
+
+/** The confirm body for reversing a role grant or revoke. */
+const RoleBody: React.FC<{ userName: string; roleLabel: string; grant: boolean }> = ({
+  userName,
+  roleLabel,
+  grant,
+}) => (
+  <div className="space-y-4">
+    <p className="text-sm text-pretty text-neutral-700">
+      <strong className="text-neutral-900">{userName}</strong>{' '}
+      {grant ? 'will be granted' : 'will lose'}{' '}
+      <strong className="text-neutral-900">{roleLabel}</strong>
+      {grant ? ' again, for the whole org as before.' : '.'}
+    </p>
+    <p className="text-xs text-pretty text-neutral-600">
+      This only goes ahead if their roles are still what this action left. It is a new write with
+      its own entry in this history — nothing is erased.
+    </p>
+  </div>
+);
+
+/** What reversing a Group Push write will do, per action type. */
+const PUSH_UNDO_TEXT: Partial<Record<ActionType, string>> = {
+  ACTIVATE_PUSH_MAPPING: 'will stop being pushed to',
+  DEACTIVATE_PUSH_MAPPING: 'will be pushed again to',
+  DELETE_PUSH_MAPPING: 'will be linked again to its kept target group in',
+};
+
+/** The Group Push body: the group, the app, and what the reversing write does there. */
+const PushBody: React.FC<{
+  groupName: string;
+  appName: string;
+  type: ActionType;
+  deletesTargetGroup: boolean;
+}> = ({ groupName, appName, type, deletesTargetGroup }) => (
+  <div className="space-y-4">
+    <p className="text-sm text-pretty text-neutral-700">
+      <strong className="text-neutral-900">{groupName}</strong>{' '}
+      {PUSH_UNDO_TEXT[type] ?? 'will no longer be pushed to'}{' '}
+      <strong className="text-neutral-900">{appName}</strong>.
+      {type === 'CREATE_PUSH_MAPPING' &&
+        (deletesTargetGroup
+          ? ' The group this push created in the app will be deleted.'
+          : ' The target group stays in the app, no longer updated.')}
+    </p>
+    <p className="text-xs text-pretty text-neutral-600">
+      This only goes ahead if the mapping is still what this action left. It is a new write with its
+      own entry in this history — nothing is erased.
+    </p>
+  </div>
+);
+
 /**
  * The refusal body. Named attributes changed in Okta after the original write,
  * so restoring would overwrite whoever changed them.
@@ -194,12 +312,50 @@ const AuditLogUndoModal: React.FC<AuditLogUndoModalProps> = ({
   const isDrifted = drifted !== undefined && drifted.length > 0;
   const metadata = action?.metadata;
   const changes = metadata?.type === 'UPDATE_USER_PROFILE' ? metadata.changes : [];
+  const copy = (metadata && COPY[metadata.type]) ?? PROFILE_COPY;
+
+  let body: React.ReactNode;
+  if (metadata?.type === 'SUSPEND_USER' || metadata?.type === 'UNSUSPEND_USER') {
+    body = <StatusBody userName={metadata.userName} suspend={metadata.type === 'UNSUSPEND_USER'} />;
+  } else if (metadata?.type === 'DELETE_RULE') {
+    body = <RuleBody rule={metadata.rule} />;
+  } else if (metadata?.type === 'GRANT_ADMIN_ROLE' || metadata?.type === 'REVOKE_ADMIN_ROLE') {
+    body = (
+      <RoleBody
+        userName={metadata.userName}
+        roleLabel={metadata.roleLabel}
+        grant={metadata.type === 'REVOKE_ADMIN_ROLE'}
+      />
+    );
+  } else if (
+    metadata?.type === 'CREATE_PUSH_MAPPING' ||
+    metadata?.type === 'ACTIVATE_PUSH_MAPPING' ||
+    metadata?.type === 'DEACTIVATE_PUSH_MAPPING' ||
+    metadata?.type === 'DELETE_PUSH_MAPPING'
+  ) {
+    body = (
+      <PushBody
+        groupName={metadata.sourceGroupName}
+        appName={metadata.appName}
+        type={metadata.type}
+        deletesTargetGroup={metadata.type === 'CREATE_PUSH_MAPPING' && metadata.createdTargetGroup}
+      />
+    );
+  } else if (changes.length > 0) {
+    body = <ConfirmBody changes={changes} />;
+  } else {
+    body = (
+      <p className="text-sm text-neutral-700">
+        This entry has no captured previous values, so there is nothing to restore.
+      </p>
+    );
+  }
 
   return (
     <Modal
       isOpen={action !== null}
       onClose={onClose}
-      title={isDrifted ? 'Undo refused' : 'Restore previous values'}
+      title={isDrifted ? 'Undo refused' : copy.title}
       size="md"
       footer={
         <>
@@ -210,7 +366,7 @@ const AuditLogUndoModal: React.FC<AuditLogUndoModalProps> = ({
               invite the admin to press past a guard that just protected them. */}
           {!isDrifted && (
             <Button variant="primary" loading={isUndoing} onClick={onConfirm}>
-              Restore
+              {copy.confirm}
             </Button>
           )}
         </>
@@ -221,13 +377,7 @@ const AuditLogUndoModal: React.FC<AuditLogUndoModalProps> = ({
       ) : (
         <div className="space-y-4">
           {error !== undefined && <AlertMessage message={{ type: 'danger', text: error }} />}
-          {changes.length > 0 ? (
-            <ConfirmBody changes={changes} />
-          ) : (
-            <p className="text-sm text-neutral-700">
-              This entry has no captured previous values, so there is nothing to restore.
-            </p>
-          )}
+          {body}
         </div>
       )}
     </Modal>
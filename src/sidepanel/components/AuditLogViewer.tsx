@@ -122,6 +122,8 @@ const AuditLogViewer: React.FC<AuditLogViewerProps> = ({ targetTabId, isActive =
             ? `Restored ${outcome.restored} attribute${outcome.restored === 1 ? '' : 's'}; ${outcome.skipped} had no captured previous value and were left unchanged.`
             : `Restored ${outcome.restored} attribute${outcome.restored === 1 ? '' : 's'}.`,
       });
+    } else if (outcome.kind === 'reversed') {
+      setNotice({ type: 'success', text: outcome.summary });
     } else {
       setNotice({
         type: 'info',
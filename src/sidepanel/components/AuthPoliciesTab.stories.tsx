@@ -185,6 +185,17 @@ export const RulesLoadFailure: Story = {
   },
 };
 
+/** The header's Simulate action: "which rule applies to this user?" as its own view. */
+export const Simulator: Story = {
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(await canvas.findByRole('button', { name: /Simulate/ }));
+    await expect(
+      await canvas.findByRole('heading', { name: 'Policy simulator' }),
+    ).toBeInTheDocument();
+  },
+};
+
 /** No Okta tab connected — nothing is fetched; the header offers "Load Policies". */
 export const Disconnected: Story = {
   args: { targetTabId: undefined },
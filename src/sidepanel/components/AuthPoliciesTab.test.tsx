@@ -8,7 +8,8 @@
  *   - the search box filters by name and description,
  *   - expanding a policy lazily fetches its rules exactly once (cached on re-expand),
  *   - a failing rules fetch shows an inline danger state, not a crash,
- *   - an empty result carries the admin-role caveat, and
+ *   - an empty result carries the admin-role caveat,
+ *   - the header's Simulate action opens the simulator as its own view, and
  *   - nothing anywhere offers a mutation affordance.
  *
  * `useOktaApi` is mocked at the module level, so both the tab's own slice and the
@@ -61,6 +62,11 @@ const api = vi.hoisted(() => ({
   cancelOperation: vi.fn(),
   listPolicies: vi.fn(async () => [] as OktaPolicyListItem[]),
   getPolicyRules: vi.fn(async () => [] as OktaPolicyRule[]),
+  // The simulator's reads; its walk is pinned in `policies/PolicySimulatorPanel.test`.
+  makeApiRequest: vi.fn(async () => ({ success: true, data: [] })),
+  getAllApps: vi.fn(async () => []),
+  listNetworkZones: vi.fn(async () => []),
+  getAppAccessPolicyId: vi.fn(async () => null),
 }));
 
 vi.mock('../hooks/useOktaApi', () => ({ useOktaApi: () => api }));
@@ -175,6 +181,22 @@ describe('AuthPoliciesTab', () => {
     ).toBeInTheDocument();
   });
 
+  it('opens the simulator as its own view and returns to the list', async () => {
+    const user = userEvent.setup();
+    render(<AuthPoliciesTab targetTabId={1} oktaOrigin="https://example.okta.com" />);
+    await screen.findByText('Any two factors');
+
+    await user.click(screen.getByRole('button', { name: /Simulate/ }));
+
+    expect(screen.getByRole('heading', { name: 'Policy simulator' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Search for a user')).toBeInTheDocument();
+    expect(screen.queryByText('Any two factors')).not.toBeInTheDocument();
+    await waitFor(() => expect(api.getAllApps).toHaveBeenCalled());
+
+    await user.click(screen.getByRole('button', { name: /Auth Policies/ }));
+    expect(await screen.findByText('Any two factors')).toBeInTheDocument();
+  });
+
   it('renders no mutation affordances anywhere (read-only tab)', async () => {
     const user = userEvent.setup();
     render(<AuthPoliciesTab targetTabId={1} />);
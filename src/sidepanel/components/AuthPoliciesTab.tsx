@@ -6,17 +6,22 @@
  * cache-first load, this component owns the shell state (search text, the error
  * banner, the one-shot load on arrival) and composes {@link PoliciesListPanel}.
  *
+ * The header's Simulate action swaps in {@link PolicySimulatorPanel} — "which rule
+ * applies to this user?" — as its own view, the way the Applications tab opens
+ * its inspectors.
+ *
  * **Read-only by design.** This tab renders no activate/deactivate or any other
  * mutation affordance, and the underlying `useOktaApi` policy operations are reads
- * only. Policy names and descriptions are end-user-controlled Okta data, rendered
+ * only — the simulator included. Policy names and descriptions are end-user-controlled Okta data, rendered
  * as text through React's escaping.
  */
-import React, { useCallback, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import PageHeader from './shared/PageHeader';
 import Button from './shared/Button';
 import Input from './shared/Input';
 import AlertMessage from './shared/AlertMessage';
 import PoliciesListPanel from './policies/PoliciesListPanel';
+import PolicySimulatorPanel from './policies/PolicySimulatorPanel';
 import Icon from './overview/shared/Icon';
 import { useOktaApi } from '../hooks/useOktaApi';
 import type { OperationResult } from '../hooks/useOktaApi/types';
@@ -28,7 +33,7 @@ import { getRelativeTime } from '../../shared/utils/dateFormat';
 interface AuthPoliciesTabProps {
   /** Chrome tab id of the connected Okta tab; required to fetch policies. */
   targetTabId?: number;
-  /** Okta org origin of the connected tab (reserved for future deep links). */
+  /** Okta org origin of the connected tab; scopes the simulator's cached apps and zones. */
   oktaOrigin?: string | null;
   /**
    * Whether this is the selected top-level tab. The tab stays mounted while
@@ -36,14 +41,40 @@ interface AuthPoliciesTabProps {
    * shown rather than firing in the background. Defaults to `true`.
    */
   isActive?: boolean;
+  /**
+   * One-shot request to show one policy, from the ⌘K palette: its name becomes
+   * the list's search. Cleared through
+   * {@link AuthPoliciesTabProps.onSearchRequestConsumed}.
+   */
+  searchRequest?: string | null;
+  /** Invoked once {@link AuthPoliciesTabProps.searchRequest} has been applied. */
+  onSearchRequestConsumed?: () => void;
 }
 
 /**
  * Renders the Auth Policies tab: the app authentication policy list with search
  * and lazily expandable per-policy rules.
  */
-const AuthPoliciesTab: React.FC<AuthPoliciesTabProps> = ({ targetTabId, isActive = true }) => {
+const AuthPoliciesTab: React.FC<AuthPoliciesTabProps> = ({
+  targetTabId,
+  oktaOrigin,
+  isActive = true,
+  searchRequest,
+  onSearchRequestConsumed,
+}) => {
   const [searchQuery, setSearchQuery] = useState('');
+  const [view, setView] = useState<'list' | 'simulate'>('list');
+
+  // Applied during render, as the Apps tab does; seeded with `null` because the
+  // tab mounts on first activation, often with a request already waiting.
+  const [appliedRequest, setAppliedRequest] = useState<string | null>(null);
+  if ((searchRequest ?? null) !== appliedRequest) {
+    setAppliedRequest(searchRequest ?? null);
+    if (searchRequest) setSearchQuery(searchRequest);
+  }
+  useEffect(() => {
+    if (searchRequest) onSearchRequestConsumed?.();
+  }, [searchRequest, onSearchRequestConsumed]);
   const [error, setError] = useState<string | null>(null);
 
   // Single error channel; '' clears it. Stable so useOktaApi keeps its memoized
@@ -92,6 +123,26 @@ const AuthPoliciesTab: React.FC<AuthPoliciesTabProps> = ({ targetTabId, isActive
   );
   const handleLoad = useCallback(() => void loadPolicies(true), [loadPolicies]);
 
+  if (view === 'simulate') {
+    return (
+      <div className="tab-content active" style={{ fontFamily: 'var(--font-primary)', padding: 0 }}>
+        <PageHeader
+          title="Policy simulator"
+          subtitle="Which sign-in rule applies to a user, and why"
+          onBack={() => setView('list')}
+          backLabel="Auth Policies"
+        />
+        <div className="max-w-7xl mx-auto px-6 py-6">
+          <PolicySimulatorPanel
+            targetTabId={targetTabId}
+            oktaOrigin={oktaOrigin}
+            isActive={isActive}
+          />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="tab-content active" style={{ fontFamily: 'var(--font-primary)', padding: 0 }}>
       <PageHeader
@@ -106,15 +157,20 @@ const AuthPoliciesTab: React.FC<AuthPoliciesTabProps> = ({ targetTabId, isActive
             : undefined
         }
         actions={
-          <Button
-            variant={hasPolicies ? 'secondary' : 'primary'}
-            icon="refresh"
-            onClick={handleRefresh}
-            disabled={isLoading}
-            loading={isLoading}
-          >
-            {hasPolicies ? 'Refresh' : 'Load Policies'}
-          </Button>
+          <>
+            <Button variant="secondary" icon="shield" onClick={() => setView('simulate')}>
+              Simulate
+            </Button>
+            <Button
+              variant={hasPolicies ? 'secondary' : 'primary'}
+              icon="refresh"
+              onClick={handleRefresh}
+              disabled={isLoading}
+              loading={isLoading}
+            >
+              {hasPolicies ? 'Refresh' : 'Load Policies'}
+            </Button>
+          </>
         }
       />
 
@@ -48,6 +48,10 @@ const meta = {
       description:
         'Reload the Okta tab to re-establish the content script, then re-detect. Shown only on error.',
     },
+    sessionMinutesLeft: {
+      description:
+        "Minutes left in the admin's Okta session; a warning at 10 or fewer, a sign-in prompt at 0.",
+    },
   },
   args: {
     pageType: 'group',
@@ -61,6 +65,7 @@ const meta = {
     onTogglePin: fn(),
     onRefresh: fn(),
     onReconnect: fn(),
+    sessionMinutesLeft: 94,
   },
 } satisfies Meta<typeof ContextBar>;
 
@@ -132,3 +137,13 @@ export const ErrorState: Story = {
     canPin: false,
   },
 };
+
+/** The admin's Okta session is about to run out. */
+export const SessionEndingSoon: Story = {
+  args: { sessionMinutesLeft: 6 },
+};
+
+/** The session has run out; scheduled work is held until the admin signs in again. */
+export const SessionExpired: Story = {
+  args: { sessionMinutesLeft: 0 },
+};
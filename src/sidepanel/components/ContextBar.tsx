@@ -9,6 +9,8 @@
  * on the current entity so you can cross-reference another Okta page without losing
  * your place; when the live tab moves elsewhere while pinned, a subtle hint offers to
  * switch. The heavy per-entity identity (avatar, status) lives in the content below.
+ * The eyebrow also carries the minutes left in the admin's Okta session, turning to
+ * a warning in the last {@link SESSION_LOW_MINUTES} and to a sign-in prompt at zero.
  */
 import React from 'react';
 import { CopyableId, IconButton } from './shared';
@@ -48,8 +50,13 @@ interface ContextBarProps {
    * reconnect to.
    */
   onReconnect?: () => void;
+  /** Minutes left in the admin's Okta session; omitted or `null` hides the chip. */
+  sessionMinutesLeft?: number | null;
 }
 
+/** At or below this many minutes the session chip turns to a warning. */
+const SESSION_LOW_MINUTES = 10;
+
 // One distinct hue per detected entity kind. `warning` reads as a *category* here,
 // not a severity — it is the only remaining token visually distinct from the
 // group/user/app trio (danger is reserved for the disconnected state below).
@@ -99,6 +106,7 @@ const ContextBar: React.FC<ContextBarProps> = ({
   onTogglePin,
   onRefresh,
   onReconnect,
+  sessionMinutesLeft = null,
 }) => {
   const displayName = error
     ? 'Not connected'
@@ -120,6 +128,15 @@ const ContextBar: React.FC<ContextBarProps> = ({
 
   const wordmarkSuffix = PAGE_LABEL[pageType];
   const liveChanged = isPinned && liveContextChanged;
+  const session =
+    sessionMinutesLeft === null || error
+      ? null
+      : sessionMinutesLeft === 0
+        ? { label: 'Session expired — sign in to Okta', className: 'text-danger-text' }
+        : {
+            label: `Session ${sessionMinutesLeft} min`,
+            className: sessionMinutesLeft <= SESSION_LOW_MINUTES ? 'text-warning-text' : '',
+          };
 
   return (
     <div
@@ -142,6 +159,14 @@ const ContextBar: React.FC<ContextBarProps> = ({
               style={{ fontFamily: 'var(--font-heading)' }}
             >
               Okta Unbound{wordmarkSuffix ? ` · ${wordmarkSuffix}` : ''}
+              {session && (
+                <span
+                  className={`ml-1.5 normal-case tracking-normal ${session.className}`}
+                  title="Time left in your Okta session"
+                >
+                  · {session.label}
+                </span>
+              )}
             </div>
             <div className="flex items-center gap-2">
               <span className="text-sm font-semibold text-neutral-900 truncate">{displayName}</span>
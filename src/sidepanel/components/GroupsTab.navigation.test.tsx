@@ -216,6 +216,62 @@ describe('GroupsTab sub-navigation', () => {
     expect(screen.getByLabelText('Select Engineering').closest('div.hidden')).toBeNull();
   });
 
+  it('opens a palette group in its detail view, fetching it when the list lacks it', async () => {
+    runtimeSendMessage.mockImplementation(async (msg: any) => {
+      if (msg.endpoint === '/api/v1/groups/g9?expand=stats') {
+        return {
+          success: true,
+          data: {
+            id: 'g9',
+            type: 'OKTA_GROUP',
+            profile: { name: 'Contractors' },
+            _embedded: { stats: { usersCount: 4 } },
+          },
+        };
+      }
+      return { success: true, data: [] };
+    });
+    const onGroupOpened = vi.fn();
+
+    render(<GroupsTab targetTabId={1} openGroupId="g9" onGroupOpened={onGroupOpened} />);
+
+    expect(await screen.findByTestId('group-detail-view')).toBeInTheDocument();
+    expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent('Contractors');
+    await waitFor(() => expect(onGroupOpened).toHaveBeenCalledTimes(1));
+  });
+
+  it('reports only the newest palette open when an earlier fetch lands late', async () => {
+    const rawGroup = (id: string, name: string) => ({
+      id,
+      type: 'OKTA_GROUP',
+      profile: { name },
+      _embedded: { stats: { usersCount: 4 } },
+    });
+    let landFirst: (value: unknown) => void = () => {};
+    runtimeSendMessage.mockImplementation(async (msg: any) => {
+      if (msg.endpoint === '/api/v1/groups/g9?expand=stats') {
+        return new Promise((resolve) => (landFirst = resolve));
+      }
+      if (msg.endpoint === '/api/v1/groups/g8?expand=stats') {
+        return { success: true, data: rawGroup('g8', 'Sales') };
+      }
+      return { success: true, data: [] };
+    });
+    const onGroupOpened = vi.fn();
+
+    const { rerender } = render(
+      <GroupsTab targetTabId={1} openGroupId="g9" onGroupOpened={onGroupOpened} />,
+    );
+    rerender(<GroupsTab targetTabId={1} openGroupId="g8" onGroupOpened={onGroupOpened} />);
+    await waitFor(() => expect(onGroupOpened).toHaveBeenCalledTimes(1));
+
+    landFirst({ success: true, data: rawGroup('g9', 'Contractors') });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(onGroupOpened).toHaveBeenCalledTimes(1);
+    expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent('Sales');
+  });
+
   it('shows the group id, dates and push state in the detail view', async () => {
     const uev = userEvent.setup();
     renderCached([
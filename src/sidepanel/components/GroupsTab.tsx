@@ -6,7 +6,8 @@
  * cached search mode, filter/panel visibility) and composes the group hooks
  * (`useGroupsLoader`, `useGroupLiveSearch`, `useGroupFilters`, `useGroupSelection`,
  * `useGroupMembersCache`) with presentational subcomponents (search bar, filter
- * panel, selection bar, list panel) plus the export and comparison modals.
+ * panel, selection bar, list panel) plus the export and comparison modals. The
+ * cleanup triage's "Watch" opens the schedule modal for a background clutter watch.
  *
  * ## Sub-navigation
  *
@@ -47,6 +48,7 @@ import Button from './shared/Button';
 import EntityIdentity from './shared/EntityIdentity';
 import OpenInOktaLink from './shared/OpenInOktaLink';
 import { groupIdentity } from './groups/groupIdentity';
+import { toGroupSummary, type RawOktaGroup } from './groups/groupSummary';
 import { useOktaApi } from '../hooks/useOktaApi';
 import type { OperationResult } from '../hooks/useOktaApi/types';
 import { useGroupsLoader } from '../hooks/useGroupsLoader';
@@ -58,6 +60,7 @@ import { useGroupMerge } from '../hooks/useGroupMerge';
 import { useViewStack } from '../hooks/useViewStack';
 import { useScrollPreservation } from '../hooks/useScrollPreservation';
 import { useReducedMotion } from '../hooks/useReducedMotion';
+import { useScheduledReports } from '../hooks/useScheduledReports';
 import type { GroupSummary } from '../../shared/types';
 import GroupExportModal from './groups/GroupExportModal';
 import GroupComparisonModal from './groups/GroupComparisonModal';
@@ -72,6 +75,7 @@ import GroupSelectionBar, { type ActivePanel } from './groups/GroupSelectionBar'
 import GroupsListPanel from './groups/GroupsListPanel';
 import GroupDetailView from './groups/detail/GroupDetailView';
 import GroupMergeModal from './groups/GroupMergeModal';
+import ScheduleReportModal from './reports/ScheduleReportModal';
 import { downloadCSV, getDateForFilename } from '../../shared/utils/csvUtils';
 import { buildGroupsListCsv } from './groups/groupsListCsv';
 
@@ -86,6 +90,14 @@ interface GroupsTabProps {
   selectedGroupId?: string | null;
   /** Called once the highlighted group has been shown, so the parent can clear it. */
   onGroupSelected?: () => void;
+  /**
+   * Group id whose detail view to push, from the ⌘K palette. Unlike
+   * `selectedGroupId` this opens the group rather than pointing at its row, and
+   * fetches it when the list has not loaded it.
+   */
+  openGroupId?: string | null;
+  /** Called once `openGroupId` has been opened (or failed to), so the parent can clear it. */
+  onGroupOpened?: () => void;
   /**
    * Opens the Export tab pre-scoped to a group's members — the detail view's
    * page-level "Export members" action (ADR-0030). Optional: `App.tsx` already
@@ -119,6 +131,8 @@ const GroupsTab: React.FC<GroupsTabProps> = ({
   onNavigateToRule,
   selectedGroupId,
   onGroupSelected,
+  openGroupId,
+  onGroupOpened,
   isActive = true,
   onExportGroup,
 }) => {
@@ -138,6 +152,7 @@ const GroupsTab: React.FC<GroupsTabProps> = ({
   const [exportGroups, setExportGroups] = useState<GroupSummary[]>([]);
   const [showComparisonModal, setShowComparisonModal] = useState(false);
   const [showMergeModal, setShowMergeModal] = useState(false);
+  const [showWatchModal, setShowWatchModal] = useState(false);
   const [activePanel, setActivePanel] = useState<ActivePanel>('none');
 
   // Must be stable: useOktaApi memoizes its operations on this callback's identity.
@@ -146,6 +161,7 @@ const GroupsTab: React.FC<GroupsTabProps> = ({
   }, []);
 
   const api = useOktaApi({ targetTabId, onResult: handleResult });
+  const reports = useScheduledReports(oktaOrigin);
 
   const liveSearch = useGroupLiveSearch({ targetTabId, searchMode, setError, enabled: isActive });
   const loader = useGroupsLoader({
@@ -275,6 +291,51 @@ const GroupsTab: React.FC<GroupsTabProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedGroupId, groups, loading]);
 
+  // Open from the ⌘K palette: push the group's detail view over whatever is on
+  // the stack. A palette hit is usually not in the loaded list (live search, or a
+  // list never loaded), so it is fetched with its stats rather than waited for.
+  const openHandledRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!openGroupId) {
+      openHandledRef.current = null;
+      return;
+    }
+    if (openHandledRef.current === openGroupId) return;
+    openHandledRef.current = openGroupId;
+
+    const open = (group: GroupSummary) => {
+      nav.reset();
+      handleOpenDetail(group);
+    };
+    const loaded = groups.find((g) => g.id === openGroupId);
+    if (loaded) {
+      open(loaded);
+      onGroupOpened?.();
+      return;
+    }
+    void api
+      .makeApiRequest(`/api/v1/groups/${openGroupId}?expand=stats`)
+      .then((response) => {
+        // A newer request superseded this one while it was in flight.
+        if (openHandledRef.current !== openGroupId) return;
+        if (response.success && response.data) {
+          open(toGroupSummary(response.data as RawOktaGroup));
+        } else {
+          setError(response.error || 'Failed to open the group');
+        }
+      })
+      .catch(() => {
+        if (openHandledRef.current === openGroupId) setError('Failed to open the group');
+      })
+      .finally(() => {
+        // A superseded request leaves the newer one to report that it opened.
+        if (openHandledRef.current === openGroupId) onGroupOpened?.();
+      });
+    // Only a new id re-runs this: `groups` is read once, as a shortcut, and the
+    // stack/api handles are stable.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [openGroupId]);
+
   const handleExportSelection = useCallback(() => {
     if (selectedGroupIds.size === 0) {
       setError('Please select at least one group');
@@ -463,6 +524,7 @@ const GroupsTab: React.FC<GroupsTabProps> = ({
                 onSelectGroups={selection.replaceSelection}
                 onAnalyzeSource={handleOpenDetail}
                 onClose={() => setActivePanel('none')}
+                onWatch={oktaOrigin ? () => setShowWatchModal(true) : undefined}
               />
             )}
 
@@ -513,6 +575,7 @@ const GroupsTab: React.FC<GroupsTabProps> = ({
             <GroupDetailView
               group={detailGroup}
               targetTabId={targetTabId}
+              oktaOrigin={oktaOrigin}
               onNavigateToRule={onNavigateToRule}
               autoAnalyze={autoAnalyzeGroupId === detailGroup.id}
               isActive={isActive}
@@ -554,6 +617,17 @@ const GroupsTab: React.FC<GroupsTabProps> = ({
         onExecute={merge.execute}
         onClose={handleCloseMerge}
       />
+
+      {/* Scheduled clutter watch */}
+      {showWatchModal && (
+        <ScheduleReportModal
+          isOpen
+          onClose={() => setShowWatchModal(false)}
+          job={{ kind: 'clutter', category: 'empty' }}
+          defaultName="Groups that became empty"
+          onSave={async (input) => (await reports.save(input)) !== null}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,119 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, fn, userEvent, within } from 'storybook/test';
+import InterruptedOperationsBanner from './InterruptedOperationsBanner';
+import { useOktaApi, makeUseOktaApiValue } from '../../../.storybook/mocks/useOktaApi.mock';
+import type { InterruptedOperation, JournalItem } from '../../shared/storage/operationJournal';
+
+/** A removal the panel was closed in the middle of. Fake placeholders only. */
+const interrupted: InterruptedOperation = {
+  id: 'op-1',
+  kind: 'remove-members',
+  title: 'Remove deprovisioned users',
+  groupId: '00gFAKE1',
+  groupName: 'Engineering',
+  total: 5000,
+  createdAt: Date.parse('2026-10-19T09:00:00.000Z'),
+  updatedAt: Date.parse('2026-10-19T09:14:00.000Z'),
+  sessionId: null,
+  counts: { pending: 2792, done: 2201, failed: 2, unknown: 5, restored: 0 },
+};
+
+/** The items needing attention: unknown and refused. */
+const attentionItems: JournalItem[] = [
+  { index: 2201, key: '00uFAKE1', label: 'ada.lovelace@example.com', state: 'unknown' },
+  { index: 2202, key: '00uFAKE2', label: 'alan.turing@example.com', state: 'unknown' },
+  { index: 2203, key: '00uFAKE3', label: 'grace.hopper@example.com', state: 'unknown' },
+  { index: 2204, key: '00uFAKE4', label: 'edsger.dijkstra@example.com', state: 'unknown' },
+  { index: 2205, key: '00uFAKE5', label: 'barbara.liskov@example.com', state: 'unknown' },
+  {
+    index: 14,
+    key: '00uFAKE6',
+    label: 'ken.thompson@example.com',
+    state: 'failed',
+    error: 'You do not have permission to perform the requested action',
+  },
+  {
+    index: 15,
+    key: '00uFAKE7',
+    label: 'dennis.ritchie@example.com',
+    state: 'failed',
+    error: 'You do not have permission to perform the requested action',
+  },
+];
+
+/**
+ * Offers recovery for journaled bulk removals a closed panel left unfinished.
+ * Renders nothing when the journal holds none.
+ */
+const meta = {
+  title: 'Sidepanel/InterruptedOperationsBanner',
+  component: InterruptedOperationsBanner,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Shown above the tabs when the operation journal holds a bulk removal that no open ' +
+          'panel is running. Counts are split four ways — done, unknown, not started, refused — ' +
+          'and **unknown** (sent, never answered) is never folded into the others. Resume ' +
+          're-sends the pending and unknown removals; Roll back re-adds done and unknown users ' +
+          'as direct members; Abandon discards the record.\n\n' +
+          '**Related internals:** [Storage & cache](?path=/docs/internals-storage-cache--docs), ' +
+          '[Scheduler & messaging](?path=/docs/internals-scheduler-messaging--docs)',
+      },
+    },
+  },
+  argTypes: {
+    targetTabId: {
+      description: 'Connected Okta tab; Resume and Roll back are disabled without one.',
+    },
+  },
+  args: {
+    targetTabId: 1,
+  },
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({
+        listInterruptedOperations: fn(async () => [interrupted]),
+        getInterruptedItems: fn(async () => attentionItems),
+      }),
+    );
+  },
+} satisfies Meta<typeof InterruptedOperationsBanner>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** A 5,000-user removal interrupted part-way, with five unknown outcomes. */
+export const Default: Story = {};
+
+/** The users needing attention, listed by name. */
+export const ItemsExpanded: Story = {
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(await canvas.findByRole('button', { name: /users needing attention/i }));
+    await expect(await canvas.findByText('ada.lovelace@example.com')).toBeInTheDocument();
+  },
+};
+
+/** No Okta tab connected: the record can be abandoned, but nothing can be sent. */
+export const Disconnected: Story = {
+  args: { targetTabId: null },
+};
+
+/** The roll-back confirmation, which says re-added users become direct members. */
+export const ConfirmRollBack: Story = {
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(await canvas.findByRole('button', { name: 'Roll back' }));
+    const dialog = within(canvasElement.ownerDocument.body);
+    await expect(await dialog.findByText(/direct member/)).toBeInTheDocument();
+  },
+};
+
+/** Nothing interrupted: the banner renders nothing. */
+export const NoneInterrupted: Story = {
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(makeUseOktaApiValue());
+  },
+};
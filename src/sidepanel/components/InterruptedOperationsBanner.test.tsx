@@ -0,0 +1,160 @@
+/**
+ * Behavioral tests for the interrupted-operation recovery banner.
+ *
+ * Drives the real banner and its `useInterruptedOperations` hook against a stubbed
+ * `useOktaApi`, pinning what matters for recovery:
+ *   - nothing renders when the journal holds no interrupted operation,
+ *   - unknown outcomes are counted and listed by name, never folded into done,
+ *   - Resume runs straight away and reports the outcome,
+ *   - Roll back and Abandon only run after their confirmation, and
+ *   - nothing can be sent without a connected tab.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { InterruptedOperation, JournalItem } from '../../shared/storage/operationJournal';
+
+const interrupted: InterruptedOperation = {
+  id: 'op-1',
+  kind: 'remove-members',
+  title: 'Remove deprovisioned users',
+  groupId: '00gFAKE1',
+  groupName: 'Engineering',
+  total: 10,
+  createdAt: 0,
+  updatedAt: 0,
+  sessionId: null,
+  counts: { pending: 5, done: 3, failed: 0, unknown: 2, restored: 0 },
+};
+
+const items: JournalItem[] = [
+  { index: 0, key: '00uFAKE0', label: 'done@example.com', state: 'done' },
+  { index: 1, key: '00uFAKE1', label: 'maybe1@example.com', state: 'unknown' },
+  { index: 2, key: '00uFAKE2', label: 'maybe2@example.com', state: 'unknown' },
+];
+
+const cleanOutcome = {
+  missing: false,
+  succeeded: 7,
+  failed: 0,
+  unknown: 0,
+  remaining: 0,
+  cancelled: false,
+};
+
+// One stable stub object, like the memoized real facade.
+const api = vi.hoisted(() => ({
+  listInterruptedOperations: vi.fn(),
+  getInterruptedItems: vi.fn(),
+  resumeInterruptedOperation: vi.fn(),
+  rollBackInterruptedOperation: vi.fn(),
+  abandonInterruptedOperation: vi.fn(),
+}));
+
+vi.mock('../hooks/useOktaApi', () => ({ useOktaApi: () => api }));
+
+import InterruptedOperationsBanner from './InterruptedOperationsBanner';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  api.listInterruptedOperations.mockResolvedValue([interrupted]);
+  api.getInterruptedItems.mockResolvedValue(items);
+  api.resumeInterruptedOperation.mockResolvedValue(cleanOutcome);
+  api.rollBackInterruptedOperation.mockResolvedValue({ ...cleanOutcome, succeeded: 5 });
+  api.abandonInterruptedOperation.mockResolvedValue(undefined);
+});
+
+describe('InterruptedOperationsBanner', () => {
+  it('renders nothing when no operation was interrupted', async () => {
+    api.listInterruptedOperations.mockResolvedValue([]);
+    const { container } = render(<InterruptedOperationsBanner targetTabId={1} />);
+
+    await waitFor(() => expect(api.listInterruptedOperations).toHaveBeenCalled());
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('counts unknown outcomes separately and lists them by name', async () => {
+    const user = userEvent.setup();
+    render(<InterruptedOperationsBanner targetTabId={1} />);
+
+    expect(
+      await screen.findByText(/Remove deprovisioned users — Engineering was interrupted/),
+    ).toBeInTheDocument();
+    expect(screen.getByText(/3 done · 2 unknown · 5 not started/)).toBeInTheDocument();
+    expect(screen.getByText(/may have applied/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /users needing attention \(2\)/ }));
+
+    expect(await screen.findByText('maybe1@example.com')).toBeInTheDocument();
+    expect(screen.getByText('maybe2@example.com')).toBeInTheDocument();
+    expect(screen.queryByText('done@example.com')).not.toBeInTheDocument();
+    expect(api.getInterruptedItems).toHaveBeenCalledWith('op-1');
+  });
+
+  it('resumes straight away and reports the outcome', async () => {
+    const user = userEvent.setup();
+    render(<InterruptedOperationsBanner targetTabId={1} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Resume' }));
+
+    expect(api.resumeInterruptedOperation).toHaveBeenCalledWith(interrupted);
+    expect(await screen.findByText('Removed 7 users.')).toBeInTheDocument();
+  });
+
+  it('rolls back only after confirming the direct-membership warning', async () => {
+    const user = userEvent.setup();
+    render(<InterruptedOperationsBanner targetTabId={1} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Roll back' }));
+    expect(screen.getByText(/Re-add 5 users to/)).toBeInTheDocument();
+    expect(screen.getByText(/direct member/)).toBeInTheDocument();
+    expect(api.rollBackInterruptedOperation).not.toHaveBeenCalled();
+
+    const buttons = screen.getAllByRole('button', { name: 'Roll back' });
+    await user.click(buttons[buttons.length - 1]);
+
+    expect(api.rollBackInterruptedOperation).toHaveBeenCalledWith(interrupted);
+    expect(await screen.findByText('Re-added 5 users.')).toBeInTheDocument();
+  });
+
+  it('abandons only after confirming', async () => {
+    const user = userEvent.setup();
+    render(<InterruptedOperationsBanner targetTabId={1} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Abandon' }));
+    expect(api.abandonInterruptedOperation).not.toHaveBeenCalled();
+
+    const buttons = screen.getAllByRole('button', { name: 'Abandon' });
+    await user.click(buttons[buttons.length - 1]);
+
+    expect(api.abandonInterruptedOperation).toHaveBeenCalledWith('op-1');
+  });
+
+  it('warns when a pass leaves users unresolved', async () => {
+    api.resumeInterruptedOperation.mockResolvedValue({
+      ...cleanOutcome,
+      succeeded: 6,
+      unknown: 1,
+      remaining: 1,
+    });
+    const user = userEvent.setup();
+    render(<InterruptedOperationsBanner targetTabId={1} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Resume' }));
+
+    expect(
+      await screen.findByText(/1 user could not be confirmed.*1 user still needs attention/),
+    ).toBeInTheDocument();
+  });
+
+  it('cannot send anything without a connected tab', async () => {
+    render(<InterruptedOperationsBanner targetTabId={null} />);
+
+    expect(await screen.findByRole('button', { name: 'Resume' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Roll back' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Abandon' })).toBeEnabled();
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * @module sidepanel/components/InterruptedOperationsBanner
+ * @description Offers recovery for journaled bulk operations a closed panel left
+ * unfinished.
+ *
+ * Renders nothing until the operation journal reports an interrupted operation.
+ * Each one shows how far it got — done, refused, not started, and **unknown**:
+ * items whose request went out with no answer recorded, which may have applied.
+ * Unknown is never folded into done or failed; the admin can list exactly which
+ * users it covers before choosing. Roll back and Abandon are confirm-gated; roll
+ * back re-adds users as direct members, which the confirmation says plainly.
+ * State and I/O live in `useInterruptedOperations`; this is a view.
+ */
+import React, { useState } from 'react';
+import AlertMessage from './shared/AlertMessage';
+import Button from './shared/Button';
+import Modal from './shared/Modal';
+import { useInterruptedOperations } from '../hooks/useInterruptedOperations';
+import type {
+  InterruptedOperation,
+  JournalItem,
+  JournalItemState,
+} from '../../shared/storage/operationJournal';
+
+/** Props for {@link InterruptedOperationsBanner}. */
+interface InterruptedOperationsBannerProps {
+  /** Tab whose scheduler sends recovery requests; Resume and Roll back need one. */
+  targetTabId: number | null;
+}
+
+/** The count labels, in display order. */
+const COUNT_LABEL: Record<JournalItemState, string> = {
+  done: 'done',
+  unknown: 'unknown',
+  pending: 'not started',
+  failed: 'refused by Okta',
+  restored: 're-added',
+};
+
+/** The states a user needs to see listed by name. */
+const LISTED_STATES: JournalItemState[] = ['unknown', 'failed'];
+
+type PendingConfirm = { kind: 'rollBack' | 'abandon'; operation: InterruptedOperation };
+
+/** One listed item: its label, and the error Okta or the transport gave. */
+const ItemRow: React.FC<{ item: JournalItem }> = ({ item }) => (
+  <li className="text-xs text-neutral-700">
+    <span className="font-medium">{item.label}</span>{' '}
+    <span className="text-neutral-500">
+      — {item.state === 'unknown' ? 'no answer recorded' : (item.error ?? 'refused')}
+    </span>
+  </li>
+);
+
+/** One interrupted operation with its counts, item list and actions. */
+const OperationCard: React.FC<{
+  operation: InterruptedOperation;
+  items: JournalItem[] | undefined;
+  busy: boolean;
+  connected: boolean;
+  onShowItems: () => void;
+  onResume: () => void;
+  onRollBack: () => void;
+  onAbandon: () => void;
+}> = ({ operation, items, busy, connected, onShowItems, onResume, onRollBack, onAbandon }) => {
+  const [showItems, setShowItems] = useState(false);
+  const { counts } = operation;
+  const listed = counts.unknown + counts.failed;
+  const offline = connected ? undefined : 'Connect to an Okta tab to continue';
+
+  const toggleItems = () => {
+    if (!showItems) onShowItems();
+    setShowItems((prev) => !prev);
+  };
+
+  return (
+    <div className="rounded-md border border-warning-light bg-warning-light p-3 space-y-2">
+      <div>
+        <p className="text-sm font-semibold text-warning-text">
+          {operation.title} — {operation.groupName} was interrupted
+        </p>
+        <p className="text-xs text-neutral-600">
+          Started {new Date(operation.createdAt).toLocaleString()} ·{' '}
+          {(Object.keys(COUNT_LABEL) as JournalItemState[])
+            .filter((state) => counts[state] > 0)
+            .map((state) => `${counts[state]} ${COUNT_LABEL[state]}`)
+            .join(' · ')}
+        </p>
+      </div>
+
+      {counts.unknown > 0 && (
+        <p className="text-xs text-warning-text">
+          {counts.unknown} {counts.unknown === 1 ? 'removal was' : 'removals were'} sent but the
+          panel closed before Okta answered. {counts.unknown === 1 ? 'It' : 'They'} may have
+          applied.
+        </p>
+      )}
+
+      {listed > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={toggleItems}
+          expanded={showItems}
+          controls={`journal-items-${operation.id}`}
+        >
+          {showItems ? 'Hide' : 'Show'} users needing attention ({listed})
+        </Button>
+      )}
+      {showItems && (
+        <ul id={`journal-items-${operation.id}`} className="max-h-40 overflow-y-auto space-y-0.5">
+          {items === undefined ? (
+            <li className="text-xs text-neutral-500">Loading…</li>
+          ) : (
+            items
+              .filter((item) => LISTED_STATES.includes(item.state))
+              .map((item) => <ItemRow key={item.index} item={item} />)
+          )}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={onResume}
+          loading={busy}
+          disabled={!connected || counts.pending + counts.unknown === 0}
+          title={offline ?? 'Remove the users not yet removed, and re-send the unknown ones'}
+        >
+          Resume
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={onRollBack}
+          disabled={busy || !connected || counts.done + counts.unknown === 0}
+          title={offline ?? 'Re-add the users already removed'}
+        >
+          Roll back
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onAbandon} disabled={busy}>
+          Abandon
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/** Renders every interrupted operation, or nothing when there are none. */
+const InterruptedOperationsBanner: React.FC<InterruptedOperationsBannerProps> = ({
+  targetTabId,
+}) => {
+  const recovery = useInterruptedOperations({ targetTabId });
+  const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm | null>(null);
+
+  if (recovery.operations.length === 0 && !recovery.notice) return null;
+
+  const confirm = () => {
+    if (!pendingConfirm) return;
+    const { kind, operation } = pendingConfirm;
+    setPendingConfirm(null);
+    void (kind === 'rollBack' ? recovery.rollBack(operation) : recovery.abandon(operation));
+  };
+
+  const pendingOperation = pendingConfirm?.operation;
+  const reAddCount = pendingOperation
+    ? pendingOperation.counts.done + pendingOperation.counts.unknown
+    : 0;
+
+  return (
+    <section aria-label="Interrupted operations" className="mx-3 mt-3 space-y-2">
+      {recovery.notice && (
+        <AlertMessage message={recovery.notice} onDismiss={recovery.dismissNotice} />
+      )}
+
+      {recovery.operations.map((operation) => (
+        <OperationCard
+          key={operation.id}
+          operation={operation}
+          items={recovery.itemsById[operation.id]}
+          busy={recovery.busyId === operation.id}
+          connected={targetTabId !== null}
+          onShowItems={() => void recovery.loadItems(operation.id)}
+          onResume={() => void recovery.resume(operation)}
+          onRollBack={() => setPendingConfirm({ kind: 'rollBack', operation })}
+          onAbandon={() => setPendingConfirm({ kind: 'abandon', operation })}
+        />
+      ))}
+
+      <Modal
+        isOpen={pendingConfirm !== null}
+        onClose={() => setPendingConfirm(null)}
+        title={pendingConfirm?.kind === 'rollBack' ? 'Roll back removal' : 'Abandon operation'}
+        size="sm"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setPendingConfirm(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingConfirm?.kind === 'rollBack' ? 'primary' : 'danger'}
+              onClick={confirm}
+            >
+              {pendingConfirm?.kind === 'rollBack' ? 'Roll back' : 'Abandon'}
+            </Button>
+          </>
+        }
+      >
+        {pendingConfirm?.kind === 'rollBack' ? (
+          <div className="space-y-2 text-sm text-neutral-700">
+            <p>
+              Re-add {reAddCount} {reAddCount === 1 ? 'user' : 'users'} to{' '}
+              <strong>{pendingOperation?.groupName}</strong>, including any whose removal is
+              unknown.
+            </p>
+            <p>
+              Each is re-added as a direct member. A user who was in the group through a group rule
+              comes back as a direct member, and a rule change will no longer remove them.
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-neutral-700">
+            Discard the record of this operation. Nothing is sent to Okta; users already removed
+            stay removed, and users with an unknown outcome are not checked.
+          </p>
+        )}
+      </Modal>
+    </section>
+  );
+};
+
+export default InterruptedOperationsBanner;
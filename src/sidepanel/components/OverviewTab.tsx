@@ -7,7 +7,12 @@
  * {@link ContextBar} names. Renders {@link GroupOverview}, {@link UserOverview},
  * {@link AppOverview} or {@link AuthPolicyOverview} for a detected entity page, a
  * retry/quick-start error state when disconnected, or a guidance
- * {@link EmptyState} otherwise.
+ * {@link EmptyState} otherwise. Without an entity in view, the org's
+ * signing-certificate expiry ({@link CertificateExpiryPanel}) sits below it.
+ *
+ * The watchlist's Changes feed ({@link WatchlistPanel}) reads only local storage:
+ * it heads the no-entity view, and follows an entity's overview while any change
+ * is unseen, so the action badge always leads somewhere.
  */
 import React from 'react';
 import type { GroupInfo, UserInfo, AppInfo, PolicyInfo } from '../../shared/types';
@@ -15,11 +20,15 @@ import type { PageType } from '../hooks/useOktaPageContext';
 import type { ConnectionStatus } from '../hooks/useOktaTabContext';
 import AlertMessage from './shared/AlertMessage';
 import EmptyState from './shared/EmptyState';
+import DetailSection from './shared/DetailSection';
 import LoadingSpinner from './shared/LoadingSpinner';
 import GroupOverview from './overview/GroupOverview';
 import UserOverview from './overview/UserOverview';
 import AppOverview from './overview/AppOverview';
 import AuthPolicyOverview from './overview/AuthPolicyOverview';
+import CertificateExpiryPanel from './apps/CertificateExpiryPanel';
+import WatchlistPanel from './watchlist/WatchlistPanel';
+import { useWatchlist } from '../hooks/useWatchlist';
 
 interface OverviewTabProps {
   /** Navigates to another tab, optionally deep-linking to a specific rule id. */
@@ -83,6 +92,8 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
   onExportApp,
   onViewGroupRules,
 }) => {
+  const watchlist = useWatchlist();
+
   if (isLoading) {
     return (
       <div className="tab-content active">
@@ -113,6 +124,30 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
     );
   }
 
+  const changesSection = (
+    <DetailSection
+      title="Changes"
+      description="What changed on the groups, rules and users you watch."
+    >
+      <WatchlistPanel
+        items={watchlist.items}
+        changes={watchlist.changes}
+        unseenCount={watchlist.unseenCount}
+        notify={watchlist.notify}
+        onNotifyChange={(notify) => void watchlist.setNotify(notify)}
+        onRemove={(key) => void watchlist.remove(key)}
+        onMarkAllSeen={() => void watchlist.markAllSeen()}
+        onCheckNow={() => void watchlist.checkNow()}
+        isChecking={watchlist.isChecking}
+      />
+    </DetailSection>
+  );
+  const isEntityView =
+    (pageType === 'group' && !!groupInfo && !!targetTabId) ||
+    (pageType === 'user' && !!userInfo && !!targetTabId) ||
+    (pageType === 'app' && !!appInfo && !!targetTabId) ||
+    (pageType === 'policy' && !!policyInfo && !!targetTabId);
+
   return (
     <div className="tab-content active" style={{ fontFamily: 'var(--font-primary)', padding: 0 }}>
       <div className="w-full max-w-7xl mx-auto px-6 py-6">
@@ -159,16 +194,35 @@ const OverviewTab: React.FC<OverviewTabProps> = ({
           pageType === 'admin' ||
           (pageType === 'app' && (!appInfo || !targetTabId)) ||
           (pageType === 'policy' && (!policyInfo || !targetTabId))) && (
-          <EmptyState
-            icon="search"
-            title="Waiting for Context"
-            description="Navigate to a group or user page in Okta to see contextual insights and quick actions."
-            actions={[
-              { label: 'Browse Groups', onClick: () => onTabChange('groups'), variant: 'primary' },
-              { label: 'Search Users', onClick: () => onTabChange('users'), variant: 'secondary' },
-            ]}
-          />
+          <div className="space-y-6">
+            <EmptyState
+              icon="search"
+              title="Waiting for Context"
+              description="Navigate to a group or user page in Okta to see contextual insights and quick actions."
+              actions={[
+                {
+                  label: 'Browse Groups',
+                  onClick: () => onTabChange('groups'),
+                  variant: 'primary',
+                },
+                {
+                  label: 'Search Users',
+                  onClick: () => onTabChange('users'),
+                  variant: 'secondary',
+                },
+              ]}
+            />
+            {changesSection}
+            <DetailSection
+              title="Signing certificates"
+              description="IdP and SAML app certificates by days to expiry, in 30/60/90-day windows."
+            >
+              <CertificateExpiryPanel targetTabId={targetTabId} />
+            </DetailSection>
+          </div>
         )}
+
+        {isEntityView && watchlist.unseenCount > 0 && <div className="mt-6">{changesSection}</div>}
       </div>
     </div>
   );
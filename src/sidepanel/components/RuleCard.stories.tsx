@@ -53,6 +53,9 @@ const meta = {
     onAddTargetGroup: {
       description: 'Called with the rule to start the "add target group" consolidation (A4).',
     },
+    onViewLog: {
+      description: 'Called with the rule to open its lifecycle events in the Logs tab.',
+    },
     oktaOrigin: {
       description: 'Okta org origin used to build the "View in Okta" rules-page link.',
     },
@@ -66,6 +69,7 @@ const meta = {
     onDeactivate: fn(),
     onPreviewImpact: fn(),
     onAddTargetGroup: fn(),
+    onViewLog: fn(),
     oktaOrigin: 'https://dev-12345.okta.com',
     isHighlighted: false,
   },
@@ -116,12 +120,13 @@ export const Inactive: Story = {
   },
 };
 
-/** No `oktaOrigin`, `onPreviewImpact`, or `onAddTargetGroup` — the optional action buttons are hidden. */
+/** No `oktaOrigin`, `onPreviewImpact`, `onAddTargetGroup` or `onViewLog` — the optional action buttons are hidden. */
 export const MinimalActions: Story = {
   args: {
     isHighlighted: true,
     oktaOrigin: null,
     onPreviewImpact: undefined,
     onAddTargetGroup: undefined,
+    onViewLog: undefined,
   },
 };
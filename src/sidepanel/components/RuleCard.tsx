@@ -5,7 +5,7 @@
  * Collapsed view shows the rule name, status dot, current-group/conflict badges,
  * and condition; the expanded view adds the condition expression (with group-name
  * badges), referenced user attributes, target groups, conflict details, metadata,
- * and activate/deactivate plus "View in Okta" actions. Memoised for list rendering.
+ * activate/deactivate, Watch and "View in Okta" actions. Memoised for list rendering.
  *
  * The card is {@link sidepanel/components/shared/ListRow} (ADR-0029): the header
  * is `children`, the expandable detail is the `body` slot, and the arrival flash
@@ -17,6 +17,7 @@ import React, { useState, useCallback, useEffect, useId, useRef, memo } from 're
 import type { FormattedRule } from '../../shared/types';
 import { timeAgo } from '../../shared/ruleUtils';
 import { Button, IconButton, ListRow } from './shared';
+import WatchButton from './watchlist/WatchButton';
 
 /**
  * Upper bound on the arrival-flash hold, in milliseconds. Mirrors `--dur-tell`
@@ -43,6 +44,12 @@ interface RuleCardProps {
   onPreviewImpact?: (rule: FormattedRule) => void;
   /** Called with the rule to start the "add target group" consolidation (A4). */
   onAddTargetGroup?: (rule: FormattedRule) => void;
+  /** Called with the rule to open it in the authoring workbench. */
+  onEdit?: (rule: FormattedRule) => void;
+  /** Called with the rule when the user asks to delete it (confirmed upstream). */
+  onDelete?: (rule: FormattedRule) => void;
+  /** Called with the rule to open its lifecycle events in the Logs tab. */
+  onViewLog?: (rule: FormattedRule) => void;
   /** Okta org origin used to build the "View in Okta" rules-page link. */
   oktaOrigin?: string | null;
   /** When true, the card auto-expands and flashes on arrival (deep-link target). */
@@ -121,6 +128,9 @@ const RuleCard: React.FC<RuleCardProps> = memo(
     onDeactivate,
     onPreviewImpact,
     onAddTargetGroup,
+    onEdit,
+    onDelete,
+    onViewLog,
     oktaOrigin,
     isHighlighted = false,
   }) => {
@@ -178,6 +188,18 @@ const RuleCard: React.FC<RuleCardProps> = memo(
       onAddTargetGroup?.(rule);
     }, [onAddTargetGroup, rule]);
 
+    const handleEdit = useCallback(() => {
+      onEdit?.(rule);
+    }, [onEdit, rule]);
+
+    const handleDelete = useCallback(() => {
+      onDelete?.(rule);
+    }, [onDelete, rule]);
+
+    const handleViewLog = useCallback(() => {
+      onViewLog?.(rule);
+    }, [onViewLog, rule]);
+
     const hasConflicts = rule.conflicts && rule.conflicts.length > 0;
 
     /*
@@ -333,6 +355,22 @@ const RuleCard: React.FC<RuleCardProps> = memo(
                   Add Target Group
                 </Button>
               )}
+              {onEdit && (
+                <Button variant="secondary" size="sm" onClick={handleEdit}>
+                  Edit Rule
+                </Button>
+              )}
+              {onDelete && (
+                <Button variant="danger" size="sm" icon="trash" onClick={handleDelete}>
+                  Delete Rule
+                </Button>
+              )}
+              {onViewLog && (
+                <Button variant="secondary" size="sm" icon="list" onClick={handleViewLog}>
+                  System Log
+                </Button>
+              )}
+              <WatchButton kind="rule" id={rule.id} name={rule.name} oktaOrigin={oktaOrigin} />
               {oktaOrigin && (
                 <a
                   href={`${oktaOrigin}/admin/groups#rules`}
@@ -0,0 +1,198 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import RuleEditorModal from './RuleEditorModal';
+import type { UseRuleEditorReturn } from '../hooks/useRuleEditor';
+import type { UseRuleSimulationReturn } from '../hooks/useRuleSimulation';
+import type { OktaGroupRule, OktaUser } from '../../shared/types';
+
+/** The sample user the draft is explained against. */
+const mockUser: OktaUser = {
+  id: 'user1',
+  status: 'ACTIVE',
+  profile: {
+    login: 'ada.lovelace@example.com',
+    email: 'ada.lovelace@example.com',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    department: 'Engineering',
+    title: 'Principal Engineer',
+  },
+};
+
+/** The rule being edited in the edit-mode stories. */
+const mockOriginal: OktaGroupRule = {
+  id: 'rule1',
+  name: 'Engineering - US',
+  status: 'ACTIVE',
+  type: 'group_rule',
+  created: '2025-01-01T00:00:00.000Z',
+  lastUpdated: '2025-01-02T00:00:00.000Z',
+  conditions: {
+    expression: { value: 'user.department == "Engineering"', type: 'urn:okta:expression:1.0' },
+  },
+  actions: { assignUserToGroups: { groupIds: ['grp1'] } },
+};
+
+/** A complete, savable workbench state; stories override what they exercise. */
+function makeEditor(overrides: Partial<UseRuleEditorReturn> = {}): UseRuleEditorReturn {
+  return {
+    phase: 'editing',
+    original: null,
+    draft: {
+      name: 'Engineering auto-assign',
+      expression: 'user.department == "Engineering" && user.title != "Intern"',
+      groupIds: ['grp1'],
+    },
+    targetGroups: [{ id: 'grp1', name: 'Engineering' }],
+    issues: [],
+    activateOnSave: true,
+    editsInPlace: false,
+    sampleUser: null,
+    sampleUserLoading: false,
+    sampleStatus: 'idle',
+    estimate: null,
+    result: null,
+    error: null,
+    openNew: fn(),
+    openEdit: fn(),
+    setName: fn(),
+    setExpression: fn(),
+    addTargetGroup: fn(),
+    removeTargetGroup: fn(),
+    setActivateOnSave: fn(),
+    chooseSampleUser: fn(async () => {}),
+    clearSampleUser: fn(),
+    loadPopulationSample: fn(async () => {}),
+    save: fn(async () => {}),
+    close: fn(),
+    ...overrides,
+  };
+}
+
+/**
+ * The rule authoring workbench — write or edit a group rule with live parse,
+ * clause-by-clause explanation against a sample user, and a population estimate.
+ */
+const meta = {
+  title: 'Rules/RuleEditorModal',
+  component: RuleEditorModal,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'The rule authoring workbench.\n\n' +
+          'The condition is parsed on every keystroke, explained clause by clause against a sample user, and tallied across one page of org users before anything is written. Editing saves a replacement rule and retires the original; every save is audited and recorded in History.\n\n' +
+          '**Related internals:** [Hooks](?path=/docs/internals-hooks--docs)',
+      },
+    },
+  },
+  argTypes: {
+    editor: { description: 'Workbench state and controls from `useRuleEditor`.' },
+    simulation: { description: 'Org-wide what-if from `useRuleSimulation`; hidden when omitted.' },
+    searchGroups: { description: 'Search groups by name (target-group picker).' },
+    searchUsers: { description: 'Search users (sample-user picker).' },
+  },
+  args: {
+    editor: makeEditor(),
+    searchGroups: fn(async () => [{ id: 'grp2', name: 'Engineering Managers' }]),
+    searchUsers: fn(async () => [
+      { id: 'user1', login: 'ada.lovelace@example.com', firstName: 'Ada', lastName: 'Lovelace' },
+    ]),
+  },
+} satisfies Meta<typeof RuleEditorModal>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** A complete new-rule draft, ready to create. */
+export const Default: Story = {};
+
+/** A draft that does not parse and has no target groups yet. */
+export const Invalid: Story = {
+  args: {
+    editor: makeEditor({
+      draft: { name: 'Broken', expression: 'user.department ==', groupIds: [] },
+      targetGroups: [],
+      issues: [
+        { code: 'expression-invalid', reasonCode: 'parse-error' },
+        { code: 'no-target-groups' },
+      ],
+    }),
+  },
+};
+
+/** The draft explained against a sample user, with a population estimate loaded. */
+export const WithSampleAndEstimate: Story = {
+  args: {
+    editor: makeEditor({
+      sampleUser: { user: mockUser },
+      sampleStatus: 'ready',
+      estimate: { sampled: 200, matched: 37, noMatch: 160, unevaluable: 3 },
+    }),
+  },
+};
+
+/** Editing an existing rule: saving creates a replacement and retires the original. */
+export const Editing: Story = {
+  args: { editor: makeEditor({ original: mockOriginal }) },
+};
+
+/** A finished org-wide simulation of the draft, compared against the original. */
+const mockSimulation: UseRuleSimulationReturn = {
+  status: 'done',
+  loaded: 4210,
+  result: {
+    rows: [],
+    summary: {
+      total: 4210,
+      matched: 598,
+      noMatch: 3612,
+      unevaluable: 0,
+      starts: 0,
+      stops: 14,
+      unknownChange: 0,
+      unevaluableReasons: [],
+    },
+  },
+  simulatedExpression: 'user.department == "Engineering" && user.title != "Intern"',
+  compared: true,
+  error: null,
+  run: fn(async () => {}),
+  cancel: fn(),
+  exportCohort: fn(async () => {}),
+  reset: fn(),
+};
+
+/** Editing with the draft simulated across the org: who would stop matching. */
+export const EditingWithSimulation: Story = {
+  args: { editor: makeEditor({ original: mockOriginal }), simulation: mockSimulation },
+};
+
+/** The rule is being written. */
+export const Saving: Story = {
+  args: { editor: makeEditor({ phase: 'saving' }) },
+};
+
+/** A replacement was created and the original retired. */
+export const Done: Story = {
+  args: {
+    editor: makeEditor({
+      phase: 'done',
+      result: {
+        createdRuleId: 'rule2',
+        createdRuleName: 'Engineering auto-assign',
+        activated: true,
+        updatedInPlace: false,
+        replacedRuleName: 'Engineering - US',
+        retireFailed: false,
+      },
+    }),
+  },
+};
+
+/** The save failed and surfaced an error message. */
+export const ErrorState: Story = {
+  args: { editor: makeEditor({ phase: 'error', error: 'Rule name already exists.' }) },
+};
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import RuleEditorModal from './RuleEditorModal';
+import type { UseRuleEditorReturn } from '../hooks/useRuleEditor';
+
+function makeEditor(overrides: Partial<UseRuleEditorReturn> = {}): UseRuleEditorReturn {
+  return {
+    phase: 'editing',
+    original: null,
+    draft: { name: 'Sales', expression: 'user.department == "Sales"', groupIds: ['g1'] },
+    targetGroups: [{ id: 'g1', name: 'Sales' }],
+    issues: [],
+    activateOnSave: true,
+    editsInPlace: false,
+    sampleUser: null,
+    sampleUserLoading: false,
+    sampleStatus: 'idle',
+    estimate: null,
+    result: null,
+    error: null,
+    openNew: vi.fn(),
+    openEdit: vi.fn(),
+    setName: vi.fn(),
+    setExpression: vi.fn(),
+    addTargetGroup: vi.fn(),
+    removeTargetGroup: vi.fn(),
+    setActivateOnSave: vi.fn(),
+    chooseSampleUser: vi.fn(async () => {}),
+    clearSampleUser: vi.fn(),
+    loadPopulationSample: vi.fn(async () => {}),
+    save: vi.fn(async () => {}),
+    close: vi.fn(),
+    ...overrides,
+  };
+}
+
+const searchGroups = vi.fn(async () => [{ id: 'g2', name: 'Marketing' }]);
+const searchUsers = vi.fn(async () => []);
+
+describe('RuleEditorModal', () => {
+  it('is closed when idle', () => {
+    const { container } = render(
+      <RuleEditorModal
+        editor={makeEditor({ phase: 'idle' })}
+        searchGroups={searchGroups}
+        searchUsers={searchUsers}
+      />,
+    );
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('disables save and explains why while the draft has issues', () => {
+    render(
+      <RuleEditorModal
+        editor={makeEditor({
+          draft: { name: 'Sales', expression: 'user.department ==', groupIds: [] },
+          targetGroups: [],
+          issues: [
+            { code: 'expression-invalid', reasonCode: 'parse-error' },
+            { code: 'no-target-groups' },
+          ],
+        })}
+        searchGroups={searchGroups}
+        searchUsers={searchUsers}
+      />,
+    );
+    expect(screen.getByRole('button', { name: 'Create rule' })).toBeDisabled();
+    expect(screen.getByText(/does not parse/i)).toBeInTheDocument();
+    expect(screen.getByText(/at least one group/i)).toBeInTheDocument();
+  });
+
+  it('adds a searched group as a target', async () => {
+    const editor = makeEditor();
+    render(
+      <RuleEditorModal editor={editor} searchGroups={searchGroups} searchUsers={searchUsers} />,
+    );
+    await userEvent.type(screen.getByPlaceholderText(/Add a target group/i), 'Mar');
+    await waitFor(() =>
+      expect(screen.getByRole('button', { name: 'Marketing' })).toBeInTheDocument(),
+    );
+    await userEvent.click(screen.getByRole('button', { name: 'Marketing' }));
+    expect(editor.addTargetGroup).toHaveBeenCalledWith({ id: 'g2', name: 'Marketing' });
+  });
+
+  it('shows the population estimate without counting unevaluable users as misses', () => {
+    render(
+      <RuleEditorModal
+        editor={makeEditor({
+          sampleStatus: 'ready',
+          estimate: { sampled: 200, matched: 12, noMatch: 180, unevaluable: 8 },
+        })}
+        searchGroups={searchGroups}
+        searchUsers={searchUsers}
+      />,
+    );
+    expect(screen.getByText(/of 200 sampled users match/)).toHaveTextContent(
+      '12 of 200 sampled users match · 8 could not be evaluated here.',
+    );
+  });
+
+  it('labels the save as a replacement when editing', async () => {
+    const editor = makeEditor({
+      original: {
+        id: 'r1',
+        name: 'Old',
+        status: 'ACTIVE',
+        type: 'group_rule',
+        created: '',
+        lastUpdated: '',
+      },
+    });
+    render(
+      <RuleEditorModal editor={editor} searchGroups={searchGroups} searchUsers={searchUsers} />,
+    );
+    await userEvent.click(screen.getByRole('button', { name: 'Save as replacement' }));
+    expect(editor.save).toHaveBeenCalled();
+  });
+
+  it('labels the save as an in-place edit when the target groups are unchanged', () => {
+    const editor = makeEditor({
+      editsInPlace: true,
+      original: {
+        id: 'r1',
+        name: 'Old',
+        status: 'ACTIVE',
+        type: 'group_rule',
+        created: '',
+        lastUpdated: '',
+      },
+    });
+    render(
+      <RuleEditorModal editor={editor} searchGroups={searchGroups} searchUsers={searchUsers} />,
+    );
+    expect(screen.getByRole('button', { name: 'Save changes' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * @module sidepanel/components/RuleEditorModal
+ * @description The rule authoring workbench: write or edit a group rule with live
+ * feedback before saving.
+ *
+ * As the admin types, the condition is parsed on every keystroke, explained clause
+ * by clause against a sample user they pick (via {@link ClauseChecklist}), and —
+ * once a population sample is loaded — tallied across one page of org users. On
+ * request it is also simulated across the whole org (`RuleSimulationPanel`). The
+ * save step creates the rule or, when editing, saves the original in place — or,
+ * when its target groups changed, replaces it and retires the original. All
+ * state and writes live in `useRuleEditor` and `useRuleSimulation`; this is a
+ * view.
+ *
+ * The condition, rule name and sample user's profile are tenant data, rendered
+ * through React's escaping. Nothing here logs.
+ */
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Modal from './shared/Modal';
+import Button from './shared/Button';
+import Input from './shared/Input';
+import Textarea from './shared/Textarea';
+import Checkbox from './shared/Checkbox';
+import LoadingSpinner from './shared/LoadingSpinner';
+import ClauseChecklist from './groups/detail/ClauseChecklist';
+import RuleSimulationPanel from './rules/RuleSimulationPanel';
+import type { UseRuleEditorReturn } from '../hooks/useRuleEditor';
+import type { UseRuleSimulationReturn } from '../hooks/useRuleSimulation';
+import type { RuleDraftIssue } from '../../shared/rules/ruleDraft';
+
+/** A search hit in one of the workbench's pickers. */
+type PickerHit = { id: string; label: string; sublabel?: string };
+
+/** Props for {@link SearchPicker}. */
+interface SearchPickerProps {
+  placeholder: string;
+  ariaLabel: string;
+  /** Run the search; called debounced with 2+ characters. */
+  search: (query: string) => Promise<PickerHit[]>;
+  onPick: (hit: PickerHit) => void;
+  emptyText: string;
+}
+
+/** A debounced search box with a clickable hit list (the consolidation modal's picker). */
+const SearchPicker: React.FC<SearchPickerProps> = ({
+  placeholder,
+  ariaLabel,
+  search,
+  onPick,
+  emptyText,
+}) => {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<PickerHit[]>([]);
+  const [searching, setSearching] = useState(false);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(
+    () => () => {
+      if (timer.current) clearTimeout(timer.current);
+    },
+    [],
+  );
+
+  const handleQuery = useCallback(
+    (value: string) => {
+      setQuery(value);
+      if (timer.current) clearTimeout(timer.current);
+      if (value.trim().length < 2) {
+        setHits([]);
+        return;
+      }
+      timer.current = setTimeout(async () => {
+        setSearching(true);
+        try {
+          setHits(await search(value.trim()));
+        } finally {
+          setSearching(false);
+        }
+      }, 300);
+    },
+    [search],
+  );
+
+  const handlePick = (hit: PickerHit) => {
+    onPick(hit);
+    setQuery('');
+    setHits([]);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <Input value={query} onChange={handleQuery} placeholder={placeholder} ariaLabel={ariaLabel} />
+      {searching && <p className="text-xs text-neutral-500">Searching…</p>}
+      {(hits.length > 0 || (query.trim().length >= 2 && !searching)) && (
+        <ul className="space-y-1 max-h-40 overflow-y-auto scrollable-list">
+          {hits.map((hit) => (
+            <li key={hit.id}>
+              <button
+                type="button"
+                onClick={() => handlePick(hit)}
+                className="w-full text-left rounded-md border border-neutral-200 px-3 py-1.5 text-sm text-neutral-900 hover:border-primary hover:bg-primary-light transition-colors"
+              >
+                {hit.label}
+                {hit.sublabel && (
+                  <span className="block text-xs text-neutral-500">{hit.sublabel}</span>
+                )}
+              </button>
+            </li>
+          ))}
+          {hits.length === 0 && <li className="text-sm text-neutral-500">{emptyText}</li>}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/** The sentence for a draft issue, phrased for someone writing the rule. */
+function issueText(issue: RuleDraftIssue): string {
+  switch (issue.code) {
+    case 'name-empty':
+      return 'Give the rule a name.';
+    case 'name-too-long':
+      return `Okta limits rule names to ${issue.max} characters.`;
+    case 'expression-invalid':
+      if (issue.reasonCode === 'empty') return 'Write a condition.';
+      if (issue.reasonCode === 'too-long') return 'The condition is too long to analyze.';
+      return 'The condition does not parse. Check quotes, parentheses and operators.';
+    case 'no-target-groups':
+      return 'Choose at least one group to assign matching users to.';
+  }
+}
+
+/** Section heading used throughout the workbench. */
+const SectionLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="text-xs font-semibold uppercase tracking-wider text-neutral-600 mb-2">
+    {children}
+  </div>
+);
+
+/** Props for {@link RuleEditorModal}. */
+interface RuleEditorModalProps {
+  /** The workbench state and controls from `useRuleEditor`. */
+  editor: UseRuleEditorReturn;
+  /** The org-wide what-if from `useRuleSimulation`; the section is hidden without it. */
+  simulation?: UseRuleSimulationReturn;
+  /** Search groups by name (target-group picker). */
+  searchGroups: (query: string) => Promise<Array<{ id: string; name: string }>>;
+  /** Search users (sample-user picker). */
+  searchUsers: (
+    query: string,
+  ) => Promise<Array<{ id: string; login: string; firstName: string; lastName: string }>>;
+}
+
+/** Renders the rule authoring workbench across its phases. */
+const RuleEditorModal: React.FC<RuleEditorModalProps> = ({
+  editor,
+  simulation,
+  searchGroups,
+  searchUsers,
+}) => {
+  const { phase, original, draft, issues, estimate, sampleUser, result, error } = editor;
+
+  // When editing, the original's condition is the baseline the simulation
+  // compares against, and its exclusions carry over to the replacement.
+  const simulationOptions = useMemo(
+    () =>
+      original
+        ? {
+            baseline: original.conditions?.expression?.value ?? '',
+            excludedUserIds: original.conditions?.people?.users?.exclude ?? [],
+            excludedGroupIds: original.conditions?.people?.groups?.exclude ?? [],
+          }
+        : undefined,
+    [original],
+  );
+
+  const searchGroupHits = useCallback(
+    async (query: string): Promise<PickerHit[]> =>
+      (await searchGroups(query)).map((g) => ({ id: g.id, label: g.name })),
+    [searchGroups],
+  );
+  const searchUserHits = useCallback(
+    async (query: string): Promise<PickerHit[]> =>
+      (await searchUsers(query)).map((u) => ({
+        id: u.id,
+        label: `${u.firstName} ${u.lastName}`.trim() || u.login,
+        sublabel: u.login,
+      })),
+    [searchUsers],
+  );
+
+  const nameIssue = issues.find((i) => i.code === 'name-empty' || i.code === 'name-too-long');
+  const expressionIssue = issues.find((i) => i.code === 'expression-invalid');
+  const groupsIssue = issues.find((i) => i.code === 'no-target-groups');
+  // Don't scold an untouched field: an empty name/condition is only called out
+  // once the admin has started on the other.
+  const touched = draft.name.length > 0 || draft.expression.length > 0;
+
+  const footer =
+    phase === 'editing' ? (
+      <>
+        <Button variant="secondary" onClick={editor.close}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={editor.save} disabled={issues.length > 0}>
+          {!original ? 'Create rule' : editor.editsInPlace ? 'Save changes' : 'Save as replacement'}
+        </Button>
+      </>
+    ) : (
+      <Button variant="secondary" onClick={editor.close}>
+        {phase === 'done' || phase === 'error' ? 'Close' : 'Cancel'}
+      </Button>
+    );
+
+  return (
+    <Modal
+      isOpen={phase !== 'idle'}
+      onClose={editor.close}
+      title={original ? 'Edit rule' : 'New rule'}
+      size="lg"
+      footer={footer}
+    >
+      {phase === 'loading' && <LoadingSpinner size="xl" centered message="Loading rule…" />}
+
+      {phase === 'editing' && (
+        <div className="space-y-5">
+          {original && (
+            <p className="text-xs text-neutral-500">
+              Okta cannot change a rule&apos;s target groups in place, so saving creates a
+              replacement rule and then retires {original.name}. Its definition is captured in
+              History.
+            </p>
+          )}
+
+          <Input
+            label="Name"
+            value={draft.name}
+            onChange={editor.setName}
+            placeholder="e.g. Engineering auto-assign"
+            error={nameIssue && touched ? issueText(nameIssue) : undefined}
+            autoFocus
+          />
+
+          <Textarea
+            label="Condition"
+            value={draft.expression}
+            onChange={editor.setExpression}
+            placeholder='user.department == "Engineering"'
+            rows={4}
+            error={expressionIssue && touched ? issueText(expressionIssue) : undefined}
+            hint={!expressionIssue ? 'Condition parses.' : undefined}
+          />
+
+          <div>
+            <SectionLabel>Target groups ({draft.groupIds.length})</SectionLabel>
+            {editor.targetGroups.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mb-2">
+                {editor.targetGroups.map((group) => (
+                  <span
+                    key={group.id}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs border bg-white text-neutral-700 border-neutral-200"
+                  >
+                    {group.name}
+                    <button
+                      type="button"
+                      onClick={() => editor.removeTargetGroup(group.id)}
+                      aria-label={`Remove ${group.name}`}
+                      className="text-neutral-500 hover:text-danger-text"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <SearchPicker
+              placeholder="Add a target group…"
+              ariaLabel="Search groups to add as targets"
+              search={searchGroupHits}
+              onPick={(hit) => editor.addTargetGroup({ id: hit.id, name: hit.label })}
+              emptyText="No groups found."
+            />
+            {groupsIssue && touched && (
+              <p className="mt-1 text-xs text-danger-text">{issueText(groupsIssue)}</p>
+            )}
+          </div>
+
+          <div>
+            <SectionLabel>Try it against a user</SectionLabel>
+            {sampleUser ? (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-neutral-900 truncate">
+                    {sampleUser.user.profile.login}
+                  </span>
+                  <Button variant="secondary" size="sm" onClick={editor.clearSampleUser}>
+                    Change
+                  </Button>
+                </div>
+                <ClauseChecklist
+                  expression={draft.expression}
+                  user={sampleUser.user}
+                  groupContext={sampleUser.groups}
+                />
+              </div>
+            ) : editor.sampleUserLoading ? (
+              <LoadingSpinner size="sm" message="Loading user…" />
+            ) : (
+              <SearchPicker
+                placeholder="Search for a sample user…"
+                ariaLabel="Search for a user to explain the condition against"
+                search={searchUserHits}
+                onPick={(hit) => void editor.chooseSampleUser(hit.id)}
+                emptyText="No users found."
+              />
+            )}
+          </div>
+
+          <div>
+            <SectionLabel>Population estimate</SectionLabel>
+            {editor.sampleStatus === 'idle' && (
+              <Button
+                variant="secondary"
+                size="sm"
+                icon="users"
+                onClick={editor.loadPopulationSample}
+              >
+                Estimate matches
+              </Button>
+            )}
+            {editor.sampleStatus === 'loading' && (
+              <LoadingSpinner size="sm" message="Sampling users…" />
+            )}
+            {editor.sampleStatus === 'error' && (
+              <p className="text-sm text-danger-text">Could not load a sample of users.</p>
+            )}
+            {editor.sampleStatus === 'ready' &&
+              (estimate ? (
+                <p className="text-sm text-neutral-700">
+                  <span className="font-semibold text-neutral-900">{estimate.matched}</span> of{' '}
+                  {estimate.sampled} sampled users match
+                  {estimate.unevaluable > 0 &&
+                    ` · ${estimate.unevaluable} could not be evaluated here`}
+                  .
+                </p>
+              ) : (
+                <p className="text-sm text-neutral-500">Fix the condition to see an estimate.</p>
+              ))}
+            <p className="mt-1 text-xs text-neutral-400">
+              Evaluated locally over the first page of org users, without their group lists — a
+              guide, not a count.
+            </p>
+          </div>
+
+          {simulation && (
+            <div>
+              <SectionLabel>Across the org</SectionLabel>
+              <RuleSimulationPanel
+                simulation={simulation}
+                expression={draft.expression}
+                options={simulationOptions}
+                disabled={!!expressionIssue}
+              />
+            </div>
+          )}
+
+          <Checkbox
+            checked={editor.activateOnSave}
+            onChange={editor.setActivateOnSave}
+            label="Activate after saving"
+            description="Inactive rules assign no one until activated."
+          />
+        </div>
+      )}
+
+      {phase === 'saving' && <LoadingSpinner size="xl" centered message="Saving the rule…" />}
+
+      {phase === 'error' && <p className="text-sm text-danger-text">{error || 'Save failed.'}</p>}
+
+      {phase === 'done' && result && (
+        <div className="space-y-2">
+          <p className="text-sm text-success-text font-medium">
+            {result.updatedInPlace ? 'Saved' : 'Created'}
+            {result.activated ? ' and activated' : ''} {result.createdRuleName}.
+          </p>
+          {result.replacedRuleName && (
+            <p className="text-sm text-neutral-600">
+              {result.retireFailed
+                ? `${result.replacedRuleName} could not be deleted and is still in Okta.`
+                : `Retired ${result.replacedRuleName}.`}
+            </p>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default RuleEditorModal;
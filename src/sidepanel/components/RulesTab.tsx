@@ -4,15 +4,19 @@
  *
  * A thin coordinator that owns cross-cutting shell state (search/filter, error,
  * TabState persistence, deep-link navigation) and composes the rule hooks
- * (`useRulesData` for load/cache, `useRuleLifecycle` for activate/deactivate,
+ * (`useRulesData` for load/cache, `useRuleLifecycle` for activate/deactivate/delete,
  * `useRuleImpact` for the impact preview) with presentational subcomponents
  * (`RulesMetaRow`, `RulesStatsGrid`, `RulesToolbar`, `RulesListPanel`) plus the
- * `RuleImpactModal`. Deactivation is gated behind that modal (Feature B).
+ * `RuleImpactModal`. Deactivation is gated behind that modal (Feature B);
+ * deletion behind a plain confirm, since History can recreate the rule.
+ * New and edited rules go through the authoring workbench (`useRuleEditor` +
+ * `RuleEditorModal`).
  */
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import RuleImpactModal from './RuleImpactModal';
 import PageHeader from './shared/PageHeader';
 import Button from './shared/Button';
+import Modal from './shared/Modal';
 import AlertMessage from './shared/AlertMessage';
 import RulesMetaRow from './rules/RulesMetaRow';
 import RulesStatsGrid from './rules/RulesStatsGrid';
@@ -21,6 +25,7 @@ import RulesListPanel from './rules/RulesListPanel';
 import RulesMergeBanner from './rules/RulesMergeBanner';
 import CurrentGroupRuleRelations from './rules/CurrentGroupRuleRelations';
 import RuleConsolidationModal from './RuleConsolidationModal';
+import RuleEditorModal from './RuleEditorModal';
 import type { FormattedRule, OktaGroupRule } from '../../shared/types';
 import { filterRules } from '../../shared/ruleUtils';
 import { findMergeableRuleGroups, type MergeableRuleGroup } from '../../shared/rules/consolidation';
@@ -31,6 +36,8 @@ import { useRuleImpact } from '../hooks/useRuleImpact';
 import { useRulesData } from '../hooks/useRulesData';
 import { useRuleLifecycle } from '../hooks/useRuleLifecycle';
 import { useRuleConsolidation } from '../hooks/useRuleConsolidation';
+import { useRuleEditor } from '../hooks/useRuleEditor';
+import { useRuleSimulation } from '../hooks/useRuleSimulation';
 import { useReducedMotion } from '../hooks/useReducedMotion';
 import type { RuleImpactInput } from '../hooks/useOktaApi/ruleImpact';
 import { TabStateManager, saveRulesTabState } from '../../shared/tabState/tabStateManager';
@@ -70,6 +77,8 @@ interface RulesTabProps {
   onRuleSelected?: () => void;
   /** Deep-link to a group in the Groups tab (from a rule's target groups, B → A2). */
   onNavigateToGroup?: (groupId: string) => void;
+  /** Open the Logs tab scoped to a rule's lifecycle events. Omitted, cards offer no log action. */
+  onViewLog?: (rule: FormattedRule) => void;
   /**
    * One-shot request to scope the list to the current group on arrival (e.g. from
    * the group Overview's "View Rules"). The value is the group id being scoped to;
@@ -99,6 +108,7 @@ const RulesTab: React.FC<RulesTabProps> = ({
   selectedRuleId,
   onRuleSelected,
   onNavigateToGroup,
+  onViewLog,
   scopeToGroupId,
   onScopeConsumed,
   isActive = true,
@@ -114,6 +124,9 @@ const RulesTab: React.FC<RulesTabProps> = ({
   // Local "scroll to this rule" focus (e.g. from the merge banner's View link),
   // combined with the cross-tab deep-link so both drive one highlight path.
   const [focusRuleId, setFocusRuleId] = useState<string | null>(null);
+  // The rule awaiting delete confirmation, and whether that delete is in flight.
+  const [pendingDelete, setPendingDelete] = useState<FormattedRule | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
   const activeRuleId = selectedRuleId ?? focusRuleId;
 
   // Single error channel; '' clears it. Stable so the hooks below keep their
@@ -150,6 +163,19 @@ const RulesTab: React.FC<RulesTabProps> = ({
     reload: () => loadRules(true),
     onError: handleError,
   });
+  // Saving a rule changes the rule set too, so it also bypasses the cache.
+  const editor = useRuleEditor({
+    targetTabId,
+    reload: () => loadRules(true),
+    onError: handleError,
+  });
+  // The workbench's org-wide what-if. A result belongs to one editing session, so
+  // it is dropped when the workbench closes.
+  const simulation = useRuleSimulation({ targetTabId, onError: handleError });
+  const resetSimulation = simulation.reset;
+  useEffect(() => {
+    if (editor.phase === 'idle') resetSimulation();
+  }, [editor.phase, resetSimulation]);
 
   // Detect rules that share an identical condition (mergeable). FormattedRule
   // carries the expression + target groups the detector needs.
@@ -288,6 +314,17 @@ const RulesTab: React.FC<RulesTabProps> = ({
     if (ruleId) void lifecycle.deactivateRule(ruleId);
   };
 
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+    setIsDeleting(true);
+    try {
+      await lifecycle.deleteRule(pendingDelete.id);
+    } finally {
+      setIsDeleting(false);
+      setPendingDelete(null);
+    }
+  };
+
   // Re-derive each rule's current-group relation before anything reads it. This
   // tab is the only place that knows the detected group, so it stamps the truth
   // onto the rules it hands down (RuleCard's "Current Group" badge and border
@@ -362,15 +399,25 @@ const RulesTab: React.FC<RulesTabProps> = ({
             : undefined
         }
         actions={
-          <Button
-            variant={rules.length > 0 ? 'secondary' : 'primary'}
-            icon="refresh"
-            onClick={() => loadRules(rules.length > 0)}
-            disabled={data.isLoading}
-            loading={data.isLoading}
-          >
-            {rules.length > 0 ? 'Refresh' : 'Load Rules'}
-          </Button>
+          <>
+            <Button
+              variant="secondary"
+              icon="plus"
+              onClick={editor.openNew}
+              disabled={targetTabId == null}
+            >
+              New Rule
+            </Button>
+            <Button
+              variant={rules.length > 0 ? 'secondary' : 'primary'}
+              icon="refresh"
+              onClick={() => loadRules(rules.length > 0)}
+              disabled={data.isLoading}
+              loading={data.isLoading}
+            >
+              {rules.length > 0 ? 'Refresh' : 'Load Rules'}
+            </Button>
+          </>
         }
       />
 
@@ -428,6 +475,9 @@ const RulesTab: React.FC<RulesTabProps> = ({
           onDeactivate={handleRequestDeactivate}
           onPreviewImpact={handlePreviewImpact}
           onAddTargetGroup={consolidation.openAddTarget}
+          onEdit={editor.openEdit}
+          onDelete={setPendingDelete}
+          onViewLog={onViewLog}
           oktaOrigin={oktaOrigin}
           selectedRuleId={activeRuleId}
         />
@@ -453,6 +503,41 @@ const RulesTab: React.FC<RulesTabProps> = ({
         }
       />
 
+      <Modal
+        isOpen={pendingDelete !== null}
+        onClose={() => {
+          if (!isDeleting) setPendingDelete(null);
+        }}
+        title="Delete Rule"
+        size="sm"
+        footer={
+          <>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setPendingDelete(null)}
+              disabled={isDeleting}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="danger"
+              size="sm"
+              onClick={() => void handleConfirmDelete()}
+              loading={isDeleting}
+            >
+              Delete
+            </Button>
+          </>
+        }
+      >
+        <p className="text-sm text-neutral-700">
+          Delete <strong className="text-neutral-900">{pendingDelete?.name}</strong>?
+          {pendingDelete?.status === 'ACTIVE' && ' It will be deactivated first.'} Users it assigned
+          keep their group memberships. You can recreate it from History.
+        </p>
+      </Modal>
+
       <RuleConsolidationModal
         phase={consolidation.phase}
         preview={consolidation.preview}
@@ -463,6 +548,13 @@ const RulesTab: React.FC<RulesTabProps> = ({
         onExecute={consolidation.execute}
         onClose={consolidation.close}
       />
+
+      <RuleEditorModal
+        editor={editor}
+        simulation={simulation}
+        searchGroups={api.searchGroups}
+        searchUsers={api.searchUsers}
+      />
     </div>
   );
 };
@@ -0,0 +1,111 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import SystemLogTab from './SystemLogTab';
+import { useOktaApi, makeUseOktaApiValue } from '../../../.storybook/mocks/useOktaApi.mock';
+import type { OktaLogEvent } from '../../shared/schemas/okta';
+
+/** A few obviously-fake membership events for the Engineering group. */
+const sampleEvents: OktaLogEvent[] = [
+  {
+    uuid: 'evt-fake-1',
+    published: '2026-03-02T11:00:00.000Z',
+    eventType: 'group.user_membership.add',
+    displayMessage: 'Add user to group membership',
+    actor: { id: '00uFAKEADMIN', alternateId: 'admin@example.com', displayName: 'Admin' },
+    target: [
+      { id: '00uFAKE1', type: 'User', alternateId: 'ada.lovelace@example.com' },
+      { id: '00gFAKE1', type: 'UserGroup', displayName: 'Engineering' },
+    ],
+    outcome: { result: 'SUCCESS' },
+  },
+  {
+    uuid: 'evt-fake-2',
+    published: '2026-03-01T16:20:00.000Z',
+    eventType: 'group.user_membership.remove',
+    displayMessage: 'Remove user from group membership',
+    actor: { id: '0oaFAKESYSTEM', type: 'PublicClientApp', displayName: 'Okta System' },
+    target: [
+      { id: '00uFAKE2', type: 'User', alternateId: 'alan.turing@example.com' },
+      { id: '00gFAKE1', type: 'UserGroup', displayName: 'Engineering' },
+    ],
+    outcome: { result: 'SUCCESS' },
+  },
+];
+
+/**
+ * The Logs tab: the Okta System Log, pre-scoped to the entity in view.
+ */
+const meta = {
+  title: 'Logs/SystemLogTab',
+  component: SystemLogTab,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'fullscreen',
+    // heading-order disabled: the tab renders as a page fragment outside the app shell.
+    a11y: { config: { rules: [{ id: 'heading-order', enabled: false }] } },
+    docs: {
+      description: {
+        component:
+          'Logs tab: `GET /api/v1/logs`, newest first, scoped to the entity in the ' +
+          "ContextBar — a user's own and targeted events, a group's membership adds and " +
+          "removals, or (from a rule card's \"System Log\") a rule's lifecycle. The admin's " +
+          "filter expression is ANDed with the scope's, never substituted for it.\n\n" +
+          '**Related internals:** [Hooks](?path=/docs/internals-hooks--docs), ' +
+          '[Scheduler & messaging](?path=/docs/internals-scheduler-messaging--docs)',
+      },
+    },
+  },
+  argTypes: {
+    targetTabId: { description: 'Chrome tab id of the connected Okta tab; required to query.' },
+    isActive: { description: 'Whether this is the selected tab; a new scope waits for it.' },
+    scope: { description: 'What the events are about.' },
+    onLeaveRuleScope: { description: "Return from a rule's log to the entity in view." },
+  },
+  args: {
+    targetTabId: 1,
+    isActive: true,
+    scope: { kind: 'group', id: '00gFAKE1', name: 'Engineering' },
+    onLeaveRuleScope: fn(),
+  },
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({
+        queryLogs: fn(async () => ({ events: sampleEvents, nextUrl: '/api/v1/logs?after=fake' })),
+        getLogPage: fn(async () => ({ events: [], nextUrl: null })),
+      }),
+    );
+  },
+} satisfies Meta<typeof SystemLogTab>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** A group's membership events, with older pages to load. */
+export const Default: Story = {};
+
+/** Opened from a rule card: the rule's lifecycle, with a way back. */
+export const RuleScope: Story = {
+  args: { scope: { kind: 'rule', id: '0prFAKE1', name: 'Sales → CRM' } },
+};
+
+/** Nothing matched in the range. */
+export const Empty: Story = {
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({ queryLogs: fn(async () => ({ events: [], nextUrl: null })) }),
+    );
+  },
+};
+
+/** Okta refused the filter expression. */
+export const RefusedFilter: Story = {
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({
+        queryLogs: fn(async () => {
+          throw new Error('Invalid search criteria. Filter: outcome.result eq');
+        }),
+      }),
+    );
+  },
+};
@@ -0,0 +1,105 @@
+/**
+ * Behavioral tests for the Logs tab.
+ *
+ * Drives the real `SystemLogTab` and `useSystemLog` against a stubbed
+ * `useOktaApi`, pinning: the query runs on arrival scoped to the entity in view,
+ * a hidden tab waits, the admin's filter and keywords travel with the scope,
+ * older pages append, and a refused query shows Okta's message.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { OktaLogEvent } from '../../shared/schemas/okta';
+import type { LogScope } from '../../shared/systemLog/logQuery';
+
+function logEvent(uuid: string, message: string): OktaLogEvent {
+  return {
+    uuid,
+    published: '2026-03-02T11:00:00.000Z',
+    eventType: 'group.user_membership.add',
+    displayMessage: message,
+    actor: { id: '00uFAKEADMIN', alternateId: 'admin@example.com', displayName: 'Admin' },
+    target: [{ id: '00uFAKE1', type: 'User', alternateId: 'ada@example.com' }],
+    outcome: { result: 'SUCCESS' },
+  };
+}
+
+// One stable stub object, like the memoized real facade.
+const api = vi.hoisted(() => ({
+  queryLogs: vi.fn(),
+  getLogPage: vi.fn(),
+}));
+
+vi.mock('../hooks/useOktaApi', () => ({ useOktaApi: () => api }));
+
+import SystemLogTab from './SystemLogTab';
+
+const group: LogScope = { kind: 'group', id: '00gFAKE1', name: 'Engineering' };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  api.queryLogs.mockResolvedValue({
+    events: [logEvent('evt-1', 'Add user to group membership')],
+    nextUrl: '/api/v1/logs?after=abc',
+  });
+  api.getLogPage.mockResolvedValue({
+    events: [logEvent('evt-2', 'Remove user from group membership')],
+    nextUrl: null,
+  });
+});
+
+describe('SystemLogTab', () => {
+  it('queries the scope in view on arrival and lists the events', async () => {
+    render(<SystemLogTab targetTabId={1} scope={group} />);
+
+    expect(await screen.findByText('Add user to group membership')).toBeInTheDocument();
+    expect(screen.getByText('Membership adds and removals in Engineering')).toBeInTheDocument();
+    expect(api.queryLogs).toHaveBeenCalledWith({ scope: group, range: '7d', filter: '', q: '' });
+  });
+
+  it('waits while the tab is hidden', () => {
+    render(<SystemLogTab targetTabId={1} scope={group} isActive={false} />);
+    expect(api.queryLogs).not.toHaveBeenCalled();
+  });
+
+  it("sends the admin's filter and keywords with the scope", async () => {
+    const user = userEvent.setup();
+    render(<SystemLogTab targetTabId={1} scope={group} />);
+    await screen.findByText('Add user to group membership');
+
+    await user.type(screen.getByLabelText('Filter expression'), 'outcome.result eq "FAILURE"');
+    await user.type(screen.getByLabelText('Keywords'), 'ada');
+    await user.click(screen.getByRole('button', { name: /search/i }));
+
+    await waitFor(() =>
+      expect(api.queryLogs).toHaveBeenLastCalledWith({
+        scope: group,
+        range: '7d',
+        filter: 'outcome.result eq "FAILURE"',
+        q: 'ada',
+      }),
+    );
+  });
+
+  it('appends older events', async () => {
+    const user = userEvent.setup();
+    render(<SystemLogTab targetTabId={1} scope={group} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Load older events' }));
+
+    expect(await screen.findByText('Remove user from group membership')).toBeInTheDocument();
+    expect(screen.getByText('Add user to group membership')).toBeInTheDocument();
+    expect(api.getLogPage).toHaveBeenCalledWith('/api/v1/logs?after=abc');
+    expect(screen.queryByRole('button', { name: 'Load older events' })).not.toBeInTheDocument();
+  });
+
+  it("shows Okta's message when a query is refused", async () => {
+    api.queryLogs.mockRejectedValue(new Error('Invalid filter expression'));
+    render(<SystemLogTab targetTabId={1} scope={group} />);
+
+    expect(await screen.findByText('Invalid filter expression')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * @module sidepanel/components/SystemLogTab
+ * @description Logs tab — the Okta System Log for whatever is in view.
+ *
+ * The tab is pre-scoped: on a user's page it shows events by or about that user,
+ * on a group's page the group's membership adds and removals, on an app or policy
+ * the events targeting it, and after "System Log" on a rule card that rule's
+ * lifecycle. With nothing in view it shows the whole org. The admin narrows the
+ * scope with a time range, a System Log `filter` expression (ANDed with the
+ * scope's, see `shared/systemLog/logQuery`) and keywords.
+ *
+ * A thin coordinator: {@link useSystemLog} owns the query and paging, and
+ * {@link LogEventRow} renders each event. Read-only; nothing here writes to Okta.
+ *
+ * **Recently deleted** switches to {@link DeletedObjectsPanel}: org-wide deletions
+ * rebuilt from the log, where a rule this browser deleted can be re-created.
+ */
+import React, { useState } from 'react';
+import { AlertMessage, Button, Input, PageHeader, Select, Tabs, type TabItem } from './shared';
+import LogEventRow from './systemLog/LogEventRow';
+import DeletedObjectsPanel from './systemLog/DeletedObjectsPanel';
+import { useSystemLog } from '../hooks/useSystemLog';
+import {
+  LOG_RANGES,
+  describeLogScope,
+  type LogRangeId,
+  type LogScope,
+} from '../../shared/systemLog/logQuery';
+
+interface SystemLogTabProps {
+  /** Chrome tab id of the connected Okta tab; required to query the log. */
+  targetTabId?: number;
+  /**
+   * Whether this is the selected top-level tab. The tab stays mounted while
+   * hidden, so a query for a new scope waits until it is shown. Defaults to `true`.
+   */
+  isActive?: boolean;
+  /** What the events are about. */
+  scope: LogScope;
+  /**
+   * Return from a rule's log to the entity in view. Only offered while the scope
+   * is a rule opened from the Rules tab.
+   */
+  onLeaveRuleScope?: () => void;
+}
+
+const RANGE_OPTIONS = LOG_RANGES.map((range) => ({ value: range.id, label: range.label }));
+
+type LogView = 'events' | 'deleted';
+
+const VIEW_TABS: TabItem[] = [
+  { key: 'events', label: 'Events' },
+  { key: 'deleted', label: 'Recently deleted' },
+];
+
+/** Renders the scoped System Log with its range, filter and keyword controls. */
+const SystemLogTab: React.FC<SystemLogTabProps> = ({
+  targetTabId,
+  isActive = true,
+  scope,
+  onLeaveRuleScope,
+}) => {
+  const {
+    events,
+    options,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    error,
+    search,
+    loadMore,
+    clearError,
+  } = useSystemLog(scope, targetTabId, isActive);
+
+  // The boxes hold drafts; a query runs on Search, not on every keystroke.
+  const [filter, setFilter] = useState(options.filter);
+  const [q, setQ] = useState(options.q);
+  const [view, setView] = useState<LogView>('events');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    search({ range: options.range, filter, q });
+  };
+
+  return (
+    <div className="tab-content active" style={{ fontFamily: 'var(--font-primary)', padding: 0 }}>
+      <PageHeader
+        title="System Log"
+        subtitle={view === 'deleted' ? 'Deleted across the org' : describeLogScope(scope)}
+        onBack={scope.kind === 'rule' ? onLeaveRuleScope : undefined}
+        backLabel="Back to the entity in view"
+        actions={
+          view === 'events' && (
+            <Button
+              variant="secondary"
+              icon="refresh"
+              onClick={() => search(options)}
+              disabled={isLoading || targetTabId == null}
+              loading={isLoading}
+            >
+              Refresh
+            </Button>
+          )
+        }
+      />
+
+      <div className="max-w-7xl mx-auto px-6 py-6 space-y-4">
+        <Tabs
+          variant="segmented"
+          tabs={VIEW_TABS}
+          activeKey={view}
+          onChange={(key) => setView(key as LogView)}
+          ariaLabel="System Log view"
+        />
+
+        {view === 'deleted' ? (
+          <DeletedObjectsPanel targetTabId={targetTabId} isActive={isActive} />
+        ) : (
+          <>
+            {error && (
+              <AlertMessage message={{ text: error, type: 'danger' }} onDismiss={clearError} />
+            )}
+
+            <form className="space-y-2" onSubmit={handleSubmit} aria-label="System Log query">
+              <Select
+                label="Time range"
+                value={options.range}
+                onChange={(range) => search({ range: range as LogRangeId, filter, q })}
+                options={RANGE_OPTIONS}
+              />
+              <Input
+                value={filter}
+                onChange={setFilter}
+                ariaLabel="Filter expression"
+                placeholder='Filter, e.g. outcome.result eq "FAILURE"'
+                size="sm"
+              />
+              <div className="flex items-end gap-2">
+                <Input
+                  value={q}
+                  onChange={setQ}
+                  type="search"
+                  ariaLabel="Keywords"
+                  placeholder="Keywords"
+                  size="sm"
+                />
+                <Button
+                  type="submit"
+                  variant="primary"
+                  size="sm"
+                  icon="search"
+                  disabled={isLoading || targetTabId == null}
+                >
+                  Search
+                </Button>
+              </div>
+            </form>
+
+            {targetTabId == null && (
+              <p className="text-sm text-neutral-600">
+                Connect to an Okta tab to read its System Log.
+              </p>
+            )}
+
+            {targetTabId != null && !isLoading && !error && events.length === 0 && (
+              <p className="text-sm text-neutral-600">
+                No events in this range. Okta keeps 90 days of System Log, and reading it needs an
+                admin role with report access.
+              </p>
+            )}
+
+            {events.length > 0 && (
+              <ul className="space-y-2" aria-label="System Log events">
+                {events.map((event) => (
+                  <LogEventRow key={event.uuid} event={event} />
+                ))}
+              </ul>
+            )}
+
+            {hasMore && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={loadMore}
+                loading={isLoadingMore}
+                disabled={isLoadingMore}
+              >
+                Load older events
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SystemLogTab;
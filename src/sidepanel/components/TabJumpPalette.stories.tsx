@@ -1,8 +1,9 @@
 import type { Meta, StoryObj } from '@storybook/react-vite';
 import { expect, fn, userEvent, waitFor, within } from 'storybook/test';
 import TabJumpPalette from './TabJumpPalette';
+import { useOktaApi, makeUseOktaApiValue } from '../../../.storybook/mocks/useOktaApi.mock';
 
-/** ⌘K jump-to palette for the panel's eight top-level sections. */
+/** ⌘K jump-to palette for the panel's eight top-level sections and Okta entities. */
 const meta = {
   title: 'Sidepanel/TabJumpPalette',
   component: TabJumpPalette,
@@ -12,9 +13,9 @@ const meta = {
     docs: {
       description: {
         component:
-          "⌘K jump-to palette for the side panel's eight top-level sections.\n\n" +
+          "⌘K jump-to palette for the side panel's eight top-level sections and, with an Okta tab connected, its groups, users, rules, apps and policies.\n\n" +
           'The primary nav is an icon rail, so inactive tabs are icon-only — compact, but it asks the user to aim at a small target. This palette is the keyboard route to the same destinations: it costs no horizontal space and no clicks. Filtering is a case-insensitive substring match on the section label; the section you are already on is marked `aria-current="page"` and labelled **Current**; choosing a result calls the same `onTabChange` the rail calls and then closes.\n\n' +
-          'Scope is deliberately navigation destinations only — searching groups, users or rules from here is a later feature, and the result list is shaped as a generic `{ id, label, icon }` row so that lands as extra sections rather than a rewrite.\n\n' +
+          'Sections always list first. Past two characters, and once typing pauses, the palette also searches groups, users and apps through Okta, rules from the rules cache and the app authentication policies, and lists them below in sections ranked by their best match. Choosing one opens it where it lives; each row also carries "Open in Okta", and groups and users add "Export members" and "Compare with…". Entity search is off without `targetTabId` and `onOpenEntity`.\n\n' +
           '**Keyboard model — roving focus, not a combobox.** The shared `Input` does not spread arbitrary props, and bending a shared primitive with `role`/`aria-expanded`/`aria-controls`/`aria-activedescendant` for one consumer is the wrong trade. So: Down leaves the field for the first result, Up/Down move within the list (Up off the top returns to the field), Enter or Space activates, Escape closes. Exactly one row is in the tab order at a time.\n\n' +
           '**Related internals:** [Hooks](?path=/docs/internals-hooks--docs) — the ⌘K listener itself lives in `useCommandPalette`, called once by `App`, because every tab stays mounted (ADR-0018) and a `window` listener inside a tab would be registered eight times over.',
       },
@@ -37,6 +38,21 @@ const meta = {
       description:
         'Called with the chosen section id. Must be the same handler the icon rail uses.',
     },
+    targetTabId: {
+      description: 'The connected Okta tab. Entity search needs one.',
+    },
+    oktaOrigin: {
+      description: 'The Okta org origin, for each entity row\'s "Open in Okta" link.',
+    },
+    onOpenEntity: {
+      description: 'Called with a chosen entity. Entity search is off without it.',
+    },
+    onExportGroup: {
+      description: 'Adds "Export members" to group rows.',
+    },
+    onCompareUser: {
+      description: 'Adds "Compare with…" to user rows.',
+    },
   },
   args: {
     isOpen: true,
@@ -80,6 +96,47 @@ export const Empty: Story = {
   },
 };
 
+/**
+ * Entity search: "eng" finds a group, a user and an app through Okta, ranked
+ * into sections below the matching section rows, each with its shortcuts.
+ */
+export const EntitySearch: Story = {
+  args: {
+    targetTabId: 1,
+    oktaOrigin: 'https://acme.okta.com',
+    onOpenEntity: fn(),
+    onExportGroup: fn(),
+    onCompareUser: fn(),
+  },
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({
+        searchGroups: fn(async () => [
+          { id: 'g-eng', name: 'Engineering', description: 'All engineers', type: 'OKTA_GROUP' },
+        ]),
+        searchUsers: fn(async () => [
+          {
+            id: 'user1',
+            email: 'ada.lovelace@example.com',
+            firstName: 'Ada',
+            lastName: 'Lovelace',
+            login: 'ada.lovelace@example.com',
+            status: 'ACTIVE',
+          },
+        ]),
+        searchApps: fn(async () => [{ id: 'app1', label: 'Engage CRM', status: 'ACTIVE' }]),
+      }),
+    );
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    const field = await canvas.findByRole('searchbox', { name: /^Search sections, groups/ });
+    await userEvent.type(field, 'eng');
+    await canvas.findByRole('heading', { name: 'Groups' });
+    await expect(canvas.getByRole('link', { name: 'Open Engineering in Okta' })).toBeVisible();
+  },
+};
+
 /** Closed — the palette renders nothing at all. */
 export const Closed: Story = {
   args: { isOpen: false },
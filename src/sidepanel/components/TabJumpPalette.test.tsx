@@ -11,6 +11,10 @@
  *    real focus onto real `<button>` rows instead: Down leaves the field, Up/Down
  *    move within the list, Up off the top returns to the field, and exactly one
  *    row is in the tab order at a time.
+ * 3. **Entities follow sections.** With a tab and an `onOpenEntity`, ranked
+ *    group/user/rule/app/policy sections list after the section rows on the
+ *    same roving list, each row carrying its own shortcuts. The search itself
+ *    is mocked here; `usePaletteSearch.test.ts` covers it.
  *
  * The shortcut itself is exercised through a harness that wires
  * `useCommandPalette` the way `App` does, because the listener's whole reason for
@@ -24,12 +28,18 @@ import userEvent from '@testing-library/user-event';
 import TabJumpPalette from './TabJumpPalette';
 import { useCommandPalette } from '../hooks/useCommandPalette';
 import { TAB_DEFS, type TabType } from '../tabs';
+import { usePaletteSearch, type UsePaletteSearch } from '../hooks/usePaletteSearch';
+
+vi.mock('../hooks/usePaletteSearch', () => ({ usePaletteSearch: vi.fn() }));
+
+const NO_RESULTS: UsePaletteSearch = { sections: [], isSearching: false };
 
 const onSelect = vi.fn();
 const onClose = vi.fn();
 
 beforeEach(() => {
   vi.clearAllMocks();
+  vi.mocked(usePaletteSearch).mockReturnValue(NO_RESULTS);
 });
 
 /** Render the palette in isolation with controllable props. */
@@ -225,13 +235,124 @@ describe('TabJumpPalette', () => {
     it('announces the number of matching sections', async () => {
       renderPalette();
 
-      expect(screen.getByRole('status')).toHaveTextContent('8 sections available');
+      expect(screen.getByRole('status')).toHaveTextContent('10 sections available');
 
       await userEvent.type(field(), 'export');
 
       expect(screen.getByRole('status')).toHaveTextContent('1 section available');
     });
   });
+
+  describe('entity search', () => {
+    const onOpenEntity = vi.fn();
+    const onExportGroup = vi.fn();
+    const onCompareUser = vi.fn();
+
+    const found: UsePaletteSearch = {
+      isSearching: false,
+      sections: [
+        {
+          kind: 'group',
+          title: 'Groups',
+          results: [{ kind: 'group', id: '00g1', label: 'Engineering', detail: 'OKTA_GROUP' }],
+        },
+        {
+          kind: 'user',
+          title: 'Users',
+          results: [{ kind: 'user', id: '00u1', label: 'Ada Lovelace', detail: 'ada@example.com' }],
+        },
+      ],
+    };
+
+    /** The palette with entity search switched on. */
+    const renderSearching = () =>
+      renderPalette({
+        targetTabId: 1,
+        oktaOrigin: 'https://acme.okta.com',
+        onOpenEntity,
+        onExportGroup,
+        onCompareUser,
+      });
+
+    const entityField = () =>
+      screen.getByRole('searchbox', {
+        name: 'Search sections, groups, users, rules, apps and policies',
+      });
+
+    it('stays off without a connected tab', () => {
+      renderPalette({ onOpenEntity });
+
+      expect(usePaletteSearch).toHaveBeenLastCalledWith(
+        expect.objectContaining({ enabled: false }),
+      );
+    });
+
+    it('lists the ranked sections under headings after the section rows', () => {
+      vi.mocked(usePaletteSearch).mockReturnValue(found);
+      renderSearching();
+
+      expect(screen.getByRole('dialog')).toHaveAccessibleName('Jump to');
+      expect(screen.getByRole('heading', { name: 'Groups' })).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Users' })).toBeInTheDocument();
+      expect(screen.getByRole('status')).toHaveTextContent('10 sections available, 2 results');
+    });
+
+    it('opens the chosen entity and closes', async () => {
+      vi.mocked(usePaletteSearch).mockReturnValue(found);
+      renderSearching();
+
+      await userEvent.click(screen.getByRole('button', { name: /^Ada Lovelace/ }));
+
+      expect(onOpenEntity).toHaveBeenCalledWith(found.sections[1].results[0]);
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('opens the top entity on Enter when no section matches', async () => {
+      vi.mocked(usePaletteSearch).mockReturnValue(found);
+      renderSearching();
+
+      await userEvent.type(entityField(), 'engineering{Enter}');
+
+      expect(onOpenEntity).toHaveBeenCalledWith(found.sections[0].results[0]);
+      expect(onSelect).not.toHaveBeenCalled();
+    });
+
+    it('offers "Export members" on groups and "Compare with…" on users', async () => {
+      vi.mocked(usePaletteSearch).mockReturnValue(found);
+      renderSearching();
+
+      await userEvent.click(screen.getByRole('button', { name: 'Export members of Engineering' }));
+      expect(onExportGroup).toHaveBeenCalledWith('00g1', 'Engineering');
+
+      await userEvent.click(screen.getByRole('button', { name: 'Compare Ada Lovelace with…' }));
+      expect(onCompareUser).toHaveBeenCalledWith('00u1');
+      expect(onOpenEntity).not.toHaveBeenCalled();
+    });
+
+    it('links each entity to its Admin Console page', () => {
+      vi.mocked(usePaletteSearch).mockReturnValue(found);
+      renderSearching();
+
+      expect(screen.getByRole('link', { name: 'Open Engineering in Okta' })).toHaveAttribute(
+        'href',
+        'https://acme.okta.com/admin/group/00g1',
+      );
+    });
+
+    it("puts a row's shortcuts in the tab order only while the row is", async () => {
+      vi.mocked(usePaletteSearch).mockReturnValue(found);
+      renderSearching();
+      const exportButton = screen.getByRole('button', { name: 'Export members of Engineering' });
+
+      expect(exportButton).toHaveAttribute('tabindex', '-1');
+
+      await userEvent.type(entityField(), 'engineering');
+      fireEvent.keyDown(entityField(), { key: 'ArrowDown' });
+
+      expect(screen.getByRole('button', { name: /^Engineering/ })).toHaveFocus();
+      expect(exportButton).toHaveAttribute('tabindex', '0');
+    });
+  });
 });
 
 /** Wires the hook to the palette exactly the way `App` does. */
@@ -1,6 +1,7 @@
 /**
  * @module sidepanel/components/TabJumpPalette
- * @description ⌘K jump-to palette for the panel's eight top-level sections.
+ * @description ⌘K jump-to palette for the panel's eight top-level sections and,
+ * with an Okta tab connected, for groups, users, rules, apps and policies.
  *
  * The primary nav is an icon rail: inactive tabs are icon-only, which is compact
  * but asks the user to aim at a small target. This palette is the keyboard route
@@ -8,10 +9,14 @@
  * with ⌘K / Ctrl+K (see {@link module:sidepanel/hooks/useCommandPalette}, which
  * owns the one global listener), type a few letters, press Enter.
  *
- * Scope is deliberately **navigation destinations only** — the eight entries in
- * {@link module:sidepanel/tabs}. Searching groups/users/rules from here is a
- * later feature; the result list is shaped as a generic `{ id, label, icon }`
- * row so that lands as extra sections rather than a rewrite.
+ * The eight entries in {@link module:sidepanel/tabs} always come first and are
+ * filtered locally. Past two characters the palette also searches entities
+ * ({@link module:sidepanel/hooks/usePaletteSearch}) and lists them below in
+ * ranked sections. Choosing one opens it where it lives — a group's detail view
+ * on the Groups tab, a user's on Users, a rule card on Rules, a filtered list on
+ * Apps or Auth Policies — and each row carries its own shortcuts: "Open in Okta"
+ * everywhere, "Export members" on groups, "Compare with…" on users. Entity search
+ * is off unless the caller passes both `targetTabId` and `onOpenEntity`.
  *
  * ## Why roving focus and not a combobox
  *
@@ -23,11 +28,18 @@
  * input, Up/Down between results, Enter to activate — reaches the same place
  * with real focus on a real `<button>`, is axe-clean, and needs no change to
  * `Input`. Revisit if a second consumer ever wants the combobox shape.
+ *
+ * An entity row's shortcuts sit beside its main button and share its roving
+ * anchor: they are tabbable only while their row is, so Tab walks one row's
+ * actions and Up/Down still move between rows.
  */
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { EmptyState, Input, Modal } from './shared';
 import Icon, { type IconType } from './overview/shared/Icon';
 import { TAB_DEFS, type TabType } from '../tabs';
+import { usePaletteSearch } from '../hooks/usePaletteSearch';
+import { PALETTE_KINDS, type PaletteEntity } from './palette/paletteSearch';
+import { oktaAdminEntityUrl } from '../../shared/utils/oktaUrl';
 
 /** Props for {@link TabJumpPalette}. */
 interface TabJumpPaletteProps {
@@ -52,6 +64,16 @@ interface TabJumpPaletteProps {
    * app (persistence, mount-on-first-activation, deep links).
    */
   onSelect: (tab: TabType) => void;
+  /** The connected Okta tab. Entity search needs one; omitted, only sections are listed. */
+  targetTabId?: number | null;
+  /** The Okta org origin, for each entity row's "Open in Okta" link. */
+  oktaOrigin?: string | null;
+  /** Called with a chosen entity. Entity search is off without it. */
+  onOpenEntity?: (entity: PaletteEntity) => void;
+  /** Adds "Export members" to group rows. */
+  onExportGroup?: (groupId: string, groupName: string) => void;
+  /** Adds "Compare with…" to user rows. */
+  onCompareUser?: (userId: string) => void;
 }
 
 /** One row in the palette's result list. Shaped to outlive the tabs-only scope. */
@@ -64,6 +86,22 @@ interface JumpResult {
   icon: IconType;
 }
 
+/** One focusable row: a section or an entity, in the order they are listed. */
+type PaletteRow =
+  | { kind: 'tab'; key: string; tab: JumpResult }
+  | { kind: 'entity'; key: string; entity: PaletteEntity };
+
+/** Where a row's "Open in Okta" goes; rules have no page of their own. */
+function entityAdminUrl(origin: string | null | undefined, entity: PaletteEntity): string | null {
+  if (entity.kind === 'rule') return origin ? `${origin}/admin/groups#rules` : null;
+  return oktaAdminEntityUrl(origin, entity.kind, entity.id);
+}
+
+/** Shared classes for the small shortcut controls beside an entity row. */
+const ACTION_CLASS = `shrink-0 px-2 py-1 rounded-md text-xs font-medium text-neutral-600
+  hover:bg-neutral-100 hover:text-neutral-900 transition-colors duration-(--dur-instant)
+  focus:outline-2 focus:outline-offset-2 focus:outline-primary`;
+
 /**
  * Command palette for jumping between the panel's top-level sections.
  *
@@ -88,6 +126,11 @@ const TabJumpPalette: React.FC<TabJumpPaletteProps> = ({
   onClose,
   activeTab,
   onSelect,
+  targetTabId = null,
+  oktaOrigin,
+  onOpenEntity,
+  onExportGroup,
+  onCompareUser,
 }) => {
   const [query, setQuery] = useState('');
   // Roving tabindex anchor: exactly one row is in the tab order at a time.
@@ -106,6 +149,28 @@ const TabJumpPalette: React.FC<TabJumpPaletteProps> = ({
     return all.filter((result) => result.label.toLowerCase().includes(needle));
   }, [query]);
 
+  const searchesEntities = targetTabId !== null && onOpenEntity !== undefined;
+  const { sections, isSearching } = usePaletteSearch({
+    query,
+    targetTabId,
+    enabled: isOpen && searchesEntities,
+  });
+
+  const rows = useMemo<PaletteRow[]>(
+    () => [
+      ...results.map((tab): PaletteRow => ({ kind: 'tab', key: `tab:${tab.id}`, tab })),
+      ...sections.flatMap((section) =>
+        section.results.map((entity): PaletteRow => ({
+          kind: 'entity',
+          key: `${entity.kind}:${entity.id}`,
+          entity,
+        })),
+      ),
+    ],
+    [results, sections],
+  );
+  const entityCount = rows.length - results.length;
+
   // Every open starts from a clean palette. Adjusted during render (React's
   // "adjusting state when a prop changes" pattern, the same shape `Modal` uses
   // for its own mount-hold) rather than in an effect, so the first committed
@@ -141,16 +206,29 @@ const TabJumpPalette: React.FC<TabJumpPaletteProps> = ({
     [onSelect, onClose],
   );
 
+  const handleOpenEntity = useCallback(
+    (entity: PaletteEntity) => {
+      onOpenEntity?.(entity);
+      onClose();
+    },
+    [onOpenEntity, onClose],
+  );
+
+  const handleActivate = (row: PaletteRow) => {
+    if (row.kind === 'tab') handleSelect(row.tab.id);
+    else handleOpenEntity(row.entity);
+  };
+
   /** Move roving focus to `index`, wrapping at both ends. No-op with no results. */
   const focusRow = useCallback(
     (index: number) => {
-      const count = results.length;
+      const count = rows.length;
       if (count === 0) return;
       const next = ((index % count) + count) % count;
       setActiveIndex(next);
       rowRefs.current[next]?.focus();
     },
-    [results.length],
+    [rows.length],
   );
 
   const handleQueryChange = useCallback((value: string) => {
@@ -165,11 +243,11 @@ const TabJumpPalette: React.FC<TabJumpPaletteProps> = ({
       focusRow(0);
     } else if (event.key === 'ArrowUp') {
       event.preventDefault();
-      focusRow(results.length - 1);
+      focusRow(rows.length - 1);
     } else if (event.key === 'Enter') {
       event.preventDefault();
-      const top = results[0];
-      if (top) handleSelect(top.id);
+      const top = rows[0];
+      if (top) handleActivate(top);
     }
   };
 
@@ -191,77 +269,203 @@ const TabJumpPalette: React.FC<TabJumpPaletteProps> = ({
     }
   };
 
+  /** Keep a row's shortcuts on its roving anchor: tabbable only while it is. */
+  const actionProps = (index: number) => ({
+    tabIndex: index === activeIndex ? 0 : -1,
+    onKeyDown: (event: React.KeyboardEvent<HTMLElement>) => handleRowKeyDown(event, index),
+  });
+
+  const renderTabRow = (result: JumpResult, index: number) => {
+    const isCurrent = result.id === activeTab;
+    return (
+      <li key={result.id}>
+        {/*
+          §3 exception — raw <button>. A palette row is a left-aligned
+          icon + label + status row with a roving `tabIndex` and a ref for
+          programmatic focus. Shared `Button` is a centred CTA and exposes
+          neither `tabIndex` nor a ref, and the difference is structural
+          rather than stylistic, so a variant would not discharge it. See
+          docs/components.md.
+        */}
+        <button
+          type="button"
+          ref={(el) => {
+            rowRefs.current[index] = el;
+          }}
+          tabIndex={index === activeIndex ? 0 : -1}
+          aria-current={isCurrent ? 'page' : undefined}
+          onClick={() => handleSelect(result.id)}
+          onKeyDown={(event) => handleRowKeyDown(event, index)}
+          className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-left text-sm
+            transition-colors duration-(--dur-instant)
+            focus:outline-2 focus:outline-offset-2 focus:outline-primary
+            ${
+              isCurrent
+                ? 'bg-primary-light text-primary-text font-semibold'
+                : 'text-neutral-900 hover:bg-neutral-50'
+            }`}
+        >
+          <Icon
+            type={result.icon}
+            size="sm"
+            className={isCurrent ? 'text-primary-text' : 'text-neutral-500'}
+          />
+          <span className="flex-1">{result.label}</span>
+          {isCurrent && <span className="text-xs font-medium">Current</span>}
+        </button>
+      </li>
+    );
+  };
+
+  const renderEntityRow = (entity: PaletteEntity, index: number) => {
+    const adminUrl = entityAdminUrl(oktaOrigin, entity);
+    return (
+      <li key={`${entity.kind}:${entity.id}`} className="flex items-center gap-1">
+        {/* §3 exception — raw <button>, for the same reasons as a section row. */}
+        <button
+          type="button"
+          ref={(el) => {
+            rowRefs.current[index] = el;
+          }}
+          tabIndex={index === activeIndex ? 0 : -1}
+          onClick={() => handleOpenEntity(entity)}
+          onKeyDown={(event) => handleRowKeyDown(event, index)}
+          className="flex-1 min-w-0 flex items-center gap-3 px-3 py-2 rounded-md text-left text-sm
+            text-neutral-900 hover:bg-neutral-50 transition-colors duration-(--dur-instant)
+            focus:outline-2 focus:outline-offset-2 focus:outline-primary"
+        >
+          <Icon type={PALETTE_KINDS[entity.kind].icon} size="sm" className="text-neutral-500" />
+          <span className="flex-1 min-w-0 truncate">{entity.label}</span>
+          {entity.detail && (
+            <span className="shrink-0 max-w-[40%] truncate text-xs text-neutral-500">
+              {entity.detail}
+            </span>
+          )}
+        </button>
+        {entity.kind === 'group' && onExportGroup && (
+          <button
+            type="button"
+            {...actionProps(index)}
+            aria-label={`Export members of ${entity.label}`}
+            onClick={() => {
+              onExportGroup(entity.id, entity.label);
+              onClose();
+            }}
+            className={ACTION_CLASS}
+          >
+            Export
+          </button>
+        )}
+        {entity.kind === 'user' && onCompareUser && (
+          <button
+            type="button"
+            {...actionProps(index)}
+            aria-label={`Compare ${entity.label} with…`}
+            onClick={() => {
+              onCompareUser(entity.id);
+              onClose();
+            }}
+            className={ACTION_CLASS}
+          >
+            Compare
+          </button>
+        )}
+        {adminUrl && (
+          <a
+            href={adminUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            {...actionProps(index)}
+            aria-label={`Open ${entity.label} in Okta`}
+            title="Open in the Okta Admin Console"
+            className={ACTION_CLASS}
+          >
+            <Icon type="external-link" size="sm" />
+          </a>
+        )}
+      </li>
+    );
+  };
+
+  const sectionLabel = `${results.length} ${results.length === 1 ? 'section' : 'sections'} available`;
+  const entityLabel =
+    entityCount > 0 ? `, ${entityCount} ${entityCount === 1 ? 'result' : 'results'}` : '';
+
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="Jump to section" size="md">
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={searchesEntities ? 'Jump to' : 'Jump to section'}
+      size="md"
+    >
       <Input
         type="search"
         value={query}
         onChange={handleQueryChange}
         onKeyDown={handleFieldKeyDown}
         inputRef={inputRef}
-        ariaLabel="Search sections"
-        placeholder="Search sections…"
+        ariaLabel={
+          searchesEntities
+            ? 'Search sections, groups, users, rules, apps and policies'
+            : 'Search sections'
+        }
+        placeholder={searchesEntities ? 'Search sections, groups, users…' : 'Search sections…'}
         icon={<Icon type="search" size="sm" />}
       />
 
       {/* Roving focus gives no implicit result announcement the way a combobox
           would, so the count is announced explicitly as the query narrows. */}
       <p role="status" className="sr-only">
-        {results.length} {results.length === 1 ? 'section' : 'sections'} available
+        {sectionLabel}
+        {entityLabel}
+        {isSearching ? ', searching' : ''}
       </p>
 
-      {results.length === 0 ? (
-        <EmptyState
-          icon="search"
-          title="No sections match"
-          description="No top-level section has that name. Try a shorter search."
-        />
+      {rows.length === 0 && !isSearching ? (
+        searchesEntities ? (
+          <EmptyState
+            icon="search"
+            title="Nothing matches"
+            description="No section, group, user, rule, app or policy has that name. Try a shorter search."
+          />
+        ) : (
+          <EmptyState
+            icon="search"
+            title="No sections match"
+            description="No top-level section has that name. Try a shorter search."
+          />
+        )
       ) : (
-        // `.rise-in-stagger` steps its direct children 24ms apart, capped at the
-        // 8th by pure CSS `:nth-child` — no index prop reaches a row.
-        <ul className="mt-3 rise-in-stagger">
-          {results.map((result, index) => {
-            const isCurrent = result.id === activeTab;
-            return (
-              <li key={result.id}>
-                {/*
-                  §3 exception — raw <button>. A palette row is a left-aligned
-                  icon + label + status row with a roving `tabIndex` and a ref for
-                  programmatic focus. Shared `Button` is a centred CTA and exposes
-                  neither `tabIndex` nor a ref, and the difference is structural
-                  rather than stylistic, so a variant would not discharge it. See
-                  docs/components.md.
-                */}
-                <button
-                  type="button"
-                  ref={(el) => {
-                    rowRefs.current[index] = el;
-                  }}
-                  tabIndex={index === activeIndex ? 0 : -1}
-                  aria-current={isCurrent ? 'page' : undefined}
-                  onClick={() => handleSelect(result.id)}
-                  onKeyDown={(event) => handleRowKeyDown(event, index)}
-                  className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-left text-sm
-                    transition-colors duration-(--dur-instant)
-                    focus:outline-2 focus:outline-offset-2 focus:outline-primary
-                    ${
-                      isCurrent
-                        ? 'bg-primary-light text-primary-text font-semibold'
-                        : 'text-neutral-900 hover:bg-neutral-50'
-                    }`}
-                >
-                  <Icon
-                    type={result.icon}
-                    size="sm"
-                    className={isCurrent ? 'text-primary-text' : 'text-neutral-500'}
-                  />
-                  <span className="flex-1">{result.label}</span>
-                  {isCurrent && <span className="text-xs font-medium">Current</span>}
-                </button>
-              </li>
-            );
-          })}
-        </ul>
+        <div className="mt-3 space-y-3">
+          {results.length > 0 && (
+            // `.rise-in-stagger` steps its direct children 24ms apart, capped at the
+            // 8th by pure CSS `:nth-child` — no index prop reaches a row.
+            <ul className="rise-in-stagger">
+              {results.map((result, index) => renderTabRow(result, index))}
+            </ul>
+          )}
+          {(() => {
+            // Entity rows continue the roving index after the section rows.
+            let offset = results.length;
+            return sections.map((section) => {
+              const first = offset;
+              offset += section.results.length;
+              return (
+                <section key={section.kind} aria-label={section.title}>
+                  <h3 className="px-3 pb-1 text-xs font-semibold uppercase tracking-wide text-neutral-500">
+                    {section.title}
+                  </h3>
+                  <ul>{section.results.map((entity, i) => renderEntityRow(entity, first + i))}</ul>
+                </section>
+              );
+            });
+          })()}
+          {isSearching && (
+            <p className="px-3 text-xs text-neutral-500" aria-hidden="true">
+              Searching…
+            </p>
+          )}
+        </div>
       )}
 
       <p className="mt-4 text-xs text-neutral-500">
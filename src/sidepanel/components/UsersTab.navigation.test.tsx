@@ -457,6 +457,22 @@ describe('UsersTab sub-navigation', () => {
     expect(screen.getByRole('button', { name: /Compare/ }).closest('div.hidden')).toBeNull();
   });
 
+  it('lands a "Compare with…" deep link on the comparison, one rung past the profile', async () => {
+    const onUserSelected = vi.fn();
+    render(
+      <UsersTab
+        targetTabId={1}
+        selectedUserId="u1"
+        compareSelectedUser
+        onUserSelected={onUserSelected}
+      />,
+    );
+
+    await screen.findByRole('button', { name: 'Back to user' });
+    expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent('Compare users');
+    expect(onUserSelected).toHaveBeenCalledTimes(1);
+  });
+
   it('pops the stack when the selection is cleared, so no view outlives its host', async () => {
     const uev = userEvent.setup();
     await renderWithAda(uev);
@@ -51,9 +51,10 @@ vi.mock('../../shared/rulesCache', () => ({
   RulesCache: { get: rulesCacheGet, set: rulesCacheSet },
 }));
 
-// addUserToGroup logs an undo action on success.
+// addUserToGroup and suspend/unsuspend log an undo action on success.
 vi.mock('../../shared/undoManager', () => ({
   logAction: vi.fn(),
+  logUserStatusAction: vi.fn(),
   logBulkRemoveAction: vi.fn(),
   logBulkAddAction: vi.fn(),
 }));
@@ -51,6 +51,15 @@
  * strip's **More** disclosure; the tier's open state is owned here rather than in
  * the strip, so it collapses whenever the rung changes.
  *
+ * The spreadsheet profile update ({@link BulkProfileUpdateModal}) opens from the
+ * search rung, since it is about many users rather than the one open. When the
+ * user you have open is among those it saved, Okta's returned user replaces the
+ * shown one and their memberships reload — a profile write can move rule-driven
+ * membership. The all-admins report ({@link AdminsReportModal}) opens from the
+ * same place for the same reason, as does the bulk lifecycle console
+ * ({@link BulkLifecycleModal}); when it changes the user you have open, their
+ * status is re-read.
+ *
  * There is deliberately **no Export button**: the Export tab has no user-scoped
  * descriptor to open, and a control that does nothing is worse than an absent
  * one. See {@link UserActionBar} for the full note.
@@ -70,6 +79,9 @@ import React, { useRef, useState } from 'react';
 import AlertMessage from './shared/AlertMessage';
 import {
   AddToGroupModal,
+  AdminsReportModal,
+  BulkLifecycleModal,
+  BulkProfileUpdateModal,
   UserActionBar,
   UserComparisonPanel,
   UserDetailPanel,
@@ -77,6 +89,9 @@ import {
   UserSearchPanel,
 } from './users';
 import { useUsersTabState } from '../hooks/useUsersTabState';
+import { useBulkProfileUpdate } from '../hooks/useBulkProfileUpdate';
+import { useBulkLifecycle } from '../hooks/useBulkLifecycle';
+import type { OktaUser } from '../../shared/types';
 
 interface UsersTabProps {
   /** Chrome tab id of the connected Okta tab; required for all user/group API calls. */
@@ -91,6 +106,8 @@ interface UsersTabProps {
   selectedUserId?: string | null;
   /** Invoked once {@link UsersTabProps.selectedUserId} has been consumed. */
   onUserSelected?: () => void;
+  /** With `selectedUserId`, also open the comparison view once that user loads. */
+  compareSelectedUser?: boolean;
   /**
    * Whether this is the selected top-level tab. The tab stays mounted while
    * hidden ({@link App} hides rather than unmounts it, so the selected user and
@@ -111,6 +128,7 @@ const UsersTab: React.FC<UsersTabProps> = ({
   currentGroupId,
   selectedUserId,
   onUserSelected,
+  compareSelectedUser,
   isActive = true,
 }) => {
   const compareViewRef = useRef<HTMLDivElement>(null);
@@ -118,6 +136,7 @@ const UsersTab: React.FC<UsersTabProps> = ({
     targetTabId,
     selectedUserId,
     onUserSelected,
+    compareSelectedUser,
     isActive,
     compareViewRef,
   });
@@ -146,6 +165,30 @@ const UsersTab: React.FC<UsersTabProps> = ({
     setManageOpen(false);
   }
 
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [adminsOpen, setAdminsOpen] = useState(false);
+  const onBulkApplied = (savedUsers: OktaUser[]) => {
+    const saved = savedUsers.find((user) => user.id === selectedUser?.id);
+    if (!saved) return;
+    state.applySelectedUserUpdate(saved);
+    state.refreshSelectedUserMemberships();
+  };
+  const bulkUpdate = useBulkProfileUpdate(targetTabId, onBulkApplied);
+  const closeBulkUpdate = () => {
+    setBulkOpen(false);
+    bulkUpdate.reset();
+  };
+
+  const [lifecycleOpen, setLifecycleOpen] = useState(false);
+  const onLifecycleApplied = (userIds: string[]) => {
+    if (selectedUser && userIds.includes(selectedUser.id)) void lifecycle.refreshStatus();
+  };
+  const bulkLifecycle = useBulkLifecycle(targetTabId, onLifecycleApplied);
+  const closeBulkLifecycle = () => {
+    setLifecycleOpen(false);
+    bulkLifecycle.reset();
+  };
+
   return (
     <div className="tab-content active" style={{ fontFamily: 'var(--font-primary)', padding: 0 }}>
       {/*
@@ -217,6 +260,9 @@ const UsersTab: React.FC<UsersTabProps> = ({
                 />
               ) : undefined
             }
+            onBulkUpdate={targetTabId != null ? () => setBulkOpen(true) : undefined}
+            onBulkLifecycle={targetTabId != null ? () => setLifecycleOpen(true) : undefined}
+            onAdminsReport={targetTabId != null ? () => setAdminsOpen(true) : undefined}
           />
         </div>
 
@@ -278,6 +324,7 @@ const UsersTab: React.FC<UsersTabProps> = ({
                 currentGroupId={currentGroupId}
                 recentlyAddedGroupId={state.recentlyAddedGroupId}
                 onProveMembershipSource={state.proveMembershipSource}
+                onLoadMembershipTimeline={state.loadMembershipTimeline}
                 apps={panes.apps}
                 isLoadingApps={panes.isLoadingApps}
                 appsComplete={panes.appsComplete}
@@ -290,6 +337,10 @@ const UsersTab: React.FC<UsersTabProps> = ({
                 onProfileConfigReset={panes.resetProfileConfig}
                 ruleReads={panes.ruleReads}
                 profileEdit={state.profileEdit}
+                adminRoles={state.adminRoles}
+                factors={state.factors}
+                linkedObjects={state.linkedObjects}
+                onCompareWith={state.compareWith}
               />
             </div>
 
@@ -309,6 +360,7 @@ const UsersTab: React.FC<UsersTabProps> = ({
                   targetTabId={targetTabId}
                   onGroupsChanged={state.refreshSelectedUserMemberships}
                   onContextUserUpdated={state.applySelectedUserUpdate}
+                  initialComparedUser={state.comparedWith}
                 />
               </div>
             )}
@@ -332,6 +384,47 @@ const UsersTab: React.FC<UsersTabProps> = ({
         onClose={addToGroup.closeModal}
         onConfirm={state.confirmAddToGroup}
       />
+
+      <BulkProfileUpdateModal
+        isOpen={bulkOpen}
+        phase={bulkUpdate.phase}
+        plan={bulkUpdate.plan}
+        impact={bulkUpdate.impact}
+        isAnalyzing={bulkUpdate.isAnalyzing}
+        impactError={bulkUpdate.impactError}
+        result={bulkUpdate.result}
+        error={bulkUpdate.error}
+        onPreview={bulkUpdate.preview}
+        onAnalyzeImpact={bulkUpdate.analyzeImpact}
+        onExecute={bulkUpdate.execute}
+        onDownloadResults={bulkUpdate.downloadResults}
+        onBack={bulkUpdate.reset}
+        onClose={closeBulkUpdate}
+      />
+
+      <BulkLifecycleModal
+        isOpen={lifecycleOpen}
+        phase={bulkLifecycle.phase}
+        action={bulkLifecycle.action}
+        plan={bulkLifecycle.plan}
+        result={bulkLifecycle.result}
+        error={bulkLifecycle.error}
+        groupOptions={bulkLifecycle.groupOptions}
+        isFindingGroups={bulkLifecycle.isFindingGroups}
+        savedFilters={bulkLifecycle.savedFilters}
+        onActionChange={bulkLifecycle.setAction}
+        onFindGroups={bulkLifecycle.findGroups}
+        onPreview={bulkLifecycle.preview}
+        onExecute={bulkLifecycle.execute}
+        onBack={bulkLifecycle.reset}
+        onClose={closeBulkLifecycle}
+      />
+
+      <AdminsReportModal
+        isOpen={adminsOpen}
+        onClose={() => setAdminsOpen(false)}
+        targetTabId={targetTabId ?? null}
+      />
     </div>
   );
 };
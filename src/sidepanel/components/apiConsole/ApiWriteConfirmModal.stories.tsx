@@ -0,0 +1,42 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import ApiWriteConfirmModal from './ApiWriteConfirmModal';
+
+/** The confirmation between an armed API Console write and the request. */
+const meta = {
+  title: 'Console/ApiWriteConfirmModal',
+  component: ApiWriteConfirmModal,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Opens from the pending request itself and shows exactly what will be sent. A `DELETE` ' +
+          'confirms with the danger button.',
+      },
+    },
+  },
+  args: {
+    pending: {
+      method: 'POST',
+      path: '/api/v1/groups',
+      body: { profile: { name: 'Contractors', description: 'Fake group for the story' } },
+      priority: 'normal',
+    },
+    onCancel: fn(),
+    onConfirm: fn(),
+  },
+} satisfies Meta<typeof ApiWriteConfirmModal>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** A create with a body. */
+export const Post: Story = {};
+
+/** A delete: no body, danger confirmation. */
+export const Delete: Story = {
+  args: {
+    pending: { method: 'DELETE', path: '/api/v1/groups/00gFAKE1', priority: 'high' },
+  },
+};
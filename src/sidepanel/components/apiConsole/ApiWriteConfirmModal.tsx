@@ -0,0 +1,84 @@
+/**
+ * @module sidepanel/components/apiConsole/ApiWriteConfirmModal
+ * @description The confirmation between an armed API Console write and the
+ * request.
+ *
+ * Opens from `pending` — the nullable request itself — like
+ * `AdminRoleConfirmModal`, and shows exactly what will be sent: the method, the
+ * path and the body. A console write has no undo, so the modal says so, and
+ * says that it is audited.
+ *
+ * The body is tenant data and renders as React text.
+ */
+import React from 'react';
+import { AlertMessage, Badge, Button, Modal } from '../shared';
+import type { ApiConsoleRequest } from '../../hooks/useOktaApi/apiConsole';
+
+/** Props for {@link ApiWriteConfirmModal}. */
+export interface ApiWriteConfirmModalProps {
+  /** The write awaiting confirmation; `null` keeps the modal closed. */
+  pending: ApiConsoleRequest | null;
+  /** Dismiss without sending. */
+  onCancel: () => void;
+  /** Send the request. */
+  onConfirm: () => void;
+}
+
+/**
+ * Confirms one API Console write.
+ *
+ * @param props - See {@link ApiWriteConfirmModalProps}.
+ */
+const ApiWriteConfirmModal: React.FC<ApiWriteConfirmModalProps> = ({
+  pending,
+  onCancel,
+  onConfirm,
+}) => (
+  <Modal
+    isOpen={pending !== null}
+    onClose={onCancel}
+    title="Send Write Request"
+    size="sm"
+    footer={
+      <>
+        <Button variant="secondary" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          variant={pending?.method === 'DELETE' ? 'danger' : 'primary'}
+          size="sm"
+          onClick={onConfirm}
+        >
+          Send {pending?.method}
+        </Button>
+      </>
+    }
+  >
+    {pending && (
+      <div className="space-y-3">
+        <p className="flex flex-wrap items-center gap-2 text-sm text-neutral-700">
+          <Badge variant={pending.method === 'DELETE' ? 'danger' : 'warning'}>
+            {pending.method}
+          </Badge>
+          <code className="break-all font-mono text-xs text-neutral-900">{pending.path}</code>
+        </p>
+        {pending.body !== undefined && (
+          <pre
+            className="max-h-48 overflow-auto rounded-md bg-neutral-50 p-2 font-mono text-xs text-neutral-900"
+            aria-label="Request body"
+          >
+            {JSON.stringify(pending.body, null, 2)}
+          </pre>
+        )}
+        <AlertMessage
+          message={{
+            text: 'This changes data in the org and cannot be undone from History. It is recorded in the audit log.',
+            type: 'warning',
+          }}
+        />
+      </div>
+    )}
+  </Modal>
+);
+
+export default ApiWriteConfirmModal;
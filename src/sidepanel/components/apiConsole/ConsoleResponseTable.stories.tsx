@@ -0,0 +1,39 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import ConsoleResponseTable from './ConsoleResponseTable';
+import { detectTable } from '../../../shared/apiConsole/apiConsole';
+
+const users = [
+  {
+    id: '00uFAKE1',
+    status: 'ACTIVE',
+    profile: { login: 'ada.lovelace@example.com', firstName: 'Ada', department: 'Engineering' },
+  },
+  {
+    id: '00uFAKE2',
+    status: 'SUSPENDED',
+    profile: { login: 'alan.turing@example.com', firstName: 'Alan' },
+  },
+];
+
+/** A list response laid out as a table. */
+const meta = {
+  title: 'Console/ConsoleResponseTable',
+  component: ConsoleResponseTable,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Columns are the items’ top-level scalar fields, then their `profile.*` ones, capped; ' +
+          'a missing field is a blank cell.',
+      },
+    },
+  },
+  args: { table: detectTable(users) ?? { columns: [], rows: [] } },
+} satisfies Meta<typeof ConsoleResponseTable>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Two users. */
+export const Default: Story = {};
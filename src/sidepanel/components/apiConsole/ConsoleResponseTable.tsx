@@ -0,0 +1,58 @@
+/**
+ * @module sidepanel/components/apiConsole/ConsoleResponseTable
+ * @description A list response laid out as a table — one row per item, one
+ * column per scalar field, `profile.*` fields after the top-level ones.
+ *
+ * The columns come from `detectTable` (`shared/apiConsole/apiConsole`), which
+ * caps them; the tree beside this holds every field. Values are tenant data and
+ * render as React text.
+ */
+import React from 'react';
+import type { ConsoleTable } from '../../../shared/apiConsole/apiConsole';
+
+/** Props for {@link ConsoleResponseTable}. */
+export interface ConsoleResponseTableProps {
+  table: ConsoleTable;
+}
+
+/**
+ * Renders a detected table, scrolling sideways when it is wider than the panel.
+ *
+ * @param props - See {@link ConsoleResponseTableProps}.
+ */
+const ConsoleResponseTable: React.FC<ConsoleResponseTableProps> = ({ table }) => (
+  <div className="overflow-x-auto rounded-md border border-neutral-200">
+    <table className="min-w-full text-left text-xs" aria-label="Response table">
+      <thead className="bg-neutral-50">
+        <tr>
+          {table.columns.map((column) => (
+            <th
+              key={column}
+              scope="col"
+              className="whitespace-nowrap px-2 py-1.5 font-semibold text-neutral-700"
+            >
+              {column}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-neutral-200">
+        {table.rows.map((row, rowIndex) => (
+          <tr key={rowIndex}>
+            {row.map((cell, cellIndex) => (
+              <td
+                key={table.columns[cellIndex]}
+                className="max-w-[16rem] truncate px-2 py-1 text-neutral-900"
+                title={cell}
+              >
+                {cell}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default ConsoleResponseTable;
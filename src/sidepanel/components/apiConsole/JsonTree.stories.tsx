@@ -0,0 +1,50 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import JsonTree from './JsonTree';
+
+/** A response body as a collapsible tree. */
+const meta = {
+  title: 'Console/JsonTree',
+  component: JsonTree,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'The top level starts open and everything under it closed; a closed node renders none ' +
+          'of its children, so a long list costs only the rows the admin opens.',
+      },
+    },
+  },
+  args: {
+    label: 'Response body',
+    value: {
+      id: '00uFAKE1',
+      status: 'ACTIVE',
+      activated: null,
+      credentials: { provider: { type: 'OKTA', name: 'OKTA' } },
+      profile: { login: 'ada.lovelace@example.com', firstName: 'Ada', lastName: 'Lovelace' },
+      groupIds: ['00gFAKE1', '00gFAKE2'],
+      mfaEnrolled: true,
+      loginCount: 42,
+    },
+  },
+} satisfies Meta<typeof JsonTree>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** One object. */
+export const SingleObject: Story = {};
+
+/** A list, collapsed to its items. */
+export const List: Story = {
+  args: {
+    value: [
+      { id: '00uFAKE1', status: 'ACTIVE' },
+      { id: '00uFAKE2', status: 'SUSPENDED' },
+    ],
+  },
+};
+
+/** A scalar body. */
+export const Scalar: Story = { args: { value: 'ok' } };
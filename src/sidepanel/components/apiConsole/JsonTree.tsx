@@ -0,0 +1,98 @@
+/**
+ * @module sidepanel/components/apiConsole/JsonTree
+ * @description A response body as a collapsible tree: objects and arrays open
+ * and close, scalars show their value.
+ *
+ * The top level starts open and everything below it closed, and a closed node
+ * renders none of its children — a few pages of users is thousands of nodes,
+ * and only the ones the admin opens are worth the DOM.
+ *
+ * Values are tenant data: they render as React text, never as HTML.
+ */
+import React, { useState } from 'react';
+import Icon from '../overview/shared/Icon';
+
+/** Props for {@link JsonTree}. */
+export interface JsonTreeProps {
+  /** Any JSON value. */
+  value: unknown;
+  /** Accessible name of the tree. */
+  label: string;
+}
+
+/** A JSON object or array, as a list of its entries. */
+function entriesOf(value: object): Array<[string, unknown]> {
+  return Array.isArray(value)
+    ? value.map((item, index): [string, unknown] => [String(index), item])
+    : Object.entries(value);
+}
+
+/** One scalar, coloured by type. */
+const Scalar: React.FC<{ value: unknown }> = ({ value }) => {
+  if (value === null) return <span className="text-neutral-500">null</span>;
+  if (typeof value === 'string') {
+    return <span className="break-all text-success-text">&quot;{value}&quot;</span>;
+  }
+  return <span className="text-primary-text">{String(value)}</span>;
+};
+
+/** One entry: a scalar line, or a container that opens onto its entries. */
+const JsonNode: React.FC<{ name: string | null; value: unknown; depth: number }> = ({
+  name,
+  value,
+  depth,
+}) => {
+  const [open, setOpen] = useState(depth === 0);
+  const keyLabel = name !== null && <span className="text-neutral-600">{name}: </span>;
+
+  if (typeof value !== 'object' || value === null) {
+    return (
+      <li className="pl-5">
+        {keyLabel}
+        <Scalar value={value} />
+      </li>
+    );
+  }
+
+  const entries = entriesOf(value);
+  const summary = Array.isArray(value)
+    ? `[${entries.length} ${entries.length === 1 ? 'item' : 'items'}]`
+    : `{${entries.length} ${entries.length === 1 ? 'key' : 'keys'}}`;
+
+  return (
+    <li>
+      <button
+        type="button"
+        className="flex items-center gap-1 rounded-sm text-left hover:bg-neutral-50"
+        aria-expanded={open}
+        onClick={() => setOpen((prev) => !prev)}
+      >
+        <Icon type={open ? 'chevron-down' : 'chevron-right'} size="sm" />
+        <span>
+          {keyLabel}
+          <span className="text-neutral-500">{summary}</span>
+        </span>
+      </button>
+      {open && entries.length > 0 && (
+        <ul className="ml-2 border-l border-neutral-200 pl-2">
+          {entries.map(([key, child]) => (
+            <JsonNode key={key} name={key} value={child} depth={depth + 1} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Renders a JSON value as a collapsible tree.
+ *
+ * @param props - See {@link JsonTreeProps}.
+ */
+const JsonTree: React.FC<JsonTreeProps> = ({ value, label }) => (
+  <ul className="font-mono text-xs leading-5 text-neutral-900" aria-label={label}>
+    <JsonNode name={null} value={value} depth={0} />
+  </ul>
+);
+
+export default JsonTree;
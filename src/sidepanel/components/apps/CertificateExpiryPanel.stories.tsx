@@ -0,0 +1,127 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, fn, userEvent, within } from 'storybook/test';
+import CertificateExpiryPanel from './CertificateExpiryPanel';
+import { useOktaApi, makeUseOktaApiValue } from '../../../../.storybook/mocks/useOktaApi.mock';
+import {
+  expiryBucket,
+  type CertificateInventory,
+  type CertificateRecord,
+} from '../../../shared/certificates/certificateInventory';
+
+/** A record `days` from now; fake placeholders only. */
+const record = (
+  ownerName: string,
+  days: number | null,
+  extra: Partial<CertificateRecord> = {},
+): CertificateRecord => ({
+  source: 'app',
+  ownerId: `0oaFAKE${ownerName.replace(/\W/g, '')}`,
+  ownerName,
+  ownerStatus: 'ACTIVE',
+  kid: `kidFAKE-${ownerName.toLowerCase().replace(/\W/g, '-')}`,
+  created: '2024-01-01T00:00:00.000Z',
+  expiresAt:
+    days === null ? null : new Date(Date.now() + days * 86_400_000 + 3_600_000).toISOString(),
+  daysToExpiry: days,
+  bucket: expiryBucket(days),
+  inUse: true,
+  ...extra,
+});
+
+const INVENTORY: CertificateInventory = {
+  records: [
+    record('Payroll', 12),
+    record('Expense Reports', -3),
+    record('Partner Federation', 45, { source: 'idp' }),
+    record('Wiki', 75, { inUse: false }),
+    record('CRM', 400),
+    record('', null, { source: 'idp', ownerId: null, inUse: false }),
+  ],
+  readAt: new Date().toISOString(),
+  idpError: null,
+  appListError: null,
+  unreadableApps: [],
+};
+
+/**
+ * The signing-certificate expiry panel, shown in the Applications tab and on the
+ * Overview when no entity is in view.
+ */
+const meta = {
+  title: 'Apps/CertificateExpiryPanel',
+  component: CertificateExpiryPanel,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Reads the IdP keys and each SAML app’s signing keys on request, then lists them ' +
+          'soonest to expire first with 30/60/90-day window pills and sortable by expiry, ' +
+          'name or type. Apps whose keys could not be read are named above the list, and ' +
+          'the rows shown export as CSV.',
+      },
+    },
+  },
+  argTypes: {
+    targetTabId: { description: 'The connected Okta tab; loading is unavailable without one.' },
+  },
+  args: { targetTabId: 1 },
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({ getCertificateInventory: fn(async () => INVENTORY) }),
+    );
+  },
+} satisfies Meta<typeof CertificateExpiryPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Before a load: one action, since the read costs a request per SAML app. */
+export const Default: Story = {};
+
+/** Loaded: windowed pills, soonest first. */
+export const Loaded: Story = {
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Check certificates' }));
+    await expect(await canvas.findByRole('list', { name: 'Certificates' })).toBeInTheDocument();
+  },
+};
+
+/** Narrowed to the 30-day window. */
+export const WithinThirtyDays: Story = {
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Check certificates' }));
+    await userEvent.click(await canvas.findByRole('button', { name: /≤ 30 days/ }));
+    await expect(canvas.queryByText('CRM')).not.toBeInTheDocument();
+  },
+};
+
+/** Some reads refused: the gaps are named, not hidden. */
+export const PartiallyRead: Story = {
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({
+        getCertificateInventory: fn(async () => ({
+          ...INVENTORY,
+          records: INVENTORY.records.filter((r) => r.source === 'app'),
+          idpError: 'You do not have permission to access the feature you are requesting',
+          unreadableApps: [
+            { appId: '0oaFAKElegacy', appName: 'Legacy Portal', error: 'Forbidden' },
+          ],
+        })),
+      }),
+    );
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Check certificates' }));
+    await expect(await canvas.findByText(/Legacy Portal/)).toBeInTheDocument();
+  },
+};
+
+/** Without a connected tab there is nothing to read. */
+export const NotConnected: Story = {
+  args: { targetTabId: null },
+};
@@ -0,0 +1,103 @@
+/**
+ * Behavioral tests for the signing-certificate expiry panel.
+ *
+ * Drives the real panel and `useCertificateInventory` against a stubbed
+ * `useOktaApi`, pinning: nothing is read until asked, records list soonest first
+ * with bucket counts, a window pill narrows the list and the export to it, the
+ * sort flips on a second click, and unreadable apps are named.
+ *
+ * Fixtures use only fake placeholders (`0oaFAKE…`, `kidFAKE…`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import {
+  expiryBucket,
+  type CertificateInventory,
+  type CertificateRecord,
+} from '../../../shared/certificates/certificateInventory';
+
+const api = vi.hoisted(() => ({
+  getCertificateInventory: vi.fn(),
+  runExport: vi.fn(),
+  cancelOperation: vi.fn(),
+}));
+
+vi.mock('../../hooks/useOktaApi', () => ({ useOktaApi: () => api }));
+
+import CertificateExpiryPanel from './CertificateExpiryPanel';
+
+const record = (ownerName: string, days: number | null): CertificateRecord => ({
+  source: 'app',
+  ownerId: `0oaFAKE${ownerName}`,
+  ownerName,
+  kid: `kidFAKE${ownerName}`,
+  created: null,
+  expiresAt: days === null ? null : '2026-04-01T00:00:00.000Z',
+  daysToExpiry: days,
+  bucket: expiryBucket(days),
+  inUse: true,
+});
+
+const inventory: CertificateInventory = {
+  records: [record('Wiki', 75), record('Payroll', 12), record('CRM', 400)],
+  readAt: '2026-03-02T12:00:00.000Z',
+  idpError: null,
+  appListError: null,
+  unreadableApps: [{ appId: '0oaFAKElegacy', appName: 'Legacy', error: 'Forbidden' }],
+};
+
+const names = () =>
+  within(screen.getByRole('list', { name: 'Certificates' }))
+    .getAllByRole('listitem')
+    .map((item) => ['Wiki', 'Payroll', 'CRM'].find((n) => item.textContent?.includes(n)));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  api.getCertificateInventory.mockResolvedValue(inventory);
+  api.runExport.mockResolvedValue(undefined);
+});
+
+const loadPanel = async () => {
+  render(<CertificateExpiryPanel targetTabId={1} />);
+  await userEvent.click(screen.getByRole('button', { name: 'Check certificates' }));
+  await screen.findByRole('list', { name: 'Certificates' });
+};
+
+describe('CertificateExpiryPanel', () => {
+  it('reads nothing until asked, then lists soonest first with counts', async () => {
+    render(<CertificateExpiryPanel targetTabId={1} />);
+    expect(api.getCertificateInventory).not.toHaveBeenCalled();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Check certificates' }));
+    await screen.findByRole('list', { name: 'Certificates' });
+
+    expect(names()).toEqual(['Payroll', 'Wiki', 'CRM']);
+    expect(screen.getByRole('button', { name: '≤ 30 days (1)' })).toBeInTheDocument();
+    expect(screen.getByText(/Legacy/)).toBeInTheDocument();
+  });
+
+  it('narrows the list and the export to a window', async () => {
+    await loadPanel();
+
+    await userEvent.click(screen.getByRole('button', { name: '61–90 days (1)' }));
+    expect(names()).toEqual(['Wiki']);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Export CSV' }));
+    expect(api.runExport).toHaveBeenCalledWith(
+      expect.objectContaining({ rows: [expect.objectContaining({ ownerName: 'Wiki' })] }),
+    );
+  });
+
+  it('flips the sort on a second click', async () => {
+    await loadPanel();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Expiry' }));
+    expect(names()).toEqual(['CRM', 'Wiki', 'Payroll']);
+  });
+
+  it('cannot load without a connected tab', () => {
+    render(<CertificateExpiryPanel targetTabId={null} />);
+    expect(screen.getByRole('button', { name: 'Check certificates' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * @module sidepanel/components/apps/CertificateExpiryPanel
+ * @description The org's SAML signing certificates, soonest to expire first, in
+ * 30/60/90-day buckets.
+ *
+ * Shown in the Applications tab (its own view, from the header) and on the
+ * Overview when no entity is in view. Loading reads the IdP keys and one key
+ * list per SAML app (`hooks/useCertificateInventory`), so it runs from a click
+ * and the panel says when the list was read.
+ *
+ * A key Okta gives no expiry for is listed under "No expiry date", never left
+ * out. Apps whose keys could not be read, and an IdP or app-list read that
+ * failed, are named above the list so a partial inventory is not read as whole.
+ * The rows shown — bucket filter applied — are what the export writes.
+ */
+import React from 'react';
+import {
+  AlertMessage,
+  Badge,
+  Button,
+  FilterPill,
+  ListRow,
+  SortPill,
+  type BadgeVariant,
+} from '../shared';
+import {
+  describeDaysToExpiry,
+  EXPIRY_BUCKET_LABEL,
+  EXPIRY_BUCKETS,
+  type CertificateRecord,
+  type CertificateSortKey,
+  type ExpiryBucket,
+} from '../../../shared/certificates/certificateInventory';
+import { formatDate, formatDateShort } from '../../../shared/utils/dateFormat';
+import { useCertificateInventory } from '../../hooks/useCertificateInventory';
+
+/** Props for {@link CertificateExpiryPanel}. */
+export interface CertificateExpiryPanelProps {
+  /** The connected Okta tab; loading is unavailable without one. */
+  targetTabId: number | null;
+}
+
+const BUCKET_VARIANT: Record<ExpiryBucket, BadgeVariant> = {
+  expired: 'danger',
+  'days-30': 'danger',
+  'days-60': 'warning',
+  'days-90': 'warning',
+  later: 'success',
+  unknown: 'neutral',
+};
+
+const SORT_LABEL: Record<CertificateSortKey, string> = {
+  expiry: 'Expiry',
+  owner: 'Name',
+  source: 'Type',
+};
+
+/** What a record's in-use flag means, in words. */
+function inUseText(record: CertificateRecord): string | null {
+  if (record.inUse === null) return 'in use: unknown';
+  if (record.inUse) return null;
+  return record.source === 'idp' && !record.ownerId ? 'not used by any IdP' : 'not in use';
+}
+
+/** One certificate. */
+const CertificateRow: React.FC<{ record: CertificateRecord }> = ({ record }) => {
+  const note = inUseText(record);
+  return (
+    <ListRow as="li" density="compact">
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs">
+        <Badge variant={BUCKET_VARIANT[record.bucket]}>{EXPIRY_BUCKET_LABEL[record.bucket]}</Badge>
+        <span className="font-medium text-neutral-900">
+          {record.ownerName || 'Identity provider key'}
+        </span>
+        <span className="text-neutral-500">{record.source === 'idp' ? 'IdP' : 'App'}</span>
+        {note && <span className="text-neutral-500">({note})</span>}
+      </div>
+      <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-neutral-600">
+        {record.expiresAt ? (
+          <time dateTime={record.expiresAt} title={formatDate(record.expiresAt)}>
+            Expires {formatDateShort(record.expiresAt)} —{' '}
+            {describeDaysToExpiry(record.daysToExpiry)}
+          </time>
+        ) : (
+          <span>{describeDaysToExpiry(null)}</span>
+        )}
+        <span className="font-mono text-neutral-500" title="Key ID">
+          {record.kid}
+        </span>
+      </div>
+    </ListRow>
+  );
+};
+
+/**
+ * Renders the certificate inventory: the load action, bucket and sort controls,
+ * then the list.
+ *
+ * @param props - See {@link CertificateExpiryPanelProps}.
+ */
+const CertificateExpiryPanel: React.FC<CertificateExpiryPanelProps> = ({ targetTabId }) => {
+  const {
+    status,
+    inventory,
+    error,
+    visible,
+    counts,
+    sortKey,
+    sortDirection,
+    sortBy,
+    bucket,
+    setBucket,
+    load,
+    cancel,
+    exportVisible,
+  } = useCertificateInventory(targetTabId);
+  const loading = status === 'loading';
+
+  return (
+    <div className="space-y-3" aria-label="Signing certificates">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant={inventory ? 'secondary' : 'primary'}
+          size="sm"
+          icon={inventory ? 'refresh' : 'key'}
+          onClick={() => void load()}
+          loading={loading}
+          disabled={loading || targetTabId == null}
+          title="Read the IdP keys and each SAML app's keys (one request per app)"
+        >
+          {inventory ? 'Reload' : 'Check certificates'}
+        </Button>
+        {loading && (
+          <Button variant="ghost" size="sm" onClick={cancel}>
+            Cancel
+          </Button>
+        )}
+        {inventory && (
+          <Button
+            variant="secondary"
+            size="sm"
+            icon="download"
+            onClick={() => void exportVisible()}
+            disabled={visible.length === 0}
+          >
+            Export CSV
+          </Button>
+        )}
+        {inventory && (
+          <span className="text-xs text-neutral-500">Read {formatDate(inventory.readAt)}</span>
+        )}
+      </div>
+
+      {error && <AlertMessage message={{ text: error, type: 'danger' }} />}
+
+      {inventory?.idpError && (
+        <AlertMessage
+          message={{
+            text: `IdP certificates could not be read (${inventory.idpError}); only app certificates are listed.`,
+            type: 'warning',
+          }}
+        />
+      )}
+      {inventory?.appListError && (
+        <AlertMessage
+          message={{
+            text: `The app list could not be read (${inventory.appListError}); only IdP certificates are listed.`,
+            type: 'warning',
+          }}
+        />
+      )}
+      {inventory && inventory.unreadableApps.length > 0 && (
+        <AlertMessage
+          message={{
+            text: `Certificates for ${inventory.unreadableApps.length} app(s) could not be read and are missing below: ${inventory.unreadableApps
+              .map((app) => app.appName)
+              .join(', ')}.`,
+            type: 'warning',
+          }}
+        />
+      )}
+
+      {inventory && counts && (
+        <>
+          <div className="flex flex-wrap gap-1.5" role="group" aria-label="Expiry window">
+            <FilterPill active={bucket === null} onClick={() => setBucket(null)}>
+              All ({inventory.records.length})
+            </FilterPill>
+            {EXPIRY_BUCKETS.filter((b) => b !== 'unknown' || counts.unknown > 0).map((b) => (
+              <FilterPill
+                key={b}
+                active={bucket === b}
+                onClick={() => setBucket(bucket === b ? null : b)}
+              >
+                {EXPIRY_BUCKET_LABEL[b]} ({counts[b]})
+              </FilterPill>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-1.5" role="group" aria-label="Sort by">
+            {(Object.keys(SORT_LABEL) as CertificateSortKey[]).map((key) => (
+              <SortPill
+                key={key}
+                field={key}
+                label={SORT_LABEL[key]}
+                activeField={sortKey}
+                descending={sortDirection === 'desc'}
+                onToggle={sortBy}
+              />
+            ))}
+          </div>
+
+          {visible.length === 0 ? (
+            <p className="text-xs text-neutral-500">
+              {inventory.records.length === 0
+                ? 'No SAML signing certificates found.'
+                : 'No certificates in this window.'}
+            </p>
+          ) : (
+            <ul className="space-y-1.5" aria-label="Certificates">
+              {visible.map((record) => (
+                <CertificateRow
+                  key={`${record.source}-${record.ownerId ?? 'none'}-${record.kid}`}
+                  record={record}
+                />
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CertificateExpiryPanel;
@@ -0,0 +1,80 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, fn, userEvent, within } from 'storybook/test';
+import GroupPushPanel from './GroupPushPanel';
+import { useOktaApi, makeUseOktaApiValue } from '../../../../.storybook/mocks/useOktaApi.mock';
+import type { GroupPushLink } from '../../../shared/groupPush/groupPush';
+import type { OktaAppListItem } from '../../../shared/schemas/okta';
+
+/** Fake placeholders only. */
+const APPS: OktaAppListItem[] = [
+  { id: '0oaFAKEslack', label: 'Slack', status: 'ACTIVE', features: ['GROUP_PUSH'] },
+  { id: '0oaFAKEgws', label: 'Google Workspace', status: 'ACTIVE', features: ['GROUP_PUSH'] },
+  { id: '0oaFAKEwiki', label: 'Wiki', status: 'ACTIVE', features: [] },
+];
+
+const link = (sourceGroupName: string, extra: Partial<GroupPushLink> = {}): GroupPushLink => ({
+  mappingId: `gpmFAKE${sourceGroupName}`,
+  appId: '0oaFAKEslack',
+  appName: 'Slack',
+  sourceGroupId: `00gFAKE${sourceGroupName}`,
+  sourceGroupName,
+  targetGroupId: `00gFAKET${sourceGroupName}`,
+  targetGroupName: sourceGroupName.toLowerCase(),
+  status: 'ACTIVE',
+  lastPush: new Date(Date.now() - 3_600_000).toISOString(),
+  ...extra,
+});
+
+const LINKS: GroupPushLink[] = [
+  link('Engineering'),
+  link('Design', { status: 'INACTIVE' }),
+  link('Sales', {
+    status: 'ERROR',
+    errorSummary: 'A group with this name already exists in the app.',
+  }),
+];
+
+/** One app's Group Push mappings, in the Applications tab's own view. */
+const meta = {
+  title: 'Apps/GroupPushPanel',
+  component: GroupPushPanel,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Offers only the apps with Group Push enabled. Picking one reads its mappings and names ' +
+          'both groups of each, then lists them failures first with a count per status. ' +
+          'Read-only: pushes are changed from the group’s detail view.',
+      },
+    },
+  },
+  argTypes: {
+    apps: { description: 'The org’s app inventory, as the Apps tab loaded it.' },
+    targetTabId: { description: 'The connected Okta tab; reading is unavailable without one.' },
+  },
+  args: { apps: APPS, targetTabId: 1 },
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({ getAppGroupPushLinks: fn(async () => LINKS) }),
+    );
+  },
+} satisfies Meta<typeof GroupPushPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Before a pick: the picker alone. */
+export const Default: Story = {};
+
+/** Slack picked: the failed push first, with Okta's reason. */
+export const Loaded: Story = {
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.selectOptions(canvas.getByLabelText('App'), '0oaFAKEslack');
+    await expect(await canvas.findByRole('list', { name: 'Pushed groups' })).toBeInTheDocument();
+  },
+};
+
+/** No app in the inventory can push groups. */
+export const NoPushApps: Story = { args: { apps: [APPS[2]] } };
@@ -0,0 +1,85 @@
+/**
+ * Behavioral tests for the Applications tab's Group Push view.
+ *
+ * Drives the real panel against a stubbed `useOktaApi`, pinning: only Group Push
+ * apps are offered, nothing is read until an app is picked, rows list failures
+ * first with Okta's reason and a count per status, and a failed read is an error
+ * rather than an empty app.
+ *
+ * Fixtures use only fake placeholders (`0oaFAKE…`, `00gFAKE…`, `gpmFAKE…`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { GroupPushLink } from '../../../shared/groupPush/groupPush';
+import type { OktaAppListItem } from '../../../shared/schemas/okta';
+
+const api = vi.hoisted(() => ({ getAppGroupPushLinks: vi.fn() }));
+
+vi.mock('../../hooks/useOktaApi', () => ({ useOktaApi: () => api }));
+
+import GroupPushPanel from './GroupPushPanel';
+
+const apps: OktaAppListItem[] = [
+  { id: '0oaFAKE1', label: 'Slack', features: ['GROUP_PUSH'] },
+  { id: '0oaFAKE2', label: 'Wiki', features: [] },
+];
+
+const link = (name: string, extra: Partial<GroupPushLink> = {}): GroupPushLink => ({
+  mappingId: `gpmFAKE${name}`,
+  appId: '0oaFAKE1',
+  appName: 'Slack',
+  sourceGroupId: `00gFAKE${name}`,
+  sourceGroupName: name,
+  targetGroupId: `00gFAKET${name}`,
+  status: 'ACTIVE',
+  ...extra,
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  api.getAppGroupPushLinks.mockResolvedValue([
+    link('Engineering'),
+    link('Sales', { status: 'ERROR', errorSummary: 'Name already taken' }),
+  ]);
+});
+
+describe('GroupPushPanel', () => {
+  it('offers only Group Push apps and reads nothing until one is picked', () => {
+    render(<GroupPushPanel apps={apps} targetTabId={1} />);
+
+    const options = within(screen.getByLabelText('App')).getAllByRole('option');
+    expect(options.map((option) => option.textContent)).toEqual([
+      'Choose an app with Group Push…',
+      'Slack',
+    ]);
+    expect(api.getAppGroupPushLinks).not.toHaveBeenCalled();
+  });
+
+  it("lists the picked app's failures first, with Okta's reason and a count per status", async () => {
+    render(<GroupPushPanel apps={apps} targetTabId={1} />);
+
+    await userEvent.selectOptions(screen.getByLabelText('App'), '0oaFAKE1');
+
+    const rows = within(await screen.findByRole('list', { name: 'Pushed groups' })).getAllByRole(
+      'listitem',
+    );
+    expect(api.getAppGroupPushLinks).toHaveBeenCalledWith({ id: '0oaFAKE1', name: 'Slack' });
+    expect(rows[0]).toHaveTextContent('Sales');
+    expect(rows[0]).toHaveTextContent('Name already taken');
+    expect(screen.getByText('1 push error')).toBeInTheDocument();
+    expect(screen.getByText('1 active')).toBeInTheDocument();
+  });
+
+  it('reports a failed read as an error, not as an app with no pushes', async () => {
+    api.getAppGroupPushLinks.mockRejectedValue(new Error('Forbidden'));
+    render(<GroupPushPanel apps={apps} targetTabId={1} />);
+
+    await userEvent.selectOptions(screen.getByLabelText('App'), '0oaFAKE1');
+
+    expect(
+      await screen.findByText('Push mappings could not be read: Forbidden'),
+    ).toBeInTheDocument();
+    expect(screen.queryByText('This app receives no pushed groups.')).not.toBeInTheDocument();
+  });
+});
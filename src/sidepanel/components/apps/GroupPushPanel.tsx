@@ -0,0 +1,166 @@
+/**
+ * @module sidepanel/components/apps/GroupPushPanel
+ * @description Every Group Push mapping of one app: which Okta groups it
+ * receives, whether each push is running, and why a push last failed.
+ *
+ * Shown in the Applications tab (its own view, from the header). Only apps with
+ * Group Push enabled are offered. Picking one reads its mappings, the app's own
+ * groups for the target names, and each pushed group for its name — so it runs
+ * from the pick, not in the background.
+ *
+ * Read-only, like the rest of the tab: pushes are changed from the group's
+ * detail view, where the source group is in hand.
+ */
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertMessage, Badge, ListRow, Select, Skeleton, type BadgeVariant } from '../shared';
+import {
+  GROUP_PUSH_STATUS_LABEL,
+  countGroupPushStatuses,
+  hasGroupPush,
+  sortGroupPushLinks,
+  type GroupPushLink,
+  type GroupPushStatus,
+} from '../../../shared/groupPush/groupPush';
+import type { OktaAppListItem } from '../../../shared/schemas/okta';
+import { formatDate } from '../../../shared/utils/dateFormat';
+import { useOktaApi } from '../../hooks/useOktaApi';
+
+/** Props for {@link GroupPushPanel}. */
+export interface GroupPushPanelProps {
+  /** The org's app inventory, as the Apps tab loaded it. */
+  apps: OktaAppListItem[];
+  /** The connected Okta tab; reading is unavailable without one. */
+  targetTabId: number | null;
+}
+
+const STATUS_VARIANT: Record<GroupPushStatus, BadgeVariant> = {
+  ACTIVE: 'success',
+  INACTIVE: 'neutral',
+  ERROR: 'danger',
+  UNKNOWN: 'warning',
+};
+
+/** Status order for the counts line, failures first like the rows. */
+const COUNT_ORDER: GroupPushStatus[] = ['ERROR', 'UNKNOWN', 'INACTIVE', 'ACTIVE'];
+
+/** Where one app's read stands. */
+type ReadState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'done'; links: GroupPushLink[] }
+  | { status: 'error'; error: string };
+
+/** One mapping: the pushed group, its target in the app, and its state. */
+const PushRow: React.FC<{ link: GroupPushLink }> = ({ link }) => (
+  <ListRow as="li" density="compact">
+    <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs">
+      <Badge variant={STATUS_VARIANT[link.status]}>{GROUP_PUSH_STATUS_LABEL[link.status]}</Badge>
+      <span className="font-medium text-neutral-900">
+        {link.sourceGroupName ?? link.sourceGroupId}
+      </span>
+      <span className="text-neutral-500">→ {link.targetGroupName ?? link.targetGroupId}</span>
+    </div>
+    {link.errorSummary && <p className="mt-1 text-xs text-danger-text">{link.errorSummary}</p>}
+    <p className="mt-1 text-xs text-neutral-500">Last push: {formatDate(link.lastPush)}</p>
+  </ListRow>
+);
+
+/**
+ * Renders the app picker, then the picked app's mappings with a count per status.
+ *
+ * @param props - See {@link GroupPushPanelProps}.
+ */
+const GroupPushPanel: React.FC<GroupPushPanelProps> = ({ apps, targetTabId }) => {
+  const { getAppGroupPushLinks } = useOktaApi({ targetTabId });
+  const [appId, setAppId] = useState('');
+  const [read, setRead] = useState<ReadState>({ status: 'idle' });
+  // Bumped per pick, so an earlier app's read that lands late is dropped.
+  const readToken = useRef(0);
+
+  const pushApps = useMemo(
+    () =>
+      apps
+        .filter((app) => hasGroupPush(app.features))
+        .map((app) => ({ id: app.id, name: app.label ?? app.name ?? app.id }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [apps],
+  );
+
+  const choose = async (next: string) => {
+    setAppId(next);
+    const app = pushApps.find((candidate) => candidate.id === next);
+    const token = ++readToken.current;
+    if (!app) {
+      setRead({ status: 'idle' });
+      return;
+    }
+    setRead({ status: 'loading' });
+    try {
+      const links = await getAppGroupPushLinks(app);
+      if (token === readToken.current) setRead({ status: 'done', links });
+    } catch (err) {
+      if (token !== readToken.current) return;
+      setRead({
+        status: 'error',
+        error: err instanceof Error ? err.message : 'Failed to read push mappings',
+      });
+    }
+  };
+
+  if (pushApps.length === 0) {
+    return (
+      <p className="text-sm text-neutral-500">
+        No app in the loaded inventory has Group Push enabled.
+      </p>
+    );
+  }
+
+  const counts = read.status === 'done' ? countGroupPushStatuses(read.links) : null;
+
+  return (
+    <div className="space-y-3" aria-label="Group Push">
+      <Select
+        label="App"
+        value={appId}
+        onChange={(next) => void choose(next)}
+        disabled={targetTabId == null}
+        options={[
+          { value: '', label: 'Choose an app with Group Push…' },
+          ...pushApps.map((app) => ({ value: app.id, label: app.name })),
+        ]}
+      />
+
+      {read.status === 'loading' && (
+        <Skeleton variant="row" size="lg" count={3} label="Reading push mappings…" />
+      )}
+      {read.status === 'error' && (
+        <AlertMessage
+          message={{ text: `Push mappings could not be read: ${read.error}`, type: 'danger' }}
+          action={{ label: 'Retry', onClick: () => void choose(appId) }}
+        />
+      )}
+      {read.status === 'done' &&
+        counts &&
+        (read.links.length === 0 ? (
+          <p className="text-sm text-neutral-500">This app receives no pushed groups.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-1.5">
+              {COUNT_ORDER.filter((status) => counts[status] > 0).map((status) => (
+                <Badge key={status} variant={STATUS_VARIANT[status]}>
+                  {counts[status]} {GROUP_PUSH_STATUS_LABEL[status].toLowerCase()}
+                </Badge>
+              ))}
+            </div>
+            <ul className="space-y-2" aria-label="Pushed groups">
+              {sortGroupPushLinks(read.links).map((link) => (
+                <PushRow key={link.mappingId} link={link} />
+              ))}
+            </ul>
+          </>
+        ))}
+    </div>
+  );
+};
+
+export default GroupPushPanel;
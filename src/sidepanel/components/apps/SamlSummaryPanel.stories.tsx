@@ -0,0 +1,102 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import SamlSummaryPanel from './SamlSummaryPanel';
+import type { SamlSummary } from '../../../shared/saml/samlResponse';
+
+/** An obviously-fake summary — no real org data ever ships in a story. */
+const summary: SamlSummary = {
+  statusCode: 'urn:oasis:names:tc:SAML:2.0:status:Success',
+  statusMessage: null,
+  issuer: 'http://www.okta.com/exkFAKE1',
+  destination: 'https://app.example.com/sso/acs',
+  nameId: {
+    value: 'ada@example.com',
+    format: 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress',
+  },
+  audiences: ['https://app.example.com'],
+  recipients: ['https://app.example.com/sso/acs'],
+  notBefore: '2026-03-02T11:55:00.000Z',
+  notOnOrAfter: '2026-03-02T12:05:00.000Z',
+  attributes: [
+    { name: 'email', values: ['ada@example.com'] },
+    { name: 'groups', values: ['Engineering', 'Staff'] },
+  ],
+  certificates: ['MIIDFAKECERTIFICATEFORSTORIESONLYAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=='],
+  signed: { response: false, assertion: true },
+  encryptedAssertion: false,
+};
+
+/**
+ * The fields of a decoded SAML response an admin checks first.
+ */
+const meta = {
+  title: 'Apps/SamlSummaryPanel',
+  component: SamlSummaryPanel,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Status, issuer, destination and signature placement; NameID, audience, recipient ' +
+          'and the validity window; attributes; and the embedded certificate. Values are as ' +
+          'sent — a signature is "present", never "valid".',
+      },
+    },
+  },
+  argTypes: {
+    summary: { description: 'The decoded summary.' },
+    now: { description: 'The moment the validity window is read against.' },
+  },
+  args: {
+    summary,
+    now: new Date('2026-03-02T12:00:00.000Z'),
+  },
+} satisfies Meta<typeof SamlSummaryPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Read inside its validity window. */
+export const Default: Story = {};
+
+/** Read after the window closed — the usual case for a captured assertion. */
+export const Expired: Story = {
+  args: { now: new Date('2026-03-02T13:00:00.000Z') },
+};
+
+/** Okta posted to one URL and named another as the recipient. */
+export const RecipientMismatch: Story = {
+  args: { summary: { ...summary, recipients: ['https://old.example.com/sso/acs'] } },
+};
+
+/** Okta refused: the status says so and the subject is absent. */
+export const FailedStatus: Story = {
+  args: {
+    summary: {
+      ...summary,
+      statusCode: 'urn:oasis:names:tc:SAML:2.0:status:Responder',
+      statusMessage: 'The user is not assigned to this application.',
+      nameId: null,
+      audiences: [],
+      recipients: [],
+      attributes: [],
+      certificates: [],
+      signed: { response: true, assertion: false },
+    },
+  },
+};
+
+/** Encrypted for the app: only the envelope can be read here. */
+export const EncryptedAssertion: Story = {
+  args: {
+    summary: {
+      ...summary,
+      nameId: null,
+      audiences: [],
+      recipients: [],
+      notBefore: null,
+      notOnOrAfter: null,
+      attributes: [],
+      encryptedAssertion: true,
+    },
+  },
+};
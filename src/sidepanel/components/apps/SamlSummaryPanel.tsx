@@ -0,0 +1,216 @@
+/**
+ * @module sidepanel/components/apps/SamlSummaryPanel
+ * @description The fields of a decoded SAML response an admin checks first when an
+ * app's SSO breaks: status, subject, audience, recipient, the validity window,
+ * attributes and the embedded certificate.
+ *
+ * Every value is as sent, and the panel says so where it matters: a signature is
+ * "present", never "valid", because nothing here checks it, and the certificate is
+ * the one in the document, which the app may not trust. A Recipient that differs
+ * from the Destination is flagged, since an app that checks both will refuse the
+ * assertion. A captured assertion is minutes-lived, so "expired" on one pasted
+ * later is expected and said to be.
+ */
+import React from 'react';
+import { AlertMessage, Badge, CopyButton, DetailSection, type BadgeVariant } from '../shared';
+import {
+  samlValidityAt,
+  type SamlHighlight,
+  type SamlSummary,
+  type SamlValidity,
+} from '../../../shared/saml/samlResponse';
+import { formatDate } from '../../../shared/utils/dateFormat';
+import { SAML_HIGHLIGHT_STYLES } from './samlHighlights';
+
+/** Props for {@link SamlSummaryPanel}. */
+interface SamlSummaryPanelProps {
+  summary: SamlSummary;
+  /** The moment the validity window is read against. */
+  now: Date;
+}
+
+const SUCCESS_STATUS = 'urn:oasis:names:tc:SAML:2.0:status:Success';
+
+const VALIDITY: Record<SamlValidity, { label: string; variant: BadgeVariant }> = {
+  valid: { label: 'Within its validity window', variant: 'success' },
+  expired: { label: 'Expired', variant: 'warning' },
+  'not-yet-valid': { label: 'Not yet valid', variant: 'danger' },
+  unknown: { label: 'No validity window', variant: 'neutral' },
+};
+
+/** The last segment of a SAML URN, e.g. `Success` or `emailAddress`. */
+function urnTail(value: string): string {
+  return value.split(':').pop() || value;
+}
+
+/** One labelled field, marked with its highlight colour when it has one. */
+const Field: React.FC<{
+  label: string;
+  highlight?: SamlHighlight;
+  children: React.ReactNode;
+}> = ({ label, highlight, children }) => (
+  <div className="grid grid-cols-[7rem_1fr] gap-2 text-xs">
+    <dt className="text-neutral-600">
+      {highlight ? (
+        <span className={`rounded-sm px-1 ${SAML_HIGHLIGHT_STYLES[highlight].className}`}>
+          {label}
+        </span>
+      ) : (
+        label
+      )}
+    </dt>
+    <dd className="min-w-0 break-all text-neutral-900">{children}</dd>
+  </div>
+);
+
+/** A list of values, or a plain "none" when there are none. */
+const Values: React.FC<{ values: string[] }> = ({ values }) =>
+  values.length === 0 ? (
+    <span className="text-neutral-500">None sent</span>
+  ) : (
+    <>
+      {values.map((value) => (
+        <div key={value}>{value}</div>
+      ))}
+    </>
+  );
+
+/**
+ * Renders the summary as three sections: the response, its subject and
+ * conditions, and its attributes and certificate.
+ *
+ * @param props - See {@link SamlSummaryPanelProps}.
+ */
+const SamlSummaryPanel: React.FC<SamlSummaryPanelProps> = ({ summary, now }) => {
+  const validityState = samlValidityAt(summary, now);
+  const validity = VALIDITY[validityState];
+  const recipientMismatch =
+    summary.destination !== null &&
+    summary.recipients.length > 0 &&
+    !summary.recipients.includes(summary.destination);
+
+  return (
+    <div className="space-y-4">
+      <DetailSection title="Response">
+        <dl className="space-y-1.5">
+          <Field label="Status">
+            {summary.statusCode ? (
+              <Badge variant={summary.statusCode === SUCCESS_STATUS ? 'success' : 'danger'}>
+                {urnTail(summary.statusCode)}
+              </Badge>
+            ) : (
+              <span className="text-neutral-500">None sent</span>
+            )}
+            {summary.statusMessage && <div className="mt-1">{summary.statusMessage}</div>}
+          </Field>
+          <Field label="Issuer">{summary.issuer ?? 'None sent'}</Field>
+          <Field label="Destination">{summary.destination ?? 'None sent'}</Field>
+          <Field label="Signature">
+            {summary.signed.response || summary.signed.assertion
+              ? `Present on the ${[
+                  summary.signed.response && 'response',
+                  summary.signed.assertion && 'assertion',
+                ]
+                  .filter(Boolean)
+                  .join(' and ')} (not verified here)`
+              : 'None'}
+          </Field>
+        </dl>
+      </DetailSection>
+
+      {summary.encryptedAssertion ? (
+        <AlertMessage
+          message={{
+            text: 'The assertion is encrypted for the app. Its subject, conditions and attributes can only be read with the app’s private key.',
+            type: 'info',
+          }}
+        />
+      ) : (
+        <DetailSection title="Subject and conditions">
+          <dl className="space-y-1.5">
+            <Field label="NameID" highlight="nameId">
+              {summary.nameId ? (
+                <>
+                  <div>{summary.nameId.value}</div>
+                  {summary.nameId.format && (
+                    <div className="text-neutral-500">{urnTail(summary.nameId.format)}</div>
+                  )}
+                </>
+              ) : (
+                <span className="text-neutral-500">None sent</span>
+              )}
+            </Field>
+            <Field label="Audience" highlight="audience">
+              <Values values={summary.audiences} />
+            </Field>
+            <Field label="Recipient" highlight="recipient">
+              <Values values={summary.recipients} />
+              {recipientMismatch && (
+                <div className="mt-1 text-warning-dark">
+                  Differs from the Destination; an app that checks both will refuse it.
+                </div>
+              )}
+            </Field>
+            <Field label="Valid" highlight="conditions">
+              <Badge variant={validity.variant}>{validity.label}</Badge>
+              {summary.notBefore && (
+                <div className="mt-1">From {formatDate(summary.notBefore)}</div>
+              )}
+              {summary.notOnOrAfter && <div>Until {formatDate(summary.notOnOrAfter)}</div>}
+              {validityState === 'expired' && (
+                <div className="text-neutral-500">
+                  Expected for a captured assertion; they last minutes.
+                </div>
+              )}
+            </Field>
+          </dl>
+        </DetailSection>
+      )}
+
+      {!summary.encryptedAssertion && (
+        <DetailSection title="Attributes">
+          {summary.attributes.length === 0 ? (
+            <p className="text-xs text-neutral-500">No attribute statement.</p>
+          ) : (
+            <dl className="space-y-1.5">
+              {summary.attributes.map((attribute, index) => (
+                <Field
+                  key={`${attribute.name}-${index}`}
+                  label={attribute.name}
+                  highlight="attributes"
+                >
+                  <Values values={attribute.values} />
+                </Field>
+              ))}
+            </dl>
+          )}
+        </DetailSection>
+      )}
+
+      <DetailSection
+        title="Signing certificate"
+        description="As embedded in the response. Compare it with the certificate the app trusts."
+      >
+        {summary.certificates.length === 0 ? (
+          <p className="text-xs text-neutral-500">No certificate embedded.</p>
+        ) : (
+          <ul className="space-y-2">
+            {summary.certificates.map((certificate) => (
+              <li
+                key={certificate}
+                className={`flex items-center justify-between gap-2 rounded-sm px-1 font-mono text-[11px] ${SAML_HIGHLIGHT_STYLES.certificate.className}`}
+              >
+                <span className="min-w-0 truncate" title={certificate}>
+                  {certificate}
+                </span>
+                <CopyButton getText={() => certificate} label="Copy" />
+              </li>
+            ))}
+          </ul>
+        )}
+      </DetailSection>
+    </div>
+  );
+};
+
+export default SamlSummaryPanel;
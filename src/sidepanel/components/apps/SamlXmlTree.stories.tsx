@@ -0,0 +1,107 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import SamlXmlTree from './SamlXmlTree';
+import type { SamlXmlNode } from '../../../shared/saml/samlResponse';
+
+const node = (
+  key: string,
+  name: string,
+  rest: Partial<Omit<SamlXmlNode, 'key' | 'name'>> = {},
+): SamlXmlNode => ({
+  key,
+  name,
+  attributes: [],
+  text: null,
+  children: [],
+  highlight: null,
+  ...rest,
+});
+
+/** A trimmed, obviously-fake response tree. */
+const root = node('0', 'saml2p:Response', {
+  attributes: [{ name: 'Destination', value: 'https://app.example.com/sso/acs', highlight: null }],
+  children: [
+    node('0.0', 'saml2:Assertion', {
+      children: [
+        node('0.0.0', 'ds:X509Certificate', {
+          text: 'MIIDFAKECERTIFICATEFORSTORIESONLYAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA==',
+          highlight: 'certificate',
+        }),
+        node('0.0.1', 'saml2:Subject', {
+          children: [
+            node('0.0.1.0', 'saml2:NameID', { text: 'ada@example.com', highlight: 'nameId' }),
+            node('0.0.1.1', 'saml2:SubjectConfirmationData', {
+              highlight: 'recipient',
+              attributes: [
+                {
+                  name: 'Recipient',
+                  value: 'https://app.example.com/sso/acs',
+                  highlight: 'recipient',
+                },
+                {
+                  name: 'NotOnOrAfter',
+                  value: '2026-03-02T12:05:00.000Z',
+                  highlight: 'conditions',
+                },
+              ],
+            }),
+          ],
+        }),
+        node('0.0.2', 'saml2:Conditions', {
+          highlight: 'conditions',
+          attributes: [
+            { name: 'NotOnOrAfter', value: '2026-03-02T12:05:00.000Z', highlight: 'conditions' },
+          ],
+          children: [
+            node('0.0.2.0', 'saml2:Audience', {
+              text: 'https://app.example.com',
+              highlight: 'audience',
+            }),
+          ],
+        }),
+        node('0.0.3', 'saml2:AttributeStatement', {
+          highlight: 'attributes',
+          children: [
+            node('0.0.3.0', 'saml2:Attribute', {
+              attributes: [{ name: 'Name', value: 'title', highlight: null }],
+              children: [node('0.0.3.0.0', 'saml2:AttributeValue', { text: '<b>Not bold</b>' })],
+            }),
+          ],
+        }),
+      ],
+    }),
+  ],
+});
+
+/**
+ * The decoded document as an escaped, highlighted XML tree.
+ */
+const meta = {
+  title: 'Apps/SamlXmlTree',
+  component: SamlXmlTree,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Every name, value and text is a React text child: markup inside a value (see the ' +
+          '`title` attribute value) shows as characters. NameID, audience, recipient, ' +
+          'conditions, the attribute statement and the certificate wear the summary’s colours.',
+      },
+    },
+  },
+  argTypes: {
+    root: { description: 'The copied document, from `decodeSamlResponse`.' },
+  },
+  args: { root },
+} satisfies Meta<typeof SamlXmlTree>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** A trimmed response with every highlight. */
+export const Default: Story = {};
+
+/** At the 360px floor, long values wrap rather than widen the panel. */
+export const Compact: Story = {
+  parameters: { viewport: { value: 'sidepanelCompact' } },
+};
@@ -0,0 +1,111 @@
+/**
+ * @module sidepanel/components/apps/SamlXmlTree
+ * @description The decoded SAML response as an indented XML tree, with the parts
+ * the inspector calls out highlighted.
+ *
+ * The tree is the plain {@link SamlXmlNode} copy `shared/saml/samlResponse` made
+ * of the parsed document; every name, value and text is rendered as a React text
+ * child, so markup inside an attribute value shows as characters, never as HTML.
+ * Elements with children fold, and start open so nothing is hidden by default.
+ * A certificate's base64 is shortened on screen; the full value is its title.
+ */
+import React from 'react';
+import type { SamlXmlAttribute, SamlXmlNode } from '../../../shared/saml/samlResponse';
+import { SAML_HIGHLIGHT_STYLES } from './samlHighlights';
+
+/** Props for {@link SamlXmlTree}. */
+interface SamlXmlTreeProps {
+  root: SamlXmlNode;
+}
+
+/** Certificates and signature values are long base64; show the ends. */
+function shorten(text: string, highlighted: boolean): string {
+  if (!highlighted || text.length <= 48) return text;
+  return `${text.slice(0, 24)}…${text.slice(-12)}`;
+}
+
+/** One attribute, `name="value"`. */
+const XmlAttribute: React.FC<{ attribute: SamlXmlAttribute }> = ({ attribute }) => (
+  <span
+    className={`ml-1.5 rounded-sm ${attribute.highlight ? `px-0.5 ${SAML_HIGHLIGHT_STYLES[attribute.highlight].className}` : ''}`}
+  >
+    <span className="text-info">{attribute.name}</span>
+    <span className="text-neutral-500">=&quot;</span>
+    <span className="break-all text-neutral-900">{attribute.value}</span>
+    <span className="text-neutral-500">&quot;</span>
+  </span>
+);
+
+/** An element's opening tag. */
+const OpenTag: React.FC<{ node: SamlXmlNode; selfClosing: boolean }> = ({ node, selfClosing }) => (
+  <>
+    <span className="text-neutral-500">&lt;</span>
+    <span className="font-semibold text-primary-dark">{node.name}</span>
+    {node.attributes.map((attribute) => (
+      <XmlAttribute key={attribute.name} attribute={attribute} />
+    ))}
+    <span className="text-neutral-500">{selfClosing ? ' />' : '>'}</span>
+  </>
+);
+
+/** An element's closing tag. */
+const CloseTag: React.FC<{ name: string }> = ({ name }) => (
+  <span className="text-neutral-500">
+    &lt;/<span className="text-primary-dark">{name}</span>&gt;
+  </span>
+);
+
+/** One element and its subtree. */
+const XmlElement: React.FC<{ node: SamlXmlNode }> = ({ node }) => {
+  const style = node.highlight ? SAML_HIGHLIGHT_STYLES[node.highlight] : null;
+  const frame = style ? `rounded-sm ${style.className}` : '';
+  const marker = style ? `${style.label}: ` : '';
+
+  if (node.children.length === 0) {
+    return (
+      <li className={`px-1 ${frame}`} aria-label={style ? `${marker}${node.name}` : undefined}>
+        <OpenTag node={node} selfClosing={node.text === null} />
+        {node.text !== null && (
+          <>
+            <span className="break-all text-neutral-900" title={node.text}>
+              {shorten(node.text, node.highlight === 'certificate')}
+            </span>
+            <CloseTag name={node.name} />
+          </>
+        )}
+      </li>
+    );
+  }
+
+  return (
+    <li className={`px-1 ${frame}`} aria-label={style ? `${marker}${node.name}` : undefined}>
+      <details open>
+        <summary className="cursor-pointer">
+          <OpenTag node={node} selfClosing={false} />
+        </summary>
+        <ul className="ml-3 border-l border-neutral-200 pl-2">
+          {node.children.map((child) => (
+            <XmlElement key={child.key} node={child} />
+          ))}
+        </ul>
+        <CloseTag name={node.name} />
+      </details>
+    </li>
+  );
+};
+
+/**
+ * Renders the whole document tree.
+ *
+ * @param props - See {@link SamlXmlTreeProps}.
+ */
+const SamlXmlTree: React.FC<SamlXmlTreeProps> = ({ root }) => (
+  <ul
+    className="overflow-x-auto rounded-md border border-neutral-200 bg-white p-2 font-mono text-[11px] leading-5"
+    aria-label="Decoded SAML response"
+  >
+    <XmlElement node={root} />
+  </ul>
+);
+
+export default SamlXmlTree;
@@ -0,0 +1,106 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, fn, userEvent, within } from 'storybook/test';
+import SsoInspector from './SsoInspector';
+import { useOktaApi, makeUseOktaApiValue } from '../../../../.storybook/mocks/useOktaApi.mock';
+
+/** An obviously-fake signed response — no real org data ever ships in a story. */
+const SAMPLE_RESPONSE_XML = `<saml2p:Response xmlns:saml2p="urn:oasis:names:tc:SAML:2.0:protocol" Destination="https://app.example.com/sso/acs" ID="idFAKE1" Version="2.0">
+  <saml2:Issuer xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion">http://www.okta.com/exkFAKE1</saml2:Issuer>
+  <saml2p:Status><saml2p:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></saml2p:Status>
+  <saml2:Assertion xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion" ID="idFAKE2" Version="2.0">
+    <saml2:Issuer>http://www.okta.com/exkFAKE1</saml2:Issuer>
+    <ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#"><ds:KeyInfo><ds:X509Data><ds:X509Certificate>MIIDFAKECERTIFICATEFORSTORIESONLYAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA==</ds:X509Certificate></ds:X509Data></ds:KeyInfo></ds:Signature>
+    <saml2:Subject>
+      <saml2:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">ada@example.com</saml2:NameID>
+      <saml2:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer"><saml2:SubjectConfirmationData NotOnOrAfter="2026-03-02T12:05:00.000Z" Recipient="https://app.example.com/sso/acs"/></saml2:SubjectConfirmation>
+    </saml2:Subject>
+    <saml2:Conditions NotBefore="2026-03-02T11:55:00.000Z" NotOnOrAfter="2026-03-02T12:05:00.000Z"><saml2:AudienceRestriction><saml2:Audience>https://app.example.com</saml2:Audience></saml2:AudienceRestriction></saml2:Conditions>
+    <saml2:AttributeStatement>
+      <saml2:Attribute Name="email"><saml2:AttributeValue>ada@example.com</saml2:AttributeValue></saml2:Attribute>
+      <saml2:Attribute Name="groups"><saml2:AttributeValue>Engineering</saml2:AttributeValue><saml2:AttributeValue>Staff</saml2:AttributeValue></saml2:Attribute>
+    </saml2:AttributeStatement>
+  </saml2:Assertion>
+</saml2p:Response>`;
+
+const SAMPLE_RESPONSE = btoa(SAMPLE_RESPONSE_XML);
+
+/**
+ * The SSO Inspector, opened from the Applications tab's header.
+ */
+const meta = {
+  title: 'Apps/SsoInspector',
+  component: SsoInspector,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'fullscreen',
+    // heading-order disabled: the view renders as a page fragment outside the app shell.
+    a11y: { config: { rules: [{ id: 'heading-order', enabled: false }] } },
+    docs: {
+      description: {
+        component:
+          'Decodes a `SAMLResponse` — pasted, or captured from a `SAMLResponse` field on the ' +
+          'connected Okta tab — locally, as untrusted input. Leads with the fields an admin ' +
+          'checks first (status, NameID, audience, recipient, validity window, attributes, ' +
+          'certificate), then the whole document as an escaped XML tree with the same parts ' +
+          'highlighted. Signatures are reported as present, never verified.',
+      },
+    },
+  },
+  argTypes: {
+    targetTabId: { description: 'The connected Okta tab; capture is unavailable without one.' },
+    onBack: { description: 'Returns to the applications list.' },
+  },
+  args: {
+    targetTabId: 1,
+    onBack: fn(),
+  },
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({ captureSamlResponse: fn(async () => SAMPLE_RESPONSE) }),
+    );
+  },
+} satisfies Meta<typeof SsoInspector>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Empty: the paste box and the capture action. */
+export const Default: Story = {};
+
+/** Captured from the Okta tab and decoded: summary first, then the tree. */
+export const Captured: Story = {
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Capture from tab' }));
+    await expect(
+      await canvas.findByRole('list', { name: 'Decoded SAML response' }),
+    ).toBeInTheDocument();
+  },
+};
+
+/** A value that is not base64 says so, rather than rendering a half-parsed tree. */
+export const NotBase64: Story = {
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.type(canvas.getByRole('textbox'), 'not a SAML response');
+    await userEvent.click(canvas.getByRole('button', { name: 'Inspect' }));
+    await expect(await canvas.findByText(/not base64/)).toBeInTheDocument();
+  },
+};
+
+/** The Okta tab carries no `SAMLResponse` field: the paste box remains the way in. */
+export const NothingToCapture: Story = {
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(makeUseOktaApiValue());
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Capture from tab' }));
+    await expect(await canvas.findByText(/No SAMLResponse on this page/)).toBeInTheDocument();
+  },
+};
+
+/** Without a connected tab, pasting still works; capture is disabled. */
+export const NotConnected: Story = {
+  args: { targetTabId: null },
+};
@@ -0,0 +1,102 @@
+/**
+ * Behavioral tests for the SSO Inspector.
+ *
+ * Drives the real `SsoInspector`, `useSsoInspector` and decoder against a stubbed
+ * `useOktaApi`, pinning: a pasted response is decoded only on Inspect and its
+ * called-out fields are shown, markup inside a value renders as text, a refused
+ * input says why, capture reads the Okta tab and decodes what it found, and a page
+ * without a field leaves the paste box as the way forward.
+ *
+ * Fixtures use only fake placeholders (`example.com`, `FAKECERT…`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+const api = vi.hoisted(() => ({ captureSamlResponse: vi.fn() }));
+
+vi.mock('../../hooks/useOktaApi', () => ({ useOktaApi: () => api }));
+
+import SsoInspector from './SsoInspector';
+
+const RESPONSE_XML =
+  '<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" Destination="https://app.example.com/acs">' +
+  '<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>' +
+  '<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion">' +
+  '<saml:Subject><saml:NameID>ada@example.com</saml:NameID>' +
+  '<saml:SubjectConfirmation><saml:SubjectConfirmationData Recipient="https://other.example.com/acs"/></saml:SubjectConfirmation></saml:Subject>' +
+  '<saml:Conditions NotOnOrAfter="2026-03-02T12:05:00.000Z"><saml:AudienceRestriction><saml:Audience>https://app.example.com</saml:Audience></saml:AudienceRestriction></saml:Conditions>' +
+  '<saml:AttributeStatement><saml:Attribute Name="title"><saml:AttributeValue>&lt;b&gt;Boss&lt;/b&gt;</saml:AttributeValue></saml:Attribute></saml:AttributeStatement>' +
+  '</saml:Assertion></samlp:Response>';
+
+const RESPONSE = btoa(RESPONSE_XML);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+const pasteBox = () => screen.getByPlaceholderText(/Paste the SAMLResponse value/);
+
+describe('SsoInspector', () => {
+  it('decodes a pasted response on Inspect and shows the called-out fields', async () => {
+    render(<SsoInspector targetTabId={1} onBack={vi.fn()} />);
+
+    await userEvent.click(pasteBox());
+    await userEvent.paste(RESPONSE);
+    expect(screen.queryByText('ada@example.com')).not.toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Inspect' }));
+
+    expect(screen.getAllByText('ada@example.com').length).toBeGreaterThan(0);
+    expect(screen.getByText('Success')).toBeInTheDocument();
+    expect(screen.getByText(/Differs from the Destination/)).toBeInTheDocument();
+    const tree = screen.getByRole('list', { name: 'Decoded SAML response' });
+    expect(within(tree).getByLabelText('NameID: saml:NameID')).toBeInTheDocument();
+    expect(within(tree).getByLabelText('Audience: saml:Audience')).toBeInTheDocument();
+  });
+
+  it('renders markup inside a value as text', async () => {
+    render(<SsoInspector targetTabId={1} onBack={vi.fn()} />);
+
+    await userEvent.click(pasteBox());
+    await userEvent.paste(RESPONSE);
+    await userEvent.click(screen.getByRole('button', { name: 'Inspect' }));
+
+    expect(screen.getAllByText('<b>Boss</b>').length).toBeGreaterThan(0);
+    expect(document.querySelector('b')).toBeNull();
+  });
+
+  it('says why an input cannot be read', async () => {
+    render(<SsoInspector targetTabId={1} onBack={vi.fn()} />);
+
+    await userEvent.type(pasteBox(), 'not base64!');
+    await userEvent.click(screen.getByRole('button', { name: 'Inspect' }));
+
+    expect(screen.getByText(/The value is not base64/)).toBeInTheDocument();
+  });
+
+  it('captures the response from the Okta tab and decodes it', async () => {
+    api.captureSamlResponse.mockResolvedValue(RESPONSE);
+    render(<SsoInspector targetTabId={1} onBack={vi.fn()} />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Capture from tab' }));
+
+    expect(api.captureSamlResponse).toHaveBeenCalledTimes(1);
+    expect(await screen.findByRole('list', { name: 'Decoded SAML response' })).toBeInTheDocument();
+    expect(pasteBox()).toHaveValue(RESPONSE);
+  });
+
+  it('reports a page without a SAMLResponse and offers no capture without a tab', async () => {
+    api.captureSamlResponse.mockRejectedValue(
+      new Error('No SAMLResponse on this page. Paste one instead.'),
+    );
+    const { unmount } = render(<SsoInspector targetTabId={1} onBack={vi.fn()} />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Capture from tab' }));
+    expect(await screen.findByText(/No SAMLResponse on this page/)).toBeInTheDocument();
+
+    unmount();
+    render(<SsoInspector targetTabId={null} onBack={vi.fn()} />);
+    expect(screen.getByRole('button', { name: 'Capture from tab' })).toBeDisabled();
+  });
+});
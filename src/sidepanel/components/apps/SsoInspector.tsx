@@ -0,0 +1,113 @@
+/**
+ * @module sidepanel/components/apps/SsoInspector
+ * @description The SSO Inspector: decode a `SAMLResponse` and show what Okta sent
+ * the app — the fields an admin checks first, then the whole document as a tree.
+ *
+ * Opened from the Applications tab's header. The response is pasted (base64, a
+ * form body, or the decoded XML) or captured from a `SAMLResponse` field on the
+ * connected Okta tab. Decoding is local and treats the value as untrusted
+ * (`shared/saml/samlResponse`); nothing is sent to Okta's API, stored or logged,
+ * and the view holds the assertion only until it is cleared or closed.
+ */
+import React from 'react';
+import { AlertMessage, Button, PageHeader, Textarea } from '../shared';
+import SamlSummaryPanel from './SamlSummaryPanel';
+import SamlXmlTree from './SamlXmlTree';
+import { useSsoInspector } from '../../hooks/useSsoInspector';
+
+/** Props for {@link SsoInspector}. */
+export interface SsoInspectorProps {
+  /** The connected Okta tab; capture is unavailable without one. */
+  targetTabId: number | null;
+  /** Returns to the applications list. */
+  onBack: () => void;
+}
+
+/**
+ * Renders the inspector: the input, then the summary and tree of the last decode.
+ *
+ * @param props - See {@link SsoInspectorProps}.
+ */
+const SsoInspector: React.FC<SsoInspectorProps> = ({ targetTabId, onBack }) => {
+  const {
+    input,
+    setInput,
+    result,
+    inspectedAt,
+    inspect,
+    capture,
+    isCapturing,
+    captureError,
+    clear,
+  } = useSsoInspector(targetTabId);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    inspect();
+  };
+
+  return (
+    <div className="tab-content active" style={{ fontFamily: 'var(--font-primary)', padding: 0 }}>
+      <PageHeader
+        title="SSO Inspector"
+        subtitle="Decode a SAML response and see what Okta sent the app"
+        onBack={onBack}
+        backLabel="Applications"
+      />
+
+      <div className="max-w-7xl mx-auto px-6 py-6 space-y-4">
+        <form className="space-y-2" onSubmit={handleSubmit} aria-label="SAML response">
+          <Textarea
+            label="SAMLResponse"
+            value={input}
+            onChange={setInput}
+            rows={5}
+            placeholder="Paste the SAMLResponse value (base64), the form body carrying it, or the decoded XML"
+            hint="Decoded here, in the side panel. Nothing is sent to Okta or stored."
+            fullWidth
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              type="submit"
+              variant="primary"
+              size="sm"
+              icon="search"
+              disabled={!input.trim()}
+            >
+              Inspect
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              icon="download"
+              onClick={() => void capture()}
+              loading={isCapturing}
+              disabled={isCapturing || targetTabId == null}
+              title="Read the SAMLResponse field from the connected Okta tab"
+            >
+              Capture from tab
+            </Button>
+            {(input || result) && (
+              <Button variant="ghost" size="sm" onClick={clear}>
+                Clear
+              </Button>
+            )}
+          </div>
+        </form>
+
+        {captureError && <AlertMessage message={{ text: captureError, type: 'warning' }} />}
+
+        {result && !result.ok && <AlertMessage message={{ text: result.error, type: 'danger' }} />}
+
+        {result?.ok && inspectedAt && (
+          <>
+            <SamlSummaryPanel summary={result.summary} now={inspectedAt} />
+            <SamlXmlTree root={result.tree} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SsoInspector;
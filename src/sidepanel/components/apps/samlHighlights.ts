@@ -0,0 +1,24 @@
+/**
+ * @module sidepanel/components/apps/samlHighlights
+ * @description The colour and label each called-out part of a SAML response wears,
+ * shared by the inspector's summary and its XML tree so a field and its element
+ * read as the same thing.
+ */
+import type { SamlHighlight } from '../../../shared/saml/samlResponse';
+
+/** Label and Tailwind classes for one highlight. */
+export interface SamlHighlightStyle {
+  label: string;
+  /** Background and ring for an element or attribute in the tree. */
+  className: string;
+}
+
+/** One entry per {@link SamlHighlight}. */
+export const SAML_HIGHLIGHT_STYLES: Record<SamlHighlight, SamlHighlightStyle> = {
+  nameId: { label: 'NameID', className: 'bg-primary-light/60 ring-1 ring-primary/40' },
+  audience: { label: 'Audience', className: 'bg-success-light/70 ring-1 ring-success/40' },
+  recipient: { label: 'Recipient', className: 'bg-info-light/70 ring-1 ring-info/40' },
+  attributes: { label: 'Attributes', className: 'bg-neutral-100 ring-1 ring-neutral-300' },
+  conditions: { label: 'Conditions', className: 'bg-warning-light/70 ring-1 ring-warning/40' },
+  certificate: { label: 'Certificate', className: 'bg-danger-light/50 ring-1 ring-danger/30' },
+};
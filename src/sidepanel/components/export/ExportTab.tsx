@@ -6,7 +6,8 @@
  * registry, and drives the whole flow through {@link useExportTab}. A `pick` phase
  * lists exportable entities ({@link EntityPicker}); a `configure` phase composes the
  * context picker, filter box, column picker, preset controls, action buttons, and
- * preview table. Every Okta read routes through the rate-limited scheduler path; no
+ * preview table. The hub also lists the scheduled reports, and an applied preset
+ * can be scheduled to run in the background. Every Okta read routes through the rate-limited scheduler path; no
  * entity-specific code lives here, so new descriptors need zero tab changes.
  */
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
@@ -14,6 +15,8 @@ import { PageHeader, AlertMessage, Button } from '../shared';
 import { useOktaApi } from '../../hooks/useOktaApi';
 import type { OperationResult } from '../../hooks/useOktaApi/types';
 import { useExportTab } from '../../hooks/useExportTab';
+import { useScheduledReports } from '../../hooks/useScheduledReports';
+import type { ScheduledReportJob } from '../../../shared/reports/scheduledReports';
 import { buildRegistry } from '../../export/registry';
 import type { ExportApiDeps } from '../../export/types.deps';
 import EntityPicker from './EntityPicker';
@@ -22,6 +25,8 @@ import ExportFilterBox from './ExportFilterBox';
 import ColumnPicker from './ColumnPicker';
 import PresetControls from './PresetControls';
 import ExportPreviewTable from './ExportPreviewTable';
+import ScheduleReportModal from '../reports/ScheduleReportModal';
+import ScheduledReportsPanel from '../reports/ScheduledReportsPanel';
 
 /**
  * A one-shot request to open the Export tab pre-scoped to a specific descriptor
@@ -109,6 +114,35 @@ const ExportTab: React.FC<ExportTabProps> = ({
 
   const { descriptor, selectEntity, setContext } = tab;
 
+  const reports = useScheduledReports(oktaOrigin);
+  const [scheduling, setScheduling] = useState<{
+    job: ScheduledReportJob;
+    name: string;
+  } | null>(null);
+
+  // A preset is scheduled as saved, scoped to the group or app picked now.
+  const activePreset = tab.presets.find((preset) => preset.id === tab.activePresetId);
+  const canSchedule =
+    !!oktaOrigin &&
+    !!descriptor &&
+    !!activePreset &&
+    (descriptor.context.kind !== 'search-to-select' || tab.contextId !== null);
+  const scheduleActivePreset = () => {
+    if (!descriptor || !activePreset) return;
+    setScheduling({
+      name: tab.contextLabel ? `${activePreset.name} — ${tab.contextLabel}` : activePreset.name,
+      job: {
+        kind: 'export',
+        descriptorId: descriptor.id,
+        descriptorName: descriptor.displayName,
+        enabledColumnIds: activePreset.enabledColumnIds,
+        filterText: activePreset.filterText,
+        contextId: tab.contextId ?? undefined,
+        contextLabel: tab.contextLabel ?? undefined,
+      },
+    });
+  };
+
   // Fulfil a one-shot deep-link (e.g. Overview's "Export Members"): select the
   // requested descriptor and seed its context so the tab opens pre-scoped.
   const handledExportRef = useRef<string | null>(null);
@@ -142,7 +176,16 @@ const ExportTab: React.FC<ExportTabProps> = ({
         )}
 
         {tab.phase === 'pick' || !descriptor ? (
-          <EntityPicker descriptors={tab.descriptors} onSelect={tab.selectEntity} />
+          <div className="space-y-6">
+            <ScheduledReportsPanel
+              entries={reports.entries}
+              runningIds={reports.runningIds}
+              onRunNow={reports.runNow}
+              onDelete={reports.remove}
+              onDownload={reports.download}
+            />
+            <EntityPicker descriptors={tab.descriptors} onSelect={tab.selectEntity} />
+          </div>
         ) : (
           <div className="space-y-6">
             <Button variant="secondary" size="sm" icon="minus" onClick={tab.backToPick}>
@@ -194,6 +237,7 @@ const ExportTab: React.FC<ExportTabProps> = ({
               onSave={tab.savePreset}
               onDelete={tab.deletePreset}
               canSave={tab.enabledCount > 0}
+              onSchedule={canSchedule ? scheduleActivePreset : undefined}
             />
 
             <div className="flex items-center gap-3">
@@ -230,6 +274,16 @@ const ExportTab: React.FC<ExportTabProps> = ({
           </div>
         )}
       </div>
+
+      {scheduling && (
+        <ScheduleReportModal
+          isOpen
+          onClose={() => setScheduling(null)}
+          job={scheduling.job}
+          defaultName={scheduling.name}
+          onSave={async (input) => (await reports.save(input)) !== null}
+        />
+      )}
     </div>
   );
 };
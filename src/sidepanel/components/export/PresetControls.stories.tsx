@@ -41,7 +41,7 @@ const meta = {
           'Apply a saved column selection via the shared `Select`, save the current selection ' +
           'under a name (shared `Input` + `Button`), and delete the active preset. The apply ' +
           'dropdown is disabled when no presets exist; the delete affordance only appears once ' +
-          'a preset is applied; saving is gated on `canSave` and a non-empty name. Persistence ' +
+          'a preset is applied, as does Schedule when `onSchedule` is given; saving is gated on `canSave` and a non-empty name. Persistence ' +
           'is owned by the tab hook — this component is presentational plus a local name field.',
       },
     },
@@ -53,6 +53,7 @@ const meta = {
     onSave: { description: 'Save the current selection under a name.' },
     onDelete: { description: 'Delete a saved preset by id.' },
     canSave: { description: 'Whether saving is allowed (e.g. at least one column enabled).' },
+    onSchedule: { description: 'Schedule the applied preset as a recurring report.' },
   },
   args: {
     presets,
@@ -75,6 +76,11 @@ export const PresetApplied: Story = {
   args: { activePresetId: 'p-1' },
 };
 
+/** A preset is applied and can be scheduled — Schedule appears beside Delete. */
+export const Schedulable: Story = {
+  args: { activePresetId: 'p-2', onSchedule: fn() },
+};
+
 /** No presets saved yet — the apply dropdown is disabled. */
 export const Empty: Story = {
   args: { presets: [] },
@@ -4,7 +4,7 @@
  *
  * Apply a saved column selection via the shared {@link Select}, save the current
  * selection under a name (shared {@link Input} + {@link Button}), and delete the
- * active preset. All persistence is owned by the tab hook (via `useExportPresets`);
+ * active preset, or schedule it as a recurring report. All persistence is owned by the tab hook (via `useExportPresets`);
  * this component is presentational plus a local "name" field.
  */
 import React, { useState } from 'react';
@@ -25,6 +25,8 @@ interface PresetControlsProps {
   onDelete: (id: string) => void;
   /** Whether saving is allowed (e.g. at least one column enabled). */
   canSave: boolean;
+  /** Schedule the applied preset as a recurring report; omitted when it cannot be. */
+  onSchedule?: () => void;
 }
 
 /**
@@ -37,6 +39,7 @@ const PresetControls: React.FC<PresetControlsProps> = ({
   onSave,
   onDelete,
   canSave,
+  onSchedule,
 }) => {
   const [name, setName] = useState('');
 
@@ -64,6 +67,17 @@ const PresetControls: React.FC<PresetControlsProps> = ({
             disabled={presets.length === 0}
           />
         </div>
+        {activePresetId && onSchedule && (
+          <Button
+            variant="ghost"
+            size="sm"
+            icon="clock"
+            onClick={onSchedule}
+            title="Run the applied preset on a schedule"
+          >
+            Schedule
+          </Button>
+        )}
         {activePresetId && (
           <Button
             variant="ghost"
@@ -6,7 +6,9 @@
  * list and surfaces the triage categories (empty, duplicate-name, stale) as
  * one-click selectors that feed the existing selection → bulk/export machinery,
  * plus a ranked preview of the most review-worthy groups. No API calls and no
- * mutations of its own — it only helps the admin decide what to look at.
+ * mutations of its own — it only helps the admin decide what to look at. "Watch"
+ * hands off to a scheduled clutter watch, which runs the same triage in the
+ * background and says when a group enters a category.
  */
 import React, { useMemo } from 'react';
 import Button from '../shared/Button';
@@ -34,6 +36,8 @@ interface GroupCleanupPanelProps {
   onAnalyzeSource: (group: GroupSummary) => void;
   /** Close the panel. */
   onClose: () => void;
+  /** Schedule a background watch on the triage categories; hidden when omitted. */
+  onWatch?: () => void;
 }
 
 /**
@@ -46,6 +50,7 @@ const GroupCleanupPanel: React.FC<GroupCleanupPanelProps> = ({
   onSelectGroups,
   onAnalyzeSource,
   onClose,
+  onWatch,
 }) => {
   const report = useMemo(() => analyzeClutter(groups), [groups]);
   const preview = report.entries.slice(0, MAX_PREVIEW);
@@ -61,9 +66,22 @@ const GroupCleanupPanel: React.FC<GroupCleanupPanelProps> = ({
             analysis, no API calls.
           </p>
         </div>
-        <Button variant="ghost" size="sm" onClick={onClose}>
-          Close
-        </Button>
+        <div className="flex items-center gap-1 shrink-0">
+          {onWatch && (
+            <Button
+              variant="ghost"
+              size="sm"
+              icon="clock"
+              onClick={onWatch}
+              title="Check on a schedule and notify when a group enters a category"
+            >
+              Watch
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
       </div>
 
       {report.flaggedIds.length === 0 ? (
@@ -25,26 +25,37 @@
  * membership actually grants (assigned apps, admin roles) — and hands their state
  * to pure sections.
  *
- * It also owns the view's two mutating surfaces: a page-level "Export members"
- * action in the sticky `ActionBar` (ADR-0030), and per-member add/remove in
- * {@link GroupMembersSection}, whose state lives in
+ * It also owns the view's mutating surfaces: page-level "Export members" and
+ * "Import from CSV" actions in the sticky `ActionBar` (ADR-0030), and per-member
+ * add/remove in {@link GroupMembersSection}, whose state lives in
  * {@link module:sidepanel/components/groups/detail/useGroupMembersSection.useGroupMembersSection}.
+ * The import's dry run and adds live in
+ * {@link sidepanel/hooks/useGroupImport.useGroupImport}; users it adds are folded
+ * into the members section's roster the same way a single add is.
  * The members section piggybacks on `useGroupSource`'s gated member read rather
  * than fetching a second time — see that hook's module doc.
+ * The Group Push writes — push, activate, deactivate, push now and delete — live
+ * in {@link sidepanel/hooks/useGroupPushMappings.useGroupPushMappings}, read only
+ * when the admin asks, and are confirmed in {@link GroupPushConfirmModal}.
  */
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import GroupMembershipSourceSection from './GroupMembershipSourceSection';
 import GroupMembersSection from './GroupMembersSection';
 import GroupAccessSection from './GroupAccessSection';
 import GroupRulesSection from './GroupRulesSection';
 import GroupPushSection from './GroupPushSection';
+import GroupPushConfirmModal from './GroupPushConfirmModal';
 import GroupMetadataSection from './GroupMetadataSection';
+import GroupImportModal from './GroupImportModal';
 import { useGroupSource } from '../../../hooks/useGroupSource';
 import { useOwedLoad } from '../../../hooks/useOwedLoad';
 import { useGroupRuleReferences } from '../../../hooks/useGroupRuleReferences';
 import { useGroupAccessGrants } from '../../../hooks/useGroupAccessGrants';
 import { useGroupMembersSection } from './useGroupMembersSection';
-import { ActionBar, type ActionDescriptor } from '../../shared';
+import { useGroupImport } from '../../../hooks/useGroupImport';
+import { useGroupPushMappings } from '../../../hooks/useGroupPushMappings';
+import { ActionBar, AlertMessage, type ActionDescriptor } from '../../shared';
+import type { AlertMessageData } from '../../shared/AlertMessage';
 import type { GroupSummary } from '../../../../shared/types';
 
 /** Props for {@link GroupDetailView}. */
@@ -53,6 +64,8 @@ interface GroupDetailViewProps {
   group: GroupSummary;
   /** Connected Okta tab id; reads are disabled and the gate button greys out when null. */
   targetTabId: number | null;
+  /** The connected org, which scopes the cached app inventory the push section reads. */
+  oktaOrigin?: string;
   /** Deep-links a rule in the Rules tab (from either rule list, or a contribution). */
   onNavigateToRule?: (ruleId: string) => void;
   /**
@@ -80,12 +93,14 @@ interface GroupDetailViewProps {
 /**
  * Detail view for one group: membership source, a member roster with add/remove,
  * what membership grants, the two rule relationships, app push, and the group's own
- * reference facts. Its identity is the header's job. Export and per-member membership
- * writes are its only mutations; everything else here still just reads.
+ * reference facts. Its identity is the header's job. Export, the CSV import and
+ * per-member membership writes are its only mutations; everything else here still
+ * just reads.
  */
 const GroupDetailView: React.FC<GroupDetailViewProps> = ({
   group,
   targetTabId,
+  oktaOrigin,
   onNavigateToRule,
   autoAnalyze = false,
   isActive = true,
@@ -104,6 +119,28 @@ const GroupDetailView: React.FC<GroupDetailViewProps> = ({
     source.memberStatus,
     source.resummarize,
   );
+  const [importOpen, setImportOpen] = useState(false);
+  const groupImport = useGroupImport(group, targetTabId ?? undefined, membersSection.mergeImported);
+  const closeImport = () => {
+    setImportOpen(false);
+    groupImport.reset();
+  };
+  // Keyed by group: the view is reused across groups, and a write's outcome
+  // belongs to the group it was made on.
+  const [pushMessage, setPushMessage] = useState<{
+    groupId: string;
+    message: AlertMessageData;
+  } | null>(null);
+  const onPushResult = useCallback(
+    (message: AlertMessageData) => setPushMessage({ groupId: group.id, message }),
+    [group.id],
+  );
+  const push = useGroupPushMappings({
+    group,
+    targetTabId: targetTabId ?? undefined,
+    oktaOrigin,
+    onResult: onPushResult,
+  });
 
   // `open` is memoized on the (stable) API operation, so this runs once per group.
   // While the Groups tab is hidden the open is *owed* rather than run: it reaches
@@ -124,8 +161,8 @@ const GroupDetailView: React.FC<GroupDetailViewProps> = ({
     analyzeMembers();
   });
 
-  // One verb, no tier: `ActionBar` renders no **More** control and nothing to
-  // disclose, so this strip is the button and the chrome it grows as it docks.
+  // Two verbs, export first: it is the page's main one and the one that stays
+  // pinned when the row tightens.
   const actions: ActionDescriptor[] = [
     {
       id: 'export-members',
@@ -136,6 +173,16 @@ const GroupDetailView: React.FC<GroupDetailViewProps> = ({
       disabled: !onExportGroup,
       title: "Export this group's members (opens the Export tab with column picker + presets)",
     },
+    {
+      id: 'import-members',
+      label: 'Import from CSV',
+      icon: 'list',
+      onClick: () => setImportOpen(true),
+      // Okta refuses direct membership writes on app and built-in groups — the
+      // same rule that hides the members section's add/remove controls.
+      disabled: targetTabId === null || group.type !== 'OKTA_GROUP',
+      title: 'Add a CSV list of users to this group, after a dry run',
+    },
   ];
 
   return (
@@ -200,7 +247,10 @@ const GroupDetailView: React.FC<GroupDetailViewProps> = ({
         onNavigateToRule={onNavigateToRule}
       />
 
-      <GroupPushSection mappings={group.pushMappings} />
+      {pushMessage?.groupId === group.id && (
+        <AlertMessage message={pushMessage.message} onDismiss={() => setPushMessage(null)} />
+      )}
+      <GroupPushSection mappings={group.pushMappings} groupName={group.name} push={push} />
 
       <GroupMetadataSection
         groupId={group.id}
@@ -208,6 +258,27 @@ const GroupDetailView: React.FC<GroupDetailViewProps> = ({
         created={group.created}
         lastUpdated={group.lastUpdated}
       />
+
+      <GroupImportModal
+        isOpen={importOpen}
+        groupName={group.name}
+        phase={groupImport.phase}
+        plan={groupImport.plan}
+        result={groupImport.result}
+        error={groupImport.error}
+        onPreview={groupImport.preview}
+        onExecute={groupImport.execute}
+        onDownloadResults={groupImport.downloadResults}
+        onBack={groupImport.reset}
+        onClose={closeImport}
+      />
+
+      <GroupPushConfirmModal
+        pending={push.pending}
+        groupName={group.name}
+        onCancel={push.cancelPending}
+        onConfirm={(options) => void push.confirmPending(options)}
+      />
     </div>
   );
 };
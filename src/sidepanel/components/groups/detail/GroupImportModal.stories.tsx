@@ -0,0 +1,154 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import GroupImportModal from './GroupImportModal';
+import type { ImportCandidate, ImportPlan } from '../../../../shared/membership/importPlan';
+import type { GroupImportResult } from '../../../hooks/useOktaApi/groupImport';
+
+/** Fake placeholder users only. */
+function user(id: string, login: string): ImportCandidate {
+  const [first, last] = login.split('@')[0].split('.');
+  return { id, login, email: login, firstName: first, lastName: last ?? '', status: 'ACTIVE' };
+}
+
+const ada = user('00uFAKE1', 'ada.lovelace@example.com');
+const alan = user('00uFAKE2', 'alan.turing@example.com');
+const grace = user('00uFAKE3', 'grace.hopper@example.com');
+
+const previewPlan: ImportPlan = {
+  group: { id: '00gFAKE1', name: 'Engineering' },
+  rows: [
+    { line: 2, value: 'ada.lovelace@example.com', status: 'to-add', user: ada },
+    { line: 3, value: '00uFAKE2', status: 'to-add', user: alan },
+    { line: 4, value: 'grace.hopper@example.com', status: 'already-member', user: grace },
+    { line: 5, value: 'ghopper', status: 'duplicate', user: grace },
+    { line: 6, value: 'nobody@example.com', status: 'not-found' },
+    {
+      line: 7,
+      value: 'shared-inbox@example.com',
+      status: 'ambiguous',
+      candidates: [
+        user('00uFAKE4', 'ken.thompson@example.com'),
+        user('00uFAKE5', 'dennis.ritchie@example.com'),
+      ],
+    },
+  ],
+  counts: { 'to-add': 2, 'already-member': 1, duplicate: 1, 'not-found': 1, ambiguous: 1 },
+  toAdd: [ada, alan],
+  duplicateInputs: 1,
+  feedingRuleNames: [],
+};
+
+const doneResult: GroupImportResult = {
+  outcomes: new Map([
+    [ada.id, { result: 'added' }],
+    [alan.id, { result: 'failed', error: 'You do not have permission' }],
+  ]),
+  added: 1,
+  failed: 1,
+  notSent: 0,
+  cancelled: false,
+};
+
+/**
+ * CSV import wizard: paste or upload a list of users, review the dry run, then add
+ * the to-add rows to the group.
+ */
+const meta = {
+  title: 'Groups/GroupImportModal',
+  component: GroupImportModal,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'Wizard to import a CSV of logins, emails or user ids into one group.\n\n' +
+          'Paste or upload the CSV → dry run (to add / already member / duplicate / not ' +
+          'found / ambiguous, plus a warning when an active rule feeds the group) → confirm ' +
+          '→ add only the to-add users → download the result CSV. The import is recorded ' +
+          'as one bulk undo entry.\n\n' +
+          '**Related internals:** [Hooks](?path=/docs/internals-hooks--docs), ' +
+          '[Types](?path=/docs/internals-types--docs)',
+      },
+    },
+  },
+  argTypes: {
+    isOpen: { description: 'Whether the modal is visible.' },
+    groupName: { description: "The target group's name." },
+    phase: { description: 'Wizard step: idle → preview → running → done/error.' },
+    plan: { description: 'The dry-run plan: every CSV row with its status.' },
+    result: { description: 'Per-user outcomes once the import has run.' },
+    error: { description: 'Error message when the preview or the import fails.' },
+    onPreview: { description: 'Dry-run the CSV text.' },
+    onExecute: { description: 'Add the previewed to-add users.' },
+    onDownloadResults: { description: 'Download the result CSV.' },
+    onBack: { description: 'Return to the CSV step, discarding the dry run.' },
+    onClose: { description: 'Close + reset.' },
+  },
+  args: {
+    isOpen: true,
+    groupName: 'Engineering',
+    phase: 'idle',
+    plan: null,
+    result: null,
+    error: null,
+    onPreview: fn(),
+    onExecute: fn(),
+    onDownloadResults: fn(),
+    onBack: fn(),
+    onClose: fn(),
+  },
+} satisfies Meta<typeof GroupImportModal>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Step 1 — paste or upload the CSV. */
+export const Default: Story = {};
+
+/** Step 1 (loading) — the rows are being resolved; "Preview import" spins. */
+export const PreviewLoading: Story = {
+  args: { phase: 'preview-loading' },
+};
+
+/** Step 1 — the CSV held no identifiers. */
+export const EmptyCsv: Story = {
+  args: { error: 'No users found in the CSV. Put one login, email or user id per row.' },
+};
+
+/** Step 2 — the dry run, with every row status. */
+export const Preview: Story = {
+  args: { phase: 'preview', plan: previewPlan },
+};
+
+/** Step 2 — the group is fed by an active rule; imported users become direct members. */
+export const PreviewRuleManaged: Story = {
+  args: {
+    phase: 'preview',
+    plan: { ...previewPlan, feedingRuleNames: ['Engineers by department'] },
+  },
+};
+
+/** Step 3 — the adds are running. */
+export const Running: Story = {
+  args: { phase: 'running', plan: previewPlan },
+};
+
+/** Step 4 — done, with one refused add. */
+export const Done: Story = {
+  args: { phase: 'done', plan: previewPlan, result: doneResult },
+};
+
+/** Step 4 — stopped at a 403; the rest were never sent. */
+export const Halted: Story = {
+  args: {
+    phase: 'done',
+    plan: previewPlan,
+    result: { ...doneResult, added: 0, notSent: 1 },
+  },
+};
+
+/** The preview failed outright. */
+export const ErrorState: Story = {
+  args: { phase: 'error', error: 'Failed to fetch group members' },
+};
@@ -0,0 +1,146 @@
+/**
+ * Behavioral tests for the CSV group-import wizard.
+ *
+ * Pins what matters for a bulk write: the CSV is only ever previewed from the first
+ * step, the dry run shows every status and the rule-managed warning, the confirm
+ * names how many users will be added (and is disabled at zero), and the done step
+ * reports users that were never sent.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import GroupImportModal from './GroupImportModal';
+import type { ImportCandidate, ImportPlan } from '../../../../shared/membership/importPlan';
+
+const ada: ImportCandidate = {
+  id: '00uFAKE1',
+  login: 'ada@example.com',
+  email: 'ada@example.com',
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  status: 'ACTIVE',
+};
+
+const plan: ImportPlan = {
+  group: { id: '00gFAKE1', name: 'Engineering' },
+  rows: [
+    { line: 1, value: 'ada@example.com', status: 'to-add', user: ada },
+    { line: 2, value: 'nobody@example.com', status: 'not-found' },
+    {
+      line: 3,
+      value: 'shared@example.com',
+      status: 'ambiguous',
+      candidates: [
+        { ...ada, id: '00uFAKE4', login: 'shared.a' },
+        { ...ada, id: '00uFAKE5', login: 'shared.b' },
+      ],
+    },
+  ],
+  counts: { 'to-add': 1, 'already-member': 0, duplicate: 0, 'not-found': 1, ambiguous: 1 },
+  toAdd: [ada],
+  duplicateInputs: 0,
+  feedingRuleNames: [],
+};
+
+const base = {
+  isOpen: true,
+  groupName: 'Engineering',
+  phase: 'idle' as const,
+  plan: null as ImportPlan | null,
+  result: null,
+  error: null,
+  onPreview: vi.fn(),
+  onExecute: vi.fn(),
+  onDownloadResults: vi.fn(),
+  onBack: vi.fn(),
+  onClose: vi.fn(),
+};
+
+describe('GroupImportModal', () => {
+  it('previews the pasted CSV, and not before something is pasted', async () => {
+    const onPreview = vi.fn();
+    render(<GroupImportModal {...base} onPreview={onPreview} />);
+
+    const previewButton = screen.getByRole('button', { name: 'Preview import' });
+    expect(previewButton).toBeDisabled();
+
+    await userEvent.type(screen.getByRole('textbox'), 'ada@example.com');
+    await userEvent.click(previewButton);
+
+    expect(onPreview).toHaveBeenCalledWith('ada@example.com');
+  });
+
+  it('reads an uploaded file into the CSV field', async () => {
+    const onPreview = vi.fn();
+    render(<GroupImportModal {...base} onPreview={onPreview} />);
+
+    const file = new window.File(['login\nada@example.com'], 'users.csv', { type: 'text/csv' });
+    // jsdom's File has no `text()`; the panel's Chrome does.
+    Object.defineProperty(file, 'text', { value: async () => 'login\nada@example.com' });
+    await userEvent.upload(screen.getByTestId('import-file-input'), file);
+
+    expect(await screen.findByText('users.csv')).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Preview import' }));
+    expect(onPreview).toHaveBeenCalledWith('login\nada@example.com');
+  });
+
+  it('shows every row status in the dry run and confirms with the to-add count', async () => {
+    const onExecute = vi.fn();
+    render(<GroupImportModal {...base} phase="preview" plan={plan} onExecute={onExecute} />);
+
+    expect(screen.getAllByText('To add')).toHaveLength(2);
+    expect(screen.getAllByText('Not found')).toHaveLength(2);
+    expect(screen.getByText('Ambiguous', { selector: 'span' })).toBeInTheDocument();
+    expect(screen.getByText('Matches shared.a, shared.b')).toBeInTheDocument();
+    expect(screen.queryByText(/fed by active rule/)).not.toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Add 1 user' }));
+    expect(onExecute).toHaveBeenCalledTimes(1);
+  });
+
+  it('warns that imported users become direct members of a rule-managed group', () => {
+    render(
+      <GroupImportModal
+        {...base}
+        phase="preview"
+        plan={{ ...plan, feedingRuleNames: ['Engineers by department'] }}
+      />,
+    );
+
+    expect(screen.getByText(/fed by active rule: Engineers by department/)).toBeInTheDocument();
+    expect(screen.getByText('direct')).toBeInTheDocument();
+  });
+
+  it('cannot confirm a dry run with nobody to add', () => {
+    render(
+      <GroupImportModal
+        {...base}
+        phase="preview"
+        plan={{ ...plan, toAdd: [], counts: { ...plan.counts, 'to-add': 0 } }}
+      />,
+    );
+
+    expect(screen.getByRole('button', { name: 'Add 0 users' })).toBeDisabled();
+  });
+
+  it('reports users that were never sent, and offers the result CSV', async () => {
+    const onDownloadResults = vi.fn();
+    render(
+      <GroupImportModal
+        {...base}
+        phase="done"
+        plan={plan}
+        result={{ outcomes: new Map(), added: 3, failed: 1, notSent: 2, cancelled: false }}
+        onDownloadResults={onDownloadResults}
+      />,
+    );
+
+    expect(
+      screen.getByText(/2 users were not sent — the import stopped early/),
+    ).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Download results' }));
+    expect(onDownloadResults).toHaveBeenCalledTimes(1);
+  });
+});
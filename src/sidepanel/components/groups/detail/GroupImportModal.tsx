@@ -0,0 +1,287 @@
+/**
+ * @module sidepanel/components/groups/detail/GroupImportModal
+ * @description Wizard to import a CSV list of users into one group.
+ *
+ * Upload or paste a CSV of logins, emails or user ids → dry run, which sorts every
+ * row into to-add / already-member / duplicate / not-found / ambiguous and flags a
+ * group fed by an active rule → confirm → add the to-add users → download the
+ * result CSV. Nothing is written before the confirm, and only to-add rows are sent.
+ *
+ * Presentational: {@link sidepanel/hooks/useGroupImport.useGroupImport} owns the
+ * phases and the calls.
+ */
+import React, { useRef, useState } from 'react';
+import Modal from '../../shared/Modal';
+import Button from '../../shared/Button';
+import Badge, { type BadgeVariant } from '../../shared/Badge';
+import LoadingSpinner from '../../shared/LoadingSpinner';
+import Textarea from '../../shared/Textarea';
+import StatCard from '../../overview/shared/StatCard';
+import type { ImportPhase } from '../../../hooks/useGroupImport';
+import type { GroupImportResult } from '../../../hooks/useOktaApi/groupImport';
+import type { ImportPlan, ImportRowStatus } from '../../../../shared/membership/importPlan';
+
+/** Rows beyond this count are not listed in the dry run; the result CSV has them all. */
+const DISPLAY_CAP = 200;
+
+/** Dry-run label and badge per row status. */
+const STATUS_BADGE: Record<ImportRowStatus, { label: string; variant: BadgeVariant }> = {
+  'to-add': { label: 'To add', variant: 'primary' },
+  'already-member': { label: 'Already member', variant: 'neutral' },
+  duplicate: { label: 'Duplicate', variant: 'neutral' },
+  'not-found': { label: 'Not found', variant: 'danger' },
+  ambiguous: { label: 'Ambiguous', variant: 'warning' },
+};
+
+interface GroupImportModalProps {
+  isOpen: boolean;
+  /** The target group's name, for the copy. */
+  groupName: string;
+  phase: ImportPhase;
+  plan: ImportPlan | null;
+  result: GroupImportResult | null;
+  error: string | null;
+  /** Dry-run the CSV text. */
+  onPreview: (csvText: string) => void;
+  /** Add the previewed to-add users. */
+  onExecute: () => void;
+  /** Download the result CSV. */
+  onDownloadResults: () => void;
+  /** Return to the CSV step, discarding the dry run. */
+  onBack: () => void;
+  /** Close + reset. */
+  onClose: () => void;
+}
+
+/** Renders the import wizard across its CSV → dry run → running → done phases. */
+const GroupImportModal: React.FC<GroupImportModalProps> = ({
+  isOpen,
+  groupName,
+  phase,
+  plan,
+  result,
+  error,
+  onPreview,
+  onExecute,
+  onDownloadResults,
+  onBack,
+  onClose,
+}) => {
+  const [csvText, setCsvText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const showInput = phase === 'idle' || phase === 'preview-loading';
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setCsvText(await file.text());
+    setFileName(file.name);
+    // Clear the input so choosing the same file again still fires a change.
+    event.target.value = '';
+  };
+
+  const toAdd = plan?.counts['to-add'] ?? 0;
+
+  const footer =
+    phase === 'preview' && plan ? (
+      <>
+        <Button variant="secondary" onClick={onBack}>
+          Back
+        </Button>
+        <Button variant="ghost" icon="download" onClick={onDownloadResults}>
+          Download dry run
+        </Button>
+        <Button variant="primary" onClick={onExecute} disabled={toAdd === 0}>
+          Add {toAdd} user{toAdd === 1 ? '' : 's'}
+        </Button>
+      </>
+    ) : phase === 'done' || phase === 'error' ? (
+      <>
+        {phase === 'done' && (
+          <Button variant="secondary" icon="download" onClick={onDownloadResults}>
+            Download results
+          </Button>
+        )}
+        <Button variant="primary" onClick={onClose}>
+          Close
+        </Button>
+      </>
+    ) : showInput ? (
+      <>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={() => onPreview(csvText)}
+          disabled={!csvText.trim() || phase === 'preview-loading'}
+          loading={phase === 'preview-loading'}
+        >
+          Preview import
+        </Button>
+      </>
+    ) : undefined;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Import members into ${groupName}`}
+      size="lg"
+      footer={footer}
+    >
+      {/* Step 1 — the CSV */}
+      {showInput && (
+        <div className="space-y-3">
+          <p className="text-sm text-neutral-600">
+            One user per row — a login, an email or an Okta user id. With a header row, the{' '}
+            <code>login</code>, <code>email</code> or <code>id</code> column is read; otherwise the
+            first column. Nothing is added until you confirm the dry run.
+          </p>
+          <div className="flex items-center gap-3">
+            <Button
+              variant="secondary"
+              size="sm"
+              icon="list"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Choose CSV file
+            </Button>
+            {fileName && <span className="text-xs text-neutral-500 truncate">{fileName}</span>}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv,text/plain"
+              className="hidden"
+              data-testid="import-file-input"
+              onChange={handleFile}
+            />
+          </div>
+          <Textarea
+            label="Users"
+            value={csvText}
+            onChange={setCsvText}
+            rows={8}
+            placeholder={'login\nada.lovelace@example.com\nalan.turing@example.com'}
+            hint="Or paste the CSV here."
+            disabled={phase === 'preview-loading'}
+          />
+          {error && <p className="text-sm text-danger-text">{error}</p>}
+        </div>
+      )}
+
+      {/* Step 2 — dry run */}
+      {phase === 'preview' && plan && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <StatCard title="To add" value={plan.counts['to-add']} color="primary" icon="plus" />
+            <StatCard
+              title="Already members"
+              value={plan.counts['already-member'] + plan.counts.duplicate}
+              color="neutral"
+              icon="check"
+            />
+            <StatCard
+              title="Not found"
+              value={plan.counts['not-found']}
+              color={plan.counts['not-found'] > 0 ? 'danger' : 'neutral'}
+              icon="search"
+            />
+            <StatCard
+              title="Ambiguous"
+              value={plan.counts.ambiguous}
+              color={plan.counts.ambiguous > 0 ? 'warning' : 'neutral'}
+              icon="alert"
+            />
+          </div>
+
+          {plan.feedingRuleNames.length > 0 && (
+            <div className="rounded-md border border-warning-light bg-warning-light px-3 py-2 text-sm text-warning-text">
+              <strong>{groupName}</strong> is fed by active rule
+              {plan.feedingRuleNames.length === 1 ? '' : 's'}: {plan.feedingRuleNames.join(', ')}.
+              Imported users become <strong>direct</strong> members, which the rule will not remove
+              when they stop matching it.
+            </div>
+          )}
+
+          {plan.duplicateInputs > 0 && (
+            <p className="text-xs text-neutral-500">
+              {plan.duplicateInputs} repeated row{plan.duplicateInputs === 1 ? ' was' : 's were'}{' '}
+              ignored.
+            </p>
+          )}
+
+          <ul
+            className="divide-y divide-neutral-100 rounded-md border border-neutral-200"
+            aria-label="Dry run"
+          >
+            {plan.rows.slice(0, DISPLAY_CAP).map((row) => (
+              <li key={row.line} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <div className="text-sm text-neutral-900 truncate">{row.value}</div>
+                  {row.user && row.user.login.toLowerCase() !== row.value.toLowerCase() && (
+                    <div className="text-xs text-neutral-500 truncate">{row.user.login}</div>
+                  )}
+                  {row.candidates && (
+                    <div className="text-xs text-neutral-500 truncate">
+                      Matches {row.candidates.map((c) => c.login).join(', ')}
+                    </div>
+                  )}
+                </div>
+                <Badge variant={STATUS_BADGE[row.status].variant}>
+                  {STATUS_BADGE[row.status].label}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+          {plan.rows.length > DISPLAY_CAP && (
+            <p className="text-xs text-neutral-500">
+              Showing the first {DISPLAY_CAP} of {plan.rows.length.toLocaleString()} rows. The
+              dry-run CSV lists every row.
+            </p>
+          )}
+
+          <p className="text-xs text-neutral-400">
+            This is reversible from the History tab (the import gets one undo entry).
+          </p>
+        </div>
+      )}
+
+      {/* Step 3 — running */}
+      {phase === 'running' && (
+        <LoadingSpinner size="xl" centered message="Adding members… see the progress bar below." />
+      )}
+
+      {/* Step 4 — done / error */}
+      {phase === 'done' && result && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <StatCard title="Added" value={result.added} color="success" icon="check" />
+            <StatCard
+              title="Failed"
+              value={result.failed}
+              color={result.failed > 0 ? 'danger' : 'neutral'}
+              icon="alert"
+            />
+          </div>
+          {result.notSent > 0 && (
+            <p className="text-sm text-warning-text">
+              {result.notSent} user{result.notSent === 1 ? ' was' : 's were'} not sent
+              {result.cancelled ? ' — the import was cancelled' : ' — the import stopped early'}.
+              Re-run the same CSV to add them; rows already added show as members.
+            </p>
+          )}
+          <p className="text-xs text-neutral-500">
+            The result CSV lists every row with its outcome.
+          </p>
+        </div>
+      )}
+      {phase === 'error' && (
+        <p className="text-sm text-danger-text">{error || 'The import did not complete.'}</p>
+      )}
+    </Modal>
+  );
+};
+
+export default GroupImportModal;
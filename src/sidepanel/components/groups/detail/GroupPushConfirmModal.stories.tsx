@@ -0,0 +1,74 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import GroupPushConfirmModal from './GroupPushConfirmModal';
+import type { GroupPushLink } from '../../../../shared/groupPush/groupPush';
+
+const link: GroupPushLink = {
+  mappingId: 'gpmFAKE1',
+  appId: '0oaFAKE1',
+  appName: 'Slack',
+  sourceGroupId: '00gFAKE1',
+  sourceGroupName: 'Engineering',
+  targetGroupId: '00gFAKET1',
+  targetGroupName: 'engineering',
+  status: 'ACTIVE',
+};
+
+/** The confirmation between an armed Group Push write and the write. */
+const meta = {
+  title: 'Groups/GroupPushConfirmModal',
+  component: GroupPushConfirmModal,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Opens from the pending write itself. Pushing into an existing group warns that Okta ' +
+          'replaces its members; push now says it cannot be undone; a delete can also delete the ' +
+          'target group, which History cannot bring back.',
+      },
+    },
+  },
+  args: {
+    pending: {
+      kind: 'create',
+      app: { id: '0oaFAKE1', name: 'Slack' },
+      target: { kind: 'new', name: 'engineering' },
+    },
+    groupName: 'Engineering',
+    onCancel: fn(),
+    onConfirm: fn(),
+  },
+} satisfies Meta<typeof GroupPushConfirmModal>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Pushing into a group Okta creates in the app. */
+export const PushNewGroup: Story = {};
+
+/** Pushing into a group the app already has. */
+export const PushExistingGroup: Story = {
+  args: {
+    pending: {
+      kind: 'create',
+      app: { id: '0oaFAKE1', name: 'Slack' },
+      target: { kind: 'existing', id: '00gFAKET2', name: 'eng-all' },
+    },
+  },
+};
+
+/** Deactivating a running push. */
+export const Deactivate: Story = {
+  args: { pending: { kind: 'status', link, status: 'INACTIVE' } },
+};
+
+/** Pushing an active mapping now. */
+export const PushNow: Story = {
+  args: { pending: { kind: 'push', link } },
+};
+
+/** Deleting, with the choice to delete the target group too. */
+export const Delete: Story = {
+  args: { pending: { kind: 'delete', link } },
+};
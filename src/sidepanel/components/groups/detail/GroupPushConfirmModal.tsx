@@ -0,0 +1,191 @@
+/**
+ * @module sidepanel/components/groups/detail/GroupPushConfirmModal
+ * @description The confirmation between an armed Group Push write and the write.
+ *
+ * Opens from `pending` — the nullable write itself — the same shape as
+ * `AdminRoleConfirmModal`. Each verb states the consequence an admin could miss:
+ *
+ * - **Push** writes the group's membership into the app's target group, and
+ *   replaces what is there when the target already existed.
+ * - **Push now** has no API of its own: an active mapping is paused and
+ *   activated again, which is what makes Okta push. It cannot be undone.
+ * - **Delete** can also delete the target group from the app. History can link
+ *   the group again only when the target group was kept, so the box starts
+ *   unticked.
+ *
+ * Security: group and app names render through React's escaping.
+ */
+import React, { useState } from 'react';
+import { AlertMessage, Button, Checkbox, Modal } from '../../shared';
+import type { PendingPushWrite } from '../../../hooks/useGroupPushMappings';
+
+/** Props for {@link GroupPushConfirmModal}. */
+export interface GroupPushConfirmModalProps {
+  /** The write awaiting confirmation; `null` keeps the modal closed. */
+  pending: PendingPushWrite | null;
+  /** The group being pushed, as shown in the body. */
+  groupName: string;
+  /** Dismiss without writing. */
+  onCancel: () => void;
+  /** Run the write; `deleteTargetGroup` is only ever set for a delete. */
+  onConfirm: (options: { deleteTargetGroup?: boolean }) => void;
+}
+
+/** Title and confirm label per verb. */
+function copyFor(pending: PendingPushWrite | null): { title: string; confirm: string } {
+  switch (pending?.kind) {
+    case 'create':
+      return { title: 'Push Group', confirm: 'Push' };
+    case 'status':
+      return pending.status === 'ACTIVE'
+        ? { title: 'Activate Group Push', confirm: 'Activate' }
+        : { title: 'Deactivate Group Push', confirm: 'Deactivate' };
+    case 'push':
+      return { title: 'Push Group Now', confirm: 'Push now' };
+    case 'delete':
+      return { title: 'Delete Group Push', confirm: 'Delete' };
+    default:
+      return { title: '', confirm: '' };
+  }
+}
+
+/**
+ * Confirms one Group Push write.
+ *
+ * @param props - See {@link GroupPushConfirmModalProps}.
+ */
+const GroupPushConfirmModal: React.FC<GroupPushConfirmModalProps> = ({
+  pending,
+  groupName,
+  onCancel,
+  onConfirm,
+}) => {
+  const [deleteTargetGroup, setDeleteTargetGroup] = useState(false);
+
+  // Every delete starts with the target group kept, whatever the last one chose.
+  // Adjusted during render, like the hooks' reset on a new subject.
+  const [statePending, setStatePending] = useState(pending);
+  if (statePending !== pending) {
+    setStatePending(pending);
+    setDeleteTargetGroup(false);
+  }
+
+  const { title, confirm } = copyFor(pending);
+  const appName = pending
+    ? pending.kind === 'create'
+      ? pending.app.name
+      : pending.link.appName
+    : '';
+  const targetName =
+    pending?.kind === 'create'
+      ? pending.target.name
+      : pending
+        ? (pending.link.targetGroupName ?? pending.link.targetGroupId)
+        : undefined;
+  const group = <strong className="text-neutral-900">{groupName}</strong>;
+  const app = <strong className="text-neutral-900">{appName}</strong>;
+
+  return (
+    <Modal
+      isOpen={pending !== null}
+      onClose={onCancel}
+      title={title}
+      size="sm"
+      footer={
+        <>
+          <Button variant="secondary" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            variant={pending?.kind === 'delete' ? 'danger' : 'primary'}
+            size="sm"
+            onClick={() => onConfirm(pending?.kind === 'delete' ? { deleteTargetGroup } : {})}
+          >
+            {confirm}
+          </Button>
+        </>
+      }
+    >
+      {pending && (
+        <div className="space-y-3">
+          <p className="text-sm text-neutral-700">
+            {pending.kind === 'create' ? (
+              pending.target.kind === 'new' ? (
+                <>
+                  Push {group} to {app} as a new group named{' '}
+                  <strong className="text-neutral-900">{pending.target.name}</strong>?
+                </>
+              ) : (
+                <>
+                  Push {group} to {app} into its group{' '}
+                  <strong className="text-neutral-900">{targetName ?? pending.target.id}</strong>?
+                </>
+              )
+            ) : pending.kind === 'status' ? (
+              <>
+                {pending.status === 'ACTIVE' ? 'Activate' : 'Deactivate'} the push of {group} to{' '}
+                {app}?
+              </>
+            ) : pending.kind === 'push' ? (
+              <>
+                Push the current members of {group} to {app} now?
+              </>
+            ) : (
+              <>
+                Stop pushing {group} to {app}?
+              </>
+            )}
+          </p>
+
+          {pending.kind === 'create' && pending.target.kind === 'existing' && (
+            <AlertMessage
+              message={{
+                text: "Okta replaces the target group's members with this group's members.",
+                type: 'warning',
+              }}
+            />
+          )}
+          {pending.kind === 'status' && pending.status === 'INACTIVE' && (
+            <p className="text-xs text-neutral-600">
+              The target group stays in the app with its current members, and stops following this
+              group. You can undo this from History.
+            </p>
+          )}
+          {pending.kind === 'status' && pending.status === 'ACTIVE' && (
+            <p className="text-xs text-neutral-600">
+              Okta pushes the group&apos;s current members straight away. You can undo this from
+              History.
+            </p>
+          )}
+          {pending.kind === 'push' && (
+            <p className="text-xs text-neutral-600">
+              {pending.link.status === 'ACTIVE'
+                ? 'The mapping is paused and activated again, which makes Okta push. '
+                : 'The mapping is activated, which makes Okta push. '}
+              A push cannot be undone.
+            </p>
+          )}
+          {pending.kind === 'create' && (
+            <p className="text-xs text-neutral-600">You can undo this from History.</p>
+          )}
+          {pending.kind === 'delete' && (
+            <>
+              <Checkbox
+                checked={deleteTargetGroup}
+                onChange={setDeleteTargetGroup}
+                label={`Also delete ${targetName ?? 'the target group'} from ${appName}`}
+              />
+              <p className="text-xs text-neutral-600">
+                {deleteTargetGroup
+                  ? 'History cannot undo this: the target group will be gone.'
+                  : 'The target group stays in the app. You can undo this from History.'}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default GroupPushConfirmModal;
@@ -0,0 +1,95 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import GroupPushMappingsPanel from './GroupPushMappingsPanel';
+import type { GroupPushMappings } from '../../../hooks/useGroupPushMappings';
+import type { GroupPushLink } from '../../../../shared/groupPush/groupPush';
+
+const link = (overrides: Partial<GroupPushLink>): GroupPushLink => ({
+  mappingId: 'gpmFAKE1',
+  appId: '0oaFAKE1',
+  appName: 'Slack',
+  sourceGroupId: '00gFAKE1',
+  sourceGroupName: 'Engineering',
+  targetGroupId: '00gFAKET1',
+  targetGroupName: 'engineering',
+  status: 'ACTIVE',
+  lastPush: '2026-10-18T09:30:00.000Z',
+  ...overrides,
+});
+
+const push = (overrides: Partial<GroupPushMappings> = {}): GroupPushMappings => ({
+  status: 'done',
+  error: null,
+  apps: [
+    { id: '0oaFAKE1', name: 'Slack' },
+    { id: '0oaFAKE2', name: 'Google Workspace' },
+  ],
+  links: [
+    link({}),
+    link({
+      mappingId: 'gpmFAKE2',
+      appId: '0oaFAKE2',
+      appName: 'Google Workspace',
+      targetGroupName: 'engineering@example.com',
+      status: 'ERROR',
+      errorSummary: 'A group with this name already exists in the app.',
+    }),
+  ],
+  unreadableApps: [],
+  load: fn(),
+  listTargetGroups: async () => [{ id: '00gFAKET9', name: 'eng-all' }],
+  canWrite: true,
+  pending: null,
+  requestCreate: fn(),
+  requestStatus: fn(),
+  requestPushNow: fn(),
+  requestDelete: fn(),
+  cancelPending: fn(),
+  confirmPending: async () => {},
+  isWriting: false,
+  ...overrides,
+});
+
+/** A group's Group Push mappings, with status, last error and writes. */
+const meta = {
+  title: 'Groups/GroupPushMappingsPanel',
+  component: GroupPushMappingsPanel,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Read only when asked — one request per Group Push app. A failed push sorts first with ' +
+          "Okta's error summary. Every button arms a write that `GroupPushConfirmModal` confirms.",
+      },
+    },
+  },
+  args: { groupName: 'Engineering', push: push() },
+} satisfies Meta<typeof GroupPushMappingsPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Before the read: one button. */
+export const NotLoaded: Story = { args: { push: push({ status: 'idle', links: [], apps: [] }) } };
+
+/** One running push and one that failed. */
+export const Loaded: Story = {};
+
+/** One app could not be read, so its rows are missing rather than absent. */
+export const PartlyUnreadable: Story = {
+  args: {
+    push: push({
+      links: [link({})],
+      unreadableApps: [{ id: '0oaFAKE2', name: 'Google Workspace' }],
+    }),
+  },
+};
+
+/** Pushed nowhere yet. */
+export const NoMappings: Story = { args: { push: push({ links: [] }) } };
+
+/** The read failed. */
+export const ReadFailed: Story = {
+  args: { push: push({ status: 'error', error: 'Forbidden', links: [] }) },
+};
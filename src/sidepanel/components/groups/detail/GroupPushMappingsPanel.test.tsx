@@ -0,0 +1,124 @@
+/**
+ * The Group Detail view's Group Push rows: nothing read until asked, a failed
+ * push first with Okta's reason, the verbs each row offers, and an unreadable
+ * app named rather than passed over.
+ *
+ * Fixtures use only fake placeholders (`00gFAKE…`, `0oaFAKE…`, `gpmFAKE…`).
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import GroupPushMappingsPanel from './GroupPushMappingsPanel';
+import type { GroupPushMappings } from '../../../hooks/useGroupPushMappings';
+import type { GroupPushLink } from '../../../../shared/groupPush/groupPush';
+
+const link = (overrides: Partial<GroupPushLink>): GroupPushLink => ({
+  mappingId: 'gpmFAKE1',
+  appId: '0oaFAKE1',
+  appName: 'Slack',
+  sourceGroupId: '00gFAKE1',
+  sourceGroupName: 'Engineering',
+  targetGroupId: '00gFAKET1',
+  targetGroupName: 'engineering',
+  status: 'ACTIVE',
+  ...overrides,
+});
+
+const push = (overrides: Partial<GroupPushMappings> = {}): GroupPushMappings => ({
+  status: 'done',
+  error: null,
+  apps: [{ id: '0oaFAKE1', name: 'Slack' }],
+  links: [],
+  unreadableApps: [],
+  load: vi.fn(),
+  listTargetGroups: vi.fn().mockResolvedValue([]),
+  canWrite: true,
+  pending: null,
+  requestCreate: vi.fn(),
+  requestStatus: vi.fn(),
+  requestPushNow: vi.fn(),
+  requestDelete: vi.fn(),
+  cancelPending: vi.fn(),
+  confirmPending: vi.fn(),
+  isWriting: false,
+  ...overrides,
+});
+
+describe('GroupPushMappingsPanel', () => {
+  it('reads nothing until the admin asks', async () => {
+    const state = push({ status: 'idle' });
+    render(<GroupPushMappingsPanel groupName="Engineering" push={state} />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Load push status' }));
+    expect(state.load).toHaveBeenCalled();
+  });
+
+  it("puts a failed push first with Okta's reason, and offers activate on it", async () => {
+    const state = push({
+      links: [
+        link({ appName: 'Box' }),
+        link({
+          mappingId: 'gpmFAKE2',
+          appName: 'Zoom',
+          status: 'ERROR',
+          errorSummary: 'Name taken',
+        }),
+      ],
+    });
+    render(<GroupPushMappingsPanel groupName="Engineering" push={state} />);
+
+    const rows = within(screen.getByRole('list', { name: 'Group Push mappings' })).getAllByRole(
+      'listitem',
+    );
+    expect(rows[0]).toHaveTextContent('Zoom');
+    expect(rows[0]).toHaveTextContent('Push error');
+    expect(rows[0]).toHaveTextContent('Name taken');
+
+    await userEvent.click(within(rows[0]).getByRole('button', { name: 'Activate' }));
+    expect(state.requestStatus).toHaveBeenCalledWith(
+      expect.objectContaining({ mappingId: 'gpmFAKE2' }),
+      'ACTIVE',
+    );
+    await userEvent.click(within(rows[1]).getByRole('button', { name: 'Delete' }));
+    expect(state.requestDelete).toHaveBeenCalledWith(
+      expect.objectContaining({ mappingId: 'gpmFAKE1' }),
+    );
+  });
+
+  it('names an app whose mappings could not be read', () => {
+    render(
+      <GroupPushMappingsPanel
+        groupName="Engineering"
+        push={push({ unreadableApps: [{ id: '0oaFAKE2', name: 'Zoom' }] })}
+      />,
+    );
+
+    expect(screen.getByText('Mappings could not be read from Zoom.')).toBeInTheDocument();
+    expect(screen.getByText('No Group Push mapping for this group.')).toBeInTheDocument();
+  });
+
+  it('arms a push into a new group named after this one', async () => {
+    const state = push();
+    render(<GroupPushMappingsPanel groupName="Engineering" push={state} />);
+
+    await userEvent.selectOptions(screen.getByLabelText('Push to an app'), '0oaFAKE1');
+    await userEvent.click(screen.getByRole('button', { name: 'Push group' }));
+
+    expect(state.requestCreate).toHaveBeenCalledWith(
+      { id: '0oaFAKE1', name: 'Slack' },
+      { kind: 'new', name: 'Engineering' },
+    );
+  });
+
+  it('offers no writes without a connected tab', () => {
+    render(
+      <GroupPushMappingsPanel
+        groupName="Engineering"
+        push={push({ canWrite: false, links: [link({})] })}
+      />,
+    );
+
+    expect(screen.queryByRole('button', { name: 'Push now' })).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('Push to an app')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * @module sidepanel/components/groups/detail/GroupPushMappingsPanel
+ * @description The group's Group Push mappings, with their status, last push
+ * error and writes, inside {@link GroupPushSection}.
+ *
+ * Unlike the assignment rows above it, these rows do carry a status: they come
+ * from `/api/v1/apps/{appId}/group-push/mappings`, which reports one. A failed
+ * push sorts first and shows Okta's error summary, since that is usually why an
+ * admin opened the section.
+ *
+ * Nothing is read until the admin asks — one request per Group Push app. Every
+ * button only arms a write; the confirmation is {@link GroupPushConfirmModal},
+ * mounted by {@link GroupDetailView}.
+ *
+ * Purely presentational over
+ * {@link sidepanel/hooks/useGroupPushMappings.useGroupPushMappings}, apart from
+ * the create form's own fields. Group and app names render through React's
+ * escaping.
+ */
+import React, { useState } from 'react';
+import {
+  AlertMessage,
+  Badge,
+  Button,
+  Input,
+  ListRow,
+  Select,
+  Skeleton,
+  type BadgeVariant,
+} from '../../shared';
+import {
+  GROUP_PUSH_STATUS_LABEL,
+  sortGroupPushLinks,
+  type GroupPushLink,
+  type GroupPushStatus,
+} from '../../../../shared/groupPush/groupPush';
+import { formatDate } from '../../../../shared/utils/dateFormat';
+import type { GroupPushMappings } from '../../../hooks/useGroupPushMappings';
+import type { AppTargetGroup } from '../../../hooks/useOktaApi/pushGroupOps';
+
+/** Props for {@link GroupPushMappingsPanel}. */
+export interface GroupPushMappingsPanelProps {
+  /** The group's name, the default name of a new target group. */
+  groupName: string;
+  /** The mappings' state and verbs, from `useGroupPushMappings`. */
+  push: GroupPushMappings;
+}
+
+const STATUS_VARIANT: Record<GroupPushStatus, BadgeVariant> = {
+  ACTIVE: 'success',
+  INACTIVE: 'neutral',
+  ERROR: 'danger',
+  UNKNOWN: 'warning',
+};
+
+/** One mapping: the app, the target group, its status and its verbs. */
+const MappingRow: React.FC<{ link: GroupPushLink; push: GroupPushMappings }> = ({ link, push }) => {
+  const { canWrite, isWriting, requestStatus, requestPushNow, requestDelete } = push;
+  return (
+    <ListRow as="li" density="compact">
+      <div className="space-y-1">
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="text-sm font-medium text-neutral-900">{link.appName}</span>
+          <Badge variant={STATUS_VARIANT[link.status]}>
+            {GROUP_PUSH_STATUS_LABEL[link.status]}
+          </Badge>
+        </div>
+        <p className="text-xs text-neutral-600">
+          Target group: {link.targetGroupName ?? link.targetGroupId}
+        </p>
+        {link.errorSummary && <p className="text-xs text-danger-text">{link.errorSummary}</p>}
+        <p className="text-xs text-neutral-500">Last push: {formatDate(link.lastPush)}</p>
+        {canWrite && (
+          <div className="flex flex-wrap gap-1.5 pt-1">
+            {link.status !== 'UNKNOWN' && (
+              <Button
+                variant="secondary"
+                size="sm"
+                icon="refresh"
+                disabled={isWriting}
+                onClick={() => requestPushNow(link)}
+              >
+                Push now
+              </Button>
+            )}
+            {link.status === 'ACTIVE' ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                icon="pause"
+                disabled={isWriting}
+                onClick={() => requestStatus(link, 'INACTIVE')}
+              >
+                Deactivate
+              </Button>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isWriting}
+                onClick={() => requestStatus(link, 'ACTIVE')}
+              >
+                Activate
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              icon="trash"
+              disabled={isWriting}
+              onClick={() => requestDelete(link)}
+            >
+              Delete
+            </Button>
+          </div>
+        )}
+      </div>
+    </ListRow>
+  );
+};
+
+/** Where the create form's existing-group list stands. */
+type TargetGroupsState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'done'; groups: AppTargetGroup[] }
+  | { status: 'error'; error: string };
+
+/**
+ * Picks an app and a target group — a new one named after this group, or one
+ * already in the app — and arms the create.
+ */
+const CreateForm: React.FC<GroupPushMappingsPanelProps> = ({ groupName, push }) => {
+  const { apps, listTargetGroups, requestCreate, isWriting } = push;
+  const [appId, setAppId] = useState('');
+  const [mode, setMode] = useState<'new' | 'existing'>('new');
+  const [newName, setNewName] = useState(groupName);
+  const [targetId, setTargetId] = useState('');
+  const [targets, setTargets] = useState<TargetGroupsState>({ status: 'idle' });
+
+  const readTargets = async (forAppId: string) => {
+    setTargetId('');
+    setTargets({ status: 'loading' });
+    try {
+      setTargets({ status: 'done', groups: await listTargetGroups(forAppId) });
+    } catch (err) {
+      setTargets({
+        status: 'error',
+        error: err instanceof Error ? err.message : "Failed to read the app's groups",
+      });
+    }
+  };
+
+  const chooseApp = (next: string) => {
+    setAppId(next);
+    if (mode === 'existing' && next) void readTargets(next);
+  };
+  const chooseMode = (next: string) => {
+    const existing = next === 'existing';
+    setMode(existing ? 'existing' : 'new');
+    if (existing && appId && targets.status === 'idle') void readTargets(appId);
+  };
+
+  const app = apps.find((candidate) => candidate.id === appId);
+  const target = targets.status === 'done' ? targets.groups.find((g) => g.id === targetId) : null;
+  const ready = app && (mode === 'new' ? newName.trim() !== '' : target);
+
+  const submit = () => {
+    if (!app) return;
+    if (mode === 'new') {
+      requestCreate(app, { kind: 'new', name: newName.trim() });
+    } else if (target) {
+      requestCreate(app, { kind: 'existing', id: target.id, name: target.name });
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t border-neutral-200 pt-3">
+      <Select
+        label="Push to an app"
+        value={appId}
+        onChange={chooseApp}
+        options={[
+          { value: '', label: 'Choose an app…' },
+          ...apps.map((candidate) => ({ value: candidate.id, label: candidate.name })),
+        ]}
+      />
+      <Select
+        label="Target group"
+        value={mode}
+        onChange={chooseMode}
+        options={[
+          { value: 'new', label: 'Create a group in the app' },
+          { value: 'existing', label: 'Link a group already in the app' },
+        ]}
+      />
+      {mode === 'new' ? (
+        <Input label="Name in the app" value={newName} onChange={setNewName} />
+      ) : targets.status === 'loading' ? (
+        <p className="text-xs text-neutral-500">Reading the app&apos;s groups…</p>
+      ) : targets.status === 'error' ? (
+        <p className="text-xs text-danger-text">{targets.error}</p>
+      ) : targets.status === 'done' ? (
+        <Select
+          label="Group in the app"
+          value={targetId}
+          onChange={setTargetId}
+          options={[
+            {
+              value: '',
+              label: targets.groups.length ? 'Choose a group…' : 'The app has no groups',
+            },
+            ...targets.groups.map((group) => ({ value: group.id, label: group.name })),
+          ]}
+        />
+      ) : null}
+      <Button
+        variant="primary"
+        size="sm"
+        icon="plus"
+        disabled={!ready || isWriting}
+        onClick={submit}
+      >
+        Push group
+      </Button>
+    </div>
+  );
+};
+
+/**
+ * Lists the group's Group Push mappings, with a form to push it to another app.
+ *
+ * @param props - See {@link GroupPushMappingsPanelProps}.
+ */
+const GroupPushMappingsPanel: React.FC<GroupPushMappingsPanelProps> = ({ groupName, push }) => {
+  const { status, error, apps, links, unreadableApps, load, canWrite } = push;
+
+  if (status === 'idle') {
+    return (
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-neutral-600">
+          Read this group&apos;s Group Push mappings, with their status and last error.
+        </p>
+        <Button variant="secondary" size="sm" disabled={!canWrite} onClick={load}>
+          Load push status
+        </Button>
+      </div>
+    );
+  }
+  if (status === 'loading' && links.length === 0) {
+    return <Skeleton variant="row" size="lg" count={2} label="Reading push mappings…" />;
+  }
+  if (status === 'error') {
+    return (
+      <AlertMessage
+        message={{ text: `Push mappings could not be read: ${error}`, type: 'danger' }}
+        action={{ label: 'Retry', onClick: load }}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {unreadableApps.length > 0 && (
+        <AlertMessage
+          message={{
+            text: `Mappings could not be read from ${unreadableApps.map((app) => app.name).join(', ')}.`,
+            type: 'warning',
+          }}
+          action={{ label: 'Retry', onClick: load }}
+        />
+      )}
+      {apps.length === 0 ? (
+        <p className="text-sm text-neutral-500">No app in this org has Group Push enabled.</p>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-neutral-500">No Group Push mapping for this group.</p>
+      ) : (
+        <ul className="space-y-2" aria-label="Group Push mappings">
+          {sortGroupPushLinks(links).map((link) => (
+            <MappingRow key={link.mappingId} link={link} push={push} />
+          ))}
+        </ul>
+      )}
+      {canWrite && apps.length > 0 && <CreateForm groupName={groupName} push={push} />}
+    </div>
+  );
+};
+
+export default GroupPushMappingsPanel;
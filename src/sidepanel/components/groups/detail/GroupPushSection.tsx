@@ -10,10 +10,16 @@
  * Distinguishes "not pushed anywhere" (an empty array — a loaded fact) from "push
  * mappings were never loaded" (`undefined` — the group load's push enrichment is
  * non-fatal and can be skipped), so an unknown is never rendered as a zero.
+ *
+ * When given `push`, it also renders the group's Group Push mappings — a
+ * different collection, which does report a status — through
+ * {@link GroupPushMappingsPanel}.
  */
 import React from 'react';
 import { DetailSection } from '../../shared';
+import GroupPushMappingsPanel from './GroupPushMappingsPanel';
 import type { PushGroupMapping } from '../../../../shared/types';
+import type { GroupPushMappings } from '../../../hooks/useGroupPushMappings';
 
 /** Props for {@link GroupPushSection}. */
 interface GroupPushSectionProps {
@@ -22,13 +28,18 @@ interface GroupPushSectionProps {
    * this group and is rendered as unknown, not as "none".
    */
   mappings?: PushGroupMapping[];
+  /** The group's name, the default name of a new target group. */
+  groupName?: string;
+  /** The group's Group Push mappings and writes; omitted, only the assignments render. */
+  push?: GroupPushMappings;
 }
 
 /**
  * Renders one row per push mapping: the target app, the group it writes into, and
- * Okta's assignment priority where present.
+ * Okta's assignment priority where present. Then, with `push`, the Group Push
+ * mappings with their status.
  */
-const GroupPushSection: React.FC<GroupPushSectionProps> = ({ mappings }) => (
+const GroupPushSection: React.FC<GroupPushSectionProps> = ({ mappings, groupName = '', push }) => (
   <DetailSection
     title="App push"
     description="Applications this group's membership is pushed out to."
@@ -68,6 +79,12 @@ const GroupPushSection: React.FC<GroupPushSectionProps> = ({ mappings }) => (
         ))}
       </ul>
     )}
+    {push && (
+      <div className="mt-4 space-y-2 border-t border-neutral-200 pt-3">
+        <h4 className="text-xs font-semibold text-neutral-700">Group Push</h4>
+        <GroupPushMappingsPanel groupName={groupName} push={push} />
+      </div>
+    )}
   </DetailSection>
 );
 
@@ -26,6 +26,7 @@ import { useDebouncedUserSearch } from '../../../hooks/useDebouncedUserSearch';
 import { peek, setEntry } from '../../../cache/entityCache';
 import { cacheKeys } from '../../../cache/keys';
 import type { SourceStatus } from '../../../hooks/useGroupSource';
+import type { ImportCandidate } from '../../../../shared/membership/importPlan';
 import { createLogger } from '../../../../shared/utils/logger';
 
 const log = createLogger('useGroupMembersSection');
@@ -59,6 +60,9 @@ export interface UseGroupMembersSectionReturn {
   selectToAdd: (user: OktaUser) => void;
   addStatus: MemberWriteStatus;
   addError: string | null;
+
+  /** Fold users a CSV import just added into the roster (no request). */
+  mergeImported: (users: ImportCandidate[]) => void;
 }
 
 /**
@@ -216,6 +220,26 @@ export function useGroupMembersSection(
     [members, addUserToGroup, group.id, group.name, writeBack, setAddQuery, setSearchResults],
   );
 
+  // --- CSV import -------------------------------------------------------------
+  // The import ran its own adds (`useGroupImport`); this only folds the users it
+  // added into the roster, like `selectToAdd` does for one. Before the member
+  // analysis has run there is no roster to fold into, and nothing to correct.
+  const mergeImported = useCallback(
+    (users: ImportCandidate[]) => {
+      if (!members) return;
+      const known = new Set(members.map((m) => m.id));
+      const added: OktaUser[] = users
+        .filter((u) => !known.has(u.id))
+        .map((u) => ({
+          id: u.id,
+          status: u.status as OktaUser['status'],
+          profile: { login: u.login, email: u.email, firstName: u.firstName, lastName: u.lastName },
+        }));
+      writeBack([...members, ...added]);
+    },
+    [members, writeBack],
+  );
+
   return {
     members,
     removeTarget,
@@ -232,5 +256,6 @@ export function useGroupMembersSection(
     selectToAdd,
     addStatus,
     addError,
+    mergeImported,
   };
 }
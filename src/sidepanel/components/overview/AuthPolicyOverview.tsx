@@ -24,6 +24,7 @@ import LoadingSpinner from '../shared/LoadingSpinner';
 import StatCard from './shared/StatCard';
 import { useOktaApi } from '../../hooks/useOktaApi';
 import { useEntityQuery } from '../../cache/useEntityQuery';
+import { cacheKeys } from '../../cache/keys';
 import type { OktaPolicyRule } from '@/shared/schemas/okta';
 
 /**
@@ -79,9 +80,13 @@ const AuthPolicyOverview: React.FC<AuthPolicyOverviewProps> = ({
     isLoading,
     error,
     refetch,
-  } = useEntityQuery<OktaPolicyRule[]>(['policyRules', policyId], () => getPolicyRules(policyId), {
-    enabled: Boolean(targetTabId && policyId),
-  });
+  } = useEntityQuery<OktaPolicyRule[]>(
+    cacheKeys.policyRules(policyId),
+    () => getPolicyRules(policyId),
+    {
+      enabled: Boolean(targetTabId && policyId),
+    },
+  );
 
   const rules = rulesData ?? NO_RULES;
   // `priority` is nullish in the schema; unprioritized rules sort last.
@@ -6,6 +6,14 @@
  * {@link useOktaApi}), derives status counts for the stat cards, and hosts the
  * bulk operations (remove deprovisioned, export) plus the in-group
  * {@link MemberExplorer} (search, composition reports, MFA scan).
+ *
+ * "Access review" switches the explorer into review mode: the
+ * {@link AccessReviewPanel} sits above it, and the explorer lists the review's
+ * member snapshot with a decision on every row (see `useAccessReview`).
+ *
+ * "Snapshots" opens the {@link MembershipSnapshotPanel}: point-in-time records of
+ * the membership kept in IndexedDB, and the diff between any two of them (see
+ * `useMembershipSnapshots`).
  */
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useOktaApi } from '../../hooks/useOktaApi';
@@ -18,6 +26,13 @@ import AlertMessage, { type AlertMessageData } from '../shared/AlertMessage';
 import { Button, Modal, Skeleton } from '../shared';
 import StatCard from './shared/StatCard';
 import MemberExplorer from './members/MemberExplorer';
+import type { MemberReviewMode } from './members/types';
+import AccessReviewPanel from './members/AccessReviewPanel';
+import MembershipSnapshotPanel from './members/MembershipSnapshotPanel';
+import WatchButton from '../watchlist/WatchButton';
+import { useAccessReview } from '../../hooks/useAccessReview';
+import { useMembershipSnapshots } from '../../hooks/useMembershipSnapshots';
+import { decisionsOpen } from '../../../shared/membership/accessReview';
 import type { OktaUser, MemberMfaResult, MfaScanStatus } from '../../../shared/types';
 import { createLogger } from '../../../shared/utils/logger';
 
@@ -85,6 +100,8 @@ const GroupOverview: React.FC<GroupOverviewProps> = ({
   const [confirmRemoveOpen, setConfirmRemoveOpen] = useState(false);
   const [mfaResults, setMfaResults] = useState<Map<string, MemberMfaResult> | null>(null);
   const [scanStatus, setScanStatus] = useState<MfaScanStatus>('idle');
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const [snapshotsOpen, setSnapshotsOpen] = useState(false);
 
   // Surfaces results from the long-running operations this view owns —
   // `removeDeprovisioned` above all, which is called from nowhere else in the app.
@@ -192,6 +209,35 @@ const GroupOverview: React.FC<GroupOverviewProps> = ({
     }
   }, [groupId, members, scanGroupMfa]);
 
+  // Revocations removed members: drop the stale MFA scan and reload, as after a cleanup.
+  const handleRevoked = useCallback(() => {
+    invalidate(['mfaScan', groupId]);
+    void refetchMembers();
+  }, [groupId, refetchMembers]);
+  const reviewGroup = useMemo(() => ({ id: groupId, name: groupName }), [groupId, groupName]);
+  const accessReview = useAccessReview(reviewGroup, targetTabId, handleRevoked);
+  const { active: activeReview, decide: decideReview, setNote: noteReview } = accessReview;
+  const snapshots = useMembershipSnapshots(reviewGroup, targetTabId);
+
+  // In review mode the explorer lists the review's snapshot, not the live members:
+  // the decisions belong to the population the review started with.
+  const reviewMode = useMemo<MemberReviewMode | undefined>(
+    () =>
+      reviewOpen && activeReview
+        ? {
+            items: new Map(activeReview.items.map((item) => [item.user.id, item])),
+            editable: decisionsOpen(activeReview),
+            onDecide: decideReview,
+            onNote: noteReview,
+          }
+        : undefined,
+    [reviewOpen, activeReview, decideReview, noteReview],
+  );
+  const reviewMembers = useMemo(
+    () => (reviewMode && activeReview ? activeReview.items.map((item) => item.user) : null),
+    [reviewMode, activeReview],
+  );
+
   const requestMfaConfirm = useCallback(() => setScanStatus('confirming'), []);
   const cancelMfaConfirm = useCallback(() => setScanStatus('idle'), []);
 
@@ -270,11 +316,67 @@ const GroupOverview: React.FC<GroupOverviewProps> = ({
           >
             Export Members
           </Button>
+          <Button
+            variant={reviewOpen ? 'primary' : 'secondary'}
+            size="sm"
+            icon="clipboard-check"
+            onClick={() => setReviewOpen((open) => !open)}
+            title="Review every member's access: keep, revoke or ask, then sign off with evidence"
+          >
+            {activeReview && !reviewOpen ? 'Continue access review' : 'Access review'}
+          </Button>
+          <Button
+            variant={snapshotsOpen ? 'primary' : 'secondary'}
+            size="sm"
+            icon="clock"
+            onClick={() => setSnapshotsOpen((open) => !open)}
+            title="Record the membership now and compare it with an earlier snapshot"
+          >
+            Snapshots
+          </Button>
+          <WatchButton kind="group" id={groupId} name={groupName} oktaOrigin={oktaOrigin} />
         </div>
 
+        {snapshotsOpen && (
+          <MembershipSnapshotPanel
+            groupName={groupName}
+            snapshots={snapshots.snapshots}
+            isTaking={snapshots.isTaking}
+            error={snapshots.error}
+            selection={snapshots.selection}
+            compared={snapshots.compared}
+            diff={snapshots.diff}
+            onTake={(label) => void snapshots.take(label)}
+            onSelect={snapshots.select}
+            onRemove={(id) => void snapshots.remove(id)}
+            onDownloadDiff={snapshots.downloadDiff}
+            onDismissError={snapshots.clearError}
+            onClose={() => setSnapshotsOpen(false)}
+          />
+        )}
+
+        {reviewOpen && (
+          <AccessReviewPanel
+            groupName={groupName}
+            memberCount={members.length}
+            active={activeReview}
+            history={accessReview.history}
+            nextDue={accessReview.nextDue}
+            busy={accessReview.busy}
+            error={accessReview.error}
+            onStart={() => void accessReview.start()}
+            onApplyRevocations={() => void accessReview.applyRevocations()}
+            onSignOff={() => void accessReview.signOff()}
+            onDownloadEvidence={accessReview.downloadEvidence}
+            onDiscard={() => void accessReview.discard()}
+            onDismissError={accessReview.clearError}
+            onClose={() => setReviewOpen(false)}
+          />
+        )}
+
         {/* In-group member explorer: search, composition reports, MFA scan */}
         <MemberExplorer
-          members={members}
+          members={reviewMembers ?? members}
           isReloading={isLoading}
           mfaResults={mfaResults}
           scanStatus={scanStatus}
@@ -282,6 +384,7 @@ const GroupOverview: React.FC<GroupOverviewProps> = ({
           onRequestConfirm={requestMfaConfirm}
           onCancelConfirm={cancelMfaConfirm}
           oktaOrigin={oktaOrigin}
+          review={reviewMode}
         />
       </div>
 
@@ -19,6 +19,7 @@ import { setEntry } from '../../cache/entityCache';
 import { cacheKeys } from '../../cache/keys';
 import AlertMessage from '../shared/AlertMessage';
 import Button from '../shared/Button';
+import WatchButton from '../watchlist/WatchButton';
 import LoadingSpinner from '../shared/LoadingSpinner';
 import type { OktaUser } from '../../../shared/types';
 
@@ -26,7 +27,7 @@ import type { OktaUser } from '../../../shared/types';
 interface UserOverviewProps {
   /** Okta user id to load and summarize. */
   userId: string;
-  /** Optional display name (currently informational; not read in render). */
+  /** Optional display name; the Watch button pins the user under it. */
   userName?: string;
   /** Browser tab hosting the Okta session; every API call is routed to it. */
   targetTabId: number;
@@ -42,6 +43,7 @@ interface UserOverviewProps {
  */
 const UserOverview: React.FC<UserOverviewProps> = ({
   userId,
+  userName,
   targetTabId,
   onViewAllGroups,
   oktaOrigin,
@@ -188,6 +190,12 @@ const UserOverview: React.FC<UserOverviewProps> = ({
             >
               Compare
             </Button>
+            <WatchButton
+              kind="user"
+              id={userId}
+              name={userName || userId}
+              oktaOrigin={oktaOrigin}
+            />
             <Button
               variant="secondary"
               size="sm"
@@ -0,0 +1,142 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import AccessReviewPanel from './AccessReviewPanel';
+import {
+  createAccessReviewCampaign,
+  decideMembers,
+  withRevocationOutcomes,
+  type AccessReviewCampaign,
+} from '../../../../shared/membership/accessReview';
+import type { OktaUser } from '../../../../shared/types';
+
+/** Fake placeholder member; `rules` undefined means Okta said nothing. */
+function member(id: string, login: string, rules?: Array<{ id: string; name: string }>): OktaUser {
+  return {
+    id,
+    status: 'ACTIVE',
+    profile: { login, email: login, firstName: login.split('.')[0], lastName: 'Example' },
+    ...(rules !== undefined ? { _embedded: { 'group-rules': rules } } : {}),
+  } as OktaUser;
+}
+
+const started = createAccessReviewCampaign({
+  id: 'review-fake',
+  group: { id: '00gFAKE1', name: 'CRM Users' },
+  members: [
+    member('00uFAKE1', 'ada.lovelace@example.com', []),
+    member('00uFAKE2', 'alan.turing@example.com', [{ id: '0prFAKE1', name: 'Sales → CRM' }]),
+    member('00uFAKE3', 'grace.hopper@example.com'),
+  ],
+  createdBy: 'admin@example.com',
+  now: new Date('2026-01-05T09:00:00'),
+});
+
+const at = new Date('2026-01-06T10:00:00');
+const inProgress = decideMembers(started, ['00uFAKE1'], 'keep', at);
+const decided = decideMembers(inProgress, ['00uFAKE2', '00uFAKE3'], 'revoke', at);
+const applied = withRevocationOutcomes(
+  decided,
+  new Map([['00uFAKE3', { result: 'removed' }]]),
+  new Date('2026-01-07T10:00:00'),
+);
+const signed: AccessReviewCampaign = {
+  ...applied,
+  id: 'review-fake-q4',
+  status: 'signed-off',
+  signedOffAt: new Date('2025-12-18T16:00:00'),
+  signedOffBy: 'lead@example.com',
+};
+
+/**
+ * Access-review status and steps, shown above the member explorer in review mode.
+ */
+const meta = {
+  title: 'Overview/Members/AccessReviewPanel',
+  component: AccessReviewPanel,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component:
+          "Status and steps of a group's access review (certification).\n\n" +
+          'Start → decide every member in the explorer (keep / revoke / needs info) → apply ' +
+          'the revocations in one confirmed batch → attest and sign off → download the ' +
+          'evidence CSV. Revokes on rule-managed members are recorded but never sent: the ' +
+          'rule would re-add them. Past sign-offs keep their evidence, and the latest sets ' +
+          'when the next review is due.\n\n' +
+          '**Related internals:** [Hooks](?path=/docs/internals-hooks--docs)',
+      },
+    },
+  },
+  argTypes: {
+    groupName: { description: 'The group under review.' },
+    memberCount: { description: 'Members currently in the group, for the start prompt.' },
+    active: { description: 'The open campaign, if any.' },
+    history: { description: 'Signed-off campaigns, newest first.' },
+    nextDue: { description: 'When the next review falls due.' },
+    busy: { description: 'Which step is running, if any.' },
+    error: { description: 'Why the last step failed.' },
+    now: { description: 'The current time, for the overdue flag.' },
+    onStart: { description: 'Snapshot the members into a new review.' },
+    onApplyRevocations: { description: 'Remove the revoked members no rule manages.' },
+    onSignOff: { description: 'Sign the review off.' },
+    onDownloadEvidence: { description: "Download a review's evidence CSV." },
+    onDiscard: { description: 'Delete the open review.' },
+    onDismissError: { description: 'Dismiss the error.' },
+    onClose: { description: 'Leave review mode.' },
+  },
+  args: {
+    groupName: 'CRM Users',
+    memberCount: 3,
+    active: null,
+    history: [],
+    nextDue: null,
+    busy: null,
+    error: null,
+    now: new Date('2026-01-08T09:00:00'),
+    onStart: fn(),
+    onApplyRevocations: fn(),
+    onSignOff: fn(),
+    onDownloadEvidence: fn(),
+    onDiscard: fn(),
+    onDismissError: fn(),
+    onClose: fn(),
+  },
+} satisfies Meta<typeof AccessReviewPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** No review on record yet. */
+export const Default: Story = {};
+
+/** A past sign-off, with the next review due. */
+export const WithHistory: Story = {
+  args: { history: [signed], nextDue: new Date('2026-03-18T16:00:00') },
+};
+
+/** Decisions in progress; revocations are blocked until every member is decided. */
+export const InProgress: Story = {
+  args: { active: inProgress },
+};
+
+/** Every member decided; one revoke is rule-managed and will not be sent. */
+export const ReadyToApply: Story = {
+  args: { active: decided },
+};
+
+/** Revocations applied; waiting for the attestation and sign-off. */
+export const ReadyToSignOff: Story = {
+  args: { active: applied },
+};
+
+/** Past its due date. */
+export const Overdue: Story = {
+  args: { active: inProgress, now: new Date('2026-04-02T09:00:00') },
+};
+
+/** The snapshot could not be read. */
+export const ErrorState: Story = {
+  args: { error: 'Failed to fetch group members' },
+};
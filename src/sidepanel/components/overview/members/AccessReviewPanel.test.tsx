@@ -0,0 +1,152 @@
+/**
+ * Behavioral tests for the access-review panel.
+ *
+ * Pins the order an auditor relies on: revocations cannot be applied while a
+ * member is undecided, rule-managed revokes are called out as not removed, the
+ * removal is confirmed with its count before anything is sent, sign-off needs the
+ * attestation, and past sign-offs keep their evidence download.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import AccessReviewPanel from './AccessReviewPanel';
+import {
+  createAccessReviewCampaign,
+  decideMembers,
+  withRevocationOutcomes,
+  type AccessReviewCampaign,
+} from '../../../../shared/membership/accessReview';
+import type { OktaUser } from '../../../../shared/types';
+
+function member(id: string, embedded: unknown): OktaUser {
+  return {
+    id,
+    status: 'ACTIVE',
+    profile: {
+      login: `${id}@example.com`,
+      email: `${id}@example.com`,
+      firstName: 'Test',
+      lastName: id,
+    },
+    _embedded: embedded,
+  } as OktaUser;
+}
+
+const started = createAccessReviewCampaign({
+  id: 'review-1',
+  group: { id: '00gFAKE1', name: 'CRM Users' },
+  members: [
+    member('00uFAKE1', { 'group-rules': [] }),
+    member('00uFAKE2', { 'group-rules': [{ id: '0prFAKE1', name: 'Sales → CRM' }] }),
+  ],
+  createdBy: 'admin@example.com',
+  now: new Date(2026, 1, 10),
+});
+
+/** Revoke both: one manual add (removed) and one rule-managed member (recorded only). */
+const decided: AccessReviewCampaign = decideMembers(
+  started,
+  ['00uFAKE1', '00uFAKE2'],
+  'revoke',
+  new Date(2026, 1, 11),
+);
+
+const base = {
+  groupName: 'CRM Users',
+  memberCount: 2,
+  active: null as AccessReviewCampaign | null,
+  history: [] as AccessReviewCampaign[],
+  nextDue: null,
+  busy: null,
+  error: null,
+  now: new Date(2026, 1, 12),
+  onStart: vi.fn(),
+  onApplyRevocations: vi.fn(),
+  onSignOff: vi.fn(),
+  onDownloadEvidence: vi.fn(),
+  onDiscard: vi.fn(),
+  onDismissError: vi.fn(),
+  onClose: vi.fn(),
+};
+
+describe('AccessReviewPanel', () => {
+  it('starts a review of the current members', async () => {
+    const onStart = vi.fn();
+    render(<AccessReviewPanel {...base} onStart={onStart} />);
+
+    expect(screen.getByText('No review of CRM Users on record.')).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Start review of 2 members' }));
+    expect(onStart).toHaveBeenCalledTimes(1);
+  });
+
+  it('blocks revocations while a member is undecided', () => {
+    render(<AccessReviewPanel {...base} active={started} />);
+
+    expect(screen.getByText('2 members have no decision yet.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Finish decisions' })).toBeDisabled();
+  });
+
+  it('calls out rule-managed revokes and confirms only the removals it will send', async () => {
+    const onApplyRevocations = vi.fn();
+    render(
+      <AccessReviewPanel {...base} active={decided} onApplyRevocations={onApplyRevocations} />,
+    );
+
+    expect(
+      screen.getByText(/1 member marked Revoke is managed by a group rule/),
+    ).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Apply 1 revocation' }));
+    expect(onApplyRevocations).not.toHaveBeenCalled();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Remove 1' }));
+    expect(onApplyRevocations).toHaveBeenCalledTimes(1);
+  });
+
+  it('signs off only once the reviewer attests', async () => {
+    const onSignOff = vi.fn();
+    const applied = withRevocationOutcomes(
+      decided,
+      new Map([['00uFAKE1', { result: 'removed' }]]),
+      new Date(2026, 1, 12),
+    );
+    render(<AccessReviewPanel {...base} active={applied} onSignOff={onSignOff} />);
+
+    expect(screen.getByText(/1 removed/)).toBeInTheDocument();
+    const signOff = screen.getByRole('button', { name: 'Sign off' });
+    expect(signOff).toBeDisabled();
+
+    await userEvent.click(screen.getByRole('checkbox'));
+    await userEvent.click(signOff);
+    expect(onSignOff).toHaveBeenCalledTimes(1);
+  });
+
+  it('flags an overdue review', () => {
+    render(<AccessReviewPanel {...base} active={started} now={new Date(2026, 4, 1)} />);
+
+    expect(screen.getByText('Overdue')).toBeInTheDocument();
+  });
+
+  it('keeps the evidence of past sign-offs', async () => {
+    const onDownloadEvidence = vi.fn();
+    const signed: AccessReviewCampaign = {
+      ...withRevocationOutcomes(decided, new Map(), new Date(2026, 1, 12)),
+      status: 'signed-off',
+      signedOffAt: new Date(2026, 1, 13),
+      signedOffBy: 'lead@example.com',
+    };
+    render(
+      <AccessReviewPanel
+        {...base}
+        history={[signed]}
+        nextDue={new Date(2026, 4, 13)}
+        onDownloadEvidence={onDownloadEvidence}
+      />,
+    );
+
+    expect(screen.getByText(/by lead@example.com — 0 kept, 2 revoked/)).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Evidence CSV' }));
+    expect(onDownloadEvidence).toHaveBeenCalledWith(signed);
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * @module sidepanel/components/overview/members/AccessReviewPanel
+ * @description Status and steps of a group's access review, shown above the member
+ * explorer while it is in review mode.
+ *
+ * With no review open it offers to start one and lists past sign-offs with their
+ * evidence. With one open it shows the due date, the decision totals and the two
+ * remaining steps in order: apply the revocations (confirmed first, since they
+ * remove members), then sign off behind an attestation. Rule-managed revokes are
+ * called out before anything is sent — they are recorded, not removed, and the
+ * rule has to change instead.
+ *
+ * Presentational: `useAccessReview` owns the campaigns and the Okta calls.
+ */
+import React, { useState } from 'react';
+import {
+  applyBlocker,
+  isOverdue,
+  reviewCounts,
+  revocationPlan,
+  signOffBlocker,
+  type AccessReviewCampaign,
+} from '../../../../shared/membership/accessReview';
+import { formatDate } from '../../../../shared/utils/dateFormat';
+import { AlertMessage, Badge, Button, Checkbox, Modal } from '../../shared';
+import StatCard from '../shared/StatCard';
+import type { AccessReviewBusy } from '../../../hooks/useAccessReview';
+
+/** Props for {@link AccessReviewPanel}. */
+interface AccessReviewPanelProps {
+  /** The group under review (for headings). */
+  groupName: string;
+  /** Members currently in the group, for the start prompt. */
+  memberCount: number;
+  /** The open campaign, if any. */
+  active: AccessReviewCampaign | null;
+  /** Signed-off campaigns, newest first. */
+  history: AccessReviewCampaign[];
+  /** When the next review falls due, from the latest sign-off. */
+  nextDue: Date | null;
+  busy: AccessReviewBusy;
+  error: string | null;
+  /** The current time, for the overdue flag. Defaults to now. */
+  now?: Date;
+  onStart: () => void;
+  onApplyRevocations: () => void;
+  onSignOff: () => void;
+  onDownloadEvidence: (campaign: AccessReviewCampaign) => void;
+  onDiscard: () => void;
+  onDismissError: () => void;
+  /** Leave review mode. */
+  onClose: () => void;
+}
+
+/** `3 members` / `1 member`. */
+function members(count: number): string {
+  return `${count.toLocaleString()} member${count === 1 ? '' : 's'}`;
+}
+
+/** Renders the access-review status and steps. */
+const AccessReviewPanel: React.FC<AccessReviewPanelProps> = ({
+  groupName,
+  memberCount,
+  active,
+  history,
+  nextDue,
+  busy,
+  error,
+  now = new Date(),
+  onStart,
+  onApplyRevocations,
+  onSignOff,
+  onDownloadEvidence,
+  onDiscard,
+  onDismissError,
+  onClose,
+}) => {
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [attested, setAttested] = useState(false);
+
+  const counts = active ? reviewCounts(active) : null;
+  const plan = active ? revocationPlan(active) : null;
+  const blocker = active ? applyBlocker(active) : null;
+  const applied = active?.revocationsAppliedAt !== undefined;
+  const outcomes = active?.items.map((item) => item.revocation?.result) ?? [];
+  const removed = outcomes.filter((r) => r === 'removed').length;
+  const failed = outcomes.filter((r) => r === 'failed').length;
+  const notSent = outcomes.filter((r) => r === 'not-sent').length;
+
+  return (
+    <section
+      className="space-y-4 rounded-md border border-primary-highlight bg-white p-4"
+      aria-label="Access review"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-neutral-900">Access review</h3>
+          <p className="text-xs text-neutral-600">
+            {active ? (
+              <>
+                Snapshot of {members(active.items.length)} taken {formatDate(active.createdAt)} by{' '}
+                {active.createdBy}. Due {formatDate(active.dueAt)}.
+              </>
+            ) : nextDue ? (
+              <>
+                Next review of {groupName} due {formatDate(nextDue)}.
+              </>
+            ) : (
+              <>No review of {groupName} on record.</>
+            )}
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          {active && isOverdue(active, now) && <Badge variant="danger">Overdue</Badge>}
+          {!active && nextDue && now.getTime() > nextDue.getTime() && (
+            <Badge variant="warning">Review due</Badge>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close review
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <AlertMessage message={{ text: error, type: 'danger' }} onDismiss={onDismissError} />
+      )}
+
+      {!active && (
+        <Button
+          variant="primary"
+          size="sm"
+          icon="clipboard-check"
+          onClick={onStart}
+          loading={busy === 'starting'}
+          disabled={busy !== null || memberCount === 0}
+        >
+          Start review of {members(memberCount)}
+        </Button>
+      )}
+
+      {active && counts && plan && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <StatCard
+              title="Undecided"
+              value={counts.undecided}
+              color={counts.undecided > 0 ? 'warning' : 'success'}
+              icon="clock"
+            />
+            <StatCard title="Keep" value={counts.keep} color="success" icon="check" />
+            <StatCard
+              title="Revoke"
+              value={counts.revoke}
+              color={counts.revoke > 0 ? 'danger' : 'neutral'}
+              icon="minus"
+            />
+            <StatCard
+              title="Needs info"
+              value={counts.needsInfo}
+              color={counts.needsInfo > 0 ? 'warning' : 'neutral'}
+              icon="alert"
+            />
+          </div>
+
+          {plan.ruleManaged.length > 0 && (
+            <AlertMessage
+              message={{
+                type: 'warning',
+                text:
+                  `${members(plan.ruleManaged.length)} marked Revoke ${plan.ruleManaged.length === 1 ? 'is' : 'are'} ` +
+                  'managed by a group rule. Removing them would not last — the rule re-adds them — ' +
+                  'so they are recorded in the evidence but not removed. Change the rule or the ' +
+                  "users' attributes instead.",
+              }}
+            />
+          )}
+
+          {!applied ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant={plan.toRemove.length > 0 ? 'danger' : 'primary'}
+                size="sm"
+                onClick={() => setConfirmOpen(true)}
+                loading={busy === 'revoking'}
+                disabled={busy !== null || blocker !== null}
+                title={blocker ?? undefined}
+              >
+                {plan.toRemove.length > 0
+                  ? `Apply ${plan.toRemove.length} revocation${plan.toRemove.length === 1 ? '' : 's'}`
+                  : 'Finish decisions'}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={onDiscard} disabled={busy !== null}>
+                Discard review
+              </Button>
+              {blocker && <span className="text-xs text-neutral-600">{blocker}</span>}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-xs text-neutral-600">
+                Revocations applied {formatDate(active.revocationsAppliedAt)}: {removed} removed
+                {failed > 0 && `, ${failed} refused by Okta`}
+                {notSent > 0 && `, ${notSent} not sent (the run stopped early)`}.
+              </p>
+              <Checkbox
+                checked={attested}
+                onChange={setAttested}
+                label="I reviewed every member in this snapshot"
+                description="Your Okta login and the time are recorded with the evidence."
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  variant="primary"
+                  size="sm"
+                  icon="check"
+                  onClick={onSignOff}
+                  loading={busy === 'signing-off'}
+                  disabled={!attested || busy !== null || signOffBlocker(active) !== null}
+                >
+                  Sign off
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  icon="download"
+                  onClick={() => onDownloadEvidence(active)}
+                >
+                  Download draft evidence
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {history.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold text-neutral-700">Signed-off reviews</h4>
+          <ul className="space-y-1.5">
+            {history.map((campaign) => {
+              const totals = reviewCounts(campaign);
+              return (
+                <li
+                  key={campaign.id}
+                  className="flex items-center justify-between gap-2 text-xs text-neutral-600"
+                >
+                  <span>
+                    {formatDate(campaign.signedOffAt)} by {campaign.signedOffBy} — {totals.keep}{' '}
+                    kept, {totals.revoke} revoked
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    icon="download"
+                    onClick={() => onDownloadEvidence(campaign)}
+                  >
+                    Evidence CSV
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <Modal
+        isOpen={confirmOpen}
+        onClose={() => setConfirmOpen(false)}
+        title="Apply access-review revocations"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setConfirmOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant={plan && plan.toRemove.length > 0 ? 'danger' : 'primary'}
+              onClick={() => {
+                setConfirmOpen(false);
+                onApplyRevocations();
+              }}
+            >
+              {plan && plan.toRemove.length > 0 ? `Remove ${plan.toRemove.length}` : 'Finish'}
+            </Button>
+          </>
+        }
+      >
+        <p className="text-sm text-neutral-600">
+          {plan && plan.toRemove.length > 0 ? (
+            <>
+              This removes <strong>{members(plan.toRemove.length)}</strong> from{' '}
+              <strong>{groupName}</strong>. The removal can be undone from the Audit Log.{' '}
+            </>
+          ) : (
+            <>No member will be removed. </>
+          )}
+          Decisions cannot be changed afterwards.
+        </p>
+      </Modal>
+    </section>
+  );
+};
+
+export default AccessReviewPanel;
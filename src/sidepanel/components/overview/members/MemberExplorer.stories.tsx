@@ -3,6 +3,7 @@ import { fn } from 'storybook/test';
 import type { MemberMfaResult } from '../../../../shared/types';
 import MemberExplorer from './MemberExplorer';
 import { mockUsers } from '../../../../test/mocks/fixtures';
+import { snapshotMember, type ReviewDecision } from '../../../../shared/membership/accessReview';
 
 const mfaResults = new Map<string, MemberMfaResult>(
   mockUsers.map((user, i) => [
@@ -17,6 +18,19 @@ const mfaResults = new Map<string, MemberMfaResult>(
   ]),
 );
 
+const REVIEW_DECISIONS: Array<ReviewDecision | undefined> = [
+  'keep',
+  'revoke',
+  undefined,
+  'needs-info',
+];
+const reviewItems = new Map(
+  mockUsers.map((user, i) => [
+    user.id,
+    { ...snapshotMember(user), decision: REVIEW_DECISIONS[i % REVIEW_DECISIONS.length] },
+  ]),
+);
+
 /** Orchestrator for in-group member search, faceting, MFA scanning, and listing. */
 const meta = {
   title: 'Overview/Members/MemberExplorer',
@@ -53,6 +67,10 @@ const meta = {
     oktaOrigin: {
       description: 'Okta org origin for member Admin Console links (null when unknown).',
     },
+    review: {
+      description:
+        'Access-review state; when set, every row carries its decision controls and the list can be narrowed by decision.',
+    },
   },
   args: {
     members: mockUsers,
@@ -91,3 +109,10 @@ export const ScanComplete: Story = {
 export const Empty: Story = {
   args: { members: [] },
 };
+
+/** Access-review mode: decisions on every row, a decision filter, and bulk keep/revoke. */
+export const ReviewMode: Story = {
+  args: {
+    review: { items: reviewItems, editable: true, onDecide: fn(), onNote: fn() },
+  },
+};
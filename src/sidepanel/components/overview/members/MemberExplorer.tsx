@@ -8,12 +8,21 @@
  * `memberAnalytics`. Composes the search bar, filter panel, MFA scan panel,
  * composition reports, member list, and the details/copy modals. MFA scan results
  * are owned by the parent overview and passed in.
+ *
+ * With {@link MemberReviewMode} set the explorer becomes the access-review surface:
+ * the parent passes the campaign's snapshot as `members`, every row carries its
+ * decision controls, and the list can be narrowed by decision. "Keep listed" and
+ * "Revoke listed" decide every member the current search, facets and decision
+ * filter show — so a reviewer can facet to one department and keep it in one click.
  */
 import React, { useState, useMemo, useCallback } from 'react';
 import type { OktaUser, MemberMfaResult, MfaScanStatus } from '../../../../shared/types';
+import type { AccessReviewItem, ReviewDecision } from '../../../../shared/membership/accessReview';
+import type { MemberReviewMode } from './types';
 import { useDebouncedValue } from '../../../hooks/useDebouncedValue';
 import Button from '../../shared/Button';
 import Modal from '../../shared/Modal';
+import FilterPill from '../../shared/FilterPill';
 import MemberSearchBar from './MemberSearchBar';
 import MemberFilterPanel from './MemberFilterPanel';
 import CopyMembersModal from './CopyMembersModal';
@@ -40,6 +49,25 @@ const MFA_AUTO_THRESHOLD = 500;
 /** Per-factor filter intent: unset, require-present, or require-absent. */
 type FactorMode = 'off' | 'has' | 'missing';
 
+/** Which decisions the review list shows. */
+type DecisionFilter = 'all' | 'undecided' | ReviewDecision;
+
+/** Decision filter pills in display order. */
+const DECISION_FILTERS: Array<{ value: DecisionFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'undecided', label: 'Undecided' },
+  { value: 'keep', label: 'Keep' },
+  { value: 'revoke', label: 'Revoke' },
+  { value: 'needs-info', label: 'Needs info' },
+];
+
+/** Whether a member's review item matches the decision filter. */
+function matchesDecision(item: AccessReviewItem | undefined, filter: DecisionFilter): boolean {
+  if (filter === 'all') return true;
+  if (filter === 'undecided') return item?.decision === undefined;
+  return item?.decision === filter;
+}
+
 /** Props for {@link MemberExplorer}. */
 interface MemberExplorerProps {
   /** The group's full member set (the explorer filters/sorts locally). */
@@ -63,6 +91,8 @@ interface MemberExplorerProps {
   onCancelConfirm: () => void;
   /** Okta org origin for member Admin Console links (null when unknown). */
   oktaOrigin?: string | null;
+  /** Access-review state; set only while a review of this group is open. */
+  review?: MemberReviewMode;
 }
 
 /** Number of member rows revealed per page / "Load more". */
@@ -81,6 +111,7 @@ const MemberExplorer: React.FC<MemberExplorerProps> = ({
   onRequestConfirm,
   onCancelConfirm,
   oktaOrigin,
+  review,
 }) => {
   const [query, setQuery] = useState('');
   const [filters, setFilters] = useState<MemberFilter[]>([]);
@@ -90,6 +121,7 @@ const MemberExplorer: React.FC<MemberExplorerProps> = ({
   const [sortDesc, setSortDesc] = useState(false);
   const [detailKey, setDetailKey] = useState<string | null>(null);
   const [copyOpen, setCopyOpen] = useState(false);
+  const [decisionFilter, setDecisionFilter] = useState<DecisionFilter>('all');
 
   // Debounce the search query so filtering runs at most a few times per second.
   const debouncedQuery = useDebouncedValue(query, 200);
@@ -104,16 +136,24 @@ const MemberExplorer: React.FC<MemberExplorerProps> = ({
     () => filterMembers(members, debouncedQuery, filters, mfaResults),
     [members, debouncedQuery, filters, mfaResults],
   );
-  const sorted = useMemo(
+  const sortedAll = useMemo(
     () => sortMembers(filtered, sortBy, sortDesc, mfaResults),
     [filtered, sortBy, sortDesc, mfaResults],
   );
+  // The decision filter applies only in review mode, after search and facets.
+  const sorted = useMemo(
+    () =>
+      review && decisionFilter !== 'all'
+        ? sortedAll.filter((user) => matchesDecision(review.items.get(user.id), decisionFilter))
+        : sortedAll,
+    [sortedAll, review, decisionFilter],
+  );
 
   // Reset the visible window whenever the result set / order changes. Done during
   // render (not in an effect) per the React pattern for deriving state.
   const resetKey = `${debouncedQuery}__${filters
     .map((f) => `${f.dimension}:${f.value}`)
-    .join('|')}__${members.length}__${sortBy}__${sortDesc}`;
+    .join('|')}__${members.length}__${sortBy}__${sortDesc}__${review ? decisionFilter : ''}`;
   const [lastResetKey, setLastResetKey] = useState(resetKey);
   if (resetKey !== lastResetKey) {
     setLastResetKey(resetKey);
@@ -184,6 +224,15 @@ const MemberExplorer: React.FC<MemberExplorerProps> = ({
     });
   }, []);
 
+  const decideListed = useCallback(
+    (decision: ReviewDecision) =>
+      review?.onDecide(
+        sorted.map((user) => user.id),
+        decision,
+      ),
+    [review, sorted],
+  );
+
   const loadMore = useCallback(() => {
     setVisibleCount((c) => Math.min(c + PAGE, sorted.length));
   }, [sorted.length]);
@@ -299,6 +348,43 @@ const MemberExplorer: React.FC<MemberExplorerProps> = ({
             Copy members
           </Button>
         </div>
+        {review && (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap gap-1.5" role="group" aria-label="Filter by decision">
+              {DECISION_FILTERS.map(({ value, label }) => (
+                <FilterPill
+                  key={value}
+                  active={decisionFilter === value}
+                  onClick={() => setDecisionFilter(value)}
+                >
+                  {label}
+                </FilterPill>
+              ))}
+            </div>
+            {review.editable && (
+              <div className="flex gap-1.5">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => decideListed('keep')}
+                  disabled={sorted.length === 0}
+                  title="Mark every listed member Keep"
+                >
+                  Keep listed
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => decideListed('revoke')}
+                  disabled={sorted.length === 0}
+                  title="Mark every listed member Revoke"
+                >
+                  Revoke listed
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
         <MemberList
           members={sorted}
           loading={isReloading}
@@ -307,6 +393,7 @@ const MemberExplorer: React.FC<MemberExplorerProps> = ({
           visibleCount={visibleCount}
           onLoadMore={loadMore}
           oktaOrigin={oktaOrigin}
+          review={review}
         />
       </div>
 
@@ -17,6 +17,7 @@
 import React, { useEffect, useRef } from 'react';
 import { useStaggerReveal } from '../../../hooks/useStaggerReveal';
 import type { OktaUser, MemberMfaResult } from '../../../../shared/types';
+import type { MemberReviewMode } from './types';
 import ScrollableList from '../../shared/ScrollableList';
 import { Button, Skeleton } from '../../shared';
 import MemberRow from './MemberRow';
@@ -40,6 +41,8 @@ interface MemberListProps {
   onLoadMore: () => void;
   /** Okta org origin for per-member Admin Console links (null when unknown). */
   oktaOrigin?: string | null;
+  /** Access-review state; when set, each row carries its decision controls. */
+  review?: MemberReviewMode;
 }
 
 /** Number of additional rows revealed per "Load more". */
@@ -58,6 +61,7 @@ const MemberList: React.FC<MemberListProps> = ({
   visibleCount,
   onLoadMore,
   oktaOrigin,
+  review,
 }) => {
   const setStaggerRef = useStaggerReveal();
 
@@ -107,6 +111,10 @@ const MemberList: React.FC<MemberListProps> = ({
               mfa={mfaResults?.get(user.id)}
               mfaScanned={mfaScanned}
               oktaOrigin={oktaOrigin}
+              reviewItem={review?.items.get(user.id)}
+              reviewEditable={review?.editable}
+              onDecide={review?.onDecide}
+              onNote={review?.onNote}
             />
           ))}
         </div>
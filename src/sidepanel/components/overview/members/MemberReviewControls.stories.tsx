@@ -0,0 +1,88 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import MemberReviewControls from './MemberReviewControls';
+import type { AccessReviewItem } from '../../../../shared/membership/accessReview';
+import type { OktaUser } from '../../../../shared/types';
+
+/** Fake placeholder user only. */
+const user = {
+  id: '00uFAKE1',
+  status: 'ACTIVE',
+  profile: {
+    login: 'ada.lovelace@example.com',
+    email: 'ada.lovelace@example.com',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+  },
+} as OktaUser;
+
+const manualItem: AccessReviewItem = { user, source: 'manual', ruleNames: [] };
+
+/** Access-review controls under one member row. */
+const meta = {
+  title: 'Overview/Members/MemberReviewControls',
+  component: MemberReviewControls,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component:
+          "One member's access-review controls: where the membership comes from, the " +
+          'keep / revoke / needs-info decision, a note, and the revocation outcome once ' +
+          'revocations have run. A rule-managed source means a revoke is recorded but not ' +
+          'sent — the rule would re-add the member.',
+      },
+    },
+  },
+  argTypes: {
+    item: { description: "The member's snapshot item, with any decision made." },
+    editable: { description: 'False once revocations have run or the review is signed off.' },
+    onDecide: { description: 'Set or clear the decision.' },
+    onNote: { description: 'Set the note; blank clears it.' },
+  },
+  args: {
+    item: manualItem,
+    editable: true,
+    onDecide: fn(),
+    onNote: fn(),
+  },
+} satisfies Meta<typeof MemberReviewControls>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Added directly, undecided. */
+export const Default: Story = {};
+
+/** Managed by a rule and marked Revoke. */
+export const RuleManagedRevoke: Story = {
+  args: {
+    item: { user, source: 'rule', ruleNames: ['Sales → CRM'], decision: 'revoke' },
+  },
+};
+
+/** Okta did not say where the membership comes from; waiting on more information. */
+export const UnknownNeedsInfo: Story = {
+  args: {
+    item: {
+      user,
+      source: 'unknown',
+      ruleNames: [],
+      decision: 'needs-info',
+      note: 'Asked their manager',
+    },
+  },
+};
+
+/** After revocations: the removal was refused, and the decision is frozen. */
+export const RemovalRefused: Story = {
+  args: {
+    editable: false,
+    item: {
+      ...manualItem,
+      decision: 'revoke',
+      revocation: { result: 'failed', error: 'You do not have permission' },
+    },
+  },
+};
@@ -0,0 +1,120 @@
+/**
+ * @module sidepanel/components/overview/members/MemberReviewControls
+ * @description Access-review controls under one member row: where the membership
+ * comes from, the keep / revoke / needs-info decision, a note, and the revocation
+ * outcome once revocations have run.
+ *
+ * The source says what a revoke will do (see `shared/membership/accessReview`): a
+ * manual add is removed, a rule-managed member is recorded but never removed (the
+ * rule would re-add them), and an unknown source is sent and left to Okta. The note
+ * is committed when focus leaves it, so typing does not rewrite the stored campaign
+ * on every keystroke.
+ */
+import React, { useState } from 'react';
+import type {
+  AccessReviewItem,
+  ReviewDecision,
+  RevocationOutcome,
+} from '../../../../shared/membership/accessReview';
+import { Badge, FilterPill, Input, type BadgeVariant } from '../../shared';
+
+/** Props for {@link MemberReviewControls}. */
+interface MemberReviewControlsProps {
+  /** The member's snapshot item, with any decision already made. */
+  item: AccessReviewItem;
+  /** False once revocations have run or the review is signed off. */
+  editable: boolean;
+  /** Set (or, with `null`, clear) the decision for the given members. */
+  onDecide: (userIds: string[], decision: ReviewDecision | null) => void;
+  /** Set the reviewer's note on one member; blank clears it. */
+  onNote: (userId: string, note: string) => void;
+}
+
+/** Decision buttons in display order. */
+const DECISIONS: Array<{ value: ReviewDecision; label: string }> = [
+  { value: 'keep', label: 'Keep' },
+  { value: 'revoke', label: 'Revoke' },
+  { value: 'needs-info', label: 'Needs info' },
+];
+
+/** Badge text and tone for a revocation outcome. */
+function outcomeBadge(outcome: RevocationOutcome): { label: string; variant: BadgeVariant } {
+  switch (outcome.result) {
+    case 'removed':
+      return { label: 'Removed', variant: 'success' };
+    case 'failed':
+      return { label: `Not removed: ${outcome.error}`, variant: 'danger' };
+    case 'not-sent':
+      return { label: 'Not sent', variant: 'warning' };
+    case 'rule-managed':
+      return { label: 'Kept by rule — change the rule', variant: 'warning' };
+  }
+}
+
+/** Renders the review controls for one member. */
+const MemberReviewControls: React.FC<MemberReviewControlsProps> = ({
+  item,
+  editable,
+  onDecide,
+  onNote,
+}) => {
+  const [draft, setDraft] = useState(item.note ?? '');
+  const userId = item.user.id;
+
+  const sourceLabel =
+    item.source === 'manual'
+      ? 'Added directly'
+      : item.source === 'rule'
+        ? `Rule: ${item.ruleNames.join(', ')}`
+        : 'Source unknown';
+
+  return (
+    <div className="mt-2 space-y-2 border-t border-neutral-100 pt-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <Badge
+          variant={item.source === 'rule' ? 'primary' : 'neutral'}
+          title={
+            item.source === 'rule'
+              ? 'A revoke is recorded but not sent: the rule would re-add this member.'
+              : item.source === 'unknown'
+                ? 'Okta did not say whether a rule manages this membership.'
+                : undefined
+          }
+        >
+          {sourceLabel}
+        </Badge>
+        {item.revocation && (
+          <Badge variant={outcomeBadge(item.revocation).variant}>
+            {outcomeBadge(item.revocation).label}
+          </Badge>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-1.5" role="group" aria-label="Decision">
+        {DECISIONS.map(({ value, label }) => (
+          <FilterPill
+            key={value}
+            active={item.decision === value}
+            disabled={!editable}
+            onClick={() => onDecide([userId], item.decision === value ? null : value)}
+          >
+            {label}
+          </FilterPill>
+        ))}
+      </div>
+      {(editable || item.note) && (
+        <div onBlur={() => draft.trim() !== (item.note ?? '') && onNote(userId, draft)}>
+          <Input
+            value={draft}
+            onChange={setDraft}
+            size="sm"
+            placeholder="Note (optional)"
+            ariaLabel={`Note for ${item.user.profile.login}`}
+            disabled={!editable}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default React.memo(MemberReviewControls);
@@ -11,11 +11,16 @@
  * interior follows the typography contract in `docs/design-system.md`, which
  * retired three arbitrary sizes here (`text-[11px]` on the login, `text-[10px]`
  * on the factor tags and the status badge).
+ *
+ * During an access review the row carries {@link MemberReviewControls} and drops
+ * the deep link: the decision buttons cannot sit inside an anchor.
  */
 import React from 'react';
 import type { OktaUser, MemberMfaResult } from '../../../../shared/types';
+import type { AccessReviewItem, ReviewDecision } from '../../../../shared/membership/accessReview';
 import { ListRow, userStatusVariant, type UserStatusVariant } from '../../shared';
 import { oktaAdminEntityUrl } from '../../../../shared/utils/oktaUrl';
+import MemberReviewControls from './MemberReviewControls';
 
 /** Props for {@link MemberRow}. */
 interface MemberRowProps {
@@ -27,6 +32,14 @@ interface MemberRowProps {
   mfaScanned?: boolean;
   /** Okta org origin; when set, the row links to the member's Admin Console profile. */
   oktaOrigin?: string | null;
+  /** This member's access-review item; set only while a review is open. */
+  reviewItem?: AccessReviewItem;
+  /** Whether review decisions can still change. */
+  reviewEditable?: boolean;
+  /** Record a review decision (required with `reviewItem`). */
+  onDecide?: (userIds: string[], decision: ReviewDecision | null) => void;
+  /** Record a review note (required with `reviewItem`). */
+  onNote?: (userId: string, note: string) => void;
 }
 
 /** Per-variant badge color classes (token palette, keyed by the shared variant map). */
@@ -39,12 +52,21 @@ const VARIANT_CLASSES: Record<UserStatusVariant, string> = {
 };
 
 /** Renders one member card, optionally wrapped as an Admin Console deep link. */
-const MemberRow: React.FC<MemberRowProps> = ({ user, mfa, mfaScanned, oktaOrigin }) => {
+const MemberRow: React.FC<MemberRowProps> = ({
+  user,
+  mfa,
+  mfaScanned,
+  oktaOrigin,
+  reviewItem,
+  reviewEditable = false,
+  onDecide,
+  onNote,
+}) => {
   const badgeClass = VARIANT_CLASSES[userStatusVariant(user.status)];
   const fullName =
     `${user.profile.firstName || ''} ${user.profile.lastName || ''}`.trim() || user.profile.login;
 
-  const adminUrl = oktaAdminEntityUrl(oktaOrigin, 'user', user.id);
+  const adminUrl = reviewItem ? null : oktaAdminEntityUrl(oktaOrigin, 'user', user.id);
 
   return (
     // `as` follows the deep link: an anchor when there is somewhere to go, a plain
@@ -85,6 +107,14 @@ const MemberRow: React.FC<MemberRowProps> = ({ user, mfa, mfaScanned, oktaOrigin
           {user.status}
         </span>
       </div>
+      {reviewItem && onDecide && onNote && (
+        <MemberReviewControls
+          item={reviewItem}
+          editable={reviewEditable}
+          onDecide={onDecide}
+          onNote={onNote}
+        />
+      )}
     </ListRow>
   );
 };
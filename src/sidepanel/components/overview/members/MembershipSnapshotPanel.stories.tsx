@@ -0,0 +1,131 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import MembershipSnapshotPanel from './MembershipSnapshotPanel';
+import {
+  createMembershipSnapshot,
+  diffSnapshots,
+} from '../../../../shared/membership/membershipSnapshot';
+import type { OktaUser } from '../../../../shared/types';
+
+/** Fake placeholder member; `rules` undefined means Okta said nothing. */
+function member(id: string, login: string, rules?: Array<{ id: string; name: string }>): OktaUser {
+  return {
+    id,
+    status: 'ACTIVE',
+    profile: { login, email: login, firstName: login.split('.')[0], lastName: 'Example' },
+    ...(rules !== undefined ? { _embedded: { 'group-rules': rules } } : {}),
+  } as OktaUser;
+}
+
+const sales = [{ id: '0prFAKE1', name: 'Sales → CRM' }];
+const group = { id: '00gFAKE1', name: 'CRM Users' };
+
+const before = createMembershipSnapshot({
+  id: 'snap-before',
+  group,
+  members: [
+    member('00uFAKE1', 'ada.lovelace@example.com', []),
+    member('00uFAKE2', 'alan.turing@example.com', []),
+    member('00uFAKE3', 'grace.hopper@example.com'),
+  ],
+  takenBy: 'admin@example.com',
+  label: 'before Sales rule change',
+  now: new Date('2026-03-02T09:00:00'),
+});
+
+const after = createMembershipSnapshot({
+  id: 'snap-after',
+  group,
+  members: [
+    member('00uFAKE1', 'ada.lovelace@example.com', sales),
+    member('00uFAKE3', 'grace.hopper@example.com', sales),
+    member('00uFAKE4', 'katherine.johnson@example.com', sales),
+  ],
+  takenBy: 'admin@example.com',
+  now: new Date('2026-03-02T15:30:00'),
+});
+
+/**
+ * Point-in-time membership snapshots and their diff, shown above the member explorer.
+ */
+const meta = {
+  title: 'Overview/Members/MembershipSnapshotPanel',
+  component: MembershipSnapshotPanel,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component:
+          "Point-in-time snapshots of a group's members and their direct / rule-based " +
+          'source, kept in IndexedDB across sessions.\n\n' +
+          'Pick any two to list who was added, who was removed and whose source changed — ' +
+          'the way to confirm what a rule change did once Okta has finished applying it. ' +
+          'Members whose source Okta did not report are counted, not listed as changes. ' +
+          'The full diff downloads as CSV.\n\n' +
+          '**Related internals:** [Hooks](?path=/docs/internals-hooks--docs)',
+      },
+    },
+  },
+  argTypes: {
+    groupName: { description: 'The group (for headings).' },
+    snapshots: { description: "The group's snapshots, newest first." },
+    isTaking: { description: 'True while a snapshot is being read from Okta.' },
+    error: { description: 'Why the last snapshot failed.' },
+    selection: { description: 'Ids picked for the two sides of the comparison.' },
+    compared: { description: 'The older and newer snapshot being compared.' },
+    diff: { description: 'Their diff.' },
+    onTake: { description: 'Take a snapshot with the typed label.' },
+    onSelect: { description: 'Pick the snapshot on one side.' },
+    onRemove: { description: 'Delete a snapshot.' },
+    onDownloadDiff: { description: 'Download the diff as CSV.' },
+    onDismissError: { description: 'Dismiss the error.' },
+    onClose: { description: 'Close the panel.' },
+  },
+  args: {
+    groupName: 'CRM Users',
+    snapshots: [],
+    isTaking: false,
+    error: null,
+    selection: [null, null],
+    compared: null,
+    diff: null,
+    onTake: fn(),
+    onSelect: fn(),
+    onRemove: fn(),
+    onDownloadDiff: fn(),
+    onDismissError: fn(),
+    onClose: fn(),
+  },
+} satisfies Meta<typeof MembershipSnapshotPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** No snapshots yet. */
+export const Default: Story = {};
+
+/** One snapshot; nothing to compare it with yet. */
+export const OneSnapshot: Story = {
+  args: { snapshots: [before] },
+};
+
+/** Before and after a rule change: one added, one removed, one moved onto the rule, one unreported. */
+export const Diff: Story = {
+  args: {
+    snapshots: [after, before],
+    selection: [before.id, after.id],
+    compared: [before, after],
+    diff: diffSnapshots(before, after),
+  },
+};
+
+/** Reading the members for a new snapshot. */
+export const Taking: Story = {
+  args: { snapshots: [before], isTaking: true },
+};
+
+/** The members could not be read. */
+export const ErrorState: Story = {
+  args: { error: 'Failed to fetch group members' },
+};
@@ -0,0 +1,127 @@
+/**
+ * Behavioral tests for the membership snapshot panel.
+ *
+ * Pins what checking a rule change relies on: a snapshot can be taken with a
+ * label, the diff lists added, removed and source-changed members with their
+ * sources, unanswered sources are counted rather than listed, and the CSV and
+ * deletion act on what is shown.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import MembershipSnapshotPanel from './MembershipSnapshotPanel';
+import {
+  createMembershipSnapshot,
+  diffSnapshots,
+  type MembershipSnapshot,
+} from '../../../../shared/membership/membershipSnapshot';
+import type { OktaUser } from '../../../../shared/types';
+
+function member(id: string, embedded?: unknown): OktaUser {
+  return {
+    id,
+    status: 'ACTIVE',
+    profile: {
+      login: `${id}@example.com`,
+      email: `${id}@example.com`,
+      firstName: 'Test',
+      lastName: id,
+    },
+    ...(embedded !== undefined ? { _embedded: embedded } : {}),
+  } as OktaUser;
+}
+
+function snapshot(id: string, takenAt: Date, members: OktaUser[]): MembershipSnapshot {
+  return createMembershipSnapshot({
+    id,
+    group: { id: '00gFAKE1', name: 'CRM Users' },
+    members,
+    takenBy: 'admin@example.com',
+    now: takenAt,
+  });
+}
+
+const sales = { 'group-rules': [{ id: '0prFAKE1', name: 'Sales → CRM' }] };
+const before = snapshot('before', new Date(2026, 2, 1), [
+  member('00uFAKE1', { 'group-rules': [] }),
+  member('00uFAKE2', { 'group-rules': [] }),
+  member('00uFAKE4'),
+]);
+const after = snapshot('after', new Date(2026, 2, 3), [
+  member('00uFAKE1', sales),
+  member('00uFAKE3', sales),
+  member('00uFAKE4', sales),
+]);
+
+const base = {
+  groupName: 'CRM Users',
+  snapshots: [] as MembershipSnapshot[],
+  isTaking: false,
+  error: null,
+  selection: [null, null] as [string | null, string | null],
+  compared: null,
+  diff: null,
+  onTake: vi.fn(),
+  onSelect: vi.fn(),
+  onRemove: vi.fn(),
+  onDownloadDiff: vi.fn(),
+  onDismissError: vi.fn(),
+  onClose: vi.fn(),
+};
+
+describe('MembershipSnapshotPanel', () => {
+  it('takes a labelled snapshot', async () => {
+    const onTake = vi.fn();
+    render(<MembershipSnapshotPanel {...base} onTake={onTake} />);
+
+    expect(screen.getByText('No snapshots of CRM Users yet.')).toBeInTheDocument();
+    await userEvent.type(screen.getByLabelText('Snapshot label'), 'before rule change');
+    await userEvent.click(screen.getByRole('button', { name: 'Take snapshot' }));
+    expect(onTake).toHaveBeenCalledWith('before rule change');
+  });
+
+  it('lists the diff with sources and counts the unanswered ones', async () => {
+    const onDownloadDiff = vi.fn();
+    render(
+      <MembershipSnapshotPanel
+        {...base}
+        snapshots={[after, before]}
+        selection={['before', 'after']}
+        compared={[before, after]}
+        diff={diffSnapshots(before, after)}
+        onDownloadDiff={onDownloadDiff}
+      />,
+    );
+
+    expect(screen.getByText('00uFAKE3@example.com')).toBeInTheDocument();
+    expect(screen.getByText('00uFAKE2@example.com')).toBeInTheDocument();
+    expect(screen.getByText('Direct → Rule: Sales → CRM')).toBeInTheDocument();
+    expect(screen.getByText(/did not report the source of 1 member/)).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Diff CSV' }));
+    expect(onDownloadDiff).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks for two different snapshots', () => {
+    render(
+      <MembershipSnapshotPanel
+        {...base}
+        snapshots={[after, before]}
+        selection={['after', 'after']}
+      />,
+    );
+
+    expect(screen.getByText('Pick two different snapshots to compare.')).toBeInTheDocument();
+  });
+
+  it('deletes a snapshot', async () => {
+    const onRemove = vi.fn();
+    render(<MembershipSnapshotPanel {...base} snapshots={[before]} onRemove={onRemove} />);
+
+    expect(screen.getByText(/Take another snapshot later/)).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    expect(onRemove).toHaveBeenCalledWith('before');
+  });
+});
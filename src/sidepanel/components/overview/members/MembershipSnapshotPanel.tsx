@@ -0,0 +1,280 @@
+/**
+ * @module sidepanel/components/overview/members/MembershipSnapshotPanel
+ * @description Point-in-time snapshots of a group's membership and the diff
+ * between any two of them, shown above the member explorer.
+ *
+ * Take a snapshot before a rule change and another once Okta has finished
+ * applying it, and the diff lists who was added, who was removed, and whose
+ * source moved between a direct add and a rule (or between rules). Members whose
+ * source Okta did not report on one side are counted rather than listed as
+ * changes. The full diff downloads as CSV; on screen each list is capped.
+ *
+ * Presentational: `useMembershipSnapshots` owns the snapshots and the Okta read.
+ */
+import React, { useState } from 'react';
+import type {
+  MembershipDiff,
+  MembershipSnapshot,
+  SnapshotMember,
+  SnapshotSource,
+} from '../../../../shared/membership/membershipSnapshot';
+import { formatDate } from '../../../../shared/utils/dateFormat';
+import { AlertMessage, Badge, Button, Input, Select } from '../../shared';
+
+/** Rows shown per diff list before pointing at the CSV. */
+const LIST_LIMIT = 50;
+
+/** Props for {@link MembershipSnapshotPanel}. */
+interface MembershipSnapshotPanelProps {
+  /** The group (for headings). */
+  groupName: string;
+  /** The group's snapshots, newest first. */
+  snapshots: MembershipSnapshot[];
+  isTaking: boolean;
+  error: string | null;
+  /** Ids picked for the two sides of the comparison. */
+  selection: [string | null, string | null];
+  /** The older and newer snapshot being compared, when two distinct ones are picked. */
+  compared: [MembershipSnapshot, MembershipSnapshot] | null;
+  diff: MembershipDiff | null;
+  onTake: (label: string) => void;
+  onSelect: (side: 0 | 1, id: string) => void;
+  onRemove: (id: string) => void;
+  onDownloadDiff: () => void;
+  onDismissError: () => void;
+  onClose: () => void;
+}
+
+/** `3 members` / `1 member`. */
+function members(count: number): string {
+  return `${count.toLocaleString()} member${count === 1 ? '' : 's'}`;
+}
+
+/** `DIRECT`, or the rule names for a `RULE_BASED` membership. */
+function sourceText(source: SnapshotSource, ruleNames: string[]): string {
+  if (source === 'DIRECT') return 'Direct';
+  if (source === 'UNKNOWN') return 'Source unknown';
+  return ruleNames.length > 0 ? `Rule: ${ruleNames.join(', ')}` : 'Rule';
+}
+
+/** How a snapshot is named in the pickers and the list. */
+function snapshotLabel(snapshot: MembershipSnapshot): string {
+  const base = `${formatDate(snapshot.takenAt)} — ${members(snapshot.members.length)}`;
+  return snapshot.label ? `${base} (${snapshot.label})` : base;
+}
+
+/** One capped list of diff rows. */
+const DiffList: React.FC<{
+  title: string;
+  variant: 'success' | 'danger' | 'warning';
+  rows: { member: SnapshotMember; detail: string }[];
+}> = ({ title, variant, rows }) => {
+  if (rows.length === 0) return null;
+  return (
+    <div className="space-y-1.5">
+      <h4 className="flex items-center gap-2 text-xs font-semibold text-neutral-700">
+        {title} <Badge variant={variant}>{rows.length.toLocaleString()}</Badge>
+      </h4>
+      <ul className="space-y-1">
+        {rows.slice(0, LIST_LIMIT).map(({ member, detail }) => (
+          <li key={member.id} className="flex justify-between gap-2 text-xs text-neutral-600">
+            <span className="truncate" title={member.name || undefined}>
+              {member.login}
+            </span>
+            <span className="shrink-0 text-neutral-500">{detail}</span>
+          </li>
+        ))}
+      </ul>
+      {rows.length > LIST_LIMIT && (
+        <p className="text-xs text-neutral-500">
+          And {(rows.length - LIST_LIMIT).toLocaleString()} more — the CSV has the full list.
+        </p>
+      )}
+    </div>
+  );
+};
+
+/** Renders the snapshot list, the comparison pickers and the diff. */
+const MembershipSnapshotPanel: React.FC<MembershipSnapshotPanelProps> = ({
+  groupName,
+  snapshots,
+  isTaking,
+  error,
+  selection,
+  compared,
+  diff,
+  onTake,
+  onSelect,
+  onRemove,
+  onDownloadDiff,
+  onDismissError,
+  onClose,
+}) => {
+  const [label, setLabel] = useState('');
+
+  const options = snapshots.map((snapshot) => ({
+    value: snapshot.id,
+    label: snapshotLabel(snapshot),
+  }));
+  const changes = diff ? diff.added.length + diff.removed.length + diff.sourceChanged.length : 0;
+
+  return (
+    <section
+      className="space-y-4 rounded-md border border-primary-highlight bg-white p-4"
+      aria-label="Membership snapshots"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-neutral-900">Membership snapshots</h3>
+          <p className="text-xs text-neutral-600">
+            Record who is in {groupName} and how, then compare — for example before and after a rule
+            change has finished applying.
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Close snapshots
+        </Button>
+      </div>
+
+      {error && (
+        <AlertMessage message={{ text: error, type: 'danger' }} onDismiss={onDismissError} />
+      )}
+
+      <div className="flex items-end gap-2">
+        <Input
+          value={label}
+          onChange={setLabel}
+          ariaLabel="Snapshot label"
+          placeholder="Label (optional), e.g. before Sales rule change"
+          size="sm"
+        />
+        <Button
+          variant="primary"
+          size="sm"
+          icon="clock"
+          onClick={() => {
+            onTake(label);
+            setLabel('');
+          }}
+          loading={isTaking}
+          disabled={isTaking}
+        >
+          Take snapshot
+        </Button>
+      </div>
+
+      {snapshots.length === 0 && (
+        <p className="text-xs text-neutral-600">No snapshots of {groupName} yet.</p>
+      )}
+      {snapshots.length === 1 && (
+        <p className="text-xs text-neutral-600">
+          Take another snapshot later to compare it with this one.
+        </p>
+      )}
+
+      {snapshots.length >= 2 && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              label="Compare"
+              value={selection[0] ?? ''}
+              onChange={(id) => onSelect(0, id)}
+              options={options}
+            />
+            <Select
+              label="With"
+              value={selection[1] ?? ''}
+              onChange={(id) => onSelect(1, id)}
+              options={options}
+            />
+          </div>
+
+          {!compared && (
+            <p className="text-xs text-neutral-600">Pick two different snapshots to compare.</p>
+          )}
+
+          {compared && diff && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-neutral-600">
+                  From {formatDate(compared[0].takenAt)} to {formatDate(compared[1].takenAt)}:{' '}
+                  {changes === 0 ? 'no changes' : `${changes.toLocaleString()} changed`},{' '}
+                  {members(diff.unchanged)} unchanged.
+                </p>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  icon="download"
+                  onClick={onDownloadDiff}
+                  disabled={changes === 0}
+                >
+                  Diff CSV
+                </Button>
+              </div>
+              {diff.sourceUnknown > 0 && (
+                <p className="text-xs text-neutral-500">
+                  Okta did not report the source of {members(diff.sourceUnknown)} in one of the
+                  snapshots, so a source change cannot be told for{' '}
+                  {diff.sourceUnknown === 1 ? 'it' : 'them'}.
+                </p>
+              )}
+              <DiffList
+                title="Added"
+                variant="success"
+                rows={diff.added.map((m) => ({
+                  member: m,
+                  detail: sourceText(m.source, m.ruleNames),
+                }))}
+              />
+              <DiffList
+                title="Removed"
+                variant="danger"
+                rows={diff.removed.map((m) => ({
+                  member: m,
+                  detail: sourceText(m.source, m.ruleNames),
+                }))}
+              />
+              <DiffList
+                title="Source changed"
+                variant="warning"
+                rows={diff.sourceChanged.map((c) => ({
+                  member: c.member,
+                  detail: `${sourceText(c.from, c.fromRules)} → ${sourceText(c.to, c.member.ruleNames)}`,
+                }))}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {snapshots.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold text-neutral-700">Snapshots</h4>
+          <ul className="space-y-1.5">
+            {snapshots.map((snapshot) => (
+              <li
+                key={snapshot.id}
+                className="flex items-center justify-between gap-2 text-xs text-neutral-600"
+              >
+                <span>
+                  {snapshotLabel(snapshot)} by {snapshot.takenBy}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  icon="trash"
+                  onClick={() => onRemove(snapshot.id)}
+                  title={`Delete the snapshot of ${formatDate(snapshot.takenAt)}`}
+                >
+                  Delete
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default MembershipSnapshotPanel;
@@ -0,0 +1,21 @@
+/**
+ * @module sidepanel/components/overview/members/types
+ * @description Types shared by the member explorer and the components it composes.
+ *
+ * They live here rather than in `MemberExplorer` so a child such as `MemberList`
+ * can name them without importing the parent that renders it.
+ */
+
+import type { AccessReviewItem, ReviewDecision } from '../../../../shared/membership/accessReview';
+
+/** Access-review state the explorer renders when a review is open. */
+export interface MemberReviewMode {
+  /** Each snapshot member's item, keyed by user id. */
+  items: ReadonlyMap<string, AccessReviewItem>;
+  /** False once revocations have run or the review is signed off. */
+  editable: boolean;
+  /** Set (or, with `null`, clear) the decision for the given members. Must be stable. */
+  onDecide: (userIds: string[], decision: ReviewDecision | null) => void;
+  /** Set the reviewer's note on one member. Must be stable. */
+  onNote: (userId: string, note: string) => void;
+}
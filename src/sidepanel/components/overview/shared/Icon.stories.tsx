@@ -129,6 +129,7 @@ export const AllIcons: Story = {
       'chevron-left',
       'chevron-down',
       'chevron-right',
+      'code',
     ];
 
     return (
@@ -45,7 +45,8 @@ export type IconType =
   | 'chevron-right'
   | 'chevron-down'
   | 'close'
-  | 'clock';
+  | 'clock'
+  | 'code';
 
 /** Props for {@link Icon}. */
 interface IconProps {
@@ -375,6 +376,16 @@ const Icon: React.FC<IconProps> = ({ type, className = '', size = 'md' }) => {
         />
       </svg>
     ),
+    code: (
+      <svg className={baseClasses} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4"
+        />
+      </svg>
+    ),
   };
 
   return icons[type] || null;
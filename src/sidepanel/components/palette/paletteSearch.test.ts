@@ -0,0 +1,132 @@
+/**
+ * Unit tests for the ⌘K palette's ranking: how a result scores against the typed
+ * text, which cached rules and listed policies match, and how sections are
+ * ordered and capped.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  PALETTE_RESULTS_PER_KIND,
+  buildSections,
+  matchPolicies,
+  matchRules,
+  scoreEntity,
+  type PaletteEntity,
+} from './paletteSearch';
+import type { FormattedRule } from '../../../shared/types';
+import type { OktaPolicyListItem } from '../../../shared/schemas/okta';
+
+const entity = (
+  kind: PaletteEntity['kind'],
+  id: string,
+  label: string,
+  detail = '',
+): PaletteEntity => ({ kind, id, label, detail });
+
+const rule = (id: string, name: string): FormattedRule => ({
+  id,
+  name,
+  status: 'ACTIVE',
+  condition: '',
+  groupIds: [],
+  userAttributes: [],
+  created: '2026-01-01T00:00:00.000Z',
+  lastUpdated: '2026-01-01T00:00:00.000Z',
+});
+
+describe('scoreEntity', () => {
+  it('ranks exact, prefix, word-prefix and substring matches on the label', () => {
+    expect(scoreEntity('sales', entity('group', 'g', 'Sales'))).toBe(0);
+    expect(scoreEntity('sal', entity('group', 'g', 'Sales EMEA'))).toBe(1);
+    expect(scoreEntity('emea', entity('group', 'g', 'Sales EMEA'))).toBe(2);
+    expect(scoreEntity('les', entity('group', 'g', 'Sales'))).toBe(3);
+  });
+
+  it('scores a detail-only match one step behind the same label match', () => {
+    expect(scoreEntity('jane', entity('user', 'u', 'J. Doe', 'jane@example.com'))).toBe(2);
+  });
+
+  it('returns null when neither the label nor the detail matches', () => {
+    expect(scoreEntity('xyz', entity('app', 'a', 'Slack', 'ACTIVE'))).toBeNull();
+  });
+});
+
+describe('matchRules', () => {
+  it('keeps the rules whose name matches, as rule entities with their status', () => {
+    const found = matchRules('eng', [rule('r1', 'Engineering by dept'), rule('r2', 'Sales')]);
+
+    expect(found).toEqual([
+      { kind: 'rule', id: 'r1', label: 'Engineering by dept', detail: 'ACTIVE' },
+    ]);
+  });
+});
+
+describe('matchPolicies', () => {
+  const policies: OktaPolicyListItem[] = [
+    { id: 'rst1', name: 'Any two factors', status: 'ACTIVE', type: 'ACCESS_POLICY' },
+    {
+      id: 'rst2',
+      name: 'Contractors',
+      description: 'Two factors for vendors',
+      type: 'ACCESS_POLICY',
+    },
+    { id: 'rst3', name: 'Password only', status: 'INACTIVE', type: 'ACCESS_POLICY' },
+  ];
+
+  it('matches on the name or the description', () => {
+    expect(matchPolicies('two', policies).map((p) => p.id)).toEqual(['rst1', 'rst2']);
+  });
+
+  it('falls back to an empty detail when the policy has no status', () => {
+    expect(matchPolicies('contract', policies)[0]).toEqual({
+      kind: 'policy',
+      id: 'rst2',
+      label: 'Contractors',
+      detail: '',
+    });
+  });
+});
+
+describe('buildSections', () => {
+  it('ranks within a section, keeping the server order between equal scores', () => {
+    const [section] = buildSections('sales', {
+      group: [
+        entity('group', 'g1', 'EMEA sales'),
+        entity('group', 'g2', 'Sales'),
+        entity('group', 'g3', 'US sales'),
+      ],
+    });
+
+    expect(section.results.map((r) => r.id)).toEqual(['g2', 'g1', 'g3']);
+  });
+
+  it('keeps a server hit that matches no visible text, last', () => {
+    const [section] = buildSections('jdoe', {
+      user: [entity('user', 'u1', 'Jane Doe', 'jane@example.com'), entity('user', 'u2', 'Jdoe')],
+    });
+
+    expect(section.results.map((r) => r.id)).toEqual(['u2', 'u1']);
+  });
+
+  it('orders sections by their best result, then by kind', () => {
+    const sections = buildSections('onboarding', {
+      group: [entity('group', 'g1', 'New hire onboarding')],
+      user: [entity('user', 'u1', 'Onboarding Bot')],
+      rule: [entity('rule', 'r1', 'Onboarding')],
+      app: [entity('app', 'a1', 'Onboarding portal')],
+    });
+
+    expect(sections.map((s) => s.kind)).toEqual(['rule', 'user', 'app', 'group']);
+    expect(sections[0].title).toBe('Rules');
+  });
+
+  it('caps each section and drops the empty ones', () => {
+    const groups = Array.from({ length: PALETTE_RESULTS_PER_KIND + 3 }, (_, i) =>
+      entity('group', `g${i}`, `Team ${i}`),
+    );
+
+    const sections = buildSections('team', { group: groups, user: [] });
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].results).toHaveLength(PALETTE_RESULTS_PER_KIND);
+  });
+});
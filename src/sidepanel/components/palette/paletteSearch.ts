@@ -0,0 +1,172 @@
+/**
+ * @module sidepanel/components/palette/paletteSearch
+ * @description Ranking for the ⌘K palette's entity search: what a typed query
+ * matches among groups, users, rules, apps and policies, and in which order.
+ *
+ * Groups, users and apps come back from Okta's own `q=` searches, which match
+ * fields the panel never sees (a user's email, an app's internal name); rules and
+ * policies are matched here, against the rules cache and the policy list. Either
+ * way each result is scored against its visible text — exact, prefix, word
+ * prefix, substring — so a server hit that matched elsewhere still shows, last.
+ * Sections are ordered by their best result, so typing a rule's exact name puts
+ * Rules first.
+ *
+ * Pure: no React, no Chrome, no requests.
+ */
+import type { IconType } from '../overview/shared/Icon';
+import type { FormattedRule } from '../../../shared/types';
+import type { OktaPolicyListItem } from '../../../shared/schemas/okta';
+
+/** The kinds of entity the palette can find. */
+export type PaletteEntityKind = 'group' | 'user' | 'rule' | 'app' | 'policy';
+
+/** One entity result. */
+export interface PaletteEntity {
+  kind: PaletteEntityKind;
+  id: string;
+  /** The name shown and matched first. */
+  label: string;
+  /** Dim text after the name — a login, a group type, a status. Also matched. */
+  detail: string;
+}
+
+/** One kind's results, best first. */
+export interface PaletteSection {
+  kind: PaletteEntityKind;
+  title: string;
+  results: PaletteEntity[];
+}
+
+/** The searches answer nothing below this length. */
+export const PALETTE_MIN_QUERY_LENGTH = 2;
+
+/** Results shown per kind. */
+export const PALETTE_RESULTS_PER_KIND = 5;
+
+/** How long typing must pause before a search is sent. */
+export const PALETTE_DEBOUNCE_MS = 250;
+
+/** Section titles and row glyphs, matching the tab rail's. */
+export const PALETTE_KINDS: Record<PaletteEntityKind, { title: string; icon: IconType }> = {
+  group: { title: 'Groups', icon: 'users' },
+  user: { title: 'Users', icon: 'user' },
+  rule: { title: 'Rules', icon: 'bolt' },
+  app: { title: 'Apps', icon: 'app' },
+  policy: { title: 'Policies', icon: 'shield' },
+};
+
+/** Tie-break order between sections whose best results score the same. */
+const KIND_ORDER: PaletteEntityKind[] = ['group', 'user', 'rule', 'app', 'policy'];
+
+/** The score of a server hit that matched none of the visible text. */
+const UNSEEN_MATCH = 4;
+
+/**
+ * How well `query` matches `text`, lower is better.
+ *
+ * @param query - Lower-cased, trimmed query.
+ * @param text - Text to match.
+ * @returns 0 exact, 1 prefix, 2 word prefix, 3 substring; `null` for no match.
+ */
+function textScore(query: string, text: string): number | null {
+  const haystack = text.toLowerCase();
+  if (!query || !haystack) return null;
+  if (haystack === query) return 0;
+  if (haystack.startsWith(query)) return 1;
+  if (haystack.split(/[\s._@-]+/).some((word) => word.startsWith(query))) return 2;
+  if (haystack.includes(query)) return 3;
+  return null;
+}
+
+/**
+ * Score one entity: its label first, its detail one step behind.
+ *
+ * @param query - The typed text.
+ * @param entity - The result.
+ * @returns The score, lower is better; `null` when neither matches.
+ */
+export function scoreEntity(query: string, entity: PaletteEntity): number | null {
+  const needle = query.trim().toLowerCase();
+  const label = textScore(needle, entity.label);
+  if (label !== null) return label;
+  const detail = textScore(needle, entity.detail);
+  return detail === null ? null : Math.min(detail + 1, UNSEEN_MATCH - 1);
+}
+
+/**
+ * Rules from the cache whose name matches.
+ *
+ * @param query - The typed text.
+ * @param rules - The cached rules.
+ * @returns Every match, unranked.
+ */
+export function matchRules(query: string, rules: readonly FormattedRule[]): PaletteEntity[] {
+  return rules
+    .map((rule): PaletteEntity => ({
+      kind: 'rule',
+      id: rule.id,
+      label: rule.name,
+      detail: rule.status,
+    }))
+    .filter((entity) => textScore(query.trim().toLowerCase(), entity.label) !== null);
+}
+
+/**
+ * Policies whose name or description matches.
+ *
+ * @param query - The typed text.
+ * @param policies - The listed policies.
+ * @returns Every match, unranked.
+ */
+export function matchPolicies(
+  query: string,
+  policies: readonly OktaPolicyListItem[],
+): PaletteEntity[] {
+  const needle = query.trim().toLowerCase();
+  return policies
+    .filter(
+      (policy) =>
+        textScore(needle, policy.name ?? '') !== null ||
+        textScore(needle, policy.description ?? '') !== null,
+    )
+    .map((policy): PaletteEntity => ({
+      kind: 'policy',
+      id: policy.id,
+      label: policy.name || policy.id,
+      detail: policy.status ?? '',
+    }));
+}
+
+/**
+ * Rank each kind's results and order the sections.
+ *
+ * @param query - The typed text.
+ * @param found - Each kind's results, as the searches returned them.
+ * @returns Non-empty sections, best section first, each capped at
+ *   {@link PALETTE_RESULTS_PER_KIND}.
+ */
+export function buildSections(
+  query: string,
+  found: Partial<Record<PaletteEntityKind, readonly PaletteEntity[]>>,
+): PaletteSection[] {
+  const ranked = KIND_ORDER.map((kind) => {
+    const scored = (found[kind] ?? [])
+      .map((entity, index) => ({
+        entity,
+        index,
+        score: scoreEntity(query, entity) ?? UNSEEN_MATCH,
+      }))
+      // Stable: equal scores keep the server's own order.
+      .sort((a, b) => a.score - b.score || a.index - b.index);
+    return {
+      kind,
+      best: scored[0]?.score ?? Infinity,
+      results: scored.slice(0, PALETTE_RESULTS_PER_KIND).map(({ entity }) => entity),
+    };
+  });
+
+  return ranked
+    .filter((section) => section.results.length > 0)
+    .sort((a, b) => a.best - b.best || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind))
+    .map(({ kind, results }) => ({ kind, title: PALETTE_KINDS[kind].title, results }));
+}
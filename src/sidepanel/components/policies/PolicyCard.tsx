@@ -4,13 +4,15 @@
  *
  * Collapsed it shows the policy name, status pill, evaluation priority, a `System`
  * badge for Okta-managed policies and the description. Expanding lazily fetches the
- * policy's rules through {@link useEntityQuery} keyed `['policyRules', id]`, so a
- * re-expansion (or a re-mount after a tab switch) is served from the session cache
- * with no second request.
+ * policy's rules through {@link useEntityQuery} keyed `cacheKeys.policyRules(id)`, so
+ * a re-expansion (or a re-mount after a tab switch) is served from the session
+ * cache with no second request.
  *
  * The card is strictly read-only: it renders no activate/deactivate or any other
- * mutation affordance. Only validated scalar fields are rendered, as text through
- * React's escaping — policy names and descriptions are end-user-controlled input.
+ * mutation affordance. It renders validated scalar fields and hands the rules to
+ * {@link PolicyRulesList} with the policy's type, which decides how they decode.
+ * Everything renders as text through React's escaping — policy names and
+ * descriptions are end-user-controlled input.
  *
  * The chrome is {@link sidepanel/components/shared/ListRow} at `comfortable`
  * density (ADR-0029) — the card used to carry its own hand-written border, hover
@@ -23,6 +25,7 @@ import { IconButton, ListRow } from '../shared';
 import Icon from '../overview/shared/Icon';
 import PolicyRulesList from './PolicyRulesList';
 import { useEntityQuery } from '../../cache/useEntityQuery';
+import { cacheKeys } from '../../cache/keys';
 import type { OktaPolicyListItem, OktaPolicyRule } from '../../../shared/schemas/okta';
 import { policyStatusClasses, policyStatusLabel } from './policyStatus';
 
@@ -49,9 +52,13 @@ const PolicyCard: React.FC<PolicyCardProps> = memo(({ policy, loadRules }) => {
     data: rules,
     isLoading,
     error,
-  } = useEntityQuery<OktaPolicyRule[]>(['policyRules', policy.id], () => loadRules(policy.id), {
-    enabled: isExpanded,
-  });
+  } = useEntityQuery<OktaPolicyRule[]>(
+    cacheKeys.policyRules(policy.id),
+    () => loadRules(policy.id),
+    {
+      enabled: isExpanded,
+    },
+  );
 
   const name = policy.name ?? policy.id;
 
@@ -88,7 +95,12 @@ const PolicyCard: React.FC<PolicyCardProps> = memo(({ policy, loadRules }) => {
               <div className="text-xs font-semibold uppercase tracking-wider text-neutral-600">
                 Rules
               </div>
-              <PolicyRulesList rules={rules} isLoading={isLoading} error={error} />
+              <PolicyRulesList
+                policyType={policy.type}
+                rules={rules}
+                isLoading={isLoading}
+                error={error}
+              />
               <div className="border-t border-neutral-200 pt-2 text-xs text-neutral-600">
                 <span className="font-semibold">Policy ID:</span>{' '}
                 <span className="font-mono text-neutral-500">{policy.id}</span>
@@ -158,6 +170,7 @@ function arePolicyCardPropsEqual(prev: PolicyCardProps, next: PolicyCardProps):
     prev.policy.id === next.policy.id &&
     prev.policy.name === next.policy.name &&
     prev.policy.status === next.policy.status &&
+    prev.policy.type === next.policy.type &&
     prev.policy.description === next.policy.description &&
     prev.policy.priority === next.policy.priority &&
     prev.policy.system === next.policy.system
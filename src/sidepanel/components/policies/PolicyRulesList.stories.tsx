@@ -4,14 +4,41 @@ import type { OktaPolicyRule } from '../../../shared/schemas/okta';
 
 /** Obviously-fake rules spanning the priority / status / system axes. */
 const sampleRules = [
-  { id: '0prFAKE000000000001', name: 'Trusted device, no prompt', status: 'ACTIVE', priority: 1 },
-  { id: '0prFAKE000000000002', name: 'Off-network step-up', status: 'INACTIVE', priority: 2 },
+  {
+    id: '0prFAKE000000000001',
+    name: 'Trusted device, no prompt',
+    status: 'ACTIVE',
+    priority: 1,
+    conditions: {
+      people: { groups: { include: ['00gFAKE000000000001'] } },
+      device: { registered: true, managed: true },
+    },
+    actions: { appSignOn: { access: 'ALLOW', verificationMethod: { factorMode: '1FA' } } },
+  },
+  {
+    id: '0prFAKE000000000002',
+    name: 'Off-network step-up',
+    status: 'INACTIVE',
+    priority: 2,
+    conditions: { network: { connection: 'ZONE', exclude: ['nzoFAKE000000000001'] } },
+    actions: {
+      appSignOn: {
+        access: 'ALLOW',
+        verificationMethod: {
+          factorMode: '2FA',
+          reauthenticateIn: 'PT2H',
+          constraints: [{ possession: { phishingResistant: 'REQUIRED' } }],
+        },
+      },
+    },
+  },
   {
     id: '0prFAKE000000000003',
     name: 'Catch-all Rule',
     status: 'ACTIVE',
     priority: 3,
     system: true,
+    actions: { appSignOn: { access: 'ALLOW', verificationMethod: { factorMode: '2FA' } } },
   },
 ] as OktaPolicyRule[];
 
@@ -29,19 +56,23 @@ const meta = {
       description: {
         component:
           "A read-only list of one auth policy's rules.\n\n" +
-          'Each row shows only the *validated scalar* fields of a rule — evaluation priority, ' +
-          "name, status and whether it is Okta-managed. A rule's `conditions` and `actions` are " +
-          '`unknown` by contract (their shape varies per policy type) and are deliberately never ' +
-          'read here. The component also owns the small per-policy loading, error and empty states.',
+          'Each row shows evaluation priority, name, status and whether the rule is ' +
+          'Okta-managed, then who it applies to and what it does. Conditions and actions are ' +
+          "decoded for the policy's type; a part that cannot be read is named, never dropped. " +
+          'The component also owns the small per-policy loading, error and empty states.',
       },
     },
   },
   argTypes: {
+    policyType: {
+      description: "The policy's type, which decides how each rule's outcome is read.",
+    },
     rules: { description: "The policy's validated rules; null until the first load resolves." },
     isLoading: { description: 'Whether the rules fetch is in flight with nothing yet to show.' },
     error: { description: 'Message from a failed rules fetch, or null.' },
   },
   args: {
+    policyType: 'ACCESS_POLICY',
     rules: sampleRules,
     isLoading: false,
     error: null,
@@ -54,6 +85,54 @@ type Story = StoryObj<typeof meta>;
 /** Three rules, including an Okta-managed catch-all. */
 export const Default: Story = {};
 
+/** Global session rules: the outcome is the session's MFA prompt and lifetime. */
+export const GlobalSessionRules: Story = {
+  args: {
+    policyType: 'OKTA_SIGN_ON',
+    rules: [
+      {
+        id: '0prFAKE000000000011',
+        name: 'Off-network MFA',
+        status: 'ACTIVE',
+        priority: 1,
+        conditions: { network: { connection: 'OFF_NETWORK' } },
+        actions: {
+          signon: {
+            access: 'ALLOW',
+            requireFactor: true,
+            factorPromptMode: 'ALWAYS',
+            session: { maxSessionIdleMinutes: 120, maxSessionLifetimeMinutes: 720 },
+          },
+        },
+      },
+      {
+        id: '0prFAKE000000000012',
+        name: 'Default Rule',
+        status: 'ACTIVE',
+        priority: 2,
+        system: true,
+        actions: { signon: { access: 'ALLOW', requireFactor: false } },
+      },
+    ] as OktaPolicyRule[],
+  },
+};
+
+/** A condition Okta sent in a shape the decoder does not know is named, not dropped. */
+export const UnreadableCondition: Story = {
+  args: {
+    rules: [
+      {
+        id: '0prFAKE000000000021',
+        name: 'Odd network',
+        status: 'ACTIVE',
+        priority: 1,
+        conditions: { network: 'corporate' },
+        actions: { appSignOn: { access: 'DENY' } },
+      },
+    ] as OktaPolicyRule[],
+  },
+};
+
 /** The rules fetch is in flight. */
 export const Loading: Story = {
   args: { rules: null, isLoading: true },
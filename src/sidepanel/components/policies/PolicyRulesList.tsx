@@ -2,22 +2,33 @@
  * @module sidepanel/components/policies/PolicyRulesList
  * @description Read-only list of one auth policy's rules, plus its own load states.
  *
- * Rendered inside an expanded {@link PolicyCard}. Shows a compact row per rule —
- * evaluation priority, name, status and a system badge — and owns the small
- * per-policy loading / error / empty states so the surrounding card stays simple.
+ * Rendered inside an expanded {@link PolicyCard}. Shows a row per rule —
+ * evaluation priority, name, status and a system badge — then, under it, who the
+ * rule applies to and what it does, and owns the small per-policy loading /
+ * error / empty states so the surrounding card stays simple.
  *
- * Only the *validated scalar* fields of a rule are rendered: `conditions` and
- * `actions` are `unknown` by contract (their shape varies per policy type) and are
- * deliberately never read here. Names come from end-user-controlled Okta data and
- * are rendered as text through React's escaping — no HTML is ever constructed.
+ * A rule's `conditions` and `actions` are `unknown` by contract (their shape
+ * varies per policy type). They are read only through
+ * {@link shared/policies/policyRuleDecoder}, which needs the policy's type; a part
+ * it cannot read is said to be unreadable rather than left out, so a missing line
+ * never reads as "no condition". Names and expressions come from
+ * end-user-controlled Okta data and are rendered as text through React's
+ * escaping — no HTML is ever constructed.
  */
 import React from 'react';
 import LoadingSpinner from '../shared/LoadingSpinner';
 import AlertMessage from '../shared/AlertMessage';
 import type { OktaPolicyRule } from '../../../shared/schemas/okta';
+import {
+  decodePolicyRule,
+  describeConditions,
+  describeOutcome,
+} from '../../../shared/policies/policyRuleDecoder';
 import { policyStatusClasses, policyStatusLabel } from './policyStatus';
 
 interface PolicyRulesListProps {
+  /** The policy's `type`, which decides how each rule's outcome is read. */
+  policyType?: string;
   /** The policy's validated rules; `null` until the first load resolves. */
   rules: OktaPolicyRule[] | null;
   /** Whether the rules fetch is in flight with nothing yet to show. */
@@ -26,10 +37,51 @@ interface PolicyRulesListProps {
   error: string | null;
 }
 
+/** Who one rule applies to and what it does, one line each. */
+const RuleDetails: React.FC<{ rule: OktaPolicyRule; policyType?: string }> = ({
+  rule,
+  policyType,
+}) => {
+  const decoded = decodePolicyRule(rule, policyType);
+  const conditions = describeConditions(decoded.conditions);
+  // Two constraint entries can word alike; the line is said once.
+  const outcome = decoded.outcome ? [...new Set(describeOutcome(decoded.outcome))] : [];
+  return (
+    <div className="grid gap-1 pl-1 text-xs sm:grid-cols-2" data-testid="policy-rule-details">
+      <ul className="space-y-0.5 text-neutral-600" aria-label="Applies to">
+        {conditions.length === 0 ? (
+          <li>Everyone, anywhere</li>
+        ) : (
+          conditions.map((line) => (
+            <li key={line} className="break-words">
+              {line}
+            </li>
+          ))
+        )}
+      </ul>
+      <ul className="space-y-0.5 text-neutral-800" aria-label="Then">
+        {outcome.map((line) => (
+          <li key={line}>{line}</li>
+        ))}
+        {decoded.unreadable.length > 0 && (
+          <li className="text-warning-text">
+            Could not read {decoded.unreadable.map((path) => path.split('.').pop()).join(', ')}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
 /**
  * Renders the rules of a single auth policy (loading / error / empty / populated).
  */
-const PolicyRulesList: React.FC<PolicyRulesListProps> = ({ rules, isLoading, error }) => {
+const PolicyRulesList: React.FC<PolicyRulesListProps> = ({
+  policyType,
+  rules,
+  isLoading,
+  error,
+}) => {
   if (isLoading) {
     return <LoadingSpinner size="sm" message="Loading rules…" centered />;
   }
@@ -47,27 +99,30 @@ const PolicyRulesList: React.FC<PolicyRulesListProps> = ({ rules, isLoading, err
       {rules.map((rule) => (
         <li
           key={rule.id}
-          className="flex items-center gap-3 rounded-md border border-neutral-200 bg-white px-3 py-2"
+          className="space-y-2 rounded-md border border-neutral-200 bg-white px-3 py-2"
         >
-          <span
-            className="shrink-0 rounded-md border border-neutral-200 bg-neutral-50 px-2 py-0.5 font-mono text-xs text-neutral-600"
-            title="Evaluation priority"
-          >
-            {rule.priority ?? '—'}
-          </span>
-          <span className="min-w-0 flex-1 truncate text-sm text-neutral-900">
-            {rule.name ?? rule.id}
-          </span>
-          {rule.system && (
-            <span className="shrink-0 rounded-md border border-neutral-200 bg-neutral-50 px-2 py-0.5 text-xs font-medium text-neutral-600">
-              System
+          <div className="flex items-center gap-3">
+            <span
+              className="shrink-0 rounded-md border border-neutral-200 bg-neutral-50 px-2 py-0.5 font-mono text-xs text-neutral-600"
+              title="Evaluation priority"
+            >
+              {rule.priority ?? '—'}
+            </span>
+            <span className="min-w-0 flex-1 truncate text-sm text-neutral-900">
+              {rule.name ?? rule.id}
+            </span>
+            {rule.system && (
+              <span className="shrink-0 rounded-md border border-neutral-200 bg-neutral-50 px-2 py-0.5 text-xs font-medium text-neutral-600">
+                System
+              </span>
+            )}
+            <span
+              className={`shrink-0 rounded-md border px-2 py-0.5 text-xs font-semibold ${policyStatusClasses(rule.status)}`}
+            >
+              {policyStatusLabel(rule.status)}
             </span>
-          )}
-          <span
-            className={`shrink-0 rounded-md border px-2 py-0.5 text-xs font-semibold ${policyStatusClasses(rule.status)}`}
-          >
-            {policyStatusLabel(rule.status)}
-          </span>
+          </div>
+          <RuleDetails rule={rule} policyType={policyType} />
         </li>
       ))}
     </ul>
@@ -0,0 +1,199 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, fn, userEvent, within } from 'storybook/test';
+import PolicySimulatorPanel from './PolicySimulatorPanel';
+import { resetEntityCache } from '../../cache/entityCache';
+import { useOktaApi, makeUseOktaApiValue } from '../../../../.storybook/mocks/useOktaApi.mock';
+import type {
+  OktaAppListItem,
+  OktaNetworkZone,
+  OktaPolicyListItem,
+  OktaPolicyRule,
+} from '../../../shared/schemas/okta';
+
+/** Fake placeholders only. */
+const USER = {
+  id: '00uFAKEada',
+  status: 'ACTIVE',
+  profile: {
+    login: 'ada.lovelace@example.com',
+    email: 'ada.lovelace@example.com',
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+  },
+};
+
+const GROUPS = [
+  { id: '00gFAKEeveryone', type: 'BUILT_IN', profile: { name: 'Everyone' } },
+  { id: '00gFAKEeng', type: 'OKTA_GROUP', profile: { name: 'Engineering' } },
+];
+
+const APPS: OktaAppListItem[] = [
+  { id: '0oaFAKEslack', label: 'Slack', status: 'ACTIVE' },
+  { id: '0oaFAKEwiki', label: 'Wiki', status: 'ACTIVE' },
+];
+
+const ZONES: OktaNetworkZone[] = [
+  { id: 'nzoFAKEvpn', name: 'Office VPN', type: 'IP', status: 'ACTIVE', usage: 'POLICY' },
+  { id: 'nzoFAKEtor', name: 'Tor exit nodes', type: 'DYNAMIC', status: 'ACTIVE', usage: 'POLICY' },
+];
+
+const SESSION_POLICIES: OktaPolicyListItem[] = [
+  {
+    id: '00pFAKEeng',
+    name: 'Engineering sessions',
+    type: 'OKTA_SIGN_ON',
+    status: 'ACTIVE',
+    priority: 1,
+    conditions: { people: { groups: { include: ['00gFAKEeng'] } } },
+  },
+  {
+    id: '00pFAKEdefault',
+    name: 'Default Policy',
+    type: 'OKTA_SIGN_ON',
+    status: 'ACTIVE',
+    priority: 2,
+    system: true,
+    conditions: { people: { groups: { include: ['00gFAKEeveryone'] } } },
+  },
+];
+
+const ACCESS_POLICIES: OktaPolicyListItem[] = [
+  { id: 'rstFAKEslack', name: 'Slack access', type: 'ACCESS_POLICY', status: 'ACTIVE' },
+];
+
+const RULES: Record<string, OktaPolicyRule[]> = {
+  '00pFAKEeng': [
+    {
+      id: '0prFAKEoffice',
+      name: 'In the office',
+      status: 'ACTIVE',
+      priority: 1,
+      conditions: { network: { connection: 'ZONE', include: ['nzoFAKEvpn'] } },
+      actions: { signon: { access: 'ALLOW', requireFactor: false } },
+    },
+    {
+      id: '0prFAKEremote',
+      name: 'Remote',
+      status: 'ACTIVE',
+      priority: 2,
+      actions: {
+        signon: {
+          access: 'ALLOW',
+          requireFactor: true,
+          factorPromptMode: 'SESSION',
+          session: { maxSessionIdleMinutes: 120 },
+        },
+      },
+    },
+  ],
+  rstFAKEslack: [
+    {
+      id: 'rulFAKEtor',
+      name: 'Block Tor',
+      status: 'ACTIVE',
+      priority: 1,
+      conditions: { network: { connection: 'ZONE', include: ['nzoFAKEtor'] } },
+      actions: { appSignOn: { access: 'DENY' } },
+    },
+    {
+      id: 'rulFAKEunmanaged',
+      name: 'Unmanaged devices',
+      status: 'ACTIVE',
+      priority: 2,
+      conditions: { device: { managed: false } },
+      actions: {
+        appSignOn: {
+          access: 'ALLOW',
+          verificationMethod: { factorMode: '2FA', reauthenticateIn: 'PT0S' },
+        },
+      },
+    },
+    {
+      id: 'rulFAKEcatchall',
+      name: 'Catch-all Rule',
+      status: 'ACTIVE',
+      priority: 99,
+      system: true,
+      actions: { appSignOn: { access: 'ALLOW', verificationMethod: { factorMode: '1FA' } } },
+    },
+  ],
+};
+
+/** Answers the user search and the user's groups; every other endpoint is empty. */
+const makeApiRequest = fn(async (endpoint?: string) => {
+  if (endpoint?.startsWith('/api/v1/users?')) return { success: true, data: [USER] };
+  if (endpoint?.startsWith(`/api/v1/users/${USER.id}/groups`)) {
+    return { success: true, data: GROUPS };
+  }
+  return { success: true, data: [] };
+});
+
+/** "Which rule applies to this user?", in the Auth Policies tab's own view. */
+const meta = {
+  title: 'Policies/PolicySimulatorPanel',
+  component: PolicySimulatorPanel,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component:
+          'Pick a user, an app and the network zone the sign-in comes from, then Simulate. The ' +
+          'panel walks the global session policy assigned to the user’s groups and the app’s ' +
+          'authentication policy in priority order, and shows the rule that applies in each, ' +
+          'whether it prompts for MFA, and why every earlier rule did not. Conditions only a ' +
+          'real sign-in can settle (device, platform, risk, Expression Language) are shown as ' +
+          '“Might apply”. Read-only.',
+      },
+    },
+  },
+  argTypes: {
+    targetTabId: { description: 'The connected Okta tab; nothing loads or runs without one.' },
+    oktaOrigin: { description: 'The connected org, which scopes the cached apps and zones.' },
+    isActive: { description: 'Whether the hosting tab is visible; gates the user search.' },
+  },
+  args: { targetTabId: 1, oktaOrigin: 'https://example.okta.com' },
+  beforeEach: () => {
+    // Apps, zones, policies and rules are cached in a module-level cache that outlives a story.
+    resetEntityCache();
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({
+        makeApiRequest,
+        getAllApps: fn(async () => APPS),
+        listNetworkZones: fn(async () => ZONES),
+        listPolicies: fn(async (type: string) =>
+          type === 'OKTA_SIGN_ON' ? SESSION_POLICIES : ACCESS_POLICIES,
+        ),
+        getPolicyRules: fn(async (policyId: string) => RULES[policyId] ?? []),
+        getAppAccessPolicyId: fn(async (appId: string) =>
+          appId === '0oaFAKEslack' ? 'rstFAKEslack' : null,
+        ),
+      }),
+    );
+  },
+} satisfies Meta<typeof PolicySimulatorPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Before a run: the pickers alone. */
+export const Default: Story = {};
+
+/**
+ * Ada, signing in to Slack from no zone: the Remote session rule prompts for
+ * MFA, and the unmanaged-device rule might apply ahead of Slack's catch-all.
+ */
+export const Simulated: Story = {
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.type(canvas.getByLabelText('Search for a user'), 'ada');
+    await userEvent.click(await canvas.findByText('Ada Lovelace', undefined, { timeout: 3000 }));
+    await canvas.findByRole('option', { name: 'Slack' });
+    await userEvent.selectOptions(canvas.getByLabelText('App'), '0oaFAKEslack');
+    await userEvent.click(canvas.getByRole('button', { name: /Simulate/ }));
+    await expect(await canvas.findByLabelText('Simulation result')).toBeInTheDocument();
+  },
+};
+
+/** No connected Okta tab: nothing loads, and nothing can run. */
+export const NoConnection: Story = { args: { targetTabId: undefined } };
@@ -0,0 +1,150 @@
+/**
+ * Behavioral tests for the Auth Policies tab's policy simulator.
+ *
+ * Drives the real panel and hooks against a stubbed `useOktaApi`, pinning:
+ * nothing runs until a user and an app are picked, a run names the matched rule
+ * of both policies and whether it prompts for MFA, a rule only the sign-in can
+ * settle is called out ahead of the match, and a failed run is an error with a
+ * retry rather than an empty report.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `0oaFAKE…`,
+ * `00pFAKE…`, `rstFAKE…`, `rulFAKE…`, `nzoFAKE…`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+const api = vi.hoisted(() => ({
+  makeApiRequest: vi.fn(),
+  getAllApps: vi.fn(),
+  listNetworkZones: vi.fn(),
+  listPolicies: vi.fn(),
+  getPolicyRules: vi.fn(),
+  getAppAccessPolicyId: vi.fn(),
+}));
+
+vi.mock('../../hooks/useOktaApi', () => ({ useOktaApi: () => api }));
+
+import PolicySimulatorPanel from './PolicySimulatorPanel';
+import { resetEntityCache } from '../../cache/entityCache';
+
+const ada = {
+  id: '00uFAKE1',
+  status: 'ACTIVE',
+  profile: { login: 'ada@example.com', email: 'ada@example.com', firstName: 'Ada', lastName: 'L' },
+};
+
+let groupsResponse: { success: boolean; data?: unknown; error?: string };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resetEntityCache();
+  groupsResponse = {
+    success: true,
+    data: [{ id: '00gFAKE1', type: 'OKTA_GROUP', profile: { name: 'Engineering' } }],
+  };
+  api.makeApiRequest.mockImplementation(async (endpoint: string) => {
+    if (endpoint.startsWith('/api/v1/users?')) return { success: true, data: [ada] };
+    if (endpoint.startsWith(`/api/v1/users/${ada.id}/groups`)) return groupsResponse;
+    return { success: true, data: [] };
+  });
+  api.getAllApps.mockResolvedValue([{ id: '0oaFAKE1', label: 'Slack' }]);
+  api.listNetworkZones.mockResolvedValue([
+    { id: 'nzoFAKE1', name: 'Office VPN', status: 'ACTIVE', usage: 'POLICY' },
+  ]);
+  api.listPolicies.mockImplementation(async (type: string) =>
+    type === 'OKTA_SIGN_ON'
+      ? [{ id: '00pFAKEdefault', name: 'Default session', status: 'ACTIVE', priority: 1 }]
+      : [{ id: 'rstFAKEapp', name: 'Slack access', type: 'ACCESS_POLICY' }],
+  );
+  api.getAppAccessPolicyId.mockResolvedValue('rstFAKEapp');
+  api.getPolicyRules.mockImplementation(async (policyId: string) =>
+    policyId === '00pFAKEdefault'
+      ? [
+          {
+            id: 'rulFAKEsession',
+            name: 'Default session rule',
+            status: 'ACTIVE',
+            priority: 1,
+            actions: { signon: { access: 'ALLOW', requireFactor: false } },
+          },
+        ]
+      : [
+          {
+            id: 'rulFAKEunmanaged',
+            name: 'Unmanaged devices',
+            status: 'ACTIVE',
+            priority: 1,
+            conditions: { device: { managed: false } },
+            actions: { appSignOn: { access: 'DENY' } },
+          },
+          {
+            id: 'rulFAKEcatchall',
+            name: 'Everyone else',
+            status: 'ACTIVE',
+            priority: 2,
+            actions: { appSignOn: { access: 'ALLOW', verificationMethod: { factorMode: '2FA' } } },
+          },
+        ],
+  );
+});
+
+/** Pick Ada through the search, and Slack. */
+async function pickUserAndApp() {
+  await userEvent.type(screen.getByLabelText('Search for a user'), 'ada');
+  await userEvent.click(await screen.findByText('Ada L', undefined, { timeout: 2000 }));
+  await screen.findByRole('option', { name: 'Slack' });
+  await userEvent.selectOptions(screen.getByLabelText('App'), '0oaFAKE1');
+}
+
+describe('PolicySimulatorPanel', () => {
+  it('offers the zones and runs nothing until a user and an app are picked', async () => {
+    render(<PolicySimulatorPanel targetTabId={1} oktaOrigin="https://example.okta.com" />);
+
+    await screen.findByRole('option', { name: 'Office VPN' });
+    const zones = within(screen.getByLabelText('Signing in from')).getAllByRole('option');
+    expect(zones[0]).toHaveTextContent('An IP in no network zone');
+    expect(screen.getByRole('button', { name: /Simulate/ })).toBeDisabled();
+    expect(api.listPolicies).not.toHaveBeenCalled();
+  });
+
+  it('names the rule that applies in both policies, and the rule that might apply first', async () => {
+    render(<PolicySimulatorPanel targetTabId={1} oktaOrigin="https://example.okta.com" />);
+    await pickUserAndApp();
+
+    await userEvent.click(screen.getByRole('button', { name: /Simulate/ }));
+
+    const result = await screen.findByLabelText('Simulation result');
+    const section = (title: string) =>
+      within(
+        within(result).getByRole('heading', { name: title }).closest('section') as HTMLElement,
+      );
+    const session = section('Global session policy');
+    const app = section('App sign-in policy');
+    expect(session.getByText('Default session rule', { selector: 'strong' })).toBeInTheDocument();
+    expect(session.getByText('No MFA', { selector: 'span' })).toBeInTheDocument();
+    expect(app.getByText('Everyone else', { selector: 'strong' })).toBeInTheDocument();
+    expect(app.getByText('Prompts for MFA')).toBeInTheDocument();
+    expect(
+      app.getByText(
+        'Depends on the sign-in: Unmanaged devices comes first and might apply instead.',
+      ),
+    ).toBeInTheDocument();
+    const walked = within(app.getByRole('list', { name: 'App sign-in policy rules' })).getAllByRole(
+      'listitem',
+    );
+    expect(walked[0]).toHaveTextContent('Might apply');
+  });
+
+  it('reports a failed run as an error with a retry, not as an empty report', async () => {
+    groupsResponse = { success: false, error: 'Forbidden' };
+    render(<PolicySimulatorPanel targetTabId={1} oktaOrigin="https://example.okta.com" />);
+    await pickUserAndApp();
+
+    await userEvent.click(screen.getByRole('button', { name: /Simulate/ }));
+
+    expect(await screen.findByText('The simulation could not run: Forbidden')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Retry' })).toBeInTheDocument();
+    expect(screen.queryByLabelText('Simulation result')).not.toBeInTheDocument();
+  });
+});
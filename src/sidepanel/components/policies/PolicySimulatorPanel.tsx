@@ -0,0 +1,339 @@
+/**
+ * @module sidepanel/components/policies/PolicySimulatorPanel
+ * @description "Which rule applies to this user?" — pick a user, an app and a
+ * network zone, and see which global session rule and which app sign-in rule
+ * they meet, and why every rule before it did not apply.
+ *
+ * Shown in the Auth Policies tab (its own view, from the header). A run is
+ * started by the admin, never by a change of pick: it reads the user's groups
+ * and both policies' rules. The walk itself is
+ * {@link shared/policies/policySimulator}; this panel only lays it out.
+ *
+ * Conditions only a real sign-in can settle (device, platform, risk, Expression
+ * Language) are shown as "might apply" with the reason, and any such rule
+ * ahead of the match is called out — that is the usual answer to "why was this
+ * person prompted for MFA?".
+ *
+ * Read-only, like the rest of the tab. User, group, zone and rule names render
+ * through React's escaping.
+ */
+import React, { useState } from 'react';
+import {
+  AlertMessage,
+  Badge,
+  Button,
+  Input,
+  ListRow,
+  Select,
+  Skeleton,
+  type BadgeVariant,
+} from '../shared';
+import Icon from '../overview/shared/Icon';
+import UserSearchResults from '../users/UserSearchResults';
+import { describeOutcome, promptsForMfa } from '../../../shared/policies/policyRuleDecoder';
+import type {
+  NamedRef,
+  PolicySimulation,
+  RuleVerdict,
+  SimulationVerdict,
+} from '../../../shared/policies/policySimulator';
+import { userDisplayName } from '../../../shared/utils/userDisplay';
+import { usePolicySimulator } from '../../hooks/usePolicySimulator';
+import { useUserSearch } from '../../hooks/useUserSearch';
+
+/** Props for {@link PolicySimulatorPanel}. */
+export interface PolicySimulatorPanelProps {
+  /** The connected Okta tab; nothing loads or runs without one. */
+  targetTabId?: number;
+  /** The connected org, which scopes the cached apps and zones. */
+  oktaOrigin?: string | null;
+  /**
+   * Whether the hosting tab is visible. The tab stays mounted while hidden, so
+   * this gates the user search (ADR-0018). Defaults to `true`.
+   */
+  isActive?: boolean;
+}
+
+const VERDICT_VARIANT: Record<SimulationVerdict, BadgeVariant> = {
+  match: 'success',
+  'no-match': 'neutral',
+  unknown: 'warning',
+};
+
+const VERDICT_LABEL: Record<SimulationVerdict, string> = {
+  match: 'Applies',
+  'no-match': 'Skipped',
+  unknown: 'Might apply',
+};
+
+/** The zone select's value for an IP in no zone. */
+const NO_ZONE = '';
+
+/** A rule's display name. */
+function ruleName(verdict: RuleVerdict): string {
+  return verdict.rule.name ?? verdict.rule.id;
+}
+
+/** One walked rule: its verdict and the reason for each condition. */
+const WalkedRule: React.FC<{ verdict: RuleVerdict }> = ({ verdict }) => (
+  <ListRow as="li" density="compact">
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className="font-mono text-neutral-500" title="Evaluation priority">
+        {verdict.rule.priority ?? '—'}
+      </span>
+      <span className="font-medium text-neutral-900">{ruleName(verdict)}</span>
+      <Badge variant={VERDICT_VARIANT[verdict.verdict]}>{VERDICT_LABEL[verdict.verdict]}</Badge>
+    </div>
+    <ul className="mt-1 space-y-0.5 text-xs text-neutral-600">
+      {verdict.checks.length === 0 ? (
+        <li>No conditions: applies to everyone, anywhere</li>
+      ) : (
+        verdict.checks.map((check) => (
+          <li key={check.label}>
+            <span className="font-medium text-neutral-700">{check.label}:</span> {check.reason}
+          </li>
+        ))
+      )}
+    </ul>
+  </ListRow>
+);
+
+/** Props for {@link PolicyResult}. */
+interface PolicyResultProps {
+  title: string;
+  /** The policy walked, or `null` when there was none. */
+  policy: NamedRef | null;
+  /** Why this policy, or why none. */
+  note?: string;
+  simulation: PolicySimulation | null;
+}
+
+/** One policy's part of the report: the answer first, then the walk. */
+const PolicyResult: React.FC<PolicyResultProps> = ({ title, policy, note, simulation }) => {
+  const matched = simulation?.matched ?? null;
+  const outcome = matched?.decoded.outcome ?? null;
+  const mfa = promptsForMfa(outcome);
+
+  return (
+    <section className="space-y-2 rounded-md border border-neutral-200 bg-white p-4">
+      <div>
+        <h3 className="text-sm font-semibold text-neutral-900">{title}</h3>
+        <p className="text-xs text-neutral-600">
+          {policy ? policy.name : 'No policy'}
+          {note ? ` — ${note}` : ''}
+        </p>
+      </div>
+
+      {simulation && simulation.walked.length === 0 && (
+        <p className="text-sm text-neutral-500">
+          The policy&apos;s rules could not be read, or it has none.
+        </p>
+      )}
+
+      {simulation && simulation.walked.length > 0 && (
+        <>
+          {matched ? (
+            <div className="space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-neutral-900">
+                  Applies: <strong>{ruleName(matched)}</strong>
+                </span>
+                {mfa !== null && (
+                  <Badge variant={mfa ? 'warning' : 'success'}>
+                    {mfa ? 'Prompts for MFA' : 'No MFA'}
+                  </Badge>
+                )}
+              </div>
+              {outcome && (
+                <ul className="space-y-0.5 text-xs text-neutral-700">
+                  {[...new Set(describeOutcome(outcome))].map((line) => (
+                    <li key={line}>{line}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-neutral-700">
+              No rule certainly applies: it depends on the sign-in.
+            </p>
+          )}
+
+          {simulation.undecided.length > 0 && (
+            <AlertMessage
+              message={{
+                text: `Depends on the sign-in: ${simulation.undecided.map(ruleName).join(', ')} ${
+                  matched
+                    ? `${simulation.undecided.length === 1 ? 'comes' : 'come'} first and might apply instead.`
+                    : 'might apply.'
+                }`,
+                type: 'warning',
+              }}
+            />
+          )}
+
+          <ul className="space-y-2" aria-label={`${title} rules`}>
+            {simulation.walked.map((verdict) => (
+              <WalkedRule key={verdict.rule.id} verdict={verdict} />
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+};
+
+/**
+ * Renders the simulator's pickers and, after a run, the two policies' answers.
+ *
+ * @param props - See {@link PolicySimulatorPanelProps}.
+ */
+const PolicySimulatorPanel: React.FC<PolicySimulatorPanelProps> = ({
+  targetTabId,
+  oktaOrigin,
+  isActive = true,
+}) => {
+  const { apps, zones, optionsLoading, optionsError, status, report, error, run } =
+    usePolicySimulator({ targetTabId, oktaOrigin });
+  const search = useUserSearch({ targetTabId, enabled: isActive });
+  const [user, setUser] = useState<NamedRef | null>(null);
+  const [appId, setAppId] = useState('');
+  const [zoneId, setZoneId] = useState(NO_ZONE);
+
+  const app = apps.find((candidate) => candidate.id === appId) ?? null;
+  const zone = zones.find((candidate) => candidate.id === zoneId) ?? null;
+  const running = status === 'running';
+  const ready = user !== null && app !== null && targetTabId != null;
+
+  const simulate = () => {
+    if (user && app) void run({ user, app, zone });
+  };
+
+  return (
+    <div className="space-y-4" aria-label="Policy simulator">
+      <p className="text-sm text-neutral-600">
+        Walks the global session policy and the app&apos;s sign-in policy in priority order, and
+        shows which rule this user meets and why.
+      </p>
+
+      {optionsError && (
+        <AlertMessage
+          message={{
+            text: `Apps or network zones could not be read: ${optionsError}`,
+            type: 'warning',
+          }}
+        />
+      )}
+
+      {user ? (
+        <div className="flex items-center justify-between gap-3 rounded-md border border-neutral-200 bg-white px-3 py-2">
+          <span className="text-sm text-neutral-900">
+            User: <strong>{user.name}</strong>
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => setUser(null)}>
+            Change
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Input
+            value={search.searchQuery}
+            onChange={search.setSearchQuery}
+            type="search"
+            icon={<Icon type="search" size="md" />}
+            ariaLabel="Search for a user"
+            placeholder="Search for a user by name, login or email…"
+            disabled={targetTabId == null}
+          />
+          {search.isSearching && <p className="text-xs text-neutral-500">Searching…</p>}
+          {search.error && <p className="text-xs text-danger-text">{search.error}</p>}
+          <UserSearchResults
+            results={search.searchResults}
+            onSelectUser={(picked) => {
+              setUser({ id: picked.id, name: userDisplayName(picked) });
+              search.clearSearch();
+            }}
+          />
+        </div>
+      )}
+
+      <Select
+        label="App"
+        value={appId}
+        onChange={setAppId}
+        disabled={optionsLoading}
+        options={[
+          { value: '', label: optionsLoading ? 'Loading apps…' : 'Choose an app…' },
+          ...apps.map((candidate) => ({ value: candidate.id, label: candidate.name })),
+        ]}
+      />
+      <Select
+        label="Signing in from"
+        value={zoneId}
+        onChange={setZoneId}
+        disabled={optionsLoading}
+        options={[
+          { value: NO_ZONE, label: 'An IP in no network zone' },
+          ...zones.map((candidate) => ({ value: candidate.id, label: candidate.name })),
+        ]}
+      />
+
+      <Button
+        variant="primary"
+        icon="shield"
+        disabled={!ready || running}
+        loading={running}
+        onClick={simulate}
+      >
+        Simulate
+      </Button>
+
+      {running && !report && (
+        <Skeleton variant="row" size="lg" count={3} label="Reading policies…" />
+      )}
+      {status === 'error' && error && (
+        <AlertMessage
+          message={{ text: `The simulation could not run: ${error}`, type: 'danger' }}
+          action={{ label: 'Retry', onClick: simulate }}
+        />
+      )}
+
+      {report && (
+        <div className="space-y-3" aria-label="Simulation result">
+          <p className="text-xs text-neutral-600">
+            {report.user.name} signing in to {report.app.app.name} from{' '}
+            {report.zone ? report.zone.name : 'an IP in no network zone'}.
+          </p>
+          <PolicyResult
+            title="Global session policy"
+            policy={
+              report.session.selection.policy && {
+                id: report.session.selection.policy.id,
+                name: report.session.selection.policy.name ?? report.session.selection.policy.id,
+              }
+            }
+            note={report.session.selection.reason}
+            simulation={report.session.simulation}
+          />
+          {report.session.selection.undecided.length > 0 && (
+            <AlertMessage
+              message={{
+                text: `The assignment of ${report.session.selection.undecided
+                  .map((policy) => policy.name ?? policy.id)
+                  .join(', ')} could not be read; it may apply instead.`,
+                type: 'warning',
+              }}
+            />
+          )}
+          <PolicyResult
+            title="App sign-in policy"
+            policy={report.app.policy}
+            note={report.app.policy ? undefined : 'The app has no authentication policy link'}
+            simulation={report.app.simulation}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PolicySimulatorPanel;
@@ -0,0 +1,53 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import ScheduleReportModal from './ScheduleReportModal';
+
+/** Name a report and pick when it runs. */
+const meta = {
+  title: 'Reports/ScheduleReportModal',
+  component: ScheduleReportModal,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Schedules an Export preset or a clutter watch to run daily or weekly at a local hour. ' +
+          'The service worker runs it through an open Okta tab and notifies when it finishes ' +
+          '(an export) or when a group enters the watched category (a watch).',
+      },
+    },
+  },
+  args: {
+    isOpen: true,
+    onClose: fn(),
+    onSave: fn(async () => true),
+    defaultName: 'Offboarding audit — Contractors',
+    job: {
+      kind: 'export',
+      descriptorId: 'group-memberships',
+      descriptorName: 'Group Memberships',
+      enabledColumnIds: ['id', 'email', 'status'],
+      contextId: '00gFAKE1',
+      contextLabel: 'Contractors',
+    },
+  },
+} satisfies Meta<typeof ScheduleReportModal>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** An Export preset scoped to one group. */
+export const ExportPreset: Story = {};
+
+/** A clutter watch — the category is picked here. */
+export const ClutterWatch: Story = {
+  args: {
+    defaultName: 'Groups that became empty',
+    job: { kind: 'clutter', category: 'empty' },
+  },
+};
+
+/** The store refused the save. */
+export const SaveFails: Story = {
+  args: { onSave: fn(async () => false) },
+};
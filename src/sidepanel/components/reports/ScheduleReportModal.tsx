@@ -0,0 +1,156 @@
+/**
+ * @module sidepanel/components/reports/ScheduleReportModal
+ * @description Schedule a report: name it and pick when it runs — daily or on one
+ * weekday, at a local hour. A clutter watch also picks the category it watches.
+ *
+ * Opened from the Export tab with the applied preset as the job, and from the
+ * Groups tab's cleanup triage as a clutter watch. The form is local and seeded
+ * from the props once, so mount it only while it is open. Saving goes through
+ * {@link sidepanel/hooks/useScheduledReports.useScheduledReports}.
+ */
+import React, { useState } from 'react';
+import Modal from '../shared/Modal';
+import Button from '../shared/Button';
+import Input from '../shared/Input';
+import Select from '../shared/Select';
+import AlertMessage from '../shared/AlertMessage';
+import {
+  CLUTTER_WATCH_LABELS,
+  WEEKDAY_NAMES,
+  describeCadence,
+  describeJob,
+  type ClutterWatchCategory,
+  type ReportCadence,
+  type ScheduledReportJob,
+} from '../../../shared/reports/scheduledReports';
+
+const HOUR_OPTIONS = Array.from({ length: 24 }, (_, hour) => ({
+  value: String(hour),
+  label: `${String(hour).padStart(2, '0')}:00`,
+}));
+
+const WEEKDAY_OPTIONS = WEEKDAY_NAMES.map((name, day) => ({ value: String(day), label: name }));
+
+const CATEGORY_OPTIONS = (Object.keys(CLUTTER_WATCH_LABELS) as ClutterWatchCategory[]).map(
+  (category) => ({ value: category, label: CLUTTER_WATCH_LABELS[category] }),
+);
+
+/** Props for {@link ScheduleReportModal}. */
+interface ScheduleReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** What the report runs; a clutter watch's category can be changed here. */
+  job: ScheduledReportJob;
+  /** The name the field starts with. */
+  defaultName: string;
+  /** Save the report. Resolves `false` when it could not be stored. */
+  onSave: (input: {
+    name: string;
+    job: ScheduledReportJob;
+    cadence: ReportCadence;
+  }) => Promise<boolean>;
+}
+
+/**
+ * Renders the schedule form for one job.
+ */
+const ScheduleReportModal: React.FC<ScheduleReportModalProps> = ({
+  isOpen,
+  onClose,
+  job: initialJob,
+  defaultName,
+  onSave,
+}) => {
+  const [name, setName] = useState(defaultName);
+  const [job, setJob] = useState(initialJob);
+  const [kind, setKind] = useState<ReportCadence['kind']>('weekly');
+  const [weekday, setWeekday] = useState(1);
+  const [hour, setHour] = useState(8);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cadence: ReportCadence =
+    kind === 'daily' ? { kind: 'daily', hour } : { kind: 'weekly', weekday, hour };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    const saved = await onSave({ name, job, cadence });
+    setIsSaving(false);
+    if (saved) onClose();
+    else setError('The report could not be saved.');
+  };
+
+  const footer = (
+    <>
+      <Button variant="secondary" onClick={onClose} disabled={isSaving}>
+        Cancel
+      </Button>
+      <Button
+        variant="primary"
+        icon="clock"
+        onClick={handleSave}
+        disabled={!name.trim()}
+        loading={isSaving}
+      >
+        Schedule
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Schedule a report" size="md" footer={footer}>
+      <div className="space-y-4">
+        <p className="text-sm text-neutral-600">{describeJob(job)}</p>
+
+        <Input label="Name" value={name} onChange={setName} placeholder="Name this report" />
+
+        {job.kind === 'clutter' && (
+          <Select
+            label="Tell me when a group enters"
+            value={job.category}
+            onChange={(value) =>
+              setJob({ kind: 'clutter', category: value as ClutterWatchCategory })
+            }
+            options={CATEGORY_OPTIONS}
+          />
+        )}
+
+        <div className="grid grid-cols-3 gap-3">
+          <Select
+            label="Runs"
+            value={kind}
+            onChange={(value) => setKind(value as ReportCadence['kind'])}
+            options={[
+              { value: 'daily', label: 'Daily' },
+              { value: 'weekly', label: 'Weekly' },
+            ]}
+          />
+          {kind === 'weekly' && (
+            <Select
+              label="On"
+              value={String(weekday)}
+              onChange={(value) => setWeekday(Number(value))}
+              options={WEEKDAY_OPTIONS}
+            />
+          )}
+          <Select
+            label="At"
+            value={String(hour)}
+            onChange={(value) => setHour(Number(value))}
+            options={HOUR_OPTIONS}
+          />
+        </div>
+
+        <p className="text-xs text-neutral-500">
+          {describeCadence(cadence)}, through an open Okta tab. With none open the run is skipped
+          and you are notified.
+        </p>
+
+        {error && <AlertMessage message={{ type: 'danger', text: error }} />}
+      </div>
+    </Modal>
+  );
+};
+
+export default ScheduleReportModal;
@@ -0,0 +1,103 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import ScheduledReportsPanel from './ScheduledReportsPanel';
+import type { ScheduledReportEntry } from '../../hooks/useScheduledReports';
+
+const entries: ScheduledReportEntry[] = [
+  {
+    report: {
+      id: 'rep-1',
+      name: 'Contractors members',
+      job: {
+        kind: 'export',
+        descriptorId: 'group-memberships',
+        descriptorName: 'Group Memberships',
+        enabledColumnIds: ['id', 'email'],
+        contextId: '00gFAKE1',
+        contextLabel: 'Contractors',
+      },
+      cadence: { kind: 'weekly', weekday: 1, hour: 9 },
+      origin: 'https://example.okta.com',
+      createdAt: new Date('2026-09-01T09:00:00Z'),
+      nextRunAt: new Date('2026-10-26T09:00:00Z').getTime(),
+      version: 1,
+    },
+    lastRun: {
+      id: 'run-1',
+      reportId: 'rep-1',
+      startedAt: new Date('2026-10-19T09:00:00Z'),
+      finishedAt: new Date('2026-10-19T09:00:04Z'),
+      status: 'success',
+      summary: '212 rows exported',
+      rowCount: 212,
+      csv: 'id,email\n',
+    },
+  },
+  {
+    report: {
+      id: 'rep-2',
+      name: 'Groups that became empty',
+      job: { kind: 'clutter', category: 'empty' },
+      cadence: { kind: 'daily', hour: 8 },
+      origin: 'https://example.okta.com',
+      createdAt: new Date('2026-09-02T09:00:00Z'),
+      nextRunAt: new Date('2026-10-20T08:00:00Z').getTime(),
+      version: 1,
+    },
+    lastRun: {
+      id: 'run-2',
+      reportId: 'rep-2',
+      startedAt: new Date('2026-10-19T08:00:00Z'),
+      finishedAt: new Date('2026-10-19T08:00:00Z'),
+      status: 'skipped',
+      summary: 'No Okta tab was open, so the report did not run. Next: Daily at 08:00.',
+    },
+  },
+  {
+    report: {
+      id: 'rep-3',
+      name: 'Stale groups',
+      job: { kind: 'clutter', category: 'stale' },
+      cadence: { kind: 'weekly', weekday: 5, hour: 17 },
+      origin: 'https://example.okta.com',
+      createdAt: new Date('2026-10-18T09:00:00Z'),
+      nextRunAt: new Date('2026-10-23T17:00:00Z').getTime(),
+      version: 1,
+    },
+    lastRun: null,
+  },
+];
+
+/** The scheduled reports on the Export tab's hub. */
+const meta = {
+  title: 'Reports/ScheduledReportsPanel',
+  component: ScheduledReportsPanel,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Each report with what it runs, its cadence and next run, and its last run — with ' +
+          'Run now, the last export CSV, and delete. Renders nothing when there are no reports.',
+      },
+    },
+  },
+  args: {
+    entries,
+    runningIds: new Set<string>(),
+    onRunNow: fn(),
+    onDelete: fn(),
+    onDownload: fn(),
+  },
+} satisfies Meta<typeof ScheduledReportsPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** An export that ran, a skipped watch, and a watch not run yet. */
+export const Default: Story = {};
+
+/** A "Run now" is in flight. */
+export const Running: Story = {
+  args: { runningIds: new Set(['rep-1']) },
+};
@@ -0,0 +1,128 @@
+/**
+ * @module sidepanel/components/reports/ScheduledReportsPanel
+ * @description The admin's scheduled reports: what each runs, when it next runs,
+ * and how its last run went — with "Run now", the last export's CSV, and delete.
+ *
+ * Shown on the Export tab's entity hub. Presentational;
+ * {@link sidepanel/hooks/useScheduledReports.useScheduledReports} owns the list.
+ */
+import React from 'react';
+import Badge, { type BadgeVariant } from '../shared/Badge';
+import Button from '../shared/Button';
+import {
+  describeCadence,
+  describeJob,
+  type ScheduledReport,
+  type ScheduledReportRun,
+} from '../../../shared/reports/scheduledReports';
+import type { ScheduledReportEntry } from '../../hooks/useScheduledReports';
+
+const STATUS_BADGE: Record<ScheduledReportRun['status'], { label: string; variant: BadgeVariant }> =
+  {
+    success: { label: 'Ran', variant: 'success' },
+    failed: { label: 'Failed', variant: 'danger' },
+    skipped: { label: 'Skipped', variant: 'warning' },
+  };
+
+/** Props for {@link ScheduledReportsPanel}. */
+interface ScheduledReportsPanelProps {
+  entries: ScheduledReportEntry[];
+  /** Reports a "Run now" is waiting on. */
+  runningIds: ReadonlySet<string>;
+  onRunNow: (id: string) => void;
+  onDelete: (id: string) => void;
+  onDownload: (report: ScheduledReport, run: ScheduledReportRun) => void;
+}
+
+/** `Mon 14 Oct, 09:00` in the browser's locale. */
+function formatWhen(time: number | Date): string {
+  return new Date(time).toLocaleString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Renders the scheduled-report list, or nothing when there are none.
+ */
+const ScheduledReportsPanel: React.FC<ScheduledReportsPanelProps> = ({
+  entries,
+  runningIds,
+  onRunNow,
+  onDelete,
+  onDownload,
+}) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-neutral-200 bg-white p-4 space-y-3">
+      <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">
+        Scheduled reports
+      </div>
+
+      <ul className="divide-y divide-neutral-100">
+        {entries.map(({ report, lastRun }) => (
+          <li key={report.id} className="py-3 first:pt-0 last:pb-0 space-y-1.5">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-neutral-900 truncate">{report.name}</div>
+                <div className="text-xs text-neutral-500">
+                  {describeJob(report.job)} · {describeCadence(report.cadence)} · next{' '}
+                  {formatWhen(report.nextRunAt)}
+                </div>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                {lastRun?.csv && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    icon="download"
+                    onClick={() => onDownload(report, lastRun)}
+                    title="Download the last run's CSV"
+                  >
+                    CSV
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  icon="refresh"
+                  onClick={() => onRunNow(report.id)}
+                  loading={runningIds.has(report.id)}
+                >
+                  Run now
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  icon="trash"
+                  onClick={() => onDelete(report.id)}
+                  title="Delete this report and its runs"
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+
+            {lastRun ? (
+              <div className="flex items-center gap-2 text-xs text-neutral-600">
+                <Badge variant={STATUS_BADGE[lastRun.status].variant}>
+                  {STATUS_BADGE[lastRun.status].label}
+                </Badge>
+                <span className="text-neutral-500">{formatWhen(lastRun.startedAt)}</span>
+                <span className="truncate">{lastRun.summary}</span>
+              </div>
+            ) : (
+              <div className="text-xs text-neutral-500">Not run yet</div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ScheduledReportsPanel;
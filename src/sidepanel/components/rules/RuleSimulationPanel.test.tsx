@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import RuleSimulationPanel from './RuleSimulationPanel';
+import type { UseRuleSimulationReturn } from '../../hooks/useRuleSimulation';
+
+const EXPRESSION = 'user.department == "Sales"';
+
+function makeSimulation(overrides: Partial<UseRuleSimulationReturn> = {}): UseRuleSimulationReturn {
+  return {
+    status: 'done',
+    loaded: 3,
+    result: {
+      rows: [],
+      summary: {
+        total: 3,
+        matched: 1,
+        noMatch: 2,
+        unevaluable: 0,
+        starts: 1,
+        stops: 0,
+        unknownChange: 0,
+        unevaluableReasons: [],
+      },
+    },
+    simulatedExpression: EXPRESSION,
+    compared: false,
+    error: null,
+    run: vi.fn(async () => {}),
+    cancel: vi.fn(),
+    exportCohort: vi.fn(async () => {}),
+    reset: vi.fn(),
+    ...overrides,
+  };
+}
+
+describe('RuleSimulationPanel', () => {
+  it('runs the draft with the given baseline options', async () => {
+    const simulation = makeSimulation({ status: 'idle', result: null, simulatedExpression: null });
+    const options = { baseline: 'user.department == "Eng"' };
+    render(
+      <RuleSimulationPanel simulation={simulation} expression={EXPRESSION} options={options} />,
+    );
+
+    await userEvent.click(screen.getByRole('button', { name: /simulate across the org/i }));
+    expect(simulation.run).toHaveBeenCalledWith(EXPRESSION, options);
+  });
+
+  it('shows the cohorts and exports one', async () => {
+    const simulation = makeSimulation();
+    render(<RuleSimulationPanel simulation={simulation} expression={EXPRESSION} />);
+
+    expect(screen.getByText('would match')).toBeInTheDocument();
+    expect(screen.queryByText('would start matching')).not.toBeInTheDocument();
+    await userEvent.click(screen.getByTitle('Export users who would not match as CSV'));
+    expect(simulation.exportCohort).toHaveBeenCalledWith('no-match');
+  });
+
+  it('shows who starts and stops matching when compared', () => {
+    render(
+      <RuleSimulationPanel
+        simulation={makeSimulation({ compared: true })}
+        expression={EXPRESSION}
+      />,
+    );
+    expect(screen.getByText('would start matching')).toBeInTheDocument();
+  });
+
+  it('flags a result computed for an earlier condition', () => {
+    render(<RuleSimulationPanel simulation={makeSimulation()} expression="user.title == 'x'" />);
+    expect(screen.getByText(/condition has changed/i)).toBeInTheDocument();
+  });
+
+  it('offers Cancel while running', async () => {
+    const simulation = makeSimulation({ status: 'running', result: null });
+    render(<RuleSimulationPanel simulation={simulation} expression={EXPRESSION} />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(simulation.cancel).toHaveBeenCalled();
+  });
+});
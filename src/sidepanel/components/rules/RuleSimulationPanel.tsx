@@ -0,0 +1,167 @@
+/**
+ * @module sidepanel/components/rules/RuleSimulationPanel
+ * @description The authoring workbench's org-wide "what-if" section.
+ *
+ * Runs the draft condition against every user in the org on request, then shows
+ * the three outcome cohorts — and, when a rule is being edited, who would start
+ * or stop matching — each with a CSV export. State and I/O live in
+ * `useRuleSimulation`; this is a view.
+ */
+import React from 'react';
+import Button from '../shared/Button';
+import LoadingSpinner from '../shared/LoadingSpinner';
+import type { UseRuleSimulationReturn } from '../../hooks/useRuleSimulation';
+import type {
+  RuleSimulationCohort,
+  RuleSimulationOptions,
+} from '../../../shared/membership/ruleSimulation';
+import { unevaluableReasonText } from '../../../shared/rules/unevaluableReasonText';
+
+/** Props for {@link RuleSimulationPanel}. */
+interface RuleSimulationPanelProps {
+  /** The simulation state and controls from `useRuleSimulation`. */
+  simulation: UseRuleSimulationReturn;
+  /** The draft condition to simulate. */
+  expression: string;
+  /** Baseline condition and exclusions of the rule being edited, if any. */
+  options?: RuleSimulationOptions;
+  /** The draft does not parse; nothing to simulate yet. */
+  disabled?: boolean;
+}
+
+/** One cohort count with its export action. */
+const CohortRow: React.FC<{
+  label: string;
+  count: number;
+  cohort: RuleSimulationCohort;
+  onExport: (cohort: RuleSimulationCohort) => void;
+}> = ({ label, count, cohort, onExport }) => (
+  <li className="flex items-center justify-between gap-2 text-sm">
+    <span className="text-neutral-700">
+      <span className="font-semibold text-neutral-900">{count}</span> {label}
+    </span>
+    <Button
+      variant="ghost"
+      size="sm"
+      icon="download"
+      onClick={() => onExport(cohort)}
+      disabled={count === 0}
+      title={`Export users who ${label} as CSV`}
+    >
+      CSV
+    </Button>
+  </li>
+);
+
+/** Renders the org-wide simulation across its states. */
+const RuleSimulationPanel: React.FC<RuleSimulationPanelProps> = ({
+  simulation,
+  expression,
+  options,
+  disabled = false,
+}) => {
+  const { status, loaded, result, simulatedExpression, compared } = simulation;
+  const stale = result !== null && simulatedExpression !== expression;
+
+  const runButton = (
+    <Button
+      variant="secondary"
+      size="sm"
+      icon="users"
+      onClick={() => void simulation.run(expression, options)}
+      disabled={disabled}
+    >
+      {result ? 'Run again' : 'Simulate across the org'}
+    </Button>
+  );
+
+  if (status === 'running') {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <LoadingSpinner size="sm" message={`Read ${loaded} users…`} />
+        <Button variant="secondary" size="sm" onClick={simulation.cancel}>
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {status === 'error' && (
+        <p className="text-sm text-danger-text">{simulation.error || 'Simulation failed.'}</p>
+      )}
+
+      {result && (
+        <>
+          {stale && (
+            <p className="text-xs text-warning-text">
+              The condition has changed since this ran. Run it again to update.
+            </p>
+          )}
+          <ul className="space-y-1">
+            <CohortRow
+              label="would match"
+              count={result.summary.matched}
+              cohort="match"
+              onExport={simulation.exportCohort}
+            />
+            <CohortRow
+              label="would not match"
+              count={result.summary.noMatch}
+              cohort="no-match"
+              onExport={simulation.exportCohort}
+            />
+            <CohortRow
+              label="could not be evaluated here"
+              count={result.summary.unevaluable}
+              cohort="unevaluable"
+              onExport={simulation.exportCohort}
+            />
+          </ul>
+
+          {compared && (
+            <ul className="space-y-1 border-t border-neutral-200 pt-2">
+              <CohortRow
+                label="would start matching"
+                count={result.summary.starts}
+                cohort="starts"
+                onExport={simulation.exportCohort}
+              />
+              <CohortRow
+                label="would stop matching"
+                count={result.summary.stops}
+                cohort="stops"
+                onExport={simulation.exportCohort}
+              />
+              {result.summary.unknownChange > 0 && (
+                <li className="text-xs text-neutral-500">
+                  {result.summary.unknownChange} users cannot be compared because one of the
+                  conditions could not be evaluated for them.
+                </li>
+              )}
+            </ul>
+          )}
+
+          {result.summary.unevaluableReasons.length > 0 && (
+            <ul className="space-y-0.5">
+              {result.summary.unevaluableReasons.map(({ reasonCode, count }) => (
+                <li key={reasonCode} className="text-xs text-neutral-500">
+                  {count} × {unevaluableReasonText(reasonCode)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      {runButton}
+      <p className="text-xs text-neutral-400">
+        Reads every user in the org, without their group lists. Large orgs take a while; you can
+        cancel at any time.
+      </p>
+    </div>
+  );
+};
+
+export default RuleSimulationPanel;
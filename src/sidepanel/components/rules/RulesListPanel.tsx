@@ -44,6 +44,12 @@ interface RulesListPanelProps {
   onPreviewImpact: (rule: FormattedRule) => void;
   /** Start the "add target group" consolidation for a rule (A4). */
   onAddTargetGroup: (rule: FormattedRule) => void;
+  /** Open a rule in the authoring workbench. Omitted, cards offer no edit action. */
+  onEdit?: (rule: FormattedRule) => void;
+  /** Ask to delete a rule (confirmed upstream). Omitted, cards offer no delete action. */
+  onDelete?: (rule: FormattedRule) => void;
+  /** Open a rule's System Log. Omitted, cards offer no log action. */
+  onViewLog?: (rule: FormattedRule) => void;
   /** Okta origin for each card's "View in Okta" link. */
   oktaOrigin?: string | null;
   /** Rule id to highlight/scroll to (deep-link target). */
@@ -60,6 +66,9 @@ const RulesListPanel: React.FC<RulesListPanelProps> = ({
   onDeactivate,
   onPreviewImpact,
   onAddTargetGroup,
+  onEdit,
+  onDelete,
+  onViewLog,
   oktaOrigin,
   selectedRuleId,
 }) => {
@@ -102,6 +111,9 @@ const RulesListPanel: React.FC<RulesListPanelProps> = ({
                   onDeactivate={onDeactivate}
                   onPreviewImpact={onPreviewImpact}
                   onAddTargetGroup={onAddTargetGroup}
+                  onEdit={onEdit}
+                  onDelete={onDelete}
+                  onViewLog={onViewLog}
                   oktaOrigin={oktaOrigin}
                   isHighlighted={selectedRuleId === rule.id}
                 />
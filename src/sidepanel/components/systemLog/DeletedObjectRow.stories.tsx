@@ -0,0 +1,68 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import DeletedObjectRow from './DeletedObjectRow';
+
+/** One recently deleted object, as the System Log recorded it. */
+const meta = {
+  title: 'Logs/DeletedObjectRow',
+  component: DeletedObjectRow,
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <ul className="max-w-md">
+        <Story />
+      </ul>
+    ),
+  ],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Kind, name, id, who and when. A rule this browser deleted offers Re-create; anything ' +
+          'else says why the log is not enough to bring it back.',
+      },
+    },
+  },
+  args: {
+    object: {
+      kind: 'rule',
+      change: 'deleted',
+      id: '0prFAKE1',
+      name: 'Sales → CRM',
+      published: '2026-03-02T11:00:00.000Z',
+      eventType: 'group.rule.delete',
+      actor: 'admin@example.com',
+      result: 'SUCCESS',
+      otherTargets: [{ id: '00gFAKE1', type: 'UserGroup', name: 'Sales' }],
+    },
+    recreatable: true,
+    onRecreate: fn(),
+  },
+} satisfies Meta<typeof DeletedObjectRow>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** A rule deleted from this browser: it can come back. */
+export const RecreatableRule: Story = {};
+
+/** A rule deleted elsewhere: the log has its name only. */
+export const RuleWithoutSnapshot: Story = { args: { recreatable: false } };
+
+/** A deactivated app. */
+export const DeactivatedApp: Story = {
+  args: {
+    recreatable: false,
+    object: {
+      kind: 'app',
+      change: 'deactivated',
+      id: '0oaFAKE1',
+      name: 'Team Wiki',
+      published: '2026-03-01T09:15:00.000Z',
+      eventType: 'application.lifecycle.deactivate',
+      actor: 'Alan Turing',
+      result: 'SUCCESS',
+      otherTargets: [],
+    },
+  },
+};
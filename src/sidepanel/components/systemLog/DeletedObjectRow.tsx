@@ -0,0 +1,87 @@
+/**
+ * @module sidepanel/components/systemLog/DeletedObjectRow
+ * @description One recently deleted object, as the System Log recorded it: its
+ * kind, name and id, who deleted it and when, and any other targets the event
+ * named.
+ *
+ * A deleted rule this browser holds a snapshot of offers **Re-create**; anything
+ * else says why it cannot come back (`NOT_RECREATABLE`). Names are tenant data,
+ * rendered through React's escaping. This component logs nothing.
+ */
+import React from 'react';
+import { Badge, Button, ListRow } from '../shared';
+import {
+  NOT_RECREATABLE,
+  type DeletedObject,
+  type DeletedObjectKind,
+} from '../../../shared/systemLog/deletedObjects';
+import { formatDate, getRelativeTime } from '../../../shared/utils/dateFormat';
+
+/** Props for {@link DeletedObjectRow}. */
+interface DeletedObjectRowProps {
+  object: DeletedObject;
+  /** Whether a snapshot to re-create it from is held; only ever true for a rule. */
+  recreatable: boolean;
+  /** Arm the re-create; called only when `recreatable`. */
+  onRecreate: (object: DeletedObject) => void;
+  /** Disables Re-create while another one runs. */
+  disabled?: boolean;
+}
+
+const KIND_LABELS: Record<DeletedObjectKind, string> = {
+  group: 'Group',
+  rule: 'Rule',
+  user: 'User',
+  app: 'App',
+};
+
+/** Renders one deleted object as a compact list row. */
+const DeletedObjectRow: React.FC<DeletedObjectRowProps> = ({
+  object,
+  recreatable,
+  onRecreate,
+  disabled = false,
+}) => (
+  <ListRow as="li" density="compact">
+    <div className="space-y-1 text-xs">
+      <div className="flex items-start justify-between gap-2">
+        <span className="font-medium text-neutral-900">{object.name}</span>
+        <span className="flex shrink-0 items-center gap-1">
+          <Badge variant="neutral">{KIND_LABELS[object.kind]}</Badge>
+          <Badge variant={object.change === 'deleted' ? 'danger' : 'warning'}>
+            {object.change === 'deleted' ? 'Deleted' : 'Deactivated'}
+          </Badge>
+        </span>
+      </div>
+      <div className="font-mono text-neutral-500">{object.id}</div>
+      <div className="text-neutral-600">
+        <time dateTime={object.published} title={formatDate(object.published)}>
+          {getRelativeTime(object.published) ?? formatDate(object.published)}
+        </time>
+        {object.actor && <> · by {object.actor}</>}
+        {object.result && object.result !== 'SUCCESS' && <> · {object.result}</>}
+      </div>
+      {object.otherTargets.length > 0 && (
+        <div className="text-neutral-600">
+          Also named:{' '}
+          {object.otherTargets.map((t) => `${t.name}${t.type ? ` (${t.type})` : ''}`).join(', ')}
+        </div>
+      )}
+      {recreatable ? (
+        <Button
+          variant="secondary"
+          size="sm"
+          icon="refresh"
+          onClick={() => onRecreate(object)}
+          disabled={disabled}
+        >
+          Re-create
+        </Button>
+      ) : (
+        <div className="text-neutral-500">{NOT_RECREATABLE[object.kind]}</div>
+      )}
+    </div>
+  </ListRow>
+);
+
+export default DeletedObjectRow;
@@ -0,0 +1,90 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import DeletedObjectsPanel from './DeletedObjectsPanel';
+import { useOktaApi, makeUseOktaApiValue } from '../../../../.storybook/mocks/useOktaApi.mock';
+import type { DeletedObject } from '../../../shared/systemLog/deletedObjects';
+
+/** A few obviously-fake deletions. */
+const sampleObjects: DeletedObject[] = [
+  {
+    kind: 'rule',
+    change: 'deleted',
+    id: '0prFAKE1',
+    name: 'Sales → CRM',
+    published: '2026-03-02T11:00:00.000Z',
+    eventType: 'group.rule.delete',
+    actor: 'admin@example.com',
+    result: 'SUCCESS',
+    otherTargets: [],
+  },
+  {
+    kind: 'group',
+    change: 'deleted',
+    id: '00gFAKE2',
+    name: 'Contractors',
+    published: '2026-03-01T16:20:00.000Z',
+    eventType: 'group.lifecycle.delete',
+    actor: 'Alan Turing',
+    result: 'SUCCESS',
+    otherTargets: [],
+  },
+  {
+    kind: 'user',
+    change: 'deleted',
+    id: '00uFAKE3',
+    name: 'grace.hopper@example.com',
+    published: '2026-02-27T08:05:00.000Z',
+    eventType: 'user.lifecycle.delete.completed',
+    actor: 'admin@example.com',
+    result: 'SUCCESS',
+    otherTargets: [],
+  },
+];
+
+/**
+ * The Logs tab's Recently deleted view. Rules deleted from this browser can be
+ * re-created; the story's history is empty, so none is offered here.
+ */
+const meta = {
+  title: 'Logs/DeletedObjectsPanel',
+  component: DeletedObjectsPanel,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Org-wide deletions in a range, rebuilt from `GET /api/v1/logs` deletion events. ' +
+          'Each row says what the log kept; a rule is re-creatable only from the snapshot this ' +
+          'browser took when it deleted it.',
+      },
+    },
+  },
+  args: { targetTabId: 1, isActive: true },
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({
+        getRecentDeletions: fn(async () => ({ objects: sampleObjects, truncated: false })),
+      }),
+    );
+  },
+} satisfies Meta<typeof DeletedObjectsPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Three deletions in the last 30 days. */
+export const Default: Story = {};
+
+/** Nothing deleted in the range. */
+export const Empty: Story = {
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({
+        getRecentDeletions: fn(async () => ({ objects: [], truncated: false })),
+      }),
+    );
+  },
+};
+
+/** No Okta tab connected. */
+export const Disconnected: Story = { args: { targetTabId: undefined } };
@@ -0,0 +1,136 @@
+/**
+ * Behavioral tests for the Logs tab's recently-deleted view.
+ *
+ * Drives the real `DeletedObjectsPanel`, `useDeletedObjects` and `useUndoAction`
+ * against a stubbed `useOktaApi` and action history, pinning: the deletions are
+ * listed with why each cannot come back, a rule this browser deleted is
+ * re-created only after its confirmation and is audited, and a new range
+ * re-reads the log.
+ *
+ * Fixtures use only fake placeholders (`00gFAKE…`, `0prFAKE…`, `example.com`).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { DeletedObject } from '../../../shared/systemLog/deletedObjects';
+import type { UndoAction } from '../../../shared/undoTypes';
+
+// One stable stub object, like the memoized real facade.
+const api = vi.hoisted(() => ({
+  getRecentDeletions: vi.fn(),
+  makeApiRequest: vi.fn(),
+  createGroupRule: vi.fn(),
+  activateGroupRule: vi.fn(),
+}));
+const history = vi.hoisted(() => ({ actions: [] as unknown[], maxSize: 50 }));
+
+vi.mock('../../hooks/useOktaApi', () => ({ useOktaApi: () => api }));
+vi.mock('../../../shared/undoManager', () => ({
+  getUndoHistory: vi.fn(async () => history),
+  logRuleRestoreAction: vi.fn(async () => ({ id: 'act-restore' })),
+  markActionUndone: vi.fn(async () => true),
+}));
+vi.mock('../../../shared/storage/auditStore', () => ({
+  auditStore: { logOperation: vi.fn().mockResolvedValue(undefined) },
+}));
+
+import DeletedObjectsPanel from './DeletedObjectsPanel';
+import { auditStore } from '../../../shared/storage/auditStore';
+
+const deleted = (kind: DeletedObject['kind'], id: string, name: string): DeletedObject => ({
+  kind,
+  change: 'deleted',
+  id,
+  name,
+  published: '2026-03-02T11:00:00.000Z',
+  eventType: kind === 'rule' ? 'group.rule.delete' : 'group.lifecycle.delete',
+  actor: 'admin@example.com',
+  result: 'SUCCESS',
+  otherTargets: [],
+});
+
+const ruleDelete: UndoAction = {
+  id: 'act-1',
+  type: 'DELETE_RULE',
+  timestamp: 0,
+  description: 'Deleted rule Sales',
+  status: 'completed',
+  metadata: {
+    type: 'DELETE_RULE',
+    rule: {
+      id: '0prFAKE1',
+      name: 'Sales',
+      expression: 'user.department=="Sales"',
+      groupIds: ['00gFAKE1'],
+      status: 'INACTIVE',
+    },
+  },
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  history.actions = [ruleDelete];
+  api.getRecentDeletions.mockResolvedValue({
+    objects: [
+      deleted('rule', '0prFAKE1', 'Sales'),
+      deleted('rule', '0prFAKE9', 'Elsewhere'),
+      deleted('group', '00gFAKE2', 'Contractors'),
+    ],
+    truncated: false,
+  });
+  api.makeApiRequest.mockResolvedValue({
+    success: true,
+    data: { profile: { email: 'admin@example.com' } },
+  });
+  api.createGroupRule.mockResolvedValue({
+    success: true,
+    rule: { id: '0prFAKENEW', name: 'Sales' },
+  });
+});
+
+describe('DeletedObjectsPanel', () => {
+  it('lists the deletions and says why each one without a snapshot cannot come back', async () => {
+    render(<DeletedObjectsPanel targetTabId={1} isActive />);
+
+    const list = await screen.findByRole('list', { name: 'Recently deleted objects' });
+    const rows = within(list).getAllByRole('listitem');
+    expect(rows).toHaveLength(3);
+    expect(within(rows[0]).getByRole('button', { name: 'Re-create' })).toBeInTheDocument();
+    expect(within(rows[1]).queryByRole('button', { name: 'Re-create' })).not.toBeInTheDocument();
+    expect(within(rows[1]).getByText(/does not keep a rule’s condition/)).toBeInTheDocument();
+    expect(within(rows[2]).getByText(/keeps only the group’s name/)).toBeInTheDocument();
+    expect(api.getRecentDeletions).toHaveBeenCalledWith('30d');
+  });
+
+  it('re-creates a rule only after it is confirmed, and audits it', async () => {
+    render(<DeletedObjectsPanel targetTabId={1} isActive />);
+
+    await userEvent.click(await screen.findByRole('button', { name: 'Re-create' }));
+    const dialog = await screen.findByRole('dialog');
+    expect(within(dialog).getByText('user.department=="Sales"')).toBeInTheDocument();
+    expect(api.createGroupRule).not.toHaveBeenCalled();
+
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Re-create' }));
+
+    await waitFor(() => expect(api.createGroupRule).toHaveBeenCalledTimes(1));
+    expect(api.createGroupRule.mock.calls[0][0]).toMatchObject({
+      name: 'Sales',
+      actions: { assignUserToGroups: { groupIds: ['00gFAKE1'] } },
+    });
+    expect(await screen.findByText(/The rule was recreated/)).toBeInTheDocument();
+    expect(auditStore.logOperation).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'create_rule', groupName: 'Sales', result: 'success' }),
+    );
+    expect(screen.queryByRole('button', { name: 'Re-create' })).not.toBeInTheDocument();
+  });
+
+  it('re-reads the log for a new range', async () => {
+    render(<DeletedObjectsPanel targetTabId={1} isActive />);
+    await screen.findByRole('list', { name: 'Recently deleted objects' });
+
+    await userEvent.selectOptions(screen.getByRole('combobox', { name: 'Time range' }), '7d');
+
+    expect(api.getRecentDeletions).toHaveBeenLastCalledWith('7d');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @module sidepanel/components/systemLog/DeletedObjectsPanel
+ * @description The Logs tab's **Recently deleted** view: every group, rule and
+ * user deleted — and every app deactivated or deleted — in a range, rebuilt
+ * from the System Log's deletion events.
+ *
+ * Org-wide, whatever the tab's scope. A thin view over {@link useDeletedObjects},
+ * which owns the read and the re-create; each object is a {@link DeletedObjectRow}
+ * and a re-create waits on {@link RecreateRuleModal}.
+ */
+import React from 'react';
+import { AlertMessage, Button, Select } from '../shared';
+import DeletedObjectRow from './DeletedObjectRow';
+import RecreateRuleModal from './RecreateRuleModal';
+import { useDeletedObjects } from '../../hooks/useDeletedObjects';
+import { LOG_RANGES, type LogRangeId } from '../../../shared/systemLog/logQuery';
+
+/** Props for {@link DeletedObjectsPanel}. */
+interface DeletedObjectsPanelProps {
+  /** Chrome tab id of the connected Okta tab; required to read the log. */
+  targetTabId?: number;
+  /** Whether the view is shown; the first read waits for it. */
+  isActive: boolean;
+}
+
+const RANGE_OPTIONS = LOG_RANGES.map((range) => ({ value: range.id, label: range.label }));
+
+/** Renders the recently deleted objects with their range control. */
+const DeletedObjectsPanel: React.FC<DeletedObjectsPanelProps> = ({ targetTabId, isActive }) => {
+  const {
+    objects,
+    range,
+    setRange,
+    isLoading,
+    error,
+    truncated,
+    refresh,
+    snapshotFor,
+    requestRecreate,
+    pending,
+    confirmRecreate,
+    cancelRecreate,
+    isRecreating,
+    notice,
+    clearNotice,
+  } = useDeletedObjects(targetTabId, isActive);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-2">
+        <Select
+          label="Time range"
+          value={range}
+          onChange={(next) => setRange(next as LogRangeId)}
+          options={RANGE_OPTIONS}
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          icon="refresh"
+          onClick={refresh}
+          disabled={isLoading || targetTabId == null}
+          loading={isLoading}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      <p className="text-xs text-neutral-600">
+        Okta keeps no copy of a deleted object. This list is rebuilt from the System Log, which
+        records who deleted what and when, and keeps 90 days.
+      </p>
+
+      {error && <AlertMessage message={{ text: error, type: 'danger' }} />}
+      {notice && <AlertMessage message={notice} onDismiss={clearNotice} />}
+
+      {targetTabId == null && (
+        <p className="text-sm text-neutral-600">Connect to an Okta tab to read its System Log.</p>
+      )}
+
+      {targetTabId != null && !isLoading && !error && objects.length === 0 && (
+        <p className="text-sm text-neutral-600">Nothing was deleted in this range.</p>
+      )}
+
+      {objects.length > 0 && (
+        <ul className="space-y-2" aria-label="Recently deleted objects">
+          {objects.map((object) => (
+            <DeletedObjectRow
+              key={`${object.kind}:${object.id}`}
+              object={object}
+              recreatable={snapshotFor(object) !== undefined}
+              onRecreate={requestRecreate}
+              disabled={isRecreating}
+            />
+          ))}
+        </ul>
+      )}
+
+      {truncated && (
+        <p className="text-xs text-neutral-500">
+          Showing the newest deletions only; older ones in this range were not read.
+        </p>
+      )}
+
+      <RecreateRuleModal
+        pending={pending}
+        onCancel={cancelRecreate}
+        onConfirm={() => void confirmRecreate()}
+      />
+    </div>
+  );
+};
+
+export default DeletedObjectsPanel;
@@ -0,0 +1,85 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import LogEventRow from './LogEventRow';
+import type { OktaLogEvent } from '../../../shared/schemas/okta';
+
+/** A membership add made by an admin. Fake placeholders throughout. */
+const membershipAdd: OktaLogEvent = {
+  uuid: 'evt-fake-1',
+  published: '2026-03-02T11:00:00.000Z',
+  eventType: 'group.user_membership.add',
+  displayMessage: 'Add user to group membership',
+  actor: {
+    id: '00uFAKEADMIN',
+    type: 'User',
+    alternateId: 'admin@example.com',
+    displayName: 'Admin',
+  },
+  target: [
+    { id: '00uFAKE1', type: 'User', alternateId: 'ada.lovelace@example.com', displayName: 'Ada' },
+    { id: '00gFAKE1', type: 'UserGroup', displayName: 'Engineering' },
+  ],
+  outcome: { result: 'SUCCESS' },
+};
+
+/**
+ * One System Log event in the Logs tab.
+ */
+const meta = {
+  title: 'Logs/LogEventRow',
+  component: LogEventRow,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component:
+          "One System Log event: Okta's display message, the raw event type a filter is " +
+          'written against, when, by whom, the targets, and the outcome.',
+      },
+    },
+  },
+  decorators: [
+    (Story) => (
+      <ul>
+        <Story />
+      </ul>
+    ),
+  ],
+  argTypes: {
+    event: { description: 'The validated System Log event.' },
+  },
+  args: { event: membershipAdd },
+} satisfies Meta<typeof LogEventRow>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** A successful membership add. */
+export const Default: Story = {};
+
+/** A denied sign-in with Okta's reason. */
+export const Failure: Story = {
+  args: {
+    event: {
+      uuid: 'evt-fake-2',
+      published: '2026-03-02T10:15:00.000Z',
+      eventType: 'user.session.start',
+      displayMessage: 'User login to Okta',
+      actor: { id: '00uFAKE1', type: 'User', alternateId: 'ada.lovelace@example.com' },
+      target: [],
+      outcome: { result: 'FAILURE', reason: 'INVALID_CREDENTIALS' },
+    },
+  },
+};
+
+/** Okta sent neither a display message nor an actor. */
+export const Sparse: Story = {
+  args: {
+    event: {
+      uuid: 'evt-fake-3',
+      published: '2026-03-01T08:00:00.000Z',
+      eventType: 'group.rule.update',
+      target: [{ id: '0prFAKE1', type: 'GroupRule', displayName: 'Sales → CRM' }],
+    },
+  },
+};
@@ -0,0 +1,68 @@
+/**
+ * @module sidepanel/components/systemLog/LogEventRow
+ * @description One System Log event: what happened, when, who did it, to what,
+ * and whether it worked.
+ *
+ * Okta's `displayMessage` leads because it is the sentence an admin recognises
+ * ("Add user to group membership"); the raw `eventType` sits under it because it
+ * is what a filter is written against. Actor and target names are tenant data,
+ * rendered through React's escaping. This component logs nothing.
+ */
+import React from 'react';
+import { Badge, ListRow, type BadgeVariant } from '../shared';
+import type { OktaLogEntity, OktaLogEvent } from '../../../shared/schemas/okta';
+import { formatDate, getRelativeTime } from '../../../shared/utils/dateFormat';
+
+/** Props for {@link LogEventRow}. */
+interface LogEventRowProps {
+  event: OktaLogEvent;
+}
+
+/** The badge an outcome wears; anything unrecognised stays neutral. */
+function outcomeVariant(result: string): BadgeVariant {
+  if (result === 'SUCCESS' || result === 'ALLOW') return 'success';
+  if (result === 'FAILURE' || result === 'DENY') return 'danger';
+  return 'neutral';
+}
+
+/** How an actor or target is named: display name, then login, then id. */
+function entityName(entity: OktaLogEntity): string {
+  return entity.displayName || entity.alternateId || entity.id;
+}
+
+/** Renders one event as a compact list row. */
+const LogEventRow: React.FC<LogEventRowProps> = ({ event }) => {
+  const result = event.outcome?.result;
+  const targets = event.target ?? [];
+
+  return (
+    <ListRow as="li" density="compact">
+      <div className="space-y-1 text-xs">
+        <div className="flex items-start justify-between gap-2">
+          <span className="font-medium text-neutral-900">
+            {event.displayMessage || event.eventType}
+          </span>
+          {result && <Badge variant={outcomeVariant(result)}>{result}</Badge>}
+        </div>
+        <div className="font-mono text-neutral-500">{event.eventType}</div>
+        <div className="text-neutral-600">
+          <time dateTime={event.published} title={formatDate(event.published)}>
+            {getRelativeTime(event.published) ?? formatDate(event.published)}
+          </time>
+          {event.actor && <> · by {entityName(event.actor)}</>}
+        </div>
+        {targets.length > 0 && (
+          <div className="text-neutral-600">
+            Target:{' '}
+            {targets.map((t) => `${entityName(t)}${t.type ? ` (${t.type})` : ''}`).join(', ')}
+          </div>
+        )}
+        {event.outcome?.reason && (
+          <div className="text-neutral-500">Reason: {event.outcome.reason}</div>
+        )}
+      </div>
+    </ListRow>
+  );
+};
+
+export default LogEventRow;
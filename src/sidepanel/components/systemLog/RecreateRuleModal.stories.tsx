@@ -0,0 +1,60 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import RecreateRuleModal from './RecreateRuleModal';
+
+/** The confirmation between an armed rule re-create and the write. */
+const meta = {
+  title: 'Logs/RecreateRuleModal',
+  component: RecreateRuleModal,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Shows the condition and targets from the snapshot this browser kept when it deleted ' +
+          'the rule. The rule comes back under a new id.',
+      },
+    },
+  },
+  args: {
+    pending: {
+      object: {
+        kind: 'rule',
+        change: 'deleted',
+        id: '0prFAKE1',
+        name: 'Sales → CRM',
+        published: '2026-03-02T11:00:00.000Z',
+        eventType: 'group.rule.delete',
+        actor: 'admin@example.com',
+        result: 'SUCCESS',
+        otherTargets: [],
+      },
+      action: {
+        id: 'act-fake-1',
+        type: 'DELETE_RULE',
+        timestamp: 0,
+        description: 'Deleted rule Sales → CRM',
+        status: 'completed',
+        metadata: {
+          type: 'DELETE_RULE',
+          rule: {
+            id: '0prFAKE1',
+            name: 'Sales → CRM',
+            expression: 'user.department=="Sales"',
+            groupIds: ['00gFAKE1', '00gFAKE2'],
+            status: 'ACTIVE',
+            excludedUserIds: ['00uFAKE9'],
+          },
+        },
+      },
+    },
+    onCancel: fn(),
+    onConfirm: fn(),
+  },
+} satisfies Meta<typeof RecreateRuleModal>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** An active rule with an exclusion. */
+export const Default: Story = {};
@@ -0,0 +1,92 @@
+/**
+ * @module sidepanel/components/systemLog/RecreateRuleModal
+ * @description The confirmation between an armed re-create of a deleted rule
+ * and the write.
+ *
+ * Opens from `pending` — the nullable re-create itself — like
+ * `AdminRoleConfirmModal`, and shows what will be created: the rule's name,
+ * condition and target group count from this browser's snapshot. The rule comes
+ * back under a new id, and is re-activated only if it was active when deleted.
+ *
+ * The condition is tenant data and renders as React text.
+ */
+import React from 'react';
+import { AlertMessage, Button, Modal } from '../shared';
+import type { PendingRecreate } from '../../hooks/useDeletedObjects';
+import { snapshotExclusions } from '../../../shared/rules/ruleSnapshot';
+
+/** Props for {@link RecreateRuleModal}. */
+export interface RecreateRuleModalProps {
+  /** The re-create awaiting confirmation; `null` keeps the modal closed. */
+  pending: PendingRecreate | null;
+  /** Dismiss without writing. */
+  onCancel: () => void;
+  /** Re-create the rule. */
+  onConfirm: () => void;
+}
+
+/**
+ * Confirms one rule re-create.
+ *
+ * @param props - See {@link RecreateRuleModalProps}.
+ */
+const RecreateRuleModal: React.FC<RecreateRuleModalProps> = ({ pending, onCancel, onConfirm }) => {
+  const snapshot =
+    pending?.action.metadata.type === 'DELETE_RULE' ? pending.action.metadata.rule : null;
+  const excluded = snapshot ? snapshotExclusions(snapshot) : { users: 0, groups: 0 };
+  const exclusions = [
+    excluded.users > 0 && `${excluded.users} ${excluded.users === 1 ? 'user' : 'users'}`,
+    excluded.groups > 0 && `${excluded.groups} ${excluded.groups === 1 ? 'group' : 'groups'}`,
+  ]
+    .filter(Boolean)
+    .join(' and ');
+
+  return (
+    <Modal
+      isOpen={pending !== null}
+      onClose={onCancel}
+      title="Re-create Rule"
+      size="sm"
+      footer={
+        <>
+          <Button variant="secondary" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="primary" size="sm" onClick={onConfirm} disabled={!snapshot}>
+            Re-create
+          </Button>
+        </>
+      }
+    >
+      {snapshot && (
+        <div className="space-y-3 text-sm text-neutral-700">
+          <p>
+            Re-create <span className="font-medium text-neutral-900">{snapshot.name}</span> from the
+            copy this browser kept when it deleted the rule.
+          </p>
+          <pre
+            className="max-h-32 overflow-auto whitespace-pre-wrap break-all rounded-md bg-neutral-50 p-2 font-mono text-xs text-neutral-900"
+            aria-label="Rule condition"
+          >
+            {snapshot.expression}
+          </pre>
+          <p className="text-xs text-neutral-600">
+            Assigns {snapshot.groupIds.length} {snapshot.groupIds.length === 1 ? 'group' : 'groups'}
+            {exclusions && `, excluding ${exclusions}`}.{' '}
+            {snapshot.status === 'ACTIVE'
+              ? 'It will be activated, as it was.'
+              : 'It stays inactive, as it was.'}
+          </p>
+          <AlertMessage
+            message={{
+              text: 'The rule comes back under a new id. The write is recorded in the audit log and in History.',
+              type: 'info',
+            }}
+          />
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default RecreateRuleModal;
@@ -0,0 +1,65 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import AdminRoleConfirmModal from './AdminRoleConfirmModal';
+
+/** The confirmation between an armed role grant or revoke and the write. */
+const meta = {
+  title: 'Users/AdminRoleConfirmModal',
+  component: AdminRoleConfirmModal,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Opens from the pending write itself. A grant warns that the role applies to the whole ' +
+          'org; a revoke of a role that can be narrowed warns that History cannot undo it if it was.',
+      },
+    },
+  },
+  args: {
+    pending: { kind: 'grant', roleType: 'READ_ONLY_ADMIN', roleLabel: 'Read-only Administrator' },
+    userName: 'Jane Doe',
+    onCancel: fn(),
+    onConfirm: fn(),
+  },
+} satisfies Meta<typeof AdminRoleConfirmModal>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Granting: always org-wide. */
+export const Grant: Story = {};
+
+/** Revoking a role that can be narrowed to groups. */
+export const RevokeScopable: Story = {
+  args: {
+    pending: {
+      kind: 'revoke',
+      role: {
+        assignmentId: 'irbFAKE1',
+        type: 'HELP_DESK_ADMIN',
+        label: 'Help Desk Administrator',
+        status: 'ACTIVE',
+        assignmentType: 'USER',
+        revocable: true,
+      },
+    },
+  },
+};
+
+/** Revoking an org-wide role. */
+export const RevokeOrgWide: Story = {
+  args: {
+    pending: {
+      kind: 'revoke',
+      role: {
+        assignmentId: 'irbFAKE2',
+        type: 'ORG_ADMIN',
+        label: 'Organization Administrator',
+        status: 'ACTIVE',
+        assignmentType: 'USER',
+        revocable: true,
+      },
+    },
+  },
+};
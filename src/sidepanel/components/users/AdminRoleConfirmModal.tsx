@@ -0,0 +1,104 @@
+/**
+ * @module sidepanel/components/users/AdminRoleConfirmModal
+ * @description The confirmation between an armed grant or revoke and the write.
+ *
+ * Opens from `pending` — the nullable write itself — so what is being confirmed
+ * and the fact that something is cannot drift apart, the same shape as
+ * `ProfileSaveModal`.
+ *
+ * Each verb states the one consequence an admin could miss:
+ *
+ * - **Grant** is always org-wide. The panel grants standard roles without
+ *   targets, and a targetable role with no targets applies to every group or
+ *   app; narrowing it is done in the Admin Console.
+ * - **Revoke** of a targetable role can be undone from History only if the role
+ *   was org-wide: a re-grant cannot put its targets back.
+ *
+ * Security: the user's name and the role label render through React's escaping.
+ */
+import React from 'react';
+import { AlertMessage, Button, Modal } from '../shared';
+import { roleTargetKind } from '../../../shared/adminRoles/adminRoles';
+import type { PendingRoleWrite } from '../../hooks/useUserAdminRoles';
+
+/** Props for {@link AdminRoleConfirmModal}. */
+export interface AdminRoleConfirmModalProps {
+  /** The write awaiting confirmation; `null` keeps the modal closed. */
+  pending: PendingRoleWrite | null;
+  /** The user the write applies to, as shown in the body. */
+  userName: string;
+  /** Dismiss without writing. */
+  onCancel: () => void;
+  /** Run the write. */
+  onConfirm: () => void;
+}
+
+/**
+ * Confirms one administrator-role grant or revoke.
+ *
+ * @param props - See {@link AdminRoleConfirmModalProps}.
+ */
+const AdminRoleConfirmModal: React.FC<AdminRoleConfirmModalProps> = ({
+  pending,
+  userName,
+  onCancel,
+  onConfirm,
+}) => {
+  const isGrant = pending?.kind === 'grant';
+  const label = pending ? (pending.kind === 'grant' ? pending.roleLabel : pending.role.label) : '';
+  const scoped = pending?.kind === 'revoke' && roleTargetKind(pending.role.type) !== null;
+
+  return (
+    <Modal
+      isOpen={pending !== null}
+      onClose={onCancel}
+      title={isGrant ? 'Grant Admin Role' : 'Revoke Admin Role'}
+      size="sm"
+      footer={
+        <>
+          <Button variant="secondary" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant={isGrant ? 'primary' : 'danger'} size="sm" onClick={onConfirm}>
+            {isGrant ? 'Grant' : 'Revoke'}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-3">
+        <p className="text-sm text-neutral-700">
+          {isGrant ? (
+            <>
+              Grant <strong className="text-neutral-900">{label}</strong> to{' '}
+              <strong className="text-neutral-900">{userName}</strong>?
+            </>
+          ) : (
+            <>
+              Revoke <strong className="text-neutral-900">{label}</strong> from{' '}
+              <strong className="text-neutral-900">{userName}</strong>?
+            </>
+          )}
+        </p>
+        {isGrant ? (
+          <AlertMessage
+            message={{
+              text: 'The role applies to the whole org. Narrow it to groups or apps in the Admin Console. You can undo this from History.',
+              type: 'warning',
+            }}
+          />
+        ) : scoped ? (
+          <AlertMessage
+            message={{
+              text: 'If this role is limited to groups or apps, History cannot undo the revoke: a re-grant would apply to the whole org.',
+              type: 'warning',
+            }}
+          />
+        ) : (
+          <p className="text-xs text-neutral-600">You can undo this from History.</p>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default AdminRoleConfirmModal;
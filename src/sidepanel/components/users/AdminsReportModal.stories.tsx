@@ -0,0 +1,90 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, fn, userEvent, within } from 'storybook/test';
+import AdminsReportModal from './AdminsReportModal';
+import { useOktaApi, makeUseOktaApiValue } from '../../../../.storybook/mocks/useOktaApi.mock';
+import type { AdminReportRow, AdminsReport } from '../../../shared/adminRoles/adminRoles';
+
+const row = (
+  name: string,
+  roleType: string,
+  roleLabel: string,
+  over: Partial<AdminReportRow> = {},
+) => ({
+  userId: `00uFAKE${name.replace(/\W/g, '')}`,
+  login: `${name.toLowerCase().replace(/\W/g, '.')}@example.com`,
+  name,
+  userStatus: 'ACTIVE',
+  roleType,
+  roleLabel,
+  roleStatus: 'ACTIVE',
+  assignmentType: 'USER' as const,
+  ...over,
+});
+
+const REPORT: AdminsReport = {
+  rows: [
+    row('Ada Lovelace', 'SUPER_ADMIN', 'Super Administrator'),
+    row('Alan Turing', 'READ_ONLY_ADMIN', 'Read-only Administrator', { assignmentType: 'GROUP' }),
+    row('Grace Hopper', 'READ_ONLY_ADMIN', 'Read-only Administrator', { userStatus: 'SUSPENDED' }),
+    row('Grace Hopper', 'HELP_DESK_ADMIN', 'Help Desk Administrator'),
+  ],
+  readAt: new Date().toISOString(),
+  adminCount: 3,
+  unreadable: [],
+};
+
+/** The Users tab's all-admins report. */
+const meta = {
+  title: 'Users/AdminsReportModal',
+  component: AdminsReportModal,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Every user holding an administrator role, read on request (two requests per admin), ' +
+          'grouped by role with a holders-per-role line. Holders who could not be read are counted ' +
+          'above the list, and the rows export as CSV.',
+      },
+    },
+  },
+  args: { isOpen: true, onClose: fn(), targetTabId: 1 },
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(makeUseOktaApiValue({ getAdminsReport: fn(async () => REPORT) }));
+  },
+} satisfies Meta<typeof AdminsReportModal>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Before a load. */
+export const Default: Story = {};
+
+/** Loaded. */
+export const Loaded: Story = {
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'List administrators' }));
+    await expect(await canvas.findByRole('list', { name: 'Administrators' })).toBeInTheDocument();
+  },
+};
+
+/** Some holders could not be read: they are counted, not dropped. */
+export const PartiallyRead: Story = {
+  beforeEach: () => {
+    useOktaApi.mockReturnValue(
+      makeUseOktaApiValue({
+        getAdminsReport: fn(async () => ({
+          ...REPORT,
+          adminCount: 4,
+          unreadable: [{ userId: '00uFAKEgone', error: 'Not found' }],
+        })),
+      }),
+    );
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'List administrators' }));
+    await expect(await canvas.findByText(/could not be read/)).toBeInTheDocument();
+  },
+};
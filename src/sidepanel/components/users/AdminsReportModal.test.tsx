@@ -0,0 +1,84 @@
+/**
+ * Behavioral tests for the all-admins report.
+ *
+ * Drives the real modal and `useAdminsReport` against a stubbed `useOktaApi`,
+ * pinning: nothing is read until asked, rows group by role with holder counts,
+ * unreadable holders are counted rather than dropped, and the export writes the
+ * rows shown.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { AdminReportRow, AdminsReport } from '../../../shared/adminRoles/adminRoles';
+
+const api = vi.hoisted(() => ({
+  getAdminsReport: vi.fn(),
+  runExport: vi.fn(),
+  cancelOperation: vi.fn(),
+}));
+
+vi.mock('../../hooks/useOktaApi', () => ({ useOktaApi: () => api }));
+
+import AdminsReportModal from './AdminsReportModal';
+
+const row = (name: string, roleLabel: string): AdminReportRow => ({
+  userId: `00uFAKE${name}`,
+  login: `${name.toLowerCase()}@example.com`,
+  name,
+  userStatus: 'ACTIVE',
+  roleType: roleLabel.toUpperCase().replace(/\W/g, '_'),
+  roleLabel,
+  roleStatus: 'ACTIVE',
+  assignmentType: 'USER',
+});
+
+const report: AdminsReport = {
+  rows: [
+    row('Zed', 'Read-only Administrator'),
+    row('Ann', 'Super Administrator'),
+    row('Bea', 'Read-only Administrator'),
+  ],
+  readAt: '2026-03-02T12:00:00.000Z',
+  adminCount: 4,
+  unreadable: [{ userId: '00uFAKEgone', error: 'Not found' }],
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  api.getAdminsReport.mockResolvedValue(report);
+  api.runExport.mockResolvedValue(undefined);
+});
+
+describe('AdminsReportModal', () => {
+  it('reads nothing until asked, then groups holders by role', async () => {
+    render(<AdminsReportModal isOpen onClose={vi.fn()} targetTabId={1} />);
+    expect(api.getAdminsReport).not.toHaveBeenCalled();
+
+    await userEvent.click(screen.getByRole('button', { name: 'List administrators' }));
+    const list = await screen.findByRole('list', { name: 'Administrators' });
+
+    const names = within(list)
+      .getAllByRole('listitem')
+      .map((item) => ['Ann', 'Bea', 'Zed'].find((n) => item.textContent?.includes(n)));
+    expect(names).toEqual(['Bea', 'Zed', 'Ann']);
+    expect(screen.getByLabelText('Holders per role')).toHaveTextContent(
+      'Read-only Administrator: 2 · Super Administrator: 1',
+    );
+    expect(screen.getByText(/1 of 4 role holder\(s\) could not be read/)).toBeInTheDocument();
+  });
+
+  it('exports the rows shown', async () => {
+    render(<AdminsReportModal isOpen onClose={vi.fn()} targetTabId={1} />);
+    await userEvent.click(screen.getByRole('button', { name: 'List administrators' }));
+    await userEvent.click(await screen.findByRole('button', { name: 'Export CSV' }));
+
+    expect(api.runExport).toHaveBeenCalledWith(
+      expect.objectContaining({
+        contextLabel: 'Administrators',
+        rows: [report.rows[2], report.rows[0], report.rows[1]],
+      }),
+    );
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * @module sidepanel/components/users/AdminsReportModal
+ * @description Every user in the org holding an administrator role, grouped by
+ * role, opened from the Users tab's search surface.
+ *
+ * Okta lists role holders without their roles, so the report reads each holder's
+ * user record and roles (`hooks/useAdminsReport`) — one pair of requests per
+ * admin. It therefore runs from a click, can be cancelled, and says when it was
+ * read. A holder who could not be read is counted above the list rather than
+ * dropped, so a partial report is not read as the whole set of admins.
+ *
+ * The counts line is distinct holders per role; the list is one row per user per
+ * role, which is also what the export writes.
+ */
+import React from 'react';
+import { AlertMessage, Badge, Button, ListRow, Modal } from '../shared';
+import { formatDate } from '../../../shared/utils/dateFormat';
+import { useAdminsReport } from '../../hooks/useAdminsReport';
+
+/** Props for {@link AdminsReportModal}. */
+export interface AdminsReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** The connected Okta tab; loading is unavailable without one. */
+  targetTabId: number | null;
+}
+
+/**
+ * The all-admins report in a modal.
+ *
+ * @param props - See {@link AdminsReportModalProps}.
+ */
+const AdminsReportModal: React.FC<AdminsReportModalProps> = ({ isOpen, onClose, targetTabId }) => {
+  const { status, report, error, rows, holderCounts, load, cancel, exportRows } =
+    useAdminsReport(targetTabId);
+  const loading = status === 'loading';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Administrators" size="lg">
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant={report ? 'secondary' : 'primary'}
+            size="sm"
+            icon={report ? 'refresh' : 'shield'}
+            onClick={() => void load()}
+            loading={loading}
+            disabled={loading || targetTabId == null}
+            title="List every role holder and read each one's roles (two requests per admin)"
+          >
+            {report ? 'Reload' : 'List administrators'}
+          </Button>
+          {loading && (
+            <Button variant="ghost" size="sm" onClick={cancel}>
+              Cancel
+            </Button>
+          )}
+          {report && (
+            <Button
+              variant="secondary"
+              size="sm"
+              icon="download"
+              onClick={() => void exportRows()}
+              disabled={rows.length === 0}
+            >
+              Export CSV
+            </Button>
+          )}
+          {report && (
+            <span className="text-xs text-neutral-500">Read {formatDate(report.readAt)}</span>
+          )}
+        </div>
+
+        {error && <AlertMessage message={{ text: error, type: 'danger' }} />}
+
+        {report && report.unreadable.length > 0 && (
+          <AlertMessage
+            message={{
+              text: `${report.unreadable.length} of ${report.adminCount} role holder(s) could not be read and are missing below.`,
+              type: 'warning',
+            }}
+          />
+        )}
+
+        {report &&
+          (rows.length === 0 ? (
+            <p className="text-xs text-neutral-500">No users hold an administrator role.</p>
+          ) : (
+            <>
+              <p className="text-xs text-neutral-600" aria-label="Holders per role">
+                {holderCounts.map((entry) => `${entry.label}: ${entry.count}`).join(' · ')}
+              </p>
+              <ul className="space-y-1.5" aria-label="Administrators">
+                {rows.map((row, index) => (
+                  <ListRow key={`${row.userId}-${row.roleType}-${index}`} as="li" density="compact">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-neutral-900">{row.name}</div>
+                        <div className="truncate text-xs text-neutral-600">{row.login}</div>
+                      </div>
+                      <div className="flex flex-wrap justify-end gap-1.5">
+                        <Badge variant="primary">{row.roleLabel}</Badge>
+                        {row.assignmentType === 'GROUP' && <Badge variant="info">Via group</Badge>}
+                        {row.userStatus !== 'ACTIVE' && (
+                          <Badge variant="warning">{row.userStatus}</Badge>
+                        )}
+                      </div>
+                    </div>
+                  </ListRow>
+                ))}
+              </ul>
+            </>
+          ))}
+      </div>
+    </Modal>
+  );
+};
+
+export default AdminsReportModal;
@@ -0,0 +1,178 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import BulkLifecycleModal from './BulkLifecycleModal';
+import {
+  planBulkLifecycle,
+  type LifecycleSubject,
+  type LifecycleTargetSet,
+} from './bulkLifecyclePlan';
+import type { BulkLifecycleResult } from '../../hooks/useOktaApi/bulkLifecycle';
+
+/** Fake placeholder users only. */
+function subject(id: string, login: string, status: string): LifecycleSubject {
+  const [first, last] = login.split('@')[0].split('.');
+  return { id, login, name: `${first} ${last ?? ''}`.trim(), status };
+}
+
+const ada = subject('00uFAKE1', 'ada.lovelace@example.com', 'ACTIVE');
+const alan = subject('00uFAKE2', 'alan.turing@example.com', 'ACTIVE');
+const grace = subject('00uFAKE3', 'grace.hopper@example.com', 'SUSPENDED');
+const edsger = subject('00uFAKE4', 'edsger.dijkstra@example.com', 'STAGED');
+const admin = subject('00uFAKE5', 'admin@example.com', 'ACTIVE');
+
+const targets: LifecycleTargetSet = {
+  sourceLabel: 'Members of Contractors',
+  targets: [
+    { key: ada.login, user: ada },
+    { key: alan.login, user: alan },
+    { key: grace.login, user: grace },
+    { key: edsger.login, user: edsger },
+    { key: admin.login, user: admin },
+    { key: 'nobody@example.com', user: null },
+  ],
+  currentUserId: admin.id,
+};
+
+const suspendPlan = planBulkLifecycle('suspend', targets);
+
+const doneResult: BulkLifecycleResult = {
+  outcomes: new Map([
+    [ada.id, { result: 'done' }],
+    [alan.id, { result: 'failed', error: 'Okta refused the change' }],
+  ]),
+  done: 1,
+  failed: 1,
+  notSent: 0,
+  cancelled: false,
+};
+
+const meta = {
+  title: 'Users/BulkLifecycleModal',
+  component: BulkLifecycleModal,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'Console to run one lifecycle action (activate, reactivate, suspend, unsuspend, ' +
+          'deactivate, expire password) across a pasted list, a group or a user search.\n\n' +
+          'Pick the targets → preflight (N will change, M skipped and why, from each ' +
+          "user's status) → confirm → run through the scheduler. Every user is audited; " +
+          'each suspend and unsuspend is undoable from History.\n\n' +
+          '**Related internals:** [Hooks](?path=/docs/internals-hooks--docs), ' +
+          '[Types](?path=/docs/internals-types--docs)',
+      },
+    },
+  },
+  argTypes: {
+    isOpen: { description: 'Whether the modal is visible.' },
+    phase: { description: 'Console step: idle → preview → running → done/error.' },
+    action: { description: 'The lifecycle action picked.' },
+    plan: { description: 'The preflight: who the action changes and who it skips.' },
+    result: { description: 'Per-user outcomes once the run has finished.' },
+    error: { description: 'Error message when the read or the run fails.' },
+    groupOptions: { description: 'Groups matching the last picker search.' },
+    isFindingGroups: { description: 'Whether the group search is running.' },
+    savedFilters: { description: 'Saved Users export filters with a search expression.' },
+    onActionChange: { description: 'Pick the action; re-plans an open preflight.' },
+    onFindGroups: { description: 'Search groups by name.' },
+    onPreview: { description: 'Read the targets and preflight.' },
+    onExecute: { description: 'Run the action on the change users.' },
+    onBack: { description: 'Return to the targets step.' },
+    onClose: { description: 'Close + reset.' },
+  },
+  args: {
+    isOpen: true,
+    phase: 'idle',
+    action: 'suspend',
+    plan: null,
+    result: null,
+    error: null,
+    groupOptions: [],
+    isFindingGroups: false,
+    savedFilters: [
+      { id: 'preset-1', name: 'Contractors', expression: 'profile.userType eq "Contractor"' },
+    ],
+    onActionChange: fn(),
+    onFindGroups: fn(),
+    onPreview: fn(),
+    onExecute: fn(),
+    onBack: fn(),
+    onClose: fn(),
+  },
+} satisfies Meta<typeof BulkLifecycleModal>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Step 1 — paste or upload the list. */
+export const Default: Story = {};
+
+/** Step 1 — the list matched no one. */
+export const NoTargets: Story = {
+  args: { error: 'No users found. Check the list, group or filter and try again.' },
+};
+
+/** Step 2 — suspend: two change, four skipped with their reasons. */
+export const Preview: Story = {
+  args: { phase: 'preview', plan: suspendPlan },
+};
+
+/** Step 2 — deactivate states its consequence as a warning. */
+export const PreviewDeactivate: Story = {
+  args: { phase: 'preview', action: 'deactivate', plan: planBulkLifecycle('deactivate', targets) },
+};
+
+/** Step 2 — the signed-in admin could not be read, so suspend is refused. */
+export const AdminUnknown: Story = {
+  args: {
+    phase: 'preview',
+    plan: planBulkLifecycle('suspend', { ...targets, currentUserId: null }),
+  },
+};
+
+/** Step 2 — nobody the action applies to. */
+export const NothingToChange: Story = {
+  args: {
+    phase: 'preview',
+    action: 'activate',
+    plan: planBulkLifecycle('activate', {
+      ...targets,
+      targets: targets.targets.filter((t) => t.user?.status === 'ACTIVE'),
+    }),
+  },
+};
+
+/** Step 3 — the writes are running. */
+export const Running: Story = {
+  args: { phase: 'running', plan: suspendPlan },
+};
+
+/** Step 4 — done, with one refused write. */
+export const Done: Story = {
+  args: { phase: 'done', plan: suspendPlan, result: doneResult },
+};
+
+/** Step 4 — stopped at a 403; the rest were never sent. */
+export const Halted: Story = {
+  args: {
+    phase: 'done',
+    plan: suspendPlan,
+    result: {
+      outcomes: new Map([
+        [ada.id, { result: 'failed', error: 'Forbidden' }],
+        [alan.id, { result: 'not-sent' }],
+      ]),
+      done: 0,
+      failed: 1,
+      notSent: 1,
+      cancelled: false,
+    },
+  },
+};
+
+/** The read failed outright. */
+export const ErrorState: Story = {
+  args: { phase: 'error', error: 'The search could not be run' },
+};
@@ -0,0 +1,456 @@
+/**
+ * @module sidepanel/components/users/BulkLifecycleModal
+ * @description Console to run one lifecycle action — activate, reactivate,
+ * suspend, unsuspend, deactivate or expire password — across many users.
+ *
+ * Pick the action and the targets (a pasted or uploaded list, a group's members,
+ * or a user search, typed or from a saved Users export filter) → preflight, which
+ * says how many users the action will change and why the rest are skipped →
+ * confirm → run. Nothing is written before the confirm, and picking another
+ * action on the preflight re-plans it without reading the targets again.
+ *
+ * Presentational: {@link sidepanel/hooks/useBulkLifecycle.useBulkLifecycle} owns
+ * the phases and the calls.
+ */
+import React, { useRef, useState } from 'react';
+import Modal from '../shared/Modal';
+import Button from '../shared/Button';
+import Badge, { type BadgeVariant } from '../shared/Badge';
+import Input from '../shared/Input';
+import LoadingSpinner from '../shared/LoadingSpinner';
+import Select from '../shared/Select';
+import Tabs from '../shared/Tabs';
+import Textarea from '../shared/Textarea';
+import AlertMessage from '../shared/AlertMessage';
+import StatCard from '../overview/shared/StatCard';
+import type {
+  BulkLifecyclePhase,
+  LifecycleGroupOption,
+  LifecycleSavedFilter,
+} from '../../hooks/useBulkLifecycle';
+import type {
+  BulkLifecycleResult,
+  BulkLifecycleSource,
+} from '../../hooks/useOktaApi/bulkLifecycle';
+import {
+  LIFECYCLE_ACTIONS,
+  type BulkLifecycleAction,
+  type BulkLifecyclePlan,
+  type LifecycleSkipReason,
+} from './bulkLifecyclePlan';
+
+/** Rows beyond this count are not listed in the preflight. */
+const DISPLAY_CAP = 200;
+
+/** Preflight badge per skip reason. */
+const SKIP_BADGE: Record<LifecycleSkipReason, { label: string; variant: BadgeVariant }> = {
+  already: { label: 'Already', variant: 'neutral' },
+  'not-eligible': { label: 'Not eligible', variant: 'warning' },
+  self: { label: 'You', variant: 'neutral' },
+  duplicate: { label: 'Duplicate', variant: 'neutral' },
+  'not-found': { label: 'Not found', variant: 'danger' },
+  ambiguous: { label: 'Ambiguous', variant: 'danger' },
+};
+
+const ACTION_OPTIONS = (Object.keys(LIFECYCLE_ACTIONS) as BulkLifecycleAction[]).map((key) => ({
+  value: key,
+  label: LIFECYCLE_ACTIONS[key].label,
+}));
+
+type SourceKind = BulkLifecycleSource['kind'];
+
+const SOURCE_TABS = [
+  { key: 'list', label: 'List' },
+  { key: 'group', label: 'Group' },
+  { key: 'search', label: 'Search' },
+];
+
+interface BulkLifecycleModalProps {
+  isOpen: boolean;
+  phase: BulkLifecyclePhase;
+  action: BulkLifecycleAction;
+  plan: BulkLifecyclePlan | null;
+  result: BulkLifecycleResult | null;
+  error: string | null;
+  groupOptions: LifecycleGroupOption[];
+  isFindingGroups: boolean;
+  savedFilters: LifecycleSavedFilter[];
+  /** Pick the action; re-plans an open preflight. */
+  onActionChange: (action: BulkLifecycleAction) => void;
+  /** Search groups by name for the group source. */
+  onFindGroups: (query: string) => void;
+  /** Read the targets and preflight. */
+  onPreview: (source: BulkLifecycleSource) => void;
+  /** Run the action on the change users. */
+  onExecute: () => void;
+  /** Return to the targets step, discarding the preflight. */
+  onBack: () => void;
+  /** Close + reset. */
+  onClose: () => void;
+}
+
+/** `3 users` / `1 user`. */
+function usersCount(count: number): string {
+  return `${count.toLocaleString()} user${count === 1 ? '' : 's'}`;
+}
+
+/** Renders the console across its targets → preflight → running → done phases. */
+const BulkLifecycleModal: React.FC<BulkLifecycleModalProps> = ({
+  isOpen,
+  phase,
+  action,
+  plan,
+  result,
+  error,
+  groupOptions,
+  isFindingGroups,
+  savedFilters,
+  onActionChange,
+  onFindGroups,
+  onPreview,
+  onExecute,
+  onBack,
+  onClose,
+}) => {
+  const [sourceKind, setSourceKind] = useState<SourceKind>('list');
+  const [listText, setListText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [groupQuery, setGroupQuery] = useState('');
+  const [group, setGroup] = useState<LifecycleGroupOption | null>(null);
+  const [expression, setExpression] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const showInput = phase === 'idle' || phase === 'preview-loading';
+  const spec = LIFECYCLE_ACTIONS[action];
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setListText(await file.text());
+    setFileName(file.name);
+    // Clear the input so choosing the same file again still fires a change.
+    event.target.value = '';
+  };
+
+  const source: BulkLifecycleSource | null =
+    sourceKind === 'list'
+      ? listText.trim()
+        ? { kind: 'list', text: listText }
+        : null
+      : sourceKind === 'group'
+        ? group
+          ? { kind: 'group', groupId: group.id, groupName: group.name }
+          : null
+        : expression.trim()
+          ? { kind: 'search', expression }
+          : null;
+
+  const changeCount = plan?.change.length ?? 0;
+
+  const footer =
+    phase === 'preview' && plan ? (
+      <>
+        <Button variant="secondary" onClick={onBack}>
+          Back
+        </Button>
+        <Button
+          variant={spec.destructive || action === 'suspend' ? 'danger' : 'primary'}
+          onClick={onExecute}
+          disabled={changeCount === 0 || plan.blocker !== null}
+        >
+          {spec.label} {usersCount(changeCount)}
+        </Button>
+      </>
+    ) : phase === 'done' || phase === 'error' ? (
+      <Button variant="primary" onClick={onClose}>
+        Close
+      </Button>
+    ) : showInput ? (
+      <>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={() => source && onPreview(source)}
+          disabled={!source || phase === 'preview-loading'}
+          loading={phase === 'preview-loading'}
+        >
+          Preview
+        </Button>
+      </>
+    ) : undefined;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Change user status" size="lg" footer={footer}>
+      {(showInput || phase === 'preview') && (
+        <div className="mb-4">
+          <Select
+            label="Action"
+            value={action}
+            onChange={(value) => onActionChange(value as BulkLifecycleAction)}
+            options={ACTION_OPTIONS}
+            disabled={phase === 'preview-loading'}
+          />
+        </div>
+      )}
+
+      {/* Step 1 — the targets */}
+      {showInput && (
+        <div className="space-y-3">
+          <Tabs
+            tabs={SOURCE_TABS}
+            activeKey={sourceKind}
+            onChange={(key) => setSourceKind(key as SourceKind)}
+            variant="segmented"
+            ariaLabel="Targets"
+          />
+
+          {sourceKind === 'list' && (
+            <>
+              <p className="text-sm text-neutral-600">
+                One user per line, by id, login or email. A CSV works too: a <code>login</code>,{' '}
+                <code>email</code> or <code>id</code> column is read when the header names one.
+                Nothing is written until you confirm the preflight.
+              </p>
+              <div className="flex items-center gap-3">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  icon="list"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  Choose file
+                </Button>
+                {fileName && <span className="text-xs text-neutral-500 truncate">{fileName}</span>}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,text/csv,text/plain"
+                  className="hidden"
+                  data-testid="bulk-lifecycle-file-input"
+                  onChange={handleFile}
+                />
+              </div>
+              <Textarea
+                label="Users"
+                value={listText}
+                onChange={setListText}
+                rows={8}
+                placeholder={'ada@example.com\n00u1a2b3c4d5e6f7g8h9'}
+                disabled={phase === 'preview-loading'}
+              />
+            </>
+          )}
+
+          {sourceKind === 'group' && (
+            <>
+              <div className="flex items-end gap-2">
+                <Input
+                  label="Group"
+                  value={groupQuery}
+                  onChange={setGroupQuery}
+                  placeholder="Group name"
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') onFindGroups(groupQuery);
+                  }}
+                  disabled={phase === 'preview-loading'}
+                />
+                <Button
+                  variant="secondary"
+                  icon="search"
+                  onClick={() => onFindGroups(groupQuery)}
+                  disabled={groupQuery.trim().length < 2 || isFindingGroups}
+                  loading={isFindingGroups}
+                >
+                  Find
+                </Button>
+              </div>
+              {groupOptions.length > 0 && (
+                <ul
+                  className="divide-y divide-neutral-100 rounded-md border border-neutral-200"
+                  aria-label="Groups found"
+                >
+                  {groupOptions.map((option) => (
+                    <li key={option.id}>
+                      <button
+                        type="button"
+                        className={`w-full px-3 py-2 text-left text-sm truncate ${
+                          group?.id === option.id
+                            ? 'bg-primary-light text-primary-dark'
+                            : 'text-neutral-900 hover:bg-neutral-50'
+                        }`}
+                        aria-pressed={group?.id === option.id}
+                        onClick={() => setGroup(option)}
+                      >
+                        {option.name}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className="text-xs text-neutral-500">
+                {group
+                  ? `Every member of ${group.name} is read.`
+                  : 'Find a group, then pick it. Every member is read.'}
+              </p>
+            </>
+          )}
+
+          {sourceKind === 'search' && (
+            <>
+              {savedFilters.length > 0 && (
+                <Select
+                  label="Saved filter"
+                  value=""
+                  onChange={(id) => {
+                    const filter = savedFilters.find((f) => f.id === id);
+                    if (filter) setExpression(filter.expression);
+                  }}
+                  options={[
+                    { value: '', label: 'Choose a saved Users filter…' },
+                    ...savedFilters.map((f) => ({ value: f.id, label: f.name })),
+                  ]}
+                  disabled={phase === 'preview-loading'}
+                />
+              )}
+              <Textarea
+                label="Search expression"
+                value={expression}
+                onChange={setExpression}
+                rows={3}
+                placeholder={'profile.department eq "Contractors" and status eq "ACTIVE"'}
+                hint="An Okta user search expression. Every matching user is read."
+                disabled={phase === 'preview-loading'}
+              />
+            </>
+          )}
+
+          {error && <p className="text-sm text-danger-text">{error}</p>}
+        </div>
+      )}
+
+      {/* Step 2 — preflight */}
+      {phase === 'preview' && plan && (
+        <div className="space-y-4">
+          <p className="text-xs text-neutral-500">{plan.sourceLabel}</p>
+          <div className="grid grid-cols-2 gap-3">
+            <StatCard title="Will change" value={changeCount} color="primary" icon="check" />
+            <StatCard
+              title="Skipped"
+              value={plan.skipped}
+              color={plan.skipped > 0 ? 'warning' : 'neutral'}
+              icon="minus"
+            />
+          </div>
+
+          {plan.skipGroups.length > 0 && (
+            <ul className="space-y-1" aria-label="Skipped because">
+              {plan.skipGroups.map((skip) => (
+                <li
+                  key={`${skip.reason}:${skip.status ?? ''}`}
+                  className="flex items-center justify-between gap-3 text-sm text-neutral-700"
+                >
+                  <span className="truncate">{skip.note}</span>
+                  <span className="text-neutral-500 tabular-nums">{skip.count}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {plan.blocker ? (
+            <AlertMessage message={{ text: plan.blocker, type: 'danger' }} />
+          ) : (
+            <AlertMessage
+              message={{ text: spec.consequence, type: spec.destructive ? 'warning' : 'info' }}
+            />
+          )}
+
+          <ul
+            className="divide-y divide-neutral-100 rounded-md border border-neutral-200"
+            aria-label="Preflight"
+          >
+            {plan.rows.slice(0, DISPLAY_CAP).map((row, index) => (
+              <li key={`${row.key}:${index}`} className="px-3 py-2">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-sm text-neutral-900 truncate">
+                      {row.user?.name ?? row.key}
+                    </div>
+                    <div className="text-xs text-neutral-500 truncate">
+                      {row.user ? `${row.user.login} · ${row.user.status}` : row.note}
+                    </div>
+                  </div>
+                  {row.status === 'change' ? (
+                    <Badge variant="primary">{spec.label}</Badge>
+                  ) : (
+                    row.reason && (
+                      <Badge variant={SKIP_BADGE[row.reason].variant}>
+                        {SKIP_BADGE[row.reason].label}
+                      </Badge>
+                    )
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+          {plan.rows.length > DISPLAY_CAP && (
+            <p className="text-xs text-neutral-500">
+              Showing the first {DISPLAY_CAP} of {plan.rows.length.toLocaleString()} users.
+            </p>
+          )}
+
+          <p className="text-xs text-neutral-400">
+            Each user gets their own entry in the audit log
+            {spec.undoable ? ' and in the History tab, undoable on its own' : ''}.
+          </p>
+        </div>
+      )}
+
+      {/* Step 3 — running */}
+      {phase === 'running' && (
+        <LoadingSpinner size="xl" centered message={`${spec.label}… see the progress bar below.`} />
+      )}
+
+      {/* Step 4 — done / error */}
+      {phase === 'done' && result && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <StatCard title={spec.done} value={result.done} color="success" icon="check" />
+            <StatCard
+              title="Failed"
+              value={result.failed}
+              color={result.failed > 0 ? 'danger' : 'neutral'}
+              icon="alert"
+            />
+          </div>
+          {result.notSent > 0 && (
+            <p className="text-sm text-warning-text">
+              {usersCount(result.notSent)} {result.notSent === 1 ? 'was' : 'were'} not sent
+              {result.cancelled ? ' — the run was cancelled' : ' — the run stopped early'}. Run the
+              same targets again; users already changed are skipped.
+            </p>
+          )}
+          {plan && result.failed > 0 && (
+            <ul className="space-y-1" aria-label="Failures">
+              {plan.change.flatMap((user) => {
+                const outcome = result.outcomes.get(user.id);
+                return outcome?.result === 'failed'
+                  ? [
+                      <li key={user.id} className="text-xs text-danger-text truncate">
+                        {user.login}: {outcome.error}
+                      </li>,
+                    ]
+                  : [];
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+      {phase === 'error' && (
+        <p className="text-sm text-danger-text">{error || 'The run did not complete.'}</p>
+      )}
+    </Modal>
+  );
+};
+
+export default BulkLifecycleModal;
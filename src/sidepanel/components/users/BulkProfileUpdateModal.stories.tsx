@@ -0,0 +1,254 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import BulkProfileUpdateModal from './BulkProfileUpdateModal';
+import type { BulkProfilePlan, BulkReadyRow } from './bulkProfilePlan';
+import type { BatchBlastRadius } from '../../../shared/membership/blastRadiusBatch';
+import type { BulkProfileResult } from '../../hooks/useOktaApi/bulkProfileUpdate';
+import type { OktaUser } from '../../../shared/types';
+
+/** Fake placeholder users only. */
+function user(id: string, login: string): OktaUser {
+  const [first, last] = login.split('@')[0].split('.');
+  return {
+    id,
+    status: 'ACTIVE',
+    profile: { login, email: login, firstName: first, lastName: last ?? '' },
+  } as OktaUser;
+}
+
+const ada = user('00uFAKE1', 'ada.lovelace@example.com');
+const alan = user('00uFAKE2', 'alan.turing@example.com');
+const grace = user('00uFAKE3', 'grace.hopper@example.com');
+
+function readyRow(line: number, target: OktaUser, before: string, after: string): BulkReadyRow {
+  return {
+    line,
+    key: target.id,
+    status: 'ready',
+    user: target,
+    cells: [
+      {
+        name: 'department',
+        label: 'Department',
+        status: 'change',
+        beforeDisplay: before,
+        beforeRaw: before,
+        afterDisplay: after,
+        afterRaw: after,
+      },
+    ],
+    patch: { department: after },
+  };
+}
+
+const adaRow = readyRow(2, ada, 'Sales', 'Marketing');
+const alanRow = readyRow(3, alan, 'Sales', 'Marketing');
+
+const previewPlan: BulkProfilePlan = {
+  keyColumn: 'id',
+  attributeNames: ['department', 'badgeId'],
+  rows: [
+    adaRow,
+    alanRow,
+    {
+      line: 4,
+      key: grace.id,
+      status: 'blocked',
+      user: grace,
+      cells: [
+        {
+          name: 'badgeId',
+          label: 'Badge ID',
+          status: 'locked',
+          beforeDisplay: '',
+          beforeRaw: undefined,
+          afterDisplay: 'B-1',
+          problem: 'Read-only in the profile schema.',
+        },
+      ],
+    },
+    { line: 5, key: '00uFAKE9', status: 'not-found', cells: [] },
+  ],
+  counts: { ready: 2, 'no-change': 0, blocked: 1, duplicate: 0, 'not-found': 1 },
+  ready: [adaRow, alanRow],
+  changeCount: 2,
+};
+
+const impact: BatchBlastRadius = {
+  status: 'computed',
+  groups: [
+    {
+      groupId: '00gFAKE1',
+      groupName: 'Sales',
+      likelyAdded: [],
+      likelyRemoved: [
+        { userId: ada.id, label: ada.profile.login },
+        { userId: alan.id, label: alan.profile.login },
+      ],
+      notPredicted: [],
+    },
+    {
+      groupId: '00gFAKE2',
+      groupName: 'Marketing',
+      likelyAdded: [
+        { userId: ada.id, label: ada.profile.login },
+        { userId: alan.id, label: alan.profile.login },
+      ],
+      likelyRemoved: [],
+      notPredicted: [],
+    },
+  ],
+  counts: { usersAnalyzed: 2, usersAffected: 2, added: 2, removed: 2, notPredicted: 0 },
+  notAnalyzed: [],
+  secondOrderRuleNames: ['Everyone in Sales or Marketing'],
+};
+
+const doneResult: BulkProfileResult = {
+  outcomes: new Map([
+    [ada.id, { result: 'saved' }],
+    [alan.id, { result: 'failed', error: 'You do not have permission' }],
+  ]),
+  saved: 1,
+  failed: 1,
+  unknown: 0,
+  notSent: 0,
+  cancelled: false,
+  savedUsers: [ada],
+};
+
+/**
+ * Spreadsheet profile update: paste or upload a sheet, review the dry run and
+ * (optionally) its group impact, then write the ready rows.
+ */
+const meta = {
+  title: 'Users/BulkProfileUpdateModal',
+  component: BulkProfileUpdateModal,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'Wizard to update profile attributes across many users from a CSV keyed by user ' +
+          'id or login.\n\n' +
+          "Paste or upload the sheet → dry run (every cell through the Profile pane's " +
+          'editability gate; ready / no change / blocked / duplicate / not found) → optional ' +
+          'combined group-impact check → confirm → write only the ready rows → download the ' +
+          'result CSV. Each updated user gets their own undo entry.\n\n' +
+          '**Related internals:** [Hooks](?path=/docs/internals-hooks--docs), ' +
+          '[Types](?path=/docs/internals-types--docs)',
+      },
+    },
+  },
+  argTypes: {
+    isOpen: { description: 'Whether the modal is visible.' },
+    phase: { description: 'Wizard step: idle → preview → running → done/error.' },
+    plan: { description: 'The dry-run plan: every row with its cells decided.' },
+    impact: { description: 'The combined group-impact prediction, once checked.' },
+    isAnalyzing: { description: 'Whether the group-impact check is running.' },
+    impactError: { description: 'Why the group-impact check failed.' },
+    result: { description: 'Per-user outcomes once the update has run.' },
+    error: { description: 'Error message when the preview or the update fails.' },
+    onPreview: { description: 'Dry-run the CSV text.' },
+    onAnalyzeImpact: { description: 'Predict the group access the ready rows would move.' },
+    onExecute: { description: 'Write the ready rows.' },
+    onDownloadResults: { description: 'Download the result CSV.' },
+    onBack: { description: 'Return to the CSV step, discarding the dry run.' },
+    onClose: { description: 'Close + reset.' },
+  },
+  args: {
+    isOpen: true,
+    phase: 'idle',
+    plan: null,
+    impact: null,
+    isAnalyzing: false,
+    impactError: null,
+    result: null,
+    error: null,
+    onPreview: fn(),
+    onAnalyzeImpact: fn(),
+    onExecute: fn(),
+    onDownloadResults: fn(),
+    onBack: fn(),
+    onClose: fn(),
+  },
+} satisfies Meta<typeof BulkProfileUpdateModal>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Step 1 — paste or upload the sheet. */
+export const Default: Story = {};
+
+/** Step 1 — the header names no key column. */
+export const BadHeader: Story = {
+  args: {
+    error:
+      'The first row must be a header naming an id (or login) column and the attributes to set.',
+  },
+};
+
+/** Step 2 — the dry run, before the group impact is checked. */
+export const Preview: Story = {
+  args: { phase: 'preview', plan: previewPlan },
+};
+
+/** Step 2 — the group impact is being checked. */
+export const Analyzing: Story = {
+  args: { phase: 'preview', plan: previewPlan, isAnalyzing: true },
+};
+
+/** Step 2 — the combined group impact across the batch. */
+export const WithImpact: Story = {
+  args: { phase: 'preview', plan: previewPlan, impact },
+};
+
+/** Step 2 — the rules could not be read, so nothing is predicted. */
+export const ImpactUnavailable: Story = {
+  args: {
+    phase: 'preview',
+    plan: previewPlan,
+    impact: {
+      ...impact,
+      status: 'unavailable',
+      groups: [],
+      notAnalyzed: [
+        { userId: ada.id, label: ada.profile.login },
+        { userId: alan.id, label: alan.profile.login },
+      ],
+    },
+  },
+};
+
+/** Step 3 — the writes are running. */
+export const Running: Story = {
+  args: { phase: 'running', plan: previewPlan },
+};
+
+/** Step 4 — done, with one refused write. */
+export const Done: Story = {
+  args: { phase: 'done', plan: previewPlan, result: doneResult },
+};
+
+/** Step 4 — one write got no answer; it may have applied. */
+export const Unconfirmed: Story = {
+  args: {
+    phase: 'done',
+    plan: previewPlan,
+    result: { ...doneResult, failed: 0, unknown: 1 },
+  },
+};
+
+/** Step 4 — stopped at a 403; the rest were never sent. */
+export const Halted: Story = {
+  args: {
+    phase: 'done',
+    plan: previewPlan,
+    result: { ...doneResult, saved: 0, notSent: 1 },
+  },
+};
+
+/** The preview failed outright. */
+export const ErrorState: Story = {
+  args: { phase: 'error', error: 'Failed to read the profile schema' },
+};
@@ -0,0 +1,220 @@
+/**
+ * Behavioral tests for the spreadsheet profile-update wizard.
+ *
+ * Pins what matters for a bulk write: the CSV is only ever previewed from the first
+ * step, the dry run shows each row's changes and why a blocked row is blocked, the
+ * group impact is only checked on request and keeps its hedges, the confirm names
+ * how many users will be updated (and is disabled at zero), and the done step
+ * reports unconfirmed writes and users that were never sent.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import BulkProfileUpdateModal from './BulkProfileUpdateModal';
+import type { BulkProfilePlan, BulkReadyRow } from './bulkProfilePlan';
+import type { BatchBlastRadius } from '../../../shared/membership/blastRadiusBatch';
+import type { OktaUser } from '../../../shared/types';
+
+const ada = {
+  id: '00uFAKE1',
+  status: 'ACTIVE',
+  profile: { login: 'ada@example.com', email: 'ada@example.com', firstName: 'Ada' },
+} as OktaUser;
+
+const readyRow: BulkReadyRow = {
+  line: 2,
+  key: '00uFAKE1',
+  status: 'ready',
+  user: ada,
+  cells: [
+    {
+      name: 'department',
+      label: 'Department',
+      status: 'change',
+      beforeDisplay: 'Sales',
+      beforeRaw: 'Sales',
+      afterDisplay: 'Marketing',
+      afterRaw: 'Marketing',
+    },
+  ],
+  patch: { department: 'Marketing' },
+};
+
+const plan: BulkProfilePlan = {
+  keyColumn: 'id',
+  attributeNames: ['department', 'badgeId'],
+  rows: [
+    readyRow,
+    {
+      line: 3,
+      key: '00uFAKE2',
+      status: 'blocked',
+      cells: [
+        {
+          name: 'badgeId',
+          label: 'Badge',
+          status: 'locked',
+          beforeDisplay: '',
+          beforeRaw: undefined,
+          afterDisplay: 'B-1',
+          problem: 'Read-only in the profile schema.',
+        },
+      ],
+    },
+    { line: 4, key: 'nope', status: 'not-found', cells: [] },
+  ],
+  counts: { ready: 1, 'no-change': 0, blocked: 1, duplicate: 0, 'not-found': 1 },
+  ready: [readyRow],
+  changeCount: 1,
+};
+
+const impact: BatchBlastRadius = {
+  status: 'computed',
+  groups: [
+    {
+      groupId: '00gFAKE1',
+      groupName: 'Sales',
+      likelyAdded: [],
+      likelyRemoved: [{ userId: ada.id, label: 'ada@example.com' }],
+      notPredicted: [],
+    },
+  ],
+  counts: { usersAnalyzed: 1, usersAffected: 1, added: 0, removed: 1, notPredicted: 0 },
+  notAnalyzed: [],
+  secondOrderRuleNames: [],
+};
+
+const base = {
+  isOpen: true,
+  phase: 'idle' as const,
+  plan: null as BulkProfilePlan | null,
+  impact: null as BatchBlastRadius | null,
+  isAnalyzing: false,
+  impactError: null,
+  result: null,
+  error: null,
+  onPreview: vi.fn(),
+  onAnalyzeImpact: vi.fn(),
+  onExecute: vi.fn(),
+  onDownloadResults: vi.fn(),
+  onBack: vi.fn(),
+  onClose: vi.fn(),
+};
+
+describe('BulkProfileUpdateModal', () => {
+  it('previews the pasted CSV, and not before something is pasted', async () => {
+    const onPreview = vi.fn();
+    render(<BulkProfileUpdateModal {...base} onPreview={onPreview} />);
+
+    const previewButton = screen.getByRole('button', { name: 'Preview update' });
+    expect(previewButton).toBeDisabled();
+
+    await userEvent.type(screen.getByRole('textbox'), 'id,title');
+    await userEvent.click(previewButton);
+
+    expect(onPreview).toHaveBeenCalledWith('id,title');
+  });
+
+  it('reads an uploaded file into the CSV field', async () => {
+    const onPreview = vi.fn();
+    render(<BulkProfileUpdateModal {...base} onPreview={onPreview} />);
+
+    const file = new window.File(['id,title\n00uFAKE1,Engineer'], 'sheet.csv', {
+      type: 'text/csv',
+    });
+    // jsdom's File has no `text()`; the panel's Chrome does.
+    Object.defineProperty(file, 'text', { value: async () => 'id,title\n00uFAKE1,Engineer' });
+    await userEvent.upload(screen.getByTestId('bulk-profile-file-input'), file);
+
+    expect(await screen.findByText('sheet.csv')).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Preview update' }));
+    expect(onPreview).toHaveBeenCalledWith('id,title\n00uFAKE1,Engineer');
+  });
+
+  it('shows each change and why a row is blocked, and confirms with the ready count', async () => {
+    const onExecute = vi.fn();
+    render(<BulkProfileUpdateModal {...base} phase="preview" plan={plan} onExecute={onExecute} />);
+
+    expect(screen.getByText('Department: Sales → Marketing')).toBeInTheDocument();
+    expect(screen.getByText('Badge: Read-only in the profile schema.')).toBeInTheDocument();
+    expect(screen.getAllByText('Blocked')).toHaveLength(2);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Update 1 user' }));
+    expect(onExecute).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks group impact only on request, and names the likely removals', async () => {
+    const onAnalyzeImpact = vi.fn();
+    const { rerender } = render(
+      <BulkProfileUpdateModal
+        {...base}
+        phase="preview"
+        plan={plan}
+        onAnalyzeImpact={onAnalyzeImpact}
+      />,
+    );
+
+    await userEvent.click(screen.getByRole('button', { name: 'Check group impact' }));
+    expect(onAnalyzeImpact).toHaveBeenCalledTimes(1);
+
+    rerender(<BulkProfileUpdateModal {...base} phase="preview" plan={plan} impact={impact} />);
+
+    expect(screen.getByText(/1 of 1 checked user likely change groups/)).toBeInTheDocument();
+    expect(screen.getByText('Likely removed: ada@example.com')).toBeInTheDocument();
+  });
+
+  it('says so when the impact could not be predicted', () => {
+    render(
+      <BulkProfileUpdateModal
+        {...base}
+        phase="preview"
+        plan={plan}
+        impact={{ ...impact, status: 'unavailable', groups: [] }}
+      />,
+    );
+
+    expect(screen.getByText(/could not be predicted/)).toBeInTheDocument();
+  });
+
+  it('cannot confirm a dry run with nobody ready', () => {
+    render(
+      <BulkProfileUpdateModal
+        {...base}
+        phase="preview"
+        plan={{ ...plan, ready: [], counts: { ...plan.counts, ready: 0 } }}
+      />,
+    );
+
+    expect(screen.getByRole('button', { name: 'Update 0 users' })).toBeDisabled();
+  });
+
+  it('reports unconfirmed writes and users never sent, and offers the result CSV', async () => {
+    const onDownloadResults = vi.fn();
+    render(
+      <BulkProfileUpdateModal
+        {...base}
+        phase="done"
+        plan={plan}
+        result={{
+          outcomes: new Map(),
+          saved: 3,
+          failed: 1,
+          unknown: 1,
+          notSent: 2,
+          cancelled: false,
+          savedUsers: [],
+        }}
+        onDownloadResults={onDownloadResults}
+      />,
+    );
+
+    expect(screen.getByText(/1 update got no answer from Okta/)).toBeInTheDocument();
+    expect(
+      screen.getByText(/2 users were not sent — the update stopped early/),
+    ).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Download results' }));
+    expect(onDownloadResults).toHaveBeenCalledTimes(1);
+  });
+});
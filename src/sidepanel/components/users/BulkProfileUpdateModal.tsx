@@ -0,0 +1,423 @@
+/**
+ * @module sidepanel/components/users/BulkProfileUpdateModal
+ * @description Wizard to update profile attributes across many users from a CSV.
+ *
+ * Upload or paste a sheet keyed by user id (or login) with one column per attribute
+ * → dry run, which decides every cell through the same editability gate as the
+ * Profile pane and sorts every row into ready / no change / blocked / duplicate /
+ * not found → an optional check of the group access the batch would move → confirm
+ * → write the ready rows → download the result CSV. Nothing is written before the
+ * confirm, and blocked rows are never sent in part.
+ *
+ * Presentational: {@link sidepanel/hooks/useBulkProfileUpdate.useBulkProfileUpdate}
+ * owns the phases and the calls.
+ */
+import React, { useRef, useState } from 'react';
+import Modal from '../shared/Modal';
+import Button from '../shared/Button';
+import Badge, { type BadgeVariant } from '../shared/Badge';
+import LoadingSpinner from '../shared/LoadingSpinner';
+import Textarea from '../shared/Textarea';
+import StatCard from '../overview/shared/StatCard';
+import type { BulkProfilePhase } from '../../hooks/useBulkProfileUpdate';
+import type { BulkProfileResult } from '../../hooks/useOktaApi/bulkProfileUpdate';
+import type { BatchBlastRadius, BatchUserRef } from '../../../shared/membership/blastRadiusBatch';
+import type { BulkProfilePlan, BulkRowStatus } from './bulkProfilePlan';
+
+/** Rows beyond this count are not listed in the dry run; the result CSV has them all. */
+const DISPLAY_CAP = 200;
+
+/** Groups beyond this count are not listed in the impact summary. */
+const IMPACT_GROUP_CAP = 25;
+
+/** Dry-run label and badge per row status. */
+const STATUS_BADGE: Record<BulkRowStatus, { label: string; variant: BadgeVariant }> = {
+  ready: { label: 'Ready', variant: 'primary' },
+  'no-change': { label: 'No change', variant: 'neutral' },
+  blocked: { label: 'Blocked', variant: 'danger' },
+  duplicate: { label: 'Duplicate', variant: 'neutral' },
+  'not-found': { label: 'Not found', variant: 'danger' },
+};
+
+interface BulkProfileUpdateModalProps {
+  isOpen: boolean;
+  phase: BulkProfilePhase;
+  plan: BulkProfilePlan | null;
+  impact: BatchBlastRadius | null;
+  isAnalyzing: boolean;
+  impactError: string | null;
+  result: BulkProfileResult | null;
+  error: string | null;
+  /** Dry-run the CSV text. */
+  onPreview: (csvText: string) => void;
+  /** Predict the group access the ready rows would move. */
+  onAnalyzeImpact: () => void;
+  /** Write the ready rows. */
+  onExecute: () => void;
+  /** Download the result CSV. */
+  onDownloadResults: () => void;
+  /** Return to the CSV step, discarding the dry run. */
+  onBack: () => void;
+  /** Close + reset. */
+  onClose: () => void;
+}
+
+/** `ada@example.com, alan@example.com and 3 more`. */
+function namesOf(users: readonly BatchUserRef[]): string {
+  const shown = users.slice(0, 3).map((u) => u.label);
+  const rest = users.length - shown.length;
+  return rest > 0 ? `${shown.join(', ')} and ${rest} more` : shown.join(', ');
+}
+
+/** The combined group-impact prediction, or the button that asks for it. */
+const ImpactSection: React.FC<{
+  readyCount: number;
+  impact: BatchBlastRadius | null;
+  isAnalyzing: boolean;
+  impactError: string | null;
+  onAnalyzeImpact: () => void;
+}> = ({ readyCount, impact, isAnalyzing, impactError, onAnalyzeImpact }) => {
+  if (!impact) {
+    return (
+      <div className="rounded-md border border-neutral-200 px-3 py-2 space-y-2">
+        <p className="text-sm text-neutral-600">
+          A profile change can move rule-driven group membership. Checking reads every ready
+          user&apos;s groups — one request each.
+        </p>
+        <Button
+          variant="secondary"
+          size="sm"
+          icon="users"
+          onClick={onAnalyzeImpact}
+          disabled={readyCount === 0 || isAnalyzing}
+          loading={isAnalyzing}
+        >
+          Check group impact
+        </Button>
+        {impactError && <p className="text-sm text-danger-text">{impactError}</p>}
+      </div>
+    );
+  }
+
+  if (impact.status === 'unavailable') {
+    return (
+      <div className="rounded-md border border-warning-light bg-warning-light px-3 py-2 text-sm text-warning-text">
+        Group impact could not be predicted — the rules or the users&apos; memberships could not be
+        read. Nothing is claimed about what the update does to group access.
+      </div>
+    );
+  }
+
+  const { counts } = impact;
+  return (
+    <div
+      className="rounded-md border border-neutral-200 px-3 py-2 space-y-2"
+      aria-label="Group impact"
+    >
+      <p className="text-sm text-neutral-900">
+        {counts.usersAffected === 0
+          ? `No rule-driven group change predicted for the ${counts.usersAnalyzed} checked user${counts.usersAnalyzed === 1 ? '' : 's'}.`
+          : `${counts.usersAffected} of ${counts.usersAnalyzed} checked user${counts.usersAnalyzed === 1 ? '' : 's'} likely change groups: ${counts.added} likely addition${counts.added === 1 ? '' : 's'}, ${counts.removed} likely removal${counts.removed === 1 ? '' : 's'}.`}
+      </p>
+      {impact.groups.length > 0 && (
+        <ul className="divide-y divide-neutral-100">
+          {impact.groups.slice(0, IMPACT_GROUP_CAP).map((group) => (
+            <li key={group.groupId} className="py-1.5 text-xs space-y-0.5">
+              <div className="text-sm text-neutral-900 truncate">{group.groupName}</div>
+              {group.likelyRemoved.length > 0 && (
+                <div className="text-danger-text">
+                  Likely removed: {namesOf(group.likelyRemoved)}
+                </div>
+              )}
+              {group.likelyAdded.length > 0 && (
+                <div className="text-success-text">Likely added: {namesOf(group.likelyAdded)}</div>
+              )}
+              {group.notPredicted.length > 0 && (
+                <div className="text-neutral-500">Not predicted: {namesOf(group.notPredicted)}</div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {impact.groups.length > IMPACT_GROUP_CAP && (
+        <p className="text-xs text-neutral-500">
+          Showing {IMPACT_GROUP_CAP} of {impact.groups.length} groups.
+        </p>
+      )}
+      {impact.notAnalyzed.length > 0 && (
+        <p className="text-xs text-warning-text">
+          Not checked — memberships could not be read: {namesOf(impact.notAnalyzed)}.
+        </p>
+      )}
+      {impact.secondOrderRuleNames.length > 0 && (
+        <p className="text-xs text-neutral-500">
+          Rules that read these groups may move membership further:{' '}
+          {impact.secondOrderRuleNames.join(', ')}.
+        </p>
+      )}
+    </div>
+  );
+};
+
+/** Renders the bulk update wizard across its CSV → dry run → running → done phases. */
+const BulkProfileUpdateModal: React.FC<BulkProfileUpdateModalProps> = ({
+  isOpen,
+  phase,
+  plan,
+  impact,
+  isAnalyzing,
+  impactError,
+  result,
+  error,
+  onPreview,
+  onAnalyzeImpact,
+  onExecute,
+  onDownloadResults,
+  onBack,
+  onClose,
+}) => {
+  const [csvText, setCsvText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const showInput = phase === 'idle' || phase === 'preview-loading';
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setCsvText(await file.text());
+    setFileName(file.name);
+    // Clear the input so choosing the same file again still fires a change.
+    event.target.value = '';
+  };
+
+  const ready = plan?.counts.ready ?? 0;
+
+  const footer =
+    phase === 'preview' && plan ? (
+      <>
+        <Button variant="secondary" onClick={onBack}>
+          Back
+        </Button>
+        <Button variant="ghost" icon="download" onClick={onDownloadResults}>
+          Download dry run
+        </Button>
+        <Button variant="primary" onClick={onExecute} disabled={ready === 0 || isAnalyzing}>
+          Update {ready} user{ready === 1 ? '' : 's'}
+        </Button>
+      </>
+    ) : phase === 'done' || phase === 'error' ? (
+      <>
+        {phase === 'done' && (
+          <Button variant="secondary" icon="download" onClick={onDownloadResults}>
+            Download results
+          </Button>
+        )}
+        <Button variant="primary" onClick={onClose}>
+          Close
+        </Button>
+      </>
+    ) : showInput ? (
+      <>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={() => onPreview(csvText)}
+          disabled={!csvText.trim() || phase === 'preview-loading'}
+          loading={phase === 'preview-loading'}
+        >
+          Preview update
+        </Button>
+      </>
+    ) : undefined;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Update profiles from CSV"
+      size="lg"
+      footer={footer}
+    >
+      {/* Step 1 — the CSV */}
+      {showInput && (
+        <div className="space-y-3">
+          <p className="text-sm text-neutral-600">
+            One user per row. The header names an <code>id</code> (or <code>login</code>) column and
+            one column per attribute, spelled as in Okta. A blank cell leaves that attribute alone.
+            Each cell is checked against the same rules as the Profile pane, and a row with any
+            locked or invalid cell is skipped whole. Nothing is written until you confirm the dry
+            run.
+          </p>
+          <div className="flex items-center gap-3">
+            <Button
+              variant="secondary"
+              size="sm"
+              icon="list"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Choose CSV file
+            </Button>
+            {fileName && <span className="text-xs text-neutral-500 truncate">{fileName}</span>}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv,text/plain"
+              className="hidden"
+              data-testid="bulk-profile-file-input"
+              onChange={handleFile}
+            />
+          </div>
+          <Textarea
+            label="Sheet"
+            value={csvText}
+            onChange={setCsvText}
+            rows={8}
+            placeholder={'id,department,title\n00u1a2b3c4d5e6f7g8h9,Finance,Analyst'}
+            hint="Or paste the CSV here."
+            disabled={phase === 'preview-loading'}
+          />
+          {error && <p className="text-sm text-danger-text">{error}</p>}
+        </div>
+      )}
+
+      {/* Step 2 — dry run */}
+      {phase === 'preview' && plan && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <StatCard title="Ready" value={plan.counts.ready} color="primary" icon="check" />
+            <StatCard
+              title="No change"
+              value={plan.counts['no-change'] + plan.counts.duplicate}
+              color="neutral"
+              icon="minus"
+            />
+            <StatCard
+              title="Blocked"
+              value={plan.counts.blocked}
+              color={plan.counts.blocked > 0 ? 'danger' : 'neutral'}
+              icon="lock"
+            />
+            <StatCard
+              title="Not found"
+              value={plan.counts['not-found']}
+              color={plan.counts['not-found'] > 0 ? 'danger' : 'neutral'}
+              icon="search"
+            />
+          </div>
+
+          <p className="text-xs text-neutral-500">
+            {plan.changeCount} attribute change{plan.changeCount === 1 ? '' : 's'} across{' '}
+            {plan.attributeNames.length} column{plan.attributeNames.length === 1 ? '' : 's'}.
+          </p>
+
+          <ImpactSection
+            readyCount={ready}
+            impact={impact}
+            isAnalyzing={isAnalyzing}
+            impactError={impactError}
+            onAnalyzeImpact={onAnalyzeImpact}
+          />
+
+          <ul
+            className="divide-y divide-neutral-100 rounded-md border border-neutral-200"
+            aria-label="Dry run"
+          >
+            {plan.rows.slice(0, DISPLAY_CAP).map((row) => (
+              <li key={row.line} className="px-3 py-2 space-y-1">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-sm text-neutral-900 truncate">{row.key}</div>
+                    {row.user && row.user.profile.login.toLowerCase() !== row.key.toLowerCase() && (
+                      <div className="text-xs text-neutral-500 truncate">
+                        {row.user.profile.login}
+                      </div>
+                    )}
+                  </div>
+                  <Badge variant={STATUS_BADGE[row.status].variant}>
+                    {STATUS_BADGE[row.status].label}
+                  </Badge>
+                </div>
+                {row.cells
+                  .filter((cell) => cell.status !== 'unchanged')
+                  .map((cell) =>
+                    cell.status === 'change' ? (
+                      <div key={cell.name} className="text-xs text-neutral-600 truncate">
+                        {cell.label}: {cell.beforeDisplay || '(empty)'} → {cell.afterDisplay}
+                      </div>
+                    ) : (
+                      <div key={cell.name} className="text-xs text-danger-text">
+                        {cell.label}: {cell.problem}
+                      </div>
+                    ),
+                  )}
+              </li>
+            ))}
+          </ul>
+          {plan.rows.length > DISPLAY_CAP && (
+            <p className="text-xs text-neutral-500">
+              Showing the first {DISPLAY_CAP} of {plan.rows.length.toLocaleString()} rows. The
+              dry-run CSV lists every row.
+            </p>
+          )}
+
+          <p className="text-xs text-neutral-400">
+            Each updated user gets their own entry in the History tab, undoable on its own.
+          </p>
+        </div>
+      )}
+
+      {/* Step 3 — running */}
+      {phase === 'running' && (
+        <LoadingSpinner
+          size="xl"
+          centered
+          message="Updating profiles… see the progress bar below."
+        />
+      )}
+
+      {/* Step 4 — done / error */}
+      {phase === 'done' && result && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-3">
+            <StatCard title="Saved" value={result.saved} color="success" icon="check" />
+            <StatCard
+              title="Failed"
+              value={result.failed}
+              color={result.failed > 0 ? 'danger' : 'neutral'}
+              icon="alert"
+            />
+            <StatCard
+              title="Unconfirmed"
+              value={result.unknown}
+              color={result.unknown > 0 ? 'warning' : 'neutral'}
+              icon="clock"
+            />
+          </div>
+          {result.unknown > 0 && (
+            <p className="text-sm text-warning-text">
+              {result.unknown} update{result.unknown === 1 ? '' : 's'} got no answer from Okta and
+              may have applied. They are in History; check those users before re-running.
+            </p>
+          )}
+          {result.notSent > 0 && (
+            <p className="text-sm text-warning-text">
+              {result.notSent} user{result.notSent === 1 ? ' was' : 's were'} not sent
+              {result.cancelled ? ' — the update was cancelled' : ' — the update stopped early'}.
+              Re-run the same CSV to update them; rows already updated show as no change.
+            </p>
+          )}
+          <p className="text-xs text-neutral-500">
+            The result CSV lists every row with its outcome.
+          </p>
+        </div>
+      )}
+      {phase === 'error' && (
+        <p className="text-sm text-danger-text">{error || 'The update did not complete.'}</p>
+      )}
+    </Modal>
+  );
+};
+
+export default BulkProfileUpdateModal;
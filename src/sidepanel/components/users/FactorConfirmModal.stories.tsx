@@ -0,0 +1,62 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import FactorConfirmModal from './FactorConfirmModal';
+import type { UserFactor } from '../../../shared/mfa/userFactors';
+
+const PUSH: UserFactor = {
+  id: 'opfFAKE1',
+  factorType: 'push',
+  provider: 'OKTA',
+  status: 'ACTIVE',
+  label: 'Okta Verify Push',
+  detail: 'Pixel 8 (Android)',
+  verifyMethod: 'push',
+};
+
+const SMS: UserFactor = {
+  id: 'mblFAKE2',
+  factorType: 'sms',
+  provider: 'OKTA',
+  status: 'ACTIVE',
+  label: 'SMS',
+  detail: '+1 XXX-XXX-0100',
+  verifyMethod: 'challenge',
+};
+
+/** The confirmation between an armed factor reset or verification and the write. */
+const meta = {
+  title: 'Users/FactorConfirmModal',
+  component: FactorConfirmModal,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Opens from the pending write itself. A reset warns that History cannot undo it; a ' +
+          'verification says what will reach the user — a push or a code.',
+      },
+    },
+  },
+  args: {
+    pending: { kind: 'reset', factor: SMS },
+    userName: 'Jane Doe',
+    onCancel: fn(),
+    onConfirm: fn(),
+  },
+} satisfies Meta<typeof FactorConfirmModal>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Resetting a factor: not undoable. */
+export const Reset: Story = {};
+
+/** Sending an Okta Verify push. */
+export const VerifyPush: Story = {
+  args: { pending: { kind: 'verify', factor: PUSH } },
+};
+
+/** Sending an SMS code. */
+export const VerifySms: Story = {
+  args: { pending: { kind: 'verify', factor: SMS } },
+};
@@ -0,0 +1,100 @@
+/**
+ * @module sidepanel/components/users/FactorConfirmModal
+ * @description The confirmation between an armed factor reset or verification
+ * and the write.
+ *
+ * Opens from `pending` — the nullable write itself — the same shape as
+ * `AdminRoleConfirmModal`. Each verb states the one consequence an admin could
+ * miss:
+ *
+ * - **Reset** cannot be undone from History: Okta discards the enrollment, and
+ *   only the user can enroll the factor again.
+ * - **Verify** reaches the user — a push to their phone, or a code by SMS, call
+ *   or email — so it is sent only when the user is expecting it.
+ *
+ * Security: the user's name, the factor label and its phone number or email
+ * render through React's escaping.
+ */
+import React from 'react';
+import { AlertMessage, Button, Modal } from '../shared';
+import type { PendingFactorWrite } from '../../hooks/useUserFactors';
+
+/** Props for {@link FactorConfirmModal}. */
+export interface FactorConfirmModalProps {
+  /** The write awaiting confirmation; `null` keeps the modal closed. */
+  pending: PendingFactorWrite | null;
+  /** The user the write applies to, as shown in the body. */
+  userName: string;
+  /** Dismiss without writing. */
+  onCancel: () => void;
+  /** Run the write. */
+  onConfirm: () => void;
+}
+
+/**
+ * Confirms one factor reset or verification.
+ *
+ * @param props - See {@link FactorConfirmModalProps}.
+ */
+const FactorConfirmModal: React.FC<FactorConfirmModalProps> = ({
+  pending,
+  userName,
+  onCancel,
+  onConfirm,
+}) => {
+  const isReset = pending?.kind === 'reset';
+  const factor = pending?.factor;
+  const isPush = factor?.verifyMethod === 'push';
+  const target = factor?.detail ? ` (${factor.detail})` : '';
+
+  return (
+    <Modal
+      isOpen={pending !== null}
+      onClose={onCancel}
+      title={isReset ? 'Reset Factor' : 'Verify Factor'}
+      size="sm"
+      footer={
+        <>
+          <Button variant="secondary" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant={isReset ? 'danger' : 'primary'} size="sm" onClick={onConfirm}>
+            {isReset ? 'Reset' : isPush ? 'Send push' : 'Send code'}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-3">
+        <p className="text-sm text-neutral-700">
+          {isReset ? (
+            <>
+              Reset <strong className="text-neutral-900">{factor?.label}</strong>
+              {target} for <strong className="text-neutral-900">{userName}</strong>?
+            </>
+          ) : (
+            <>
+              {isPush ? 'Send a push to ' : 'Send a code to '}
+              <strong className="text-neutral-900">{userName}</strong> through{' '}
+              <strong className="text-neutral-900">{factor?.label}</strong>
+              {target}?
+            </>
+          )}
+        </p>
+        {isReset ? (
+          <AlertMessage
+            message={{
+              text: 'History cannot undo this. The user has to enroll the factor again, at their next sign-in if a policy requires it.',
+              type: 'warning',
+            }}
+          />
+        ) : (
+          <p className="text-xs text-neutral-600">
+            Send it only while the user is on the line. The result is recorded in History.
+          </p>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default FactorConfirmModal;
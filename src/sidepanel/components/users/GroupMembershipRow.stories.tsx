@@ -146,6 +146,8 @@ const meta = {
     oktaOrigin: 'https://example.okta.com',
     proofEnabled: false,
     onProve: fn(),
+    timelineEnabled: false,
+    onLoadTimeline: fn(),
   },
   argTypes: {
     membership: { description: 'The membership this row is about, as the classifier produced it.' },
@@ -179,6 +181,16 @@ const meta = {
     onProve: {
       description: 'Asks Okta about this one membership — one API call, from a press only.',
     },
+    timelineEnabled: {
+      description: "Whether the surface can load a membership's history (a loader was supplied).",
+    },
+    timelineOutcome: {
+      description:
+        "Where this row's history request has got to, or `undefined` before anyone asked.",
+    },
+    onLoadTimeline: {
+      description: "Loads this membership's history — one System Log read, from a press only.",
+    },
   },
 } satisfies Meta<typeof GroupMembershipRow>;
 
@@ -330,6 +342,94 @@ export const ProofUnanswered: Story = {
   },
 };
 
+// ---------------------------------------------------------------------------
+// The membership history
+// ---------------------------------------------------------------------------
+
+/** The history action, before anyone has spent the System Log read. */
+export const TimelineIdle: Story = {
+  args: { expanded: true, timelineEnabled: true },
+};
+
+/**
+ * Loaded: a rule's add, an admin's removal made from this extension, and a
+ * re-add recorded only in this browser whose bulk outcome was never confirmed.
+ */
+export const TimelineLoaded: Story = {
+  args: {
+    expanded: true,
+    timelineEnabled: true,
+    timelineOutcome: {
+      status: 'loaded',
+      timeline: {
+        systemLogError: null,
+        entries: [
+          {
+            at: new Date(Date.now() - 2 * 60 * 60 * 1000),
+            change: 'added',
+            by: { kind: 'this-browser' },
+            madeHere: true,
+            inSystemLog: false,
+            unconfirmed: true,
+          },
+          {
+            at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
+            change: 'removed',
+            by: { kind: 'admin', login: 'admin@example.com' },
+            madeHere: true,
+            inSystemLog: true,
+            unconfirmed: false,
+          },
+          {
+            at: new Date(Date.now() - 40 * 24 * 60 * 60 * 1000),
+            change: 'added',
+            by: { kind: 'rule', ruleName: 'Engineers → Staff' },
+            madeHere: false,
+            inSystemLog: true,
+            unconfirmed: false,
+          },
+        ],
+      },
+    },
+  },
+};
+
+/** Nothing in the 90 days the System Log keeps — said as exactly that, not "never". */
+export const TimelineEmpty: Story = {
+  args: {
+    expanded: true,
+    timelineEnabled: true,
+    timelineOutcome: { status: 'loaded', timeline: { entries: [], systemLogError: null } },
+  },
+};
+
+/**
+ * The System Log could not be read (a role without report access): only this
+ * browser's own history is shown, and the strip says the list is partial.
+ */
+export const TimelineLogUnreadable: Story = {
+  args: {
+    expanded: true,
+    timelineEnabled: true,
+    timelineOutcome: {
+      status: 'loaded',
+      timeline: {
+        systemLogError: 'Failed to fetch System Log: 403',
+        entries: [
+          {
+            at: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
+            change: 'added',
+            by: { kind: 'this-browser' },
+            madeHere: true,
+            inSystemLog: false,
+            unconfirmed: false,
+          },
+        ],
+      },
+    },
+  },
+};
+
 /** The disclosure opening, driven from the chevron the way a reader opens it. */
 export const OpeningTheDisclosure: Story = {
   args: { expanded: false },
@@ -32,6 +32,8 @@ import { Badge, IconButton, ListRow, OpenInOktaLink } from '../shared';
 import Icon from '../overview/shared/Icon';
 import MembershipRuleEvidence from './MembershipRuleEvidence';
 import MembershipProofAction, { type MembershipProofOutcome } from './GroupMembershipsListProof';
+import MembershipTimelineStrip from './GroupMembershipTimeline';
+import type { MembershipTimelineOutcome } from '../../hooks/useMembershipTimelines';
 import { membershipVerdict } from './membershipVerdict';
 import { membershipSourceLine } from '../../../shared/membership/sourceLine';
 import type { RuleGroupContext } from '../../../shared/ruleEvaluator';
@@ -79,6 +81,12 @@ export interface GroupMembershipRowProps {
   proofOutcome?: MembershipProofOutcome;
   /** Asks Okta about this one membership (ADR-0031) — one API call, from a click only. */
   onProve: (membership: GroupMembership) => void;
+  /** Whether the surface can load a membership's history (a loader was supplied). */
+  timelineEnabled?: boolean;
+  /** Where this row's history request has got to, or `undefined` before anyone asked. */
+  timelineOutcome?: MembershipTimelineOutcome;
+  /** Loads this membership's history — one System Log read, from a click only. */
+  onLoadTimeline?: (membership: GroupMembership) => void;
 }
 
 /**
@@ -100,6 +108,9 @@ const GroupMembershipRow: React.FC<GroupMembershipRowProps> = ({
   proofEnabled,
   proofOutcome,
   onProve,
+  timelineEnabled = false,
+  timelineOutcome,
+  onLoadTimeline,
 }) => {
   const { group, rules } = membership;
   const line = membershipSourceLine(membership);
@@ -168,7 +179,20 @@ const GroupMembershipRow: React.FC<GroupMembershipRowProps> = ({
                 />
               )}
 
-              {/* 5. Okta's own page for the group. */}
+              {/*
+                5. When it changed and who changed it: the System Log merged with
+                this browser's history. Below the proof, because "which rule" is
+                read before "since when".
+              */}
+              {timelineEnabled && onLoadTimeline && (
+                <MembershipTimelineStrip
+                  membership={membership}
+                  outcome={timelineOutcome}
+                  onLoad={onLoadTimeline}
+                />
+              )}
+
+              {/* 6. Okta's own page for the group. */}
               <OpenInOktaLink oktaOrigin={oktaOrigin} entityType="group" entityId={group.id} />
             </div>
           </div>
@@ -0,0 +1,118 @@
+/**
+ * @module sidepanel/components/users/GroupMembershipTimeline
+ * @description The per-row "History" affordance on the user-detail memberships
+ * list: when the user got or lost the group, and who did it.
+ *
+ * The row above it says which rule manages the membership *now*; this says when
+ * it changed and by whose hand, from Okta's System Log merged with this browser's
+ * action history (`shared/membership/membershipTimeline`). Together they answer
+ * "which rule, when, and who changed it last".
+ *
+ * Like the "Ask Okta" proof beside it, it lives inside the row's disclosure and
+ * runs from a click only (per-row state: `hooks/useMembershipTimelines`): it is one System Log read per membership, and a user in
+ * forty groups should not cost forty reads nobody asked for.
+ *
+ * ## What the list can and cannot say
+ *
+ * The System Log keeps 90 days. An empty timeline therefore means "no change in
+ * 90 days", not "never changed", and says so. When the log cannot be read (an
+ * admin role without report access), the entries shown are this browser's only
+ * and the strip says that too, rather than passing a partial list off as whole.
+ *
+ * Admin logins and rule names are tenant data: rendered as escaped React text,
+ * never logged here.
+ */
+import React from 'react';
+import { Badge, Button } from '../shared';
+import {
+  describeChangeActor,
+  type MembershipTimelineEntry,
+} from '../../../shared/membership/membershipTimeline';
+import type { MembershipTimelineOutcome } from '../../hooks/useMembershipTimelines';
+import { formatDate, getRelativeTime } from '../../../shared/utils/dateFormat';
+import type { GroupMembership } from '../../../shared/types';
+
+/** One line of the timeline. */
+const TimelineRow: React.FC<{ entry: MembershipTimelineEntry }> = ({ entry }) => (
+  <li className="flex flex-wrap items-center gap-x-2 gap-y-0.5 text-xs text-neutral-700">
+    <Badge variant={entry.change === 'added' ? 'success' : 'danger'}>
+      {entry.change === 'added' ? 'Added' : 'Removed'}
+    </Badge>
+    <time dateTime={entry.at.toISOString()} title={formatDate(entry.at)}>
+      {getRelativeTime(entry.at.toISOString()) ?? formatDate(entry.at)}
+    </time>
+    <span>by {describeChangeActor(entry.by)}</span>
+    {entry.madeHere && entry.by.kind !== 'this-browser' && (
+      <span className="text-neutral-500">(from this extension)</span>
+    )}
+    {entry.unconfirmed && <span className="text-neutral-500">(outcome not confirmed)</span>}
+  </li>
+);
+
+/** Props for {@link MembershipTimelineStrip}. */
+interface MembershipTimelineStripProps {
+  membership: GroupMembership;
+  /** Where this row has got to, or `undefined` before anyone asked. */
+  outcome?: MembershipTimelineOutcome;
+  /** Invoked to load this membership's timeline. */
+  onLoad: (membership: GroupMembership) => void;
+}
+
+/**
+ * The row's history strip: the action before a load, the timeline after one.
+ *
+ * @param props - See {@link MembershipTimelineStripProps}.
+ */
+const MembershipTimelineStrip: React.FC<MembershipTimelineStripProps> = ({
+  membership,
+  outcome,
+  onLoad,
+}) => {
+  if (outcome?.status !== 'loaded') {
+    return (
+      <div className="mt-3">
+        <Button
+          variant="secondary"
+          size="sm"
+          icon="clock"
+          loading={outcome?.status === 'pending'}
+          onClick={() => onLoad(membership)}
+          title="Read when and by whom this membership changed (one System Log read)"
+        >
+          History
+        </Button>
+      </div>
+    );
+  }
+
+  const { entries, systemLogError } = outcome.timeline;
+  return (
+    <div className="mt-3 space-y-1.5" aria-label={`History of ${membership.group.profile.name}`}>
+      <h5 className="text-xs font-semibold text-neutral-700">History</h5>
+      {systemLogError && (
+        <p className="text-xs text-neutral-500">
+          The System Log could not be read ({systemLogError}); only changes made from this browser
+          are shown.
+        </p>
+      )}
+      {entries.length === 0 ? (
+        <p className="text-xs text-neutral-500">
+          {systemLogError
+            ? 'No changes recorded in this browser.'
+            : 'No changes in the last 90 days — the System Log keeps no more.'}
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {entries.map((entry) => (
+            <TimelineRow
+              key={`${entry.at.getTime()}-${entry.change}-${entry.by.kind}`}
+              entry={entry}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MembershipTimelineStrip;
@@ -14,6 +14,7 @@ import { render, screen, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import GroupMembershipsList from './GroupMembershipsList';
 import type { MemberRuleAttribution } from '../../../shared/membership/memberRuleAttribution';
+import type { MembershipTimeline } from '../../../shared/membership/membershipTimeline';
 import type { GroupMembership, OktaUser } from '../../../shared/types';
 
 const user: OktaUser = {
@@ -750,3 +751,83 @@ describe('GroupMembershipsList — proving one membership against Okta', () => {
     ).toBeInTheDocument();
   });
 });
+
+describe("GroupMembershipsList — a membership's history", () => {
+  const withTimeline = (
+    onLoadMembershipTimeline: (group: { id: string; name: string }) => Promise<MembershipTimeline>,
+  ) =>
+    render(
+      <GroupMembershipsList
+        {...base}
+        user={user}
+        onLoadMembershipTimeline={onLoadMembershipTimeline}
+      />,
+    );
+
+  it('offers no history action unless a loader is supplied', async () => {
+    render(<GroupMembershipsList {...base} user={user} />);
+    await openRow('Engineering');
+
+    expect(screen.queryByRole('button', { name: 'History' })).not.toBeInTheDocument();
+  });
+
+  it('reads the history only when pressed, for that group', async () => {
+    const onLoad = vi.fn().mockResolvedValue({ entries: [], systemLogError: null });
+    withTimeline(onLoad);
+
+    await openRow('Engineering');
+    expect(onLoad).not.toHaveBeenCalled();
+
+    await userEvent.click(screen.getByRole('button', { name: 'History' }));
+
+    expect(onLoad).toHaveBeenCalledTimes(1);
+    expect(onLoad).toHaveBeenCalledWith({ id: '00gFAKE1', name: 'Engineering' });
+    expect(await screen.findByText(/No changes in the last 90 days/)).toBeInTheDocument();
+  });
+
+  it('names who made each change, and marks the ones made from this extension', async () => {
+    withTimeline(() =>
+      Promise.resolve({
+        systemLogError: null,
+        entries: [
+          {
+            at: new Date('2026-03-02T12:00:00.000Z'),
+            change: 'removed',
+            by: { kind: 'admin', login: 'admin@example.com' },
+            madeHere: true,
+            inSystemLog: true,
+            unconfirmed: false,
+          },
+          {
+            at: new Date('2026-01-10T09:00:00.000Z'),
+            change: 'added',
+            by: { kind: 'rule', ruleName: 'Auto-add Engineers' },
+            madeHere: false,
+            inSystemLog: true,
+            unconfirmed: false,
+          },
+        ],
+      }),
+    );
+
+    await openRow('Engineering');
+    await userEvent.click(screen.getByRole('button', { name: 'History' }));
+
+    const history = await screen.findByLabelText('History of Engineering');
+    expect(within(history).getByText('by admin@example.com')).toBeInTheDocument();
+    expect(within(history).getByText('(from this extension)')).toBeInTheDocument();
+    expect(within(history).getByText('by the rule Auto-add Engineers')).toBeInTheDocument();
+  });
+
+  it('says the list is partial when the System Log could not be read', async () => {
+    withTimeline(() =>
+      Promise.resolve({ entries: [], systemLogError: 'Failed to fetch System Log: 403' }),
+    );
+
+    await openRow('Engineering');
+    await userEvent.click(screen.getByRole('button', { name: 'History' }));
+
+    expect(await screen.findByText(/could not be read/)).toBeInTheDocument();
+    expect(screen.getByText('No changes recorded in this browser.')).toBeInTheDocument();
+  });
+});
@@ -51,6 +51,7 @@ import { EmptyState, FilterPill, IconButton, Input, Skeleton } from '../shared';
 import Icon from '../overview/shared/Icon';
 import GroupMembershipRow from './GroupMembershipRow';
 import { useMembershipProofs } from './GroupMembershipsListProof';
+import { useMembershipTimelines } from '../../hooks/useMembershipTimelines';
 import {
   BUCKET_PILL_LABELS,
   filterMemberships,
@@ -59,6 +60,7 @@ import {
   type MembershipBucketFilter,
 } from './membershipVerdict';
 import type { MemberRuleAttribution } from '../../../shared/membership/memberRuleAttribution';
+import type { MembershipTimeline } from '../../../shared/membership/membershipTimeline';
 import { groupContextOf } from '../../../shared/membership/groupContext';
 import type { GroupMembership, OktaUser } from '../../../shared/types';
 
@@ -113,6 +115,12 @@ interface GroupMembershipsListProps {
    * the list, and never on mount.
    */
   onProveMembershipSource?: (groupId: string) => Promise<MemberRuleAttribution>;
+  /**
+   * Reads when and by whom one membership changed — the System Log merged with
+   * this browser's history. Supplied, each opened row gains a "History" action;
+   * like the proof, it is one read per row and only ever from that click.
+   */
+  onLoadMembershipTimeline?: (group: { id: string; name: string }) => Promise<MembershipTimeline>;
 }
 
 /**
@@ -130,11 +138,13 @@ const GroupMembershipsList: React.FC<GroupMembershipsListProps> = ({
   recentlyAddedGroupId,
   appsByGroupId,
   onProveMembershipSource,
+  onLoadMembershipTimeline,
 }) => {
   const [query, setQuery] = useState('');
   const [bucket, setBucket] = useState<MembershipBucketFilter>('all');
   const [openGroupIds, setOpenGroupIds] = useState<ReadonlySet<string>>(() => new Set());
   const proofs = useMembershipProofs(onProveMembershipSource);
+  const timelines = useMembershipTimelines(onLoadMembershipTimeline);
 
   const summary = useMemo(() => membershipSummaryLine(memberships), [memberships]);
   const visible = useMemo(
@@ -264,6 +274,9 @@ const GroupMembershipsList: React.FC<GroupMembershipsListProps> = ({
               proofEnabled={proofs.enabled}
               proofOutcome={proofs.outcomeFor(membership.group.id)}
               onProve={proofs.prove}
+              timelineEnabled={timelines.enabled}
+              timelineOutcome={timelines.outcomeFor(membership.group.id)}
+              onLoadTimeline={timelines.load}
             />
           ))}
         </div>
@@ -0,0 +1,113 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import UserAdminRolesPane from './UserAdminRolesPane';
+import type { UserAdminRole } from '../../../shared/adminRoles/adminRoles';
+import type { UserAdminRoles } from '../../hooks/useUserAdminRoles';
+
+const role = (over: Partial<UserAdminRole> = {}): UserAdminRole => ({
+  assignmentId: 'irbFAKE1',
+  type: 'HELP_DESK_ADMIN',
+  label: 'Help Desk Administrator',
+  status: 'ACTIVE',
+  assignmentType: 'USER',
+  revocable: true,
+  ...over,
+});
+
+const ROLES: UserAdminRole[] = [
+  role(),
+  role({
+    assignmentId: 'irbFAKE2',
+    type: 'READ_ONLY_ADMIN',
+    label: 'Read-only Administrator',
+    assignmentType: 'GROUP',
+    revocable: false,
+  }),
+];
+
+/** A complete bundle as `useUserAdminRoles` would return it. */
+const bundle = (over: Partial<UserAdminRoles> = {}): UserAdminRoles => ({
+  roles: ROLES,
+  isLoading: false,
+  error: null,
+  reload: fn(),
+  targets: {},
+  loadTargets: fn(),
+  canWrite: true,
+  pending: null,
+  requestGrant: fn(),
+  requestRevoke: fn(),
+  cancelPending: fn(),
+  confirmPending: fn(async () => {}),
+  isWriting: false,
+  ...over,
+});
+
+/** The user-detail rung's Roles pane. */
+const meta = {
+  title: 'Users/UserAdminRolesPane',
+  component: UserAdminRolesPane,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component:
+          'The administrator roles a user holds, each marked **Direct** or **Via group**, with the ' +
+          'scope of a targetable role read when asked. Direct roles can be revoked and any standard ' +
+          'role not held directly can be granted; both only arm the write — the confirmation is ' +
+          '`AdminRoleConfirmModal`, mounted by `UserDetailPanel`.',
+      },
+    },
+  },
+  args: { adminRoles: bundle() },
+  argTypes: {
+    adminRoles: { description: 'The Roles pane state and verbs, from `useUserAdminRoles`.' },
+  },
+} satisfies Meta<typeof UserAdminRolesPane>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** A direct role and a group-held one; only the direct one offers Revoke. */
+export const Default: Story = {};
+
+/** A scoped role with its targets read. */
+export const ScopeRead: Story = {
+  args: {
+    adminRoles: bundle({
+      targets: {
+        irbFAKE1: {
+          status: 'done',
+          targets: {
+            kind: 'groups',
+            targets: [
+              { id: '00gFAKE1', name: 'Support' },
+              { id: '00gFAKE2', name: 'Contractors' },
+            ],
+          },
+        },
+      },
+    }),
+  },
+};
+
+/** First read in flight. */
+export const Loading: Story = {
+  args: { adminRoles: bundle({ roles: null, isLoading: true }) },
+};
+
+/** The user holds no role. */
+export const NoRoles: Story = {
+  args: { adminRoles: bundle({ roles: [] }) },
+};
+
+/** The read was refused. */
+export const ReadFailed: Story = {
+  args: {
+    adminRoles: bundle({
+      roles: null,
+      error: 'You do not have permission to perform the requested action',
+    }),
+  },
+};
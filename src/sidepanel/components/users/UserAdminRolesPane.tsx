@@ -0,0 +1,199 @@
+/**
+ * @module sidepanel/components/users/UserAdminRolesPane
+ * @description The Users tab's Roles pane: the administrator roles this user
+ * holds, what each is scoped to, and the picker that grants another.
+ *
+ * A role held through a group is listed with a `Via group` badge and no Revoke
+ * button — Okta only takes that revoke on the group, and this pane never offers
+ * a write Okta would refuse. A role's scope is read when its row is opened
+ * (`Show scope`), not with the list: most roles are org-wide and have nothing to
+ * read.
+ *
+ * Grant and Revoke only arm the write; the confirmation is
+ * {@link AdminRoleConfirmModal}, mounted by {@link UserDetailPanel} because a
+ * pane renders and owns no dialog.
+ *
+ * Purely presentational over {@link useUserAdminRoles}. Role labels and group
+ * names are rendered through React's escaping and logged nowhere.
+ */
+import React, { useMemo, useState } from 'react';
+import { AlertMessage, Badge, Button, EmptyState, ListRow, Select, Skeleton } from '../shared';
+import {
+  STANDARD_ADMIN_ROLES,
+  describeRoleScope,
+  roleTargetKind,
+  type UserAdminRole,
+} from '../../../shared/adminRoles/adminRoles';
+import type { RoleTargetsState, UserAdminRoles } from '../../hooks/useUserAdminRoles';
+
+/** Props for {@link UserAdminRolesPane}. */
+export interface UserAdminRolesPaneProps {
+  /** The Roles pane's state and verbs, from `useUserAdminRoles`. */
+  adminRoles: UserAdminRoles;
+}
+
+/** The scope line for one role: org-wide, a count, or the state of its read. */
+const ScopeLine: React.FC<{
+  role: UserAdminRole;
+  state: RoleTargetsState | undefined;
+  onLoad: () => void;
+}> = ({ role, state, onLoad }) => {
+  if (!roleTargetKind(role.type)) {
+    return <span className="text-xs text-neutral-600">Whole org</span>;
+  }
+  if (!state) {
+    return (
+      <Button variant="ghost" size="sm" onClick={onLoad}>
+        Show scope
+      </Button>
+    );
+  }
+  if (state.status === 'loading') {
+    return <span className="text-xs text-neutral-500">Reading scope…</span>;
+  }
+  if (state.status === 'error') {
+    return (
+      <span className="flex items-center gap-2 text-xs text-danger-text">
+        Scope could not be read.
+        <Button variant="ghost" size="sm" onClick={onLoad}>
+          Retry
+        </Button>
+      </span>
+    );
+  }
+  const targets = state.targets?.targets ?? [];
+  return (
+    <div className="text-xs text-neutral-600">
+      <span>{describeRoleScope(state.targets)}</span>
+      {targets.length > 0 && (
+        <ul className="mt-1 list-disc pl-4">
+          {targets.map((target) => (
+            <li key={target.id}>{target.name}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lists a user's administrator roles, with revoke on each direct one and a
+ * picker to grant another standard role.
+ *
+ * @param props - See {@link UserAdminRolesPaneProps}.
+ */
+const UserAdminRolesPane: React.FC<UserAdminRolesPaneProps> = ({ adminRoles }) => {
+  const {
+    roles,
+    isLoading,
+    error,
+    reload,
+    targets,
+    loadTargets,
+    canWrite,
+    requestGrant,
+    requestRevoke,
+    isWriting,
+  } = adminRoles;
+  const [grantType, setGrantType] = useState('');
+
+  // Only roles the user does not already hold directly; a group-held role can
+  // still be granted directly, which is what makes it revocable from the user.
+  const grantOptions = useMemo(() => {
+    const held = new Set(
+      (roles ?? []).filter((r) => r.assignmentType !== 'GROUP').map((r) => r.type),
+    );
+    return STANDARD_ADMIN_ROLES.filter((r) => !held.has(r.type)).map((r) => ({
+      value: r.type,
+      label: r.label,
+    }));
+  }, [roles]);
+
+  return (
+    <div className="space-y-3 px-4 py-3">
+      {error && (
+        <AlertMessage
+          message={{ text: `Roles could not be read: ${error}`, type: 'danger' }}
+          action={{ label: 'Retry', onClick: reload }}
+        />
+      )}
+
+      {isLoading && !roles ? (
+        <Skeleton variant="row" size="lg" count={2} label="Loading administrator roles…" />
+      ) : roles && roles.length === 0 ? (
+        <EmptyState
+          icon="shield"
+          title="No administrator roles"
+          description="This user holds no admin role, directly or through a group."
+        />
+      ) : (
+        roles && (
+          <ul className="space-y-2" aria-label="Administrator roles">
+            {roles.map((role) => (
+              <ListRow key={role.assignmentId} as="li" density="compact">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      <span className="text-sm font-medium text-neutral-900">{role.label}</span>
+                      {role.assignmentType === 'GROUP' ? (
+                        <Badge variant="info" title="Held through a group — revoke it on the group">
+                          Via group
+                        </Badge>
+                      ) : (
+                        <Badge>Direct</Badge>
+                      )}
+                      {role.status && role.status !== 'ACTIVE' && (
+                        <Badge variant="warning">{role.status}</Badge>
+                      )}
+                    </div>
+                    <ScopeLine
+                      role={role}
+                      state={targets[role.assignmentId]}
+                      onLoad={() => loadTargets(role)}
+                    />
+                  </div>
+                  {role.revocable && canWrite && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      disabled={isWriting}
+                      onClick={() => requestRevoke(role)}
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              </ListRow>
+            ))}
+          </ul>
+        )
+      )}
+
+      {canWrite && roles && grantOptions.length > 0 && (
+        <div className="flex items-end gap-2 border-t border-neutral-200 pt-3">
+          <Select
+            label="Grant a standard role"
+            value={grantType}
+            onChange={setGrantType}
+            options={[{ value: '', label: 'Choose a role…' }, ...grantOptions]}
+            fullWidth
+          />
+          <Button
+            variant="primary"
+            size="sm"
+            icon="shield"
+            disabled={!grantType || isWriting}
+            onClick={() => {
+              requestGrant(grantType);
+              setGrantType('');
+            }}
+          >
+            Grant
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserAdminRolesPane;
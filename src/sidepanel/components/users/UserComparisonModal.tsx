@@ -52,6 +52,11 @@ interface UserComparisonModalProps {
    * nothing would re-render from.
    */
   onContextUserUpdated?: (user: OktaUser) => void;
+  /**
+   * A user to open the comparison on, skipping the search — see
+   * {@link sidepanel/hooks/useUserComparison.UseUserComparisonOptions.initialComparedUser}.
+   */
+  initialComparedUser?: OktaUser | null;
 }
 
 /**
@@ -68,6 +73,7 @@ const UserComparisonModal: React.FC<UserComparisonModalProps> = ({
   targetTabId,
   onGroupsChanged,
   onContextUserUpdated,
+  initialComparedUser,
 }) => {
   const comparison = useUserComparison({
     isActive: isOpen,
@@ -79,6 +85,7 @@ const UserComparisonModal: React.FC<UserComparisonModalProps> = ({
     oktaOrigin,
     onGroupsChanged,
     onContextUserUpdated,
+    initialComparedUser,
   });
 
   return (
@@ -112,6 +112,11 @@ export interface UserComparisonPanelProps {
    * longer holds, silently.
    */
   onContextUserUpdated?: (user: OktaUser) => void;
+  /**
+   * A user to open the comparison on, skipping the search — the Profile pane's
+   * "compare with their manager". Re-applied on every push.
+   */
+  initialComparedUser?: OktaUser | null;
 }
 
 /**
@@ -128,6 +133,7 @@ const UserComparisonPanel: React.FC<UserComparisonPanelProps> = ({
   targetTabId,
   onGroupsChanged,
   onContextUserUpdated,
+  initialComparedUser,
 }) => {
   const comparison = useUserComparison({
     isActive,
@@ -140,6 +146,7 @@ const UserComparisonPanel: React.FC<UserComparisonPanelProps> = ({
     oktaOrigin,
     onGroupsChanged,
     onContextUserUpdated,
+    initialComparedUser,
   });
 
   // The anchor is a node this panel owns; the element whose offset is preserved is
@@ -6,7 +6,13 @@
  * admin console splits a user into, but with source attribution on every row.
  * They are panes of one card rather than a stack of sections because they are
  * three answers to one question ("what does this person have, and why?"), and
- * stacking them made the page a scroll rather than a comparison.
+ * stacking them made the page a scroll rather than a comparison. A fourth,
+ * **Roles**, lists the administrator roles the user holds; it appears only when
+ * the rung supplies `adminRoles`. A fifth, **Factors**, lists the MFA factors the
+ * user has enrolled, with reset and verification, when the rung supplies
+ * `factors`. The Profile pane closes with the user's linked
+ * objects — their manager chain and reports — when the rung supplies
+ * `linkedObjects`.
  *
  * ## Panes are hidden, not unmounted
  *
@@ -58,18 +64,27 @@ import React, { useState } from 'react';
 import { Tabs, type TabItem } from '../shared';
 import GroupMembershipsList from './GroupMembershipsList';
 import UserAppsList from './UserAppsList';
+import UserAdminRolesPane from './UserAdminRolesPane';
+import AdminRoleConfirmModal from './AdminRoleConfirmModal';
+import UserFactorsPane from './UserFactorsPane';
+import FactorConfirmModal from './FactorConfirmModal';
 import UserProfilePane from './UserProfilePane';
+import UserLinkedObjectsSection from './UserLinkedObjectsSection';
 import ProfileDisplayModal from './ProfileDisplayModal';
 import ProfileSaveModal from './ProfileSaveModal';
 import { userDisplayName } from '../../../shared/utils/userDisplay';
 import type { AttributeDescriptor } from './profileAttributes';
 import type { GroupMembership, OktaUser } from '../../../shared/types';
 import type { MemberRuleAttribution } from '../../../shared/membership/memberRuleAttribution';
+import type { MembershipTimeline } from '../../../shared/membership/membershipTimeline';
 import type { ProfileDisplayConfig } from '../../../shared/storage/profileDisplayStore';
 import type { UserAppAssignment } from '../../hooks/useOktaApi/userOperations';
 import type { AppsByGroupId } from '../../hooks/useUserApps';
 import type { UserDetailPane } from '../../hooks/useUserDetailPanes';
 import type { UserProfileEditing } from '../../hooks/useUsersTabProfileEdit';
+import type { UserAdminRoles } from '../../hooks/useUserAdminRoles';
+import type { UserFactors } from '../../hooks/useUserFactors';
+import type { UserLinkedObjects } from '../../hooks/useUserLinkedObjects';
 
 /** Props for {@link UserDetailPanel}. */
 export interface UserDetailPanelProps {
@@ -100,6 +115,11 @@ export interface UserDetailPanelProps {
    * with Okta's own answer (ADR-0031). Omitted, no row offers the action.
    */
   onProveMembershipSource?: (groupId: string) => Promise<MemberRuleAttribution>;
+  /**
+   * Reads one membership's history (System Log plus this browser's actions).
+   * Omitted, no row offers the action.
+   */
+  onLoadMembershipTimeline?: (group: { id: string; name: string }) => Promise<MembershipTimeline>;
 
   /** The user's app assignments, granting group filled in wherever it is known. */
   apps: UserAppAssignment[];
@@ -148,6 +168,23 @@ export interface UserDetailPanelProps {
    * Okta tab, gets.
    */
   profileEdit?: UserProfileEditing;
+  /**
+   * The Roles pane. Absent hides the Roles tab altogether — a story, or a rung
+   * with no connected Okta tab, has no roles to read.
+   */
+  adminRoles?: UserAdminRoles;
+  /**
+   * The Factors pane. Absent hides the Factors tab, as `adminRoles` does for
+   * Roles.
+   */
+  factors?: UserFactors;
+  /**
+   * The Profile pane's linked-objects section. Absent renders the pane without
+   * it, as a story or a rung with no connected Okta tab gets.
+   */
+  linkedObjects?: UserLinkedObjects;
+  /** Opens the comparison against a linked user. Absent hides that action. */
+  onCompareWith?: (user: OktaUser) => void;
 }
 
 /**
@@ -166,6 +203,7 @@ const UserDetailPanel: React.FC<UserDetailPanelProps> = ({
   currentGroupId,
   recentlyAddedGroupId,
   onProveMembershipSource,
+  onLoadMembershipTimeline,
   apps,
   isLoadingApps,
   appsComplete,
@@ -178,6 +216,10 @@ const UserDetailPanel: React.FC<UserDetailPanelProps> = ({
   onProfileConfigReset,
   ruleReads,
   profileEdit,
+  adminRoles,
+  factors,
+  linkedObjects,
+  onCompareWith,
 }) => {
   // The gear belongs to the Profile pane, so its dialog's open state does too —
   // nothing outside this card reads it.
@@ -195,6 +237,8 @@ const UserDetailPanel: React.FC<UserDetailPanelProps> = ({
     },
     { key: 'apps', label: 'Apps', count: appCount },
     { key: 'profile', label: 'Profile', count: attributes.length || undefined },
+    ...(adminRoles ? [{ key: 'roles', label: 'Roles', count: adminRoles.roles?.length }] : []),
+    ...(factors ? [{ key: 'factors', label: 'Factors', count: factors.factors?.length }] : []),
   ];
 
   return (
@@ -223,6 +267,7 @@ const UserDetailPanel: React.FC<UserDetailPanelProps> = ({
           recentlyAddedGroupId={recentlyAddedGroupId}
           appsByGroupId={appsByGroupId}
           onProveMembershipSource={onProveMembershipSource}
+          onLoadMembershipTimeline={onLoadMembershipTimeline}
         />
       </div>
 
@@ -256,8 +301,37 @@ const UserDetailPanel: React.FC<UserDetailPanelProps> = ({
           edit={profileEdit?.controls}
           cells={profileEdit?.cells}
         />
+        {linkedObjects && (
+          <UserLinkedObjectsSection
+            user={user}
+            linkedObjects={linkedObjects}
+            onCompare={onCompareWith}
+          />
+        )}
       </div>
 
+      {adminRoles && (
+        <div
+          role="tabpanel"
+          aria-label="Roles"
+          hidden={pane !== 'roles'}
+          className={pane === 'roles' ? undefined : 'hidden'}
+        >
+          <UserAdminRolesPane adminRoles={adminRoles} />
+        </div>
+      )}
+
+      {factors && (
+        <div
+          role="tabpanel"
+          aria-label="Factors"
+          hidden={pane !== 'factors'}
+          className={pane === 'factors' ? undefined : 'hidden'}
+        >
+          <UserFactorsPane factors={factors} />
+        </div>
+      )}
+
       {/*
         Edits apply live to the pane behind the dialog: the patch goes straight to
         the store's `update`, and `assign`/`hidden` arrive as whole maps by design.
@@ -280,6 +354,24 @@ const UserDetailPanel: React.FC<UserDetailPanelProps> = ({
         mounted unconditionally whenever the rung offers editing.
       */}
       {profileEdit && <ProfileSaveModal {...profileEdit.save} userName={userDisplayName(user)} />}
+
+      {adminRoles && (
+        <AdminRoleConfirmModal
+          pending={adminRoles.pending}
+          userName={userDisplayName(user)}
+          onCancel={adminRoles.cancelPending}
+          onConfirm={() => void adminRoles.confirmPending()}
+        />
+      )}
+
+      {factors && (
+        <FactorConfirmModal
+          pending={factors.pending}
+          userName={userDisplayName(user)}
+          onCancel={factors.cancelPending}
+          onConfirm={() => void factors.confirmPending()}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,152 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import UserFactorsPane from './UserFactorsPane';
+import type { UserFactor } from '../../../shared/mfa/userFactors';
+import type { UserFactors } from '../../hooks/useUserFactors';
+
+const factor = (over: Partial<UserFactor> = {}): UserFactor => ({
+  id: 'opfFAKE1',
+  factorType: 'push',
+  provider: 'OKTA',
+  status: 'ACTIVE',
+  label: 'Okta Verify Push',
+  detail: 'Pixel 8 (Android)',
+  verifyMethod: 'push',
+  ...over,
+});
+
+const FACTORS: UserFactor[] = [
+  factor(),
+  factor({
+    id: 'mblFAKE2',
+    factorType: 'sms',
+    label: 'SMS',
+    detail: '+1 XXX-XXX-0100',
+    verifyMethod: 'challenge',
+  }),
+  factor({
+    id: 'ostFAKE3',
+    factorType: 'token:software:totp',
+    label: 'Okta Verify TOTP',
+    detail: null,
+    verifyMethod: 'code',
+  }),
+  factor({
+    id: 'fwfFAKE4',
+    factorType: 'webauthn',
+    provider: 'FIDO',
+    status: 'PENDING_ACTIVATION',
+    label: 'Security Key',
+    detail: 'YubiKey 5',
+    verifyMethod: null,
+  }),
+];
+
+/** A complete bundle as `useUserFactors` would return it. */
+const bundle = (over: Partial<UserFactors> = {}): UserFactors => ({
+  factors: FACTORS,
+  isLoading: false,
+  error: null,
+  reload: fn(),
+  canWrite: true,
+  pending: null,
+  requestReset: fn(),
+  requestVerify: fn(),
+  cancelPending: fn(),
+  confirmPending: fn(async () => {}),
+  isWriting: false,
+  verification: null,
+  submitCode: fn(async () => {}),
+  stopVerification: fn(),
+  ...over,
+});
+
+/** The user-detail rung's Factors pane. */
+const meta = {
+  title: 'Users/UserFactorsPane',
+  component: UserFactorsPane,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component:
+          'The MFA factors a user has enrolled, each with its status. Every factor can be reset ' +
+          'and an active push, SMS, call, email or TOTP factor can be verified; a push is polled ' +
+          'until the user answers, a code is typed in as the caller reads it. Reset and a ' +
+          'verification that sends something only arm the write — the confirmation is ' +
+          '`FactorConfirmModal`, mounted by `UserDetailPanel`.',
+      },
+    },
+  },
+  args: { factors: bundle() },
+  argTypes: {
+    factors: { description: 'The Factors pane state and verbs, from `useUserFactors`.' },
+  },
+} satisfies Meta<typeof UserFactorsPane>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** Push, SMS, TOTP and a security key that is not active yet (no Verify). */
+export const Default: Story = {};
+
+/** A push out, waiting for the user. */
+export const WaitingForPush: Story = {
+  args: {
+    factors: bundle({
+      verification: { factor: FACTORS[0], startedAt: 0, status: 'waiting', pollPath: '/poll' },
+    }),
+  },
+};
+
+/** An SMS code sent, ready to be typed in. */
+export const CodeSent: Story = {
+  args: {
+    factors: bundle({
+      verification: {
+        factor: FACTORS[1],
+        startedAt: 0,
+        status: 'code',
+        sent: true,
+        checking: false,
+      },
+    }),
+  },
+};
+
+/** The user approved the push. */
+export const Verified: Story = {
+  args: {
+    factors: bundle({ verification: { factor: FACTORS[0], startedAt: 0, status: 'verified' } }),
+  },
+};
+
+/** The user rejected the push. */
+export const Rejected: Story = {
+  args: {
+    factors: bundle({
+      verification: {
+        factor: FACTORS[0],
+        startedAt: 0,
+        status: 'failed',
+        error: 'The user rejected the push.',
+      },
+    }),
+  },
+};
+
+/** No factors enrolled. */
+export const Empty: Story = {
+  args: { factors: bundle({ factors: [] }) },
+};
+
+/** The list read failed. */
+export const ReadFailed: Story = {
+  args: { factors: bundle({ factors: null, error: 'Forbidden' }) },
+};
+
+/** Read-only: no connected tab, so no Verify or Reset. */
+export const ReadOnly: Story = {
+  args: { factors: bundle({ canWrite: false }) },
+};
@@ -0,0 +1,226 @@
+/**
+ * @module sidepanel/components/users/UserFactorsPane
+ * @description The Users tab's Factors pane: the MFA factors this user has
+ * enrolled, each with its status, and the verification in progress.
+ *
+ * An active factor that can be challenged offers Verify; every factor offers
+ * Reset. Both only arm the write — the confirmation is
+ * {@link FactorConfirmModal}, mounted by {@link UserDetailPanel} because a pane
+ * renders and owns no dialog. A TOTP or hardware-token Verify opens the code
+ * entry at once: nothing is sent, so there is nothing to confirm.
+ *
+ * The verification shows in a panel above the list, one at a time; rows offer no
+ * Verify while it runs.
+ *
+ * Purely presentational over {@link useUserFactors}. Phone numbers, emails and
+ * device names are rendered through React's escaping and logged nowhere.
+ */
+import React, { useState } from 'react';
+import {
+  AlertMessage,
+  Badge,
+  Button,
+  EmptyState,
+  Input,
+  ListRow,
+  LoadingSpinner,
+  Skeleton,
+} from '../shared';
+import type { BadgeVariant } from '../shared';
+import type { FactorVerificationState, UserFactors } from '../../hooks/useUserFactors';
+
+/** Props for {@link UserFactorsPane}. */
+export interface UserFactorsPaneProps {
+  /** The Factors pane's state and verbs, from `useUserFactors`. */
+  factors: UserFactors;
+}
+
+/** Badge tone per Okta factor status; anything else is neutral. */
+const STATUS_VARIANT: Record<string, BadgeVariant> = {
+  ACTIVE: 'success',
+  PENDING_ACTIVATION: 'warning',
+  NOT_SETUP: 'warning',
+  EXPIRED: 'danger',
+  INACTIVE: 'neutral',
+};
+
+/** The verification in progress or just ended, with its code entry when one is expected. */
+const VerificationPanel: React.FC<{
+  verification: FactorVerificationState;
+  onSubmit: (passCode: string) => void;
+  onStop: () => void;
+}> = ({ verification, onSubmit, onStop }) => {
+  const [code, setCode] = useState('');
+  const { factor } = verification;
+  const ended = verification.status === 'verified' || verification.status === 'failed';
+
+  return (
+    <div
+      className="space-y-2 rounded-md border border-neutral-200 bg-neutral-50 p-3"
+      aria-live="polite"
+      aria-label={`Verifying ${factor.label}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-neutral-900">{factor.label}</span>
+        <Button variant="ghost" size="sm" onClick={onStop}>
+          {ended ? 'Dismiss' : 'Stop'}
+        </Button>
+      </div>
+
+      {verification.status === 'sending' && (
+        <p className="flex items-center gap-2 text-xs text-neutral-600">
+          <LoadingSpinner size="sm" />
+          {factor.verifyMethod === 'push' ? 'Sending the push…' : 'Sending the code…'}
+        </p>
+      )}
+
+      {verification.status === 'waiting' && (
+        <p className="flex items-center gap-2 text-xs text-neutral-600">
+          <LoadingSpinner size="sm" />
+          Push sent. Waiting for the user to approve it on {factor.detail ?? 'their device'}.
+        </p>
+      )}
+
+      {verification.status === 'code' && (
+        <form
+          className="flex items-end gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSubmit(code);
+          }}
+        >
+          <Input
+            label={
+              verification.sent
+                ? `Code sent to ${factor.detail ?? 'the user'}`
+                : 'Code from the user’s device'
+            }
+            value={code}
+            onChange={setCode}
+            size="sm"
+            disabled={verification.checking}
+            autoFocus
+          />
+          <Button
+            type="submit"
+            variant="primary"
+            size="sm"
+            disabled={!code.trim() || verification.checking}
+          >
+            {verification.checking ? 'Checking…' : 'Check'}
+          </Button>
+        </form>
+      )}
+
+      {verification.status === 'verified' && (
+        <AlertMessage message={{ text: 'Verified. The factor answered.', type: 'success' }} />
+      )}
+
+      {verification.status === 'failed' && (
+        <AlertMessage message={{ text: verification.error, type: 'danger' }} />
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lists a user's enrolled factors, with verify and reset on each.
+ *
+ * @param props - See {@link UserFactorsPaneProps}.
+ */
+const UserFactorsPane: React.FC<UserFactorsPaneProps> = ({ factors: bundle }) => {
+  const {
+    factors,
+    isLoading,
+    error,
+    reload,
+    canWrite,
+    requestReset,
+    requestVerify,
+    isWriting,
+    verification,
+    submitCode,
+    stopVerification,
+  } = bundle;
+  const verifying =
+    verification !== null && verification.status !== 'verified' && verification.status !== 'failed';
+
+  return (
+    <div className="space-y-3 px-4 py-3">
+      {error && (
+        <AlertMessage
+          message={{ text: `Factors could not be read: ${error}`, type: 'danger' }}
+          action={{ label: 'Retry', onClick: reload }}
+        />
+      )}
+
+      {verification && (
+        <VerificationPanel
+          // A new verification starts with an empty code field.
+          key={`${verification.factor.id}:${verification.startedAt}`}
+          verification={verification}
+          onSubmit={(code) => void submitCode(code)}
+          onStop={stopVerification}
+        />
+      )}
+
+      {isLoading && !factors ? (
+        <Skeleton variant="row" size="lg" count={2} label="Loading factors…" />
+      ) : factors && factors.length === 0 ? (
+        <EmptyState
+          icon="key"
+          title="No factors enrolled"
+          description="This user has not enrolled any MFA factor."
+        />
+      ) : (
+        factors && (
+          <ul className="space-y-2" aria-label="MFA factors">
+            {factors.map((factor) => (
+              <ListRow key={factor.id} as="li" density="compact">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      <span className="text-sm font-medium text-neutral-900">{factor.label}</span>
+                      <Badge variant={STATUS_VARIANT[factor.status] ?? 'neutral'}>
+                        {factor.status}
+                      </Badge>
+                    </div>
+                    {factor.detail && (
+                      <span className="block truncate text-xs text-neutral-600">
+                        {factor.detail}
+                      </span>
+                    )}
+                  </div>
+                  {canWrite && (
+                    <div className="flex shrink-0 gap-1.5">
+                      {factor.verifyMethod && (
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          disabled={verifying || isWriting}
+                          onClick={() => requestVerify(factor)}
+                        >
+                          Verify
+                        </Button>
+                      )}
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        disabled={isWriting}
+                        onClick={() => requestReset(factor)}
+                      >
+                        Reset
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </ListRow>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
+
+export default UserFactorsPane;
@@ -193,7 +193,7 @@ const UserLifecycleActions: React.FC<UserLifecycleActionsProps> = ({
               <strong className="text-neutral-900">
                 {user.profile.firstName} {user.profile.lastName}
               </strong>
-              ? They will be unable to sign in until unsuspended.
+              ? They will be unable to sign in until unsuspended. You can undo this from History.
             </>
           )}
           {pendingLifecycleAction === 'unsuspend' && (
@@ -202,7 +202,7 @@ const UserLifecycleActions: React.FC<UserLifecycleActionsProps> = ({
               <strong className="text-neutral-900">
                 {user.profile.firstName} {user.profile.lastName}
               </strong>
-              ? They will regain the ability to sign in.
+              ? They will regain the ability to sign in. You can undo this from History.
             </>
           )}
           {pendingLifecycleAction === 'resetPassword' && (
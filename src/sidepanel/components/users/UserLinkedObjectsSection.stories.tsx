@@ -0,0 +1,133 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, fn, userEvent, within } from 'storybook/test';
+import UserLinkedObjectsSection from './UserLinkedObjectsSection';
+import {
+  linkedStepKey,
+  toLinkedPerson,
+  unreadPerson,
+  type LinkedStep,
+} from '../../../shared/linkedObjects/linkedObjects';
+import type { OktaUser } from '../../../shared/types';
+import type { UserLinkedObjects } from '../../hooks/useUserLinkedObjects';
+
+const person = (id: string, firstName: string, lastName: string): OktaUser => ({
+  id,
+  status: 'ACTIVE',
+  profile: {
+    login: `${firstName.toLowerCase()}.${lastName.toLowerCase()}@example.com`,
+    email: `${firstName.toLowerCase()}.${lastName.toLowerCase()}@example.com`,
+    firstName,
+    lastName,
+  },
+});
+
+const JANE = person('00uFAKE1', 'Jane', 'Doe');
+const ADA = person('00uFAKE2', 'Ada', 'Lovelace');
+const GRACE = person('00uFAKE3', 'Grace', 'Hopper');
+const ALAN = person('00uFAKE4', 'Alan', 'Turing');
+
+const done = (...users: OktaUser[]): LinkedStep => ({
+  status: 'done',
+  people: users.map(toLinkedPerson),
+});
+
+/** A complete bundle as `useUserLinkedObjects` would return it. */
+const bundle = (
+  steps: Record<string, LinkedStep>,
+  over: Partial<UserLinkedObjects> = {},
+): UserLinkedObjects => ({
+  relationships: [
+    { name: 'manager', title: 'Manager', direction: 'up', definition: 'manager' },
+    { name: 'subordinate', title: 'Reports', direction: 'down', definition: 'manager' },
+  ],
+  isLoading: false,
+  error: null,
+  steps,
+  loadStep: fn(),
+  ...over,
+});
+
+/** The Profile pane's linked objects. */
+const meta = {
+  title: 'Users/UserLinkedObjectsSection',
+  component: UserLinkedObjectsSection,
+  tags: ['autodocs'],
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component:
+          'A user’s linked objects — their manager chain and their reports — closing the Profile ' +
+          'pane. The chain grows one level per **Show next level** and a report opens onto their own ' +
+          'reports, each a single request. **Compare access** opens the Users tab’s comparison ' +
+          'already set against that person.',
+      },
+    },
+  },
+  args: {
+    user: JANE,
+    linkedObjects: bundle({
+      [linkedStepKey(JANE.id, 'manager')]: done(ADA),
+      [linkedStepKey(JANE.id, 'subordinate')]: done(ALAN),
+    }),
+    onCompare: fn(),
+  },
+  argTypes: {
+    linkedObjects: { description: 'The section state and loader, from `useUserLinkedObjects`.' },
+    onCompare: { description: 'Opens the comparison against a linked user.' },
+  },
+} satisfies Meta<typeof UserLinkedObjectsSection>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** A manager and one report; the next level up is one click away. */
+export const Default: Story = {
+  play: async ({ canvasElement, args }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Show next level' }));
+    await expect(args.linkedObjects.loadStep).toHaveBeenCalledWith(ADA.id, 'manager');
+  },
+};
+
+/** Two levels read, a report opened onto their own reports, and one report unreadable. */
+export const Walked: Story = {
+  args: {
+    linkedObjects: bundle({
+      [linkedStepKey(JANE.id, 'manager')]: done(ADA),
+      [linkedStepKey(ADA.id, 'manager')]: done(GRACE),
+      [linkedStepKey(GRACE.id, 'manager')]: done(),
+      [linkedStepKey(JANE.id, 'subordinate')]: {
+        status: 'done',
+        people: [toLinkedPerson(ALAN), unreadPerson('00uFAKE9')],
+      },
+      [linkedStepKey(ALAN.id, 'subordinate')]: { status: 'loading' },
+    }),
+  },
+};
+
+/** A chain that comes back to the user stops with a note. */
+export const Loop: Story = {
+  args: {
+    linkedObjects: bundle({
+      [linkedStepKey(JANE.id, 'manager')]: done(ADA),
+      [linkedStepKey(ADA.id, 'manager')]: done(JANE),
+      [linkedStepKey(JANE.id, 'subordinate')]: done(ADA),
+    }),
+  },
+};
+
+/** A step that failed offers its retry. */
+export const StepFailed: Story = {
+  args: {
+    linkedObjects: bundle({
+      [linkedStepKey(JANE.id, 'manager')]: { status: 'error', error: 'Forbidden' },
+      [linkedStepKey(JANE.id, 'subordinate')]: done(),
+    }),
+  },
+};
+
+/** The org defines no linked objects. */
+export const NoneDefined: Story = {
+  args: { linkedObjects: bundle({}, { relationships: [] }) },
+};
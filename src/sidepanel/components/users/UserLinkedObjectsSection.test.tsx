@@ -0,0 +1,104 @@
+/**
+ * Behavioral tests for the Profile pane's linked-objects section.
+ *
+ * The section is presentational over `useUserLinkedObjects`, so it is driven
+ * with a hand-built bundle, pinning: the chain grows one requested level at a
+ * time, a loop ends the walk with a note, a report opens onto their own reports
+ * on request, and Compare access is offered only for a user whose record was
+ * read.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`).
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import UserLinkedObjectsSection from './UserLinkedObjectsSection';
+import {
+  linkedStepKey,
+  toLinkedPerson,
+  unreadPerson,
+  type LinkedStep,
+} from '../../../shared/linkedObjects/linkedObjects';
+import type { OktaUser } from '../../../shared/types';
+import type { UserLinkedObjects } from '../../hooks/useUserLinkedObjects';
+
+const person = (id: string, firstName: string): OktaUser => ({
+  id,
+  status: 'ACTIVE',
+  profile: {
+    login: `${firstName.toLowerCase()}@example.com`,
+    email: `${firstName.toLowerCase()}@example.com`,
+    firstName,
+    lastName: 'Doe',
+  },
+});
+
+const jane = person('00uFAKE1', 'Jane');
+const ada = person('00uFAKE2', 'Ada');
+
+const bundle = (steps: Record<string, LinkedStep>): UserLinkedObjects => ({
+  relationships: [
+    { name: 'manager', title: 'Manager', direction: 'up', definition: 'manager' },
+    { name: 'subordinate', title: 'Reports', direction: 'down', definition: 'manager' },
+  ],
+  isLoading: false,
+  error: null,
+  steps,
+  loadStep: vi.fn(),
+});
+
+describe('UserLinkedObjectsSection', () => {
+  it('shows the manager and reads the next level only when asked', async () => {
+    const linked = bundle({
+      [linkedStepKey('00uFAKE1', 'manager')]: { status: 'done', people: [toLinkedPerson(ada)] },
+      [linkedStepKey('00uFAKE1', 'subordinate')]: { status: 'done', people: [] },
+    });
+    render(<UserLinkedObjectsSection user={jane} linkedObjects={linked} />);
+
+    const chain = screen.getByRole('list', { name: 'Manager chain' });
+    expect(within(chain).getByText('Ada Doe')).toBeInTheDocument();
+    expect(linked.loadStep).not.toHaveBeenCalled();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Show next level' }));
+    expect(linked.loadStep).toHaveBeenCalledWith('00uFAKE2', 'manager');
+  });
+
+  it('ends a chain that loops back on itself', () => {
+    render(
+      <UserLinkedObjectsSection
+        user={jane}
+        linkedObjects={bundle({
+          [linkedStepKey('00uFAKE1', 'manager')]: { status: 'done', people: [toLinkedPerson(ada)] },
+          [linkedStepKey('00uFAKE2', 'manager')]: {
+            status: 'done',
+            people: [toLinkedPerson(jane)],
+          },
+        })}
+      />,
+    );
+    expect(screen.getByText(/loops back to someone already on it/)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Show next level' })).not.toBeInTheDocument();
+  });
+
+  it('opens a report onto their reports, and compares only a user that was read', async () => {
+    const onCompare = vi.fn();
+    const linked = bundle({
+      [linkedStepKey('00uFAKE1', 'manager')]: { status: 'done', people: [] },
+      [linkedStepKey('00uFAKE1', 'subordinate')]: {
+        status: 'done',
+        people: [toLinkedPerson(ada), unreadPerson('00uFAKE3')],
+      },
+    });
+    render(<UserLinkedObjectsSection user={jane} linkedObjects={linked} onCompare={onCompare} />);
+
+    const reports = screen.getByRole('list', { name: 'Reports' });
+    expect(within(reports).getAllByRole('button', { name: 'Compare access' })).toHaveLength(1);
+    expect(within(reports).getByText('Could not be read')).toBeInTheDocument();
+
+    await userEvent.click(within(reports).getByRole('button', { name: 'Compare access' }));
+    expect(onCompare).toHaveBeenCalledWith(ada);
+
+    await userEvent.click(within(reports).getAllByRole('button', { name: 'Reports' })[0]);
+    expect(linked.loadStep).toHaveBeenCalledWith('00uFAKE2', 'subordinate');
+  });
+});
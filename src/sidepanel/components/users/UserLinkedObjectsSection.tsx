@@ -0,0 +1,274 @@
+/**
+ * @module sidepanel/components/users/UserLinkedObjectsSection
+ * @description The Profile pane's linked objects: who this user reports to, who
+ * reports to them, and any other user-to-user relationship the org defines.
+ *
+ * Each definition renders as its two sides. The `up` side is a chain — manager,
+ * their manager, and so on — grown one level per **Show next level**; the
+ * `down` side is a tree whose nodes open one at a time. Both read one
+ * relationship of one user per click through the scheduler, never the whole
+ * chart. A chain that loops back on itself stops and says so.
+ *
+ * Every linked person is an `EntityLink` to their own detail page, and a person
+ * whose record was read offers **Compare access**, which opens the Users tab's
+ * comparison already set against them. Someone whose read failed is still
+ * listed, by id.
+ *
+ * Purely presentational over {@link useUserLinkedObjects}. Names and logins are
+ * rendered through React's escaping and logged nowhere.
+ */
+import React, { useState } from 'react';
+import { AlertMessage, Button, EntityLink, Eyebrow, Skeleton } from '../shared';
+import {
+  linkedStepKey,
+  walkUp,
+  type LinkedPerson,
+  type LinkedRelationship,
+} from '../../../shared/linkedObjects/linkedObjects';
+import type { OktaUser } from '../../../shared/types';
+import type { UserLinkedObjects } from '../../hooks/useUserLinkedObjects';
+
+/** Props for {@link UserLinkedObjectsSection}. */
+export interface UserLinkedObjectsSectionProps {
+  /** The user the walk starts from. */
+  user: OktaUser;
+  /** The section's state and loader, from `useUserLinkedObjects`. */
+  linkedObjects: UserLinkedObjects;
+  /** Opens the comparison against a linked user. Absent hides Compare access. */
+  onCompare?: (user: OktaUser) => void;
+}
+
+/** One linked person: their link, login and the compare action. */
+const PersonLine: React.FC<{
+  person: LinkedPerson;
+  onCompare?: (user: OktaUser) => void;
+  children?: React.ReactNode;
+}> = ({ person, onCompare, children }) => {
+  const { user } = person;
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <div className="min-w-0">
+        <EntityLink type="user" id={person.id} name={person.name} />
+        {person.login && <div className="truncate text-xs text-neutral-600">{person.login}</div>}
+        {!user && <div className="text-xs text-neutral-500">Could not be read</div>}
+      </div>
+      <div className="flex shrink-0 items-center gap-1">
+        {children}
+        {user && onCompare && (
+          <Button variant="ghost" size="sm" icon="users" onClick={() => onCompare(user)}>
+            Compare access
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/** The state of a step that has not returned people: loading, or failed with a retry. */
+const StepStatus: React.FC<{
+  status: 'loading' | 'error';
+  error?: string;
+  onRetry: () => void;
+}> = ({ status, error, onRetry }) =>
+  status === 'loading' ? (
+    <span className="text-xs text-neutral-500">Reading…</span>
+  ) : (
+    <span className="flex items-center gap-2 text-xs text-danger-text">
+      Could not be read{error ? `: ${error}` : '.'}
+      <Button variant="ghost" size="sm" onClick={onRetry}>
+        Retry
+      </Button>
+    </span>
+  );
+
+/** The `up` side: the chain above the user, one more level per click. */
+const UpwardChain: React.FC<{
+  user: OktaUser;
+  relationship: LinkedRelationship;
+  linkedObjects: UserLinkedObjects;
+  onCompare?: (user: OktaUser) => void;
+}> = ({ user, relationship, linkedObjects, onCompare }) => {
+  const { steps, loadStep } = linkedObjects;
+  const walk = walkUp(user.id, relationship.name, steps);
+  const { nextUserId, pending } = walk;
+
+  return (
+    <div className="space-y-1.5">
+      <Eyebrow as="div">{relationship.title}</Eyebrow>
+      {walk.chain.length > 0 && (
+        <ol className="space-y-1.5" aria-label={`${relationship.title} chain`}>
+          {walk.chain.map((person) => (
+            <li key={person.id}>
+              <PersonLine person={person} onCompare={onCompare} />
+            </li>
+          ))}
+        </ol>
+      )}
+      {pending && pending.status !== 'done' && nextUserId ? (
+        <StepStatus
+          status={pending.status}
+          error={pending.status === 'error' ? pending.error : undefined}
+          onRetry={() => loadStep(nextUserId, relationship.name)}
+        />
+      ) : walk.cycle ? (
+        <p className="text-xs text-warning-text">
+          The chain loops back to someone already on it, so the walk stops here.
+        </p>
+      ) : nextUserId ? (
+        <Button variant="ghost" size="sm" onClick={() => loadStep(nextUserId, relationship.name)}>
+          {walk.chain.length > 0 ? 'Show next level' : `Show ${relationship.title}`}
+        </Button>
+      ) : (
+        walk.chain.length === 0 && <p className="text-xs text-neutral-500">None set.</p>
+      )}
+    </div>
+  );
+};
+
+/** The `down` side below one user, each person openable onto their own. */
+const DownwardTree: React.FC<{
+  userId: string;
+  relationship: LinkedRelationship;
+  linkedObjects: UserLinkedObjects;
+  onCompare?: (user: OktaUser) => void;
+  /** Everyone above this level, so a loop is not offered as a node to open. */
+  ancestors: ReadonlySet<string>;
+  /** Opened nodes, by `linkedStepKey` of the person and this relationship. */
+  open: ReadonlySet<string>;
+  onToggle: (personId: string) => void;
+}> = ({ userId, relationship, linkedObjects, onCompare, ancestors, open, onToggle }) => {
+  const step = linkedObjects.steps[linkedStepKey(userId, relationship.name)];
+  if (!step) return null;
+  if (step.status !== 'done') {
+    return (
+      <StepStatus
+        status={step.status}
+        error={step.status === 'error' ? step.error : undefined}
+        onRetry={() => linkedObjects.loadStep(userId, relationship.name)}
+      />
+    );
+  }
+  if (step.people.length === 0) {
+    return <p className="text-xs text-neutral-500">None.</p>;
+  }
+
+  const below = new Set(ancestors).add(userId);
+  return (
+    <ul className="space-y-1.5" aria-label={relationship.title}>
+      {step.people.map((person) => {
+        const isOpen = open.has(linkedStepKey(person.id, relationship.name));
+        const loops = below.has(person.id);
+        return (
+          <li key={person.id}>
+            <PersonLine person={person} onCompare={onCompare}>
+              {!loops && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  expanded={isOpen}
+                  onClick={() => onToggle(person.id)}
+                  title={`Show ${relationship.title} of ${person.name}`}
+                >
+                  {isOpen ? 'Hide' : relationship.title}
+                </Button>
+              )}
+            </PersonLine>
+            {isOpen && (
+              <div className="mt-1.5 border-l border-neutral-200 pl-3">
+                <DownwardTree
+                  userId={person.id}
+                  relationship={relationship}
+                  linkedObjects={linkedObjects}
+                  onCompare={onCompare}
+                  ancestors={below}
+                  open={open}
+                  onToggle={onToggle}
+                />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+/**
+ * Lists a user's linked objects, with the org-chart walk up and down from them.
+ *
+ * @param props - See {@link UserLinkedObjectsSectionProps}.
+ */
+const UserLinkedObjectsSection: React.FC<UserLinkedObjectsSectionProps> = ({
+  user,
+  linkedObjects,
+  onCompare,
+}) => {
+  const { relationships, isLoading, error, loadStep } = linkedObjects;
+  // Opened nodes of the downward trees. Local, like the pane's own filter: the
+  // section is hidden rather than unmounted, so an opened tree survives a trip
+  // to another pane.
+  const [open, setOpen] = useState<Set<string>>(new Set());
+  const [openUserId, setOpenUserId] = useState(user.id);
+  if (openUserId !== user.id) {
+    setOpenUserId(user.id);
+    setOpen(new Set());
+  }
+
+  const toggle = (relationship: string) => (personId: string) => {
+    const key = linkedStepKey(personId, relationship);
+    const next = new Set(open);
+    if (!next.delete(key)) {
+      next.add(key);
+      loadStep(personId, relationship);
+    }
+    setOpen(next);
+  };
+
+  return (
+    <section
+      aria-label="Linked objects"
+      className="space-y-3 border-t border-neutral-200 px-4 py-3"
+    >
+      <Eyebrow as="h3">Linked objects</Eyebrow>
+      {error && (
+        <AlertMessage
+          message={{ text: `Linked objects could not be read: ${error}`, type: 'danger' }}
+        />
+      )}
+      {isLoading && relationships.length === 0 ? (
+        <Skeleton variant="row" size="lg" count={2} label="Loading linked objects…" />
+      ) : (
+        !error &&
+        relationships.length === 0 && (
+          <p className="text-xs text-neutral-500">This org defines no linked objects.</p>
+        )
+      )}
+      {relationships.map((relationship) =>
+        relationship.direction === 'up' ? (
+          <UpwardChain
+            key={`${relationship.definition}-up`}
+            user={user}
+            relationship={relationship}
+            linkedObjects={linkedObjects}
+            onCompare={onCompare}
+          />
+        ) : (
+          <div key={`${relationship.definition}-down`} className="space-y-1.5">
+            <Eyebrow as="div">{relationship.title}</Eyebrow>
+            <DownwardTree
+              userId={user.id}
+              relationship={relationship}
+              linkedObjects={linkedObjects}
+              onCompare={onCompare}
+              ancestors={new Set()}
+              open={open}
+              onToggle={toggle(relationship.name)}
+            />
+          </div>
+        ),
+      )}
+    </section>
+  );
+};
+
+export default UserLinkedObjectsSection;
@@ -11,9 +11,12 @@
  * `space-y-6` rhythm is unchanged) and exposes an {@link UserSearchPanelProps.alerts}
  * slot for the tab's merged error / result banners, which sit between the search box
  * and the results exactly as they did before the decomposition.
+ *
+ * The spreadsheet profile update lives here rather than on the detail rung's action
+ * strip, because it is not about the user you have open.
  */
 import React from 'react';
-import { EmptyState } from '../shared';
+import { Button, EmptyState } from '../shared';
 import DetectedUserBanner from './DetectedUserBanner';
 import UserSearchBar from './UserSearchBar';
 import UserSearchResults from './UserSearchResults';
@@ -53,6 +56,12 @@ export interface UserSearchPanelProps {
    * the results.
    */
   alerts?: React.ReactNode;
+  /** Open the spreadsheet profile update; the button is hidden when absent. */
+  onBulkUpdate?: () => void;
+  /** Open the bulk lifecycle console; the button is hidden when absent. */
+  onBulkLifecycle?: () => void;
+  /** Open the all-admins report; the button is hidden when absent. */
+  onAdminsReport?: () => void;
 }
 
 /**
@@ -73,6 +82,9 @@ const UserSearchPanel: React.FC<UserSearchPanelProps> = ({
   hasSelectedUser,
   hasError,
   alerts,
+  onBulkUpdate,
+  onBulkLifecycle,
+  onAdminsReport,
 }) => {
   return (
     <>
@@ -95,6 +107,26 @@ const UserSearchPanel: React.FC<UserSearchPanelProps> = ({
             onDismiss={onDismissDetectedUser}
           />
         )}
+
+        {(onBulkUpdate || onBulkLifecycle || onAdminsReport) && (
+          <div className="flex justify-end gap-2">
+            {onAdminsReport && (
+              <Button variant="ghost" size="sm" icon="shield" onClick={onAdminsReport}>
+                All admins
+              </Button>
+            )}
+            {onBulkUpdate && (
+              <Button variant="ghost" size="sm" icon="list" onClick={onBulkUpdate}>
+                Update profiles from CSV
+              </Button>
+            )}
+            {onBulkLifecycle && (
+              <Button variant="ghost" size="sm" icon="users" onClick={onBulkLifecycle}>
+                Change status
+              </Button>
+            )}
+          </div>
+        )}
       </div>
 
       {alerts}
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for the bulk lifecycle preflight.
+ *
+ * Pins who an action changes and who it skips: the status table per action, the
+ * signed-in admin left out, a repeated user counted once, unresolved rows kept
+ * with their reason, and the skip summary folded by reason and status.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `example.com`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  lifecycleSkip,
+  planBulkLifecycle,
+  type LifecycleSubject,
+  type LifecycleTargetSet,
+} from './bulkLifecyclePlan';
+
+function subject(id: string, status: string): LifecycleSubject {
+  return { id, login: `${id}@example.com`, name: id, status };
+}
+
+function targetSet(users: LifecycleSubject[], currentUserId: string | null = null) {
+  return {
+    sourceLabel: 'Test',
+    targets: users.map((user) => ({ key: user.login, user })),
+    currentUserId,
+  } satisfies LifecycleTargetSet;
+}
+
+describe('lifecycleSkip', () => {
+  it('applies each action only from the statuses Okta accepts', () => {
+    expect(lifecycleSkip('suspend', 'ACTIVE')).toBeNull();
+    expect(lifecycleSkip('unsuspend', 'SUSPENDED')).toBeNull();
+    expect(lifecycleSkip('activate', 'STAGED')).toBeNull();
+    expect(lifecycleSkip('reactivate', 'PROVISIONED')).toBeNull();
+    expect(lifecycleSkip('deactivate', 'LOCKED_OUT')).toBeNull();
+    expect(lifecycleSkip('expirePassword', 'ACTIVE')).toBeNull();
+  });
+
+  it('tells a user already there from one the action cannot reach', () => {
+    expect(lifecycleSkip('suspend', 'SUSPENDED')).toEqual({
+      reason: 'already',
+      note: 'Already SUSPENDED',
+    });
+    expect(lifecycleSkip('suspend', 'STAGED')).toEqual({
+      reason: 'not-eligible',
+      note: 'STAGED: Suspend only applies to ACTIVE users',
+    });
+    expect(lifecycleSkip('deactivate', 'DEPROVISIONED')?.reason).toBe('already');
+  });
+});
+
+describe('planBulkLifecycle', () => {
+  it('changes the eligible users and says why the rest are skipped', () => {
+    const plan = planBulkLifecycle(
+      'suspend',
+      targetSet([
+        subject('00uFAKE1', 'ACTIVE'),
+        subject('00uFAKE2', 'SUSPENDED'),
+        subject('00uFAKE3', 'STAGED'),
+        subject('00uFAKE4', 'ACTIVE'),
+      ]),
+    );
+
+    expect(plan.change.map((user) => user.id)).toEqual(['00uFAKE1', '00uFAKE4']);
+    expect(plan.skipped).toBe(2);
+    expect(plan.rows.map((row) => row.reason)).toEqual([
+      undefined,
+      'already',
+      'not-eligible',
+      undefined,
+    ]);
+  });
+
+  it('never changes the signed-in admin', () => {
+    const plan = planBulkLifecycle(
+      'deactivate',
+      targetSet([subject('00uFAKE1', 'ACTIVE'), subject('00uADMIN', 'ACTIVE')], '00uADMIN'),
+    );
+
+    expect(plan.change.map((user) => user.id)).toEqual(['00uFAKE1']);
+    expect(plan.rows[1]).toMatchObject({ status: 'skipped', reason: 'self' });
+  });
+
+  it('refuses the actions that could lock out an admin it could not identify', () => {
+    const users = [subject('00uFAKE1', 'ACTIVE'), subject('00uFAKE2', 'SUSPENDED')];
+
+    for (const action of ['suspend', 'deactivate', 'expirePassword'] as const) {
+      expect(planBulkLifecycle(action, targetSet(users)).blocker).toMatch(
+        /^Your own Okta account could not be read/,
+      );
+      expect(planBulkLifecycle(action, targetSet(users, '00uADMIN')).blocker).toBeNull();
+    }
+    expect(planBulkLifecycle('unsuspend', targetSet(users)).blocker).toBeNull();
+  });
+
+  it('counts a repeated user once and keeps unresolved rows', () => {
+    const ada = subject('00uFAKE1', 'ACTIVE');
+    const plan = planBulkLifecycle('suspend', {
+      sourceLabel: '4 listed users',
+      targets: [
+        { key: 'ada@example.com', user: ada },
+        { key: '00uFAKE1', user: ada },
+        { key: 'nobody@example.com', user: null },
+        { key: 'smith', user: null, ambiguous: true },
+      ],
+      currentUserId: null,
+    });
+
+    expect(plan.change).toEqual([ada]);
+    expect(plan.rows.map((row) => row.reason)).toEqual([
+      undefined,
+      'duplicate',
+      'not-found',
+      'ambiguous',
+    ]);
+  });
+
+  it('folds the skips by reason and status, largest first', () => {
+    const plan = planBulkLifecycle(
+      'unsuspend',
+      targetSet([
+        subject('00uFAKE1', 'ACTIVE'),
+        subject('00uFAKE2', 'STAGED'),
+        subject('00uFAKE3', 'ACTIVE'),
+        subject('00uFAKE4', 'DEPROVISIONED'),
+        subject('00uFAKE5', 'SUSPENDED'),
+      ]),
+    );
+
+    expect(plan.skipGroups).toEqual([
+      { reason: 'already', status: 'ACTIVE', note: 'Already ACTIVE', count: 2 },
+      expect.objectContaining({ reason: 'not-eligible', status: 'STAGED', count: 1 }),
+      expect.objectContaining({ reason: 'not-eligible', status: 'DEPROVISIONED', count: 1 }),
+    ]);
+  });
+
+  it('re-plans the same targets for another action', () => {
+    const set = targetSet([subject('00uFAKE1', 'ACTIVE'), subject('00uFAKE2', 'SUSPENDED')]);
+
+    expect(planBulkLifecycle('suspend', set).change.map((u) => u.id)).toEqual(['00uFAKE1']);
+    expect(planBulkLifecycle('unsuspend', set).change.map((u) => u.id)).toEqual(['00uFAKE2']);
+    expect(planBulkLifecycle('deactivate', set).change).toHaveLength(2);
+  });
+});
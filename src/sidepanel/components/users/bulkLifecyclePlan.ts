@@ -0,0 +1,298 @@
+/**
+ * @module sidepanel/components/users/bulkLifecyclePlan
+ * @description Pure preflight for the bulk lifecycle console: which users a
+ * lifecycle action will change, which it skips, and why.
+ *
+ * The targets come from a pasted list, a group's members or a user search (the
+ * reads live in `useOktaApi/bulkLifecycle`). {@link planBulkLifecycle} then sorts
+ * each one by its current status against the action's {@link LIFECYCLE_ACTIONS}
+ * entry:
+ *
+ * - **change** — Okta accepts the action from this status;
+ * - **already** — the user is already where the action would put them;
+ * - **not-eligible** — Okta refuses the action from this status (e.g. suspending a
+ *   `STAGED` user);
+ * - **self** — the signed-in admin, who is never suspended or deactivated from here;
+ *   when their id could not be read, the actions that would lock them out are
+ *   refused outright (the plan's `blocker`) rather than run without that guard;
+ * - **duplicate** — a user an earlier target already names;
+ * - **not-found** / **ambiguous** — the identifier matched no user, or several.
+ *
+ * Only the change rows are ever written. The plan is recomputed from the same
+ * targets whenever the admin picks another action, so switching costs no reads.
+ */
+
+/** A lifecycle action the console runs. */
+export type BulkLifecycleAction =
+  'activate' | 'reactivate' | 'suspend' | 'unsuspend' | 'deactivate' | 'expirePassword';
+
+/** What one action does, and from which statuses. */
+export interface LifecycleActionSpec {
+  /** Button and picker label, e.g. "Suspend". */
+  label: string;
+  /** Past tense, for results and audit text, e.g. "Suspended". */
+  done: string;
+  /** The `/api/v1/users/{id}/lifecycle/…` suffix, with its query. */
+  path: string;
+  /** Statuses Okta accepts the action from. */
+  from: readonly string[];
+  /** The users Okta accepts it for, in words, e.g. "ACTIVE users". */
+  appliesTo: string;
+  /** Statuses that mean the action has nothing to do. */
+  already: readonly string[];
+  /** Whether each write gets an undoable History entry. */
+  undoable: boolean;
+  /** Whether the write cannot be taken back by another lifecycle call. */
+  destructive: boolean;
+  /** The one consequence the confirm states. */
+  consequence: string;
+}
+
+/** Every status but `DEPROVISIONED`: the statuses a deactivate applies to. */
+const NOT_DEPROVISIONED = [
+  'ACTIVE',
+  'STAGED',
+  'PROVISIONED',
+  'RECOVERY',
+  'LOCKED_OUT',
+  'PASSWORD_EXPIRED',
+  'SUSPENDED',
+] as const;
+
+/** The actions, in the order the picker lists them. */
+export const LIFECYCLE_ACTIONS: Record<BulkLifecycleAction, LifecycleActionSpec> = {
+  activate: {
+    label: 'Activate',
+    done: 'Activated',
+    path: 'activate?sendEmail=true',
+    from: ['STAGED', 'DEPROVISIONED'],
+    appliesTo: 'STAGED or DEPROVISIONED users',
+    already: ['ACTIVE', 'PROVISIONED'],
+    undoable: false,
+    destructive: false,
+    consequence: 'Each user is sent an activation email.',
+  },
+  reactivate: {
+    label: 'Reactivate',
+    done: 'Reactivated',
+    path: 'reactivate?sendEmail=true',
+    from: ['PROVISIONED'],
+    appliesTo: 'PROVISIONED users',
+    already: ['ACTIVE'],
+    undoable: false,
+    destructive: false,
+    consequence: 'Each user is sent a new activation email; the old link stops working.',
+  },
+  suspend: {
+    label: 'Suspend',
+    done: 'Suspended',
+    path: 'suspend',
+    from: ['ACTIVE'],
+    appliesTo: 'ACTIVE users',
+    already: ['SUSPENDED'],
+    undoable: true,
+    destructive: false,
+    consequence: 'Suspended users cannot sign in. Each suspend can be undone from History.',
+  },
+  unsuspend: {
+    label: 'Unsuspend',
+    done: 'Unsuspended',
+    path: 'unsuspend',
+    from: ['SUSPENDED'],
+    appliesTo: 'SUSPENDED users',
+    already: ['ACTIVE'],
+    undoable: true,
+    destructive: false,
+    consequence: 'Users can sign in again. Each unsuspend can be undone from History.',
+  },
+  deactivate: {
+    label: 'Deactivate',
+    done: 'Deactivated',
+    path: 'deactivate',
+    from: NOT_DEPROVISIONED,
+    appliesTo: 'users not yet deactivated',
+    already: ['DEPROVISIONED'],
+    undoable: false,
+    destructive: true,
+    consequence:
+      'Deactivation removes app assignments and may deprovision downstream accounts. History cannot undo it.',
+  },
+  expirePassword: {
+    label: 'Expire password',
+    done: 'Expired the password of',
+    path: 'expire_password',
+    from: ['ACTIVE'],
+    appliesTo: 'ACTIVE users',
+    already: ['PASSWORD_EXPIRED'],
+    undoable: false,
+    destructive: false,
+    consequence: 'Each user must choose a new password at their next sign-in.',
+  },
+};
+
+/** The actions that would lock the signed-in admin out if run on them. */
+const SELF_PROTECTED: readonly BulkLifecycleAction[] = ['suspend', 'deactivate', 'expirePassword'];
+
+/** The user a target resolved to, as much of them as the plan and the audit need. */
+export interface LifecycleSubject {
+  id: string;
+  login: string;
+  name: string;
+  /** Okta status at read time. */
+  status: string;
+}
+
+/** One target as read from its source. */
+export interface LifecycleTarget {
+  /** The identifier as given, or the login for a group member or search hit. */
+  key: string;
+  /** The user it resolved to, or `null` when it resolved to none or several. */
+  user: LifecycleSubject | null;
+  /** Set when the identifier matched more than one user. */
+  ambiguous?: boolean;
+}
+
+/** Where the targets came from, and who is running the console. */
+export interface LifecycleTargetSet {
+  /** Shown in the preflight, e.g. "Group Contractors" or "12 pasted rows". */
+  sourceLabel: string;
+  targets: LifecycleTarget[];
+  /** The signed-in admin's id, or `null` when it could not be read. */
+  currentUserId: string | null;
+}
+
+/** Why a target is skipped. */
+export type LifecycleSkipReason =
+  'already' | 'not-eligible' | 'self' | 'duplicate' | 'not-found' | 'ambiguous';
+
+/** One target's preflight verdict. */
+export interface BulkLifecycleRow {
+  key: string;
+  user: LifecycleSubject | null;
+  status: 'change' | 'skipped';
+  reason?: LifecycleSkipReason;
+  /** Why, in the admin's words, for a skipped row. */
+  note?: string;
+}
+
+/** A skip reason with how many targets it covers, for the preflight summary. */
+export interface LifecycleSkipGroup {
+  reason: LifecycleSkipReason;
+  /** The status the reason is about, for `already` and `not-eligible`. */
+  status?: string;
+  note: string;
+  count: number;
+}
+
+/** The preflight: what the action will change and what it will skip. */
+export interface BulkLifecyclePlan {
+  action: BulkLifecycleAction;
+  sourceLabel: string;
+  rows: BulkLifecycleRow[];
+  /** The users that will be written, in target order. */
+  change: LifecycleSubject[];
+  skipped: number;
+  /** Skipped rows folded by reason (and status), largest first. */
+  skipGroups: LifecycleSkipGroup[];
+  /** Why the action must not run at all, or `null` when it may. */
+  blocker: string | null;
+}
+
+/** One user's outcome from the apply pass. */
+export type BulkLifecycleOutcome =
+  { result: 'done' } | { result: 'failed'; error: string } | { result: 'not-sent' };
+
+/**
+ * Why an action skips a user in a given status, or `null` when it applies.
+ *
+ * @param action - The lifecycle action.
+ * @param status - The user's current Okta status.
+ * @returns The reason and its note, or `null`.
+ */
+export function lifecycleSkip(
+  action: BulkLifecycleAction,
+  status: string,
+): { reason: 'already' | 'not-eligible'; note: string } | null {
+  const spec = LIFECYCLE_ACTIONS[action];
+  if (spec.already.includes(status)) {
+    return { reason: 'already', note: `Already ${status}` };
+  }
+  if (!spec.from.includes(status)) {
+    return {
+      reason: 'not-eligible',
+      note: `${status}: ${spec.label} only applies to ${spec.appliesTo}`,
+    };
+  }
+  return null;
+}
+
+/** Notes for the reasons that do not depend on a status. */
+const FIXED_NOTES: Record<'self' | 'duplicate' | 'not-found' | 'ambiguous', string> = {
+  self: 'You — the signed-in admin — are never changed from here',
+  duplicate: 'Named by an earlier row',
+  'not-found': 'No user matches exactly',
+  ambiguous: 'Matches more than one user',
+};
+
+/**
+ * Sort every target into change or skipped for one action.
+ *
+ * @param action - The lifecycle action.
+ * @param set - The targets, from `resolveLifecycleTargets`.
+ * @returns The {@link BulkLifecyclePlan}.
+ */
+export function planBulkLifecycle(
+  action: BulkLifecycleAction,
+  set: LifecycleTargetSet,
+): BulkLifecyclePlan {
+  const seen = new Set<string>();
+  const rows: BulkLifecycleRow[] = set.targets.map((target): BulkLifecycleRow => {
+    const skip = (reason: LifecycleSkipReason, note: string): BulkLifecycleRow => ({
+      key: target.key,
+      user: target.user,
+      status: 'skipped',
+      reason,
+      note,
+    });
+    const { user } = target;
+    if (!user) {
+      return target.ambiguous
+        ? skip('ambiguous', FIXED_NOTES.ambiguous)
+        : skip('not-found', FIXED_NOTES['not-found']);
+    }
+    if (seen.has(user.id)) return skip('duplicate', FIXED_NOTES.duplicate);
+    seen.add(user.id);
+    if (user.id === set.currentUserId) return skip('self', FIXED_NOTES.self);
+    const statusSkip = lifecycleSkip(action, user.status);
+    if (statusSkip) return skip(statusSkip.reason, statusSkip.note);
+    return { key: target.key, user, status: 'change' };
+  });
+
+  const groups = new Map<string, LifecycleSkipGroup>();
+  for (const row of rows) {
+    if (row.status !== 'skipped' || !row.reason) continue;
+    const status =
+      row.reason === 'already' || row.reason === 'not-eligible' ? row.user?.status : undefined;
+    const key = `${row.reason}:${status ?? ''}`;
+    const group = groups.get(key);
+    if (group) {
+      group.count++;
+    } else {
+      groups.set(key, { reason: row.reason, status, note: row.note ?? '', count: 1 });
+    }
+  }
+
+  const change = rows.flatMap((row) => (row.status === 'change' && row.user ? [row.user] : []));
+  return {
+    action,
+    sourceLabel: set.sourceLabel,
+    rows,
+    change,
+    skipped: rows.length - change.length,
+    skipGroups: [...groups.values()].sort((a, b) => b.count - a.count),
+    blocker:
+      set.currentUserId === null && SELF_PROTECTED.includes(action)
+        ? `Your own Okta account could not be read, so ${LIFECYCLE_ACTIONS[action].label} cannot leave you out. Reload the Okta tab and try again.`
+        : null,
+  };
+}
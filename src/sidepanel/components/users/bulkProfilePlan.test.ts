@@ -0,0 +1,193 @@
+/**
+ * Unit tests for the spreadsheet profile-update planner.
+ *
+ * Pins the decisions a bulk write rests on: the header picks the key column and
+ * refuses credential fields, a blank cell is no opinion rather than a clear, every
+ * cell passes the same editability gate as the one-user editor, and one locked or
+ * invalid cell blocks its whole row.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `example.com`).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  buildBulkProfileResultCsv,
+  parseBulkProfileSheet,
+  planBulkProfileUpdate,
+  sheetNeedsMastering,
+  type BulkUserContext,
+} from './bulkProfilePlan';
+import { oktaUserProfileSchemaSchema } from '../../../shared/schemas/okta';
+import type { OktaUser } from '../../../shared/types';
+
+const schema = oktaUserProfileSchemaSchema.parse({
+  definitions: {
+    base: {
+      properties: {
+        login: { type: 'string', mutability: 'READ_WRITE' },
+        title: { type: 'string', title: 'Title', mutability: 'READ_WRITE' },
+        department: { type: 'string', title: 'Department', mutability: 'READ_WRITE' },
+      },
+    },
+    custom: {
+      properties: {
+        costCenter: {
+          type: 'string',
+          mutability: 'READ_WRITE',
+          master: { type: 'PROFILE_MASTER' },
+        },
+        floor: { type: 'integer', mutability: 'READ_WRITE' },
+        region: { type: 'string', mutability: 'READ_WRITE', enum: ['EMEA', 'AMER'] },
+        badgeId: { type: 'string', mutability: 'READ_ONLY' },
+      },
+    },
+  },
+});
+
+function makeUser(id: string, login: string, profile: Record<string, unknown> = {}): OktaUser {
+  return {
+    id,
+    status: 'ACTIVE',
+    credentials: { provider: { type: 'OKTA', name: 'OKTA' } },
+    profile: { login, email: login, firstName: 'Test', lastName: id, ...profile },
+  } as OktaUser;
+}
+
+const ada = makeUser('00uFAKE1', 'ada@example.com', { department: 'Sales', floor: 3 });
+const alan = makeUser('00uFAKE2', 'alan@example.com', { department: 'Sales' });
+
+function resolvedOf(...users: OktaUser[]): Map<string, BulkUserContext> {
+  return new Map(users.map((user) => [user.id.toLowerCase(), { user }]));
+}
+
+describe('parseBulkProfileSheet', () => {
+  it('keys on the id column, keeps attribute names as spelled, and drops blank cells', () => {
+    const sheet = parseBulkProfileSheet(
+      '\uFEFFId,department,costCenter\n00uFAKE1,Marketing,\n\n00uFAKE2,"Sales, EMEA",CC-1',
+    );
+
+    expect(sheet.keyColumn).toBe('id');
+    expect(sheet.attributeNames).toEqual(['department', 'costCenter']);
+    expect(sheet.rows).toEqual([
+      { line: 2, key: '00uFAKE1', values: { department: 'Marketing' } },
+      { line: 4, key: '00uFAKE2', values: { department: 'Sales, EMEA', costCenter: 'CC-1' } },
+    ]);
+  });
+
+  it('falls back to a login key column', () => {
+    expect(parseBulkProfileSheet('login,title\nada@example.com,Engineer').keyColumn).toBe('login');
+  });
+
+  it('refuses a sheet without a key column, without attributes, or with credential fields', () => {
+    expect(() => parseBulkProfileSheet('department\nSales')).toThrow(/header naming an id/);
+    expect(() => parseBulkProfileSheet('id\n00uFAKE1')).toThrow(/no attribute columns/);
+    expect(() => parseBulkProfileSheet('id,password\n00uFAKE1,x')).toThrow(
+      /1 column this panel never writes/,
+    );
+    expect(() => parseBulkProfileSheet('id,title,title\n00uFAKE1,a,b')).toThrow(/twice/);
+  });
+
+  it('reads a blank text as no rows', () => {
+    expect(parseBulkProfileSheet('  \n').rows).toEqual([]);
+  });
+});
+
+describe('sheetNeedsMastering', () => {
+  it('is true only when a column is PROFILE_MASTER-mastered', () => {
+    expect(sheetNeedsMastering(parseBulkProfileSheet('id,costCenter\nx,y'), schema)).toBe(true);
+    expect(sheetNeedsMastering(parseBulkProfileSheet('id,title\nx,y'), schema)).toBe(false);
+  });
+});
+
+describe('planBulkProfileUpdate', () => {
+  it('plans a change per editable cell and coerces it to the schema type', () => {
+    const sheet = parseBulkProfileSheet('id,department,floor\n00uFAKE1,Marketing,4');
+    const plan = planBulkProfileUpdate(sheet, resolvedOf(ada), schema);
+
+    expect(plan.counts.ready).toBe(1);
+    expect(plan.changeCount).toBe(2);
+    expect(plan.ready[0].patch).toEqual({ department: 'Marketing', floor: 4 });
+    expect(plan.rows[0].cells[0]).toMatchObject({
+      name: 'department',
+      label: 'Department',
+      status: 'change',
+      beforeDisplay: 'Sales',
+      beforeRaw: 'Sales',
+      afterDisplay: 'Marketing',
+    });
+  });
+
+  it('reads a row whose cells already match Okta as no-change', () => {
+    const sheet = parseBulkProfileSheet('id,department,floor\n00uFAKE1,Sales,3');
+    const plan = planBulkProfileUpdate(sheet, resolvedOf(ada), schema);
+
+    expect(plan.rows[0].status).toBe('no-change');
+    expect(plan.ready).toEqual([]);
+  });
+
+  it('blocks the whole row when one cell is locked or invalid', () => {
+    const sheet = parseBulkProfileSheet(
+      'id,department,badgeId,floor,region,costCenter,nickname\n' +
+        '00uFAKE1,Marketing,B-1,,,,\n' +
+        '00uFAKE2,Marketing,,four,,,\n' +
+        '00uFAKE1,Marketing,,,APAC,,',
+    );
+    const plan = planBulkProfileUpdate(sheet, resolvedOf(ada, alan), schema);
+
+    expect(plan.rows.map((row) => row.status)).toEqual(['blocked', 'blocked', 'duplicate']);
+    expect(plan.rows[0].cells[1]).toMatchObject({ name: 'badgeId', status: 'locked' });
+    expect(plan.rows[1].cells[1]).toMatchObject({
+      name: 'floor',
+      status: 'invalid',
+      problem: 'Enter a number.',
+    });
+    expect(plan.ready).toEqual([]);
+  });
+
+  it('locks an unlisted enum value, an unknown attribute and an unresolved mastering', () => {
+    const sheet = parseBulkProfileSheet(
+      'id,region,nickname,costCenter\n00uFAKE1,APAC,,\n00uFAKE2,,Al,\nnope,EMEA,,',
+    );
+    const resolved = resolvedOf(ada, alan);
+    const plan = planBulkProfileUpdate(sheet, resolved, schema);
+
+    expect(plan.rows[0].cells[0]).toMatchObject({ status: 'invalid' });
+    expect(plan.rows[1].cells[0]).toMatchObject({ name: 'nickname', status: 'locked' });
+    expect(plan.rows[2].status).toBe('not-found');
+
+    const mastered = planBulkProfileUpdate(
+      parseBulkProfileSheet('id,costCenter\n00uFAKE1,CC-9'),
+      resolved,
+      schema,
+    );
+    expect(mastered.rows[0].cells[0]).toMatchObject({ status: 'locked' });
+
+    // A completed app walk that found no profile source unlocks it.
+    const unmastered = planBulkProfileUpdate(
+      parseBulkProfileSheet('id,costCenter\n00uFAKE1,CC-9'),
+      new Map([['00ufake1', { user: ada, mastering: { profileSources: new Map() } }]]),
+      schema,
+    );
+    expect(unmastered.rows[0].status).toBe('ready');
+  });
+});
+
+describe('buildBulkProfileResultCsv', () => {
+  it('writes every row with its changes, problems and outcome', () => {
+    const sheet = parseBulkProfileSheet(
+      'id,department,floor\n00uFAKE1,Marketing,\n00uFAKE2,,four\nnope,Ops,',
+    );
+    const plan = planBulkProfileUpdate(sheet, resolvedOf(ada, alan), schema);
+
+    const csv = buildBulkProfileResultCsv(
+      plan,
+      new Map([[ada.id, { result: 'unknown', error: 'No response' }]]),
+    );
+
+    const lines = csv.split('\n');
+    expect(lines[0]).toContain('Line');
+    expect(lines[1]).toContain('department: Sales → Marketing');
+    expect(lines[1]).toContain('unknown');
+    expect(lines[2]).toContain('floor: Enter a number.');
+    expect(lines[3]).toContain('not-found');
+  });
+});
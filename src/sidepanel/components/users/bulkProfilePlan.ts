@@ -0,0 +1,452 @@
+/**
+ * @module sidepanel/components/users/bulkProfilePlan
+ * @description Pure planner for a spreadsheet-driven profile update across many
+ * users.
+ *
+ * No React and no I/O. The sheet is a CSV whose header names a key column — `id`
+ * (the Okta user id) or, failing that, `login` — and one column per attribute to
+ * set. {@link parseBulkProfileSheet} reads it, the lookups in
+ * `useOktaApi/bulkProfileUpdate` resolve each key to a whole {@link OktaUser}, and
+ * {@link planBulkProfileUpdate} decides every cell.
+ *
+ * ## Every cell goes through the same gate as the single-user editor
+ *
+ * A cell is decided by {@link module:sidepanel/components/users/profileEditability},
+ * coerced by {@link module:sidepanel/components/users/profileDraft} and diffed with
+ * the same `toDisplay` the Profile pane uses, so the bulk path can never open an
+ * attribute the one-user editor keeps locked. A row is all-or-nothing: one locked
+ * or invalid cell blocks the whole row rather than writing the rest of it. A row is
+ * one person's intended new state, and half of a reorg row (a new department
+ * without the new manager) is a state nobody asked for.
+ *
+ * ## A blank cell leaves the attribute alone
+ *
+ * A sheet exported from elsewhere is full of blanks that mean "no opinion", so a
+ * blank never clears anything. There is deliberately no way to clear an attribute
+ * from a sheet; that stays a one-user edit in the Profile pane.
+ *
+ * Security: cell values are org data and frequently PII. Nothing here logs, and
+ * the messages it throws name no attribute and no value.
+ */
+import type { OktaUser } from '../../../shared/types';
+import type { OktaUserProfileSchema } from '../../../shared/schemas/okta';
+import { splitCsvLine } from '../../../shared/membership/importPlan';
+import { generateCSV } from '../../../shared/utils/csvUtils';
+import { isExcludedProfileField } from '../../../shared/utils/profileFields';
+import { allProfileAttributes, toDisplay, type AttributeDescriptor } from './profileAttributes';
+import {
+  attributeEditability,
+  type AttributeEditability,
+  type ProfileMastering,
+} from './profileEditability';
+import { coerceDraftValue } from './profileDraft';
+
+/** Header names (lower-cased) that mark the user-id key column. */
+const ID_HEADERS = ['id', 'userid', 'user id'];
+
+/** The fallback key column; a sheet keyed by login cannot also change it. */
+const LOGIN_HEADER = 'login';
+
+/** The `master.type` that is resolved per user, and so needs the user's app list. */
+const PROFILE_MASTER = 'PROFILE_MASTER';
+
+/** Which column identifies the user on each row. */
+export type BulkKeyColumn = 'id' | 'login';
+
+/** One non-blank row of the sheet. */
+export interface BulkProfileInputRow {
+  /** 1-based line number in the source text. */
+  line: number;
+  /** The key cell as written: a user id or a login. */
+  key: string;
+  /** Attribute name → cell text. Blank cells are absent: a blank leaves the attribute alone. */
+  values: Readonly<Record<string, string>>;
+}
+
+/** The sheet as read, before any user is looked up. */
+export interface BulkProfileSheet {
+  keyColumn: BulkKeyColumn;
+  /** The attribute columns, in sheet order, exactly as the header spells them. */
+  attributeNames: string[];
+  rows: BulkProfileInputRow[];
+}
+
+/**
+ * What the planner decided about one cell.
+ *
+ * - `change` — editable, valid, and different from the value Okta holds.
+ * - `unchanged` — editable and valid, but already the value Okta holds.
+ * - `locked` — the editability gate refused it; {@link BulkCellPlan.problem} says why.
+ * - `invalid` — the text does not fit the attribute's type or allowed values.
+ */
+export type BulkCellStatus = 'change' | 'unchanged' | 'locked' | 'invalid';
+
+/** One cell of one row, decided. */
+export interface BulkCellPlan {
+  /** The attribute's bare Okta name. */
+  name: string;
+  /** Its label from the schema, or the name when the schema has none. */
+  label: string;
+  status: BulkCellStatus;
+  /** The value Okta holds now, stringified. `''` when unset. */
+  beforeDisplay: string;
+  /** The untouched prior value, captured for the undo entry. */
+  beforeRaw: unknown;
+  /** The value the cell asks for, stringified the way the Profile pane shows it. */
+  afterDisplay: string;
+  /** The cell coerced to the schema's type — what is sent. Present for `change`. */
+  afterRaw?: unknown;
+  /** The lock explanation or the validation message. Present for `locked` and `invalid`. */
+  problem?: string;
+}
+
+/**
+ * Dry-run status of one row.
+ *
+ * - `ready` — at least one change and no locked or invalid cell.
+ * - `no-change` — every cell already matches Okta.
+ * - `blocked` — a cell is locked or invalid, so nothing on the row is written.
+ * - `duplicate` — an earlier row names the same user; only the first is planned.
+ * - `not-found` — no user has this id or login.
+ */
+export type BulkRowStatus = 'ready' | 'no-change' | 'blocked' | 'duplicate' | 'not-found';
+
+/** One row with its dry-run status. */
+export interface BulkRowPlan {
+  line: number;
+  key: string;
+  status: BulkRowStatus;
+  /** The resolved user; absent for not-found rows. */
+  user?: OktaUser;
+  /** Every non-blank cell, in sheet order. Empty for duplicate and not-found rows. */
+  cells: BulkCellPlan[];
+}
+
+/** A row that will be written: it has a user and a non-empty patch. */
+export interface BulkReadyRow extends BulkRowPlan {
+  status: 'ready';
+  user: OktaUser;
+  /** Attribute name → coerced value, for the `change` cells only. */
+  patch: Record<string, unknown>;
+}
+
+/** The dry-run plan for one sheet. */
+export interface BulkProfilePlan {
+  keyColumn: BulkKeyColumn;
+  attributeNames: string[];
+  rows: BulkRowPlan[];
+  /** Row count per status. */
+  counts: Record<BulkRowStatus, number>;
+  /** The rows the apply pass writes, in sheet order. */
+  ready: BulkReadyRow[];
+  /** Attribute changes across every ready row. */
+  changeCount: number;
+}
+
+/** A resolved key: the whole user, plus their profile sources when they were read. */
+export interface BulkUserContext {
+  user: OktaUser;
+  /** Omitted when no column is `PROFILE_MASTER`-mastered; every such attribute then stays locked. */
+  mastering?: ProfileMastering;
+}
+
+/** The apply-pass result for one ready row, keyed by user id. */
+export interface BulkProfileOutcome {
+  /**
+   * `'unknown'` — the write may have applied (see `profileOperations`).
+   * `'not-sent'` — the run was cancelled or halted before reaching the user.
+   */
+  result: 'saved' | 'failed' | 'unknown' | 'not-sent';
+  error?: string;
+}
+
+/**
+ * Read the sheet's header and rows.
+ *
+ * The first non-blank line is the header. Its `id` (or `userId`) column is the key;
+ * without one, a `login` column is. Every other column is an attribute, spelled as
+ * Okta spells it (`costCenter`, not `Cost Center`). A value cannot span lines.
+ *
+ * @param text - The uploaded or pasted CSV.
+ * @returns The sheet. A blank text yields no rows.
+ * @throws Error when the header names no key column, no attribute column, the same
+ * attribute twice, or a credential/recovery field this panel never writes.
+ */
+export function parseBulkProfileSheet(text: string): BulkProfileSheet {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() !== '');
+  if (headerIndex === -1) return { keyColumn: 'id', attributeNames: [], rows: [] };
+
+  const header = splitCsvLine(lines[headerIndex]);
+  const lowered = header.map((cell) => cell.toLowerCase());
+  const idIndex = lowered.findIndex((cell) => ID_HEADERS.includes(cell));
+  const keyIndex = idIndex === -1 ? lowered.indexOf(LOGIN_HEADER) : idIndex;
+  if (keyIndex === -1) {
+    throw new Error(
+      'The first row must be a header naming an id (or login) column and the attributes to set.',
+    );
+  }
+  const keyColumn: BulkKeyColumn = idIndex === -1 ? 'login' : 'id';
+
+  const attributeColumns = header
+    .map((name, index) => ({ name, index }))
+    .filter((column) => column.index !== keyIndex && column.name !== '');
+  if (attributeColumns.length === 0) {
+    throw new Error('The header names no attribute columns to update.');
+  }
+
+  const excluded = attributeColumns.filter((column) => isExcludedProfileField(column.name)).length;
+  if (excluded > 0) {
+    // A count, never the names: this message can reach a log.
+    throw new Error(
+      `The sheet has ${excluded} column${excluded === 1 ? '' : 's'} this panel never writes ` +
+        '(credential or recovery fields). Remove them and try again.',
+    );
+  }
+
+  const names = new Set<string>();
+  for (const column of attributeColumns) {
+    if (names.has(column.name)) throw new Error('The header names the same attribute twice.');
+    names.add(column.name);
+  }
+
+  const rows: BulkProfileInputRow[] = [];
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+    const cells = splitCsvLine(lines[i]);
+    const key = cells[keyIndex] ?? '';
+    if (!key) continue;
+    const values: Record<string, string> = {};
+    for (const column of attributeColumns) {
+      const value = cells[column.index] ?? '';
+      if (value !== '') values[column.name] = value;
+    }
+    rows.push({ line: i + 1, key, values });
+  }
+
+  return { keyColumn, attributeNames: attributeColumns.map((column) => column.name), rows };
+}
+
+/**
+ * Whether any attribute column is `PROFILE_MASTER`-mastered in the org's schema —
+ * the one case the gate decides per user, from the user's app list. When none is,
+ * the preview skips the per-user app walk entirely.
+ *
+ * @param sheet - The parsed sheet.
+ * @param schema - The org's profile schema, or `null` when it could not be read.
+ */
+export function sheetNeedsMastering(
+  sheet: BulkProfileSheet,
+  schema: OktaUserProfileSchema | null,
+): boolean {
+  const base = schema?.definitions?.base?.properties ?? {};
+  const custom = schema?.definitions?.custom?.properties ?? {};
+  return sheet.attributeNames.some(
+    (name) => (base[name] ?? custom[name])?.master?.type === PROFILE_MASTER,
+  );
+}
+
+/** One attribute's descriptor and verdict. */
+interface AttributeEntry {
+  attribute: AttributeDescriptor;
+  editability: AttributeEditability;
+}
+
+/**
+ * Index the user's inventory by bare name. As in `useProfileEdit`, a name can
+ * appear twice (a `status` field beside a custom `status` attribute), and the
+ * locked verdict wins.
+ */
+function indexAttributes(
+  user: OktaUser,
+  schema: OktaUserProfileSchema | null,
+  mastering: ProfileMastering | undefined,
+): Map<string, AttributeEntry> {
+  const entries = new Map<string, AttributeEntry>();
+  for (const attribute of allProfileAttributes(user, schema)) {
+    const editability = attributeEditability(attribute, user, mastering);
+    const existing = entries.get(attribute.name);
+    if (existing === undefined || (existing.editability.editable && !editability.editable)) {
+      entries.set(attribute.name, { attribute, editability });
+    }
+  }
+  return entries;
+}
+
+/** Decide one cell against the user's indexed inventory. */
+function planCell(
+  name: string,
+  input: string,
+  entries: ReadonlyMap<string, AttributeEntry>,
+  user: OktaUser,
+): BulkCellPlan {
+  // An attribute neither the schema nor the user's profile knows. The gate locks
+  // a descriptor with no schema property, which is the verdict wanted here.
+  let entry = entries.get(name);
+  if (entry === undefined) {
+    const attribute: AttributeDescriptor = {
+      key: `profile.${name}`,
+      name,
+      label: name,
+      kind: 'custom',
+      value: '',
+      raw: undefined,
+      isEmpty: true,
+    };
+    entry = { attribute, editability: attributeEditability(attribute, user) };
+  }
+  const { attribute, editability } = entry;
+  const base = {
+    name,
+    label: attribute.label,
+    beforeDisplay: toDisplay(attribute.raw),
+    beforeRaw: attribute.raw,
+  };
+
+  if (!editability.editable) {
+    return { ...base, status: 'locked', afterDisplay: input, problem: editability.explanation };
+  }
+
+  const coerced = coerceDraftValue(input, editability.control);
+  if (!coerced.ok) {
+    return { ...base, status: 'invalid', afterDisplay: input, problem: coerced.error };
+  }
+
+  // A select is a fixed list in the Profile pane; a sheet can hold anything.
+  if (editability.options && !editability.options.some((option) => option.value === input)) {
+    return {
+      ...base,
+      status: 'invalid',
+      afterDisplay: input,
+      problem: "Not one of this attribute's allowed values.",
+    };
+  }
+
+  const afterDisplay = toDisplay(coerced.value);
+  if (afterDisplay === base.beforeDisplay) {
+    return { ...base, status: 'unchanged', afterDisplay };
+  }
+  return { ...base, status: 'change', afterDisplay, afterRaw: coerced.value };
+}
+
+/**
+ * Build the dry-run {@link BulkProfilePlan} from already-resolved keys.
+ *
+ * @param sheet - The parsed sheet ({@link parseBulkProfileSheet}).
+ * @param resolved - The user per key, keyed by `key.toLowerCase()`. A key missing
+ * from the map reads as not found.
+ * @param schema - The org's profile schema. `null` leaves every custom attribute
+ * locked as not-in-schema, which is the gate's safe answer.
+ * @returns The plan, with one row per sheet row in sheet order.
+ */
+export function planBulkProfileUpdate(
+  sheet: BulkProfileSheet,
+  resolved: ReadonlyMap<string, BulkUserContext>,
+  schema: OktaUserProfileSchema | null,
+): BulkProfilePlan {
+  const counts: Record<BulkRowStatus, number> = {
+    ready: 0,
+    'no-change': 0,
+    blocked: 0,
+    duplicate: 0,
+    'not-found': 0,
+  };
+  const ready: BulkReadyRow[] = [];
+  const planned = new Set<string>();
+  let changeCount = 0;
+
+  const rows = sheet.rows.map((row): BulkRowPlan => {
+    const context = resolved.get(row.key.toLowerCase());
+    let planRow: BulkRowPlan;
+    if (context === undefined) {
+      planRow = { line: row.line, key: row.key, status: 'not-found', cells: [] };
+    } else if (planned.has(context.user.id)) {
+      planRow = {
+        line: row.line,
+        key: row.key,
+        status: 'duplicate',
+        user: context.user,
+        cells: [],
+      };
+    } else {
+      planned.add(context.user.id);
+      const entries = indexAttributes(context.user, schema, context.mastering);
+      const cells = sheet.attributeNames
+        .filter((name) => row.values[name] !== undefined)
+        .map((name) => planCell(name, row.values[name], entries, context.user));
+      const changes = cells.filter((cell) => cell.status === 'change');
+      const status: BulkRowStatus = cells.some(
+        (cell) => cell.status === 'locked' || cell.status === 'invalid',
+      )
+        ? 'blocked'
+        : changes.length === 0
+          ? 'no-change'
+          : 'ready';
+      planRow = { line: row.line, key: row.key, status, user: context.user, cells };
+      if (status === 'ready') {
+        const patch: Record<string, unknown> = {};
+        for (const cell of changes) patch[cell.name] = cell.afterRaw;
+        ready.push({ ...planRow, status, user: context.user, patch });
+        changeCount += changes.length;
+      }
+    }
+    counts[planRow.status]++;
+    return planRow;
+  });
+
+  return {
+    keyColumn: sheet.keyColumn,
+    attributeNames: sheet.attributeNames,
+    rows,
+    counts,
+    ready,
+    changeCount,
+  };
+}
+
+/**
+ * Write the run's result CSV: every sheet row with its dry-run status, its changes
+ * and problems, and — for a ready row — what the apply pass did with it.
+ *
+ * @param plan - The plan that was applied (or only previewed).
+ * @param outcomes - Apply-pass outcome per user id. A ready row with no entry reads
+ * as not sent.
+ * @returns CSV text (cells escaped by `generateCSV`).
+ */
+export function buildBulkProfileResultCsv(
+  plan: BulkProfilePlan,
+  outcomes: ReadonlyMap<string, BulkProfileOutcome>,
+): string {
+  const rows = plan.rows.map((row) => {
+    let result = 'skipped';
+    let detail = '';
+    if (row.status === 'ready' && row.user) {
+      const outcome = outcomes.get(row.user.id) ?? { result: 'not-sent' };
+      result = outcome.result;
+      detail = outcome.error ?? '';
+    }
+    const changes = row.cells
+      .filter((cell) => cell.status === 'change')
+      .map((cell) => `${cell.name}: ${cell.beforeDisplay} → ${cell.afterDisplay}`)
+      .join('; ');
+    const problems = row.cells
+      .filter((cell) => cell.problem !== undefined)
+      .map((cell) => `${cell.name}: ${cell.problem}`)
+      .join('; ');
+    return [
+      row.line,
+      row.key,
+      row.user?.id ?? '',
+      row.user?.profile.login ?? '',
+      row.status,
+      changes,
+      problems,
+      result,
+      detail,
+    ];
+  });
+  return generateCSV(
+    ['Line', 'Key', 'User ID', 'Login', 'Status', 'Changes', 'Problems', 'Result', 'Detail'],
+    rows,
+  );
+}
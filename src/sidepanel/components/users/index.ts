@@ -19,5 +19,8 @@ export { default as UserComparisonModal } from './UserComparisonModal';
 export { default as UserComparisonPanel } from './UserComparisonPanel';
 export { default as UserComparisonView } from './UserComparisonView';
 export { default as AddToGroupModal } from './AddToGroupModal';
+export { default as BulkProfileUpdateModal } from './BulkProfileUpdateModal';
+export { default as BulkLifecycleModal } from './BulkLifecycleModal';
+export { default as AdminsReportModal } from './AdminsReportModal';
 export { default as UserLifecycleActions } from './UserLifecycleActions';
 export { default as DetectedUserBanner } from './DetectedUserBanner';
@@ -0,0 +1,40 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import WatchButton from './WatchButton';
+
+/** The Watch toggle on a group, rule or user. */
+const meta = {
+  title: 'Watchlist/WatchButton',
+  component: WatchButton,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Pins the entity on the watchlist, or unpins it. Pinned entities are checked in the ' +
+          'background and their changes flagged on the action badge.',
+      },
+    },
+  },
+  args: {
+    kind: 'group',
+    id: '00gFAKE1',
+    name: 'Contractors',
+    oktaOrigin: 'https://example.okta.com',
+  },
+} satisfies Meta<typeof WatchButton>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** A group. */
+export const Group: Story = {};
+
+/** A group rule. */
+export const Rule: Story = {
+  args: { kind: 'rule', id: '0prFAKE1', name: 'Engineering by department' },
+};
+
+/** Before the Okta tab connects: the org is unknown, so it cannot be pinned yet. */
+export const Connecting: Story = {
+  args: { oktaOrigin: null },
+};
@@ -0,0 +1,49 @@
+/**
+ * @module sidepanel/components/watchlist/WatchButton
+ * @description Pin or unpin a group, rule or user on the watchlist. A pinned
+ * entity is checked in the background and its changes show on the action badge
+ * and in the Overview's Changes feed.
+ */
+import React from 'react';
+import Button from '../shared/Button';
+import { useWatchToggle } from '../../hooks/useWatchlist';
+import type { WatchKind } from '../../../shared/watchlist/watchlist';
+
+/** Props for {@link WatchButton}. */
+interface WatchButtonProps {
+  kind: WatchKind;
+  /** The Okta id. */
+  id: string;
+  /** The display name to pin it under. */
+  name: string;
+  /** Origin of the org it belongs to; it cannot be pinned while unknown. */
+  oktaOrigin?: string | null;
+}
+
+/**
+ * Renders the Watch / Watching toggle for one entity.
+ */
+const WatchButton: React.FC<WatchButtonProps> = ({ kind, id, name, oktaOrigin }) => {
+  const { isWatched, canWatch, toggle } = useWatchToggle(kind, id, name, oktaOrigin ?? null);
+
+  return (
+    <Button
+      variant={isWatched ? 'primary' : 'secondary'}
+      size="sm"
+      icon="pin"
+      onClick={() => void toggle()}
+      disabled={!canWatch}
+      title={
+        isWatched
+          ? `Stop watching this ${kind}`
+          : canWatch
+            ? `Check this ${kind} in the background and flag any change`
+            : 'Waiting for the Okta tab to connect'
+      }
+    >
+      {isWatched ? 'Watching' : 'Watch'}
+    </Button>
+  );
+};
+
+export default WatchButton;
@@ -0,0 +1,100 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { fn } from 'storybook/test';
+import WatchlistPanel from './WatchlistPanel';
+import type { WatchChange, WatchedItem } from '../../../shared/watchlist/watchlist';
+
+const items: WatchedItem[] = [
+  {
+    key: 'group:00gFAKE1',
+    kind: 'group',
+    id: '00gFAKE1',
+    origin: 'https://example.okta.com',
+    name: 'Contractors',
+    addedAt: new Date('2026-10-01T09:00:00Z'),
+    fingerprint: { name: 'Contractors', memberCount: 214 },
+    checkedAt: new Date('2026-10-19T09:00:00Z'),
+  },
+  {
+    key: 'rule:0prFAKE1',
+    kind: 'rule',
+    id: '0prFAKE1',
+    origin: 'https://example.okta.com',
+    name: 'Engineering by department',
+    addedAt: new Date('2026-10-02T09:00:00Z'),
+    fingerprint: { name: 'Engineering by department', status: 'INACTIVE' },
+    checkedAt: new Date('2026-10-19T09:00:00Z'),
+  },
+  {
+    key: 'user:00uFAKE1',
+    kind: 'user',
+    id: '00uFAKE1',
+    origin: 'https://example.okta.com',
+    name: 'Ada Lovelace',
+    addedAt: new Date('2026-10-19T08:55:00Z'),
+    fingerprint: null,
+  },
+];
+
+const changes: WatchChange[] = [
+  {
+    id: 'chg-1',
+    kind: 'rule',
+    entityId: '0prFAKE1',
+    name: 'Engineering by department',
+    detectedAt: new Date('2026-10-19T09:00:00Z'),
+    changes: ['Status ACTIVE → INACTIVE'],
+    seen: false,
+  },
+  {
+    id: 'chg-2',
+    kind: 'group',
+    entityId: '00gFAKE1',
+    name: 'Contractors',
+    detectedAt: new Date('2026-10-18T15:30:00Z'),
+    changes: ['Members 212 → 214 (+2)'],
+    seen: true,
+  },
+];
+
+/** The Overview's Changes feed. */
+const meta = {
+  title: 'Watchlist/WatchlistPanel',
+  component: WatchlistPanel,
+  tags: ['autodocs'],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'What changed on the watched groups, rules and users, newest first, with unseen ' +
+          'changes marked New — then the watched entities, each with Unwatch.',
+      },
+    },
+  },
+  args: {
+    items,
+    changes,
+    unseenCount: 1,
+    notify: false,
+    onNotifyChange: fn(),
+    onRemove: fn(),
+    onMarkAllSeen: fn(),
+    onCheckNow: fn(),
+    isChecking: false,
+  },
+} satisfies Meta<typeof WatchlistPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/** One unseen change, one seen, and a user still waiting for its first check. */
+export const Default: Story = {};
+
+/** A "Check now" is in flight. */
+export const Checking: Story = {
+  args: { isChecking: true },
+};
+
+/** Nothing pinned yet. */
+export const Empty: Story = {
+  args: { items: [], changes: [], unseenCount: 0 },
+};
@@ -0,0 +1,171 @@
+/**
+ * @module sidepanel/components/watchlist/WatchlistPanel
+ * @description The Overview's Changes feed: what changed on the watched groups,
+ * rules and users, newest first, and what is being watched.
+ *
+ * Changes not yet seen are marked New and counted on the action badge until
+ * "Mark all seen". "Check now" asks the service worker for a check instead of
+ * waiting for the next alarm. Presentational;
+ * {@link sidepanel/hooks/useWatchlist.useWatchlist} owns the feed.
+ */
+import React from 'react';
+import Badge from '../shared/Badge';
+import Button from '../shared/Button';
+import Checkbox from '../shared/Checkbox';
+import EmptyState from '../shared/EmptyState';
+import EntityLink from '../shared/EntityLink';
+import { formatDateShort, getRelativeTime } from '../../../shared/utils/dateFormat';
+import {
+  WATCH_CHECK_MINUTES,
+  WATCH_KIND_LABELS,
+  type WatchChange,
+  type WatchedItem,
+} from '../../../shared/watchlist/watchlist';
+
+/** Changes beyond this count are not listed. */
+const DISPLAY_CAP = 50;
+
+/** Props for {@link WatchlistPanel}. */
+interface WatchlistPanelProps {
+  items: WatchedItem[];
+  /** Newest first. */
+  changes: WatchChange[];
+  unseenCount: number;
+  notify: boolean;
+  onNotifyChange: (notify: boolean) => void;
+  /** Unpin by {@link WatchedItem.key}. */
+  onRemove: (key: string) => void;
+  onMarkAllSeen: () => void;
+  onCheckNow: () => void;
+  isChecking: boolean;
+}
+
+/** "3 hours ago", else a short date. */
+function when(date: Date): string {
+  const iso = date.toISOString();
+  return getRelativeTime(iso) || formatDateShort(iso);
+}
+
+/**
+ * Renders the change feed and the watched entities.
+ */
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({
+  items,
+  changes,
+  unseenCount,
+  notify,
+  onNotifyChange,
+  onRemove,
+  onMarkAllSeen,
+  onCheckNow,
+  isChecking,
+}) => {
+  if (items.length === 0 && changes.length === 0) {
+    return (
+      <EmptyState
+        icon="pin"
+        title="Nothing watched yet"
+        description="Press Watch on a group, rule or user to have it checked in the background and flagged here when it changes."
+      />
+    );
+  }
+
+  const shown = changes.slice(0, DISPLAY_CAP);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-neutral-500">
+          {unseenCount > 0
+            ? `${unseenCount} new change${unseenCount === 1 ? '' : 's'}`
+            : 'No new changes'}{' '}
+          · checked every {WATCH_CHECK_MINUTES} minutes through an open Okta tab
+        </p>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="secondary"
+            size="sm"
+            icon="refresh"
+            onClick={onCheckNow}
+            loading={isChecking}
+            disabled={items.length === 0}
+          >
+            Check now
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            icon="check"
+            onClick={onMarkAllSeen}
+            disabled={unseenCount === 0}
+          >
+            Mark all seen
+          </Button>
+        </div>
+      </div>
+
+      <Checkbox
+        checked={notify}
+        onChange={onNotifyChange}
+        label="Notify me"
+        description="Show a Chrome notification when a check finds changes."
+      />
+
+      {shown.length > 0 && (
+        <ul className="divide-y divide-neutral-100 rounded-md border border-neutral-200 bg-white">
+          {shown.map((change) => (
+            <li key={change.id} className="px-3 py-2 space-y-1">
+              <div className="flex items-center gap-2 min-w-0">
+                <EntityLink type={change.kind} id={change.entityId} name={change.name} />
+                {!change.seen && <Badge variant="warning">New</Badge>}
+                <span className="ml-auto shrink-0 text-xs text-neutral-500">
+                  {when(change.detectedAt)}
+                </span>
+              </div>
+              <ul className="text-xs text-neutral-700 space-y-0.5">
+                {change.changes.map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+      {changes.length > shown.length && (
+        <p className="text-xs text-neutral-500">
+          and {changes.length - shown.length} older change
+          {changes.length - shown.length === 1 ? '' : 's'}
+        </p>
+      )}
+
+      {items.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-xs font-semibold uppercase tracking-wide text-neutral-500">
+            Watching ({items.length})
+          </div>
+          <ul className="space-y-1">
+            {items.map((item) => (
+              <li key={item.key} className="flex items-center gap-2 min-w-0">
+                <Badge>{WATCH_KIND_LABELS[item.kind]}</Badge>
+                <EntityLink type={item.kind} id={item.id} name={item.name} />
+                <span className="ml-auto shrink-0 text-xs text-neutral-500">
+                  {item.checkedAt ? `checked ${when(item.checkedAt)}` : 'not checked yet'}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemove(item.key)}
+                  title="Stop watching"
+                >
+                  Unwatch
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistPanel;
@@ -23,6 +23,7 @@ const baseState: SchedulerState = {
   cooldownEndsAt: null,
   errorCount: 0,
   lastError: null,
+  awaitingSignIn: false,
 };
 
 /** Reads the live state out of the context into the DOM for assertions. */
@@ -0,0 +1,46 @@
+/**
+ * @module sidepanel/export/admins/adminsExport.test
+ * @description Unit coverage for the administrators report export descriptor: the
+ * hub registers it with its own row read, and it writes how a role is held in words.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { adminsReportDescriptor, ADMINS_EXPORT_DEFAULT_COLUMNS } from './adminsExport';
+import { buildRegistry } from '../registry';
+import type { AdminReportRow } from '@/shared/adminRoles/adminRoles';
+
+const row: AdminReportRow = {
+  userId: '00uFAKE1',
+  login: 'jane@example.com',
+  name: 'Jane Doe',
+  userStatus: 'ACTIVE',
+  roleType: 'ORG_ADMIN',
+  roleLabel: 'Organization Administrator',
+  roleStatus: 'ACTIVE',
+  assignmentType: 'GROUP',
+};
+
+const cell = (id: string, record: AdminReportRow = row) => {
+  const column = adminsReportDescriptor.columnCatalog.find((c) => c.id === id);
+  const raw = column?.accessor(record);
+  return column?.format ? column.format(raw, record) : raw;
+};
+
+describe('administrators report descriptor', () => {
+  it('is registered in the Export tab hub, reading its own rows', () => {
+    const registry = buildRegistry({ searchGroups: async () => [] });
+    expect(registry[adminsReportDescriptor.id]?.readRows).toBeTypeOf('function');
+  });
+
+  it('writes how the role is held in words', () => {
+    expect(cell('assignmentType')).toBe('Via group');
+    expect(cell('assignmentType', { ...row, assignmentType: 'USER' })).toBe('Direct');
+    expect(cell('assignmentType', { ...row, assignmentType: null })).toBe('Unknown');
+  });
+
+  it('validates its own rows', () => {
+    expect(adminsReportDescriptor.schema.safeParse(row).success).toBe(true);
+    expect(ADMINS_EXPORT_DEFAULT_COLUMNS).toContain('login');
+    expect(ADMINS_EXPORT_DEFAULT_COLUMNS).not.toContain('roleType');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * @module sidepanel/export/admins/adminsExport
+ * @description Export descriptor for the org-wide administrators report.
+ *
+ * The rows are not fetched by the engine: the report walks the role-assignee
+ * listing and then reads each holder's user record and roles
+ * (`useOktaApi/adminRoles`), which no single `endpoint` can express. The Admins
+ * report hands this descriptor to `runExport` with the rows it already read;
+ * `../descriptors/admins` registers it in the Export tab hub with a `readRows`
+ * that runs the same walk.
+ *
+ * `endpoint` names the assignee listing for the audit entry only. One row per
+ * user per role, so a user holding two roles appears twice.
+ */
+
+import { z } from 'zod';
+import type { EntityExport, ExportColumn } from '../types';
+import type { AdminReportRow } from '@/shared/adminRoles/adminRoles';
+
+/** Row schema: a row as built by `shared/adminRoles/adminRoles`. */
+const adminReportRowSchema = z
+  .object({
+    userId: z.string(),
+    login: z.string(),
+    name: z.string(),
+    userStatus: z.string(),
+    roleType: z.string(),
+    roleLabel: z.string(),
+    roleStatus: z.string().nullable(),
+    assignmentType: z.enum(['USER', 'GROUP']).nullable(),
+  })
+  .passthrough();
+
+/** The columns of an administrators report CSV. */
+const adminColumns: ExportColumn<AdminReportRow>[] = [
+  {
+    id: 'roleLabel',
+    label: 'Role',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => r.roleLabel,
+  },
+  {
+    id: 'roleType',
+    label: 'Role Type',
+    group: 'base',
+    defaultEnabled: false,
+    accessor: (r) => r.roleType,
+  },
+  {
+    id: 'name',
+    label: 'Name',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => r.name,
+  },
+  {
+    id: 'login',
+    label: 'Login',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => r.login,
+  },
+  {
+    id: 'userStatus',
+    label: 'User Status',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => r.userStatus,
+  },
+  {
+    id: 'assignmentType',
+    label: 'Held',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => r.assignmentType,
+    format: (v) => (v === 'GROUP' ? 'Via group' : v === 'USER' ? 'Direct' : 'Unknown'),
+  },
+  {
+    id: 'roleStatus',
+    label: 'Role Status',
+    group: 'base',
+    defaultEnabled: false,
+    accessor: (r) => r.roleStatus,
+  },
+  {
+    id: 'userId',
+    label: 'User ID',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => r.userId,
+  },
+];
+
+/** Administrators report rows, exported through `runExport`. */
+export const adminsReportDescriptor: EntityExport<AdminReportRow> = {
+  id: 'admin-roles',
+  displayName: 'Administrators',
+  icon: 'shield',
+  description: 'Every user holding an admin role, one row per role.',
+  context: { kind: 'whole-org' },
+  endpoint: '/api/v1/iam/assignees/users',
+  defaultQuery: {},
+  schema: adminReportRowSchema,
+  filter: { kind: 'none' },
+  columnCatalog: adminColumns,
+};
+
+/** Every column enabled by default (the set a report export writes). */
+export const ADMINS_EXPORT_DEFAULT_COLUMNS = adminsReportDescriptor.columnCatalog
+  .filter((column) => column.defaultEnabled)
+  .map((column) => column.id);
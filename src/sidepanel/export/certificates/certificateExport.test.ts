@@ -0,0 +1,58 @@
+/**
+ * @module sidepanel/export/certificates/certificateExport.test
+ * @description Unit coverage for the certificate inventory export descriptor: the
+ * hub registers it with its own row read, it names an ownerless IdP key, and writes
+ * "in use" and the expiry window in words.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  certificateInventoryDescriptor,
+  CERTIFICATE_EXPORT_DEFAULT_COLUMNS,
+} from './certificateExport';
+import { buildRegistry } from '../registry';
+import type { CertificateRecord } from '@/shared/certificates/certificateInventory';
+
+const row: CertificateRecord = {
+  source: 'idp',
+  ownerId: null,
+  ownerName: '',
+  kid: 'kidFAKE1',
+  created: null,
+  expiresAt: '2026-04-01T00:00:00.000Z',
+  daysToExpiry: 12,
+  bucket: 'days-30',
+  inUse: null,
+};
+
+const cell = (id: string, record: CertificateRecord = row) => {
+  const column = certificateInventoryDescriptor.columnCatalog.find((c) => c.id === id);
+  const raw = column?.accessor(record);
+  return column?.format ? column.format(raw, record) : raw;
+};
+
+describe('certificate inventory descriptor', () => {
+  it('is registered in the Export tab hub, reading its own rows', () => {
+    const registry = buildRegistry({ searchGroups: async () => [] });
+    expect(registry[certificateInventoryDescriptor.id]?.readRows).toBeTypeOf('function');
+  });
+
+  it('labels the source, an ownerless key, and the expiry window', () => {
+    expect(cell('source')).toBe('Identity Provider');
+    expect(cell('ownerName')).toBe('(not used by any IdP)');
+    expect(cell('bucket')).toBe('≤ 30 days');
+    expect(cell('daysToExpiry')).toBe(12);
+  });
+
+  it('writes in-use as Yes, No or Unknown', () => {
+    expect(cell('inUse')).toBe('Unknown');
+    expect(cell('inUse', { ...row, inUse: true })).toBe('Yes');
+    expect(cell('inUse', { ...row, inUse: false })).toBe('No');
+  });
+
+  it('validates its own records', () => {
+    expect(certificateInventoryDescriptor.schema.safeParse(row).success).toBe(true);
+    expect(CERTIFICATE_EXPORT_DEFAULT_COLUMNS).toContain('kid');
+    expect(CERTIFICATE_EXPORT_DEFAULT_COLUMNS).not.toContain('created');
+  });
+});
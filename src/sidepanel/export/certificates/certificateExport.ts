@@ -0,0 +1,135 @@
+/**
+ * @module sidepanel/export/certificates/certificateExport
+ * @description Export descriptor for the signing-certificate inventory.
+ *
+ * The rows are not one listing: the inventory is one IdP read plus one read per
+ * SAML app (`useOktaApi/certificates`), which no single `endpoint` can express.
+ * The certificate panel hands this descriptor to `runExport` with the records it
+ * already read; `../descriptors/certificates` registers it in the Export tab hub
+ * with a `readRows` that runs the same reads.
+ *
+ * `endpoint` names the IdP key listing for the audit entry only. Rows mix apps
+ * and IdPs, so there is no `linkify`; the owner id column is there for lookups.
+ * Key material is never written — the key id identifies a certificate well enough
+ * to find it in the Admin Console.
+ */
+
+import { z } from 'zod';
+import type { EntityExport, ExportColumn } from '../types';
+import {
+  EXPIRY_BUCKET_LABEL,
+  type CertificateRecord,
+} from '@/shared/certificates/certificateInventory';
+import { formatDateForCSV } from '@/shared/utils/csvUtils';
+
+/** Row schema: a record as built by `shared/certificates/certificateInventory`. */
+const certificateRecordSchema = z
+  .object({
+    source: z.enum(['idp', 'app']),
+    ownerId: z.string().nullable(),
+    ownerName: z.string(),
+    ownerStatus: z.string().optional(),
+    kid: z.string(),
+    created: z.string().nullable(),
+    expiresAt: z.string().nullable(),
+    daysToExpiry: z.number().nullable(),
+    bucket: z.string(),
+    inUse: z.boolean().nullable(),
+  })
+  .passthrough();
+
+/** The columns of a certificate inventory CSV. */
+const certificateColumns: ExportColumn<CertificateRecord>[] = [
+  {
+    id: 'source',
+    label: 'Configured On',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => (r.source === 'idp' ? 'Identity Provider' : 'App'),
+  },
+  {
+    id: 'ownerName',
+    label: 'Name',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => r.ownerName || '(not used by any IdP)',
+  },
+  {
+    id: 'ownerId',
+    label: 'App / IdP ID',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => r.ownerId,
+  },
+  {
+    id: 'ownerStatus',
+    label: 'Status',
+    group: 'base',
+    defaultEnabled: false,
+    accessor: (r) => r.ownerStatus,
+  },
+  {
+    id: 'kid',
+    label: 'Key ID',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => r.kid,
+  },
+  {
+    id: 'inUse',
+    label: 'In Use',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => r.inUse,
+    format: (v) => (v === null ? 'Unknown' : v ? 'Yes' : 'No'),
+  },
+  {
+    id: 'expiresAt',
+    label: 'Expires',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => r.expiresAt,
+    format: (v) => formatDateForCSV(v as string | null | undefined),
+  },
+  {
+    id: 'daysToExpiry',
+    label: 'Days To Expiry',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => r.daysToExpiry,
+  },
+  {
+    id: 'bucket',
+    label: 'Expiry Window',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (r) => EXPIRY_BUCKET_LABEL[r.bucket],
+  },
+  {
+    id: 'created',
+    label: 'Created',
+    group: 'base',
+    defaultEnabled: false,
+    accessor: (r) => r.created,
+    format: (v) => formatDateForCSV(v as string | null | undefined),
+  },
+];
+
+/** Signing-certificate inventory rows, exported through `runExport`. */
+export const certificateInventoryDescriptor: EntityExport<CertificateRecord> = {
+  id: 'certificate-inventory',
+  displayName: 'Signing certificates',
+  icon: 'key',
+  description: 'IdP and SAML app signing certificates, with days to expiry.',
+  context: { kind: 'whole-org' },
+  endpoint: '/api/v1/idps/credentials/keys',
+  defaultQuery: {},
+  schema: certificateRecordSchema,
+  filter: { kind: 'none' },
+  columnCatalog: certificateColumns,
+};
+
+/** Every column enabled by default (the set an inventory export writes). */
+export const CERTIFICATE_EXPORT_DEFAULT_COLUMNS = certificateInventoryDescriptor.columnCatalog
+  .filter((column) => column.defaultEnabled)
+  .map((column) => column.id);
@@ -0,0 +1,64 @@
+/**
+ * @module sidepanel/export/descriptors/admins.test
+ * @description Unit tests for the hub's Administrators descriptor — it exports the
+ * admins report's rows and says how many holders it had to leave out.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { makeFakeCore } from '@/test/factories/coreApi';
+import type { AdminReportRow } from '@/shared/adminRoles/adminRoles';
+
+const getAdminsReport = vi.hoisted(() => vi.fn());
+vi.mock('@/sidepanel/hooks/useOktaApi/adminRoles', () => ({
+  createAdminRoleOperations: () => ({ getAdminsReport }),
+}));
+
+import adminsDescriptor from './admins';
+
+const row: AdminReportRow = {
+  userId: '00uFAKE1',
+  login: 'jane@example.com',
+  name: 'Jane Doe',
+  userStatus: 'ACTIVE',
+  roleType: 'ORG_ADMIN',
+  roleLabel: 'Organization Administrator',
+  roleStatus: 'ACTIVE',
+  assignmentType: 'USER',
+};
+
+describe('adminsDescriptor', () => {
+  it('has the expected registry contract', () => {
+    expect(adminsDescriptor.id).toBe('admin-roles');
+    expect(adminsDescriptor.context.kind).toBe('whole-org');
+    expect(adminsDescriptor.filter.kind).toBe('none');
+  });
+
+  it("reads the report's rows and warns about the holders it could not read", async () => {
+    getAdminsReport.mockResolvedValue({
+      rows: [row],
+      readAt: '2026-01-01T00:00:00.000Z',
+      adminCount: 3,
+      unreadable: [
+        { userId: '00uFAKE2', error: 'Forbidden' },
+        { userId: '00uFAKE3', error: 'Forbidden' },
+      ],
+    });
+    const onResult = vi.fn();
+    const core = makeFakeCore({ callbacks: { onResult } });
+
+    await expect(adminsDescriptor.readRows?.(core)).resolves.toEqual([row]);
+    expect(onResult).toHaveBeenCalledWith({
+      message: 'Not in the export: 2 administrators who could not be read.',
+      type: 'warning',
+    });
+  });
+
+  it('stays quiet when every holder was read', async () => {
+    getAdminsReport.mockResolvedValue({ rows: [row], readAt: '', adminCount: 1, unreadable: [] });
+    const onResult = vi.fn();
+
+    await adminsDescriptor.readRows?.(makeFakeCore({ callbacks: { onResult } }));
+
+    expect(onResult).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * @module sidepanel/export/descriptors/admins
+ * @description The Administrators export descriptor — every admin role holder.
+ *
+ * Registers {@link adminsReportDescriptor} in the Export hub. No single listing
+ * returns the rows, so `readRows` runs the report's walk (the role-assignee
+ * listing, then each holder's user and roles, from `useOktaApi/adminRoles`). A
+ * holder who could not be read is left out of the rows, and the admin is told how
+ * many were.
+ */
+
+import { createAdminRoleOperations } from '@/sidepanel/hooks/useOktaApi/adminRoles';
+import type { AdminReportRow } from '@/shared/adminRoles/adminRoles';
+import type { EntityExport } from '../types';
+import { adminsReportDescriptor } from '../admins/adminsExport';
+
+/** Whole-org administrators export, read through the admins report walk. */
+export const adminsDescriptor: EntityExport<AdminReportRow> = {
+  ...adminsReportDescriptor,
+  readRows: async (coreApi) => {
+    const report = await createAdminRoleOperations(coreApi).getAdminsReport();
+    const unread = report.unreadable.length;
+    if (unread > 0) {
+      coreApi.callbacks.onResult?.({
+        message: `Not in the export: ${unread} administrator${unread === 1 ? '' : 's'} who could not be read.`,
+        type: 'warning',
+      });
+    }
+    return report.rows;
+  },
+};
+
+export default adminsDescriptor;
@@ -8,8 +8,8 @@
  * same lenient contract as the Auth Policies tab (ADR-0006).
  *
  * The policies list endpoint exposes no useful search parameter, so there is no raw
- * filter box. No `linkify`: `oktaAdminEntityUrl` models group/user/app only, and
- * widening it for policies is out of scope here. The `type=ACCESS_POLICY` selector
+ * filter box. No `linkify` yet, though `oktaAdminEntityUrl` now links policies
+ * too — adding one changes the export's columns. The `type=ACCESS_POLICY` selector
  * is carried in `defaultQuery` (see the note on the descriptor below).
  */
 
@@ -0,0 +1,71 @@
+/**
+ * @module sidepanel/export/descriptors/certificates.test
+ * @description Unit tests for the hub's Signing certificates descriptor — it
+ * exports the inventory's records and names what it could not read.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { makeFakeCore } from '@/test/factories/coreApi';
+import type { CertificateRecord } from '@/shared/certificates/certificateInventory';
+
+const getCertificateInventory = vi.hoisted(() => vi.fn());
+vi.mock('@/sidepanel/hooks/useOktaApi/certificates', () => ({
+  createCertificateOperations: () => ({ getCertificateInventory }),
+}));
+
+import certificatesDescriptor from './certificates';
+
+const record: CertificateRecord = {
+  source: 'app',
+  ownerId: '0oaFAKE1',
+  ownerName: 'Payroll',
+  kid: 'kidFAKE1',
+  created: null,
+  expiresAt: '2026-04-01T00:00:00.000Z',
+  daysToExpiry: 12,
+  bucket: 'days-30',
+  inUse: true,
+};
+
+const inventory = {
+  records: [record],
+  readAt: '2026-01-01T00:00:00.000Z',
+  idpError: null,
+  appListError: null,
+  unreadableApps: [],
+};
+
+describe('certificatesDescriptor', () => {
+  it('has the expected registry contract', () => {
+    expect(certificatesDescriptor.id).toBe('certificate-inventory');
+    expect(certificatesDescriptor.context.kind).toBe('whole-org');
+    expect(certificatesDescriptor.filter.kind).toBe('none');
+  });
+
+  it("reads the inventory's records without a warning when everything was read", async () => {
+    getCertificateInventory.mockResolvedValue(inventory);
+    const onResult = vi.fn();
+
+    await expect(
+      certificatesDescriptor.readRows?.(makeFakeCore({ callbacks: { onResult } })),
+    ).resolves.toEqual([record]);
+    expect(onResult).not.toHaveBeenCalled();
+  });
+
+  it('names the IdP keys and the apps it could not read', async () => {
+    getCertificateInventory.mockResolvedValue({
+      ...inventory,
+      idpError: 'Forbidden',
+      unreadableApps: [{ appId: '0oaFAKE2', appName: 'Wiki', error: 'Forbidden' }],
+    });
+    const onResult = vi.fn();
+
+    await certificatesDescriptor.readRows?.(makeFakeCore({ callbacks: { onResult } }));
+
+    expect(onResult).toHaveBeenCalledWith({
+      message:
+        'Not in the export, because they could not be read: the IdP certificates, the certificates of 1 app.',
+      type: 'warning',
+    });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * @module sidepanel/export/descriptors/certificates
+ * @description The Signing certificates export descriptor — IdP and SAML app keys.
+ *
+ * Registers {@link certificateInventoryDescriptor} in the Export hub. No single
+ * listing returns the rows, so `readRows` runs the inventory's reads (the IdP keys,
+ * then each SAML app's keys, from `useOktaApi/certificates`). Whatever could not be
+ * read is missing from the rows, and the admin is told so.
+ */
+
+import { createAppOperations } from '@/sidepanel/hooks/useOktaApi/appOperations';
+import { createCertificateOperations } from '@/sidepanel/hooks/useOktaApi/certificates';
+import type { CertificateRecord } from '@/shared/certificates/certificateInventory';
+import type { EntityExport } from '../types';
+import { certificateInventoryDescriptor } from '../certificates/certificateExport';
+
+/** Whole-org signing-certificate export, read through the inventory walk. */
+export const certificatesDescriptor: EntityExport<CertificateRecord> = {
+  ...certificateInventoryDescriptor,
+  readRows: async (coreApi) => {
+    const { getAllApps } = createAppOperations(coreApi);
+    const inventory = await createCertificateOperations(coreApi, {
+      getAllApps,
+    }).getCertificateInventory();
+    const unreadApps = inventory.unreadableApps.length;
+    const missing = [
+      inventory.idpError ? 'the IdP certificates' : null,
+      inventory.appListError ? 'every app certificate' : null,
+      unreadApps > 0 ? `the certificates of ${unreadApps} app${unreadApps === 1 ? '' : 's'}` : null,
+    ].filter((part) => part !== null);
+    if (missing.length > 0) {
+      coreApi.callbacks.onResult?.({
+        message: `Not in the export, because they could not be read: ${missing.join(', ')}.`,
+        type: 'warning',
+      });
+    }
+    return inventory.records;
+  },
+};
+
+export default certificatesDescriptor;
@@ -0,0 +1,56 @@
+/**
+ * @module sidepanel/export/simulation/ruleSimulationExport.test
+ * @description Unit coverage for the rule simulation export descriptor: it stays
+ * out of the auto-registered hub, reuses the Users catalog through `row.user`,
+ * and labels outcomes, reasons and transitions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ruleSimulationDescriptor, RULE_SIMULATION_DEFAULT_COLUMNS } from './ruleSimulationExport';
+import { buildRegistry } from '../registry';
+import type { SimulatedUser } from '@/shared/membership/ruleSimulation';
+
+const row: SimulatedUser = {
+  user: {
+    id: '00uFAKE1',
+    status: 'ACTIVE',
+    profile: {
+      login: 'fake@example.com',
+      email: 'fake@example.com',
+      firstName: 'F',
+      lastName: 'U',
+    },
+  },
+  outcome: 'unevaluable',
+  reasonCode: 'group-membership-fn',
+  baselineOutcome: 'match',
+  change: 'unknown',
+};
+
+const cell = (id: string) =>
+  ruleSimulationDescriptor.columnCatalog.find((c) => c.id === id)?.accessor(row);
+
+describe('ruleSimulation descriptor', () => {
+  it('is not registered in the Export tab hub', () => {
+    const registry = buildRegistry({ searchGroups: async () => [] });
+    expect(registry[ruleSimulationDescriptor.id]).toBeUndefined();
+  });
+
+  it('reads the user columns through row.user', () => {
+    expect(cell('id')).toBe('00uFAKE1');
+    expect(cell('login')).toBe('fake@example.com');
+  });
+
+  it('labels the outcome, reason and transition', () => {
+    expect(cell('outcome')).toBe('Unevaluable');
+    expect(cell('unevaluableReason')).not.toBe('');
+    expect(cell('baselineOutcome')).toBe('Match');
+    expect(cell('change')).toBe('Unknown');
+  });
+
+  it('enables the identity and outcome columns by default', () => {
+    expect(RULE_SIMULATION_DEFAULT_COLUMNS).toEqual(
+      expect.arrayContaining(['id', 'login', 'outcome', 'change']),
+    );
+  });
+});
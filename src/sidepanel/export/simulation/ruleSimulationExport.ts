@@ -0,0 +1,116 @@
+/**
+ * @module sidepanel/export/simulation/ruleSimulationExport
+ * @description Export descriptor for an org-wide rule what-if simulation.
+ *
+ * The rows are not fetched by the engine — `simulateRuleAcrossOrg` has already
+ * paged the org and evaluated every user — so this descriptor is handed straight
+ * to `runExport` with one cohort's rows. It deliberately lives outside
+ * `../descriptors/`: everything there is auto-registered in the Export tab hub,
+ * and a simulation has no meaning without the condition it was run for.
+ *
+ * The user columns are the Users export's catalog, read through `row.user`, so a
+ * simulation CSV lines up column-for-column with a plain Users export. The
+ * condition itself is never written to the file; the reason column carries the
+ * plain-language sentence, not expression text.
+ */
+
+import { z } from 'zod';
+import type { EntityExport, ExportColumn } from '../types';
+import { userColumns, exportUserSchema, type ExportUser } from '../columns/userColumns';
+import type { SimulatedUser } from '@/shared/membership/ruleSimulation';
+import { unevaluableReasonText } from '@/shared/rules/unevaluableReasonText';
+
+/** Row schema: a simulated user as produced by `shared/membership/ruleSimulation`. */
+const simulatedUserSchema = z
+  .object({
+    user: exportUserSchema,
+    outcome: z.enum(['match', 'no-match', 'unevaluable']),
+  })
+  .passthrough();
+
+/** The outcome labels written to the CSV. */
+const OUTCOME_LABEL: Record<SimulatedUser['outcome'], string> = {
+  match: 'Match',
+  'no-match': 'No match',
+  unevaluable: 'Unevaluable',
+};
+
+/** The transition labels written to the CSV. */
+const CHANGE_LABEL: Record<NonNullable<SimulatedUser['change']>, string> = {
+  starts: 'Starts matching',
+  stops: 'Stops matching',
+  unchanged: 'Unchanged',
+  unknown: 'Unknown',
+};
+
+/** The Users catalog, re-pointed at the simulated row's user. */
+const simulatedUserColumns: ExportColumn<SimulatedUser>[] = userColumns.map((column) => {
+  const { format } = column;
+  return {
+    ...column,
+    accessor: (row: SimulatedUser) => column.accessor(row.user as ExportUser),
+    format: format
+      ? (value: unknown, row: SimulatedUser) => format(value, row.user as ExportUser)
+      : undefined,
+  };
+});
+
+/** Simulation-specific columns, appended after the user columns. */
+const outcomeColumns: ExportColumn<SimulatedUser>[] = [
+  {
+    id: 'outcome',
+    label: 'Outcome',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (row) => OUTCOME_LABEL[row.outcome],
+  },
+  {
+    id: 'unevaluableReason',
+    label: 'Why Unevaluable',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (row) => (row.outcome === 'unevaluable' ? unevaluableReasonText(row.reasonCode) : ''),
+  },
+  {
+    id: 'excluded',
+    label: 'Excluded By Rule',
+    group: 'base',
+    defaultEnabled: false,
+    accessor: (row) => row.excluded ?? false,
+    format: (value) => (value ? 'Yes' : 'No'),
+  },
+  {
+    id: 'baselineOutcome',
+    label: 'Current Outcome',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (row) => (row.baselineOutcome ? OUTCOME_LABEL[row.baselineOutcome] : ''),
+  },
+  {
+    id: 'change',
+    label: 'Change',
+    group: 'base',
+    defaultEnabled: true,
+    accessor: (row) => (row.change ? CHANGE_LABEL[row.change] : ''),
+  },
+];
+
+/** Rule what-if simulation rows, exported through `runExport`. */
+export const ruleSimulationDescriptor: EntityExport<SimulatedUser> = {
+  id: 'rule-simulation',
+  displayName: 'Rule simulation',
+  icon: 'sparkles',
+  description: 'Which users a proposed rule condition would match, across the whole org.',
+  context: { kind: 'whole-org' },
+  endpoint: '/api/v1/users',
+  defaultQuery: { limit: 200 },
+  schema: simulatedUserSchema,
+  filter: { kind: 'none' },
+  linkify: { entityType: 'user', idColumnId: 'id' },
+  columnCatalog: [...simulatedUserColumns, ...outcomeColumns],
+};
+
+/** Every column enabled by default (the set a simulation export writes). */
+export const RULE_SIMULATION_DEFAULT_COLUMNS = ruleSimulationDescriptor.columnCatalog
+  .filter((column) => column.defaultEnabled)
+  .map((column) => column.id);
@@ -15,6 +15,7 @@
 import type { z } from 'zod';
 import type { OktaAdminEntityType } from '@/shared/utils/oktaUrl';
 import type { IconType } from '@/sidepanel/components/overview/shared/Icon';
+import type { CoreApi } from '@/sidepanel/hooks/useOktaApi/core';
 
 /** Column grouping bucket shown in the picker (base identity vs. profile vs. org-custom). */
 export type ColumnGroup = 'base' | 'profile' | 'custom';
@@ -162,4 +163,12 @@ export interface EntityExport<Row = unknown> {
    * a default (50k) when omitted.
    */
   maxRows?: number;
+
+  /**
+   * Read the rows in place of the paged `endpoint` read, for a report no single
+   * listing returns (a walk with one read per app or per admin). The engine still
+   * validates them with `schema` and applies `maxRows`; `endpoint` then only names
+   * the audit entry. Such a descriptor offers no filter.
+   */
+  readRows?(coreApi: CoreApi): Promise<unknown[]>;
 }
@@ -0,0 +1,236 @@
+/**
+ * @module sidepanel/hooks/useAccessReview
+ * @description Drives a group's access-review campaigns: start, decide, apply the
+ * revocations, sign off, and download the evidence.
+ *
+ * Campaigns live in `shared/storage/accessReviewStore`, so a review can be worked
+ * on across several sittings. A group has at most one open campaign; the signed-off
+ * ones are its history, newest first, and the latest sets when the next review is
+ * due. Every change is written back to the store as soon as it is made, and a failed
+ * write is surfaced rather than lost silently.
+ *
+ * The Okta calls are in `useOktaApi/accessReview`; the rules about what may happen
+ * when are in `shared/membership/accessReview`.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import {
+  buildAccessReviewEvidenceCsv,
+  decideMembers,
+  nextReviewDue,
+  noteMember,
+  type AccessReviewCampaign,
+  type ReviewDecision,
+} from '../../shared/membership/accessReview';
+import { accessReviewStore } from '../../shared/storage/accessReviewStore';
+import { downloadCSV, getDateForFilename, sanitizeFilename } from '../../shared/utils/csvUtils';
+import { createLogger } from '../../shared/utils/logger';
+
+const log = createLogger('useAccessReview');
+
+/** What the review is busy doing, if anything. */
+export type AccessReviewBusy = 'starting' | 'revoking' | 'signing-off' | null;
+
+/** Return shape of {@link useAccessReview}. */
+export interface UseAccessReviewReturn {
+  /** The group's open campaign, if one is in progress. */
+  active: AccessReviewCampaign | null;
+  /** Signed-off campaigns, newest first. */
+  history: AccessReviewCampaign[];
+  /** When the next review falls due, from the latest sign-off. */
+  nextDue: Date | null;
+  isLoading: boolean;
+  busy: AccessReviewBusy;
+  error: string | null;
+  /** Snapshot the group's members into a new campaign. */
+  start: (dueAt?: Date) => Promise<void>;
+  /** Set (or, with `null`, clear) the decision for several members. */
+  decide: (userIds: string[], decision: ReviewDecision | null) => void;
+  /** Set the note on one member; blank clears it. */
+  setNote: (userId: string, note: string) => void;
+  /** Remove the revoked members no rule manages, and freeze the decisions. */
+  applyRevocations: () => Promise<void>;
+  /** Sign the open campaign off. */
+  signOff: () => Promise<void>;
+  /** Download a campaign's evidence CSV. */
+  downloadEvidence: (campaign: AccessReviewCampaign) => void;
+  /** Delete the open campaign without signing it off. */
+  discard: () => Promise<void>;
+  clearError: () => void;
+}
+
+/**
+ * Manage one group's access reviews.
+ *
+ * @param group - The group under review, or `null` when none is selected.
+ * @param targetTabId - Connected Okta tab id (operations no-op when absent).
+ * @param onRevoked - Called after revocations removed at least one member, so the
+ * caller can reload the member list.
+ * @returns Campaign state plus the review actions.
+ */
+export function useAccessReview(
+  group: { id: string; name: string } | null,
+  targetTabId?: number,
+  onRevoked?: () => void,
+): UseAccessReviewReturn {
+  const { startAccessReview, applyAccessReviewRevocations, signOffAccessReview } = useOktaApi({
+    targetTabId: targetTabId ?? null,
+  });
+
+  const [campaigns, setCampaigns] = useState<AccessReviewCampaign[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busy, setBusy] = useState<AccessReviewBusy>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const groupId = group?.id ?? null;
+  const groupName = group?.name ?? '';
+
+  useEffect(() => {
+    if (!groupId) {
+      setCampaigns([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    accessReviewStore
+      .listCampaigns(groupId)
+      .then((list) => {
+        if (!cancelled) setCampaigns(list);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId]);
+
+  const active = useMemo(() => campaigns.find((c) => c.status === 'open') ?? null, [campaigns]);
+  const history = useMemo(() => campaigns.filter((c) => c.status === 'signed-off'), [campaigns]);
+  const nextDue = history[0]?.signedOffAt ? nextReviewDue(history[0].signedOffAt) : null;
+
+  // `decide` and `setNote` read the open campaign through a ref so their identities
+  // stay stable: every member row receives them, and the rows are memoized.
+  const activeRef = useRef(active);
+  useEffect(() => {
+    activeRef.current = active;
+  }, [active]);
+
+  /** Replace a campaign in state (newest first) and write it to the store. */
+  const commit = useCallback((campaign: AccessReviewCampaign) => {
+    setCampaigns((prev) =>
+      [campaign, ...prev.filter((c) => c.id !== campaign.id)].sort(
+        (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+      ),
+    );
+    void accessReviewStore.saveCampaign(campaign).then((saved) => {
+      if (!saved) setError('The review could not be saved in this browser. Try again.');
+    });
+  }, []);
+
+  const start = useCallback(
+    async (dueAt?: Date) => {
+      if (!groupId || active) return;
+      setBusy('starting');
+      setError(null);
+      try {
+        commit(await startAccessReview({ id: groupId, name: groupName }, dueAt));
+      } catch (err) {
+        log.error('Starting access review failed:', err);
+        setError(err instanceof Error ? err.message : 'Failed to snapshot the group members');
+      } finally {
+        setBusy(null);
+      }
+    },
+    [groupId, groupName, active, startAccessReview, commit],
+  );
+
+  const decide = useCallback(
+    (userIds: string[], decision: ReviewDecision | null) => {
+      const current = activeRef.current;
+      if (!current) return;
+      const next = decideMembers(current, userIds, decision, new Date());
+      if (next !== current) {
+        activeRef.current = next;
+        commit(next);
+      }
+    },
+    [commit],
+  );
+
+  const setNote = useCallback(
+    (userId: string, note: string) => {
+      const current = activeRef.current;
+      if (!current) return;
+      const next = noteMember(current, userId, note);
+      if (next !== current) {
+        activeRef.current = next;
+        commit(next);
+      }
+    },
+    [commit],
+  );
+
+  const applyRevocations = useCallback(async () => {
+    if (!active) return;
+    setBusy('revoking');
+    setError(null);
+    try {
+      const applied = await applyAccessReviewRevocations(active);
+      commit(applied);
+      if (applied.items.some((item) => item.revocation?.result === 'removed')) onRevoked?.();
+    } catch (err) {
+      log.error('Applying access-review revocations failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to apply the revocations');
+    } finally {
+      setBusy(null);
+    }
+  }, [active, applyAccessReviewRevocations, commit, onRevoked]);
+
+  const signOff = useCallback(async () => {
+    if (!active) return;
+    setBusy('signing-off');
+    setError(null);
+    try {
+      commit(await signOffAccessReview(active));
+    } catch (err) {
+      log.error('Access-review sign-off failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sign the review off');
+    } finally {
+      setBusy(null);
+    }
+  }, [active, signOffAccessReview, commit]);
+
+  const downloadEvidence = useCallback((campaign: AccessReviewCampaign) => {
+    downloadCSV(
+      buildAccessReviewEvidenceCsv(campaign),
+      `access_review_${sanitizeFilename(campaign.groupName)}_${getDateForFilename()}.csv`,
+    );
+  }, []);
+
+  const discard = useCallback(async () => {
+    if (!active) return;
+    await accessReviewStore.deleteCampaign(active.id);
+    setCampaigns((prev) => prev.filter((c) => c.id !== active.id));
+  }, [active]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    active,
+    history,
+    nextDue,
+    isLoading,
+    busy,
+    error,
+    start,
+    decide,
+    setNote,
+    applyRevocations,
+    signOff,
+    downloadEvidence,
+    discard,
+    clearError,
+  };
+}
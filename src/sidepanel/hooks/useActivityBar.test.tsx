@@ -36,6 +36,7 @@ beforeEach(() => {
           cooldownEndsAt: null,
           errorCount: 0,
           lastError: null,
+          awaitingSignIn: false,
         },
       });
     }
@@ -56,6 +57,33 @@ describe('useActivityBar', () => {
     expect(result.current.view.statusLabel).toBe('Processing');
   });
 
+  it('says the scheduler is waiting for sign-in when a session error paused it', async () => {
+    sendMessage.mockImplementation((msg: { action: string }) =>
+      Promise.resolve(
+        msg.action === 'getSchedulerState'
+          ? {
+              success: true,
+              state: {
+                status: 'paused',
+                queueLength: 40,
+                activeRequests: 0,
+                totalProcessed: 60,
+                rateLimitInfo: null,
+                cooldownEndsAt: null,
+                errorCount: 0,
+                lastError: null,
+                awaitingSignIn: true,
+              },
+            }
+          : { success: true },
+      ),
+    );
+    const { result } = renderHook(() => useActivityBar(), { wrapper });
+
+    await waitFor(() => expect(result.current.view.statusLabel).toBe('Waiting for sign-in'));
+    expect(result.current.view.statusColorVar).toBe('var(--color-warning)');
+  });
+
   it('reflects a running operation from progress', () => {
     const { result } = renderHook(() => ({ bar: useActivityBar(), progress: useProgress() }), {
       wrapper,
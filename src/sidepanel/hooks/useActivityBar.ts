@@ -161,10 +161,13 @@ export function useActivityBar(): UseActivityBar {
     : null;
 
   const queueLength = state?.queueLength ?? 0;
+  // A pause the scheduler took on an expired session, not one the admin asked
+  // for: say what ends it.
+  const awaitingSignIn = Boolean(state?.awaitingSignIn);
 
   const view: ActivityView = {
-    statusLabel: STATUS_LABEL[status],
-    statusColorVar: STATUS_COLOR[status],
+    statusLabel: awaitingSignIn ? 'Waiting for sign-in' : STATUS_LABEL[status],
+    statusColorVar: awaitingSignIn ? 'var(--color-warning)' : STATUS_COLOR[status],
     busy: status !== 'idle' || operationActive,
     operationActive,
     operationName: progress.operationName,
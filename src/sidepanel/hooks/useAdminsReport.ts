@@ -0,0 +1,111 @@
+/**
+ * @module sidepanel/hooks/useAdminsReport
+ * @description Drives the Users tab's all-admins report.
+ *
+ * The report is one read per role holder, so it is loaded only when asked and
+ * kept until reloaded; the modal shows when it was read. A cancelled load keeps
+ * the previous report.
+ *
+ * Names and logins are tenant data: nothing here logs them — counts only.
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import {
+  roleHolderCounts,
+  sortAdminReportRows,
+  type AdminReportRow,
+  type AdminsReport,
+} from '../../shared/adminRoles/adminRoles';
+import {
+  adminsReportDescriptor,
+  ADMINS_EXPORT_DEFAULT_COLUMNS,
+} from '../export/admins/adminsExport';
+import { OperationCancelledError } from '../../shared/scheduler/cancellation';
+import { createLogger } from '../../shared/utils/logger';
+
+const log = createLogger('useAdminsReport');
+
+/** Lifecycle of one report load. */
+export type AdminsReportStatus = 'idle' | 'loading' | 'done' | 'error';
+
+/** Return shape of {@link useAdminsReport}. */
+export interface UseAdminsReportReturn {
+  status: AdminsReportStatus;
+  report: AdminsReport | null;
+  error: string | null;
+  /** The report's rows, sorted by role and then by person. */
+  rows: AdminReportRow[];
+  /** Distinct holders per role, most-held first. */
+  holderCounts: Array<{ label: string; count: number }>;
+  /** Read the report from Okta. */
+  load: () => Promise<void>;
+  /** Stop a running load between user reads. */
+  cancel: () => void;
+  /** Download the rows as CSV. */
+  exportRows: () => Promise<void>;
+}
+
+/**
+ * Manage the all-admins report.
+ *
+ * @param targetTabId - The connected Okta tab.
+ * @returns Report state plus its controls.
+ */
+export function useAdminsReport(targetTabId: number | null): UseAdminsReportReturn {
+  const { getAdminsReport, runExport, cancelOperation } = useOktaApi({ targetTabId });
+
+  const [status, setStatus] = useState<AdminsReportStatus>('idle');
+  const [report, setReport] = useState<AdminsReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setStatus('loading');
+    setError(null);
+    try {
+      const next = await getAdminsReport();
+      setReport(next);
+      setStatus('done');
+      log.info('Admins report read', {
+        admins: next.adminCount,
+        rows: next.rows.length,
+        unreadable: next.unreadable.length,
+      });
+    } catch (err) {
+      if (err instanceof OperationCancelledError) {
+        setStatus(report ? 'done' : 'idle');
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Could not read administrators');
+      setStatus('error');
+    }
+  }, [getAdminsReport, report]);
+
+  const rows = useMemo(() => (report ? sortAdminReportRows(report.rows) : []), [report]);
+  const holderCounts = useMemo(() => roleHolderCounts(rows), [rows]);
+
+  const exportRows = useCallback(async () => {
+    if (!report) return;
+    try {
+      await runExport({
+        descriptor: adminsReportDescriptor,
+        rows,
+        enabledColumnIds: ADMINS_EXPORT_DEFAULT_COLUMNS,
+        contextLabel: 'Administrators',
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  }, [report, rows, runExport]);
+
+  return {
+    status,
+    report,
+    error,
+    rows,
+    holderCounts,
+    load,
+    cancel: cancelOperation,
+    exportRows,
+  };
+}
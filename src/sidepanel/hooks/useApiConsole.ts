@@ -0,0 +1,190 @@
+/**
+ * @module sidepanel/hooks/useApiConsole
+ * @description Drives the API Console tab: the request form, the confirmation a
+ * write waits on, and the response with any further pages of it.
+ *
+ * Nothing is sent on a keystroke. **Send** checks the form
+ * (`shared/apiConsole/apiConsole`) and sends a `GET` straight away; any other
+ * method is armed as `pending` and goes only from the confirmation. **Next
+ * page** follows the list's `Link` header and appends, so the tree and the
+ * table show every page read so far; a new request starts over.
+ *
+ * Request bodies and responses are tenant data: nothing here logs them.
+ */
+
+import { useCallback, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import {
+  isConsoleWrite,
+  parseConsoleBody,
+  resolveConsolePath,
+  type ApiConsoleMethod,
+} from '../../shared/apiConsole/apiConsole';
+import type { ApiConsoleRequest, ApiConsoleResponse } from './useOktaApi/apiConsole';
+
+/** The form as the admin is writing it. */
+export interface ApiConsoleDraft {
+  method: ApiConsoleMethod;
+  /** What was typed: a path or an absolute URL of the org. */
+  path: string;
+  /** JSON text; sent only with a write. */
+  body: string;
+  priority: ApiConsoleRequest['priority'];
+}
+
+/** The response on screen, with every page read so far. */
+export interface ApiConsoleResult {
+  /** The request that produced the first page. */
+  request: ApiConsoleRequest;
+  /** The latest page's response; its `data` is that page only. */
+  response: ApiConsoleResponse;
+  /** The body to show: every page's items for a list, else the one body. */
+  data: unknown;
+  /** Pages read, 1 for a single response. */
+  pages: number;
+}
+
+/** Return shape of {@link useApiConsole}. */
+export interface UseApiConsoleReturn {
+  draft: ApiConsoleDraft;
+  /** Change part of the form. */
+  setDraft: (patch: Partial<ApiConsoleDraft>) => void;
+  /** Why the form cannot be sent, or `null`. */
+  formError: string | null;
+  /** Check the form; send a `GET`, arm anything else. */
+  send: () => void;
+  /** The write awaiting confirmation, or `null`. Drives the confirm modal. */
+  pending: ApiConsoleRequest | null;
+  confirmPending: () => Promise<void>;
+  cancelPending: () => void;
+  /** True while a request or a page is in flight. */
+  isSending: boolean;
+  result: ApiConsoleResult | null;
+  /** Read the next page of the list on screen. */
+  loadNextPage: () => Promise<void>;
+}
+
+const INITIAL_DRAFT: ApiConsoleDraft = {
+  method: 'GET',
+  path: '/api/v1/users/me',
+  body: '',
+  priority: 'normal',
+};
+
+/**
+ * Manage the API Console.
+ *
+ * @param targetTabId - The connected Okta tab.
+ * @param oktaOrigin - The connected org's origin; an absolute URL must be on it.
+ * @returns Form, confirmation and response state plus their controls.
+ */
+export function useApiConsole(
+  targetTabId: number | null,
+  oktaOrigin: string | null,
+): UseApiConsoleReturn {
+  const { sendConsoleRequest } = useOktaApi({ targetTabId });
+
+  const [draft, setDraftState] = useState<ApiConsoleDraft>(INITIAL_DRAFT);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [pending, setPending] = useState<ApiConsoleRequest | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<ApiConsoleResult | null>(null);
+
+  const setDraft = useCallback((patch: Partial<ApiConsoleDraft>) => {
+    setDraftState((prev) => ({ ...prev, ...patch }));
+    setFormError(null);
+  }, []);
+
+  const run = useCallback(
+    async (request: ApiConsoleRequest) => {
+      setIsSending(true);
+      try {
+        const response = await sendConsoleRequest(request);
+        setResult({ request, response, data: response.data, pages: 1 });
+      } catch (err) {
+        setFormError(err instanceof Error ? err.message : 'Request failed');
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [sendConsoleRequest],
+  );
+
+  const send = useCallback(() => {
+    const path = resolveConsolePath(draft.path, oktaOrigin);
+    if (!path.ok) {
+      setFormError(path.error);
+      return;
+    }
+    const write = isConsoleWrite(draft.method);
+    const body = write ? parseConsoleBody(draft.body) : { ok: true as const, value: undefined };
+    if (!body.ok) {
+      setFormError(body.error);
+      return;
+    }
+    const request: ApiConsoleRequest = {
+      method: draft.method,
+      path: path.value,
+      body: body.value,
+      priority: draft.priority,
+    };
+    if (write) {
+      setPending(request);
+      return;
+    }
+    void run(request);
+  }, [draft, oktaOrigin, run]);
+
+  const confirmPending = useCallback(async () => {
+    if (!pending) return;
+    setPending(null);
+    await run(pending);
+  }, [pending, run]);
+
+  const cancelPending = useCallback(() => setPending(null), []);
+
+  const loadNextPage = useCallback(async () => {
+    const nextPath = result?.response.nextPath;
+    if (!result || !nextPath) return;
+    setIsSending(true);
+    try {
+      const response = await sendConsoleRequest({
+        method: 'GET',
+        path: nextPath,
+        priority: result.request.priority,
+      });
+      setResult((prev) =>
+        prev
+          ? {
+              request: prev.request,
+              // A failed page keeps its link, so Next page retries it.
+              response: response.ok ? response : { ...response, nextPath },
+              // A failed page keeps what was read and shows the error beside it.
+              data:
+                response.ok && Array.isArray(prev.data) && Array.isArray(response.data)
+                  ? [...prev.data, ...response.data]
+                  : prev.data,
+              pages: response.ok ? prev.pages + 1 : prev.pages,
+            }
+          : prev,
+      );
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsSending(false);
+    }
+  }, [result, sendConsoleRequest]);
+
+  return {
+    draft,
+    setDraft,
+    formError,
+    send,
+    pending,
+    confirmPending,
+    cancelPending,
+    isSending,
+    result,
+    loadNextPage,
+  };
+}
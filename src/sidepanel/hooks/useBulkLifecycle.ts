@@ -0,0 +1,196 @@
+/**
+ * @module sidepanel/hooks/useBulkLifecycle
+ * @description Drives the bulk lifecycle console: read the targets, preflight an
+ * action against them, run it.
+ *
+ * `preview` reads the targets from a list, a group or a search (see
+ * `useOktaApi/bulkLifecycle`) and sends no writes. The plan is derived from those
+ * targets and the chosen action, so picking another action re-plans at once with
+ * no further reads. `execute` sends the action to the plan's change users only.
+ *
+ * The group picker's search and the saved Users export filters are read here too,
+ * so the modal stays presentational.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import type { BulkLifecycleResult, BulkLifecycleSource } from './useOktaApi/bulkLifecycle';
+import {
+  planBulkLifecycle,
+  type BulkLifecycleAction,
+  type BulkLifecyclePlan,
+  type LifecycleTargetSet,
+} from '../components/users/bulkLifecyclePlan';
+import { presetStore } from '../../shared/storage/presetStore';
+import { createLogger } from '../../shared/utils/logger';
+
+const log = createLogger('useBulkLifecycle');
+
+/** Lifecycle of the console. */
+export type BulkLifecyclePhase =
+  'idle' | 'preview-loading' | 'preview' | 'running' | 'done' | 'error';
+
+/** A group the picker found. */
+export interface LifecycleGroupOption {
+  id: string;
+  name: string;
+}
+
+/** A saved Users export filter, offered as a search source. */
+export interface LifecycleSavedFilter {
+  id: string;
+  name: string;
+  expression: string;
+}
+
+/** Return shape of {@link useBulkLifecycle}. */
+export interface UseBulkLifecycleReturn {
+  phase: BulkLifecyclePhase;
+  action: BulkLifecycleAction;
+  /** Pick the action; an open preflight is re-planned for it. */
+  setAction: (action: BulkLifecycleAction) => void;
+  plan: BulkLifecyclePlan | null;
+  result: BulkLifecycleResult | null;
+  error: string | null;
+  /** Groups matching the last picker search. */
+  groupOptions: LifecycleGroupOption[];
+  isFindingGroups: boolean;
+  /** Search groups by name for the group source. */
+  findGroups: (query: string) => Promise<void>;
+  /** Saved Users export filters that carry a search expression. */
+  savedFilters: LifecycleSavedFilter[];
+  /** Read the targets and preflight the action. Sends no writes. */
+  preview: (source: BulkLifecycleSource) => Promise<void>;
+  /** Run the action on the plan's change users. */
+  execute: () => Promise<void>;
+  /** Reset back to idle, keeping the chosen action. */
+  reset: () => void;
+}
+
+/**
+ * Manage the bulk lifecycle console.
+ *
+ * @param targetTabId - Connected Okta tab id (operations no-op when absent).
+ * @param onApplied - Called with the ids of the users the run changed (when any),
+ *   so the caller can re-read one it has open.
+ * @returns Console state plus `preview`/`execute`/`reset` and the source pickers.
+ */
+export function useBulkLifecycle(
+  targetTabId?: number,
+  onApplied?: (userIds: string[]) => void,
+): UseBulkLifecycleReturn {
+  const { resolveLifecycleTargets, applyBulkLifecycle, searchGroups } = useOktaApi({
+    targetTabId: targetTabId ?? null,
+  });
+
+  const [phase, setPhase] = useState<BulkLifecyclePhase>('idle');
+  const [action, setAction] = useState<BulkLifecycleAction>('suspend');
+  const [targets, setTargets] = useState<LifecycleTargetSet | null>(null);
+  const [result, setResult] = useState<BulkLifecycleResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [groupOptions, setGroupOptions] = useState<LifecycleGroupOption[]>([]);
+  const [isFindingGroups, setIsFindingGroups] = useState(false);
+  const [savedFilters, setSavedFilters] = useState<LifecycleSavedFilter[]>([]);
+
+  // The saved filters are read once; a filter saved in the Export tab later shows
+  // on the next panel open.
+  useEffect(() => {
+    let cancelled = false;
+    void presetStore.listPresets('users').then((presets) => {
+      if (cancelled) return;
+      setSavedFilters(
+        presets.flatMap((preset) =>
+          preset.filterText?.trim()
+            ? [{ id: preset.id, name: preset.name, expression: preset.filterText.trim() }]
+            : [],
+        ),
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const plan = useMemo(
+    () => (targets ? planBulkLifecycle(action, targets) : null),
+    [action, targets],
+  );
+
+  const findGroups = useCallback(
+    async (query: string) => {
+      setIsFindingGroups(true);
+      try {
+        const groups = await searchGroups(query.trim());
+        setGroupOptions(groups.map((group) => ({ id: group.id, name: group.name })));
+      } finally {
+        setIsFindingGroups(false);
+      }
+    },
+    [searchGroups],
+  );
+
+  const preview = useCallback(
+    async (source: BulkLifecycleSource) => {
+      setPhase('preview-loading');
+      setError(null);
+      setResult(null);
+      try {
+        const read = await resolveLifecycleTargets(source);
+        if (read.targets.length === 0) {
+          setError('No users found. Check the list, group or filter and try again.');
+          setPhase('idle');
+          return;
+        }
+        setTargets(read);
+        setPhase('preview');
+      } catch (err) {
+        log.error('Bulk lifecycle preview failed:', err);
+        setError(err instanceof Error ? err.message : 'Failed to read the targets');
+        setPhase('error');
+      }
+    },
+    [resolveLifecycleTargets],
+  );
+
+  const execute = useCallback(async () => {
+    if (!plan || plan.change.length === 0 || plan.blocker) return;
+    setPhase('running');
+    setError(null);
+    try {
+      const applied = await applyBulkLifecycle(plan);
+      setResult(applied);
+      setPhase('done');
+      const changed = [...applied.outcomes]
+        .filter(([, outcome]) => outcome.result === 'done')
+        .map(([userId]) => userId);
+      if (changed.length > 0) onApplied?.(changed);
+    } catch (err) {
+      log.error('Bulk lifecycle run failed:', err);
+      setError(err instanceof Error ? err.message : 'The run failed');
+      setPhase('error');
+    }
+  }, [plan, applyBulkLifecycle, onApplied]);
+
+  const reset = useCallback(() => {
+    setPhase('idle');
+    setTargets(null);
+    setResult(null);
+    setError(null);
+  }, []);
+
+  return {
+    phase,
+    action,
+    setAction,
+    plan,
+    result,
+    error,
+    groupOptions,
+    isFindingGroups,
+    findGroups,
+    savedFilters,
+    preview,
+    execute,
+    reset,
+  };
+}
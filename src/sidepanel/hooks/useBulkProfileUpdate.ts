@@ -0,0 +1,165 @@
+/**
+ * @module sidepanel/hooks/useBulkProfileUpdate
+ * @description Drives the spreadsheet profile-update flow: dry run, optional group
+ * impact check, apply, result CSV.
+ *
+ * `preview` resolves every row and decides every cell without writing anything (see
+ * `useOktaApi/bulkProfileUpdate`). `analyzeImpact` is a separate, explicit step
+ * because it reads every ready user's memberships. `execute` writes only the ready
+ * rows; `downloadResults` writes every row with its status and outcome, so the admin
+ * can fix the blocked and not-found rows and re-run just those.
+ */
+
+import { useCallback, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import type { BulkProfileResult } from './useOktaApi/bulkProfileUpdate';
+import type { BatchBlastRadius } from '../../shared/membership/blastRadiusBatch';
+import type { OktaUser } from '../../shared/types';
+import {
+  buildBulkProfileResultCsv,
+  type BulkProfilePlan,
+} from '../components/users/bulkProfilePlan';
+import { downloadCSV, getDateForFilename } from '../../shared/utils/csvUtils';
+import { createLogger } from '../../shared/utils/logger';
+
+const log = createLogger('useBulkProfileUpdate');
+
+/** Lifecycle of the bulk update flow. */
+export type BulkProfilePhase =
+  'idle' | 'preview-loading' | 'preview' | 'running' | 'done' | 'error';
+
+/** Return shape of {@link useBulkProfileUpdate}. */
+export interface UseBulkProfileUpdateReturn {
+  phase: BulkProfilePhase;
+  plan: BulkProfilePlan | null;
+  /** The combined group-impact prediction, once checked. */
+  impact: BatchBlastRadius | null;
+  isAnalyzing: boolean;
+  /** Why the impact check failed; the dry run itself stays usable. */
+  impactError: string | null;
+  result: BulkProfileResult | null;
+  error: string | null;
+  /** Dry-run the sheet. Sends no writes. */
+  preview: (csvText: string) => Promise<void>;
+  /** Predict the group access the ready rows would move. Sends no writes. */
+  analyzeImpact: () => Promise<void>;
+  /** Write the ready rows. */
+  execute: () => Promise<void>;
+  /** Download the result CSV (dry-run statuses, plus outcomes once applied). */
+  downloadResults: () => void;
+  /** Reset back to idle. */
+  reset: () => void;
+}
+
+/**
+ * Manage a spreadsheet profile update.
+ *
+ * @param targetTabId - Connected Okta tab id (operations no-op when absent).
+ * @param onApplied - Called with the users Okta returned for the saved writes (when
+ * any saved), so the caller can refresh a user it is showing.
+ * @returns Update state plus `preview`/`analyzeImpact`/`execute`/`downloadResults`/`reset`.
+ */
+export function useBulkProfileUpdate(
+  targetTabId?: number,
+  onApplied?: (savedUsers: OktaUser[]) => void,
+): UseBulkProfileUpdateReturn {
+  const { previewBulkProfileUpdate, analyzeBulkProfileImpact, applyBulkProfileUpdate } = useOktaApi(
+    { targetTabId: targetTabId ?? null },
+  );
+
+  const [phase, setPhase] = useState<BulkProfilePhase>('idle');
+  const [plan, setPlan] = useState<BulkProfilePlan | null>(null);
+  const [impact, setImpact] = useState<BatchBlastRadius | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [impactError, setImpactError] = useState<string | null>(null);
+  const [result, setResult] = useState<BulkProfileResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = useCallback(
+    async (csvText: string) => {
+      setPhase('preview-loading');
+      setError(null);
+      setResult(null);
+      setImpact(null);
+      setImpactError(null);
+      try {
+        const built = await previewBulkProfileUpdate(csvText);
+        if (built.rows.length === 0) {
+          setError('No rows found in the CSV. Put one user per row under the header.');
+          setPhase('idle');
+          return;
+        }
+        setPlan(built);
+        setPhase('preview');
+      } catch (err) {
+        log.error('Bulk profile preview failed:', err);
+        setError(err instanceof Error ? err.message : 'Failed to build the update preview');
+        setPhase('error');
+      }
+    },
+    [previewBulkProfileUpdate],
+  );
+
+  const analyzeImpact = useCallback(async () => {
+    if (!plan || plan.ready.length === 0) return;
+    setIsAnalyzing(true);
+    setImpactError(null);
+    try {
+      setImpact(await analyzeBulkProfileImpact(plan));
+    } catch (err) {
+      log.error('Bulk impact check failed:', err);
+      setImpactError(err instanceof Error ? err.message : 'Failed to check group impact');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  }, [plan, analyzeBulkProfileImpact]);
+
+  const execute = useCallback(async () => {
+    if (!plan || plan.ready.length === 0) return;
+    setPhase('running');
+    setError(null);
+    try {
+      const applied = await applyBulkProfileUpdate(plan);
+      setResult(applied);
+      setPhase('done');
+      if (applied.savedUsers.length > 0) onApplied?.(applied.savedUsers);
+    } catch (err) {
+      log.error('Bulk profile update failed:', err);
+      setError(err instanceof Error ? err.message : 'Update failed');
+      setPhase('error');
+    }
+  }, [plan, applyBulkProfileUpdate, onApplied]);
+
+  const downloadResults = useCallback(() => {
+    if (!plan) return;
+    downloadCSV(
+      buildBulkProfileResultCsv(plan, result?.outcomes ?? new Map()),
+      `bulk_profile_update_${getDateForFilename()}.csv`,
+    );
+  }, [plan, result]);
+
+  const reset = useCallback(() => {
+    setPhase('idle');
+    setPlan(null);
+    setImpact(null);
+    setIsAnalyzing(false);
+    setImpactError(null);
+    setResult(null);
+    setError(null);
+  }, []);
+
+  return {
+    phase,
+    plan,
+    impact,
+    isAnalyzing,
+    impactError,
+    result,
+    error,
+    preview,
+    analyzeImpact,
+    execute,
+    downloadResults,
+    reset,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * @module sidepanel/hooks/useCertificateInventory
+ * @description Drives the signing-certificate expiry panel in the Overview and
+ * Apps tabs.
+ *
+ * The inventory is one read per SAML app, so it is loaded only when asked and
+ * kept until reloaded; the panel shows when it was read. Sorting and the bucket
+ * filter are local. A cancelled load keeps the previous inventory.
+ *
+ * App and IdP names are tenant data: nothing here logs them — counts only.
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import {
+  bucketCounts,
+  sortCertificates,
+  type CertificateInventory,
+  type CertificateRecord,
+  type CertificateSortKey,
+  type ExpiryBucket,
+} from '../../shared/certificates/certificateInventory';
+import {
+  certificateInventoryDescriptor,
+  CERTIFICATE_EXPORT_DEFAULT_COLUMNS,
+} from '../export/certificates/certificateExport';
+import { OperationCancelledError } from '../../shared/scheduler/cancellation';
+import { createLogger } from '../../shared/utils/logger';
+
+const log = createLogger('useCertificateInventory');
+
+/** Lifecycle of one inventory load. */
+export type CertificateInventoryStatus = 'idle' | 'loading' | 'done' | 'error';
+
+/** Return shape of {@link useCertificateInventory}. */
+export interface UseCertificateInventoryReturn {
+  status: CertificateInventoryStatus;
+  inventory: CertificateInventory | null;
+  error: string | null;
+  /** The inventory's records, filtered to `bucket` and sorted. */
+  visible: CertificateRecord[];
+  /** Records per bucket, over the whole inventory. */
+  counts: Record<ExpiryBucket, number> | null;
+  sortKey: CertificateSortKey;
+  sortDirection: 'asc' | 'desc';
+  /** Sort by `key`; choosing the current key again flips the direction. */
+  sortBy: (key: CertificateSortKey) => void;
+  /** The bucket shown, or `null` for all. */
+  bucket: ExpiryBucket | null;
+  setBucket: (bucket: ExpiryBucket | null) => void;
+  /** Read the inventory from Okta. */
+  load: () => Promise<void>;
+  /** Stop a running load between app reads. */
+  cancel: () => void;
+  /** Download the rows shown as CSV. */
+  exportVisible: () => Promise<void>;
+}
+
+/**
+ * Manage the certificate inventory for one panel.
+ *
+ * @param targetTabId - The connected Okta tab.
+ * @returns Inventory state plus its controls.
+ */
+export function useCertificateInventory(targetTabId: number | null): UseCertificateInventoryReturn {
+  const { getCertificateInventory, runExport, cancelOperation } = useOktaApi({ targetTabId });
+
+  const [status, setStatus] = useState<CertificateInventoryStatus>('idle');
+  const [inventory, setInventory] = useState<CertificateInventory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<CertificateSortKey>('expiry');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [bucket, setBucket] = useState<ExpiryBucket | null>(null);
+
+  const load = useCallback(async () => {
+    setStatus('loading');
+    setError(null);
+    try {
+      const next = await getCertificateInventory();
+      setInventory(next);
+      setStatus('done');
+      log.info('Certificate inventory read', {
+        records: next.records.length,
+        unreadableApps: next.unreadableApps.length,
+      });
+    } catch (err) {
+      if (err instanceof OperationCancelledError) {
+        setStatus(inventory ? 'done' : 'idle');
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Could not read certificates');
+      setStatus('error');
+    }
+  }, [getCertificateInventory, inventory]);
+
+  const sortBy = useCallback(
+    (key: CertificateSortKey) => {
+      if (key === sortKey) {
+        setSortDirection((d) => (d === 'asc' ? 'desc' : 'asc'));
+      } else {
+        setSortKey(key);
+        setSortDirection('asc');
+      }
+    },
+    [sortKey],
+  );
+
+  const visible = useMemo(() => {
+    if (!inventory) return [];
+    const rows = bucket ? inventory.records.filter((r) => r.bucket === bucket) : inventory.records;
+    return sortCertificates(rows, sortKey, sortDirection);
+  }, [inventory, bucket, sortKey, sortDirection]);
+
+  const counts = useMemo(() => (inventory ? bucketCounts(inventory.records) : null), [inventory]);
+
+  const exportVisible = useCallback(async () => {
+    if (!inventory) return;
+    try {
+      await runExport({
+        descriptor: certificateInventoryDescriptor,
+        rows: visible,
+        enabledColumnIds: CERTIFICATE_EXPORT_DEFAULT_COLUMNS,
+        contextLabel: 'Signing certificates',
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  }, [inventory, visible, runExport]);
+
+  return {
+    status,
+    inventory,
+    error,
+    visible,
+    counts,
+    sortKey,
+    sortDirection,
+    sortBy,
+    bucket,
+    setBucket,
+    load,
+    cancel: cancelOperation,
+    exportVisible,
+  };
+}
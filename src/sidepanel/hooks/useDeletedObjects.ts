@@ -0,0 +1,219 @@
+/**
+ * @module sidepanel/hooks/useDeletedObjects
+ * @description Drives the Logs tab's recently-deleted browser: read the deletion
+ * events in a range, and re-create a deleted rule this browser still holds a
+ * snapshot of.
+ *
+ * The read runs when the view is first shown, and again when the range changes
+ * or on Refresh. The action history is read beside it, so each deleted rule
+ * knows whether its `DELETE_RULE` snapshot is here (`shared/systemLog/deletedObjects`).
+ *
+ * A re-create is armed as `pending` and runs only from the confirmation. It is
+ * the restore History offers for the same entry ({@link useUndoAction}), so the
+ * entry is marked undone and cannot be restored twice. Each attempt also leaves a
+ * `create_rule` audit entry.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import { useOwedLoad } from './useOwedLoad';
+import { useUndoAction } from './useUndoAction';
+import { getUndoHistory } from '../../shared/undoManager';
+import { auditStore } from '../../shared/storage/auditStore';
+import { createLogger } from '../../shared/utils/logger';
+import { ruleDeletesById, type DeletedObject } from '../../shared/systemLog/deletedObjects';
+import type { LogRangeId } from '../../shared/systemLog/logQuery';
+import type { AuditLogEntry, UndoAction } from '../../shared/types';
+
+const log = createLogger('useDeletedObjects');
+
+/** A deleted rule armed for re-creation, with the history entry holding its snapshot. */
+export interface PendingRecreate {
+  object: DeletedObject;
+  action: UndoAction;
+}
+
+/** What the last re-create did, for the notice under the list. */
+export type RecreateNotice = { type: 'success' | 'danger' | 'info'; text: string } | null;
+
+/** Return shape of {@link useDeletedObjects}. */
+export interface UseDeletedObjectsReturn {
+  objects: DeletedObject[];
+  range: LogRangeId;
+  setRange: (range: LogRangeId) => void;
+  isLoading: boolean;
+  error: string | null;
+  /** Whether older deletions in the range were not read. */
+  truncated: boolean;
+  refresh: () => void;
+  /** The history entry a deleted rule can be re-created from, or `undefined`. */
+  snapshotFor: (object: DeletedObject) => UndoAction | undefined;
+  /** Arm a re-create; does nothing for an object without a snapshot. */
+  requestRecreate: (object: DeletedObject) => void;
+  /** The re-create awaiting confirmation, or `null`. Drives the confirm modal. */
+  pending: PendingRecreate | null;
+  confirmRecreate: () => Promise<void>;
+  cancelRecreate: () => void;
+  /** True while a confirmed re-create is in flight. */
+  isRecreating: boolean;
+  notice: RecreateNotice;
+  clearNotice: () => void;
+}
+
+const DEFAULT_RANGE: LogRangeId = '30d';
+
+/**
+ * Browse recently deleted objects.
+ *
+ * @param targetTabId - Connected Okta tab id (nothing runs when absent).
+ * @param isActive - Whether the view is shown; the first read waits for it.
+ * @returns The objects, the range and re-create controls.
+ */
+export function useDeletedObjects(
+  targetTabId: number | undefined,
+  isActive: boolean,
+): UseDeletedObjectsReturn {
+  const { getRecentDeletions, makeApiRequest } = useOktaApi({ targetTabId: targetTabId ?? null });
+  const { undo } = useUndoAction({ targetTabId });
+
+  const [objects, setObjects] = useState<DeletedObject[]>([]);
+  const [snapshots, setSnapshots] = useState<Map<string, UndoAction>>(new Map());
+  const [range, setRangeState] = useState<LogRangeId>(DEFAULT_RANGE);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [pending, setPending] = useState<PendingRecreate | null>(null);
+  const [isRecreating, setIsRecreating] = useState(false);
+  const [notice, setNotice] = useState<RecreateNotice>(null);
+  // Bumped per read; an answer for an older one is dropped.
+  const generation = useRef(0);
+
+  const load = useCallback(
+    async (nextRange: LogRangeId) => {
+      const current = ++generation.current;
+      setIsLoading(true);
+      setError(null);
+      try {
+        const [deletions, history] = await Promise.all([
+          getRecentDeletions(nextRange),
+          getUndoHistory(),
+        ]);
+        if (current !== generation.current) return;
+        setObjects(deletions.objects);
+        setTruncated(deletions.truncated);
+        setSnapshots(ruleDeletesById(history.actions));
+      } catch (err) {
+        if (current !== generation.current) return;
+        setError(err instanceof Error ? err.message : 'Failed to read the System Log');
+      } finally {
+        if (current === generation.current) setIsLoading(false);
+      }
+    },
+    [getRecentDeletions],
+  );
+
+  useOwedLoad(targetTabId == null ? null : String(targetTabId), isActive, () => {
+    void load(range);
+  });
+
+  const setRange = useCallback(
+    (next: LogRangeId) => {
+      setRangeState(next);
+      void load(next);
+    },
+    [load],
+  );
+
+  const snapshotFor = useCallback(
+    (object: DeletedObject) => (object.kind === 'rule' ? snapshots.get(object.id) : undefined),
+    [snapshots],
+  );
+
+  const requestRecreate = useCallback(
+    (object: DeletedObject) => {
+      const action = snapshotFor(object);
+      if (action) setPending({ object, action });
+    },
+    [snapshotFor],
+  );
+
+  const confirmRecreate = useCallback(async () => {
+    if (!pending) return;
+    const { object, action } = pending;
+    setPending(null);
+    setIsRecreating(true);
+    const startTime = Date.now();
+
+    let currentUserEmail = 'unknown@unknown.com';
+    try {
+      const userResponse = await makeApiRequest('/api/v1/users/me');
+      if (userResponse.success && userResponse.data) {
+        currentUserEmail = userResponse.data.profile?.email || 'unknown@unknown.com';
+      }
+    } catch (err) {
+      log.error('Failed to get current user:', err);
+    }
+
+    try {
+      const outcome = await undo(action);
+      if (outcome.kind === 'reversed' || outcome.kind === 'failed') {
+        const snapshot = action.metadata.type === 'DELETE_RULE' ? action.metadata.rule : null;
+        const groupIds = snapshot?.groupIds ?? [];
+        const auditEntry: AuditLogEntry = {
+          id: crypto.randomUUID(),
+          timestamp: new Date(),
+          action: 'create_rule',
+          groupId: groupIds[0] || 'multiple',
+          groupName: object.name,
+          performedBy: currentUserEmail,
+          affectedUsers: [],
+          result: outcome.kind === 'reversed' ? 'success' : 'failed',
+          details: {
+            usersSucceeded: 0,
+            usersFailed: 0,
+            // The create, plus the activation of a rule that was active.
+            apiRequestCount: snapshot?.status === 'ACTIVE' && outcome.kind === 'reversed' ? 2 : 1,
+            durationMs: Date.now() - startTime,
+            ...(outcome.kind === 'failed' ? { errorMessages: [outcome.error] } : {}),
+          },
+        };
+        auditStore.logOperation(auditEntry).catch((e) => log.error('audit failed', e));
+      }
+
+      if (outcome.kind === 'reversed') {
+        setNotice({ type: 'success', text: `${outcome.summary} It has a new id.` });
+        setSnapshots((prev) => {
+          const next = new Map(prev);
+          next.delete(object.id);
+          return next;
+        });
+      } else if (outcome.kind === 'failed') {
+        setNotice({ type: 'danger', text: outcome.error });
+      } else if (outcome.kind === 'already-undone') {
+        setNotice({ type: 'info', text: 'This rule was already restored from History.' });
+      } else if (outcome.kind === 'not-undoable') {
+        setNotice({ type: 'info', text: outcome.reason });
+      }
+    } finally {
+      setIsRecreating(false);
+    }
+  }, [pending, makeApiRequest, undo]);
+
+  return {
+    objects,
+    range,
+    setRange,
+    isLoading,
+    error,
+    truncated,
+    refresh: () => void load(range),
+    snapshotFor,
+    requestRecreate,
+    pending,
+    confirmRecreate,
+    cancelRecreate: () => setPending(null),
+    isRecreating,
+    notice,
+    clearNotice: () => setNotice(null),
+  };
+}
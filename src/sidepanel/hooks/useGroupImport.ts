@@ -0,0 +1,123 @@
+/**
+ * @module sidepanel/hooks/useGroupImport
+ * @description Drives the CSV group-import flow: dry run, apply, result CSV.
+ *
+ * `preview` resolves every CSV row and sorts it against the group's members without
+ * writing anything (see `useOktaApi/groupImport`). `execute` adds only the previewed
+ * to-add users; `downloadResults` writes every row with its status and outcome, so
+ * the admin can fix the not-found and ambiguous rows and re-run just those.
+ */
+
+import { useCallback, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import type { GroupImportResult } from './useOktaApi/groupImport';
+import {
+  buildImportResultCsv,
+  type ImportCandidate,
+  type ImportPlan,
+} from '../../shared/membership/importPlan';
+import { downloadCSV, getDateForFilename, sanitizeFilename } from '../../shared/utils/csvUtils';
+import { createLogger } from '../../shared/utils/logger';
+
+const log = createLogger('useGroupImport');
+
+/** Lifecycle of the import flow. */
+export type ImportPhase = 'idle' | 'preview-loading' | 'preview' | 'running' | 'done' | 'error';
+
+/** Return shape of {@link useGroupImport}. */
+export interface UseGroupImportReturn {
+  phase: ImportPhase;
+  plan: ImportPlan | null;
+  result: GroupImportResult | null;
+  error: string | null;
+  /** Dry-run the CSV against the group. Sends no writes. */
+  preview: (csvText: string) => Promise<void>;
+  /** Add the previewed to-add users. */
+  execute: () => Promise<void>;
+  /** Download the result CSV (dry-run statuses, plus outcomes once applied). */
+  downloadResults: () => void;
+  /** Reset back to idle. */
+  reset: () => void;
+}
+
+/**
+ * Manage the CSV import into one group.
+ *
+ * @param group - The target group.
+ * @param targetTabId - Connected Okta tab id (operations no-op when absent).
+ * @param onApplied - Called with the users the import added (when it added any), so
+ * the caller can refresh what it shows of the group.
+ * @returns Import state plus `preview`/`execute`/`downloadResults`/`reset`.
+ */
+export function useGroupImport(
+  group: { id: string; name: string },
+  targetTabId?: number,
+  onApplied?: (added: ImportCandidate[]) => void,
+): UseGroupImportReturn {
+  const { previewGroupImport, applyGroupImport } = useOktaApi({
+    targetTabId: targetTabId ?? null,
+  });
+
+  const [phase, setPhase] = useState<ImportPhase>('idle');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [result, setResult] = useState<GroupImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = useCallback(
+    async (csvText: string) => {
+      setPhase('preview-loading');
+      setError(null);
+      setResult(null);
+      try {
+        const built = await previewGroupImport({ id: group.id, name: group.name }, csvText);
+        if (built.rows.length === 0) {
+          setError('No users found in the CSV. Put one login, email or user id per row.');
+          setPhase('idle');
+          return;
+        }
+        setPlan(built);
+        setPhase('preview');
+      } catch (err) {
+        log.error('Import preview failed:', err);
+        setError(err instanceof Error ? err.message : 'Failed to build import preview');
+        setPhase('error');
+      }
+    },
+    [previewGroupImport, group.id, group.name],
+  );
+
+  const execute = useCallback(async () => {
+    if (!plan || plan.toAdd.length === 0) return;
+    setPhase('running');
+    setError(null);
+    try {
+      const applied = await applyGroupImport(plan);
+      setResult(applied);
+      setPhase('done');
+      if (applied.added > 0) {
+        onApplied?.(plan.toAdd.filter((u) => applied.outcomes.get(u.id)?.result === 'added'));
+      }
+    } catch (err) {
+      log.error('Import failed:', err);
+      setError(err instanceof Error ? err.message : 'Import failed');
+      setPhase('error');
+    }
+  }, [plan, applyGroupImport, onApplied]);
+
+  const downloadResults = useCallback(() => {
+    if (!plan) return;
+    downloadCSV(
+      buildImportResultCsv(plan, result?.outcomes ?? new Map()),
+      `${sanitizeFilename(plan.group.name)}_import_${getDateForFilename()}.csv`,
+    );
+  }, [plan, result]);
+
+  const reset = useCallback(() => {
+    setPhase('idle');
+    setPlan(null);
+    setResult(null);
+    setError(null);
+  }, []);
+
+  return { phase, plan, result, error, preview, execute, downloadResults, reset };
+}
@@ -0,0 +1,221 @@
+/**
+ * @module sidepanel/hooks/useGroupPushMappings.test
+ * @description The Group Detail view's push mappings: the on-request read and
+ * the confirmed writes.
+ *
+ * Mocked at the `useOktaApi` facade and at `undoManager`, so what is pinned is
+ * the hook's own decisions: nothing is read until asked, only Group Push apps
+ * are asked, a write runs only from the confirm and lands in the undo history
+ * with what its undo needs, and a failed write records nothing.
+ *
+ * Fixtures use only fake placeholders (`00gFAKE…`, `0oaFAKE…`, `gpmFAKE…`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import type { GroupPushLink } from '../../shared/groupPush/groupPush';
+
+const api = vi.hoisted(() => ({
+  getAllApps: vi.fn(),
+  getGroupPushLinks: vi.fn(),
+  listAppTargetGroups: vi.fn(),
+  createGroupPushMapping: vi.fn(),
+  setGroupPushMappingStatus: vi.fn(),
+  pushGroupNow: vi.fn(),
+  deleteGroupPushMapping: vi.fn(),
+}));
+
+vi.mock('./useOktaApi', () => ({ useOktaApi: () => api }));
+vi.mock('../../shared/undoManager', () => ({
+  logGroupPushAction: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { useGroupPushMappings } from './useGroupPushMappings';
+import { resetEntityCache } from '../cache/entityCache';
+import { logGroupPushAction } from '../../shared/undoManager';
+
+const group = { id: '00gFAKE1', name: 'Engineering' };
+const slack = { id: '0oaFAKE1', name: 'Slack' };
+
+const link: GroupPushLink = {
+  mappingId: 'gpmFAKE1',
+  appId: slack.id,
+  appName: slack.name,
+  sourceGroupId: group.id,
+  sourceGroupName: group.name,
+  targetGroupId: '00gFAKET1',
+  targetGroupName: 'engineering',
+  status: 'ACTIVE',
+};
+
+const onResult = vi.fn();
+
+const renderPush = () =>
+  renderHook(() =>
+    useGroupPushMappings({
+      group,
+      targetTabId: 1,
+      oktaOrigin: 'https://example.okta.com',
+      onResult,
+    }),
+  );
+
+/** Render and complete the first read. */
+async function loaded() {
+  const hook = renderPush();
+  act(() => hook.result.current.load());
+  await waitFor(() => expect(hook.result.current.status).toBe('done'));
+  return hook;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resetEntityCache();
+  api.getAllApps.mockResolvedValue([
+    { id: slack.id, label: 'Slack', features: ['GROUP_PUSH'] },
+    { id: '0oaFAKE2', label: 'Zoom', features: ['PUSH_NEW_USERS'] },
+  ]);
+  api.getGroupPushLinks.mockResolvedValue({ links: [link], unreadableApps: [] });
+});
+
+describe('useGroupPushMappings', () => {
+  it('reads nothing until asked, then asks only the Group Push apps', async () => {
+    const { result } = renderPush();
+    expect(result.current.status).toBe('idle');
+    expect(api.getAllApps).not.toHaveBeenCalled();
+
+    act(() => result.current.load());
+    await waitFor(() => expect(result.current.status).toBe('done'));
+
+    expect(api.getGroupPushLinks).toHaveBeenCalledWith(group, [slack]);
+    expect(result.current.apps).toEqual([slack]);
+    expect(result.current.links).toEqual([link]);
+  });
+
+  it('reports a failed read as an error, not as no mappings', async () => {
+    api.getAllApps.mockRejectedValue(new Error('Failed to load applications'));
+    const { result } = renderPush();
+
+    act(() => result.current.load());
+    await waitFor(() => expect(result.current.status).toBe('error'));
+    expect(result.current.error).toBe('Failed to load applications');
+  });
+
+  it('pushes into a new target group only from the confirm, and records that it made it', async () => {
+    api.createGroupPushMapping.mockResolvedValue({
+      success: true,
+      link: { ...link, mappingId: 'gpmFAKE9' },
+    });
+    const { result } = await loaded();
+
+    act(() => result.current.requestCreate(slack, { kind: 'new', name: 'engineering' }));
+    expect(api.createGroupPushMapping).not.toHaveBeenCalled();
+
+    await act(() => result.current.confirmPending());
+
+    expect(api.createGroupPushMapping).toHaveBeenCalledWith(slack, group, {
+      kind: 'new',
+      name: 'engineering',
+    });
+    expect(logGroupPushAction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'CREATE_PUSH_MAPPING',
+        mappingId: 'gpmFAKE9',
+        createdTargetGroup: true,
+      }),
+    );
+    expect(onResult).toHaveBeenCalledWith(expect.objectContaining({ type: 'success' }));
+    expect(api.getGroupPushLinks).toHaveBeenCalledTimes(2);
+  });
+
+  it('records a delete with whether it took the target group and was active', async () => {
+    api.deleteGroupPushMapping.mockResolvedValue({ success: true });
+    const { result } = await loaded();
+
+    act(() => result.current.requestDelete(link));
+    await act(() => result.current.confirmPending({ deleteTargetGroup: true }));
+
+    expect(api.deleteGroupPushMapping).toHaveBeenCalledWith(link, true);
+    expect(logGroupPushAction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'DELETE_PUSH_MAPPING',
+        deletedTargetGroup: true,
+        wasActive: true,
+      }),
+    );
+  });
+
+  it('records nothing when Okta rejects the write, and reads the rows again', async () => {
+    api.pushGroupNow.mockResolvedValue({
+      success: false,
+      error: 'The mapping was paused but could not be activated again.',
+    });
+    const { result } = await loaded();
+
+    act(() => result.current.requestPushNow(link));
+    await act(() => result.current.confirmPending());
+
+    expect(logGroupPushAction).not.toHaveBeenCalled();
+    expect(onResult).toHaveBeenCalledWith({
+      text: 'The mapping was paused but could not be activated again.',
+      type: 'danger',
+    });
+    expect(api.getGroupPushLinks).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops a read that lands after the view moved on to another group', async () => {
+    let landRead: (value: { links: GroupPushLink[]; unreadableApps: [] }) => void = () => {};
+    api.getGroupPushLinks.mockImplementationOnce(
+      () => new Promise((resolve) => (landRead = resolve)),
+    );
+    const { result, rerender } = renderHook(
+      ({ current }: { current: typeof group }) =>
+        useGroupPushMappings({
+          group: current,
+          targetTabId: 1,
+          oktaOrigin: 'https://example.okta.com',
+          onResult,
+        }),
+      { initialProps: { current: group } },
+    );
+
+    act(() => result.current.load());
+    await waitFor(() => expect(api.getGroupPushLinks).toHaveBeenCalledTimes(1));
+    rerender({ current: { id: '00gFAKE2', name: 'Sales' } });
+    await act(async () => landRead({ links: [link], unreadableApps: [] }));
+
+    expect(result.current.status).toBe('idle');
+    expect(result.current.links).toEqual([]);
+  });
+
+  it("does not re-read an earlier group's rows after a write the admin moved on from", async () => {
+    let landWrite: (value: { success: boolean }) => void = () => {};
+    api.pushGroupNow.mockImplementation(() => new Promise((resolve) => (landWrite = resolve)));
+    const { result, rerender } = renderHook(
+      ({ current }: { current: typeof group }) =>
+        useGroupPushMappings({
+          group: current,
+          targetTabId: 1,
+          oktaOrigin: 'https://example.okta.com',
+          onResult,
+        }),
+      { initialProps: { current: group } },
+    );
+    act(() => result.current.load());
+    await waitFor(() => expect(result.current.status).toBe('done'));
+
+    act(() => result.current.requestPushNow(link));
+    let confirming: Promise<void> = Promise.resolve();
+    act(() => {
+      confirming = result.current.confirmPending();
+    });
+    rerender({ current: { id: '00gFAKE2', name: 'Sales' } });
+    await act(async () => {
+      landWrite({ success: true });
+      await confirming;
+    });
+
+    expect(api.getGroupPushLinks).toHaveBeenCalledTimes(1);
+    expect(result.current.status).toBe('idle');
+    expect(result.current.links).toEqual([]);
+  });
+});
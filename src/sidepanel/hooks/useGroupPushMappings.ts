@@ -0,0 +1,312 @@
+/**
+ * @module sidepanel/hooks/useGroupPushMappings
+ * @description The Group Detail view's Group Push mappings: which apps the
+ * group is pushed to, whether each push is running, and the confirmed writes —
+ * push to a new or existing target group, activate, deactivate, push now and
+ * delete.
+ *
+ * ## Reads
+ *
+ * Nothing loads until the admin asks: one group's mappings cost a request per
+ * Group Push app, and most groups are pushed nowhere. The app inventory comes
+ * through the entity cache ({@link sidepanel/cache/keys.cacheKeys.apps}), the
+ * same list the Apps tab reads, filtered to the apps with Group Push enabled.
+ * An app whose mappings could not be read is reported by name rather than
+ * dropped, so a missing row never reads as "not pushed there".
+ *
+ * ## Writes
+ *
+ * Every write is armed first (`pending`) and runs only from the confirm
+ * button, like the role writes. The operation writes the audit entry; this hook
+ * records the write in the undo history, then reads the mappings again.
+ *
+ * Group and app names are tenant data: nothing here logs them.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { AlertMessageData } from '../components/shared/AlertMessage';
+import type { OktaAppListItem } from '../../shared/schemas/okta';
+import {
+  hasGroupPush,
+  type GroupPushApp,
+  type GroupPushLink,
+} from '../../shared/groupPush/groupPush';
+import type { PushMappingRef } from '../../shared/undoTypes';
+import { logGroupPushAction } from '../../shared/undoManager';
+import { getOrFetch } from '../cache/entityCache';
+import { cacheKeys } from '../cache/keys';
+import { useOktaApi } from './useOktaApi';
+import type { AppTargetGroup, GroupPushTarget } from './useOktaApi/pushGroupOps';
+
+/** Where the mapping read stands. */
+export type GroupPushLoadStatus = 'idle' | 'loading' | 'done' | 'error';
+
+/** The write awaiting confirmation. */
+export type PendingPushWrite =
+  | { kind: 'create'; app: GroupPushApp; target: GroupPushTarget }
+  | { kind: 'status'; link: GroupPushLink; status: 'ACTIVE' | 'INACTIVE' }
+  | { kind: 'push'; link: GroupPushLink }
+  | { kind: 'delete'; link: GroupPushLink };
+
+/** Options for {@link useGroupPushMappings}. */
+export interface UseGroupPushMappingsOptions {
+  /** The group whose mappings these are. A new id drops everything read. */
+  group: { id: string; name: string };
+  /** The connected Okta tab; nothing loads or writes without one. */
+  targetTabId?: number;
+  /** The connected org, which scopes the cached app inventory. */
+  oktaOrigin?: string;
+  /** Publishes a write's outcome to the view's result banner. */
+  onResult: (message: AlertMessageData) => void;
+}
+
+/** Everything the push section renders — {@link sidepanel/components/groups/detail/GroupPushSection}'s `push` prop. */
+export interface GroupPushMappings {
+  status: GroupPushLoadStatus;
+  error: string | null;
+  /** The apps with Group Push enabled, once read. */
+  apps: GroupPushApp[];
+  /** The group's mappings, once read. */
+  links: GroupPushLink[];
+  /** Apps whose mappings could not be read. */
+  unreadableApps: GroupPushApp[];
+  /** Read the apps and the group's mappings (again). */
+  load: () => void;
+  /** The groups already in an app, for pushing into an existing one. */
+  listTargetGroups: (appId: string) => Promise<AppTargetGroup[]>;
+  /** Whether writes are possible (a connected tab). */
+  canWrite: boolean;
+  /** The write awaiting confirmation, or `null`. Drives the confirm modal. */
+  pending: PendingPushWrite | null;
+  requestCreate: (app: GroupPushApp, target: GroupPushTarget) => void;
+  requestStatus: (link: GroupPushLink, status: 'ACTIVE' | 'INACTIVE') => void;
+  requestPushNow: (link: GroupPushLink) => void;
+  requestDelete: (link: GroupPushLink) => void;
+  cancelPending: () => void;
+  /**
+   * Run the armed write (the confirm button). `deleteTargetGroup` applies to a
+   * delete only, and also removes the target group from the app.
+   */
+  confirmPending: (options?: { deleteTargetGroup?: boolean }) => Promise<void>;
+  /** True while a confirmed write is in flight. */
+  isWriting: boolean;
+}
+
+/** Reduce an app row to the name the push rows show. */
+function toPushApp(app: OktaAppListItem): GroupPushApp {
+  return { id: app.id, name: app.label ?? app.name ?? app.id };
+}
+
+/**
+ * Manage one group's Group Push mappings.
+ *
+ * @param options - See {@link UseGroupPushMappingsOptions}.
+ * @returns {@link GroupPushMappings}.
+ */
+export function useGroupPushMappings({
+  group,
+  targetTabId,
+  oktaOrigin,
+  onResult,
+}: UseGroupPushMappingsOptions): GroupPushMappings {
+  const {
+    getAllApps,
+    getGroupPushLinks,
+    listAppTargetGroups,
+    createGroupPushMapping,
+    setGroupPushMappingStatus,
+    pushGroupNow,
+    deleteGroupPushMapping,
+  } = useOktaApi({ targetTabId: targetTabId ?? null });
+
+  const [status, setStatus] = useState<GroupPushLoadStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [apps, setApps] = useState<GroupPushApp[]>([]);
+  const [links, setLinks] = useState<GroupPushLink[]>([]);
+  const [unreadableApps, setUnreadableApps] = useState<GroupPushApp[]>([]);
+  const [pending, setPending] = useState<PendingPushWrite | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+
+  // Bumped per read and per group, so a read that lands after the admin moved on
+  // is dropped rather than shown under the next group. The view is reused across
+  // groups, so the group a read belongs to is checked as well: a write's re-read
+  // runs from the closure of the group it was armed on.
+  const readToken = useRef(0);
+  const currentGroupId = useRef(group.id);
+  useEffect(() => {
+    currentGroupId.current = group.id;
+    readToken.current++;
+  }, [group.id]);
+
+  // A new group starts unread and with nothing armed — adjusted during render,
+  // as `useUserAdminRoles` does for a new user.
+  const [stateGroupId, setStateGroupId] = useState(group.id);
+  if (stateGroupId !== group.id) {
+    setStateGroupId(group.id);
+    setStatus('idle');
+    setError(null);
+    setApps([]);
+    setLinks([]);
+    setUnreadableApps([]);
+    setPending(null);
+  }
+
+  const read = useCallback(async () => {
+    if (targetTabId == null || currentGroupId.current !== group.id) return;
+    const token = ++readToken.current;
+    setStatus('loading');
+    setError(null);
+    try {
+      const inventory = await getOrFetch<OktaAppListItem[]>(cacheKeys.apps(oktaOrigin), () =>
+        getAllApps(),
+      );
+      const pushApps = inventory.filter((app) => hasGroupPush(app.features)).map(toPushApp);
+      const report = await getGroupPushLinks(group, pushApps);
+      if (token !== readToken.current) return;
+      setApps(pushApps);
+      setLinks(report.links);
+      setUnreadableApps(report.unreadableApps);
+      setStatus('done');
+    } catch (err) {
+      if (token !== readToken.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to read push mappings');
+      setStatus('error');
+    }
+  }, [targetTabId, oktaOrigin, group, getAllApps, getGroupPushLinks]);
+
+  const load = useCallback(() => {
+    void read();
+  }, [read]);
+
+  const requestCreate = useCallback((app: GroupPushApp, target: GroupPushTarget) => {
+    setPending({ kind: 'create', app, target });
+  }, []);
+  const requestStatus = useCallback((link: GroupPushLink, next: 'ACTIVE' | 'INACTIVE') => {
+    setPending({ kind: 'status', link, status: next });
+  }, []);
+  const requestPushNow = useCallback((link: GroupPushLink) => {
+    setPending({ kind: 'push', link });
+  }, []);
+  const requestDelete = useCallback((link: GroupPushLink) => {
+    setPending({ kind: 'delete', link });
+  }, []);
+  const cancelPending = useCallback(() => setPending(null), []);
+
+  const confirmPending = useCallback(
+    async (options: { deleteTargetGroup?: boolean } = {}) => {
+      if (!pending) return;
+      const write = pending;
+      setPending(null);
+      setIsWriting(true);
+
+      /** The mapping as the undo history records it. */
+      const refOf = (link: GroupPushLink): PushMappingRef => ({
+        appId: link.appId,
+        appName: link.appName,
+        mappingId: link.mappingId,
+        sourceGroupId: link.sourceGroupId,
+        sourceGroupName: link.sourceGroupName ?? group.name,
+        targetGroupId: link.targetGroupId,
+        targetGroupName: link.targetGroupName,
+      });
+
+      try {
+        if (write.kind === 'create') {
+          const result = await createGroupPushMapping(write.app, group, write.target);
+          if (!result.success) {
+            onResult({ text: result.error, type: 'danger' });
+            return;
+          }
+          await logGroupPushAction({
+            type: 'CREATE_PUSH_MAPPING',
+            ...refOf(result.link),
+            createdTargetGroup: write.target.kind === 'new',
+          });
+          onResult({ text: `${group.name} is now pushed to ${write.app.name}.`, type: 'success' });
+        } else if (write.kind === 'status') {
+          const { link } = write;
+          const result = await setGroupPushMappingStatus(link, write.status);
+          if (!result.success) {
+            onResult({ text: result.error || 'The push could not be changed.', type: 'danger' });
+            return;
+          }
+          const activated = write.status === 'ACTIVE';
+          await logGroupPushAction({
+            type: activated ? 'ACTIVATE_PUSH_MAPPING' : 'DEACTIVATE_PUSH_MAPPING',
+            ...refOf(link),
+          });
+          onResult({
+            text: `Push to ${link.appName} ${activated ? 'activated' : 'deactivated'}.`,
+            type: 'success',
+          });
+        } else if (write.kind === 'push') {
+          const { link } = write;
+          const result = await pushGroupNow(link);
+          if (!result.success) {
+            onResult({ text: result.error || 'The group could not be pushed.', type: 'danger' });
+            return;
+          }
+          await logGroupPushAction({ type: 'PUSH_GROUP_NOW', ...refOf(link) });
+          onResult({ text: `Okta is pushing ${group.name} to ${link.appName}.`, type: 'success' });
+        } else {
+          const { link } = write;
+          const deleteTargetGroup = options.deleteTargetGroup ?? false;
+          const result = await deleteGroupPushMapping(link, deleteTargetGroup);
+          if (!result.success) {
+            onResult({ text: result.error || 'The push could not be deleted.', type: 'danger' });
+            return;
+          }
+          await logGroupPushAction({
+            type: 'DELETE_PUSH_MAPPING',
+            ...refOf(link),
+            deletedTargetGroup: deleteTargetGroup,
+            wasActive: link.status === 'ACTIVE',
+          });
+          onResult({
+            text: `${group.name} is no longer pushed to ${link.appName}.`,
+            type: 'success',
+          });
+        }
+      } catch (err) {
+        onResult({
+          text: err instanceof Error ? err.message : 'An unexpected error occurred.',
+          type: 'danger',
+        });
+      } finally {
+        setIsWriting(false);
+        // A failed write can still have changed something (a paused mapping),
+        // so the rows are read again either way.
+        await read();
+      }
+    },
+    [
+      pending,
+      group,
+      createGroupPushMapping,
+      setGroupPushMappingStatus,
+      pushGroupNow,
+      deleteGroupPushMapping,
+      onResult,
+      read,
+    ],
+  );
+
+  return {
+    status,
+    error,
+    apps,
+    links,
+    unreadableApps,
+    load,
+    listTargetGroups: listAppTargetGroups,
+    canWrite: targetTabId != null,
+    pending,
+    requestCreate,
+    requestStatus,
+    requestPushNow,
+    requestDelete,
+    cancelPending,
+    confirmPending,
+    isWriting,
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * @module sidepanel/hooks/useInterruptedOperations
+ * @description Finds journaled bulk operations a closed panel left unfinished and
+ * drives their resume / roll back / abandon.
+ *
+ * Lists the operation journal when the panel opens, and once more after the
+ * journal's staleness window — a panel reopened seconds after closing cannot yet
+ * tell its predecessor's run from a live one. An operation's items are
+ * read only when the admin asks to see them — a 5,000-user removal is not loaded
+ * into memory just to render a banner. After every action the list is re-read,
+ * since a pass that leaves items unresolved keeps its entry.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import type { RecoveryOutcome } from './useOktaApi/journalRecovery';
+import {
+  STALE_AFTER_MS,
+  type InterruptedOperation,
+  type JournalItem,
+} from '../../shared/storage/operationJournal';
+import type { AlertMessageData } from '../components/shared/AlertMessage';
+
+/** Options for {@link useInterruptedOperations}. */
+interface UseInterruptedOperationsOptions {
+  /** Tab whose scheduler sends recovery requests; listing works without one. */
+  targetTabId: number | null;
+}
+
+/** Return shape of {@link useInterruptedOperations}. */
+export interface UseInterruptedOperationsReturn {
+  /** Interrupted operations, newest first. */
+  operations: InterruptedOperation[];
+  /** Items read so far, by operation id. */
+  itemsById: Record<string, JournalItem[]>;
+  /** The operation an action is running on, or `null`. */
+  busyId: string | null;
+  /** Outcome of the last action, or `null`. */
+  notice: AlertMessageData | null;
+  dismissNotice: () => void;
+  /** Read (once) an operation's items. */
+  loadItems: (operationId: string) => Promise<void>;
+  resume: (operation: InterruptedOperation) => Promise<void>;
+  rollBack: (operation: InterruptedOperation) => Promise<void>;
+  abandon: (operation: InterruptedOperation) => Promise<void>;
+}
+
+/** Plural-aware "N user(s)". */
+function users(count: number): string {
+  return `${count} user${count === 1 ? '' : 's'}`;
+}
+
+/** The message a resume or roll-back pass reports. */
+function describeOutcome(outcome: RecoveryOutcome, verb: string): AlertMessageData {
+  if (outcome.missing) {
+    return {
+      text: 'Another panel already finished or discarded this operation.',
+      type: 'info',
+    };
+  }
+
+  const parts = [`${verb} ${users(outcome.succeeded)}.`];
+  if (outcome.failed > 0) parts.push(`Okta refused ${users(outcome.failed)}.`);
+  if (outcome.unknown > 0) {
+    parts.push(`${users(outcome.unknown)} could not be confirmed and may have changed.`);
+  }
+  if (outcome.remaining > 0) {
+    const need = outcome.remaining === 1 ? 'needs' : 'need';
+    parts.push(`${users(outcome.remaining)} still ${need} attention; the operation stays listed.`);
+  }
+
+  const clean = outcome.failed === 0 && outcome.unknown === 0 && outcome.remaining === 0;
+  return { text: parts.join(' '), type: clean ? 'success' : 'warning' };
+}
+
+/**
+ * Hook backing the `InterruptedOperationsBanner`.
+ *
+ * @param options - See {@link UseInterruptedOperationsOptions}.
+ * @returns The interrupted operations, their loaded items and the recovery actions.
+ */
+export function useInterruptedOperations({
+  targetTabId,
+}: UseInterruptedOperationsOptions): UseInterruptedOperationsReturn {
+  const [operations, setOperations] = useState<InterruptedOperation[]>([]);
+  const [itemsById, setItemsById] = useState<Record<string, JournalItem[]>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<AlertMessageData | null>(null);
+
+  const {
+    listInterruptedOperations,
+    getInterruptedItems,
+    resumeInterruptedOperation,
+    rollBackInterruptedOperation,
+    abandonInterruptedOperation,
+  } = useOktaApi({ targetTabId });
+
+  const refresh = useCallback(async () => {
+    setOperations(await listInterruptedOperations());
+    // Item lists are stale after any action; re-read on demand.
+    setItemsById({});
+  }, [listInterruptedOperations]);
+
+  useEffect(() => {
+    void refresh();
+    const recheck = setTimeout(() => void refresh(), STALE_AFTER_MS + 1_000);
+    return () => clearTimeout(recheck);
+  }, [refresh]);
+
+  const loadItems = useCallback(
+    async (operationId: string) => {
+      if (itemsById[operationId]) return;
+      const items = await getInterruptedItems(operationId);
+      setItemsById((prev) => ({ ...prev, [operationId]: items }));
+    },
+    [itemsById, getInterruptedItems],
+  );
+
+  const runAction = useCallback(
+    async (operation: InterruptedOperation, action: () => Promise<AlertMessageData>) => {
+      setBusyId(operation.id);
+      setNotice(null);
+      try {
+        setNotice(await action());
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : 'An unexpected error occurred.';
+        setNotice({ text: message, type: 'danger' });
+      } finally {
+        setBusyId(null);
+        await refresh();
+      }
+    },
+    [refresh],
+  );
+
+  const resume = useCallback(
+    (operation: InterruptedOperation) =>
+      runAction(operation, async () =>
+        describeOutcome(await resumeInterruptedOperation(operation), 'Removed'),
+      ),
+    [runAction, resumeInterruptedOperation],
+  );
+
+  const rollBack = useCallback(
+    (operation: InterruptedOperation) =>
+      runAction(operation, async () =>
+        describeOutcome(await rollBackInterruptedOperation(operation), 'Re-added'),
+      ),
+    [runAction, rollBackInterruptedOperation],
+  );
+
+  const abandon = useCallback(
+    (operation: InterruptedOperation) =>
+      runAction(operation, async () => {
+        await abandonInterruptedOperation(operation.id);
+        return { text: `Discarded the record of "${operation.title}".`, type: 'info' };
+      }),
+    [runAction, abandonInterruptedOperation],
+  );
+
+  return {
+    operations,
+    itemsById,
+    busyId,
+    notice,
+    dismissNotice: () => setNotice(null),
+    loadItems,
+    resume,
+    rollBack,
+    abandon,
+  };
+}
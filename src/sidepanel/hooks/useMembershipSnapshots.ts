@@ -0,0 +1,173 @@
+/**
+ * @module sidepanel/hooks/useMembershipSnapshots
+ * @description Drives a group's membership snapshots: take one, pick two, diff
+ * them, and download the diff.
+ *
+ * Snapshots live in `shared/storage/membershipSnapshotStore`, so a snapshot taken
+ * before a rule change is still there after Okta has finished applying it — hours
+ * or days later, across panel closes. The list is newest first. By default the
+ * two newest are compared, which is the "before and after" a rule change needs;
+ * any other pair can be picked.
+ *
+ * The Okta read is in `useOktaApi/membershipSnapshots`; the diff is in
+ * `shared/membership/membershipSnapshot`.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import {
+  buildMembershipDiffCsv,
+  diffSnapshots,
+  orderSnapshots,
+  type MembershipDiff,
+  type MembershipSnapshot,
+} from '../../shared/membership/membershipSnapshot';
+import { membershipSnapshotStore } from '../../shared/storage/membershipSnapshotStore';
+import { downloadCSV, getDateForFilename, sanitizeFilename } from '../../shared/utils/csvUtils';
+import { createLogger } from '../../shared/utils/logger';
+
+const log = createLogger('useMembershipSnapshots');
+
+/** Return shape of {@link useMembershipSnapshots}. */
+export interface UseMembershipSnapshotsReturn {
+  /** The group's snapshots, newest first. */
+  snapshots: MembershipSnapshot[];
+  isLoading: boolean;
+  /** True while a snapshot is being read from Okta. */
+  isTaking: boolean;
+  error: string | null;
+  /** The older and newer snapshot being compared, once two are picked. */
+  compared: [MembershipSnapshot, MembershipSnapshot] | null;
+  /** Their diff. */
+  diff: MembershipDiff | null;
+  /** Ids of the two picked snapshots, in the order they were picked. */
+  selection: [string | null, string | null];
+  /** Pick the snapshot on one side of the comparison. */
+  select: (side: 0 | 1, id: string) => void;
+  /** Read the group's members now and keep them as a snapshot. */
+  take: (label?: string) => Promise<void>;
+  /** Delete a snapshot. */
+  remove: (id: string) => Promise<void>;
+  /** Download the current diff as CSV. */
+  downloadDiff: () => void;
+  clearError: () => void;
+}
+
+/**
+ * Manage one group's membership snapshots.
+ *
+ * @param group - The group, or `null` when none is selected.
+ * @param targetTabId - Connected Okta tab id (operations no-op when absent).
+ * @returns Snapshot state, the current diff, and the snapshot actions.
+ */
+export function useMembershipSnapshots(
+  group: { id: string; name: string } | null,
+  targetTabId?: number,
+): UseMembershipSnapshotsReturn {
+  const { takeMembershipSnapshot } = useOktaApi({ targetTabId: targetTabId ?? null });
+
+  const [snapshots, setSnapshots] = useState<MembershipSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isTaking, setIsTaking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [picked, setPicked] = useState<[string | null, string | null]>([null, null]);
+
+  const groupId = group?.id ?? null;
+  const groupName = group?.name ?? '';
+
+  useEffect(() => {
+    setPicked([null, null]);
+    if (!groupId) {
+      setSnapshots([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    membershipSnapshotStore
+      .listSnapshots(groupId)
+      .then((list) => {
+        if (!cancelled) setSnapshots(list);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId]);
+
+  // An unpicked (or deleted) side falls back to the two newest snapshots.
+  const selection = useMemo<[string | null, string | null]>(() => {
+    const exists = (id: string | null) => id !== null && snapshots.some((s) => s.id === id);
+    return [
+      exists(picked[0]) ? picked[0] : (snapshots[1]?.id ?? null),
+      exists(picked[1]) ? picked[1] : (snapshots[0]?.id ?? null),
+    ];
+  }, [picked, snapshots]);
+
+  const compared = useMemo<[MembershipSnapshot, MembershipSnapshot] | null>(() => {
+    const a = snapshots.find((s) => s.id === selection[0]);
+    const b = snapshots.find((s) => s.id === selection[1]);
+    return a && b && a.id !== b.id ? orderSnapshots(a, b) : null;
+  }, [snapshots, selection]);
+
+  const diff = useMemo(() => (compared ? diffSnapshots(...compared) : null), [compared]);
+
+  const select = useCallback((side: 0 | 1, id: string) => {
+    setPicked((prev) => (side === 0 ? [id, prev[1]] : [prev[0], id]));
+  }, []);
+
+  const take = useCallback(
+    async (label?: string) => {
+      if (!groupId) return;
+      setIsTaking(true);
+      setError(null);
+      try {
+        const snapshot = await takeMembershipSnapshot({ id: groupId, name: groupName }, label);
+        setSnapshots((prev) => [snapshot, ...prev]);
+        // The new snapshot becomes the "after" side; the "before" side is kept.
+        setPicked((prev) => [prev[0], snapshot.id]);
+        if (!(await membershipSnapshotStore.saveSnapshot(snapshot))) {
+          setError('The snapshot could not be saved in this browser. Try again.');
+        }
+      } catch (err) {
+        log.error('Taking membership snapshot failed:', err);
+        setError(err instanceof Error ? err.message : 'Failed to read the group members');
+      } finally {
+        setIsTaking(false);
+      }
+    },
+    [groupId, groupName, takeMembershipSnapshot],
+  );
+
+  const remove = useCallback(async (id: string) => {
+    await membershipSnapshotStore.deleteSnapshot(id);
+    setSnapshots((prev) => prev.filter((s) => s.id !== id));
+  }, []);
+
+  const downloadDiff = useCallback(() => {
+    if (!compared || !diff) return;
+    const [older, newer] = compared;
+    downloadCSV(
+      buildMembershipDiffCsv(diff, older, newer),
+      `membership_diff_${sanitizeFilename(newer.groupName)}_${getDateForFilename()}.csv`,
+    );
+  }, [compared, diff]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    snapshots,
+    isLoading,
+    isTaking,
+    error,
+    compared,
+    diff,
+    selection,
+    select,
+    take,
+    remove,
+    downloadDiff,
+    clearError,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * @module sidepanel/hooks/useMembershipTimelines
+ * @description Per-row state for the membership history on the user-detail
+ * Groups pane: which rows have been asked for, and what came back.
+ *
+ * The read itself is the caller's (`useOktaApi/systemLog::getMembershipTimeline`,
+ * bound to the selected user by `useUsersTabState`); this hook only keys its
+ * outcomes by group id and never re-sends a row already in flight. A failed read
+ * becomes a timeline carrying its error, so the strip always has something
+ * honest to render.
+ */
+import { useCallback, useState } from 'react';
+import type { MembershipTimeline } from '../../shared/membership/membershipTimeline';
+import type { GroupMembership } from '../../shared/types';
+
+/** Where one row's timeline request has got to. */
+export type MembershipTimelineOutcome =
+  { status: 'pending' } | { status: 'loaded'; timeline: MembershipTimeline };
+
+/** What {@link useMembershipTimelines} hands back to the list. */
+export interface MembershipTimelines {
+  /** The outcome for one group's row, or `undefined` when it was never asked for. */
+  outcomeFor: (groupId: string) => MembershipTimelineOutcome | undefined;
+  /** Load one membership's timeline. A row already in flight is not re-sent. */
+  load: (membership: GroupMembership) => void;
+  /** Whether the surface can load a timeline at all (a loader was supplied). */
+  enabled: boolean;
+}
+
+/**
+ * Per-row timeline state for the memberships list, keyed by group id.
+ *
+ * @param onLoad - Reads one group's timeline for the list's user. Omitted, the
+ * feature is off and no row renders the action.
+ * @returns The {@link MembershipTimelines} handle.
+ */
+export function useMembershipTimelines(
+  onLoad?: (group: { id: string; name: string }) => Promise<MembershipTimeline>,
+): MembershipTimelines {
+  const [outcomes, setOutcomes] = useState<Record<string, MembershipTimelineOutcome>>({});
+
+  const load = useCallback(
+    (membership: GroupMembership) => {
+      if (!onLoad) return;
+      const group = { id: membership.group.id, name: membership.group.profile.name };
+
+      setOutcomes((current) => {
+        if (current[group.id]?.status === 'pending') return current;
+        return { ...current, [group.id]: { status: 'pending' } };
+      });
+
+      void onLoad(group)
+        .catch((err): MembershipTimeline => ({
+          entries: [],
+          systemLogError: err instanceof Error ? err.message : 'Failed to read the history',
+        }))
+        .then((timeline) =>
+          setOutcomes((current) => ({ ...current, [group.id]: { status: 'loaded', timeline } })),
+        );
+    },
+    [onLoad],
+  );
+
+  const outcomeFor = useCallback((groupId: string) => outcomes[groupId], [outcomes]);
+
+  return { outcomeFor, load, enabled: Boolean(onLoad) };
+}
@@ -31,6 +31,23 @@ import { createPushGroupOperations } from './useOktaApi/pushGroupOps';
 import { createGroupAnalysisOperations } from './useOktaApi/groupAnalysis';
 import { createRuleImpactOperations } from './useOktaApi/ruleImpact';
 import { createRuleWriteOperations } from './useOktaApi/ruleWrites';
+import { createRuleAuthoringOperations } from './useOktaApi/ruleAuthoring';
+import { createJournalRecoveryOperations } from './useOktaApi/journalRecovery';
+import { createGroupImportOperations } from './useOktaApi/groupImport';
+import { createBulkProfileOperations } from './useOktaApi/bulkProfileUpdate';
+import { createAccessReviewOperations } from './useOktaApi/accessReview';
+import { createMembershipSnapshotOperations } from './useOktaApi/membershipSnapshots';
+import { createSystemLogOperations } from './useOktaApi/systemLog';
+import { createSamlCaptureOperations } from './useOktaApi/samlCapture';
+import { createCertificateOperations } from './useOktaApi/certificates';
+import { createAdminRoleOperations } from './useOktaApi/adminRoles';
+import { createLinkedObjectOperations } from './useOktaApi/linkedObjects';
+import { createApiConsoleOperations } from './useOktaApi/apiConsole';
+import { createSessionOperations } from './useOktaApi/session';
+import { createUserFactorOperations } from './useOktaApi/userFactors';
+import { createBulkLifecycleOperations } from './useOktaApi/bulkLifecycle';
+import { getUserGroupsRequest } from './getUserGroupsRequest';
+import { loadCachedGroupNames } from './fetchGroupRulesRequest';
 
 /**
  * Aggregate hook returning every Okta operation the side panel can invoke.
@@ -183,6 +200,82 @@ export function useOktaApi({ targetTabId, onResult, onProgress }: UseOktaApiOpti
     [coreApi, groupMemberOps],
   );
   const ruleWriteOps = useMemo(() => createRuleWriteOperations(coreApi), [coreApi]);
+  const ruleAuthoringOps = useMemo(() => createRuleAuthoringOperations(coreApi), [coreApi]);
+  const journalRecoveryOps = useMemo(
+    () =>
+      createJournalRecoveryOperations(coreApi, (groupId) =>
+        invalidate(cacheKeys.groupMembers(groupId)),
+      ),
+    [coreApi],
+  );
+  const groupImportOps = useMemo(
+    () =>
+      createGroupImportOperations(coreApi, {
+        getUserById: userOps.getUserById,
+        searchUsers: userOps.searchUsers,
+        getAllGroupMembers: groupMemberOps.getAllGroupMembers,
+        ensureGroupRulesLoaded: groupDiscoveryOps.ensureGroupRulesLoaded,
+        addUserToGroup: groupMemberOps.addUserToGroup,
+      }),
+    [coreApi, userOps, groupMemberOps, groupDiscoveryOps],
+  );
+  // A profile write can move rule-driven membership, so each written user's
+  // analysed memberships are dropped, as the one-user editor does.
+  const bulkProfileOps = useMemo(
+    () =>
+      createBulkProfileOperations(
+        coreApi,
+        {
+          getUserRaw: profileOps.getUserRaw,
+          getUserProfileSchema: profileOps.getUserProfileSchema,
+          getUserApps: userOps.getUserApps,
+          updateUserProfile: profileOps.updateUserProfile,
+          ensureGroupRulesLoaded: groupDiscoveryOps.ensureGroupRulesLoaded,
+          getUserGroups: async (userId) => {
+            const response = await getUserGroupsRequest(coreApi.makeApiRequest, userId);
+            return response.success ? (response.data ?? []).map((m) => m.group) : null;
+          },
+          loadGroupNames: loadCachedGroupNames,
+        },
+        (userId) => invalidate(cacheKeys.userMemberships(userId)),
+      ),
+    [coreApi, profileOps, userOps, groupDiscoveryOps],
+  );
+  const accessReviewOps = useMemo(
+    () =>
+      createAccessReviewOperations(coreApi, {
+        getAllGroupMembers: groupMemberOps.getAllGroupMembers,
+        removeUserFromGroup: groupMemberOps.removeUserFromGroup,
+      }),
+    [coreApi, groupMemberOps],
+  );
+  const membershipSnapshotOps = useMemo(
+    () =>
+      createMembershipSnapshotOperations(coreApi, {
+        getAllGroupMembers: groupMemberOps.getAllGroupMembers,
+      }),
+    [coreApi, groupMemberOps],
+  );
+  const systemLogOps = useMemo(() => createSystemLogOperations(coreApi), [coreApi]);
+  const samlCaptureOps = useMemo(() => createSamlCaptureOperations(coreApi), [coreApi]);
+  const certificateOps = useMemo(
+    () => createCertificateOperations(coreApi, { getAllApps: appOps.getAllApps }),
+    [coreApi, appOps],
+  );
+  const adminRoleOps = useMemo(() => createAdminRoleOperations(coreApi), [coreApi]);
+  const linkedObjectOps = useMemo(() => createLinkedObjectOperations(coreApi), [coreApi]);
+  const apiConsoleOps = useMemo(() => createApiConsoleOperations(coreApi), [coreApi]);
+  const sessionOps = useMemo(() => createSessionOperations(coreApi), [coreApi]);
+  const userFactorOps = useMemo(() => createUserFactorOperations(coreApi), [coreApi]);
+  const bulkLifecycleOps = useMemo(
+    () =>
+      createBulkLifecycleOperations(coreApi, {
+        getUserById: userOps.getUserById,
+        searchUsers: userOps.searchUsers,
+        getAllGroupMembers: groupMemberOps.getAllGroupMembers,
+      }),
+    [coreApi, userOps, groupMemberOps],
+  );
 
   const wrapOperation = useCallback(<A extends unknown[]>(fn: (...args: A) => Promise<void>) => {
     return async (...args: A) => {
@@ -272,6 +365,7 @@ export function useOktaApi({ targetTabId, onResult, onProgress }: UseOktaApiOpti
       listPolicies: policyOps.listPolicies,
       getPolicyRules: policyOps.getPolicyRules,
       getAppAccessPolicyId: policyOps.getAppAccessPolicyId,
+      listNetworkZones: policyOps.listNetworkZones,
 
       // Descriptor-driven Export Engine (Export tab)
       fetchExportRows: exportEngineOps.fetchAllRows,
@@ -281,6 +375,14 @@ export function useOktaApi({ targetTabId, onResult, onProgress }: UseOktaApiOpti
       // Push group operations
       getAppPushGroupMappings: pushGroupOps.getAppPushGroupMappings,
       applyPushGroupMappings: pushGroupOps.applyPushGroupMappings,
+      listAppTargetGroups: pushGroupOps.listAppTargetGroups,
+      getGroupPushLinks: pushGroupOps.getGroupPushLinks,
+      getAppGroupPushLinks: pushGroupOps.getAppGroupPushLinks,
+      getGroupPushMapping: pushGroupOps.getGroupPushMapping,
+      createGroupPushMapping: pushGroupOps.createGroupPushMapping,
+      setGroupPushMappingStatus: pushGroupOps.setGroupPushMappingStatus,
+      pushGroupNow: pushGroupOps.pushGroupNow,
+      deleteGroupPushMapping: pushGroupOps.deleteGroupPushMapping,
 
       // Group analysis operations
       compareGroups: groupAnalysisOps.compareGroups,
@@ -292,9 +394,94 @@ export function useOktaApi({ targetTabId, onResult, onProgress }: UseOktaApiOpti
       // Rule consolidation writes (A4)
       getRawGroupRule: ruleWriteOps.getRawGroupRule,
       createGroupRule: ruleWriteOps.createGroupRule,
+      updateGroupRule: ruleWriteOps.updateGroupRule,
       deleteGroupRule: ruleWriteOps.deleteGroupRule,
       activateGroupRule: ruleWriteOps.activateGroupRule,
       deactivateGroupRule: ruleWriteOps.deactivateGroupRule,
+
+      // Rule authoring workbench (read-only): one bounded, low-priority page of
+      // users the draft expression is estimated against — never an org crawl —
+      // plus the explicit, cancellable org-wide what-if sweep.
+      sampleUsersForRule: ruleAuthoringOps.sampleUsersForRule,
+      simulateRuleAcrossOrg: ruleAuthoringOps.simulateRuleAcrossOrg,
+
+      // Recovery for journaled bulk removals a closed panel left unfinished.
+      // Resume re-sends removals; roll back re-adds as direct members.
+      listInterruptedOperations: journalRecoveryOps.listInterruptedOperations,
+      getInterruptedItems: journalRecoveryOps.getInterruptedItems,
+      resumeInterruptedOperation: journalRecoveryOps.resumeInterruptedOperation,
+      rollBackInterruptedOperation: journalRecoveryOps.rollBackInterruptedOperation,
+      abandonInterruptedOperation: journalRecoveryOps.abandonInterruptedOperation,
+
+      // CSV import into one group: a read-only dry run, then the adds.
+      previewGroupImport: groupImportOps.previewGroupImport,
+      applyGroupImport: groupImportOps.applyGroupImport,
+
+      // Spreadsheet profile update across many users: a read-only dry run, an
+      // opt-in group-impact check (one membership listing per user), then the
+      // writes, each with its own undoable history entry.
+      previewBulkProfileUpdate: bulkProfileOps.previewBulkProfileUpdate,
+      analyzeBulkProfileImpact: bulkProfileOps.analyzeBulkProfileImpact,
+      applyBulkProfileUpdate: bulkProfileOps.applyBulkProfileUpdate,
+
+      // Access-review campaigns: a member snapshot with Okta's provenance, one
+      // journaled revocation batch, and the audited sign-off.
+      startAccessReview: accessReviewOps.startAccessReview,
+      applyAccessReviewRevocations: accessReviewOps.applyAccessReviewRevocations,
+      signOffAccessReview: accessReviewOps.signOffAccessReview,
+
+      // Point-in-time membership snapshots: one fresh member read with Okta's
+      // provenance; storing and diffing them is local.
+      takeMembershipSnapshot: membershipSnapshotOps.takeMembershipSnapshot,
+
+      // System Log: one validated page at a time, newest first, scoped to the
+      // entity in view.
+      queryLogs: systemLogOps.queryLogs,
+      getLogPage: systemLogOps.getLogPage,
+      getMembershipTimeline: systemLogOps.getMembershipTimeline,
+      // Recently deleted objects, reconstructed from their deletion events.
+      getRecentDeletions: systemLogOps.getRecentDeletions,
+
+      // SSO Inspector: a SAMLResponse field read off the Okta tab, undecoded.
+      captureSamlResponse: samlCaptureOps.captureSamlResponse,
+
+      // Signing-certificate inventory: IdP keys plus one key read per SAML app,
+      // run on request only.
+      getCertificateInventory: certificateOps.getCertificateInventory,
+
+      // Administrator roles: a user's roles and their targets, audited grant and
+      // revoke, and the org-wide admins report.
+      getUserRoles: adminRoleOps.getUserRoles,
+      getRoleTargets: adminRoleOps.getRoleTargets,
+      grantUserRole: adminRoleOps.grantUserRole,
+      revokeUserRole: adminRoleOps.revokeUserRole,
+      getAdminsReport: adminRoleOps.getAdminsReport,
+
+      // Linked objects (read-only): the org's relationship definitions and the
+      // users one relationship of one user points at — the manager chain.
+      getLinkedObjectDefinitions: linkedObjectOps.getLinkedObjectDefinitions,
+      getLinkedUsers: linkedObjectOps.getLinkedUsers,
+
+      // API Console: one admin-written /api/v1 request through the scheduler;
+      // writes are audited.
+      sendConsoleRequest: apiConsoleOps.sendConsoleRequest,
+
+      // The admin's Okta session: when it expires, for the time-left chip.
+      getSessionExpiry: sessionOps.getSessionExpiry,
+
+      // MFA factors: one user's list, audited reset, and verification by push
+      // or by a code the caller reads back.
+      getUserFactors: userFactorOps.getUserFactors,
+      resetUserFactor: userFactorOps.resetUserFactor,
+      startFactorVerification: userFactorOps.startFactorVerification,
+      pollFactorVerification: userFactorOps.pollFactorVerification,
+      submitFactorCode: userFactorOps.submitFactorCode,
+      abandonFactorVerification: userFactorOps.abandonFactorVerification,
+
+      // Bulk lifecycle console: read the targets (list, group or search), then
+      // run one lifecycle action across the users it changes.
+      resolveLifecycleTargets: bulkLifecycleOps.resolveLifecycleTargets,
+      applyBulkLifecycle: bulkLifecycleOps.applyBulkLifecycle,
     }),
     [
       isLoading,
@@ -313,6 +500,21 @@ export function useOktaApi({ targetTabId, onResult, onProgress }: UseOktaApiOpti
       groupAnalysisOps,
       ruleImpactOps,
       ruleWriteOps,
+      ruleAuthoringOps,
+      journalRecoveryOps,
+      groupImportOps,
+      bulkProfileOps,
+      accessReviewOps,
+      membershipSnapshotOps,
+      systemLogOps,
+      samlCaptureOps,
+      certificateOps,
+      adminRoleOps,
+      linkedObjectOps,
+      apiConsoleOps,
+      sessionOps,
+      userFactorOps,
+      bulkLifecycleOps,
       removeDeprovisioned,
     ],
   );
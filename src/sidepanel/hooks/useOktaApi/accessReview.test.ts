@@ -0,0 +1,182 @@
+/**
+ * Tests for the access-review operations: the snapshot reads members with Okta's
+ * provenance and sends no writes, revocations remove only members no rule is
+ * named for and stop at a 403, and sign-off writes an `access_review` audit entry.
+ *
+ * `runOperation` drives the real `runBatch` so `stopOnError` and skipped items
+ * behave as they do in the panel.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createAccessReviewOperations, type AccessReviewDependencies } from './accessReview';
+import { FAKE_ADMIN, makeBatchCore } from '@/test/factories/coreApi';
+import { decideMembers } from '@/shared/membership/accessReview';
+import type { OktaUser } from '@/shared/types';
+
+vi.mock('../../../shared/undoManager', () => ({
+  logBulkRemoveAction: vi.fn().mockResolvedValue(undefined),
+}));
+vi.mock('../../../shared/storage/auditStore', () => ({
+  auditStore: { logOperation: vi.fn().mockResolvedValue(undefined) },
+}));
+
+import { logBulkRemoveAction } from '../../../shared/undoManager';
+import { auditStore } from '../../../shared/storage/auditStore';
+
+function member(id: string, embedded?: unknown): OktaUser {
+  return {
+    id,
+    status: 'ACTIVE',
+    profile: {
+      login: `${id}@example.com`,
+      email: `${id}@example.com`,
+      firstName: 'Test',
+      lastName: id,
+    },
+    ...(embedded !== undefined ? { _embedded: embedded } : {}),
+  } as OktaUser;
+}
+
+const members = [
+  member('00uFAKE1', { 'group-rules': [] }),
+  member('00uFAKE2', { 'group-rules': [{ id: '0prFAKE1', name: 'Sales → CRM' }] }),
+  member('00uFAKE3'),
+  member('00uFAKE4', { 'group-rules': [] }),
+];
+
+function makeDeps(overrides: Partial<AccessReviewDependencies> = {}): AccessReviewDependencies {
+  return {
+    getAllGroupMembers: vi.fn().mockResolvedValue(members),
+    removeUserFromGroup: vi.fn().mockResolvedValue({ success: true }),
+    ...overrides,
+  };
+}
+
+const group = { id: '00gFAKE1', name: 'CRM Users' };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('startAccessReview', () => {
+  it('snapshots the members with their source and sends no writes', async () => {
+    const deps = makeDeps();
+    const ops = createAccessReviewOperations(makeBatchCore(), deps);
+
+    const campaign = await ops.startAccessReview(group);
+
+    expect(campaign).toMatchObject({ groupId: '00gFAKE1', createdBy: FAKE_ADMIN.email });
+    expect(campaign.items.map((item) => item.source)).toEqual([
+      'manual',
+      'rule',
+      'unknown',
+      'manual',
+    ]);
+    expect(deps.removeUserFromGroup).not.toHaveBeenCalled();
+  });
+});
+
+describe('applyAccessReviewRevocations', () => {
+  async function reviewed(deps: AccessReviewDependencies) {
+    const ops = createAccessReviewOperations(makeBatchCore(), deps);
+    const campaign = await ops.startAccessReview(group);
+    const at = new Date();
+    return {
+      ops,
+      campaign: decideMembers(
+        decideMembers(campaign, ['00uFAKE1'], 'keep', at),
+        ['00uFAKE2', '00uFAKE3', '00uFAKE4'],
+        'revoke',
+        at,
+      ),
+    };
+  }
+
+  it('removes revoked members no rule is named for, never the rule-managed one', async () => {
+    const deps = makeDeps();
+    const { ops, campaign } = await reviewed(deps);
+
+    const applied = await ops.applyAccessReviewRevocations(campaign);
+
+    const removedIds = vi.mocked(deps.removeUserFromGroup).mock.calls.map(([, , user]) => user.id);
+    expect(removedIds).toEqual(['00uFAKE3', '00uFAKE4']);
+    expect(vi.mocked(deps.removeUserFromGroup).mock.calls[0][3]).toBe(true);
+    expect(applied.items.map((item) => item.revocation?.result)).toEqual([
+      undefined,
+      'rule-managed',
+      'removed',
+      'removed',
+    ]);
+    expect(applied.revocationsAppliedAt).toBeInstanceOf(Date);
+    expect(logBulkRemoveAction).toHaveBeenCalledWith(
+      '00gFAKE1',
+      'CRM Users',
+      expect.arrayContaining([expect.objectContaining({ userId: '00uFAKE3' })]),
+      'access_review',
+    );
+    expect(auditStore.logOperation).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'remove_users', affectedUsers: ['00uFAKE3', '00uFAKE4'] }),
+    );
+  });
+
+  it('stops at a 403 and records the rest as not sent', async () => {
+    const deps = makeDeps({
+      removeUserFromGroup: vi.fn().mockResolvedValue({
+        success: false,
+        error: 'You do not have permission',
+        status: 403,
+      }),
+    });
+    const { ops, campaign } = await reviewed(deps);
+
+    const applied = await ops.applyAccessReviewRevocations(campaign);
+
+    expect(deps.removeUserFromGroup).toHaveBeenCalledTimes(1);
+    expect(applied.items.map((item) => item.revocation)).toEqual([
+      undefined,
+      { result: 'rule-managed' },
+      { result: 'failed', error: 'You do not have permission' },
+      { result: 'not-sent' },
+    ]);
+    expect(logBulkRemoveAction).not.toHaveBeenCalled();
+  });
+
+  it('refuses while a member is undecided', async () => {
+    const deps = makeDeps();
+    const ops = createAccessReviewOperations(makeBatchCore(), deps);
+    const campaign = await ops.startAccessReview(group);
+
+    await expect(ops.applyAccessReviewRevocations(campaign)).rejects.toThrow(
+      '4 members have no decision yet.',
+    );
+    expect(deps.removeUserFromGroup).not.toHaveBeenCalled();
+  });
+});
+
+describe('signOffAccessReview', () => {
+  it('signs off as the signed-in admin and writes the access_review audit entry', async () => {
+    const deps = makeDeps();
+    const ops = createAccessReviewOperations(makeBatchCore(), deps);
+    const started = await ops.startAccessReview(group);
+    const decided = decideMembers(
+      started,
+      started.items.map((item) => item.user.id),
+      'keep',
+      new Date(),
+    );
+
+    const signed = await ops.signOffAccessReview(await ops.applyAccessReviewRevocations(decided));
+
+    expect(signed).toMatchObject({ status: 'signed-off', signedOffBy: FAKE_ADMIN.email });
+    expect(auditStore.logOperation).toHaveBeenCalledTimes(1);
+    expect(auditStore.logOperation).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'access_review',
+        details: expect.objectContaining({
+          review: { campaignId: signed.id, kept: 4, revoked: 0, ruleManaged: 0 },
+        }),
+      }),
+    );
+  });
+});
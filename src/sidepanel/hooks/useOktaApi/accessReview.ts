@@ -0,0 +1,232 @@
+/**
+ * @module hooks/useOktaApi/accessReview
+ * @description The Okta side of an access-review campaign: the member snapshot, the
+ * revocation batch and the sign-off record. The campaign model itself lives in
+ * `shared/membership/accessReview`.
+ *
+ * {@link startAccessReview} reads the members with `getAllGroupMembers`, which
+ * carries Okta's `group-rules` embed, so each member's source comes from Okta.
+ *
+ * {@link applyAccessReviewRevocations} removes the revoked members Okta did not
+ * name a rule for, under {@link CoreApi.runOperation}: journaled like the
+ * deprovisioned cleanup, stopping at the first 403, and with one aggregate undo
+ * entry. Revokes on rule-managed members are never sent — the rule would re-add
+ * them — and are recorded as such.
+ *
+ * {@link signOffAccessReview} writes an `access_review` audit entry with the
+ * decision totals. The removals themselves are audited as `remove_users` when
+ * they run.
+ */
+
+import type { CoreApi } from './core';
+import type { AuditLogEntry, OktaUser } from './types';
+import type { RequestResult } from '../../../shared/scheduler/types';
+import type { BulkUserInfo } from '../../../shared/undoTypes';
+import {
+  createAccessReviewCampaign,
+  reviewCounts,
+  revocationPlan,
+  applyBlocker,
+  signOffCampaign,
+  withRevocationOutcomes,
+  type AccessReviewCampaign,
+  type RevocationOutcome,
+} from '../../../shared/membership/accessReview';
+import { logBulkRemoveAction } from '../../../shared/undoManager';
+import { auditStore } from '../../../shared/storage/auditStore';
+import { WriteRejectedError } from '../../../shared/storage/operationJournal';
+import { createLogger } from '../../../shared/utils/logger';
+
+const log = createLogger('useOktaApi');
+
+/** The member read and the removal an access review is built from. */
+export interface AccessReviewDependencies {
+  getAllGroupMembers: (groupId: string) => Promise<OktaUser[]>;
+  removeUserFromGroup: (
+    groupId: string,
+    groupName: string,
+    user: OktaUser,
+    skipUndoLog?: boolean,
+  ) => Promise<RequestResult>;
+}
+
+/**
+ * Build the access-review operations.
+ *
+ * @param coreApi - Shared transport surface (see {@link CoreApi}).
+ * @param deps - The member read and the removal primitive from
+ * `createGroupMemberOperations`.
+ * @returns `{ startAccessReview, applyAccessReviewRevocations, signOffAccessReview }`.
+ */
+export function createAccessReviewOperations(coreApi: CoreApi, deps: AccessReviewDependencies) {
+  /**
+   * Snapshot a group's members into a new, open campaign. Sends no writes.
+   *
+   * @param group - The group under review.
+   * @param dueAt - Optional due date; the end of the current quarter otherwise.
+   * @returns The campaign, not yet stored.
+   * @throws Error when the member list cannot be read.
+   */
+  const startAccessReview = async (
+    group: { id: string; name: string },
+    dueAt?: Date,
+  ): Promise<AccessReviewCampaign> => {
+    const currentUser = await coreApi.getCurrentUser();
+    const members = await deps.getAllGroupMembers(group.id);
+    return createAccessReviewCampaign({
+      id: crypto.randomUUID(),
+      group,
+      members,
+      createdBy: currentUser.email,
+      now: new Date(),
+      dueAt,
+    });
+  };
+
+  /**
+   * Remove every revoked member no rule manages, and record each outcome.
+   *
+   * @param campaign - A campaign with no `applyBlocker`.
+   * @returns The campaign with its revocations recorded and its decisions frozen.
+   * @throws Error when `applyBlocker` names a reason.
+   */
+  const applyAccessReviewRevocations = async (
+    campaign: AccessReviewCampaign,
+  ): Promise<AccessReviewCampaign> => {
+    const blocker = applyBlocker(campaign);
+    if (blocker !== null) throw new Error(blocker);
+
+    const { groupId, groupName } = campaign;
+    const users = revocationPlan(campaign).toRemove.map((item) => item.user);
+    const outcomes = new Map<string, RevocationOutcome>();
+    if (users.length === 0) return withRevocationOutcomes(campaign, outcomes, new Date());
+
+    const startTime = Date.now();
+    const currentUser = await coreApi.getCurrentUser();
+    const removedUsers: BulkUserInfo[] = [];
+    const errorMessages: string[] = [];
+
+    try {
+      const outcome = await coreApi.runOperation(
+        'Apply access-review revocations',
+        users,
+        async (user) => {
+          const result = await deps.removeUserFromGroup(groupId, groupName, user, true);
+          if (!result.success) {
+            throw new WriteRejectedError(result.error || 'Failed to remove user', result.status);
+          }
+          return user;
+        },
+        {
+          stopOnError: (error) => (error as { status?: number }).status === 403,
+          message: (p) => `Revoking access (${p.completed}/${p.total})`,
+          journal: {
+            kind: 'remove-members',
+            groupId,
+            groupName,
+            describe: (user) => ({ key: user.id, label: user.profile.login }),
+          },
+        },
+      );
+
+      for (const r of outcome.results) {
+        if (r.status === 'skipped') continue;
+        const user = r.item;
+        if (r.status === 'fulfilled') {
+          outcomes.set(user.id, { result: 'removed' });
+          removedUsers.push({
+            userId: user.id,
+            userEmail: user.profile.email,
+            userName: `${user.profile.firstName} ${user.profile.lastName}`,
+          });
+        } else {
+          const errText = r.error instanceof Error ? r.error.message : 'Unknown error';
+          outcomes.set(user.id, { result: 'failed', error: errText });
+          errorMessages.push(`Failed: ${user.profile.login} - ${errText}`);
+        }
+      }
+
+      if (removedUsers.length > 0) {
+        await logBulkRemoveAction(groupId, groupName, removedUsers, 'access_review');
+      }
+    } finally {
+      const attempted = [...outcomes.keys()];
+      if (attempted.length > 0) {
+        const failed = attempted.length - removedUsers.length;
+        const auditEntry: AuditLogEntry = {
+          id: crypto.randomUUID(),
+          timestamp: new Date(),
+          action: 'remove_users',
+          groupId,
+          groupName,
+          performedBy: currentUser.email,
+          affectedUsers: attempted,
+          result: failed === 0 ? 'success' : removedUsers.length === 0 ? 'failed' : 'partial',
+          details: {
+            usersSucceeded: removedUsers.length,
+            usersFailed: failed,
+            apiRequestCount: attempted.length,
+            durationMs: Date.now() - startTime,
+            errorMessages: errorMessages.length > 0 ? errorMessages : undefined,
+          },
+        };
+        auditStore.logOperation(auditEntry).catch((err) => {
+          log.error('Failed to log audit entry:', err);
+        });
+      }
+    }
+
+    return withRevocationOutcomes(campaign, outcomes, new Date());
+  };
+
+  /**
+   * Sign a campaign off as the signed-in admin and record it in the audit log.
+   *
+   * @param campaign - A campaign whose revocations have been applied.
+   * @returns The signed-off campaign.
+   * @throws Error when the campaign cannot be signed off yet.
+   */
+  const signOffAccessReview = async (
+    campaign: AccessReviewCampaign,
+  ): Promise<AccessReviewCampaign> => {
+    const currentUser = await coreApi.getCurrentUser();
+    const signed = signOffCampaign(campaign, currentUser.email, new Date());
+    const counts = reviewCounts(signed);
+    const revokedIds = signed.items
+      .filter((item) => item.decision === 'revoke')
+      .map((item) => item.user.id);
+
+    const auditEntry: AuditLogEntry = {
+      id: crypto.randomUUID(),
+      timestamp: signed.signedOffAt ?? new Date(),
+      action: 'access_review',
+      groupId: signed.groupId,
+      groupName: signed.groupName,
+      performedBy: currentUser.email,
+      affectedUsers: revokedIds,
+      result: 'success',
+      details: {
+        usersSucceeded: counts.total,
+        usersFailed: 0,
+        apiRequestCount: 0,
+        durationMs: (signed.signedOffAt ?? new Date()).getTime() - signed.createdAt.getTime(),
+        review: {
+          campaignId: signed.id,
+          kept: counts.keep,
+          revoked: counts.revoke,
+          ruleManaged: counts.ruleManagedRevokes,
+        },
+      },
+    };
+    auditStore.logOperation(auditEntry).catch((err) => {
+      log.error('Failed to log audit entry:', err);
+    });
+    return signed;
+  };
+
+  return {
+    startAccessReview,
+    applyAccessReviewRevocations,
+    signOffAccessReview,
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Tests for the administrator-role operations: the roles and target reads, the
+ * audited grant and revoke writes, and the admins report's walk — paging through
+ * the assignee envelope, listing a user who cannot be read rather than dropping
+ * them, and raising on cancel.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `irbFAKE…`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../shared/storage/auditStore', () => ({
+  auditStore: { logOperation: vi.fn().mockResolvedValue(undefined) },
+}));
+
+import { createAdminRoleOperations } from './adminRoles';
+import { makeFakeCore, sequentialRunOperation } from '@/test/factories/coreApi';
+import { OperationCancelledError } from '../../../shared/scheduler/cancellation';
+import { auditStore } from '../../../shared/storage/auditStore';
+
+const subject = { id: '00uFAKE1', login: 'jane@example.com', name: 'Jane Doe' };
+
+const user = (id: string, firstName: string) => ({
+  id,
+  status: 'ACTIVE',
+  profile: { login: `${id}@example.com`, email: `${id}@example.com`, firstName, lastName: 'Doe' },
+});
+
+beforeEach(() => {
+  vi.mocked(auditStore.logOperation).mockClear();
+});
+
+describe('getUserRoles and getRoleTargets', () => {
+  it('reads the roles and only reads targets for a targetable role', async () => {
+    const makeApiRequest = vi.fn(async (url: string) => {
+      if (url.endsWith('/roles')) {
+        return {
+          success: true,
+          data: [
+            { id: 'irbFAKE1', type: 'HELP_DESK_ADMIN', assignmentType: 'USER' },
+            { id: 'irbFAKE2', type: 'ORG_ADMIN', assignmentType: 'GROUP' },
+          ],
+          headers: {},
+        };
+      }
+      return {
+        success: true,
+        data: [{ id: '00gFAKE1', profile: { name: 'Support' } }],
+        headers: {},
+      };
+    });
+    const ops = createAdminRoleOperations(makeFakeCore({ makeApiRequest }));
+
+    const roles = await ops.getUserRoles('00uFAKE1');
+    expect(roles.map((r) => [r.type, r.revocable])).toEqual([
+      ['HELP_DESK_ADMIN', true],
+      ['ORG_ADMIN', false],
+    ]);
+
+    expect(await ops.getRoleTargets('00uFAKE1', roles[0])).toEqual({
+      kind: 'groups',
+      targets: [{ id: '00gFAKE1', name: 'Support' }],
+    });
+    expect(await ops.getRoleTargets('00uFAKE1', roles[1])).toBeNull();
+    expect(makeApiRequest).toHaveBeenCalledTimes(2);
+    expect(makeApiRequest.mock.calls[1][0]).toContain('/roles/irbFAKE1/targets/groups');
+  });
+
+  it('throws when the roles cannot be read', async () => {
+    const ops = createAdminRoleOperations(
+      makeFakeCore({ makeApiRequest: vi.fn().mockResolvedValue({ success: false, error: 'No' }) }),
+    );
+    await expect(ops.getUserRoles('00uFAKE1')).rejects.toThrow('No');
+  });
+});
+
+describe('grantUserRole and revokeUserRole', () => {
+  it('posts the type, returns the new role and audits the grant', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({
+      success: true,
+      data: { id: 'irbFAKE9', type: 'READ_ONLY_ADMIN', assignmentType: 'USER', status: 'ACTIVE' },
+    });
+    const ops = createAdminRoleOperations(makeFakeCore({ makeApiRequest }));
+
+    const result = await ops.grantUserRole(subject, 'READ_ONLY_ADMIN');
+
+    expect(makeApiRequest).toHaveBeenCalledWith('/api/v1/users/00uFAKE1/roles', 'POST', {
+      type: 'READ_ONLY_ADMIN',
+    });
+    expect(result).toMatchObject({ success: true, role: { assignmentId: 'irbFAKE9' } });
+    expect(auditStore.logOperation).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'grant_role',
+        groupId: '00uFAKE1',
+        result: 'success',
+        details: expect.objectContaining({
+          role: { type: 'READ_ONLY_ADMIN', assignmentId: 'irbFAKE9' },
+        }),
+      }),
+    );
+  });
+
+  it('audits a refused revoke as failed and returns the error', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({ success: false, error: 'Forbidden' });
+    const ops = createAdminRoleOperations(makeFakeCore({ makeApiRequest }));
+
+    const result = await ops.revokeUserRole(subject, {
+      assignmentId: 'irbFAKE1',
+      type: 'HELP_DESK_ADMIN',
+    });
+
+    expect(makeApiRequest).toHaveBeenCalledWith('/api/v1/users/00uFAKE1/roles/irbFAKE1', 'DELETE');
+    expect(result).toEqual({ success: false, error: 'Forbidden' });
+    expect(auditStore.logOperation).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'revoke_role',
+        result: 'failed',
+        details: expect.objectContaining({ errorMessages: ['Forbidden'] }),
+      }),
+    );
+  });
+});
+
+describe('getAdminsReport', () => {
+  const routes = vi.fn(async (url: string) => {
+    if (url.startsWith('/api/v1/iam/assignees/users?limit')) {
+      return {
+        success: true,
+        data: {
+          value: [{ id: '00uFAKE1' }],
+          _links: {
+            next: { href: 'https://example.okta.com/api/v1/iam/assignees/users?after=00uFAKE1' },
+          },
+        },
+      };
+    }
+    if (url.includes('after=00uFAKE1')) {
+      return { success: true, data: { value: [{ id: '00uFAKE2' }], _links: {} } };
+    }
+    if (url === '/api/v1/users/00uFAKE1') return { success: true, data: user('00uFAKE1', 'Ann') };
+    if (url === '/api/v1/users/00uFAKE1/roles') {
+      return { success: true, data: [{ id: 'irbFAKE1', type: 'ORG_ADMIN' }] };
+    }
+    return { success: false, error: 'Not found' };
+  });
+
+  it('pages the assignees and lists a user who could not be read', async () => {
+    const ops = createAdminRoleOperations(
+      makeFakeCore({ makeApiRequest: routes, runOperation: sequentialRunOperation() }),
+    );
+
+    const report = await ops.getAdminsReport();
+
+    expect(report.adminCount).toBe(2);
+    expect(report.rows).toEqual([
+      expect.objectContaining({
+        userId: '00uFAKE1',
+        name: 'Ann Doe',
+        roleType: 'ORG_ADMIN',
+        roleLabel: 'Organization Administrator',
+      }),
+    ]);
+    expect(report.unreadable).toEqual([{ userId: '00uFAKE2', error: 'Not found' }]);
+  });
+
+  it('raises OperationCancelledError when the walk is cancelled', async () => {
+    const runOperation = vi.fn().mockResolvedValue({ results: [], cancelled: true });
+    const ops = createAdminRoleOperations(makeFakeCore({ makeApiRequest: routes, runOperation }));
+
+    await expect(ops.getAdminsReport()).rejects.toBeInstanceOf(OperationCancelledError);
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * @module hooks/useOktaApi/adminRoles
+ * @description Administrator roles: the roles a user holds and what each is
+ * scoped to, the grant and revoke writes, and the org-wide admins report. The
+ * rows themselves are shaped by `shared/adminRoles/adminRoles`.
+ *
+ * Grant and revoke each write an audit entry (`grant_role` / `revoke_role`),
+ * success or failure, naming the user and the role. Recording them in the undo
+ * history is the caller's job, as it is for a suspend: the caller knows the
+ * scope the role had, which decides whether a revoke can be undone.
+ *
+ * The report walks `GET /api/v1/iam/assignees/users` — every user holding a role,
+ * directly or through a group — then reads each user and their roles under
+ * {@link CoreApi.runOperation} at `low` priority. A user who cannot be read is
+ * listed in `unreadable`, never dropped.
+ */
+
+import type { CoreApi } from './core';
+import type { AuditLogEntry } from '../../../shared/types';
+import {
+  oktaGroupListItemSchema,
+  oktaRoleAssigneeSchema,
+  oktaRoleAssignmentSchema,
+  oktaRoleTargetAppSchema,
+  oktaUserSchema,
+  parseOkta,
+  parseOktaList,
+  type OktaGroupListItem,
+  type OktaRoleTargetApp,
+} from '@/shared/schemas/okta';
+import { fetchAllPages, OKTA_PAGE_SIZE } from '@/shared/utils/oktaPagination';
+import {
+  adminReportRows,
+  roleTargetKind,
+  toUserAdminRole,
+  type AdminReportRow,
+  type AdminsReport,
+  type RoleTargets,
+  type UnreadableAdmin,
+  type UserAdminRole,
+} from '../../../shared/adminRoles/adminRoles';
+import { OperationCancelledError } from '../../../shared/scheduler/cancellation';
+import { auditStore } from '../../../shared/storage/auditStore';
+import { createLogger } from '../../../shared/utils/logger';
+
+const log = createLogger('useOktaApi');
+
+/** Pages of the role-assignee listing read before the walk gives up. */
+const MAX_ASSIGNEE_PAGES = 50;
+
+/** The user a grant or revoke is written to, as the audit entry names them. */
+export interface AdminRoleSubject {
+  id: string;
+  login: string;
+  name: string;
+}
+
+/** Outcome of a grant. */
+export type GrantRoleResult =
+  { success: true; role: UserAdminRole } | { success: false; error: string };
+
+/** The message of an unknown rejection. */
+const errorText = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+/** The origin-relative path of a `_links.next.href`, or `null` when there is none. */
+function nextLinkPath(data: unknown): string | null {
+  const links = (data as { _links?: { next?: { href?: unknown } } } | null)?._links;
+  const href = links?.next?.href;
+  if (typeof href !== 'string' || !href) return null;
+  const url = new URL(href, 'https://okta.invalid');
+  return `${url.pathname}${url.search}`;
+}
+
+/**
+ * Build the administrator-role operations.
+ *
+ * @param coreApi - Shared transport surface (see {@link CoreApi}).
+ * @returns `{ getUserRoles, getRoleTargets, grantUserRole, revokeUserRole, getAdminsReport }`.
+ */
+export function createAdminRoleOperations(coreApi: CoreApi) {
+  const rolesPath = (userId: string) => `/api/v1/users/${encodeURIComponent(userId)}/roles`;
+
+  /** Record a grant or revoke in the audit trail; never throws. */
+  const audit = async (
+    action: 'grant_role' | 'revoke_role',
+    user: AdminRoleSubject,
+    role: { type: string; assignmentId: string },
+    startTime: number,
+    result: AuditLogEntry['result'],
+    error?: string,
+  ): Promise<void> => {
+    const currentUser = await coreApi.getCurrentUser();
+    const entry: AuditLogEntry = {
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      action,
+      // The audit trail is keyed on groups; a user write records the user there,
+      // as the export audit records its descriptor.
+      groupId: user.id,
+      groupName: user.name,
+      performedBy: currentUser.email,
+      affectedUsers: [user.id],
+      result,
+      details: {
+        usersSucceeded: result === 'failed' ? 0 : 1,
+        usersFailed: result === 'failed' ? 1 : 0,
+        apiRequestCount: 1,
+        durationMs: Date.now() - startTime,
+        role,
+        ...(error ? { errorMessages: [error] } : {}),
+      },
+    };
+    auditStore.logOperation(entry).catch((err) => {
+      log.error('Failed to log audit entry:', err);
+    });
+  };
+
+  /**
+   * Read the roles a user holds.
+   *
+   * @param userId - The user.
+   * @param priority - Scheduler priority; the report reads at `low`.
+   * @returns The roles, direct and group-held.
+   * @throws Error when the read fails.
+   */
+  const getUserRoles = async (userId: string, priority?: 'low'): Promise<UserAdminRole[]> => {
+    const response = await coreApi.makeApiRequest(rolesPath(userId), 'GET', undefined, priority);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to read admin roles');
+    }
+    return parseOktaList(
+      oktaRoleAssignmentSchema,
+      response.data,
+      'GET /api/v1/users/{id}/roles',
+    ).map(toUserAdminRole);
+  };
+
+  /**
+   * Read what one role is scoped to.
+   *
+   * @param userId - The role holder.
+   * @param role - The role, by assignment id and type.
+   * @returns The targets, or `null` for a role that is always org-wide.
+   * @throws Error when a page of targets cannot be read.
+   */
+  const getRoleTargets = async (
+    userId: string,
+    role: Pick<UserAdminRole, 'assignmentId' | 'type'>,
+  ): Promise<RoleTargets | null> => {
+    const kind = roleTargetKind(role.type);
+    if (!kind) return null;
+
+    const base = `${rolesPath(userId)}/${encodeURIComponent(role.assignmentId)}/targets`;
+    const request = (url: string) => coreApi.makeApiRequest(url);
+
+    if (kind === 'groups') {
+      const groups = await fetchAllPages<OktaGroupListItem>(
+        request,
+        `${base}/groups?limit=${OKTA_PAGE_SIZE}`,
+        {
+          schema: oktaGroupListItemSchema,
+          context: 'GET /api/v1/users/{id}/roles/{id}/targets/groups',
+          errorMessage: 'Failed to read role targets',
+        },
+      );
+      return {
+        kind,
+        targets: groups.map((group) => ({ id: group.id, name: group.profile?.name ?? group.id })),
+      };
+    }
+
+    const apps = await fetchAllPages<OktaRoleTargetApp>(
+      request,
+      `${base}/catalog/apps?limit=${OKTA_PAGE_SIZE}`,
+      {
+        schema: oktaRoleTargetAppSchema,
+        context: 'GET /api/v1/users/{id}/roles/{id}/targets/catalog/apps',
+        errorMessage: 'Failed to read role targets',
+      },
+    );
+    return {
+      kind,
+      targets: apps.map((app) => ({
+        id: app.id ?? app.name,
+        name: app.label ?? app.displayName ?? app.name,
+      })),
+    };
+  };
+
+  /**
+   * Grant a standard role to a user, org-wide. Audited.
+   *
+   * @param user - The user written to.
+   * @param type - The role type, e.g. `HELP_DESK_ADMIN`.
+   * @returns The new role, or Okta's refusal.
+   */
+  const grantUserRole = async (user: AdminRoleSubject, type: string): Promise<GrantRoleResult> => {
+    const startTime = Date.now();
+    const response = await coreApi.makeApiRequest(rolesPath(user.id), 'POST', { type });
+    const parsed = response.success ? oktaRoleAssignmentSchema.safeParse(response.data) : null;
+
+    if (!parsed?.success) {
+      const error = response.success
+        ? 'The role was granted but Okta did not return it; reload the roles.'
+        : response.error || 'The role could not be granted.';
+      // A grant Okta accepted but did not echo is recorded as `partial`: the role
+      // is most likely held, but nothing here can name the assignment.
+      const result = response.success ? 'partial' : 'failed';
+      await audit('grant_role', user, { type, assignmentId: '' }, startTime, result, error);
+      log.warn('Role grant did not succeed', { userId: user.id, type });
+      return { success: false, error };
+    }
+
+    const role = toUserAdminRole(parsed.data);
+    await audit(
+      'grant_role',
+      user,
+      { type, assignmentId: role.assignmentId },
+      startTime,
+      'success',
+    );
+    return { success: true, role };
+  };
+
+  /**
+   * Revoke a directly held role from a user. Audited.
+   *
+   * @param user - The user written to.
+   * @param role - The role, by assignment id and type.
+   * @returns Whether Okta accepted the revoke.
+   */
+  const revokeUserRole = async (
+    user: AdminRoleSubject,
+    role: Pick<UserAdminRole, 'assignmentId' | 'type'>,
+  ): Promise<{ success: boolean; error?: string }> => {
+    const startTime = Date.now();
+    const response = await coreApi.makeApiRequest(
+      `${rolesPath(user.id)}/${encodeURIComponent(role.assignmentId)}`,
+      'DELETE',
+    );
+    const roleRef = { type: role.type, assignmentId: role.assignmentId };
+
+    if (!response.success) {
+      const error = response.error || 'The role could not be revoked.';
+      await audit('revoke_role', user, roleRef, startTime, 'failed', error);
+      log.warn('Role revoke did not succeed', { userId: user.id, type: role.type });
+      return { success: false, error };
+    }
+
+    await audit('revoke_role', user, roleRef, startTime, 'success');
+    return { success: true };
+  };
+
+  /** Every user id the role-assignee listing names. Throws on a failed page. */
+  const listRoleAssignees = async (): Promise<string[]> => {
+    const ids: string[] = [];
+    let url: string | null = `/api/v1/iam/assignees/users?limit=${OKTA_PAGE_SIZE}`;
+
+    for (let page = 0; url && page < MAX_ASSIGNEE_PAGES; page++) {
+      const response = await coreApi.makeApiRequest(url, 'GET', undefined, 'low');
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to list administrators');
+      }
+      // Unlike most listings this one is an envelope, `{ value, _links }`, and
+      // pages through the body's `next` link rather than a `Link` header.
+      const body = response.data as { value?: unknown } | null;
+      const rows = parseOktaList(
+        oktaRoleAssigneeSchema,
+        body?.value ?? [],
+        'GET /api/v1/iam/assignees/users',
+      );
+      ids.push(...rows.map((row) => row.id));
+
+      const next = nextLinkPath(response.data);
+      url = rows.length > 0 && next !== url ? next : null;
+    }
+    return ids;
+  };
+
+  /** One role holder's report rows. Throws when the user or their roles cannot be read. */
+  const readAdmin = async (userId: string): Promise<AdminReportRow[]> => {
+    const response = await coreApi.makeApiRequest(
+      `/api/v1/users/${encodeURIComponent(userId)}`,
+      'GET',
+      undefined,
+      'low',
+    );
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to read user');
+    }
+    const user = parseOkta(oktaUserSchema, response.data, 'GET /api/v1/users/{id}');
+    const roles = await getUserRoles(userId, 'low');
+    const name = `${user.profile.firstName ?? ''} ${user.profile.lastName ?? ''}`.trim();
+    return adminReportRows(
+      {
+        id: user.id,
+        login: user.profile.login,
+        name: name || user.profile.login,
+        status: user.status,
+      },
+      roles,
+    );
+  };
+
+  /**
+   * Read every administrator in the org and the roles they hold.
+   *
+   * @returns The report; users who could not be read are listed, not thrown.
+   * @throws Error when the assignee listing itself cannot be read.
+   * @throws OperationCancelledError when the admin cancels the walk.
+   */
+  const getAdminsReport = async (): Promise<AdminsReport> => {
+    const userIds = await listRoleAssignees();
+    const rows: AdminReportRow[] = [];
+    const unreadable: UnreadableAdmin[] = [];
+
+    if (userIds.length > 0) {
+      const outcome = await coreApi.runOperation('Admins report', userIds, readAdmin, {
+        message: (p) => `Reading administrators (${p.completed}/${p.total})`,
+      });
+      if (outcome.cancelled) throw new OperationCancelledError();
+
+      for (const result of outcome.results) {
+        if (result.status === 'fulfilled' && result.value) {
+          rows.push(...result.value);
+        } else if (result.status === 'rejected') {
+          unreadable.push({
+            userId: result.item,
+            error: errorText(result.error, 'Failed to read administrator'),
+          });
+        }
+      }
+      if (unreadable.length > 0) {
+        // Counts only — logins are tenant data.
+        log.warn('Some administrators could not be read', { count: unreadable.length });
+      }
+    }
+
+    return {
+      rows,
+      readAt: new Date().toISOString(),
+      adminCount: userIds.length,
+      unreadable,
+    };
+  };
+
+  return {
+    getUserRoles,
+    getRoleTargets,
+    grantUserRole,
+    revokeUserRole,
+    getAdminsReport,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Tests for the API Console operation: the scheduler priority passed through,
+ * the next page read from the `Link` header, the audit entry a write (and only
+ * a write) leaves, and the refusal of anything outside `/api/v1`.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../shared/storage/auditStore', () => ({
+  auditStore: { logOperation: vi.fn().mockResolvedValue(undefined) },
+}));
+
+import { createApiConsoleOperations } from './apiConsole';
+import { makeFakeCore } from '@/test/factories/coreApi';
+import { auditStore } from '../../../shared/storage/auditStore';
+
+const NEXT_LINK =
+  '<https://example.okta.com/api/v1/users?after=00uFAKE2&limit=2>; rel="next", ' +
+  '<https://example.okta.com/api/v1/users?limit=2>; rel="self"';
+
+beforeEach(() => {
+  vi.mocked(auditStore.logOperation).mockClear();
+});
+
+describe('sendConsoleRequest', () => {
+  it('sends a GET at the chosen priority and reads the next page from the Link header', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({
+      success: true,
+      status: 200,
+      data: [{ id: '00uFAKE1' }, { id: '00uFAKE2' }],
+      headers: { link: NEXT_LINK },
+    });
+    const ops = createApiConsoleOperations(makeFakeCore({ makeApiRequest }));
+
+    const response = await ops.sendConsoleRequest({
+      method: 'GET',
+      path: '/api/v1/users?limit=2',
+      body: { ignored: true },
+      priority: 'low',
+    });
+
+    expect(makeApiRequest).toHaveBeenCalledWith('/api/v1/users?limit=2', 'GET', undefined, 'low');
+    expect(response).toMatchObject({
+      ok: true,
+      status: 200,
+      nextPath: '/api/v1/users?after=00uFAKE2&limit=2',
+    });
+    expect(auditStore.logOperation).not.toHaveBeenCalled();
+  });
+
+  it('audits a write with its method, path and status, not its body or query', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({
+      success: false,
+      status: 403,
+      data: null,
+      error: 'You do not have permission',
+      headers: {},
+    });
+    const ops = createApiConsoleOperations(makeFakeCore({ makeApiRequest }));
+
+    const response = await ops.sendConsoleRequest({
+      method: 'POST',
+      path: '/api/v1/users/00uFAKE1/lifecycle/suspend?x=1',
+      body: { secret: 'do-not-log' },
+      priority: 'normal',
+    });
+
+    expect(response).toMatchObject({ ok: false, status: 403, nextPath: null });
+    expect(makeApiRequest).toHaveBeenCalledWith(
+      '/api/v1/users/00uFAKE1/lifecycle/suspend?x=1',
+      'POST',
+      { secret: 'do-not-log' },
+      'normal',
+    );
+    expect(auditStore.logOperation).toHaveBeenCalledTimes(1);
+    const entry = vi.mocked(auditStore.logOperation).mock.calls[0][0];
+    expect(entry).toMatchObject({
+      action: 'api_request',
+      groupId: '/api/v1/users/00uFAKE1/lifecycle/suspend',
+      groupName: 'POST /api/v1/users/00uFAKE1/lifecycle/suspend',
+      result: 'failed',
+      details: {
+        request: {
+          method: 'POST',
+          path: '/api/v1/users/00uFAKE1/lifecycle/suspend',
+          queryParamCount: 1,
+          status: 403,
+        },
+      },
+    });
+    expect(JSON.stringify(entry)).not.toContain('do-not-log');
+    expect(JSON.stringify(entry)).not.toContain('x=1');
+  });
+
+  it('refuses a path outside /api/v1 without sending it', async () => {
+    const makeApiRequest = vi.fn();
+    const ops = createApiConsoleOperations(makeFakeCore({ makeApiRequest }));
+
+    await expect(
+      ops.sendConsoleRequest({ method: 'DELETE', path: '/oauth2/v1/token', priority: 'high' }),
+    ).rejects.toThrow('Only /api/v1 paths');
+    expect(makeApiRequest).not.toHaveBeenCalled();
+    expect(auditStore.logOperation).not.toHaveBeenCalled();
+  });
+
+  it('answers a transport failure instead of throwing', async () => {
+    const makeApiRequest = vi.fn().mockRejectedValue(new Error('Tab closed'));
+    const ops = createApiConsoleOperations(makeFakeCore({ makeApiRequest }));
+
+    const response = await ops.sendConsoleRequest({
+      method: 'GET',
+      path: '/api/v1/users/me',
+      priority: 'normal',
+    });
+    expect(response).toMatchObject({ ok: false, status: null, error: 'Tab closed' });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @module hooks/useOktaApi/apiConsole
+ * @description The API Console's one operation: send a request the admin wrote,
+ * through the scheduler at the priority they chose.
+ *
+ * The path and method are checked again here, not only in the form — this is
+ * the last step before the authenticated session is used, so a caller that
+ * skipped the form still cannot leave `/api/v1` or send an unlisted method (see
+ * `shared/apiConsole/apiConsole`). A write, sent or refused by Okta, leaves an
+ * `api_request` audit entry carrying the method, path and status; the body and
+ * the response are never recorded or logged. Neither is the query string — a
+ * `search=` or `filter=` can carry names and emails, and the trail is kept
+ * indefinitely — only how many parameters it had.
+ *
+ * The next page of a list is the `Link` header's `rel="next"`, read with
+ * `nextPageUrl` so an endpoint that hands back a non-advancing link cannot page
+ * forever.
+ */
+
+import type { CoreApi } from './core';
+import type { AuditLogEntry } from '../../../shared/types';
+import type { RequestPriority } from '../../../shared/scheduler/types';
+import {
+  API_CONSOLE_METHODS,
+  isConsoleWrite,
+  resolveConsolePath,
+  type ApiConsoleMethod,
+} from '../../../shared/apiConsole/apiConsole';
+import { nextPageUrl } from '@/shared/utils/oktaPagination';
+import { auditStore } from '../../../shared/storage/auditStore';
+import { createLogger } from '../../../shared/utils/logger';
+
+const log = createLogger('apiConsole');
+
+/** One request as the console sends it. */
+export interface ApiConsoleRequest {
+  method: ApiConsoleMethod;
+  /** An origin-relative `/api/v1` path, query included. */
+  path: string;
+  /** The JSON body; ignored for `GET`. */
+  body?: unknown;
+  priority: Exclude<RequestPriority, 'interactive'>;
+}
+
+/** What came back. */
+export interface ApiConsoleResponse {
+  /** Whether Okta answered with a success status. */
+  ok: boolean;
+  /** The HTTP status, or `null` when none came back (e.g. the tab went away). */
+  status: number | null;
+  /** The response body; `null` when there was none. */
+  data: unknown;
+  /** The error Okta or the transport gave, when `ok` is false. */
+  error: string | null;
+  /** The next page of a list, or `null` when this was the last. */
+  nextPath: string | null;
+  /** How long the request took, scheduler queue included. */
+  durationMs: number;
+}
+
+/**
+ * Build the API Console operations.
+ *
+ * @param coreApi - Shared transport surface (see {@link CoreApi}).
+ * @returns `{ sendConsoleRequest }`.
+ */
+export function createApiConsoleOperations(coreApi: CoreApi) {
+  /** Record a write in the audit trail, without its query string; never throws. */
+  const audit = async (request: ApiConsoleRequest, response: ApiConsoleResponse): Promise<void> => {
+    try {
+      const currentUser = await coreApi.getCurrentUser();
+      const [path, query = ''] = request.path.split('?', 2);
+      const queryParamCount = query.split('&').filter(Boolean).length;
+      const entry: AuditLogEntry = {
+        id: crypto.randomUUID(),
+        timestamp: new Date(),
+        action: 'api_request',
+        // The audit trail is keyed on groups; a console write records its
+        // request there, as the export audit records its descriptor.
+        groupId: path,
+        groupName: `${request.method} ${path}`,
+        performedBy: currentUser.email,
+        affectedUsers: [],
+        result: response.ok ? 'success' : 'failed',
+        details: {
+          usersSucceeded: 0,
+          usersFailed: 0,
+          apiRequestCount: 1,
+          durationMs: response.durationMs,
+          request: { method: request.method, path, queryParamCount, status: response.status },
+          ...(response.error ? { errorMessages: [response.error] } : {}),
+        },
+      };
+      await auditStore.logOperation(entry);
+    } catch (err) {
+      log.error('Failed to log audit entry:', err);
+    }
+  };
+
+  /**
+   * Send one request.
+   *
+   * @param request - See {@link ApiConsoleRequest}.
+   * @returns Okta's answer; a refusal by Okta is an answer, not a throw.
+   * @throws Error when the path or method is not one the console may send.
+   */
+  const sendConsoleRequest = async (request: ApiConsoleRequest): Promise<ApiConsoleResponse> => {
+    const path = resolveConsolePath(request.path, null);
+    if (!path.ok) throw new Error(path.error);
+    if (!API_CONSOLE_METHODS.includes(request.method)) {
+      throw new Error(`${request.method} is not a method the console sends.`);
+    }
+
+    const write = isConsoleWrite(request.method);
+    const startTime = Date.now();
+    let response: ApiConsoleResponse;
+    try {
+      const result = await coreApi.makeApiRequest(
+        path.value,
+        request.method,
+        write ? request.body : undefined,
+        request.priority,
+      );
+      const data: unknown = result.data ?? null;
+      response = {
+        ok: result.success,
+        status: result.status ?? null,
+        data,
+        error: result.success ? null : result.error || 'Request failed',
+        nextPath:
+          result.success && request.method === 'GET' && Array.isArray(data)
+            ? nextPageUrl(path.value, result.headers?.link, data.length)
+            : null,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (err) {
+      response = {
+        ok: false,
+        status: null,
+        data: null,
+        error: err instanceof Error ? err.message : 'Request failed',
+        nextPath: null,
+        durationMs: Date.now() - startTime,
+      };
+    }
+
+    log.info('Console request', {
+      method: request.method,
+      path: path.value.split('?')[0],
+      status: response.status,
+    });
+    if (write) await audit({ ...request, path: path.value }, response);
+    return response;
+  };
+
+  return { sendConsoleRequest };
+}
@@ -0,0 +1,200 @@
+/**
+ * Tests for the bulk lifecycle operations: reading the targets from each source,
+ * and the apply pass — one POST and one audit entry per user, History entries for
+ * suspend and unsuspend only, and a halt at the first 403.
+ *
+ * `runOperation` drives the real `runBatch` so `stopOnError` and skipped items behave
+ * as they do in the panel.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../shared/storage/auditStore', () => ({
+  auditStore: { logOperation: vi.fn().mockResolvedValue(undefined) },
+}));
+vi.mock('../../../shared/undoManager', () => ({
+  logUserStatusAction: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { createBulkLifecycleOperations, type BulkLifecycleDependencies } from './bulkLifecycle';
+import { makeBatchCore } from '@/test/factories/coreApi';
+import { auditStore } from '../../../shared/storage/auditStore';
+import { logUserStatusAction } from '../../../shared/undoManager';
+import { planBulkLifecycle, type LifecycleSubject } from '../../components/users/bulkLifecyclePlan';
+import type { ImportCandidate } from '../../../shared/membership/importPlan';
+import type { OktaUser } from '../../../shared/types';
+
+function candidate(id: string, login: string, status = 'ACTIVE'): ImportCandidate {
+  return { id, login, email: login, firstName: 'Fake', lastName: id, status };
+}
+
+function oktaUser(id: string, login: string, status = 'ACTIVE'): OktaUser {
+  return {
+    id,
+    status,
+    profile: { login, email: login, firstName: 'Fake', lastName: id },
+  } as OktaUser;
+}
+
+const ada = candidate('00uFAKE1', 'ada@example.com');
+const alan = candidate('00uFAKE2000000000000', 'alan@example.com', 'SUSPENDED');
+
+function makeDeps(overrides: Partial<BulkLifecycleDependencies> = {}): BulkLifecycleDependencies {
+  const byKey = new Map<string, ImportCandidate>([
+    [ada.id, ada],
+    [encodeURIComponent(ada.login), ada],
+    [alan.id, alan],
+  ]);
+  return {
+    getUserById: vi.fn(async (key: string) => byKey.get(key) ?? null),
+    searchUsers: vi.fn().mockResolvedValue([]),
+    getAllGroupMembers: vi.fn().mockResolvedValue([]),
+    ...overrides,
+  };
+}
+
+function subjectOf(user: ImportCandidate): LifecycleSubject {
+  return { id: user.id, login: user.login, name: `Fake ${user.lastName}`, status: user.status };
+}
+
+beforeEach(() => {
+  vi.mocked(auditStore.logOperation).mockClear();
+  vi.mocked(logUserStatusAction).mockClear();
+});
+
+describe('resolveLifecycleTargets', () => {
+  it('resolves a pasted list by id and login, keeping what matched no one', async () => {
+    const ops = createBulkLifecycleOperations(makeBatchCore(), makeDeps());
+
+    const set = await ops.resolveLifecycleTargets({
+      kind: 'list',
+      text: 'ada@example.com\n00uFAKE2000000000000\nnobody@example.com',
+    });
+
+    expect(set.sourceLabel).toBe('3 listed users');
+    expect(set.currentUserId).toBe('admin');
+    expect(set.targets.map((t) => t.user?.id ?? null)).toEqual([
+      '00uFAKE1',
+      '00uFAKE2000000000000',
+      null,
+    ]);
+  });
+
+  it('reads every member of a group', async () => {
+    const getAllGroupMembers = vi
+      .fn()
+      .mockResolvedValue([oktaUser('00uFAKE1', 'ada@example.com', 'STAGED')]);
+    const ops = createBulkLifecycleOperations(makeBatchCore(), makeDeps({ getAllGroupMembers }));
+
+    const set = await ops.resolveLifecycleTargets({
+      kind: 'group',
+      groupId: '00gFAKE1',
+      groupName: 'Contractors',
+    });
+
+    expect(getAllGroupMembers).toHaveBeenCalledWith('00gFAKE1');
+    expect(set.sourceLabel).toBe('Members of Contractors');
+    expect(set.targets[0].user).toMatchObject({ id: '00uFAKE1', status: 'STAGED' });
+  });
+
+  it('reads every user matching a search expression', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({
+      success: true,
+      data: [oktaUser('00uFAKE1', 'ada@example.com')],
+      headers: {},
+    });
+    const ops = createBulkLifecycleOperations(makeBatchCore({ makeApiRequest }), makeDeps());
+
+    const set = await ops.resolveLifecycleTargets({
+      kind: 'search',
+      expression: ' status eq "ACTIVE" ',
+    });
+
+    expect(makeApiRequest.mock.calls[0][0]).toBe(
+      `/api/v1/users?limit=200&search=${encodeURIComponent('status eq "ACTIVE"')}`,
+    );
+    expect(set.sourceLabel).toBe('Users matching status eq "ACTIVE"');
+    expect(set.targets).toHaveLength(1);
+  });
+});
+
+describe('applyBulkLifecycle', () => {
+  const plan = (action: 'suspend' | 'deactivate', currentUserId: string | null = 'admin') =>
+    planBulkLifecycle(action, {
+      sourceLabel: 'Test',
+      targets: [subjectOf(ada), subjectOf(candidate('00uFAKE3', 'grace@example.com'))].map(
+        (user) => ({ key: user.login, user }),
+      ),
+      currentUserId,
+    });
+
+  it('posts the action per user, audits each, and records suspends in History', async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockResolvedValueOnce({ success: true })
+      .mockResolvedValueOnce({ success: false, status: 400, error: 'Bad state' });
+    const ops = createBulkLifecycleOperations(makeBatchCore({ makeApiRequest }), makeDeps());
+
+    const result = await ops.applyBulkLifecycle(plan('suspend'));
+
+    expect(makeApiRequest).toHaveBeenCalledWith('/api/v1/users/00uFAKE1/lifecycle/suspend', 'POST');
+    expect(result).toMatchObject({ done: 1, failed: 1, notSent: 0, cancelled: false });
+    expect(result.outcomes.get('00uFAKE3')).toEqual({ result: 'failed', error: 'Bad state' });
+
+    const entries = vi.mocked(auditStore.logOperation).mock.calls.map(([entry]) => entry);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      action: 'user_lifecycle',
+      groupId: '00uFAKE1',
+      result: 'success',
+      details: { lifecycle: { action: 'suspend', fromStatus: 'ACTIVE' } },
+    });
+    expect(entries[1]).toMatchObject({
+      result: 'failed',
+      details: { errorMessages: ['Bad state'] },
+    });
+
+    expect(logUserStatusAction).toHaveBeenCalledTimes(1);
+    expect(logUserStatusAction).toHaveBeenCalledWith(
+      'suspend',
+      '00uFAKE1',
+      'ada@example.com',
+      'Fake 00uFAKE1',
+    );
+  });
+
+  it('records no History entry for an action History cannot undo', async () => {
+    const ops = createBulkLifecycleOperations(makeBatchCore(), makeDeps());
+
+    const result = await ops.applyBulkLifecycle(plan('deactivate'));
+
+    expect(result.done).toBe(2);
+    expect(logUserStatusAction).not.toHaveBeenCalled();
+    expect(auditStore.logOperation).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops at the first 403 and reports the rest as not sent', async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockResolvedValue({ success: false, status: 403, error: 'Forbidden' });
+    const ops = createBulkLifecycleOperations(makeBatchCore({ makeApiRequest }), makeDeps());
+
+    const result = await ops.applyBulkLifecycle(plan('suspend'));
+
+    expect(makeApiRequest).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ done: 0, failed: 1, notSent: 1 });
+    expect(result.outcomes.get('00uFAKE3')).toEqual({ result: 'not-sent' });
+  });
+
+  it('refuses to suspend anyone when the signed-in admin could not be read', async () => {
+    const makeApiRequest = vi.fn();
+    const ops = createBulkLifecycleOperations(makeBatchCore({ makeApiRequest }), makeDeps());
+
+    await expect(ops.applyBulkLifecycle(plan('suspend', null))).rejects.toThrow(
+      'Your own Okta account could not be read',
+    );
+    expect(makeApiRequest).not.toHaveBeenCalled();
+    expect(auditStore.logOperation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * @module hooks/useOktaApi/bulkLifecycle
+ * @description The bulk lifecycle console: read a target list, then run one
+ * lifecycle action across it.
+ *
+ * The read ({@link resolveLifecycleTargets}) takes the targets from one of three
+ * sources and sends no writes:
+ *
+ * - **list** — a pasted or uploaded CSV of ids, logins or emails, resolved one by
+ *   one as the group import resolves them (`shared/membership/importPlan`);
+ * - **group** — every member of one group;
+ * - **search** — every user matching an Okta `search` expression, typed or taken
+ *   from a saved Users export filter.
+ *
+ * `components/users/bulkLifecyclePlan` then decides, from each user's status,
+ * who the action changes and who it skips.
+ *
+ * The apply pass ({@link applyBulkLifecycle}) sends the action to the plan's
+ * change users under {@link CoreApi.runOperation} and stops at the first 403.
+ * Every user sent gets their own `user_lifecycle` audit entry, success or
+ * failure. A suspend or unsuspend also gets its own `SUSPEND_USER` /
+ * `UNSUSPEND_USER` History entry, undoable on its own as the one-user verbs are;
+ * the other actions have no lifecycle call that takes them back.
+ *
+ * Logging: user ids, counts and outcomes only.
+ */
+
+import type { CoreApi } from './core';
+import type { AuditLogEntry, OktaUser } from '../../../shared/types';
+import { oktaUserListItemSchema } from '@/shared/schemas/okta';
+import { auditStore } from '../../../shared/storage/auditStore';
+import { WriteRejectedError } from '../../../shared/storage/operationJournal';
+import { logUserStatusAction } from '../../../shared/undoManager';
+import {
+  exactMatches,
+  looksLikeUserId,
+  parseImportIdentifiers,
+  type ImportCandidate,
+} from '../../../shared/membership/importPlan';
+import { fetchAllPages, OKTA_PAGE_SIZE } from '../../../shared/utils/oktaPagination';
+import { userDisplayName } from '../../../shared/utils/userDisplay';
+import { createLogger } from '../../../shared/utils/logger';
+import {
+  LIFECYCLE_ACTIONS,
+  type BulkLifecycleOutcome,
+  type BulkLifecyclePlan,
+  type LifecycleSubject,
+  type LifecycleTarget,
+  type LifecycleTargetSet,
+} from '../../components/users/bulkLifecyclePlan';
+
+const log = createLogger('useOktaApi');
+
+/** Where the console reads its targets from. */
+export type BulkLifecycleSource =
+  | { kind: 'list'; text: string }
+  | { kind: 'group'; groupId: string; groupName: string }
+  | { kind: 'search'; expression: string };
+
+/** The apply pass's result. */
+export interface BulkLifecycleResult {
+  /** Outcome per change user id. */
+  outcomes: Map<string, BulkLifecycleOutcome>;
+  done: number;
+  failed: number;
+  /** Change users never sent because the run was cancelled or halted. */
+  notSent: number;
+  cancelled: boolean;
+}
+
+/** The reads the targets are resolved with. */
+export interface BulkLifecycleDependencies {
+  getUserById: (idOrLogin: string) => Promise<ImportCandidate | null>;
+  searchUsers: (query: string) => Promise<ImportCandidate[]>;
+  getAllGroupMembers: (groupId: string) => Promise<OktaUser[]>;
+}
+
+/** A resolved list row as the plan sees it. */
+function fromCandidate(candidate: ImportCandidate): LifecycleSubject {
+  const name = `${candidate.firstName} ${candidate.lastName}`.trim();
+  return {
+    id: candidate.id,
+    login: candidate.login,
+    name: name || candidate.login,
+    status: candidate.status,
+  };
+}
+
+/** A group member or search hit as the plan sees it. */
+function fromUser(user: OktaUser): LifecycleSubject {
+  return {
+    id: user.id,
+    login: user.profile.login,
+    name: userDisplayName(user),
+    status: user.status,
+  };
+}
+
+/**
+ * Build the bulk lifecycle operations.
+ *
+ * @param coreApi - Shared transport surface (see {@link CoreApi}).
+ * @param deps - The user lookups and the member read.
+ * @returns `{ resolveLifecycleTargets, applyBulkLifecycle }`.
+ */
+export function createBulkLifecycleOperations(coreApi: CoreApi, deps: BulkLifecycleDependencies) {
+  /** Resolve one list identifier, in the group import's order of lookups. */
+  const resolveIdentifier = async (value: string): Promise<LifecycleTarget> => {
+    const direct = await deps.getUserById(encodeURIComponent(value));
+    if (direct && (looksLikeUserId(value) || exactMatches(value, [direct]).length > 0)) {
+      return { key: value, user: fromCandidate(direct) };
+    }
+    if (looksLikeUserId(value)) return { key: value, user: null };
+
+    const matches = exactMatches(value, await deps.searchUsers(value));
+    if (matches.length === 1) return { key: value, user: fromCandidate(matches[0]) };
+    return { key: value, user: null, ambiguous: matches.length > 1 };
+  };
+
+  /** The signed-in admin's id, so the plan can leave them out; `null` when unread. */
+  const readCurrentUserId = async (): Promise<string | null> => {
+    const current = await coreApi.getCurrentUser();
+    return current.id && current.id !== 'unknown' ? current.id : null;
+  };
+
+  /**
+   * Read the targets from a source. Sends no writes.
+   *
+   * @param source - See {@link BulkLifecycleSource}.
+   * @returns The {@link LifecycleTargetSet} the plan is built from.
+   * @throws Error when a group or search read fails, or when the lookups are cancelled.
+   */
+  const resolveLifecycleTargets = async (
+    source: BulkLifecycleSource,
+  ): Promise<LifecycleTargetSet> => {
+    const currentUserId = await readCurrentUserId();
+
+    if (source.kind === 'group') {
+      const members = await deps.getAllGroupMembers(source.groupId);
+      return {
+        sourceLabel: `Members of ${source.groupName}`,
+        targets: members.map((member) => ({ key: member.profile.login, user: fromUser(member) })),
+        currentUserId,
+      };
+    }
+
+    if (source.kind === 'search') {
+      const expression = source.expression.trim();
+      const users = await fetchAllPages<OktaUser>(
+        (url) => coreApi.makeApiRequest(url),
+        `/api/v1/users?limit=${OKTA_PAGE_SIZE}&search=${encodeURIComponent(expression)}`,
+        {
+          schema: oktaUserListItemSchema,
+          context: 'GET /api/v1/users?search',
+          errorMessage: 'The search could not be run',
+        },
+      );
+      return {
+        sourceLabel: `Users matching ${expression}`,
+        targets: users.map((user) => ({ key: user.profile.login, user: fromUser(user) })),
+        currentUserId,
+      };
+    }
+
+    const identifiers = parseImportIdentifiers(source.text);
+    const resolved = new Map<number, LifecycleTarget>();
+    const outcome = await coreApi.runOperation(
+      'Resolve lifecycle targets',
+      identifiers.rows,
+      async (row) => {
+        resolved.set(row.line, await resolveIdentifier(row.value));
+      },
+      { message: (p) => `Resolved ${p.completed}/${p.total} users` },
+    );
+    if (outcome.cancelled) throw new Error('Target lookup cancelled');
+
+    const count = identifiers.rows.length;
+    return {
+      sourceLabel: `${count} listed user${count === 1 ? '' : 's'}`,
+      targets: identifiers.rows.map(
+        (row) => resolved.get(row.line) ?? { key: row.value, user: null },
+      ),
+      currentUserId,
+    };
+  };
+
+  /**
+   * Send the plan's action to every change user.
+   *
+   * @param plan - A plan from `planBulkLifecycle`.
+   * @returns Per-user outcomes and totals.
+   * @throws Error carrying the plan's `blocker`, before any write, when it has one.
+   */
+  const applyBulkLifecycle = async (plan: BulkLifecyclePlan): Promise<BulkLifecycleResult> => {
+    if (plan.blocker) throw new Error(plan.blocker);
+    const spec = LIFECYCLE_ACTIONS[plan.action];
+    const performedBy = (await coreApi.getCurrentUser()).email;
+
+    /** Record one user's write in the audit trail; never throws. */
+    const audit = (user: LifecycleSubject, startTime: number, error?: string) => {
+      const entry: AuditLogEntry = {
+        id: crypto.randomUUID(),
+        timestamp: new Date(),
+        action: 'user_lifecycle',
+        // Keyed on the user, as a role grant is.
+        groupId: user.id,
+        groupName: user.name,
+        performedBy,
+        affectedUsers: [user.id],
+        result: error ? 'failed' : 'success',
+        details: {
+          usersSucceeded: error ? 0 : 1,
+          usersFailed: error ? 1 : 0,
+          apiRequestCount: 1,
+          durationMs: Date.now() - startTime,
+          lifecycle: { action: plan.action, fromStatus: user.status },
+          ...(error ? { errorMessages: [error] } : {}),
+        },
+      };
+      auditStore.logOperation(entry).catch((err) => {
+        log.error('Failed to log audit entry:', err);
+      });
+    };
+
+    const outcome = await coreApi.runOperation(
+      `${spec.label} users`,
+      plan.change,
+      async (user) => {
+        const startTime = Date.now();
+        const response = await coreApi.makeApiRequest(
+          `/api/v1/users/${encodeURIComponent(user.id)}/lifecycle/${spec.path}`,
+          'POST',
+        );
+        if (!response.success) {
+          const error = response.error || `${spec.label} failed`;
+          audit(user, startTime, error);
+          throw new WriteRejectedError(error, response.status);
+        }
+        audit(user, startTime);
+      },
+      {
+        stopOnError: (error) => (error as { status?: number }).status === 403,
+        message: (p) => `${spec.label} (${p.completed}/${p.total})`,
+      },
+    );
+
+    const outcomes = new Map<string, BulkLifecycleOutcome>();
+    let done = 0;
+    let failed = 0;
+    for (const result of outcome.results) {
+      const user = result.item;
+      if (result.status === 'fulfilled') {
+        outcomes.set(user.id, { result: 'done' });
+        done++;
+        if (plan.action === 'suspend' || plan.action === 'unsuspend') {
+          // A History failure never turns a write into a failure.
+          await logUserStatusAction(plan.action, user.id, user.login, user.name).catch(() => {
+            log.warn('Could not record the status change in history', { userId: user.id });
+          });
+        }
+      } else if (result.status === 'rejected') {
+        const error = result.error instanceof Error ? result.error.message : 'No response';
+        outcomes.set(user.id, { result: 'failed', error });
+        failed++;
+      } else {
+        outcomes.set(user.id, { result: 'not-sent' });
+      }
+    }
+
+    log.info('Bulk lifecycle finished', {
+      action: plan.action,
+      done,
+      failed,
+      notSent: outcome.skipped,
+    });
+
+    return { outcomes, done, failed, notSent: outcome.skipped, cancelled: outcome.cancelled };
+  };
+
+  return { resolveLifecycleTargets, applyBulkLifecycle };
+}
@@ -0,0 +1,228 @@
+/**
+ * Tests for the spreadsheet profile update: how keys resolve, that the dry run and
+ * the impact check send no writes, and that the apply pass writes only ready rows,
+ * records one undoable history entry per written user, and stops at a 403.
+ *
+ * `runOperation` drives the real `runBatch` so `stopOnError` and skipped items behave
+ * as they do in the panel.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createBulkProfileOperations, type BulkProfileDependencies } from './bulkProfileUpdate';
+import { makeBatchCore } from '@/test/factories/coreApi';
+import { oktaUserProfileSchemaSchema } from '@/shared/schemas/okta';
+import type { FormattedRule, OktaUser } from '@/shared/types';
+
+vi.mock('../../../shared/undoManager', () => ({
+  logProfileUpdateAction: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { logProfileUpdateAction } from '../../../shared/undoManager';
+
+const schema = oktaUserProfileSchemaSchema.parse({
+  definitions: {
+    base: {
+      properties: {
+        login: { type: 'string', mutability: 'READ_WRITE' },
+        department: { type: 'string', title: 'Department', mutability: 'READ_WRITE' },
+      },
+    },
+    custom: {
+      properties: {
+        costCenter: {
+          type: 'string',
+          mutability: 'READ_WRITE',
+          master: { type: 'PROFILE_MASTER' },
+        },
+      },
+    },
+  },
+});
+
+function makeUser(id: string, login: string, department: string): OktaUser {
+  return {
+    id,
+    status: 'ACTIVE',
+    credentials: { provider: { type: 'OKTA', name: 'OKTA' } },
+    profile: { login, email: login, firstName: 'Test', lastName: id, department },
+  } as OktaUser;
+}
+
+const ada = makeUser('00uFAKE1', 'ada@example.com', 'Sales');
+const alan = makeUser('00uFAKE2', 'alan@example.com', 'Sales');
+
+const salesRule = {
+  id: '0prFAKE1',
+  name: 'Sales by department',
+  status: 'ACTIVE',
+  conditionExpression: 'user.department == "Sales"',
+  groupIds: ['00gFAKE1'],
+} as unknown as FormattedRule;
+
+function makeDeps(overrides: Partial<BulkProfileDependencies> = {}): BulkProfileDependencies {
+  const byKey = new Map<string, OktaUser>([
+    [ada.id, ada],
+    [alan.id, alan],
+    [encodeURIComponent(ada.profile.login), ada],
+  ]);
+  return {
+    getUserRaw: vi.fn(async (key: string) => byKey.get(key) ?? null),
+    getUserProfileSchema: vi.fn().mockResolvedValue(schema),
+    getUserApps: vi.fn().mockResolvedValue({ apps: [], complete: true }),
+    updateUserProfile: vi.fn(async (userId: string, patch: Record<string, unknown>) => ({
+      kind: 'saved' as const,
+      user: {
+        ...(userId === ada.id ? ada : alan),
+        profile: { ...(userId === ada.id ? ada : alan).profile, ...patch },
+      } as OktaUser,
+    })),
+    ensureGroupRulesLoaded: vi.fn().mockResolvedValue([salesRule]),
+    getUserGroups: vi
+      .fn()
+      .mockResolvedValue([{ id: '00gFAKE1', type: 'OKTA_GROUP', profile: { name: 'Sales' } }]),
+    loadGroupNames: vi.fn().mockResolvedValue(new Map([['00gFAKE1', 'Sales']])),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('previewBulkProfileUpdate', () => {
+  it('resolves ids and logins, and walks apps only for a profile-mastered column', async () => {
+    const deps = makeDeps();
+    const ops = createBulkProfileOperations(makeBatchCore(), deps);
+
+    const plan = await ops.previewBulkProfileUpdate(
+      'login,department\nada@example.com,Marketing\nnobody@example.com,Ops',
+    );
+
+    expect(plan.rows.map((row) => row.status)).toEqual(['ready', 'not-found']);
+    expect(deps.getUserApps).not.toHaveBeenCalled();
+    expect(deps.updateUserProfile).not.toHaveBeenCalled();
+
+    const mastered = await ops.previewBulkProfileUpdate('id,costCenter\n00uFAKE1,CC-9');
+    expect(deps.getUserApps).toHaveBeenCalledWith(ada.id);
+    // No profile source on a complete app list: Okta masters the attribute.
+    expect(mastered.rows[0].status).toBe('ready');
+  });
+
+  it('reads a login key that comes back as a different login as not found', async () => {
+    const deps = makeDeps({ getUserRaw: vi.fn().mockResolvedValue(alan) });
+    const ops = createBulkProfileOperations(makeBatchCore(), deps);
+
+    const plan = await ops.previewBulkProfileUpdate('login,department\nada@example.com,Ops');
+
+    expect(plan.rows[0].status).toBe('not-found');
+  });
+});
+
+describe('analyzeBulkProfileImpact', () => {
+  it('predicts the group access the batch moves, without writing', async () => {
+    const deps = makeDeps();
+    const ops = createBulkProfileOperations(makeBatchCore(), deps);
+    const plan = await ops.previewBulkProfileUpdate(
+      'id,department\n00uFAKE1,Marketing\n00uFAKE2,Marketing',
+    );
+
+    const impact = await ops.analyzeBulkProfileImpact(plan);
+
+    expect(impact.status).toBe('computed');
+    expect(impact.groups).toHaveLength(1);
+    expect(impact.groups[0]).toMatchObject({ groupId: '00gFAKE1', groupName: 'Sales' });
+    expect(impact.groups[0].likelyRemoved.map((u) => u.userId)).toEqual([ada.id, alan.id]);
+    expect(deps.updateUserProfile).not.toHaveBeenCalled();
+  });
+
+  it('claims nothing about a user whose memberships could not be read', async () => {
+    const deps = makeDeps({ getUserGroups: vi.fn().mockResolvedValue(null) });
+    const ops = createBulkProfileOperations(makeBatchCore(), deps);
+    const plan = await ops.previewBulkProfileUpdate('id,department\n00uFAKE1,Marketing');
+
+    const impact = await ops.analyzeBulkProfileImpact(plan);
+
+    expect(impact.status).toBe('unavailable');
+    expect(impact.notAnalyzed.map((u) => u.userId)).toEqual([ada.id]);
+  });
+});
+
+describe('applyBulkProfileUpdate', () => {
+  it('writes each ready patch and records one undoable entry per user', async () => {
+    const deps = makeDeps();
+    const onProfileWritten = vi.fn();
+    const ops = createBulkProfileOperations(makeBatchCore(), deps, onProfileWritten);
+    const plan = await ops.previewBulkProfileUpdate(
+      'id,department\n00uFAKE1,Marketing\n00uFAKE2,Sales',
+    );
+
+    const result = await ops.applyBulkProfileUpdate(plan);
+
+    expect(deps.updateUserProfile).toHaveBeenCalledTimes(1);
+    expect(deps.updateUserProfile).toHaveBeenCalledWith(ada.id, { department: 'Marketing' });
+    expect(result).toMatchObject({ saved: 1, failed: 0, unknown: 0, notSent: 0 });
+    expect(result.savedUsers[0].profile.department).toBe('Marketing');
+    expect(logProfileUpdateAction).toHaveBeenCalledWith(
+      ada.id,
+      'ada@example.com',
+      'Test 00uFAKE1',
+      [
+        {
+          name: 'department',
+          label: 'Department',
+          beforeDisplay: 'Sales',
+          beforeRaw: 'Sales',
+          afterDisplay: 'Marketing',
+        },
+      ],
+      { status: 'completed' },
+    );
+    expect(onProfileWritten).toHaveBeenCalledWith(ada.id);
+  });
+
+  it('records a write that may have applied as partial, and a refused one not at all', async () => {
+    const deps = makeDeps({
+      updateUserProfile: vi
+        .fn()
+        .mockResolvedValueOnce({ kind: 'unknown', error: 'No response' })
+        .mockResolvedValueOnce({ kind: 'failed', error: 'Bad value', status: 400 }),
+    });
+    const ops = createBulkProfileOperations(makeBatchCore(), deps);
+    const plan = await ops.previewBulkProfileUpdate(
+      'id,department\n00uFAKE1,Marketing\n00uFAKE2,Marketing',
+    );
+
+    const result = await ops.applyBulkProfileUpdate(plan);
+
+    expect(result).toMatchObject({ saved: 0, unknown: 1, failed: 1 });
+    expect(result.outcomes.get(alan.id)).toEqual({ result: 'failed', error: 'Bad value' });
+    expect(logProfileUpdateAction).toHaveBeenCalledTimes(1);
+    expect(logProfileUpdateAction).toHaveBeenCalledWith(
+      ada.id,
+      expect.any(String),
+      expect.any(String),
+      expect.any(Array),
+      { status: 'partial' },
+    );
+  });
+
+  it('stops at a 403 and reports the rest as not sent', async () => {
+    const deps = makeDeps({
+      updateUserProfile: vi
+        .fn()
+        .mockResolvedValueOnce({ kind: 'failed', error: 'Forbidden', status: 403 }),
+    });
+    const ops = createBulkProfileOperations(makeBatchCore(), deps);
+    const plan = await ops.previewBulkProfileUpdate(
+      'id,department\n00uFAKE1,Marketing\n00uFAKE2,Marketing',
+    );
+
+    const result = await ops.applyBulkProfileUpdate(plan);
+
+    expect(deps.updateUserProfile).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ failed: 1, notSent: 1 });
+    expect(result.outcomes.get(alan.id)).toEqual({ result: 'not-sent' });
+    expect(logProfileUpdateAction).not.toHaveBeenCalled();
+  });
+});
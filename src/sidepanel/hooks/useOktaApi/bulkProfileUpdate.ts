@@ -0,0 +1,309 @@
+/**
+ * @module hooks/useOktaApi/bulkProfileUpdate
+ * @description Update profile attributes across many users from a spreadsheet: a
+ * dry run, an opt-in group-impact check, then the writes.
+ *
+ * The dry run ({@link previewBulkProfileUpdate}) only reads. Each key is fetched
+ * whole with `getUserRaw` — `GET /api/v1/users/{id-or-login}` accepts either — and
+ * a login key must match the returned login exactly. When a column is
+ * `PROFILE_MASTER`-mastered, the user's app list is walked too, so the editability
+ * gate can decide that attribute for this person rather than lock it for everyone.
+ * `components/users/bulkProfilePlan` then decides every cell.
+ *
+ * The impact check ({@link analyzeBulkProfileImpact}) is a separate, explicit step,
+ * for the reason `useBlastRadius` is opt-in: it reads every ready user's complete
+ * membership list, one paged request per user. Each list is classified against the
+ * org's rules and run through `shared/membership/blastRadius` with the row's patch,
+ * and the reports are folded by `shared/membership/blastRadiusBatch`.
+ *
+ * The apply pass ({@link applyBulkProfileUpdate}) writes each ready row's patch with
+ * `updateUserProfile` under {@link CoreApi.runOperation}, and stops at the first
+ * 403. Every user whose write was saved — or may have applied — gets their own
+ * `UPDATE_USER_PROFILE` history entry with the before-values from the dry run, so
+ * each one is undoable on its own. A `'failed'` write records nothing.
+ *
+ * Logging follows `profileOperations`: user ids, counts and outcomes only.
+ */
+
+import type { CoreApi } from './core';
+import type { UpdateProfileResult } from './profileOperations';
+import type { UserAppsResult } from './userOperations';
+import type { FormattedRule, OktaGroup, OktaUser } from '../../../shared/types';
+import type { OktaUserProfileSchema } from '../../../shared/schemas/okta';
+import { WriteRejectedError } from '../../../shared/storage/operationJournal';
+import { logProfileUpdateAction, type AttributeChange } from '../../../shared/undoManager';
+import { analyzeBlastRadius } from '../../../shared/membership/blastRadius';
+import {
+  combineBlastRadius,
+  type BatchBlastRadius,
+  type BatchBlastRadiusEntry,
+} from '../../../shared/membership/blastRadiusBatch';
+import { analyzeMemberships } from '../../../shared/utils/membershipAnalysis';
+import { createLogger } from '../../../shared/utils/logger';
+import { profileMastering } from '../../components/users/profileEditability';
+import {
+  parseBulkProfileSheet,
+  planBulkProfileUpdate,
+  sheetNeedsMastering,
+  type BulkProfileOutcome,
+  type BulkProfilePlan,
+  type BulkReadyRow,
+  type BulkUserContext,
+} from '../../components/users/bulkProfilePlan';
+
+const log = createLogger('useOktaApi');
+
+/** The apply pass's result. */
+export interface BulkProfileResult {
+  /** Outcome per ready user id. */
+  outcomes: Map<string, BulkProfileOutcome>;
+  saved: number;
+  failed: number;
+  /** Writes that may have applied; each was recorded in history as partial. */
+  unknown: number;
+  /** Ready users never sent because the run was cancelled or halted. */
+  notSent: number;
+  cancelled: boolean;
+  /** The users Okta returned for the saved writes, so a surface showing one can refresh it. */
+  savedUsers: OktaUser[];
+}
+
+/** The reads and the write the bulk update is built from. */
+export interface BulkProfileDependencies {
+  getUserRaw: (idOrLogin: string) => Promise<OktaUser | null>;
+  getUserProfileSchema: () => Promise<OktaUserProfileSchema | null>;
+  getUserApps: (userId: string) => Promise<UserAppsResult>;
+  updateUserProfile: (
+    userId: string,
+    patch: Record<string, unknown>,
+  ) => Promise<UpdateProfileResult>;
+  ensureGroupRulesLoaded: () => Promise<FormattedRule[] | null>;
+  /** Every group the user is in, or `null` when the list could not be read in full. */
+  getUserGroups: (userId: string) => Promise<OktaGroup[] | null>;
+  loadGroupNames: () => Promise<ReadonlyMap<string, string>>;
+}
+
+/** `Jane Doe`, falling back to the login when the name fields are empty. */
+function displayName(user: OktaUser): string {
+  const composed = `${user.profile.firstName ?? ''} ${user.profile.lastName ?? ''}`.trim();
+  return composed === '' ? user.profile.login : composed;
+}
+
+/**
+ * Build the spreadsheet profile-update operations.
+ *
+ * @param coreApi - Shared transport surface (see {@link CoreApi}).
+ * @param deps - User, schema, app, group and rule reads, and the profile write.
+ * @param onProfileWritten - Called with each user id whose write saved or may have
+ * applied. A profile write can move rule-driven membership, so the caller drops the
+ * user's cached memberships here.
+ * @returns `{ previewBulkProfileUpdate, analyzeBulkProfileImpact, applyBulkProfileUpdate }`.
+ */
+export function createBulkProfileOperations(
+  coreApi: CoreApi,
+  deps: BulkProfileDependencies,
+  onProfileWritten?: (userId: string) => void,
+) {
+  /**
+   * Dry-run a sheet: resolve every key and decide every cell. Sends no writes.
+   *
+   * @param csvText - The uploaded or pasted CSV.
+   * @returns The {@link BulkProfilePlan}.
+   * @throws Error when the header is unusable (see `parseBulkProfileSheet`), or when
+   * the lookups are cancelled.
+   */
+  const previewBulkProfileUpdate = async (csvText: string): Promise<BulkProfilePlan> => {
+    const sheet = parseBulkProfileSheet(csvText);
+    const schema = sheet.rows.length > 0 ? await deps.getUserProfileSchema() : null;
+    const needsMastering = sheetNeedsMastering(sheet, schema);
+
+    const keys = [...new Set(sheet.rows.map((row) => row.key.toLowerCase()))];
+    const byKey = new Map(sheet.rows.map((row) => [row.key.toLowerCase(), row.key]));
+    const resolved = new Map<string, BulkUserContext>();
+
+    const outcome = await coreApi.runOperation(
+      'Resolve profile sheet',
+      keys,
+      async (lowered) => {
+        const key = byKey.get(lowered) ?? lowered;
+        const user = await deps.getUserRaw(encodeURIComponent(key));
+        if (!user) return;
+        const matches =
+          sheet.keyColumn === 'id' ? user.id === key : user.profile.login.toLowerCase() === lowered;
+        if (!matches) return;
+
+        if (needsMastering) {
+          const apps = await deps.getUserApps(user.id);
+          resolved.set(lowered, { user, mastering: profileMastering(apps.apps, apps.complete) });
+        } else {
+          resolved.set(lowered, { user });
+        }
+      },
+      { message: (p) => `Resolved ${p.completed}/${p.total} users` },
+    );
+    if (outcome.cancelled) throw new Error('Profile update preview cancelled');
+
+    return planBulkProfileUpdate(sheet, resolved, schema);
+  };
+
+  /**
+   * Predict what the plan's writes do to group access, across every ready user.
+   * Reads only; costs one membership listing per ready user.
+   *
+   * @param plan - A plan from {@link previewBulkProfileUpdate}.
+   * @returns The combined report. `unavailable` when the rule inventory could not
+   * be read, since no prediction can be made without it.
+   * @throws Error when the check is cancelled.
+   */
+  const analyzeBulkProfileImpact = async (plan: BulkProfilePlan): Promise<BatchBlastRadius> => {
+    const rules = await deps.ensureGroupRulesLoaded();
+    if (rules === null) {
+      log.warn('Rules unavailable; bulk impact not predicted', { users: plan.ready.length });
+      return combineBlastRadius(
+        plan.ready.map((row) => ({
+          user: { userId: row.user.id, label: row.user.profile.login },
+          report: null,
+        })),
+      );
+    }
+    const groupNames = await deps.loadGroupNames();
+    const entries = new Map<string, BatchBlastRadiusEntry>();
+
+    const outcome = await coreApi.runOperation(
+      'Check group impact',
+      plan.ready,
+      async (row) => {
+        const user = { userId: row.user.id, label: row.user.profile.login };
+        const groups = await deps.getUserGroups(row.user.id);
+        // A partial list would turn every omitted group into a confident "not a
+        // member" (ADR-0021), so an unread list yields no report at all.
+        if (groups === null) {
+          entries.set(row.user.id, { user, report: null });
+          return;
+        }
+        const memberships = analyzeMemberships(groups, rules, row.user);
+        const report = analyzeBlastRadius({
+          user: row.user,
+          draft: row.patch,
+          memberships,
+          rules: { status: 'available', rules },
+          groupNames,
+        });
+        entries.set(row.user.id, { user, report });
+      },
+      { message: (p) => `Checked ${p.completed}/${p.total} users` },
+    );
+    if (outcome.cancelled) throw new Error('Group impact check cancelled');
+
+    return combineBlastRadius(
+      plan.ready.map(
+        (row) =>
+          entries.get(row.user.id) ?? {
+            user: { userId: row.user.id, label: row.user.profile.login },
+            report: null,
+          },
+      ),
+    );
+  };
+
+  /** Record one write in history. A history failure never turns a write into a failure. */
+  const recordHistory = async (row: BulkReadyRow, status: 'completed' | 'partial') => {
+    const changes = row.cells
+      .filter((cell) => cell.status === 'change')
+      .map((cell): AttributeChange => ({
+        name: cell.name,
+        label: cell.label,
+        beforeDisplay: cell.beforeDisplay,
+        beforeRaw: cell.beforeRaw,
+        afterDisplay: cell.afterDisplay,
+      }));
+    try {
+      await logProfileUpdateAction(
+        row.user.id,
+        row.user.profile.login,
+        displayName(row.user),
+        changes,
+        { status },
+      );
+    } catch {
+      log.warn('Could not record the profile update in history', {
+        userId: row.user.id,
+        attributeCount: changes.length,
+      });
+    }
+  };
+
+  /**
+   * Write every ready row's patch.
+   *
+   * @param plan - A plan from {@link previewBulkProfileUpdate}.
+   * @returns Per-user outcomes and totals.
+   */
+  const applyBulkProfileUpdate = async (plan: BulkProfilePlan): Promise<BulkProfileResult> => {
+    const outcome = await coreApi.runOperation(
+      'Update user profiles',
+      plan.ready,
+      async (row) => {
+        // A throw escaping `updateUserProfile` is pre-flight only, so nothing was sent.
+        const result = await deps
+          .updateUserProfile(row.user.id, row.patch)
+          .catch((error: unknown): UpdateProfileResult => ({
+            kind: 'failed',
+            error: error instanceof Error ? error.message : 'The update could not be sent.',
+          }));
+        if (result.kind === 'failed') throw new WriteRejectedError(result.error, result.status);
+        return result;
+      },
+      {
+        stopOnError: (error) => (error as { status?: number }).status === 403,
+        message: (p) => `Updating profiles (${p.completed}/${p.total})`,
+      },
+    );
+
+    const outcomes = new Map<string, BulkProfileOutcome>();
+    const savedUsers: OktaUser[] = [];
+    let failed = 0;
+    let unknown = 0;
+    for (const result of outcome.results) {
+      const row = result.item;
+      if (result.status === 'fulfilled' && result.value) {
+        if (result.value.kind === 'saved') {
+          outcomes.set(row.user.id, { result: 'saved' });
+          savedUsers.push(result.value.user);
+          await recordHistory(row, 'completed');
+        } else {
+          // The write MAY have applied: record it, as the one-user editor does.
+          outcomes.set(row.user.id, { result: 'unknown', error: result.value.error });
+          unknown++;
+          await recordHistory(row, 'partial');
+        }
+        onProfileWritten?.(row.user.id);
+      } else if (result.status === 'rejected') {
+        const error = result.error instanceof Error ? result.error.message : 'No response';
+        outcomes.set(row.user.id, { result: 'failed', error });
+        failed++;
+      } else {
+        outcomes.set(row.user.id, { result: 'not-sent' });
+      }
+    }
+
+    log.info('Bulk profile update finished', {
+      saved: savedUsers.length,
+      failed,
+      unknown,
+      notSent: outcome.skipped,
+    });
+
+    return {
+      outcomes,
+      saved: savedUsers.length,
+      failed,
+      unknown,
+      notSent: outcome.skipped,
+      cancelled: outcome.cancelled,
+      savedUsers,
+    };
+  };
+
+  return { previewBulkProfileUpdate, analyzeBulkProfileImpact, applyBulkProfileUpdate };
+}
@@ -0,0 +1,109 @@
+/**
+ * Tests for the certificate-inventory reads: the IdP keys are joined to the IdPs
+ * that trust them, only SAML apps have their keys read (at low priority), and a
+ * failed read is reported beside the rest instead of failing the inventory. A
+ * cancelled app walk raises rather than returning a partial inventory as whole.
+ *
+ * Fixtures use only fake placeholders (`0oaFAKE…`, `kidFAKE…`).
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { createCertificateOperations } from './certificates';
+import { makeFakeCore, sequentialRunOperation } from '@/test/factories/coreApi';
+import { OperationCancelledError } from '../../../shared/scheduler/cancellation';
+import type { OktaAppListItem } from '@/shared/schemas/okta';
+
+const apps: OktaAppListItem[] = [
+  {
+    id: '0oaFAKEsaml',
+    label: 'Payroll',
+    signOnMode: 'SAML_2_0',
+    credentials: { signing: { kid: 'kidFAKEapp' } },
+  },
+  { id: '0oaFAKEoidc', label: 'Portal', signOnMode: 'OPENID_CONNECT' },
+  { id: '0oaFAKEbroken', label: 'Legacy', signOnMode: 'SAML_1_1' },
+];
+
+const key = (kid: string) => ({ kid, kty: 'RSA', expiresAt: '2030-01-01T00:00:00.000Z' });
+
+/** Answers each endpoint the inventory reads; the Legacy app's keys are refused. */
+const routes = vi.fn(async (url: string) => {
+  if (url.startsWith('/api/v1/idps/credentials/keys')) {
+    return { success: true, data: [key('kidFAKEidp'), { kty: 'RSA' }], headers: {} };
+  }
+  if (url.startsWith('/api/v1/idps')) {
+    return {
+      success: true,
+      data: [
+        {
+          id: '0oaFAKEidp',
+          name: 'Partner',
+          protocol: { credentials: { trust: { kid: 'kidFAKEidp' } } },
+        },
+      ],
+      headers: {},
+    };
+  }
+  if (url.includes('0oaFAKEsaml')) return { success: true, data: [key('kidFAKEapp')], headers: {} };
+  return { success: false, error: 'Forbidden', status: 403 };
+});
+
+describe('getCertificateInventory', () => {
+  it('reads IdP keys and SAML app keys, recording an app that could not be read', async () => {
+    const core = makeFakeCore({ makeApiRequest: routes, runOperation: sequentialRunOperation() });
+    const ops = createCertificateOperations(core, { getAllApps: vi.fn(async () => apps) });
+
+    const inventory = await ops.getCertificateInventory();
+
+    expect(inventory.records.map((r) => [r.source, r.ownerName, r.kid, r.inUse])).toEqual([
+      ['idp', 'Partner', 'kidFAKEidp', true],
+      ['app', 'Payroll', 'kidFAKEapp', true],
+    ]);
+    expect(inventory.unreadableApps).toEqual([
+      { appId: '0oaFAKEbroken', appName: 'Legacy', error: 'Forbidden' },
+    ]);
+    expect(inventory.idpError).toBeNull();
+    expect(inventory.appListError).toBeNull();
+
+    const urls = routes.mock.calls.map(([url]) => url);
+    expect(urls.some((url) => url.includes('0oaFAKEoidc'))).toBe(false);
+    expect(vi.mocked(core.makeApiRequest).mock.calls.every((call) => call[3] === 'low')).toBe(true);
+  });
+
+  it('keeps the app half when the IdP keys cannot be read, and the IdP half without apps', async () => {
+    const refusedIdps = vi.fn(async (url: string) =>
+      url.startsWith('/api/v1/idps') ? { success: false, error: 'Forbidden' } : routes(url),
+    );
+    const core = makeFakeCore({
+      makeApiRequest: refusedIdps,
+      runOperation: sequentialRunOperation(),
+    });
+    const withoutIdps = await createCertificateOperations(core, {
+      getAllApps: vi.fn(async () => apps.slice(0, 1)),
+    }).getCertificateInventory();
+    expect(withoutIdps.idpError).toBe('Forbidden');
+    expect(withoutIdps.records.map((r) => r.kid)).toEqual(['kidFAKEapp']);
+
+    const withoutApps = await createCertificateOperations(
+      makeFakeCore({ makeApiRequest: routes, runOperation: sequentialRunOperation() }),
+      { getAllApps: vi.fn().mockRejectedValue(new Error('Failed to fetch apps')) },
+    ).getCertificateInventory();
+    expect(withoutApps.appListError).toBe('Failed to fetch apps');
+    expect(withoutApps.records.map((r) => r.kid)).toEqual(['kidFAKEidp']);
+  });
+
+  it('raises OperationCancelledError when the app walk is cancelled', async () => {
+    const runOperation = vi.fn().mockResolvedValue({
+      results: [],
+      total: 2,
+      completed: 0,
+      failed: 0,
+      skipped: 2,
+      stoppedByError: false,
+      cancelled: true,
+    });
+    const core = makeFakeCore({ makeApiRequest: routes, runOperation });
+    const ops = createCertificateOperations(core, { getAllApps: vi.fn(async () => apps) });
+
+    await expect(ops.getCertificateInventory()).rejects.toBeInstanceOf(OperationCancelledError);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @module hooks/useOktaApi/certificates
+ * @description The reads behind the signing-certificate inventory: the IdP keys,
+ * the IdPs that trust them, and each SAML app's keys. The records are built by
+ * `shared/certificates/certificateInventory`.
+ *
+ * The IdP half is two paged reads. The app half is one read per SAML app, so it
+ * runs under {@link CoreApi.runOperation} at `low` priority: cancellable, visible
+ * in the activity bar, and yielding to interactive work. It is only run when an
+ * admin asks for the inventory.
+ *
+ * A failed read costs its own rows, never the inventory. An app whose keys cannot
+ * be read is listed in `unreadableApps`, and an IdP or app-list failure is
+ * reported beside the rest, so a partial inventory is never shown as whole.
+ */
+
+import type { CoreApi } from './core';
+import {
+  oktaIdpSchema,
+  oktaJsonWebKeySchema,
+  parseOktaList,
+  type OktaAppListItem,
+  type OktaIdp,
+  type OktaJsonWebKey,
+} from '@/shared/schemas/okta';
+import { fetchAllPages, OKTA_PAGE_SIZE } from '@/shared/utils/oktaPagination';
+import { OperationCancelledError } from '../../../shared/scheduler/cancellation';
+import {
+  appCertificateRecords,
+  idpCertificateRecords,
+  isSamlApp,
+  type CertificateInventory,
+  type CertificateRecord,
+  type UnreadableCertificateOwner,
+} from '../../../shared/certificates/certificateInventory';
+import { createLogger } from '../../../shared/utils/logger';
+
+const log = createLogger('useOktaApi');
+
+/** The app list the inventory walks. */
+export interface CertificateDependencies {
+  getAllApps: () => Promise<OktaAppListItem[]>;
+}
+
+/** The message of an unknown rejection. */
+const errorText = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+/**
+ * Build the certificate-inventory operations.
+ *
+ * @param coreApi - Shared transport surface (see {@link CoreApi}).
+ * @param deps - `getAllApps` from `createAppOperations`.
+ * @returns `{ getCertificateInventory }`.
+ */
+export function createCertificateOperations(coreApi: CoreApi, deps: CertificateDependencies) {
+  /** The IdP keys and the IdPs that trust them, as records. Throws on a failed page. */
+  const readIdpCertificates = async (now: Date): Promise<CertificateRecord[]> => {
+    const request = (url: string) => coreApi.makeApiRequest(url, 'GET', undefined, 'low');
+    const keys = await fetchAllPages<OktaJsonWebKey>(request, '/api/v1/idps/credentials/keys', {
+      schema: oktaJsonWebKeySchema,
+      context: 'GET /api/v1/idps/credentials/keys',
+      errorMessage: 'Failed to read IdP certificates',
+    });
+    const idps = await fetchAllPages<OktaIdp>(request, `/api/v1/idps?limit=${OKTA_PAGE_SIZE}`, {
+      schema: oktaIdpSchema,
+      context: 'GET /api/v1/idps',
+      errorMessage: 'Failed to read identity providers',
+    });
+    return idpCertificateRecords(keys, idps, now);
+  };
+
+  /** One app's keys, as records. Throws when the read fails. */
+  const readAppCertificates = async (
+    app: OktaAppListItem,
+    now: Date,
+  ): Promise<CertificateRecord[]> => {
+    const response = await coreApi.makeApiRequest(
+      `/api/v1/apps/${encodeURIComponent(app.id)}/credentials/keys`,
+      'GET',
+      undefined,
+      'low',
+    );
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to read app certificates');
+    }
+    const keys = parseOktaList(
+      oktaJsonWebKeySchema,
+      response.data,
+      'GET /api/v1/apps/{id}/credentials/keys',
+    );
+    return appCertificateRecords(app, keys, now);
+  };
+
+  /**
+   * Read every SAML signing certificate in the org.
+   *
+   * @returns The inventory; failed reads are reported in it, not thrown.
+   * @throws OperationCancelledError when the admin cancels the app walk.
+   */
+  const getCertificateInventory = async (): Promise<CertificateInventory> => {
+    const now = new Date();
+    const records: CertificateRecord[] = [];
+
+    let idpError: string | null = null;
+    try {
+      records.push(...(await readIdpCertificates(now)));
+    } catch (error) {
+      idpError = errorText(error, 'Failed to read IdP certificates');
+      log.warn('IdP certificate read failed', { code: 'idp_keys_failed' });
+    }
+
+    let apps: OktaAppListItem[] = [];
+    let appListError: string | null = null;
+    try {
+      apps = (await deps.getAllApps()).filter(isSamlApp);
+    } catch (error) {
+      appListError = errorText(error, 'Failed to fetch apps');
+      log.warn('App list read failed for the certificate inventory', { code: 'apps_failed' });
+    }
+
+    const unreadableApps: UnreadableCertificateOwner[] = [];
+    if (apps.length > 0) {
+      const outcome = await coreApi.runOperation(
+        'Certificate inventory',
+        apps,
+        (app) => readAppCertificates(app, now),
+        { message: (p) => `Reading app certificates (${p.completed}/${p.total})` },
+      );
+      if (outcome.cancelled) throw new OperationCancelledError();
+
+      for (const result of outcome.results) {
+        const app = result.item;
+        if (result.status === 'fulfilled' && result.value) {
+          records.push(...result.value);
+        } else if (result.status === 'rejected') {
+          unreadableApps.push({
+            appId: app.id,
+            appName: app.label || app.name || app.id,
+            error: errorText(result.error, 'Failed to read app certificates'),
+          });
+        }
+      }
+      if (unreadableApps.length > 0) {
+        // Counts only — app names are tenant data.
+        log.warn('Some app certificates could not be read', { count: unreadableApps.length });
+      }
+    }
+
+    return {
+      records,
+      readAt: new Date().toISOString(),
+      idpError,
+      appListError,
+      unreadableApps,
+    };
+  };
+
+  return { getCertificateInventory };
+}
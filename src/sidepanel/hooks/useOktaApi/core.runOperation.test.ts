@@ -10,6 +10,20 @@
 import { describe, it, expect, vi } from 'vitest';
 import { createCoreApi } from './core';
 import { OperationCancelledError } from '../../../shared/scheduler/cancellation';
+import { HEARTBEAT_MS, WriteRejectedError } from '../../../shared/storage/operationJournal';
+
+const journal = vi.hoisted(() => ({
+  begin: vi.fn(async () => 'op-1' as string | null),
+  markStarted: vi.fn(async () => {}),
+  markSettled: vi.fn(async () => {}),
+  heartbeat: vi.fn(async () => {}),
+  finish: vi.fn(async () => {}),
+}));
+
+vi.mock('../../../shared/storage/operationJournal', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../shared/storage/operationJournal')>()),
+  operationJournal: journal,
+}));
 
 /** Build a coreApi with spy progress hooks and a controllable cancel guard. */
 function makeCore(checkCancelled: () => void = () => {}) {
@@ -61,4 +75,164 @@ describe('coreApi.runOperation', () => {
     expect(outcome.skipped).toBeGreaterThan(0);
     expect(progress.complete).toHaveBeenCalledTimes(1);
   });
+
+  it('journals each item before and after its task, then closes the entry', async () => {
+    const { core } = makeCore();
+    journal.begin.mockClear();
+
+    await core.runOperation(
+      'Remove users',
+      ['00uFAKE1', '00uFAKE2', '00uFAKE3'],
+      async (id) => {
+        if (id === '00uFAKE2') throw new WriteRejectedError('Forbidden', 403);
+        if (id === '00uFAKE3') throw new Error('port closed');
+        return id;
+      },
+      {
+        concurrency: 1,
+        journal: {
+          kind: 'remove-members',
+          groupId: '00gFAKE1',
+          groupName: 'Engineering',
+          describe: (id) => ({ key: id, label: `${id}@example.com` }),
+        },
+      },
+    );
+
+    expect(journal.begin).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: 'Remove users',
+        groupId: '00gFAKE1',
+        items: [
+          { key: '00uFAKE1', label: '00uFAKE1@example.com' },
+          { key: '00uFAKE2', label: '00uFAKE2@example.com' },
+          { key: '00uFAKE3', label: '00uFAKE3@example.com' },
+        ],
+      }),
+    );
+    expect(journal.markStarted).toHaveBeenCalledTimes(3);
+    expect(journal.markSettled.mock.calls).toEqual([
+      ['op-1', 0, 'done', undefined],
+      ['op-1', 1, 'failed', 'Forbidden'],
+      ['op-1', 2, 'unknown', 'port closed'],
+    ]);
+    expect(journal.finish).toHaveBeenCalledWith('op-1');
+  });
+
+  it('keeps the entry fresh while a task is held, and stops once the run ends', async () => {
+    vi.useFakeTimers();
+    try {
+      const { core } = makeCore();
+      journal.heartbeat.mockClear();
+      let release: () => void = () => {};
+      const held = new Promise<void>((resolve) => (release = resolve));
+
+      const run = core.runOperation('Op', [1], () => held, {
+        journal: {
+          kind: 'remove-members',
+          groupId: '00gFAKE1',
+          groupName: 'Engineering',
+          describe: (n) => ({ key: String(n), label: String(n) }),
+        },
+      });
+      await vi.advanceTimersByTimeAsync(HEARTBEAT_MS * 3);
+      expect(journal.heartbeat).toHaveBeenCalledTimes(3);
+      expect(journal.heartbeat).toHaveBeenCalledWith('op-1');
+
+      release();
+      await run;
+      await vi.advanceTimersByTimeAsync(HEARTBEAT_MS * 3);
+      expect(journal.heartbeat).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('still runs the work when the journal cannot be written', async () => {
+    const { core } = makeCore();
+    journal.begin.mockResolvedValueOnce(null);
+    journal.markStarted.mockClear();
+    journal.finish.mockClear();
+
+    const outcome = await core.runOperation('Op', [1, 2], async (n) => n, {
+      journal: {
+        kind: 'remove-members',
+        groupId: '00gFAKE1',
+        groupName: 'Engineering',
+        describe: (n) => ({ key: String(n), label: String(n) }),
+      },
+    });
+
+    expect(outcome.completed).toBe(2);
+    expect(journal.markStarted).not.toHaveBeenCalled();
+    expect(journal.finish).not.toHaveBeenCalled();
+  });
+});
+
+describe('coreApi.runOperation session check', () => {
+  const runtimeSendMessage = chrome.runtime.sendMessage as ReturnType<typeof vi.fn>;
+
+  /** Answer `sessions/me` with a session expiring in `minutes`. */
+  function sessionExpiringIn(minutes: number) {
+    runtimeSendMessage.mockReset();
+    runtimeSendMessage.mockResolvedValue({
+      success: true,
+      data: { id: '102FAKE', expiresAt: new Date(Date.now() + minutes * 60_000).toISOString() },
+    });
+  }
+
+  function makeCoreWithResults() {
+    const onResult = vi.fn();
+    const progress = { start: vi.fn(), reportBatch: vi.fn(), complete: vi.fn() };
+    const core = createCoreApi(1, () => {}, vi.fn(), progress, { onResult });
+    return { core, onResult };
+  }
+
+  const items = Array.from({ length: 3000 }, (_, i) => i);
+
+  it('warns before a long run that will outlast the session, then runs it', async () => {
+    sessionExpiringIn(5);
+    const { core, onResult } = makeCoreWithResults();
+
+    const outcome = await core.runOperation('Op', items, async (n) => n, { concurrency: 50 });
+
+    expect(runtimeSendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ endpoint: '/api/v1/sessions/me', priority: 'high' }),
+    );
+    expect(onResult).toHaveBeenCalledWith({
+      message: expect.stringContaining('session has 4 min left'),
+      type: 'warning',
+    });
+    expect(outcome.completed).toBe(3000);
+  });
+
+  it('stays quiet when the session outlasts the run', async () => {
+    sessionExpiringIn(120);
+    const { core, onResult } = makeCoreWithResults();
+
+    await core.runOperation('Op', items, async (n) => n, { concurrency: 50 });
+
+    expect(onResult).not.toHaveBeenCalled();
+  });
+
+  it('does not read the session for a short run', async () => {
+    sessionExpiringIn(1);
+    const { core, onResult } = makeCoreWithResults();
+
+    await core.runOperation('Op', [1, 2, 3], async (n) => n);
+
+    expect(runtimeSendMessage).not.toHaveBeenCalled();
+    expect(onResult).not.toHaveBeenCalled();
+  });
+
+  it('runs without a warning when the session cannot be read', async () => {
+    runtimeSendMessage.mockReset();
+    runtimeSendMessage.mockResolvedValue({ success: false, error: 'Forbidden', status: 403 });
+    const { core, onResult } = makeCoreWithResults();
+
+    const outcome = await core.runOperation('Op', items, async (n) => n, { concurrency: 50 });
+
+    expect(onResult).not.toHaveBeenCalled();
+    expect(outcome.completed).toBe(3000);
+  });
 });
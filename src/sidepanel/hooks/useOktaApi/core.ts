@@ -14,9 +14,26 @@
 
 import type { MessageRequest, MessageResponse, OperationCallbacks } from './types';
 import type { RequestResult, RequestPriority } from '@/shared/scheduler/types';
-import { runBatch, type BatchProgress, type BatchOutcome } from '@/shared/scheduler/runBatch';
+import {
+  runBatch,
+  type BatchProgress,
+  type BatchOutcome,
+  type RunBatchOptions,
+} from '@/shared/scheduler/runBatch';
+import {
+  HEARTBEAT_MS,
+  operationJournal,
+  settledItemState,
+  type JournalOperationKind,
+} from '@/shared/storage/operationJournal';
 import { createLogger } from '@/shared/utils/logger';
 import { getCachedCurrentUser, cacheCurrentUser } from './currentUserCache';
+import { oktaSessionSchema, parseOkta } from '@/shared/schemas/okta';
+import {
+  OKTA_SESSION_ENDPOINT,
+  SESSION_CHECK_MIN_ITEMS,
+  longRunWarning,
+} from '@/shared/session/oktaSession';
 
 const log = createLogger('useOktaApi');
 
@@ -50,6 +67,30 @@ export function isTransientPortError(message: string): boolean {
   return TRANSIENT_PORT_ERROR_PATTERNS.some((pattern) => normalized.includes(pattern));
 }
 
+/**
+ * Read the signed-in admin's session expiry.
+ *
+ * Read at `high` priority, so the answer is not stuck behind a bulk run it is
+ * being checked against. Lives here rather than in `./session` because
+ * {@link CoreApi.runOperation} reads it before a long run; `./session` exposes
+ * it to the rest of the panel as `getSessionExpiry`.
+ *
+ * @param makeApiRequest - The scheduler-routed transport.
+ * @returns `expiresAt` (ISO), or `null` when there is no session or it cannot be
+ *   read. Never throws.
+ */
+export async function readSessionExpiry(
+  makeApiRequest: CoreApi['makeApiRequest'],
+): Promise<string | null> {
+  try {
+    const response = await makeApiRequest(OKTA_SESSION_ENDPOINT, 'GET', undefined, 'high');
+    if (!response.success) return null;
+    return parseOkta(oktaSessionSchema, response.data, `GET ${OKTA_SESSION_ENDPOINT}`).expiresAt;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Global progress lifecycle hooks the operation runner drives. Supplied by
  * `useOktaApi` from `ProgressContext` (or no-ops outside a provider).
@@ -71,6 +112,30 @@ export interface RunOperationOptions<T> {
   stopOnError?: (error: unknown, item: T, index: number) => boolean;
   /** Derive the status message shown in the activity bar from the live counts. */
   message?: (progress: BatchProgress) => string;
+  /** Awaited before each task starts (see {@link RunBatchOptions.onItemStart}). */
+  onItemStart?: RunBatchOptions<T>['onItemStart'];
+  /** Awaited after each task settles (see {@link RunBatchOptions.onItemSettled}). */
+  onItemSettled?: RunBatchOptions<T>['onItemSettled'];
+  /**
+   * Persist per-item progress in the operation journal, so an interrupted run can be
+   * resumed or rolled back from a reopened panel. A task signals Okta's refusal by
+   * throwing `WriteRejectedError`; any other rejection is journaled as unknown.
+   */
+  journal?: RunOperationJournal<T>;
+  /**
+   * An already-journaled operation this run works on (a recovery pass), whose entry
+   * is kept fresh while the run lasts, as a `journal` run's own entry is.
+   */
+  journaledAs?: string;
+}
+
+/** The journal entry {@link CoreApi.runOperation} writes for a journaled run. */
+export interface RunOperationJournal<T> {
+  kind: JournalOperationKind;
+  groupId: string;
+  groupName: string;
+  /** The id each item's write targets, and a readable label for it. */
+  describe: (item: T) => { key: string; label: string };
 }
 
 /**
@@ -262,6 +327,18 @@ export function createCoreApi(
     }
   };
 
+  /**
+   * Warn, without stopping, when a long run will probably outlast the admin's
+   * session. A run that does is not lost — the scheduler pauses it on the first
+   * session error — but the admin would rather sign in again before walking away.
+   */
+  const warnIfRunOutlastsSession = async (itemCount: number): Promise<void> => {
+    if (itemCount < SESSION_CHECK_MIN_ITEMS || !callbacks.onResult) return;
+    const expiresAt = await readSessionExpiry(makeApiRequest);
+    const warning = expiresAt && longRunWarning(itemCount, expiresAt, Date.now());
+    if (warning) callbacks.onResult({ message: warning, type: 'warning' });
+  };
+
   /**
    * Run `items` through `task` as one tracked, cancellable operation. See
    * {@link CoreApi.runOperation}.
@@ -274,14 +351,48 @@ export function createCoreApi(
   ): Promise<BatchOutcome<T, R>> => {
     resetCancellation();
     progress.start(name, items.length);
+    let journalId: string | null = null;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
     try {
+      await warnIfRunOutlastsSession(items.length);
+      const { journal, onItemStart, onItemSettled } = options;
+      if (journal) {
+        journalId = await operationJournal.begin({
+          kind: journal.kind,
+          title: name,
+          groupId: journal.groupId,
+          groupName: journal.groupName,
+          items: items.map(journal.describe),
+        });
+      }
+      const id = journalId;
+      // A run held between items (cool-down, paused queue, sign-in hold) writes
+      // nothing, so keep its entry fresh or another panel would offer to recover it.
+      const live = id ?? options.journaledAs;
+      if (live) heartbeat = setInterval(() => void operationJournal.heartbeat(live), HEARTBEAT_MS);
+
       return await runBatch(items, task, {
         concurrency: options.concurrency,
         stopOnError: options.stopOnError,
         throwIfCancelled: checkCancelled,
         onProgress: (p) => progress.reportBatch(p, options.message?.(p)),
+        onItemStart: async (item, index) => {
+          if (id) await operationJournal.markStarted(id, index);
+          await onItemStart?.(item, index);
+        },
+        onItemSettled: async (result) => {
+          if (id) {
+            const error = result.error instanceof Error ? result.error.message : undefined;
+            await operationJournal.markSettled(id, result.index, settledItemState(result), error);
+          }
+          await onItemSettled?.(result);
+        },
       });
     } finally {
+      clearInterval(heartbeat);
+      // Reached only by a run that ended in this panel; an interrupted one leaves
+      // its entry behind for recovery.
+      if (journalId) await operationJournal.finish(journalId);
       progress.complete();
     }
   };
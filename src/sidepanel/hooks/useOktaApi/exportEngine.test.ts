@@ -211,6 +211,28 @@ describe('fetchAllRows pagination', () => {
     expect(makeApiRequest).toHaveBeenCalledTimes(1);
   });
 
+  it("reads a descriptor's own rows instead of paging, validating and capping them", async () => {
+    const malformed = { status: 'ACTIVE', profile: makeUser('x').profile };
+    const readRows = vi
+      .fn()
+      .mockResolvedValue([
+        makeUser('00uFAKE1'),
+        malformed,
+        makeUser('00uFAKE2'),
+        makeUser('00uFAKE3'),
+      ]);
+    const makeApiRequest = vi.fn();
+    const core = makeCore({ makeApiRequest });
+    const { fetchAllRows } = createExportEngineOperations(core);
+
+    const result = await fetchAllRows(makeDescriptor({ readRows, maxRows: 2 }), '/api/v1/users');
+
+    expect(readRows).toHaveBeenCalledWith(core);
+    expect(makeApiRequest).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ fetched: 4, dropped: 1, capped: true });
+    expect(result.rows.map((r) => r.id)).toEqual(['00uFAKE1', '00uFAKE2']);
+  });
+
   it('throws with the transport error when a page fails', async () => {
     const makeApiRequest = vi.fn().mockResolvedValueOnce({ success: false, error: 'rate limited' });
     const core = makeCore({ makeApiRequest });
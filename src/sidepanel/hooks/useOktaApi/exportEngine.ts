@@ -66,14 +66,16 @@ export interface RunExportArgs<Row> {
  * Build the export-engine operations bound to a {@link CoreApi} transport.
  *
  * @param coreApi - Shared transport surface (scheduler-routed requests + audit).
- * @returns `{ fetchAllRows, countRows, runExport }`.
+ * @returns `{ fetchAllRows, countRows, buildExportCsv, runExport }`.
  */
 export function createExportEngineOperations(coreApi: CoreApi) {
   /**
    * Fetch every row for a resolved endpoint, paginating on the `Link` header.
    *
    * Uses `'low'` priority so bulk export reads never starve interactive UI, checks
-   * cancellation between pages, and validates each page in the side panel.
+   * cancellation between pages, and validates each page in the side panel. A
+   * descriptor with its own `readRows` is read through that instead, and its rows
+   * validated and capped the same way.
    *
    * @param descriptor - The entity descriptor (supplies the schema and cap).
    * @param resolvedEndpoint - First-page endpoint from `buildExportEndpoint`.
@@ -93,6 +95,19 @@ export function createExportEngineOperations(coreApi: CoreApi) {
     let capped = false;
     let nextUrl: string | null = resolvedEndpoint;
 
+    if (descriptor.readRows) {
+      coreApi.checkCancelled();
+      const raw = await descriptor.readRows(coreApi);
+      const valid = parseOktaList(descriptor.schema, raw, context) as Row[];
+      onPage?.(valid.length);
+      return {
+        rows: valid.slice(0, cap),
+        fetched: raw.length,
+        dropped: raw.length - valid.length,
+        capped: valid.length > cap,
+      };
+    }
+
     while (nextUrl) {
       coreApi.checkCancelled();
       const response = await coreApi.makeApiRequest(nextUrl, 'GET', undefined, 'low');
@@ -144,12 +159,16 @@ export function createExportEngineOperations(coreApi: CoreApi) {
   };
 
   /**
-   * Project rows through the enabled columns, download the CSV, and audit it.
+   * Project rows through the enabled columns into CSV text, and audit the export.
+   * Downloads nothing: the scheduled reports keep the text with their run.
    *
-   * @param args - Descriptor, fetched rows, enabled column ids, optional label.
+   * @param args - Descriptor, fetched rows and enabled column ids.
+   * @returns The CSV text.
    */
-  const runExport = async <Row>(args: RunExportArgs<Row>): Promise<void> => {
-    const { descriptor, rows, enabledColumnIds, contextLabel } = args;
+  const buildExportCsv = async <Row>(
+    args: Omit<RunExportArgs<Row>, 'contextLabel'>,
+  ): Promise<string> => {
+    const { descriptor, rows, enabledColumnIds } = args;
     const startTime = Date.now();
 
     const columns = descriptor.columnCatalog.filter((column) =>
@@ -165,13 +184,22 @@ export function createExportEngineOperations(coreApi: CoreApi) {
     );
 
     const csv = generateCSV(headers, dataRows);
-    const stem = sanitizeFilename(contextLabel ?? descriptor.displayName);
-    downloadCSV(csv, `${stem}-${descriptor.id}-${getDateForFilename()}.csv`);
-
     await logExportAudit(coreApi, descriptor, rows.length, startTime);
+    return csv;
+  };
+
+  /**
+   * Project rows through the enabled columns, download the CSV, and audit it.
+   *
+   * @param args - Descriptor, fetched rows, enabled column ids, optional label.
+   */
+  const runExport = async <Row>(args: RunExportArgs<Row>): Promise<void> => {
+    const csv = await buildExportCsv(args);
+    const stem = sanitizeFilename(args.contextLabel ?? args.descriptor.displayName);
+    downloadCSV(csv, `${stem}-${args.descriptor.id}-${getDateForFilename()}.csv`);
   };
 
-  return { fetchAllRows, countRows, runExport };
+  return { fetchAllRows, countRows, buildExportCsv, runExport };
 }
 
 /**
@@ -12,66 +12,18 @@
 import { describe, it, expect, vi } from 'vitest';
 import { createGroupBulkOperations } from './groupBulkOps';
 import type { CoreApi } from './core';
-import { makeFakeCore } from '@/test/factories/coreApi';
+import { makeBatchCore } from '@/test/factories/coreApi';
 import type { OktaUser } from './types';
 import { OperationCancelledError } from '../../../shared/scheduler/cancellation';
 import type { BulkOperation } from '../../../shared/types';
 
-/** Build a fake CoreApi whose runOperation actually drives the per-item task. */
-/**
- * Keeps its own executor rather than `sequentialRunOperation`: this is the only
- * suite that exercises `stopOnError`, so it needs the halt-and-skip semantics
- * the shared helper deliberately leaves out.
- */
+/** A batch core that reads every group as "Group". */
 const makeCore = (overrides: Partial<CoreApi> = {}): CoreApi =>
-  makeFakeCore({
+  makeBatchCore({
     makeApiRequest: vi
       .fn()
       .mockResolvedValue({ success: true, data: { profile: { name: 'Group' } } }),
     getCurrentUser: vi.fn().mockResolvedValue({ email: 'admin', id: 'admin' }),
-    runOperation: vi.fn(
-      async (
-        _name: string,
-        items: unknown[],
-        task: (item: unknown, index: number) => Promise<unknown>,
-        options?: { stopOnError?: (error: unknown, item: unknown, index: number) => boolean },
-      ) => {
-        const results: Array<{
-          item: unknown;
-          index: number;
-          status: string;
-          value?: unknown;
-          error?: unknown;
-        }> = [];
-        let completed = 0;
-        let failed = 0;
-        let halted = false;
-        for (let i = 0; i < items.length; i++) {
-          if (halted) {
-            results.push({ item: items[i], index: i, status: 'skipped' });
-            continue;
-          }
-          try {
-            const value = await task(items[i], i);
-            results.push({ item: items[i], index: i, status: 'fulfilled', value });
-            completed++;
-          } catch (error) {
-            results.push({ item: items[i], index: i, status: 'rejected', error });
-            failed++;
-            if (options?.stopOnError?.(error, items[i], i)) halted = true;
-          }
-        }
-        return {
-          results,
-          total: items.length,
-          completed,
-          failed,
-          skipped: items.length - completed - failed,
-          stoppedByError: halted,
-          cancelled: false,
-        };
-      },
-    ),
     ...overrides,
   });
 
@@ -315,6 +267,48 @@ describe('executeBulkOperation cleanup_inactive', () => {
     expect(results[0].errors).toEqual(['boom']);
     expect(results[1].status).toBe('success');
   });
+
+  // A 403 means no other removal will be allowed either, so it halts the group
+  // like a thrown error.
+  it('marks the group failed when Okta forbids a removal', async () => {
+    const members = [user('00uFAKEB', 'DEPROVISIONED')];
+    const getAllGroupMembers = vi.fn().mockResolvedValue(members);
+    const removeUserFromGroup = vi
+      .fn()
+      .mockResolvedValue({ success: false, status: 403, error: 'Forbidden' });
+    const core = makeCore();
+    const { executeBulkOperation } = createGroupBulkOperations(
+      core,
+      removeUserFromGroup,
+      getAllGroupMembers,
+    );
+
+    const results = await executeBulkOperation(bulkOp('cleanup_inactive', ['00gFAKE1']));
+
+    expect(results[0].status).toBe('failed');
+    expect(results[0].errors).toEqual(['Forbidden']);
+  });
+
+  it('keeps going past a refused removal and reports it against the user', async () => {
+    const members = [user('00uFAKEB', 'DEPROVISIONED'), user('00uFAKEC', 'SUSPENDED')];
+    const getAllGroupMembers = vi.fn().mockResolvedValue(members);
+    const removeUserFromGroup = vi
+      .fn()
+      .mockResolvedValueOnce({ success: false, status: 404, error: 'Not found' })
+      .mockResolvedValue({ success: true });
+    const core = makeCore();
+    const { executeBulkOperation } = createGroupBulkOperations(
+      core,
+      removeUserFromGroup,
+      getAllGroupMembers,
+    );
+
+    const results = await executeBulkOperation(bulkOp('cleanup_inactive', ['00gFAKE1']));
+
+    expect(removeUserFromGroup).toHaveBeenCalledTimes(2);
+    expect(results[0].status).toBe('success');
+    expect(results[0].errors).toEqual([`${members[0].profile.login}: Not found`]);
+  });
 });
 
 describe('executeBulkOperation export_all', () => {
@@ -8,6 +8,7 @@ import type { OktaUser } from './types';
 import type { BulkOperation, BulkOperationResult } from '../../../shared/types';
 import type { RequestResult } from '../../../shared/scheduler/types';
 import { OperationCancelledError } from '../../../shared/scheduler/cancellation';
+import { WriteRejectedError } from '../../../shared/storage/operationJournal';
 
 /** A bulk-operation result, extended with the member list some operations return. */
 interface BulkGroupResult extends BulkOperationResult {
@@ -91,19 +92,34 @@ export function createGroupBulkOperations(
             result.itemsProcessed = inactiveUsers.length;
 
             // ADR-0009: removals run through the shared operation runner —
-            // scheduler-rate-limited, activity-bar visible, one Cancel. The
-            // first rejection halts the group's remaining removals and is
-            // re-raised so the group is recorded as failed (matching the old
-            // serial loop's abort semantics).
+            // scheduler-rate-limited, activity-bar visible, one Cancel. A
+            // refused DELETE is a rejection so the journal does not record it
+            // as done, but it stays a per-user failure, as it was before the
+            // journal: only a 403 (nothing else will be allowed either) or a
+            // thrown error halts the group's remaining removals, and that is
+            // re-raised so the group is recorded as failed.
             const outcome = await coreApi.runOperation(
               'Remove inactive members',
               inactiveUsers,
               async (user) => {
-                await removeUserFromGroup(groupId, groupName, user);
+                const removal = await removeUserFromGroup(groupId, groupName, user);
+                if (!removal.success) {
+                  throw new WriteRejectedError(
+                    removal.error || 'Failed to remove user',
+                    removal.status,
+                  );
+                }
               },
               {
-                stopOnError: () => true,
+                stopOnError: (error) =>
+                  !(error instanceof WriteRejectedError) || error.status === 403,
                 message: (p) => `Removing inactive members (${p.completed}/${p.total})`,
+                journal: {
+                  kind: 'remove-members',
+                  groupId,
+                  groupName,
+                  describe: (user) => ({ key: user.id, label: user.profile.login }),
+                },
               },
             );
             if (outcome.cancelled) {
@@ -111,12 +127,18 @@ export function createGroupBulkOperations(
               // like the old loop's propagated OperationCancelledError.
               throw new OperationCancelledError();
             }
-            const rejected = outcome.results.find((r) => r.status === 'rejected');
-            if (rejected) {
-              throw rejected.error instanceof Error
-                ? rejected.error
-                : new Error('Failed to remove inactive members');
+            const errors: string[] = [];
+            for (const r of outcome.results) {
+              if (r.status !== 'rejected') continue;
+              const refused = r.error instanceof WriteRejectedError && r.error.status !== 403;
+              if (!refused) {
+                throw r.error instanceof Error
+                  ? r.error
+                  : new Error('Failed to remove inactive members');
+              }
+              errors.push(`${r.item.profile.login}: ${(r.error as Error).message}`);
             }
+            if (errors.length > 0) result.errors = errors;
             break;
           }
 
@@ -9,6 +9,7 @@ import type { RequestResult } from '../../../shared/scheduler/types';
 import type { BulkUserInfo } from '../../../shared/undoTypes';
 import { logBulkRemoveAction } from '../../../shared/undoManager';
 import { auditStore } from '../../../shared/storage/auditStore';
+import { WriteRejectedError } from '../../../shared/storage/operationJournal';
 import { fetchAllPages, OKTA_PAGE_SIZE } from '@/shared/utils/oktaPagination';
 import { oktaUserListItemSchema, type OktaUserListItem } from '@/shared/schemas/okta';
 import { OperationCancelledError } from '../../../shared/scheduler/cancellation';
@@ -145,24 +146,27 @@ export function createGroupCleanupOperations(
       // Remove deprovisioned users concurrently through the shared operation runner:
       // rate-limit-safe (each DELETE still routes through the scheduler), with a live
       // done/active/failed view and one Cancel. Stops on the first 403 (a permissions
-      // wall), matching the prior sequential behavior.
+      // wall), matching the prior sequential behavior. Journaled, so a panel closed
+      // mid-run can resume or roll back from where it stopped.
       const outcome = await coreApi.runOperation(
         'Remove deprovisioned users',
         deprovisionedUsers,
         async (user) => {
           const result = await removeUserFromGroup(groupId, groupName, user, true);
           if (!result.success) {
-            const err = new Error(result.error || 'Failed to remove user') as Error & {
-              status?: number;
-            };
-            err.status = result.status;
-            throw err;
+            throw new WriteRejectedError(result.error || 'Failed to remove user', result.status);
           }
           return user;
         },
         {
           stopOnError: (error) => (error as { status?: number }).status === 403,
           message: (p) => `Removing deprovisioned users (${p.completed}/${p.total})`,
+          journal: {
+            kind: 'remove-members',
+            groupId,
+            groupName,
+            describe: (user) => ({ key: user.id, label: user.profile.login }),
+          },
         },
       );
 
@@ -0,0 +1,155 @@
+/**
+ * Tests for the CSV group import: how each identifier resolves, that the dry run
+ * sends no writes, and that the apply pass adds only to-add users, logs one bulk undo
+ * entry and stops at a 403.
+ *
+ * `runOperation` drives the real `runBatch` so `stopOnError` and skipped items behave
+ * as they do in the panel.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createGroupImportOperations, type GroupImportDependencies } from './groupImport';
+import { makeBatchCore } from '@/test/factories/coreApi';
+import type { ImportCandidate } from '@/shared/membership/importPlan';
+
+vi.mock('../../../shared/undoManager', () => ({ logAction: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('../../../shared/storage/auditStore', () => ({
+  auditStore: { logOperation: vi.fn().mockResolvedValue(undefined) },
+}));
+
+import { logAction } from '../../../shared/undoManager';
+import { auditStore } from '../../../shared/storage/auditStore';
+
+const group = { id: '00gFAKE1', name: 'Engineering' };
+
+function candidate(id: string, login: string, email = login): ImportCandidate {
+  return { id, login, email, firstName: 'Test', lastName: id, status: 'ACTIVE' };
+}
+
+const ada = candidate('00uFAKE1000000000000', 'ada@example.com');
+const alan = candidate('00uFAKE2', 'alan', 'alan@example.com');
+const grace = candidate('00uFAKE3', 'grace@example.com');
+
+function makeDeps(overrides: Partial<GroupImportDependencies> = {}): GroupImportDependencies {
+  const byIdOrLogin = new Map([
+    [ada.id, ada],
+    [encodeURIComponent(ada.login), ada],
+    [encodeURIComponent(grace.login), grace],
+  ]);
+  return {
+    getUserById: vi.fn(async (idOrLogin: string) => byIdOrLogin.get(idOrLogin) ?? null),
+    searchUsers: vi.fn(async (query: string) => {
+      if (query === 'alan@example.com') return [alan, candidate('00uFAKE9', 'alan.t@example.com')];
+      if (query === 'shared@example.com')
+        return [
+          candidate('00uFAKE4', 'a', 'shared@example.com'),
+          candidate('00uFAKE5', 'b', 'shared@example.com'),
+        ];
+      return [];
+    }),
+    getAllGroupMembers: vi
+      .fn()
+      .mockResolvedValue([{ id: grace.id, status: 'ACTIVE', profile: {} }]),
+    ensureGroupRulesLoaded: vi
+      .fn()
+      .mockResolvedValue([
+        { id: 'r1', name: 'Engineers by department', status: 'ACTIVE', groupIds: [group.id] },
+      ]),
+    addUserToGroup: vi.fn().mockResolvedValue({ success: true }),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('previewGroupImport', () => {
+  it('resolves ids, logins and emails, and sorts them against the members', async () => {
+    const deps = makeDeps();
+    const ops = createGroupImportOperations(makeBatchCore(), deps);
+
+    const plan = await ops.previewGroupImport(
+      group,
+      'login\n00uFAKE1000000000000\nalan@example.com\ngrace@example.com\nshared@example.com\nnobody@example.com',
+    );
+
+    expect(plan.rows.map((r) => [r.value, r.status])).toEqual([
+      ['00uFAKE1000000000000', 'to-add'],
+      ['alan@example.com', 'to-add'],
+      ['grace@example.com', 'already-member'],
+      ['shared@example.com', 'ambiguous'],
+      ['nobody@example.com', 'not-found'],
+    ]);
+    expect(plan.feedingRuleNames).toEqual(['Engineers by department']);
+    expect(deps.addUserToGroup).not.toHaveBeenCalled();
+  });
+
+  it('never searches for an id that does not exist', async () => {
+    const deps = makeDeps();
+    const ops = createGroupImportOperations(makeBatchCore(), deps);
+
+    const plan = await ops.previewGroupImport(group, '00uFAKE0000000000000');
+
+    expect(plan.rows[0].status).toBe('not-found');
+    expect(deps.searchUsers).not.toHaveBeenCalled();
+  });
+});
+
+describe('applyGroupImport', () => {
+  it('adds the to-add users without per-user undo, then logs one bulk undo entry', async () => {
+    const deps = makeDeps();
+    const ops = createGroupImportOperations(makeBatchCore(), deps);
+    const plan = await ops.previewGroupImport(
+      group,
+      'ada@example.com\nalan@example.com\ngrace@example.com',
+    );
+
+    const result = await ops.applyGroupImport(plan);
+
+    expect(deps.addUserToGroup).toHaveBeenCalledTimes(2);
+    expect(deps.addUserToGroup).toHaveBeenCalledWith(
+      group.id,
+      group.name,
+      expect.objectContaining({ id: ada.id }),
+      true,
+    );
+    expect(result).toMatchObject({ added: 2, failed: 0, notSent: 0 });
+    expect(logAction).toHaveBeenCalledWith(
+      'Imported 2 members into Engineering',
+      expect.objectContaining({
+        type: 'BULK_ADD_USERS_TO_GROUP',
+        groupId: group.id,
+        users: [
+          expect.objectContaining({ userId: ada.id }),
+          expect.objectContaining({ userId: alan.id }),
+        ],
+      }),
+    );
+    expect(auditStore.logOperation).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'add_users', result: 'success' }),
+    );
+  });
+
+  it('stops at a 403 and reports the rest as not sent', async () => {
+    const deps = makeDeps({
+      addUserToGroup: vi
+        .fn()
+        .mockResolvedValueOnce({ success: false, status: 403, error: 'Forbidden' }),
+    });
+    const ops = createGroupImportOperations(makeBatchCore(), deps);
+    const plan = await ops.previewGroupImport(group, 'ada@example.com\nalan@example.com');
+
+    const result = await ops.applyGroupImport(plan);
+
+    expect(deps.addUserToGroup).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ added: 0, failed: 1, notSent: 1 });
+    expect(result.outcomes.get(ada.id)).toEqual({ result: 'failed', error: 'Forbidden' });
+    expect(result.outcomes.get(alan.id)).toEqual({ result: 'not-sent' });
+    expect(logAction).not.toHaveBeenCalled();
+    expect(auditStore.logOperation).toHaveBeenCalledWith(
+      expect.objectContaining({ result: 'failed' }),
+    );
+  });
+});
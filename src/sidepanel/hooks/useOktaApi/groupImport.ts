@@ -0,0 +1,242 @@
+/**
+ * @module hooks/useOktaApi/groupImport
+ * @description Import a CSV list of users into one group: a dry run, then the adds.
+ *
+ * The dry run ({@link previewGroupImport}) only reads. Each identifier is resolved
+ * like this:
+ *
+ * - An Okta user id (`00u…`) is fetched with `getUserById`.
+ * - Anything else is first fetched as a login — `GET /api/v1/users/{login}` accepts
+ *   one. When no user has that login, `searchUsers` runs and only exact login/email
+ *   matches count: one is resolved, several are ambiguous, none is not found.
+ *
+ * Both lookups read an error as "no user", so an unanswered lookup shows as not
+ * found rather than as a match. The group's current members and the org's rules are
+ * then read once each, and `shared/membership/importPlan` sorts the rows.
+ *
+ * The apply pass ({@link applyGroupImport}) adds only the plan's to-add users, one
+ * `addUserToGroup` call each under {@link CoreApi.runOperation}. Per-user undo entries
+ * are skipped and one `BULK_ADD_USERS_TO_GROUP` entry is logged for everyone added,
+ * as the merge wizard does. The run is not journaled: an interrupted import is
+ * re-run from the same CSV, and the rows it already added read as already-member.
+ */
+
+import type { CoreApi } from './core';
+import type { AuditLogEntry } from './types';
+import type { FormattedRule, OktaUser } from '../../../shared/types';
+import { auditStore } from '../../../shared/storage/auditStore';
+import { WriteRejectedError } from '../../../shared/storage/operationJournal';
+import { logAction } from '../../../shared/undoManager';
+import {
+  exactMatches,
+  looksLikeUserId,
+  parseImportIdentifiers,
+  planGroupImport,
+  type ImportCandidate,
+  type ImportOutcome,
+  type ImportPlan,
+  type ImportResolution,
+} from '../../../shared/membership/importPlan';
+import { createLogger } from '../../../shared/utils/logger';
+
+const log = createLogger('useOktaApi');
+
+/** The apply pass's result. */
+export interface GroupImportResult {
+  /** Outcome per to-add user id. */
+  outcomes: Map<string, ImportOutcome>;
+  added: number;
+  failed: number;
+  /** To-add users never sent because the run was cancelled or halted. */
+  notSent: number;
+  cancelled: boolean;
+}
+
+/** The reads and the write the import is built from. */
+export interface GroupImportDependencies {
+  getUserById: (idOrLogin: string) => Promise<ImportCandidate | null>;
+  searchUsers: (query: string) => Promise<ImportCandidate[]>;
+  getAllGroupMembers: (groupId: string) => Promise<OktaUser[]>;
+  ensureGroupRulesLoaded: () => Promise<FormattedRule[] | null>;
+  addUserToGroup: (
+    groupId: string,
+    groupName: string,
+    user: {
+      id: string;
+      profile: { login: string; firstName: string; lastName: string; email: string };
+    },
+    skipUndoLog?: boolean,
+  ) => Promise<{ success: boolean; error?: string; status?: number }>;
+}
+
+/**
+ * Build the CSV group-import operations.
+ *
+ * @param coreApi - Shared transport surface (see {@link CoreApi}).
+ * @param deps - User lookups, member and rule reads, and the membership add.
+ * @returns `{ previewGroupImport, applyGroupImport }`.
+ */
+export function createGroupImportOperations(coreApi: CoreApi, deps: GroupImportDependencies) {
+  /** Resolve one identifier — see the module doc for the order of lookups. */
+  const resolveIdentifier = async (value: string): Promise<ImportResolution> => {
+    const direct = await deps.getUserById(encodeURIComponent(value));
+    if (direct && (looksLikeUserId(value) || exactMatches(value, [direct]).length > 0)) {
+      return { status: 'resolved', user: direct };
+    }
+    if (looksLikeUserId(value)) return { status: 'not-found' };
+
+    const matches = exactMatches(value, await deps.searchUsers(value));
+    if (matches.length === 1) return { status: 'resolved', user: matches[0] };
+    if (matches.length > 1) return { status: 'ambiguous', candidates: matches };
+    return { status: 'not-found' };
+  };
+
+  /**
+   * Dry-run an import: resolve every CSV row and sort it against the group's members.
+   * Sends no writes.
+   *
+   * @param group - The target group.
+   * @param csvText - The uploaded or pasted CSV.
+   * @returns The {@link ImportPlan}.
+   * @throws Error when the member listing fails, or when the lookups are cancelled.
+   */
+  const previewGroupImport = async (
+    group: { id: string; name: string },
+    csvText: string,
+  ): Promise<ImportPlan> => {
+    const identifiers = parseImportIdentifiers(csvText);
+    const resolutions = new Map<string, ImportResolution>();
+
+    const outcome = await coreApi.runOperation(
+      `Resolve import for ${group.name}`,
+      identifiers.rows,
+      async (row) => {
+        resolutions.set(row.value.toLowerCase(), await resolveIdentifier(row.value));
+      },
+      { message: (p) => `Resolved ${p.completed}/${p.total} users` },
+    );
+    if (outcome.cancelled) throw new Error('Import preview cancelled');
+
+    const members = await deps.getAllGroupMembers(group.id);
+    const rules = (await deps.ensureGroupRulesLoaded()) ?? [];
+
+    return planGroupImport(
+      group,
+      identifiers,
+      resolutions,
+      new Set(members.map((member) => member.id)),
+      rules,
+    );
+  };
+
+  /**
+   * Add the plan's to-add users to the group.
+   *
+   * Stops at the first 403 — the admin cannot write this group, so every further
+   * add would be refused too. Logs one bulk undo entry and one audit entry.
+   *
+   * @param plan - A plan from {@link previewGroupImport}.
+   * @returns Per-user outcomes and totals.
+   */
+  const applyGroupImport = async (plan: ImportPlan): Promise<GroupImportResult> => {
+    const startTime = Date.now();
+    const { group } = plan;
+
+    const outcome = await coreApi.runOperation(
+      `Import members into ${group.name}`,
+      plan.toAdd,
+      async (user) => {
+        const result = await deps.addUserToGroup(
+          group.id,
+          group.name,
+          {
+            id: user.id,
+            profile: {
+              login: user.login,
+              firstName: user.firstName,
+              lastName: user.lastName,
+              email: user.email,
+            },
+          },
+          true,
+        );
+        if (!result.success) {
+          throw new WriteRejectedError(result.error || 'Okta refused the request', result.status);
+        }
+      },
+      {
+        stopOnError: (error) => (error as { status?: number }).status === 403,
+        message: (p) => `Adding members to ${group.name} (${p.completed}/${p.total})`,
+      },
+    );
+
+    const outcomes = new Map<string, ImportOutcome>();
+    const added: ImportCandidate[] = [];
+    const errorMessages: string[] = [];
+    for (const result of outcome.results) {
+      if (result.status === 'fulfilled') {
+        outcomes.set(result.item.id, { result: 'added' });
+        added.push(result.item);
+      } else if (result.status === 'rejected') {
+        const error = result.error instanceof Error ? result.error.message : 'No response';
+        outcomes.set(result.item.id, { result: 'failed', error });
+        errorMessages.push(`${result.item.login}: ${error}`);
+      } else {
+        outcomes.set(result.item.id, { result: 'not-sent' });
+      }
+    }
+    const failed = errorMessages.length;
+
+    if (added.length > 0) {
+      await logAction(
+        `Imported ${added.length} member${added.length === 1 ? '' : 's'} into ${group.name}`,
+        {
+          type: 'BULK_ADD_USERS_TO_GROUP',
+          users: added.map((user) => ({
+            userId: user.id,
+            userEmail: user.email,
+            userName: `${user.firstName} ${user.lastName}`.trim(),
+          })),
+          groupId: group.id,
+          groupName: group.name,
+        },
+      );
+    }
+
+    if (added.length + failed > 0) {
+      const currentUser = await coreApi.getCurrentUser();
+      const auditEntry: AuditLogEntry = {
+        id: crypto.randomUUID(),
+        timestamp: new Date(),
+        action: 'add_users',
+        groupId: group.id,
+        groupName: group.name,
+        performedBy: currentUser.email,
+        affectedUsers: outcome.results
+          .filter((result) => result.status !== 'skipped')
+          .map((result) => result.item.id),
+        result: failed === 0 ? 'success' : added.length === 0 ? 'failed' : 'partial',
+        details: {
+          usersSucceeded: added.length,
+          usersFailed: failed,
+          apiRequestCount: added.length + failed,
+          durationMs: Date.now() - startTime,
+          errorMessages: errorMessages.length > 0 ? errorMessages : undefined,
+        },
+      };
+      auditStore.logOperation(auditEntry).catch((err) => {
+        log.error('Failed to log audit entry:', err);
+      });
+    }
+
+    return {
+      outcomes,
+      added: added.length,
+      failed,
+      notSent: outcome.skipped,
+      cancelled: outcome.cancelled,
+    };
+  };
+
+  return { previewGroupImport, applyGroupImport };
+}
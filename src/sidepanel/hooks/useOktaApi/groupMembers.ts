@@ -251,7 +251,9 @@ export function createGroupMemberOperations(
    * @param groupId - Target group id.
    * @param groupName - Human-readable name for undo/result messages.
    * @param user - The user to add (id + profile fields).
-   * @returns `{ success, error? }` distilled from the underlying request.
+   * @param skipUndoLog - When `true`, suppresses the per-user undo entry and result
+   * message; bulk callers set this and log one aggregate undo action at the end.
+   * @returns `{ success, error?, status? }` distilled from the underlying request.
    */
   const addUserToGroup = async (
     groupId: string,
@@ -260,14 +262,17 @@ export function createGroupMemberOperations(
       id: string;
       profile: { login: string; firstName: string; lastName: string; email: string };
     },
-  ): Promise<{ success: boolean; error?: string }> => {
+    skipUndoLog = false,
+  ): Promise<{ success: boolean; error?: string; status?: number }> => {
     const result = await coreApi.makeApiRequest(
       `/api/v1/groups/${groupId}/users/${user.id}`,
       'PUT',
     );
 
-    if (result.success) {
-      onMembershipChanged?.(groupId);
+    // As in `removeUserFromGroup`, the membership moved whatever `skipUndoLog` says.
+    if (result.success) onMembershipChanged?.(groupId);
+
+    if (result.success && !skipUndoLog) {
       await logAction(`Added ${user.profile.firstName} ${user.profile.lastName} to ${groupName}`, {
         type: 'ADD_USER_TO_GROUP',
         userId: user.id,
@@ -282,7 +287,7 @@ export function createGroupMemberOperations(
       });
     }
 
-    return { success: result.success, error: result.error };
+    return { success: result.success, error: result.error, status: result.status };
   };
 
   return {
@@ -12,7 +12,7 @@
  */
 
 export * from './types';
-export { createCoreApi } from './core';
+export { createCoreApi, readSessionExpiry } from './core';
 export { createGroupMemberOperations } from './groupMembers';
 export { createGroupCleanupOperations } from './groupCleanup';
 export { createGroupBulkOperations } from './groupBulkOps';
@@ -26,4 +26,27 @@ export { createPushGroupOperations } from './pushGroupOps';
 export { createGroupAnalysisOperations } from './groupAnalysis';
 export { createRuleImpactOperations } from './ruleImpact';
 export { createRuleWriteOperations } from './ruleWrites';
+export { createRuleAuthoringOperations } from './ruleAuthoring';
+export { createJournalRecoveryOperations, type RecoveryOutcome } from './journalRecovery';
+export { createGroupImportOperations, type GroupImportResult } from './groupImport';
+export { createBulkProfileOperations, type BulkProfileResult } from './bulkProfileUpdate';
+export { createAccessReviewOperations } from './accessReview';
+export { createMembershipSnapshotOperations } from './membershipSnapshots';
+export { createSystemLogOperations, type LogPage, type RecentDeletions } from './systemLog';
+export { createSamlCaptureOperations } from './samlCapture';
+export { createCertificateOperations, type CertificateDependencies } from './certificates';
+export {
+  createAdminRoleOperations,
+  type AdminRoleSubject,
+  type GrantRoleResult,
+} from './adminRoles';
+export { createLinkedObjectOperations } from './linkedObjects';
+export { createApiConsoleOperations } from './apiConsole';
+export { createSessionOperations } from './session';
+export { createUserFactorOperations, type FactorSubject } from './userFactors';
+export {
+  createBulkLifecycleOperations,
+  type BulkLifecycleResult,
+  type BulkLifecycleSource,
+} from './bulkLifecycle';
 export { parseNextLink, deepMergeProfiles } from './utilities';
@@ -0,0 +1,216 @@
+/**
+ * Tests for journal recovery: which journaled items resume and roll back act on,
+ * how each pass updates the journal, and when the entry is closed versus released
+ * for another try.
+ *
+ * The journal singleton is replaced with spies over an in-memory item list;
+ * `settledItemState` and `WriteRejectedError` stay real, since the pass's
+ * done/failed/unknown split is exactly what is under test. `runOperation` drives
+ * the real `runBatch`, so the item hooks fire as they do in the panel.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createJournalRecoveryOperations } from './journalRecovery';
+import { makeBatchCore } from '@/test/factories/coreApi';
+import type {
+  InterruptedOperation,
+  JournalItem,
+  JournalItemState,
+} from '@/shared/storage/operationJournal';
+
+const { journal, store } = vi.hoisted(() => {
+  const store: { items: JournalItem[] } = { items: [] };
+  const setState = (index: number, state: JournalItemState) => {
+    store.items = store.items.map((item) => (item.index === index ? { ...item, state } : item));
+  };
+  const journal = {
+    claim: vi.fn(async () => true),
+    release: vi.fn(async () => {}),
+    finish: vi.fn(async () => {}),
+    listInterrupted: vi.fn(async () => []),
+    getItems: vi.fn(async () => store.items),
+    markStarted: vi.fn(async (_id: string, index: number) => setState(index, 'unknown')),
+    markSettled: vi.fn(async (_id: string, index: number, state: JournalItemState) =>
+      setState(index, state),
+    ),
+  };
+  return { journal, store };
+});
+
+vi.mock('../../../shared/storage/operationJournal', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../shared/storage/operationJournal')>()),
+  operationJournal: journal,
+}));
+vi.mock('../../../shared/storage/auditStore', () => ({
+  auditStore: { logOperation: vi.fn().mockResolvedValue(undefined) },
+}));
+
+import { auditStore } from '../../../shared/storage/auditStore';
+
+const operation: InterruptedOperation = {
+  id: 'op-1',
+  kind: 'remove-members',
+  title: 'Remove deprovisioned users',
+  groupId: '00gFAKE1',
+  groupName: 'Engineering',
+  total: 5,
+  createdAt: 0,
+  updatedAt: 0,
+  sessionId: null,
+  counts: { pending: 1, done: 1, failed: 1, unknown: 1, restored: 1 },
+};
+
+const item = (index: number, state: JournalItemState): JournalItem => ({
+  index,
+  key: `00uFAKE${index}`,
+  label: `user${index}@example.com`,
+  state,
+});
+
+/** The user ids `makeApiRequest` was called for, with their method. */
+const calls = (makeApiRequest: ReturnType<typeof vi.fn>) =>
+  makeApiRequest.mock.calls.map(([endpoint, method]) => `${method} ${endpoint}`);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  store.items = [
+    item(0, 'done'),
+    item(1, 'unknown'),
+    item(2, 'pending'),
+    item(3, 'failed'),
+    item(4, 'restored'),
+  ];
+});
+
+describe('resumeInterruptedOperation', () => {
+  it('re-sends the removal for pending and unknown items only, then closes the entry', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({ success: true });
+    const onMembershipChanged = vi.fn();
+    const ops = createJournalRecoveryOperations(
+      makeBatchCore({ makeApiRequest }),
+      onMembershipChanged,
+    );
+
+    const outcome = await ops.resumeInterruptedOperation(operation);
+
+    expect(calls(makeApiRequest)).toEqual([
+      'DELETE /api/v1/groups/00gFAKE1/users/00uFAKE1',
+      'DELETE /api/v1/groups/00gFAKE1/users/00uFAKE2',
+    ]);
+    expect(outcome).toMatchObject({ missing: false, succeeded: 2, remaining: 0 });
+    expect(journal.finish).toHaveBeenCalledWith('op-1');
+    expect(journal.release).not.toHaveBeenCalled();
+    expect(onMembershipChanged).toHaveBeenCalledWith('00gFAKE1');
+    expect(auditStore.logOperation).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'remove_users', result: 'success' }),
+    );
+  });
+
+  it('treats a 404 removal as nothing left to remove', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({ success: false, status: 404 });
+    const ops = createJournalRecoveryOperations(makeBatchCore({ makeApiRequest }));
+
+    const outcome = await ops.resumeInterruptedOperation(operation);
+
+    expect(outcome.succeeded).toBe(2);
+    expect(journal.finish).toHaveBeenCalled();
+  });
+
+  it('keeps a thrown request unknown and releases the entry for another try', async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('The message port closed before a response was received.'))
+      .mockResolvedValue({ success: true });
+    const ops = createJournalRecoveryOperations(makeBatchCore({ makeApiRequest }));
+
+    const outcome = await ops.resumeInterruptedOperation(operation);
+
+    expect(outcome).toMatchObject({ succeeded: 1, unknown: 1, remaining: 1 });
+    expect(store.items[1].state).toBe('unknown');
+    expect(journal.release).toHaveBeenCalledWith('op-1');
+    expect(journal.finish).not.toHaveBeenCalled();
+  });
+
+  it('records an Okta refusal as failed and does not retry it later', async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockResolvedValueOnce({ success: false, status: 400, error: 'Bad request' })
+      .mockResolvedValue({ success: true });
+    const ops = createJournalRecoveryOperations(makeBatchCore({ makeApiRequest }));
+
+    const outcome = await ops.resumeInterruptedOperation(operation);
+
+    expect(outcome).toMatchObject({ succeeded: 1, failed: 1, remaining: 0 });
+    expect(store.items[1].state).toBe('failed');
+    expect(auditStore.logOperation).toHaveBeenCalledWith(
+      expect.objectContaining({ result: 'partial' }),
+    );
+  });
+
+  it('sends nothing when another panel already closed the entry', async () => {
+    journal.claim.mockResolvedValueOnce(false);
+    const makeApiRequest = vi.fn();
+    const ops = createJournalRecoveryOperations(makeBatchCore({ makeApiRequest }));
+
+    const outcome = await ops.resumeInterruptedOperation(operation);
+
+    expect(outcome.missing).toBe(true);
+    expect(makeApiRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('rollBackInterruptedOperation', () => {
+  it('re-adds done and unknown items and marks them restored', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({ success: true });
+    const ops = createJournalRecoveryOperations(makeBatchCore({ makeApiRequest }));
+
+    const outcome = await ops.rollBackInterruptedOperation(operation);
+
+    expect(calls(makeApiRequest)).toEqual([
+      'PUT /api/v1/groups/00gFAKE1/users/00uFAKE0',
+      'PUT /api/v1/groups/00gFAKE1/users/00uFAKE1',
+    ]);
+    expect(store.items.map((i) => i.state)).toEqual([
+      'restored',
+      'restored',
+      'pending',
+      'failed',
+      'restored',
+    ]);
+    expect(outcome.remaining).toBe(0);
+    expect(journal.markStarted).not.toHaveBeenCalled();
+    expect(journal.finish).toHaveBeenCalledWith('op-1');
+    expect(auditStore.logOperation).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'add_users' }),
+    );
+  });
+
+  it('leaves a refused re-add in its prior state and keeps the entry', async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockResolvedValueOnce({ success: false, status: 403, error: 'Forbidden' })
+      .mockResolvedValue({ success: true });
+    const ops = createJournalRecoveryOperations(makeBatchCore({ makeApiRequest }));
+
+    const outcome = await ops.rollBackInterruptedOperation(operation);
+
+    // The 403 halts the pass: the second item is never sent.
+    expect(makeApiRequest).toHaveBeenCalledTimes(1);
+    expect(store.items[0].state).toBe('done');
+    expect(outcome).toMatchObject({ succeeded: 0, failed: 1, remaining: 2 });
+    expect(journal.release).toHaveBeenCalledWith('op-1');
+  });
+});
+
+describe('abandonInterruptedOperation', () => {
+  it('closes the entry without sending anything', async () => {
+    const makeApiRequest = vi.fn();
+    const ops = createJournalRecoveryOperations(makeBatchCore({ makeApiRequest }));
+
+    await ops.abandonInterruptedOperation('op-1');
+
+    expect(journal.finish).toHaveBeenCalledWith('op-1');
+    expect(makeApiRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * @module hooks/useOktaApi/journalRecovery
+ * @description Resume, roll back or abandon a journaled bulk operation that a
+ * closed panel left unfinished.
+ *
+ * The journal (`shared/storage/operationJournal`) records every item of a
+ * journaled run with one of five states. Recovery acts on them like this:
+ *
+ * - **Resume** re-sends the removal for `'pending'` and `'unknown'` items. An
+ *   unknown removal may already have applied; sending it again is safe because a
+ *   membership DELETE is idempotent. `'failed'` items are not retried — Okta
+ *   already refused them.
+ * - **Roll back** re-adds `'done'` and `'unknown'` items, and marks each re-added
+ *   item `'restored'`. A re-add is a direct membership even where the user was
+ *   originally rule-assigned; the UI says so before the admin confirms.
+ * - **Abandon** deletes the entry. Nothing is sent.
+ *
+ * Resume and roll back each claim the entry first, so a second panel does not
+ * offer it at the same time. When a pass leaves items unresolved (cancelled,
+ * refused, or unanswered), the entry is released and offered again; otherwise it
+ * is closed. Each pass writes one audit entry.
+ */
+
+import type { CoreApi } from './core';
+import type { AuditLogEntry } from './types';
+import { auditStore } from '../../../shared/storage/auditStore';
+import {
+  operationJournal,
+  settledItemState,
+  WriteRejectedError,
+  type InterruptedOperation,
+  type JournalItem,
+  type JournalItemState,
+} from '../../../shared/storage/operationJournal';
+import { createLogger } from '../../../shared/utils/logger';
+
+const log = createLogger('useOktaApi');
+
+/** The result of one resume or roll-back pass. */
+export interface RecoveryOutcome {
+  /** The entry was gone — another panel finished or abandoned it. Nothing was sent. */
+  missing: boolean;
+  /** Items whose write Okta accepted in this pass. */
+  succeeded: number;
+  /** Items Okta refused in this pass. */
+  failed: number;
+  /** Items sent in this pass without an answer. */
+  unknown: number;
+  /** Items still to resume or roll back; the entry stays journaled when non-zero. */
+  remaining: number;
+  /** The pass was cancelled before every item was sent. */
+  cancelled: boolean;
+}
+
+const MISSING: RecoveryOutcome = {
+  missing: true,
+  succeeded: 0,
+  failed: 0,
+  unknown: 0,
+  remaining: 0,
+  cancelled: false,
+};
+
+/** The error text a rejected item is journaled with. */
+function errorText(error: unknown): string | undefined {
+  return error instanceof Error ? error.message : undefined;
+}
+
+/**
+ * Build the journal recovery operations.
+ *
+ * @param coreApi - Shared transport surface (see {@link CoreApi}).
+ * @param onMembershipChanged - Called with the group id after a pass that moved a
+ * membership, so the caller can drop cached member lists.
+ * @returns `{ listInterruptedOperations, getInterruptedItems,
+ * resumeInterruptedOperation, rollBackInterruptedOperation,
+ * abandonInterruptedOperation }`.
+ */
+export function createJournalRecoveryOperations(
+  coreApi: CoreApi,
+  onMembershipChanged?: (groupId: string) => void,
+) {
+  /**
+   * Run one recovery pass over the items in `targets` states, then close or
+   * release the entry and audit the pass.
+   */
+  const runPass = async (
+    operation: InterruptedOperation,
+    pass: {
+      name: string;
+      method: 'DELETE' | 'PUT';
+      targets: JournalItemState[];
+      action: AuditLogEntry['action'];
+      /** Journal writes for one item. Roll back records only successes. */
+      onItemStart?: (item: JournalItem) => Promise<void>;
+      onItemSettled: (
+        item: JournalItem,
+        state: 'done' | 'failed' | 'unknown',
+        error?: string,
+      ) => Promise<void>;
+    },
+  ): Promise<RecoveryOutcome> => {
+    if (!(await operationJournal.claim(operation.id))) return MISSING;
+
+    const startTime = Date.now();
+    const items = (await operationJournal.getItems(operation.id)).filter((item) =>
+      pass.targets.includes(item.state),
+    );
+
+    const outcome = await coreApi.runOperation(
+      pass.name,
+      items,
+      async (item) => {
+        const result = await coreApi.makeApiRequest(
+          `/api/v1/groups/${operation.groupId}/users/${item.key}`,
+          pass.method,
+        );
+        // A removal answered 404 has nothing left to remove.
+        if (!result.success && !(pass.method === 'DELETE' && result.status === 404)) {
+          throw new WriteRejectedError(result.error || 'Okta refused the request', result.status);
+        }
+      },
+      {
+        stopOnError: (error) => (error as { status?: number }).status === 403,
+        message: (p) => `${pass.name} (${p.completed}/${p.total})`,
+        journaledAs: operation.id,
+        onItemStart: pass.onItemStart,
+        onItemSettled: (result) =>
+          pass.onItemSettled(result.item, settledItemState(result), errorText(result.error)),
+      },
+    );
+
+    let succeeded = 0;
+    let failed = 0;
+    let unknown = 0;
+    const affectedUsers: string[] = [];
+    const errorMessages: string[] = [];
+    for (const result of outcome.results) {
+      if (result.status === 'skipped') continue;
+      affectedUsers.push(result.item.key);
+      const state = settledItemState(result);
+      if (state === 'done') succeeded += 1;
+      else {
+        if (state === 'failed') failed += 1;
+        else unknown += 1;
+        errorMessages.push(`${result.item.label}: ${errorText(result.error) ?? 'No response'}`);
+      }
+    }
+
+    if (succeeded > 0) onMembershipChanged?.(operation.groupId);
+
+    const remaining = (await operationJournal.getItems(operation.id)).filter((item) =>
+      pass.targets.includes(item.state),
+    ).length;
+    if (remaining === 0) {
+      await operationJournal.finish(operation.id);
+    } else {
+      await operationJournal.release(operation.id);
+    }
+
+    if (affectedUsers.length > 0) {
+      const currentUser = await coreApi.getCurrentUser();
+      const auditEntry: AuditLogEntry = {
+        id: crypto.randomUUID(),
+        timestamp: new Date(),
+        action: pass.action,
+        groupId: operation.groupId,
+        groupName: operation.groupName,
+        performedBy: currentUser.email,
+        affectedUsers,
+        result:
+          succeeded === affectedUsers.length ? 'success' : succeeded === 0 ? 'failed' : 'partial',
+        details: {
+          usersSucceeded: succeeded,
+          usersFailed: failed + unknown,
+          apiRequestCount: affectedUsers.length,
+          durationMs: Date.now() - startTime,
+          errorMessages: errorMessages.length > 0 ? errorMessages : undefined,
+        },
+      };
+      auditStore.logOperation(auditEntry).catch((err) => {
+        log.error('Failed to log audit entry:', err);
+      });
+    }
+
+    return { missing: false, succeeded, failed, unknown, remaining, cancelled: outcome.cancelled };
+  };
+
+  /** Interrupted operations no live panel is running, newest first. */
+  const listInterruptedOperations = () => operationJournal.listInterrupted();
+
+  /** One interrupted operation's items, in batch order. */
+  const getInterruptedItems = (operationId: string) => operationJournal.getItems(operationId);
+
+  /**
+   * Finish an interrupted removal: remove every `'pending'` and `'unknown'` item,
+   * journaling each one exactly as the original run did.
+   */
+  const resumeInterruptedOperation = (operation: InterruptedOperation) =>
+    runPass(operation, {
+      name: `Resume: ${operation.title}`,
+      method: 'DELETE',
+      targets: ['pending', 'unknown'],
+      action: 'remove_users',
+      onItemStart: (item) => operationJournal.markStarted(operation.id, item.index),
+      onItemSettled: (item, state, error) =>
+        operationJournal.markSettled(operation.id, item.index, state, error),
+    });
+
+  /**
+   * Reverse an interrupted removal: re-add every `'done'` and `'unknown'` item as a
+   * direct member. An item whose re-add was refused or unanswered keeps its state,
+   * so a later roll back tries it again.
+   */
+  const rollBackInterruptedOperation = (operation: InterruptedOperation) =>
+    runPass(operation, {
+      name: `Roll back: ${operation.title}`,
+      method: 'PUT',
+      targets: ['done', 'unknown'],
+      action: 'add_users',
+      onItemSettled: async (item, state) => {
+        if (state === 'done')
+          await operationJournal.markSettled(operation.id, item.index, 'restored');
+      },
+    });
+
+  /** Discard an interrupted operation's journal entry. Sends nothing. */
+  const abandonInterruptedOperation = (operationId: string) => operationJournal.finish(operationId);
+
+  return {
+    listInterruptedOperations,
+    getInterruptedItems,
+    resumeInterruptedOperation,
+    rollBackInterruptedOperation,
+    abandonInterruptedOperation,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Tests for the linked-object operations: the definitions read, and a
+ * relationship read that resolves each link to a user — listing one whose read
+ * failed by id rather than dropping them, and raising on cancel.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`).
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { createLinkedObjectOperations } from './linkedObjects';
+import { makeFakeCore, sequentialRunOperation } from '@/test/factories/coreApi';
+import { OperationCancelledError } from '../../../shared/scheduler/cancellation';
+
+const link = (id: string) => ({
+  _links: { self: { href: `https://example.okta.com/api/v1/users/${id}` } },
+});
+
+describe('getLinkedObjectDefinitions', () => {
+  it('reads the definitions', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({
+      success: true,
+      data: [{ primary: { name: 'manager' }, associated: { name: 'subordinate' } }],
+      headers: {},
+    });
+    const ops = createLinkedObjectOperations(makeFakeCore({ makeApiRequest }));
+
+    expect(await ops.getLinkedObjectDefinitions()).toHaveLength(1);
+    expect(makeApiRequest).toHaveBeenCalledWith('/api/v1/meta/schemas/user/linkedObjects');
+  });
+
+  it('throws when the definitions cannot be read', async () => {
+    const ops = createLinkedObjectOperations(
+      makeFakeCore({ makeApiRequest: vi.fn().mockResolvedValue({ success: false, error: 'No' }) }),
+    );
+    await expect(ops.getLinkedObjectDefinitions()).rejects.toThrow('No');
+  });
+});
+
+describe('getLinkedUsers', () => {
+  it('reads each linked user, naming one that cannot be read by id', async () => {
+    const makeApiRequest = vi.fn(async (url: string) => {
+      if (url.includes('/linkedObjects/subordinate')) {
+        return { success: true, data: [link('00uFAKE2'), link('00uFAKE3')], headers: {} };
+      }
+      if (url.endsWith('/00uFAKE2')) {
+        return {
+          success: true,
+          data: {
+            id: '00uFAKE2',
+            status: 'ACTIVE',
+            profile: {
+              login: 'ada@example.com',
+              email: 'ada@example.com',
+              firstName: 'Ada',
+              lastName: 'Doe',
+            },
+          },
+          headers: {},
+        };
+      }
+      return { success: false, error: 'Not found' };
+    });
+    const ops = createLinkedObjectOperations(
+      makeFakeCore({ makeApiRequest, runOperation: sequentialRunOperation() }),
+    );
+
+    const people = await ops.getLinkedUsers('00uFAKE1', 'subordinate');
+    expect(people.map((p) => [p.id, p.name, p.user !== null])).toEqual([
+      ['00uFAKE2', 'Ada Doe', true],
+      ['00uFAKE3', '00uFAKE3', false],
+    ]);
+  });
+
+  it('reads no users when the relationship is empty', async () => {
+    const runOperation = vi.fn();
+    const ops = createLinkedObjectOperations(makeFakeCore({ runOperation }));
+
+    expect(await ops.getLinkedUsers('00uFAKE1', 'manager')).toEqual([]);
+    expect(runOperation).not.toHaveBeenCalled();
+  });
+
+  it('raises OperationCancelledError when the user reads are cancelled', async () => {
+    const ops = createLinkedObjectOperations(
+      makeFakeCore({
+        makeApiRequest: vi
+          .fn()
+          .mockResolvedValue({ success: true, data: [link('00uFAKE2')], headers: {} }),
+        runOperation: vi.fn().mockResolvedValue({ results: [], cancelled: true }),
+      }),
+    );
+    await expect(ops.getLinkedUsers('00uFAKE1', 'manager')).rejects.toBeInstanceOf(
+      OperationCancelledError,
+    );
+  });
+});
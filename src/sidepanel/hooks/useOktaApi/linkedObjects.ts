@@ -0,0 +1,108 @@
+/**
+ * @module hooks/useOktaApi/linkedObjects
+ * @description Okta linked objects: the org's relationship definitions, and the
+ * users one relationship of one user points at. The shapes and the org-chart
+ * walk live in `shared/linkedObjects/linkedObjects`.
+ *
+ * Okta answers a relationship read with links only, so each linked user is then
+ * read by id under {@link CoreApi.runOperation} — a `subordinate` read can name
+ * dozens. A user whose read fails is returned named by id, never dropped. Both
+ * reads are read-only and go through the scheduler like every other request.
+ */
+
+import type { CoreApi } from './core';
+import type { OktaUser } from '../../../shared/types';
+import {
+  oktaLinkedObjectDefinitionSchema,
+  oktaLinkedObjectSchema,
+  oktaUserSchema,
+  parseOkta,
+  parseOktaList,
+  type OktaLinkedObject,
+  type OktaLinkedObjectDefinition,
+} from '@/shared/schemas/okta';
+import { fetchAllPages, OKTA_PAGE_SIZE } from '@/shared/utils/oktaPagination';
+import {
+  linkedUserId,
+  toLinkedPerson,
+  unreadPerson,
+  type LinkedPerson,
+} from '../../../shared/linkedObjects/linkedObjects';
+import { OperationCancelledError } from '../../../shared/scheduler/cancellation';
+
+/**
+ * Build the linked-object operations.
+ *
+ * @param coreApi - Shared transport surface (see {@link CoreApi}).
+ * @returns `{ getLinkedObjectDefinitions, getLinkedUsers }`.
+ */
+export function createLinkedObjectOperations(coreApi: CoreApi) {
+  /**
+   * Read the org's linked-object definitions.
+   *
+   * @returns Every definition; empty when the org defines none.
+   * @throws Error when the read fails.
+   */
+  const getLinkedObjectDefinitions = async (): Promise<OktaLinkedObjectDefinition[]> => {
+    const response = await coreApi.makeApiRequest('/api/v1/meta/schemas/user/linkedObjects');
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to read linked-object definitions');
+    }
+    return parseOktaList(
+      oktaLinkedObjectDefinitionSchema,
+      response.data,
+      'GET /api/v1/meta/schemas/user/linkedObjects',
+    );
+  };
+
+  /** Read one linked user; throws when the read fails. */
+  const readUser = async (userId: string): Promise<OktaUser> => {
+    const response = await coreApi.makeApiRequest(`/api/v1/users/${encodeURIComponent(userId)}`);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to read user');
+    }
+    return parseOkta(oktaUserSchema, response.data, 'GET /api/v1/users/{id}');
+  };
+
+  /**
+   * Read the users one relationship of one user points at, e.g. their manager
+   * or their direct reports.
+   *
+   * @param userId - The user.
+   * @param relationship - The relationship name, e.g. `manager` or `subordinate`.
+   * @returns The linked users in Okta's order; one that could not be read is
+   *   named by id.
+   * @throws Error when the relationship itself cannot be read.
+   * @throws OperationCancelledError when the admin cancels the user reads.
+   */
+  const getLinkedUsers = async (userId: string, relationship: string): Promise<LinkedPerson[]> => {
+    const links = await fetchAllPages<OktaLinkedObject>(
+      (url) => coreApi.makeApiRequest(url),
+      `/api/v1/users/${encodeURIComponent(userId)}/linkedObjects/${encodeURIComponent(
+        relationship,
+      )}?limit=${OKTA_PAGE_SIZE}`,
+      {
+        schema: oktaLinkedObjectSchema,
+        context: 'GET /api/v1/users/{id}/linkedObjects/{relationship}',
+        errorMessage: 'Failed to read linked users',
+      },
+    );
+    const ids = links
+      .map((link) => linkedUserId(link._links.self.href))
+      .filter((id): id is string => id !== null);
+    if (ids.length === 0) return [];
+
+    const outcome = await coreApi.runOperation('Linked users', ids, readUser, {
+      message: (p) => `Reading linked users (${p.completed}/${p.total})`,
+    });
+    if (outcome.cancelled) throw new OperationCancelledError();
+
+    return outcome.results.map((result) =>
+      result.status === 'fulfilled' && result.value
+        ? toLinkedPerson(result.value)
+        : unreadPerson(result.item),
+    );
+  };
+
+  return { getLinkedObjectDefinitions, getLinkedUsers };
+}
@@ -0,0 +1,66 @@
+/**
+ * Tests for the membership snapshot operation: one member read, each member's
+ * source taken from Okta's embed, signed with the admin's login, and no writes.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `example.com`).
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { createMembershipSnapshotOperations } from './membershipSnapshots';
+import { makeFakeCore, FAKE_ADMIN } from '@/test/factories/coreApi';
+import type { OktaUser } from '@/shared/types';
+
+function member(id: string, embedded?: unknown): OktaUser {
+  return {
+    id,
+    status: 'ACTIVE',
+    profile: {
+      login: `${id}@example.com`,
+      email: `${id}@example.com`,
+      firstName: 'Test',
+      lastName: id,
+    },
+    ...(embedded !== undefined ? { _embedded: embedded } : {}),
+  } as OktaUser;
+}
+
+describe('takeMembershipSnapshot', () => {
+  it('records each member with the source Okta reported', async () => {
+    const core = makeFakeCore();
+    const getAllGroupMembers = vi
+      .fn()
+      .mockResolvedValue([
+        member('00uFAKE2', { 'group-rules': [{ id: '0prFAKE1', name: 'Sales → CRM' }] }),
+        member('00uFAKE1', { 'group-rules': [] }),
+        member('00uFAKE3'),
+      ]);
+    const ops = createMembershipSnapshotOperations(core, { getAllGroupMembers });
+
+    const snapshot = await ops.takeMembershipSnapshot(
+      { id: '00gFAKE1', name: 'CRM Users' },
+      'before rule change',
+    );
+
+    expect(getAllGroupMembers).toHaveBeenCalledWith('00gFAKE1');
+    expect(snapshot).toMatchObject({
+      groupId: '00gFAKE1',
+      takenBy: FAKE_ADMIN.email,
+      label: 'before rule change',
+    });
+    expect(snapshot.members.map((m) => [m.id, m.source])).toEqual([
+      ['00uFAKE1', 'DIRECT'],
+      ['00uFAKE2', 'RULE_BASED'],
+      ['00uFAKE3', 'UNKNOWN'],
+    ]);
+    expect(core.makeApiRequest).not.toHaveBeenCalled();
+  });
+
+  it('fails when the member list cannot be read', async () => {
+    const ops = createMembershipSnapshotOperations(makeFakeCore(), {
+      getAllGroupMembers: vi.fn().mockRejectedValue(new Error('Failed to fetch group members')),
+    });
+
+    await expect(ops.takeMembershipSnapshot({ id: '00gFAKE1', name: 'CRM Users' })).rejects.toThrow(
+      'Failed to fetch group members',
+    );
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * @module hooks/useOktaApi/membershipSnapshots
+ * @description The Okta side of a membership snapshot: one fresh read of a group's
+ * members. The snapshot model and diff live in `shared/membership/membershipSnapshot`.
+ *
+ * {@link takeMembershipSnapshot} reads the members with `getAllGroupMembers`, which
+ * carries Okta's `group-rules` embed, so each member's source comes from Okta. The
+ * read is made directly rather than through the entity cache: a snapshot taken to
+ * confirm a rule change must not be served a member list from before it.
+ */
+
+import type { CoreApi } from './core';
+import type { OktaUser } from './types';
+import {
+  createMembershipSnapshot,
+  type MembershipSnapshot,
+} from '../../../shared/membership/membershipSnapshot';
+
+/** The member read a snapshot is built from. */
+export interface MembershipSnapshotDependencies {
+  getAllGroupMembers: (groupId: string) => Promise<OktaUser[]>;
+}
+
+/**
+ * Build the membership snapshot operations.
+ *
+ * @param coreApi - Shared transport surface (see {@link CoreApi}).
+ * @param deps - The member read from `createGroupMemberOperations`.
+ * @returns `{ takeMembershipSnapshot }`.
+ */
+export function createMembershipSnapshotOperations(
+  coreApi: CoreApi,
+  deps: MembershipSnapshotDependencies,
+) {
+  /**
+   * Snapshot a group's current members. Sends no writes.
+   *
+   * @param group - The group to snapshot.
+   * @param label - Optional reminder of why it was taken.
+   * @returns The snapshot, not yet stored.
+   * @throws Error when the member list cannot be read.
+   */
+  const takeMembershipSnapshot = async (
+    group: { id: string; name: string },
+    label?: string,
+  ): Promise<MembershipSnapshot> => {
+    const currentUser = await coreApi.getCurrentUser();
+    const members = await deps.getAllGroupMembers(group.id);
+    return createMembershipSnapshot({
+      id: crypto.randomUUID(),
+      group,
+      members,
+      takenBy: currentUser.email,
+      label,
+      now: new Date(),
+    });
+  };
+
+  return { takeMembershipSnapshot };
+}
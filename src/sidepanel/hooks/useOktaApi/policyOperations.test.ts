@@ -2,12 +2,12 @@
  * @module hooks/useOktaApi/policyOperations.test
  * @description Unit tests for the read-only policy operations.
  *
- * Drives `listPolicies` / `getPolicyRules` / `getAppAccessPolicyId` through a
- * fully-mocked `CoreApi` (never chrome), asserting the request shapes, the
- * default `ACCESS_POLICY` type, `Link`-header pagination follow, lenient
- * boundary validation (malformed rows dropped), the never-throw degrade posture,
- * and the defensive `_links.accessPolicy.href` parsing. Fixtures use fake
- * placeholders (`rstFAKE…`, `0oaFAKE…`) per CLAUDE.md.
+ * Drives `listPolicies` / `getPolicyRules` / `getAppAccessPolicyId` /
+ * `listNetworkZones` through a fully-mocked `CoreApi` (never chrome), asserting
+ * the request shapes, the default `ACCESS_POLICY` type, `Link`-header pagination
+ * follow, lenient boundary validation (malformed rows dropped), the never-throw
+ * degrade posture, and the defensive `_links.accessPolicy.href` parsing. Fixtures
+ * use fake placeholders (`rstFAKE…`, `0oaFAKE…`, `nzoFAKE…`) per CLAUDE.md.
  */
 import { describe, it, expect, vi } from 'vitest';
 import {
@@ -391,3 +391,34 @@ describe('extractAccessPolicyId', () => {
     expect(extractAccessPolicyId({ accessPolicy: { href: '/api/v1/policies/' } })).toBeNull();
   });
 });
+
+describe('listNetworkZones', () => {
+  it('lists every zone across pages', async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockResolvedValueOnce({
+        success: true,
+        data: [{ id: 'nzoFAKEzone000000001', name: 'Office VPN', type: 'IP' }],
+        headers: { link: '<https://example.okta.com/api/v1/zones?after=1>; rel="next"' },
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        data: [{ id: 'nzoFAKEzone000000002', name: 'Blocked countries', type: 'DYNAMIC' }],
+        headers: {},
+      });
+    const { listNetworkZones } = createPolicyOperations(makeCore({ makeApiRequest }));
+
+    const zones = await listNetworkZones();
+
+    expect(makeApiRequest.mock.calls[0][0]).toBe('/api/v1/zones?limit=200');
+    expect(zones.map((zone) => zone.name)).toEqual(['Office VPN', 'Blocked countries']);
+  });
+
+  it('returns [] (never throws) when the read fails', async () => {
+    const core = makeCore({
+      makeApiRequest: vi.fn().mockResolvedValue({ success: false, error: 'forbidden' }),
+    });
+
+    expect(await createPolicyOperations(core).listNetworkZones()).toEqual([]);
+  });
+});
@@ -2,8 +2,8 @@
  * @module hooks/useOktaApi/policyOperations
  * @description Read-only authentication/access policy operations (Auth Policies tab).
  *
- * Lists policies of a given type, reads a policy's rules, and resolves the access
- * policy attached to an app. Every request goes through the scheduler path
+ * Lists policies of a given type, reads a policy's rules, resolves the access
+ * policy attached to an app, and lists the network zones rules refer to. Every request goes through the scheduler path
  * (side panel → background `ApiScheduler` → content script) and every response is
  * zod-validated at the boundary (ADR-0006).
  *
@@ -11,8 +11,8 @@
  * mutates a policy, a rule, or an app.
  *
  * @remarks
- * Error posture: the reads here never throw. `listPolicies`/`getPolicyRules`
- * degrade to `[]` and `getAppAccessPolicyId` to `null`, logging the outcome only
+ * Error posture: the reads here never throw. `listPolicies`/`getPolicyRules`/
+ * `listNetworkZones` degrade to `[]` and `getAppAccessPolicyId` to `null`, logging the outcome only
  * — the same never-throw posture as the sibling app reads (`searchApps`,
  * `getAppPushGroupMappings`), chosen because policy endpoints are commonly
  * forbidden for non-super-admins and a single failure must not break the panel.
@@ -22,9 +22,11 @@
 
 import type { CoreApi } from './core';
 import {
+  oktaNetworkZoneSchema,
   oktaPolicyListItemSchema,
   oktaPolicyRuleSchema,
   parseOktaList,
+  type OktaNetworkZone,
   type OktaPolicyListItem,
   type OktaPolicyRule,
 } from '@/shared/schemas/okta';
@@ -116,7 +118,7 @@ export function extractAccessPolicyId(links: unknown): string | null {
  * Build read-only policy operations bound to a {@link CoreApi} transport.
  *
  * @param coreApi - Shared transport surface.
- * @returns `{ listPolicies, getPolicyRules, getAppAccessPolicyId }`.
+ * @returns `{ listPolicies, getPolicyRules, getAppAccessPolicyId, listNetworkZones }`.
  */
 export function createPolicyOperations(coreApi: CoreApi) {
   /**
@@ -203,5 +205,30 @@ export function createPolicyOperations(coreApi: CoreApi) {
     }
   };
 
-  return { listPolicies, getPolicyRules, getAppAccessPolicyId };
+  /**
+   * List the org's network zones, following `Link` pagination.
+   *
+   * @returns Every validated zone, IP and dynamic alike; `[]` on failure (never
+   * throws).
+   * @remarks Rules reference zones by id only, so the policy simulator reads
+   * these to offer a zone by name and to name it in its reasons.
+   */
+  const listNetworkZones = async (): Promise<OktaNetworkZone[]> => {
+    try {
+      return await fetchAllPages<OktaNetworkZone>(
+        (url) => coreApi.makeApiRequest(url, 'GET', undefined, 'normal'),
+        `/api/v1/zones?limit=${OKTA_PAGE_SIZE}`,
+        {
+          schema: oktaNetworkZoneSchema,
+          context: 'GET /api/v1/zones',
+        },
+      );
+    } catch {
+      // Outcome only.
+      log.error('listNetworkZones failed', { code: 'list_zones_failed' });
+      return [];
+    }
+  };
+
+  return { listPolicies, getPolicyRules, getAppAccessPolicyId, listNetworkZones };
 }
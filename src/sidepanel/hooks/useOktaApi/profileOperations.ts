@@ -55,7 +55,12 @@ const log = createLogger('useOktaApi');
  */
 export type UpdateProfileResult =
   | { readonly kind: 'saved'; readonly user: OktaUser }
-  | { readonly kind: 'failed'; readonly error: string }
+  | {
+      readonly kind: 'failed';
+      readonly error: string;
+      /** Okta's HTTP status, when the transport reported one — a bulk run stops at a 403. */
+      readonly status?: number;
+    }
   | { readonly kind: 'unknown'; readonly error: string };
 
 /**
@@ -250,7 +255,11 @@ export function createProfileOperations(coreApi: CoreApi) {
       if (!response.success) {
         // Okta was reached and said no: the profile is unchanged.
         log.error('Profile update rejected', { userId, attributeCount });
-        return { kind: 'failed', error: response.error || 'Okta rejected the profile update' };
+        return {
+          kind: 'failed',
+          error: response.error || 'Okta rejected the profile update',
+          status: response.status,
+        };
       }
 
       const parsed = oktaUserSchema.safeParse(response.data);
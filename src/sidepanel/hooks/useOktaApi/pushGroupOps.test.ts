@@ -2,13 +2,23 @@
  * Tests for the push-group mapping operations: zod validation at the response
  * boundary (ADR-0006) — malformed assignment rows are dropped leniently by
  * `parseOktaList`, never thrown on, while valid rows still map to
- * `PushGroupMapping` records.
+ * `PushGroupMapping` records — and the Group Push mapping reads and audited
+ * writes: a cancelled or failed app is listed rather than read as "no
+ * mappings", push now and delete deactivate first where Okta needs it, and a
+ * write that half-lands is audited as `partial`.
  *
  * Fixtures use only fake placeholders (`0oaFAKE…`, `00gFAKE…`,
  * `example.okta.com`) per CLAUDE.md.
  */
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../shared/storage/auditStore', () => ({
+  auditStore: { logOperation: vi.fn().mockResolvedValue(undefined) },
+}));
+
 import { createPushGroupOperations } from './pushGroupOps';
+import { auditStore } from '../../../shared/storage/auditStore';
+import type { GroupPushLink } from '../../../shared/groupPush/groupPush';
 import type { CoreApi } from './core';
 import type { GroupSummary } from '../../../shared/types';
 import { makeFakeCore, sequentialRunOperation } from '@/test/factories/coreApi';
@@ -239,3 +249,223 @@ describe('applyPushGroupMappings', () => {
     expect(result[0].pushMappings).toBeUndefined();
   });
 });
+
+const app = { id: '0oaFAKE1', name: 'Slack' };
+const source = { id: '00gFAKE1', name: 'Engineering' };
+
+const mapping = (over: Record<string, unknown> = {}) => ({
+  id: 'gpmFAKE1',
+  sourceGroupId: '00gFAKE1',
+  targetGroupId: '00gFAKET1',
+  status: 'ACTIVE',
+  ...over,
+});
+
+const link = (over: Partial<GroupPushLink> = {}): GroupPushLink => ({
+  mappingId: 'gpmFAKE1',
+  appId: '0oaFAKE1',
+  appName: 'Slack',
+  sourceGroupId: '00gFAKE1',
+  sourceGroupName: 'Engineering',
+  targetGroupId: '00gFAKET1',
+  status: 'ACTIVE',
+  ...over,
+});
+
+/** The `details.push` of the one audit entry written. */
+const auditedPush = () => {
+  expect(auditStore.logOperation).toHaveBeenCalledTimes(1);
+  const entry = vi.mocked(auditStore.logOperation).mock.calls[0][0];
+  return { action: entry.action, result: entry.result, push: entry.details.push };
+};
+
+beforeEach(() => {
+  vi.mocked(auditStore.logOperation).mockClear();
+});
+
+describe('getGroupPushLinks', () => {
+  it("reads one group's mappings per app and names the target groups", async () => {
+    const makeApiRequest = vi.fn(async (url: string) => {
+      if (url.startsWith('/api/v1/apps/0oaFAKE1/group-push/mappings')) {
+        return { success: true, data: [mapping({ status: 'ERROR', errorSummary: 'Exists' })] };
+      }
+      if (url.startsWith('/api/v1/groups?search=')) {
+        return { success: true, data: [{ id: '00gFAKET1', profile: { name: 'eng' } }] };
+      }
+      return { success: false, error: 'Forbidden', status: 403 };
+    });
+    const ops = createPushGroupOperations(makeCore({ makeApiRequest }));
+
+    const report = await ops.getGroupPushLinks(source, [app, { id: '0oaFAKE2', name: 'Box' }]);
+
+    expect(makeApiRequest).toHaveBeenCalledWith(
+      '/api/v1/apps/0oaFAKE1/group-push/mappings?limit=200&sourceGroupId=00gFAKE1',
+      'GET',
+      undefined,
+      'low',
+    );
+    expect(report.links).toEqual([
+      expect.objectContaining({
+        sourceGroupName: 'Engineering',
+        targetGroupName: 'eng',
+        status: 'ERROR',
+        errorSummary: 'Exists',
+      }),
+    ]);
+    // A refused read is not "no mappings".
+    expect(report.unreadableApps).toEqual([{ id: '0oaFAKE2', name: 'Box' }]);
+  });
+});
+
+describe('getAppGroupPushLinks', () => {
+  it('names each distinct source group once, keeping the id when a read fails', async () => {
+    const makeApiRequest = vi.fn(async (url: string) => {
+      if (url.includes('/group-push/mappings')) {
+        return {
+          success: true,
+          data: [
+            mapping(),
+            mapping({ id: 'gpmFAKE2', targetGroupId: '00gFAKET2' }),
+            mapping({ id: 'gpmFAKE3', sourceGroupId: '00gFAKE2' }),
+          ],
+        };
+      }
+      if (url.startsWith('/api/v1/groups?search=')) return { success: true, data: [] };
+      if (url === '/api/v1/groups/00gFAKE1') {
+        return { success: true, data: { id: '00gFAKE1', profile: { name: 'Engineering' } } };
+      }
+      return { success: false, status: 404 };
+    });
+    const ops = createPushGroupOperations(makeCore({ makeApiRequest }));
+
+    const links = await ops.getAppGroupPushLinks(app);
+
+    expect(links.map((l) => [l.mappingId, l.sourceGroupName])).toEqual([
+      ['gpmFAKE1', 'Engineering'],
+      ['gpmFAKE2', 'Engineering'],
+      ['gpmFAKE3', undefined],
+    ]);
+    expect(
+      makeApiRequest.mock.calls.filter(([url]) => url.startsWith('/api/v1/groups/')),
+    ).toHaveLength(2);
+  });
+});
+
+describe('getGroupPushMapping', () => {
+  it('returns null for a mapping Okta no longer has, and throws on other failures', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValueOnce({ success: false, status: 404 });
+    const ops = createPushGroupOperations(makeCore({ makeApiRequest }));
+    expect(await ops.getGroupPushMapping('0oaFAKE1', 'gpmFAKE1')).toBeNull();
+
+    makeApiRequest.mockResolvedValueOnce({ success: false, status: 500, error: 'Server error' });
+    await expect(ops.getGroupPushMapping('0oaFAKE1', 'gpmFAKE1')).rejects.toThrow('Server error');
+  });
+});
+
+describe('createGroupPushMapping', () => {
+  it('creates a new target group by name and audits the create', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({ success: true, data: mapping() });
+    const ops = createPushGroupOperations(makeCore({ makeApiRequest }));
+
+    const result = await ops.createGroupPushMapping(app, source, { kind: 'new', name: 'eng' });
+
+    expect(makeApiRequest).toHaveBeenCalledWith(
+      '/api/v1/apps/0oaFAKE1/group-push/mappings',
+      'POST',
+      {
+        sourceGroupId: '00gFAKE1',
+        targetGroupName: 'eng',
+        status: 'ACTIVE',
+      },
+    );
+    expect(result).toEqual({
+      success: true,
+      link: expect.objectContaining({ mappingId: 'gpmFAKE1', targetGroupName: 'eng' }),
+    });
+    expect(auditedPush()).toEqual({
+      action: 'group_push',
+      result: 'success',
+      push: {
+        appId: '0oaFAKE1',
+        mappingId: 'gpmFAKE1',
+        targetGroupId: '00gFAKET1',
+        change: 'create',
+      },
+    });
+  });
+
+  it('links an existing target group, and audits a refusal as failed', async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockResolvedValue({ success: false, error: 'Target group already mapped' });
+    const ops = createPushGroupOperations(makeCore({ makeApiRequest }));
+
+    const result = await ops.createGroupPushMapping(app, source, {
+      kind: 'existing',
+      id: '00gFAKET1',
+    });
+
+    expect(makeApiRequest.mock.calls[0][2]).toEqual({
+      sourceGroupId: '00gFAKE1',
+      targetGroupId: '00gFAKET1',
+      status: 'ACTIVE',
+    });
+    expect(result).toEqual({ success: false, error: 'Target group already mapped' });
+    expect(auditedPush()).toMatchObject({ result: 'failed', push: { change: 'link' } });
+  });
+});
+
+describe('pushGroupNow', () => {
+  it('cycles an active mapping through inactive, and only activates a failed one', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({ success: true, data: mapping() });
+    const ops = createPushGroupOperations(makeCore({ makeApiRequest }));
+
+    expect(await ops.pushGroupNow(link())).toEqual({ success: true });
+    expect(makeApiRequest.mock.calls.map((call) => call[2])).toEqual([
+      { status: 'INACTIVE' },
+      { status: 'ACTIVE' },
+    ]);
+
+    makeApiRequest.mockClear();
+    await ops.pushGroupNow(link({ status: 'ERROR' }));
+    expect(makeApiRequest.mock.calls.map((call) => call[2])).toEqual([{ status: 'ACTIVE' }]);
+  });
+
+  it('says so, and audits partial, when the mapping is left paused', async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockResolvedValueOnce({ success: true, data: mapping({ status: 'INACTIVE' }) })
+      .mockResolvedValueOnce({ success: false, error: 'Rate limited' });
+    const ops = createPushGroupOperations(makeCore({ makeApiRequest }));
+
+    const result = await ops.pushGroupNow(link());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/paused/);
+    expect(auditedPush()).toMatchObject({ result: 'partial', push: { change: 'push' } });
+  });
+});
+
+describe('deleteGroupPushMapping', () => {
+  it('deactivates an active mapping before deleting it, keeping the target group', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({ success: true });
+    const ops = createPushGroupOperations(makeCore({ makeApiRequest }));
+
+    expect(await ops.deleteGroupPushMapping(link(), false)).toEqual({ success: true });
+    expect(makeApiRequest.mock.calls.map((call) => [call[0], call[1]])).toEqual([
+      ['/api/v1/apps/0oaFAKE1/group-push/mappings/gpmFAKE1', 'PATCH'],
+      ['/api/v1/apps/0oaFAKE1/group-push/mappings/gpmFAKE1?deleteTargetGroup=false', 'DELETE'],
+    ]);
+    expect(auditedPush()).toMatchObject({ result: 'success', push: { change: 'delete' } });
+  });
+
+  it('deletes an inactive mapping directly', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({ success: true });
+    const ops = createPushGroupOperations(makeCore({ makeApiRequest }));
+
+    await ops.deleteGroupPushMapping(link({ status: 'INACTIVE' }), true);
+
+    expect(makeApiRequest).toHaveBeenCalledTimes(1);
+    expect(makeApiRequest.mock.calls[0][0]).toMatch(/deleteTargetGroup=true$/);
+  });
+});
@@ -1,23 +1,494 @@
 /**
  * @module hooks/useOktaApi/pushGroupOps
  * @description Push group mapping operations for tracking which groups are pushed to external apps
+ *
+ * Two different Okta collections live here. `getAppPushGroupMappings` and
+ * `applyPushGroupMappings` read an app's **group assignments**
+ * (`/api/v1/apps/{id}/groups`) for the groups list. Everything else works on
+ * Okta's **Group Push mappings** (`/api/v1/apps/{id}/group-push/mappings`), the
+ * rows shaped by `shared/groupPush/groupPush`:
+ *
+ * - reads for one group across every Group Push app, and for every mapping of
+ *   one app, each with both groups named where they can be read;
+ * - the writes — create (into a new target group or an existing one), activate,
+ *   deactivate, push now, and delete — each of which writes a `group_push`
+ *   audit entry, success or failure. Recording them in the undo history is the
+ *   caller's job, as it is for an admin role.
+ *
+ * Okta's public API has no "push now" call. Activating a mapping is what makes
+ * Okta push the source group's current membership, so {@link pushGroupNow}
+ * activates an inactive or failed mapping, and briefly deactivates an active
+ * one first. Okta also refuses to delete an active mapping, so
+ * {@link deleteGroupPushMapping} deactivates it first.
  */
 
 import type { CoreApi } from './core';
-import type { PushGroupMapping, GroupSummary } from '../../../shared/types';
+import type { AuditLogEntry, PushGroupMapping, GroupSummary } from '../../../shared/types';
 import { fetchAllPages, OKTA_PAGE_SIZE } from '@/shared/utils/oktaPagination';
-import { oktaAppGroupAssignmentSchema, type OktaAppGroupAssignment } from '@/shared/schemas/okta';
+import {
+  oktaAppGroupAssignmentSchema,
+  oktaGroupListItemSchema,
+  oktaGroupPushMappingSchema,
+  parseOkta,
+  type OktaAppGroupAssignment,
+  type OktaGroupPushMapping,
+} from '@/shared/schemas/okta';
+import {
+  toGroupPushLink,
+  type GroupPushApp,
+  type GroupPushLink,
+} from '../../../shared/groupPush/groupPush';
+import { auditStore } from '../../../shared/storage/auditStore';
 import { createLogger } from '../../../shared/utils/logger';
 
 const log = createLogger('pushGroupOps');
 
+/** The group a new mapping pushes from. */
+export interface GroupPushSource {
+  id: string;
+  name: string;
+}
+
+/**
+ * Where a new mapping pushes into: a group Okta creates in the app under `name`,
+ * or a group that already exists there.
+ */
+export type GroupPushTarget =
+  { kind: 'new'; name: string } | { kind: 'existing'; id: string; name?: string };
+
+/** Outcome of creating a mapping. */
+export type CreateGroupPushResult =
+  { success: true; link: GroupPushLink } | { success: false; error: string };
+
+/** Outcome of a write to an existing mapping. */
+export interface GroupPushWriteResult {
+  success: boolean;
+  error?: string;
+}
+
+/** A group that lives in an app, offered as an existing push target. */
+export interface AppTargetGroup {
+  id: string;
+  name: string;
+}
+
+/** The mappings of one group across every Group Push app. */
+export interface GroupPushReport {
+  links: GroupPushLink[];
+  /** Apps whose mappings could not be read; their rows are missing, not absent. */
+  unreadableApps: GroupPushApp[];
+}
+
+/** The message of an unknown rejection. */
+const errorText = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+/** What each write is called in the audit trail's `details.push.change`. */
+type GroupPushChange = 'create' | 'link' | 'activate' | 'deactivate' | 'push' | 'delete';
+
 /**
  * Build push-group mapping operations.
  *
  * @param coreApi - Shared transport surface (see {@link CoreApi}).
- * @returns `{ getAppPushGroupMappings, applyPushGroupMappings }`.
+ * @returns `{ getAppPushGroupMappings, applyPushGroupMappings, listAppTargetGroups,
+ * getGroupPushLinks, getAppGroupPushLinks, getGroupPushMapping,
+ * createGroupPushMapping, setGroupPushMappingStatus, pushGroupNow,
+ * deleteGroupPushMapping }`.
  */
 export function createPushGroupOperations(coreApi: CoreApi) {
+  const mappingsPath = (appId: string) =>
+    `/api/v1/apps/${encodeURIComponent(appId)}/group-push/mappings`;
+  const mappingPath = (appId: string, mappingId: string) =>
+    `${mappingsPath(appId)}/${encodeURIComponent(mappingId)}`;
+
+  /** Record a push write in the audit trail; never throws. */
+  const audit = async (
+    change: GroupPushChange,
+    source: GroupPushSource,
+    push: { appId: string; mappingId: string; targetGroupId?: string },
+    startTime: number,
+    apiRequestCount: number,
+    result: AuditLogEntry['result'],
+    error?: string,
+  ): Promise<void> => {
+    const currentUser = await coreApi.getCurrentUser();
+    const entry: AuditLogEntry = {
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      action: 'group_push',
+      groupId: source.id,
+      groupName: source.name,
+      performedBy: currentUser.email,
+      // A push changes the app's copy of the group, not anyone's membership.
+      affectedUsers: [],
+      result,
+      details: {
+        usersSucceeded: 0,
+        usersFailed: 0,
+        apiRequestCount,
+        durationMs: Date.now() - startTime,
+        push: { ...push, change },
+        ...(error ? { errorMessages: [error] } : {}),
+      },
+    };
+    auditStore.logOperation(entry).catch((err) => {
+      log.error('Failed to log audit entry:', err);
+    });
+  };
+
+  /** The source group a link names, for the audit trail. */
+  const sourceOf = (link: GroupPushLink): GroupPushSource => ({
+    id: link.sourceGroupId,
+    name: link.sourceGroupName ?? link.sourceGroupId,
+  });
+
+  /** Set a mapping's status; one request. */
+  const patchStatus = (link: GroupPushLink, status: 'ACTIVE' | 'INACTIVE') =>
+    coreApi.makeApiRequest(mappingPath(link.appId, link.mappingId), 'PATCH', { status });
+
+  /**
+   * List the groups that live in an app — the targets an existing-group push can
+   * write into.
+   *
+   * @param appId - The app.
+   * @returns Every group whose source is the app, by name.
+   * @throws Error when a page cannot be read.
+   */
+  const listAppTargetGroups = async (appId: string): Promise<AppTargetGroup[]> => {
+    const search = encodeURIComponent(`source.id eq "${appId}"`);
+    const groups = await fetchAllPages(
+      (url) => coreApi.makeApiRequest(url, 'GET', undefined, 'low'),
+      `/api/v1/groups?search=${search}&limit=${OKTA_PAGE_SIZE}`,
+      {
+        schema: oktaGroupListItemSchema,
+        context: 'GET /api/v1/groups?search=source.id',
+        errorMessage: "Failed to read the app's groups",
+      },
+    );
+    return groups
+      .map((group) => ({ id: group.id, name: group.profile?.name ?? group.id }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  };
+
+  /** One app's mappings, optionally for one source group. Throws on a failed page. */
+  const listMappings = (appId: string, sourceGroupId?: string): Promise<OktaGroupPushMapping[]> => {
+    const filter = sourceGroupId ? `&sourceGroupId=${encodeURIComponent(sourceGroupId)}` : '';
+    return fetchAllPages(
+      (url) => coreApi.makeApiRequest(url, 'GET', undefined, 'low'),
+      `${mappingsPath(appId)}?limit=${OKTA_PAGE_SIZE}${filter}`,
+      {
+        schema: oktaGroupPushMappingSchema,
+        context: 'GET /api/v1/apps/{id}/group-push/mappings',
+        errorMessage: 'Failed to read push mappings',
+      },
+    );
+  };
+
+  /** Target-group names for an app; an unreadable listing names none. */
+  const targetNames = async (appId: string): Promise<Map<string, string>> => {
+    try {
+      const groups = await listAppTargetGroups(appId);
+      return new Map(groups.map((group) => [group.id, group.name]));
+    } catch (error) {
+      log.warn('Target group names unavailable', {
+        appId,
+        message: errorText(error, 'unknown'),
+      });
+      return new Map();
+    }
+  };
+
+  /**
+   * Read one group's mappings in every given app.
+   *
+   * @param source - The group.
+   * @param apps - The apps to ask — those with Group Push enabled.
+   * @returns The mappings, and the apps that could not be read.
+   * @remarks One mapping read per app, plus one target-group listing per app
+   * that has any, through {@link CoreApi.runOperation} at `low` priority. A
+   * cancel returns what was read, with the rest listed as unreadable.
+   */
+  const getGroupPushLinks = async (
+    source: GroupPushSource,
+    apps: readonly GroupPushApp[],
+  ): Promise<GroupPushReport> => {
+    const outcome = await coreApi.runOperation(
+      'Read push mappings',
+      [...apps],
+      async (app) => {
+        const mappings = await listMappings(app.id, source.id);
+        if (mappings.length === 0) return [];
+        const names = await targetNames(app.id);
+        names.set(source.id, source.name);
+        return mappings.map((mapping) => toGroupPushLink(mapping, app, names));
+      },
+      { message: (p) => `Reading push mappings (${p.completed}/${p.total})` },
+    );
+
+    const links: GroupPushLink[] = [];
+    const unreadableApps: GroupPushApp[] = [];
+    for (const result of outcome.results) {
+      if (result.status === 'fulfilled') links.push(...(result.value ?? []));
+      else unreadableApps.push(result.item);
+    }
+    return { links, unreadableApps };
+  };
+
+  /**
+   * Read every mapping of one app, with both groups named.
+   *
+   * @param app - The app.
+   * @returns Its mappings. A group that cannot be read keeps its id.
+   * @throws Error when the mapping list cannot be read.
+   * @remarks One mapping walk, one target-group listing, then one read per
+   * distinct source group through {@link CoreApi.runOperation} at `low`
+   * priority — cancellable, with a cancel leaving the rest unnamed.
+   */
+  const getAppGroupPushLinks = async (app: GroupPushApp): Promise<GroupPushLink[]> => {
+    const mappings = await listMappings(app.id);
+    if (mappings.length === 0) return [];
+    const names = await targetNames(app.id);
+
+    const sourceIds = [...new Set(mappings.map((mapping) => mapping.sourceGroupId))];
+    const outcome = await coreApi.runOperation(
+      'Name pushed groups',
+      sourceIds,
+      async (groupId) => {
+        const response = await coreApi.makeApiRequest(
+          `/api/v1/groups/${encodeURIComponent(groupId)}`,
+          'GET',
+          undefined,
+          'low',
+        );
+        const name = response.success ? response.data?.profile?.name : undefined;
+        if (typeof name === 'string' && name) names.set(groupId, name);
+      },
+      { message: (p) => `Naming pushed groups (${p.completed}/${p.total})` },
+    );
+    if (outcome.cancelled || outcome.skipped > 0) {
+      log.warn('Pushed group names incomplete', {
+        appId: app.id,
+        cancelled: outcome.cancelled,
+        skipped: outcome.skipped,
+      });
+    }
+
+    return mappings.map((mapping) => toGroupPushLink(mapping, app, names));
+  };
+
+  /**
+   * Read one mapping as Okta has it now — the undo path's drift check.
+   *
+   * @param appId - The app.
+   * @param mappingId - The mapping.
+   * @returns The mapping, or `null` when Okta says it no longer exists.
+   * @throws Error on any other failure.
+   */
+  const getGroupPushMapping = async (
+    appId: string,
+    mappingId: string,
+  ): Promise<OktaGroupPushMapping | null> => {
+    const response = await coreApi.makeApiRequest(mappingPath(appId, mappingId));
+    if (!response.success) {
+      if (response.status === 404) return null;
+      throw new Error(response.error || 'Failed to read the push mapping');
+    }
+    return parseOkta(
+      oktaGroupPushMappingSchema,
+      response.data,
+      'GET /api/v1/apps/{id}/group-push/mappings/{id}',
+    );
+  };
+
+  /**
+   * Push a group to an app, into a new target group or an existing one. Audited.
+   *
+   * @param app - The app pushed to.
+   * @param source - The group pushed.
+   * @param target - See {@link GroupPushTarget}.
+   * @param status - The new mapping's status; `ACTIVE` pushes straight away.
+   * @returns The new mapping, or Okta's refusal.
+   */
+  const createGroupPushMapping = async (
+    app: GroupPushApp,
+    source: GroupPushSource,
+    target: GroupPushTarget,
+    status: 'ACTIVE' | 'INACTIVE' = 'ACTIVE',
+  ): Promise<CreateGroupPushResult> => {
+    const startTime = Date.now();
+    const change: GroupPushChange = target.kind === 'new' ? 'create' : 'link';
+    const body =
+      target.kind === 'new'
+        ? { sourceGroupId: source.id, targetGroupName: target.name, status }
+        : { sourceGroupId: source.id, targetGroupId: target.id, status };
+    const response = await coreApi.makeApiRequest(mappingsPath(app.id), 'POST', body);
+    const parsed = response.success ? oktaGroupPushMappingSchema.safeParse(response.data) : null;
+
+    if (!parsed?.success) {
+      const error = response.success
+        ? 'The mapping was created but Okta did not return it; reload the push mappings.'
+        : response.error || 'The push mapping could not be created.';
+      // Accepted but not echoed: most likely created, but nothing can name it.
+      const result = response.success ? 'partial' : 'failed';
+      const targetGroupId = target.kind === 'existing' ? target.id : undefined;
+      await audit(
+        change,
+        source,
+        { appId: app.id, mappingId: '', targetGroupId },
+        startTime,
+        1,
+        result,
+        error,
+      );
+      log.warn('Push mapping create did not succeed', { appId: app.id, groupId: source.id });
+      return { success: false, error };
+    }
+
+    const names = new Map([[source.id, source.name]]);
+    names.set(parsed.data.targetGroupId, target.kind === 'new' ? target.name : (target.name ?? ''));
+    const link = toGroupPushLink(parsed.data, app, names);
+    await audit(
+      change,
+      source,
+      { appId: app.id, mappingId: link.mappingId, targetGroupId: link.targetGroupId },
+      startTime,
+      1,
+      'success',
+    );
+    return { success: true, link };
+  };
+
+  /**
+   * Activate or deactivate a mapping. Audited.
+   *
+   * @param link - The mapping.
+   * @param status - `ACTIVE` resumes pushing (and retries a failed push);
+   *   `INACTIVE` stops it and leaves the target group in the app.
+   * @returns Whether Okta accepted the change.
+   */
+  const setGroupPushMappingStatus = async (
+    link: GroupPushLink,
+    status: 'ACTIVE' | 'INACTIVE',
+  ): Promise<GroupPushWriteResult> => {
+    const startTime = Date.now();
+    const change: GroupPushChange = status === 'ACTIVE' ? 'activate' : 'deactivate';
+    const ref = { appId: link.appId, mappingId: link.mappingId, targetGroupId: link.targetGroupId };
+    const response = await patchStatus(link, status);
+
+    if (!response.success) {
+      const error = response.error || 'The push mapping could not be changed.';
+      await audit(change, sourceOf(link), ref, startTime, 1, 'failed', error);
+      log.warn('Push mapping status change did not succeed', { appId: link.appId, status });
+      return { success: false, error };
+    }
+
+    await audit(change, sourceOf(link), ref, startTime, 1, 'success');
+    return { success: true };
+  };
+
+  /**
+   * Make Okta push the group's current membership now. Audited.
+   *
+   * @param link - The mapping.
+   * @returns Whether the push was started.
+   * @remarks See the module note: an active mapping is deactivated and activated
+   * again; an inactive or failed one is activated. When the deactivation lands
+   * and the activation does not, the mapping is left inactive, and the result
+   * says so.
+   */
+  const pushGroupNow = async (link: GroupPushLink): Promise<GroupPushWriteResult> => {
+    const startTime = Date.now();
+    const ref = { appId: link.appId, mappingId: link.mappingId, targetGroupId: link.targetGroupId };
+    let requests = 0;
+
+    if (link.status === 'ACTIVE') {
+      requests++;
+      const paused = await patchStatus(link, 'INACTIVE');
+      if (!paused.success) {
+        const error = paused.error || 'The push could not be started.';
+        await audit('push', sourceOf(link), ref, startTime, requests, 'failed', error);
+        return { success: false, error };
+      }
+    }
+
+    requests++;
+    const resumed = await patchStatus(link, 'ACTIVE');
+    if (!resumed.success) {
+      const stranded = requests === 2;
+      const error = stranded
+        ? 'The mapping was paused but could not be activated again. Activate it to resume pushing.'
+        : resumed.error || 'The push could not be started.';
+      await audit(
+        'push',
+        sourceOf(link),
+        ref,
+        startTime,
+        requests,
+        stranded ? 'partial' : 'failed',
+        error,
+      );
+      log.warn('Push now did not succeed', { appId: link.appId, stranded });
+      return { success: false, error };
+    }
+
+    await audit('push', sourceOf(link), ref, startTime, requests, 'success');
+    return { success: true };
+  };
+
+  /**
+   * Delete a mapping, deactivating it first when it is not already. Audited.
+   *
+   * @param link - The mapping.
+   * @param deleteTargetGroup - Also delete the target group from the app. When
+   *   `false` the group stays in the app, no longer updated.
+   * @returns Whether the mapping is gone.
+   */
+  const deleteGroupPushMapping = async (
+    link: GroupPushLink,
+    deleteTargetGroup: boolean,
+  ): Promise<GroupPushWriteResult> => {
+    const startTime = Date.now();
+    const ref = { appId: link.appId, mappingId: link.mappingId, targetGroupId: link.targetGroupId };
+    let requests = 0;
+
+    // Okta refuses to delete a mapping that is not inactive.
+    if (link.status !== 'INACTIVE') {
+      requests++;
+      const paused = await patchStatus(link, 'INACTIVE');
+      if (!paused.success) {
+        const error = paused.error || 'The push mapping could not be deactivated for deletion.';
+        await audit('delete', sourceOf(link), ref, startTime, requests, 'failed', error);
+        return { success: false, error };
+      }
+    }
+
+    requests++;
+    const response = await coreApi.makeApiRequest(
+      `${mappingPath(link.appId, link.mappingId)}?deleteTargetGroup=${deleteTargetGroup}`,
+      'DELETE',
+    );
+    if (!response.success) {
+      const stranded = requests === 2;
+      const error = stranded
+        ? 'The mapping was deactivated but could not be deleted.'
+        : response.error || 'The push mapping could not be deleted.';
+      await audit(
+        'delete',
+        sourceOf(link),
+        ref,
+        startTime,
+        requests,
+        stranded ? 'partial' : 'failed',
+        error,
+      );
+      log.warn('Push mapping delete did not succeed', { appId: link.appId, stranded });
+      return { success: false, error };
+    }
+
+    await audit('delete', sourceOf(link), ref, startTime, requests, 'success');
+    return { success: true };
+  };
+
   /**
    * Fetch the push-group mappings for a single app.
    *
@@ -213,5 +684,13 @@ export function createPushGroupOperations(coreApi: CoreApi) {
   return {
     getAppPushGroupMappings,
     applyPushGroupMappings,
+    listAppTargetGroups,
+    getGroupPushLinks,
+    getAppGroupPushLinks,
+    getGroupPushMapping,
+    createGroupPushMapping,
+    setGroupPushMappingStatus,
+    pushGroupNow,
+    deleteGroupPushMapping,
   };
 }
@@ -0,0 +1,98 @@
+/**
+ * Tests for the rule-authoring read operations factory.
+ *
+ * Pins the sample request's shape (endpoint, `low` priority, single page by
+ * default) and the lenient boundary validation that drops malformed rows.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { createRuleAuthoringOperations } from './ruleAuthoring';
+import { makeFakeCore } from '@/test/factories/coreApi';
+
+const userRow = (id: string) => ({
+  id,
+  status: 'ACTIVE',
+  profile: {
+    login: `${id}@example.com`,
+    email: `${id}@example.com`,
+    firstName: 'Fake',
+    lastName: 'User',
+  },
+});
+
+describe('sampleUsersForRule', () => {
+  it('reads one low-priority page and drops rows that fail validation', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({
+      success: true,
+      data: [userRow('00uFAKE1'), { nope: true }, userRow('00uFAKE2')],
+      headers: { link: '<https://example.okta.com/api/v1/users?after=x>; rel="next"' },
+    });
+    const { sampleUsersForRule } = createRuleAuthoringOperations(makeFakeCore({ makeApiRequest }));
+
+    const users = await sampleUsersForRule();
+
+    expect(makeApiRequest).toHaveBeenCalledTimes(1);
+    expect(makeApiRequest).toHaveBeenCalledWith('/api/v1/users?limit=200', 'GET', undefined, 'low');
+    expect(users.map((u) => u.id)).toEqual(['00uFAKE1', '00uFAKE2']);
+  });
+
+  it('throws when the page request fails', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({ success: false, error: 'HTTP 403' });
+    const { sampleUsersForRule } = createRuleAuthoringOperations(makeFakeCore({ makeApiRequest }));
+
+    await expect(sampleUsersForRule()).rejects.toThrow('HTTP 403');
+  });
+});
+
+describe('simulateRuleAcrossOrg', () => {
+  const withDept = (id: string, department: string) => ({
+    ...userRow(id),
+    profile: { ...userRow(id).profile, department },
+  });
+
+  it('pages the whole org, checks for cancellation per page, and sorts users into cohorts', async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockResolvedValueOnce({
+        success: true,
+        data: [withDept('00uFAKE1', 'Sales'), withDept('00uFAKE2', 'Eng')],
+        headers: { link: '<https://example.okta.com/api/v1/users?after=x>; rel="next"' },
+      })
+      .mockResolvedValueOnce({ success: true, data: [withDept('00uFAKE3', 'Sales')], headers: {} });
+    const checkCancelled = vi.fn();
+    const onProgress = vi.fn();
+    const { simulateRuleAcrossOrg } = createRuleAuthoringOperations(
+      makeFakeCore({ makeApiRequest, checkCancelled }),
+    );
+
+    const { rows, summary } = await simulateRuleAcrossOrg(
+      'user.department=="Sales"',
+      { baseline: 'user.department=="Eng"' },
+      onProgress,
+    );
+
+    expect(makeApiRequest).toHaveBeenCalledTimes(2);
+    expect(makeApiRequest).toHaveBeenLastCalledWith(
+      '/api/v1/users?after=x',
+      'GET',
+      undefined,
+      'low',
+    );
+    expect(checkCancelled).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenLastCalledWith(3);
+    expect(rows.map((r) => r.change)).toEqual(['starts', 'stops', 'starts']);
+    expect(summary).toMatchObject({ total: 3, matched: 2, noMatch: 1, starts: 2, stops: 1 });
+  });
+
+  it('stops paging when the operation is cancelled', async () => {
+    const checkCancelled = vi.fn(() => {
+      throw new Error('Operation cancelled');
+    });
+    const makeApiRequest = vi.fn();
+    const { simulateRuleAcrossOrg } = createRuleAuthoringOperations(
+      makeFakeCore({ makeApiRequest, checkCancelled }),
+    );
+
+    await expect(simulateRuleAcrossOrg('user.department=="Sales"')).rejects.toThrow('cancelled');
+    expect(makeApiRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * @module hooks/useOktaApi/ruleAuthoring
+ * @description Read operations behind the Rules tab's authoring workbench.
+ *
+ * The workbench evaluates a draft expression locally (`shared/rules/ruleDraft`,
+ * `shared/membership/ruleSimulation`); this module only fetches the users it
+ * evaluates against. Two reads, both at `low` priority so they never compete with
+ * interactive reads:
+ *
+ * - **sample** — one bounded page, for the live estimate while typing.
+ * - **org-wide simulation** — every page of `/api/v1/users`, on explicit request,
+ *   cancellable between pages through the shared Cancel.
+ *
+ * Rows are validated leniently at the boundary (ADR-0006): a malformed user is
+ * dropped and counted, never thrown on.
+ */
+
+import type { CoreApi } from './core';
+import type { OktaUser } from '../../../shared/types';
+import { oktaUserListItemSchema, type OktaUserListItem } from '@/shared/schemas/okta';
+import { fetchAllPages, OKTA_PAGE_SIZE } from '@/shared/utils/oktaPagination';
+import {
+  simulateRuleExpression,
+  summarizeRuleSimulation,
+  type RuleSimulationOptions,
+  type RuleSimulationSummary,
+  type SimulatedUser,
+} from '@/shared/membership/ruleSimulation';
+
+/** The outcome of {@link RuleAuthoringOperations.simulateRuleAcrossOrg}. */
+export interface RuleSimulationResult {
+  /** One row per org user, in listing order. */
+  rows: SimulatedUser[];
+  summary: RuleSimulationSummary;
+}
+
+/** The operations this factory returns. */
+export interface RuleAuthoringOperations {
+  sampleUsersForRule: (maxPages?: number) => Promise<OktaUser[]>;
+  simulateRuleAcrossOrg: (
+    expression: string,
+    options?: RuleSimulationOptions,
+    onProgress?: (loaded: number) => void,
+  ) => Promise<RuleSimulationResult>;
+}
+
+/**
+ * Build the rule-authoring read operations.
+ *
+ * @param coreApi - Shared transport surface (see {@link CoreApi}).
+ * @returns The population-sample and org-wide simulation reads.
+ */
+export function createRuleAuthoringOperations(coreApi: CoreApi): RuleAuthoringOperations {
+  /**
+   * Fetch a bounded sample of the org's users for a population estimate.
+   *
+   * Okta's default user listing excludes `DEPROVISIONED` users, which rules never
+   * assign anyway, so the sample is already the population a rule acts on.
+   *
+   * @param maxPages - Pages of {@link OKTA_PAGE_SIZE} to read. Defaults to one.
+   * @returns The validated users.
+   * @throws Error when a page request fails.
+   */
+  const sampleUsersForRule = (maxPages = 1): Promise<OktaUser[]> =>
+    fetchAllPages<OktaUserListItem>(
+      (url) => coreApi.makeApiRequest(url, 'GET', undefined, 'low'),
+      `/api/v1/users?limit=${OKTA_PAGE_SIZE}`,
+      {
+        schema: oktaUserListItemSchema,
+        maxPages,
+        context: 'GET /api/v1/users',
+        errorMessage: 'Failed to sample users',
+      },
+    );
+
+  /**
+   * Evaluate a condition against every user in the org.
+   *
+   * Pages the whole listing on the scheduler, then sorts each user into the
+   * match / no-match / unevaluable cohorts — and, given a baseline, into who
+   * starts or stops matching. Nothing about the condition or the users is logged.
+   *
+   * @param expression - The proposed condition.
+   * @param options - Baseline condition and the rule's exclusions.
+   * @param onProgress - Called after each page with the running user count.
+   * @returns Every user's simulated outcome plus the cohort summary.
+   * @throws Error when a page request fails or the operation is cancelled.
+   */
+  const simulateRuleAcrossOrg = async (
+    expression: string,
+    options: RuleSimulationOptions = {},
+    onProgress?: (loaded: number) => void,
+  ): Promise<RuleSimulationResult> => {
+    coreApi.resetCancellation();
+    const users = await fetchAllPages<OktaUserListItem>(
+      (url) => coreApi.makeApiRequest(url, 'GET', undefined, 'low'),
+      `/api/v1/users?limit=${OKTA_PAGE_SIZE}`,
+      {
+        schema: oktaUserListItemSchema,
+        context: 'GET /api/v1/users',
+        errorMessage: 'Failed to list users',
+        onBeforePage: () => coreApi.checkCancelled(),
+        onPage: (_page, totalSoFar) => onProgress?.(totalSoFar),
+      },
+    );
+    const rows = simulateRuleExpression(expression, users, options);
+    return { rows, summary: summarizeRuleSimulation(rows) };
+  };
+
+  return { sampleUsersForRule, simulateRuleAcrossOrg };
+}
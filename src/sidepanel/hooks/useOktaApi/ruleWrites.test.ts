@@ -140,6 +140,59 @@ describe('createGroupRule', () => {
   });
 });
 
+describe('updateGroupRule', () => {
+  it('PUTs the payload to the rule and returns the updated rule on success', async () => {
+    const core = makeCore({
+      makeApiRequest: vi.fn().mockResolvedValue({ success: true, data: validRule() }),
+    });
+    const { updateGroupRule } = createRuleWriteOperations(core);
+    const payload = createPayload();
+
+    const result = await updateGroupRule('0prFAKERULE', payload);
+
+    expect(core.makeApiRequest).toHaveBeenCalledWith(
+      '/api/v1/groups/rules/0prFAKERULE',
+      'PUT',
+      payload,
+    );
+    expect(result.success).toBe(true);
+    expect(result.rule).toMatchObject({ id: '0prFAKERULE' });
+  });
+
+  it('returns the transport error, or a default, when the update fails', async () => {
+    const core = makeCore({
+      makeApiRequest: vi
+        .fn()
+        .mockResolvedValueOnce({ success: false, error: 'rule is active' })
+        .mockResolvedValueOnce({ success: false }),
+    });
+    const { updateGroupRule } = createRuleWriteOperations(core);
+
+    expect(await updateGroupRule('0prFAKERULE', createPayload())).toEqual({
+      success: false,
+      error: 'rule is active',
+    });
+    expect(await updateGroupRule('0prFAKERULE', createPayload())).toEqual({
+      success: false,
+      error: 'Failed to update rule',
+    });
+  });
+
+  it('returns a shape error when the updated-rule response fails validation', async () => {
+    const core = makeCore({
+      makeApiRequest: vi.fn().mockResolvedValue({ success: true, data: { id: 'x' } }),
+    });
+    const { updateGroupRule } = createRuleWriteOperations(core);
+
+    const result = await updateGroupRule('0prFAKERULE', createPayload());
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Updated rule response was not in the expected shape',
+    });
+  });
+});
+
 describe('deleteGroupRule', () => {
   it('DELETEs the rule and passes through success/error', async () => {
     const core = makeCore({
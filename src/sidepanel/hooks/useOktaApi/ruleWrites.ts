@@ -2,9 +2,9 @@
  * @module hooks/useOktaApi/ruleWrites
  * @description Group-rule write operations for consolidation (Feature A4).
  *
- * Create / read-raw / delete / (de)activate group rules, all through the
+ * Create / read-raw / update / delete / (de)activate group rules, all through the
  * rate-limited scheduler path (following the `suspendUser` pattern). Responses
- * from the create/read paths are validated with zod at the boundary (ADR-0006)
+ * from the create/read/update paths are validated with zod at the boundary (ADR-0006)
  * so a shape change surfaces as a clear error rather than a bad write downstream.
  */
 
@@ -31,6 +31,7 @@ export interface CreateRuleResult extends RuleWriteResult {
 export interface RuleWriteOperations {
   getRawGroupRule: (ruleId: string) => Promise<OktaGroupRule | null>;
   createGroupRule: (payload: CreateRulePayload) => Promise<CreateRuleResult>;
+  updateGroupRule: (ruleId: string, payload: CreateRulePayload) => Promise<CreateRuleResult>;
   deleteGroupRule: (ruleId: string) => Promise<RuleWriteResult>;
   activateGroupRule: (ruleId: string) => Promise<RuleWriteResult>;
   deactivateGroupRule: (ruleId: string) => Promise<RuleWriteResult>;
@@ -40,7 +41,7 @@ export interface RuleWriteOperations {
  * Build the group-rule write operations.
  *
  * @param coreApi - Shared transport surface (see {@link CoreApi}).
- * @returns Create/read/delete/(de)activate rule operations.
+ * @returns Create/read/update/delete/(de)activate rule operations.
  */
 export function createRuleWriteOperations(coreApi: CoreApi): RuleWriteOperations {
   /**
@@ -81,6 +82,31 @@ export function createRuleWriteOperations(coreApi: CoreApi): RuleWriteOperations
     }
   };
 
+  /**
+   * Replace a rule's name and conditions in place, keeping its id. Okta requires
+   * the rule to be `INACTIVE`, and ignores any change to its target groups.
+   */
+  const updateGroupRule = async (
+    ruleId: string,
+    payload: CreateRulePayload,
+  ): Promise<CreateRuleResult> => {
+    const response = await coreApi.makeApiRequest(`/api/v1/groups/rules/${ruleId}`, 'PUT', payload);
+    if (!response.success) {
+      return { success: false, error: response.error || 'Failed to update rule' };
+    }
+    try {
+      const rule = parseOkta(
+        oktaGroupRuleSchema,
+        response.data,
+        'PUT /api/v1/groups/rules/{id}',
+      ) as unknown as OktaGroupRule;
+      return { success: true, rule };
+    } catch (err) {
+      log.error('Updated-rule response failed validation', err);
+      return { success: false, error: 'Updated rule response was not in the expected shape' };
+    }
+  };
+
   /** Delete a group rule (Okta requires it to be `INACTIVE`). */
   const deleteGroupRule = async (ruleId: string): Promise<RuleWriteResult> => {
     const response = await coreApi.makeApiRequest(`/api/v1/groups/rules/${ruleId}`, 'DELETE');
@@ -108,6 +134,7 @@ export function createRuleWriteOperations(coreApi: CoreApi): RuleWriteOperations
   return {
     getRawGroupRule,
     createGroupRule,
+    updateGroupRule,
     deleteGroupRule,
     activateGroupRule,
     deactivateGroupRule,
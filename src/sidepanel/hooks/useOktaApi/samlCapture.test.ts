@@ -0,0 +1,34 @@
+/**
+ * Tests for the SSO Inspector's capture: the content script is asked for the
+ * field, its value is returned as-is, and a page without one surfaces the
+ * content script's own message.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { createSamlCaptureOperations } from './samlCapture';
+import { makeFakeCore } from '@/test/factories/coreApi';
+
+describe('captureSamlResponse', () => {
+  it('returns the field value from the Okta tab, undecoded', async () => {
+    const core = makeFakeCore({
+      sendMessage: vi.fn().mockResolvedValue({ success: true, data: 'PHNhbWxwOlJlc3BvbnNlLz4=' }),
+    });
+
+    await expect(createSamlCaptureOperations(core).captureSamlResponse()).resolves.toBe(
+      'PHNhbWxwOlJlc3BvbnNlLz4=',
+    );
+    expect(core.sendMessage).toHaveBeenCalledWith({ action: 'getSamlResponse' });
+  });
+
+  it("throws the content script's message when the page has no field", async () => {
+    const core = makeFakeCore({
+      sendMessage: vi.fn().mockResolvedValue({
+        success: false,
+        error: 'No SAMLResponse on this page. Paste one instead.',
+      }),
+    });
+
+    await expect(createSamlCaptureOperations(core).captureSamlResponse()).rejects.toThrow(
+      'No SAMLResponse on this page',
+    );
+  });
+});
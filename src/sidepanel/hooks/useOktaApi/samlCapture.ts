@@ -0,0 +1,36 @@
+/**
+ * @module hooks/useOktaApi/samlCapture
+ * @description The SSO Inspector's one read from the Okta tab: the raw value of a
+ * `SAMLResponse` form field on the page (`content/samlCapture`).
+ *
+ * This is a content-script message, not an API call — the assertion is on the
+ * page, not behind an endpoint — so it goes through {@link CoreApi.sendMessage}
+ * rather than the scheduler. The value is returned undecoded; decoding it is
+ * `shared/saml/samlResponse`'s, as untrusted input. Nothing here logs it.
+ */
+
+import type { CoreApi } from './core';
+
+/**
+ * Build SAML capture operations bound to a {@link CoreApi} transport.
+ *
+ * @param coreApi - Shared transport surface.
+ * @returns `{ captureSamlResponse }`.
+ */
+export function createSamlCaptureOperations(coreApi: CoreApi) {
+  /**
+   * Read the `SAMLResponse` field from the connected Okta tab.
+   *
+   * @returns The field's raw value.
+   * @throws Error when the page carries none, or the tab cannot be reached.
+   */
+  const captureSamlResponse = async (): Promise<string> => {
+    const response = await coreApi.sendMessage<string>({ action: 'getSamlResponse' });
+    if (!response?.success || !response.data) {
+      throw new Error(response?.error || 'Could not read a SAMLResponse from the Okta tab');
+    }
+    return response.data;
+  };
+
+  return { captureSamlResponse };
+}
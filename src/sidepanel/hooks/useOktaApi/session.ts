@@ -0,0 +1,23 @@
+/**
+ * @module hooks/useOktaApi/session
+ * @description Reads the signed-in admin's Okta session, for its expiry.
+ *
+ * The read itself is `core`'s {@link readSessionExpiry}, which
+ * `core.runOperation` makes before a long run; the `ContextBar` reads it
+ * through `useOktaSession`. What the expiry means is `shared/session/oktaSession`.
+ */
+
+import { readSessionExpiry, type CoreApi } from './core';
+
+/**
+ * Build the session operations.
+ *
+ * @param coreApi - Shared transport surface (see {@link CoreApi}).
+ * @returns `{ getSessionExpiry }`.
+ */
+export function createSessionOperations(coreApi: CoreApi) {
+  /** See {@link readSessionExpiry}. */
+  const getSessionExpiry = (): Promise<string | null> => readSessionExpiry(coreApi.makeApiRequest);
+
+  return { getSessionExpiry };
+}
@@ -0,0 +1,204 @@
+/**
+ * Tests for the System Log reads: the scoped query is sent as built, events are
+ * validated with malformed rows dropped, the next-page cursor follows Okta's
+ * `Link` header, and a refused request surfaces Okta's message. A membership
+ * timeline merges the System Log with local history and survives a refused read.
+ * Recent deletions ask for every deletion event type and collapse to one row
+ * per object.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `example.com`).
+ */
+import { describe, it, expect, vi } from 'vitest';
+
+const { history } = vi.hoisted(() => ({ history: { actions: [] as unknown[], maxSize: 50 } }));
+vi.mock('@/shared/undoManager', () => ({ getUndoHistory: vi.fn(async () => history) }));
+
+import { createSystemLogOperations } from './systemLog';
+import { makeFakeCore } from '@/test/factories/coreApi';
+
+const event = {
+  uuid: 'evt-1',
+  published: '2026-03-02T11:00:00.000Z',
+  eventType: 'user.session.start',
+  displayMessage: 'User login to Okta',
+  actor: { id: '00uFAKE1', type: 'User', alternateId: 'ada@example.com' },
+};
+
+describe('queryLogs', () => {
+  it('sends the scoped query and returns the validated page with its cursor', async () => {
+    const core = makeFakeCore({
+      makeApiRequest: vi.fn().mockResolvedValue({
+        success: true,
+        data: [event, { uuid: 'broken' }],
+        headers: {
+          link: '<https://example.okta.com/api/v1/logs?after=abc&limit=100>; rel="next"',
+        },
+      }),
+    });
+    const ops = createSystemLogOperations(core);
+
+    const page = await ops.queryLogs({
+      scope: { kind: 'user', id: '00uFAKE1', name: 'Ada' },
+      range: '7d',
+      filter: '',
+      q: '',
+    });
+
+    const url = vi.mocked(core.makeApiRequest).mock.calls[0][0];
+    expect(url).toContain('/api/v1/logs?');
+    expect(new URL(url, 'https://example.okta.com').searchParams.get('filter')).toBe(
+      'actor.id eq "00uFAKE1" or target.id eq "00uFAKE1"',
+    );
+    expect(page.events.map((e) => e.uuid)).toEqual(['evt-1']);
+    expect(page.nextUrl).toBe('/api/v1/logs?after=abc&limit=100');
+  });
+
+  it('refuses a scope whose id is not an Okta id without sending anything', async () => {
+    const core = makeFakeCore();
+    const ops = createSystemLogOperations(core);
+
+    await expect(
+      ops.queryLogs({
+        scope: { kind: 'group', id: '00g") or (true', name: 'x' },
+        range: '7d',
+        filter: '',
+        q: '',
+      }),
+    ).rejects.toThrow('Not an Okta group id');
+    expect(core.makeApiRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('getLogPage', () => {
+  it('stops paging on an empty page', async () => {
+    const core = makeFakeCore({
+      makeApiRequest: vi.fn().mockResolvedValue({
+        success: true,
+        data: [],
+        headers: { link: '<https://example.okta.com/api/v1/logs?after=def>; rel="next"' },
+      }),
+    });
+    const page = await createSystemLogOperations(core).getLogPage('/api/v1/logs?after=abc');
+    expect(page).toEqual({ events: [], nextUrl: null });
+  });
+
+  it("surfaces Okta's error for a refused request", async () => {
+    const core = makeFakeCore({
+      makeApiRequest: vi
+        .fn()
+        .mockResolvedValue({ success: false, error: 'Invalid filter expression' }),
+    });
+    await expect(
+      createSystemLogOperations(core).getLogPage('/api/v1/logs?filter=bad'),
+    ).rejects.toThrow('Invalid filter expression');
+  });
+});
+
+describe('getMembershipTimeline', () => {
+  const group = { id: '00gFAKE1', name: 'Engineering' };
+  const localAdd = {
+    id: 'local-1',
+    type: 'ADD_USER_TO_GROUP',
+    timestamp: new Date('2026-03-01T09:00:00Z').getTime(),
+    description: 'Added',
+    status: 'completed',
+    metadata: {
+      type: 'ADD_USER_TO_GROUP',
+      userId: '00uFAKE1',
+      userEmail: 'ada@example.com',
+      userName: 'Ada',
+      groupId: '00gFAKE1',
+      groupName: 'Engineering',
+    },
+  };
+
+  it("reads the pair's membership events and merges this browser's history", async () => {
+    history.actions = [localAdd];
+    const core = makeFakeCore({
+      makeApiRequest: vi.fn().mockResolvedValue({
+        success: true,
+        data: [
+          {
+            uuid: 'evt-1',
+            published: '2026-03-04T09:00:00.000Z',
+            eventType: 'group.user_membership.remove',
+            actor: { id: '00uFAKEADMIN', type: 'User', alternateId: 'admin@example.com' },
+            target: [
+              { id: '00uFAKE1', type: 'User' },
+              { id: '00gFAKE1', type: 'UserGroup' },
+            ],
+          },
+        ],
+        headers: {},
+      }),
+    });
+
+    const timeline = await createSystemLogOperations(core).getMembershipTimeline('00uFAKE1', group);
+
+    const url = vi.mocked(core.makeApiRequest).mock.calls[0][0];
+    expect(new URL(url, 'https://example.okta.com').searchParams.get('filter')).toContain(
+      'target.id eq "00uFAKE1"',
+    );
+    expect(timeline.systemLogError).toBeNull();
+    expect(timeline.entries.map((e) => [e.change, e.by.kind])).toEqual([
+      ['removed', 'admin'],
+      ['added', 'this-browser'],
+    ]);
+  });
+
+  it('still returns local history when the System Log is refused', async () => {
+    history.actions = [localAdd];
+    const core = makeFakeCore({
+      makeApiRequest: vi.fn().mockResolvedValue({ success: false, error: 'Forbidden' }),
+    });
+
+    const timeline = await createSystemLogOperations(core).getMembershipTimeline('00uFAKE1', group);
+
+    expect(timeline.systemLogError).toBe('Forbidden');
+    expect(timeline.entries).toHaveLength(1);
+  });
+});
+
+describe('getRecentDeletions', () => {
+  it('asks for the deletion event types and returns one row per object', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({
+      success: true,
+      data: [
+        {
+          uuid: 'evt-2',
+          published: '2026-03-02T11:00:00.000Z',
+          eventType: 'application.lifecycle.delete',
+          target: [{ id: '0oaFAKE1', type: 'AppInstance', displayName: 'Wiki' }],
+        },
+        {
+          uuid: 'evt-1',
+          published: '2026-03-02T10:00:00.000Z',
+          eventType: 'application.lifecycle.deactivate',
+          target: [{ id: '0oaFAKE1', type: 'AppInstance', displayName: 'Wiki' }],
+        },
+      ],
+      headers: {},
+    });
+    const ops = createSystemLogOperations(makeFakeCore({ makeApiRequest }));
+
+    const result = await ops.getRecentDeletions('30d');
+
+    const url = makeApiRequest.mock.calls[0][0] as string;
+    const filter = new URL(url, 'https://example.okta.com').searchParams.get('filter');
+    expect(filter).toContain('eventType eq "group.rule.delete"');
+    expect(filter).toContain('eventType eq "application.lifecycle.delete"');
+    expect(result).toEqual({
+      objects: [expect.objectContaining({ kind: 'app', change: 'deleted', id: '0oaFAKE1' })],
+      truncated: false,
+    });
+  });
+
+  it("surfaces Okta's refusal", async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockResolvedValue({ success: false, error: 'You do not have permission' });
+    const ops = createSystemLogOperations(makeFakeCore({ makeApiRequest }));
+
+    await expect(ops.getRecentDeletions('7d')).rejects.toThrow('You do not have permission');
+  });
+});
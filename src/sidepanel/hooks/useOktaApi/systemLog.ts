@@ -0,0 +1,168 @@
+/**
+ * @module hooks/useOktaApi/systemLog
+ * @description System Log reads for the Logs tab: one page of `GET /api/v1/logs`
+ * at a time, newest first.
+ *
+ * The query (scope, range, filter, keywords) is built by
+ * `shared/systemLog/logQuery`; this module sends it through the scheduler path and
+ * validates each event at the boundary ({@link oktaLogEventSchema}). A page is
+ * returned with the cursor for the next one rather than walking them all: a busy
+ * user can have thousands of events in 90 days, and the admin usually finds the
+ * one they want on the first screen. There are no write operations in this module.
+ *
+ * {@link getMembershipTimeline} is the exception to paging on demand: one user's
+ * changes in one group are a handful of events, so it reads them all (capped) and
+ * merges them with this browser's history (`shared/membership/membershipTimeline`).
+ * {@link getRecentDeletions} reads every deletion event in a range the same way,
+ * for the recently-deleted browser (`shared/systemLog/deletedObjects`).
+ */
+
+import type { CoreApi } from './core';
+import { oktaLogEventSchema, parseOktaList, type OktaLogEvent } from '@/shared/schemas/okta';
+import { fetchAllPages, nextPageUrl } from '@/shared/utils/oktaPagination';
+import {
+  LOG_PAGE_SIZE,
+  buildLogQueryUrl,
+  membershipEventsQuery,
+  type LogQuery,
+  type LogRangeId,
+} from '@/shared/systemLog/logQuery';
+import {
+  deletedObjectsFromEvents,
+  deletionEventsQuery,
+  type DeletedObject,
+} from '@/shared/systemLog/deletedObjects';
+import {
+  mergeMembershipTimeline,
+  timelineFromLogEvents,
+  timelineFromUndoHistory,
+  type MembershipTimeline,
+} from '@/shared/membership/membershipTimeline';
+import { getUndoHistory } from '@/shared/undoManager';
+
+/** Pages read for one membership's timeline; a pair with more changes than this is an outlier. */
+const TIMELINE_MAX_PAGES = 3;
+
+/** Pages of deletion events read per range; an org deleting more than this is shown its newest. */
+const DELETIONS_MAX_PAGES = 5;
+
+/** The recently deleted objects in a range. */
+export interface RecentDeletions {
+  /** One row per object, newest first. */
+  objects: DeletedObject[];
+  /** Whether the page cap was reached, so older deletions in the range were not read. */
+  truncated: boolean;
+}
+
+/** One page of System Log events. */
+export interface LogPage {
+  /** Validated events, newest first. Malformed rows are dropped. */
+  events: OktaLogEvent[];
+  /** The request for the next page, or `null` when this was the last. */
+  nextUrl: string | null;
+}
+
+/**
+ * Build System Log operations bound to a {@link CoreApi} transport.
+ *
+ * @param coreApi - Shared transport surface.
+ * @returns `{ queryLogs, getLogPage, getMembershipTimeline, getRecentDeletions }`.
+ */
+export function createSystemLogOperations(coreApi: CoreApi) {
+  /**
+   * Fetch one page from a System Log URL.
+   *
+   * @param url - A path from {@link buildLogQueryUrl} or a previous page's `nextUrl`.
+   * @returns The page and the cursor past it.
+   * @throws Error when Okta refuses the request — most often a filter expression
+   * it cannot parse, which its error message names.
+   */
+  const getLogPage = async (url: string): Promise<LogPage> => {
+    const response = await coreApi.makeApiRequest(url);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to read the System Log');
+    }
+    const raw = Array.isArray(response.data) ? response.data.length : 0;
+    return {
+      events: parseOktaList(oktaLogEventSchema, response.data, 'GET /api/v1/logs'),
+      nextUrl: nextPageUrl(url, response.headers?.link, raw),
+    };
+  };
+
+  /**
+   * Run a query and return its first page.
+   *
+   * @param query - What to ask (see `shared/systemLog/logQuery`).
+   * @returns The newest page of matching events.
+   * @throws Error when the scope's id is refused or Okta rejects the request.
+   */
+  const queryLogs = async (query: LogQuery): Promise<LogPage> =>
+    getLogPage(buildLogQueryUrl(query, new Date()));
+
+  /**
+   * When and how a user got or lost a group, over the System Log's 90 days and
+   * this browser's action history. One scheduler-routed read, from a click only.
+   *
+   * @param userId - The member.
+   * @param group - The group.
+   * @returns The merged timeline. A failed System Log read does not throw: the
+   * local history is still returned, with the reason beside it.
+   */
+  const getMembershipTimeline = async (
+    userId: string,
+    group: { id: string; name: string },
+  ): Promise<MembershipTimeline> => {
+    const key = { userId, groupId: group.id };
+    const history = await getUndoHistory();
+    const local = timelineFromUndoHistory(history.actions, key);
+
+    try {
+      const events = await fetchAllPages<OktaLogEvent>(
+        (url) => coreApi.makeApiRequest(url),
+        buildLogQueryUrl(membershipEventsQuery(userId, group), new Date()),
+        {
+          schema: oktaLogEventSchema,
+          context: 'GET /api/v1/logs',
+          errorMessage: 'Failed to read the System Log',
+          maxPages: TIMELINE_MAX_PAGES,
+        },
+      );
+      return {
+        entries: mergeMembershipTimeline(timelineFromLogEvents(events, key), local),
+        systemLogError: null,
+      };
+    } catch (err) {
+      return {
+        entries: mergeMembershipTimeline([], local),
+        systemLogError: err instanceof Error ? err.message : 'Failed to read the System Log',
+      };
+    }
+  };
+
+  /**
+   * Every group, rule, user and app deleted (or app deactivated) in a range,
+   * reconstructed from the System Log. Read-only.
+   *
+   * @param range - How far back to read.
+   * @returns The objects, and whether the read stopped at the page cap.
+   * @throws Error when Okta refuses the request.
+   */
+  const getRecentDeletions = async (range: LogRangeId): Promise<RecentDeletions> => {
+    const events = await fetchAllPages<OktaLogEvent>(
+      (url) => coreApi.makeApiRequest(url),
+      buildLogQueryUrl(deletionEventsQuery(range), new Date()),
+      {
+        schema: oktaLogEventSchema,
+        context: 'GET /api/v1/logs',
+        errorMessage: 'Failed to read the System Log',
+        maxPages: DELETIONS_MAX_PAGES,
+      },
+    );
+    return {
+      objects: deletedObjectsFromEvents(events),
+      truncated: events.length >= DELETIONS_MAX_PAGES * LOG_PAGE_SIZE,
+    };
+  };
+
+  return { queryLogs, getLogPage, getMembershipTimeline, getRecentDeletions };
+}
@@ -0,0 +1,210 @@
+/**
+ * Tests for the factor operations: the list read, the audited reset, and each
+ * verification path — a push polled until it settles, a sent code, a device
+ * code, a wrong code, and a verification the agent stopped.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `opfFAKE…`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../shared/storage/auditStore', () => ({
+  auditStore: { logOperation: vi.fn().mockResolvedValue(undefined) },
+}));
+
+import { createUserFactorOperations } from './userFactors';
+import { makeFakeCore } from '@/test/factories/coreApi';
+import { auditStore } from '../../../shared/storage/auditStore';
+import type { UserFactor } from '../../../shared/mfa/userFactors';
+
+const subject = { id: '00uFAKE1', login: 'jane@example.com', name: 'Jane Doe' };
+
+const factor = (over: Partial<UserFactor> = {}): UserFactor => ({
+  id: 'opfFAKE1',
+  factorType: 'push',
+  provider: 'OKTA',
+  status: 'ACTIVE',
+  label: 'Okta Verify Push',
+  detail: null,
+  verifyMethod: 'push',
+  ...over,
+});
+
+const SMS = factor({ id: 'mblFAKE2', factorType: 'sms', label: 'SMS', verifyMethod: 'challenge' });
+const TOTP = factor({
+  id: 'ostFAKE3',
+  factorType: 'token:software:totp',
+  label: 'Okta Verify TOTP',
+  verifyMethod: 'code',
+});
+
+const POLL_HREF =
+  'https://example.okta.com/api/v1/users/00uFAKE1/factors/opfFAKE1/transactions/v2mFAKE';
+
+/** The last audit entry written. */
+const lastAudit = () => vi.mocked(auditStore.logOperation).mock.calls.at(-1)?.[0];
+
+beforeEach(() => {
+  vi.mocked(auditStore.logOperation).mockClear();
+});
+
+describe('getUserFactors and resetUserFactor', () => {
+  it('reads and shapes the factors', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({
+      success: true,
+      data: [{ id: 'opfFAKE1', factorType: 'push', provider: 'OKTA', status: 'ACTIVE' }],
+    });
+    const ops = createUserFactorOperations(makeFakeCore({ makeApiRequest }));
+
+    const factors = await ops.getUserFactors('00uFAKE1');
+
+    expect(makeApiRequest).toHaveBeenCalledWith('/api/v1/users/00uFAKE1/factors');
+    expect(factors).toEqual([expect.objectContaining({ id: 'opfFAKE1', verifyMethod: 'push' })]);
+  });
+
+  it('throws when the factors cannot be read', async () => {
+    const ops = createUserFactorOperations(
+      makeFakeCore({ makeApiRequest: vi.fn().mockResolvedValue({ success: false, error: 'No' }) }),
+    );
+    await expect(ops.getUserFactors('00uFAKE1')).rejects.toThrow('No');
+  });
+
+  it('deletes the factor and audits the reset, success or failure', async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockResolvedValueOnce({ success: true })
+      .mockResolvedValueOnce({ success: false, error: 'Forbidden' });
+    const ops = createUserFactorOperations(makeFakeCore({ makeApiRequest }));
+
+    expect(await ops.resetUserFactor(subject, SMS)).toEqual({ success: true });
+    expect(makeApiRequest).toHaveBeenCalledWith(
+      '/api/v1/users/00uFAKE1/factors/mblFAKE2',
+      'DELETE',
+    );
+    expect(lastAudit()).toMatchObject({
+      action: 'reset_factor',
+      groupId: '00uFAKE1',
+      result: 'success',
+      details: { factor: { id: 'mblFAKE2', factorType: 'sms' } },
+    });
+
+    expect(await ops.resetUserFactor(subject, SMS)).toEqual({ success: false, error: 'Forbidden' });
+    expect(lastAudit()).toMatchObject({
+      action: 'reset_factor',
+      result: 'failed',
+      details: { errorMessages: ['Forbidden'] },
+    });
+  });
+});
+
+describe('verification', () => {
+  it('sends a push, polls the transaction and audits the approval', async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockResolvedValueOnce({
+        success: true,
+        data: { factorResult: 'WAITING', _links: { poll: { href: POLL_HREF } } },
+      })
+      .mockResolvedValueOnce({ success: true, data: { factorResult: 'WAITING' } })
+      .mockResolvedValueOnce({ success: true, data: { factorResult: 'SUCCESS' } });
+    const ops = createUserFactorOperations(makeFakeCore({ makeApiRequest }));
+
+    const started = await ops.startFactorVerification(subject, factor());
+    expect(makeApiRequest).toHaveBeenCalledWith(
+      '/api/v1/users/00uFAKE1/factors/opfFAKE1/verify',
+      'POST',
+      {},
+    );
+    expect(started).toEqual({
+      state: 'waiting',
+      pollPath: '/api/v1/users/00uFAKE1/factors/opfFAKE1/transactions/v2mFAKE',
+    });
+    // Nothing is audited while the push is out.
+    expect(auditStore.logOperation).not.toHaveBeenCalled();
+
+    if (started.state !== 'waiting') throw new Error('expected a push to poll');
+    expect(await ops.pollFactorVerification(subject, factor(), started.pollPath, 0)).toMatchObject({
+      state: 'waiting',
+    });
+    expect(await ops.pollFactorVerification(subject, factor(), started.pollPath, 0)).toEqual({
+      state: 'verified',
+    });
+    expect(makeApiRequest.mock.calls[2]).toEqual([started.pollPath, 'GET', undefined, 'high']);
+    expect(auditStore.logOperation).toHaveBeenCalledTimes(1);
+    expect(lastAudit()).toMatchObject({
+      action: 'verify_factor',
+      result: 'success',
+      details: { factor: { id: 'opfFAKE1', outcome: 'SUCCESS' } },
+    });
+  });
+
+  it('audits a rejected push as a failure', async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockResolvedValue({ success: true, data: { factorResult: 'REJECTED' } });
+    const ops = createUserFactorOperations(makeFakeCore({ makeApiRequest }));
+
+    expect(await ops.pollFactorVerification(subject, factor(), '/poll', 0)).toEqual({
+      state: 'failed',
+      error: 'The user rejected the push.',
+    });
+    expect(lastAudit()).toMatchObject({ action: 'verify_factor', result: 'failed' });
+  });
+
+  it('sends an SMS code, then checks the one read back', async () => {
+    const makeApiRequest = vi
+      .fn()
+      .mockResolvedValueOnce({ success: true, data: { factorResult: 'CHALLENGE' } })
+      .mockResolvedValueOnce({ success: true, data: { factorResult: 'SUCCESS' } });
+    const ops = createUserFactorOperations(makeFakeCore({ makeApiRequest }));
+
+    expect(await ops.startFactorVerification(subject, SMS)).toEqual({ state: 'challenge' });
+    expect(await ops.submitFactorCode(subject, SMS, ' 123456 ', 0)).toEqual({ state: 'verified' });
+    expect(makeApiRequest).toHaveBeenLastCalledWith(
+      '/api/v1/users/00uFAKE1/factors/mblFAKE2/verify',
+      'POST',
+      { passCode: '123456' },
+    );
+  });
+
+  it('sends nothing to start a device-code verification', async () => {
+    const makeApiRequest = vi.fn();
+    const ops = createUserFactorOperations(makeFakeCore({ makeApiRequest }));
+
+    expect(await ops.startFactorVerification(subject, TOTP)).toEqual({ state: 'challenge' });
+    expect(makeApiRequest).not.toHaveBeenCalled();
+  });
+
+  it('reads a wrong code as a refused code, not a failed request', async () => {
+    const makeApiRequest = vi.fn().mockResolvedValue({
+      success: false,
+      status: 403,
+      error: 'Forbidden',
+      data: { errorCode: 'E0000068' },
+    });
+    const ops = createUserFactorOperations(makeFakeCore({ makeApiRequest }));
+
+    expect(await ops.submitFactorCode(subject, TOTP, '000000', 0)).toEqual({
+      state: 'failed',
+      error: 'The code is not valid. Ask the caller to read it again.',
+    });
+    expect(lastAudit()).toMatchObject({ action: 'verify_factor', result: 'failed' });
+  });
+
+  it('refuses a factor it cannot verify, and audits a stopped verification', async () => {
+    const makeApiRequest = vi.fn();
+    const ops = createUserFactorOperations(makeFakeCore({ makeApiRequest }));
+
+    expect(
+      await ops.startFactorVerification(
+        subject,
+        factor({ factorType: 'webauthn', verifyMethod: null }),
+      ),
+    ).toMatchObject({ state: 'failed' });
+    expect(await ops.abandonFactorVerification(subject, factor(), 0)).toEqual({
+      state: 'failed',
+      error: 'Stopped before the user answered.',
+    });
+    expect(makeApiRequest).not.toHaveBeenCalled();
+    expect(auditStore.logOperation).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * @module hooks/useOktaApi/userFactors
+ * @description One user's MFA factors: the list, the reset, and verification.
+ * What a factor is and how it is verified is `shared/mfa/userFactors`.
+ *
+ * Every write is audited, success or failure, naming the user and the factor: a
+ * reset as `reset_factor`, a verification as `verify_factor` once it ends —
+ * verified, refused, expired, or abandoned by the agent. A verification that is
+ * still waiting or expecting a code records nothing yet. Recording either in the
+ * undo history is the caller's job, as it is for a role grant.
+ *
+ * A verification is three calls at most: start it
+ * ({@link startFactorVerification}), then either poll the push
+ * ({@link pollFactorVerification}) or check the code the caller reads back
+ * ({@link submitFactorCode}). Okta answers a wrong code with a 403, which is a
+ * refusal of the code, not of the admin's session.
+ */
+
+import type { CoreApi } from './core';
+import type { AuditLogEntry } from '../../../shared/types';
+import {
+  oktaFactorVerificationSchema,
+  oktaUserFactorSchema,
+  parseOktaList,
+} from '@/shared/schemas/okta';
+import {
+  toFactorVerification,
+  toUserFactor,
+  type FactorVerification,
+  type UserFactor,
+} from '../../../shared/mfa/userFactors';
+import type { RequestResult } from '../../../shared/scheduler/types';
+import { auditStore } from '../../../shared/storage/auditStore';
+import { createLogger } from '../../../shared/utils/logger';
+
+const log = createLogger('useOktaApi');
+
+/** The user a reset or verification applies to, as the audit entry names them. */
+export interface FactorSubject {
+  id: string;
+  login: string;
+  name: string;
+}
+
+/** Okta's error code for a wrong passcode or answer. */
+const INVALID_PASSCODE = 'E0000068';
+
+/** A settled verification's outcome, for the audit entry. */
+type SettledVerification = Extract<FactorVerification, { state: 'verified' | 'failed' }>;
+
+/**
+ * Build the factor operations.
+ *
+ * @param coreApi - Shared transport surface (see {@link CoreApi}).
+ * @returns `{ getUserFactors, resetUserFactor, startFactorVerification,
+ *   pollFactorVerification, submitFactorCode, abandonFactorVerification }`.
+ */
+export function createUserFactorOperations(coreApi: CoreApi) {
+  const factorsPath = (userId: string) => `/api/v1/users/${encodeURIComponent(userId)}/factors`;
+  const verifyPath = (userId: string, factorId: string) =>
+    `${factorsPath(userId)}/${encodeURIComponent(factorId)}/verify`;
+
+  /** Record a reset or a settled verification in the audit trail; never throws. */
+  const audit = async (
+    action: 'reset_factor' | 'verify_factor',
+    user: FactorSubject,
+    factor: UserFactor,
+    startTime: number,
+    result: AuditLogEntry['result'],
+    detail: { outcome?: string; error?: string } = {},
+  ): Promise<void> => {
+    const currentUser = await coreApi.getCurrentUser();
+    const entry: AuditLogEntry = {
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      action,
+      // Keyed on the user, as a role grant is.
+      groupId: user.id,
+      groupName: user.name,
+      performedBy: currentUser.email,
+      affectedUsers: [user.id],
+      result,
+      details: {
+        usersSucceeded: result === 'failed' ? 0 : 1,
+        usersFailed: result === 'failed' ? 1 : 0,
+        apiRequestCount: 1,
+        durationMs: Date.now() - startTime,
+        factor: {
+          id: factor.id,
+          factorType: factor.factorType,
+          ...(detail.outcome ? { outcome: detail.outcome } : {}),
+        },
+        ...(detail.error ? { errorMessages: [detail.error] } : {}),
+      },
+    };
+    auditStore.logOperation(entry).catch((err) => {
+      log.error('Failed to log audit entry:', err);
+    });
+  };
+
+  /** Audit a verification that has ended, and hand its outcome back. */
+  const settle = async (
+    user: FactorSubject,
+    factor: UserFactor,
+    startTime: number,
+    outcome: SettledVerification,
+    factorResult?: string,
+  ): Promise<SettledVerification> => {
+    await audit(
+      'verify_factor',
+      user,
+      factor,
+      startTime,
+      outcome.state === 'verified' ? 'success' : 'failed',
+      {
+        outcome: factorResult,
+        error: outcome.state === 'failed' ? outcome.error : undefined,
+      },
+    );
+    if (outcome.state === 'failed') {
+      // Identifiers and the factor type only — never the factor's phone or email.
+      log.warn('Factor verification did not succeed', {
+        userId: user.id,
+        factorType: factor.factorType,
+      });
+    }
+    return outcome;
+  };
+
+  /** Read a verify or poll response; an unreadable body is a failure. */
+  const readVerification = (
+    response: RequestResult,
+    fallback: string,
+  ): { verification: FactorVerification; factorResult?: string } => {
+    if (!response.success) {
+      const code = (response.data as { errorCode?: unknown } | null | undefined)?.errorCode;
+      const error =
+        code === INVALID_PASSCODE
+          ? 'The code is not valid. Ask the caller to read it again.'
+          : response.error || fallback;
+      return { verification: { state: 'failed', error } };
+    }
+    const parsed = oktaFactorVerificationSchema.safeParse(response.data);
+    if (!parsed.success) {
+      return { verification: { state: 'failed', error: fallback } };
+    }
+    return {
+      verification: toFactorVerification(parsed.data),
+      factorResult: parsed.data.factorResult,
+    };
+  };
+
+  /**
+   * Read a user's enrolled factors.
+   *
+   * @param userId - The user.
+   * @returns The factors, in Okta's order.
+   * @throws Error when the read fails.
+   */
+  const getUserFactors = async (userId: string): Promise<UserFactor[]> => {
+    const response = await coreApi.makeApiRequest(factorsPath(userId));
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to read factors');
+    }
+    return parseOktaList(oktaUserFactorSchema, response.data, 'GET /api/v1/users/{id}/factors').map(
+      toUserFactor,
+    );
+  };
+
+  /**
+   * Reset (delete) one factor. The user enrolls it again at their next sign-in,
+   * if a policy asks for it. Audited.
+   *
+   * @param user - The user written to.
+   * @param factor - The factor removed.
+   * @returns Whether Okta accepted the reset.
+   */
+  const resetUserFactor = async (
+    user: FactorSubject,
+    factor: UserFactor,
+  ): Promise<{ success: boolean; error?: string }> => {
+    const startTime = Date.now();
+    const response = await coreApi.makeApiRequest(
+      `${factorsPath(user.id)}/${encodeURIComponent(factor.id)}`,
+      'DELETE',
+    );
+
+    if (!response.success) {
+      const error = response.error || 'The factor could not be reset.';
+      await audit('reset_factor', user, factor, startTime, 'failed', { error });
+      log.warn('Factor reset did not succeed', { userId: user.id, factorType: factor.factorType });
+      return { success: false, error };
+    }
+
+    await audit('reset_factor', user, factor, startTime, 'success');
+    return { success: true };
+  };
+
+  /**
+   * Start a verification: send the push or the code, or — for a TOTP or hardware
+   * token — nothing, since the code is already on the caller's device.
+   *
+   * @param user - The user being verified.
+   * @param factor - A factor with a `verifyMethod`.
+   * @returns `waiting` for a push, `challenge` when a code is expected, or
+   *   `failed` (audited) when the factor cannot be challenged.
+   */
+  const startFactorVerification = async (
+    user: FactorSubject,
+    factor: UserFactor,
+  ): Promise<FactorVerification> => {
+    if (factor.verifyMethod === 'code') return { state: 'challenge' };
+
+    const startTime = Date.now();
+    if (!factor.verifyMethod) {
+      return settle(user, factor, startTime, {
+        state: 'failed',
+        error: 'This factor cannot be verified from here.',
+      });
+    }
+
+    const response = await coreApi.makeApiRequest(verifyPath(user.id, factor.id), 'POST', {});
+    const { verification, factorResult } = readVerification(
+      response,
+      factor.verifyMethod === 'push'
+        ? 'The push could not be sent.'
+        : 'The code could not be sent.',
+    );
+    if (verification.state === 'waiting' || verification.state === 'challenge') {
+      return verification;
+    }
+    return settle(user, factor, startTime, verification, factorResult);
+  };
+
+  /**
+   * Poll a pending push once.
+   *
+   * @param user - The user being verified.
+   * @param factor - The push factor.
+   * @param pollPath - The transaction {@link startFactorVerification} returned.
+   * @param startTime - When the verification started (epoch ms), for the audit entry.
+   * @returns `waiting` until the user answers; then the outcome, audited.
+   */
+  const pollFactorVerification = async (
+    user: FactorSubject,
+    factor: UserFactor,
+    pollPath: string,
+    startTime: number,
+  ): Promise<FactorVerification> => {
+    const response = await coreApi.makeApiRequest(pollPath, 'GET', undefined, 'high');
+    const { verification, factorResult } = readVerification(
+      response,
+      'The push could not be checked.',
+    );
+    // A poll that does not repeat its link is still the same transaction.
+    if (verification.state === 'waiting' || factorResult === 'WAITING') {
+      return { state: 'waiting', pollPath };
+    }
+    if (verification.state === 'challenge') {
+      return settle(user, factor, startTime, {
+        state: 'failed',
+        error: 'Okta asked for a code on a push.',
+      });
+    }
+    return settle(user, factor, startTime, verification, factorResult);
+  };
+
+  /**
+   * Check the code the caller read back.
+   *
+   * @param user - The user being verified.
+   * @param factor - The factor the code came from.
+   * @param passCode - The code, as typed by the agent.
+   * @param startTime - When the verification started (epoch ms), for the audit entry.
+   * @returns `verified` or `failed`, audited.
+   */
+  const submitFactorCode = async (
+    user: FactorSubject,
+    factor: UserFactor,
+    passCode: string,
+    startTime: number,
+  ): Promise<SettledVerification> => {
+    const response = await coreApi.makeApiRequest(verifyPath(user.id, factor.id), 'POST', {
+      passCode: passCode.trim(),
+    });
+    const { verification, factorResult } = readVerification(
+      response,
+      'The code could not be checked.',
+    );
+    const outcome: SettledVerification =
+      verification.state === 'verified' || verification.state === 'failed'
+        ? verification
+        : { state: 'failed', error: 'Okta did not accept the code.' };
+    return settle(user, factor, startTime, outcome, factorResult);
+  };
+
+  /**
+   * Record a verification the agent stopped before it ended. Audited; calls
+   * nothing in Okta — a push left unanswered expires on its own.
+   *
+   * @param user - The user being verified.
+   * @param factor - The factor challenged.
+   * @param startTime - When the verification started (epoch ms).
+   * @returns The `failed` outcome recorded.
+   */
+  const abandonFactorVerification = (
+    user: FactorSubject,
+    factor: UserFactor,
+    startTime: number,
+  ): Promise<SettledVerification> =>
+    settle(user, factor, startTime, {
+      state: 'failed',
+      error: 'Stopped before the user answered.',
+    });
+
+  return {
+    getUserFactors,
+    resetUserFactor,
+    startFactorVerification,
+    pollFactorVerification,
+    submitFactorCode,
+    abandonFactorVerification,
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * @module sidepanel/hooks/useOktaSession
+ * @description Minutes left in the admin's Okta session, for the `ContextBar`.
+ *
+ * The expiry is read from Okta when the tab connects and every
+ * {@link SESSION_REFRESH_MS} after — Okta slides it forward while the admin is
+ * active — and the minutes are counted down locally in between. One read is in
+ * flight at a time: while the scheduler is holding for a sign-in, the read waits
+ * in its queue too, and the answer it brings back is the new session's.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import { sessionMinutesLeft } from '../../shared/session/oktaSession';
+
+/** How often the expiry is re-read from Okta. */
+export const SESSION_REFRESH_MS = 5 * 60_000;
+
+/** How often the local countdown re-renders. */
+const TICK_MS = 30_000;
+
+/**
+ * Track the session behind one Okta tab.
+ *
+ * @param targetTabId - The connected Okta tab, or `null`.
+ * @returns Whole minutes left, or `null` when there is no tab or the session
+ *   cannot be read.
+ */
+export function useOktaSession(targetTabId: number | null): number | null {
+  const { getSessionExpiry } = useOktaApi({ targetTabId });
+  const [expiry, setExpiry] = useState<{ tabId: number; expiresAt: string | null } | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const reading = useRef(false);
+
+  useEffect(() => {
+    if (targetTabId === null) return;
+    const read = async () => {
+      if (reading.current) return;
+      reading.current = true;
+      try {
+        const expiresAt = await getSessionExpiry();
+        setExpiry({ tabId: targetTabId, expiresAt });
+        setNow(Date.now());
+      } finally {
+        reading.current = false;
+      }
+    };
+    void read();
+    const refresh = setInterval(() => void read(), SESSION_REFRESH_MS);
+    const tick = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => {
+      clearInterval(refresh);
+      clearInterval(tick);
+    };
+  }, [targetTabId, getSessionExpiry]);
+
+  // An expiry read for another tab is not this one's.
+  if (targetTabId === null || expiry?.tabId !== targetTabId || !expiry.expiresAt) return null;
+  return sessionMinutesLeft(expiry.expiresAt, now);
+}
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for `usePaletteSearch` — the ⌘K palette's entity search.
+ *
+ * Pins that nothing is searched below the minimum length or without a tab, that
+ * typing is debounced into one search, that every source lands in its section,
+ * and that a failing source degrades to no results instead of failing the rest.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import type { OktaPolicyListItem } from '../../shared/schemas/okta';
+import type { FormattedRule } from '../../shared/types';
+
+const api = vi.hoisted(() => ({
+  searchGroups: vi.fn(),
+  searchUsers: vi.fn(),
+  searchApps: vi.fn(),
+  listPolicies: vi.fn(),
+}));
+
+const rulesCache = vi.hoisted(() => ({ get: vi.fn() }));
+
+vi.mock('./useOktaApi', () => ({ useOktaApi: () => api }));
+vi.mock('../../shared/rulesCache', () => ({ RulesCache: rulesCache }));
+
+import { usePaletteSearch } from './usePaletteSearch';
+import { resetEntityCache } from '../cache/entityCache';
+import { PALETTE_DEBOUNCE_MS } from '../components/palette/paletteSearch';
+
+const rule: FormattedRule = {
+  id: '0prFAKE000000000001',
+  name: 'Engineering by department',
+  status: 'ACTIVE',
+  condition: '',
+  groupIds: [],
+  userAttributes: [],
+  created: '2026-01-01T00:00:00.000Z',
+  lastUpdated: '2026-01-01T00:00:00.000Z',
+};
+
+const policies: OktaPolicyListItem[] = [
+  { id: 'rstFAKE000000000001', name: 'Engineering MFA', status: 'ACTIVE', type: 'ACCESS_POLICY' },
+];
+
+/** Let the debounce elapse and the searches settle. */
+async function settle() {
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(PALETTE_DEBOUNCE_MS);
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.clearAllMocks();
+  resetEntityCache();
+  api.searchGroups.mockResolvedValue([
+    { id: '00gFAKE000000000001', name: 'Engineering', description: '', type: 'OKTA_GROUP' },
+  ]);
+  api.searchUsers.mockResolvedValue([
+    {
+      id: '00uFAKE000000000001',
+      email: 'eng.lead@example.com',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      login: 'eng.lead@example.com',
+      status: 'ACTIVE',
+    },
+  ]);
+  api.searchApps.mockResolvedValue([]);
+  api.listPolicies.mockResolvedValue(policies);
+  rulesCache.get.mockResolvedValue({ rules: [rule] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('usePaletteSearch', () => {
+  it('searches nothing below the minimum length or without a tab', async () => {
+    const { rerender } = renderHook((props) => usePaletteSearch(props), {
+      initialProps: { query: 'e', targetTabId: 1 as number | null, enabled: true },
+    });
+    await settle();
+
+    rerender({ query: 'engineering', targetTabId: null, enabled: true });
+    await settle();
+
+    expect(api.searchGroups).not.toHaveBeenCalled();
+  });
+
+  it('debounces typing into one search and ranks every source into sections', async () => {
+    const { result, rerender } = renderHook((props) => usePaletteSearch(props), {
+      initialProps: { query: '', targetTabId: 1, enabled: true },
+    });
+    rerender({ query: 'en', targetTabId: 1, enabled: true });
+    rerender({ query: 'engin', targetTabId: 1, enabled: true });
+    rerender({ query: 'engineering', targetTabId: 1, enabled: true });
+
+    expect(result.current.isSearching).toBe(true);
+    await settle();
+
+    expect(api.searchGroups).toHaveBeenCalledTimes(1);
+    expect(api.searchGroups).toHaveBeenCalledWith('engineering');
+    expect(result.current.isSearching).toBe(false);
+    expect(result.current.sections.map((s) => s.kind)).toEqual([
+      'group',
+      'rule',
+      'policy',
+      // Okta matched the user on a field the palette never shows, so they rank last.
+      'user',
+    ]);
+    expect(result.current.sections[3].results[0]).toMatchObject({
+      label: 'Ada Lovelace',
+      detail: 'eng.lead@example.com',
+    });
+  });
+
+  it('drops a failing source without failing the others', async () => {
+    api.searchUsers.mockRejectedValue(new Error('boom'));
+    rulesCache.get.mockRejectedValue(new Error('storage'));
+
+    const { result } = renderHook(() =>
+      usePaletteSearch({ query: 'engineering', targetTabId: 1, enabled: true }),
+    );
+    await settle();
+
+    expect(result.current.sections.map((s) => s.kind)).toEqual(['group', 'policy']);
+  });
+
+  it('shows nothing while disabled, whatever was answered before', async () => {
+    const { result, rerender } = renderHook((props) => usePaletteSearch(props), {
+      initialProps: { query: 'engineering', targetTabId: 1, enabled: true },
+    });
+    await settle();
+    expect(result.current.sections).not.toEqual([]);
+
+    rerender({ query: 'engineering', targetTabId: 1, enabled: false });
+
+    expect(result.current.sections).toEqual([]);
+    expect(result.current.isSearching).toBe(false);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @module sidepanel/hooks/usePaletteSearch
+ * @description The ⌘K palette's entity search: groups, users and apps through
+ * Okta's `q=` searches, rules from the rules cache, and the app authentication
+ * policies, ranked into sections by
+ * {@link module:sidepanel/components/palette/paletteSearch}.
+ *
+ * A search waits for typing to pause ({@link PALETTE_DEBOUNCE_MS}) and is
+ * cancelled by the next one: a stale answer is dropped when it lands, so what
+ * shows always belongs to the text in the box. Until the new answer is in, the
+ * previous sections stay on screen with `isSearching` set, rather than blinking
+ * out.
+ *
+ * Rules are only ever read from the cache the Rules tab fills — the palette never
+ * lists every rule on its own. The policy list is shared with the Auth Policies
+ * tab through the entity cache, so it is fetched at most once a session. Each
+ * search degrades to no results rather than failing the palette.
+ */
+
+import { useEffect, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import { useDebouncedValue } from './useDebouncedValue';
+import { AUTH_POLICY_TYPE, POLICIES_CACHE_KEY } from './usePoliciesData';
+import { getOrFetch } from '../cache/entityCache';
+import { RulesCache } from '../../shared/rulesCache';
+import type { OktaPolicyListItem } from '../../shared/schemas/okta';
+import { createLogger } from '../../shared/utils/logger';
+import {
+  PALETTE_DEBOUNCE_MS,
+  PALETTE_MIN_QUERY_LENGTH,
+  buildSections,
+  matchPolicies,
+  matchRules,
+  type PaletteEntity,
+  type PaletteSection,
+} from '../components/palette/paletteSearch';
+
+const log = createLogger('usePaletteSearch');
+
+/** Options for {@link usePaletteSearch}. */
+export interface UsePaletteSearchOptions {
+  /** The text in the palette's field. */
+  query: string;
+  /** The connected Okta tab; nothing is searched without one. */
+  targetTabId: number | null;
+  /** Only searches while true — the palette is open. */
+  enabled: boolean;
+}
+
+/** What {@link usePaletteSearch} returns. */
+export interface UsePaletteSearch {
+  /** Ranked sections for the latest answered query; `[]` below the minimum length. */
+  sections: PaletteSection[];
+  /** Whether the text in the box has not been answered yet. */
+  isSearching: boolean;
+}
+
+/** The last answered search. */
+interface Answer {
+  query: string;
+  sections: PaletteSection[];
+}
+
+const NO_ANSWER: Answer = { query: '', sections: [] };
+
+/**
+ * Search groups, users, rules, apps and policies for the palette.
+ *
+ * @param options - See {@link UsePaletteSearchOptions}.
+ * @returns The sections and whether a search is pending.
+ */
+export function usePaletteSearch({
+  query,
+  targetTabId,
+  enabled,
+}: UsePaletteSearchOptions): UsePaletteSearch {
+  const [answer, setAnswer] = useState<Answer>(NO_ANSWER);
+  const trimmed = query.trim();
+  const debounced = useDebouncedValue(trimmed, PALETTE_DEBOUNCE_MS);
+  const { searchGroups, searchUsers, searchApps, listPolicies } = useOktaApi({ targetTabId });
+
+  const eligible = enabled && targetTabId !== null && trimmed.length >= PALETTE_MIN_QUERY_LENGTH;
+
+  useEffect(() => {
+    if (!enabled || targetTabId === null || debounced.length < PALETTE_MIN_QUERY_LENGTH) return;
+    let cancelled = false;
+
+    const search = async () => {
+      const [groups, users, apps, rules, policies] = await Promise.all([
+        searchGroups(debounced).catch(() => []),
+        searchUsers(debounced).catch(() => []),
+        searchApps(debounced).catch(() => []),
+        RulesCache.get()
+          .then((cached) => matchRules(debounced, cached?.rules ?? []))
+          .catch(() => []),
+        getOrFetch<OktaPolicyListItem[]>(POLICIES_CACHE_KEY, () => listPolicies(AUTH_POLICY_TYPE))
+          .then((listed) => matchPolicies(debounced, listed))
+          .catch(() => []),
+      ]);
+      if (cancelled) return;
+
+      const sections = buildSections(debounced, {
+        group: groups.map((g): PaletteEntity => ({
+          kind: 'group',
+          id: g.id,
+          label: g.name,
+          detail: g.type,
+        })),
+        user: users.map((u): PaletteEntity => ({
+          kind: 'user',
+          id: u.id,
+          label: `${u.firstName} ${u.lastName}`.trim() || u.login || u.id,
+          detail: u.login,
+        })),
+        rule: rules,
+        app: apps.map((a): PaletteEntity => ({
+          kind: 'app',
+          id: a.id,
+          label: a.label,
+          detail: a.status ?? '',
+        })),
+        policy: policies,
+      });
+      // Counts only — never the query or a result's name.
+      log.debug('Palette search answered', {
+        sections: sections.length,
+        results: sections.reduce((sum, section) => sum + section.results.length, 0),
+      });
+      setAnswer({ query: debounced, sections });
+    };
+    void search();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, targetTabId, debounced, searchGroups, searchUsers, searchApps, listPolicies]);
+
+  return {
+    sections: eligible ? answer.sections : [],
+    isSearching: eligible && answer.query !== trimmed,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Tests for `usePendingNavigation` — the panel's half of the omnibox handoff.
+ *
+ * These pin that a fresh request is acted on once through the given handler and
+ * removed, that a stale one is removed unread, and that a request written while
+ * the panel is open is picked up from `chrome.storage.onChanged`.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { usePendingNavigation } from './usePendingNavigation';
+import { PENDING_NAVIGATION_KEY, PENDING_NAVIGATION_TTL_MS } from '../../shared/pendingNavigation';
+
+type ChangeListener = (changes: Record<string, chrome.storage.StorageChange>, area: string) => void;
+
+let stored: Record<string, unknown>;
+let changeListener: ChangeListener | undefined;
+const remove = vi.fn();
+
+beforeEach(() => {
+  stored = {};
+  changeListener = undefined;
+  remove.mockReset();
+  globalThis.chrome = {
+    storage: {
+      local: {
+        get: vi.fn((_keys: string[], cb: (result: Record<string, unknown>) => void) => cb(stored)),
+        remove,
+      },
+      onChanged: {
+        addListener: vi.fn((fn: ChangeListener) => (changeListener = fn)),
+        removeListener: vi.fn(),
+      },
+    },
+  } as unknown as typeof chrome;
+});
+
+describe('usePendingNavigation', () => {
+  it('opens a fresh request on mount and removes it', () => {
+    stored[PENDING_NAVIGATION_KEY] = { type: 'group', id: '00g1', requestedAt: Date.now() };
+    const group = vi.fn();
+
+    renderHook(() => usePendingNavigation({ group }));
+
+    expect(group).toHaveBeenCalledWith('00g1');
+    expect(remove).toHaveBeenCalledWith(PENDING_NAVIGATION_KEY);
+  });
+
+  it('removes a stale request without acting on it', () => {
+    stored[PENDING_NAVIGATION_KEY] = {
+      type: 'group',
+      id: '00g1',
+      requestedAt: Date.now() - PENDING_NAVIGATION_TTL_MS - 1,
+    };
+    const group = vi.fn();
+
+    renderHook(() => usePendingNavigation({ group }));
+
+    expect(group).not.toHaveBeenCalled();
+    expect(remove).toHaveBeenCalledWith(PENDING_NAVIGATION_KEY);
+  });
+
+  it('acts on a request written while the panel is open', () => {
+    const user = vi.fn();
+    renderHook(() => usePendingNavigation({ user }));
+    expect(remove).not.toHaveBeenCalled();
+
+    changeListener?.(
+      {
+        [PENDING_NAVIGATION_KEY]: {
+          newValue: { type: 'user', id: '00u1', requestedAt: Date.now() },
+        },
+      },
+      'local',
+    );
+    // Its own removal comes back as a change with no new value, and is ignored.
+    changeListener?.({ [PENDING_NAVIGATION_KEY]: {} }, 'local');
+
+    expect(user).toHaveBeenCalledTimes(1);
+    expect(user).toHaveBeenCalledWith('00u1');
+  });
+});
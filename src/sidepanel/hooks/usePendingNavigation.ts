@@ -0,0 +1,41 @@
+/**
+ * @module sidepanel/hooks/usePendingNavigation
+ * @description Acts on a jump requested from outside the panel (the `ou` omnibox
+ * keyword), through the panel's own navigation handlers.
+ *
+ * The request is read once on mount — the worker writes it just before opening a
+ * closed panel — and again whenever it is rewritten while the panel is open. It
+ * is removed as soon as it is read, so it fires at most once, and a stale one is
+ * dropped unread (`shared/pendingNavigation`).
+ */
+import { useEffect } from 'react';
+import { PENDING_NAVIGATION_KEY, isFreshPendingNavigation } from '../../shared/pendingNavigation';
+import type { NavigationHandlers } from '../contexts/NavigationContext';
+
+/**
+ * Consume pending side-panel jumps.
+ *
+ * @param handlers - The panel's jump handlers (the same object `NavigationProvider`
+ *   publishes); a request for a kind with no handler is dropped.
+ */
+export function usePendingNavigation(handlers: NavigationHandlers): void {
+  useEffect(() => {
+    const consume = (value: unknown) => {
+      if (value === undefined) return;
+      chrome.storage.local.remove(PENDING_NAVIGATION_KEY);
+      if (isFreshPendingNavigation(value, Date.now())) handlers[value.type]?.(value.id);
+    };
+
+    chrome.storage.local.get([PENDING_NAVIGATION_KEY], (result) => {
+      consume(result?.[PENDING_NAVIGATION_KEY]);
+    });
+
+    const handler = (changes: { [key: string]: chrome.storage.StorageChange }, area: string) => {
+      if (area === 'local' && changes[PENDING_NAVIGATION_KEY]) {
+        consume(changes[PENDING_NAVIGATION_KEY].newValue);
+      }
+    };
+    chrome.storage.onChanged.addListener(handler);
+    return () => chrome.storage.onChanged.removeListener(handler);
+  }, [handlers]);
+}
@@ -0,0 +1,145 @@
+/**
+ * @module sidepanel/hooks/usePolicySimulator.test
+ * @description The policy simulator's reads: which policies it walks and what
+ * it offers to pick.
+ *
+ * Mocked at the `useOktaApi` facade and at `getUserGroupsRequest`, so what is
+ * pinned is the hook's own decisions: the global session policy is picked by
+ * the user's groups, the app's policy by its link, blocklist zones are not
+ * offered, and a failed group read is an error rather than a walk over no
+ * groups. The walk itself is pinned in `shared/policies/policySimulator.test`.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `00gFAKE…`, `0oaFAKE…`,
+ * `00pFAKE…`, `rstFAKE…`, `nzoFAKE…`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+
+const api = vi.hoisted(() => ({
+  makeApiRequest: vi.fn(),
+  getAllApps: vi.fn(),
+  listNetworkZones: vi.fn(),
+  listPolicies: vi.fn(),
+  getPolicyRules: vi.fn(),
+  getAppAccessPolicyId: vi.fn(),
+}));
+const groupsRequest = vi.hoisted(() => vi.fn());
+
+vi.mock('./useOktaApi', () => ({ useOktaApi: () => api }));
+vi.mock('./getUserGroupsRequest', () => ({ getUserGroupsRequest: groupsRequest }));
+
+import { usePolicySimulator } from './usePolicySimulator';
+import { resetEntityCache } from '../cache/entityCache';
+
+const user = { id: '00uFAKE1', name: 'Ada Lovelace' };
+const slack = { id: '0oaFAKE1', name: 'Slack' };
+const vpn = { id: 'nzoFAKE1', name: 'Office VPN' };
+
+const membership = (id: string, name: string) => ({
+  group: { id, type: 'OKTA_GROUP', profile: { name } },
+  membershipType: 'UNKNOWN',
+  addedDate: undefined,
+});
+
+const renderSimulator = () =>
+  renderHook(() => usePolicySimulator({ targetTabId: 1, oktaOrigin: 'https://example.okta.com' }));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resetEntityCache();
+  api.getAllApps.mockResolvedValue([{ id: slack.id, label: 'Slack' }]);
+  api.listNetworkZones.mockResolvedValue([
+    { id: vpn.id, name: 'Office VPN', status: 'ACTIVE', usage: 'POLICY' },
+    { id: 'nzoFAKE2', name: 'Blocked', status: 'ACTIVE', usage: 'BLOCKLIST' },
+  ]);
+  groupsRequest.mockResolvedValue({
+    success: true,
+    data: [membership('00gFAKE0', 'Everyone'), membership('00gFAKE1', 'Engineering')],
+  });
+  api.listPolicies.mockImplementation(async (type: string) =>
+    type === 'OKTA_SIGN_ON'
+      ? [
+          {
+            id: '00pFAKEeng',
+            name: 'Engineering sessions',
+            status: 'ACTIVE',
+            priority: 1,
+            conditions: { people: { groups: { include: ['00gFAKE1'] } } },
+          },
+        ]
+      : [{ id: 'rstFAKEapp', name: 'Slack access', type: 'ACCESS_POLICY' }],
+  );
+  api.getAppAccessPolicyId.mockResolvedValue('rstFAKEapp');
+  api.getPolicyRules.mockImplementation(async (policyId: string) =>
+    policyId === '00pFAKEeng'
+      ? [
+          {
+            id: 'rulFAKEsession',
+            status: 'ACTIVE',
+            priority: 1,
+            actions: { signon: { access: 'ALLOW', requireFactor: false } },
+          },
+        ]
+      : [
+          {
+            id: 'rulFAKEvpn',
+            status: 'ACTIVE',
+            priority: 1,
+            conditions: { network: { connection: 'ZONE', include: [vpn.id] } },
+            actions: { appSignOn: { access: 'ALLOW', verificationMethod: { factorMode: '1FA' } } },
+          },
+          {
+            id: 'rulFAKEdefault',
+            status: 'ACTIVE',
+            priority: 2,
+            actions: { appSignOn: { access: 'ALLOW', verificationMethod: { factorMode: '2FA' } } },
+          },
+        ],
+  );
+});
+
+describe('usePolicySimulator', () => {
+  it('offers the apps and the policy zones, but not blocklist zones', async () => {
+    const { result } = renderSimulator();
+
+    await waitFor(() => expect(result.current.optionsLoading).toBe(false));
+    expect(result.current.apps).toEqual([slack]);
+    expect(result.current.zones).toEqual([vpn]);
+  });
+
+  it('walks the session policy picked by group and the policy attached to the app', async () => {
+    const { result } = renderSimulator();
+
+    await act(() => result.current.run({ user, app: slack, zone: null }));
+
+    expect(result.current.status).toBe('done');
+    const report = result.current.report;
+    expect(report?.session.selection.policy?.id).toBe('00pFAKEeng');
+    expect(report?.session.simulation?.matched?.rule.id).toBe('rulFAKEsession');
+    expect(report?.app.policy).toEqual({ id: 'rstFAKEapp', name: 'Slack access' });
+    // Outside every zone, the VPN rule does not apply and the default one does.
+    expect(report?.app.simulation?.matched?.rule.id).toBe('rulFAKEdefault');
+    expect(api.getAppAccessPolicyId).toHaveBeenCalledWith(slack.id);
+  });
+
+  it('reports an app with no access policy rather than walking nothing', async () => {
+    api.getAppAccessPolicyId.mockResolvedValue(null);
+    const { result } = renderSimulator();
+
+    await act(() => result.current.run({ user, app: slack, zone: vpn }));
+
+    expect(result.current.report?.app).toEqual({ app: slack, policy: null, simulation: null });
+    expect(api.getPolicyRules).not.toHaveBeenCalledWith('rstFAKEapp');
+  });
+
+  it('reports a failed group read as an error, not as a user in no groups', async () => {
+    groupsRequest.mockResolvedValue({ success: false, error: 'Forbidden' });
+    const { result } = renderSimulator();
+
+    await act(() => result.current.run({ user, app: slack, zone: vpn }));
+
+    expect(result.current.status).toBe('error');
+    expect(result.current.error).toBe('Forbidden');
+    expect(result.current.report).toBeNull();
+  });
+});
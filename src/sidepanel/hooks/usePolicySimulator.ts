@@ -0,0 +1,241 @@
+/**
+ * @module sidepanel/hooks/usePolicySimulator
+ * @description Drives the Auth Policies tab's simulator: "which rule applies to
+ * this user, signing in to this app, from this network zone?"
+ *
+ * A sign-in to an app meets two policies, and an MFA prompt can come from
+ * either:
+ *
+ * - the **global session policy** (`OKTA_SIGN_ON`) — the first active one, by
+ *   priority, assigned to one of the user's groups — and
+ * - the app's **authentication policy** (`ACCESS_POLICY`), attached to the app.
+ *
+ * A run reads the user's groups, both policy lists, the app's policy link and
+ * both policies' rules, then hands them to the pure walk in
+ * {@link shared/policies/policySimulator}. Policy lists and rules go through the
+ * entity cache, so a policy already expanded in the tab costs no second read.
+ * The app list and the zones load with the view, through the same cache the
+ * Apps tab reads.
+ *
+ * Nothing here writes. User, group and zone names are tenant data: nothing here
+ * logs them.
+ */
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import type { OktaAppListItem, OktaNetworkZone } from '../../shared/schemas/okta';
+import {
+  selectPolicy,
+  simulatePolicy,
+  type NamedRef,
+  type PolicySelection,
+  type PolicySimulation,
+  type SimulationSubject,
+} from '../../shared/policies/policySimulator';
+import { getOrFetch } from '../cache/entityCache';
+import { cacheKeys } from '../cache/keys';
+import { useEntityQuery } from '../cache/useEntityQuery';
+import { getUserGroupsRequest } from './getUserGroupsRequest';
+import { POLICIES_CACHE_KEY } from './usePoliciesData';
+import { useOktaApi } from './useOktaApi';
+
+/** Lifecycle of one run. */
+export type PolicySimulatorStatus = 'idle' | 'running' | 'done' | 'error';
+
+/** The global session policy's part of a run. */
+export interface SessionPolicyReport {
+  selection: PolicySelection;
+  /** The walk over its rules; `null` when no policy applies. */
+  simulation: PolicySimulation | null;
+}
+
+/** The app's authentication policy's part of a run. */
+export interface AppPolicyReport {
+  app: NamedRef;
+  /** The attached policy, or `null` when the app has none (or it could not be read). */
+  policy: NamedRef | null;
+  simulation: PolicySimulation | null;
+}
+
+/** Everything one run found. */
+export interface PolicySimulationReport {
+  user: NamedRef;
+  zone: NamedRef | null;
+  session: SessionPolicyReport;
+  app: AppPolicyReport;
+}
+
+/** What one run asks about. */
+export interface PolicySimulationInput {
+  user: NamedRef;
+  app: NamedRef;
+  /** The zone the sign-in comes from; `null` for an IP in no zone. */
+  zone: NamedRef | null;
+}
+
+/** Options for {@link usePolicySimulator}. */
+export interface UsePolicySimulatorOptions {
+  /** The connected Okta tab; nothing loads or runs without one. */
+  targetTabId?: number;
+  /** The connected org, which scopes the cached apps and zones. */
+  oktaOrigin?: string | null;
+}
+
+/** Return shape of {@link usePolicySimulator}. */
+export interface UsePolicySimulatorReturn {
+  /** The org's apps, by name. */
+  apps: NamedRef[];
+  /** The active zones a rule can name, by name. Blocklist zones never reach a policy. */
+  zones: NamedRef[];
+  /** `true` while the apps or zones are loading. */
+  optionsLoading: boolean;
+  /** Why the apps or zones could not be read, or `null`. */
+  optionsError: string | null;
+  status: PolicySimulatorStatus;
+  report: PolicySimulationReport | null;
+  error: string | null;
+  /** Read what the run needs and walk both policies. */
+  run: (input: PolicySimulationInput) => Promise<void>;
+  /** Drop the report. */
+  reset: () => void;
+}
+
+/** Name-sorted `{ id, name }` pairs. */
+function byName(refs: NamedRef[]): NamedRef[] {
+  return refs.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Manage the policy simulator.
+ *
+ * @param options - See {@link UsePolicySimulatorOptions}.
+ * @returns The pickers' options, the run state and its controls.
+ */
+export function usePolicySimulator({
+  targetTabId,
+  oktaOrigin,
+}: UsePolicySimulatorOptions): UsePolicySimulatorReturn {
+  const {
+    makeApiRequest,
+    getAllApps,
+    listNetworkZones,
+    listPolicies,
+    getPolicyRules,
+    getAppAccessPolicyId,
+  } = useOktaApi({ targetTabId: targetTabId ?? null });
+  const enabled = targetTabId != null;
+
+  const appsQuery = useEntityQuery<OktaAppListItem[]>(cacheKeys.apps(oktaOrigin), getAllApps, {
+    enabled,
+  });
+  const zonesQuery = useEntityQuery<OktaNetworkZone[]>(
+    cacheKeys.networkZones(oktaOrigin),
+    listNetworkZones,
+    { enabled },
+  );
+
+  const apps = useMemo(
+    () =>
+      byName(
+        (appsQuery.data ?? []).map((app) => ({
+          id: app.id,
+          name: app.label ?? app.name ?? app.id,
+        })),
+      ),
+    [appsQuery.data],
+  );
+  const zones = useMemo(
+    () =>
+      byName(
+        (zonesQuery.data ?? [])
+          .filter((zone) => zone.status !== 'INACTIVE' && zone.usage !== 'BLOCKLIST')
+          .map((zone) => ({ id: zone.id, name: zone.name ?? zone.id })),
+      ),
+    [zonesQuery.data],
+  );
+
+  const [status, setStatus] = useState<PolicySimulatorStatus>('idle');
+  const [report, setReport] = useState<PolicySimulationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped per run, so an earlier run that lands late is dropped.
+  const runToken = useRef(0);
+
+  const reset = useCallback(() => {
+    runToken.current += 1;
+    setStatus('idle');
+    setReport(null);
+    setError(null);
+  }, []);
+
+  const run = useCallback(
+    async ({ user, app, zone }: PolicySimulationInput) => {
+      if (targetTabId == null) return;
+      const token = ++runToken.current;
+      setStatus('running');
+      setError(null);
+      try {
+        const memberships = await getUserGroupsRequest(makeApiRequest, user.id);
+        if (!memberships.success) {
+          throw new Error(memberships.error || "Failed to read the user's groups");
+        }
+        const subject: SimulationSubject = {
+          userId: user.id,
+          groups: (memberships.data ?? []).map(({ group }) => ({
+            id: group.id,
+            name: group.profile.name,
+          })),
+          zone,
+        };
+
+        const readRules = (policyId: string) =>
+          getOrFetch(cacheKeys.policyRules(policyId), () => getPolicyRules(policyId));
+
+        const [sessionPolicies, accessPolicies, accessPolicyId] = await Promise.all([
+          getOrFetch(cacheKeys.policies('OKTA_SIGN_ON'), () => listPolicies('OKTA_SIGN_ON')),
+          getOrFetch(POLICIES_CACHE_KEY, () => listPolicies('ACCESS_POLICY')),
+          getAppAccessPolicyId(app.id),
+        ]);
+
+        const selection = selectPolicy(sessionPolicies, subject);
+        const sessionSimulation = selection.policy
+          ? simulatePolicy('OKTA_SIGN_ON', await readRules(selection.policy.id), subject)
+          : null;
+
+        const accessPolicy = accessPolicyId
+          ? {
+              id: accessPolicyId,
+              name: accessPolicies.find((p) => p.id === accessPolicyId)?.name ?? accessPolicyId,
+            }
+          : null;
+        const appSimulation = accessPolicy
+          ? simulatePolicy('ACCESS_POLICY', await readRules(accessPolicy.id), subject)
+          : null;
+
+        if (token !== runToken.current) return;
+        setReport({
+          user,
+          zone,
+          session: { selection, simulation: sessionSimulation },
+          app: { app, policy: accessPolicy, simulation: appSimulation },
+        });
+        setStatus('done');
+      } catch (err) {
+        if (token !== runToken.current) return;
+        setError(err instanceof Error ? err.message : 'Simulation failed');
+        setStatus('error');
+      }
+    },
+    [targetTabId, makeApiRequest, listPolicies, getPolicyRules, getAppAccessPolicyId],
+  );
+
+  return {
+    apps,
+    zones,
+    optionsLoading: appsQuery.isLoading || zonesQuery.isLoading,
+    optionsError: appsQuery.error ?? zonesQuery.error,
+    status,
+    report,
+    error,
+    run,
+    reset,
+  };
+}
@@ -0,0 +1,390 @@
+/**
+ * Tests for {@link useRuleEditor} — the rule authoring workbench.
+ *
+ * Pins the save sequences — a new rule is created then activated; an edit
+ * deactivates the original, then updates it in place when its target groups are
+ * unchanged, or else creates a replacement (renaming the original out of the
+ * way when the name is kept, since Okta names are unique) and only then deletes
+ * the original, putting it back when an earlier step fails — the `AUTHOR_RULE`
+ * undo entry and audit record a save writes, and the locally computed feedback:
+ * draft issues and the population estimate over a once-fetched sample. The Okta API (`useOktaApi`),
+ * the audit store and the undo manager are fully mocked; identifiers are fake.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useRuleEditor } from './useRuleEditor';
+import { auditStore } from '../../shared/storage/auditStore';
+import { logAction } from '../../shared/undoManager';
+import type { FormattedRule, OktaGroupRule } from '../../shared/types';
+
+vi.mock('../../shared/storage/auditStore', () => ({
+  auditStore: { logOperation: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../../shared/undoManager', () => ({
+  logAction: vi.fn().mockResolvedValue(undefined),
+}));
+
+const api = {
+  getRawGroupRule: vi.fn(),
+  createGroupRule: vi.fn(),
+  updateGroupRule: vi.fn(),
+  deleteGroupRule: vi.fn(),
+  activateGroupRule: vi.fn(),
+  deactivateGroupRule: vi.fn(),
+  getUserRaw: vi.fn(),
+  sampleUsersForRule: vi.fn(),
+  makeApiRequest: vi.fn(),
+};
+
+vi.mock('./useOktaApi', () => ({
+  useOktaApi: () => api,
+}));
+
+const rawRule: OktaGroupRule = {
+  id: '0prFAKEOLD',
+  name: 'Eng',
+  type: 'group_rule',
+  status: 'ACTIVE',
+  created: '',
+  lastUpdated: '',
+  conditions: { expression: { value: 'user.department=="Eng"', type: 'urn:okta:expression:1.0' } },
+  actions: { assignUserToGroups: { groupIds: ['00gFAKE1'] } },
+};
+
+const formattedRule: FormattedRule = {
+  id: '0prFAKEOLD',
+  name: 'Eng',
+  status: 'ACTIVE',
+  condition: 'user.department=="Eng"',
+  groupIds: ['00gFAKE1'],
+  groupNames: ['Engineering'],
+  userAttributes: ['department'],
+  created: '',
+  lastUpdated: '',
+};
+
+function renderEditor() {
+  const reload = vi.fn().mockResolvedValue(undefined);
+  const onError = vi.fn();
+  const hook = renderHook(() => useRuleEditor({ targetTabId: 1, reload, onError }));
+  return { ...hook, reload, onError };
+}
+
+/** Open the workbench on {@link formattedRule} and wait for its raw form. */
+async function openEditor() {
+  const editor = renderEditor();
+  act(() => editor.result.current.openEdit(formattedRule));
+  await waitFor(() => expect(editor.result.current.phase).toBe('editing'));
+  return editor;
+}
+
+/** Fill a savable new-rule draft. */
+function fillDraft(result: ReturnType<typeof renderEditor>['result']) {
+  act(() => {
+    result.current.openNew();
+    result.current.setName('Sales auto-assign');
+    result.current.setExpression('user.department=="Sales"');
+    result.current.addTargetGroup({ id: '00gFAKE2', name: 'Sales' });
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  api.getRawGroupRule.mockResolvedValue(rawRule);
+  api.createGroupRule.mockResolvedValue({
+    success: true,
+    rule: {
+      id: '0prFAKENEW',
+      name: 'Sales auto-assign',
+      actions: { assignUserToGroups: { groupIds: ['00gFAKE2'] } },
+    },
+  });
+  api.updateGroupRule.mockImplementation(async (id: string, payload: { name: string }) => ({
+    success: true,
+    rule: { ...rawRule, id, name: payload.name, status: 'INACTIVE' },
+  }));
+  api.activateGroupRule.mockResolvedValue({ success: true });
+  api.deactivateGroupRule.mockResolvedValue({ success: true });
+  api.deleteGroupRule.mockResolvedValue({ success: true });
+  api.makeApiRequest.mockResolvedValue({
+    success: true,
+    data: { profile: { email: 'admin@example.com' } },
+  });
+});
+
+describe('useRuleEditor — draft feedback', () => {
+  it('reports issues until the draft is complete', () => {
+    const { result } = renderEditor();
+    act(() => result.current.openNew());
+    expect(result.current.phase).toBe('editing');
+    expect(result.current.issues.map((i) => i.code)).toContain('no-target-groups');
+
+    fillDraft(result);
+    expect(result.current.issues).toEqual([]);
+    expect(result.current.targetGroups).toEqual([{ id: '00gFAKE2', name: 'Sales' }]);
+  });
+
+  it('fetches the population sample once and re-tallies it as the expression changes', async () => {
+    api.sampleUsersForRule.mockResolvedValue([
+      { id: 'u1', status: 'ACTIVE', profile: { login: 'a', department: 'Sales' } },
+      { id: 'u2', status: 'ACTIVE', profile: { login: 'b', department: 'Eng' } },
+    ]);
+    const { result } = renderEditor();
+    fillDraft(result);
+
+    await act(async () => {
+      await result.current.loadPopulationSample();
+    });
+    expect(result.current.estimate).toMatchObject({ sampled: 2, matched: 1, noMatch: 1 });
+
+    act(() => result.current.setExpression('user.department=="Eng" || user.department=="Sales"'));
+    expect(result.current.estimate).toMatchObject({ matched: 2 });
+
+    await act(async () => {
+      await result.current.loadPopulationSample();
+    });
+    expect(api.sampleUsersForRule).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('useRuleEditor — save', () => {
+  it('creates and activates a new rule, then records it for undo and audit', async () => {
+    const { result, reload } = renderEditor();
+    fillDraft(result);
+
+    await act(async () => {
+      await result.current.save();
+    });
+
+    expect(api.createGroupRule).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Sales auto-assign',
+        actions: { assignUserToGroups: { groupIds: ['00gFAKE2'] } },
+      }),
+    );
+    expect(api.activateGroupRule).toHaveBeenCalledWith('0prFAKENEW');
+    expect(api.deleteGroupRule).not.toHaveBeenCalled();
+    expect(vi.mocked(logAction)).toHaveBeenCalledWith('Created rule Sales auto-assign', {
+      type: 'AUTHOR_RULE',
+      createdRuleId: '0prFAKENEW',
+      createdRuleName: 'Sales auto-assign',
+      createdGroupIds: ['00gFAKE2'],
+      activated: true,
+    });
+    expect(vi.mocked(auditStore).logOperation).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'create_rule',
+        performedBy: 'admin@example.com',
+        result: 'success',
+      }),
+    );
+    expect(result.current.phase).toBe('done');
+    expect(reload).toHaveBeenCalled();
+  });
+
+  it('updates an edited rule in place when its target groups are unchanged', async () => {
+    const { result } = await openEditor();
+    expect(result.current.targetGroups).toEqual([{ id: '00gFAKE1', name: 'Engineering' }]);
+    expect(result.current.editsInPlace).toBe(true);
+
+    act(() => result.current.setName('Eng v2'));
+    await act(async () => {
+      await result.current.save();
+    });
+
+    expect(api.deactivateGroupRule).toHaveBeenCalledWith('0prFAKEOLD');
+    expect(api.updateGroupRule).toHaveBeenCalledWith(
+      '0prFAKEOLD',
+      expect.objectContaining({ name: 'Eng v2' }),
+    );
+    expect(api.activateGroupRule).toHaveBeenCalledWith('0prFAKEOLD');
+    expect(api.createGroupRule).not.toHaveBeenCalled();
+    expect(api.deleteGroupRule).not.toHaveBeenCalled();
+    expect(vi.mocked(logAction)).toHaveBeenCalledWith('Updated rule Eng v2', {
+      type: 'AUTHOR_RULE',
+      createdRuleId: '0prFAKEOLD',
+      createdRuleName: 'Eng v2',
+      createdGroupIds: ['00gFAKE1'],
+      activated: true,
+      previousRule: {
+        id: '0prFAKEOLD',
+        name: 'Eng',
+        expression: 'user.department=="Eng"',
+        groupIds: ['00gFAKE1'],
+      },
+    });
+    expect(vi.mocked(auditStore).logOperation).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'update_rule', result: 'success' }),
+    );
+    expect(result.current.result).toMatchObject({
+      createdRuleId: '0prFAKEOLD',
+      updatedInPlace: true,
+      retireFailed: false,
+    });
+  });
+
+  it('replaces an edited rule whose target groups changed, and snapshots the original', async () => {
+    const { result } = await openEditor();
+
+    act(() => {
+      result.current.setName('Eng v2');
+      result.current.addTargetGroup({ id: '00gFAKE2', name: 'Sales' });
+    });
+    expect(result.current.editsInPlace).toBe(false);
+    await act(async () => {
+      await result.current.save();
+    });
+
+    expect(api.deactivateGroupRule).toHaveBeenCalledWith('0prFAKEOLD');
+    // A new name needs no room made for it.
+    expect(api.updateGroupRule).not.toHaveBeenCalled();
+    expect(api.createGroupRule).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Eng v2',
+        actions: { assignUserToGroups: { groupIds: ['00gFAKE1', '00gFAKE2'] } },
+      }),
+    );
+    expect(api.activateGroupRule).toHaveBeenCalledWith('0prFAKENEW');
+    expect(api.deleteGroupRule).toHaveBeenCalledWith('0prFAKEOLD');
+    expect(vi.mocked(logAction).mock.calls[0][1]).toMatchObject({
+      type: 'AUTHOR_RULE',
+      replacedRule: {
+        id: '0prFAKEOLD',
+        name: 'Eng',
+        expression: 'user.department=="Eng"',
+        groupIds: ['00gFAKE1'],
+      },
+    });
+    expect(result.current.result).toMatchObject({
+      replacedRuleName: 'Eng',
+      updatedInPlace: false,
+      retireFailed: false,
+    });
+  });
+
+  it("frees the original's name before creating a replacement that keeps it", async () => {
+    // Okta rejects a create whose name another rule holds, as the real API does.
+    const names = new Map([['0prFAKEOLD', 'Eng']]);
+    api.updateGroupRule.mockImplementation(async (id: string, payload: { name: string }) => {
+      names.set(id, payload.name);
+      return { success: true, rule: { ...rawRule, id, name: payload.name } };
+    });
+    api.createGroupRule.mockImplementation(async (payload: { name: string }) =>
+      [...names.values()].includes(payload.name)
+        ? {
+            success: false,
+            error: 'Api validation failed: name. An object with this field already exists.',
+          }
+        : { success: true, rule: { ...rawRule, id: '0prFAKENEW', name: payload.name } },
+    );
+    const { result, onError } = await openEditor();
+
+    act(() => result.current.addTargetGroup({ id: '00gFAKE2', name: 'Sales' }));
+    await act(async () => {
+      await result.current.save();
+    });
+
+    expect(onError).not.toHaveBeenCalled();
+    expect(api.updateGroupRule).toHaveBeenCalledWith(
+      '0prFAKEOLD',
+      expect.objectContaining({ name: 'Eng (replaced)' }),
+    );
+    expect(api.createGroupRule).toHaveBeenCalledWith(expect.objectContaining({ name: 'Eng' }));
+    expect(api.deleteGroupRule).toHaveBeenCalledWith('0prFAKEOLD');
+    expect(result.current.result).toMatchObject({
+      createdRuleId: '0prFAKENEW',
+      createdRuleName: 'Eng',
+      replacedRuleName: 'Eng',
+    });
+  });
+
+  it('puts the original back when the replacement cannot be created', async () => {
+    api.createGroupRule.mockResolvedValue({ success: false, error: 'HTTP 400' });
+    const { result, onError } = await openEditor();
+
+    act(() => result.current.addTargetGroup({ id: '00gFAKE2', name: 'Sales' }));
+    await act(async () => {
+      await result.current.save();
+    });
+
+    // Renamed out of the way, then back; re-activated as it was.
+    expect(api.updateGroupRule).toHaveBeenLastCalledWith(
+      '0prFAKEOLD',
+      expect.objectContaining({ name: 'Eng' }),
+    );
+    expect(api.activateGroupRule).toHaveBeenCalledWith('0prFAKEOLD');
+    expect(api.deleteGroupRule).not.toHaveBeenCalled();
+    expect(vi.mocked(logAction)).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith('HTTP 400');
+    expect(result.current.phase).toBe('error');
+  });
+
+  it('deletes a replacement that cannot be activated and puts the original back', async () => {
+    api.activateGroupRule.mockImplementation(async (id: string) =>
+      id === '0prFAKENEW' ? { success: false, error: 'HTTP 400' } : { success: true },
+    );
+    const { result, onError } = await openEditor();
+
+    act(() => {
+      result.current.setName('Eng v2');
+      result.current.addTargetGroup({ id: '00gFAKE2', name: 'Sales' });
+    });
+    await act(async () => {
+      await result.current.save();
+    });
+
+    expect(api.deleteGroupRule).toHaveBeenCalledWith('0prFAKENEW');
+    expect(api.deleteGroupRule).not.toHaveBeenCalledWith('0prFAKEOLD');
+    expect(api.activateGroupRule).toHaveBeenLastCalledWith('0prFAKEOLD');
+    expect(vi.mocked(logAction)).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith('HTTP 400');
+  });
+
+  it('changes nothing when the original cannot be deactivated', async () => {
+    api.deactivateGroupRule.mockResolvedValue({ success: false, error: 'HTTP 403' });
+    const { result, onError } = await openEditor();
+
+    act(() => result.current.setName('Eng v2'));
+    await act(async () => {
+      await result.current.save();
+    });
+
+    expect(api.updateGroupRule).not.toHaveBeenCalled();
+    expect(api.createGroupRule).not.toHaveBeenCalled();
+    expect(api.activateGroupRule).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith('HTTP 403');
+    expect(result.current.phase).toBe('error');
+  });
+
+  it('says an in-place edit was saved when only its activation fails', async () => {
+    api.activateGroupRule.mockResolvedValue({ success: false, error: 'HTTP 400' });
+    const { result, onError } = await openEditor();
+
+    await act(async () => {
+      await result.current.save();
+    });
+
+    expect(api.deleteGroupRule).not.toHaveBeenCalled();
+    expect(vi.mocked(logAction)).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(
+      'HTTP 400. The changes to Eng were saved, but it is inactive.',
+    );
+    expect(result.current.phase).toBe('error');
+  });
+
+  it('records a partial audit result when the original cannot be deleted', async () => {
+    api.deleteGroupRule.mockResolvedValue({ success: false, error: 'HTTP 500' });
+    const { result } = await openEditor();
+
+    act(() => result.current.addTargetGroup({ id: '00gFAKE2', name: 'Sales' }));
+    await act(async () => {
+      await result.current.save();
+    });
+
+    expect(vi.mocked(auditStore).logOperation).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'create_rule', result: 'partial' }),
+    );
+    expect(result.current.result).toMatchObject({ retireFailed: true });
+  });
+});
@@ -0,0 +1,574 @@
+/**
+ * @module sidepanel/hooks/useRuleEditor
+ * @description Drives the Rules tab's authoring workbench: write a new group rule
+ * or edit an existing one, with live feedback before anything is saved.
+ *
+ * Three kinds of feedback, all computed locally from the draft:
+ *
+ * - **Parse** — {@link validateRuleDraft} on every keystroke, through the same
+ *   parser the rest of the app evaluates with.
+ * - **Explain** — the admin picks a sample user, and the modal renders the draft
+ *   against them clause by clause (`ClauseChecklist`). The user's complete group
+ *   list is fetched with them so `isMemberOf*` clauses carry a real verdict; if
+ *   that list cannot be read, it is omitted rather than passed partially
+ *   (ADR-0021).
+ * - **Estimate** — {@link estimateRulePopulation} over one bounded page of org
+ *   users, fetched once per session of the workbench and re-tallied as the
+ *   expression changes.
+ *
+ * Saving a new rule **creates** it and optionally **activates** it. Saving an
+ * edit first **deactivates** the original (Okta only changes inactive rules),
+ * then:
+ *
+ * - with the same target groups, **updates** it in place — same id, so the
+ *   memberships it granted stay attributed to it — and re-activates it if asked;
+ * - with different target groups, which Okta cannot change in place, follows the
+ *   consolidation sequence (`useRuleConsolidation`): it **creates** a
+ *   replacement, optionally **activates** it, and only then **deletes** the
+ *   original. Rule names are unique in the org, so when the replacement keeps
+ *   the original's name, the original is first renamed out of the way.
+ *
+ * If any step before the delete fails, the original is put back as it was —
+ * its name restored and, if it was active, re-activated — and any replacement
+ * already created is deleted. Every save is audited against the signed-in admin
+ * and recorded in the undo history with a snapshot of the original.
+ *
+ * The draft expression and sample user's profile are tenant data: nothing here
+ * logs them — ids, counts and reason codes only.
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import type { AuditLogEntry, FormattedRule, OktaGroupRule, OktaUser } from '../../shared/types';
+import type { RetiredRuleSnapshot } from '../../shared/undoTypes';
+import type { RuleGroupContext } from '../../shared/ruleEvaluator';
+import { useOktaApi } from './useOktaApi';
+import { getUserGroupsRequest } from './getUserGroupsRequest';
+import { logAction } from '../../shared/undoManager';
+import { auditStore } from '../../shared/storage/auditStore';
+import { groupContextOf } from '../../shared/membership/groupContext';
+import {
+  EMPTY_RULE_DRAFT,
+  MAX_RULE_NAME_LENGTH,
+  buildRuleDraftPayload,
+  draftFromRule,
+  estimateRulePopulation,
+  validateRuleDraft,
+  type RuleDraft,
+  type RuleDraftIssue,
+  type RulePopulationEstimate,
+} from '../../shared/rules/ruleDraft';
+import { createLogger } from '../../shared/utils/logger';
+
+const log = createLogger('useRuleEditor');
+
+/** Suffix the original carries while its replacement takes its name. */
+const RETIRING_SUFFIX = ' (replaced)';
+
+/** The original's name while a replacement is created under its own. */
+function retiringName(name: string): string {
+  return `${name.slice(0, MAX_RULE_NAME_LENGTH - RETIRING_SUFFIX.length)}${RETIRING_SUFFIX}`;
+}
+
+/** Whether two target-group lists name the same groups, in any order. */
+function sameGroups(a: readonly string[], b: readonly string[]): boolean {
+  const left = new Set(a);
+  const right = new Set(b);
+  return left.size === right.size && [...left].every((id) => right.has(id));
+}
+
+/** The snapshot an edit records of the rule as it was. */
+function snapshotOf(rule: OktaGroupRule): RetiredRuleSnapshot {
+  return {
+    id: rule.id,
+    name: rule.name,
+    expression: rule.conditions?.expression?.value ?? '',
+    groupIds: rule.actions?.assignUserToGroups?.groupIds ?? [],
+  };
+}
+
+/** Lifecycle of the workbench. */
+export type RuleEditorPhase = 'idle' | 'loading' | 'editing' | 'saving' | 'done' | 'error';
+
+/** A target group as the workbench shows it. */
+export interface RuleEditorGroup {
+  id: string;
+  name: string;
+}
+
+/** The user a draft is explained against, with their group context when it was readable. */
+export interface RuleEditorSampleUser {
+  user: OktaUser;
+  /** The user's complete group list, or `undefined` when it could not be read in full. */
+  groups?: RuleGroupContext;
+}
+
+/** Where the population sample is. */
+export type RuleSampleStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+/** Outcome of a save. */
+export interface RuleEditorResult {
+  /** Id of the saved rule: the new one, or the original when it was updated in place. */
+  createdRuleId: string;
+  createdRuleName: string;
+  activated: boolean;
+  /** The original was edited in place rather than replaced. */
+  updatedInPlace: boolean;
+  /** Name of the rule this save replaced, when editing changed the target groups. */
+  replacedRuleName?: string;
+  /** The replaced rule could not be deleted; it is still in Okta alongside the new one. */
+  retireFailed: boolean;
+}
+
+/** Options for {@link useRuleEditor}. */
+interface UseRuleEditorOptions {
+  targetTabId?: number;
+  /** Reload the rule list after a save. */
+  reload: () => Promise<void>;
+  /** Surface an error message in the tab. */
+  onError: (message: string) => void;
+}
+
+/** Return shape of {@link useRuleEditor}. */
+export interface UseRuleEditorReturn {
+  phase: RuleEditorPhase;
+  /** The rule being edited; `null` when authoring a new rule. */
+  original: OktaGroupRule | null;
+  draft: RuleDraft;
+  /** Target groups with display names, in draft order. */
+  targetGroups: RuleEditorGroup[];
+  /** Every reason the draft cannot be saved yet; empty when savable. */
+  issues: RuleDraftIssue[];
+  /** Whether the new rule is activated after creation. */
+  activateOnSave: boolean;
+  /**
+   * Whether saving updates the original in place: editing, with the original's
+   * target groups. Otherwise an edit is saved as a replacement.
+   */
+  editsInPlace: boolean;
+  sampleUser: RuleEditorSampleUser | null;
+  sampleUserLoading: boolean;
+  sampleStatus: RuleSampleStatus;
+  /** The draft tallied over the population sample; `null` until it is loaded or while the draft does not parse. */
+  estimate: RulePopulationEstimate | null;
+  result: RuleEditorResult | null;
+  error: string | null;
+  /** Open the workbench on an empty draft. */
+  openNew: () => void;
+  /** Open the workbench on an existing rule (loads its raw form). */
+  openEdit: (rule: FormattedRule) => void;
+  setName: (name: string) => void;
+  setExpression: (expression: string) => void;
+  addTargetGroup: (group: RuleEditorGroup) => void;
+  removeTargetGroup: (groupId: string) => void;
+  setActivateOnSave: (activate: boolean) => void;
+  /** Load a user (and their groups) to explain the draft against. */
+  chooseSampleUser: (userId: string) => Promise<void>;
+  clearSampleUser: () => void;
+  /** Fetch the population sample (once; later calls re-use it). */
+  loadPopulationSample: () => Promise<void>;
+  /** Create the rule, or save the edit (in place, or as a replacement). */
+  save: () => Promise<void>;
+  /** Close + reset. */
+  close: () => void;
+}
+
+/**
+ * Manage the rule authoring workbench.
+ *
+ * @param options - See {@link UseRuleEditorOptions}.
+ * @returns Workbench state plus its controls.
+ */
+export function useRuleEditor({
+  targetTabId,
+  reload,
+  onError,
+}: UseRuleEditorOptions): UseRuleEditorReturn {
+  const api = useOktaApi({ targetTabId: targetTabId ?? null });
+  const {
+    getRawGroupRule,
+    createGroupRule,
+    updateGroupRule,
+    deleteGroupRule,
+    activateGroupRule,
+    deactivateGroupRule,
+    getUserRaw,
+    sampleUsersForRule,
+    makeApiRequest,
+  } = api;
+
+  const [phase, setPhase] = useState<RuleEditorPhase>('idle');
+  const [original, setOriginal] = useState<OktaGroupRule | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_RULE_DRAFT);
+  const [groupNames, setGroupNames] = useState<Record<string, string>>({});
+  const [activateOnSave, setActivateOnSave] = useState(true);
+  const [sampleUser, setSampleUser] = useState<RuleEditorSampleUser | null>(null);
+  const [sampleUserLoading, setSampleUserLoading] = useState(false);
+  const [sampleUsers, setSampleUsers] = useState<OktaUser[] | null>(null);
+  const [sampleStatus, setSampleStatus] = useState<RuleSampleStatus>('idle');
+  const [result, setResult] = useState<RuleEditorResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const issues = useMemo(() => validateRuleDraft(draft), [draft]);
+  const expressionParses = !issues.some((issue) => issue.code === 'expression-invalid');
+
+  const estimate = useMemo(
+    () =>
+      sampleUsers && expressionParses
+        ? estimateRulePopulation(draft.expression, sampleUsers)
+        : null,
+    [sampleUsers, draft.expression, expressionParses],
+  );
+
+  const editsInPlace = useMemo(
+    () =>
+      original !== null &&
+      sameGroups(draft.groupIds, original.actions?.assignUserToGroups?.groupIds ?? []),
+    [original, draft.groupIds],
+  );
+
+  const targetGroups = useMemo(
+    () => draft.groupIds.map((id) => ({ id, name: groupNames[id] || id })),
+    [draft.groupIds, groupNames],
+  );
+
+  const reset = useCallback(() => {
+    setOriginal(null);
+    setDraft(EMPTY_RULE_DRAFT);
+    setGroupNames({});
+    setActivateOnSave(true);
+    setSampleUser(null);
+    setResult(null);
+    setError(null);
+  }, []);
+
+  const openNew = useCallback(() => {
+    reset();
+    setPhase('editing');
+  }, [reset]);
+
+  const openEdit = useCallback(
+    (rule: FormattedRule) => {
+      reset();
+      setPhase('loading');
+      getRawGroupRule(rule.id)
+        .then((raw) => {
+          if (!raw) {
+            setError('Could not load the rule to edit.');
+            setPhase('error');
+            return;
+          }
+          setOriginal(raw);
+          setDraft(draftFromRule(raw));
+          // FormattedRule carries names index-aligned with its ids.
+          setGroupNames(
+            Object.fromEntries(rule.groupIds.map((id, i) => [id, rule.groupNames?.[i] || id])),
+          );
+          setActivateOnSave(raw.status === 'ACTIVE');
+          setPhase('editing');
+        })
+        .catch((err) => {
+          log.error('Failed to load rule:', err);
+          setError(err instanceof Error ? err.message : 'Failed to load rule');
+          setPhase('error');
+        });
+    },
+    [getRawGroupRule, reset],
+  );
+
+  const setName = useCallback((name: string) => setDraft((d) => ({ ...d, name })), []);
+  const setExpression = useCallback(
+    (expression: string) => setDraft((d) => ({ ...d, expression })),
+    [],
+  );
+
+  const addTargetGroup = useCallback((group: RuleEditorGroup) => {
+    setGroupNames((names) => ({ ...names, [group.id]: group.name }));
+    setDraft((d) =>
+      d.groupIds.includes(group.id) ? d : { ...d, groupIds: [...d.groupIds, group.id] },
+    );
+  }, []);
+
+  const removeTargetGroup = useCallback(
+    (groupId: string) =>
+      setDraft((d) => ({ ...d, groupIds: d.groupIds.filter((id) => id !== groupId) })),
+    [],
+  );
+
+  const chooseSampleUser = useCallback(
+    async (userId: string) => {
+      setSampleUserLoading(true);
+      try {
+        const [user, groupsResult] = await Promise.all([
+          getUserRaw(userId),
+          getUserGroupsRequest(makeApiRequest, userId),
+        ]);
+        if (!user) {
+          setSampleUser(null);
+          onError('Could not load the sample user.');
+          return;
+        }
+        setSampleUser({
+          user,
+          // A failed or partial group read is omitted, never passed: isMemberOf*
+          // is two-valued over whatever list it is handed.
+          groups:
+            groupsResult.success && groupsResult.data
+              ? groupContextOf(groupsResult.data)
+              : undefined,
+        });
+      } catch (err) {
+        log.error('Failed to load sample user', { userId });
+        onError(err instanceof Error ? err.message : 'Failed to load the sample user');
+      } finally {
+        setSampleUserLoading(false);
+      }
+    },
+    [getUserRaw, makeApiRequest, onError],
+  );
+
+  const clearSampleUser = useCallback(() => setSampleUser(null), []);
+
+  const loadPopulationSample = useCallback(async () => {
+    if (sampleUsers) return;
+    setSampleStatus('loading');
+    try {
+      const users = await sampleUsersForRule();
+      setSampleUsers(users);
+      setSampleStatus('ready');
+      log.debug('Loaded population sample', { count: users.length });
+    } catch (err) {
+      log.error('Failed to load population sample:', err);
+      setSampleStatus('error');
+    }
+  }, [sampleUsers, sampleUsersForRule]);
+
+  const save = useCallback(async () => {
+    if (issues.length > 0) return;
+    setPhase('saving');
+    setError(null);
+    const startTime = Date.now();
+
+    let currentUserEmail = 'unknown@unknown.com';
+    try {
+      const userResponse = await makeApiRequest('/api/v1/users/me');
+      if (userResponse.success && userResponse.data) {
+        currentUserEmail = userResponse.data.profile?.email || 'unknown@unknown.com';
+      }
+    } catch (err) {
+      log.error('Failed to get current user:', err);
+    }
+
+    const fail = (message: string) => {
+      onError(message);
+      setError(message);
+      setPhase('error');
+    };
+
+    try {
+      let apiRequestCount = 0;
+      let renamed = false;
+      const wasActive = original?.status === 'ACTIVE';
+
+      /**
+       * Put the original back as it was: its own name, and active again if it was.
+       * Returns whether that fully succeeded.
+       */
+      const restoreOriginal = async (): Promise<boolean> => {
+        if (!original) return true;
+        let restored = true;
+        if (renamed) {
+          apiRequestCount++;
+          const payload = buildRuleDraftPayload(draftFromRule(original), original);
+          restored = (await updateGroupRule(original.id, payload)).success;
+        }
+        if (wasActive) {
+          apiRequestCount++;
+          restored = (await activateGroupRule(original.id)).success && restored;
+        }
+        return restored;
+      };
+
+      /** Fail, after putting the original back. */
+      const failAndRestore = async (message: string) => {
+        const restored = await restoreOriginal();
+        fail(
+          restored
+            ? message
+            : `${message} ${original?.name} could not be put back as it was; check it in Okta.`,
+        );
+      };
+
+      // 1) Editing: Okta only changes an inactive rule. Nothing has changed if this fails.
+      if (original && wasActive) {
+        apiRequestCount++;
+        const deactivated = await deactivateGroupRule(original.id);
+        if (!deactivated.success) {
+          fail(deactivated.error || `Could not deactivate ${original.name}; nothing was changed.`);
+          return;
+        }
+      }
+
+      const payload = buildRuleDraftPayload(draft, original);
+
+      // 2) Save: update the original in place, or create the rule (INACTIVE) —
+      //    renaming the original first when the replacement keeps its name.
+      let saved: OktaGroupRule;
+      if (original && editsInPlace) {
+        apiRequestCount++;
+        const updated = await updateGroupRule(original.id, payload);
+        if (!updated.success || !updated.rule) {
+          await failAndRestore(updated.error || 'Failed to update the rule');
+          return;
+        }
+        saved = updated.rule;
+      } else {
+        if (original && payload.name.toLowerCase() === original.name.toLowerCase()) {
+          apiRequestCount++;
+          const freed = await updateGroupRule(original.id, {
+            ...buildRuleDraftPayload(draftFromRule(original), original),
+            name: retiringName(original.name),
+          });
+          if (!freed.success) {
+            await failAndRestore(freed.error || `Could not free the name ${original.name}`);
+            return;
+          }
+          renamed = true;
+        }
+        apiRequestCount++;
+        const created = await createGroupRule(payload);
+        if (!created.success || !created.rule) {
+          await failAndRestore(created.error || 'Failed to create the rule');
+          return;
+        }
+        saved = created.rule;
+      }
+
+      // 3) Activate it if asked. A replacement that cannot be activated is deleted
+      //    again and the original put back; an in-place edit stays saved, inactive.
+      if (activateOnSave) {
+        apiRequestCount++;
+        const activated = await activateGroupRule(saved.id);
+        if (!activated.success) {
+          const reason = activated.error || `Could not activate "${saved.name}"`;
+          if (editsInPlace) {
+            fail(`${reason}. The changes to ${saved.name} were saved, but it is inactive.`);
+          } else {
+            apiRequestCount++;
+            await deleteGroupRule(saved.id);
+            await failAndRestore(reason);
+          }
+          return;
+        }
+      }
+
+      // 4) Replacing: delete the original (already inactive), capturing a snapshot.
+      let replacedRule: RetiredRuleSnapshot | undefined;
+      let retireFailed = false;
+      if (original && !editsInPlace) {
+        apiRequestCount++;
+        const deleted = await deleteGroupRule(original.id);
+        if (deleted.success) replacedRule = snapshotOf(original);
+        else retireFailed = true;
+      }
+
+      // 5) Audit + undo history.
+      const groupIds = saved.actions?.assignUserToGroups?.groupIds ?? draft.groupIds;
+      const previousRule = original && editsInPlace ? snapshotOf(original) : undefined;
+      await logAction(
+        previousRule
+          ? `Updated rule ${saved.name}`
+          : replacedRule
+            ? `Replaced rule ${replacedRule.name} with ${saved.name}`
+            : `Created rule ${saved.name}`,
+        {
+          type: 'AUTHOR_RULE',
+          createdRuleId: saved.id,
+          createdRuleName: saved.name,
+          createdGroupIds: groupIds,
+          activated: activateOnSave,
+          ...(replacedRule ? { replacedRule } : {}),
+          ...(previousRule ? { previousRule } : {}),
+        },
+      );
+      const auditEntry: AuditLogEntry = {
+        id: crypto.randomUUID(),
+        timestamp: new Date(),
+        action: editsInPlace ? 'update_rule' : 'create_rule',
+        groupId: groupIds[0] || 'multiple',
+        groupName: saved.name,
+        performedBy: currentUserEmail,
+        affectedUsers: [],
+        result: retireFailed ? 'partial' : 'success',
+        details: {
+          usersSucceeded: 0,
+          usersFailed: 0,
+          apiRequestCount,
+          durationMs: Date.now() - startTime,
+          ...(retireFailed ? { errorMessages: ['Failed to delete the replaced rule'] } : {}),
+        },
+      };
+      auditStore.logOperation(auditEntry).catch((e) => log.error('audit failed', e));
+
+      setResult({
+        createdRuleId: saved.id,
+        createdRuleName: saved.name,
+        activated: activateOnSave,
+        updatedInPlace: editsInPlace,
+        ...(original && !editsInPlace ? { replacedRuleName: original.name } : {}),
+        retireFailed,
+      });
+      setPhase('done');
+      await reload();
+    } catch (err) {
+      log.error('Rule save failed:', err);
+      fail(err instanceof Error ? err.message : 'Rule save failed');
+    }
+  }, [
+    issues,
+    draft,
+    original,
+    editsInPlace,
+    activateOnSave,
+    createGroupRule,
+    updateGroupRule,
+    activateGroupRule,
+    deactivateGroupRule,
+    deleteGroupRule,
+    makeApiRequest,
+    onError,
+    reload,
+  ]);
+
+  const close = useCallback(() => {
+    setPhase('idle');
+    reset();
+  }, [reset]);
+
+  return {
+    phase,
+    original,
+    draft,
+    targetGroups,
+    issues,
+    activateOnSave,
+    editsInPlace,
+    sampleUser,
+    sampleUserLoading,
+    sampleStatus,
+    estimate,
+    result,
+    error,
+    openNew,
+    openEdit,
+    setName,
+    setExpression,
+    addTargetGroup,
+    removeTargetGroup,
+    setActivateOnSave,
+    chooseSampleUser,
+    clearSampleUser,
+    loadPopulationSample,
+    save,
+    close,
+  };
+}
@@ -21,7 +21,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useRuleLifecycle } from './useRuleLifecycle';
 import { auditStore } from '../../shared/storage/auditStore';
-import type { FormattedRule } from '../../shared/types';
+import { logAction, logRuleDeleteAction } from '../../shared/undoManager';
+import type { FormattedRule, OktaGroupRule } from '../../shared/types';
 
 vi.mock('../../shared/storage/auditStore', () => ({
   auditStore: { logOperation: vi.fn().mockResolvedValue(undefined) },
@@ -29,12 +30,15 @@ vi.mock('../../shared/storage/auditStore', () => ({
 
 vi.mock('../../shared/undoManager', () => ({
   logAction: vi.fn().mockResolvedValue(undefined),
+  logRuleDeleteAction: vi.fn().mockResolvedValue(undefined),
 }));
 
 const api = {
   makeApiRequest: vi.fn(),
   activateGroupRule: vi.fn(),
   deactivateGroupRule: vi.fn(),
+  getRawGroupRule: vi.fn(),
+  deleteGroupRule: vi.fn(),
 };
 
 vi.mock('./useOktaApi', () => ({
@@ -59,6 +63,23 @@ const rules: FormattedRule[] = [
   },
 ];
 
+/** The raw rule as Okta returns it, in the given status. */
+function rawRule(status: 'ACTIVE' | 'INACTIVE'): OktaGroupRule {
+  return {
+    id: RULE_ID,
+    name: 'Engineering auto-assign',
+    status,
+    type: 'group_rule',
+    created: '2026-01-01T00:00:00.000Z',
+    lastUpdated: '2026-01-02T00:00:00.000Z',
+    conditions: {
+      expression: { value: 'user.department == "Eng"', type: 'urn:okta:expression:1.0' },
+      people: { users: { exclude: ['00uFAKEEXCL01'] } },
+    },
+    actions: { assignUserToGroups: { groupIds: ['00gFAKEGROUP01'] } },
+  };
+}
+
 /** Render the hook with mockable collaborators and drive one lifecycle call. */
 function setup() {
   const reload = vi.fn().mockResolvedValue(undefined);
@@ -81,6 +102,8 @@ beforeEach(() => {
   });
   api.activateGroupRule.mockResolvedValue({ success: true });
   api.deactivateGroupRule.mockResolvedValue({ success: true });
+  api.getRawGroupRule.mockResolvedValue(rawRule('INACTIVE'));
+  api.deleteGroupRule.mockResolvedValue({ success: true });
   mockedAuditStore.logOperation.mockResolvedValue(undefined);
 });
 
@@ -312,3 +335,81 @@ describe('useRuleLifecycle without a connected tab', () => {
     expect(reload).not.toHaveBeenCalled();
   });
 });
+
+describe('useRuleLifecycle deleteRule', () => {
+  it('records a restorable snapshot and a delete_rule audit entry', async () => {
+    const { result, reload, onError } = setup();
+
+    let deleted = false;
+    await act(async () => {
+      deleted = await result.current.deleteRule(RULE_ID);
+    });
+
+    expect(deleted).toBe(true);
+    expect(api.deactivateGroupRule).not.toHaveBeenCalled();
+    expect(api.deleteGroupRule).toHaveBeenCalledWith(RULE_ID);
+    expect(vi.mocked(logRuleDeleteAction)).toHaveBeenCalledWith({
+      id: RULE_ID,
+      name: 'Engineering auto-assign',
+      expression: 'user.department == "Eng"',
+      groupIds: ['00gFAKEGROUP01'],
+      status: 'INACTIVE',
+      excludedUserIds: ['00uFAKEEXCL01'],
+      people: { users: { exclude: ['00uFAKEEXCL01'] } },
+    });
+    const entry = onlyAuditEntry();
+    expect(entry.action).toBe('delete_rule');
+    expect(entry.result).toBe('success');
+    expect(reload).toHaveBeenCalledTimes(1);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('deactivates an active rule before deleting it', async () => {
+    api.getRawGroupRule.mockResolvedValue(rawRule('ACTIVE'));
+    const { result } = setup();
+
+    await act(async () => {
+      await result.current.deleteRule(RULE_ID);
+    });
+
+    expect(api.deactivateGroupRule).toHaveBeenCalledWith(RULE_ID);
+    expect(api.deactivateGroupRule.mock.invocationCallOrder[0]).toBeLessThan(
+      api.deleteGroupRule.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('refuses to delete a rule it could not snapshot', async () => {
+    api.getRawGroupRule.mockResolvedValue(null);
+    const { result, reload, onError } = setup();
+
+    let deleted = true;
+    await act(async () => {
+      deleted = await result.current.deleteRule(RULE_ID);
+    });
+
+    expect(deleted).toBe(false);
+    expect(api.deleteGroupRule).not.toHaveBeenCalled();
+    expect(vi.mocked(logRuleDeleteAction)).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith('Could not read the rule, so it was not deleted.');
+    expect(onlyAuditEntry().result).toBe('failed');
+    expect(reload).not.toHaveBeenCalled();
+  });
+
+  it('reports a rule left inactive when the delete fails after deactivation', async () => {
+    api.getRawGroupRule.mockResolvedValue(rawRule('ACTIVE'));
+    api.deleteGroupRule.mockResolvedValue({ success: false, error: 'Forbidden' });
+    const { result, reload, onError } = setup();
+
+    await act(async () => {
+      await result.current.deleteRule(RULE_ID);
+    });
+
+    expect(onError).toHaveBeenCalledWith(
+      'Forbidden. The rule was deactivated and remains inactive.',
+    );
+    expect(vi.mocked(logRuleDeleteAction)).not.toHaveBeenCalled();
+    expect(vi.mocked(logAction)).not.toHaveBeenCalled();
+    expect(onlyAuditEntry().result).toBe('partial');
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,6 +1,6 @@
 /**
  * @module sidepanel/hooks/useRuleLifecycle
- * @description Activate/deactivate a group rule, with undo + audit logging.
+ * @description Activate/deactivate/delete a group rule, with undo + audit logging.
  *
  * Extracted from `RulesTab` during its §7 decomposition. The two flows were
  * near-identical ~120-line blocks; they are unified here behind one
@@ -11,11 +11,16 @@
  * lookup via `makeApiRequest('/api/v1/users/me')` and the mutation via
  * `activateGroupRule`/`deactivateGroupRule` (both `useOktaApi` ops that post
  * through the background `ApiScheduler`). No direct `chrome.tabs.sendMessage`.
+ *
+ * Delete is the one write here Okta cannot take back, so it reads the raw rule
+ * first and refuses to proceed without it: the snapshot (`shared/rules/ruleSnapshot`)
+ * recorded with the `DELETE_RULE` entry is what lets History recreate the rule.
  */
 
 import { useCallback } from 'react';
 import type { FormattedRule, AuditLogEntry } from '../../shared/types';
-import { logAction } from '../../shared/undoManager';
+import { logAction, logRuleDeleteAction } from '../../shared/undoManager';
+import { snapshotRule } from '../../shared/rules/ruleSnapshot';
 import { auditStore } from '../../shared/storage/auditStore';
 import { createLogger } from '../../shared/utils/logger';
 import { useOktaApi } from './useOktaApi';
@@ -63,6 +68,11 @@ interface UseRuleLifecycleReturn {
   activateRule: (ruleId: string) => Promise<void>;
   /** Deactivate an active rule (callers gate this behind the impact confirm). */
   deactivateRule: (ruleId: string) => Promise<void>;
+  /**
+   * Delete a rule, deactivating it first if needed (callers gate this behind a
+   * confirm). Resolves `true` when the rule was deleted.
+   */
+  deleteRule: (ruleId: string) => Promise<boolean>;
 }
 
 /**
@@ -80,7 +90,13 @@ export function useRuleLifecycle({
 }: UseRuleLifecycleOptions): UseRuleLifecycleReturn {
   // §8: own a useOktaApi slice so both the current-user lookup and the mutation
   // route through the rate-limited scheduler instead of a direct content call.
-  const { makeApiRequest, activateGroupRule, deactivateGroupRule } = useOktaApi({
+  const {
+    makeApiRequest,
+    activateGroupRule,
+    deactivateGroupRule,
+    getRawGroupRule,
+    deleteGroupRule,
+  } = useOktaApi({
     targetTabId: targetTabId ?? null,
   });
 
@@ -214,5 +230,116 @@ export function useRuleLifecycle({
     [runLifecycle],
   );
 
-  return { activateRule, deactivateRule };
+  const deleteRule = useCallback(
+    async (ruleId: string): Promise<boolean> => {
+      if (!targetTabId) return false;
+
+      const startTime = Date.now();
+      const rule = rules.find((r) => r.id === ruleId);
+      let ruleName = rule?.name || 'Unknown Rule';
+      const groupIds = rule?.groupIds || [];
+      const groupNames = rule?.groupNames || [];
+      let apiRequestCount = 0;
+
+      let currentUserEmail = 'unknown@unknown.com';
+      try {
+        const userResponse = await makeApiRequest('/api/v1/users/me');
+        if (userResponse.success && userResponse.data) {
+          currentUserEmail = userResponse.data.profile?.email || 'unknown@unknown.com';
+        }
+      } catch (err) {
+        log.error('Failed to get current user:', err);
+      }
+
+      const audit = (result: AuditLogEntry['result'], errorMessage?: string) => {
+        const auditEntry: AuditLogEntry = {
+          id: crypto.randomUUID(),
+          timestamp: new Date(),
+          action: 'delete_rule',
+          groupId: groupIds[0] || 'multiple',
+          groupName: groupNames.length > 0 ? groupNames.join(', ') : ruleName,
+          performedBy: currentUserEmail,
+          affectedUsers: [],
+          result,
+          details: {
+            usersSucceeded: 0,
+            usersFailed: 0,
+            apiRequestCount,
+            durationMs: Date.now() - startTime,
+            ...(errorMessage ? { errorMessages: [errorMessage] } : {}),
+          },
+        };
+        auditStore.logOperation(auditEntry).catch((err) => {
+          log.error('Failed to log audit entry:', err);
+        });
+      };
+
+      try {
+        log.debug('Deleting rule:', ruleId);
+
+        // No snapshot, no delete: without the raw rule there would be nothing to
+        // recreate it from.
+        const raw = await getRawGroupRule(ruleId);
+        apiRequestCount++;
+        if (!raw) {
+          const message = 'Could not read the rule, so it was not deleted.';
+          onError(message);
+          audit('failed', message);
+          return false;
+        }
+        ruleName = raw.name;
+
+        // Okta only deletes INACTIVE rules.
+        if (raw.status === 'ACTIVE') {
+          const deactivated = await deactivateGroupRule(ruleId);
+          apiRequestCount++;
+          if (!deactivated.success) {
+            const message = deactivated.error || 'Failed to deactivate rule before deleting it';
+            onError(message);
+            audit('failed', message);
+            return false;
+          }
+        }
+
+        const deleted = await deleteGroupRule(ruleId);
+        apiRequestCount++;
+        if (!deleted.success) {
+          const message = deleted.error || 'Failed to delete rule';
+          // A rule deactivated above stays inactive; say so rather than leave the
+          // admin to discover it.
+          onError(
+            raw.status === 'ACTIVE'
+              ? `${message}. The rule was deactivated and remains inactive.`
+              : message,
+          );
+          audit(raw.status === 'ACTIVE' ? 'partial' : 'failed', message);
+          if (raw.status === 'ACTIVE') await reload();
+          return false;
+        }
+
+        await logRuleDeleteAction(snapshotRule(raw));
+        audit('success');
+        await reload();
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        onError(message || 'Failed to delete rule');
+        log.error('Deletion error:', err);
+        audit('failed', message || 'Unknown error');
+        return false;
+      }
+    },
+    [
+      targetTabId,
+      rules,
+      reload,
+      onError,
+      makeApiRequest,
+      getRawGroupRule,
+      deactivateGroupRule,
+      deleteGroupRule,
+    ],
+  );
+
+  return { activateRule, deactivateRule, deleteRule };
 }
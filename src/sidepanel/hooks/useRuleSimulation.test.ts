@@ -0,0 +1,144 @@
+/**
+ * Tests for {@link useRuleSimulation} — the rule workbench's org-wide what-if.
+ *
+ * Pins the run lifecycle (progress, result tied to the condition it ran for,
+ * cancellation leaving no error) and the cohort export handed to the Export
+ * engine. The Okta API (`useOktaApi`) is fully mocked; identifiers are fake.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useRuleSimulation } from './useRuleSimulation';
+import { OperationCancelledError } from '../../shared/scheduler/cancellation';
+import { ruleSimulationDescriptor } from '../export/simulation/ruleSimulationExport';
+import type { SimulatedUser } from '../../shared/membership/ruleSimulation';
+
+const api = {
+  simulateRuleAcrossOrg: vi.fn(),
+  runExport: vi.fn(),
+  cancelOperation: vi.fn(),
+};
+
+vi.mock('./useOktaApi', () => ({
+  useOktaApi: () => api,
+}));
+
+const fakeUser = (id: string) => ({
+  id,
+  status: 'ACTIVE' as const,
+  profile: {
+    login: `${id}@example.com`,
+    email: `${id}@example.com`,
+    firstName: 'F',
+    lastName: 'U',
+  },
+});
+
+const rows: SimulatedUser[] = [
+  { user: fakeUser('00uFAKE1'), outcome: 'match', baselineOutcome: 'no-match', change: 'starts' },
+  { user: fakeUser('00uFAKE2'), outcome: 'no-match', baselineOutcome: 'match', change: 'stops' },
+];
+
+const summary = {
+  total: 2,
+  matched: 1,
+  noMatch: 1,
+  unevaluable: 0,
+  starts: 1,
+  stops: 1,
+  unknownChange: 0,
+  unevaluableReasons: [],
+};
+
+function renderSimulation() {
+  const onError = vi.fn();
+  const hook = renderHook(() => useRuleSimulation({ targetTabId: 1, onError }));
+  return { ...hook, onError };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  api.simulateRuleAcrossOrg.mockImplementation(async (_expr, _opts, onProgress) => {
+    onProgress?.(2);
+    return { rows, summary };
+  });
+  api.runExport.mockResolvedValue(undefined);
+});
+
+describe('useRuleSimulation', () => {
+  it('runs the sweep and records the condition it ran for', async () => {
+    const { result } = renderSimulation();
+    const options = { baseline: 'user.department=="Eng"' };
+
+    await act(async () => {
+      await result.current.run('user.department=="Sales"', options);
+    });
+
+    expect(api.simulateRuleAcrossOrg).toHaveBeenCalledWith(
+      'user.department=="Sales"',
+      options,
+      expect.any(Function),
+    );
+    expect(result.current).toMatchObject({
+      status: 'done',
+      loaded: 2,
+      simulatedExpression: 'user.department=="Sales"',
+      compared: true,
+    });
+    expect(result.current.result?.summary).toEqual(summary);
+  });
+
+  it('exports one cohort through the Export engine', async () => {
+    const { result } = renderSimulation();
+    await act(async () => {
+      await result.current.run('user.department=="Sales"', { baseline: 'x' });
+    });
+
+    await act(async () => {
+      await result.current.exportCohort('stops');
+    });
+
+    expect(api.runExport).toHaveBeenCalledWith(
+      expect.objectContaining({
+        descriptor: ruleSimulationDescriptor,
+        rows: [rows[1]],
+        enabledColumnIds: expect.arrayContaining(['change']),
+      }),
+    );
+  });
+
+  it('leaves out the comparison columns when there was no baseline', async () => {
+    const { result } = renderSimulation();
+    await act(async () => {
+      await result.current.run('user.department=="Sales"');
+    });
+    await act(async () => {
+      await result.current.exportCohort('match');
+    });
+
+    expect(api.runExport.mock.calls[0][0].enabledColumnIds).not.toContain('change');
+  });
+
+  it('treats a cancelled sweep as no result rather than an error', async () => {
+    api.simulateRuleAcrossOrg.mockRejectedValue(new OperationCancelledError());
+    const { result, onError } = renderSimulation();
+
+    await act(async () => {
+      await result.current.run('user.department=="Sales"');
+    });
+
+    expect(result.current.status).toBe('idle');
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('surfaces a failed page', async () => {
+    api.simulateRuleAcrossOrg.mockRejectedValue(new Error('HTTP 403'));
+    const { result, onError } = renderSimulation();
+
+    await act(async () => {
+      await result.current.run('user.department=="Sales"');
+    });
+
+    expect(result.current).toMatchObject({ status: 'error', error: 'HTTP 403' });
+    expect(onError).toHaveBeenCalledWith('HTTP 403');
+  });
+});
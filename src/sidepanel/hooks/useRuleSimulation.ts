@@ -0,0 +1,171 @@
+/**
+ * @module sidepanel/hooks/useRuleSimulation
+ * @description Drives the org-wide "what-if" for a rule condition in the authoring
+ * workbench.
+ *
+ * Where the workbench's estimate tallies one page of users on every keystroke,
+ * this runs only when asked: it pages every user in the org on the scheduler
+ * (`simulateRuleAcrossOrg`), sorts them into match / no-match / unevaluable
+ * cohorts and — when a rule is being edited — into who would start or stop
+ * matching. Any cohort can then be exported through the Export engine.
+ *
+ * A result is tied to the condition it was run for. When the draft moves on, the
+ * result is reported `stale` rather than silently re-labelled; re-running is the
+ * admin's call, because a sweep of a large org is not free.
+ *
+ * The condition and users' profiles are tenant data: nothing here logs them —
+ * counts and reason codes only.
+ */
+
+import { useCallback, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import type { RuleSimulationResult } from './useOktaApi/ruleAuthoring';
+import {
+  selectRuleSimulationCohort,
+  type RuleSimulationCohort,
+  type RuleSimulationOptions,
+} from '../../shared/membership/ruleSimulation';
+import {
+  ruleSimulationDescriptor,
+  RULE_SIMULATION_DEFAULT_COLUMNS,
+} from '../export/simulation/ruleSimulationExport';
+import { OperationCancelledError } from '../../shared/scheduler/cancellation';
+import { createLogger } from '../../shared/utils/logger';
+
+const log = createLogger('useRuleSimulation');
+
+/** Lifecycle of one simulation. */
+export type RuleSimulationStatus = 'idle' | 'running' | 'done' | 'error';
+
+/** Options for {@link useRuleSimulation}. */
+interface UseRuleSimulationOptions {
+  targetTabId?: number;
+  /** Surface an error message in the tab. */
+  onError: (message: string) => void;
+}
+
+/** Return shape of {@link useRuleSimulation}. */
+export interface UseRuleSimulationReturn {
+  status: RuleSimulationStatus;
+  /** Users read so far while running. */
+  loaded: number;
+  result: RuleSimulationResult | null;
+  /** The condition `result` was computed for. */
+  simulatedExpression: string | null;
+  /** Whether the last run compared against a baseline condition. */
+  compared: boolean;
+  error: string | null;
+  /** Page the org and evaluate `expression` for every user. */
+  run: (expression: string, options?: RuleSimulationOptions) => Promise<void>;
+  /** Stop a running sweep between pages. */
+  cancel: () => void;
+  /** Download one cohort of the last result as CSV. */
+  exportCohort: (cohort: RuleSimulationCohort) => Promise<void>;
+  /** Drop the result. */
+  reset: () => void;
+}
+
+/** The filename stem for a cohort's CSV. */
+const COHORT_LABEL: Record<RuleSimulationCohort, string> = {
+  match: 'Rule simulation matches',
+  'no-match': 'Rule simulation non-matches',
+  unevaluable: 'Rule simulation unevaluable',
+  starts: 'Rule simulation starts matching',
+  stops: 'Rule simulation stops matching',
+};
+
+/**
+ * Manage an org-wide rule simulation.
+ *
+ * @param options - See {@link UseRuleSimulationOptions}.
+ * @returns Simulation state plus its controls.
+ */
+export function useRuleSimulation({
+  targetTabId,
+  onError,
+}: UseRuleSimulationOptions): UseRuleSimulationReturn {
+  const { simulateRuleAcrossOrg, runExport, cancelOperation } = useOktaApi({
+    targetTabId: targetTabId ?? null,
+  });
+
+  const [status, setStatus] = useState<RuleSimulationStatus>('idle');
+  const [loaded, setLoaded] = useState(0);
+  const [result, setResult] = useState<RuleSimulationResult | null>(null);
+  const [simulatedExpression, setSimulatedExpression] = useState<string | null>(null);
+  const [compared, setCompared] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = useCallback(() => {
+    setStatus('idle');
+    setLoaded(0);
+    setResult(null);
+    setSimulatedExpression(null);
+    setCompared(false);
+    setError(null);
+  }, []);
+
+  const run = useCallback(
+    async (expression: string, options: RuleSimulationOptions = {}) => {
+      setStatus('running');
+      setLoaded(0);
+      setError(null);
+      try {
+        const next = await simulateRuleAcrossOrg(expression, options, setLoaded);
+        setResult(next);
+        setSimulatedExpression(expression);
+        setCompared(options.baseline !== undefined);
+        setStatus('done');
+        log.info('Rule simulation complete', {
+          total: next.summary.total,
+          matched: next.summary.matched,
+          unevaluable: next.summary.unevaluable,
+        });
+      } catch (err) {
+        if (err instanceof OperationCancelledError) {
+          // Keep any earlier result; a cancelled sweep changes nothing.
+          setStatus(result ? 'done' : 'idle');
+          return;
+        }
+        const message = err instanceof Error ? err.message : 'Simulation failed';
+        setError(message);
+        setStatus('error');
+        onError(message);
+      }
+    },
+    [simulateRuleAcrossOrg, onError, result],
+  );
+
+  const exportCohort = useCallback(
+    async (cohort: RuleSimulationCohort) => {
+      if (!result) return;
+      try {
+        await runExport({
+          descriptor: ruleSimulationDescriptor,
+          rows: selectRuleSimulationCohort(result.rows, cohort),
+          enabledColumnIds: compared
+            ? RULE_SIMULATION_DEFAULT_COLUMNS
+            : RULE_SIMULATION_DEFAULT_COLUMNS.filter(
+                (id) => id !== 'baselineOutcome' && id !== 'change',
+              ),
+          contextLabel: COHORT_LABEL[cohort],
+        });
+      } catch (err) {
+        onError(err instanceof Error ? err.message : 'Export failed');
+      }
+    },
+    [result, compared, runExport, onError],
+  );
+
+  return {
+    status,
+    loaded,
+    result,
+    simulatedExpression,
+    compared,
+    error,
+    run,
+    cancel: cancelOperation,
+    exportCohort,
+    reset,
+  };
+}
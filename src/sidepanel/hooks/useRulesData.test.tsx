@@ -26,6 +26,7 @@ vi.mock('../../shared/rulesCache', () => ({
 
 vi.mock('./fetchGroupRulesRequest', () => ({
   fetchGroupRulesRequest: vi.fn(),
+  loadCachedGroupNames: vi.fn(async () => new Map<string, string>()),
 }));
 
 const rulesCacheGet = vi.mocked(RulesCache.get);
@@ -0,0 +1,158 @@
+/**
+ * @module sidepanel/hooks/useScheduledReports
+ * @description React binding over {@link module:shared/storage/scheduledReportStore}
+ * for the scheduled-reports list and the schedule modal.
+ *
+ * The panel only writes reports; the service worker runs them
+ * (`background/scheduledReports`). After a save or delete the worker is sent
+ * `scheduledReportsChanged` so the alarms follow, and "Run now" asks it to run a
+ * report through `runScheduledReportNow`. The list refreshes when the worker
+ * broadcasts `scheduledReportRan`, so a run that finishes while the panel is open
+ * shows up without a reload.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  nextRunAt,
+  type ReportCadence,
+  type ScheduledReport,
+  type ScheduledReportJob,
+  type ScheduledReportRun,
+} from '@/shared/reports/scheduledReports';
+import { scheduledReportStore } from '@/shared/storage/scheduledReportStore';
+import { downloadCSV, sanitizeFilename } from '@/shared/utils/csvUtils';
+import { createLogger } from '@/shared/utils/logger';
+
+const log = createLogger('useScheduledReports');
+
+/** A report with its most recent run, as the list shows it. */
+export interface ScheduledReportEntry {
+  report: ScheduledReport;
+  /** The newest run, or `null` before the first. */
+  lastRun: ScheduledReportRun | null;
+}
+
+/** What {@link useScheduledReports} returns. */
+export interface UseScheduledReports {
+  /** Every report, oldest first, with its latest run. */
+  entries: ScheduledReportEntry[];
+  /** Ids of the reports a "Run now" is waiting on. */
+  runningIds: ReadonlySet<string>;
+  /**
+   * Save a new report for the current org and set its alarm. Returns it, or
+   * `null` when it was not stored or the org is not known yet.
+   */
+  save: (input: {
+    name: string;
+    job: ScheduledReportJob;
+    cadence: ReportCadence;
+  }) => Promise<ScheduledReport | null>;
+  /** Delete a report with its runs, and its alarm. */
+  remove: (id: string) => Promise<void>;
+  /** Run a report now, leaving its schedule as it is. */
+  runNow: (id: string) => Promise<void>;
+  /** Download an export run's CSV. */
+  download: (report: ScheduledReport, run: ScheduledReportRun) => void;
+}
+
+/** Tell the worker the reports changed so it sets the alarms to match. */
+async function syncAlarms(): Promise<void> {
+  try {
+    await chrome.runtime.sendMessage({ action: 'scheduledReportsChanged' });
+  } catch (error) {
+    log.error('Failed to sync report alarms:', error);
+  }
+}
+
+/**
+ * Manage the scheduled reports.
+ *
+ * @param oktaOrigin - The current org's origin, saved with a new report so it
+ *   runs only through that org's tab; nullish until the tab connects.
+ * @returns The list and its save / remove / run / download operations (see
+ *   {@link UseScheduledReports}).
+ */
+export function useScheduledReports(oktaOrigin: string | null | undefined): UseScheduledReports {
+  const [entries, setEntries] = useState<ScheduledReportEntry[]>([]);
+  const [runningIds, setRunningIds] = useState<ReadonlySet<string>>(new Set());
+
+  const refresh = useCallback(async () => {
+    const reports = await scheduledReportStore.listReports();
+    const withRuns = await Promise.all(
+      reports.map(async (report) => ({
+        report,
+        lastRun: (await scheduledReportStore.listRuns(report.id))[0] ?? null,
+      })),
+    );
+    setEntries(withRuns);
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+
+    const listener = (message: { action?: string }) => {
+      if (message?.action === 'scheduledReportRan') void refresh();
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => {
+      chrome.runtime.onMessage.removeListener(listener);
+    };
+  }, [refresh]);
+
+  const save = useCallback<UseScheduledReports['save']>(
+    async ({ name, job, cadence }) => {
+      if (!oktaOrigin) return null;
+      const report: ScheduledReport = {
+        id: crypto.randomUUID(),
+        name: name.trim(),
+        job,
+        cadence,
+        origin: oktaOrigin,
+        createdAt: new Date(),
+        nextRunAt: nextRunAt(cadence, Date.now()),
+        version: 1,
+      };
+      if (!(await scheduledReportStore.putReport(report))) return null;
+      await syncAlarms();
+      await refresh();
+      return report;
+    },
+    [oktaOrigin, refresh],
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      await scheduledReportStore.deleteReport(id);
+      await syncAlarms();
+      await refresh();
+    },
+    [refresh],
+  );
+
+  const runNow = useCallback(
+    async (id: string) => {
+      setRunningIds((current) => new Set(current).add(id));
+      try {
+        await chrome.runtime.sendMessage({ action: 'runScheduledReportNow', reportId: id });
+      } catch (error) {
+        log.error('Failed to run scheduled report:', error);
+      } finally {
+        setRunningIds((current) => {
+          const next = new Set(current);
+          next.delete(id);
+          return next;
+        });
+        await refresh();
+      }
+    },
+    [refresh],
+  );
+
+  const download = useCallback((report: ScheduledReport, run: ScheduledReportRun) => {
+    if (!run.csv) return;
+    const date = run.startedAt.toISOString().slice(0, 10);
+    downloadCSV(run.csv, `${sanitizeFilename(report.name)}-${date}.csv`);
+  }, []);
+
+  return { entries, runningIds, save, remove, runNow, download };
+}
@@ -0,0 +1,88 @@
+/**
+ * @module sidepanel/hooks/useSsoInspector
+ * @description State for the SSO Inspector: the pasted or captured
+ * `SAMLResponse`, and what decoding it produced.
+ *
+ * Decoding is synchronous and local (`shared/saml/samlResponse`), so it runs on
+ * Inspect rather than on every keystroke — a half-pasted value is not an error
+ * worth showing. Capturing reads the field off the Okta tab through the content
+ * script and decodes it straight away. Nothing is sent to Okta's API, stored or
+ * logged: an assertion carries user data and lives only in this component's state.
+ */
+import { useCallback, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import { decodeSamlResponse, type DecodedSamlResponse } from '../../shared/saml/samlResponse';
+
+/** What {@link useSsoInspector} hands back to the view. */
+export interface SsoInspectorState {
+  input: string;
+  setInput: (value: string) => void;
+  /** The last decode, or `null` before one ran (or after Clear). */
+  result: DecodedSamlResponse | null;
+  /** When the last decode ran: the moment its validity window is read against. */
+  inspectedAt: Date | null;
+  /** Decode the current input. */
+  inspect: () => void;
+  /** Read the `SAMLResponse` field off the Okta tab and decode it. */
+  capture: () => Promise<void>;
+  isCapturing: boolean;
+  /** Why the last capture failed, or `null`. */
+  captureError: string | null;
+  clear: () => void;
+}
+
+/**
+ * @param targetTabId - The connected Okta tab; capture is unavailable without one.
+ * @returns The {@link SsoInspectorState}.
+ */
+export function useSsoInspector(targetTabId: number | null): SsoInspectorState {
+  const { captureSamlResponse } = useOktaApi({ targetTabId });
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<DecodedSamlResponse | null>(null);
+  const [inspectedAt, setInspectedAt] = useState<Date | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [captureError, setCaptureError] = useState<string | null>(null);
+
+  const decode = useCallback((value: string) => {
+    setResult(decodeSamlResponse(value));
+    setInspectedAt(new Date());
+  }, []);
+
+  const inspect = useCallback(() => {
+    setCaptureError(null);
+    decode(input);
+  }, [decode, input]);
+
+  const capture = useCallback(async () => {
+    setIsCapturing(true);
+    setCaptureError(null);
+    try {
+      const value = await captureSamlResponse();
+      setInput(value);
+      decode(value);
+    } catch (err) {
+      setCaptureError(err instanceof Error ? err.message : 'Could not read the Okta tab');
+    } finally {
+      setIsCapturing(false);
+    }
+  }, [captureSamlResponse, decode]);
+
+  const clear = useCallback(() => {
+    setInput('');
+    setResult(null);
+    setInspectedAt(null);
+    setCaptureError(null);
+  }, []);
+
+  return {
+    input,
+    setInput,
+    result,
+    inspectedAt,
+    inspect,
+    capture,
+    isCapturing,
+    captureError,
+    clear,
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * @module sidepanel/hooks/useSystemLog
+ * @description Drives the Logs tab: run a scoped System Log query, page through
+ * the results, and re-run when the scope changes.
+ *
+ * The scope is the tab's input (the entity in the ContextBar, or a rule opened
+ * from the Rules tab); the range, filter and keywords are the admin's. A new scope
+ * re-runs the query with the admin's current options, deferred while the tab is
+ * hidden ({@link useOwedLoad}), so moving between Okta pages does not query the
+ * log for a tab nobody is looking at.
+ *
+ * Responses can arrive out of order when the scope changes mid-request; only the
+ * newest query's answer is kept. The request itself is in `useOktaApi/systemLog`.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { useOktaApi } from './useOktaApi';
+import { useOwedLoad } from './useOwedLoad';
+import type { OktaLogEvent } from '../../shared/schemas/okta';
+import type { LogQuery, LogRangeId, LogScope } from '../../shared/systemLog/logQuery';
+
+/** The admin-controlled part of a query. */
+export type LogOptions = Omit<LogQuery, 'scope'>;
+
+/** Return shape of {@link useSystemLog}. */
+export interface UseSystemLogReturn {
+  /** Events loaded so far, newest first. */
+  events: OktaLogEvent[];
+  /** The options the shown events were queried with. */
+  options: LogOptions;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  /** Whether Okta has older events for this query. */
+  hasMore: boolean;
+  error: string | null;
+  /** Run the query again with new options. */
+  search: (options: LogOptions) => void;
+  /** Append the next page. */
+  loadMore: () => void;
+  clearError: () => void;
+}
+
+const DEFAULT_RANGE: LogRangeId = '7d';
+
+/** A primitive naming a scope, for the load latch. */
+function scopeKey(scope: LogScope): string {
+  return scope.kind === 'org' ? 'org' : `${scope.kind}:${scope.id}`;
+}
+
+/**
+ * Query the System Log for one scope.
+ *
+ * @param scope - What the events are about.
+ * @param targetTabId - Connected Okta tab id (nothing runs when absent).
+ * @param isActive - Whether the tab is shown; a scope change waits for it.
+ * @returns The loaded events and the query actions.
+ */
+export function useSystemLog(
+  scope: LogScope,
+  targetTabId: number | undefined,
+  isActive: boolean,
+): UseSystemLogReturn {
+  const { queryLogs, getLogPage } = useOktaApi({ targetTabId: targetTabId ?? null });
+
+  const [events, setEvents] = useState<OktaLogEvent[]>([]);
+  const [options, setOptions] = useState<LogOptions>({
+    range: DEFAULT_RANGE,
+    filter: '',
+    q: '',
+  });
+  const [nextUrl, setNextUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped per query; an answer for an older one is dropped.
+  const generation = useRef(0);
+
+  const run = useCallback(
+    async (query: LogQuery) => {
+      const current = ++generation.current;
+      setOptions({ range: query.range, filter: query.filter, q: query.q });
+      setIsLoading(true);
+      setError(null);
+      setEvents([]);
+      setNextUrl(null);
+      try {
+        const page = await queryLogs(query);
+        if (current !== generation.current) return;
+        setEvents(page.events);
+        setNextUrl(page.nextUrl);
+      } catch (err) {
+        if (current !== generation.current) return;
+        setError(err instanceof Error ? err.message : 'Failed to read the System Log');
+      } finally {
+        if (current === generation.current) setIsLoading(false);
+      }
+    },
+    [queryLogs],
+  );
+
+  useOwedLoad(targetTabId == null ? null : `${targetTabId}:${scopeKey(scope)}`, isActive, () => {
+    void run({ scope, ...options });
+  });
+
+  const search = useCallback(
+    (next: LogOptions) => {
+      void run({ scope, ...next });
+    },
+    [run, scope],
+  );
+
+  const loadMore = useCallback(async () => {
+    if (!nextUrl) return;
+    const current = generation.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await getLogPage(nextUrl);
+      if (current !== generation.current) return;
+      setEvents((prev) => [...prev, ...page.events]);
+      setNextUrl(page.nextUrl);
+    } catch (err) {
+      if (current !== generation.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to read the System Log');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [getLogPage, nextUrl]);
+
+  return {
+    events,
+    options,
+    isLoading,
+    isLoadingMore,
+    hasMore: nextUrl !== null,
+    error,
+    search,
+    loadMore: () => void loadMore(),
+    clearError: () => setError(null),
+  };
+}
@@ -3,9 +3,9 @@
  *
  * What these pin, in order of how badly getting them wrong would hurt:
  *
- * - **Only `UPDATE_USER_PROFILE` is undoable.** Table-driven over all seven other
- *   `ActionType`s, each of which must come back with a reason rather than an
- *   attempt.
+ * - **Only profile, status, rule-delete, role and group push writes are undoable.**
+ *   Table-driven over the other `ActionType`s, each of which must come back with
+ *   a reason rather than an attempt.
  * - **Drift refuses, and reports names only.** Including the subtle case: a third
  *   party set the attribute *back* to its old value, so it differs from what we
  *   wrote while matching what it was before. "Is it still what we wrote?" catches
@@ -15,6 +15,13 @@
  *   last two lets the log's stale read clobber the status flag.
  * - **An evicted original is not a failure**, and an already-undone entry costs
  *   no API call at all.
+ * - **Status and rule undos** reverse with the opposite write, refuse a user
+ *   whose status has moved on, and recreate a rule active only if it was.
+ * - **Role undos** revoke only the assignment the grant created while it is
+ *   still org-wide, and re-grant a revoked role only when it had no targets.
+ * - **Group push undos** remove a push we created, flip a status only while it
+ *   is still what we set, and link a deleted push again only when its target
+ *   group survived.
  *
  * The Okta API is mocked at the `useOktaApi` facade (this repo does not use MSW —
  * the side panel never calls `fetch`; see `docs/component-explorer.md`), and the
@@ -23,10 +30,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { act, renderHook } from '@testing-library/react';
 import { useUndoAction, type UndoOutcome } from './useUndoAction';
-import { logProfileUpdateAction, markActionUndone } from '../../shared/undoManager';
+import {
+  logAdminRoleAction,
+  logGroupPushAction,
+  logProfileUpdateAction,
+  logRuleRestoreAction,
+  logUserStatusAction,
+  markActionUndone,
+} from '../../shared/undoManager';
 import type {
   ActionType,
   CapturedAttribute,
+  RetiredRuleSnapshot,
   UndoAction,
   UndoActionMetadata,
 } from '../../shared/undoTypes';
@@ -38,6 +53,19 @@ const calls: string[] = [];
 const api = {
   getUserRaw: vi.fn(),
   updateUserProfile: vi.fn(),
+  suspendUser: vi.fn(),
+  unsuspendUser: vi.fn(),
+  createGroupRule: vi.fn(),
+  activateGroupRule: vi.fn(),
+  getUserRoles: vi.fn(),
+  getRoleTargets: vi.fn(),
+  grantUserRole: vi.fn(),
+  revokeUserRole: vi.fn(),
+  getGroupPushMapping: vi.fn(),
+  getGroupPushLinks: vi.fn(),
+  createGroupPushMapping: vi.fn(),
+  setGroupPushMappingStatus: vi.fn(),
+  deleteGroupPushMapping: vi.fn(),
 };
 
 vi.mock('./useOktaApi', () => ({
@@ -46,10 +74,18 @@ vi.mock('./useOktaApi', () => ({
 
 vi.mock('../../shared/undoManager', () => ({
   logProfileUpdateAction: vi.fn(),
+  logUserStatusAction: vi.fn(),
+  logRuleRestoreAction: vi.fn(),
+  logAdminRoleAction: vi.fn(),
+  logGroupPushAction: vi.fn(),
   markActionUndone: vi.fn(),
 }));
 
 const mockedLog = vi.mocked(logProfileUpdateAction);
+const mockedStatusLog = vi.mocked(logUserStatusAction);
+const mockedRestoreLog = vi.mocked(logRuleRestoreAction);
+const mockedRoleLog = vi.mocked(logAdminRoleAction);
+const mockedPushLog = vi.mocked(logGroupPushAction);
 const mockedMark = vi.mocked(markActionUndone);
 
 /** A restorable captured change. */
@@ -139,11 +175,84 @@ beforeEach(() => {
     calls.push('markActionUndone');
     return true;
   });
+  api.suspendUser.mockImplementation(async () => {
+    calls.push('suspendUser');
+    return { success: true };
+  });
+  api.unsuspendUser.mockImplementation(async () => {
+    calls.push('unsuspendUser');
+    return { success: true };
+  });
+  api.createGroupRule.mockImplementation(async () => {
+    calls.push('createGroupRule');
+    return { success: true, rule: { id: '0prFAKENEW1' } };
+  });
+  api.activateGroupRule.mockImplementation(async () => {
+    calls.push('activateGroupRule');
+    return { success: true };
+  });
+  mockedStatusLog.mockImplementation(async () => {
+    calls.push('logUserStatusAction');
+    return { id: 'action_undo' } as UndoAction;
+  });
+  mockedRestoreLog.mockImplementation(async () => {
+    calls.push('logRuleRestoreAction');
+    return { id: 'action_undo' } as UndoAction;
+  });
+  api.getUserRoles.mockResolvedValue([]);
+  api.getRoleTargets.mockResolvedValue({ kind: 'groups', targets: [] });
+  api.revokeUserRole.mockImplementation(async () => {
+    calls.push('revokeUserRole');
+    return { success: true };
+  });
+  api.grantUserRole.mockImplementation(async () => {
+    calls.push('grantUserRole');
+    return { success: true, role: { assignmentId: 'irbFAKENEW' } };
+  });
+  mockedRoleLog.mockImplementation(async () => {
+    calls.push('logAdminRoleAction');
+    return { id: 'action_undo' } as UndoAction;
+  });
+  api.getGroupPushMapping.mockResolvedValue(null);
+  api.getGroupPushLinks.mockResolvedValue({ links: [], unreadableApps: [] });
+  api.createGroupPushMapping.mockImplementation(async () => {
+    calls.push('createGroupPushMapping');
+    return { success: true, link: { mappingId: 'gpmFAKENEW' } };
+  });
+  api.setGroupPushMappingStatus.mockImplementation(async () => {
+    calls.push('setGroupPushMappingStatus');
+    return { success: true };
+  });
+  api.deleteGroupPushMapping.mockImplementation(async () => {
+    calls.push('deleteGroupPushMapping');
+    return { success: true };
+  });
+  mockedPushLog.mockImplementation(async () => {
+    calls.push('logGroupPushAction');
+    return { id: 'action_undo' } as UndoAction;
+  });
 });
 
-describe('undoability — only profile writes have an undo path', () => {
-  /** One representative entry per non-profile action type. */
-  const otherTypes: Array<[Exclude<ActionType, 'UPDATE_USER_PROFILE'>, UndoActionMetadata]> = [
+describe('undoability — other action types have no undo path', () => {
+  /** One representative entry per action type without an undo path. */
+  const otherTypes: Array<
+    [
+      Exclude<
+        ActionType,
+        | 'UPDATE_USER_PROFILE'
+        | 'SUSPEND_USER'
+        | 'UNSUSPEND_USER'
+        | 'DELETE_RULE'
+        | 'GRANT_ADMIN_ROLE'
+        | 'REVOKE_ADMIN_ROLE'
+        | 'CREATE_PUSH_MAPPING'
+        | 'ACTIVATE_PUSH_MAPPING'
+        | 'DEACTIVATE_PUSH_MAPPING'
+        | 'DELETE_PUSH_MAPPING'
+      >,
+      UndoActionMetadata,
+    ]
+  > = [
     [
       'REMOVE_USER_FROM_GROUP',
       {
@@ -197,6 +306,29 @@ describe('undoability — only profile writes have an undo path', () => {
         retiredRules: [],
       },
     ],
+    [
+      'RESTORE_RULE',
+      {
+        type: 'RESTORE_RULE',
+        restoredRuleId: '0prFAKE9',
+        restoredRuleName: 'Auto-add',
+        originalRuleId: '0prFAKE1',
+        activated: true,
+        undoOfActionId: 'action_delete',
+      },
+    ],
+    [
+      'PUSH_GROUP_NOW',
+      {
+        type: 'PUSH_GROUP_NOW',
+        appId: '0oaFAKE1',
+        appName: 'Slack',
+        mappingId: 'gpmFAKE1',
+        sourceGroupId: '00gFAKE1',
+        sourceGroupName: 'Engineering',
+        targetGroupId: '00gFAKET1',
+      },
+    ],
   ];
 
   it.each(otherTypes)('%s is not undoable, with a reason', async (type, metadata) => {
@@ -456,3 +588,390 @@ describe('an already-undone entry', () => {
     expect(calls).toEqual([]);
   });
 });
+
+/** A suspend or unsuspend entry for the fixture user. */
+const statusAction = (type: 'SUSPEND_USER' | 'UNSUSPEND_USER'): UndoAction => ({
+  id: 'action_original',
+  type,
+  timestamp: 1_700_000_000_000,
+  description: 'Suspended Ada Lovelace',
+  status: 'completed',
+  metadata: {
+    type,
+    userId: '00uFAKE0000000000001',
+    userLogin: 'user@example.com',
+    userName: 'Ada Lovelace',
+  },
+});
+
+describe('undoing a suspend or unsuspend', () => {
+  it('unsuspends a still-suspended user, then logs and marks in that order', async () => {
+    api.getUserRaw.mockResolvedValue({ ...liveUser({}), status: 'SUSPENDED' });
+
+    const outcome = await runUndo(statusAction('SUSPEND_USER'));
+
+    expect(outcome).toEqual({
+      kind: 'reversed',
+      actionId: 'action_undo',
+      summary: expect.any(String),
+    });
+    expect(calls).toEqual(['unsuspendUser', 'logUserStatusAction', 'markActionUndone']);
+    expect(mockedStatusLog).toHaveBeenCalledWith(
+      'unsuspend',
+      '00uFAKE0000000000001',
+      'user@example.com',
+      'Ada Lovelace',
+      'action_original',
+    );
+    expect(mockedMark).toHaveBeenCalledWith('action_original', 'action_undo');
+  });
+
+  it('suspends again a user who is still active after an unsuspend', async () => {
+    await runUndo(statusAction('UNSUSPEND_USER'));
+
+    expect(calls[0]).toBe('suspendUser');
+    expect(mockedStatusLog).toHaveBeenCalledWith(
+      'suspend',
+      expect.any(String),
+      expect.any(String),
+      expect.any(String),
+      'action_original',
+    );
+  });
+
+  it('refuses when the status has moved on since', async () => {
+    // Someone unsuspended the user already; suspending the unsuspend's undo
+    // target would overwrite them.
+    const outcome = await runUndo(statusAction('SUSPEND_USER'));
+
+    expect(outcome).toEqual({ kind: 'drifted', attributeNames: ['status'] });
+    expect(calls).toEqual([]);
+  });
+
+  it('records nothing when Okta rejects the reversing write', async () => {
+    api.getUserRaw.mockResolvedValue({ ...liveUser({}), status: 'SUSPENDED' });
+    api.unsuspendUser.mockResolvedValue({ success: false, error: 'Forbidden' });
+
+    expect(await runUndo(statusAction('SUSPEND_USER'))).toEqual({
+      kind: 'failed',
+      error: 'Forbidden',
+    });
+    expect(mockedStatusLog).not.toHaveBeenCalled();
+    expect(mockedMark).not.toHaveBeenCalled();
+  });
+});
+
+/** A rule-delete entry whose snapshot was active at deletion. */
+const deleteAction = (overrides: Partial<RetiredRuleSnapshot> = {}): UndoAction => ({
+  id: 'action_original',
+  type: 'DELETE_RULE',
+  timestamp: 1_700_000_000_000,
+  description: 'Deleted rule: Engineering auto-assign',
+  status: 'completed',
+  metadata: {
+    type: 'DELETE_RULE',
+    rule: {
+      id: '0prFAKE1',
+      name: 'Engineering auto-assign',
+      expression: 'user.department == "Eng"',
+      groupIds: ['00gFAKE1'],
+      status: 'ACTIVE',
+      ...overrides,
+    },
+  },
+});
+
+describe('undoing a rule delete', () => {
+  it('recreates the rule, re-activates it, then logs and marks in that order', async () => {
+    const outcome = await runUndo(deleteAction());
+
+    expect(outcome).toMatchObject({ kind: 'reversed', actionId: 'action_undo' });
+    expect(calls).toEqual([
+      'createGroupRule',
+      'activateGroupRule',
+      'logRuleRestoreAction',
+      'markActionUndone',
+    ]);
+    expect(api.createGroupRule).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Engineering auto-assign' }),
+    );
+    expect(api.activateGroupRule).toHaveBeenCalledWith('0prFAKENEW1');
+    expect(mockedRestoreLog).toHaveBeenCalledWith(
+      expect.objectContaining({ id: '0prFAKE1' }),
+      '0prFAKENEW1',
+      true,
+      'action_original',
+    );
+  });
+
+  it('leaves a rule that was inactive at deletion inactive', async () => {
+    await runUndo(deleteAction({ status: 'INACTIVE' }));
+
+    expect(api.activateGroupRule).not.toHaveBeenCalled();
+    expect(mockedRestoreLog).toHaveBeenCalledWith(
+      expect.anything(),
+      '0prFAKENEW1',
+      false,
+      'action_original',
+    );
+  });
+
+  it('still records the recreate when the activation fails', async () => {
+    api.activateGroupRule.mockResolvedValue({ success: false });
+
+    const outcome = await runUndo(deleteAction());
+
+    expect(outcome.kind).toBe('reversed');
+    expect(mockedMark).toHaveBeenCalledWith('action_original', 'action_undo');
+  });
+
+  it('is not undoable when the snapshot lacks a condition', async () => {
+    const action = deleteAction({ expression: '' });
+
+    expect(renderUndo().current.undoability(action).undoable).toBe(false);
+    expect((await runUndo(action)).kind).toBe('not-undoable');
+    expect(api.createGroupRule).not.toHaveBeenCalled();
+  });
+
+  it('records nothing when Okta rejects the recreate', async () => {
+    api.createGroupRule.mockResolvedValue({ success: false, error: 'Name already in use' });
+
+    expect(await runUndo(deleteAction())).toEqual({
+      kind: 'failed',
+      error: 'Name already in use',
+    });
+    expect(mockedRestoreLog).not.toHaveBeenCalled();
+    expect(mockedMark).not.toHaveBeenCalled();
+  });
+});
+
+/** A role grant or revoke entry for a Help Desk Administrator assignment. */
+const roleAction = (
+  type: 'GRANT_ADMIN_ROLE' | 'REVOKE_ADMIN_ROLE',
+  targetCount: number | null = 0,
+): UndoAction => {
+  const identity = {
+    userId: '00uFAKE0000000000001',
+    userLogin: 'user@example.com',
+    userName: 'Ada Lovelace',
+    roleType: 'HELP_DESK_ADMIN',
+    roleLabel: 'Help Desk Administrator',
+    roleAssignmentId: 'irbFAKE1',
+  };
+  return {
+    id: 'action_original',
+    type,
+    timestamp: 1_700_000_000_000,
+    description: 'Granted Help Desk Administrator to Ada Lovelace',
+    status: 'completed',
+    metadata:
+      type === 'GRANT_ADMIN_ROLE' ? { type, ...identity } : { type, ...identity, targetCount },
+  };
+};
+
+const heldRole = {
+  assignmentId: 'irbFAKE1',
+  type: 'HELP_DESK_ADMIN',
+  label: 'Help Desk Administrator',
+  status: 'ACTIVE',
+  assignmentType: 'USER',
+  revocable: true,
+};
+
+describe('undoing a role grant or revoke', () => {
+  it('revokes the assignment a grant created, then logs and marks in that order', async () => {
+    api.getUserRoles.mockResolvedValue([heldRole]);
+
+    const outcome = await runUndo(roleAction('GRANT_ADMIN_ROLE'));
+
+    expect(outcome).toMatchObject({ kind: 'reversed', actionId: 'action_undo' });
+    expect(calls).toEqual(['revokeUserRole', 'logAdminRoleAction', 'markActionUndone']);
+    expect(mockedRoleLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'REVOKE_ADMIN_ROLE',
+        roleAssignmentId: 'irbFAKE1',
+        targetCount: 0,
+        undoOfActionId: 'action_original',
+      }),
+    );
+  });
+
+  it('refuses a grant whose assignment is gone or has been scoped since', async () => {
+    expect(await runUndo(roleAction('GRANT_ADMIN_ROLE'))).toEqual({
+      kind: 'drifted',
+      attributeNames: ['role'],
+    });
+
+    api.getUserRoles.mockResolvedValue([heldRole]);
+    api.getRoleTargets.mockResolvedValue({
+      kind: 'groups',
+      targets: [{ id: '00gFAKE1', name: 'Support' }],
+    });
+    expect(await runUndo(roleAction('GRANT_ADMIN_ROLE'))).toEqual({
+      kind: 'drifted',
+      attributeNames: ['targets'],
+    });
+    expect(calls).toEqual([]);
+  });
+
+  it('grants a revoked role again and links the new assignment', async () => {
+    const outcome = await runUndo(roleAction('REVOKE_ADMIN_ROLE'));
+
+    expect(outcome.kind).toBe('reversed');
+    expect(calls).toEqual(['grantUserRole', 'logAdminRoleAction', 'markActionUndone']);
+    expect(mockedRoleLog).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'GRANT_ADMIN_ROLE', roleAssignmentId: 'irbFAKENEW' }),
+    );
+  });
+
+  it('refuses a revoke whose role is held again', async () => {
+    api.getUserRoles.mockResolvedValue([{ ...heldRole, assignmentId: 'irbFAKE2' }]);
+
+    expect(await runUndo(roleAction('REVOKE_ADMIN_ROLE'))).toEqual({
+      kind: 'drifted',
+      attributeNames: ['role'],
+    });
+    expect(api.grantUserRole).not.toHaveBeenCalled();
+  });
+
+  it('is not undoable when the revoked role had targets, or they were not read', async () => {
+    for (const targetCount of [2, null]) {
+      const action = roleAction('REVOKE_ADMIN_ROLE', targetCount);
+      expect(renderUndo().current.undoability(action).undoable).toBe(false);
+      expect((await runUndo(action)).kind).toBe('not-undoable');
+    }
+    expect(api.getUserRoles).not.toHaveBeenCalled();
+  });
+});
+
+const pushRef = {
+  appId: '0oaFAKE1',
+  appName: 'Slack',
+  mappingId: 'gpmFAKE1',
+  sourceGroupId: '00gFAKE1',
+  sourceGroupName: 'Engineering',
+  targetGroupId: '00gFAKET1',
+  targetGroupName: 'engineering',
+};
+
+/** A group push entry of the given kind, for the Engineering → Slack mapping. */
+const pushAction = (metadata: UndoActionMetadata): UndoAction => ({
+  id: 'action_original',
+  type: metadata.type,
+  timestamp: 1_700_000_000_000,
+  description: 'Pushed Engineering to Slack',
+  status: 'completed',
+  metadata,
+});
+
+describe('undoing a group push write', () => {
+  it('removes a push it created, deleting the target group it made, then logs and marks', async () => {
+    api.getGroupPushMapping.mockResolvedValue({ ...pushRef, id: 'gpmFAKE1', status: 'ACTIVE' });
+
+    const outcome = await runUndo(
+      pushAction({ type: 'CREATE_PUSH_MAPPING', ...pushRef, createdTargetGroup: true }),
+    );
+
+    expect(outcome).toMatchObject({ kind: 'reversed', actionId: 'action_undo' });
+    expect(calls).toEqual(['deleteGroupPushMapping', 'logGroupPushAction', 'markActionUndone']);
+    expect(api.deleteGroupPushMapping).toHaveBeenCalledWith(
+      expect.objectContaining({ mappingId: 'gpmFAKE1', status: 'ACTIVE' }),
+      true,
+    );
+    expect(mockedPushLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'DELETE_PUSH_MAPPING',
+        deletedTargetGroup: true,
+        wasActive: true,
+        undoOfActionId: 'action_original',
+      }),
+    );
+  });
+
+  it('refuses when the mapping is gone or its status has moved on', async () => {
+    expect(await runUndo(pushAction({ type: 'ACTIVATE_PUSH_MAPPING', ...pushRef }))).toEqual({
+      kind: 'drifted',
+      attributeNames: ['mapping'],
+    });
+
+    api.getGroupPushMapping.mockResolvedValue({ ...pushRef, id: 'gpmFAKE1', status: 'ERROR' });
+    expect(await runUndo(pushAction({ type: 'ACTIVATE_PUSH_MAPPING', ...pushRef }))).toEqual({
+      kind: 'drifted',
+      attributeNames: ['status'],
+    });
+    expect(calls).toEqual([]);
+  });
+
+  it('activates a deactivated push again while it is still inactive', async () => {
+    api.getGroupPushMapping.mockResolvedValue({ ...pushRef, id: 'gpmFAKE1', status: 'INACTIVE' });
+
+    await runUndo(pushAction({ type: 'DEACTIVATE_PUSH_MAPPING', ...pushRef }));
+
+    expect(api.setGroupPushMappingStatus).toHaveBeenCalledWith(
+      expect.objectContaining({ mappingId: 'gpmFAKE1' }),
+      'ACTIVE',
+    );
+    expect(mockedPushLog).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'ACTIVATE_PUSH_MAPPING' }),
+    );
+  });
+
+  it('links a deleted push to its surviving target group again, as it was', async () => {
+    const outcome = await runUndo(
+      pushAction({
+        type: 'DELETE_PUSH_MAPPING',
+        ...pushRef,
+        deletedTargetGroup: false,
+        wasActive: false,
+      }),
+    );
+
+    expect(outcome.kind).toBe('reversed');
+    expect(calls).toEqual(['createGroupPushMapping', 'logGroupPushAction', 'markActionUndone']);
+    expect(api.createGroupPushMapping).toHaveBeenCalledWith(
+      { id: '0oaFAKE1', name: 'Slack' },
+      { id: '00gFAKE1', name: 'Engineering' },
+      { kind: 'existing', id: '00gFAKET1', name: 'engineering' },
+      'INACTIVE',
+    );
+    expect(mockedPushLog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'CREATE_PUSH_MAPPING',
+        mappingId: 'gpmFAKENEW',
+        createdTargetGroup: false,
+      }),
+    );
+  });
+
+  it('refuses a delete whose group has been pushed to that target again', async () => {
+    api.getGroupPushLinks.mockResolvedValue({
+      links: [{ ...pushRef, mappingId: 'gpmFAKE2', status: 'ACTIVE' }],
+      unreadableApps: [],
+    });
+
+    expect(
+      await runUndo(
+        pushAction({
+          type: 'DELETE_PUSH_MAPPING',
+          ...pushRef,
+          deletedTargetGroup: false,
+          wasActive: true,
+        }),
+      ),
+    ).toEqual({ kind: 'drifted', attributeNames: ['mapping'] });
+    expect(api.createGroupPushMapping).not.toHaveBeenCalled();
+  });
+
+  it('is not undoable when the delete took the target group with it', async () => {
+    const action = pushAction({
+      type: 'DELETE_PUSH_MAPPING',
+      ...pushRef,
+      deletedTargetGroup: true,
+      wasActive: true,
+    });
+
+    expect(renderUndo().current.undoability(action).undoable).toBe(false);
+    expect((await runUndo(action)).kind).toBe('not-undoable');
+    expect(api.getGroupPushLinks).not.toHaveBeenCalled();
+  });
+});
@@ -1,11 +1,15 @@
 /**
  * @module sidepanel/hooks/useUndoAction
- * @description The extension's first undo **executor** — for profile writes only.
+ * @description The extension's undo **executor** — for profile writes, user
+ * suspend/unsuspend, rule deletion, administrator role grants and revokes, and
+ * Group Push mapping writes.
  *
  * `UndoAction.status` has carried `'undone'` since the history type was written
  * and nothing ever set it: the panel recorded what it did and offered no way
  * back. This hook is the first thing that can put a value back, and it is
- * deliberately narrow — one action type, {@link UpdateUserProfileMetadata}.
+ * deliberately narrow — profile writes ({@link UpdateUserProfileMetadata}), a
+ * suspend or unsuspend (undone by the opposite write), and a rule delete (undone
+ * by recreating the rule from its snapshot, under a new id).
  *
  * ## Undo is a forward write, not a rollback
  *
@@ -32,6 +36,19 @@
  * {@link toDisplay} — the same stringifier the editor and the capture used, so
  * `5` and `'5'` cannot disagree and refuse a valid undo.
  *
+ * A status undo asks the same question of `status`: a suspend is only reversed
+ * while the user is still `SUSPENDED`. A role grant is only revoked while the
+ * assignment it created still exists and is still org-wide; a revoke is only
+ * re-granted while the user does not hold the role again, and only when the
+ * role had no targets — a re-grant cannot carry them, and would widen a scoped
+ * role to the whole org. A recreated rule has nothing to drift
+ * against — the original is gone — so Okta's own validation is its only check.
+ *
+ * A Group Push write is reversed the same way: a created mapping is deleted while
+ * it still exists, an activation or deactivation is flipped back while the
+ * mapping still has the status it set, and a deleted mapping is linked to its
+ * kept target group again unless the group is already pushed there.
+ *
  * ## Logging
  *
  * Attribute names and values are tenant PII. Nothing here logs one: ids, counts
@@ -42,28 +59,62 @@
 import { useCallback, useState } from 'react';
 import { useOktaApi } from './useOktaApi';
 import {
+  logAdminRoleAction,
+  logGroupPushAction,
   logProfileUpdateAction,
+  logRuleRestoreAction,
+  logUserStatusAction,
   markActionUndone,
   type AttributeChange,
 } from '../../shared/undoManager';
 import { toDisplay } from '../components/users/profileAttributes';
+import { buildRestoreRulePayload, isRestorableSnapshot } from '../../shared/rules/ruleSnapshot';
+import { roleTargetKind, STANDARD_ADMIN_ROLES } from '../../shared/adminRoles/adminRoles';
+import { toGroupPushStatus, type GroupPushLink } from '../../shared/groupPush/groupPush';
 import { createLogger } from '../../shared/utils/logger';
-import type { ActionType, CapturedAttribute, UndoAction } from '../../shared/undoTypes';
+import type {
+  ActionType,
+  ActivatePushMappingMetadata,
+  CapturedAttribute,
+  CreatePushMappingMetadata,
+  DeactivatePushMappingMetadata,
+  DeletePushMappingMetadata,
+  DeleteRuleMetadata,
+  GrantAdminRoleMetadata,
+  PushMappingRef,
+  RevokeAdminRoleMetadata,
+  SuspendUserMetadata,
+  UndoAction,
+  UnsuspendUserMetadata,
+} from '../../shared/undoTypes';
 
 const log = createLogger('useUndoAction');
 
+/** The action types this hook has an undo path for. */
+type UndoableType =
+  | 'UPDATE_USER_PROFILE'
+  | 'SUSPEND_USER'
+  | 'UNSUSPEND_USER'
+  | 'DELETE_RULE'
+  | 'GRANT_ADMIN_ROLE'
+  | 'REVOKE_ADMIN_ROLE'
+  | 'CREATE_PUSH_MAPPING'
+  | 'ACTIVATE_PUSH_MAPPING'
+  | 'DEACTIVATE_PUSH_MAPPING'
+  | 'DELETE_PUSH_MAPPING';
+
 /**
- * Why each non-profile action type cannot be undone, as a sentence the UI shows.
+ * Why each other action type cannot be undone, as a sentence the UI shows.
  *
  * **This is a `Record`, not a `switch` with a `default:`, and that is the whole
- * point.** A `default:` arm would silently absorb the ninth `ActionType` someone
+ * point.** A `default:` arm would silently absorb the next `ActionType` someone
  * adds, quietly classifying a brand-new mutating operation as "not undoable"
  * with a generic apology — and no one would find out. Keyed on
- * `Exclude<ActionType, 'UPDATE_USER_PROFILE'>`, adding a member to `ActionType`
+ * `Exclude<ActionType, UndoableType>`, adding a member to `ActionType`
  * instead breaks the build here until a human writes down what undoing it would
  * mean. The compile error is the review.
  */
-const NOT_UNDOABLE: Record<Exclude<ActionType, 'UPDATE_USER_PROFILE'>, string> = {
+const NOT_UNDOABLE: Record<Exclude<ActionType, UndoableType>, string> = {
   REMOVE_USER_FROM_GROUP:
     'Group removals cannot be undone here. Re-adding the user would record a direct membership, ' +
     'which is not necessarily how they held the group before.',
@@ -85,6 +136,19 @@ const NOT_UNDOABLE: Record<Exclude<ActionType, 'UPDATE_USER_PROFILE'>, string> =
   CONSOLIDATE_RULE:
     'Consolidations cannot be undone here. It would mean recreating the retired rules and deleting ' +
     'the rule that replaced them, all under new ids.',
+  AUTHOR_RULE:
+    'Saved rules cannot be undone here. Deleting the rule does not recall the memberships it has ' +
+    "granted, and an edited rule's predecessor could only come back under a new id.",
+  RESTORE_RULE:
+    'Restored rules cannot be undone here. Deleting the rule again is a new delete, with its own ' +
+    'confirmation, from the Rules tab.',
+  RESET_FACTOR:
+    'Factor resets cannot be undone. Okta discards the enrollment, and only the user can enroll ' +
+    'the factor again.',
+  VERIFY_FACTOR: 'Verifications change nothing in Okta, so there is nothing to undo.',
+  PUSH_GROUP_NOW:
+    'A push cannot be recalled. Okta has already written the membership into the app, and the ' +
+    'next push writes it again.',
 };
 
 /** Why an entry whose *own* lifecycle rules it out cannot be undone. */
@@ -100,17 +164,55 @@ const STATUS_REASON: Record<Exclude<UndoAction['status'], 'completed'>, string>
 const NOTHING_CAPTURED =
   'No previous values were captured for this edit, so there is nothing to restore.';
 
+/** A delete whose snapshot lacks a condition or target groups. */
+const RULE_NOT_CAPTURED =
+  'The deleted rule was not captured in full, so it cannot be recreated from here.';
+
+/** A revoked role whose targets were not read, or that had some. */
+const ROLE_WAS_SCOPED =
+  'This role was limited to specific groups or apps. Granting it again from here would apply ' +
+  'it to the whole org, so re-grant it from the Admin Console.';
+
+/** A revoked role the grant picker does not offer (a custom role). */
+const ROLE_NOT_STANDARD =
+  'Only standard roles can be granted from here. Re-grant this one from the Admin Console.';
+
+/** A deleted mapping whose target group went with it. */
+const PUSH_TARGET_DELETED =
+  'The target group was deleted from the app with this mapping, so there is nothing to link ' +
+  'back to. Push the group again from Group Detail.';
+
+/** The status a user must still have for a status write to be reversed, and the write that reverses it. */
+const STATUS_UNDO = {
+  SUSPEND_USER: {
+    expected: 'SUSPENDED',
+    reverse: 'unsuspend',
+    summary: 'The user was unsuspended.',
+  },
+  UNSUSPEND_USER: {
+    expected: 'ACTIVE',
+    reverse: 'suspend',
+    summary: 'The user was suspended again.',
+  },
+} as const;
+
 /**
  * The outcome of an undo attempt.
  *
- * Five outcomes rather than a boolean because they call for five different
- * things from the admin: nothing (`not-undoable`), a look at who else edited the
- * user (`drifted`), a refresh (`already-undone`), a retry (`failed`), or a note
- * that some attributes were left alone (`undone` with `skipped > 0`).
+ * Six outcomes rather than a boolean because they call for different things
+ * from the admin: nothing (`not-undoable`), a look at who else edited the user
+ * (`drifted`), a refresh (`already-undone`), a retry (`failed`), a note that
+ * some attributes were left alone (`undone` with `skipped > 0`), or a sentence
+ * saying what the reversing write did (`reversed`).
  */
 export type UndoOutcome =
   /** The restoring write landed. `skipped` counts attributes whose prior value was never captured. */
   | { kind: 'undone'; restored: number; skipped: number; actionId: string }
+  /**
+   * A status or rule write was reversed by its opposite. `summary` is a sentence
+   * for the UI, built without names or values.
+   */
+  | { kind: 'reversed'; actionId: string; summary: string }
   /** This kind of entry has no undo path. `reason` is a sentence for the UI. */
   | { kind: 'not-undoable'; reason: string }
   /**
@@ -216,6 +318,37 @@ export function useUndoAction({ targetTabId }: UseUndoActionOptions): UseUndoAct
     }
 
     const metadata = action.metadata;
+    if (metadata.type === 'SUSPEND_USER' || metadata.type === 'UNSUSPEND_USER') {
+      return { undoable: true, restorable: 1, total: 1 };
+    }
+    if (metadata.type === 'DELETE_RULE') {
+      return isRestorableSnapshot(metadata.rule)
+        ? { undoable: true, restorable: 1, total: 1 }
+        : { undoable: false, reason: RULE_NOT_CAPTURED };
+    }
+    if (metadata.type === 'GRANT_ADMIN_ROLE') {
+      return { undoable: true, restorable: 1, total: 1 };
+    }
+    if (metadata.type === 'REVOKE_ADMIN_ROLE') {
+      if (!STANDARD_ADMIN_ROLES.some((role) => role.type === metadata.roleType)) {
+        return { undoable: false, reason: ROLE_NOT_STANDARD };
+      }
+      return metadata.targetCount === 0
+        ? { undoable: true, restorable: 1, total: 1 }
+        : { undoable: false, reason: ROLE_WAS_SCOPED };
+    }
+    if (
+      metadata.type === 'CREATE_PUSH_MAPPING' ||
+      metadata.type === 'ACTIVATE_PUSH_MAPPING' ||
+      metadata.type === 'DEACTIVATE_PUSH_MAPPING'
+    ) {
+      return { undoable: true, restorable: 1, total: 1 };
+    }
+    if (metadata.type === 'DELETE_PUSH_MAPPING') {
+      return metadata.deletedTargetGroup
+        ? { undoable: false, reason: PUSH_TARGET_DELETED }
+        : { undoable: true, restorable: 1, total: 1 };
+    }
     if (metadata.type !== 'UPDATE_USER_PROFILE') {
       return { undoable: false, reason: NOT_UNDOABLE[metadata.type] };
     }
@@ -229,6 +362,347 @@ export function useUndoAction({ targetTabId }: UseUndoActionOptions): UseUndoAct
     return { undoable: true, restorable, total };
   }, []);
 
+  /**
+   * Reverse a suspend or unsuspend with the opposite write — but only while the
+   * user still has the status that write set.
+   */
+  const undoUserStatus = useCallback(
+    async (
+      action: UndoAction,
+      metadata: SuspendUserMetadata | UnsuspendUserMetadata,
+    ): Promise<UndoOutcome> => {
+      const { expected, reverse, summary } = STATUS_UNDO[metadata.type];
+
+      setUndoingActionId(action.id);
+      try {
+        const live = await api.getUserRaw(metadata.userId);
+        if (!live) {
+          return {
+            kind: 'failed',
+            error: 'Could not read the user, so their status was not changed.',
+          };
+        }
+
+        // Someone else has moved the user on (unsuspended them, deactivated
+        // them, ...): reversing now would overwrite that decision.
+        if (live.status !== expected) {
+          log.info('Undo refused: status changed since', { actionId: action.id });
+          return { kind: 'drifted', attributeNames: ['status'] };
+        }
+
+        const result =
+          reverse === 'unsuspend'
+            ? await api.unsuspendUser(metadata.userId)
+            : await api.suspendUser(metadata.userId);
+        if (!result.success) {
+          log.error('Undo write did not succeed', { actionId: action.id });
+          return { kind: 'failed', error: result.error || 'The status could not be changed back.' };
+        }
+
+        // Log THEN mark — the same load-bearing order as the profile path below.
+        const entry = await logUserStatusAction(
+          reverse,
+          metadata.userId,
+          metadata.userLogin,
+          metadata.userName,
+          action.id,
+        );
+        const marked = await markActionUndone(action.id, entry.id);
+
+        log.info('Undo completed', {
+          actionId: action.id,
+          undoneByActionId: entry.id,
+          originalStillInHistory: marked,
+        });
+        return { kind: 'reversed', actionId: entry.id, summary };
+      } catch {
+        log.error('Undo failed', { actionId: action.id });
+        return { kind: 'failed', error: 'The status could not be changed back.' };
+      } finally {
+        setUndoingActionId(null);
+      }
+    },
+    [api],
+  );
+
+  /**
+   * Recreate a deleted rule from its snapshot, re-activating it when it was
+   * active at deletion. Okta creates every rule `INACTIVE`, so an activation
+   * that fails leaves a recreated-but-inactive rule, and the summary says so.
+   */
+  const undoRuleDelete = useCallback(
+    async (action: UndoAction, metadata: DeleteRuleMetadata): Promise<UndoOutcome> => {
+      const snapshot = metadata.rule;
+
+      setUndoingActionId(action.id);
+      try {
+        const created = await api.createGroupRule(buildRestoreRulePayload(snapshot));
+        if (!created.success || !created.rule) {
+          log.error('Undo write did not succeed', { actionId: action.id });
+          return { kind: 'failed', error: created.error || 'The rule could not be recreated.' };
+        }
+
+        let activated = false;
+        if (snapshot.status === 'ACTIVE') {
+          activated = (await api.activateGroupRule(created.rule.id)).success;
+        }
+
+        const entry = await logRuleRestoreAction(snapshot, created.rule.id, activated, action.id);
+        const marked = await markActionUndone(action.id, entry.id);
+
+        log.info('Undo completed', {
+          actionId: action.id,
+          undoneByActionId: entry.id,
+          activated,
+          originalStillInHistory: marked,
+        });
+
+        let summary = 'The rule was recreated, inactive as it was when deleted.';
+        if (activated) summary = 'The rule was recreated and activated.';
+        else if (snapshot.status === 'ACTIVE') {
+          summary =
+            'The rule was recreated but could not be activated. Activate it from the Rules tab.';
+        }
+        return { kind: 'reversed', actionId: entry.id, summary };
+      } catch {
+        log.error('Undo failed', { actionId: action.id });
+        return { kind: 'failed', error: 'The rule could not be recreated.' };
+      } finally {
+        setUndoingActionId(null);
+      }
+    },
+    [api],
+  );
+
+  /**
+   * Reverse a role grant by revoking the assignment it created, or a revoke by
+   * granting the same role again — each only while the user's roles are still
+   * what the original write left.
+   */
+  const undoAdminRole = useCallback(
+    async (
+      action: UndoAction,
+      metadata: GrantAdminRoleMetadata | RevokeAdminRoleMetadata,
+    ): Promise<UndoOutcome> => {
+      const subject = { id: metadata.userId, login: metadata.userLogin, name: metadata.userName };
+      const identity = {
+        userId: metadata.userId,
+        userLogin: metadata.userLogin,
+        userName: metadata.userName,
+        roleType: metadata.roleType,
+        roleLabel: metadata.roleLabel,
+        undoOfActionId: action.id,
+      };
+
+      setUndoingActionId(action.id);
+      try {
+        const roles = await api.getUserRoles(metadata.userId);
+        let entry: UndoAction;
+        let summary: string;
+
+        if (metadata.type === 'GRANT_ADMIN_ROLE') {
+          const granted = roles.find((role) => role.assignmentId === metadata.roleAssignmentId);
+          // Already revoked by someone else: there is nothing of ours to take back.
+          if (!granted) {
+            log.info('Undo refused: role assignment gone', { actionId: action.id });
+            return { kind: 'drifted', attributeNames: ['role'] };
+          }
+          // We granted it org-wide. Targets added since are someone else's
+          // decision about this role, and revoking would discard it.
+          if (roleTargetKind(granted.type)) {
+            const targets = await api.getRoleTargets(metadata.userId, granted);
+            if (targets && targets.targets.length > 0) {
+              log.info('Undo refused: role scoped since', { actionId: action.id });
+              return { kind: 'drifted', attributeNames: ['targets'] };
+            }
+          }
+
+          const result = await api.revokeUserRole(subject, granted);
+          if (!result.success) {
+            log.error('Undo write did not succeed', { actionId: action.id });
+            return { kind: 'failed', error: result.error || 'The role could not be revoked.' };
+          }
+          entry = await logAdminRoleAction({
+            type: 'REVOKE_ADMIN_ROLE',
+            ...identity,
+            roleAssignmentId: granted.assignmentId,
+            targetCount: 0,
+          });
+          summary = 'The role was revoked.';
+        } else {
+          // Held again — directly or through a group — since the revoke.
+          if (roles.some((role) => role.type === metadata.roleType)) {
+            log.info('Undo refused: role held again', { actionId: action.id });
+            return { kind: 'drifted', attributeNames: ['role'] };
+          }
+
+          const result = await api.grantUserRole(subject, metadata.roleType);
+          if (!result.success) {
+            log.error('Undo write did not succeed', { actionId: action.id });
+            return { kind: 'failed', error: result.error };
+          }
+          entry = await logAdminRoleAction({
+            type: 'GRANT_ADMIN_ROLE',
+            ...identity,
+            roleAssignmentId: result.role.assignmentId,
+          });
+          summary = 'The role was granted again, org-wide as it was before.';
+        }
+
+        // Log THEN mark — the same load-bearing order as the profile path below.
+        const marked = await markActionUndone(action.id, entry.id);
+        log.info('Undo completed', {
+          actionId: action.id,
+          undoneByActionId: entry.id,
+          originalStillInHistory: marked,
+        });
+        return { kind: 'reversed', actionId: entry.id, summary };
+      } catch {
+        log.error('Undo failed', { actionId: action.id });
+        return { kind: 'failed', error: 'The role could not be changed back.' };
+      } finally {
+        setUndoingActionId(null);
+      }
+    },
+    [api],
+  );
+
+  /**
+   * Reverse a Group Push write: delete a mapping it created, flip a status it
+   * set, or link a deleted mapping's kept target group again — each only while
+   * the mapping is still what the original write left.
+   */
+  const undoGroupPush = useCallback(
+    async (
+      action: UndoAction,
+      metadata:
+        | CreatePushMappingMetadata
+        | ActivatePushMappingMetadata
+        | DeactivatePushMappingMetadata
+        | DeletePushMappingMetadata,
+    ): Promise<UndoOutcome> => {
+      const ref: PushMappingRef = {
+        appId: metadata.appId,
+        appName: metadata.appName,
+        mappingId: metadata.mappingId,
+        sourceGroupId: metadata.sourceGroupId,
+        sourceGroupName: metadata.sourceGroupName,
+        targetGroupId: metadata.targetGroupId,
+        targetGroupName: metadata.targetGroupName,
+      };
+      const app = { id: metadata.appId, name: metadata.appName };
+      const source = { id: metadata.sourceGroupId, name: metadata.sourceGroupName };
+
+      setUndoingActionId(action.id);
+      try {
+        let entry: UndoAction;
+        let summary: string;
+
+        if (metadata.type === 'DELETE_PUSH_MAPPING') {
+          // Pushed there again since — by us or in the Admin Console.
+          const current = await api.getGroupPushLinks(source, [app]);
+          if (current.unreadableApps.length > 0) {
+            return {
+              kind: 'failed',
+              error: "Could not read the app's push mappings, so nothing was linked.",
+            };
+          }
+          if (current.links.some((link) => link.targetGroupId === metadata.targetGroupId)) {
+            log.info('Undo refused: group pushed again', { actionId: action.id });
+            return { kind: 'drifted', attributeNames: ['mapping'] };
+          }
+
+          const result = await api.createGroupPushMapping(
+            app,
+            source,
+            { kind: 'existing', id: metadata.targetGroupId, name: metadata.targetGroupName },
+            metadata.wasActive ? 'ACTIVE' : 'INACTIVE',
+          );
+          if (!result.success) {
+            log.error('Undo write did not succeed', { actionId: action.id });
+            return { kind: 'failed', error: result.error };
+          }
+          entry = await logGroupPushAction({
+            type: 'CREATE_PUSH_MAPPING',
+            ...ref,
+            mappingId: result.link.mappingId,
+            createdTargetGroup: false,
+            undoOfActionId: action.id,
+          });
+          summary = 'The group was linked to its target group again.';
+        } else {
+          const live = await api.getGroupPushMapping(metadata.appId, metadata.mappingId);
+          // Deleted by someone else: there is nothing of ours to change back.
+          if (!live) {
+            log.info('Undo refused: mapping gone', { actionId: action.id });
+            return { kind: 'drifted', attributeNames: ['mapping'] };
+          }
+          const status = toGroupPushStatus(live.status);
+          const link: GroupPushLink = { ...ref, status };
+
+          if (metadata.type === 'CREATE_PUSH_MAPPING') {
+            const result = await api.deleteGroupPushMapping(link, metadata.createdTargetGroup);
+            if (!result.success) {
+              log.error('Undo write did not succeed', { actionId: action.id });
+              return { kind: 'failed', error: result.error || 'The push could not be removed.' };
+            }
+            entry = await logGroupPushAction({
+              type: 'DELETE_PUSH_MAPPING',
+              ...ref,
+              deletedTargetGroup: metadata.createdTargetGroup,
+              wasActive: status === 'ACTIVE',
+              undoOfActionId: action.id,
+            });
+            summary = metadata.createdTargetGroup
+              ? 'The push was removed, and the group it created in the app was deleted.'
+              : 'The push was removed. The target group stays in the app.';
+          } else {
+            const activated = metadata.type === 'ACTIVATE_PUSH_MAPPING';
+            // Someone has changed the status since: flipping it now would undo them.
+            if (status !== (activated ? 'ACTIVE' : 'INACTIVE')) {
+              log.info('Undo refused: push status changed since', { actionId: action.id });
+              return { kind: 'drifted', attributeNames: ['status'] };
+            }
+            const result = await api.setGroupPushMappingStatus(
+              link,
+              activated ? 'INACTIVE' : 'ACTIVE',
+            );
+            if (!result.success) {
+              log.error('Undo write did not succeed', { actionId: action.id });
+              return {
+                kind: 'failed',
+                error: result.error || 'The push could not be changed back.',
+              };
+            }
+            entry = await logGroupPushAction({
+              type: activated ? 'DEACTIVATE_PUSH_MAPPING' : 'ACTIVATE_PUSH_MAPPING',
+              ...ref,
+              undoOfActionId: action.id,
+            });
+            summary = activated
+              ? 'The push was deactivated again.'
+              : 'The push was activated again.';
+          }
+        }
+
+        // Log THEN mark — the same load-bearing order as the profile path below.
+        const marked = await markActionUndone(action.id, entry.id);
+        log.info('Undo completed', {
+          actionId: action.id,
+          undoneByActionId: entry.id,
+          originalStillInHistory: marked,
+        });
+        return { kind: 'reversed', actionId: entry.id, summary };
+      } catch {
+        log.error('Undo failed', { actionId: action.id });
+        return { kind: 'failed', error: 'The push could not be changed back.' };
+      } finally {
+        setUndoingActionId(null);
+      }
+    },
+    [api],
+  );
+
   const undo = useCallback<UseUndoActionReturn['undo']>(
     async (action) => {
       // Short-circuits before anything is requested from Okta: an entry the
@@ -239,6 +713,21 @@ export function useUndoAction({ targetTabId }: UseUndoActionOptions): UseUndoAct
       if (!verdict.undoable) return { kind: 'not-undoable', reason: verdict.reason };
 
       const metadata = action.metadata;
+      if (metadata.type === 'SUSPEND_USER' || metadata.type === 'UNSUSPEND_USER') {
+        return undoUserStatus(action, metadata);
+      }
+      if (metadata.type === 'DELETE_RULE') return undoRuleDelete(action, metadata);
+      if (metadata.type === 'GRANT_ADMIN_ROLE' || metadata.type === 'REVOKE_ADMIN_ROLE') {
+        return undoAdminRole(action, metadata);
+      }
+      if (
+        metadata.type === 'CREATE_PUSH_MAPPING' ||
+        metadata.type === 'ACTIVATE_PUSH_MAPPING' ||
+        metadata.type === 'DEACTIVATE_PUSH_MAPPING' ||
+        metadata.type === 'DELETE_PUSH_MAPPING'
+      ) {
+        return undoGroupPush(action, metadata);
+      }
       // `undoability` already established this, but the narrowing does not travel
       // across the call — and the `Record` lookup keeps the exhaustiveness guarantee.
       if (metadata.type !== 'UPDATE_USER_PROFILE') {
@@ -358,7 +847,7 @@ export function useUndoAction({ targetTabId }: UseUndoActionOptions): UseUndoAct
         setUndoingActionId(null);
       }
     },
-    [api, undoability],
+    [api, undoability, undoUserStatus, undoRuleDelete, undoAdminRole, undoGroupPush],
   );
 
   return { undo, undoingActionId, undoability };
@@ -0,0 +1,158 @@
+/**
+ * @module sidepanel/hooks/useUserAdminRoles.test
+ * @description The Roles pane's loader and its confirmed writes.
+ *
+ * Mocked at the `useOktaApi` facade and at `undoManager`, so what is pinned is
+ * the hook's own decisions: the list waits for its pane, a write runs only from
+ * the confirm, and a revoke records the role's target count — read before the
+ * revoke, or `null` when that read failed — because History's undo depends on it.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `irbFAKE…`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import type { OktaUser } from '../../shared/types';
+import type { UserAdminRole } from '../../shared/adminRoles/adminRoles';
+
+const api = vi.hoisted(() => ({
+  getUserRoles: vi.fn(),
+  getRoleTargets: vi.fn(),
+  grantUserRole: vi.fn(),
+  revokeUserRole: vi.fn(),
+}));
+
+vi.mock('./useOktaApi', () => ({ useOktaApi: () => api }));
+vi.mock('../../shared/undoManager', () => ({
+  logAdminRoleAction: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { useUserAdminRoles } from './useUserAdminRoles';
+import { resetEntityCache } from '../cache/entityCache';
+import { logAdminRoleAction } from '../../shared/undoManager';
+
+const user: OktaUser = {
+  id: '00uFAKE1',
+  status: 'ACTIVE',
+  profile: {
+    login: 'jane@example.com',
+    email: 'jane@example.com',
+    firstName: 'Jane',
+    lastName: 'Doe',
+  },
+};
+
+const role = (over: Partial<UserAdminRole> = {}): UserAdminRole => ({
+  assignmentId: 'irbFAKE1',
+  type: 'HELP_DESK_ADMIN',
+  label: 'Help Desk Administrator',
+  status: 'ACTIVE',
+  assignmentType: 'USER',
+  revocable: true,
+  ...over,
+});
+
+const onResult = vi.fn();
+
+const renderRoles = (enabled = true) =>
+  renderHook(
+    (props: { enabled: boolean }) =>
+      useUserAdminRoles({ user, targetTabId: 1, enabled: props.enabled, onResult }),
+    { initialProps: { enabled } },
+  );
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resetEntityCache();
+  api.getUserRoles.mockResolvedValue([role()]);
+  api.revokeUserRole.mockResolvedValue({ success: true });
+});
+
+describe('useUserAdminRoles', () => {
+  it('reads nothing until its pane is entered', async () => {
+    const { result, rerender } = renderRoles(false);
+    expect(api.getUserRoles).not.toHaveBeenCalled();
+
+    rerender({ enabled: true });
+    await waitFor(() => expect(result.current.roles).toHaveLength(1));
+    expect(api.getUserRoles).toHaveBeenCalledWith('00uFAKE1');
+  });
+
+  it('writes only from the confirm, and records the grant', async () => {
+    api.grantUserRole.mockResolvedValue({
+      success: true,
+      role: role({
+        assignmentId: 'irbFAKE9',
+        type: 'READ_ONLY_ADMIN',
+        label: 'Read-only Administrator',
+      }),
+    });
+    const { result } = renderRoles();
+    await waitFor(() => expect(result.current.roles).not.toBeNull());
+
+    act(() => result.current.requestGrant('READ_ONLY_ADMIN'));
+    expect(result.current.pending).toEqual({
+      kind: 'grant',
+      roleType: 'READ_ONLY_ADMIN',
+      roleLabel: 'Read-only Administrator',
+    });
+    expect(api.grantUserRole).not.toHaveBeenCalled();
+
+    await act(() => result.current.confirmPending());
+
+    expect(api.grantUserRole).toHaveBeenCalledWith(
+      { id: '00uFAKE1', login: 'jane@example.com', name: 'Jane Doe' },
+      'READ_ONLY_ADMIN',
+    );
+    expect(logAdminRoleAction).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'GRANT_ADMIN_ROLE', roleAssignmentId: 'irbFAKE9' }),
+    );
+    expect(onResult).toHaveBeenCalledWith(expect.objectContaining({ type: 'success' }));
+    expect(api.getUserRoles).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads a scoped role’s targets before revoking and records the count', async () => {
+    api.getRoleTargets.mockResolvedValue({
+      kind: 'groups',
+      targets: [{ id: '00gFAKE1', name: 'Support' }],
+    });
+    const { result } = renderRoles();
+    await waitFor(() => expect(result.current.roles).not.toBeNull());
+
+    act(() => result.current.requestRevoke(role()));
+    await act(() => result.current.confirmPending());
+
+    expect(api.getRoleTargets.mock.invocationCallOrder[0]).toBeLessThan(
+      api.revokeUserRole.mock.invocationCallOrder[0],
+    );
+    expect(logAdminRoleAction).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'REVOKE_ADMIN_ROLE', targetCount: 1 }),
+    );
+  });
+
+  it('records an unknown count when the targets cannot be read, and still revokes', async () => {
+    api.getRoleTargets.mockRejectedValue(new Error('Forbidden'));
+    const { result } = renderRoles();
+    await waitFor(() => expect(result.current.roles).not.toBeNull());
+
+    act(() => result.current.requestRevoke(role()));
+    await act(() => result.current.confirmPending());
+
+    expect(api.revokeUserRole).toHaveBeenCalled();
+    expect(logAdminRoleAction).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'REVOKE_ADMIN_ROLE', targetCount: null }),
+    );
+  });
+
+  it('reports a refused revoke and records nothing', async () => {
+    api.revokeUserRole.mockResolvedValue({ success: false, error: 'Forbidden' });
+    const { result } = renderRoles();
+    await waitFor(() => expect(result.current.roles).not.toBeNull());
+
+    act(() => result.current.requestRevoke(role({ type: 'ORG_ADMIN' })));
+    await act(() => result.current.confirmPending());
+
+    expect(api.getRoleTargets).not.toHaveBeenCalled();
+    expect(logAdminRoleAction).not.toHaveBeenCalled();
+    expect(onResult).toHaveBeenCalledWith({ text: 'Forbidden', type: 'danger' });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * @module sidepanel/hooks/useUserAdminRoles
+ * @description The Users tab's Roles pane: the administrator roles the selected
+ * user holds, what each is scoped to, and the confirmed grant and revoke.
+ *
+ * ## Reads
+ *
+ * The role list loads on first entry to the pane through the entity cache
+ * ({@link sidepanel/cache/keys.cacheKeys.userRoles}), gated like the Apps pane:
+ * `enabled` carries both the tab and the pane gate. A role's targets are read
+ * when its row is opened, one role at a time — most roles have none to read.
+ *
+ * ## Writes
+ *
+ * A grant or revoke is armed first (`pending`) and runs only from the confirm
+ * button, like the lifecycle verbs. The operation writes the audit entry; this
+ * hook records the write in the undo history, then refetches the list.
+ *
+ * A revoke records how many targets the role had, because that decides whether
+ * History can undo it: a re-grant comes back org-wide, so undo is only offered
+ * for a role that was org-wide already. The targets are read before the revoke
+ * when the row has not been opened; a failed read records `null` — "not known"
+ * — and the revoke still goes ahead.
+ *
+ * Role labels and user names are tenant data: nothing here logs them.
+ */
+
+import { useCallback, useState } from 'react';
+import type { OktaUser } from '../../shared/types';
+import type { AlertMessageData } from '../components/shared/AlertMessage';
+import {
+  adminRoleLabel,
+  roleTargetKind,
+  type RoleTargets,
+  type UserAdminRole,
+} from '../../shared/adminRoles/adminRoles';
+import { logAdminRoleAction } from '../../shared/undoManager';
+import { userDisplayName } from '../../shared/utils/userDisplay';
+import { cacheKeys } from '../cache/keys';
+import { useEntityQuery } from '../cache/useEntityQuery';
+import { useOktaApi } from './useOktaApi';
+
+/** A role's targets as the pane shows them. */
+export type RoleTargetsState =
+  | { status: 'loading' }
+  | { status: 'done'; targets: RoleTargets | null }
+  | { status: 'error'; error: string };
+
+/** The write awaiting confirmation. */
+export type PendingRoleWrite =
+  { kind: 'grant'; roleType: string; roleLabel: string } | { kind: 'revoke'; role: UserAdminRole };
+
+/** Options for {@link useUserAdminRoles}. */
+export interface UseUserAdminRolesOptions {
+  /** The selected user, or `null` when none is. */
+  user: OktaUser | null;
+  /** The connected Okta tab; nothing loads or writes without one. */
+  targetTabId?: number;
+  /** Tab-visible and Roles-pane-selected. Gates the list read. */
+  enabled: boolean;
+  /** Publishes a write's outcome to the tab's result banner. */
+  onResult: (message: AlertMessageData) => void;
+}
+
+/** Everything the Roles pane renders — {@link sidepanel/components/users/UserDetailPanel}'s `adminRoles` prop. */
+export interface UserAdminRoles {
+  /** The roles held, or `null` before the first read returned. */
+  roles: UserAdminRole[] | null;
+  isLoading: boolean;
+  error: string | null;
+  /** Re-read the list. */
+  reload: () => void;
+  /** Assignment id → that role's targets, once asked for. */
+  targets: Readonly<Record<string, RoleTargetsState>>;
+  /** Read one role's targets (no-op once read or in flight). */
+  loadTargets: (role: UserAdminRole) => void;
+  /** Whether writes are possible (a connected tab). */
+  canWrite: boolean;
+  /** The write awaiting confirmation, or `null`. Drives the confirm modal. */
+  pending: PendingRoleWrite | null;
+  requestGrant: (roleType: string) => void;
+  requestRevoke: (role: UserAdminRole) => void;
+  cancelPending: () => void;
+  /** Run the armed write (the confirm button). */
+  confirmPending: () => Promise<void>;
+  /** True while a confirmed write is in flight. */
+  isWriting: boolean;
+}
+
+/**
+ * Manage the selected user's administrator roles.
+ *
+ * @param options - See {@link UseUserAdminRolesOptions}.
+ * @returns {@link UserAdminRoles}.
+ */
+export function useUserAdminRoles({
+  user,
+  targetTabId,
+  enabled,
+  onResult,
+}: UseUserAdminRolesOptions): UserAdminRoles {
+  const { getUserRoles, getRoleTargets, grantUserRole, revokeUserRole } = useOktaApi({
+    targetTabId: targetTabId ?? null,
+  });
+  const userId = user?.id ?? null;
+
+  const query = useEntityQuery<UserAdminRole[]>(
+    cacheKeys.userRoles(userId ?? 'none'),
+    () => getUserRoles(userId as string),
+    { enabled: enabled && Boolean(userId) && targetTabId != null },
+  );
+  const { refetch } = query;
+
+  const [targets, setTargets] = useState<Record<string, RoleTargetsState>>({});
+  const [pending, setPending] = useState<PendingRoleWrite | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+
+  // A new user starts with nothing opened and nothing armed. Adjusted during
+  // render, the pattern `useUserDetailPanes` uses for its pane reset.
+  const [stateUserId, setStateUserId] = useState<string | null>(userId);
+  if (stateUserId !== userId) {
+    setStateUserId(userId);
+    setTargets({});
+    setPending(null);
+  }
+
+  /** Read one role's targets, recording the outcome by assignment id. */
+  const readTargets = useCallback(
+    async (role: UserAdminRole): Promise<RoleTargets | null> => {
+      if (!userId) return null;
+      setTargets((prev) => ({ ...prev, [role.assignmentId]: { status: 'loading' } }));
+      try {
+        const read = await getRoleTargets(userId, role);
+        setTargets((prev) => ({ ...prev, [role.assignmentId]: { status: 'done', targets: read } }));
+        return read;
+      } catch (err) {
+        const error = err instanceof Error ? err.message : 'Failed to read role targets';
+        setTargets((prev) => ({ ...prev, [role.assignmentId]: { status: 'error', error } }));
+        throw err;
+      }
+    },
+    [userId, getRoleTargets],
+  );
+
+  const loadTargets = useCallback(
+    (role: UserAdminRole) => {
+      const current = targets[role.assignmentId];
+      if (current && current.status !== 'error') return;
+      readTargets(role).catch(() => {
+        // Recorded on the row; nothing else to do.
+      });
+    },
+    [targets, readTargets],
+  );
+
+  const requestGrant = useCallback((roleType: string) => {
+    setPending({ kind: 'grant', roleType, roleLabel: adminRoleLabel(roleType) });
+  }, []);
+  const requestRevoke = useCallback((role: UserAdminRole) => {
+    setPending({ kind: 'revoke', role });
+  }, []);
+  const cancelPending = useCallback(() => setPending(null), []);
+
+  const confirmPending = useCallback(async () => {
+    if (!user || !pending) return;
+    const write = pending;
+    setPending(null);
+    setIsWriting(true);
+
+    const subject = { id: user.id, login: user.profile.login, name: userDisplayName(user) };
+    const identity = { userId: subject.id, userLogin: subject.login, userName: subject.name };
+
+    try {
+      if (write.kind === 'grant') {
+        const result = await grantUserRole(subject, write.roleType);
+        if (!result.success) {
+          onResult({ text: result.error, type: 'danger' });
+          return;
+        }
+        await logAdminRoleAction({
+          type: 'GRANT_ADMIN_ROLE',
+          ...identity,
+          roleType: result.role.type,
+          roleLabel: result.role.label,
+          roleAssignmentId: result.role.assignmentId,
+        });
+        onResult({ text: `${result.role.label} granted to ${subject.name}.`, type: 'success' });
+      } else {
+        const { role } = write;
+        // The scope decides whether History can undo this, so it is read before
+        // the role (and its targets with it) is gone.
+        let targetCount: number | null = 0;
+        if (roleTargetKind(role.type)) {
+          const known = targets[role.assignmentId];
+          if (known?.status === 'done') {
+            targetCount = known.targets?.targets.length ?? 0;
+          } else {
+            targetCount = await readTargets(role).then(
+              (read) => read?.targets.length ?? 0,
+              () => null,
+            );
+          }
+        }
+
+        const result = await revokeUserRole(subject, role);
+        if (!result.success) {
+          onResult({ text: result.error || 'The role could not be revoked.', type: 'danger' });
+          return;
+        }
+        await logAdminRoleAction({
+          type: 'REVOKE_ADMIN_ROLE',
+          ...identity,
+          roleType: role.type,
+          roleLabel: role.label,
+          roleAssignmentId: role.assignmentId,
+          targetCount,
+        });
+        onResult({ text: `${role.label} revoked from ${subject.name}.`, type: 'success' });
+      }
+      await refetch();
+    } catch (err) {
+      onResult({
+        text: err instanceof Error ? err.message : 'An unexpected error occurred.',
+        type: 'danger',
+      });
+    } finally {
+      setIsWriting(false);
+    }
+  }, [user, pending, targets, grantUserRole, revokeUserRole, readTargets, refetch, onResult]);
+
+  const reload = useCallback(() => {
+    void refetch();
+  }, [refetch]);
+
+  return {
+    roles: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+    reload,
+    targets,
+    loadTargets,
+    canWrite: targetTabId != null,
+    pending,
+    requestGrant,
+    requestRevoke,
+    cancelPending,
+    confirmPending,
+    isWriting,
+  };
+}
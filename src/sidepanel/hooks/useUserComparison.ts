@@ -145,6 +145,12 @@ export interface UseUserComparisonOptions {
    * {@link module:sidepanel/hooks/useComparisonProfileEdit}.
    */
   onContextUserUpdated?: (user: OktaUser) => void;
+  /**
+   * A user to compare against as soon as the surface opens, skipping the search
+   * phase — the Profile pane's "compare with their manager". Applied once per
+   * open; **Change user** still returns to the search as usual.
+   */
+  initialComparedUser?: OktaUser | null;
 }
 
 /**
@@ -197,6 +203,7 @@ export function useUserComparison({
   oktaOrigin,
   onGroupsChanged,
   onContextUserUpdated,
+  initialComparedUser,
 }: UseUserComparisonOptions) {
   const { searchQuery, setSearchQuery, searchResults, isSearching, clearSearch } = useUserSearch({
     targetTabId,
@@ -221,6 +228,19 @@ export function useUserComparison({
   const [comparedUser, setComparedUser] = useState<OktaUser | null>(null);
   const [activeTab, setActiveTab] = useState<TabKey>('overview');
 
+  // Open straight onto `initialComparedUser`. Adjusted during render rather than
+  // in an effect, so the first frame of the open already shows the comparison;
+  // the key drops to `null` while closed, so the next open applies it again.
+  const initialKey = isActive ? (initialComparedUser?.id ?? null) : null;
+  const [appliedInitialKey, setAppliedInitialKey] = useState<string | null>(null);
+  if (appliedInitialKey !== initialKey) {
+    setAppliedInitialKey(initialKey);
+    if (initialKey && initialComparedUser) {
+      setComparedUser(initialComparedUser);
+      setActiveTab('overview');
+    }
+  }
+
   const { contextApps, comparedApps, isLoadingApps, appsLoaded, appsIncomplete, resetApps } =
     useComparisonApps({
       targetTabId,
@@ -77,8 +77,15 @@ import { useUserApps, type AppsByGroupId } from './useUserApps';
 import type { UserAppAssignment, UserAppsResult } from './useOktaApi/userOperations';
 import type { RuleInventoryState } from './useUserMemberships';
 
-/** Which pane of the user-detail rung is on screen. */
-export type UserDetailPane = 'groups' | 'apps' | 'profile';
+/**
+ * Which pane of the user-detail rung is on screen.
+ *
+ * `roles` and `factors` are selected here like the others, but their data is not
+ * loaded here: {@link sidepanel/hooks/useUserAdminRoles.useUserAdminRoles} and
+ * {@link sidepanel/hooks/useUserFactors.useUserFactors} read `pane` and gate
+ * themselves.
+ */
+export type UserDetailPane = 'groups' | 'apps' | 'profile' | 'roles' | 'factors';
 
 /** Options for {@link useUserDetailPanes}. */
 export interface UseUserDetailPanesOptions {
@@ -0,0 +1,184 @@
+/**
+ * @module sidepanel/hooks/useUserFactors.test
+ * @description The Factors pane's loader, its confirmed reset, and verification.
+ *
+ * Mocked at the `useOktaApi` facade and at `undoManager`, so what is pinned is
+ * the hook's own decisions: the list waits for its pane, a reset or a push runs
+ * only from the confirm, a device code skips it, a push is polled until it
+ * settles, and every ended verification is recorded in History.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`, `opfFAKE…`).
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import type { OktaUser } from '../../shared/types';
+import { FACTOR_POLL_INTERVAL_MS, type UserFactor } from '../../shared/mfa/userFactors';
+
+const api = vi.hoisted(() => ({
+  getUserFactors: vi.fn(),
+  resetUserFactor: vi.fn(),
+  startFactorVerification: vi.fn(),
+  pollFactorVerification: vi.fn(),
+  submitFactorCode: vi.fn(),
+  abandonFactorVerification: vi.fn(),
+}));
+
+vi.mock('./useOktaApi', () => ({ useOktaApi: () => api }));
+vi.mock('../../shared/undoManager', () => ({
+  logFactorResetAction: vi.fn().mockResolvedValue(undefined),
+  logFactorVerifyAction: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { useUserFactors } from './useUserFactors';
+import { resetEntityCache } from '../cache/entityCache';
+import { logFactorResetAction, logFactorVerifyAction } from '../../shared/undoManager';
+
+const user: OktaUser = {
+  id: '00uFAKE1',
+  status: 'ACTIVE',
+  profile: {
+    login: 'jane@example.com',
+    email: 'jane@example.com',
+    firstName: 'Jane',
+    lastName: 'Doe',
+  },
+};
+
+const PUSH: UserFactor = {
+  id: 'opfFAKE1',
+  factorType: 'push',
+  provider: 'OKTA',
+  status: 'ACTIVE',
+  label: 'Okta Verify Push',
+  detail: null,
+  verifyMethod: 'push',
+};
+const TOTP: UserFactor = {
+  ...PUSH,
+  id: 'ostFAKE2',
+  factorType: 'token:software:totp',
+  label: 'Okta Verify TOTP',
+  verifyMethod: 'code',
+};
+
+const subject = { id: '00uFAKE1', login: 'jane@example.com', name: 'Jane Doe' };
+const onResult = vi.fn();
+
+const renderFactors = (enabled = true) =>
+  renderHook(
+    (props: { enabled: boolean }) =>
+      useUserFactors({ user, targetTabId: 1, enabled: props.enabled, onResult }),
+    { initialProps: { enabled } },
+  );
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resetEntityCache();
+  api.getUserFactors.mockResolvedValue([PUSH, TOTP]);
+  api.resetUserFactor.mockResolvedValue({ success: true });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('useUserFactors', () => {
+  it('reads nothing until its pane is entered', async () => {
+    const { result, rerender } = renderFactors(false);
+    expect(api.getUserFactors).not.toHaveBeenCalled();
+
+    rerender({ enabled: true });
+    await waitFor(() => expect(result.current.factors).toHaveLength(2));
+    expect(api.getUserFactors).toHaveBeenCalledWith('00uFAKE1');
+  });
+
+  it('resets only from the confirm, records it and re-reads', async () => {
+    const { result } = renderFactors();
+    await waitFor(() => expect(result.current.factors).not.toBeNull());
+
+    act(() => result.current.requestReset(PUSH));
+    expect(result.current.pending).toEqual({ kind: 'reset', factor: PUSH });
+    expect(api.resetUserFactor).not.toHaveBeenCalled();
+
+    await act(() => result.current.confirmPending());
+
+    expect(api.resetUserFactor).toHaveBeenCalledWith(subject, PUSH);
+    expect(logFactorResetAction).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'RESET_FACTOR', factorId: 'opfFAKE1' }),
+    );
+    expect(onResult).toHaveBeenCalledWith(expect.objectContaining({ type: 'success' }));
+    expect(api.getUserFactors).toHaveBeenCalledTimes(2);
+  });
+
+  it('records nothing when the reset fails', async () => {
+    api.resetUserFactor.mockResolvedValue({ success: false, error: 'Forbidden' });
+    const { result } = renderFactors();
+    await waitFor(() => expect(result.current.factors).not.toBeNull());
+
+    act(() => result.current.requestReset(PUSH));
+    await act(() => result.current.confirmPending());
+
+    expect(logFactorResetAction).not.toHaveBeenCalled();
+    expect(onResult).toHaveBeenCalledWith({ text: 'Forbidden', type: 'danger' });
+  });
+
+  it('polls a confirmed push until the user approves it', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    api.startFactorVerification.mockResolvedValue({ state: 'waiting', pollPath: '/poll' });
+    api.pollFactorVerification
+      .mockResolvedValueOnce({ state: 'waiting', pollPath: '/poll' })
+      .mockResolvedValueOnce({ state: 'verified' });
+    const { result } = renderFactors();
+    await waitFor(() => expect(result.current.factors).not.toBeNull());
+
+    act(() => result.current.requestVerify(PUSH));
+    expect(api.startFactorVerification).not.toHaveBeenCalled();
+    await act(() => result.current.confirmPending());
+    expect(result.current.verification).toMatchObject({ status: 'waiting' });
+
+    await act(() => vi.advanceTimersByTimeAsync(FACTOR_POLL_INTERVAL_MS * 2));
+
+    expect(api.pollFactorVerification).toHaveBeenCalledTimes(2);
+    expect(result.current.verification).toMatchObject({ status: 'verified' });
+    expect(logFactorVerifyAction).toHaveBeenCalledWith(
+      expect.not.objectContaining({ error: expect.anything() }),
+    );
+  });
+
+  it('opens the code entry for a device code without a confirm', async () => {
+    api.submitFactorCode.mockResolvedValue({ state: 'failed', error: 'The code is not valid.' });
+    const { result } = renderFactors();
+    await waitFor(() => expect(result.current.factors).not.toBeNull());
+
+    act(() => result.current.requestVerify(TOTP));
+    expect(result.current.pending).toBeNull();
+    expect(result.current.verification).toMatchObject({ status: 'code', sent: false });
+
+    await act(() => result.current.submitCode('123456'));
+
+    expect(api.submitFactorCode).toHaveBeenCalledWith(subject, TOTP, '123456', expect.any(Number));
+    expect(result.current.verification).toMatchObject({ status: 'failed' });
+    expect(logFactorVerifyAction).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'VERIFY_FACTOR', error: 'The code is not valid.' }),
+    );
+  });
+
+  it('records a push stopped before the user answered', async () => {
+    api.startFactorVerification.mockResolvedValue({ state: 'waiting', pollPath: '/poll' });
+    api.abandonFactorVerification.mockResolvedValue({ state: 'failed', error: 'Stopped.' });
+    const { result } = renderFactors();
+    await waitFor(() => expect(result.current.factors).not.toBeNull());
+
+    act(() => result.current.requestVerify(PUSH));
+    await act(() => result.current.confirmPending());
+    act(() => result.current.stopVerification());
+
+    expect(result.current.verification).toBeNull();
+    await waitFor(() =>
+      expect(logFactorVerifyAction).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Stopped.' }),
+      ),
+    );
+    expect(api.pollFactorVerification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * @module sidepanel/hooks/useUserFactors
+ * @description The Users tab's Factors pane: the MFA factors the selected user
+ * has enrolled, the confirmed reset, and verification.
+ *
+ * ## Reads
+ *
+ * The list loads on first entry to the pane through the entity cache
+ * ({@link sidepanel/cache/keys.cacheKeys.userFactors}), gated like the Roles
+ * pane: `enabled` carries both the tab and the pane gate.
+ *
+ * ## Writes
+ *
+ * A reset is armed first (`pending`) and runs only from the confirm button, like
+ * a role revoke; so is a verification that sends something — a push, or a code
+ * by SMS, call or email. A TOTP or hardware-token verification sends nothing and
+ * opens the code entry at once. The operations write the audit entries; this
+ * hook records each reset and each ended verification in the undo history.
+ *
+ * ## Verification
+ *
+ * One at a time, as `verification`. A push is polled every
+ * {@link FACTOR_POLL_INTERVAL_MS} until the user answers, Okta times it out, or
+ * {@link FACTOR_POLL_LIMIT_MS} passes. Stopping a verification that has not
+ * ended records it as abandoned; stopping one that has only dismisses it.
+ *
+ * Phone numbers, device names and user names are tenant data: nothing here logs
+ * them.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { OktaUser } from '../../shared/types';
+import type { AlertMessageData } from '../components/shared/AlertMessage';
+import {
+  FACTOR_POLL_INTERVAL_MS,
+  FACTOR_POLL_LIMIT_MS,
+  type FactorVerification,
+  type UserFactor,
+} from '../../shared/mfa/userFactors';
+import { logFactorResetAction, logFactorVerifyAction } from '../../shared/undoManager';
+import { userDisplayName } from '../../shared/utils/userDisplay';
+import { cacheKeys } from '../cache/keys';
+import { useEntityQuery } from '../cache/useEntityQuery';
+import { useOktaApi } from './useOktaApi';
+
+/** The write awaiting confirmation. */
+export type PendingFactorWrite =
+  { kind: 'reset'; factor: UserFactor } | { kind: 'verify'; factor: UserFactor };
+
+/**
+ * The verification in progress or just ended.
+ *
+ * - `sending` — the push or code is on its way.
+ * - `waiting` — a push is out; polled until it settles.
+ * - `code` — a code is expected; `sent` when Okta sent one, `checking` while the
+ *   typed one is being checked.
+ * - `verified` / `failed` — ended, and recorded.
+ */
+export type FactorVerificationState =
+  | { factor: UserFactor; startedAt: number; status: 'sending' }
+  | { factor: UserFactor; startedAt: number; status: 'waiting'; pollPath: string }
+  | { factor: UserFactor; startedAt: number; status: 'code'; sent: boolean; checking: boolean }
+  | { factor: UserFactor; startedAt: number; status: 'verified' }
+  | { factor: UserFactor; startedAt: number; status: 'failed'; error: string };
+
+/** Options for {@link useUserFactors}. */
+export interface UseUserFactorsOptions {
+  /** The selected user, or `null` when none is. */
+  user: OktaUser | null;
+  /** The connected Okta tab; nothing loads or writes without one. */
+  targetTabId?: number;
+  /** Tab-visible and Factors-pane-selected. Gates the list read. */
+  enabled: boolean;
+  /** Publishes a reset's outcome to the tab's result banner. */
+  onResult: (message: AlertMessageData) => void;
+}
+
+/** Everything the Factors pane renders — {@link sidepanel/components/users/UserDetailPanel}'s `factors` prop. */
+export interface UserFactors {
+  /** The factors enrolled, or `null` before the first read returned. */
+  factors: UserFactor[] | null;
+  isLoading: boolean;
+  error: string | null;
+  /** Re-read the list. */
+  reload: () => void;
+  /** Whether writes are possible (a connected tab). */
+  canWrite: boolean;
+  /** The write awaiting confirmation, or `null`. Drives the confirm modal. */
+  pending: PendingFactorWrite | null;
+  requestReset: (factor: UserFactor) => void;
+  /** Arm a verification, or — for a factor with nothing to send — open the code entry. */
+  requestVerify: (factor: UserFactor) => void;
+  cancelPending: () => void;
+  /** Run the armed write (the confirm button). */
+  confirmPending: () => Promise<void>;
+  /** True while a confirmed reset is in flight. */
+  isWriting: boolean;
+  /** The verification in progress or just ended, or `null`. */
+  verification: FactorVerificationState | null;
+  /** Check the code the caller read back. */
+  submitCode: (passCode: string) => Promise<void>;
+  /** Abandon the verification in progress (recorded), or dismiss an ended one. */
+  stopVerification: () => void;
+}
+
+/**
+ * Manage the selected user's MFA factors.
+ *
+ * @param options - See {@link UseUserFactorsOptions}.
+ * @returns {@link UserFactors}.
+ */
+export function useUserFactors({
+  user,
+  targetTabId,
+  enabled,
+  onResult,
+}: UseUserFactorsOptions): UserFactors {
+  const {
+    getUserFactors,
+    resetUserFactor,
+    startFactorVerification,
+    pollFactorVerification,
+    submitFactorCode,
+    abandonFactorVerification,
+  } = useOktaApi({ targetTabId: targetTabId ?? null });
+  const userId = user?.id ?? null;
+
+  const query = useEntityQuery<UserFactor[]>(
+    cacheKeys.userFactors(userId ?? 'none'),
+    () => getUserFactors(userId as string),
+    { enabled: enabled && Boolean(userId) && targetTabId != null },
+  );
+  const { refetch } = query;
+
+  const [pending, setPending] = useState<PendingFactorWrite | null>(null);
+  const [isWriting, setIsWriting] = useState(false);
+  const [verification, setVerification] = useState<FactorVerificationState | null>(null);
+
+  // A new user starts with nothing armed and nothing being verified. Adjusted
+  // during render, the pattern `useUserAdminRoles` uses.
+  const [stateUserId, setStateUserId] = useState<string | null>(userId);
+  if (stateUserId !== userId) {
+    setStateUserId(userId);
+    setPending(null);
+    setVerification(null);
+  }
+
+  const subject = useMemo(
+    () => (user ? { id: user.id, login: user.profile.login, name: userDisplayName(user) } : null),
+    [user],
+  );
+
+  /** Show where a verification stands; record it in History once it has ended. */
+  const apply = useCallback(
+    async (factor: UserFactor, startedAt: number, next: FactorVerification) => {
+      if (next.state === 'waiting') {
+        setVerification({ factor, startedAt, status: 'waiting', pollPath: next.pollPath });
+        return;
+      }
+      if (next.state === 'challenge') {
+        setVerification({ factor, startedAt, status: 'code', sent: true, checking: false });
+        return;
+      }
+      setVerification(
+        next.state === 'verified'
+          ? { factor, startedAt, status: 'verified' }
+          : { factor, startedAt, status: 'failed', error: next.error },
+      );
+      if (!subject) return;
+      await logFactorVerifyAction({
+        type: 'VERIFY_FACTOR',
+        userId: subject.id,
+        userLogin: subject.login,
+        userName: subject.name,
+        factorId: factor.id,
+        factorType: factor.factorType,
+        factorLabel: factor.label,
+        ...(next.state === 'failed' ? { error: next.error } : {}),
+      });
+    },
+    [subject],
+  );
+
+  /** Send the push or code for a confirmed verification. */
+  const beginVerification = useCallback(
+    async (factor: UserFactor) => {
+      if (!subject) return;
+      const startedAt = Date.now();
+      setVerification({ factor, startedAt, status: 'sending' });
+      try {
+        await apply(factor, startedAt, await startFactorVerification(subject, factor));
+      } catch (err) {
+        const error = err instanceof Error ? err.message : 'The verification could not start.';
+        setVerification({ factor, startedAt, status: 'failed', error });
+      }
+    },
+    [subject, apply, startFactorVerification],
+  );
+
+  // Poll a pending push until it settles. The state is replaced only when it
+  // does, so this effect runs once per push.
+  useEffect(() => {
+    if (verification?.status !== 'waiting' || !subject) return;
+    const { factor, startedAt, pollPath } = verification;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      if (stopped) return;
+      try {
+        const next =
+          Date.now() - startedAt > FACTOR_POLL_LIMIT_MS
+            ? await abandonFactorVerification(subject, factor, startedAt)
+            : await pollFactorVerification(subject, factor, pollPath, startedAt);
+        if (stopped) return;
+        if (next.state === 'waiting') {
+          timer = setTimeout(() => void poll(), FACTOR_POLL_INTERVAL_MS);
+          return;
+        }
+        await apply(factor, startedAt, next);
+      } catch (err) {
+        if (stopped) return;
+        const error = err instanceof Error ? err.message : 'The push could not be checked.';
+        setVerification({ factor, startedAt, status: 'failed', error });
+      }
+    };
+
+    timer = setTimeout(() => void poll(), FACTOR_POLL_INTERVAL_MS);
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [verification, subject, apply, pollFactorVerification, abandonFactorVerification]);
+
+  const requestReset = useCallback((factor: UserFactor) => {
+    setPending({ kind: 'reset', factor });
+  }, []);
+
+  const requestVerify = useCallback((factor: UserFactor) => {
+    if (factor.verifyMethod === 'code') {
+      // Nothing is sent, so there is nothing to confirm: the code is already on
+      // the caller's device.
+      setVerification({
+        factor,
+        startedAt: Date.now(),
+        status: 'code',
+        sent: false,
+        checking: false,
+      });
+      return;
+    }
+    setPending({ kind: 'verify', factor });
+  }, []);
+
+  const cancelPending = useCallback(() => setPending(null), []);
+
+  const confirmPending = useCallback(async () => {
+    if (!subject || !pending) return;
+    const write = pending;
+    setPending(null);
+
+    if (write.kind === 'verify') {
+      await beginVerification(write.factor);
+      return;
+    }
+
+    const { factor } = write;
+    setIsWriting(true);
+    try {
+      const result = await resetUserFactor(subject, factor);
+      if (!result.success) {
+        onResult({ text: result.error || 'The factor could not be reset.', type: 'danger' });
+        return;
+      }
+      await logFactorResetAction({
+        type: 'RESET_FACTOR',
+        userId: subject.id,
+        userLogin: subject.login,
+        userName: subject.name,
+        factorId: factor.id,
+        factorType: factor.factorType,
+        factorLabel: factor.label,
+      });
+      onResult({ text: `${factor.label} reset for ${subject.name}.`, type: 'success' });
+      await refetch();
+    } catch (err) {
+      onResult({
+        text: err instanceof Error ? err.message : 'An unexpected error occurred.',
+        type: 'danger',
+      });
+    } finally {
+      setIsWriting(false);
+    }
+  }, [subject, pending, beginVerification, resetUserFactor, refetch, onResult]);
+
+  const submitCode = useCallback(
+    async (passCode: string) => {
+      if (!subject || verification?.status !== 'code' || !passCode.trim()) return;
+      const { factor, startedAt } = verification;
+      setVerification({ ...verification, checking: true });
+      try {
+        await apply(
+          factor,
+          startedAt,
+          await submitFactorCode(subject, factor, passCode, startedAt),
+        );
+      } catch (err) {
+        const error = err instanceof Error ? err.message : 'The code could not be checked.';
+        setVerification({ factor, startedAt, status: 'failed', error });
+      }
+    },
+    [subject, verification, apply, submitFactorCode],
+  );
+
+  const stopVerification = useCallback(() => {
+    const current = verification;
+    setVerification(null);
+    if (!subject || !current) return;
+    if (current.status === 'verified' || current.status === 'failed') return;
+    // A code entry nothing was sent for was never a challenge; closing it is
+    // not an abandoned verification.
+    if (current.status === 'code' && !current.sent) return;
+    void abandonFactorVerification(subject, current.factor, current.startedAt).then((outcome) =>
+      logFactorVerifyAction({
+        type: 'VERIFY_FACTOR',
+        userId: subject.id,
+        userLogin: subject.login,
+        userName: subject.name,
+        factorId: current.factor.id,
+        factorType: current.factor.factorType,
+        factorLabel: current.factor.label,
+        error: outcome.state === 'failed' ? outcome.error : undefined,
+      }),
+    );
+  }, [verification, subject, abandonFactorVerification]);
+
+  const reload = useCallback(() => {
+    void refetch();
+  }, [refetch]);
+
+  return {
+    factors: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+    reload,
+    canWrite: targetTabId != null,
+    pending,
+    requestReset,
+    requestVerify,
+    cancelPending,
+    confirmPending,
+    isWriting,
+    verification,
+    submitCode,
+    stopVerification,
+  };
+}
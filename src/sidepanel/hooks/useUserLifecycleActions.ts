@@ -5,14 +5,17 @@
  * Owns the pending-action + in-flight state behind the Users tab's confirmation
  * modal and runs the chosen action through `useOktaApi` (the rate-limited scheduler
  * path). On success it reports a user-facing message and, for suspend/unsuspend,
+ * records the write in the action history — where History can undo it — and
  * cheaply refreshes just the user's status (one `getUserById`) without reloading
- * memberships. Reset-password issues no refresh. Failures surface as a `danger`
- * result message; the caller owns the selected user and the result banner.
+ * memberships. Reset-password is neither recorded nor refreshed: a sent email
+ * cannot be recalled. Failures surface as a `danger` result message; the caller
+ * owns the selected user and the result banner.
  */
 
 import { useState, useCallback } from 'react';
 import type { OktaUser } from '../../shared/types';
 import { useOktaApi } from './useOktaApi';
+import { logUserStatusAction } from '../../shared/undoManager';
 
 /** User lifecycle operation triggered from the profile card. */
 export type LifecycleAction = 'suspend' | 'unsuspend' | 'resetPassword';
@@ -45,6 +48,8 @@ interface UseUserLifecycleActionsReturn {
   isLifecycleLoading: boolean;
   /** Runs the pending action (call from the confirm button). */
   confirmLifecycleAction: () => Promise<void>;
+  /** Re-reads the selected user's status, after a write made elsewhere (the bulk console). */
+  refreshStatus: () => Promise<void>;
 }
 
 const SUCCESS_MESSAGES: Record<LifecycleAction, string> = {
@@ -97,8 +102,15 @@ export function useUserLifecycleActions({
       if (result.success) {
         onResult({ text: SUCCESS_MESSAGES[action], type: 'success' });
 
-        // Refresh user status cheaply without reloading memberships
         if (action !== 'resetPassword') {
+          // Record for History's undo before the refresh, so a failed read cannot
+          // cost the entry.
+          const userName =
+            `${selectedUser.profile.firstName} ${selectedUser.profile.lastName}`.trim() ||
+            selectedUser.profile.login;
+          await logUserStatusAction(action, selectedUser.id, selectedUser.profile.login, userName);
+
+          // Refresh user status cheaply without reloading memberships
           const refreshed = await getUserById(selectedUser.id);
           if (refreshed) {
             onUserStatusRefresh(refreshed.status as OktaUser['status']);
@@ -127,10 +139,19 @@ export function useUserLifecycleActions({
     onUserStatusRefresh,
   ]);
 
+  const refreshStatus = useCallback(async () => {
+    if (!selectedUser) return;
+    const refreshed = await getUserById(selectedUser.id);
+    if (refreshed) {
+      onUserStatusRefresh(refreshed.status as OktaUser['status']);
+    }
+  }, [selectedUser, getUserById, onUserStatusRefresh]);
+
   return {
     pendingLifecycleAction,
     setPendingLifecycleAction,
     isLifecycleLoading,
     confirmLifecycleAction,
+    refreshStatus,
   };
 }
@@ -0,0 +1,115 @@
+/**
+ * @module sidepanel/hooks/useUserLinkedObjects.test
+ * @description The linked-objects section's loader.
+ *
+ * Mocked at the `useOktaApi` facade, so what is pinned is the hook's own
+ * decisions: nothing is read until the Profile pane is entered, entering it
+ * reads the selected user's own relationships and nothing further, a deeper
+ * step is read only when asked for and only once, and a cancelled step is
+ * forgotten so it can be asked for again.
+ *
+ * Fixtures use only fake placeholders (`00uFAKE…`).
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import type { OktaUser } from '../../shared/types';
+import { unreadPerson } from '../../shared/linkedObjects/linkedObjects';
+import { OperationCancelledError } from '../../shared/scheduler/cancellation';
+
+const api = vi.hoisted(() => ({
+  getLinkedObjectDefinitions: vi.fn(),
+  getLinkedUsers: vi.fn(),
+}));
+
+vi.mock('./useOktaApi', () => ({ useOktaApi: () => api }));
+
+import { useUserLinkedObjects } from './useUserLinkedObjects';
+import { resetEntityCache } from '../cache/entityCache';
+
+const user: OktaUser = {
+  id: '00uFAKE1',
+  status: 'ACTIVE',
+  profile: {
+    login: 'jane@example.com',
+    email: 'jane@example.com',
+    firstName: 'Jane',
+    lastName: 'Doe',
+  },
+};
+
+const renderLinked = (enabled = true) =>
+  renderHook(
+    (props: { enabled: boolean }) =>
+      useUserLinkedObjects({
+        user,
+        targetTabId: 1,
+        oktaOrigin: 'https://example.okta.com',
+        enabled: props.enabled,
+      }),
+    { initialProps: { enabled } },
+  );
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resetEntityCache();
+  api.getLinkedObjectDefinitions.mockResolvedValue([
+    { primary: { name: 'manager', title: 'Manager' }, associated: { name: 'subordinate' } },
+  ]);
+  api.getLinkedUsers.mockImplementation(async (userId: string, relationship: string) =>
+    relationship === 'manager' && userId === '00uFAKE1' ? [unreadPerson('00uFAKE2')] : [],
+  );
+});
+
+describe('useUserLinkedObjects', () => {
+  it('reads nothing until its pane is entered, then only the user’s own relationships', async () => {
+    const { result, rerender } = renderLinked(false);
+    expect(api.getLinkedObjectDefinitions).not.toHaveBeenCalled();
+
+    rerender({ enabled: true });
+    await waitFor(() =>
+      expect(result.current.steps['00uFAKE1:manager']).toMatchObject({ status: 'done' }),
+    );
+    await waitFor(() =>
+      expect(result.current.steps['00uFAKE1:subordinate']).toMatchObject({ status: 'done' }),
+    );
+    expect(api.getLinkedUsers.mock.calls).toEqual([
+      ['00uFAKE1', 'manager'],
+      ['00uFAKE1', 'subordinate'],
+    ]);
+  });
+
+  it('reads a further step only when asked, and only once', async () => {
+    const { result } = renderLinked();
+    await waitFor(() =>
+      expect(result.current.steps['00uFAKE1:manager']).toMatchObject({ status: 'done' }),
+    );
+
+    act(() => result.current.loadStep('00uFAKE2', 'manager'));
+    await waitFor(() =>
+      expect(result.current.steps['00uFAKE2:manager']).toEqual({ status: 'done', people: [] }),
+    );
+    act(() => result.current.loadStep('00uFAKE2', 'manager'));
+
+    expect(api.getLinkedUsers.mock.calls.filter(([id]) => id === '00uFAKE2')).toHaveLength(1);
+  });
+
+  it('records a failure on its step and forgets a cancelled one', async () => {
+    const { result } = renderLinked();
+    await waitFor(() =>
+      expect(result.current.steps['00uFAKE1:manager']).toMatchObject({ status: 'done' }),
+    );
+
+    api.getLinkedUsers.mockRejectedValueOnce(new Error('Forbidden'));
+    act(() => result.current.loadStep('00uFAKE2', 'manager'));
+    await waitFor(() =>
+      expect(result.current.steps['00uFAKE2:manager']).toEqual({
+        status: 'error',
+        error: 'Forbidden',
+      }),
+    );
+
+    api.getLinkedUsers.mockRejectedValueOnce(new OperationCancelledError());
+    act(() => result.current.loadStep('00uFAKE2', 'manager'));
+    await waitFor(() => expect(result.current.steps['00uFAKE2:manager']).toBeUndefined());
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * @module sidepanel/hooks/useUserLinkedObjects
+ * @description The Profile pane's linked-objects section: the org's
+ * relationship definitions, the selected user's linked users, and the org-chart
+ * walk up and down from them.
+ *
+ * ## Reads
+ *
+ * The definitions are org-wide and load once per org through the entity cache
+ * ({@link sidepanel/cache/keys.cacheKeys.linkedObjectDefinitions}). Entering the
+ * Profile pane then reads each relationship of the selected user — for the usual
+ * single `manager` definition, one request each for their manager and their
+ * reports. Every step beyond that is read only when the admin asks for it, one
+ * relationship of one user at a time ({@link loadStep}), so walking a deep chain
+ * costs what the admin chose to see and nothing more.
+ *
+ * A step is cached per user and relationship
+ * ({@link sidepanel/cache/keys.cacheKeys.linkedUsers}), so a walk that passes
+ * the same manager twice, or a second open of the same user, reads nothing. A
+ * cancelled step is forgotten rather than recorded as failed, so it can simply
+ * be asked for again.
+ *
+ * Names and logins are tenant data: nothing here logs them.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { OktaUser } from '../../shared/types';
+import type { OktaLinkedObjectDefinition } from '../../shared/schemas/okta';
+import {
+  linkedRelationships,
+  linkedStepKey,
+  type LinkedPerson,
+  type LinkedRelationship,
+  type LinkedStep,
+} from '../../shared/linkedObjects/linkedObjects';
+import { OperationCancelledError } from '../../shared/scheduler/cancellation';
+import { getOrFetch } from '../cache/entityCache';
+import { cacheKeys, TTL_LONG } from '../cache/keys';
+import { useEntityQuery } from '../cache/useEntityQuery';
+import { useOktaApi } from './useOktaApi';
+
+/** Options for {@link useUserLinkedObjects}. */
+export interface UseUserLinkedObjectsOptions {
+  /** The selected user, or `null` when none is. */
+  user: OktaUser | null;
+  /** The connected Okta tab; nothing loads without one. */
+  targetTabId?: number;
+  /** The connected org's origin; scopes the cached definitions. */
+  oktaOrigin: string | null;
+  /** Tab-visible and Profile-pane-selected. Gates every read. */
+  enabled: boolean;
+}
+
+/** Everything the linked-objects section renders — {@link sidepanel/components/users/UserDetailPanel}'s `linkedObjects` prop. */
+export interface UserLinkedObjects {
+  /** Both directions of every definition, `up` first; empty when the org defines none. */
+  relationships: LinkedRelationship[];
+  /** True while the definitions are loading with nothing cached. */
+  isLoading: boolean;
+  /** Why the definitions could not be read, or `null`. */
+  error: string | null;
+  /** Every step read or asked for, by `linkedStepKey`. */
+  steps: Readonly<Record<string, LinkedStep>>;
+  /** Read one relationship of one user (no-op once read or in flight; retries a failure). */
+  loadStep: (userId: string, relationship: string) => void;
+}
+
+/**
+ * Manage the selected user's linked objects and the walk from them.
+ *
+ * @param options - See {@link UseUserLinkedObjectsOptions}.
+ * @returns {@link UserLinkedObjects}.
+ */
+export function useUserLinkedObjects({
+  user,
+  targetTabId,
+  oktaOrigin,
+  enabled,
+}: UseUserLinkedObjectsOptions): UserLinkedObjects {
+  const { getLinkedObjectDefinitions, getLinkedUsers } = useOktaApi({
+    targetTabId: targetTabId ?? null,
+  });
+  const userId = user?.id ?? null;
+  const canRead = enabled && targetTabId != null;
+
+  const definitions = useEntityQuery<OktaLinkedObjectDefinition[]>(
+    cacheKeys.linkedObjectDefinitions(oktaOrigin),
+    getLinkedObjectDefinitions,
+    { ttl: TTL_LONG, enabled: canRead },
+  );
+  const relationships = useMemo(
+    () => linkedRelationships(definitions.data ?? []),
+    [definitions.data],
+  );
+
+  const [steps, setSteps] = useState<Record<string, LinkedStep>>({});
+
+  // A new user starts a new walk. Adjusted during render, the pattern
+  // `useUserDetailPanes` uses for its pane reset.
+  const [stepsUserId, setStepsUserId] = useState<string | null>(userId);
+  if (stepsUserId !== userId) {
+    setStepsUserId(userId);
+    setSteps({});
+  }
+
+  /** Read a step and record its outcome; records nothing until it settles. */
+  const readStep = useCallback(
+    (stepUserId: string, relationship: string) => {
+      const key = linkedStepKey(stepUserId, relationship);
+      getOrFetch<LinkedPerson[]>(cacheKeys.linkedUsers(stepUserId, relationship), () =>
+        getLinkedUsers(stepUserId, relationship),
+      ).then(
+        (people) => setSteps((prev) => ({ ...prev, [key]: { status: 'done', people } })),
+        (err: unknown) =>
+          setSteps((prev) => {
+            if (err instanceof OperationCancelledError) {
+              const rest = { ...prev };
+              delete rest[key];
+              return rest;
+            }
+            const error = err instanceof Error ? err.message : 'Failed to read linked users';
+            return { ...prev, [key]: { status: 'error', error } };
+          }),
+      );
+    },
+    [getLinkedUsers],
+  );
+
+  const loadStep = useCallback(
+    (stepUserId: string, relationship: string) => {
+      const key = linkedStepKey(stepUserId, relationship);
+      const current = steps[key];
+      if (current && current.status !== 'error') return;
+      setSteps((prev) => ({ ...prev, [key]: { status: 'loading' } }));
+      readStep(stepUserId, relationship);
+    },
+    [steps, readStep],
+  );
+
+  // The selected user's own relationships load with the pane; anything further
+  // is the admin's call. Only steps never asked for are started — the cache
+  // de-duplicates one already in flight — so a failure stays on screen instead
+  // of retrying in a loop.
+  useEffect(() => {
+    if (!canRead || !userId) return;
+    for (const relationship of relationships) {
+      if (!steps[linkedStepKey(userId, relationship.name)]) readStep(userId, relationship.name);
+    }
+  }, [canRead, userId, relationships, steps, readStep]);
+
+  // Those first steps are in flight from the moment the effect starts them, so
+  // they read as loading rather than as absent.
+  const shownSteps = useMemo(() => {
+    if (!canRead || !userId) return steps;
+    const shown: Record<string, LinkedStep> = { ...steps };
+    for (const relationship of relationships) {
+      const key = linkedStepKey(userId, relationship.name);
+      shown[key] ??= { status: 'loading' };
+    }
+    return shown;
+  }, [canRead, userId, relationships, steps]);
+
+  return {
+    relationships,
+    isLoading: definitions.isLoading,
+    error: definitions.error,
+    steps: shownSteps,
+    loadStep,
+  };
+}
@@ -24,6 +24,7 @@ vi.mock('./getUserGroupsRequest', () => ({
 }));
 vi.mock('./fetchGroupRulesRequest', () => ({
   fetchGroupRulesRequest: vi.fn(),
+  loadCachedGroupNames: vi.fn(async () => new Map<string, string>()),
 }));
 vi.mock('../../shared/rulesCache', () => ({
   RulesCache: { get: vi.fn(), isFresh: vi.fn(), getRulesForGroup: vi.fn() },
@@ -59,6 +59,7 @@ import type { AlertAction, AlertMessageData } from '../components/shared/AlertMe
 import { invalidate } from '../cache/entityCache';
 import { useOktaApi } from './useOktaApi';
 import type { MemberRuleAttribution } from '../../shared/membership/memberRuleAttribution';
+import type { MembershipTimeline } from '../../shared/membership/membershipTimeline';
 import { cacheKeys } from '../cache/keys';
 import { userDisplayName } from '../../shared/utils/userDisplay';
 import { useUserContext } from './useUserContext';
@@ -69,6 +70,9 @@ import { useUserLifecycleActions } from './useUserLifecycleActions';
 import { useAddToGroup } from './useAddToGroup';
 import { useViewStack, type ViewStack } from './useViewStack';
 import { useUserDetailPanes, type UseUserDetailPanesReturn } from './useUserDetailPanes';
+import { useUserAdminRoles, type UserAdminRoles } from './useUserAdminRoles';
+import { useUserFactors, type UserFactors } from './useUserFactors';
+import { useUserLinkedObjects, type UserLinkedObjects } from './useUserLinkedObjects';
 import { useUsersTabProfileEdit, type UserProfileEditing } from './useUsersTabProfileEdit';
 
 /** Options for {@link useUsersTabState}. */
@@ -83,6 +87,11 @@ export interface UseUsersTabStateOptions {
   selectedUserId?: string | null;
   /** Invoked once {@link UseUsersTabStateOptions.selectedUserId} has been consumed. */
   onUserSelected?: () => void;
+  /**
+   * With {@link UseUsersTabStateOptions.selectedUserId}, also push the comparison
+   * view once that user has loaded (the ⌘K palette's "Compare with…").
+   */
+  compareSelectedUser?: boolean;
   /**
    * Whether the Users tab is the selected top-level tab. Gates live page-context
    * re-detection, the search debounce and the Add-to-Group type-ahead so a hidden
@@ -188,8 +197,21 @@ export interface UseUsersTabStateReturn {
    * One request per call, so it is only ever invoked from that press.
    */
   proveMembershipSource?: (groupId: string) => Promise<MemberRuleAttribution>;
+  /**
+   * Reads when and by whom one of the selected user's memberships changed.
+   * `undefined` without a selected user or a connected tab, like
+   * {@link UseUsersTabStateReturn.proveMembershipSource}, and for the same reason.
+   */
+  loadMembershipTimeline?: (group: { id: string; name: string }) => Promise<MembershipTimeline>;
   /** Pushes the comparison view for the selected user. No-op without one. */
   openCompare: () => void;
+  /**
+   * Pushes the comparison view already comparing against `user` — the Profile
+   * pane's linked-objects section offers it for a manager or a report.
+   */
+  compareWith: (user: OktaUser) => void;
+  /** The user {@link UseUsersTabStateReturn.compareWith} opened the comparison on, or `null`. */
+  comparedWith: OktaUser | null;
   /** Pops the comparison view, returning to the search + profile body. */
   closeCompare: () => void;
   /**
@@ -217,6 +239,22 @@ export interface UseUsersTabStateReturn {
    * orchestrator gains one field rather than three hooks' worth of state.
    */
   profileEdit: UserProfileEditing;
+  /**
+   * The Roles pane: the administrator roles the selected user holds, and the
+   * confirmed grant and revoke. Loads on first entry to that pane, like Apps.
+   */
+  adminRoles: UserAdminRoles;
+  /**
+   * The Factors pane: the selected user's MFA factors, the confirmed reset, and
+   * verification. Loads on first entry to that pane, like Roles.
+   */
+  factors: UserFactors;
+  /**
+   * The Profile pane's linked-objects section: the selected user's manager,
+   * reports and any other relationship the org defines, and the walk from them.
+   * Loads with the Profile pane; every step further is read on request.
+   */
+  linkedObjects: UserLinkedObjects;
   /**
    * Publishes a profile save made *outside* the Profile pane — today, the
    * Compare rung's left column, which edits this same `selectedUser`.
@@ -263,6 +301,7 @@ export function useUsersTabState({
   targetTabId,
   selectedUserId,
   onUserSelected,
+  compareSelectedUser = false,
   isActive = true,
   compareViewRef,
 }: UseUsersTabStateOptions): UseUsersTabStateReturn {
@@ -424,15 +463,27 @@ export function useUsersTabState({
     setSearchQuery('');
   }, [setSearchResults, setSearchQuery]);
 
+  // The user on the Compare rung's right-hand side, if one was picked up front.
+  const [comparedWith, setComparedWith] = useState<OktaUser | null>(null);
+  // A deep link's pending "Compare with…": the user it waits for to load.
+  const pendingCompareRef = useRef<string | null>(null);
+
   // The detected-user banner and the cross-tab deep link both select a user
   // without going through `handleSelectUser`, so they open the detail rung here.
   // `null` means the selection was cleared, which is the root's business.
   const onDetectedUserSelected = useCallback(
     (user: OktaUser | null) => {
       setSelectedUser(user);
-      if (user) showUserDetail(user);
+      if (!user) return;
+      showUserDetail(user);
+      // A "Compare with…" deep link lands one rung further, on the comparison.
+      if (pendingCompareRef.current === user.id) {
+        pendingCompareRef.current = null;
+        setComparedWith(null);
+        pushView({ kind: 'compare', userId: user.id, userName: userDisplayName(user) });
+      }
     },
-    [showUserDetail],
+    [showUserDetail, pushView],
   );
 
   const { loadDetectedUser, loadUserById } = useDetectedUser({
@@ -457,12 +508,13 @@ export function useUsersTabState({
     }
     if (selectedUserId === requestedUserRef.current) return;
     requestedUserRef.current = selectedUserId;
+    pendingCompareRef.current = compareSelectedUser ? selectedUserId : null;
     // The deep-link contract targets a *profile*, so pop any pushed comparison
     // first — otherwise the body it loads into is hidden behind that view.
     resetNav();
     loadUserById(selectedUserId);
     onUserSelected?.();
-  }, [selectedUserId, loadUserById, onUserSelected, resetNav]);
+  }, [selectedUserId, compareSelectedUser, loadUserById, onUserSelected, resetNav]);
 
   // Show the detected-user banner only when the page's user differs from the one
   // explicitly selected and hasn't been dismissed — never while searching.
@@ -533,9 +585,12 @@ export function useUsersTabState({
     setResultAction(null);
   }, []);
 
-  // §8: this orchestrator owns one scheduler-routed read of its own — the
-  // per-membership proof, which needs both the selected user and a live tab.
-  const { getMembershipRuleProof } = useOktaApi({ targetTabId: targetTabId ?? null });
+  // §8: this orchestrator owns two scheduler-routed reads of its own — the
+  // per-membership proof and history, which need both the selected user and a
+  // live tab.
+  const { getMembershipRuleProof, getMembershipTimeline } = useOktaApi({
+    targetTabId: targetTabId ?? null,
+  });
   const proveMembershipSource = useMemo(
     () =>
       selectedUser && targetTabId
@@ -543,6 +598,13 @@ export function useUsersTabState({
         : undefined,
     [selectedUser, targetTabId, getMembershipRuleProof],
   );
+  const loadMembershipTimeline = useMemo(
+    () =>
+      selectedUser && targetTabId
+        ? (group: { id: string; name: string }) => getMembershipTimeline(selectedUser.id, group)
+        : undefined,
+    [selectedUser, targetTabId, getMembershipTimeline],
+  );
 
   // The detail rung's panes. Both of its loads are gated on their own pane and on
   // `isActive`, so opening a user pays for Groups only and a hidden tab pays for
@@ -576,11 +638,45 @@ export function useUsersTabState({
     onResult: publishResult,
   });
 
+  // Administrator roles, gated on their own pane like Apps and Profile.
+  const adminRoles = useUserAdminRoles({
+    user: selectedUser,
+    targetTabId,
+    enabled: isActive && panes.pane === 'roles',
+    onResult: publishResult,
+  });
+
+  // MFA factors, gated on their own pane like Roles.
+  const factors = useUserFactors({
+    user: selectedUser,
+    targetTabId,
+    enabled: isActive && panes.pane === 'factors',
+    onResult: publishResult,
+  });
+
+  // Linked objects share the Profile pane's gate.
+  const linkedObjects = useUserLinkedObjects({
+    user: selectedUser,
+    targetTabId,
+    oktaOrigin,
+    enabled: isActive && panes.pane === 'profile',
+  });
+
   const { pop: popCompare } = nav;
-  const openCompare = useCallback(() => {
-    if (!selectedUser) return;
-    pushView({ kind: 'compare', userId: selectedUser.id, userName: userDisplayName(selectedUser) });
-  }, [selectedUser, pushView]);
+  const pushCompare = useCallback(
+    (withUser: OktaUser | null) => {
+      if (!selectedUser) return;
+      setComparedWith(withUser);
+      pushView({
+        kind: 'compare',
+        userId: selectedUser.id,
+        userName: userDisplayName(selectedUser),
+      });
+    },
+    [selectedUser, pushView],
+  );
+  const openCompare = useCallback(() => pushCompare(null), [pushCompare]);
+  const compareWith = useCallback((user: OktaUser) => pushCompare(user), [pushCompare]);
   const closeCompare = popCompare;
 
   return {
@@ -606,13 +702,19 @@ export function useUsersTabState({
     isDetailOpen,
     isCompareOpen,
     proveMembershipSource,
+    loadMembershipTimeline,
     openCompare,
+    compareWith,
+    comparedWith,
     closeCompare,
     refreshSelectedUserMemberships,
     lifecycle,
     addToGroup,
     panes,
     profileEdit,
+    adminRoles,
+    factors,
+    linkedObjects,
     applySelectedUserUpdate: setSelectedUser,
     confirmAddToGroup,
     recentlyAddedGroupId,
@@ -0,0 +1,192 @@
+/**
+ * @module sidepanel/hooks/useWatchlist
+ * @description React bindings over {@link module:shared/storage/watchlistStore}:
+ * {@link useWatchlist} for the Overview's Changes feed, and {@link useWatchToggle}
+ * for the Watch button on a group, rule or user.
+ *
+ * The panel only pins, unpins and marks changes seen; the service worker checks
+ * (`background/watchlist`). Every change to the watchlist is followed by
+ * `watchlistChanged`, so the worker sets its alarm, redraws the badge, and takes
+ * the baseline of a newly pinned entity. The feed refreshes when the worker
+ * broadcasts `watchlistChecked`.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  watchKey,
+  type WatchChange,
+  type WatchKind,
+  type WatchedItem,
+} from '@/shared/watchlist/watchlist';
+import { watchlistStore } from '@/shared/storage/watchlistStore';
+import { createLogger } from '@/shared/utils/logger';
+
+const log = createLogger('useWatchlist');
+
+/**
+ * Tell the worker the watchlist changed. Not awaited by callers: the worker
+ * answers only after taking any new baseline, which costs a request per entity.
+ */
+async function notifyWorker(): Promise<void> {
+  try {
+    await chrome.runtime.sendMessage({ action: 'watchlistChanged' });
+  } catch (error) {
+    log.error('Failed to sync the watchlist:', error);
+  }
+}
+
+/** Re-run `refresh` whenever the worker finishes a check. */
+function useWatchlistChecked(refresh: () => Promise<void>): void {
+  useEffect(() => {
+    void refresh();
+
+    const listener = (message: { action?: string }) => {
+      if (message?.action === 'watchlistChecked') void refresh();
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => {
+      chrome.runtime.onMessage.removeListener(listener);
+    };
+  }, [refresh]);
+}
+
+/** What {@link useWatchlist} returns. */
+export interface UseWatchlist {
+  /** Pinned entities, oldest first. */
+  items: WatchedItem[];
+  /** Detected changes, newest first. */
+  changes: WatchChange[];
+  /** Changes not yet marked seen. */
+  unseenCount: number;
+  /** Whether a check raises a Chrome notification. */
+  notify: boolean;
+  setNotify: (notify: boolean) => Promise<void>;
+  /** Unpin an entity. */
+  remove: (key: string) => Promise<void>;
+  /** Mark every change seen and clear the badge. */
+  markAllSeen: () => Promise<void>;
+  /** Check every pinned entity now. */
+  checkNow: () => Promise<void>;
+  /** Whether a "Check now" is waiting on the worker. */
+  isChecking: boolean;
+}
+
+/**
+ * Manage the watchlist and its change feed.
+ *
+ * @returns The feed and its operations (see {@link UseWatchlist}).
+ */
+export function useWatchlist(): UseWatchlist {
+  const [items, setItems] = useState<WatchedItem[]>([]);
+  const [changes, setChanges] = useState<WatchChange[]>([]);
+  const [notify, setNotifyState] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const refresh = useCallback(async () => {
+    const [nextItems, nextChanges, settings] = await Promise.all([
+      watchlistStore.listItems(),
+      watchlistStore.listChanges(),
+      watchlistStore.getSettings(),
+    ]);
+    setItems(nextItems);
+    setChanges(nextChanges);
+    setNotifyState(settings.notify);
+  }, []);
+
+  useWatchlistChecked(refresh);
+
+  const setNotify = useCallback(async (next: boolean) => {
+    setNotifyState(next);
+    await watchlistStore.saveSettings({ notify: next });
+  }, []);
+
+  const remove = useCallback(
+    async (key: string) => {
+      await watchlistStore.removeItem(key);
+      void notifyWorker();
+      await refresh();
+    },
+    [refresh],
+  );
+
+  const markAllSeen = useCallback(async () => {
+    await watchlistStore.markAllSeen();
+    void notifyWorker();
+    await refresh();
+  }, [refresh]);
+
+  const checkNow = useCallback(async () => {
+    setIsChecking(true);
+    try {
+      await chrome.runtime.sendMessage({ action: 'checkWatchlistNow' });
+    } catch (error) {
+      log.error('Failed to check the watchlist:', error);
+    } finally {
+      setIsChecking(false);
+      await refresh();
+    }
+  }, [refresh]);
+
+  const unseenCount = changes.filter((change) => !change.seen).length;
+
+  return {
+    items,
+    changes,
+    unseenCount,
+    notify,
+    setNotify,
+    remove,
+    markAllSeen,
+    checkNow,
+    isChecking,
+  };
+}
+
+/** What {@link useWatchToggle} returns. */
+export interface UseWatchToggle {
+  isWatched: boolean;
+  /** Whether it can be pinned: the org it belongs to is known. Unpinning always can. */
+  canWatch: boolean;
+  /** Pin or unpin the entity. */
+  toggle: () => Promise<void>;
+}
+
+/**
+ * Pin or unpin one entity.
+ *
+ * @param kind - The entity kind.
+ * @param id - The Okta id.
+ * @param name - The display name to pin it under.
+ * @param origin - The org's origin, stored with the pin so the checks read it
+ *   only through that org's tab; `null` while unknown, when it cannot be pinned.
+ * @returns Whether it is pinned, whether it can be, and the toggle.
+ */
+export function useWatchToggle(
+  kind: WatchKind,
+  id: string,
+  name: string,
+  origin: string | null,
+): UseWatchToggle {
+  const key = watchKey(kind, id);
+  const [isWatched, setIsWatched] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsWatched((await watchlistStore.getItem(key)) !== null);
+  }, [key]);
+
+  useWatchlistChecked(refresh);
+
+  const toggle = useCallback(async () => {
+    if (isWatched) {
+      await watchlistStore.removeItem(key);
+    } else if (origin) {
+      await watchlistStore.addItem({ key, kind, id, origin, name, addedAt: new Date() });
+    } else {
+      return;
+    }
+    void notifyWorker();
+    await refresh();
+  }, [isWatched, key, kind, id, origin, name, refresh]);
+
+  return { isWatched, canWatch: isWatched || Boolean(origin), toggle };
+}
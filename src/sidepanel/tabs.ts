@@ -12,7 +12,16 @@ import type { IconType } from './components/overview/shared/Icon';
 
 /** Identifier for each top-level side-panel tab. */
 export type TabType =
-  'overview' | 'rules' | 'users' | 'groups' | 'apps' | 'policies' | 'export' | 'history';
+  | 'overview'
+  | 'rules'
+  | 'users'
+  | 'groups'
+  | 'apps'
+  | 'policies'
+  | 'export'
+  | 'logs'
+  | 'console'
+  | 'history';
 
 /** One top-level tab: its stable id, its visible label, and its rail glyph. */
 export interface TabDef {
@@ -48,6 +57,8 @@ export const TAB_DEFS: ReadonlyArray<TabDef> = [
   { id: 'rules', label: 'Rules', icon: 'bolt' },
   { id: 'policies', label: 'Policies', icon: 'shield' },
   { id: 'export', label: 'Export', icon: 'download' },
+  { id: 'logs', label: 'Logs', icon: 'list' },
+  { id: 'console', label: 'API', icon: 'code' },
   { id: 'history', label: 'History', icon: 'clipboard' },
 ];
 
@@ -16,6 +16,7 @@
  */
 import { vi } from 'vitest';
 import type { CoreApi } from '@/sidepanel/hooks/useOktaApi/core';
+import { runBatch } from '@/shared/scheduler/runBatch';
 
 /** The signed-in admin the fake `getCurrentUser` resolves to. Fake placeholder. */
 export const FAKE_ADMIN = { email: 'admin@example.com', id: 'admin' } as const;
@@ -107,3 +108,36 @@ export function sequentialRunOperation() {
     },
   );
 }
+
+/**
+ * A `runOperation` backed by the real {@link runBatch}, one item at a time.
+ *
+ * Use it when the operation under test passes batch options through —
+ * `stopOnError`, skipped items, the per-item start/settled hooks — and the
+ * assertions depend on them behaving as they do in the panel, which
+ * {@link sequentialRunOperation} does not model. Concurrency is pinned to 1 so
+ * the order of requests is deterministic.
+ *
+ * @returns A `vi.fn()` suitable for `makeFakeCore({ runOperation: … })`.
+ */
+export function batchRunOperation() {
+  return vi.fn(
+    (
+      _name: string,
+      items: unknown[],
+      task: (item: unknown, index: number) => Promise<unknown>,
+      options: Parameters<typeof runBatch>[2],
+    ) => runBatch(items, task, { ...options, concurrency: 1 }),
+  );
+}
+
+/**
+ * A fake {@link CoreApi} whose `runOperation` is {@link batchRunOperation}: the
+ * core the journaled and 403-halting batch suites share.
+ *
+ * @param overrides - Fields to replace on the returned fake.
+ * @returns A `CoreApi` that runs batches through the real runner, one item at a time.
+ */
+export function makeBatchCore(overrides: FakeCoreOverrides = {}): CoreApi {
+  return makeFakeCore({ runOperation: batchRunOperation(), ...overrides });
+}